@@ -0,0 +1,45 @@
+/*
+ * Web Push handlers, pulled into the generated Workbox service worker via
+ * workbox.importScripts in vite.config.ts.
+ *
+ * Payloads come from supabase/functions/_shared/pushDelivery.ts:
+ *   { title, body, url, tag }
+ */
+
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch (_err) {
+    data = { body: event.data ? event.data.text() : '' };
+  }
+
+  const title = data.title || 'MOLITICO. alert';
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: data.body || '',
+      icon: '/pwa-192x192.png',
+      badge: '/pwa-192x192.png',
+      tag: data.tag,
+      renotify: Boolean(data.tag),
+      data: { url: data.url || '/client/alerts' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const target = new URL(event.notification.data?.url || '/client/alerts', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      // Reuse an open tab of the app if there is one
+      for (const client of windows) {
+        if (new URL(client.url).origin === self.location.origin && 'focus' in client) {
+          return client.navigate(target).then((navigated) => (navigated || client).focus());
+        }
+      }
+      return self.clients.openWindow(target);
+    })
+  );
+});
@@ -57,6 +57,7 @@ const Profile = lazy(() => import("./pages/Profile"));
 // Client portal pages (lazy loaded)
 const ClientLogin = lazy(() => import("./pages/ClientLogin"));
 const ClientDashboard = lazy(() => import("./pages/ClientDashboard"));
+const ClientCustomDashboard = lazy(() => import("./pages/ClientCustomDashboard"));
 const ClientWatchlist = lazy(() => import("./pages/ClientWatchlist"));
 const ClientAlerts = lazy(() => import("./pages/ClientAlerts"));
 const ClientActions = lazy(() => import("./pages/ClientActions"));
@@ -169,6 +170,7 @@ const AppContent = () => {
         <Suspense fallback={<PageLoader />}>
           <Routes>
             <Route path="/" element={<Index />} />
+            <Route path="/r/:org/l/:link" element={<Redirect />} />
             <Route path="/r/:org/:form" element={<Redirect />} />
             <Route path="/r" element={<Redirect />} />
             <Route path="/about" element={<About />} />
@@ -201,7 +203,7 @@ const AppContent = () => {
             <Route path="/client/portal" element={<Navigate to="/client/dashboard" replace />} />
             <Route path="/client-portal" element={<Navigate to="/client/dashboard" replace />} />
             {/* Redirect deprecated custom dashboard route */}
-            <Route path="/client/dashboard/custom" element={<Navigate to="/client/dashboard" replace />} />
+            <Route path="/client/dashboard/custom" element={<ClientCustomDashboard />} />
             <Route path="/client/watchlist" element={<ClientWatchlist />} />
             <Route path="/client/alerts" element={<ClientAlerts />} />
             <Route path="/client/actions" element={<ClientActions />} />
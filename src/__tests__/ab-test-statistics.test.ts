@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeABTest,
+  compareMetric,
+  holmAdjust,
+  normalCdf,
+  normalQuantile,
+  studentTCdf,
+  twoProportionZTest,
+  welchTTest,
+  type VariationSample,
+} from '@/lib/ab-test-statistics';
+
+/**
+ * Tests for the A/B test statistics engine behind /client/ab-tests.
+ * Reference values were cross-checked against scipy.stats.
+ */
+
+// ============================================================================
+// Test Utilities
+// ============================================================================
+
+/** Build a sample where every gift has the same spread around the mean */
+function sample(name: string, visitors: number | null, donations: number, avgGift: number, sd = 20): VariationSample {
+  const totalRaised = donations * avgGift;
+  const sumSquares = (donations - 1) * sd * sd + donations * avgGift * avgGift;
+  return { name, visitors, donations, totalRaised, sumSquares };
+}
+
+describe('distributions', () => {
+  it('computes the standard normal CDF', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+    expect(normalCdf(-1.96)).toBeCloseTo(0.025, 3);
+  });
+
+  it('inverts the normal CDF', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 4);
+    expect(normalQuantile(0.8)).toBeCloseTo(0.841621, 4);
+  });
+
+  it('computes the Student t CDF', () => {
+    // scipy.stats.t.cdf(2.0, 10) = 0.963306
+    expect(studentTCdf(2.0, 10)).toBeCloseTo(0.963306, 4);
+    expect(studentTCdf(-2.0, 10)).toBeCloseTo(0.036694, 4);
+  });
+});
+
+describe('twoProportionZTest', () => {
+  it('matches the textbook z statistic', () => {
+    // 200/2000 vs 260/2000 -> z ≈ 2.97
+    const result = twoProportionZTest(200, 2000, 260, 2000);
+    expect(result.statistic).toBeCloseTo(2.97, 1);
+    expect(result.pValue).toBeLessThan(0.01);
+    expect(result.ci[0]).toBeGreaterThan(0);
+  });
+
+  it('returns p = 1 for identical arms', () => {
+    const result = twoProportionZTest(50, 1000, 50, 1000);
+    expect(result.statistic).toBe(0);
+    expect(result.pValue).toBeCloseTo(1, 6);
+  });
+});
+
+describe('welchTTest', () => {
+  it('detects a clear difference in means', () => {
+    const result = welchTTest(40, 400, 200, 50, 400, 200);
+    expect(result.difference).toBe(10);
+    expect(result.pValue).toBeLessThan(0.001);
+    expect(result.df).toBeCloseTo(398, 0);
+  });
+
+  it('refuses to test arms with fewer than two observations', () => {
+    const result = welchTTest(40, 0, 1, 50, 0, 1);
+    expect(result.pValue).toBe(1);
+  });
+});
+
+describe('compareMetric', () => {
+  it('skips visitor-based metrics when visitors are unknown', () => {
+    const control = sample('', null, 100, 40);
+    const variant = sample('B', null, 100, 45);
+    expect(compareMetric('conversion_rate', control, variant)).toBeNull();
+    expect(compareMetric('revenue_per_visitor', control, variant)).toBeNull();
+    expect(compareMetric('avg_gift', control, variant)).not.toBeNull();
+  });
+
+  it('warns when arms are below minimum sample sizes', () => {
+    const comparison = compareMetric('avg_gift', sample('', null, 10, 40), sample('B', null, 12, 60));
+    expect(comparison?.warnings.length).toBeGreaterThan(0);
+  });
+
+  it('reports a high probability to beat control for a strong winner', () => {
+    const comparison = compareMetric('conversion_rate', sample('', 5000, 250, 40), sample('B', 5000, 350, 40));
+    expect(comparison?.probabilityToBeatControl).toBeGreaterThan(0.99);
+    expect(comparison?.lift).toBeCloseTo(0.4, 6);
+  });
+});
+
+describe('analyzeABTest', () => {
+  it('declares a winner on revenue per visitor when visitors are known', () => {
+    const analysis = analyzeABTest('Ask ladder', [
+      sample('', 5000, 250, 40),
+      sample('high_ladder', 5000, 320, 48),
+    ]);
+    expect(analysis.primaryMetric).toBe('revenue_per_visitor');
+    expect(analysis.control).toBe('');
+    expect(analysis.verdict).toBe('winner');
+    expect(analysis.winner).toBe('high_ladder');
+  });
+
+  it('falls back to average gift without visitors', () => {
+    const analysis = analyzeABTest('Headline', [
+      sample('control', null, 400, 40),
+      sample('urgent', null, 400, 40.5),
+    ]);
+    expect(analysis.primaryMetric).toBe('avg_gift');
+    expect(analysis.winner).toBeNull();
+    expect(['keep_running', 'no_difference']).toContain(analysis.verdict);
+  });
+
+  it('asks for more data when arms are too small', () => {
+    const analysis = analyzeABTest('Tiny', [sample('', null, 5, 20), sample('B', null, 6, 80)]);
+    expect(analysis.verdict).toBe('insufficient_data');
+  });
+
+  it('uses Bayesian probability in bayesian mode', () => {
+    const analysis = analyzeABTest(
+      'Bayes',
+      [sample('', 5000, 250, 40), sample('B', 5000, 320, 40)],
+      { mode: 'bayesian', primaryMetric: 'conversion_rate' }
+    );
+    expect(analysis.mode).toBe('bayesian');
+    expect(analysis.winner).toBe('B');
+  });
+
+  it('calls no difference once arms can detect the minimum effect', () => {
+    const analysis = analyzeABTest('Footer', [
+      sample('control', null, 2000, 40),
+      sample('plain', null, 2000, 40.2),
+    ]);
+    expect(analysis.minimumDetectableEffect).toBe(0.1);
+    expect(analysis.verdict).toBe('no_difference');
+  });
+
+  it('keeps running while arms are too small to detect the minimum effect', () => {
+    const analysis = analyzeABTest('Footer', [
+      sample('control', null, 2000, 40),
+      sample('plain', null, 2000, 40.2),
+    ], { minimumDetectableEffect: 0.02 });
+    expect(analysis.verdict).toBe('keep_running');
+    expect(analysis.variations[1].comparisons.avg_gift?.requiredSamplePerArm).toBeGreaterThan(2000);
+  });
+
+  it('corrects for multiple challengers', () => {
+    const control = sample('', 5000, 250, 40);
+    const challenger = sample('B', 5000, 299, 40);
+    const single = analyzeABTest('Subject', [control, challenger], { primaryMetric: 'conversion_rate' });
+    expect(single.winner).toBe('B');
+    expect(single.confidenceLevel).toBeCloseTo(0.95, 6);
+
+    const multi = analyzeABTest(
+      'Subject',
+      [control, challenger, sample('C', 5000, 250, 40), sample('D', 5000, 250, 40)],
+      { primaryMetric: 'conversion_rate' }
+    );
+    const b = multi.variations.find(v => v.variation === 'B')!.comparisons.conversion_rate!;
+    expect(b.adjustedPValue).toBeCloseTo(b.pValue * 3, 6);
+    expect(multi.winner).toBeNull();
+    expect(multi.confidenceLevel).toBeCloseTo(1 - 0.05 / 3, 6);
+  });
+
+  it('handles a single variation', () => {
+    const analysis = analyzeABTest('Solo', [sample('', null, 100, 40)]);
+    expect(analysis.verdict).toBe('insufficient_data');
+    expect(analysis.winner).toBeNull();
+  });
+});
+
+describe('holmAdjust', () => {
+  it('steps down and keeps adjusted p-values monotone', () => {
+    // statsmodels multipletests([0.01, 0.04, 0.03], method='holm') -> [0.03, 0.06, 0.06]
+    const adjusted = holmAdjust([0.01, 0.04, 0.03]);
+    expect(adjusted[0]).toBeCloseTo(0.03, 6);
+    expect(adjusted[1]).toBeCloseTo(0.06, 6);
+    expect(adjusted[2]).toBeCloseTo(0.06, 6);
+    expect(holmAdjust([0.6, 0.9])).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffBillSections,
+  diffWords,
+  splitBillSections,
+  summarizeSectionDiffs,
+} from '@/lib/bill-diff';
+
+/**
+ * Tests for section-aware bill version diffs.
+ */
+
+// ============================================================================
+// Test Utilities
+// ============================================================================
+
+const INTRODUCED = `[Congressional Bills 119th Congress]
+[H.R. 815 Introduced in House (IH)]
+
+A BILL
+To provide humanitarian relief.
+
+SECTION 1. SHORT TITLE.
+
+    This Act may be cited as the \`\`Relief Act''.
+
+SEC. 2. DEFINITIONS.
+
+    In this Act, the term \`\`Secretary'' means the Secretary of
+State.
+
+SEC. 3. REPORTING.
+
+    The Secretary shall submit a report annually.`;
+
+const ENGROSSED = `[Congressional Bills 119th Congress]
+[H.R. 815 Engrossed in House (EH)]
+
+AN ACT
+To provide humanitarian relief.
+
+SECTION 1. SHORT TITLE.
+
+    This Act may be cited as the \`\`Relief Act''.
+
+SEC. 2. DEFINITIONS.
+
+    In this Act, the term \`\`Secretary'' means the Secretary
+of State, acting through the Administrator.
+
+SEC. 4. FUNDING.
+
+    There are authorized to be appropriated such sums as
+necessary.`;
+
+// ============================================================================
+// Sections
+// ============================================================================
+
+describe('splitBillSections', () => {
+  it('splits on section headings and keeps the preamble', () => {
+    const sections = splitBillSections(INTRODUCED);
+    expect(sections.map((s) => s.key)).toEqual(['preamble', 'SEC. 1', 'SEC. 2', 'SEC. 3']);
+    expect(sections[1].heading).toBe('SECTION 1. SHORT TITLE.');
+    expect(sections[2].body).toContain('Secretary of\nState.');
+  });
+
+  it('treats titles as their own sections', () => {
+    const sections = splitBillSections('TITLE I--GENERAL PROVISIONS\n\nSEC. 101. PURPOSE.\n\n    Text.\n\nTITLE II--FUNDING\n\nSEC. 201. AMOUNTS.');
+    expect(sections.map((s) => s.key)).toEqual(['TITLE I', 'SEC. 101', 'TITLE II', 'SEC. 201']);
+  });
+
+  it('does not split on sections quoted inside an amendment', () => {
+    const text = 'SEC. 2. AMENDMENT.\n\n    The Act is amended by adding:\n\n``SEC. 5. NEW AUTHORITY.\n\n    ``The Secretary may act.\'\'.';
+    const sections = splitBillSections(text);
+    expect(sections).toHaveLength(1);
+    expect(sections[0].body).toContain('``SEC. 5. NEW AUTHORITY.');
+  });
+
+  it('keeps repeated headings apart', () => {
+    const sections = splitBillSections('SEC. 2. ONE.\nA\nSEC. 2. TWO.\nB');
+    expect(sections.map((s) => s.key)).toEqual(['SEC. 2', 'SEC. 2 (2)']);
+  });
+});
+
+// ============================================================================
+// Word diff
+// ============================================================================
+
+describe('diffWords', () => {
+  it('ignores re-wrapped whitespace', () => {
+    expect(diffWords('the Secretary of\nState', 'the Secretary of State')).toEqual([
+      { op: 'equal', text: 'the Secretary of State' },
+    ]);
+  });
+
+  it('marks inserted and deleted words', () => {
+    expect(diffWords('shall submit a report annually', 'shall submit two reports annually')).toEqual([
+      { op: 'equal', text: 'shall submit' },
+      { op: 'delete', text: 'a report' },
+      { op: 'insert', text: 'two reports' },
+      { op: 'equal', text: 'annually' },
+    ]);
+  });
+
+  it('handles one side empty', () => {
+    expect(diffWords('', 'new text')).toEqual([{ op: 'insert', text: 'new text' }]);
+    expect(diffWords('old text', '')).toEqual([{ op: 'delete', text: 'old text' }]);
+  });
+});
+
+// ============================================================================
+// Section diff
+// ============================================================================
+
+describe('diffBillSections', () => {
+  it('matches sections by number and classifies changes', () => {
+    const diffs = diffBillSections(INTRODUCED, ENGROSSED);
+    expect(diffs.map((d) => [d.key, d.change])).toEqual([
+      ['preamble', 'modified'],
+      ['SEC. 1', 'unchanged'],
+      ['SEC. 2', 'modified'],
+      ['SEC. 3', 'removed'],
+      ['SEC. 4', 'added'],
+    ]);
+
+    const definitions = diffs[2];
+    expect(definitions.wordsAdded).toBe(5);
+    expect(definitions.wordsRemoved).toBe(1);
+    expect(definitions.segments.filter((s) => s.op === 'insert').map((s) => s.text)).toEqual([
+      'State, acting through the Administrator.',
+    ]);
+  });
+
+  it('summarizes changes by kind', () => {
+    expect(summarizeSectionDiffs(diffBillSections(INTRODUCED, ENGROSSED))).toEqual({
+      added: 1,
+      removed: 1,
+      modified: 2,
+      unchanged: 1,
+    });
+  });
+
+  it('reports identical versions as unchanged', () => {
+    const diffs = diffBillSections(INTRODUCED, INTRODUCED);
+    expect(diffs.every((d) => d.change === 'unchanged')).toBe(true);
+  });
+});
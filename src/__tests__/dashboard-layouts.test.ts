@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DASHBOARD_TEMPLATES,
+  describeWidgetDateRange,
+  nextWidgetPosition,
+  parseStoredWidgets,
+  resolveHomeLayout,
+  resolveWidgetDateRange,
+} from '@/lib/dashboard-layouts';
+import type { DashboardHomePreference, SavedDashboardLayout } from '@/types/dashboardLayout';
+
+/**
+ * Tests for custom dashboard helpers (widget date ranges, stored widgets, home layout).
+ */
+
+// ============================================================================
+// Test Utilities
+// ============================================================================
+
+const GLOBAL_RANGE = { startDate: '2026-03-01', endDate: '2026-03-10' };
+const TODAY = new Date(2026, 2, 15); // March 15, 2026 (local time)
+
+function layout(overrides: Partial<SavedDashboardLayout>): SavedDashboardLayout {
+  return {
+    id: crypto.randomUUID(),
+    organization_id: 'org-1',
+    user_id: null,
+    name: 'Layout',
+    audience: 'general',
+    widgets: [],
+    is_default: false,
+    created_by: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function preference(overrides: Partial<DashboardHomePreference>): DashboardHomePreference {
+  return { user_id: 'user-1', organization_id: 'org-1', audience: 'general', layout_id: null, ...overrides };
+}
+
+// ============================================================================
+// resolveWidgetDateRange
+// ============================================================================
+
+describe('resolveWidgetDateRange', () => {
+  it('follows the dashboard range without an override', () => {
+    expect(resolveWidgetDateRange(undefined, GLOBAL_RANGE, TODAY)).toEqual(GLOBAL_RANGE);
+    expect(resolveWidgetDateRange({ preset: 'global' }, GLOBAL_RANGE, TODAY)).toEqual(GLOBAL_RANGE);
+  });
+
+  it('resolves day presets inclusive of today', () => {
+    expect(resolveWidgetDateRange({ preset: 'today' }, GLOBAL_RANGE, TODAY))
+      .toEqual({ startDate: '2026-03-15', endDate: '2026-03-15' });
+    expect(resolveWidgetDateRange({ preset: '7d' }, GLOBAL_RANGE, TODAY))
+      .toEqual({ startDate: '2026-03-09', endDate: '2026-03-15' });
+    expect(resolveWidgetDateRange({ preset: '30d' }, GLOBAL_RANGE, TODAY).startDate).toBe('2026-02-14');
+  });
+
+  it('resolves month and year to date', () => {
+    expect(resolveWidgetDateRange({ preset: 'mtd' }, GLOBAL_RANGE, TODAY).startDate).toBe('2026-03-01');
+    expect(resolveWidgetDateRange({ preset: 'ytd' }, GLOBAL_RANGE, TODAY).startDate).toBe('2026-01-01');
+  });
+
+  it('uses valid custom ranges and falls back to the dashboard range otherwise', () => {
+    const custom = { preset: 'custom' as const, startDate: '2025-11-01', endDate: '2025-11-30' };
+    expect(resolveWidgetDateRange(custom, GLOBAL_RANGE, TODAY)).toEqual({ startDate: '2025-11-01', endDate: '2025-11-30' });
+
+    const reversed = { preset: 'custom' as const, startDate: '2025-11-30', endDate: '2025-11-01' };
+    expect(resolveWidgetDateRange(reversed, GLOBAL_RANGE, TODAY)).toEqual(GLOBAL_RANGE);
+  });
+
+  it('labels only overridden ranges', () => {
+    expect(describeWidgetDateRange(undefined)).toBeNull();
+    expect(describeWidgetDateRange({ preset: '90d' })).toBe('Last 90 days');
+    expect(describeWidgetDateRange({ preset: 'custom', startDate: '2026-01-05', endDate: '2026-02-01' }))
+      .toBe('Jan 5 – Feb 1');
+  });
+});
+
+// ============================================================================
+// parseStoredWidgets
+// ============================================================================
+
+describe('parseStoredWidgets', () => {
+  it('keeps well-formed widgets and their date ranges', () => {
+    const widgets = parseStoredWidgets([
+      { id: 'a', type: 'kpi.netRevenue', x: 0, y: 0, w: 2, h: 2, dateRange: { preset: 'ytd' } },
+    ]);
+    expect(widgets).toEqual([{ id: 'a', type: 'kpi.netRevenue', x: 0, y: 0, w: 2, h: 2, dateRange: { preset: 'ytd' } }]);
+  });
+
+  it('drops malformed entries and duplicate ids', () => {
+    const widgets = parseStoredWidgets([
+      { id: 'a', type: 'kpi.netRevenue', x: 0, y: 0, w: 2, h: 2 },
+      { id: 'a', type: 'chart.sms', x: 0, y: 2, w: 6, h: 6 },
+      { type: 'chart.sms' },
+      'not a widget',
+      null,
+    ]);
+    expect(widgets.map((w) => w.id)).toEqual(['a']);
+    expect(parseStoredWidgets({ widgets: [] })).toEqual([]);
+    expect(parseStoredWidgets(null)).toEqual([]);
+  });
+
+  it('clamps positions to the grid and ignores invalid date ranges', () => {
+    const [widget] = parseStoredWidgets([
+      { id: 'a', type: 'chart.sms', x: 11, y: -3, w: 20, h: 2.6, dateRange: { preset: 'custom', startDate: 'soon' } },
+    ]);
+    expect(widget).toEqual({ id: 'a', type: 'chart.sms', x: 0, y: 0, w: 12, h: 3 });
+  });
+
+  it('places new widgets below the existing ones', () => {
+    expect(nextWidgetPosition([])).toEqual({ x: 0, y: 0 });
+    expect(nextWidgetPosition(parseStoredWidgets([
+      { id: 'a', type: 't', x: 0, y: 0, w: 6, h: 4 },
+      { id: 'b', type: 't', x: 6, y: 2, w: 6, h: 5 },
+    ]))).toEqual({ x: 0, y: 7 });
+  });
+});
+
+// ============================================================================
+// resolveHomeLayout
+// ============================================================================
+
+describe('resolveHomeLayout', () => {
+  const financeDefault = layout({ name: 'Finance', audience: 'finance', is_default: true });
+  const generalDefault = layout({ name: 'Everyone', audience: 'general', is_default: true });
+  const mine = layout({ name: 'Mine', user_id: 'user-1' });
+
+  it("opens the user's chosen home first", () => {
+    const home = resolveHomeLayout([financeDefault, mine], preference({ audience: 'finance', layout_id: mine.id }));
+    expect(home).toEqual({ source: 'preference', layout: mine });
+  });
+
+  it("falls back to the org default for the user's team, then the general default", () => {
+    const layouts = [financeDefault, generalDefault];
+    expect(resolveHomeLayout(layouts, preference({ audience: 'finance' }))).toEqual({ source: 'org_default', layout: financeDefault });
+    expect(resolveHomeLayout(layouts, preference({ audience: 'digital' }))).toEqual({ source: 'org_default', layout: generalDefault });
+  });
+
+  it('ignores a chosen layout that no longer exists', () => {
+    const home = resolveHomeLayout([generalDefault], preference({ layout_id: 'deleted' }));
+    expect(home).toEqual({ source: 'org_default', layout: generalDefault });
+  });
+
+  it("uses the built-in template for the user's team when the org has no defaults", () => {
+    const home = resolveHomeLayout([mine], preference({ audience: 'digital' }));
+    expect(home.source).toBe('template');
+    expect(home.source === 'template' && home.template.audience).toBe('digital');
+    expect(resolveHomeLayout([], null)).toEqual({ source: 'template', template: DASHBOARD_TEMPLATES[0] });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assignVariant,
+  buildActBlueUrl,
+  getVisitorId,
+  hashToUnitInterval,
+  parseAmountLadder,
+  pickWeightedVariant,
+  placeVariantRefcode,
+  trafficShares,
+  type ResolvedTrackedLink,
+  type RotationVariant,
+} from '@/lib/link-rotation';
+
+/**
+ * Tests for tracked link rotation (weighted split, sticky assignment, URLs).
+ */
+
+// ============================================================================
+// Test Utilities
+// ============================================================================
+
+function memoryStorage() {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      values.set(key, value);
+    },
+  };
+}
+
+function variant(id: string, weight: number, overrides: Partial<RotationVariant> = {}): RotationVariant {
+  return {
+    id,
+    actblue_form: `form-${id}`,
+    amounts: null,
+    default_amount: null,
+    recurring: false,
+    refcode: null,
+    weight,
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+describe('hashToUnitInterval', () => {
+  it('is deterministic and stays within [0, 1)', () => {
+    expect(hashToUnitInterval('visitor:link')).toBe(hashToUnitInterval('visitor:link'));
+    for (const input of ['', 'a', 'visitor-1:link-1', 'x'.repeat(500)]) {
+      const value = hashToUnitInterval(input);
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('pickWeightedVariant', () => {
+  it('splits the unit interval by weight and skips zero weights', () => {
+    const variants = [variant('a', 1), variant('paused', 0), variant('b', 3)];
+    expect(pickWeightedVariant(variants, 0)?.id).toBe('a');
+    expect(pickWeightedVariant(variants, 0.24)?.id).toBe('a');
+    expect(pickWeightedVariant(variants, 0.25)?.id).toBe('b');
+    expect(pickWeightedVariant(variants, 0.999)?.id).toBe('b');
+  });
+
+  it('returns null when nothing has weight', () => {
+    expect(pickWeightedVariant([variant('a', 0)], 0.5)).toBeNull();
+    expect(pickWeightedVariant([], 0.5)).toBeNull();
+  });
+
+  it('roughly honours weights across many visitors', () => {
+    const variants = [variant('a', 1), variant('b', 1)];
+    let countA = 0;
+    for (let i = 0; i < 2000; i++) {
+      if (pickWeightedVariant(variants, hashToUnitInterval(`visitor-${i}:link`))?.id === 'a') countA++;
+    }
+    expect(countA).toBeGreaterThan(850);
+    expect(countA).toBeLessThan(1150);
+  });
+});
+
+// ============================================================================
+// Sticky Assignment
+// ============================================================================
+
+describe('assignVariant', () => {
+  const link: ResolvedTrackedLink = { link_id: 'link-1', variants: [variant('a', 1), variant('b', 1)] };
+
+  it('keeps a visitor on their variant when weights change', () => {
+    const storage = memoryStorage();
+    const first = assignVariant(link, 'visitor-1', storage);
+    expect(first).not.toBeNull();
+
+    const reweighted: ResolvedTrackedLink = {
+      link_id: 'link-1',
+      variants: link.variants.map(v => ({ ...v, weight: v.id === first!.id ? 0 : 5 })),
+    };
+    expect(assignVariant(reweighted, 'visitor-1', storage)?.id).toBe(first!.id);
+  });
+
+  it('reassigns when the stored variant is no longer offered', () => {
+    const storage = memoryStorage();
+    storage.setItem('tracked_link_variant:link-1', 'retired');
+    expect(assignVariant(link, 'visitor-1', storage)?.id).toMatch(/^[ab]$/);
+    expect(storage.getItem('tracked_link_variant:link-1')).toMatch(/^[ab]$/);
+  });
+
+  it('is deterministic without storage', () => {
+    expect(assignVariant(link, 'visitor-9', null)?.id).toBe(assignVariant(link, 'visitor-9', null)?.id);
+  });
+});
+
+describe('getVisitorId', () => {
+  it('persists the generated id', () => {
+    const storage = memoryStorage();
+    const id = getVisitorId(storage);
+    expect(getVisitorId(storage)).toBe(id);
+  });
+});
+
+// ============================================================================
+// URLs & Editing Helpers
+// ============================================================================
+
+describe('buildActBlueUrl', () => {
+  it('sets refcode, amount ladder, amount and recurring', () => {
+    const url = buildActBlueUrl({ form: 'smith-2026', refcode: 'ladder_b', amounts: [10, 25, 50], amount: 25, recurring: true });
+    expect(url.origin + url.pathname).toBe('https://secure.actblue.com/donate/smith-2026');
+    expect(url.searchParams.get('refcode')).toBe('ladder_b');
+    expect(url.searchParams.get('amounts')).toBe('10,25,50');
+    expect(url.searchParams.get('amount')).toBe('25');
+    expect(url.searchParams.get('recurring')).toBe('true');
+  });
+
+  it('omits empty options', () => {
+    expect(buildActBlueUrl({ form: 'smith-2026', amount: null }).search).toBe('');
+  });
+});
+
+describe('placeVariantRefcode', () => {
+  it('keeps the campaign refcode and moves the variant refcode to refcode2', () => {
+    expect(placeVariantRefcode('meta_jan25', 'ladder_b')).toEqual({ refcode: 'meta_jan25', refcode2: 'ladder_b' });
+    expect(placeVariantRefcode('meta_jan25', null)).toEqual({ refcode: 'meta_jan25', refcode2: null });
+  });
+
+  it('uses the variant refcode when the link has no campaign refcode', () => {
+    expect(placeVariantRefcode(null, 'ladder_b')).toEqual({ refcode: 'ladder_b', refcode2: null });
+    expect(placeVariantRefcode('', null)).toEqual({ refcode: null, refcode2: null });
+  });
+});
+
+describe('parseAmountLadder', () => {
+  it('sorts, de-duplicates and drops invalid entries', () => {
+    expect(parseAmountLadder('$50, 10 25,10, abc, -5')).toEqual([10, 25, 50]);
+    expect(parseAmountLadder('  ')).toBeNull();
+  });
+});
+
+describe('trafficShares', () => {
+  it('gives inactive and zero-weight variants no new traffic', () => {
+    expect(trafficShares([
+      { id: 'a', weight: 1 },
+      { id: 'b', weight: 3 },
+      { id: 'c', weight: 0 },
+      { id: 'd', weight: 2, is_active: false },
+    ])).toEqual({ a: 25, b: 75, c: 0, d: 0 });
+  });
+});
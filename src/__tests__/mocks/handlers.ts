@@ -331,6 +331,27 @@ export const handlers = [
     return HttpResponse.json(mockMetaMetrics);
   }),
 
+  http.get(`${SUPABASE_URL}/rest/v1/google_ads_metrics_daily`, () => {
+    return HttpResponse.json([]);
+  }),
+
+  http.post(`${SUPABASE_URL}/rest/v1/rpc/get_email_metrics`, () => {
+    return HttpResponse.json({
+      mailings: [],
+      summary: {
+        mailingCount: 0,
+        totalSent: 0,
+        totalDelivered: 0,
+        totalUniqueOpens: 0,
+        totalUniqueClicks: 0,
+        totalUnsubscribes: 0,
+        totalDonations: 0,
+        totalRaised: 0,
+        lastSentAt: null,
+      },
+    });
+  }),
+
   http.get(`${SUPABASE_URL}/rest/v1/sms_campaigns`, ({ request }) => {
     const url = new URL(request.url);
     const orgId = url.searchParams.get('organization_id');
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addFilterNode,
+  collectFilterFields,
+  countFilterConditions,
+  createFilterGroup,
+  evaluateFilterTree,
+  findFilterNode,
+  isFilterGroup,
+  normalizeSegmentFilters,
+  pruneEmptyGroups,
+  removeFilterNode,
+  updateFilterCondition,
+  updateFilterGroup,
+} from '@/lib/segment-filter-tree';
+import type { FilterCondition, FilterGroup } from '@/types/donorSegment';
+
+/**
+ * Tests for the Donor Segment Builder's boolean filter trees.
+ */
+
+// ============================================================================
+// Test Utilities
+// ============================================================================
+
+function condition(id: string, field: string, value: FilterCondition['value'] = 1): FilterCondition {
+  return { id, field, operator: 'eq', value };
+}
+
+type Donor = { state: string; is_recurring: boolean; total_donated: number };
+
+// Evaluate conditions against a donor record (eq / gt only, enough for these tests)
+function matchDonor(donor: Donor) {
+  return (c: FilterCondition) => {
+    const actual = donor[c.field as keyof Donor];
+    if (c.operator === 'gt') return Number(actual) > Number(c.value);
+    return actual === c.value;
+  };
+}
+
+const CA_RECURRING: Donor = { state: 'CA', is_recurring: true, total_donated: 50 };
+const NY_ONE_TIME: Donor = { state: 'NY', is_recurring: false, total_donated: 500 };
+const TX_ONE_TIME: Donor = { state: 'TX', is_recurring: false, total_donated: 20 };
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+describe('normalizeSegmentFilters', () => {
+  it('upgrades legacy flat condition arrays to a single AND group', () => {
+    const tree = normalizeSegmentFilters([
+      condition('a', 'state', 'CA'),
+      condition('b', 'is_recurring', true),
+    ]);
+
+    expect(tree.type).toBe('group');
+    expect(tree.operator).toBe('and');
+    expect(tree.negate).toBe(false);
+    expect(tree.children.map(c => c.id)).toEqual(['a', 'b']);
+  });
+
+  it('keeps nested groups and drops malformed nodes', () => {
+    const tree = normalizeSegmentFilters({
+      id: 'root',
+      type: 'group',
+      operator: 'or',
+      children: [
+        condition('a', 'state', 'CA'),
+        { id: 'g', type: 'group', operator: 'and', negate: true, children: [condition('b', 'state', 'NY')] },
+        { nonsense: true },
+      ],
+    });
+
+    expect(tree.id).toBe('root');
+    expect(tree.operator).toBe('or');
+    expect(tree.children).toHaveLength(2);
+    const nested = findFilterNode(tree, 'g');
+    expect(nested && isFilterGroup(nested) && nested.negate).toBe(true);
+  });
+
+  it('returns an empty tree for missing or invalid filters', () => {
+    expect(normalizeSegmentFilters(null).children).toEqual([]);
+    expect(normalizeSegmentFilters('bad').children).toEqual([]);
+    expect(normalizeSegmentFilters([]).children).toEqual([]);
+  });
+
+  it('wraps a lone condition in an AND group', () => {
+    const tree = normalizeSegmentFilters(condition('a', 'state', 'CA'));
+    expect(tree.operator).toBe('and');
+    expect(tree.children.map(c => c.id)).toEqual(['a']);
+  });
+});
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+describe('evaluateFilterTree', () => {
+  // state = CA OR NOT (recurring [AND total_donated > 100])
+  const tree: FilterGroup = createFilterGroup('or', [
+    condition('a', 'state', 'CA'),
+    createFilterGroup('and', [
+      condition('b', 'is_recurring', true),
+    ], true),
+  ]);
+  const bigGiftTree = addFilterNode(
+    tree,
+    (tree.children[1] as FilterGroup).id,
+    { id: 'c', field: 'total_donated', operator: 'gt', value: 100 }
+  );
+
+  it('matches either branch of an OR group', () => {
+    expect(evaluateFilterTree(tree, matchDonor(CA_RECURRING))).toBe(true);
+    expect(evaluateFilterTree(tree, matchDonor(NY_ONE_TIME))).toBe(true);
+  });
+
+  it('applies NOT to the whole nested group', () => {
+    // NOT (recurring AND > 100) matches one-time donors regardless of state
+    expect(evaluateFilterTree(bigGiftTree, matchDonor(NY_ONE_TIME))).toBe(true);
+    expect(evaluateFilterTree(bigGiftTree, matchDonor(TX_ONE_TIME))).toBe(true);
+
+    const negatedRoot = updateFilterGroup(bigGiftTree, bigGiftTree.id, { negate: true });
+    expect(evaluateFilterTree(negatedRoot, matchDonor(CA_RECURRING))).toBe(false);
+  });
+
+  it('treats empty groups as matching everything', () => {
+    expect(evaluateFilterTree(createFilterGroup('or'), () => false)).toBe(true);
+
+    const withEmpty = createFilterGroup('or', [condition('a', 'state', 'CA'), createFilterGroup('and')]);
+    expect(evaluateFilterTree(withEmpty, matchDonor(TX_ONE_TIME))).toBe(false);
+  });
+});
+
+// ============================================================================
+// Immutable Edits
+// ============================================================================
+
+describe('tree edits', () => {
+  it('adds to the requested group and falls back to the root', () => {
+    const nested = createFilterGroup('or');
+    let tree = createFilterGroup('and', [nested]);
+
+    tree = addFilterNode(tree, nested.id, condition('a', 'state', 'CA'));
+    tree = addFilterNode(tree, 'missing', condition('b', 'state', 'NY'));
+
+    expect((tree.children[0] as FilterGroup).children.map(c => c.id)).toEqual(['a']);
+    expect(tree.children[1].id).toBe('b');
+    expect(nested.children).toEqual([]);
+  });
+
+  it('updates conditions and groups without mutating the original', () => {
+    const original = createFilterGroup('and', [condition('a', 'state', 'CA')]);
+
+    const updated = updateFilterGroup(
+      updateFilterCondition(original, 'a', { value: 'NY' }),
+      original.id,
+      { operator: 'or' }
+    );
+
+    expect((updated.children[0] as FilterCondition).value).toBe('NY');
+    expect(updated.operator).toBe('or');
+    expect((original.children[0] as FilterCondition).value).toBe('CA');
+    expect(original.operator).toBe('and');
+  });
+
+  it('removes nested nodes but never the root', () => {
+    const nested = createFilterGroup('or', [condition('a', 'state', 'CA')]);
+    const tree = createFilterGroup('and', [nested, condition('b', 'state', 'NY')]);
+
+    expect(countFilterConditions(removeFilterNode(tree, 'a'))).toBe(1);
+    expect(removeFilterNode(tree, nested.id).children.map(c => c.id)).toEqual(['b']);
+    expect(removeFilterNode(tree, tree.id)).toBe(tree);
+  });
+
+  it('prunes empty groups before querying', () => {
+    const tree = createFilterGroup('or', [
+      condition('a', 'state', 'CA'),
+      createFilterGroup('and', [createFilterGroup('or')]),
+    ]);
+
+    const pruned = pruneEmptyGroups(tree);
+    expect(pruned.children.map(c => c.id)).toEqual(['a']);
+    expect(pruneEmptyGroups(createFilterGroup()).children).toEqual([]);
+  });
+
+  it('collects distinct fields across the tree', () => {
+    const tree = createFilterGroup('and', [
+      condition('a', 'state', 'CA'),
+      createFilterGroup('or', [condition('b', 'state', 'NY'), condition('c', 'is_recurring', true)]),
+    ]);
+
+    expect(collectFilterFields(tree)).toEqual(['state', 'is_recurring']);
+    expect(countFilterConditions(tree)).toBe(3);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildMembershipTrend,
+  collectNewlyLapsedDonors,
+  describeChangeReason,
+  diffMemberAttributes,
+  isNewlyLapsedChange,
+} from '@/lib/segment-membership';
+import type {
+  SegmentChangeReason,
+  SegmentMembershipChange,
+  SegmentMembershipSnapshot,
+} from '@/types/donorSegment';
+
+/**
+ * Tests for segment membership snapshot helpers (trend, reasons, lapsed feed).
+ */
+
+// ============================================================================
+// Test Utilities
+// ============================================================================
+
+function snapshot(overrides: Partial<SegmentMembershipSnapshot>): SegmentMembershipSnapshot {
+  return {
+    id: crypto.randomUUID(),
+    segment_id: 'seg-1',
+    member_count: 100,
+    total_value: 5000,
+    entered_count: 0,
+    exited_count: 0,
+    is_baseline: false,
+    triggered_by: 'scheduled',
+    captured_at: '2026-02-01T05:30:00Z',
+    ...overrides,
+  };
+}
+
+const recencyReason: SegmentChangeReason = {
+  type: 'condition',
+  condition_id: 'c1',
+  field: 'days_since_donation',
+  operator: 'gt',
+  value: 180,
+  was_met: null,
+  now_met: true,
+};
+
+function change(overrides: Partial<SegmentMembershipChange>): SegmentMembershipChange {
+  return {
+    id: crypto.randomUUID(),
+    segment_id: 'seg-1',
+    snapshot_id: 'snap-1',
+    donor_email: 'a@example.com',
+    donor_key: null,
+    donor_name: 'Ada Donor',
+    change_type: 'entered',
+    reasons: [recencyReason],
+    reason_fields: ['days_since_donation'],
+    attributes: { lifecycle_stage: 'lapsed', total_donated: 250 },
+    previous_attributes: null,
+    created_at: '2026-02-02T05:30:00Z',
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// buildMembershipTrend
+// ============================================================================
+
+describe('buildMembershipTrend', () => {
+  it('orders snapshots chronologically and zeroes baseline changes', () => {
+    const trend = buildMembershipTrend([
+      snapshot({ captured_at: '2026-02-03T05:30:00Z', member_count: 110, entered_count: 12, exited_count: 2 }),
+      snapshot({ captured_at: '2026-02-01T05:30:00Z', member_count: 100, entered_count: 100, is_baseline: true }),
+    ]);
+
+    expect(trend.map(p => p.members)).toEqual([100, 110]);
+    expect(trend[0]).toMatchObject({ entered: 0, exited: 0 });
+    expect(trend[1]).toMatchObject({ entered: 12, exited: 2 });
+  });
+});
+
+// ============================================================================
+// describeChangeReason
+// ============================================================================
+
+describe('describeChangeReason', () => {
+  it('describes a condition that now holds', () => {
+    expect(describeChangeReason(recencyReason)).toBe('Days Since Last Donation greater than 180');
+  });
+
+  it('prefixes conditions that stopped holding', () => {
+    const reason: SegmentChangeReason = {
+      type: 'condition',
+      condition_id: 'c2',
+      field: 'is_recurring',
+      operator: 'eq',
+      value: true,
+      was_met: true,
+      now_met: false,
+    };
+    expect(describeChangeReason(reason)).toBe('No longer: Recurring Donor equals yes');
+  });
+
+  it('formats ranges and removed donors', () => {
+    const between: SegmentChangeReason = {
+      ...recencyReason,
+      field: 'total_donated',
+      operator: 'between',
+      value: [100, 500],
+    };
+    expect(describeChangeReason(between)).toBe('Lifetime Donation Total is between 100 and 500');
+    expect(describeChangeReason({ type: 'donor_removed' })).toBe('Donor record was removed');
+  });
+});
+
+// ============================================================================
+// diffMemberAttributes
+// ============================================================================
+
+describe('diffMemberAttributes', () => {
+  it('lists changed attributes but ignores the daily recency counter', () => {
+    const diff = diffMemberAttributes(
+      { is_recurring: true, days_since_donation: 10, lifecycle_stage: 'active', state: 'AZ' },
+      { is_recurring: false, days_since_donation: 11, lifecycle_stage: 'active', state: 'AZ' }
+    );
+    expect(diff).toEqual([{ key: 'is_recurring', label: 'Recurring', from: true, to: false }]);
+  });
+
+  it('returns nothing when either side is missing', () => {
+    expect(diffMemberAttributes(null, { is_recurring: true })).toEqual([]);
+  });
+});
+
+// ============================================================================
+// Newly lapsed feed
+// ============================================================================
+
+describe('isNewlyLapsedChange', () => {
+  it('requires an entry driven by recency into the lapsed stage', () => {
+    expect(isNewlyLapsedChange(change({}))).toBe(true);
+    expect(isNewlyLapsedChange(change({ change_type: 'exited' }))).toBe(false);
+    expect(isNewlyLapsedChange(change({ attributes: { lifecycle_stage: 'lapsing' } }))).toBe(false);
+    expect(isNewlyLapsedChange(change({ reason_fields: ['state'] }))).toBe(false);
+  });
+});
+
+describe('collectNewlyLapsedDonors', () => {
+  it('keeps the newest entry per donor across segments', () => {
+    const older = change({ segment_id: 'seg-1', created_at: '2026-02-01T05:30:00Z' });
+    const newer = change({ segment_id: 'seg-2', created_at: '2026-02-03T05:30:00Z' });
+    const other = change({ donor_email: 'b@example.com', created_at: '2026-02-02T05:30:00Z' });
+
+    const feed = collectNewlyLapsedDonors([older, other, newer]);
+    expect(feed.map(c => c.id)).toEqual([newer.id, other.id]);
+  });
+});
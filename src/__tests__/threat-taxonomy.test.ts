@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatMatchedRule,
+  newCategory,
+  newRule,
+  parseMatchedRules,
+  splitList,
+  uniqueId,
+  validateTaxonomyDraft,
+} from '@/lib/threat-taxonomy';
+import type { ThreatTaxonomy } from '@/types/threatTaxonomy';
+
+/**
+ * Tests for threat taxonomy helpers used by the taxonomy editor and the
+ * matched-rule badges.
+ */
+
+// ============================================================================
+// Test Utilities
+// ============================================================================
+
+const taxonomy = (): ThreatTaxonomy => ({
+  thresholds: { critical: 50, high: 30, medium: 15 },
+  categories: [
+    {
+      id: 'housing',
+      name: 'Housing',
+      rules: [{ id: 'eviction', label: 'Evictions', terms: ['eviction'], weight: 30 }],
+    },
+  ],
+});
+
+// ============================================================================
+// Matched rules
+// ============================================================================
+
+describe('parseMatchedRules', () => {
+  it('keeps well-formed matches, heaviest first', () => {
+    const matches = parseMatchedRules([
+      { category_id: 'a', category: 'A', rule_id: 'low', rule: 'Low', term: 'low', weight: 5 },
+      { rule_id: 'broken' },
+      'nope',
+      { category_id: 'b', category: 'B', rule_id: 'high', rule: 'High', weight: 50 },
+    ]);
+    expect(matches.map((m) => m.rule_id)).toEqual(['high', 'low']);
+    expect(matches[0].term).toBe('High');
+  });
+
+  it('returns nothing for non-arrays', () => {
+    expect(parseMatchedRules(null)).toEqual([]);
+    expect(parseMatchedRules({ rule_id: 'x' })).toEqual([]);
+  });
+});
+
+describe('formatMatchedRule', () => {
+  it('adds the matched term only when it differs from the rule label', () => {
+    const match = { category_id: 'org', category: 'Tracked organizations', rule_id: 'cair', rule: 'CAIR', term: 'CAIR', weight: 40 };
+    expect(formatMatchedRule(match)).toBe('Tracked organizations: CAIR');
+    expect(formatMatchedRule({ ...match, rule: 'Evictions', term: 'unlawful detainer' }))
+      .toBe('Tracked organizations: Evictions ("unlawful detainer")');
+  });
+});
+
+// ============================================================================
+// Editing
+// ============================================================================
+
+describe('splitList', () => {
+  it('splits on commas and newlines and drops duplicates', () => {
+    expect(splitList('eviction,  unlawful   detainer\nEviction, eviction,,')).toEqual([
+      'eviction',
+      'unlawful detainer',
+      'Eviction',
+    ]);
+  });
+});
+
+describe('uniqueId', () => {
+  it('slugifies and avoids taken ids', () => {
+    expect(uniqueId('Rent Caps!', [])).toBe('rent-caps');
+    expect(uniqueId('Rent caps', ['rent-caps', 'rent-caps-2'])).toBe('rent-caps-3');
+    expect(uniqueId('???', [])).toBe('item');
+  });
+
+  it('gives new categories and rules unique ids', () => {
+    const t = taxonomy();
+    expect(newCategory(t, 'Housing').id).toBe('housing-2');
+    expect(newRule(t.categories[0], 'Eviction')).toEqual({ id: 'eviction-2', label: 'Eviction', terms: [], weight: 10 });
+  });
+});
+
+describe('validateTaxonomyDraft', () => {
+  it('accepts a valid taxonomy', () => {
+    expect(validateTaxonomyDraft(taxonomy())).toEqual([]);
+  });
+
+  it('reports thresholds out of order', () => {
+    const t = taxonomy();
+    t.thresholds.high = 60;
+    expect(validateTaxonomyDraft(t)).toEqual(['Thresholds must decrease from critical to medium']);
+  });
+
+  it('reports rules without terms or with bad weights', () => {
+    const t = taxonomy();
+    t.categories[0].rules.push(
+      { id: 'empty', label: 'Empty', terms: [' '], weight: 10 },
+      { id: 'heavy', label: 'Heavy', terms: ['x'], weight: 500 },
+      { id: 'eviction', label: 'Again', terms: ['y'], weight: 10 },
+    );
+    expect(validateTaxonomyDraft(t)).toEqual([
+      'Housing: "Empty" needs at least one term',
+      'Housing: "Heavy" needs a weight between 1 and 100',
+      'Housing: duplicate rule id "eviction"',
+    ]);
+  });
+
+  it('requires at least one rule', () => {
+    expect(validateTaxonomyDraft({ ...taxonomy(), categories: [] })).toEqual(['Add at least one rule']);
+  });
+});
@@ -155,6 +155,12 @@ function buildRedirectUrl(
       url.searchParams.set('refcode2', `fb_${clickIdKey}`);
     }
   }
+
+  // Google Ads auto-tagging: keep the full gclid so sync-google-ads clicks match exactly
+  const gclid = params.get('gclid');
+  if (gclid && !url.searchParams.get('refcode2')) {
+    url.searchParams.set('refcode2', `gc_${gclid}`);
+  }
   
   return url.toString();
 }
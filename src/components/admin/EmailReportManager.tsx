@@ -9,7 +9,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Mail, Plus, Trash2, Send, Clock, CheckCircle, XCircle, Settings } from "lucide-react";
+import { Mail, Plus, Trash2, Send, Clock, CheckCircle, XCircle, Settings, FileDown } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import ReportCustomizationDialog from "./ReportCustomizationDialog";
 import { AdminPageHeader, AdminLoadingState } from "./v3";
@@ -40,6 +40,7 @@ type ReportLog = {
   status: string;
   error_message: string | null;
   sent_at: string;
+  report?: { storage_path: string | null } | null;
 };
 
 const EmailReportManager = () => {
@@ -75,7 +76,7 @@ const EmailReportManager = () => {
           .order("created_at", { ascending: false }),
         (supabase as any)
           .from("email_report_logs")
-          .select("*")
+          .select("*, report:generated_reports(storage_path)")
           .order("sent_at", { ascending: false })
           .limit(50),
       ]);
@@ -231,6 +232,23 @@ const EmailReportManager = () => {
     }
   };
 
+  const downloadReportPdf = async (storagePath: string) => {
+    const { data, error } = await supabase.storage
+      .from("generated-reports")
+      .createSignedUrl(storagePath, 60);
+
+    if (error || !data?.signedUrl) {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to open report PDF",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    window.open(data.signedUrl, "_blank", "noopener");
+  };
+
   if (isLoading) {
     return (
       <div className="space-y-6 portal-animate-fade-in">
@@ -494,12 +512,13 @@ const EmailReportManager = () => {
                   <TableHead>Recipients</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Error</TableHead>
+                  <TableHead>PDF</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {logs.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={4} className="text-center text-muted-foreground py-8">
+                    <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
                       No reports sent yet
                     </TableCell>
                   </TableRow>
@@ -524,6 +543,20 @@ const EmailReportManager = () => {
                       <TableCell className="text-sm text-muted-foreground">
                         {log.error_message || "-"}
                       </TableCell>
+                      <TableCell>
+                        {log.report?.storage_path ? (
+                          <V3Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => downloadReportPdf(log.report?.storage_path ?? "")}
+                          >
+                            <FileDown className="h-4 w-4 mr-2" />
+                            Download
+                          </V3Button>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
                     </TableRow>
                   ))
                 )}
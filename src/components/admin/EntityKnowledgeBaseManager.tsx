@@ -0,0 +1,400 @@
+import { useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { BookUser, Pencil, Plus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import { V3Button } from "@/components/v3/V3Button";
+import { V3Badge } from "@/components/v3";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AdminCard, AdminPageHeader } from "./v3";
+
+type PoliticalEntity = Tables<"political_entities">;
+
+const ENTITY_TYPES = ["politician", "person", "organization", "agency", "legislation", "location"] as const;
+
+const SOURCE_LABELS: Record<string, string> = {
+  seed: "Seed",
+  congress: "Congress.gov",
+  admin: "Admin",
+};
+
+interface EntityForm {
+  canonical_name: string;
+  entity_type: string;
+  aliases: string;
+  surname: string;
+  office: string;
+  party: string;
+  state: string;
+  district: string;
+  chamber: string;
+  committees: string;
+  prominence: string;
+  notes: string;
+  active: boolean;
+}
+
+const EMPTY_FORM: EntityForm = {
+  canonical_name: "",
+  entity_type: "politician",
+  aliases: "",
+  surname: "",
+  office: "",
+  party: "",
+  state: "",
+  district: "",
+  chamber: "",
+  committees: "",
+  prominence: "0.5",
+  notes: "",
+  active: true,
+};
+
+const entitiesKey = (type: string) => ["admin", "political-entities", type] as const;
+
+/** Same slug as entityKeyForName in the edge functions */
+const entityKeyForName = (name: string) =>
+  `kb:${name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "")}`;
+
+const splitList = (value: string) => value.split(",").map((v) => v.trim()).filter(Boolean);
+
+const toForm = (entity: PoliticalEntity): EntityForm => ({
+  canonical_name: entity.canonical_name,
+  entity_type: entity.entity_type,
+  aliases: (entity.aliases || []).join(", "),
+  surname: entity.surname ?? "",
+  office: entity.office ?? "",
+  party: entity.party ?? "",
+  state: entity.state ?? "",
+  district: entity.district ?? "",
+  chamber: entity.chamber ?? "",
+  committees: (entity.committees || []).join(", "),
+  prominence: String(entity.prominence),
+  notes: entity.notes ?? "",
+  active: entity.active !== false,
+});
+
+/**
+ * Curated people, organizations, agencies, bills and places that trend
+ * detection, the entity resolver and watchlist matching resolve mentions
+ * against. Members of Congress are kept current by sync-congress-bills;
+ * admins add everyone else and curate aliases, committees and prominence,
+ * which the sync never overwrites.
+ */
+export function EntityKnowledgeBaseManager() {
+  const [typeFilter, setTypeFilter] = useState<string>("all");
+  const [search, setSearch] = useState("");
+  const [editing, setEditing] = useState<PoliticalEntity | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<EntityForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: entities = [], isLoading, isFetching, refetch } = useQuery({
+    queryKey: entitiesKey(typeFilter),
+    queryFn: async (): Promise<PoliticalEntity[]> => {
+      let query = supabase
+        .from("political_entities")
+        .select("*")
+        .order("prominence", { ascending: false })
+        .order("canonical_name");
+      if (typeFilter !== "all") query = query.eq("entity_type", typeFilter);
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const visible = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return entities;
+    return entities.filter((e) =>
+      e.canonical_name.toLowerCase().includes(term) ||
+      e.entity_key.toLowerCase().includes(term) ||
+      (e.aliases || []).some((a) => a.toLowerCase().includes(term))
+    );
+  }, [entities, search]);
+
+  const openDialog = (entity: PoliticalEntity | null) => {
+    setEditing(entity);
+    setForm(entity ? toForm(entity) : EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const setField = <K extends keyof EntityForm>(field: K, value: EntityForm[K]) =>
+    setForm((current) => ({ ...current, [field]: value }));
+
+  const save = async () => {
+    const canonicalName = form.canonical_name.trim();
+    const prominence = Number(form.prominence);
+    if (!canonicalName) {
+      toast({ title: "Name is required", variant: "destructive" });
+      return;
+    }
+    if (!Number.isFinite(prominence) || prominence < 0 || prominence > 1) {
+      toast({ title: "Prominence must be between 0 and 1", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const values: TablesUpdate<"political_entities"> = {
+        canonical_name: canonicalName,
+        entity_type: form.entity_type,
+        aliases: splitList(form.aliases).map((a) => a.toLowerCase()),
+        surname: form.surname.trim() || null,
+        office: form.office.trim() || null,
+        party: form.party.trim().toUpperCase() || null,
+        state: form.state.trim().toUpperCase() || null,
+        district: form.district.trim() || null,
+        chamber: form.chamber || null,
+        committees: splitList(form.committees),
+        prominence,
+        notes: form.notes.trim() || null,
+        active: form.active,
+        updated_by: user?.id ?? null,
+      };
+
+      const { error } = editing
+        ? await supabase.from("political_entities").update(values).eq("id", editing.id)
+        : await supabase.from("political_entities").insert({
+          ...values,
+          canonical_name: canonicalName,
+          entity_type: form.entity_type,
+          entity_key: entityKeyForName(canonicalName),
+          source: "admin",
+        });
+      if (error) throw error;
+
+      toast({ title: editing ? "Entity updated" : "Entity added", description: canonicalName });
+      setDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["admin", "political-entities"] });
+    } catch (error: unknown) {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isPerson = form.entity_type === "politician" || form.entity_type === "person";
+
+  return (
+    <div className="space-y-6">
+      <AdminPageHeader
+        title="Entity Knowledge Base"
+        description="People, organizations and places that mentions in news and social posts resolve to"
+        icon={BookUser}
+        iconColor="purple"
+        onRefresh={() => refetch()}
+        isRefreshing={isFetching}
+        actions={
+          <V3Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4" /> Add entity
+          </V3Button>
+        }
+      />
+
+      <AdminCard
+        title={`${visible.length} entities`}
+        description="Prominence breaks ties between namesakes when a mention has no other context."
+        headerActions={
+          <div className="flex gap-2">
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search names and aliases"
+              className="h-8 w-56"
+            />
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="h-8 w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                {ENTITY_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        }
+      >
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading entities…</div>
+        ) : visible.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No entities match.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Office</TableHead>
+                <TableHead>Aliases</TableHead>
+                <TableHead>Prominence</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map((entity) => (
+                <TableRow key={entity.id} className={entity.active === false ? "opacity-50" : undefined}>
+                  <TableCell className="text-xs">
+                    <div className="font-medium">{entity.canonical_name}</div>
+                    <div className="text-muted-foreground">{entity.entity_key}</div>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    <V3Badge variant="muted">{entity.entity_type}</V3Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {[entity.office, [entity.party, entity.state, entity.district].filter(Boolean).join("-")]
+                      .filter(Boolean)
+                      .join(" · ") || "—"}
+                  </TableCell>
+                  <TableCell className="text-xs max-w-[240px] truncate" title={(entity.aliases || []).join(", ")}>
+                    {(entity.aliases || []).join(", ") || "—"}
+                  </TableCell>
+                  <TableCell className="text-xs">{Number(entity.prominence).toFixed(2)}</TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">
+                    {SOURCE_LABELS[entity.source] ?? entity.source}
+                    {entity.last_synced_at && (
+                      <div className="text-muted-foreground">
+                        synced {formatDistanceToNow(new Date(entity.last_synced_at), { addSuffix: true })}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <V3Button size="sm" variant="ghost" onClick={() => openDialog(entity)} aria-label={`Edit ${entity.canonical_name}`}>
+                      <Pencil className="h-4 w-4" />
+                    </V3Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </AdminCard>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Edit ${editing.canonical_name}` : "Add entity"}</DialogTitle>
+            <DialogDescription>
+              {editing?.source === "congress"
+                ? "Party, state, district and chamber are refreshed from Congress.gov on every sync."
+                : "Aliases are matched case-insensitively; short ones like \"ice\" only match when written in caps."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="kb-name">Name</Label>
+              <Input id="kb-name" value={form.canonical_name} onChange={(e) => setField("canonical_name", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={form.entity_type} onValueChange={(value) => setField("entity_type", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ENTITY_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="kb-aliases">Aliases (comma separated)</Label>
+              <Input id="kb-aliases" value={form.aliases} onChange={(e) => setField("aliases", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="kb-office">Office</Label>
+              <Input id="kb-office" value={form.office} onChange={(e) => setField("office", e.target.value)} placeholder="e.g. State Senator" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="kb-prominence">Prominence (0–1)</Label>
+              <Input
+                id="kb-prominence"
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={form.prominence}
+                onChange={(e) => setField("prominence", e.target.value)}
+              />
+            </div>
+            {isPerson && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="kb-surname">Surname</Label>
+                  <Input id="kb-surname" value={form.surname} onChange={(e) => setField("surname", e.target.value)} placeholder="Defaults to the last word of the name" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="kb-party">Party</Label>
+                  <Input id="kb-party" value={form.party} onChange={(e) => setField("party", e.target.value)} placeholder="D, R, I" />
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="kb-state">State</Label>
+              <Input id="kb-state" value={form.state} onChange={(e) => setField("state", e.target.value)} placeholder="Two-letter code" maxLength={2} />
+            </div>
+            {form.entity_type === "politician" && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="kb-district">District</Label>
+                  <Input id="kb-district" value={form.district} onChange={(e) => setField("district", e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Chamber</Label>
+                  <Select value={form.chamber || "none"} onValueChange={(value) => setField("chamber", value === "none" ? "" : value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      <SelectItem value="senate">Senate</SelectItem>
+                      <SelectItem value="house">House</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-2 space-y-2">
+                  <Label htmlFor="kb-committees">Committees (comma separated)</Label>
+                  <Input id="kb-committees" value={form.committees} onChange={(e) => setField("committees", e.target.value)} />
+                </div>
+              </>
+            )}
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="kb-notes">Notes</Label>
+              <Textarea id="kb-notes" rows={2} value={form.notes} onChange={(e) => setField("notes", e.target.value)} />
+            </div>
+            <div className="col-span-2 flex items-center gap-2">
+              <Switch id="kb-active" checked={form.active} onCheckedChange={(checked) => setField("active", checked)} />
+              <Label htmlFor="kb-active">Active</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <V3Button variant="ghost" onClick={() => setDialogOpen(false)}>Cancel</V3Button>
+            <V3Button onClick={save} isLoading={saving}>Save</V3Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
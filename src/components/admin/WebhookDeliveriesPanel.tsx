@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Webhook, RefreshCw, RotateCcw } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { V3Button } from "@/components/v3/V3Button";
+import { V3Badge } from "@/components/v3";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AdminCard } from "./v3";
+
+type QueueStatus = "dead_letter" | "retrying";
+
+interface QueuedDelivery {
+  id: string;
+  event_type: string;
+  event_id: string | null;
+  status: string | null;
+  attempts: number;
+  response_code: number | null;
+  error_message: string | null;
+  next_attempt_at: string | null;
+  dead_lettered_at: string | null;
+  created_at: string;
+  webhook_configs: { name: string } | null;
+}
+
+const QUEUE_LABELS: Record<QueueStatus, string> = {
+  dead_letter: "Dead letter",
+  retrying: "Retrying",
+};
+
+const deliveryQueueKey = (status: QueueStatus) => ["admin", "webhook-deliveries", status] as const;
+
+const ago = (ts?: string | null) => (ts ? formatDistanceToNow(new Date(ts), { addSuffix: true }) : "—");
+
+/**
+ * Outbound webhook deliveries that failed: ones waiting on backoff and the
+ * dead-letter queue, with manual replay through send-webhook.
+ */
+export function WebhookDeliveriesPanel() {
+  const [queue, setQueue] = useState<QueueStatus>("dead_letter");
+  const [replaying, setReplaying] = useState<string[]>([]);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: deliveries = [], isLoading, refetch } = useQuery({
+    queryKey: deliveryQueueKey(queue),
+    queryFn: async (): Promise<QueuedDelivery[]> => {
+      const { data, error } = await supabase
+        .from("webhook_deliveries")
+        .select("id, event_type, event_id, status, attempts, response_code, error_message, next_attempt_at, dead_lettered_at, created_at, webhook_configs(name)")
+        .eq("status", queue)
+        .order("created_at", { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      return (data || []) as QueuedDelivery[];
+    },
+    refetchInterval: 60000,
+  });
+
+  const replay = async (deliveryIds: string[]) => {
+    if (deliveryIds.length === 0) return;
+    setReplaying(deliveryIds);
+    try {
+      const { data, error } = await supabase.functions.invoke("send-webhook", {
+        body: { action: "replay", delivery_ids: deliveryIds },
+      });
+      if (error) throw error;
+
+      toast({
+        title: "Replay finished",
+        description: `${data?.successful ?? 0} delivered, ${data?.retrying ?? 0} retrying, ${data?.dead_lettered ?? 0} dead-lettered again`,
+      });
+    } catch (error: unknown) {
+      toast({
+        title: "Replay failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setReplaying([]);
+      queryClient.invalidateQueries({ queryKey: ["admin", "webhook-deliveries"] });
+    }
+  };
+
+  return (
+    <AdminCard
+      title="Webhook Deliveries"
+      description="Failed outbound webhooks. Retries back off from 1 minute to 6 hours; after 8 attempts deliveries are dead-lettered."
+      icon={Webhook}
+      headerActions={
+        <div className="flex gap-2">
+          {(Object.keys(QUEUE_LABELS) as QueueStatus[]).map((status) => (
+            <V3Button
+              key={status}
+              size="sm"
+              variant={queue === status ? "secondary" : "ghost"}
+              onClick={() => setQueue(status)}
+            >
+              {QUEUE_LABELS[status]}
+            </V3Button>
+          ))}
+          <V3Button size="sm" variant="ghost" onClick={() => refetch()} aria-label="Refresh deliveries">
+            <RefreshCw className="h-4 w-4" />
+          </V3Button>
+        </div>
+      }
+    >
+      {isLoading ? (
+        <div className="text-sm text-muted-foreground">Loading deliveries…</div>
+      ) : deliveries.length === 0 ? (
+        <div className="text-sm text-muted-foreground">
+          {queue === "dead_letter" ? "Dead-letter queue is empty." : "No deliveries waiting to retry."}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {queue === "dead_letter" && (
+            <V3Button
+              size="sm"
+              variant="outline"
+              isLoading={replaying.length > 1}
+              disabled={replaying.length > 0}
+              onClick={() => replay(deliveries.map((d) => d.id))}
+            >
+              <RotateCcw className="h-4 w-4" /> Replay all ({deliveries.length})
+            </V3Button>
+          )}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Webhook</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Last error</TableHead>
+                <TableHead>{queue === "dead_letter" ? "Dead-lettered" : "Next attempt"}</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell className="font-medium text-xs">{delivery.webhook_configs?.name ?? "Deleted webhook"}</TableCell>
+                  <TableCell className="text-xs">
+                    <V3Badge variant="muted">{delivery.event_type}</V3Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">{delivery.attempts}</TableCell>
+                  <TableCell className="text-xs max-w-[320px] truncate" title={delivery.error_message ?? undefined}>
+                    {delivery.response_code ? `HTTP ${delivery.response_code}` : delivery.error_message ?? "—"}
+                  </TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">
+                    {ago(queue === "dead_letter" ? delivery.dead_lettered_at : delivery.next_attempt_at)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <V3Button
+                      size="sm"
+                      variant="ghost"
+                      isLoading={replaying.length === 1 && replaying[0] === delivery.id}
+                      disabled={replaying.length > 0}
+                      onClick={() => replay([delivery.id])}
+                    >
+                      <RotateCcw className="h-4 w-4" /> Replay
+                    </V3Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </AdminCard>
+  );
+}
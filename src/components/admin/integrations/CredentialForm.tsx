@@ -5,7 +5,8 @@ import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { IntegrationPlatform, ActBlueCredentialSection } from '@/types/integrations';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { IntegrationPlatform, ActBlueCredentialSection, EmailProvider, EMAIL_PROVIDER_NAMES } from '@/types/integrations';
 import { MetaCredentialAuth } from './MetaCredentialAuth';
 
 // SECURITY: Form state for new credentials (never persisted to state after save)
@@ -34,15 +35,23 @@ export type CredentialFormData = {
     refresh_token: string;
     customer_id: string;
   };
+  email?: {
+    provider: EmailProvider;
+    api_key: string;
+    host: string;
+    username: string;
+    password: string;
+    application_name: string;
+  };
   // Track which sections are being updated for partial saves
   _actblue_section?: ActBlueCredentialSection;
 };
 
 interface CredentialFormProps {
-  platform: 'meta' | 'switchboard' | 'actblue' | 'google_ads';
+  platform: 'meta' | 'switchboard' | 'actblue' | 'google_ads' | 'email';
   formData: CredentialFormData;
   onFormDataChange: (data: CredentialFormData) => void;
-  onPlatformChange: (platform: 'meta' | 'switchboard' | 'actblue' | 'google_ads') => void;
+  onPlatformChange: (platform: 'meta' | 'switchboard' | 'actblue' | 'google_ads' | 'email') => void;
   organizationId?: string;
   disabled?: boolean;
   isEditing?: boolean; // True when editing existing credentials
@@ -165,6 +174,13 @@ export function CredentialForm({
     });
   };
 
+  const updateEmail = (field: keyof NonNullable<CredentialFormData['email']>, value: string) => {
+    onFormDataChange({
+      ...formData,
+      email: { ...formData.email!, [field]: value }
+    });
+  };
+
   // Handle ActBlue section change
   const handleActblueSectionChange = (section: ActBlueCredentialSection) => {
     setActblueSection(section);
@@ -176,11 +192,12 @@ export function CredentialForm({
 
   return (
     <Tabs value={platform} onValueChange={(v) => onPlatformChange(v as any)}>
-      <TabsList className="grid w-full grid-cols-4">
+      <TabsList className="grid w-full grid-cols-5">
         <TabsTrigger value="meta" disabled={disabled}>Meta</TabsTrigger>
         <TabsTrigger value="switchboard" disabled={disabled}>Switchboard</TabsTrigger>
         <TabsTrigger value="actblue" disabled={disabled}>ActBlue</TabsTrigger>
         <TabsTrigger value="google_ads" disabled={disabled}>Google Ads</TabsTrigger>
+        <TabsTrigger value="email" disabled={disabled}>Email</TabsTrigger>
       </TabsList>
 
       <TabsContent value="meta" className="space-y-4 pt-4">
@@ -419,6 +436,93 @@ export function CredentialForm({
           />
         </div>
       </TabsContent>
+      <TabsContent value="email" className="space-y-4 pt-4">
+        <div className="space-y-2">
+          <Label htmlFor="email_provider">
+            Provider <span className="text-destructive">*</span>
+          </Label>
+          <Select
+            value={formData.email?.provider || ''}
+            onValueChange={(v) => updateEmail('provider', v)}
+            disabled={disabled}
+          >
+            <SelectTrigger id="email_provider">
+              <SelectValue placeholder="Select email platform" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(EMAIL_PROVIDER_NAMES) as EmailProvider[]).map((provider) => (
+                <SelectItem key={provider} value={provider}>{EMAIL_PROVIDER_NAMES[provider]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {formData.email?.provider === 'actionkit' && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="email_host">ActionKit Domain</Label>
+              <Input
+                id="email_host"
+                value={formData.email?.host || ''}
+                onChange={(e) => updateEmail('host', e.target.value)}
+                placeholder="act.example.org"
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="email_username">API Username</Label>
+              <Input
+                id="email_username"
+                value={formData.email?.username || ''}
+                onChange={(e) => updateEmail('username', e.target.value)}
+                disabled={disabled}
+              />
+            </div>
+            <SecureInput
+              id="email_password"
+              label="API Password"
+              value={formData.email?.password || ''}
+              onChange={(v) => updateEmail('password', v)}
+              disabled={disabled}
+              existingHint={existingCredentialMask.password}
+            />
+          </>
+        )}
+
+        {formData.email?.provider === 'everyaction' && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="email_application_name">Application Name</Label>
+              <Input
+                id="email_application_name"
+                value={formData.email?.application_name || ''}
+                onChange={(e) => updateEmail('application_name', e.target.value)}
+                disabled={disabled}
+              />
+            </div>
+            <SecureInput
+              id="email_api_key"
+              label="API Key"
+              value={formData.email?.api_key || ''}
+              onChange={(v) => updateEmail('api_key', v)}
+              disabled={disabled}
+              existingHint={existingCredentialMask.api_key}
+            />
+          </>
+        )}
+
+        {formData.email?.provider === 'mailchimp' && (
+          <SecureInput
+            id="email_api_key"
+            label="API Key"
+            value={formData.email?.api_key || ''}
+            onChange={(v) => updateEmail('api_key', v)}
+            placeholder="xxxxxxxx-us6"
+            disabled={disabled}
+            existingHint={existingCredentialMask.api_key}
+          />
+        )}
+      </TabsContent>
     </Tabs>
   );
 }
@@ -56,7 +56,7 @@ export function CredentialSlideOver({
 }: CredentialSlideOverProps) {
   const [organizations, setOrganizations] = useState<Organization[]>([]);
   const [selectedOrg, setSelectedOrg] = useState('');
-  const [platform, setPlatform] = useState<'meta' | 'switchboard' | 'actblue' | 'google_ads'>('meta');
+  const [platform, setPlatform] = useState<'meta' | 'switchboard' | 'actblue' | 'google_ads' | 'email'>('meta');
   const [formData, setFormData] = useState<CredentialFormData>({});
   const [isTesting, setIsTesting] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
@@ -206,6 +206,11 @@ export function CredentialSlideOver({
       return false;
     }
 
+    if (platform === 'email' && !formData.email?.provider) {
+      toast.error('Select an email platform');
+      return false;
+    }
+
     return true;
   };
 
@@ -219,6 +224,7 @@ export function CredentialSlideOver({
         switchboard: 'sync-switchboard-sms',
         actblue: 'sync-actblue-csv',
         google_ads: 'sync-google-ads',
+        email: 'sync-email-platforms',
       };
 
       const { data, error } = await supabase.functions.invoke(endpoints[platform], {
@@ -60,6 +60,7 @@ const platformAccentColors: Record<string, string> = {
   switchboard: 'border-l-[hsl(var(--portal-accent-purple))]',
   actblue: 'border-l-[#0033A0]',
   google_ads: 'border-l-[#4285F4]',
+  email: 'border-l-[hsl(var(--portal-warning))]',
 };
 
 export function IntegrationDetailCard({ 
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { 
   Send, 
   Mail, 
@@ -29,6 +29,9 @@ import { V3Card, V3CardContent, V3CardHeader, V3CardTitle, V3CardDescription } f
 import { cn } from '@/lib/utils';
 import { useCampaignGenerator, type GeneratedMessage } from '@/hooks/useCampaignGenerator';
 import { useToast } from '@/hooks/use-toast';
+import { useTextingComplianceCheck } from '@/queries/useTextingComplianceQuery';
+import { SendTimeField, TextingComplianceChecklist } from '@/components/client/TextingComplianceChecklist';
+import type { TextingComplianceResult } from '@/types/textingCompliance';
 
 type Channel = 'sms' | 'email' | 'social';
 
@@ -96,6 +99,8 @@ function MessageVariantCard({
   onCopy,
   isCopied,
   channel,
+  compliance,
+  isCheckingCompliance,
 }: { 
   variant: GeneratedMessage; 
   index: number;
@@ -104,6 +109,8 @@ function MessageVariantCard({
   onCopy: () => void;
   isCopied: boolean;
   channel: Channel;
+  compliance?: TextingComplianceResult;
+  isCheckingCompliance?: boolean;
 }) {
   const approachConfig = APPROACH_CONFIG[variant.approach] || APPROACH_CONFIG.factual;
   const charLimit = CHANNEL_CONFIG[channel].charLimit;
@@ -151,6 +158,15 @@ function MessageVariantCard({
         "{variant.message}"
       </p>
 
+      {channel === 'sms' && (
+        <TextingComplianceChecklist
+          result={compliance}
+          isLoading={isCheckingCompliance}
+          compact
+          className="mb-3"
+        />
+      )}
+
       <div className="flex items-center justify-between">
         <span className={cn(
           "text-xs",
@@ -199,6 +215,7 @@ export function CampaignLaunchPanel({
   const [customMessage, setCustomMessage] = useState('');
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [sendAt, setSendAt] = useState('');
   const { toast } = useToast();
   
   const {
@@ -211,6 +228,17 @@ export function CampaignLaunchPanel({
     copyToClipboard,
   } = useCampaignGenerator();
 
+  // The opt-out line is appended at send time, so don't flag drafts for it
+  const textingCheck = useTextingComplianceCheck(
+    channel === 'sms' ? organizationId : null,
+    [...messages.map(m => m.message), customMessage],
+    { optOutAppended: true, sendAt }
+  );
+  const complianceByMessage = useMemo(
+    () => new Map((textingCheck.data ?? []).map(r => [r.message, r])),
+    [textingCheck.data]
+  );
+
   const handleGenerate = async () => {
     if (!organizationId) {
       toast({
@@ -356,6 +384,10 @@ export function CampaignLaunchPanel({
               </div>
             </div>
 
+            {channel === 'sms' && (
+              <SendTimeField id="campaign-send-time" value={sendAt} onChange={setSendAt} className="max-w-xs" />
+            )}
+
             {/* Message Variants */}
             <div className="space-y-3">
               {messages.map((variant, index) => (
@@ -368,6 +400,8 @@ export function CampaignLaunchPanel({
                   onCopy={() => handleCopy(variant.message, index)}
                   isCopied={copiedIndex === index}
                   channel={channel}
+                  compliance={complianceByMessage.get(variant.message.trim())}
+                  isCheckingCompliance={textingCheck.isFetching}
                 />
               ))}
             </div>
@@ -444,6 +478,13 @@ export function CampaignLaunchPanel({
                 Copy
               </Button>
             </div>
+            {channel === 'sms' && customMessage.trim() && (
+              <TextingComplianceChecklist
+                result={complianceByMessage.get(customMessage.trim())}
+                isLoading={textingCheck.isFetching}
+                error={textingCheck.error}
+              />
+            )}
           </CollapsibleContent>
         </Collapsible>
       </V3CardContent>
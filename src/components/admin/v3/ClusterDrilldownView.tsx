@@ -445,6 +445,7 @@ export function ClusterDrilldownView({ clusterId, onBack }: ClusterDrilldownView
                     rss: cluster.rss_count || 0,
                     google_news: cluster.google_news_count || 0,
                     bluesky: cluster.bluesky_count || 0,
+                    reddit: cluster.reddit_count || 0,
                   }}
                   topSources={citations}
                   timeWindow="last 24 hours"
@@ -31,6 +31,7 @@ interface SourceDistribution {
   rss: number;
   google_news: number;
   bluesky: number;
+  reddit: number;
 }
 
 interface ProvenancePanelProps {
@@ -48,13 +49,14 @@ const SOURCE_TYPE_CONFIG = {
 };
 
 function SourcePieChart({ distribution }: { distribution: SourceDistribution }) {
-  const total = distribution.rss + distribution.google_news + distribution.bluesky;
+  const total = distribution.rss + distribution.google_news + distribution.bluesky + distribution.reddit;
   if (total === 0) return null;
 
   const segments = [
     { key: 'rss', value: distribution.rss, color: 'hsl(var(--primary))', label: 'RSS' },
     { key: 'google_news', value: distribution.google_news, color: 'hsl(var(--chart-2))', label: 'Google News' },
     { key: 'bluesky', value: distribution.bluesky, color: 'hsl(var(--chart-3))', label: 'Bluesky' },
+    { key: 'reddit', value: distribution.reddit, color: 'hsl(var(--chart-4))', label: 'Reddit' },
   ].filter(s => s.value > 0);
 
   // Simple bar visualization instead of pie chart for clarity
@@ -214,7 +216,7 @@ export function ProvenanceCompact({
 }: { 
   distribution: SourceDistribution 
 }) {
-  const total = distribution.rss + distribution.google_news + distribution.bluesky;
+  const total = distribution.rss + distribution.google_news + distribution.bluesky + distribution.reddit;
   if (total === 0) return null;
 
   return (
@@ -228,6 +230,9 @@ export function ProvenanceCompact({
       {distribution.bluesky > 0 && (
         <span title={`${distribution.bluesky} Bluesky posts`}>🦋{distribution.bluesky}</span>
       )}
+      {distribution.reddit > 0 && (
+        <span title={`${distribution.reddit} Reddit posts`}>👽{distribution.reddit}</span>
+      )}
     </div>
   );
 }
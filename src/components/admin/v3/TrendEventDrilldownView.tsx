@@ -186,6 +186,7 @@ function getSourceIcon(sourceType: string) {
     case 'article':
       return Newspaper;
     case 'bluesky':
+    case 'reddit':
       return MessageCircle;
     default:
       return Radio;
@@ -198,6 +199,7 @@ function formatSourceType(type: string): string {
     case 'rss': 
     case 'article': return 'RSS/News';
     case 'bluesky': return 'Bluesky';
+    case 'reddit': return 'Reddit';
     default: return type;
   }
 }
@@ -248,7 +250,7 @@ export function TrendEventDrilldownView({
       title: e.source_title || 'Untitled',
       source: e.source_domain || formatSourceType(e.source_type),
       url: e.source_url || '',
-      sourceType: e.source_type === 'bluesky' ? 'social' as const : 'news' as const,
+      sourceType: e.source_type === 'bluesky' || e.source_type === 'reddit' ? 'social' as const : 'news' as const,
       publishedAt: e.published_at || '',
     }));
   }, [evidence]);
@@ -506,6 +508,7 @@ export function TrendEventDrilldownView({
                           rss: evidenceBySource['rss'] || evidenceBySource['article'] || 0,
                           google_news: evidenceBySource['google_news'] || 0,
                           bluesky: evidenceBySource['bluesky'] || 0,
+                          reddit: evidenceBySource['reddit'] || 0,
                         }}
                         topSources={citations}
                         timeWindow="last 24 hours"
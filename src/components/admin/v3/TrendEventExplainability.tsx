@@ -144,6 +144,7 @@ function formatSourceType(type: string): string {
     case 'rss': 
     case 'article': return 'RSS/News';
     case 'bluesky': return 'Bluesky';
+    case 'reddit': return 'Reddit';
     default: return type;
   }
 }
@@ -155,6 +156,7 @@ function getSourceIcon(type: string) {
     case 'article':
       return Newspaper;
     case 'bluesky':
+    case 'reddit':
       return MessageCircle;
     default:
       return Radio;
@@ -191,6 +193,11 @@ export function TrendExplainability({ trend, className, defaultExpanded = false
     trend_score: 0
   };
 
+  const sourceLanes = Object.entries(trend.confidence_factors?.by_source || {})
+    .filter(([, count]) => (count || 0) > 0)
+    .sort((a, b) => (b[1] || 0) - (a[1] || 0));
+  const redditVelocity = trend.confidence_factors?.reddit_velocity;
+
   return (
     <Collapsible open={isOpen} onOpenChange={setIsOpen} className={className}>
       <div className="space-y-2">
@@ -361,6 +368,33 @@ export function TrendExplainability({ trend, className, defaultExpanded = false
             </p>
           </div>
 
+          {/* Source lanes: deduped mentions per source, Reddit against its own baseline */}
+          {sourceLanes.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground flex items-center gap-1">
+                <BarChart3 className="h-3 w-3" />
+                Mentions by Source
+              </p>
+              <div className="text-xs space-y-1.5 bg-muted/20 rounded-md p-2">
+                {sourceLanes.map(([source, count]) => {
+                  const SourceIcon = getSourceIcon(source);
+                  return (
+                    <div key={source} className="flex items-center gap-2">
+                      <SourceIcon className="h-3 w-3 text-muted-foreground" />
+                      <span className="flex-1">{formatSourceType(source)}</span>
+                      {source === 'reddit' && typeof redditVelocity === 'number' && (
+                        <span className="text-muted-foreground">
+                          {redditVelocity > 0 ? '+' : ''}{redditVelocity}% vs Reddit baseline
+                        </span>
+                      )}
+                      <span className="font-mono">{count}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Source Tier Distribution - Phase 4 */}
           {(trend.tier1_count || trend.tier2_count || trend.tier3_count) ? (
             <div className="space-y-2">
@@ -20,6 +20,10 @@ import { useToast } from "@/hooks/use-toast";
 import { ExportDialog } from "@/components/reports/ExportDialog";
 import { AdminPageHeader, AdminLoadingState } from "@/components/admin/v3";
 import { V3Button } from "@/components/v3/V3Button";
+import { MatchedRules } from "@/components/alerts/MatchedRules";
+import { DEFAULT_TAXONOMY_NOTE, parseMatchedRules } from "@/lib/threat-taxonomy";
+import type { ThreatRuleMatch } from "@/types/threatTaxonomy";
+import type { Json } from "@/integrations/supabase/types";
 
 interface CriticalAlert {
   source_type: string;
@@ -30,8 +34,26 @@ interface CriticalAlert {
   threat_level: string;
   affected_organizations: string[];
   url: string;
+  /** Taxonomy rules behind the threat level (state actions, executive orders) */
+  matched_rules: ThreatRuleMatch[];
 }
 
+// Federal Register columns written by fetch-executive-orders
+interface ExecutiveOrderAlertRow {
+  id: string;
+  title: string;
+  summary: string | null;
+  abstract?: string | null;
+  html_url?: string | null;
+  source_url: string | null;
+  created_at: string;
+  threat_level: string | null;
+  matched_rules: Json;
+}
+
+const ALERT_LEVELS = ['critical', 'high'];
+const ALERT_LIMIT = 20;
+
 const sourceTypeIcons: Record<string, any> = {
   article: FileText,
   bill: Landmark,
@@ -62,28 +84,70 @@ export function CriticalAlerts() {
     try {
       setLoading(true);
 
-      // Fetch from alert_queue for critical/high severity items
-      const { data, error } = await supabase
-        .from('alert_queue')
-        .select('*')
-        .in('severity', ['critical', 'high'])
-        .order('created_at', { ascending: false })
-        .limit(20);
+      // Critical/high items from alert_queue, plus state actions and
+      // executive orders scored critical/high by the threat taxonomy
+      const [queue, stateActions, executiveOrders] = await Promise.all([
+        supabase
+          .from('alert_queue')
+          .select('*')
+          .in('severity', ALERT_LEVELS)
+          .order('created_at', { ascending: false })
+          .limit(ALERT_LIMIT),
+        supabase
+          .from('state_actions')
+          .select('id, title, description, source_url, created_at, threat_level, affected_organizations, matched_rules')
+          .in('threat_level', ALERT_LEVELS)
+          .order('created_at', { ascending: false })
+          .limit(ALERT_LIMIT),
+        supabase
+          .from('executive_orders')
+          .select('*')
+          .in('threat_level', ALERT_LEVELS)
+          .order('created_at', { ascending: false })
+          .limit(ALERT_LIMIT),
+      ]);
+
+      if (queue.error) throw queue.error;
+      if (stateActions.error) throw stateActions.error;
+      if (executiveOrders.error) throw executiveOrders.error;
 
-      if (error) throw error;
-      
       // Map to CriticalAlert format
-      const mappedAlerts: CriticalAlert[] = (data || []).map(alert => ({
-        source_type: alert.alert_type,
-        id: alert.id,
-        title: alert.title,
-        summary: alert.message,
-        date: alert.created_at || '',
-        threat_level: alert.severity,
-        affected_organizations: [],
-        url: '',
-      }));
-      
+      const mappedAlerts: CriticalAlert[] = [
+        ...(queue.data || []).map(alert => ({
+          source_type: alert.alert_type,
+          id: alert.id,
+          title: alert.title,
+          summary: alert.message,
+          date: alert.created_at || '',
+          threat_level: alert.severity,
+          affected_organizations: [],
+          url: '',
+          matched_rules: [],
+        })),
+        ...(stateActions.data || []).map(action => ({
+          source_type: 'state_action',
+          id: action.id,
+          title: action.title,
+          summary: action.description || '',
+          date: action.created_at,
+          threat_level: action.threat_level || 'high',
+          affected_organizations: action.affected_organizations || [],
+          url: action.source_url || '',
+          matched_rules: parseMatchedRules(action.matched_rules),
+        })),
+        ...((executiveOrders.data || []) as ExecutiveOrderAlertRow[]).map(order => ({
+          source_type: 'executive_order',
+          id: order.id,
+          title: order.title,
+          summary: order.abstract || order.summary || '',
+          date: order.created_at,
+          threat_level: order.threat_level || 'high',
+          affected_organizations: [],
+          url: order.html_url || order.source_url || '',
+          matched_rules: parseMatchedRules(order.matched_rules),
+        })),
+      ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
       setAlerts(mappedAlerts);
     } catch (error) {
       if (import.meta.env.DEV) {
@@ -177,7 +241,7 @@ export function CriticalAlerts() {
             {criticalCount} Critical Alert{criticalCount !== 1 ? 's' : ''} Require Immediate Attention
           </AlertTitle>
           <AlertDescription>
-            Items marked as critical may directly impact Muslim and Arab American organizations.
+            Items marked as critical matched high-weight rules in the default threat taxonomy. Each alert lists the rules it matched.
           </AlertDescription>
         </Alert>
       )}
@@ -193,6 +257,7 @@ export function CriticalAlerts() {
               <CardDescription>
                 {criticalCount} critical, {highCount} high priority items from all sources
               </CardDescription>
+              <p className="text-xs text-muted-foreground mt-1">{DEFAULT_TAXONOMY_NOTE}</p>
             </div>
             <div className="flex gap-2">
               <ExportDialog
@@ -271,6 +336,11 @@ export function CriticalAlerts() {
                                 {alert.summary}
                               </p>
                             )}
+                            {alert.matched_rules.length > 0 && (
+                              <div className="mb-2">
+                                <MatchedRules matches={alert.matched_rules} limit={2} />
+                              </div>
+                            )}
                             <div className="flex items-center justify-between">
                               <span className="text-xs text-muted-foreground">
                                 {alert.date && formatDistanceToNow(new Date(alert.date), { addSuffix: true })}
@@ -10,6 +10,8 @@ import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { ExportDialog } from "@/components/reports/ExportDialog";
 import { AdminPageHeader, AdminLoadingState } from "@/components/admin/v3";
+import { MatchedRules } from "@/components/alerts/MatchedRules";
+import { DEFAULT_TAXONOMY_NOTE, parseMatchedRules } from "@/lib/threat-taxonomy";
 
 import type { Database } from "@/integrations/supabase/types";
 
@@ -28,7 +30,6 @@ interface ExecutiveOrder extends ExecutiveOrderRow {
   auto_tags?: string[];
   html_url?: string;
   pdf_url?: string;
-  threat_level?: string;
 }
 
 const threatLevelColors: Record<string, string> = {
@@ -164,6 +165,7 @@ export function ExecutiveOrders() {
           </div>
         }
       />
+      <p className="text-xs text-muted-foreground -mt-4">{DEFAULT_TAXONOMY_NOTE}</p>
 
       {/* Filters */}
       <div className="flex flex-col sm:flex-row gap-4">
@@ -201,92 +203,102 @@ export function ExecutiveOrders() {
         </div>
       ) : (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-          {filteredOrders.map((order) => (
-            <Card key={order.id} className={`hover-scale transition-all duration-300 ${
-              order.threat_level === 'critical' ? 'border-red-300' :
-              order.threat_level === 'high' ? 'border-orange-300' : ''
-            }`}>
-              <CardHeader className="pb-3">
-                <div className="flex items-start justify-between gap-2">
-                  <div className="flex-1">
-                    <div className="flex flex-wrap items-center gap-2 mb-2">
-                      {order.threat_level && (
-                        <Badge className={threatLevelColors[order.threat_level] || ''}>
-                          {order.threat_level.toUpperCase()}
+          {filteredOrders.map((order) => {
+            const matchedRules = parseMatchedRules(order.matched_rules);
+            return (
+              <Card key={order.id} className={`hover-scale transition-all duration-300 ${
+                order.threat_level === 'critical' ? 'border-red-300' :
+                order.threat_level === 'high' ? 'border-orange-300' : ''
+              }`}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex-1">
+                      <div className="flex flex-wrap items-center gap-2 mb-2">
+                        {order.threat_level && (
+                          <Badge className={threatLevelColors[order.threat_level] || ''}>
+                            {order.threat_level.toUpperCase()}
+                          </Badge>
+                        )}
+                        {order.document_type && (
+                          <Badge variant="outline" className="text-xs">
+                            {order.document_type.replace('_', ' ').toUpperCase()}
+                          </Badge>
+                        )}
+                        {order.executive_order_number && (
+                          <Badge variant="secondary" className="text-xs">
+                            EO {order.executive_order_number}
+                          </Badge>
+                        )}
+                      </div>
+                      <CardTitle className="text-base line-clamp-2">
+                        {order.title}
+                      </CardTitle>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {order.abstract && (
+                    <p className="text-sm text-muted-foreground line-clamp-3 mb-3">
+                      {order.abstract}
+                    </p>
+                  )}
+
+                  {/* Rules that set the threat level */}
+                  {matchedRules.length > 0 && (
+                    <div className="mb-3">
+                      <MatchedRules matches={matchedRules} />
+                    </div>
+                  )}
+
+                  {/* Tags */}
+                  {order.auto_tags?.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-3">
+                      {order.auto_tags.slice(0, 5).map((tag) => (
+                        <Badge key={tag} variant="outline" className="text-xs">
+                          {tag}
                         </Badge>
-                      )}
-                      {order.document_type && (
+                      ))}
+                      {order.auto_tags.length > 5 && (
                         <Badge variant="outline" className="text-xs">
-                          {order.document_type.replace('_', ' ').toUpperCase()}
-                        </Badge>
-                      )}
-                      {order.executive_order_number && (
-                        <Badge variant="secondary" className="text-xs">
-                          EO {order.executive_order_number}
+                          +{order.auto_tags.length - 5}
                         </Badge>
                       )}
                     </div>
-                    <CardTitle className="text-base line-clamp-2">
-                      {order.title}
-                    </CardTitle>
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent>
-                {order.abstract && (
-                  <p className="text-sm text-muted-foreground line-clamp-3 mb-3">
-                    {order.abstract}
-                  </p>
-                )}
-
-                {/* Tags */}
-                {order.auto_tags?.length > 0 && (
-                  <div className="flex flex-wrap gap-1 mb-3">
-                    {order.auto_tags.slice(0, 5).map((tag) => (
-                      <Badge key={tag} variant="outline" className="text-xs">
-                        {tag}
-                      </Badge>
-                    ))}
-                    {order.auto_tags.length > 5 && (
-                      <Badge variant="outline" className="text-xs">
-                        +{order.auto_tags.length - 5}
-                      </Badge>
-                    )}
-                  </div>
-                )}
+                  )}
 
-                {/* Metadata */}
-                <div className="flex items-center justify-between text-xs text-muted-foreground">
-                  <div className="flex items-center gap-1">
-                    <Calendar className="h-3 w-3" />
-                    {(order.signing_date || order.created_at) && format(new Date(order.signing_date || order.created_at), 'MMM d, yyyy')}
-                  </div>
-                  <div className="flex items-center gap-2">
-                    {order.html_url && (
-                      <a
-                        href={order.html_url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="flex items-center gap-1 text-primary hover:underline"
-                      >
-                        View <ExternalLink className="h-3 w-3" />
-                      </a>
-                    )}
-                    {order.pdf_url && (
-                      <a
-                        href={order.pdf_url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="flex items-center gap-1 text-primary hover:underline"
-                      >
-                        <FileText className="h-3 w-3" /> PDF
-                      </a>
-                    )}
+                  {/* Metadata */}
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <div className="flex items-center gap-1">
+                      <Calendar className="h-3 w-3" />
+                      {(order.signing_date || order.created_at) && format(new Date(order.signing_date || order.created_at), 'MMM d, yyyy')}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {order.html_url && (
+                        <a
+                          href={order.html_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1 text-primary hover:underline"
+                        >
+                          View <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
+                      {order.pdf_url && (
+                        <a
+                          href={order.pdf_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-1 text-primary hover:underline"
+                        >
+                          <FileText className="h-3 w-3" /> PDF
+                        </a>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       )}
     </div>
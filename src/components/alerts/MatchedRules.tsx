@@ -0,0 +1,48 @@
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ListChecks } from "lucide-react";
+import { formatMatchedRule } from "@/lib/threat-taxonomy";
+import type { ThreatRuleMatch } from "@/types/threatTaxonomy";
+
+interface MatchedRulesProps {
+  /** Heaviest first (parseMatchedRules) */
+  matches: ThreatRuleMatch[];
+  /** Rules shown before collapsing the rest into "+n" */
+  limit?: number;
+}
+
+// Which taxonomy rules set an item's threat level
+export function MatchedRules({ matches, limit = 3 }: MatchedRulesProps) {
+  if (matches.length === 0) return null;
+
+  const shown = matches.slice(0, limit);
+  const hidden = matches.slice(limit);
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <ListChecks className="h-3 w-3 text-muted-foreground" aria-label="Matched rules" />
+      {shown.map((match) => (
+        <Badge key={`${match.category_id}-${match.rule_id}`} variant="outline" className="text-xs font-normal">
+          {formatMatchedRule(match)}
+          <span className="ml-1 text-muted-foreground">+{match.weight}</span>
+        </Badge>
+      ))}
+      {hidden.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Badge variant="outline" className="text-xs font-normal cursor-default">
+              +{hidden.length} more
+            </Badge>
+          </TooltipTrigger>
+          <TooltipContent className="max-w-xs">
+            {hidden.map((match) => (
+              <p key={`${match.category_id}-${match.rule_id}`} className="text-xs">
+                {formatMatchedRule(match)} (+{match.weight})
+              </p>
+            ))}
+          </TooltipContent>
+        </Tooltip>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,8 @@ import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { ExportDialog } from "@/components/reports/ExportDialog";
 import { AdminPageHeader, AdminLoadingState } from "@/components/admin/v3";
+import { MatchedRules } from "@/components/alerts/MatchedRules";
+import { DEFAULT_TAXONOMY_NOTE, parseMatchedRules } from "@/lib/threat-taxonomy";
 
 import type { Database } from "@/integrations/supabase/types";
 
@@ -25,8 +27,6 @@ interface StateAction extends StateActionRow {
   official_title?: string;
   action_date?: string;
   auto_tags?: string[];
-  affected_organizations?: string[];
-  threat_level?: string;
 }
 
 const threatLevelColors: Record<string, string> = {
@@ -139,7 +139,9 @@ export function StateActions() {
 
       toast({
         title: "State action added",
-        description: `Threat level: ${data.threatLevel}`,
+        description: data.matchedRules?.length
+          ? `Threat level: ${data.threatLevel} (${data.matchedRules.length} rule${data.matchedRules.length === 1 ? '' : 's'} matched)`
+          : `Threat level: ${data.threatLevel}`,
       });
 
       setShowAddDialog(false);
@@ -237,6 +239,7 @@ export function StateActions() {
           </div>
         }
       />
+      <p className="text-xs text-muted-foreground -mt-4">{DEFAULT_TAXONOMY_NOTE}</p>
 
       <Dialog open={showAddDialog} onOpenChange={setShowAddDialog}>
         <DialogContent className="max-w-md">
@@ -398,74 +401,85 @@ export function StateActions() {
         </div>
       ) : (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-          {filteredActions.map((action) => (
-            <Card key={action.id} className={`hover-scale transition-all duration-300 ${
-              action.threat_level === 'critical' ? 'border-red-300 bg-red-50/30' :
-              action.threat_level === 'high' ? 'border-orange-300 bg-orange-50/30' : ''
-            }`}>
-              <CardHeader className="pb-3">
-                <div className="flex items-start justify-between gap-2">
-                  <div className="flex-1">
-                    <div className="flex flex-wrap items-center gap-2 mb-2">
-                      <Badge className={threatLevelColors[action.threat_level]}>
-                        {action.threat_level.toUpperCase()}
-                      </Badge>
-                      <Badge variant="outline" className="text-xs">
-                        <MapPin className="h-3 w-3 mr-1" />
-                        {action.state_code}
-                      </Badge>
-                      <Badge variant="secondary" className="text-xs">
-                        {actionTypeLabels[action.action_type] || action.action_type}
-                      </Badge>
+          {filteredActions.map((action) => {
+            const threatLevel = action.threat_level || 'low';
+            const matchedRules = parseMatchedRules(action.matched_rules);
+            return (
+              <Card key={action.id} className={`hover-scale transition-all duration-300 ${
+                threatLevel === 'critical' ? 'border-red-300 bg-red-50/30' :
+                threatLevel === 'high' ? 'border-orange-300 bg-orange-50/30' : ''
+              }`}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex-1">
+                      <div className="flex flex-wrap items-center gap-2 mb-2">
+                        <Badge className={threatLevelColors[threatLevel]}>
+                          {threatLevel.toUpperCase()}
+                        </Badge>
+                        <Badge variant="outline" className="text-xs">
+                          <MapPin className="h-3 w-3 mr-1" />
+                          {action.state_code}
+                        </Badge>
+                        <Badge variant="secondary" className="text-xs">
+                          {actionTypeLabels[action.action_type] || action.action_type}
+                        </Badge>
+                      </div>
+                      <CardTitle className="text-base line-clamp-2">
+                        {action.title}
+                      </CardTitle>
+                      {action.official_name && (
+                        <CardDescription className="mt-1">
+                          {action.official_title} {action.official_name}
+                        </CardDescription>
+                      )}
                     </div>
-                    <CardTitle className="text-base line-clamp-2">
-                      {action.title}
-                    </CardTitle>
-                    {action.official_name && (
-                      <CardDescription className="mt-1">
-                        {action.official_title} {action.official_name}
-                      </CardDescription>
-                    )}
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent>
-                {action.description && (
-                  <p className="text-sm text-muted-foreground line-clamp-3 mb-3">
-                    {action.description}
-                  </p>
-                )}
-
-                {/* Affected Organizations */}
-                {action.affected_organizations?.length > 0 && (
-                  <div className="flex flex-wrap gap-1 mb-3">
-                    {action.affected_organizations.map((org) => (
-                      <Badge key={org} variant="destructive" className="text-xs">
-                        {org}
-                      </Badge>
-                    ))}
                   </div>
-                )}
-
-                {/* Metadata */}
-                <div className="flex items-center justify-between text-xs text-muted-foreground">
-                  <span>
-                    {action.action_date && format(new Date(action.action_date), 'MMM d, yyyy')}
-                  </span>
-                  {action.source_url && (
-                    <a
-                      href={action.source_url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center gap-1 text-primary hover:underline"
-                    >
-                      Source <ExternalLink className="h-3 w-3" />
-                    </a>
+                </CardHeader>
+                <CardContent>
+                  {action.description && (
+                    <p className="text-sm text-muted-foreground line-clamp-3 mb-3">
+                      {action.description}
+                    </p>
+                  )}
+
+                  {/* Rules that set the threat level */}
+                  {matchedRules.length > 0 && (
+                    <div className="mb-3">
+                      <MatchedRules matches={matchedRules} />
+                    </div>
                   )}
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+
+                  {/* Affected Organizations */}
+                  {action.affected_organizations?.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-3">
+                      {action.affected_organizations.map((org) => (
+                        <Badge key={org} variant="destructive" className="text-xs">
+                          {org}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+
+                  {/* Metadata */}
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                      {action.action_date && format(new Date(action.action_date), 'MMM d, yyyy')}
+                    </span>
+                    {action.source_url && (
+                      <a
+                        href={action.source_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-primary hover:underline"
+                      >
+                        Source <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       )}
     </div>
@@ -0,0 +1,137 @@
+import { useMemo, useState } from "react";
+import { format, subDays } from "date-fns";
+import { Shuffle } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { V3EmptyState, V3LoadingState } from "@/components/v3";
+import {
+  useAttributionModels,
+  ATTRIBUTION_MODEL_LABELS,
+  type AttributionModelName,
+} from "@/hooks/useAttributionModels";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface AttributionModelComparisonProps {
+  organizationId: string | undefined;
+  /** Reporting window in days, ending today */
+  days?: number;
+}
+
+const MODELS = Object.keys(ATTRIBUTION_MODEL_LABELS) as AttributionModelName[];
+
+const CHANNEL_LABELS: Record<string, string> = {
+  meta: "Meta Ads",
+  sms: "SMS",
+  email: "Email",
+  organic: "Organic",
+  other: "Other / Direct",
+};
+
+const LOOKBACK_OPTIONS = [7, 14, 30, 60, 90];
+const HALF_LIFE_OPTIONS = [1, 3, 7, 14];
+
+const formatCurrency = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+// ============================================================================
+// Main Component
+// ============================================================================
+
+export function AttributionModelComparison({ organizationId, days = 30 }: AttributionModelComparisonProps) {
+  const [lookbackDays, setLookbackDays] = useState(30);
+  const [halfLifeDays, setHalfLifeDays] = useState(7);
+
+  const options = useMemo(() => ({
+    startDate: format(subDays(new Date(), days), "yyyy-MM-dd"),
+    endDate: format(new Date(), "yyyy-MM-dd'T'23:59:59"),
+    lookbackDays,
+    halfLifeDays,
+  }), [days, lookbackDays, halfLifeDays]);
+
+  const { data, isLoading, error } = useAttributionModels(organizationId, options);
+
+  const rows = useMemo(() => {
+    if (!data) return [];
+    return Object.entries(data.channelResults)
+      .map(([channel, credits]) => ({ channel, credits }))
+      .sort((a, b) => b.credits.linear - a.credits.linear);
+  }, [data]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span className="text-[hsl(var(--portal-text-muted))]">Lookback</span>
+        <Select value={String(lookbackDays)} onValueChange={(v) => setLookbackDays(Number(v))}>
+          <SelectTrigger className="w-[110px] h-8" aria-label="Attribution lookback window">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LOOKBACK_OPTIONS.map((d) => (
+              <SelectItem key={d} value={String(d)}>{d} days</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-[hsl(var(--portal-text-muted))]">Decay half-life</span>
+        <Select value={String(halfLifeDays)} onValueChange={(v) => setHalfLifeDays(Number(v))}>
+          <SelectTrigger className="w-[110px] h-8" aria-label="Time-decay half-life">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {HALF_LIFE_OPTIONS.map((d) => (
+              <SelectItem key={d} value={String(d)}>{d} {d === 1 ? "day" : "days"}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {data && (
+          <span className="ml-auto text-xs text-[hsl(var(--portal-text-muted))]">
+            {data.multiTouchCount.toLocaleString()} of {data.transactionCount.toLocaleString()} donations had
+            multiple touchpoints • avg {data.avgTouchpointsPerJourney.toFixed(1)} per journey
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <V3LoadingState variant="table" />
+      ) : error ? (
+        <V3EmptyState
+          icon={Shuffle}
+          title="Attribution models unavailable"
+          description={(error as Error).message}
+          accent="red"
+        />
+      ) : rows.length === 0 ? (
+        <V3EmptyState
+          icon={Shuffle}
+          title="No attributed donations yet"
+          description="Model comparison appears once donations can be linked to tracked touchpoints."
+        />
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Channel</TableHead>
+              {MODELS.map((model) => (
+                <TableHead key={model} className="text-right">{ATTRIBUTION_MODEL_LABELS[model]}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(({ channel, credits }) => (
+              <TableRow key={channel}>
+                <TableCell className="font-medium">{CHANNEL_LABELS[channel] || channel}</TableCell>
+                {MODELS.map((model) => (
+                  <TableCell key={model} className="text-right tabular-nums">
+                    {formatCurrency(credits[model])}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,541 @@
+import { useMemo, useState, type ChangeEvent } from "react";
+import { Copy, Plus, Shuffle, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { formatCurrency } from "@/lib/chart-formatters";
+import { twoProportionZTest } from "@/lib/ab-test-statistics";
+import { parseAmountLadder, trafficShares } from "@/lib/link-rotation";
+import {
+  useAddTrackedLinkVariantMutation,
+  useCreateTrackedLinkMutation,
+  useDeleteTrackedLinkMutation,
+  useLinkVariantMetricsQuery,
+  useOrganizationSlugQuery,
+  useTrackedLinksQuery,
+  useUpdateTrackedLinkMutation,
+  useUpdateTrackedLinkVariantMutation,
+  type LinkVariantMetrics,
+  type TrackedLink,
+  type TrackedLinkVariant,
+  type TrackedLinkVariantInput,
+} from "@/hooks/useTrackedLinksQuery";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface TrackedLinksPanelProps {
+  organizationId: string;
+  startDate: string;
+  endDate: string;
+  className?: string;
+}
+
+interface VariantDraft {
+  label: string;
+  actblue_form: string;
+  amounts: string;
+  refcode: string;
+  weight: string;
+}
+
+const EMPTY_VARIANT: VariantDraft = { label: "", actblue_form: "", amounts: "", refcode: "", weight: "1" };
+const SIGNIFICANCE_ALPHA = 0.05;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toVariantInput(draft: VariantDraft): TrackedLinkVariantInput {
+  return {
+    label: draft.label.trim(),
+    actblue_form: draft.actblue_form.trim(),
+    amounts: parseAmountLadder(draft.amounts),
+    default_amount: null,
+    recurring: false,
+    refcode: draft.refcode.trim() || null,
+    weight: Math.max(0, Math.round(Number(draft.weight) || 0)),
+  };
+}
+
+function isDraftValid(draft: VariantDraft): boolean {
+  return draft.label.trim() !== "" && /^[A-Za-z0-9_-]+$/.test(draft.actblue_form.trim());
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Unknown error";
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function TrackedLinksPanel({ organizationId, startDate, endDate, className }: TrackedLinksPanelProps) {
+  const { data: links, isLoading } = useTrackedLinksQuery(organizationId);
+  const { data: metrics } = useLinkVariantMetricsQuery(organizationId, startDate, endDate);
+  const { data: orgSlug } = useOrganizationSlugQuery(organizationId);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [variantLink, setVariantLink] = useState<TrackedLink | null>(null);
+
+  return (
+    <Card className={cn("bg-[hsl(var(--portal-bg-secondary))] border-[hsl(var(--portal-border))]", className)}>
+      <CardHeader className="flex flex-row items-center justify-between gap-3 space-y-0">
+        <div className="min-w-0">
+          <CardTitle className="flex items-center gap-2 text-base text-[hsl(var(--portal-text-primary))]">
+            <Shuffle className="h-4 w-4 text-[hsl(var(--portal-accent-purple))]" />
+            Link Rotation
+          </CardTitle>
+          <p className="text-xs text-[hsl(var(--portal-text-muted))] mt-1">
+            Split /r link traffic across ActBlue forms and amount ladders. Visitors keep their variant on return.
+          </p>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => setCreateOpen(true)}>
+          <Plus className="h-4 w-4 mr-1.5" />
+          New Link
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : links && links.length > 0 ? (
+          links.map(link => (
+            <TrackedLinkSection
+              key={link.id}
+              link={link}
+              orgSlug={orgSlug ?? null}
+              organizationId={organizationId}
+              metrics={metrics || {}}
+              onAddVariant={() => setVariantLink(link)}
+            />
+          ))
+        ) : (
+          <p className="py-6 text-center text-sm text-[hsl(var(--portal-text-muted))]">
+            No rotating links yet. Links that aren't managed here redirect straight to the ActBlue form in the URL.
+          </p>
+        )}
+      </CardContent>
+
+      <CreateTrackedLinkDialog
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        organizationId={organizationId}
+      />
+      <AddVariantDialog
+        link={variantLink}
+        onOpenChange={open => !open && setVariantLink(null)}
+        organizationId={organizationId}
+      />
+    </Card>
+  );
+}
+
+// ============================================================================
+// Link Section
+// ============================================================================
+
+interface TrackedLinkSectionProps {
+  link: TrackedLink;
+  orgSlug: string | null;
+  organizationId: string;
+  metrics: Record<string, LinkVariantMetrics>;
+  onAddVariant: () => void;
+}
+
+function TrackedLinkSection({ link, orgSlug, organizationId, metrics, onAddVariant }: TrackedLinkSectionProps) {
+  const updateLink = useUpdateTrackedLinkMutation(organizationId);
+  const deleteLink = useDeleteTrackedLinkMutation(organizationId);
+  const shares = useMemo(() => trafficShares(link.variants), [link.variants]);
+  const control = link.variants[0];
+  const controlMetrics = control ? metrics[control.id] : undefined;
+  const linkUrl = `${window.location.origin}/r/${orgSlug ?? "…"}/l/${link.slug}`;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(linkUrl);
+      toast.success("Link copied");
+    } catch {
+      toast.error("Couldn't copy link");
+    }
+  };
+
+  const handleToggle = async (isActive: boolean) => {
+    try {
+      await updateLink.mutateAsync({ id: link.id, updates: { is_active: isActive } });
+    } catch (error) {
+      toast.error(`Failed to update link: ${errorMessage(error)}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete "${link.name}"? Its URL will fall back to the ActBlue form "${link.slug}".`)) return;
+    try {
+      await deleteLink.mutateAsync(link.id);
+      toast.success("Link deleted");
+    } catch (error) {
+      toast.error(`Failed to delete link: ${errorMessage(error)}`);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <h4 className="font-medium text-sm text-[hsl(var(--portal-text-primary))] truncate">{link.name}</h4>
+            {!link.is_active && <Badge variant="secondary" className="text-[10px]">Paused</Badge>}
+          </div>
+          <button
+            type="button"
+            onClick={handleCopy}
+            className="flex items-center gap-1 text-xs font-mono text-[hsl(var(--portal-text-muted))] hover:text-[hsl(var(--portal-text-primary))]"
+          >
+            {linkUrl}
+            <Copy className="h-3 w-3" />
+          </button>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch checked={link.is_active} onCheckedChange={handleToggle} aria-label="Link active" />
+          <Button size="sm" variant="ghost" onClick={onAddVariant}>
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Variant
+          </Button>
+          <Button size="icon" variant="ghost" onClick={handleDelete} aria-label="Delete link">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Variant</TableHead>
+              <TableHead>Form / Amounts</TableHead>
+              <TableHead className="w-20">Weight</TableHead>
+              <TableHead className="text-right">Traffic</TableHead>
+              <TableHead className="text-right">Visitors</TableHead>
+              <TableHead className="text-right">Conv.</TableHead>
+              <TableHead className="text-right">CVR</TableHead>
+              <TableHead className="text-right">Revenue</TableHead>
+              <TableHead className="text-right">vs. {control?.label ?? "control"}</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {link.variants.map((variant, index) => (
+              <VariantRow
+                key={variant.id}
+                variant={variant}
+                organizationId={organizationId}
+                share={shares[variant.id] ?? 0}
+                metrics={metrics[variant.id]}
+                controlMetrics={index === 0 ? undefined : controlMetrics}
+              />
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Variant Row
+// ============================================================================
+
+interface VariantRowProps {
+  variant: TrackedLinkVariant;
+  organizationId: string;
+  share: number;
+  metrics: LinkVariantMetrics | undefined;
+  controlMetrics: LinkVariantMetrics | undefined;
+}
+
+function VariantRow({ variant, organizationId, share, metrics, controlMetrics }: VariantRowProps) {
+  const updateVariant = useUpdateTrackedLinkVariantMutation(organizationId);
+  const [weight, setWeight] = useState(String(variant.weight));
+
+  // Conversion rate difference against the first variant
+  const comparison = useMemo(() => {
+    if (!metrics || !controlMetrics) return null;
+    if (metrics.uniqueVisitors === 0 || controlMetrics.uniqueVisitors === 0) return null;
+    return twoProportionZTest(
+      controlMetrics.conversions,
+      controlMetrics.uniqueVisitors,
+      metrics.conversions,
+      metrics.uniqueVisitors,
+      SIGNIFICANCE_ALPHA
+    );
+  }, [metrics, controlMetrics]);
+
+  const save = async (updates: Partial<TrackedLinkVariantInput> & { is_active?: boolean }) => {
+    try {
+      await updateVariant.mutateAsync({ id: variant.id, updates });
+    } catch (error) {
+      toast.error(`Failed to update variant: ${errorMessage(error)}`);
+    }
+  };
+
+  const handleWeightBlur = () => {
+    const next = Math.max(0, Math.round(Number(weight) || 0));
+    setWeight(String(next));
+    if (next !== variant.weight) save({ weight: next });
+  };
+
+  return (
+    <TableRow className={cn(!variant.is_active && "opacity-50")}>
+      <TableCell className="font-medium text-[hsl(var(--portal-text-primary))]">
+        {variant.label}
+        {variant.refcode && (
+          <span className="block text-[10px] font-mono text-[hsl(var(--portal-text-muted))]">{variant.refcode}</span>
+        )}
+      </TableCell>
+      <TableCell className="text-xs text-[hsl(var(--portal-text-muted))]">
+        <span className="font-mono">{variant.actblue_form}</span>
+        {variant.amounts && <span className="block">${variant.amounts.join(" / $")}</span>}
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min={0}
+          value={weight}
+          onChange={e => setWeight(e.target.value)}
+          onBlur={handleWeightBlur}
+          className="h-8 w-16"
+          aria-label={`Weight for ${variant.label}`}
+        />
+      </TableCell>
+      <TableCell className="text-right">{share.toFixed(0)}%</TableCell>
+      <TableCell className="text-right">{(metrics?.uniqueVisitors ?? 0).toLocaleString()}</TableCell>
+      <TableCell className="text-right">{(metrics?.conversions ?? 0).toLocaleString()}</TableCell>
+      <TableCell className="text-right">{(metrics?.conversionRate ?? 0).toFixed(1)}%</TableCell>
+      <TableCell className="text-right">{formatCurrency(metrics?.revenue ?? 0)}</TableCell>
+      <TableCell className="text-right text-xs">
+        {comparison ? (
+          <span
+            className={cn(
+              comparison.pValue < SIGNIFICANCE_ALPHA
+                ? comparison.difference > 0
+                  ? "text-[hsl(var(--portal-success))]"
+                  : "text-[hsl(var(--portal-error))]"
+                : "text-[hsl(var(--portal-text-muted))]"
+            )}
+            title={`p = ${comparison.pValue.toFixed(3)}`}
+          >
+            {comparison.difference >= 0 ? "+" : ""}
+            {(comparison.difference * 100).toFixed(1)} pts
+            {comparison.pValue < SIGNIFICANCE_ALPHA ? " *" : ""}
+          </span>
+        ) : (
+          <span className="text-[hsl(var(--portal-text-muted))]">—</span>
+        )}
+      </TableCell>
+      <TableCell>
+        <Switch
+          checked={variant.is_active}
+          onCheckedChange={checked => save({ is_active: checked })}
+          aria-label={`${variant.label} active`}
+        />
+      </TableCell>
+    </TableRow>
+  );
+}
+
+// ============================================================================
+// Dialogs
+// ============================================================================
+
+function VariantFields({ draft, onChange }: { draft: VariantDraft; onChange: (draft: VariantDraft) => void }) {
+  const set = (key: keyof VariantDraft) => (e: ChangeEvent<HTMLInputElement>) =>
+    onChange({ ...draft, [key]: e.target.value });
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <Input placeholder="Label (e.g. Low ladder)" value={draft.label} onChange={set("label")} />
+      <Input placeholder="ActBlue form" value={draft.actblue_form} onChange={set("actblue_form")} />
+      <Input placeholder="Amounts (10, 25, 50)" value={draft.amounts} onChange={set("amounts")} />
+      <div className="flex gap-2">
+        <Input placeholder="Refcode (optional)" value={draft.refcode} onChange={set("refcode")} />
+        <Input
+          type="number"
+          min={0}
+          placeholder="Weight"
+          value={draft.weight}
+          onChange={set("weight")}
+          className="w-20"
+        />
+      </div>
+    </div>
+  );
+}
+
+interface CreateTrackedLinkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizationId: string;
+}
+
+function CreateTrackedLinkDialog({ open, onOpenChange, organizationId }: CreateTrackedLinkDialogProps) {
+  const createLink = useCreateTrackedLinkMutation(organizationId);
+  const [name, setName] = useState("");
+  const [slug, setSlug] = useState("");
+  const [variants, setVariants] = useState<VariantDraft[]>([{ ...EMPTY_VARIANT }, { ...EMPTY_VARIANT }]);
+
+  const reset = () => {
+    setName("");
+    setSlug("");
+    setVariants([{ ...EMPTY_VARIANT }, { ...EMPTY_VARIANT }]);
+  };
+
+  const canSave = name.trim() !== "" && slug !== "" && variants.length > 0 && variants.every(isDraftValid);
+
+  const handleSave = async () => {
+    try {
+      await createLink.mutateAsync({
+        link: { name: name.trim(), slug },
+        variants: variants.map(toVariantInput),
+      });
+      toast.success("Tracked link created");
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(`Failed to create link: ${errorMessage(error)}`);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] bg-[hsl(var(--portal-bg-secondary))] border-[hsl(var(--portal-border))]">
+        <DialogHeader>
+          <DialogTitle className="text-[hsl(var(--portal-text-primary))]">New Rotating Link</DialogTitle>
+          <DialogDescription className="text-[hsl(var(--portal-text-muted))]">
+            Traffic is split by weight. Give each variant its own refcode to credit donations that arrive without a click ID.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="tracked-link-name">Name</Label>
+              <Input
+                id="tracked-link-name"
+                value={name}
+                onChange={e => {
+                  setName(e.target.value);
+                  setSlug(slugify(e.target.value));
+                }}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tracked-link-slug">URL slug</Label>
+              <Input id="tracked-link-slug" value={slug} onChange={e => setSlug(slugify(e.target.value))} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Variants</Label>
+            {variants.map((draft, index) => (
+              <div key={index} className="flex items-start gap-2">
+                <div className="flex-1">
+                  <VariantFields
+                    draft={draft}
+                    onChange={next => setVariants(prev => prev.map((v, i) => (i === index ? next : v)))}
+                  />
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  disabled={variants.length === 1}
+                  onClick={() => setVariants(prev => prev.filter((_, i) => i !== index))}
+                  aria-label="Remove variant"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button size="sm" variant="ghost" onClick={() => setVariants(prev => [...prev, { ...EMPTY_VARIANT }])}>
+              <Plus className="h-3.5 w-3.5 mr-1" />
+              Add variant
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!canSave || createLink.isPending}>Create Link</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface AddVariantDialogProps {
+  link: TrackedLink | null;
+  onOpenChange: (open: boolean) => void;
+  organizationId: string;
+}
+
+function AddVariantDialog({ link, onOpenChange, organizationId }: AddVariantDialogProps) {
+  const addVariant = useAddTrackedLinkVariantMutation(organizationId);
+  const [draft, setDraft] = useState<VariantDraft>({ ...EMPTY_VARIANT });
+
+  const handleSave = async () => {
+    if (!link) return;
+    try {
+      await addVariant.mutateAsync({ linkId: link.id, variant: toVariantInput(draft) });
+      toast.success("Variant added");
+      setDraft({ ...EMPTY_VARIANT });
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(`Failed to add variant: ${errorMessage(error)}`);
+    }
+  };
+
+  return (
+    <Dialog open={!!link} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] bg-[hsl(var(--portal-bg-secondary))] border-[hsl(var(--portal-border))]">
+        <DialogHeader>
+          <DialogTitle className="text-[hsl(var(--portal-text-primary))]">Add Variant</DialogTitle>
+          <DialogDescription className="text-[hsl(var(--portal-text-muted))]">
+            New visitors to "{link?.name}" start receiving this variant. Existing visitors keep theirs.
+          </DialogDescription>
+        </DialogHeader>
+        <VariantFields draft={draft} onChange={setDraft} />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!isDraftValid(draft) || addVariant.isPending}>Add Variant</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
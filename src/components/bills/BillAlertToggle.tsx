@@ -1,6 +1,15 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Bell, BellOff } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
@@ -9,8 +18,19 @@ interface BillAlertToggleProps {
   billNumber: string;
 }
 
+// Delivered by sync-congress-bills (see _shared/billTracking.ts)
+const ALERT_TYPES = [
+  { value: 'amended', label: 'Amended' },
+  { value: 'scheduled', label: 'Scheduled for floor action' },
+  { value: 'voted', label: 'Voted on' },
+] as const;
+
+type BillAlertType = typeof ALERT_TYPES[number]['value'];
+
+const ALL_TYPES: BillAlertType[] = ALERT_TYPES.map((t) => t.value);
+
 export function BillAlertToggle({ billId, billNumber }: BillAlertToggleProps) {
-  const [isSubscribed, setIsSubscribed] = useState(false);
+  const [activeTypes, setActiveTypes] = useState<BillAlertType[]>([]);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
@@ -25,14 +45,19 @@ export function BillAlertToggle({ billId, billNumber }: BillAlertToggleProps) {
 
       const { data, error } = await supabase
         .from('bill_alerts')
-        .select('id')
+        .select('alert_type')
         .eq('bill_id', billId)
         .eq('user_id', user.id)
-        .eq('is_active', true)
-        .maybeSingle();
+        .eq('is_active', true);
 
       if (error) throw error;
-      setIsSubscribed(!!data);
+      const types = (data || []).map((row) => row.alert_type);
+      // 'status_change' alerts predate per-type alerts and receive every type
+      setActiveTypes(
+        types.includes('status_change')
+          ? ALL_TYPES
+          : ALL_TYPES.filter((type) => types.includes(type))
+      );
     } catch (error) {
       if (import.meta.env.DEV) {
         console.error('Error checking subscription:', error);
@@ -40,11 +65,11 @@ export function BillAlertToggle({ billId, billNumber }: BillAlertToggleProps) {
     }
   };
 
-  const toggleAlert = async () => {
+  const saveAlerts = async (nextTypes: BillAlertType[]) => {
     try {
       setLoading(true);
       const { data: { user } } = await supabase.auth.getUser();
-      
+
       if (!user) {
         toast({
           title: "Authentication required",
@@ -54,39 +79,46 @@ export function BillAlertToggle({ billId, billNumber }: BillAlertToggleProps) {
         return;
       }
 
-      if (isSubscribed) {
-        // Unsubscribe
+      // Remove everything not kept, including a legacy 'status_change' row
+      let removal = supabase
+        .from('bill_alerts')
+        .delete()
+        .eq('bill_id', billId)
+        .eq('user_id', user.id);
+      if (nextTypes.length > 0) {
+        removal = removal.not('alert_type', 'in', `(${nextTypes.join(',')})`);
+      }
+      const { error: deleteError } = await removal;
+      if (deleteError) throw deleteError;
+
+      if (nextTypes.length > 0) {
         const { error } = await supabase
           .from('bill_alerts')
-          .delete()
-          .eq('bill_id', billId)
-          .eq('user_id', user.id);
+          .upsert(
+            nextTypes.map((alertType) => ({
+              bill_id: billId,
+              user_id: user.id,
+              alert_type: alertType,
+              is_active: true,
+            })),
+            { onConflict: 'user_id,bill_id,alert_type' }
+          );
 
         if (error) throw error;
+      }
 
+      if (nextTypes.length === 0) {
         toast({
           title: "Alert removed",
           description: `You will no longer receive updates for ${billNumber}`,
         });
-        setIsSubscribed(false);
-      } else {
-        // Subscribe
-        const { error } = await supabase
-          .from('bill_alerts')
-          .insert({
-            bill_id: billId,
-            user_id: user.id,
-            alert_type: 'status_change',
-          });
-
-        if (error) throw error;
-
+      } else if (activeTypes.length === 0) {
         toast({
           title: "Alert set",
           description: `You will receive updates for ${billNumber}`,
         });
-        setIsSubscribed(true);
       }
+      setActiveTypes(nextTypes);
     } catch (error) {
       if (import.meta.env.DEV) {
         console.error('Error toggling alert:', error);
@@ -101,24 +133,57 @@ export function BillAlertToggle({ billId, billNumber }: BillAlertToggleProps) {
     }
   };
 
+  const toggleType = (type: BillAlertType, checked: boolean) => {
+    saveAlerts(
+      checked
+        ? ALL_TYPES.filter((t) => t === type || activeTypes.includes(t))
+        : activeTypes.filter((t) => t !== type)
+    );
+  };
+
+  const isSubscribed = activeTypes.length > 0;
+
   return (
-    <Button
-      variant={isSubscribed ? "default" : "outline"}
-      size="sm"
-      onClick={toggleAlert}
-      disabled={loading}
-    >
-      {isSubscribed ? (
-        <>
-          <Bell className="w-4 h-4 mr-2" />
-          Alert Active
-        </>
-      ) : (
-        <>
-          <BellOff className="w-4 h-4 mr-2" />
-          Set Alert
-        </>
-      )}
-    </Button>
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant={isSubscribed ? "default" : "outline"}
+          size="sm"
+          disabled={loading}
+        >
+          {isSubscribed ? (
+            <>
+              <Bell className="w-4 h-4 mr-2" />
+              Alert Active
+            </>
+          ) : (
+            <>
+              <BellOff className="w-4 h-4 mr-2" />
+              Set Alert
+            </>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Notify me when {billNumber} is…</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {ALERT_TYPES.map(({ value, label }) => (
+          <DropdownMenuCheckboxItem
+            key={value}
+            checked={activeTypes.includes(value)}
+            onCheckedChange={(checked) => toggleType(value, checked === true)}
+            onSelect={(event) => event.preventDefault()}
+          >
+            {label}
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuSeparator />
+        {isSubscribed ? (
+          <DropdownMenuItem onClick={() => saveAlerts([])}>Turn off all alerts</DropdownMenuItem>
+        ) : (
+          <DropdownMenuItem onClick={() => saveAlerts(ALL_TYPES)}>Alert me on all updates</DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
   );
 }
@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { LoadingCard } from "@/components/ui/loading-spinner";
+import { ChevronDown, ChevronUp, ExternalLink } from "lucide-react";
+import { format } from "date-fns";
+
+export interface RollCallVoteRow {
+  id: string;
+  chamber: string;
+  congress: number;
+  session: number;
+  roll_number: number;
+  vote_date: string | null;
+  question: string | null;
+  result: string | null;
+  yea_count: number;
+  nay_count: number;
+  present_count: number;
+  not_voting_count: number;
+  party_totals: unknown;
+  source_url: string;
+}
+
+interface MemberVoteRow {
+  member_id: string;
+  member_name: string;
+  party: string | null;
+  state: string | null;
+  position: string;
+}
+
+type Position = "yea" | "nay" | "present" | "not_voting";
+
+interface BillRollCallVotesProps {
+  /** Newest first */
+  votes: RollCallVoteRow[];
+}
+
+const POSITION_LABELS: Record<Position, string> = {
+  yea: "Yea",
+  nay: "Nay",
+  present: "Present",
+  not_voting: "Not Voting",
+};
+
+const POSITION_STYLES: Record<Position, string> = {
+  yea: "bg-status-success/20 text-status-success border-status-success/30",
+  nay: "bg-destructive/15 text-destructive border-destructive/30",
+  present: "bg-status-warning/20 text-status-warning border-status-warning/30",
+  not_voting: "",
+};
+
+const PARTY_LABELS: Record<string, string> = {
+  D: "Democrats",
+  R: "Republicans",
+  I: "Independents",
+};
+
+const POSITIONS: Position[] = ["yea", "nay", "present", "not_voting"];
+
+export function BillRollCallVotes({ votes }: BillRollCallVotesProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [members, setMembers] = useState<Record<string, MemberVoteRow[]>>({});
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [positionFilter, setPositionFilter] = useState<Position | "all">("all");
+
+  const toggle = async (voteId: string) => {
+    if (expandedId === voteId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(voteId);
+    setPositionFilter("all");
+    if (members[voteId]) return;
+
+    try {
+      setLoadingId(voteId);
+      const { data, error } = await supabase
+        .from('bill_member_votes')
+        .select('member_id, member_name, party, state, position')
+        .eq('roll_call_id', voteId)
+        .order('member_name');
+
+      if (error) throw error;
+      setMembers((prev) => ({ ...prev, [voteId]: data || [] }));
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error('Error fetching member votes:', error);
+      }
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  if (votes.length === 0) {
+    return (
+      <p className="text-muted-foreground text-center py-8">
+        No recorded votes on this bill yet
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {votes.map((vote) => {
+        const decided = vote.yea_count + vote.nay_count;
+        const partyTotals = (vote.party_totals || {}) as Record<string, Record<Position, number>>;
+        const isExpanded = expandedId === vote.id;
+        const memberRows = (members[vote.id] || []).filter(
+          (m) => positionFilter === "all" || m.position === positionFilter
+        );
+
+        return (
+          <div key={vote.id} className="rounded-lg border p-4 space-y-3">
+            <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
+              <div className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline" className="capitalize">{vote.chamber}</Badge>
+                  <span className="text-sm text-muted-foreground">
+                    Roll call {vote.roll_number}
+                    {vote.vote_date && ` · ${format(new Date(vote.vote_date), 'MMM d, yyyy')}`}
+                  </span>
+                </div>
+                <p className="font-medium">{vote.question || 'Recorded vote'}</p>
+              </div>
+              {vote.result && <Badge variant="secondary">{vote.result}</Badge>}
+            </div>
+
+            <div className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span className="text-status-success font-medium">Yea {vote.yea_count}</span>
+                <span className="text-destructive font-medium">Nay {vote.nay_count}</span>
+              </div>
+              <Progress value={decided > 0 ? (vote.yea_count / decided) * 100 : 0} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {vote.present_count} present · {vote.not_voting_count} not voting
+              </p>
+            </div>
+
+            {Object.keys(partyTotals).length > 0 && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                {Object.entries(partyTotals).map(([party, counts]) => (
+                  <div key={party} className="rounded-md bg-muted/50 px-3 py-2 text-sm">
+                    <p className="font-medium">{PARTY_LABELS[party] || party}</p>
+                    <p className="text-muted-foreground">
+                      {counts.yea} yea · {counts.nay} nay
+                      {counts.not_voting > 0 && ` · ${counts.not_voting} NV`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="ghost" size="sm" onClick={() => toggle(vote.id)}>
+                {isExpanded ? <ChevronUp className="w-4 h-4 mr-2" /> : <ChevronDown className="w-4 h-4 mr-2" />}
+                {isExpanded ? 'Hide members' : 'How members voted'}
+              </Button>
+              <Button variant="ghost" size="sm" asChild>
+                <a href={vote.source_url} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="w-4 h-4 mr-2" />
+                  Official record
+                </a>
+              </Button>
+            </div>
+
+            {isExpanded && (
+              loadingId === vote.id ? (
+                <LoadingCard />
+              ) : (
+                <div className="space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    {(["all", ...POSITIONS] as const).map((position) => (
+                      <Button
+                        key={position}
+                        variant={positionFilter === position ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => setPositionFilter(position)}
+                      >
+                        {position === "all" ? "All" : POSITION_LABELS[position]}
+                      </Button>
+                    ))}
+                  </div>
+                  {memberRows.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No members</p>
+                  ) : (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 max-h-96 overflow-y-auto">
+                      {memberRows.map((member) => (
+                        <div key={member.member_id} className="flex items-center justify-between gap-2 text-sm py-1">
+                          <span className="truncate">
+                            {member.member_name}
+                            <span className="text-muted-foreground">
+                              {' '}({[member.party, member.state].filter(Boolean).join('-')})
+                            </span>
+                          </span>
+                          <Badge
+                            variant="outline"
+                            className={`text-xs shrink-0 ${POSITION_STYLES[member.position as Position] || ''}`}
+                          >
+                            {POSITION_LABELS[member.position as Position] || member.position}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRight } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import {
+  diffBillSections,
+  summarizeSectionDiffs,
+  type DiffSegment,
+  type SectionChange,
+} from "@/lib/bill-diff";
+
+export interface BillTextVersionRow {
+  id: string;
+  version_code: string;
+  version_name: string;
+  stage: string;
+  version_date: string | null;
+  text_content: string | null;
+}
+
+interface BillVersionDiffProps {
+  /** Oldest first */
+  versions: BillTextVersionRow[];
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  introduced: "Introduced",
+  reported: "Reported",
+  engrossed: "Engrossed",
+  enrolled: "Enrolled",
+  other: "Other",
+};
+
+const CHANGE_STYLES: Record<SectionChange, { label: string; className: string }> = {
+  added: { label: "Added", className: "bg-status-success/20 text-status-success border-status-success/30" },
+  removed: { label: "Removed", className: "bg-destructive/15 text-destructive border-destructive/30" },
+  modified: { label: "Modified", className: "bg-status-warning/20 text-status-warning border-status-warning/30" },
+  unchanged: { label: "Unchanged", className: "" },
+};
+
+/** Unchanged runs longer than this are shortened to their first and last words */
+const CONTEXT_WORDS = 25;
+
+const versionLabel = (version: BillTextVersionRow) =>
+  `${version.version_name}${version.version_date ? ` · ${format(new Date(`${version.version_date}T00:00:00`), "MMM d, yyyy")}` : ""}`;
+
+function shortenEqual(text: string, isFirst: boolean, isLast: boolean): string {
+  const words = text.split(" ");
+  if (words.length <= CONTEXT_WORDS * 2) return text;
+  const head = isFirst ? [] : words.slice(0, CONTEXT_WORDS);
+  const tail = isLast ? [] : words.slice(-CONTEXT_WORDS);
+  return [...head, "…", ...tail].join(" ");
+}
+
+function DiffText({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <p className="text-sm leading-relaxed">
+      {segments.map((segment, i) => {
+        if (segment.op === "equal") {
+          return (
+            <span key={i} className="text-muted-foreground">
+              {shortenEqual(segment.text, i === 0, i === segments.length - 1)}{" "}
+            </span>
+          );
+        }
+        return (
+          <span
+            key={i}
+            className={cn(
+              "rounded px-0.5",
+              segment.op === "insert" ? "bg-status-success/20" : "bg-destructive/15 line-through"
+            )}
+          >
+            {segment.text}{" "}
+          </span>
+        );
+      })}
+    </p>
+  );
+}
+
+export function BillVersionDiff({ versions }: BillVersionDiffProps) {
+  const withText = versions.filter((v) => v.text_content);
+  const [fromId, setFromId] = useState<string | undefined>(withText[0]?.id);
+  const [toId, setToId] = useState<string | undefined>(withText[withText.length - 1]?.id);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const from = withText.find((v) => v.id === fromId);
+  const to = withText.find((v) => v.id === toId);
+
+  const diffs = useMemo(
+    () => (from && to ? diffBillSections(from.text_content || "", to.text_content || "") : []),
+    [from, to]
+  );
+  const summary = summarizeSectionDiffs(diffs);
+  const visible = showUnchanged ? diffs : diffs.filter((d) => d.change !== "unchanged");
+
+  if (withText.length < 2) {
+    return (
+      <div className="space-y-3">
+        <p className="text-muted-foreground text-center py-8">
+          {versions.length === 0
+            ? "No text versions stored yet"
+            : "Only one version of this bill has been published so far"}
+        </p>
+        {versions.length > 0 && (
+          <div className="flex flex-wrap justify-center gap-2">
+            {versions.map((v) => (
+              <Badge key={v.id} variant="outline">{versionLabel(v)}</Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const renderSelect = (value: string | undefined, onChange: (id: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full sm:w-72">
+        <SelectValue placeholder="Select a version" />
+      </SelectTrigger>
+      <SelectContent>
+        {withText.map((v) => (
+          <SelectItem key={v.id} value={v.id}>
+            {STAGE_LABELS[v.stage] || STAGE_LABELS.other} — {versionLabel(v)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        {renderSelect(fromId, setFromId)}
+        <ArrowRight className="w-4 h-4 text-muted-foreground hidden sm:block shrink-0" />
+        {renderSelect(toId, setToId)}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="outline" className={CHANGE_STYLES.modified.className}>{summary.modified} modified</Badge>
+          <Badge variant="outline" className={CHANGE_STYLES.added.className}>{summary.added} added</Badge>
+          <Badge variant="outline" className={CHANGE_STYLES.removed.className}>{summary.removed} removed</Badge>
+          <Badge variant="outline">{summary.unchanged} unchanged</Badge>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="show-unchanged-sections" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+          <Label htmlFor="show-unchanged-sections" className="text-sm">Show unchanged sections</Label>
+        </div>
+      </div>
+
+      {fromId === toId ? (
+        <p className="text-muted-foreground text-center py-8">Pick two different versions to compare</p>
+      ) : visible.length === 0 ? (
+        <p className="text-muted-foreground text-center py-8">No section-level changes between these versions</p>
+      ) : (
+        <div className="space-y-3">
+          {visible.map((diff) => (
+            <div key={diff.key} className="rounded-lg border p-4 space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-medium text-sm">{diff.heading}</span>
+                <div className="flex items-center gap-2">
+                  {diff.change === "modified" && (
+                    <span className="text-xs text-muted-foreground">
+                      +{diff.wordsAdded} / −{diff.wordsRemoved} words
+                    </span>
+                  )}
+                  <Badge variant="outline" className={cn("text-xs", CHANGE_STYLES[diff.change].className)}>
+                    {CHANGE_STYLES[diff.change].label}
+                  </Badge>
+                </div>
+              </div>
+              {diff.change !== "unchanged" && <DiffText segments={diff.segments} />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
 import { V3Card, V3CardContent, V3CardDescription, V3CardHeader, V3CardTitle } from "@/components/v3/V3Card";
 import { V3ChartWrapper } from "@/components/v3/V3ChartWrapper";
@@ -9,7 +11,18 @@ import { V3SectionHeader } from "@/components/v3/V3SectionHeader";
 import { formatCurrency, formatNumber, formatPercent } from "@/lib/chart-formatters";
 import { EChartsBarChart } from "@/components/charts/echarts/EChartsBarChart";
 import { V3EmptyState } from "@/components/v3/V3EmptyState";
-import { FlaskConical, TrendingUp, Users, DollarSign } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Input } from "@/components/ui/input";
+import { FlaskConical, TrendingUp, Users, DollarSign, AlertTriangle } from "lucide-react";
+import {
+  analyzeABTest,
+  type ABTestAnalysis,
+  type ABTestMetric,
+  type ABTestMode,
+  type ABTestVerdict,
+  type MetricComparison,
+  type VariationSample,
+} from "@/lib/ab-test-statistics";
 
 interface ABTestPerformance {
   ab_test_name: string;
@@ -22,13 +35,87 @@ interface ABTestPerformance {
   first_donation: string;
   last_donation: string;
   unique_donors: number;
+  amount_sum_squares: number | null;
+  amount_stddev: number | null;
+}
+
+interface ABTestTraffic {
+  ab_test_name: string;
+  ab_test_variation: string;
+  visitors: number;
 }
 
 interface ABTestAnalyticsProps {
   organizationId: string;
 }
 
+
+const METRIC_LABELS: Record<ABTestMetric, string> = {
+  conversion_rate: "Conversion Rate",
+  avg_gift: "Avg Gift",
+  revenue_per_visitor: "Revenue / Visitor",
+};
+
+const VERDICT_BADGES: Record<ABTestVerdict, { label: string; variant: "success" | "error" | "info" | "warning" | "muted" }> = {
+  winner: { label: "Winner", variant: "success" },
+  loser: { label: "Underperforming", variant: "error" },
+  no_difference: { label: "No Difference", variant: "info" },
+  keep_running: { label: "Keep Running", variant: "warning" },
+  insufficient_data: { label: "Needs More Data", variant: "muted" },
+};
+
+const variationLabel = (name: string | null | undefined) => name || "Control";
+
+function formatMetricValue(metric: ABTestMetric, value: number): string {
+  return metric === "conversion_rate" ? formatPercent(value * 100, 2) : formatCurrency(value);
+}
+
+function toSamples(variations: ABTestPerformance[], traffic: ABTestTraffic[]): VariationSample[] {
+  return variations.map(v => {
+    const visitors = traffic.find(
+      t => t.ab_test_name === v.ab_test_name && t.ab_test_variation === (v.ab_test_variation || "")
+    )?.visitors ?? null;
+    const donations = Number(v.donations) || 0;
+    const totalRaised = Number(v.total_raised) || 0;
+    // Fall back to stddev when the view predates amount_sum_squares
+    const sumSquares = v.amount_sum_squares != null
+      ? Number(v.amount_sum_squares)
+      : (Number(v.amount_stddev) || 0) ** 2 * Math.max(donations - 1, 0) + (donations > 0 ? totalRaised ** 2 / donations : 0);
+
+    return { name: v.ab_test_variation || "", visitors, donations, totalRaised, sumSquares };
+  });
+}
+
+function formatPValue(p: number): string {
+  return p < 0.001 ? "<0.001" : p.toFixed(3);
+}
+
+function ComparisonDetail({ comparison, mode }: { comparison: MetricComparison; mode: ABTestMode }) {
+  const liftPositive = comparison.lift >= 0;
+  return (
+    <div className="flex items-center justify-between text-xs">
+      <span className="text-[hsl(var(--portal-text-muted))]">{METRIC_LABELS[comparison.metric]}</span>
+      <span className="flex items-center gap-2">
+        <span className={liftPositive ? "text-[hsl(var(--portal-success))]" : "text-[hsl(var(--portal-error))]"}>
+          {liftPositive ? "+" : ""}{formatPercent(comparison.lift * 100)}
+        </span>
+        <span className="text-[hsl(var(--portal-text-muted))]">
+          {mode === "bayesian"
+            ? `P(beat) ${formatPercent(comparison.probabilityToBeatControl * 100, 0)}`
+            : comparison.adjustedPValue !== comparison.pValue
+              ? `adj. p=${formatPValue(comparison.adjustedPValue)}`
+              : `p=${formatPValue(comparison.pValue)}`}
+        </span>
+      </span>
+    </div>
+  );
+}
+
 export function ABTestAnalytics({ organizationId }: ABTestAnalyticsProps) {
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<ABTestMode>("frequentist");
+  const [visitorDrafts, setVisitorDrafts] = useState<Record<string, string>>({});
+
   const { data: abTests, isLoading, error, refetch } = useQuery({
     queryKey: ['ab-test-performance', organizationId],
     queryFn: async () => {
@@ -43,6 +130,47 @@ export function ABTestAnalytics({ organizationId }: ABTestAnalyticsProps) {
     enabled: !!organizationId,
   });
 
+  const { data: traffic = [] } = useQuery({
+    queryKey: ['ab-test-traffic', organizationId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('ab_test_traffic')
+        .select('ab_test_name, ab_test_variation, visitors')
+        .eq('organization_id', organizationId);
+
+      if (error) throw error;
+      return (data || []) as ABTestTraffic[];
+    },
+    enabled: !!organizationId,
+  });
+
+  const saveVisitors = useMutation({
+    mutationFn: async (row: ABTestTraffic) => {
+      const { error } = await supabase
+        .from('ab_test_traffic')
+        .upsert(
+          { organization_id: organizationId, ...row, source: 'manual', updated_at: new Date().toISOString() },
+          { onConflict: 'organization_id,ab_test_name,ab_test_variation' }
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ab-test-traffic', organizationId] });
+    },
+    onError: (err: Error) => {
+      toast.error(`Failed to save visitors: ${err.message}`);
+    },
+  });
+
+  const commitVisitors = (testName: string, variation: string) => {
+    const key = `${testName}::${variation}`;
+    const draft = visitorDrafts[key];
+    if (draft === undefined) return;
+    const visitors = parseInt(draft, 10);
+    if (Number.isNaN(visitors) || visitors < 0) return;
+    saveVisitors.mutate({ ab_test_name: testName, ab_test_variation: variation, visitors });
+  };
+
   if (isLoading) {
     return (
       <div className="space-y-6">
@@ -92,6 +220,21 @@ export function ABTestAnalytics({ organizationId }: ABTestAnalyticsProps) {
         ]}
       />
 
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-[hsl(var(--portal-text-muted))]">
+          Enter visitor counts from ActBlue to unlock conversion rate and revenue-per-visitor tests.
+        </p>
+        <ToggleGroup
+          type="single"
+          value={mode}
+          onValueChange={(v) => v && setMode(v as ABTestMode)}
+          aria-label="Statistical method"
+        >
+          <ToggleGroupItem value="frequentist" size="sm">Frequentist</ToggleGroupItem>
+          <ToggleGroupItem value="bayesian" size="sm">Bayesian</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
       {Object.entries(testGroups).map(([testName, variations]) => {
         const chartData = variations.map(v => ({
           name: v.ab_test_variation || 'Control',
@@ -105,6 +248,8 @@ export function ABTestAnalytics({ organizationId }: ABTestAnalyticsProps) {
         const bestVariation = variations.reduce((best, v) => 
           v.avg_donation > best.avg_donation ? v : best
         , variations[0]);
+        const analysis: ABTestAnalysis = analyzeABTest(testName, toSamples(variations, traffic), { mode });
+        const verdictBadge = VERDICT_BADGES[analysis.verdict];
 
         return (
           <V3Card key={testName} className="overflow-hidden">
@@ -116,10 +261,19 @@ export function ABTestAnalytics({ organizationId }: ABTestAnalyticsProps) {
                     {variations.length} variations • {formatNumber(totalDonations)} total donations
                   </V3CardDescription>
                 </div>
-                <V3Badge variant="success">
-                  Winner: {bestVariation.ab_test_variation || 'Control'}
+                <V3Badge variant={verdictBadge.variant}>
+                  {analysis.winner !== null
+                    ? `Winner: ${variationLabel(analysis.winner)}`
+                    : verdictBadge.label}
                 </V3Badge>
               </div>
+              <p className="text-sm text-[hsl(var(--portal-text-secondary))] mt-2">
+                {analysis.summary}{" "}
+                <span className="text-[hsl(var(--portal-text-muted))]">
+                  Primary metric: {METRIC_LABELS[analysis.primaryMetric]} vs. {variationLabel(analysis.control)}
+                  {" • "}Sized for a {formatPercent(analysis.minimumDetectableEffect * 100, 0)} lift
+                </span>
+              </p>
             </V3CardHeader>
             <V3CardContent className="pt-6">
               <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -164,15 +318,30 @@ export function ABTestAnalytics({ organizationId }: ABTestAnalyticsProps) {
               <div className="mt-6 border-t border-[hsl(var(--portal-border))] pt-4">
                 <h4 className="text-sm font-medium mb-3 text-[hsl(var(--portal-text-primary))]">Variation Breakdown</h4>
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-                  {variations.map(v => (
+                  {variations.map(v => {
+                    const variationName = v.ab_test_variation || '';
+                    const result = analysis.variations.find(r => r.variation === variationName);
+                    const isWinner = analysis.winner !== null && analysis.winner === variationName;
+                    const draftKey = `${testName}::${variationName}`;
+                    const savedVisitors = traffic.find(
+                      t => t.ab_test_name === testName && t.ab_test_variation === variationName
+                    )?.visitors;
+                    const comparisons = Object.values(result?.comparisons || {}) as MetricComparison[];
+                    const warnings = Array.from(new Set(comparisons.flatMap(c => c.warnings)));
+
+                    return (
                     <div 
                       key={v.ab_test_variation} 
-                      className={`p-3 rounded-lg border ${v === bestVariation ? 'border-[hsl(var(--portal-accent-blue))] bg-[hsl(var(--portal-accent-blue)/0.05)]' : 'border-[hsl(var(--portal-border))] bg-[hsl(var(--portal-bg-elevated))]'}`}
+                      className={`p-3 rounded-lg border ${isWinner ? 'border-[hsl(var(--portal-accent-blue))] bg-[hsl(var(--portal-accent-blue)/0.05)]' : 'border-[hsl(var(--portal-border))] bg-[hsl(var(--portal-bg-elevated))]'}`}
                     >
                       <div className="flex items-center justify-between mb-2">
-                        <span className="font-medium text-[hsl(var(--portal-text-primary))]">{v.ab_test_variation || 'Control'}</span>
-                        {v === bestVariation && (
-                          <V3Badge variant="success">Best</V3Badge>
+                        <span className="font-medium text-[hsl(var(--portal-text-primary))]">{variationLabel(v.ab_test_variation)}</span>
+                        {result?.isControl ? (
+                          <V3Badge variant="muted">Control</V3Badge>
+                        ) : result && (
+                          <V3Badge variant={VERDICT_BADGES[result.verdict].variant}>
+                            {VERDICT_BADGES[result.verdict].label}
+                          </V3Badge>
                         )}
                       </div>
                       <div className="grid grid-cols-2 gap-2 text-sm">
@@ -190,11 +359,45 @@ export function ABTestAnalytics({ organizationId }: ABTestAnalyticsProps) {
                         </div>
                         <div>
                           <span className="text-[hsl(var(--portal-text-muted))]">Recurring:</span>
-                          <span className="ml-1 font-medium text-[hsl(var(--portal-text-primary))]">{formatPercent(v.recurring_donations / v.donations)}</span>
+                          <span className="ml-1 font-medium text-[hsl(var(--portal-text-primary))]">{formatPercent((v.recurring_donations / v.donations) * 100)}</span>
                         </div>
                       </div>
+                      <div className="mt-3 flex items-center gap-2 text-sm">
+                        <label htmlFor={draftKey} className="text-[hsl(var(--portal-text-muted))]">Visitors:</label>
+                        <Input
+                          id={draftKey}
+                          type="number"
+                          min={0}
+                          className="h-7 w-28"
+                          placeholder="Unknown"
+                          value={visitorDrafts[draftKey] ?? (savedVisitors != null ? String(savedVisitors) : '')}
+                          onChange={(e) => setVisitorDrafts(prev => ({ ...prev, [draftKey]: e.target.value }))}
+                          onBlur={() => commitVisitors(testName, variationName)}
+                        />
+                      </div>
+                      {comparisons.length > 0 && (
+                        <div className="mt-3 space-y-1 border-t border-[hsl(var(--portal-border))] pt-2">
+                          {comparisons.map(c => (
+                            <ComparisonDetail key={c.metric} comparison={c} mode={mode} />
+                          ))}
+                          {result?.comparisons[analysis.primaryMetric] && (
+                            <p className="text-xs text-[hsl(var(--portal-text-muted))]">
+                              {Number((analysis.confidenceLevel * 100).toFixed(1))}% CI: {formatMetricValue(analysis.primaryMetric, result.comparisons[analysis.primaryMetric]!.ci[0])} to{" "}
+                              {formatMetricValue(analysis.primaryMetric, result.comparisons[analysis.primaryMetric]!.ci[1])}
+                              {" • "}Power {formatPercent(result.comparisons[analysis.primaryMetric]!.power * 100, 0)}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                      {warnings.length > 0 && (
+                        <div className="mt-2 flex items-start gap-1 text-xs text-[hsl(var(--portal-warning))]">
+                          <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                          <span>{warnings.join(" • ")}</span>
+                        </div>
+                      )}
                     </div>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
             </V3CardContent>
@@ -479,14 +479,16 @@ export const ActionCard = memo(
                   variant="outline"
                   className="text-xs bg-transparent border-[hsl(var(--portal-border))] text-[hsl(var(--portal-text-muted))]"
                 >
-                  {action.character_count}/160
+                  {action.character_count}/{action.compliance_checks?.character_limit ?? 160}
+                  {action.compliance_checks?.segment_count !== undefined &&
+                    ` · ${action.compliance_checks.segment_count} seg${action.compliance_checks.encoding === "UCS-2" ? " (UCS-2)" : ""}`}
                 </Badge>
               </div>
               <p className="text-sm font-mono text-[hsl(var(--portal-text-primary))] line-clamp-3">
                 {action.sms_copy}
               </p>
               <Progress
-                value={(action.character_count / 160) * 100}
+                value={Math.min(100, (action.character_count / (action.compliance_checks?.character_limit ?? 160)) * 100)}
                 className="h-1 mt-2"
               />
             </div>
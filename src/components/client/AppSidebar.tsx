@@ -4,6 +4,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useIsAdmin } from "@/hooks/useIsAdmin";
 import {
   LayoutDashboard,
+  LayoutGrid,
   Bell,
   Eye,
   Target,
@@ -101,6 +102,7 @@ export function AppSidebar({ organizationId }: AppSidebarProps) {
         label: "Overview",
         items: [
           { title: "Dashboard", url: "/client/dashboard", icon: LayoutDashboard },
+          { title: "My Dashboards", url: "/client/dashboard/custom", icon: LayoutGrid },
         ],
       },
       {
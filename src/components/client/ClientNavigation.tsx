@@ -2,6 +2,7 @@ import { Link, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import {
   Home,
+  LayoutGrid,
   Bell,
   Eye,
   Target,
@@ -102,6 +103,7 @@ export const ClientNavigation = ({
         title: "Overview",
         items: [
           { label: "Dashboard", path: "/client/dashboard", icon: Home },
+          { label: "My Dashboards", path: "/client/dashboard/custom", icon: LayoutGrid },
         ],
       },
       {
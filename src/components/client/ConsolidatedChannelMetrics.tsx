@@ -7,6 +7,8 @@ import {
   RefreshCw,
   AlertCircle,
   Clock,
+  Search,
+  Mail,
 } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
@@ -18,7 +20,9 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 // Lazy load MetaAdsMetrics to defer ECharts bundle until card is expanded
 const MetaAdsMetrics = lazy(() => import("./MetaAdsMetrics"));
+import GoogleAdsMetrics from "./GoogleAdsMetrics";
 import SMSMetrics from "./SMSMetrics";
+import EmailMetrics from "./EmailMetrics";
 import DonationMetrics from "./DonationMetrics";
 import {
   useChannelSummariesQuery,
@@ -39,9 +43,9 @@ type Props = {
   endDate: string;
 };
 
-type ChannelSection = "meta" | "sms" | "donations";
+type ChannelSection = "meta" | "google_ads" | "sms" | "email" | "donations";
 
-type V3Accent = "blue" | "purple" | "green";
+type V3Accent = "blue" | "amber" | "purple" | "green";
 
 interface SummaryMetric {
   label: string;
@@ -273,7 +277,9 @@ const getMobileSummaryMetrics = (
 
   const preferredLabelsBySection: Record<ChannelSection, string[]> = {
     meta: ["Spend", "Conv"],
+    google_ads: ["Spend", "Conv"],
     sms: ["Sent", "Raised"],
+    email: ["Sent", "Raised"],
     donations: ["Net", "Donors"],
   };
 
@@ -387,6 +393,29 @@ export function ConsolidatedChannelMetrics({ organizationId, startDate, endDate
       hasData: (data) => data?.meta.hasData ?? false,
       getLastDataDate: (data) => data?.meta.lastDataDate ?? null,
     },
+    {
+      id: "google_ads" as ChannelSection,
+      title: "Google Ads",
+      icon: Search,
+      description: "Search, YouTube and Performance Max campaigns",
+      accent: "amber" as V3Accent,
+      renderComponent: () => <GoogleAdsMetrics organizationId={organizationId} startDate={startDate} endDate={endDate} />,
+      getSummary: (data) => {
+        if (!data) return null;
+        const { googleAds } = data;
+        return [
+          { label: "Spend", value: formatCurrency(googleAds.spend) },
+          { label: "Conv", value: formatInteger(googleAds.conversions) },
+          {
+            label: "ROAS",
+            value: googleAds.hasConversionValueData ? formatRatio(googleAds.roas, 2) : "N/A",
+            highlight: googleAds.roas >= 2 ? "success" : googleAds.roas > 0 && googleAds.roas < 1 ? "error" : false,
+          },
+        ];
+      },
+      hasData: (data) => data?.googleAds.hasData ?? false,
+      getLastDataDate: (data) => data?.googleAds.lastDataDate ?? null,
+    },
     {
       id: "sms" as ChannelSection,
       title: "SMS Campaigns",
@@ -410,6 +439,26 @@ export function ConsolidatedChannelMetrics({ organizationId, startDate, endDate
       hasData: (data) => data?.sms.hasData ?? false,
       getLastDataDate: (data) => data?.sms.lastDataDate ?? null,
     },
+    {
+      id: "email" as ChannelSection,
+      title: "Email",
+      icon: Mail,
+      description: "Mailings from ActionKit, EveryAction or Mailchimp",
+      accent: "blue" as V3Accent,
+      renderComponent: () => <EmailMetrics organizationId={organizationId} startDate={startDate} endDate={endDate} />,
+      getSummary: (data) => {
+        if (!data) return null;
+        const { email } = data;
+        const clickRate = email.sent > 0 ? (email.uniqueClicks / email.sent) * 100 : 0;
+        return [
+          { label: "Sent", value: formatInteger(email.sent) },
+          { label: "Click Rate", value: `${clickRate.toFixed(2)}%` },
+          { label: "Raised", value: formatCurrency(email.raised) },
+        ];
+      },
+      hasData: (data) => data?.email.hasData ?? false,
+      getLastDataDate: (data) => data?.email.lastDataDate ?? null,
+    },
     {
       id: "donations" as ChannelSection,
       title: "Donations",
@@ -440,7 +489,7 @@ export function ConsolidatedChannelMetrics({ organizationId, startDate, endDate
   if (isLoading && !summaryData) {
     return (
       <div className="space-y-3" role="status" aria-label="Loading channel metrics">
-        {[1, 2, 3].map((i) => (
+        {[1, 2, 3, 4, 5].map((i) => (
           <V3LoadingState key={i} variant="channel" />
         ))}
       </div>
@@ -512,6 +561,7 @@ export function ConsolidatedChannelMetrics({ organizationId, startDate, endDate
                         className={cn(
                           "p-2.5 rounded-lg shrink-0 transition-colors duration-200",
                           section.accent === "blue" && "bg-[hsl(var(--portal-accent-blue)/0.1)]",
+                          section.accent === "amber" && "bg-[hsl(var(--portal-warning)/0.1)]",
                           section.accent === "purple" && "bg-[hsl(var(--portal-accent-purple)/0.1)]",
                           section.accent === "green" && "bg-[hsl(var(--portal-success)/0.1)]"
                         )}
@@ -522,6 +572,7 @@ export function ConsolidatedChannelMetrics({ organizationId, startDate, endDate
                           className={cn(
                             "h-5 w-5",
                             section.accent === "blue" && "text-[hsl(var(--portal-accent-blue))]",
+                            section.accent === "amber" && "text-[hsl(var(--portal-warning))]",
                             section.accent === "purple" && "text-[hsl(var(--portal-accent-purple))]",
                             section.accent === "green" && "text-[hsl(var(--portal-success))]"
                           )}
@@ -0,0 +1,209 @@
+import { useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { LineChart } from "lucide-react";
+import { V3Badge, V3Card, V3EmptyState } from "@/components/v3";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { formatCurrency, formatPercent } from "@/lib/chart-formatters";
+import {
+  useDonorLtvModelRunsQuery,
+  useTopDonorLtvQuery,
+  type DonorLtvModelRun,
+} from "@/queries/useDonorLtvModelQuery";
+
+interface DonorLtvModelPanelProps {
+  organizationId: string;
+}
+
+const MODEL_LABELS: Record<string, string> = {
+  bgnbd_gg_v1: "BG/NBD + Gamma-Gamma",
+  "political_rfm_v2.0": "RFM heuristic",
+};
+
+const modelLabel = (version: string) => MODEL_LABELS[version] ?? version;
+
+const pct = (value: number | null, signed = false) => {
+  if (value === null || value === undefined) return "—";
+  const text = formatPercent(Number(value) * 100, 1);
+  return signed && Number(value) > 0 ? `+${text}` : text;
+};
+
+const interval = (low: number | null, high: number | null) =>
+  low === null || high === null ? null : `${formatCurrency(Number(low))} – ${formatCurrency(Number(high))}`;
+
+// Fitted LTV model: 12-month forecast with its 80% interval, a holdout
+// backtest of every model version side by side, and the top donors.
+export function DonorLtvModelPanel({ organizationId }: DonorLtvModelPanelProps) {
+  const { data: runs = [], isLoading } = useDonorLtvModelRunsQuery(organizationId);
+  const { data: topDonors = [] } = useTopDonorLtvQuery(organizationId);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+  const activeRun = runs.find(run => run.is_active) ?? null;
+  const selectedRun = runs.find(run => run.id === selectedRunId) ?? activeRun;
+
+  // Best calibration per holdout window, to flag the model to trust
+  const bestByTrainedAt = useMemo(() => {
+    const best = new Map<string, DonorLtvModelRun>();
+    for (const run of runs) {
+      if (run.calibration_error === null) continue;
+      const current = best.get(run.trained_at);
+      if (!current || Number(run.calibration_error) < Number(current.calibration_error)) {
+        best.set(run.trained_at, run);
+      }
+    }
+    return best;
+  }, [runs]);
+
+  if (isLoading) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  if (runs.length === 0) {
+    return (
+      <V3EmptyState
+        icon={LineChart}
+        title="No LTV model yet"
+        description="Run the LTV pipeline to fit and backtest a lifetime value model for this organization."
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {activeRun && (
+        <V3Card className="p-5">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <p className="text-xs uppercase tracking-wide text-[hsl(var(--portal-text-muted))]">
+                Predicted giving, next 12 months
+              </p>
+              <p className="text-3xl font-semibold text-[hsl(var(--portal-text-primary))]">
+                {formatCurrency(Number(activeRun.predicted_total_365 ?? 0))}
+              </p>
+              <p className="text-sm text-[hsl(var(--portal-text-muted))]">
+                {interval(activeRun.predicted_total_365_low, activeRun.predicted_total_365_high)
+                  ? `80% interval ${interval(activeRun.predicted_total_365_low, activeRun.predicted_total_365_high)}`
+                  : "No interval for this model"}
+                {` · ${activeRun.donors_scored.toLocaleString()} donors`}
+              </p>
+            </div>
+            <div className="text-right">
+              <V3Badge variant="info">{modelLabel(activeRun.model_version)}</V3Badge>
+              <p className="mt-1 text-xs text-[hsl(var(--portal-text-muted))]">
+                Trained {formatDistanceToNow(new Date(activeRun.trained_at), { addSuffix: true })}
+              </p>
+            </div>
+          </div>
+        </V3Card>
+      )}
+
+      <V3Card className="p-5">
+        <h3 className="font-semibold text-[hsl(var(--portal-text-primary))]">Model comparison</h3>
+        <p className="mb-3 text-xs text-[hsl(var(--portal-text-muted))]">
+          Each run fits on history up to the holdout window, then scores what donors actually gave in it.
+          Lower calibration error is better; a well-specified 80% interval covers about 80% of donors.
+        </p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Model</TableHead>
+              <TableHead>Trained</TableHead>
+              <TableHead className="text-right">Calibration error</TableHead>
+              <TableHead className="text-right">Total vs actual</TableHead>
+              <TableHead className="text-right">Interval coverage</TableHead>
+              <TableHead className="text-right">Backtest donors</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {runs.map(run => (
+              <TableRow
+                key={run.id}
+                onClick={() => setSelectedRunId(run.id)}
+                className={cn("cursor-pointer", selectedRun?.id === run.id && "bg-[hsl(var(--portal-bg-elevated))]")}
+              >
+                <TableCell className="text-sm">
+                  <div className="flex items-center gap-2">
+                    {modelLabel(run.model_version)}
+                    {run.is_active && <V3Badge variant="success">Active</V3Badge>}
+                    {bestByTrainedAt.get(run.trained_at)?.id === run.id && <V3Badge variant="muted">Best fit</V3Badge>}
+                  </div>
+                </TableCell>
+                <TableCell className="text-xs whitespace-nowrap">
+                  {formatDistanceToNow(new Date(run.trained_at), { addSuffix: true })}
+                  {run.holdout_days ? ` · ${run.holdout_days}d holdout` : ""}
+                </TableCell>
+                <TableCell className="text-right text-sm">{pct(run.calibration_error)}</TableCell>
+                <TableCell className="text-right text-sm">{pct(run.aggregate_error_pct, true)}</TableCell>
+                <TableCell className="text-right text-sm">{pct(run.interval_coverage)}</TableCell>
+                <TableCell className="text-right text-sm">{(run.backtest_donors ?? 0).toLocaleString()}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </V3Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        {selectedRun && selectedRun.calibration_bins.length > 0 && (
+          <V3Card className="p-5">
+            <h3 className="font-semibold text-[hsl(var(--portal-text-primary))]">
+              Calibration · {modelLabel(selectedRun.model_version)}
+            </h3>
+            <p className="mb-3 text-xs text-[hsl(var(--portal-text-muted))]">
+              Donors bucketed by predicted {selectedRun.holdout_days}-day value, lowest to highest
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Decile</TableHead>
+                  <TableHead className="text-right">Predicted avg</TableHead>
+                  <TableHead className="text-right">Actual avg</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectedRun.calibration_bins.map(bin => (
+                  <TableRow key={bin.bin}>
+                    <TableCell className="text-xs">{bin.bin}</TableCell>
+                    <TableCell className="text-right text-sm">{formatCurrency(bin.mean_predicted)}</TableCell>
+                    <TableCell className="text-right text-sm">{formatCurrency(bin.mean_actual)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </V3Card>
+        )}
+
+        {topDonors.length > 0 && (
+          <V3Card className="p-5">
+            <h3 className="mb-3 font-semibold text-[hsl(var(--portal-text-primary))]">Highest predicted 12-month value</h3>
+            <div className="space-y-2">
+              {topDonors.map(donor => (
+                <div key={donor.donor_key} className="flex items-center justify-between gap-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="truncate text-[hsl(var(--portal-text-primary))]">
+                      {donor.display_name || donor.primary_email || donor.donor_key}
+                    </p>
+                    <p className="text-xs text-[hsl(var(--portal-text-muted))]">
+                      {donor.segment ?? "—"}
+                      {donor.churn_risk !== null && ` · ${pct(1 - Number(donor.churn_risk))} likely to give again`}
+                    </p>
+                  </div>
+                  <div className="shrink-0 text-right">
+                    <p className="font-medium text-[hsl(var(--portal-text-primary))]">
+                      {formatCurrency(Number(donor.predicted_ltv_365 ?? 0))}
+                    </p>
+                    {interval(donor.predicted_ltv_365_low, donor.predicted_ltv_365_high) && (
+                      <p className="text-xs text-[hsl(var(--portal-text-muted))]">
+                        {interval(donor.predicted_ltv_365_low, donor.predicted_ltv_365_high)}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </V3Card>
+        )}
+      </div>
+    </div>
+  );
+}
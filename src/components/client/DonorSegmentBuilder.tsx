@@ -1,18 +1,21 @@
 import React, { useState, useCallback, useMemo, useEffect } from "react";
-import { Filter, Download, Save, RotateCcw, List, BarChart3, Play, AlertCircle } from "lucide-react";
+import { Filter, Download, Save, RotateCcw, List, BarChart3, Play, AlertCircle, Share2 } from "lucide-react";
 import { toast } from "sonner";
 import { V3Card, V3CardContent, V3CardHeader, V3CardTitle, V3Button } from "@/components/v3";
 import { DonorSegmentFilters } from "./DonorSegmentFilters";
 import { DonorSegmentResults } from "./DonorSegmentResults";
 import { SaveSegmentDialog } from "./SaveSegmentDialog";
+import { SegmentAudienceSyncDialog } from "./SegmentAudienceSyncDialog";
 import { 
   useDonorSegmentQuery, 
   useSavedSegmentsQuery, 
   useSaveSegmentMutation,
   useDeleteSegmentMutation,
-  exportDonorsToCSV 
+  exportDonorsToCSV,
+  fetchAllSegmentDonors,
 } from "@/queries/useDonorSegmentQuery";
-import type { FilterCondition, SavedSegment } from "@/types/donorSegment";
+import type { FilterGroup, SavedSegment } from "@/types/donorSegment";
+import { countFilterConditions, createEmptyFilterTree } from "@/lib/segment-filter-tree";
 import { cn } from "@/lib/utils";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
@@ -29,18 +32,22 @@ interface DonorSegmentBuilderProps {
 
 export function DonorSegmentBuilder({ organizationId }: DonorSegmentBuilderProps) {
   // Pending filters (unapplied changes) vs Applied filters (what's currently queried)
-  const [pendingFilters, setPendingFilters] = useState<FilterCondition[]>([]);
-  const [appliedFilters, setAppliedFilters] = useState<FilterCondition[]>([]);
+  const [pendingFilters, setPendingFilters] = useState<FilterGroup>(createEmptyFilterTree);
+  const [appliedFilters, setAppliedFilters] = useState<FilterGroup>(createEmptyFilterTree);
+  const [isExporting, setIsExporting] = useState(false);
   const [viewMode, setViewMode] = useState<'aggregate' | 'table'>('aggregate');
   const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+  const [isPushDialogOpen, setIsPushDialogOpen] = useState(false);
   const [selectedSavedSegment, setSelectedSavedSegment] = useState<string | null>(null);
 
   // Reset all state when organization changes to prevent stale data
   useEffect(() => {
-    setPendingFilters([]);
-    setAppliedFilters([]);
+    const emptyTree = createEmptyFilterTree();
+    setPendingFilters(emptyTree);
+    setAppliedFilters(emptyTree);
     setViewMode('aggregate');
     setIsSaveDialogOpen(false);
+    setIsPushDialogOpen(false);
     setSelectedSavedSegment(null);
   }, [organizationId]);
 
@@ -66,7 +73,7 @@ export function DonorSegmentBuilder({ organizationId }: DonorSegmentBuilderProps
   const deleteSegmentMutation = useDeleteSegmentMutation();
 
   // Handlers
-  const handleFiltersChange = useCallback((newFilters: FilterCondition[]) => {
+  const handleFiltersChange = useCallback((newFilters: FilterGroup) => {
     setPendingFilters(newFilters);
     setSelectedSavedSegment(null); // Clear saved segment selection when filters change
   }, []);
@@ -76,8 +83,9 @@ export function DonorSegmentBuilder({ organizationId }: DonorSegmentBuilderProps
   }, [pendingFilters]);
 
   const handleClearFilters = useCallback(() => {
-    setPendingFilters([]);
-    setAppliedFilters([]);
+    const emptyTree = createEmptyFilterTree();
+    setPendingFilters(emptyTree);
+    setAppliedFilters(emptyTree);
     setSelectedSavedSegment(null);
   }, []);
 
@@ -127,21 +135,35 @@ export function DonorSegmentBuilder({ organizationId }: DonorSegmentBuilderProps
     }
   }, [organizationId, selectedSavedSegment, deleteSegmentMutation]);
 
-  const handleExport = useCallback(() => {
-    if (!segmentData?.donors.length) {
+  const handleExport = useCallback(async () => {
+    if (!segmentData?.totalCount) {
       toast.error('No donors to export');
       return;
     }
 
-    const timestamp = new Date().toISOString().split('T')[0];
-    const filename = `donor-segment-${timestamp}.csv`;
-    exportDonorsToCSV(segmentData.donors, filename);
-    toast.success(`Exported ${segmentData.donors.length} donors`);
-  }, [segmentData]);
+    // The results view only holds the top donors; export the whole segment
+    setIsExporting(true);
+    try {
+      const donors = await fetchAllSegmentDonors(organizationId, appliedFilters);
+      const timestamp = new Date().toISOString().split('T')[0];
+      const filename = `donor-segment-${timestamp}.csv`;
+      exportDonorsToCSV(donors, filename);
+      toast.success(`Exported ${donors.length.toLocaleString()} donors`);
+    } catch (error) {
+      console.error('Error exporting segment:', error);
+      toast.error('Failed to export segment');
+    } finally {
+      setIsExporting(false);
+    }
+  }, [organizationId, appliedFilters, segmentData]);
 
   // Memoized values
-  const activeFilterCount = useMemo(() => appliedFilters.length, [appliedFilters]);
-  const pendingFilterCount = useMemo(() => pendingFilters.length, [pendingFilters]);
+  const selectedSegment = useMemo(
+    () => savedSegments?.find(s => s.id === selectedSavedSegment) ?? null,
+    [savedSegments, selectedSavedSegment]
+  );
+  const activeFilterCount = useMemo(() => countFilterConditions(appliedFilters), [appliedFilters]);
+  const pendingFilterCount = useMemo(() => countFilterConditions(pendingFilters), [pendingFilters]);
   const isQuerying = isLoadingSegment || isFetchingSegment;
 
   return (
@@ -247,16 +269,26 @@ export function DonorSegmentBuilder({ organizationId }: DonorSegmentBuilderProps
                 variant="outline"
                 size="sm"
                 onClick={() => setIsSaveDialogOpen(true)}
-                disabled={appliedFilters.length === 0 || !segmentData?.totalCount}
+                disabled={activeFilterCount === 0 || !segmentData?.totalCount}
               >
                 <Save className="h-4 w-4 mr-1.5" />
                 Save
               </V3Button>
+              <V3Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsPushDialogOpen(true)}
+                disabled={!selectedSegment}
+                title={selectedSegment ? 'Push to Meta / SMS' : 'Load a saved segment to push it'}
+              >
+                <Share2 className="h-4 w-4 mr-1.5" />
+                Push
+              </V3Button>
               <V3Button
                 variant="outline"
                 size="sm"
                 onClick={handleExport}
-                disabled={!segmentData?.donors.length}
+                disabled={!segmentData?.totalCount || isExporting}
               >
                 <Download className="h-4 w-4 mr-1.5" />
                 Export
@@ -308,6 +340,14 @@ export function DonorSegmentBuilder({ organizationId }: DonorSegmentBuilderProps
         donorCount={segmentData?.totalCount || 0}
         isLoading={saveSegmentMutation.isPending}
       />
+
+      {/* Push Saved Segment Dialog */}
+      <SegmentAudienceSyncDialog
+        open={isPushDialogOpen}
+        onOpenChange={setIsPushDialogOpen}
+        organizationId={organizationId}
+        segment={selectedSegment}
+      />
     </div>
   );
 }
@@ -1,6 +1,6 @@
-import React, { useState, useCallback } from "react";
-import { Plus, X, ChevronDown } from "lucide-react";
-import { V3Card, V3CardContent, V3CardHeader, V3CardTitle, V3Button } from "@/components/v3";
+import React, { useState, useCallback, useMemo } from "react";
+import { Plus, X, ChevronDown, FolderPlus } from "lucide-react";
+import { V3Card, V3CardContent, V3CardHeader, V3CardTitle } from "@/components/v3";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import {
@@ -17,12 +17,29 @@ import {
 } from "@/components/ui/collapsible";
 import { Checkbox } from "@/components/ui/checkbox";
 import { cn } from "@/lib/utils";
-import type { FilterCondition, FilterField, FilterOperator } from "@/types/donorSegment";
-import { SEGMENT_FILTER_FIELDS, OPERATOR_LABELS } from "@/types/donorSegment";
+import type {
+  FilterCondition,
+  FilterField,
+  FilterGroup,
+  FilterGroupOperator,
+  FilterOperator,
+} from "@/types/donorSegment";
+import { SEGMENT_FILTER_FIELDS, OPERATOR_LABELS, GROUP_OPERATOR_LABELS } from "@/types/donorSegment";
+import {
+  addFilterNode,
+  collectFilterFields,
+  countFilterConditions,
+  createFilterGroup,
+  findFilterNode,
+  isFilterGroup,
+  removeFilterNode,
+  updateFilterCondition,
+  updateFilterGroup,
+} from "@/lib/segment-filter-tree";
 
 interface DonorSegmentFiltersProps {
-  filters: FilterCondition[];
-  onFiltersChange: (filters: FilterCondition[]) => void;
+  filters: FilterGroup;
+  onFiltersChange: (filters: FilterGroup) => void;
   onApply: () => void;
   isLoading?: boolean;
 }
@@ -32,6 +49,11 @@ const FILTER_CATEGORIES = Array.from(
   new Set(SEGMENT_FILTER_FIELDS.map(f => f.category))
 );
 
+// Nesting beyond this is hard to read in the sidebar
+const MAX_GROUP_DEPTH = 3;
+
+const getFieldDef = (key: string) => SEGMENT_FILTER_FIELDS.find(f => f.key === key);
+
 export function DonorSegmentFilters({
   filters,
   onFiltersChange,
@@ -41,6 +63,16 @@ export function DonorSegmentFilters({
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(
     new Set(['Giving Behavior', 'RFM Analysis'])
   );
+  // Group that newly added conditions go into
+  const [targetGroupId, setTargetGroupId] = useState<string | null>(null);
+
+  const conditionCount = useMemo(() => countFilterConditions(filters), [filters]);
+  const activeFields = useMemo(() => new Set(collectFilterFields(filters)), [filters]);
+
+  const targetGroup = useMemo(() => {
+    const node = targetGroupId ? findFilterNode(filters, targetGroupId) : null;
+    return node && isFilterGroup(node) ? node : filters;
+  }, [filters, targetGroupId]);
 
   const toggleCategory = useCallback((category: string) => {
     setExpandedCategories(prev => {
@@ -56,7 +88,7 @@ export function DonorSegmentFilters({
 
   const addFilter = useCallback((field: FilterField) => {
     const defaultOperator = field.operators[0];
-    let defaultValue: any = null;
+    let defaultValue: FilterCondition['value'] = null;
 
     switch (field.type) {
       case 'number':
@@ -85,54 +117,57 @@ export function DonorSegmentFilters({
       value: defaultValue,
     };
 
-    onFiltersChange([...filters, newFilter]);
-  }, [filters, onFiltersChange]);
+    onFiltersChange(addFilterNode(filters, targetGroup.id, newFilter));
+  }, [filters, targetGroup, onFiltersChange]);
 
-  const updateFilter = useCallback((id: string, updates: Partial<FilterCondition>) => {
-    onFiltersChange(
-      filters.map(f => (f.id === id ? { ...f, ...updates } : f))
-    );
+  const addGroup = useCallback((parentId: string) => {
+    const group = createFilterGroup('or');
+    onFiltersChange(addFilterNode(filters, parentId, group));
+    setTargetGroupId(group.id);
   }, [filters, onFiltersChange]);
 
-  const removeFilter = useCallback((id: string) => {
-    onFiltersChange(filters.filter(f => f.id !== id));
+  const removeNode = useCallback((id: string) => {
+    onFiltersChange(removeFilterNode(filters, id));
   }, [filters, onFiltersChange]);
 
-  const getFieldDef = (key: string) => SEGMENT_FILTER_FIELDS.find(f => f.key === key);
-
   return (
     <V3Card className="sticky top-4">
       <V3CardHeader className="pb-3">
         <V3CardTitle className="text-base">Filters</V3CardTitle>
         <p className="text-xs text-[hsl(var(--portal-text-muted))] mt-1">
-          {filters.length === 0 
-            ? 'Add filters to segment donors' 
-            : `${filters.length} filter${filters.length !== 1 ? 's' : ''} active`}
+          {conditionCount === 0
+            ? 'Add filters to segment donors'
+            : `${conditionCount} filter${conditionCount !== 1 ? 's' : ''} active`}
         </p>
       </V3CardHeader>
       <V3CardContent className="space-y-4 max-h-[calc(100vh-200px)] overflow-y-auto">
-        {/* Active Filters */}
-        {filters.length > 0 && (
-          <div className="space-y-2 pb-4 border-b border-[hsl(var(--portal-border))]">
-            {filters.map(filter => {
-              const fieldDef = getFieldDef(filter.field);
-              if (!fieldDef) return null;
-
-              return (
-                <ActiveFilterCard
-                  key={filter.id}
-                  filter={filter}
-                  fieldDef={fieldDef}
-                  onUpdate={(updates) => updateFilter(filter.id, updates)}
-                  onRemove={() => removeFilter(filter.id)}
-                  onApply={onApply}
-                  disabled={isLoading}
-                />
-              );
-            })}
+        {/* Active Filter Tree */}
+        {filters.children.length > 0 && (
+          <div className="pb-4 border-b border-[hsl(var(--portal-border))]">
+            <FilterGroupEditor
+              group={filters}
+              depth={0}
+              targetGroupId={targetGroup.id}
+              onSelectTarget={setTargetGroupId}
+              onGroupChange={(id, updates) => onFiltersChange(updateFilterGroup(filters, id, updates))}
+              onConditionChange={(id, updates) => onFiltersChange(updateFilterCondition(filters, id, updates))}
+              onAddGroup={addGroup}
+              onRemove={removeNode}
+              onApply={onApply}
+              disabled={isLoading}
+            />
           </div>
         )}
 
+        {filters.children.length > 0 && (
+          <p className="text-xs text-[hsl(var(--portal-text-muted))]">
+            Adding to{' '}
+            <span className="font-medium text-[hsl(var(--portal-accent-blue))]">
+              {targetGroup.id === filters.id ? 'top-level filters' : 'selected group'}
+            </span>
+          </p>
+        )}
+
         {/* Add Filters by Category */}
         {FILTER_CATEGORIES.map(category => {
           const categoryFields = SEGMENT_FILTER_FIELDS.filter(f => f.category === category);
@@ -154,7 +189,7 @@ export function DonorSegmentFilters({
               </CollapsibleTrigger>
               <CollapsibleContent className="space-y-1 pt-1">
                 {categoryFields.map(field => {
-                  const isActive = filters.some(f => f.field === field.key);
+                  const isActive = activeFields.has(field.key);
                   return (
                     <button
                       key={field.key}
@@ -182,6 +217,172 @@ export function DonorSegmentFilters({
   );
 }
 
+// Boolean group editor (recursive)
+interface FilterGroupEditorProps {
+  group: FilterGroup;
+  depth: number;
+  targetGroupId: string;
+  onSelectTarget: (id: string) => void;
+  onGroupChange: (id: string, updates: Partial<Pick<FilterGroup, 'operator' | 'negate'>>) => void;
+  onConditionChange: (id: string, updates: Partial<FilterCondition>) => void;
+  onAddGroup: (parentId: string) => void;
+  onRemove: (id: string) => void;
+  onApply: () => void;
+  disabled?: boolean;
+}
+
+function FilterGroupEditor({
+  group,
+  depth,
+  targetGroupId,
+  onSelectTarget,
+  onGroupChange,
+  onConditionChange,
+  onAddGroup,
+  onRemove,
+  onApply,
+  disabled,
+}: FilterGroupEditorProps) {
+  const isRoot = depth === 0;
+  const isTarget = group.id === targetGroupId;
+  const joinLabel = group.operator === 'or' ? 'OR' : 'AND';
+
+  return (
+    <div
+      onClick={(e) => {
+        e.stopPropagation();
+        onSelectTarget(group.id);
+      }}
+      className={cn(
+        "space-y-2",
+        !isRoot && "p-2 rounded-lg border border-dashed",
+        !isRoot && (isTarget
+          ? "border-[hsl(var(--portal-accent-blue))] bg-[hsl(var(--portal-accent-blue)/0.05)]"
+          : "border-[hsl(var(--portal-border))]")
+      )}
+    >
+      {/* Group controls */}
+      <div className="flex items-center gap-1.5">
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onGroupChange(group.id, { negate: !group.negate });
+          }}
+          disabled={disabled}
+          title="Exclude donors matching this group"
+          className={cn(
+            "h-8 px-2 rounded text-xs font-semibold border transition-colors",
+            group.negate
+              ? "bg-[hsl(var(--portal-error)/0.1)] border-[hsl(var(--portal-error))] text-[hsl(var(--portal-error))]"
+              : "border-[hsl(var(--portal-border))] text-[hsl(var(--portal-text-muted))] hover:bg-[hsl(var(--portal-bg-hover))]"
+          )}
+        >
+          NOT
+        </button>
+        <Select
+          value={group.operator}
+          onValueChange={(value) => onGroupChange(group.id, { operator: value as FilterGroupOperator })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-8 text-xs bg-[hsl(var(--portal-bg-secondary))]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(GROUP_OPERATOR_LABELS) as FilterGroupOperator[]).map(op => (
+              <SelectItem key={op} value={op} className="text-xs">
+                {GROUP_OPERATOR_LABELS[op]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {depth < MAX_GROUP_DEPTH && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onAddGroup(group.id);
+            }}
+            disabled={disabled}
+            title="Add nested group"
+            className="p-1.5 rounded hover:bg-[hsl(var(--portal-bg-hover))] text-[hsl(var(--portal-text-muted))] hover:text-[hsl(var(--portal-accent-blue))] transition-colors"
+          >
+            <FolderPlus className="h-4 w-4" />
+          </button>
+        )}
+        {!isRoot && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              onRemove(group.id);
+            }}
+            disabled={disabled}
+            title="Remove group"
+            className="p-1.5 rounded hover:bg-[hsl(var(--portal-bg-hover))] text-[hsl(var(--portal-text-muted))] hover:text-[hsl(var(--portal-error))] transition-colors"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+
+      {group.children.length === 0 && (
+        <p className="text-xs text-[hsl(var(--portal-text-muted))] px-1">
+          Empty group - add filters below
+        </p>
+      )}
+
+      {group.children.map((child, index) => {
+        let content: React.ReactNode = null;
+
+        if (isFilterGroup(child)) {
+          content = (
+            <FilterGroupEditor
+              group={child}
+              depth={depth + 1}
+              targetGroupId={targetGroupId}
+              onSelectTarget={onSelectTarget}
+              onGroupChange={onGroupChange}
+              onConditionChange={onConditionChange}
+              onAddGroup={onAddGroup}
+              onRemove={onRemove}
+              onApply={onApply}
+              disabled={disabled}
+            />
+          );
+        } else {
+          const fieldDef = getFieldDef(child.field);
+          if (fieldDef) {
+            content = (
+              <ActiveFilterCard
+                filter={child}
+                fieldDef={fieldDef}
+                onUpdate={(updates) => onConditionChange(child.id, updates)}
+                onRemove={() => onRemove(child.id)}
+                onApply={onApply}
+                disabled={disabled}
+              />
+            );
+          }
+        }
+
+        if (!content) return null;
+
+        return (
+          <React.Fragment key={child.id}>
+            {index > 0 && (
+              <div className="text-[10px] font-semibold tracking-wide text-[hsl(var(--portal-text-muted))] px-1">
+                {joinLabel}
+              </div>
+            )}
+            {content}
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+}
+
 // Active filter card component
 interface ActiveFilterCardProps {
   filter: FilterCondition;
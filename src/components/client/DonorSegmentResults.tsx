@@ -132,7 +132,7 @@ export function DonorSegmentResults({
       {viewMode === 'aggregate' ? (
         <AggregateView aggregates={data.aggregates} />
       ) : (
-        <TableView donors={data.donors} />
+        <TableView donors={data.donors} totalCount={data.totalCount} />
       )}
     </div>
   );
@@ -410,7 +410,8 @@ function AggregateView({ aggregates }: { aggregates: SegmentAggregates }) {
 }
 
 // Virtualized table view for donor list with sorting and filtering
-function TableView({ donors }: { donors: SegmentDonor[] }) {
+// Large segments load only the top donors by lifetime value; totalCount is the full segment size
+function TableView({ donors, totalCount }: { donors: SegmentDonor[]; totalCount: number }) {
   const [sortField, setSortField] = useState<SortField>('total_donated');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [searchTerm, setSearchTerm] = useState('');
@@ -532,6 +533,11 @@ function TableView({ donors }: { donors: SegmentDonor[] }) {
                 ? donors.length.toLocaleString() 
                 : `${sortedDonors.length.toLocaleString()} of ${donors.length.toLocaleString()}`
               } donors)
+              {totalCount > donors.length && (
+                <span className="ml-1 font-normal text-[hsl(var(--portal-text-muted))]">
+                  · top {donors.length.toLocaleString()} of {totalCount.toLocaleString()} by lifetime value
+                </span>
+              )}
             </V3CardTitle>
             <div className="flex items-center gap-2 flex-1 max-w-md">
               <div className="relative flex-1">
@@ -675,7 +681,7 @@ function TableView({ donors }: { donors: SegmentDonor[] }) {
         open={isExpanded}
         onOpenChange={setIsExpanded}
         donors={donors}
-        totalCount={donors.length}
+        totalCount={Math.max(totalCount, donors.length)}
       />
     </>
   );
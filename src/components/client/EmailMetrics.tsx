@@ -0,0 +1,165 @@
+import { motion } from "framer-motion";
+import { format, parseISO } from "date-fns";
+import { DollarSign, Mail, MailOpen, MousePointerClick, UserMinus } from "lucide-react";
+import {
+  V3Card,
+  V3KPICard,
+  V3LoadingState,
+  V3ErrorState,
+  V3EmptyState,
+} from "@/components/v3";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useEmailMetricsQuery } from "@/queries";
+import { formatCurrency, formatNumber, formatPercent } from "@/lib/chart-formatters";
+
+type Props = {
+  organizationId: string;
+  startDate: string;
+  endDate: string;
+};
+
+const containerVariants = {
+  hidden: { opacity: 0 },
+  visible: {
+    opacity: 1,
+    transition: { staggerChildren: 0.05 },
+  },
+};
+
+const itemVariants = {
+  hidden: { opacity: 0, y: 10 },
+  visible: { opacity: 1, y: 0, transition: { duration: 0.2 } },
+};
+
+/** Mailings from the connected email platform, with refcode-attributed ActBlue revenue */
+const EmailMetrics = ({ organizationId, startDate, endDate }: Props) => {
+  const { data, isLoading, error, refetch } = useEmailMetricsQuery(organizationId, startDate, endDate);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <V3LoadingState variant="kpi-grid" count={5} />
+        <V3LoadingState variant="table" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <V3ErrorState
+        title="Failed to load email data"
+        message={error instanceof Error ? error.message : 'An error occurred'}
+        onRetry={() => refetch()}
+      />
+    );
+  }
+
+  if (!data || data.mailings.length === 0) {
+    return (
+      <V3EmptyState
+        icon={Mail}
+        title="No email data found"
+        description="Connect ActionKit, EveryAction or Mailchimp in Settings to sync mailings."
+      />
+    );
+  }
+
+  const { totals, mailings, openRate, clickRate, latestDataDate } = data;
+  const unsubscribeRate = totals.delivered > 0 ? (totals.unsubscribes / totals.delivered) * 100 : 0;
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        className="grid grid-cols-2 md:grid-cols-5 gap-3"
+        variants={containerVariants}
+        initial="hidden"
+        animate="visible"
+      >
+        <motion.div variants={itemVariants}>
+          <V3KPICard
+            icon={Mail}
+            label="Sent"
+            value={formatNumber(totals.sent, true)}
+            subtitle={`${mailings.length} mailings`}
+            accent="blue"
+          />
+        </motion.div>
+        <motion.div variants={itemVariants}>
+          <V3KPICard icon={MailOpen} label="Open Rate" value={formatPercent(openRate, 1)} accent="purple" />
+        </motion.div>
+        <motion.div variants={itemVariants}>
+          <V3KPICard icon={MousePointerClick} label="Click Rate" value={formatPercent(clickRate, 2)} accent="purple" />
+        </motion.div>
+        <motion.div variants={itemVariants}>
+          <V3KPICard
+            icon={DollarSign}
+            label="Raised"
+            value={formatCurrency(totals.raised, true)}
+            subtitle={`${formatNumber(totals.donations)} donations`}
+            accent="green"
+          />
+        </motion.div>
+        <motion.div variants={itemVariants}>
+          <V3KPICard
+            icon={UserMinus}
+            label="Unsubscribes"
+            value={formatNumber(totals.unsubscribes)}
+            subtitle={`${formatPercent(unsubscribeRate, 2)} of delivered`}
+            accent="amber"
+          />
+        </motion.div>
+      </motion.div>
+
+      <V3Card title="Mailing Performance">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mailing</TableHead>
+                <TableHead>Sent</TableHead>
+                <TableHead className="text-right">Recipients</TableHead>
+                <TableHead className="text-right">Open Rate</TableHead>
+                <TableHead className="text-right">Click Rate</TableHead>
+                <TableHead className="text-right">Unsubs</TableHead>
+                <TableHead className="text-right">Donations</TableHead>
+                <TableHead className="text-right">Raised</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {mailings.map((mailing) => (
+                <TableRow key={mailing.id}>
+                  <TableCell className="font-medium">
+                    {mailing.subject || mailing.mailingName || mailing.mailingId}
+                    {mailing.refcode && (
+                      <div className="text-xs text-[hsl(var(--portal-text-muted))]">{mailing.refcode}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs text-[hsl(var(--portal-text-muted))]">
+                    {mailing.sentAt ? format(parseISO(mailing.sentAt), 'MMM d') : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">{mailing.sends.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    {mailing.delivered > 0 ? formatPercent((mailing.uniqueOpens / mailing.delivered) * 100, 1) : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {mailing.delivered > 0 ? formatPercent((mailing.uniqueClicks / mailing.delivered) * 100, 2) : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">{mailing.unsubscribes.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{formatNumber(mailing.donations)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(mailing.raised)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {latestDataDate && (
+          <p className="mt-3 text-xs text-[hsl(var(--portal-text-muted))]">
+            Last mailing sent {format(parseISO(latestDataDate), 'MMM d, yyyy')}
+          </p>
+        )}
+      </V3Card>
+    </div>
+  );
+};
+
+export default EmailMetrics;
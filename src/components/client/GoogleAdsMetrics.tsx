@@ -0,0 +1,154 @@
+import { motion } from "framer-motion";
+import { format, parseISO } from "date-fns";
+import { DollarSign, MousePointerClick, Target, TrendingUp, Search } from "lucide-react";
+import {
+  V3Card,
+  V3KPICard,
+  V3LoadingState,
+  V3ErrorState,
+  V3EmptyState,
+} from "@/components/v3";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useGoogleAdsMetricsQuery } from "@/queries";
+import { formatCurrency, formatNumber, formatPercent, formatRatio } from "@/lib/chart-formatters";
+
+type Props = {
+  organizationId: string;
+  startDate: string;
+  endDate: string;
+};
+
+const containerVariants = {
+  hidden: { opacity: 0 },
+  visible: {
+    opacity: 1,
+    transition: { staggerChildren: 0.05 },
+  },
+};
+
+const itemVariants = {
+  hidden: { opacity: 0, y: 10 },
+  visible: { opacity: 1, y: 0, transition: { duration: 0.2 } },
+};
+
+/** Search, YouTube and Performance Max campaigns from the Google Ads sync */
+const GoogleAdsMetrics = ({ organizationId, startDate, endDate }: Props) => {
+  const { data, isLoading, error, refetch } = useGoogleAdsMetricsQuery(organizationId, startDate, endDate);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <V3LoadingState variant="kpi-grid" count={5} />
+        <V3LoadingState variant="table" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <V3ErrorState
+        title="Failed to load Google Ads data"
+        message={error instanceof Error ? error.message : 'An error occurred'}
+        onRetry={() => refetch()}
+      />
+    );
+  }
+
+  if (!data || data.campaigns.length === 0) {
+    return (
+      <V3EmptyState
+        icon={Search}
+        title="No Google Ads data found"
+        description="Connect Google Ads in Settings to sync search and YouTube campaigns."
+      />
+    );
+  }
+
+  const { totals, campaigns, latestDataDate } = data;
+  const ctr = totals.impressions > 0 ? (totals.clicks / totals.impressions) * 100 : 0;
+  const cpa = totals.conversions > 0 ? totals.cost / totals.conversions : 0;
+  const roas = totals.cost > 0 ? totals.conversion_value / totals.cost : 0;
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        className="grid grid-cols-2 md:grid-cols-5 gap-3"
+        variants={containerVariants}
+        initial="hidden"
+        animate="visible"
+      >
+        <motion.div variants={itemVariants}>
+          <V3KPICard icon={DollarSign} label="Spend" value={formatCurrency(totals.cost, true)} accent="blue" />
+        </motion.div>
+        <motion.div variants={itemVariants}>
+          <V3KPICard
+            icon={MousePointerClick}
+            label="Clicks"
+            value={formatNumber(totals.clicks, true)}
+            subtitle={`${formatPercent(ctr, 2)} CTR`}
+            accent="purple"
+          />
+        </motion.div>
+        <motion.div variants={itemVariants}>
+          <V3KPICard icon={Target} label="Conversions" value={formatNumber(totals.conversions)} accent="green" />
+        </motion.div>
+        <motion.div variants={itemVariants}>
+          <V3KPICard icon={DollarSign} label="Cost / Conv" value={cpa > 0 ? formatCurrency(cpa) : "N/A"} accent="amber" />
+        </motion.div>
+        <motion.div variants={itemVariants}>
+          <V3KPICard
+            icon={TrendingUp}
+            label="ROAS"
+            value={totals.conversion_value > 0 ? formatRatio(roas, 2) : "N/A"}
+            subtitle="Google-reported conversion value"
+            accent="green"
+          />
+        </motion.div>
+      </motion.div>
+
+      <V3Card title="Campaign Performance">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Campaign</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Spend</TableHead>
+                <TableHead className="text-right">Impressions</TableHead>
+                <TableHead className="text-right">Clicks</TableHead>
+                <TableHead className="text-right">CTR</TableHead>
+                <TableHead className="text-right">Conversions</TableHead>
+                <TableHead className="text-right">ROAS</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {campaigns.map((campaign) => (
+                <TableRow key={campaign.campaign_id}>
+                  <TableCell className="font-medium">{campaign.campaign_name}</TableCell>
+                  <TableCell className="text-xs text-[hsl(var(--portal-text-muted))] capitalize">
+                    {campaign.channel_type?.toLowerCase().replace(/_/g, " ") || "—"}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(campaign.cost)}</TableCell>
+                  <TableCell className="text-right">{campaign.impressions.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{campaign.clicks.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{formatPercent(campaign.ctr, 2)}</TableCell>
+                  <TableCell className="text-right">{formatNumber(campaign.conversions)}</TableCell>
+                  <TableCell className="text-right">
+                    {campaign.conversion_value > 0 ? formatRatio(campaign.roas, 2) : "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {latestDataDate && (
+          <p className="mt-3 text-xs text-[hsl(var(--portal-text-muted))]">
+            Synced through {format(parseISO(latestDataDate), 'MMM d, yyyy')}
+          </p>
+        )}
+      </V3Card>
+    </div>
+  );
+};
+
+export default GoogleAdsMetrics;
@@ -0,0 +1,76 @@
+import { useMemo } from "react";
+import { UserX } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { V3Card } from "@/components/v3";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatCurrency } from "@/lib/chart-formatters";
+import { RECENCY_FIELDS, collectNewlyLapsedDonors, describeChangeReason } from "@/lib/segment-membership";
+import { useRecencySegmentEntriesQuery } from "@/queries/useSegmentMembershipQuery";
+
+interface NewlyLapsedDonorsFeedProps {
+  organizationId: string;
+  days?: number;
+}
+
+const MAX_DONORS_SHOWN = 8;
+
+// Donors who crossed into lapsed (180+ days since last gift) according to
+// the nightly segment snapshots. Only segments with a recency condition
+// contribute, so the feed is empty until one is saved.
+export function NewlyLapsedDonorsFeed({ organizationId, days = 14 }: NewlyLapsedDonorsFeedProps) {
+  const { data: entries, isLoading } = useRecencySegmentEntriesQuery(organizationId, days);
+  const donors = useMemo(() => collectNewlyLapsedDonors(entries || []), [entries]);
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full" />;
+  }
+
+  if (donors.length === 0) return null;
+
+  return (
+    <V3Card className="p-5">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div className="flex items-center gap-2">
+          <UserX className="h-4 w-4 text-[hsl(var(--portal-warning))]" />
+          <h3 className="font-semibold text-[hsl(var(--portal-text-primary))]">
+            Donors Who Just Became Lapsed
+          </h3>
+        </div>
+        <span className="text-xs text-[hsl(var(--portal-text-muted))]">
+          {donors.length.toLocaleString()} in the last {days} days
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        {donors.slice(0, MAX_DONORS_SHOWN).map(change => {
+          const recencyReason = change.reasons.find(
+            reason => reason.type === 'condition' && reason.now_met && RECENCY_FIELDS.includes(reason.field)
+          );
+          return (
+            <div key={change.id} className="flex items-start justify-between gap-3 text-sm">
+              <div className="min-w-0">
+                <p className="text-[hsl(var(--portal-text-primary))] truncate">
+                  {change.donor_name || change.donor_email}
+                </p>
+                <p className="text-xs text-[hsl(var(--portal-text-muted))] truncate">
+                  {recencyReason ? describeChangeReason(recencyReason) : 'Entered a lapsed segment'}
+                  {change.attributes?.total_donated !== undefined &&
+                    ` · ${formatCurrency(change.attributes.total_donated)} lifetime`}
+                </p>
+              </div>
+              <span className="text-xs text-[hsl(var(--portal-text-muted))] shrink-0">
+                {formatDistanceToNow(new Date(change.created_at), { addSuffix: true })}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {donors.length > MAX_DONORS_SHOWN && (
+        <p className="mt-3 text-xs text-[hsl(var(--portal-text-muted))]">
+          +{(donors.length - MAX_DONORS_SHOWN).toLocaleString()} more
+        </p>
+      )}
+    </V3Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { V3Card, V3CardContent, V3CardDescription, V3CardHeader, V3CardTitle } from "@/components/v3/V3Card";
 import { V3Button } from "@/components/v3/V3Button";
@@ -10,6 +10,8 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { PollingAverageCard } from "@/components/client/PollingAverageCard";
+import { usePollingAveragesQuery } from "@/queries/usePollingAveragesQuery";
 import { Bell, Plus, Trash2, TrendingUp } from "lucide-react";
 
 interface AlertConfig {
@@ -24,6 +26,9 @@ interface AlertConfig {
   created_at: string;
 }
 
+// Alert configs say "gubernatorial"; the scraper files those races as "governor"
+const toAveragePollType = (pollType: string) => pollType === "gubernatorial" ? "governor" : pollType;
+
 export default function PollingAlertSettings() {
   const [configs, setConfigs] = useState<AlertConfig[]>([]);
   const [loading, setLoading] = useState(true);
@@ -35,6 +40,15 @@ export default function PollingAlertSettings() {
   });
   const { toast } = useToast();
 
+  const activeConfigs = useMemo(() => configs.filter(c => c.is_active && c.state), [configs]);
+  const { data: raceAverages = [] } = usePollingAveragesQuery({
+    states: [...new Set(activeConfigs.map(c => c.state!))],
+    pollTypes: [...new Set(activeConfigs.map(c => toAveragePollType(c.poll_type)))],
+  });
+  const trackedRaces = raceAverages.filter(race =>
+    activeConfigs.some(c => c.state === race.state && toAveragePollType(c.poll_type) === race.poll_type)
+  );
+
   useEffect(() => {
     fetchConfigs();
   }, []);
@@ -106,7 +120,7 @@ export default function PollingAlertSettings() {
 
       toast({
         title: "Alert Created",
-        description: `You'll be notified of ${newConfig.threshold_percentage}%+ changes in ${newConfig.state} ${newConfig.poll_type} polls`,
+        description: `You'll be notified when the ${newConfig.state} ${newConfig.poll_type} polling average moves beyond its noise band`,
       });
 
       setNewConfig({ state: "", poll_type: "senate", threshold_percentage: 5 });
@@ -197,7 +211,7 @@ export default function PollingAlertSettings() {
             Create New Alert
           </V3CardTitle>
           <V3CardDescription>
-            Get notified when poll numbers change significantly in races you're tracking
+            Get notified when the polling average moves beyond its noise band in races you're tracking
           </V3CardDescription>
         </V3CardHeader>
         <V3CardContent className="space-y-6">
@@ -288,7 +302,7 @@ export default function PollingAlertSettings() {
                         </V3Badge>
                       </div>
                       <p className="text-xs text-[hsl(var(--portal-text-muted))]">
-                        Alert when lead changes by ≥{config.threshold_percentage}%
+                        Alert when the average moves beyond its noise band (and at least 1 pt), or the leader changes
                       </p>
                     </div>
                   </div>
@@ -305,6 +319,15 @@ export default function PollingAlertSettings() {
           )}
         </V3CardContent>
       </V3Card>
+
+      {trackedRaces.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-[hsl(var(--portal-text-primary))]">Tracked Race Averages</h3>
+          {trackedRaces.map((race) => (
+            <PollingAverageCard key={race.race_id} race={race} chartHeight={180} />
+          ))}
+        </div>
+      )}
     </div>
   );
 }
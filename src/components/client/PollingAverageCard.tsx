@@ -0,0 +1,162 @@
+import { useMemo } from "react";
+import { TrendingUp, TrendingDown, Minus, Users } from "lucide-react";
+import {
+  V3Card,
+  V3CardHeader,
+  V3CardTitle,
+  V3CardDescription,
+  V3CardContent,
+  V3ChartWrapper,
+  V3Badge,
+} from "@/components/v3";
+import { EChartsLineChart, type LineSeriesConfig } from "@/components/charts/echarts";
+import { getChartColors } from "@/lib/design-tokens";
+import type { RacePollingAverage } from "@/queries/usePollingAveragesQuery";
+
+const chartColors = getChartColors();
+
+interface PollingAverageCardProps {
+  race: RacePollingAverage;
+  chartHeight?: number;
+}
+
+// Races without a scraped name use ids like "senate_2026_Michigan_Senate"
+export function formatRaceName(race: Pick<RacePollingAverage, "race_id" | "race_name">): string {
+  if (race.race_name) return race.race_name;
+  return race.race_id
+    .replace(/^(senate|house|governor|presidential)_/, "")
+    .replace(/_/g, " ")
+    .replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+function TrendIndicator({ perWeek }: { perWeek: number | null }) {
+  if (perWeek === null || Math.abs(perWeek) < 0.1) {
+    return <Minus className="h-3 w-3 text-[hsl(var(--portal-text-muted))]" />;
+  }
+  return perWeek > 0
+    ? <TrendingUp className="h-3 w-3 text-[hsl(var(--portal-accent-green))]" />
+    : <TrendingDown className="h-3 w-3 text-[hsl(var(--portal-accent-red))]" />;
+}
+
+/**
+ * Polling average for one race: latest average per candidate with its 95%
+ * band and weekly trend, the daily average series with band edges, and the
+ * pollsters with the largest house effects.
+ */
+export function PollingAverageCard({ race, chartHeight = 220 }: PollingAverageCardProps) {
+  const { chartData, seriesConfig, yRange } = useMemo(() => {
+    const candidates = race.latest.map((c) => c.candidate_name);
+    const byDate = new Map<string, Record<string, string | number | null>>();
+    for (const point of race.points) {
+      const entry = byDate.get(point.average_date) ?? { date: point.average_date };
+      entry[point.candidate_name] = point.average;
+      entry[`${point.candidate_name} (low)`] = point.lower_bound;
+      entry[`${point.candidate_name} (high)`] = point.upper_bound;
+      byDate.set(point.average_date, entry);
+    }
+
+    const series: LineSeriesConfig[] = candidates.flatMap((candidate, idx) => {
+      const color = chartColors[idx % chartColors.length];
+      const band = (suffix: string): LineSeriesConfig => ({
+        dataKey: `${candidate} (${suffix})`,
+        name: `${candidate} (${suffix})`,
+        color,
+        smooth: true,
+        showSymbol: false,
+        lineStyle: { width: 1, type: "dashed" },
+      });
+      return [
+        { dataKey: candidate, name: candidate, color, smooth: true, showSymbol: false, lineStyle: { width: 2 } },
+        band("low"),
+        band("high"),
+      ];
+    });
+
+    // Averages cluster far from zero; fit the axis to the bands
+    const lows = race.points.map((p) => p.lower_bound);
+    const highs = race.points.map((p) => p.upper_bound);
+    const yRange = race.points.length > 0
+      ? { min: Math.max(0, Math.floor(Math.min(...lows) - 2)), max: Math.min(100, Math.ceil(Math.max(...highs) + 2)) }
+      : undefined;
+
+    return { chartData: Array.from(byDate.values()), seriesConfig: series, yRange };
+  }, [race]);
+
+  const asOf = race.latest[0]?.as_of;
+  const leaningPollsters = race.houseEffects.filter((h) => Math.abs(h.house_effect) >= 0.5).slice(0, 4);
+
+  return (
+    <V3Card>
+      <V3CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <V3CardTitle>{formatRaceName(race)}</V3CardTitle>
+            <V3CardDescription>
+              {race.state ? `${race.state} • ` : ""}{race.poll_type}
+              {asOf && ` • Average as of ${new Date(`${asOf}T00:00:00`).toLocaleDateString()}`}
+            </V3CardDescription>
+          </div>
+          <V3Badge variant="info">
+            <Users className="h-3 w-3 mr-1" />
+            {race.points.find((p) => p.average_date === asOf)?.poll_count ?? 0} polls in window
+          </V3Badge>
+        </div>
+      </V3CardHeader>
+      <V3CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-2">
+          {race.latest.map((candidate) => (
+            <div
+              key={candidate.candidate_name}
+              className="flex items-center justify-between p-3 rounded-lg border border-[hsl(var(--portal-border))] bg-[hsl(var(--portal-bg-elevated))]"
+            >
+              <div>
+                <p className="font-medium text-[hsl(var(--portal-text-primary))]">{candidate.candidate_name}</p>
+                <p className="text-xs text-[hsl(var(--portal-text-muted))] flex items-center gap-1">
+                  <TrendIndicator perWeek={candidate.trend_per_week} />
+                  {candidate.trend_per_week !== null
+                    ? `${candidate.trend_per_week > 0 ? "+" : ""}${candidate.trend_per_week} pts/week`
+                    : "No trend yet"}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-2xl font-bold text-[hsl(var(--portal-accent-blue))]">{candidate.average.toFixed(1)}%</p>
+                <p className="text-xs text-[hsl(var(--portal-text-muted))]">
+                  95%: {candidate.lower_bound.toFixed(1)}–{candidate.upper_bound.toFixed(1)}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {chartData.length > 1 && (
+          <V3ChartWrapper
+            title="Polling Average"
+            ariaLabel={`Polling average chart for ${formatRaceName(race)}`}
+          >
+            <EChartsLineChart
+              data={chartData}
+              xAxisKey="date"
+              series={seriesConfig}
+              height={chartHeight}
+              xAxisType="time"
+              showLegend={false}
+              valueType="number"
+              yAxisConfig={yRange}
+            />
+          </V3ChartWrapper>
+        )}
+
+        {leaningPollsters.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-[hsl(var(--portal-text-muted))]">
+            <span>House effects:</span>
+            {leaningPollsters.map((h) => (
+              <V3Badge key={`${h.pollster}-${h.candidate_name}`} variant="muted">
+                {h.pollster} {h.candidate_name} {h.house_effect > 0 ? "+" : ""}{h.house_effect.toFixed(1)}
+              </V3Badge>
+            ))}
+          </div>
+        )}
+      </V3CardContent>
+    </V3Card>
+  );
+}
@@ -14,6 +14,7 @@ import { Separator } from "@/components/ui/separator";
 type ReportConfig = {
   metrics: string[];
   includeCharts: boolean;
+  attachPdf: boolean;
   chartTypes: {
     fundsRaised: string;
     roi: string;
@@ -66,6 +67,7 @@ const ReportCustomization = ({ scheduleId, onSave }: Props) => {
   const [config, setConfig] = useState<ReportConfig>({
     metrics: ["funds_raised", "total_spend", "roi", "donations", "meta_ads", "sms"],
     includeCharts: true,
+    attachPdf: true,
     chartTypes: {
       fundsRaised: "line",
       roi: "line",
@@ -100,7 +102,8 @@ const ReportCustomization = ({ scheduleId, onSave }: Props) => {
       if (!data) throw new Error("Schedule not found");
 
       setSchedule(data);
-      setConfig(data.report_config || config);
+      // Older schedules predate some options, so fill them from the defaults
+      setConfig(data.report_config ? { ...config, ...data.report_config } : config);
       setTemplateStyle(data.template_style || "professional");
       setBranding(data.custom_branding || branding);
     } catch (error: any) {
@@ -318,6 +321,24 @@ const ReportCustomization = ({ scheduleId, onSave }: Props) => {
                 </p>
               </div>
 
+              <div className="flex items-start space-x-3 p-4 border rounded-lg">
+                <Checkbox
+                  id="attachPdf"
+                  checked={config.attachPdf}
+                  onCheckedChange={(checked) =>
+                    setConfig({ ...config, attachPdf: checked as boolean })
+                  }
+                />
+                <div className="flex-1">
+                  <Label htmlFor="attachPdf" className="text-base font-medium cursor-pointer">
+                    Attach PDF Report
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    Emails include a branded PDF with the charts and a daily breakdown
+                  </p>
+                </div>
+              </div>
+
               <div className="flex items-start space-x-3 p-4 border rounded-lg">
                 <Checkbox
                   id="includeCharts"
@@ -1,13 +1,16 @@
 import { useState } from "react";
-import { BookMarked, Trash2, Play, Download, Calendar, Users, DollarSign } from "lucide-react";
+import { BookMarked, Trash2, Play, Download, Calendar, Users, DollarSign, Share2, History } from "lucide-react";
 import { V3Card, V3Button, V3EmptyState } from "@/components/v3";
 import { supabase } from "@/integrations/supabase/client";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import { Skeleton } from "@/components/ui/skeleton";
 import { formatCurrency } from "@/lib/chart-formatters";
-import { FilterCondition, SavedSegment } from "@/types/donorSegment";
+import { FilterGroup, SavedSegment } from "@/types/donorSegment";
+import { collectFilterFields, normalizeSegmentFilters } from "@/lib/segment-filter-tree";
 import { cn } from "@/lib/utils";
+import { SegmentAudienceSyncDialog } from "./SegmentAudienceSyncDialog";
+import { SegmentHistoryDialog } from "./SegmentHistoryDialog";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -21,11 +24,13 @@ import {
 
 interface SavedSegmentsListProps {
   organizationId: string;
-  onLoadSegment: (filters: FilterCondition[]) => void;
+  onLoadSegment: (filters: FilterGroup) => void;
 }
 
 export const SavedSegmentsList = ({ organizationId, onLoadSegment }: SavedSegmentsListProps) => {
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [pushSegment, setPushSegment] = useState<SavedSegment | null>(null);
+  const [historySegment, setHistorySegment] = useState<SavedSegment | null>(null);
   const queryClient = useQueryClient();
 
   const { data: segments, isLoading } = useQuery({
@@ -39,10 +44,10 @@ export const SavedSegmentsList = ({ organizationId, onLoadSegment }: SavedSegmen
       
       if (error) throw error;
       
-      // Parse the JSONB filters field - cast through unknown for type safety
+      // Parse the JSONB filters field (legacy flat arrays become an AND group)
       return (data || []).map(row => ({
         ...row,
-        filters: (Array.isArray(row.filters) ? row.filters : []) as unknown as FilterCondition[],
+        filters: normalizeSegmentFilters(row.filters),
       })) as SavedSegment[];
     },
     enabled: !!organizationId,
@@ -138,23 +143,7 @@ export const SavedSegmentsList = ({ organizationId, onLoadSegment }: SavedSegmen
                 </div>
 
                 {/* Filter summary */}
-                {segment.filters && segment.filters.length > 0 && (
-                  <div className="mt-3 flex flex-wrap gap-1.5">
-                    {segment.filters.slice(0, 4).map((filter, idx) => (
-                      <span 
-                        key={idx}
-                        className="px-2 py-0.5 text-xs rounded-full bg-[hsl(var(--portal-bg-elevated))] text-[hsl(var(--portal-text-muted))]"
-                      >
-                        {filter.field.replace(/_/g, ' ')}
-                      </span>
-                    ))}
-                    {segment.filters.length > 4 && (
-                      <span className="px-2 py-0.5 text-xs rounded-full bg-[hsl(var(--portal-bg-elevated))] text-[hsl(var(--portal-text-muted))]">
-                        +{segment.filters.length - 4} more
-                      </span>
-                    )}
-                  </div>
-                )}
+                <FilterFieldChips filters={segment.filters} />
               </div>
 
               {/* Actions */}
@@ -175,6 +164,22 @@ export const SavedSegmentsList = ({ organizationId, onLoadSegment }: SavedSegmen
                 >
                   <Download className="h-4 w-4" />
                 </V3Button>
+                <V3Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setHistorySegment(segment)}
+                  title="Membership history"
+                >
+                  <History className="h-4 w-4" />
+                </V3Button>
+                <V3Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPushSegment(segment)}
+                  title="Push to Meta / SMS"
+                >
+                  <Share2 className="h-4 w-4" />
+                </V3Button>
                 <V3Button
                   variant="ghost"
                   size="sm"
@@ -190,6 +195,21 @@ export const SavedSegmentsList = ({ organizationId, onLoadSegment }: SavedSegmen
         ))}
       </div>
 
+      {/* Push to Meta / Switchboard */}
+      <SegmentAudienceSyncDialog
+        open={!!pushSegment}
+        onOpenChange={(open) => !open && setPushSegment(null)}
+        organizationId={organizationId}
+        segment={pushSegment}
+      />
+
+      {/* Membership trend + entries / exits */}
+      <SegmentHistoryDialog
+        open={!!historySegment}
+        onOpenChange={(open) => !open && setHistorySegment(null)}
+        segment={historySegment}
+      />
+
       {/* Delete Confirmation */}
       <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
         <AlertDialogContent className="bg-[hsl(var(--portal-bg-primary))] border-[hsl(var(--portal-border))]">
@@ -217,3 +237,27 @@ export const SavedSegmentsList = ({ organizationId, onLoadSegment }: SavedSegmen
     </>
   );
 };
+
+// Summary chips for the fields a segment filters on (anywhere in its filter tree)
+function FilterFieldChips({ filters }: { filters: FilterGroup }) {
+  const fields = collectFilterFields(filters);
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="mt-3 flex flex-wrap gap-1.5">
+      {fields.slice(0, 4).map((field) => (
+        <span 
+          key={field}
+          className="px-2 py-0.5 text-xs rounded-full bg-[hsl(var(--portal-bg-elevated))] text-[hsl(var(--portal-text-muted))]"
+        >
+          {field.replace(/_/g, ' ')}
+        </span>
+      ))}
+      {fields.length > 4 && (
+        <span className="px-2 py-0.5 text-xs rounded-full bg-[hsl(var(--portal-bg-elevated))] text-[hsl(var(--portal-text-muted))]">
+          +{fields.length - 4} more
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,299 @@
+import React, { useState } from "react";
+import { Share2, RefreshCw, Unlink, MessageSquare, Users } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { V3Button } from "@/components/v3";
+import { cn } from "@/lib/utils";
+import {
+  useSegmentAudienceSyncsQuery,
+  useSegmentAudienceSyncLogQuery,
+  usePushSegmentAudienceMutation,
+  useUnsyncSegmentAudienceMutation,
+} from "@/queries/useSegmentAudienceSyncQuery";
+import type {
+  AudienceDestination,
+  SavedSegment,
+  SegmentAudienceSync,
+  SegmentAudienceSyncLogEntry,
+} from "@/types/donorSegment";
+import { AUDIENCE_DESTINATION_LABELS } from "@/types/donorSegment";
+
+interface SegmentAudienceSyncDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizationId: string;
+  segment: SavedSegment | null;
+}
+
+const DESTINATIONS: { key: AudienceDestination; icon: typeof Users; description: string }[] = [
+  {
+    key: 'meta_custom_audience',
+    icon: Users,
+    description: 'Hashed emails, phones, names and locations for ad targeting',
+  },
+  {
+    key: 'switchboard_list',
+    icon: MessageSquare,
+    description: 'Phone list for SMS broadcasts',
+  },
+];
+
+const STATUS_STYLES: Record<string, string> = {
+  active: 'bg-[hsl(var(--portal-success)/0.1)] text-[hsl(var(--portal-success))]',
+  syncing: 'bg-[hsl(var(--portal-accent-blue)/0.1)] text-[hsl(var(--portal-accent-blue))]',
+  pending: 'bg-[hsl(var(--portal-accent-blue)/0.1)] text-[hsl(var(--portal-accent-blue))]',
+  error: 'bg-[hsl(var(--portal-error)/0.1)] text-[hsl(var(--portal-error))]',
+  partial: 'bg-[hsl(var(--portal-warning)/0.1)] text-[hsl(var(--portal-warning))]',
+  success: 'bg-[hsl(var(--portal-success)/0.1)] text-[hsl(var(--portal-success))]',
+  unsynced: 'bg-[hsl(var(--portal-bg-elevated))] text-[hsl(var(--portal-text-muted))]',
+};
+
+const formatMatchRate = (rate: number | null) =>
+  rate === null ? '—' : `${Math.round(rate * 100)}%`;
+
+export function SegmentAudienceSyncDialog({
+  open,
+  onOpenChange,
+  organizationId,
+  segment,
+}: SegmentAudienceSyncDialogProps) {
+  const segmentId = open ? segment?.id ?? null : null;
+  const { data: syncs, isLoading } = useSegmentAudienceSyncsQuery(segmentId);
+  const { data: log } = useSegmentAudienceSyncLogQuery(segmentId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] bg-[hsl(var(--portal-bg-secondary))] border-[hsl(var(--portal-border))]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-[hsl(var(--portal-text-primary))]">
+            <Share2 className="h-5 w-5 text-[hsl(var(--portal-accent-blue))]" />
+            Push Segment
+          </DialogTitle>
+          <DialogDescription className="text-[hsl(var(--portal-text-muted))]">
+            Sync "{segment?.name}" to your outreach tools. Auto-sync keeps the audience
+            current as donors enter or leave the segment.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          {isLoading ? (
+            <>
+              <Skeleton className="h-28 w-full" />
+              <Skeleton className="h-28 w-full" />
+            </>
+          ) : (
+            segment && DESTINATIONS.map(destination => (
+              <DestinationRow
+                key={destination.key}
+                organizationId={organizationId}
+                segmentId={segment.id}
+                destination={destination.key}
+                icon={destination.icon}
+                description={destination.description}
+                sync={syncs?.find(s => s.destination === destination.key)}
+              />
+            ))
+          )}
+        </div>
+
+        {log && log.length > 0 && (
+          <div className="pt-3 border-t border-[hsl(var(--portal-border))]">
+            <h4 className="text-sm font-medium text-[hsl(var(--portal-text-primary))] mb-2">
+              Sync History
+            </h4>
+            <div className="space-y-1.5 max-h-48 overflow-y-auto">
+              {log.map(entry => (
+                <SyncLogRow key={entry.id} entry={entry} />
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// One destination: status, counts, push / unsync controls
+interface DestinationRowProps {
+  organizationId: string;
+  segmentId: string;
+  destination: AudienceDestination;
+  icon: typeof Users;
+  description: string;
+  sync?: SegmentAudienceSync;
+}
+
+function DestinationRow({
+  organizationId,
+  segmentId,
+  destination,
+  icon: Icon,
+  description,
+  sync,
+}: DestinationRowProps) {
+  const [autoSync, setAutoSync] = useState(sync?.auto_sync ?? true);
+  const [keepRemote, setKeepRemote] = useState(false);
+  const pushMutation = usePushSegmentAudienceMutation();
+  const unsyncMutation = useUnsyncSegmentAudienceMutation();
+
+  const isSynced = !!sync && sync.status !== 'unsynced';
+  const isBusy = pushMutation.isPending || unsyncMutation.isPending || sync?.status === 'syncing';
+  const label = AUDIENCE_DESTINATION_LABELS[destination];
+
+  const handlePush = async () => {
+    try {
+      const result = await pushMutation.mutateAsync({ organizationId, segmentId, destination, autoSync });
+      if (result.status === 'partial') {
+        toast.warning(`${label}: ${result.rejected_count.toLocaleString()} rows were rejected`);
+      } else {
+        toast.success(
+          `${label} synced: +${result.added_count.toLocaleString()} / -${result.removed_count.toLocaleString()} members`
+        );
+      }
+    } catch (error) {
+      console.error('Error pushing segment:', error);
+      toast.error(`Failed to sync ${label}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleUnsync = async () => {
+    if (!sync) return;
+    try {
+      await unsyncMutation.mutateAsync({ syncId: sync.id, segmentId, deleteRemote: !keepRemote });
+      toast.success(`Stopped syncing to ${label}`);
+    } catch (error) {
+      console.error('Error unsyncing segment:', error);
+      toast.error(`Failed to unsync ${label}`);
+    }
+  };
+
+  return (
+    <div className="p-3 rounded-lg bg-[hsl(var(--portal-bg-elevated))] border border-[hsl(var(--portal-border))] space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-2 min-w-0">
+          <Icon className="h-4 w-4 mt-0.5 text-[hsl(var(--portal-accent-blue))] shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-[hsl(var(--portal-text-primary))]">{label}</p>
+            <p className="text-xs text-[hsl(var(--portal-text-muted))]">
+              {isSynced && sync?.external_name ? sync.external_name : description}
+            </p>
+          </div>
+        </div>
+        {sync && (
+          <span className={cn("px-2 py-0.5 text-xs rounded-full capitalize shrink-0", STATUS_STYLES[sync.status])}>
+            {sync.status}
+          </span>
+        )}
+      </div>
+
+      {isSynced && sync && (
+        <div className="grid grid-cols-3 gap-2 text-xs">
+          <div>
+            <p className="text-[hsl(var(--portal-text-muted))]">Synced</p>
+            <p className="font-medium text-[hsl(var(--portal-text-primary))]">
+              {sync.member_count.toLocaleString()} / {sync.segment_size.toLocaleString()}
+            </p>
+          </div>
+          <div>
+            <p className="text-[hsl(var(--portal-text-muted))]">Est. match rate</p>
+            <p className="font-medium text-[hsl(var(--portal-text-primary))]">
+              {formatMatchRate(sync.estimated_match_rate)}
+            </p>
+          </div>
+          <div>
+            <p className="text-[hsl(var(--portal-text-muted))]">Last sync</p>
+            <p className="font-medium text-[hsl(var(--portal-text-primary))]">
+              {sync.last_synced_at
+                ? formatDistanceToNow(new Date(sync.last_synced_at), { addSuffix: true })
+                : 'Never'}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {sync?.status === 'error' && sync.last_error && (
+        <p className="text-xs text-[hsl(var(--portal-error))]">{sync.last_error}</p>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`auto-sync-${destination}`}
+            checked={autoSync}
+            onCheckedChange={setAutoSync}
+            disabled={isBusy}
+          />
+          <Label htmlFor={`auto-sync-${destination}`} className="text-xs text-[hsl(var(--portal-text-muted))]">
+            Auto-sync every 6 hours
+          </Label>
+        </div>
+        <div className="flex items-center gap-2">
+          {isSynced && (
+            <>
+              <div className="flex items-center gap-1.5">
+                <Checkbox
+                  id={`keep-remote-${destination}`}
+                  checked={keepRemote}
+                  onCheckedChange={(checked) => setKeepRemote(checked === true)}
+                  disabled={isBusy}
+                />
+                <Label htmlFor={`keep-remote-${destination}`} className="text-xs text-[hsl(var(--portal-text-muted))]">
+                  Keep remote list
+                </Label>
+              </div>
+              <V3Button variant="ghost" size="sm" onClick={handleUnsync} disabled={isBusy}>
+                <Unlink className="h-4 w-4 mr-1.5" />
+                Unsync
+              </V3Button>
+            </>
+          )}
+          <V3Button size="sm" onClick={handlePush} disabled={isBusy}>
+            <RefreshCw className={cn("h-4 w-4 mr-1.5", pushMutation.isPending && "animate-spin")} />
+            {isSynced ? 'Sync Now' : 'Push'}
+          </V3Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SyncLogRow({ entry }: { entry: SegmentAudienceSyncLogEntry }) {
+  const summary = entry.action === 'unsync'
+    ? `Unsynced${entry.removed_count ? `, removed ${entry.removed_count.toLocaleString()}` : ''}`
+    : `${entry.eligible_count.toLocaleString()} of ${entry.segment_size.toLocaleString()} eligible · +${entry.added_count.toLocaleString()} / -${entry.removed_count.toLocaleString()} · ${formatMatchRate(entry.estimated_match_rate)} est. match`;
+
+  return (
+    <div className="flex items-start justify-between gap-3 text-xs">
+      <div className="min-w-0">
+        <p className="text-[hsl(var(--portal-text-primary))]">
+          {AUDIENCE_DESTINATION_LABELS[entry.destination]}
+          <span className="text-[hsl(var(--portal-text-muted))]">
+            {' · '}{entry.triggered_by === 'scheduled' ? 'auto-sync' : entry.action}
+          </span>
+        </p>
+        <p className="text-[hsl(var(--portal-text-muted))] truncate">
+          {entry.status === 'error' ? entry.error_message : summary}
+        </p>
+      </div>
+      <div className="flex flex-col items-end gap-0.5 shrink-0">
+        <span className={cn("px-1.5 py-0.5 rounded-full capitalize", STATUS_STYLES[entry.status])}>
+          {entry.status}
+        </span>
+        <span className="text-[hsl(var(--portal-text-muted))]">
+          {formatDistanceToNow(new Date(entry.started_at), { addSuffix: true })}
+        </span>
+      </div>
+    </div>
+  );
+}
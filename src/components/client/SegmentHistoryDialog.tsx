@@ -0,0 +1,167 @@
+import { useMemo } from "react";
+import { History, RefreshCw, UserPlus, UserMinus } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { V3Button } from "@/components/v3";
+import { EChartsLineChart } from "@/components/charts/echarts";
+import { cn } from "@/lib/utils";
+import {
+  useSegmentChangesQuery,
+  useSegmentSnapshotsQuery,
+  useRefreshSegmentSnapshotMutation,
+} from "@/queries/useSegmentMembershipQuery";
+import {
+  buildMembershipTrend,
+  describeChangeReason,
+  diffMemberAttributes,
+} from "@/lib/segment-membership";
+import type { SavedSegment, SegmentMembershipChange } from "@/types/donorSegment";
+
+interface SegmentHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  segment: SavedSegment | null;
+}
+
+const MAX_REASONS_SHOWN = 3;
+
+export function SegmentHistoryDialog({ open, onOpenChange, segment }: SegmentHistoryDialogProps) {
+  const segmentId = open ? segment?.id ?? null : null;
+  const { data: snapshots, isLoading: snapshotsLoading } = useSegmentSnapshotsQuery(segmentId);
+  const { data: changes, isLoading: changesLoading } = useSegmentChangesQuery(segmentId);
+  const refreshMutation = useRefreshSegmentSnapshotMutation();
+
+  const trend = useMemo(() => buildMembershipTrend(snapshots || []), [snapshots]);
+  const latest = snapshots?.[snapshots.length - 1];
+
+  const handleRefresh = async () => {
+    if (!segment) return;
+    try {
+      const result = await refreshMutation.mutateAsync(segment.id);
+      toast.success(
+        result.is_baseline
+          ? `Recorded baseline of ${result.member_count.toLocaleString()} donors`
+          : `+${result.entered_count.toLocaleString()} entered / -${result.exited_count.toLocaleString()} left`
+      );
+    } catch (error) {
+      console.error('Error refreshing segment snapshot:', error);
+      toast.error('Failed to recompute segment');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] bg-[hsl(var(--portal-bg-secondary))] border-[hsl(var(--portal-border))]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-[hsl(var(--portal-text-primary))]">
+            <History className="h-5 w-5 text-[hsl(var(--portal-accent-purple))]" />
+            Segment History
+          </DialogTitle>
+          <DialogDescription className="text-[hsl(var(--portal-text-muted))]">
+            "{segment?.name}" is recomputed nightly. Donors who enter or leave are recorded with the
+            conditions that changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-[hsl(var(--portal-text-muted))]">
+            {latest
+              ? `Last computed ${formatDistanceToNow(new Date(latest.captured_at), { addSuffix: true })} · ${latest.member_count.toLocaleString()} donors`
+              : 'Not computed yet'}
+          </p>
+          <V3Button size="sm" variant="outline" onClick={handleRefresh} disabled={refreshMutation.isPending}>
+            <RefreshCw className={cn("h-4 w-4 mr-1.5", refreshMutation.isPending && "animate-spin")} />
+            Recompute Now
+          </V3Button>
+        </div>
+
+        {snapshotsLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : trend.length > 1 ? (
+          <EChartsLineChart
+            data={trend}
+            xAxisKey="date"
+            height={200}
+            series={[
+              { dataKey: "members", name: "Members", color: "hsl(var(--portal-accent-purple))" },
+              { dataKey: "entered", name: "Entered", color: "hsl(var(--portal-success))", yAxisIndex: 1 },
+              { dataKey: "exited", name: "Left", color: "hsl(var(--portal-error))", yAxisIndex: 1 },
+            ]}
+            dualYAxis
+            yAxisNameLeft="Members"
+            yAxisNameRight="Changes"
+          />
+        ) : (
+          <p className="py-8 text-center text-sm text-[hsl(var(--portal-text-muted))]">
+            The trend appears after the segment has been computed twice.
+          </p>
+        )}
+
+        <div className="pt-3 border-t border-[hsl(var(--portal-border))]">
+          <h4 className="text-sm font-medium text-[hsl(var(--portal-text-primary))] mb-2">
+            Recent Changes
+          </h4>
+          {changesLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : changes && changes.length > 0 ? (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {changes.map(change => (
+                <MembershipChangeRow key={change.id} change={change} />
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-[hsl(var(--portal-text-muted))]">No donors have entered or left yet.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MembershipChangeRow({ change }: { change: SegmentMembershipChange }) {
+  const entered = change.change_type === 'entered';
+  const Icon = entered ? UserPlus : UserMinus;
+  const attributeChanges = diffMemberAttributes(change.previous_attributes, change.attributes);
+
+  return (
+    <div className="flex items-start gap-2 text-xs">
+      <Icon
+        className={cn(
+          "h-3.5 w-3.5 mt-0.5 shrink-0",
+          entered ? "text-[hsl(var(--portal-success))]" : "text-[hsl(var(--portal-error))]"
+        )}
+      />
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-[hsl(var(--portal-text-primary))] truncate">
+            {change.donor_name || change.donor_email}
+            <span className="text-[hsl(var(--portal-text-muted))]">{entered ? ' entered' : ' left'}</span>
+          </p>
+          <span className="text-[hsl(var(--portal-text-muted))] shrink-0">
+            {formatDistanceToNow(new Date(change.created_at), { addSuffix: true })}
+          </span>
+        </div>
+        {change.reasons.slice(0, MAX_REASONS_SHOWN).map((reason, index) => (
+          <p key={index} className="text-[hsl(var(--portal-text-muted))] truncate">
+            {describeChangeReason(reason)}
+          </p>
+        ))}
+        {attributeChanges.length > 0 && (
+          <p className="text-[hsl(var(--portal-text-muted))] truncate">
+            {attributeChanges
+              .map(c => `${c.label}: ${c.from ?? '—'} → ${c.to ?? '—'}`)
+              .join(' · ')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
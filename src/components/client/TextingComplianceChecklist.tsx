@@ -0,0 +1,131 @@
+import { CheckCircle2, XCircle, AlertTriangle, MinusCircle, Loader2, ShieldCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import type {
+  TextingComplianceResult,
+  TextingComplianceStatus,
+  TextingRuleResult,
+} from "@/types/textingCompliance";
+
+const STATUS_STYLES: Record<TextingComplianceStatus, { label: string; className: string }> = {
+  pass: {
+    label: "Compliant",
+    className: "bg-[hsl(var(--portal-success)/0.1)] text-[hsl(var(--portal-success))] border-[hsl(var(--portal-success)/0.2)]",
+  },
+  review: {
+    label: "Needs review",
+    className: "bg-[hsl(var(--portal-warning)/0.1)] text-[hsl(var(--portal-warning))] border-[hsl(var(--portal-warning)/0.2)]",
+  },
+  blocked: {
+    label: "Blocked",
+    className: "bg-[hsl(var(--portal-error)/0.1)] text-[hsl(var(--portal-error))] border-[hsl(var(--portal-error)/0.2)]",
+  },
+};
+
+function RuleIcon({ rule }: { rule: TextingRuleResult }) {
+  if (rule.status === "pass") {
+    return <CheckCircle2 className="h-4 w-4 shrink-0 text-[hsl(var(--portal-success))]" aria-hidden="true" />;
+  }
+  if (rule.status === "skipped") {
+    return <MinusCircle className="h-4 w-4 shrink-0 text-[hsl(var(--portal-text-muted))]" aria-hidden="true" />;
+  }
+  return rule.severity === "block"
+    ? <XCircle className="h-4 w-4 shrink-0 text-[hsl(var(--portal-error))]" aria-hidden="true" />
+    : <AlertTriangle className="h-4 w-4 shrink-0 text-[hsl(var(--portal-warning))]" aria-hidden="true" />;
+}
+
+interface SendTimeFieldProps {
+  id: string;
+  /** datetime-local value, empty when not scheduled */
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+// Scheduled send time for the quiet-hours and state calling-window rules
+export function SendTimeField({ id, value, onChange, className }: SendTimeFieldProps) {
+  return (
+    <div className={cn("space-y-1", className)}>
+      <Label htmlFor={id} className="text-xs text-[hsl(var(--portal-text-secondary))]">Send time</Label>
+      <Input
+        id={id}
+        type="datetime-local"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="h-8 text-xs"
+      />
+      {!value && (
+        <p className="text-xs text-[hsl(var(--portal-text-muted))]">
+          Set a send time to check quiet hours and state calling windows.
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface TextingComplianceChecklistProps {
+  result: TextingComplianceResult | undefined;
+  isLoading?: boolean;
+  error?: Error | null;
+  /** Only list failing and skipped rules */
+  compact?: boolean;
+  className?: string;
+}
+
+export function TextingComplianceChecklist({
+  result,
+  isLoading,
+  error,
+  compact = false,
+  className,
+}: TextingComplianceChecklistProps) {
+  if (isLoading && !result) {
+    return (
+      <div className={cn("flex items-center gap-2 text-xs text-[hsl(var(--portal-text-muted))]", className)}>
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        Checking texting rules...
+      </div>
+    );
+  }
+
+  if (error && !result) {
+    return (
+      <p className={cn("text-xs text-[hsl(var(--portal-error))]", className)}>
+        Couldn't check texting rules: {error.message}
+      </p>
+    );
+  }
+
+  if (!result) return null;
+
+  const status = STATUS_STYLES[result.status];
+  const rules = compact ? result.rules.filter(r => r.status !== "pass") : result.rules;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center gap-2">
+        <ShieldCheck className="h-4 w-4 text-[hsl(var(--portal-text-secondary))]" aria-hidden="true" />
+        <span className="text-sm font-medium text-[hsl(var(--portal-text-primary))]">Texting rules</span>
+        <Badge variant="outline" className={cn("text-xs", status.className)}>
+          {status.label}
+        </Badge>
+        {isLoading && <Loader2 className="h-3.5 w-3.5 animate-spin text-[hsl(var(--portal-text-muted))]" />}
+      </div>
+      {rules.length > 0 && (
+        <ul className="space-y-1.5">
+          {rules.map(rule => (
+            <li key={rule.rule_id} className="flex items-start gap-2">
+              <RuleIcon rule={rule} />
+              <div className="min-w-0">
+                <p className="text-xs font-medium text-[hsl(var(--portal-text-primary))]">{rule.title}</p>
+                <p className="text-xs text-[hsl(var(--portal-text-secondary))]">{rule.explanation}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
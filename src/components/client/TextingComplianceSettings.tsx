@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { Loader2, Save } from "lucide-react";
+import { toast } from "sonner";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  useSaveTextingComplianceSettings,
+  useTextingComplianceSettingsQuery,
+} from "@/queries/useTextingComplianceQuery";
+import {
+  DEFAULT_TEXTING_SETTINGS,
+  TEXTING_RULE_PACKS,
+  type RulePackId,
+} from "@/types/textingCompliance";
+
+interface TextingComplianceSettingsProps {
+  organizationId: string | null;
+}
+
+export function TextingComplianceSettings({ organizationId }: TextingComplianceSettingsProps) {
+  const { data: settings, isLoading } = useTextingComplianceSettingsQuery(organizationId);
+  const saveSettings = useSaveTextingComplianceSettings(organizationId);
+
+  const [enabledPacks, setEnabledPacks] = useState<RulePackId[]>(DEFAULT_TEXTING_SETTINGS.enabled_packs);
+  const [paidForBy, setPaidForBy] = useState("");
+  const [quietStart, setQuietStart] = useState(DEFAULT_TEXTING_SETTINGS.quiet_hours_start);
+  const [quietEnd, setQuietEnd] = useState(DEFAULT_TEXTING_SETTINGS.quiet_hours_end);
+  const [allowedDomains, setAllowedDomains] = useState("");
+
+  useEffect(() => {
+    if (!settings) return;
+    setEnabledPacks(settings.enabled_packs);
+    setPaidForBy(settings.paid_for_by ?? "");
+    setQuietStart(settings.quiet_hours_start);
+    setQuietEnd(settings.quiet_hours_end);
+    setAllowedDomains(settings.allowed_link_domains.join(", "));
+  }, [settings]);
+
+  const togglePack = (pack: RulePackId, enabled: boolean) => {
+    setEnabledPacks(prev => enabled ? [...prev, pack] : prev.filter(p => p !== pack));
+  };
+
+  const handleSave = async () => {
+    if (quietStart >= quietEnd) {
+      toast.error("Quiet hours must end after they start");
+      return;
+    }
+    if (enabledPacks.includes("paid_for_by") && !paidForBy.trim()) {
+      toast.error("Enter the committee name for the paid-for-by disclaimer");
+      return;
+    }
+
+    try {
+      await saveSettings.mutateAsync({
+        enabled_packs: enabledPacks,
+        paid_for_by: paidForBy.trim() || null,
+        quiet_hours_start: quietStart,
+        quiet_hours_end: quietEnd,
+        allowed_link_domains: allowedDomains
+          .split(",")
+          .map(d => d.trim().toLowerCase())
+          .filter(Boolean),
+      });
+      toast.success("Texting compliance settings saved");
+    } catch (error) {
+      console.error("Error saving texting compliance settings:", error);
+      toast.error("Failed to save texting compliance settings");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        {TEXTING_RULE_PACKS.map(pack => (
+          <div key={pack.id} className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor={`pack-${pack.id}`}>{pack.label}</Label>
+              <p className="text-xs text-muted-foreground">{pack.description}</p>
+            </div>
+            <Switch
+              id={`pack-${pack.id}`}
+              checked={enabledPacks.includes(pack.id)}
+              onCheckedChange={(checked) => togglePack(pack.id, checked)}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="paid-for-by">Paid-for-by committee</Label>
+        <Input
+          id="paid-for-by"
+          value={paidForBy}
+          onChange={(e) => setPaidForBy(e.target.value)}
+          placeholder="Friends of Jane Doe"
+          maxLength={200}
+        />
+        <p className="text-xs text-muted-foreground">
+          Messages must include "Paid for by {paidForBy.trim() || "…"}" when the disclaimer pack is on
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="quiet-start">Send window start (hour)</Label>
+          <Input
+            id="quiet-start"
+            type="number"
+            min={8}
+            max={21}
+            value={quietStart}
+            onChange={(e) => setQuietStart(Number(e.target.value))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="quiet-end">Send window end (hour)</Label>
+          <Input
+            id="quiet-end"
+            type="number"
+            min={8}
+            max={21}
+            value={quietEnd}
+            onChange={(e) => setQuietEnd(Number(e.target.value))}
+          />
+        </div>
+        <p className="col-span-2 text-xs text-muted-foreground">
+          Recipient local time. The federal 8am–9pm window always applies; this can only narrow it.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="allowed-domains">Allowed link domains</Label>
+        <Input
+          id="allowed-domains"
+          value={allowedDomains}
+          onChange={(e) => setAllowedDomains(e.target.value)}
+          placeholder="actblue.com, janedoe.org"
+        />
+        <p className="text-xs text-muted-foreground">
+          Comma-separated. Links to these domains are never flagged as public shorteners.
+        </p>
+      </div>
+
+      <Button onClick={handleSave} disabled={saveSettings.isPending || !organizationId}>
+        {saveSettings.isPending ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          <>
+            <Save className="h-4 w-4 mr-2" />
+            Save Rules
+          </>
+        )}
+      </Button>
+    </div>
+  );
+}
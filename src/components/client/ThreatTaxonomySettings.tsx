@@ -0,0 +1,518 @@
+import { useEffect, useState } from "react";
+import { History, Loader2, Play, Plus, RotateCcw, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MatchedRules } from "@/components/alerts/MatchedRules";
+import {
+  fetchThreatTaxonomyVersion,
+  usePreviewThreatTaxonomy,
+  usePublishThreatTaxonomy,
+  useRevertThreatTaxonomy,
+  useThreatTaxonomyMatchesQuery,
+  useThreatTaxonomyQuery,
+} from "@/queries/useThreatTaxonomyQuery";
+import { newCategory, newRule, splitList, validateTaxonomyDraft } from "@/lib/threat-taxonomy";
+import {
+  THREAT_LEVEL_OPTIONS,
+  THREAT_SOURCE_OPTIONS,
+  type ThreatCategory,
+  type ThreatLevel,
+  type ThreatRule,
+  type ThreatSourceType,
+  type ThreatTaxonomy,
+} from "@/types/threatTaxonomy";
+
+interface ThreatTaxonomySettingsProps {
+  organizationId: string | null;
+}
+
+const NO_FLOOR = "none";
+const ANY_SOURCE = "any";
+
+const LEVEL_STYLES: Record<ThreatLevel, string> = {
+  critical: "bg-severity-critical/10 text-severity-critical border-severity-critical/30",
+  high: "bg-severity-high/10 text-severity-high border-severity-high/30",
+  medium: "bg-severity-medium/10 text-severity-medium border-severity-medium/30",
+  low: "bg-status-neutral-muted text-status-neutral border-status-neutral/30",
+};
+
+const SOURCE_LABELS: Record<ThreatSourceType, string> = {
+  state_action: "State action",
+  executive_order: "Executive order",
+  bill: "Bill",
+};
+
+interface ListInputProps {
+  id?: string;
+  value: string[];
+  onChange: (value: string[]) => void;
+  placeholder?: string;
+}
+
+// Comma-separated list, committed on blur so commas can be typed
+function ListInput({ id, value, onChange, placeholder }: ListInputProps) {
+  return (
+    <Input
+      id={id}
+      key={value.join("\n")}
+      defaultValue={value.join(", ")}
+      onBlur={(e) => onChange(splitList(e.target.value))}
+      placeholder={placeholder}
+    />
+  );
+}
+
+export function ThreatTaxonomySettings({ organizationId }: ThreatTaxonomySettingsProps) {
+  const { data: state, isLoading } = useThreatTaxonomyQuery(organizationId);
+  const { data: recentMatches } = useThreatTaxonomyMatchesQuery(organizationId);
+  const publish = usePublishThreatTaxonomy(organizationId);
+  const revert = useRevertThreatTaxonomy(organizationId);
+  const preview = usePreviewThreatTaxonomy(organizationId);
+
+  const [draft, setDraft] = useState<ThreatTaxonomy | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [previewText, setPreviewText] = useState("");
+  const [previewSource, setPreviewSource] = useState<ThreatSourceType | typeof ANY_SOURCE>(ANY_SOURCE);
+
+  useEffect(() => {
+    if (!state) return;
+    setDraft(state.taxonomy);
+    setDirty(false);
+  }, [state]);
+
+  if (isLoading || !draft || !state) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const errors = validateTaxonomyDraft(draft);
+
+  const edit = (next: ThreatTaxonomy) => {
+    setDraft(next);
+    setDirty(true);
+  };
+
+  const updateCategory = (index: number, patch: Partial<ThreatCategory>) => {
+    edit({
+      ...draft,
+      categories: draft.categories.map((c, i) => (i === index ? { ...c, ...patch } : c)),
+    });
+  };
+
+  const updateRule = (categoryIndex: number, ruleIndex: number, patch: Partial<ThreatRule>) => {
+    const category = draft.categories[categoryIndex];
+    updateCategory(categoryIndex, {
+      rules: category.rules.map((r, i) => (i === ruleIndex ? { ...r, ...patch } : r)),
+    });
+  };
+
+  const toggleSource = (categoryIndex: number, ruleIndex: number, source: ThreatSourceType, checked: boolean) => {
+    const rule = draft.categories[categoryIndex].rules[ruleIndex];
+    const current = rule.sources ?? THREAT_SOURCE_OPTIONS.map((o) => o.value);
+    const next = checked ? [...current, source] : current.filter((s) => s !== source);
+    // Every source selected is the same as no restriction
+    updateRule(categoryIndex, ruleIndex, {
+      sources: next.length === THREAT_SOURCE_OPTIONS.length ? undefined : THREAT_SOURCE_OPTIONS.map((o) => o.value).filter((s) => next.includes(s)),
+    });
+  };
+
+  const handlePublish = async () => {
+    try {
+      const result = await publish.mutateAsync({ taxonomy: draft, notes: notes.trim() });
+      setNotes("");
+      toast.success(
+        `Published version ${result.version}: ${result.rescored.matched} of ${result.rescored.scored} recent items match`
+      );
+    } catch (error) {
+      console.error("Error publishing threat taxonomy:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to publish taxonomy");
+    }
+  };
+
+  const handleRevert = async () => {
+    if (!window.confirm("Stop using your own taxonomy and score items with the default? Past versions are kept.")) return;
+    try {
+      await revert.mutateAsync();
+      toast.success("Using the default taxonomy");
+    } catch (error) {
+      console.error("Error reverting threat taxonomy:", error);
+      toast.error("Failed to revert taxonomy");
+    }
+  };
+
+  const handleRestore = async (versionId: string, version: number) => {
+    try {
+      edit(await fetchThreatTaxonomyVersion(versionId));
+      setNotes(`Restored version ${version}`);
+      toast.success(`Version ${version} loaded. Publish to make it active.`);
+    } catch (error) {
+      console.error("Error loading taxonomy version:", error);
+      toast.error("Failed to load that version");
+    }
+  };
+
+  const handlePreview = () => {
+    preview.mutate(
+      { taxonomy: draft, text: previewText, sourceType: previewSource === ANY_SOURCE ? undefined : previewSource },
+      { onError: () => toast.error("Failed to test the taxonomy") }
+    );
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="space-y-0.5">
+          <p className="text-sm font-medium">
+            {state.is_default ? "Using the default taxonomy" : `Version ${state.active_version} is active`}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Scores state actions, executive orders and bills for your organization. Each item shows the rules it matched.
+            Publishing re-scores recent state actions and executive orders right away; bills keep their previous
+            score until the next bill sync.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => edit(state.default_taxonomy)}>
+            Start from default
+          </Button>
+          {!state.is_default && (
+            <Button variant="outline" size="sm" onClick={handleRevert} disabled={revert.isPending}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Revert to default
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Severity thresholds */}
+      <div className="space-y-2">
+        <h4 className="font-medium">Severity thresholds</h4>
+        <div className="grid grid-cols-3 gap-4">
+          {(["critical", "high", "medium"] as const).map((level) => (
+            <div key={level} className="space-y-2">
+              <Label htmlFor={`threshold-${level}`} className="capitalize">{level} at score</Label>
+              <Input
+                id={`threshold-${level}`}
+                type="number"
+                min={1}
+                value={draft.thresholds[level]}
+                onChange={(e) => edit({ ...draft, thresholds: { ...draft.thresholds, [level]: Number(e.target.value) } })}
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          An item's score is the sum of the weights of the rules it matches, capped at 100.
+        </p>
+      </div>
+
+      {/* Categories and rules */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium">Issue categories</h4>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => edit({ ...draft, categories: [...draft.categories, newCategory(draft)] })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add category
+          </Button>
+        </div>
+
+        {draft.categories.map((category, categoryIndex) => (
+          <div key={category.id} className="rounded-lg border p-4 space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_180px_1fr_auto] gap-3 items-end">
+              <div className="space-y-2">
+                <Label htmlFor={`category-${category.id}-name`}>Category</Label>
+                <Input
+                  id={`category-${category.id}-name`}
+                  value={category.name}
+                  onChange={(e) => updateCategory(categoryIndex, { name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>At least</Label>
+                <Select
+                  value={category.severity ?? NO_FLOOR}
+                  onValueChange={(value) =>
+                    updateCategory(categoryIndex, { severity: value === NO_FLOOR ? undefined : (value as ThreatLevel) })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_FLOOR}>Score decides</SelectItem>
+                    {THREAT_LEVEL_OPTIONS.filter((o) => o.value !== "low").map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`category-${category.id}-negations`}>Ignore when near</Label>
+                <ListInput
+                  id={`category-${category.id}-negations`}
+                  value={category.negations ?? []}
+                  onChange={(negations) => updateCategory(categoryIndex, { negations: negations.length ? negations : undefined })}
+                  placeholder="repealed, struck down"
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={`Remove ${category.name}`}
+                onClick={() => edit({ ...draft, categories: draft.categories.filter((_, i) => i !== categoryIndex) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              {category.rules.map((rule, ruleIndex) => (
+                <div key={rule.id} className="rounded-md bg-muted/40 p-3 space-y-3">
+                  <div className="grid grid-cols-1 sm:grid-cols-[1fr_2fr_90px_auto] gap-3 items-end">
+                    <div className="space-y-1">
+                      <Label className="text-xs" htmlFor={`rule-${category.id}-${rule.id}-label`}>Rule</Label>
+                      <Input
+                        id={`rule-${category.id}-${rule.id}-label`}
+                        value={rule.label}
+                        onChange={(e) => updateRule(categoryIndex, ruleIndex, { label: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs" htmlFor={`rule-${category.id}-${rule.id}-terms`}>Keywords and phrases</Label>
+                      <ListInput
+                        id={`rule-${category.id}-${rule.id}-terms`}
+                        value={rule.terms}
+                        onChange={(terms) => updateRule(categoryIndex, ruleIndex, { terms })}
+                        placeholder="eviction, unlawful detainer"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs" htmlFor={`rule-${category.id}-${rule.id}-weight`}>Weight</Label>
+                      <Input
+                        id={`rule-${category.id}-${rule.id}-weight`}
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={rule.weight}
+                        onChange={(e) => updateRule(categoryIndex, ruleIndex, { weight: Number(e.target.value) })}
+                      />
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Remove ${rule.label}`}
+                      onClick={() =>
+                        updateCategory(categoryIndex, { rules: category.rules.filter((_, i) => i !== ruleIndex) })
+                      }
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-[2fr_1fr] gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs" htmlFor={`rule-${category.id}-${rule.id}-negations`}>Ignore when near</Label>
+                      <ListInput
+                        id={`rule-${category.id}-${rule.id}-negations`}
+                        value={rule.negations ?? []}
+                        onChange={(negations) =>
+                          updateRule(categoryIndex, ruleIndex, { negations: negations.length ? negations : undefined })
+                        }
+                        placeholder="moratorium, protections"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs" htmlFor={`rule-${category.id}-${rule.id}-org`}>Affects organization</Label>
+                      <Input
+                        id={`rule-${category.id}-${rule.id}-org`}
+                        value={rule.organization ?? ""}
+                        onChange={(e) =>
+                          updateRule(categoryIndex, ruleIndex, { organization: e.target.value || undefined })
+                        }
+                        placeholder="Optional"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-4">
+                    {THREAT_SOURCE_OPTIONS.map((option) => (
+                      <label key={option.value} className="flex items-center gap-2 text-xs">
+                        <Checkbox
+                          checked={!rule.sources || rule.sources.includes(option.value)}
+                          onCheckedChange={(checked) =>
+                            toggleSource(categoryIndex, ruleIndex, option.value, checked === true)
+                          }
+                        />
+                        {option.label}
+                      </label>
+                    ))}
+                    <label className="flex items-center gap-2 text-xs">
+                      <Switch
+                        checked={rule.match_case === true}
+                        onCheckedChange={(checked) =>
+                          updateRule(categoryIndex, ruleIndex, { match_case: checked || undefined })
+                        }
+                      />
+                      Match case (acronyms)
+                    </label>
+                  </div>
+                </div>
+              ))}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateCategory(categoryIndex, { rules: [...category.rules, newRule(category)] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add rule
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Test before publishing */}
+      <div className="space-y-3">
+        <h4 className="font-medium">Test</h4>
+        <Textarea
+          value={previewText}
+          onChange={(e) => setPreviewText(e.target.value)}
+          placeholder="Paste a headline or summary to see which rules match"
+          rows={3}
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={previewSource} onValueChange={(value) => setPreviewSource(value as ThreatSourceType | typeof ANY_SOURCE)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_SOURCE}>Any source</SelectItem>
+              {THREAT_SOURCE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={handlePreview} disabled={!previewText.trim() || preview.isPending}>
+            {preview.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+            Test draft
+          </Button>
+        </div>
+        {preview.data && (
+          <div className="rounded-md border p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className={LEVEL_STYLES[preview.data.result.level]}>
+                {preview.data.result.level.toUpperCase()}
+              </Badge>
+              <span className="text-sm text-muted-foreground">Score {preview.data.result.score}</span>
+            </div>
+            {preview.data.result.matches.length > 0 ? (
+              <MatchedRules matches={preview.data.result.matches} limit={10} />
+            ) : (
+              <p className="text-sm text-muted-foreground">No rules matched</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Publish */}
+      <div className="space-y-3">
+        {errors.length > 0 && (
+          <ul className="text-sm text-destructive list-disc pl-5 space-y-1">
+            {errors.map((error) => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="taxonomy-notes">What changed</Label>
+          <Input
+            id="taxonomy-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Added housing rules"
+            maxLength={500}
+          />
+        </div>
+        <Button onClick={handlePublish} disabled={!dirty || errors.length > 0 || publish.isPending || !organizationId}>
+          {publish.isPending ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Publishing...
+            </>
+          ) : (
+            <>
+              <Upload className="h-4 w-4 mr-2" />
+              Publish new version
+            </>
+          )}
+        </Button>
+      </div>
+
+      {/* History */}
+      {state.versions.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-medium flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Versions
+          </h4>
+          <div className="divide-y rounded-md border">
+            {state.versions.map((version) => (
+              <div key={version.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <span className="font-medium">v{version.version}</span>
+                  {version.is_active && <Badge variant="secondary" className="ml-2 text-xs">Active</Badge>}
+                  <span className="ml-2 text-muted-foreground">
+                    {formatDistanceToNow(new Date(version.created_at), { addSuffix: true })}
+                  </span>
+                  {version.notes && <p className="text-xs text-muted-foreground truncate">{version.notes}</p>}
+                </div>
+                {!version.is_active && (
+                  <Button variant="ghost" size="sm" onClick={() => handleRestore(version.id, version.version)}>
+                    Restore
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* What the active version matched */}
+      {recentMatches && recentMatches.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-medium">Recent matches</h4>
+          <div className="space-y-2">
+            {recentMatches.map((match) => (
+              <div key={`${match.source_type}-${match.source_id}`} className="rounded-md border p-3 space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline" className={LEVEL_STYLES[match.threat_level]}>
+                    {match.threat_level.toUpperCase()}
+                  </Badge>
+                  <Badge variant="outline" className="text-xs">{SOURCE_LABELS[match.source_type]}</Badge>
+                  <span className="text-xs text-muted-foreground">v{match.taxonomy_version}</span>
+                  {!state.is_default && match.taxonomy_version !== state.active_version && (
+                    <span className="text-xs text-muted-foreground">· re-scored on the next bill sync</span>
+                  )}
+                </div>
+                <p className="text-sm font-medium line-clamp-2">{match.title}</p>
+                <MatchedRules matches={match.matched_rules} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -134,7 +134,8 @@ interface EvidenceItemProps {
 }
 
 function EvidenceItem({ evidence }: EvidenceItemProps) {
-  const SourceIcon = evidence.source_type === 'bluesky' ? MessageCircle : Newspaper;
+  const isSocial = evidence.source_type === 'bluesky' || evidence.source_type === 'reddit';
+  const SourceIcon = isSocial ? MessageCircle : Newspaper;
   const publishedDate = new Date(evidence.published_at);
   const tierInfo = getTierLabel(evidence.source_tier);
   
@@ -151,7 +152,9 @@ function EvidenceItem({ evidence }: EvidenceItemProps) {
     >
       <div className={cn(
         "p-1.5 rounded-lg shrink-0",
-        evidence.source_type === 'bluesky' 
+        evidence.source_type === 'reddit'
+          ? "bg-orange-500/10 text-orange-500"
+          : evidence.source_type === 'bluesky'
           ? "bg-blue-500/10 text-blue-500" 
           : "bg-[hsl(var(--portal-accent-purple)/0.15)] text-[hsl(var(--portal-accent-purple))]"
       )}>
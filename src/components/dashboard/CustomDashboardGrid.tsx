@@ -0,0 +1,170 @@
+import { Suspense, useEffect, useMemo, useRef } from "react";
+import { Responsive, WidthProvider, Layout } from "react-grid-layout";
+import "react-grid-layout/css/styles.css";
+import "react-resizable/css/styles.css";
+import { V3LoadingState } from "@/components/v3";
+import { PortalErrorBoundary } from "@/components/portal/PortalErrorBoundary";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { useSidebar } from "@/components/ui/sidebar";
+import { DateRangeOverrideContext, useDashboardStore } from "@/stores/dashboardStore";
+import { GRID_COLUMNS, resolveWidgetDateRange } from "@/lib/dashboard-layouts";
+import type { DashboardWidgetInstance, WidgetDateRange } from "@/types/dashboardLayout";
+import { DashboardWidget } from "./DashboardWidget";
+import { WidgetDateRangeMenu } from "./WidgetDateRangeMenu";
+import { getWidgetDefinition } from "./widgets/registry";
+
+import "./dashboard-grid.css";
+
+const ResponsiveGridLayout = WidthProvider(Responsive);
+
+interface CustomDashboardGridProps {
+  organizationId: string;
+  widgets: DashboardWidgetInstance[];
+  isEditing: boolean;
+  onChange: (widgets: DashboardWidgetInstance[]) => void;
+}
+
+interface GridItemProps {
+  organizationId: string;
+  widget: DashboardWidgetInstance;
+  isEditing: boolean;
+  onRemove: () => void;
+  onDateRangeChange: (range: WidgetDateRange | undefined) => void;
+}
+
+function GridItem({ organizationId, widget, isEditing, onRemove, onDateRangeChange }: GridItemProps) {
+  const globalRange = useDashboardStore((s) => s.dateRange);
+  const definition = getWidgetDefinition(widget.type);
+  const resolved = useMemo(
+    () => resolveWidgetDateRange(widget.dateRange, globalRange),
+    [widget.dateRange, globalRange]
+  );
+
+  if (!definition) {
+    return (
+      <DashboardWidget title="Unavailable widget" onRemove={isEditing ? onRemove : undefined}>
+        <p className="text-sm text-muted-foreground">This widget is no longer available.</p>
+      </DashboardWidget>
+    );
+  }
+
+  const Icon = definition.icon;
+  return (
+    <DashboardWidget
+      title={definition.title}
+      icon={<Icon className="h-4 w-4 text-primary" />}
+      onRemove={isEditing ? onRemove : undefined}
+      actions={definition.supportsDateRange && (
+        <WidgetDateRangeMenu value={widget.dateRange} resolved={resolved} onChange={onDateRangeChange} />
+      )}
+    >
+      {/* Hooks reading useDateRange() inside the widget see its own range */}
+      <DateRangeOverrideContext.Provider value={widget.dateRange ? resolved : null}>
+        <PortalErrorBoundary>
+          <Suspense fallback={<V3LoadingState variant="chart" height={200} />}>
+            {definition.render({ organizationId, startDate: resolved.startDate, endDate: resolved.endDate })}
+          </Suspense>
+        </PortalErrorBoundary>
+      </DateRangeOverrideContext.Provider>
+    </DashboardWidget>
+  );
+}
+
+/**
+ * Controlled react-grid-layout grid for registry widgets. Positions are kept
+ * on the 12-column lg grid; smaller breakpoints are derived from it and
+ * never written back.
+ */
+export function CustomDashboardGrid({ organizationId, widgets, isEditing, onChange }: CustomDashboardGridProps) {
+  const isMobile = useIsMobile();
+  const breakpoint = useRef("lg");
+
+  // Rendered inside ClientShell, which provides the sidebar
+  const { state: sidebarState } = useSidebar();
+
+  // Recalculate the grid width once the sidebar transition finishes
+  useEffect(() => {
+    const timeout = setTimeout(() => window.dispatchEvent(new Event('resize')), 250);
+    return () => clearTimeout(timeout);
+  }, [sidebarState]);
+
+  const layouts = useMemo(() => ({
+    lg: widgets.map((w) => {
+      const size = getWidgetDefinition(w.type)?.defaultSize;
+      return { i: w.id, x: w.x, y: w.y, w: w.w, h: w.h, minW: size?.minW, minH: size?.minH };
+    }),
+  }), [widgets]);
+
+  const handleLayoutChange = (current: Layout[]) => {
+    if (!isEditing || breakpoint.current !== "lg") return;
+    const byId = new Map(current.map((l) => [l.i, l]));
+    const changed = widgets.some((w) => {
+      const l = byId.get(w.id);
+      return l && (l.x !== w.x || l.y !== w.y || l.w !== w.w || l.h !== w.h);
+    });
+    if (!changed) return;
+    onChange(widgets.map((w) => {
+      const l = byId.get(w.id);
+      return l ? { ...w, x: l.x, y: l.y, w: l.w, h: l.h } : w;
+    }));
+  };
+
+  const removeWidget = (id: string) => onChange(widgets.filter((w) => w.id !== id));
+  const setDateRange = (id: string, dateRange: WidgetDateRange | undefined) =>
+    onChange(widgets.map((w) => {
+      if (w.id !== id) return w;
+      const { dateRange: _previous, ...rest } = w;
+      return dateRange ? { ...rest, dateRange } : rest;
+    }));
+
+  const renderItem = (widget: DashboardWidgetInstance) => (
+    <GridItem
+      organizationId={organizationId}
+      widget={widget}
+      isEditing={isEditing}
+      onRemove={() => removeWidget(widget.id)}
+      onDateRangeChange={(range) => setDateRange(widget.id, range)}
+    />
+  );
+
+  // Mobile: stacked in reading order
+  if (isMobile) {
+    const ordered = [...widgets].sort((a, b) => a.y - b.y || a.x - b.x);
+    return (
+      <div className="space-y-4">
+        {ordered.map((widget) => (
+          <div key={widget.id} className="w-full" style={{ minHeight: widget.h * 80 }}>
+            {renderItem(widget)}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className={isEditing ? "ring-2 ring-primary/20 ring-offset-2 rounded-lg p-1" : undefined}>
+      <ResponsiveGridLayout
+        className="layout"
+        layouts={layouts}
+        breakpoints={{ lg: 1200, md: 996, sm: 768, xs: 480, xxs: 0 }}
+        cols={{ lg: GRID_COLUMNS, md: 10, sm: 6, xs: 4, xxs: 2 }}
+        rowHeight={80}
+        onBreakpointChange={(next) => { breakpoint.current = next; }}
+        onLayoutChange={handleLayoutChange}
+        isDraggable={isEditing}
+        isResizable={isEditing}
+        draggableHandle=".cursor-move"
+        margin={[12, 12]}
+        compactType="vertical"
+        preventCollision={false}
+        useCSSTransforms={true}
+      >
+        {widgets.map((widget) => (
+          <div key={widget.id}>
+            {renderItem(widget)}
+          </div>
+        ))}
+      </ResponsiveGridLayout>
+    </div>
+  );
+}
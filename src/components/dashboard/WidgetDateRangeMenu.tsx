@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import type { DateRange as DayPickerRange } from "react-day-picker";
+import { CalendarClock, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { describeWidgetDateRange, WIDGET_DATE_PRESETS } from "@/lib/dashboard-layouts";
+import type { DateRange } from "@/stores/dashboardStore";
+import type { WidgetDateRange } from "@/types/dashboardLayout";
+
+interface WidgetDateRangeMenuProps {
+  value: WidgetDateRange | undefined;
+  /** The range currently shown, used to seed the custom calendar */
+  resolved: DateRange;
+  onChange: (value: WidgetDateRange | undefined) => void;
+}
+
+/** Per-widget date range picker shown in the widget header */
+export function WidgetDateRangeMenu({ value, resolved, onChange }: WidgetDateRangeMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [showCalendar, setShowCalendar] = useState(false);
+  const [draft, setDraft] = useState<DayPickerRange | undefined>();
+  const label = describeWidgetDateRange(value);
+  const current = value?.preset ?? 'global';
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) setShowCalendar(false);
+  };
+
+  const handleCustomSelect = (range: DayPickerRange | undefined) => {
+    setDraft(range);
+    if (range?.from && range?.to) {
+      onChange({
+        preset: 'custom',
+        startDate: format(range.from, "yyyy-MM-dd"),
+        endDate: format(range.to, "yyyy-MM-dd"),
+      });
+      handleOpenChange(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn("h-8 gap-1.5 px-2 text-xs", label ? "text-primary" : "text-muted-foreground")}
+          aria-label="Widget date range"
+          // Keep clicks from starting a drag on the header handle
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <CalendarClock className="h-3.5 w-3.5" />
+          {label ?? "Dashboard range"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-auto p-1" onMouseDown={(e) => e.stopPropagation()}>
+        {showCalendar ? (
+          <Calendar
+            mode="range"
+            selected={draft ?? { from: parseISO(resolved.startDate), to: parseISO(resolved.endDate) }}
+            onSelect={handleCustomSelect}
+            numberOfMonths={2}
+            defaultMonth={parseISO(resolved.startDate)}
+            disabled={{ after: new Date() }}
+          />
+        ) : (
+          <div className="flex min-w-[11rem] flex-col">
+            {WIDGET_DATE_PRESETS.map((preset) => (
+              <button
+                key={preset.value}
+                type="button"
+                className="flex items-center justify-between rounded px-2 py-1.5 text-left text-sm hover:bg-muted"
+                onClick={() => {
+                  if (preset.value === 'custom') {
+                    setDraft(undefined);
+                    setShowCalendar(true);
+                    return;
+                  }
+                  onChange(preset.value === 'global' ? undefined : { preset: preset.value });
+                  handleOpenChange(false);
+                }}
+              >
+                {preset.label}
+                {current === preset.value && <Check className="h-3.5 w-3.5" />}
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,57 @@
+import { useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "sonner";
+import { AlertCard } from "@/components/client/AlertCard";
+import { V3LoadingState } from "@/components/v3";
+import { useClientAlertsQuery, useDismissAlert, useMarkAlertRead } from "@/queries";
+
+const MAX_ALERTS = 5;
+
+interface AlertsWidgetProps {
+  organizationId: string;
+  startDate: string;
+  endDate: string;
+}
+
+/**
+ * Most relevant alerts triggered in the widget's date range: unread first,
+ * then by actionable score.
+ */
+export function AlertsWidget({ organizationId, startDate, endDate }: AlertsWidgetProps) {
+  const navigate = useNavigate();
+  const { data, isLoading } = useClientAlertsQuery(organizationId);
+  const markRead = useMarkAlertRead(organizationId);
+  const dismiss = useDismissAlert(organizationId);
+
+  const alerts = useMemo(() => {
+    return (data?.alerts ?? [])
+      .filter((a) => !a.is_dismissed)
+      .filter((a) => {
+        const day = a.triggered_at.slice(0, 10);
+        return day >= startDate && day <= endDate;
+      })
+      .sort((a, b) => Number(a.is_read) - Number(b.is_read) || b.actionable_score - a.actionable_score)
+      .slice(0, MAX_ALERTS);
+  }, [data, startDate, endDate]);
+
+  if (isLoading) return <V3LoadingState variant="card" />;
+  if (alerts.length === 0) {
+    return <p className="text-sm text-[hsl(var(--portal-text-muted))]">No alerts in this range</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {alerts.map((alert) => (
+        <AlertCard
+          key={alert.id}
+          alert={alert}
+          onSelect={() => navigate("/client/alerts")}
+          onMarkRead={(id) => markRead.mutate(id, { onError: () => toast.error("Failed to mark alert as read") })}
+          onDismiss={(id) => dismiss.mutate(id, { onError: () => toast.error("Failed to dismiss alert") })}
+          isMarkingRead={markRead.isPending}
+          isDismissing={dismiss.isPending}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { ClientDashboardCharts } from "@/components/client/ClientDashboardCharts";
+import { V3LoadingState } from "@/components/v3";
+import { useDashboardMetricsV2 } from "@/hooks/useDashboardMetricsV2";
+
+interface FundraisingChartsWidgetProps {
+  organizationId: string;
+  startDate: string;
+  endDate: string;
+}
+
+export function FundraisingChartsWidget({ organizationId, startDate, endDate }: FundraisingChartsWidgetProps) {
+  const { data, isLoading } = useDashboardMetricsV2(organizationId);
+
+  if (isLoading || !data) return <V3LoadingState variant="chart" height={360} />;
+
+  return (
+    <ClientDashboardCharts
+      kpis={data.kpis}
+      timeSeries={data.timeSeries}
+      channelBreakdown={data.channelBreakdown}
+      metaSpend={data.metaSpend}
+      metaConversions={data.metaConversions}
+      smsConversions={data.smsConversions}
+      smsMessagesSent={data.smsMessagesSent}
+      directDonations={data.directDonations}
+      startDate={startDate}
+      endDate={endDate}
+    />
+  );
+}
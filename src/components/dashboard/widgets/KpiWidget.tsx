@@ -0,0 +1,59 @@
+import { useMemo } from "react";
+import { HeroKpiCard } from "@/components/client/HeroKpiCard";
+import { V3LoadingState } from "@/components/v3";
+import { useDashboardMetricsV2 } from "@/hooks/useDashboardMetricsV2";
+import { useRecurringHealthQuery } from "@/queries";
+import { buildHeroKpis } from "@/utils/buildHeroKpis";
+import type { KpiKey } from "@/stores/dashboardStore";
+
+interface KpiWidgetProps {
+  organizationId: string;
+  kpiKey: KpiKey;
+}
+
+/**
+ * A single hero KPI card. Reads the same queries as the main dashboard, so
+ * KPI widgets sharing a date range share one fetch.
+ */
+export function KpiWidget({ organizationId, kpiKey }: KpiWidgetProps) {
+  const { data, isLoading } = useDashboardMetricsV2(organizationId);
+  const { data: recurringHealth } = useRecurringHealthQuery(organizationId);
+
+  const kpi = useMemo(() => {
+    if (!data) return undefined;
+    return buildHeroKpis({
+      kpis: data.kpis,
+      prevKpis: data.prevKpis || {},
+      sparklines: data.sparklines,
+      timeSeries: data.timeSeries || [],
+      metaSpend: data.metaSpend,
+      smsSpend: data.smsSpend,
+      metaConversions: data.metaConversions,
+      smsConversions: data.smsConversions,
+      directDonations: data.directDonations,
+      attributionFallbackMode: data.attributionFallbackMode,
+      recurringHealth,
+    }).find((k) => k.kpiKey === kpiKey);
+  }, [data, recurringHealth, kpiKey]);
+
+  if (isLoading) return <V3LoadingState variant="kpi" />;
+  if (!kpi) {
+    return <p className="text-sm text-[hsl(var(--portal-text-muted))]">No data for this range</p>;
+  }
+
+  return (
+    <HeroKpiCard
+      kpiKey={kpi.kpiKey}
+      label={kpi.label}
+      value={kpi.value}
+      icon={kpi.icon}
+      trend={kpi.trend}
+      previousValue={kpi.previousValue}
+      subtitle={kpi.subtitle}
+      accent={kpi.accent}
+      sparklineData={kpi.sparklineData}
+      description={kpi.description}
+      expandable={false}
+    />
+  );
+}
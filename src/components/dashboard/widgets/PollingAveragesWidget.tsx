@@ -0,0 +1,40 @@
+import { useMemo } from "react";
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { PollingAverageCard } from "@/components/client/PollingAverageCard";
+import { V3LoadingState } from "@/components/v3";
+import { usePollingAveragesQuery } from "@/queries";
+
+const MIN_DAYS = 14;
+const MAX_RACES = 2;
+
+interface PollingAveragesWidgetProps {
+  startDate: string;
+  endDate: string;
+}
+
+/** Most recently updated race averages, trimmed to the widget's date range */
+export function PollingAveragesWidget({ startDate, endDate }: PollingAveragesWidgetProps) {
+  // Averages need a few weeks of history to show a trend, even for a one-day range
+  const days = Math.max(MIN_DAYS, differenceInCalendarDays(new Date(), parseISO(startDate)) + 1);
+  const { data: races, isLoading } = usePollingAveragesQuery({ days });
+
+  const visible = useMemo(() => {
+    return (races ?? []).slice(0, MAX_RACES).map((race) => ({
+      ...race,
+      points: race.points.filter((p) => p.average_date <= endDate),
+    }));
+  }, [races, endDate]);
+
+  if (isLoading) return <V3LoadingState variant="chart" height={220} />;
+  if (visible.length === 0) {
+    return <p className="text-sm text-[hsl(var(--portal-text-muted))]">No polling averages yet</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {visible.map((race) => (
+        <PollingAverageCard key={race.race_id} race={race} chartHeight={180} />
+      ))}
+    </div>
+  );
+}
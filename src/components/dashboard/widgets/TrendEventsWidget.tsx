@@ -0,0 +1,52 @@
+import { Link } from "react-router-dom";
+import { Zap } from "lucide-react";
+import { V3Badge, V3LoadingState } from "@/components/v3";
+import { cn } from "@/lib/utils";
+import { getDisplayLabel, getTrendStageInfo, useTrendEvents } from "@/hooks/useTrendEvents";
+
+const MAX_EVENTS = 8;
+
+/** Live trending topics; these are "right now", so the widget ignores date ranges */
+export function TrendEventsWidget() {
+  const { events, isLoading, error } = useTrendEvents({ limit: MAX_EVENTS, minConfidence: 50 });
+
+  if (isLoading) return <V3LoadingState variant="card" />;
+  if (error) return <p className="text-sm text-[hsl(var(--portal-accent-red))]">{error}</p>;
+  if (events.length === 0) {
+    return <p className="text-sm text-[hsl(var(--portal-text-muted))]">Nothing trending right now</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-[hsl(var(--portal-border))]">
+      {events.map((event) => {
+        const stage = getTrendStageInfo(event.trend_stage);
+        return (
+          <li key={event.id} className="flex items-center justify-between gap-3 py-2">
+            <div className="min-w-0">
+              <p className="truncate text-sm font-medium text-[hsl(var(--portal-text-primary))]">
+                {getDisplayLabel(event)}
+              </p>
+              <p className="text-xs text-[hsl(var(--portal-text-muted))]">
+                {event.source_count} sources • {event.current_24h} mentions in 24h
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-1.5">
+              {event.is_breaking && (
+                <V3Badge variant="red">
+                  <Zap className="h-3 w-3 mr-1" />
+                  Breaking
+                </V3Badge>
+              )}
+              <span className={cn("rounded px-1.5 py-0.5 text-xs", stage.color, stage.bgColor)}>{stage.label}</span>
+            </div>
+          </li>
+        );
+      })}
+      <li className="pt-2 text-right">
+        <Link to="/client/news-trends" className="text-xs text-[hsl(var(--portal-accent-blue))] hover:underline">
+          All trends
+        </Link>
+      </li>
+    </ul>
+  );
+}
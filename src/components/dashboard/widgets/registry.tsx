@@ -0,0 +1,228 @@
+import { lazy, type ReactNode } from "react";
+import {
+  AlertTriangle,
+  BarChart3,
+  CalendarClock,
+  DollarSign,
+  Flame,
+  LineChart,
+  Mail,
+  MessageSquare,
+  Repeat,
+  Search,
+  Sparkles,
+  TrendingUp,
+  Undo2,
+  Users,
+  Vote,
+  type LucideIcon,
+} from "lucide-react";
+import type { KpiKey } from "@/stores/dashboardStore";
+import { KpiWidget } from "./KpiWidget";
+import { AlertsWidget } from "./AlertsWidget";
+import { TrendEventsWidget } from "./TrendEventsWidget";
+import { PollingAveragesWidget } from "./PollingAveragesWidget";
+import { FundraisingChartsWidget } from "./FundraisingChartsWidget";
+
+// Chart widgets are heavy; load them only when placed on a layout
+const DonationHeatmap = lazy(() => import("@/components/client/DonationHeatmap"));
+const EnhancedMetaAdsMetrics = lazy(() => import("@/components/client/EnhancedMetaAdsMetrics"));
+const EnhancedSMSMetrics = lazy(() => import("@/components/client/EnhancedSMSMetrics"));
+const EmailMetrics = lazy(() => import("@/components/client/EmailMetrics"));
+const GoogleAdsMetrics = lazy(() => import("@/components/client/GoogleAdsMetrics"));
+const TopCreativesSection = lazy(() => import("@/components/client/TopCreativesSection"));
+const RecurringDonorHealth = lazy(() =>
+  import("@/components/client/RecurringDonorHealth").then((m) => ({ default: m.RecurringDonorHealth }))
+);
+const DonorIntelligenceSummary = lazy(() =>
+  import("@/components/client/DonorIntelligenceSummary").then((m) => ({ default: m.DonorIntelligenceSummary }))
+);
+
+export type WidgetCategory = 'kpi' | 'chart' | 'trend' | 'alert';
+
+export interface WidgetRenderProps {
+  organizationId: string;
+  /** The widget's resolved range (its override, or the dashboard range) */
+  startDate: string;
+  endDate: string;
+}
+
+export interface WidgetDefinition {
+  type: string;
+  title: string;
+  description: string;
+  category: WidgetCategory;
+  icon: LucideIcon;
+  defaultSize: { w: number; h: number; minW: number; minH: number };
+  /** false for live feeds that have no notion of a date range */
+  supportsDateRange: boolean;
+  render: (props: WidgetRenderProps) => ReactNode;
+}
+
+export const WIDGET_CATEGORY_LABELS: Record<WidgetCategory, string> = {
+  kpi: 'KPI cards',
+  chart: 'Charts',
+  trend: 'Trends',
+  alert: 'Alerts',
+};
+
+const KPI_SIZE = { w: 2, h: 2, minW: 2, minH: 2 };
+
+function kpiWidget(kpiKey: KpiKey, title: string, description: string, icon: LucideIcon): WidgetDefinition {
+  return {
+    type: `kpi.${kpiKey}`,
+    title,
+    description,
+    category: 'kpi',
+    icon,
+    defaultSize: KPI_SIZE,
+    supportsDateRange: true,
+    render: ({ organizationId }) => <KpiWidget organizationId={organizationId} kpiKey={kpiKey} />,
+  };
+}
+
+const WIDGETS: WidgetDefinition[] = [
+  // KPI cards (the hero KPIs from the main dashboard)
+  kpiWidget('netRevenue', 'Net Revenue', 'Donations after fees and refunds', DollarSign),
+  kpiWidget('netRoi', 'Net ROI', 'Attributed net revenue over paid spend', TrendingUp),
+  kpiWidget('refundRate', 'Refund Rate', 'Refunds as a share of gross', Undo2),
+  kpiWidget('currentMrr', 'Current MRR', 'Active recurring revenue per month', Repeat),
+  kpiWidget('newMrr', 'New MRR', 'Recurring revenue added in the range', Sparkles),
+  kpiWidget('uniqueDonors', 'Unique Donors', 'Distinct donors in the range', Users),
+
+  // Charts
+  {
+    type: 'chart.fundraising',
+    title: 'Fundraising Performance',
+    description: 'Daily donations, channel performance and conversion sources',
+    category: 'chart',
+    icon: LineChart,
+    defaultSize: { w: 12, h: 9, minW: 6, minH: 6 },
+    supportsDateRange: true,
+    render: (props) => <FundraisingChartsWidget {...props} />,
+  },
+  {
+    type: 'chart.donationHeatmap',
+    title: 'Donation Heatmap',
+    description: 'Donations by day of week and hour',
+    category: 'chart',
+    icon: CalendarClock,
+    defaultSize: { w: 12, h: 6, minW: 6, minH: 4 },
+    supportsDateRange: true,
+    render: (props) => <DonationHeatmap {...props} />,
+  },
+  {
+    type: 'chart.recurringHealth',
+    title: 'Recurring Donor Health',
+    description: 'Active recurring donors, churn and upsell',
+    category: 'chart',
+    icon: Repeat,
+    defaultSize: { w: 6, h: 6, minW: 4, minH: 4 },
+    supportsDateRange: true,
+    render: (props) => <RecurringDonorHealth {...props} />,
+  },
+  {
+    type: 'chart.donorIntelligence',
+    title: 'Donor Intelligence',
+    description: 'Segments, attribution and lifetime value summary',
+    category: 'chart',
+    icon: Users,
+    defaultSize: { w: 6, h: 6, minW: 4, minH: 4 },
+    supportsDateRange: true,
+    render: (props) => <DonorIntelligenceSummary {...props} />,
+  },
+  {
+    type: 'chart.metaAds',
+    title: 'Meta Ads',
+    description: 'Spend, ROAS and campaign performance',
+    category: 'chart',
+    icon: BarChart3,
+    defaultSize: { w: 6, h: 8, minW: 4, minH: 5 },
+    supportsDateRange: true,
+    render: (props) => <EnhancedMetaAdsMetrics {...props} />,
+  },
+  {
+    type: 'chart.sms',
+    title: 'SMS',
+    description: 'Messages sent, cost and SMS-attributed revenue',
+    category: 'chart',
+    icon: MessageSquare,
+    defaultSize: { w: 6, h: 8, minW: 4, minH: 5 },
+    supportsDateRange: true,
+    render: (props) => <EnhancedSMSMetrics {...props} />,
+  },
+  {
+    type: 'chart.email',
+    title: 'Email',
+    description: 'Mailing opens, clicks and revenue',
+    category: 'chart',
+    icon: Mail,
+    defaultSize: { w: 6, h: 6, minW: 4, minH: 4 },
+    supportsDateRange: true,
+    render: (props) => <EmailMetrics {...props} />,
+  },
+  {
+    type: 'chart.googleAds',
+    title: 'Google Ads',
+    description: 'Spend, clicks and conversions',
+    category: 'chart',
+    icon: Search,
+    defaultSize: { w: 6, h: 6, minW: 4, minH: 4 },
+    supportsDateRange: true,
+    render: (props) => <GoogleAdsMetrics {...props} />,
+  },
+  {
+    type: 'chart.topCreatives',
+    title: 'Top Creatives',
+    description: 'Best performing ads by ROAS',
+    category: 'chart',
+    icon: Sparkles,
+    defaultSize: { w: 6, h: 6, minW: 4, minH: 4 },
+    supportsDateRange: true,
+    render: (props) => <TopCreativesSection {...props} />,
+  },
+
+  // Trends
+  {
+    type: 'trend.events',
+    title: 'Trending Now',
+    description: 'Topics trending across news and social',
+    category: 'trend',
+    icon: Flame,
+    defaultSize: { w: 6, h: 5, minW: 3, minH: 3 },
+    supportsDateRange: false,
+    render: () => <TrendEventsWidget />,
+  },
+  {
+    type: 'trend.pollingAverages',
+    title: 'Polling Averages',
+    description: 'Latest race averages with noise bands',
+    category: 'trend',
+    icon: Vote,
+    defaultSize: { w: 6, h: 7, minW: 4, minH: 5 },
+    supportsDateRange: true,
+    render: ({ startDate, endDate }) => <PollingAveragesWidget startDate={startDate} endDate={endDate} />,
+  },
+
+  // Alerts
+  {
+    type: 'alert.client',
+    title: 'Alerts',
+    description: 'Watchlist and trend alerts for your organization',
+    category: 'alert',
+    icon: AlertTriangle,
+    defaultSize: { w: 6, h: 5, minW: 3, minH: 3 },
+    supportsDateRange: true,
+    render: (props) => <AlertsWidget {...props} />,
+  },
+];
+
+export const WIDGET_REGISTRY: ReadonlyMap<string, WidgetDefinition> = new Map(WIDGETS.map((w) => [w.type, w]));
+
+export function getWidgetDefinition(type: string): WidgetDefinition | undefined {
+  return WIDGET_REGISTRY.get(type);
+}
+
+export function listWidgetDefinitions(): WidgetDefinition[] {
+  return WIDGETS;
+}
@@ -7,12 +7,20 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { Bell, Mail, Smartphone } from "lucide-react";
+import {
+  PUSH_ALERT_TYPE_OPTIONS,
+  isPushSupported,
+  subscribeToPush,
+  unsubscribeFromPush,
+  type PushAlertType,
+} from "@/lib/webPush";
 
 export function NotificationSettings() {
   const [preferences, setPreferences] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [pushSupported, setPushSupported] = useState(false);
+  const [pushUpdating, setPushUpdating] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -21,7 +29,7 @@ export function NotificationSettings() {
   }, []);
 
   const checkPushSupport = () => {
-    setPushSupported('serviceWorker' in navigator && 'PushManager' in window);
+    setPushSupported(isPushSupported());
   };
 
   const loadPreferences = async () => {
@@ -102,6 +110,38 @@ export function NotificationSettings() {
     setPreferences((prev: any) => ({ ...prev, [key]: value }));
   };
 
+  // Subscribing needs the permission prompt, so it happens right away rather than on save
+  const togglePush = async (enabled: boolean) => {
+    try {
+      setPushUpdating(true);
+      if (enabled) {
+        const { data: { user } } = await supabase.auth.getUser();
+        if (!user) return;
+        await subscribeToPush(user.id);
+      } else {
+        await unsubscribeFromPush();
+      }
+      updatePreference('push_notifications', enabled);
+    } catch (error) {
+      console.error('Error updating push subscription:', error);
+      toast({
+        title: "Couldn't enable push notifications",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setPushUpdating(false);
+    }
+  };
+
+  const togglePushAlertType = (alertType: PushAlertType, enabled: boolean) => {
+    const current: string[] = preferences.push_alert_types ?? [];
+    updatePreference(
+      'push_alert_types',
+      enabled ? [...new Set([...current, alertType])] : current.filter((t) => t !== alertType)
+    );
+  };
+
   if (loading) {
     return <div className="text-center py-8">Loading preferences...</div>;
   }
@@ -203,16 +243,35 @@ export function NotificationSettings() {
               : "Push notifications are not supported in your browser"}
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
           <div className="flex items-center justify-between">
             <Label htmlFor="push-notifications">Enable push notifications</Label>
             <Switch
               id="push-notifications"
               checked={preferences.push_notifications}
-              onCheckedChange={(checked) => updatePreference('push_notifications', checked)}
-              disabled={!pushSupported}
+              onCheckedChange={togglePush}
+              disabled={!pushSupported || pushUpdating}
             />
           </div>
+
+          {pushSupported && preferences.push_notifications && (
+            <>
+              <p className="text-sm text-muted-foreground">Push these alerts to your devices:</p>
+              {PUSH_ALERT_TYPE_OPTIONS.map((option) => (
+                <div key={option.value} className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor={`push-${option.value}`}>{option.label}</Label>
+                    <p className="text-xs text-muted-foreground">{option.description}</p>
+                  </div>
+                  <Switch
+                    id={`push-${option.value}`}
+                    checked={(preferences.push_alert_types ?? []).includes(option.value)}
+                    onCheckedChange={(checked) => togglePushAlertType(option.value, checked)}
+                  />
+                </div>
+              ))}
+            </>
+          )}
           {!pushSupported && (
             <p className="text-sm text-muted-foreground mt-2">
               Try using Chrome, Firefox, or Edge for push notification support
@@ -57,14 +57,16 @@ export function ExportDialog({
 
       if (error) throw error;
 
-      // Create download
-      const blob = new Blob([data], {
-        type: format === "csv" ? "text/csv" : format === "json" ? "application/json" : "text/html",
-      });
+      // PDFs come back as a Blob, JSON already parsed and CSV as text
+      const blob = data instanceof Blob
+        ? data
+        : new Blob([format === "json" && typeof data !== "string" ? JSON.stringify(data, null, 2) : data], {
+          type: format === "csv" ? "text/csv" : format === "json" ? "application/json" : "application/pdf",
+        });
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = `${reportType}_${startDate.toISOString().split("T")[0]}_${endDate.toISOString().split("T")[0]}.${format === "pdf" ? "html" : format}`;
+      a.download = `${reportType}_${startDate.toISOString().split("T")[0]}_${endDate.toISOString().split("T")[0]}.${format}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -0,0 +1,94 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AttributionModelName =
+  | "first_touch"
+  | "last_touch"
+  | "linear"
+  | "position_based"
+  | "time_decay";
+
+export type ModelCredits = Record<AttributionModelName, number>;
+
+export interface AttributionModelOptions {
+  startDate: string;
+  endDate: string;
+  lookbackDays?: number;
+  halfLifeDays?: number;
+}
+
+export interface AttributionModelsResult {
+  modelResults: Record<string, ModelCredits>;
+  channelResults: Record<string, ModelCredits>;
+  modelTotals: ModelCredits;
+  config: {
+    lookbackDays: number;
+    halfLifeDays: number;
+    positionEndpointShare: number;
+  };
+  transactionCount: number;
+  multiTouchCount: number;
+  avgTouchpointsPerJourney: number;
+}
+
+export const ATTRIBUTION_MODEL_LABELS: Record<AttributionModelName, string> = {
+  first_touch: "First Touch",
+  last_touch: "Last Touch",
+  linear: "Linear",
+  position_based: "Position-Based",
+  time_decay: "Time Decay",
+};
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+export const attributionModelKeys = {
+  all: ["attributionModels"] as const,
+  byOrg: (orgId: string, options: AttributionModelOptions) =>
+    [...attributionModelKeys.all, orgId, options] as const,
+};
+
+// ============================================================================
+// Fetch Function
+// ============================================================================
+
+async function fetchAttributionModels(
+  organizationId: string,
+  options: AttributionModelOptions
+): Promise<AttributionModelsResult> {
+  const { data, error } = await supabase.functions.invoke("calculate-attribution-models", {
+    body: {
+      organizationId,
+      startDate: options.startDate,
+      endDate: options.endDate,
+      lookbackDays: options.lookbackDays,
+      halfLifeDays: options.halfLifeDays,
+    },
+  });
+
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+
+  return data as AttributionModelsResult;
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+export function useAttributionModels(
+  organizationId: string | undefined,
+  options: AttributionModelOptions
+) {
+  return useQuery({
+    queryKey: attributionModelKeys.byOrg(organizationId || "", options),
+    queryFn: () => fetchAttributionModels(organizationId!, options),
+    enabled: !!organizationId,
+    staleTime: 10 * 60 * 1000, // 10 minutes - server-side journey rebuild is expensive
+  });
+}
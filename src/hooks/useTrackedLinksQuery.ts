@@ -0,0 +1,246 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TrackedLinkVariant {
+  id: string;
+  link_id: string;
+  label: string;
+  actblue_form: string;
+  amounts: number[] | null;
+  default_amount: number | null;
+  recurring: boolean;
+  refcode: string | null;
+  weight: number;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface TrackedLink {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  created_at: string;
+  variants: TrackedLinkVariant[];
+}
+
+export interface LinkVariantMetrics {
+  linkId: string;
+  variantId: string;
+  clicks: number;
+  uniqueVisitors: number;
+  conversions: number;
+  revenue: number;
+  conversionRate: number;
+}
+
+export interface TrackedLinkInput {
+  slug: string;
+  name: string;
+  description?: string | null;
+}
+
+export type TrackedLinkVariantInput = Pick<
+  TrackedLinkVariant,
+  "label" | "actblue_form" | "amounts" | "default_amount" | "recurring" | "refcode" | "weight"
+>;
+
+const LINKS_KEY = "tracked-links";
+const METRICS_KEY = "tracked-link-variant-metrics";
+
+const VARIANT_COLUMNS = "id, link_id, label, actblue_form, amounts, default_amount, recurring, refcode, weight, is_active, created_at";
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+export function useTrackedLinksQuery(organizationId: string | undefined) {
+  return useQuery({
+    queryKey: [LINKS_KEY, organizationId],
+    queryFn: async (): Promise<TrackedLink[]> => {
+      const { data, error } = await supabase
+        .from("tracked_links")
+        .select(`id, slug, name, description, is_active, created_at, tracked_link_variants(${VARIANT_COLUMNS})`)
+        .eq("organization_id", organizationId!)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(({ tracked_link_variants, ...link }) => ({
+        ...link,
+        // Oldest first: the first variant is the control for comparisons
+        variants: [...(tracked_link_variants || [])].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+      }));
+    },
+    enabled: !!organizationId,
+    staleTime: 60 * 1000,
+  });
+}
+
+// Org slug for building /r/:org/l/:link URLs
+export function useOrganizationSlugQuery(organizationId: string | undefined) {
+  return useQuery({
+    queryKey: ["organization-slug", organizationId],
+    queryFn: async (): Promise<string | null> => {
+      const { data, error } = await supabase
+        .from("client_organizations")
+        .select("slug")
+        .eq("id", organizationId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data?.slug ?? null;
+    },
+    enabled: !!organizationId,
+    staleTime: 30 * 60 * 1000,
+  });
+}
+
+export function useLinkVariantMetricsQuery(
+  organizationId: string | undefined,
+  startDate: string,
+  endDate: string
+) {
+  return useQuery({
+    queryKey: [METRICS_KEY, organizationId, startDate, endDate],
+    queryFn: async (): Promise<Record<string, LinkVariantMetrics>> => {
+      const { data, error } = await supabase.rpc("get_link_variant_metrics", {
+        p_organization_id: organizationId!,
+        p_start_date: startDate,
+        p_end_date: endDate,
+      });
+
+      if (error) throw error;
+
+      const byVariant: Record<string, LinkVariantMetrics> = {};
+      for (const row of data || []) {
+        const clicks = Number(row.clicks) || 0;
+        const visitors = Number(row.unique_visitors) || 0;
+        const conversions = Number(row.conversions) || 0;
+        byVariant[row.variant_id] = {
+          linkId: row.link_id,
+          variantId: row.variant_id,
+          clicks,
+          uniqueVisitors: visitors,
+          conversions,
+          revenue: Number(row.revenue) || 0,
+          conversionRate: visitors > 0 ? (conversions / visitors) * 100 : 0,
+        };
+      }
+      return byVariant;
+    },
+    enabled: !!organizationId,
+    staleTime: 2 * 60 * 1000,
+  });
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+export function useCreateTrackedLinkMutation(organizationId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ link, variants }: { link: TrackedLinkInput; variants: TrackedLinkVariantInput[] }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { data: created, error } = await supabase
+        .from("tracked_links")
+        .insert({
+          organization_id: organizationId!,
+          slug: link.slug,
+          name: link.name,
+          description: link.description ?? null,
+          created_by: user?.id ?? null,
+        })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      if (variants.length > 0) {
+        const { error: variantsError } = await supabase
+          .from("tracked_link_variants")
+          .insert(variants.map(v => ({ ...v, link_id: created.id, organization_id: organizationId! })));
+
+        if (variantsError) throw variantsError;
+      }
+
+      return created.id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [LINKS_KEY, organizationId] });
+    },
+  });
+}
+
+export function useUpdateTrackedLinkMutation(organizationId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<TrackedLinkInput> & { is_active?: boolean } }) => {
+      const { error } = await supabase.from("tracked_links").update(updates).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [LINKS_KEY, organizationId] });
+    },
+  });
+}
+
+export function useDeleteTrackedLinkMutation(organizationId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("tracked_links").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [LINKS_KEY, organizationId] });
+    },
+  });
+}
+
+export function useAddTrackedLinkVariantMutation(organizationId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ linkId, variant }: { linkId: string; variant: TrackedLinkVariantInput }) => {
+      const { error } = await supabase
+        .from("tracked_link_variants")
+        .insert({ ...variant, link_id: linkId, organization_id: organizationId! });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [LINKS_KEY, organizationId] });
+    },
+  });
+}
+
+// Weight changes only affect new visitors; existing assignments are sticky
+export function useUpdateTrackedLinkVariantMutation(organizationId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      updates,
+    }: {
+      id: string;
+      updates: Partial<TrackedLinkVariantInput> & { is_active?: boolean };
+    }) => {
+      const { error } = await supabase.from("tracked_link_variants").update(updates).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [LINKS_KEY, organizationId] });
+    },
+  });
+}
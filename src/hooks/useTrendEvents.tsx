@@ -46,6 +46,9 @@ export interface TrendEvent {
     meets_volume_gate?: boolean;
     cluster_size?: number;
     authority_score?: number;
+    by_source?: Partial<Record<'rss' | 'google_news' | 'bluesky' | 'reddit', number>>;
+    reddit_baseline_7d?: number;
+    reddit_velocity?: number | null;
   } | null;
   is_trending: boolean;
   is_breaking: boolean;
@@ -122,7 +125,7 @@ export const getDisplayLabel = (event: TrendEvent): string => {
 export interface TrendEvidence {
   id: string;
   event_id: string;
-  source_type: 'rss' | 'google_news' | 'bluesky' | 'article';
+  source_type: 'rss' | 'google_news' | 'bluesky' | 'reddit' | 'article';
   source_url: string | null;
   source_title: string | null;
   source_domain: string | null;
@@ -14,6 +14,50 @@ export type Database = {
   }
   public: {
     Tables: {
+      ab_test_traffic: {
+        Row: {
+          ab_test_name: string
+          ab_test_variation: string
+          created_at: string
+          id: string
+          organization_id: string
+          source: string
+          updated_at: string
+          updated_by: string | null
+          visitors: number
+        }
+        Insert: {
+          ab_test_name: string
+          ab_test_variation?: string
+          created_at?: string
+          id?: string
+          organization_id: string
+          source?: string
+          updated_at?: string
+          updated_by?: string | null
+          visitors: number
+        }
+        Update: {
+          ab_test_name?: string
+          ab_test_variation?: string
+          created_at?: string
+          id?: string
+          organization_id?: string
+          source?: string
+          updated_at?: string
+          updated_by?: string | null
+          visitors?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ab_test_traffic_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       account_lockouts: {
         Row: {
           created_at: string
@@ -145,6 +189,7 @@ export type Database = {
         Row: {
           ab_test_name: string | null
           ab_test_variation: string | null
+          actblue_donor_id: string | null
           addr1: string | null
           amount: number
           card_type: string | null
@@ -163,6 +208,7 @@ export type Database = {
           fbclid: string | null
           fec_id: string | null
           fee: number | null
+          gclid: string | null
           first_name: string | null
           id: string
           is_express: boolean | null
@@ -189,6 +235,7 @@ export type Database = {
           refcode2: string | null
           smart_boost_amount: number | null
           source_campaign: string | null
+          split_lineitem_count: number
           state: string | null
           text_message_option: string | null
           transaction_date: string
@@ -199,6 +246,7 @@ export type Database = {
         Insert: {
           ab_test_name?: string | null
           ab_test_variation?: string | null
+          actblue_donor_id?: string | null
           addr1?: string | null
           amount: number
           card_type?: string | null
@@ -217,6 +265,7 @@ export type Database = {
           fbclid?: string | null
           fec_id?: string | null
           fee?: number | null
+          gclid?: string | null
           first_name?: string | null
           id?: string
           is_express?: boolean | null
@@ -243,6 +292,7 @@ export type Database = {
           refcode2?: string | null
           smart_boost_amount?: number | null
           source_campaign?: string | null
+          split_lineitem_count?: number
           state?: string | null
           text_message_option?: string | null
           transaction_date: string
@@ -253,6 +303,7 @@ export type Database = {
         Update: {
           ab_test_name?: string | null
           ab_test_variation?: string | null
+          actblue_donor_id?: string | null
           addr1?: string | null
           amount?: number
           card_type?: string | null
@@ -271,6 +322,7 @@ export type Database = {
           fbclid?: string | null
           fec_id?: string | null
           fee?: number | null
+          gclid?: string | null
           first_name?: string | null
           id?: string
           is_express?: boolean | null
@@ -297,6 +349,7 @@ export type Database = {
           refcode2?: string | null
           smart_boost_amount?: number | null
           source_campaign?: string | null
+          split_lineitem_count?: number
           state?: string | null
           text_message_option?: string | null
           transaction_date?: string
@@ -1023,6 +1076,7 @@ export type Database = {
           source_id: string | null
           source_name: string
           source_url: string
+          story_cluster_id: string | null
           tags: string[] | null
           threat_level: string | null
           title: string
@@ -1066,6 +1120,7 @@ export type Database = {
           source_id?: string | null
           source_name: string
           source_url: string
+          story_cluster_id?: string | null
           tags?: string[] | null
           threat_level?: string | null
           title: string
@@ -1109,6 +1164,7 @@ export type Database = {
           source_id?: string | null
           source_name?: string
           source_url?: string
+          story_cluster_id?: string | null
           tags?: string[] | null
           threat_level?: string | null
           title?: string
@@ -1133,6 +1189,13 @@ export type Database = {
             referencedRelation: "rss_sources"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "articles_story_cluster_id_fkey"
+            columns: ["story_cluster_id"]
+            isOneToOne: false
+            referencedRelation: "story_clusters"
+            referencedColumns: ["id"]
+          },
         ]
       }
       articles_archive: {
@@ -1665,6 +1728,50 @@ export type Database = {
           },
         ]
       }
+      bill_alert_events: {
+        Row: {
+          bill_id: string
+          created_at: string
+          event_key: string
+          event_type: string
+          id: string
+          message: string
+          notified_count: number
+          occurred_at: string
+          title: string
+        }
+        Insert: {
+          bill_id: string
+          created_at?: string
+          event_key: string
+          event_type: string
+          id?: string
+          message: string
+          notified_count?: number
+          occurred_at: string
+          title: string
+        }
+        Update: {
+          bill_id?: string
+          created_at?: string
+          event_key?: string
+          event_type?: string
+          id?: string
+          message?: string
+          notified_count?: number
+          occurred_at?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_alert_events_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bill_alerts: {
         Row: {
           alert_type: string
@@ -1703,6 +1810,156 @@ export type Database = {
           },
         ]
       }
+      bill_member_votes: {
+        Row: {
+          bioguide_id: string | null
+          member_id: string
+          member_name: string
+          party: string | null
+          position: string
+          roll_call_id: string
+          state: string | null
+        }
+        Insert: {
+          bioguide_id?: string | null
+          member_id: string
+          member_name: string
+          party?: string | null
+          position: string
+          roll_call_id: string
+          state?: string | null
+        }
+        Update: {
+          bioguide_id?: string | null
+          member_id?: string
+          member_name?: string
+          party?: string | null
+          position?: string
+          roll_call_id?: string
+          state?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_member_votes_roll_call_id_fkey"
+            columns: ["roll_call_id"]
+            isOneToOne: false
+            referencedRelation: "bill_roll_call_votes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bill_roll_call_votes: {
+        Row: {
+          bill_id: string
+          chamber: string
+          congress: number
+          created_at: string
+          id: string
+          nay_count: number
+          not_voting_count: number
+          party_totals: Json
+          present_count: number
+          question: string | null
+          result: string | null
+          roll_number: number
+          session: number
+          source_url: string
+          vote_date: string | null
+          yea_count: number
+        }
+        Insert: {
+          bill_id: string
+          chamber: string
+          congress: number
+          created_at?: string
+          id?: string
+          nay_count?: number
+          not_voting_count?: number
+          party_totals?: Json
+          present_count?: number
+          question?: string | null
+          result?: string | null
+          roll_number: number
+          session: number
+          source_url: string
+          vote_date?: string | null
+          yea_count?: number
+        }
+        Update: {
+          bill_id?: string
+          chamber?: string
+          congress?: number
+          created_at?: string
+          id?: string
+          nay_count?: number
+          not_voting_count?: number
+          party_totals?: Json
+          present_count?: number
+          question?: string | null
+          result?: string | null
+          roll_number?: number
+          session?: number
+          source_url?: string
+          vote_date?: string | null
+          yea_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_roll_call_votes_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bill_text_versions: {
+        Row: {
+          bill_id: string
+          created_at: string
+          id: string
+          pdf_url: string | null
+          stage: string
+          text_content: string | null
+          text_url: string | null
+          version_code: string
+          version_date: string | null
+          version_name: string
+        }
+        Insert: {
+          bill_id: string
+          created_at?: string
+          id?: string
+          pdf_url?: string | null
+          stage?: string
+          text_content?: string | null
+          text_url?: string | null
+          version_code: string
+          version_date?: string | null
+          version_name: string
+        }
+        Update: {
+          bill_id?: string
+          created_at?: string
+          id?: string
+          pdf_url?: string | null
+          stage?: string
+          text_content?: string | null
+          text_url?: string | null
+          version_code?: string
+          version_date?: string | null
+          version_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bill_text_versions_bill_id_fkey"
+            columns: ["bill_id"]
+            isOneToOne: false
+            referencedRelation: "bills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bills: {
         Row: {
           bill_number: string
@@ -1900,6 +2157,7 @@ export type Database = {
           quote_of: string | null
           relevance_category: string | null
           reply_to: string | null
+          story_cluster_id: string | null
           text: string | null
           urls: string[] | null
           validation_errors: string[] | null
@@ -1928,6 +2186,7 @@ export type Database = {
           quote_of?: string | null
           relevance_category?: string | null
           reply_to?: string | null
+          story_cluster_id?: string | null
           text?: string | null
           urls?: string[] | null
           validation_errors?: string[] | null
@@ -1956,6 +2215,7 @@ export type Database = {
           quote_of?: string | null
           relevance_category?: string | null
           reply_to?: string | null
+          story_cluster_id?: string | null
           text?: string | null
           urls?: string[] | null
           validation_errors?: string[] | null
@@ -2201,6 +2461,7 @@ export type Database = {
           last_updated_at: string
           resolved_at: string | null
           severity: string
+          story_cluster_id: string | null
           summary: string | null
           threat_level: number | null
         }
@@ -2216,6 +2477,7 @@ export type Database = {
           last_updated_at?: string
           resolved_at?: string | null
           severity?: string
+          story_cluster_id?: string | null
           summary?: string | null
           threat_level?: number | null
         }
@@ -2231,6 +2493,7 @@ export type Database = {
           last_updated_at?: string
           resolved_at?: string | null
           severity?: string
+          story_cluster_id?: string | null
           summary?: string | null
           threat_level?: number | null
         }
@@ -2286,6 +2549,20 @@ export type Database = {
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "bluesky_posts_story_cluster_id_fkey"
+            columns: ["story_cluster_id"]
+            isOneToOne: false
+            referencedRelation: "story_clusters"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "breaking_news_clusters_story_cluster_id_fkey"
+            columns: ["story_cluster_id"]
+            isOneToOne: false
+            referencedRelation: "story_clusters"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "fk_campaign_analytics_org"
             columns: ["organization_id"]
@@ -3163,6 +3440,9 @@ export type Database = {
         Row: {
           calculated_at: string | null
           date: string
+          google_ads_clicks: number | null
+          google_ads_impressions: number | null
+          google_ads_spend: number | null
           id: string
           meta_clicks: number | null
           meta_impressions: number | null
@@ -3179,6 +3459,9 @@ export type Database = {
         Insert: {
           calculated_at?: string | null
           date: string
+          google_ads_clicks?: number | null
+          google_ads_impressions?: number | null
+          google_ads_spend?: number | null
           id?: string
           meta_clicks?: number | null
           meta_impressions?: number | null
@@ -3195,6 +3478,9 @@ export type Database = {
         Update: {
           calculated_at?: string | null
           date?: string
+          google_ads_clicks?: number | null
+          google_ads_impressions?: number | null
+          google_ads_spend?: number | null
           id?: string
           meta_clicks?: number | null
           meta_impressions?: number | null
@@ -3367,6 +3653,120 @@ export type Database = {
         }
         Relationships: []
       }
+      dashboard_home_preferences: {
+        Row: {
+          audience: string
+          layout_id: string | null
+          organization_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          audience?: string
+          layout_id?: string | null
+          organization_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          audience?: string
+          layout_id?: string | null
+          organization_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dashboard_home_preferences_layout_id_fkey"
+            columns: ["layout_id"]
+            isOneToOne: false
+            referencedRelation: "dashboard_layouts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dashboard_home_preferences_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dashboard_home_preferences_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "dashboard_home_preferences_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
+      dashboard_layouts: {
+        Row: {
+          audience: string
+          created_at: string
+          created_by: string | null
+          id: string
+          is_default: boolean
+          name: string
+          organization_id: string
+          updated_at: string
+          user_id: string | null
+          widgets: Json
+        }
+        Insert: {
+          audience?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          organization_id: string
+          updated_at?: string
+          user_id?: string | null
+          widgets?: Json
+        }
+        Update: {
+          audience?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_default?: boolean
+          name?: string
+          organization_id?: string
+          updated_at?: string
+          user_id?: string | null
+          widgets?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dashboard_layouts_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dashboard_layouts_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "dashboard_layouts_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
       data_deletion_requests: {
         Row: {
           cancelled_at: string | null
@@ -3765,6 +4165,7 @@ export type Database = {
           occupation: string | null
           organization_id: string | null
           party_affiliation: string | null
+          person_id: string | null
           phone: string | null
           state: string | null
           total_donated: number | null
@@ -3796,6 +4197,7 @@ export type Database = {
           occupation?: string | null
           organization_id?: string | null
           party_affiliation?: string | null
+          person_id?: string | null
           phone?: string | null
           state?: string | null
           total_donated?: number | null
@@ -3827,6 +4229,7 @@ export type Database = {
           occupation?: string | null
           organization_id?: string | null
           party_affiliation?: string | null
+          person_id?: string | null
           phone?: string | null
           state?: string | null
           total_donated?: number | null
@@ -3858,6 +4261,13 @@ export type Database = {
             referencedRelation: "v_integration_summary"
             referencedColumns: ["organization_id"]
           },
+          {
+            foreignKeyName: "donor_demographics_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "donor_persons"
+            referencedColumns: ["id"]
+          },
         ]
       }
       donor_demographics_cache: {
@@ -3973,31 +4383,92 @@ export type Database = {
           },
         ]
       }
-      donor_identity_links: {
+      donor_identity_events: {
         Row: {
-          confidence_score: number | null
-          created_at: string | null
-          donor_email: string | null
-          email_hash: string | null
+          actor_user_id: string | null
+          created_at: string
+          event_type: string
           id: string
+          identifiers: string[]
+          is_manual: boolean
           organization_id: string
-          phone_hash: string | null
-          source: string | null
-          updated_at: string | null
+          person_id: string
+          reason: string | null
+          related_person_ids: string[]
         }
         Insert: {
-          confidence_score?: number | null
-          created_at?: string | null
-          donor_email?: string | null
-          email_hash?: string | null
+          actor_user_id?: string | null
+          created_at?: string
+          event_type: string
           id?: string
+          identifiers?: string[]
+          is_manual?: boolean
           organization_id: string
-          phone_hash?: string | null
-          source?: string | null
-          updated_at?: string | null
+          person_id: string
+          reason?: string | null
+          related_person_ids?: string[]
         }
         Update: {
-          confidence_score?: number | null
+          actor_user_id?: string | null
+          created_at?: string
+          event_type?: string
+          id?: string
+          identifiers?: string[]
+          is_manual?: boolean
+          organization_id?: string
+          person_id?: string
+          reason?: string | null
+          related_person_ids?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "donor_identity_events_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "donor_identity_events_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "donor_identity_events_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
+      donor_identity_links: {
+        Row: {
+          confidence_score: number | null
+          created_at: string | null
+          donor_email: string | null
+          email_hash: string | null
+          id: string
+          organization_id: string
+          phone_hash: string | null
+          source: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          confidence_score?: number | null
+          created_at?: string | null
+          donor_email?: string | null
+          email_hash?: string | null
+          id?: string
+          organization_id: string
+          phone_hash?: string | null
+          source?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          confidence_score?: number | null
           created_at?: string | null
           donor_email?: string | null
           email_hash?: string | null
@@ -4031,6 +4502,61 @@ export type Database = {
           },
         ]
       }
+      donor_identity_overrides: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          identifier_a: string
+          identifier_b: string
+          organization_id: string
+          override_type: string
+          reason: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          identifier_a: string
+          identifier_b: string
+          organization_id: string
+          override_type: string
+          reason?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          identifier_a?: string
+          identifier_b?: string
+          organization_id?: string
+          override_type?: string
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "donor_identity_overrides_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "donor_identity_overrides_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "donor_identity_overrides_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
       donor_journeys: {
         Row: {
           amount: number | null
@@ -4043,6 +4569,7 @@ export type Database = {
           net_amount: number | null
           occurred_at: string
           organization_id: string
+          person_id: string | null
           refcode: string | null
           source: string | null
           transaction_id: string | null
@@ -4058,6 +4585,7 @@ export type Database = {
           net_amount?: number | null
           occurred_at: string
           organization_id: string
+          person_id?: string | null
           refcode?: string | null
           source?: string | null
           transaction_id?: string | null
@@ -4073,6 +4601,7 @@ export type Database = {
           net_amount?: number | null
           occurred_at?: string
           organization_id?: string
+          person_id?: string | null
           refcode?: string | null
           source?: string | null
           transaction_id?: string | null
@@ -4099,6 +4628,107 @@ export type Database = {
             referencedRelation: "v_integration_summary"
             referencedColumns: ["organization_id"]
           },
+          {
+            foreignKeyName: "donor_journeys_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "donor_persons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      donor_ltv_model_runs: {
+        Row: {
+          aggregate_error_pct: number | null
+          backtest_donors: number | null
+          calibration_bins: Json
+          calibration_cutoff: string | null
+          calibration_error: number | null
+          created_at: string
+          donors_scored: number
+          donors_trained: number
+          holdout_days: number | null
+          id: string
+          interval_coverage: number | null
+          is_active: boolean
+          log_likelihood: number | null
+          mean_absolute_error: number | null
+          model_version: string
+          organization_id: string
+          params: Json
+          predicted_total_365: number | null
+          predicted_total_365_high: number | null
+          predicted_total_365_low: number | null
+          trained_at: string
+        }
+        Insert: {
+          aggregate_error_pct?: number | null
+          backtest_donors?: number | null
+          calibration_bins?: Json
+          calibration_cutoff?: string | null
+          calibration_error?: number | null
+          created_at?: string
+          donors_scored?: number
+          donors_trained?: number
+          holdout_days?: number | null
+          id?: string
+          interval_coverage?: number | null
+          is_active?: boolean
+          log_likelihood?: number | null
+          mean_absolute_error?: number | null
+          model_version: string
+          organization_id: string
+          params?: Json
+          predicted_total_365?: number | null
+          predicted_total_365_high?: number | null
+          predicted_total_365_low?: number | null
+          trained_at?: string
+        }
+        Update: {
+          aggregate_error_pct?: number | null
+          backtest_donors?: number | null
+          calibration_bins?: Json
+          calibration_cutoff?: string | null
+          calibration_error?: number | null
+          created_at?: string
+          donors_scored?: number
+          donors_trained?: number
+          holdout_days?: number | null
+          id?: string
+          interval_coverage?: number | null
+          is_active?: boolean
+          log_likelihood?: number | null
+          mean_absolute_error?: number | null
+          model_version?: string
+          organization_id?: string
+          params?: Json
+          predicted_total_365?: number | null
+          predicted_total_365_high?: number | null
+          predicted_total_365_low?: number | null
+          trained_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "donor_ltv_model_runs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "donor_ltv_model_runs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "donor_ltv_model_runs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
         ]
       }
       donor_ltv_predictions: {
@@ -4109,16 +4739,24 @@ export type Database = {
           confidence_score: number | null
           created_at: string | null
           donor_key: string
+          expected_donations_365: number | null
           frequency: number | null
           id: string
+          model_run_id: string | null
           model_version: string | null
           monetary_avg: number | null
           monetary_total: number | null
           organization_id: string
+          p_alive: number | null
+          person_id: string | null
           predicted_ltv_180: number | null
           predicted_ltv_30: number | null
           predicted_ltv_365: number | null
+          predicted_ltv_365_high: number | null
+          predicted_ltv_365_low: number | null
           predicted_ltv_90: number | null
+          predicted_ltv_90_high: number | null
+          predicted_ltv_90_low: number | null
           recency_days: number | null
           rfm_score: number | null
           segment: string | null
@@ -4131,16 +4769,24 @@ export type Database = {
           confidence_score?: number | null
           created_at?: string | null
           donor_key: string
+          expected_donations_365?: number | null
           frequency?: number | null
           id?: string
+          model_run_id?: string | null
           model_version?: string | null
           monetary_avg?: number | null
           monetary_total?: number | null
           organization_id: string
+          p_alive?: number | null
+          person_id?: string | null
           predicted_ltv_180?: number | null
           predicted_ltv_30?: number | null
           predicted_ltv_365?: number | null
+          predicted_ltv_365_high?: number | null
+          predicted_ltv_365_low?: number | null
           predicted_ltv_90?: number | null
+          predicted_ltv_90_high?: number | null
+          predicted_ltv_90_low?: number | null
           recency_days?: number | null
           rfm_score?: number | null
           segment?: string | null
@@ -4153,22 +4799,37 @@ export type Database = {
           confidence_score?: number | null
           created_at?: string | null
           donor_key?: string
+          expected_donations_365?: number | null
           frequency?: number | null
           id?: string
+          model_run_id?: string | null
           model_version?: string | null
           monetary_avg?: number | null
           monetary_total?: number | null
           organization_id?: string
+          p_alive?: number | null
+          person_id?: string | null
           predicted_ltv_180?: number | null
           predicted_ltv_30?: number | null
           predicted_ltv_365?: number | null
+          predicted_ltv_365_high?: number | null
+          predicted_ltv_365_low?: number | null
           predicted_ltv_90?: number | null
+          predicted_ltv_90_high?: number | null
+          predicted_ltv_90_low?: number | null
           recency_days?: number | null
           rfm_score?: number | null
           segment?: string | null
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "donor_ltv_predictions_model_run_id_fkey"
+            columns: ["model_run_id"]
+            isOneToOne: false
+            referencedRelation: "donor_ltv_model_runs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "donor_ltv_predictions_organization_id_fkey"
             columns: ["organization_id"]
@@ -4190,162 +4851,406 @@ export type Database = {
             referencedRelation: "v_integration_summary"
             referencedColumns: ["organization_id"]
           },
+          {
+            foreignKeyName: "donor_ltv_predictions_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "donor_persons"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      email_queue: {
+      donor_person_identifiers: {
         Row: {
-          attachments: Json | null
           created_at: string
-          error_message: string | null
-          html_body: string
-          id: string
-          max_retries: number | null
-          priority: number | null
-          retry_count: number | null
-          scheduled_for: string | null
-          sent_at: string | null
-          status: string | null
-          subject: string
-          text_body: string | null
-          to_emails: string[]
-        }
-        Insert: {
-          attachments?: Json | null
-          created_at?: string
-          error_message?: string | null
-          html_body: string
-          id?: string
-          max_retries?: number | null
-          priority?: number | null
-          retry_count?: number | null
-          scheduled_for?: string | null
-          sent_at?: string | null
-          status?: string | null
-          subject: string
-          text_body?: string | null
-          to_emails: string[]
-        }
-        Update: {
-          attachments?: Json | null
-          created_at?: string
-          error_message?: string | null
-          html_body?: string
-          id?: string
-          max_retries?: number | null
-          priority?: number | null
-          retry_count?: number | null
-          scheduled_for?: string | null
-          sent_at?: string | null
-          status?: string | null
-          subject?: string
-          text_body?: string | null
-          to_emails?: string[]
-        }
-        Relationships: []
-      }
-      email_report_logs: {
-        Row: {
-          error_message: string | null
           id: string
+          identifier_hash: string
+          identifier_type: string
           organization_id: string
-          recipients: string[]
-          schedule_id: string
-          sent_at: string
-          status: string
+          person_id: string
+          source: string
+          updated_at: string
         }
         Insert: {
-          error_message?: string | null
+          created_at?: string
           id?: string
+          identifier_hash: string
+          identifier_type: string
           organization_id: string
-          recipients: string[]
-          schedule_id: string
-          sent_at?: string
-          status: string
+          person_id: string
+          source?: string
+          updated_at?: string
         }
         Update: {
-          error_message?: string | null
+          created_at?: string
           id?: string
+          identifier_hash?: string
+          identifier_type?: string
           organization_id?: string
-          recipients?: string[]
-          schedule_id?: string
-          sent_at?: string
-          status?: string
+          person_id?: string
+          source?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "email_report_logs_organization_id_fkey"
+            foreignKeyName: "donor_person_identifiers_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "client_organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "email_report_logs_organization_id_fkey"
+            foreignKeyName: "donor_person_identifiers_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "org_onboarding_summary"
             referencedColumns: ["organization_id"]
           },
           {
-            foreignKeyName: "email_report_logs_organization_id_fkey"
+            foreignKeyName: "donor_person_identifiers_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "v_integration_summary"
             referencedColumns: ["organization_id"]
           },
           {
-            foreignKeyName: "email_report_logs_schedule_id_fkey"
-            columns: ["schedule_id"]
+            foreignKeyName: "donor_person_identifiers_person_id_fkey"
+            columns: ["person_id"]
             isOneToOne: false
-            referencedRelation: "email_report_schedules"
+            referencedRelation: "donor_persons"
             referencedColumns: ["id"]
           },
         ]
       }
-      email_report_schedules: {
+      donor_persons: {
         Row: {
           created_at: string
-          custom_branding: Json | null
-          day_of_month: number | null
-          day_of_week: number | null
-          frequency: string
+          display_name: string | null
           id: string
-          is_active: boolean
-          last_sent_at: string | null
+          merged_into_person_id: string | null
           organization_id: string
-          recipient_emails: string[]
-          report_config: Json | null
-          template_style: string | null
-          time_of_day: string
+          primary_email: string | null
           updated_at: string
         }
         Insert: {
           created_at?: string
-          custom_branding?: Json | null
-          day_of_month?: number | null
-          day_of_week?: number | null
-          frequency: string
+          display_name?: string | null
           id?: string
-          is_active?: boolean
-          last_sent_at?: string | null
+          merged_into_person_id?: string | null
           organization_id: string
-          recipient_emails: string[]
-          report_config?: Json | null
-          template_style?: string | null
-          time_of_day?: string
+          primary_email?: string | null
           updated_at?: string
         }
         Update: {
           created_at?: string
-          custom_branding?: Json | null
-          day_of_month?: number | null
-          day_of_week?: number | null
-          frequency?: string
+          display_name?: string | null
           id?: string
-          is_active?: boolean
-          last_sent_at?: string | null
+          merged_into_person_id?: string | null
           organization_id?: string
-          recipient_emails?: string[]
+          primary_email?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "donor_persons_merged_into_person_id_fkey"
+            columns: ["merged_into_person_id"]
+            isOneToOne: false
+            referencedRelation: "donor_persons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "donor_persons_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "donor_persons_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "donor_persons_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
+      email_mailings: {
+        Row: {
+          bounces: number
+          clicks: number
+          complaints: number
+          created_at: string
+          delivered: number
+          destination_url: string | null
+          extracted_refcode: string | null
+          from_name: string | null
+          id: string
+          link_urls: string[]
+          list_name: string | null
+          mailing_id: string
+          mailing_name: string | null
+          opens: number
+          organization_id: string
+          provider: string
+          refcode_checked_at: string | null
+          sends: number
+          sent_at: string | null
+          subject: string | null
+          synced_at: string
+          unique_clicks: number
+          unique_opens: number
+          unsubscribes: number
+          updated_at: string
+        }
+        Insert: {
+          bounces?: number
+          clicks?: number
+          complaints?: number
+          created_at?: string
+          delivered?: number
+          destination_url?: string | null
+          extracted_refcode?: string | null
+          from_name?: string | null
+          id?: string
+          link_urls?: string[]
+          list_name?: string | null
+          mailing_id: string
+          mailing_name?: string | null
+          opens?: number
+          organization_id: string
+          provider: string
+          refcode_checked_at?: string | null
+          sends?: number
+          sent_at?: string | null
+          subject?: string | null
+          synced_at?: string
+          unique_clicks?: number
+          unique_opens?: number
+          unsubscribes?: number
+          updated_at?: string
+        }
+        Update: {
+          bounces?: number
+          clicks?: number
+          complaints?: number
+          created_at?: string
+          delivered?: number
+          destination_url?: string | null
+          extracted_refcode?: string | null
+          from_name?: string | null
+          id?: string
+          link_urls?: string[]
+          list_name?: string | null
+          mailing_id?: string
+          mailing_name?: string | null
+          opens?: number
+          organization_id?: string
+          provider?: string
+          refcode_checked_at?: string | null
+          sends?: number
+          sent_at?: string | null
+          subject?: string | null
+          synced_at?: string
+          unique_clicks?: number
+          unique_opens?: number
+          unsubscribes?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_mailings_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_mailings_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "email_mailings_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
+      email_queue: {
+        Row: {
+          attachments: Json | null
+          created_at: string
+          error_message: string | null
+          html_body: string
+          id: string
+          max_retries: number | null
+          priority: number | null
+          retry_count: number | null
+          scheduled_for: string | null
+          sent_at: string | null
+          status: string | null
+          subject: string
+          text_body: string | null
+          to_emails: string[]
+        }
+        Insert: {
+          attachments?: Json | null
+          created_at?: string
+          error_message?: string | null
+          html_body: string
+          id?: string
+          max_retries?: number | null
+          priority?: number | null
+          retry_count?: number | null
+          scheduled_for?: string | null
+          sent_at?: string | null
+          status?: string | null
+          subject: string
+          text_body?: string | null
+          to_emails: string[]
+        }
+        Update: {
+          attachments?: Json | null
+          created_at?: string
+          error_message?: string | null
+          html_body?: string
+          id?: string
+          max_retries?: number | null
+          priority?: number | null
+          retry_count?: number | null
+          scheduled_for?: string | null
+          sent_at?: string | null
+          status?: string | null
+          subject?: string
+          text_body?: string | null
+          to_emails?: string[]
+        }
+        Relationships: []
+      }
+      email_report_logs: {
+        Row: {
+          error_message: string | null
+          id: string
+          organization_id: string
+          recipients: string[]
+          report_id: string | null
+          schedule_id: string
+          sent_at: string
+          status: string
+        }
+        Insert: {
+          error_message?: string | null
+          id?: string
+          organization_id: string
+          recipients: string[]
+          report_id?: string | null
+          schedule_id: string
+          sent_at?: string
+          status: string
+        }
+        Update: {
+          error_message?: string | null
+          id?: string
+          organization_id?: string
+          recipients?: string[]
+          report_id?: string | null
+          schedule_id?: string
+          sent_at?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_report_logs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_report_logs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "email_report_logs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "email_report_logs_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "generated_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_report_logs_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "email_report_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_report_schedules: {
+        Row: {
+          created_at: string
+          custom_branding: Json | null
+          day_of_month: number | null
+          day_of_week: number | null
+          frequency: string
+          id: string
+          is_active: boolean
+          last_sent_at: string | null
+          organization_id: string
+          recipient_emails: string[]
+          report_config: Json | null
+          template_style: string | null
+          time_of_day: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          custom_branding?: Json | null
+          day_of_month?: number | null
+          day_of_week?: number | null
+          frequency: string
+          id?: string
+          is_active?: boolean
+          last_sent_at?: string | null
+          organization_id: string
+          recipient_emails: string[]
+          report_config?: Json | null
+          template_style?: string | null
+          time_of_day?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          custom_branding?: Json | null
+          day_of_month?: number | null
+          day_of_week?: number | null
+          frequency?: string
+          id?: string
+          is_active?: boolean
+          last_sent_at?: string | null
+          organization_id?: string
+          recipient_emails?: string[]
           report_config?: Json | null
           template_style?: string | null
           time_of_day?: string
@@ -4380,6 +5285,7 @@ export type Database = {
           canonical_name: string
           confidence_score: number | null
           created_at: string | null
+          entity_key: string | null
           entity_type: string | null
           id: string
           metadata: Json | null
@@ -4393,6 +5299,7 @@ export type Database = {
           canonical_name: string
           confidence_score?: number | null
           created_at?: string | null
+          entity_key?: string | null
           entity_type?: string | null
           id?: string
           metadata?: Json | null
@@ -4406,6 +5313,7 @@ export type Database = {
           canonical_name?: string
           confidence_score?: number | null
           created_at?: string | null
+          entity_key?: string | null
           entity_type?: string | null
           id?: string
           metadata?: Json | null
@@ -4698,11 +5606,13 @@ export type Database = {
           issued_date: string
           issuing_authority: string
           jurisdiction: string
+          matched_rules: Json
           order_number: string
           relevance_score: number | null
           source_url: string | null
           summary: string | null
           tags: string[] | null
+          threat_level: string | null
           title: string
           updated_at: string
         }
@@ -4714,11 +5624,13 @@ export type Database = {
           issued_date: string
           issuing_authority: string
           jurisdiction: string
+          matched_rules?: Json
           order_number: string
           relevance_score?: number | null
           source_url?: string | null
           summary?: string | null
           tags?: string[] | null
+          threat_level?: string | null
           title: string
           updated_at?: string
         }
@@ -4730,11 +5642,13 @@ export type Database = {
           issued_date?: string
           issuing_authority?: string
           jurisdiction?: string
+          matched_rules?: Json
           order_number?: string
           relevance_score?: number | null
           source_url?: string | null
           summary?: string | null
           tags?: string[] | null
+          threat_level?: string | null
           title?: string
           updated_at?: string
         }
@@ -4918,6 +5832,7 @@ export type Database = {
       generated_campaign_messages: {
         Row: {
           actual_performance: number | null
+          compliance_checks: Json | null
           context_used: Json | null
           created_at: string
           entity_name: string
@@ -4928,11 +5843,14 @@ export type Database = {
           message_text: string
           organization_id: string
           predicted_performance: number | null
+          segment_count: number | null
+          sms_encoding: string | null
           variant_number: number | null
           was_used: boolean | null
         }
         Insert: {
           actual_performance?: number | null
+          compliance_checks?: Json | null
           context_used?: Json | null
           created_at?: string
           entity_name: string
@@ -4943,11 +5861,14 @@ export type Database = {
           message_text: string
           organization_id: string
           predicted_performance?: number | null
+          segment_count?: number | null
+          sms_encoding?: string | null
           variant_number?: number | null
           was_used?: boolean | null
         }
         Update: {
           actual_performance?: number | null
+          compliance_checks?: Json | null
           context_used?: Json | null
           created_at?: string
           entity_name?: string
@@ -4958,6 +5879,8 @@ export type Database = {
           message_text?: string
           organization_id?: string
           predicted_performance?: number | null
+          segment_count?: number | null
+          sms_encoding?: string | null
           variant_number?: number | null
           was_used?: boolean | null
         }
@@ -4998,11 +5921,13 @@ export type Database = {
           generated_by: string | null
           id: string
           metadata: Json | null
+          organization_id: string | null
           page_count: number | null
           report_format: string
           report_name: string
           report_type: string
           status: string | null
+          storage_path: string | null
         }
         Insert: {
           completed_at?: string | null
@@ -5016,11 +5941,13 @@ export type Database = {
           generated_by?: string | null
           id?: string
           metadata?: Json | null
+          organization_id?: string | null
           page_count?: number | null
           report_format: string
           report_name: string
           report_type: string
           status?: string | null
+          storage_path?: string | null
         }
         Update: {
           completed_at?: string | null
@@ -5034,280 +5961,86 @@ export type Database = {
           generated_by?: string | null
           id?: string
           metadata?: Json | null
+          organization_id?: string | null
           page_count?: number | null
           report_format?: string
           report_name?: string
           report_type?: string
           status?: string | null
-        }
-        Relationships: []
-      }
-      google_news_articles: {
-        Row: {
-          ai_processed: boolean | null
-          ai_sentiment: number | null
-          ai_sentiment_label: string | null
-          ai_topics: string[] | null
-          canonical_url: string | null
-          content_hash: string | null
-          created_at: string | null
-          description: string | null
-          duplicate_of: string | null
-          extracted_hashtags: string[] | null
-          id: string
-          is_duplicate: boolean | null
-          published_at: string
-          relevance_score: number | null
-          source_name: string
-          source_url: string | null
-          title: string
-          title_hash: string | null
-          updated_at: string | null
-          url: string
-          url_hash: string | null
-        }
-        Insert: {
-          ai_processed?: boolean | null
-          ai_sentiment?: number | null
-          ai_sentiment_label?: string | null
-          ai_topics?: string[] | null
-          canonical_url?: string | null
-          content_hash?: string | null
-          created_at?: string | null
-          description?: string | null
-          duplicate_of?: string | null
-          extracted_hashtags?: string[] | null
-          id?: string
-          is_duplicate?: boolean | null
-          published_at: string
-          relevance_score?: number | null
-          source_name: string
-          source_url?: string | null
-          title: string
-          title_hash?: string | null
-          updated_at?: string | null
-          url: string
-          url_hash?: string | null
-        }
-        Update: {
-          ai_processed?: boolean | null
-          ai_sentiment?: number | null
-          ai_sentiment_label?: string | null
-          ai_topics?: string[] | null
-          canonical_url?: string | null
-          content_hash?: string | null
-          created_at?: string | null
-          description?: string | null
-          duplicate_of?: string | null
-          extracted_hashtags?: string[] | null
-          id?: string
-          is_duplicate?: boolean | null
-          published_at?: string
-          relevance_score?: number | null
-          source_name?: string
-          source_url?: string | null
-          title?: string
-          title_hash?: string | null
-          updated_at?: string | null
-          url?: string
-          url_hash?: string | null
+          storage_path?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "google_news_articles_duplicate_of_fkey"
-            columns: ["duplicate_of"]
+            foreignKeyName: "generated_reports_organization_id_fkey"
+            columns: ["organization_id"]
             isOneToOne: false
-            referencedRelation: "google_news_articles"
+            referencedRelation: "client_organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "generated_reports_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "generated_reports_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
         ]
       }
-      google_news_sources: {
-        Row: {
-          backoff_until: string | null
-          consecutive_errors: number | null
-          created_at: string | null
-          deactivated_at: string | null
-          deactivation_reason: string | null
-          expected_cadence_mins: number | null
-          health_status: string | null
-          id: string
-          is_active: boolean | null
-          last_error: string | null
-          last_failure_at: string | null
-          last_fetched_at: string | null
-          last_success_at: string | null
-          name: string
-          success_count: number | null
-          tags: string[] | null
-          tier: string | null
-          updated_at: string | null
-          url: string
-        }
-        Insert: {
-          backoff_until?: string | null
-          consecutive_errors?: number | null
-          created_at?: string | null
-          deactivated_at?: string | null
-          deactivation_reason?: string | null
-          expected_cadence_mins?: number | null
-          health_status?: string | null
-          id?: string
-          is_active?: boolean | null
-          last_error?: string | null
-          last_failure_at?: string | null
-          last_fetched_at?: string | null
-          last_success_at?: string | null
-          name: string
-          success_count?: number | null
-          tags?: string[] | null
-          tier?: string | null
-          updated_at?: string | null
-          url: string
-        }
-        Update: {
-          backoff_until?: string | null
-          consecutive_errors?: number | null
-          created_at?: string | null
-          deactivated_at?: string | null
-          deactivation_reason?: string | null
-          expected_cadence_mins?: number | null
-          health_status?: string | null
-          id?: string
-          is_active?: boolean | null
-          last_error?: string | null
-          last_failure_at?: string | null
-          last_fetched_at?: string | null
-          last_success_at?: string | null
-          name?: string
-          success_count?: number | null
-          tags?: string[] | null
-          tier?: string | null
-          updated_at?: string | null
-          url?: string
-        }
-        Relationships: []
-      }
-      government_announcements: {
+      google_ads_ad_groups: {
         Row: {
-          agency: string
-          announcement_type: string
-          content: string | null
+          ad_group_id: string
+          ad_group_name: string | null
+          campaign_id: string
           created_at: string
           id: string
-          published_date: string
-          relevance_score: number | null
-          source_url: string | null
-          tags: string[] | null
-          title: string
+          organization_id: string
+          status: string | null
           updated_at: string
         }
         Insert: {
-          agency: string
-          announcement_type: string
-          content?: string | null
+          ad_group_id: string
+          ad_group_name?: string | null
+          campaign_id: string
           created_at?: string
           id?: string
-          published_date: string
-          relevance_score?: number | null
-          source_url?: string | null
-          tags?: string[] | null
-          title: string
+          organization_id: string
+          status?: string | null
           updated_at?: string
         }
         Update: {
-          agency?: string
-          announcement_type?: string
-          content?: string | null
+          ad_group_id?: string
+          ad_group_name?: string | null
+          campaign_id?: string
           created_at?: string
           id?: string
-          published_date?: string
-          relevance_score?: number | null
-          source_url?: string | null
-          tags?: string[] | null
-          title?: string
-          updated_at?: string
-        }
-        Relationships: []
-      }
-      intelligence_actions: {
-        Row: {
-          action_status: string
-          action_type: string
-          alert_id: string | null
-          audience_id: string | null
-          copy_text: string | null
-          copy_variant: string | null
-          created_at: string | null
-          entity_name: string | null
-          id: string
-          meta_adset_id: string | null
-          meta_campaign_id: string | null
-          meta_creative_id: string | null
-          metadata: Json | null
-          organization_id: string
-          sent_at: string | null
-          sms_message_id: string | null
-          suggested_action_id: string | null
-          trend_event_id: string | null
-        }
-        Insert: {
-          action_status?: string
-          action_type: string
-          alert_id?: string | null
-          audience_id?: string | null
-          copy_text?: string | null
-          copy_variant?: string | null
-          created_at?: string | null
-          entity_name?: string | null
-          id?: string
-          meta_adset_id?: string | null
-          meta_campaign_id?: string | null
-          meta_creative_id?: string | null
-          metadata?: Json | null
-          organization_id: string
-          sent_at?: string | null
-          sms_message_id?: string | null
-          suggested_action_id?: string | null
-          trend_event_id?: string | null
-        }
-        Update: {
-          action_status?: string
-          action_type?: string
-          alert_id?: string | null
-          audience_id?: string | null
-          copy_text?: string | null
-          copy_variant?: string | null
-          created_at?: string | null
-          entity_name?: string | null
-          id?: string
-          meta_adset_id?: string | null
-          meta_campaign_id?: string | null
-          meta_creative_id?: string | null
-          metadata?: Json | null
           organization_id?: string
-          sent_at?: string | null
-          sms_message_id?: string | null
-          suggested_action_id?: string | null
-          trend_event_id?: string | null
+          status?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "intelligence_actions_organization_id_fkey"
+            foreignKeyName: "google_ads_ad_groups_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "client_organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "intelligence_actions_organization_id_fkey"
+            foreignKeyName: "google_ads_ad_groups_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "org_onboarding_summary"
             referencedColumns: ["organization_id"]
           },
           {
-            foreignKeyName: "intelligence_actions_organization_id_fkey"
+            foreignKeyName: "google_ads_ad_groups_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "v_integration_summary"
@@ -5315,328 +6048,316 @@ export type Database = {
           },
         ]
       }
-      invitation_audit_logs: {
+      google_ads_ads: {
         Row: {
+          ad_group_id: string
+          ad_id: string
+          ad_name: string | null
+          ad_type: string | null
+          campaign_id: string
           created_at: string
-          email: string | null
-          error_message: string | null
-          event_type: string
+          final_url: string | null
           id: string
-          invitation_id: string | null
-          invitation_type: string | null
-          metadata: Json | null
-          organization_id: string | null
-          source: string
+          organization_id: string
+          refcode: string | null
           status: string | null
-          user_id: string | null
+          updated_at: string
         }
         Insert: {
+          ad_group_id: string
+          ad_id: string
+          ad_name?: string | null
+          ad_type?: string | null
+          campaign_id: string
           created_at?: string
-          email?: string | null
-          error_message?: string | null
-          event_type: string
+          final_url?: string | null
           id?: string
-          invitation_id?: string | null
-          invitation_type?: string | null
-          metadata?: Json | null
-          organization_id?: string | null
-          source?: string
+          organization_id: string
+          refcode?: string | null
           status?: string | null
-          user_id?: string | null
+          updated_at?: string
         }
         Update: {
+          ad_group_id?: string
+          ad_id?: string
+          ad_name?: string | null
+          ad_type?: string | null
+          campaign_id?: string
           created_at?: string
-          email?: string | null
-          error_message?: string | null
-          event_type?: string
+          final_url?: string | null
           id?: string
-          invitation_id?: string | null
-          invitation_type?: string | null
-          metadata?: Json | null
-          organization_id?: string | null
-          source?: string
+          organization_id?: string
+          refcode?: string | null
           status?: string | null
-          user_id?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "invitation_audit_logs_invitation_id_fkey"
-            columns: ["invitation_id"]
+            foreignKeyName: "google_ads_ads_organization_id_fkey"
+            columns: ["organization_id"]
             isOneToOne: false
-            referencedRelation: "user_invitations"
+            referencedRelation: "client_organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "google_ads_ads_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "google_ads_ads_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
         ]
       }
-      job_executions: {
+      google_ads_campaigns: {
         Row: {
-          completed_at: string | null
+          campaign_id: string
+          campaign_name: string | null
+          channel_type: string | null
           created_at: string
-          duration_ms: number | null
-          error_message: string | null
-          execution_log: Json | null
+          customer_id: string
           id: string
-          items_created: number | null
-          items_processed: number | null
-          job_id: string | null
-          result: Json | null
-          started_at: string
-          status: string
+          organization_id: string
+          status: string | null
+          updated_at: string
         }
         Insert: {
-          completed_at?: string | null
+          campaign_id: string
+          campaign_name?: string | null
+          channel_type?: string | null
           created_at?: string
-          duration_ms?: number | null
-          error_message?: string | null
-          execution_log?: Json | null
+          customer_id: string
           id?: string
-          items_created?: number | null
-          items_processed?: number | null
-          job_id?: string | null
-          result?: Json | null
-          started_at?: string
-          status?: string
+          organization_id: string
+          status?: string | null
+          updated_at?: string
         }
         Update: {
-          completed_at?: string | null
+          campaign_id?: string
+          campaign_name?: string | null
+          channel_type?: string | null
           created_at?: string
-          duration_ms?: number | null
-          error_message?: string | null
-          execution_log?: Json | null
+          customer_id?: string
           id?: string
-          items_created?: number | null
-          items_processed?: number | null
-          job_id?: string | null
-          result?: Json | null
-          started_at?: string
-          status?: string
+          organization_id?: string
+          status?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "job_executions_job_id_fkey"
-            columns: ["job_id"]
+            foreignKeyName: "google_ads_campaigns_organization_id_fkey"
+            columns: ["organization_id"]
             isOneToOne: false
-            referencedRelation: "scheduled_jobs"
+            referencedRelation: "client_organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "google_ads_campaigns_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "google_ads_campaigns_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
         ]
       }
-      job_failures: {
+      google_ads_clicks: {
         Row: {
-          context: Json | null
-          context_data: Json | null
-          created_at: string | null
-          error_message: string | null
-          error_stack: string | null
-          function_name: string
+          ad_group_id: string | null
+          ad_id: string | null
+          campaign_id: string | null
+          click_date: string
+          created_at: string
+          gclid: string
           id: string
-          is_resolved: boolean | null
-          job_name: string | null
-          last_retry_at: string | null
-          max_retries: number | null
-          next_retry_at: string | null
-          resolved_at: string | null
-          retry_count: number | null
+          keyword: string | null
+          organization_id: string
         }
         Insert: {
-          context?: Json | null
-          context_data?: Json | null
-          created_at?: string | null
-          error_message?: string | null
-          error_stack?: string | null
-          function_name: string
+          ad_group_id?: string | null
+          ad_id?: string | null
+          campaign_id?: string | null
+          click_date: string
+          created_at?: string
+          gclid: string
           id?: string
-          is_resolved?: boolean | null
-          job_name?: string | null
-          last_retry_at?: string | null
-          max_retries?: number | null
-          next_retry_at?: string | null
-          resolved_at?: string | null
-          retry_count?: number | null
+          keyword?: string | null
+          organization_id: string
         }
         Update: {
-          context?: Json | null
-          context_data?: Json | null
-          created_at?: string | null
-          error_message?: string | null
-          error_stack?: string | null
-          function_name?: string
+          ad_group_id?: string | null
+          ad_id?: string | null
+          campaign_id?: string | null
+          click_date?: string
+          created_at?: string
+          gclid?: string
           id?: string
-          is_resolved?: boolean | null
-          job_name?: string | null
-          last_retry_at?: string | null
-          max_retries?: number | null
-          next_retry_at?: string | null
-          resolved_at?: string | null
-          retry_count?: number | null
+          keyword?: string | null
+          organization_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "google_ads_clicks_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "google_ads_clicks_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "google_ads_clicks_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
       }
-      learning_signals: {
+      google_ads_conversions_daily: {
         Row: {
-          created_at: string | null
+          campaign_id: string
+          conversion_action: string
+          conversion_value: number
+          conversions: number
+          date: string
           id: string
-          last_calculated_at: string | null
-          metadata: Json | null
-          pattern_key: string
-          sample_count: number | null
-          signal_type: string
-          weight_adjustment: number | null
+          organization_id: string
+          synced_at: string
         }
         Insert: {
-          created_at?: string | null
+          campaign_id: string
+          conversion_action: string
+          conversion_value?: number
+          conversions?: number
+          date: string
           id?: string
-          last_calculated_at?: string | null
-          metadata?: Json | null
-          pattern_key: string
-          sample_count?: number | null
-          signal_type: string
-          weight_adjustment?: number | null
+          organization_id: string
+          synced_at?: string
         }
         Update: {
-          created_at?: string | null
+          campaign_id?: string
+          conversion_action?: string
+          conversion_value?: number
+          conversions?: number
+          date?: string
           id?: string
-          last_calculated_at?: string | null
-          metadata?: Json | null
-          pattern_key?: string
-          sample_count?: number | null
-          signal_type?: string
-          weight_adjustment?: number | null
+          organization_id?: string
+          synced_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "google_ads_conversions_daily_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "google_ads_conversions_daily_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "google_ads_conversions_daily_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
       }
-      login_attempts: {
+      google_ads_metrics_daily: {
         Row: {
-          attempted_at: string
-          created_at: string
-          email: string
-          failure_reason: string | null
+          ad_group_id: string | null
+          ad_id: string | null
+          campaign_id: string
+          clicks: number
+          conversion_value: number
+          conversions: number
+          cost: number
+          customer_id: string
+          date: string
+          entity_id: string
           id: string
-          ip_address: unknown
-          success: boolean
-          user_agent: string | null
+          impressions: number
+          level: string
+          organization_id: string
+          synced_at: string
+          video_views: number
         }
         Insert: {
-          attempted_at?: string
-          created_at?: string
-          email: string
-          failure_reason?: string | null
-          id?: string
-          ip_address?: unknown
-          success?: boolean
-          user_agent?: string | null
-        }
-        Update: {
-          attempted_at?: string
-          created_at?: string
-          email?: string
-          failure_reason?: string | null
-          id?: string
-          ip_address?: unknown
-          success?: boolean
-          user_agent?: string | null
-        }
-        Relationships: []
-      }
-      login_history: {
-        Row: {
-          created_at: string
-          email: string
-          failure_reason: string | null
-          id: string
-          ip_address: string | null
-          login_successful: boolean
-          user_agent: string | null
-          user_id: string
-        }
-        Insert: {
-          created_at?: string
-          email: string
-          failure_reason?: string | null
-          id?: string
-          ip_address?: string | null
-          login_successful?: boolean
-          user_agent?: string | null
-          user_id: string
-        }
-        Update: {
-          created_at?: string
-          email?: string
-          failure_reason?: string | null
-          id?: string
-          ip_address?: string | null
-          login_successful?: boolean
-          user_agent?: string | null
-          user_id?: string
-        }
-        Relationships: []
-      }
-      magic_moment_cards: {
-        Row: {
-          action_label: string | null
-          action_url: string | null
-          card_type: string
-          created_at: string | null
-          description: string | null
-          dismissed_at: string | null
-          dismissed_by: string | null
-          expires_at: string | null
-          id: string
-          is_dismissed: boolean | null
-          metadata: Json | null
-          organization_id: string
-          priority: string | null
-          title: string
-        }
-        Insert: {
-          action_label?: string | null
-          action_url?: string | null
-          card_type?: string
-          created_at?: string | null
-          description?: string | null
-          dismissed_at?: string | null
-          dismissed_by?: string | null
-          expires_at?: string | null
+          ad_group_id?: string | null
+          ad_id?: string | null
+          campaign_id: string
+          clicks?: number
+          conversion_value?: number
+          conversions?: number
+          cost?: number
+          customer_id: string
+          date: string
+          entity_id: string
           id?: string
-          is_dismissed?: boolean | null
-          metadata?: Json | null
+          impressions?: number
+          level: string
           organization_id: string
-          priority?: string | null
-          title: string
+          synced_at?: string
+          video_views?: number
         }
         Update: {
-          action_label?: string | null
-          action_url?: string | null
-          card_type?: string
-          created_at?: string | null
-          description?: string | null
-          dismissed_at?: string | null
-          dismissed_by?: string | null
-          expires_at?: string | null
+          ad_group_id?: string | null
+          ad_id?: string | null
+          campaign_id?: string
+          clicks?: number
+          conversion_value?: number
+          conversions?: number
+          cost?: number
+          customer_id?: string
+          date?: string
+          entity_id?: string
           id?: string
-          is_dismissed?: boolean | null
-          metadata?: Json | null
+          impressions?: number
+          level?: string
           organization_id?: string
-          priority?: string | null
-          title?: string
+          synced_at?: string
+          video_views?: number
         }
         Relationships: [
           {
-            foreignKeyName: "magic_moment_cards_organization_id_fkey"
+            foreignKeyName: "google_ads_metrics_daily_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "client_organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "magic_moment_cards_organization_id_fkey"
+            foreignKeyName: "google_ads_metrics_daily_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "org_onboarding_summary"
             referencedColumns: ["organization_id"]
           },
           {
-            foreignKeyName: "magic_moment_cards_organization_id_fkey"
+            foreignKeyName: "google_ads_metrics_daily_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "v_integration_summary"
@@ -5644,232 +6365,282 @@ export type Database = {
           },
         ]
       }
-      meta_ad_metrics: {
+      google_news_articles: {
         Row: {
-          ad_creative_id: string | null
-          ad_creative_name: string | null
-          ad_id: string | null
-          ad_set_id: string | null
-          attribution_window: string | null
-          audience_demographics: Json | null
-          campaign_id: string
-          clicks: number | null
-          conversion_funnel_data: Json | null
-          conversion_value: number | null
-          conversions: number | null
-          cost_per_result: number | null
-          cpc: number | null
-          cpm: number | null
-          creative_type: Database["public"]["Enums"]["creative_type"] | null
-          ctr: number | null
-          date: string
-          device_platform: string | null
-          frequency: number | null
+          ai_processed: boolean | null
+          ai_sentiment: number | null
+          ai_sentiment_label: string | null
+          ai_topics: string[] | null
+          canonical_url: string | null
+          content_hash: string | null
+          created_at: string | null
+          description: string | null
+          duplicate_of: string | null
+          extracted_hashtags: string[] | null
           id: string
-          impressions: number | null
-          ingestion_run_id: string | null
-          organization_id: string
-          placement: string | null
-          reach: number | null
+          is_duplicate: boolean | null
+          published_at: string
           relevance_score: number | null
-          roas: number | null
-          spend: number | null
-          synced_at: string | null
+          source_name: string
+          source_url: string | null
+          story_cluster_id: string | null
+          title: string
+          title_hash: string | null
+          updated_at: string | null
+          url: string
+          url_hash: string | null
         }
         Insert: {
-          ad_creative_id?: string | null
-          ad_creative_name?: string | null
-          ad_id?: string | null
-          ad_set_id?: string | null
-          attribution_window?: string | null
-          audience_demographics?: Json | null
-          campaign_id: string
-          clicks?: number | null
-          conversion_funnel_data?: Json | null
-          conversion_value?: number | null
-          conversions?: number | null
-          cost_per_result?: number | null
-          cpc?: number | null
-          cpm?: number | null
-          creative_type?: Database["public"]["Enums"]["creative_type"] | null
-          ctr?: number | null
-          date: string
-          device_platform?: string | null
-          frequency?: number | null
+          ai_processed?: boolean | null
+          ai_sentiment?: number | null
+          ai_sentiment_label?: string | null
+          ai_topics?: string[] | null
+          canonical_url?: string | null
+          content_hash?: string | null
+          created_at?: string | null
+          description?: string | null
+          duplicate_of?: string | null
+          extracted_hashtags?: string[] | null
           id?: string
-          impressions?: number | null
-          ingestion_run_id?: string | null
-          organization_id: string
-          placement?: string | null
-          reach?: number | null
+          is_duplicate?: boolean | null
+          published_at: string
           relevance_score?: number | null
-          roas?: number | null
-          spend?: number | null
-          synced_at?: string | null
+          source_name: string
+          source_url?: string | null
+          story_cluster_id?: string | null
+          title: string
+          title_hash?: string | null
+          updated_at?: string | null
+          url: string
+          url_hash?: string | null
         }
         Update: {
-          ad_creative_id?: string | null
-          ad_creative_name?: string | null
-          ad_id?: string | null
-          ad_set_id?: string | null
-          attribution_window?: string | null
-          audience_demographics?: Json | null
-          campaign_id?: string
-          clicks?: number | null
-          conversion_funnel_data?: Json | null
-          conversion_value?: number | null
-          conversions?: number | null
-          cost_per_result?: number | null
-          cpc?: number | null
-          cpm?: number | null
-          creative_type?: Database["public"]["Enums"]["creative_type"] | null
-          ctr?: number | null
-          date?: string
-          device_platform?: string | null
-          frequency?: number | null
+          ai_processed?: boolean | null
+          ai_sentiment?: number | null
+          ai_sentiment_label?: string | null
+          ai_topics?: string[] | null
+          canonical_url?: string | null
+          content_hash?: string | null
+          created_at?: string | null
+          description?: string | null
+          duplicate_of?: string | null
+          extracted_hashtags?: string[] | null
           id?: string
-          impressions?: number | null
-          ingestion_run_id?: string | null
-          organization_id?: string
-          placement?: string | null
-          reach?: number | null
+          is_duplicate?: boolean | null
+          published_at?: string
           relevance_score?: number | null
-          roas?: number | null
-          spend?: number | null
-          synced_at?: string | null
+          source_name?: string
+          source_url?: string | null
+          story_cluster_id?: string | null
+          title?: string
+          title_hash?: string | null
+          updated_at?: string | null
+          url?: string
+          url_hash?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "meta_ad_metrics_organization_id_fkey"
-            columns: ["organization_id"]
+            foreignKeyName: "google_news_articles_duplicate_of_fkey"
+            columns: ["duplicate_of"]
             isOneToOne: false
-            referencedRelation: "client_organizations"
+            referencedRelation: "google_news_articles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "meta_ad_metrics_organization_id_fkey"
-            columns: ["organization_id"]
+            foreignKeyName: "google_news_articles_story_cluster_id_fkey"
+            columns: ["story_cluster_id"]
             isOneToOne: false
-            referencedRelation: "org_onboarding_summary"
-            referencedColumns: ["organization_id"]
-          },
-          {
-            foreignKeyName: "meta_ad_metrics_organization_id_fkey"
-            columns: ["organization_id"]
-            isOneToOne: false
-            referencedRelation: "v_integration_summary"
-            referencedColumns: ["organization_id"]
+            referencedRelation: "story_clusters"
+            referencedColumns: ["id"]
           },
         ]
       }
-      meta_ad_metrics_daily: {
+      google_news_sources: {
         Row: {
-          ad_account_id: string
-          ad_id: string
-          ad_name: string | null
-          adset_id: string | null
-          campaign_id: string
-          clicks: number | null
-          conversion_ranking: string | null
-          conversion_value: number | null
-          conversions: number | null
-          cost_per_result: number | null
-          cpc: number | null
-          cpm: number | null
+          backoff_until: string | null
+          consecutive_errors: number | null
           created_at: string | null
-          creative_id: string | null
-          ctr: number | null
-          date: string
-          engagement_ranking: string | null
-          frequency: number | null
+          deactivated_at: string | null
+          deactivation_reason: string | null
+          expected_cadence_mins: number | null
+          health_status: string | null
           id: string
-          impressions: number | null
-          link_clicks: number | null
-          link_ctr: number | null
-          meta_roas: number | null
+          is_active: boolean | null
+          last_error: string | null
+          last_failure_at: string | null
+          last_fetched_at: string | null
+          last_success_at: string | null
+          name: string
+          success_count: number | null
+          tags: string[] | null
+          tier: string | null
+          updated_at: string | null
+          url: string
+        }
+        Insert: {
+          backoff_until?: string | null
+          consecutive_errors?: number | null
+          created_at?: string | null
+          deactivated_at?: string | null
+          deactivation_reason?: string | null
+          expected_cadence_mins?: number | null
+          health_status?: string | null
+          id?: string
+          is_active?: boolean | null
+          last_error?: string | null
+          last_failure_at?: string | null
+          last_fetched_at?: string | null
+          last_success_at?: string | null
+          name: string
+          success_count?: number | null
+          tags?: string[] | null
+          tier?: string | null
+          updated_at?: string | null
+          url: string
+        }
+        Update: {
+          backoff_until?: string | null
+          consecutive_errors?: number | null
+          created_at?: string | null
+          deactivated_at?: string | null
+          deactivation_reason?: string | null
+          expected_cadence_mins?: number | null
+          health_status?: string | null
+          id?: string
+          is_active?: boolean | null
+          last_error?: string | null
+          last_failure_at?: string | null
+          last_fetched_at?: string | null
+          last_success_at?: string | null
+          name?: string
+          success_count?: number | null
+          tags?: string[] | null
+          tier?: string | null
+          updated_at?: string | null
+          url?: string
+        }
+        Relationships: []
+      }
+      government_announcements: {
+        Row: {
+          agency: string
+          announcement_type: string
+          content: string | null
+          created_at: string
+          id: string
+          published_date: string
+          relevance_score: number | null
+          source_url: string | null
+          tags: string[] | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          agency: string
+          announcement_type: string
+          content?: string | null
+          created_at?: string
+          id?: string
+          published_date: string
+          relevance_score?: number | null
+          source_url?: string | null
+          tags?: string[] | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          agency?: string
+          announcement_type?: string
+          content?: string | null
+          created_at?: string
+          id?: string
+          published_date?: string
+          relevance_score?: number | null
+          source_url?: string | null
+          tags?: string[] | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      intelligence_actions: {
+        Row: {
+          action_status: string
+          action_type: string
+          alert_id: string | null
+          audience_id: string | null
+          copy_text: string | null
+          copy_variant: string | null
+          created_at: string | null
+          entity_name: string | null
+          id: string
+          meta_adset_id: string | null
+          meta_campaign_id: string | null
+          meta_creative_id: string | null
+          metadata: Json | null
           organization_id: string
-          quality_ranking: string | null
-          reach: number | null
-          spend: number | null
-          synced_at: string | null
+          sent_at: string | null
+          sms_message_id: string | null
+          suggested_action_id: string | null
+          trend_event_id: string | null
         }
         Insert: {
-          ad_account_id: string
-          ad_id: string
-          ad_name?: string | null
-          adset_id?: string | null
-          campaign_id: string
-          clicks?: number | null
-          conversion_ranking?: string | null
-          conversion_value?: number | null
-          conversions?: number | null
-          cost_per_result?: number | null
-          cpc?: number | null
-          cpm?: number | null
+          action_status?: string
+          action_type: string
+          alert_id?: string | null
+          audience_id?: string | null
+          copy_text?: string | null
+          copy_variant?: string | null
           created_at?: string | null
-          creative_id?: string | null
-          ctr?: number | null
-          date: string
-          engagement_ranking?: string | null
-          frequency?: number | null
+          entity_name?: string | null
           id?: string
-          impressions?: number | null
-          link_clicks?: number | null
-          link_ctr?: number | null
-          meta_roas?: number | null
+          meta_adset_id?: string | null
+          meta_campaign_id?: string | null
+          meta_creative_id?: string | null
+          metadata?: Json | null
           organization_id: string
-          quality_ranking?: string | null
-          reach?: number | null
-          spend?: number | null
-          synced_at?: string | null
+          sent_at?: string | null
+          sms_message_id?: string | null
+          suggested_action_id?: string | null
+          trend_event_id?: string | null
         }
         Update: {
-          ad_account_id?: string
-          ad_id?: string
-          ad_name?: string | null
-          adset_id?: string | null
-          campaign_id?: string
-          clicks?: number | null
-          conversion_ranking?: string | null
-          conversion_value?: number | null
-          conversions?: number | null
-          cost_per_result?: number | null
-          cpc?: number | null
-          cpm?: number | null
+          action_status?: string
+          action_type?: string
+          alert_id?: string | null
+          audience_id?: string | null
+          copy_text?: string | null
+          copy_variant?: string | null
           created_at?: string | null
-          creative_id?: string | null
-          ctr?: number | null
-          date?: string
-          engagement_ranking?: string | null
-          frequency?: number | null
+          entity_name?: string | null
           id?: string
-          impressions?: number | null
-          link_clicks?: number | null
-          link_ctr?: number | null
-          meta_roas?: number | null
+          meta_adset_id?: string | null
+          meta_campaign_id?: string | null
+          meta_creative_id?: string | null
+          metadata?: Json | null
           organization_id?: string
-          quality_ranking?: string | null
-          reach?: number | null
-          spend?: number | null
-          synced_at?: string | null
+          sent_at?: string | null
+          sms_message_id?: string | null
+          suggested_action_id?: string | null
+          trend_event_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "meta_ad_metrics_daily_organization_id_fkey"
+            foreignKeyName: "intelligence_actions_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "client_organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "meta_ad_metrics_daily_organization_id_fkey"
+            foreignKeyName: "intelligence_actions_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "org_onboarding_summary"
             referencedColumns: ["organization_id"]
           },
           {
-            foreignKeyName: "meta_ad_metrics_daily_organization_id_fkey"
+            foreignKeyName: "intelligence_actions_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "v_integration_summary"
@@ -5877,22 +6648,657 @@ export type Database = {
           },
         ]
       }
-      meta_ad_transcripts: {
+      invitation_audit_logs: {
         Row: {
-          ad_id: string
-          analysis_model: string | null
-          analysis_version: string | null
-          analyzed_at: string | null
-          cta_text: string | null
-          cta_type: string | null
-          donor_pain_points: string[] | null
-          duration_seconds: number | null
-          emotional_appeals: string[] | null
-          emotional_triggers: string[] | null
-          hook_duration_seconds: number | null
-          hook_text: string | null
-          hook_word_count: number | null
-          id: string
+          created_at: string
+          email: string | null
+          error_message: string | null
+          event_type: string
+          id: string
+          invitation_id: string | null
+          invitation_type: string | null
+          metadata: Json | null
+          organization_id: string | null
+          source: string
+          status: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          error_message?: string | null
+          event_type: string
+          id?: string
+          invitation_id?: string | null
+          invitation_type?: string | null
+          metadata?: Json | null
+          organization_id?: string | null
+          source?: string
+          status?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          error_message?: string | null
+          event_type?: string
+          id?: string
+          invitation_id?: string | null
+          invitation_type?: string | null
+          metadata?: Json | null
+          organization_id?: string | null
+          source?: string
+          status?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invitation_audit_logs_invitation_id_fkey"
+            columns: ["invitation_id"]
+            isOneToOne: false
+            referencedRelation: "user_invitations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_executions: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          duration_ms: number | null
+          error_message: string | null
+          execution_log: Json | null
+          id: string
+          items_created: number | null
+          items_processed: number | null
+          job_id: string | null
+          result: Json | null
+          started_at: string
+          status: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          duration_ms?: number | null
+          error_message?: string | null
+          execution_log?: Json | null
+          id?: string
+          items_created?: number | null
+          items_processed?: number | null
+          job_id?: string | null
+          result?: Json | null
+          started_at?: string
+          status?: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          duration_ms?: number | null
+          error_message?: string | null
+          execution_log?: Json | null
+          id?: string
+          items_created?: number | null
+          items_processed?: number | null
+          job_id?: string | null
+          result?: Json | null
+          started_at?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_executions_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_failures: {
+        Row: {
+          context: Json | null
+          context_data: Json | null
+          created_at: string | null
+          error_message: string | null
+          error_stack: string | null
+          function_name: string
+          id: string
+          is_resolved: boolean | null
+          job_name: string | null
+          last_retry_at: string | null
+          max_retries: number | null
+          next_retry_at: string | null
+          resolved_at: string | null
+          retry_count: number | null
+        }
+        Insert: {
+          context?: Json | null
+          context_data?: Json | null
+          created_at?: string | null
+          error_message?: string | null
+          error_stack?: string | null
+          function_name: string
+          id?: string
+          is_resolved?: boolean | null
+          job_name?: string | null
+          last_retry_at?: string | null
+          max_retries?: number | null
+          next_retry_at?: string | null
+          resolved_at?: string | null
+          retry_count?: number | null
+        }
+        Update: {
+          context?: Json | null
+          context_data?: Json | null
+          created_at?: string | null
+          error_message?: string | null
+          error_stack?: string | null
+          function_name?: string
+          id?: string
+          is_resolved?: boolean | null
+          job_name?: string | null
+          last_retry_at?: string | null
+          max_retries?: number | null
+          next_retry_at?: string | null
+          resolved_at?: string | null
+          retry_count?: number | null
+        }
+        Relationships: []
+      }
+      learning_signals: {
+        Row: {
+          created_at: string | null
+          id: string
+          last_calculated_at: string | null
+          metadata: Json | null
+          pattern_key: string
+          sample_count: number | null
+          signal_type: string
+          weight_adjustment: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          last_calculated_at?: string | null
+          metadata?: Json | null
+          pattern_key: string
+          sample_count?: number | null
+          signal_type: string
+          weight_adjustment?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          last_calculated_at?: string | null
+          metadata?: Json | null
+          pattern_key?: string
+          sample_count?: number | null
+          signal_type?: string
+          weight_adjustment?: number | null
+        }
+        Relationships: []
+      }
+      llm_usage_ledger: {
+        Row: {
+          cached: boolean
+          completion_tokens: number
+          cost_usd: number
+          created_at: string
+          error_code: string | null
+          function_name: string
+          id: string
+          latency_ms: number | null
+          model: string
+          organization_id: string | null
+          prompt_id: string | null
+          prompt_tokens: number
+          prompt_version: number | null
+          status: string
+        }
+        Insert: {
+          cached?: boolean
+          completion_tokens?: number
+          cost_usd?: number
+          created_at?: string
+          error_code?: string | null
+          function_name: string
+          id?: string
+          latency_ms?: number | null
+          model: string
+          organization_id?: string | null
+          prompt_id?: string | null
+          prompt_tokens?: number
+          prompt_version?: number | null
+          status?: string
+        }
+        Update: {
+          cached?: boolean
+          completion_tokens?: number
+          cost_usd?: number
+          created_at?: string
+          error_code?: string | null
+          function_name?: string
+          id?: string
+          latency_ms?: number | null
+          model?: string
+          organization_id?: string | null
+          prompt_id?: string | null
+          prompt_tokens?: number
+          prompt_version?: number | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "llm_usage_ledger_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "llm_usage_ledger_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "llm_usage_ledger_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
+      login_attempts: {
+        Row: {
+          attempted_at: string
+          created_at: string
+          email: string
+          failure_reason: string | null
+          id: string
+          ip_address: unknown
+          success: boolean
+          user_agent: string | null
+        }
+        Insert: {
+          attempted_at?: string
+          created_at?: string
+          email: string
+          failure_reason?: string | null
+          id?: string
+          ip_address?: unknown
+          success?: boolean
+          user_agent?: string | null
+        }
+        Update: {
+          attempted_at?: string
+          created_at?: string
+          email?: string
+          failure_reason?: string | null
+          id?: string
+          ip_address?: unknown
+          success?: boolean
+          user_agent?: string | null
+        }
+        Relationships: []
+      }
+      login_history: {
+        Row: {
+          created_at: string
+          email: string
+          failure_reason: string | null
+          id: string
+          ip_address: string | null
+          login_successful: boolean
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          failure_reason?: string | null
+          id?: string
+          ip_address?: string | null
+          login_successful?: boolean
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          failure_reason?: string | null
+          id?: string
+          ip_address?: string | null
+          login_successful?: boolean
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      magic_moment_cards: {
+        Row: {
+          action_label: string | null
+          action_url: string | null
+          card_type: string
+          created_at: string | null
+          description: string | null
+          dismissed_at: string | null
+          dismissed_by: string | null
+          expires_at: string | null
+          id: string
+          is_dismissed: boolean | null
+          metadata: Json | null
+          organization_id: string
+          priority: string | null
+          title: string
+        }
+        Insert: {
+          action_label?: string | null
+          action_url?: string | null
+          card_type?: string
+          created_at?: string | null
+          description?: string | null
+          dismissed_at?: string | null
+          dismissed_by?: string | null
+          expires_at?: string | null
+          id?: string
+          is_dismissed?: boolean | null
+          metadata?: Json | null
+          organization_id: string
+          priority?: string | null
+          title: string
+        }
+        Update: {
+          action_label?: string | null
+          action_url?: string | null
+          card_type?: string
+          created_at?: string | null
+          description?: string | null
+          dismissed_at?: string | null
+          dismissed_by?: string | null
+          expires_at?: string | null
+          id?: string
+          is_dismissed?: boolean | null
+          metadata?: Json | null
+          organization_id?: string
+          priority?: string | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "magic_moment_cards_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "magic_moment_cards_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "magic_moment_cards_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
+      meta_ad_metrics: {
+        Row: {
+          ad_creative_id: string | null
+          ad_creative_name: string | null
+          ad_id: string | null
+          ad_set_id: string | null
+          attribution_window: string | null
+          audience_demographics: Json | null
+          campaign_id: string
+          clicks: number | null
+          conversion_funnel_data: Json | null
+          conversion_value: number | null
+          conversions: number | null
+          cost_per_result: number | null
+          cpc: number | null
+          cpm: number | null
+          creative_type: Database["public"]["Enums"]["creative_type"] | null
+          ctr: number | null
+          date: string
+          device_platform: string | null
+          frequency: number | null
+          id: string
+          impressions: number | null
+          ingestion_run_id: string | null
+          organization_id: string
+          placement: string | null
+          reach: number | null
+          relevance_score: number | null
+          roas: number | null
+          spend: number | null
+          synced_at: string | null
+        }
+        Insert: {
+          ad_creative_id?: string | null
+          ad_creative_name?: string | null
+          ad_id?: string | null
+          ad_set_id?: string | null
+          attribution_window?: string | null
+          audience_demographics?: Json | null
+          campaign_id: string
+          clicks?: number | null
+          conversion_funnel_data?: Json | null
+          conversion_value?: number | null
+          conversions?: number | null
+          cost_per_result?: number | null
+          cpc?: number | null
+          cpm?: number | null
+          creative_type?: Database["public"]["Enums"]["creative_type"] | null
+          ctr?: number | null
+          date: string
+          device_platform?: string | null
+          frequency?: number | null
+          id?: string
+          impressions?: number | null
+          ingestion_run_id?: string | null
+          organization_id: string
+          placement?: string | null
+          reach?: number | null
+          relevance_score?: number | null
+          roas?: number | null
+          spend?: number | null
+          synced_at?: string | null
+        }
+        Update: {
+          ad_creative_id?: string | null
+          ad_creative_name?: string | null
+          ad_id?: string | null
+          ad_set_id?: string | null
+          attribution_window?: string | null
+          audience_demographics?: Json | null
+          campaign_id?: string
+          clicks?: number | null
+          conversion_funnel_data?: Json | null
+          conversion_value?: number | null
+          conversions?: number | null
+          cost_per_result?: number | null
+          cpc?: number | null
+          cpm?: number | null
+          creative_type?: Database["public"]["Enums"]["creative_type"] | null
+          ctr?: number | null
+          date?: string
+          device_platform?: string | null
+          frequency?: number | null
+          id?: string
+          impressions?: number | null
+          ingestion_run_id?: string | null
+          organization_id?: string
+          placement?: string | null
+          reach?: number | null
+          relevance_score?: number | null
+          roas?: number | null
+          spend?: number | null
+          synced_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meta_ad_metrics_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meta_ad_metrics_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "meta_ad_metrics_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
+      meta_ad_metrics_daily: {
+        Row: {
+          ad_account_id: string
+          ad_id: string
+          ad_name: string | null
+          adset_id: string | null
+          campaign_id: string
+          clicks: number | null
+          conversion_ranking: string | null
+          conversion_value: number | null
+          conversions: number | null
+          cost_per_result: number | null
+          cpc: number | null
+          cpm: number | null
+          created_at: string | null
+          creative_id: string | null
+          ctr: number | null
+          date: string
+          engagement_ranking: string | null
+          frequency: number | null
+          id: string
+          impressions: number | null
+          link_clicks: number | null
+          link_ctr: number | null
+          meta_roas: number | null
+          organization_id: string
+          quality_ranking: string | null
+          reach: number | null
+          spend: number | null
+          synced_at: string | null
+        }
+        Insert: {
+          ad_account_id: string
+          ad_id: string
+          ad_name?: string | null
+          adset_id?: string | null
+          campaign_id: string
+          clicks?: number | null
+          conversion_ranking?: string | null
+          conversion_value?: number | null
+          conversions?: number | null
+          cost_per_result?: number | null
+          cpc?: number | null
+          cpm?: number | null
+          created_at?: string | null
+          creative_id?: string | null
+          ctr?: number | null
+          date: string
+          engagement_ranking?: string | null
+          frequency?: number | null
+          id?: string
+          impressions?: number | null
+          link_clicks?: number | null
+          link_ctr?: number | null
+          meta_roas?: number | null
+          organization_id: string
+          quality_ranking?: string | null
+          reach?: number | null
+          spend?: number | null
+          synced_at?: string | null
+        }
+        Update: {
+          ad_account_id?: string
+          ad_id?: string
+          ad_name?: string | null
+          adset_id?: string | null
+          campaign_id?: string
+          clicks?: number | null
+          conversion_ranking?: string | null
+          conversion_value?: number | null
+          conversions?: number | null
+          cost_per_result?: number | null
+          cpc?: number | null
+          cpm?: number | null
+          created_at?: string | null
+          creative_id?: string | null
+          ctr?: number | null
+          date?: string
+          engagement_ranking?: string | null
+          frequency?: number | null
+          id?: string
+          impressions?: number | null
+          link_clicks?: number | null
+          link_ctr?: number | null
+          meta_roas?: number | null
+          organization_id?: string
+          quality_ranking?: string | null
+          reach?: number | null
+          spend?: number | null
+          synced_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meta_ad_metrics_daily_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meta_ad_metrics_daily_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "meta_ad_metrics_daily_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
+      meta_ad_transcripts: {
+        Row: {
+          ad_id: string
+          analysis_model: string | null
+          analysis_version: string | null
+          analyzed_at: string | null
+          cta_text: string | null
+          cta_type: string | null
+          donor_pain_points: string[] | null
+          duration_seconds: number | null
+          emotional_appeals: string[] | null
+          emotional_triggers: string[] | null
+          hook_duration_seconds: number | null
+          hook_text: string | null
+          hook_word_count: number | null
+          id: string
           issue_primary: string | null
           issue_specifics: string[] | null
           issue_tags: string[] | null
@@ -7086,6 +8492,7 @@ export type Database = {
           notify_bookmarked_articles: boolean | null
           notify_new_articles: boolean | null
           notify_new_bills: boolean | null
+          push_alert_types: string[]
           push_notifications: boolean | null
           updated_at: string | null
           user_id: string
@@ -7099,6 +8506,7 @@ export type Database = {
           notify_bookmarked_articles?: boolean | null
           notify_new_articles?: boolean | null
           notify_new_bills?: boolean | null
+          push_alert_types?: string[]
           push_notifications?: boolean | null
           updated_at?: string | null
           user_id: string
@@ -7112,6 +8520,7 @@ export type Database = {
           notify_bookmarked_articles?: boolean | null
           notify_new_articles?: boolean | null
           notify_new_bills?: boolean | null
+          push_alert_types?: string[]
           push_notifications?: boolean | null
           updated_at?: string | null
           user_id?: string
@@ -7601,6 +9010,58 @@ export type Database = {
           },
         ]
       }
+      org_llm_budgets: {
+        Row: {
+          alert_threshold_pct: number
+          created_at: string
+          hard_limit: boolean
+          id: string
+          monthly_budget_usd: number
+          organization_id: string
+          updated_at: string
+        }
+        Insert: {
+          alert_threshold_pct?: number
+          created_at?: string
+          hard_limit?: boolean
+          id?: string
+          monthly_budget_usd: number
+          organization_id: string
+          updated_at?: string
+        }
+        Update: {
+          alert_threshold_pct?: number
+          created_at?: string
+          hard_limit?: boolean
+          id?: string
+          monthly_budget_usd?: number
+          organization_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "org_llm_budgets_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "org_llm_budgets_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "org_llm_budgets_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
       org_onboarding_state: {
         Row: {
           blocking_reason: string | null
@@ -8047,6 +9508,7 @@ export type Database = {
           display_name: string | null
           embedding: string | null
           embedding_generated_at: string | null
+          embedding_model: string | null
           embedding_text: string | null
           focus_areas: string[] | null
           geographies: string[] | null
@@ -8075,6 +9537,7 @@ export type Database = {
           display_name?: string | null
           embedding?: string | null
           embedding_generated_at?: string | null
+          embedding_model?: string | null
           embedding_text?: string | null
           focus_areas?: string[] | null
           geographies?: string[] | null
@@ -8103,6 +9566,7 @@ export type Database = {
           display_name?: string | null
           embedding?: string | null
           embedding_generated_at?: string | null
+          embedding_model?: string | null
           embedding_text?: string | null
           focus_areas?: string[] | null
           geographies?: string[] | null
@@ -8641,6 +10105,81 @@ export type Database = {
         }
         Relationships: []
       }
+      political_entities: {
+        Row: {
+          active: boolean | null
+          aliases: string[] | null
+          bioguide_id: string | null
+          canonical_name: string
+          chamber: string | null
+          committees: string[]
+          created_at: string | null
+          district: string | null
+          entity_key: string
+          entity_type: string
+          id: string
+          last_synced_at: string | null
+          notes: string | null
+          office: string | null
+          party: string | null
+          policy_domains: string[] | null
+          prominence: number
+          source: string
+          state: string | null
+          surname: string | null
+          updated_at: string | null
+          updated_by: string | null
+        }
+        Insert: {
+          active?: boolean | null
+          aliases?: string[] | null
+          bioguide_id?: string | null
+          canonical_name: string
+          chamber?: string | null
+          committees?: string[]
+          created_at?: string | null
+          district?: string | null
+          entity_key: string
+          entity_type: string
+          id?: string
+          last_synced_at?: string | null
+          notes?: string | null
+          office?: string | null
+          party?: string | null
+          policy_domains?: string[] | null
+          prominence?: number
+          source?: string
+          state?: string | null
+          surname?: string | null
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Update: {
+          active?: boolean | null
+          aliases?: string[] | null
+          bioguide_id?: string | null
+          canonical_name?: string
+          chamber?: string | null
+          committees?: string[]
+          created_at?: string | null
+          district?: string | null
+          entity_key?: string
+          entity_type?: string
+          id?: string
+          last_synced_at?: string | null
+          notes?: string | null
+          office?: string | null
+          party?: string | null
+          policy_domains?: string[] | null
+          prominence?: number
+          source?: string
+          state?: string | null
+          surname?: string | null
+          updated_at?: string | null
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       polling_alert_configs: {
         Row: {
           created_at: string
@@ -8705,12 +10244,15 @@ export type Database = {
       polling_alerts: {
         Row: {
           alert_type: string
+          as_of_date: string | null
+          candidate_name: string | null
           change_amount: number | null
           created_at: string | null
           current_value: number | null
           description: string | null
           id: string
           is_read: boolean | null
+          noise_band: number | null
           poll_type: string
           previous_value: number | null
           race_id: string | null
@@ -8719,12 +10261,15 @@ export type Database = {
         }
         Insert: {
           alert_type: string
+          as_of_date?: string | null
+          candidate_name?: string | null
           change_amount?: number | null
           created_at?: string | null
           current_value?: number | null
           description?: string | null
           id?: string
           is_read?: boolean | null
+          noise_band?: number | null
           poll_type: string
           previous_value?: number | null
           race_id?: string | null
@@ -8733,12 +10278,15 @@ export type Database = {
         }
         Update: {
           alert_type?: string
+          as_of_date?: string | null
+          candidate_name?: string | null
           change_amount?: number | null
           created_at?: string | null
           current_value?: number | null
           description?: string | null
           id?: string
           is_read?: boolean | null
+          noise_band?: number | null
           poll_type?: string
           previous_value?: number | null
           race_id?: string | null
@@ -8747,6 +10295,60 @@ export type Database = {
         }
         Relationships: []
       }
+      polling_averages: {
+        Row: {
+          average: number
+          average_date: string
+          calculated_at: string
+          candidate_name: string
+          effective_sample_size: number | null
+          id: string
+          lower_bound: number
+          poll_count: number
+          poll_type: string
+          race_id: string
+          race_name: string | null
+          state: string | null
+          std_error: number
+          trend_per_week: number | null
+          upper_bound: number
+        }
+        Insert: {
+          average: number
+          average_date: string
+          calculated_at?: string
+          candidate_name: string
+          effective_sample_size?: number | null
+          id?: string
+          lower_bound: number
+          poll_count?: number
+          poll_type: string
+          race_id: string
+          race_name?: string | null
+          state?: string | null
+          std_error: number
+          trend_per_week?: number | null
+          upper_bound: number
+        }
+        Update: {
+          average?: number
+          average_date?: string
+          calculated_at?: string
+          candidate_name?: string
+          effective_sample_size?: number | null
+          id?: string
+          lower_bound?: number
+          poll_count?: number
+          poll_type?: string
+          race_id?: string
+          race_name?: string | null
+          state?: string | null
+          std_error?: number
+          trend_per_week?: number | null
+          upper_bound?: number
+        }
+        Relationships: []
+      }
       polling_data: {
         Row: {
           candidate_name: string | null
@@ -8813,6 +10415,36 @@ export type Database = {
         }
         Relationships: []
       }
+      polling_house_effects: {
+        Row: {
+          candidate_name: string
+          house_effect: number
+          id: string
+          poll_count: number
+          pollster: string
+          race_id: string
+          updated_at: string
+        }
+        Insert: {
+          candidate_name: string
+          house_effect: number
+          id?: string
+          poll_count?: number
+          pollster: string
+          race_id: string
+          updated_at?: string
+        }
+        Update: {
+          candidate_name?: string
+          house_effect?: number
+          id?: string
+          poll_count?: number
+          pollster?: string
+          race_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       privacy_settings: {
         Row: {
           analytics_tracking: boolean
@@ -8913,209 +10545,603 @@ export type Database = {
           records_processed?: number | null
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          is_active: boolean
+          last_sign_in_at: string | null
+          mfa_enabled_at: string | null
+          mfa_method: string | null
+          onboarding_completed: boolean | null
+          onboarding_completed_at: string | null
+          session_revoked_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id: string
+          is_active?: boolean
+          last_sign_in_at?: string | null
+          mfa_enabled_at?: string | null
+          mfa_method?: string | null
+          onboarding_completed?: boolean | null
+          onboarding_completed_at?: string | null
+          session_revoked_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          is_active?: boolean
+          last_sign_in_at?: string | null
+          mfa_enabled_at?: string | null
+          mfa_method?: string | null
+          onboarding_completed?: boolean | null
+          onboarding_completed_at?: string | null
+          session_revoked_at?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string | null
+          endpoint: string
+          id: string
+          last_success_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string | null
+          endpoint: string
+          id?: string
+          last_success_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string | null
+          endpoint?: string
+          id?: string
+          last_success_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      reddit_posts: {
+        Row: {
+          ai_processed: boolean | null
+          ai_sentiment: number | null
+          ai_sentiment_label: string | null
+          ai_topics: string[] | null
+          author: string | null
+          created_at: string | null
+          created_utc: string
+          downvotes: number | null
+          id: string
+          is_duplicate: boolean | null
+          num_comments: number | null
+          permalink: string | null
+          reddit_id: string
+          relevance_score: number | null
+          score: number | null
+          selftext: string | null
+          subreddit: string
+          title: string
+          title_hash: string | null
+          updated_at: string | null
+          upvotes: number | null
+          url: string | null
+        }
+        Insert: {
+          ai_processed?: boolean | null
+          ai_sentiment?: number | null
+          ai_sentiment_label?: string | null
+          ai_topics?: string[] | null
+          author?: string | null
+          created_at?: string | null
+          created_utc: string
+          downvotes?: number | null
+          id?: string
+          is_duplicate?: boolean | null
+          num_comments?: number | null
+          permalink?: string | null
+          reddit_id: string
+          relevance_score?: number | null
+          score?: number | null
+          selftext?: string | null
+          subreddit: string
+          title: string
+          title_hash?: string | null
+          updated_at?: string | null
+          upvotes?: number | null
+          url?: string | null
+        }
+        Update: {
+          ai_processed?: boolean | null
+          ai_sentiment?: number | null
+          ai_sentiment_label?: string | null
+          ai_topics?: string[] | null
+          author?: string | null
+          created_at?: string | null
+          created_utc?: string
+          downvotes?: number | null
+          id?: string
+          is_duplicate?: boolean | null
+          num_comments?: number | null
+          permalink?: string | null
+          reddit_id?: string
+          relevance_score?: number | null
+          score?: number | null
+          selftext?: string | null
+          subreddit?: string
+          title?: string
+          title_hash?: string | null
+          updated_at?: string | null
+          upvotes?: number | null
+          url?: string | null
+        }
+        Relationships: []
+      }
+      refcode_attribution_rules: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          is_global: boolean
+          match_type: string
+          organization_id: string | null
+          pattern: string
+          platform: string
+          priority: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_global?: boolean
+          match_type?: string
+          organization_id?: string | null
+          pattern: string
+          platform: string
+          priority?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_global?: boolean
+          match_type?: string
+          organization_id?: string | null
+          pattern?: string
+          platform?: string
+          priority?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refcode_attribution_rules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refcode_attribution_rules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "refcode_attribution_rules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
+      refcode_mapping_history: {
+        Row: {
+          ad_id: string
+          campaign_id: string | null
+          created_at: string
+          creative_id: string | null
+          first_seen_at: string
+          id: string
+          is_active: boolean | null
+          landing_page: string | null
+          last_seen_at: string
+          organization_id: string
+          refcode: string
+          updated_at: string
+        }
+        Insert: {
+          ad_id: string
+          campaign_id?: string | null
+          created_at?: string
+          creative_id?: string | null
+          first_seen_at?: string
+          id?: string
+          is_active?: boolean | null
+          landing_page?: string | null
+          last_seen_at?: string
+          organization_id: string
+          refcode: string
+          updated_at?: string
+        }
+        Update: {
+          ad_id?: string
+          campaign_id?: string | null
+          created_at?: string
+          creative_id?: string | null
+          first_seen_at?: string
+          id?: string
+          is_active?: boolean | null
+          landing_page?: string | null
+          last_seen_at?: string
+          organization_id?: string
+          refcode?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refcode_mapping_history_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refcode_mapping_history_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "refcode_mapping_history_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
       }
-      profiles: {
+      refcode_mappings: {
         Row: {
-          created_at: string
-          email: string
+          ad_id: string | null
+          ad_name: string | null
+          campaign_id: string | null
+          campaign_name: string | null
+          click_id: string | null
+          created_at: string | null
+          creative_id: string | null
+          creative_name: string | null
+          fbclid: string | null
           id: string
-          is_active: boolean
-          last_sign_in_at: string | null
-          mfa_enabled_at: string | null
-          mfa_method: string | null
-          onboarding_completed: boolean | null
-          onboarding_completed_at: string | null
-          session_revoked_at: string | null
-          updated_at: string
+          landing_page: string | null
+          organization_id: string | null
+          platform: string | null
+          refcode: string
+          sms_campaign_id: string | null
+          updated_at: string | null
+          utm_campaign: string | null
+          utm_medium: string | null
+          utm_source: string | null
         }
         Insert: {
-          created_at?: string
-          email: string
-          id: string
-          is_active?: boolean
-          last_sign_in_at?: string | null
-          mfa_enabled_at?: string | null
-          mfa_method?: string | null
-          onboarding_completed?: boolean | null
-          onboarding_completed_at?: string | null
-          session_revoked_at?: string | null
-          updated_at?: string
+          ad_id?: string | null
+          ad_name?: string | null
+          campaign_id?: string | null
+          campaign_name?: string | null
+          click_id?: string | null
+          created_at?: string | null
+          creative_id?: string | null
+          creative_name?: string | null
+          fbclid?: string | null
+          id?: string
+          landing_page?: string | null
+          organization_id?: string | null
+          platform?: string | null
+          refcode: string
+          sms_campaign_id?: string | null
+          updated_at?: string | null
+          utm_campaign?: string | null
+          utm_medium?: string | null
+          utm_source?: string | null
         }
         Update: {
-          created_at?: string
-          email?: string
+          ad_id?: string | null
+          ad_name?: string | null
+          campaign_id?: string | null
+          campaign_name?: string | null
+          click_id?: string | null
+          created_at?: string | null
+          creative_id?: string | null
+          creative_name?: string | null
+          fbclid?: string | null
           id?: string
-          is_active?: boolean
-          last_sign_in_at?: string | null
-          mfa_enabled_at?: string | null
-          mfa_method?: string | null
-          onboarding_completed?: boolean | null
-          onboarding_completed_at?: string | null
-          session_revoked_at?: string | null
-          updated_at?: string
+          landing_page?: string | null
+          organization_id?: string | null
+          platform?: string | null
+          refcode?: string
+          sms_campaign_id?: string | null
+          updated_at?: string | null
+          utm_campaign?: string | null
+          utm_medium?: string | null
+          utm_source?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "refcode_mappings_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refcode_mappings_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "refcode_mappings_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
       }
-      push_subscriptions: {
+      roi_analytics: {
         Row: {
-          auth: string
+          campaign_id: string
+          campaign_roas: number | null
           created_at: string | null
-          endpoint: string
+          date: string
+          first_touch_attribution: number | null
           id: string
-          p256dh: string
-          user_id: string
+          last_touch_attribution: number | null
+          linear_attribution: number | null
+          ltv_roi: number | null
+          organization_id: string
+          platform: string
+          position_based_attribution: number | null
+          time_decay_attribution: number | null
+          updated_at: string | null
         }
         Insert: {
-          auth: string
+          campaign_id: string
+          campaign_roas?: number | null
           created_at?: string | null
-          endpoint: string
+          date: string
+          first_touch_attribution?: number | null
           id?: string
-          p256dh: string
-          user_id: string
+          last_touch_attribution?: number | null
+          linear_attribution?: number | null
+          ltv_roi?: number | null
+          organization_id: string
+          platform: string
+          position_based_attribution?: number | null
+          time_decay_attribution?: number | null
+          updated_at?: string | null
         }
         Update: {
-          auth?: string
+          campaign_id?: string
+          campaign_roas?: number | null
           created_at?: string | null
-          endpoint?: string
+          date?: string
+          first_touch_attribution?: number | null
           id?: string
-          p256dh?: string
-          user_id?: string
+          last_touch_attribution?: number | null
+          linear_attribution?: number | null
+          ltv_roi?: number | null
+          organization_id?: string
+          platform?: string
+          position_based_attribution?: number | null
+          time_decay_attribution?: number | null
+          updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "roi_analytics_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "roi_analytics_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "roi_analytics_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
       }
-      reddit_posts: {
+      rss_sources: {
         Row: {
-          ai_processed: boolean | null
-          ai_sentiment: number | null
-          ai_sentiment_label: string | null
-          ai_topics: string[] | null
-          author: string | null
+          backoff_until: string | null
+          category: string
+          consecutive_errors: number | null
           created_at: string | null
-          created_utc: string
-          downvotes: number | null
+          deactivated_at: string | null
+          deactivation_reason: string | null
+          error_count: number | null
+          expected_cadence_mins: number | null
+          fetch_error: string | null
+          fetch_frequency_minutes: number | null
+          geographic_scope: string | null
+          health_status: string | null
           id: string
-          is_duplicate: boolean | null
-          num_comments: number | null
-          permalink: string | null
-          reddit_id: string
-          relevance_score: number | null
-          score: number | null
-          selftext: string | null
-          subreddit: string
-          title: string
-          title_hash: string | null
+          is_active: boolean | null
+          last_error_at: string | null
+          last_error_message: string | null
+          last_fetch_status: string | null
+          last_fetched_at: string | null
+          last_success_at: string | null
+          logo_url: string | null
+          name: string
+          policy_domains: string[] | null
+          political_leaning: string | null
+          source_type: string | null
+          state_code: string | null
+          success_count: number | null
+          tags: string[] | null
+          tier: string | null
           updated_at: string | null
-          upvotes: number | null
-          url: string | null
+          url: string
         }
         Insert: {
-          ai_processed?: boolean | null
-          ai_sentiment?: number | null
-          ai_sentiment_label?: string | null
-          ai_topics?: string[] | null
-          author?: string | null
+          backoff_until?: string | null
+          category: string
+          consecutive_errors?: number | null
           created_at?: string | null
-          created_utc: string
-          downvotes?: number | null
+          deactivated_at?: string | null
+          deactivation_reason?: string | null
+          error_count?: number | null
+          expected_cadence_mins?: number | null
+          fetch_error?: string | null
+          fetch_frequency_minutes?: number | null
+          geographic_scope?: string | null
+          health_status?: string | null
           id?: string
-          is_duplicate?: boolean | null
-          num_comments?: number | null
-          permalink?: string | null
-          reddit_id: string
-          relevance_score?: number | null
-          score?: number | null
-          selftext?: string | null
-          subreddit: string
-          title: string
-          title_hash?: string | null
+          is_active?: boolean | null
+          last_error_at?: string | null
+          last_error_message?: string | null
+          last_fetch_status?: string | null
+          last_fetched_at?: string | null
+          last_success_at?: string | null
+          logo_url?: string | null
+          name: string
+          policy_domains?: string[] | null
+          political_leaning?: string | null
+          source_type?: string | null
+          state_code?: string | null
+          success_count?: number | null
+          tags?: string[] | null
+          tier?: string | null
           updated_at?: string | null
-          upvotes?: number | null
-          url?: string | null
+          url: string
         }
         Update: {
-          ai_processed?: boolean | null
-          ai_sentiment?: number | null
-          ai_sentiment_label?: string | null
-          ai_topics?: string[] | null
-          author?: string | null
+          backoff_until?: string | null
+          category?: string
+          consecutive_errors?: number | null
           created_at?: string | null
-          created_utc?: string
-          downvotes?: number | null
+          deactivated_at?: string | null
+          deactivation_reason?: string | null
+          error_count?: number | null
+          expected_cadence_mins?: number | null
+          fetch_error?: string | null
+          fetch_frequency_minutes?: number | null
+          geographic_scope?: string | null
+          health_status?: string | null
           id?: string
-          is_duplicate?: boolean | null
-          num_comments?: number | null
-          permalink?: string | null
-          reddit_id?: string
-          relevance_score?: number | null
-          score?: number | null
-          selftext?: string | null
-          subreddit?: string
-          title?: string
-          title_hash?: string | null
+          is_active?: boolean | null
+          last_error_at?: string | null
+          last_error_message?: string | null
+          last_fetch_status?: string | null
+          last_fetched_at?: string | null
+          last_success_at?: string | null
+          logo_url?: string | null
+          name?: string
+          policy_domains?: string[] | null
+          political_leaning?: string | null
+          source_type?: string | null
+          state_code?: string | null
+          success_count?: number | null
+          tags?: string[] | null
+          tier?: string | null
           updated_at?: string | null
-          upvotes?: number | null
-          url?: string | null
+          url?: string
         }
         Relationships: []
       }
-      refcode_attribution_rules: {
+      saved_donor_segments: {
         Row: {
           created_at: string
+          created_by: string | null
           description: string | null
+          donor_count_snapshot: number | null
+          filters: Json
           id: string
-          is_active: boolean
-          is_global: boolean
-          match_type: string
-          organization_id: string | null
-          pattern: string
-          platform: string
-          priority: number
+          name: string
+          organization_id: string
+          total_value_snapshot: number | null
           updated_at: string
         }
         Insert: {
           created_at?: string
+          created_by?: string | null
           description?: string | null
+          donor_count_snapshot?: number | null
+          filters?: Json
           id?: string
-          is_active?: boolean
-          is_global?: boolean
-          match_type?: string
-          organization_id?: string | null
-          pattern: string
-          platform: string
-          priority?: number
+          name: string
+          organization_id: string
+          total_value_snapshot?: number | null
           updated_at?: string
         }
         Update: {
           created_at?: string
+          created_by?: string | null
           description?: string | null
+          donor_count_snapshot?: number | null
+          filters?: Json
           id?: string
-          is_active?: boolean
-          is_global?: boolean
-          match_type?: string
-          organization_id?: string | null
-          pattern?: string
-          platform?: string
-          priority?: number
+          name?: string
+          organization_id?: string
+          total_value_snapshot?: number | null
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "refcode_attribution_rules_organization_id_fkey"
+            foreignKeyName: "saved_donor_segments_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "client_organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "refcode_attribution_rules_organization_id_fkey"
+            foreignKeyName: "saved_donor_segments_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "org_onboarding_summary"
             referencedColumns: ["organization_id"]
           },
           {
-            foreignKeyName: "refcode_attribution_rules_organization_id_fkey"
+            foreignKeyName: "saved_donor_segments_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "v_integration_summary"
@@ -9123,227 +11149,185 @@ export type Database = {
           },
         ]
       }
-      refcode_mapping_history: {
+      scheduled_jobs: {
         Row: {
-          ad_id: string
-          campaign_id: string | null
+          circuit_failure_threshold: number | null
+          circuit_opened_at: string | null
+          consecutive_failures: number | null
           created_at: string
-          creative_id: string | null
-          first_seen_at: string
+          endpoint: string
           id: string
           is_active: boolean | null
-          landing_page: string | null
-          last_seen_at: string
-          organization_id: string
-          refcode: string
+          is_circuit_open: boolean | null
+          job_name: string
+          job_type: string
+          last_error: string | null
+          last_run_at: string | null
+          last_run_duration_ms: number | null
+          last_run_status: string | null
+          next_run_at: string | null
+          payload: Json | null
+          schedule: string
           updated_at: string
         }
         Insert: {
-          ad_id: string
-          campaign_id?: string | null
+          circuit_failure_threshold?: number | null
+          circuit_opened_at?: string | null
+          consecutive_failures?: number | null
           created_at?: string
-          creative_id?: string | null
-          first_seen_at?: string
+          endpoint: string
           id?: string
           is_active?: boolean | null
-          landing_page?: string | null
-          last_seen_at?: string
-          organization_id: string
-          refcode: string
+          is_circuit_open?: boolean | null
+          job_name: string
+          job_type: string
+          last_error?: string | null
+          last_run_at?: string | null
+          last_run_duration_ms?: number | null
+          last_run_status?: string | null
+          next_run_at?: string | null
+          payload?: Json | null
+          schedule: string
           updated_at?: string
         }
         Update: {
-          ad_id?: string
-          campaign_id?: string | null
+          circuit_failure_threshold?: number | null
+          circuit_opened_at?: string | null
+          consecutive_failures?: number | null
           created_at?: string
-          creative_id?: string | null
-          first_seen_at?: string
+          endpoint?: string
           id?: string
           is_active?: boolean | null
-          landing_page?: string | null
-          last_seen_at?: string
-          organization_id?: string
-          refcode?: string
+          is_circuit_open?: boolean | null
+          job_name?: string
+          job_type?: string
+          last_error?: string | null
+          last_run_at?: string | null
+          last_run_duration_ms?: number | null
+          last_run_status?: string | null
+          next_run_at?: string | null
+          payload?: Json | null
+          schedule?: string
           updated_at?: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "refcode_mapping_history_organization_id_fkey"
-            columns: ["organization_id"]
-            isOneToOne: false
-            referencedRelation: "client_organizations"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "refcode_mapping_history_organization_id_fkey"
-            columns: ["organization_id"]
-            isOneToOne: false
-            referencedRelation: "org_onboarding_summary"
-            referencedColumns: ["organization_id"]
-          },
-          {
-            foreignKeyName: "refcode_mapping_history_organization_id_fkey"
-            columns: ["organization_id"]
-            isOneToOne: false
-            referencedRelation: "v_integration_summary"
-            referencedColumns: ["organization_id"]
-          },
-        ]
+        Relationships: []
       }
-      refcode_mappings: {
+      scheduled_reports: {
         Row: {
-          ad_id: string | null
-          ad_name: string | null
-          campaign_id: string | null
-          campaign_name: string | null
-          click_id: string | null
           created_at: string | null
-          creative_id: string | null
-          creative_name: string | null
-          fbclid: string | null
-          id: string
-          landing_page: string | null
-          organization_id: string | null
-          platform: string | null
-          refcode: string
-          sms_campaign_id: string | null
+          filters: Json | null
+          id: string
+          is_active: boolean | null
+          last_generated_at: string | null
+          next_generation_at: string | null
+          recipients: string[] | null
+          report_name: string
+          report_type: string
+          schedule: string
+          schedule_day: number | null
+          schedule_time: string | null
+          template_id: string | null
           updated_at: string | null
-          utm_campaign: string | null
-          utm_medium: string | null
-          utm_source: string | null
+          user_id: string | null
         }
         Insert: {
-          ad_id?: string | null
-          ad_name?: string | null
-          campaign_id?: string | null
-          campaign_name?: string | null
-          click_id?: string | null
           created_at?: string | null
-          creative_id?: string | null
-          creative_name?: string | null
-          fbclid?: string | null
+          filters?: Json | null
           id?: string
-          landing_page?: string | null
-          organization_id?: string | null
-          platform?: string | null
-          refcode: string
-          sms_campaign_id?: string | null
+          is_active?: boolean | null
+          last_generated_at?: string | null
+          next_generation_at?: string | null
+          recipients?: string[] | null
+          report_name: string
+          report_type: string
+          schedule: string
+          schedule_day?: number | null
+          schedule_time?: string | null
+          template_id?: string | null
           updated_at?: string | null
-          utm_campaign?: string | null
-          utm_medium?: string | null
-          utm_source?: string | null
+          user_id?: string | null
         }
         Update: {
-          ad_id?: string | null
-          ad_name?: string | null
-          campaign_id?: string | null
-          campaign_name?: string | null
-          click_id?: string | null
           created_at?: string | null
-          creative_id?: string | null
-          creative_name?: string | null
-          fbclid?: string | null
+          filters?: Json | null
           id?: string
-          landing_page?: string | null
-          organization_id?: string | null
-          platform?: string | null
-          refcode?: string
-          sms_campaign_id?: string | null
+          is_active?: boolean | null
+          last_generated_at?: string | null
+          next_generation_at?: string | null
+          recipients?: string[] | null
+          report_name?: string
+          report_type?: string
+          schedule?: string
+          schedule_day?: number | null
+          schedule_time?: string | null
+          template_id?: string | null
           updated_at?: string | null
-          utm_campaign?: string | null
-          utm_medium?: string | null
-          utm_source?: string | null
+          user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "refcode_mappings_organization_id_fkey"
-            columns: ["organization_id"]
+            foreignKeyName: "scheduled_reports_template_id_fkey"
+            columns: ["template_id"]
             isOneToOne: false
-            referencedRelation: "client_organizations"
+            referencedRelation: "export_templates"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "refcode_mappings_organization_id_fkey"
-            columns: ["organization_id"]
-            isOneToOne: false
-            referencedRelation: "org_onboarding_summary"
-            referencedColumns: ["organization_id"]
-          },
-          {
-            foreignKeyName: "refcode_mappings_organization_id_fkey"
-            columns: ["organization_id"]
-            isOneToOne: false
-            referencedRelation: "v_integration_summary"
-            referencedColumns: ["organization_id"]
-          },
         ]
       }
-      roi_analytics: {
+      seat_change_log: {
         Row: {
-          campaign_id: string
-          campaign_roas: number | null
+          change_type: string
+          changed_by: string
           created_at: string | null
-          date: string
-          first_touch_attribution: number | null
           id: string
-          last_touch_attribution: number | null
-          linear_attribution: number | null
-          ltv_roi: number | null
+          new_bonus: number | null
+          new_limit: number | null
+          old_bonus: number | null
+          old_limit: number | null
           organization_id: string
-          platform: string
-          position_based_attribution: number | null
-          time_decay_attribution: number | null
-          updated_at: string | null
+          reason: string | null
         }
         Insert: {
-          campaign_id: string
-          campaign_roas?: number | null
+          change_type: string
+          changed_by: string
           created_at?: string | null
-          date: string
-          first_touch_attribution?: number | null
           id?: string
-          last_touch_attribution?: number | null
-          linear_attribution?: number | null
-          ltv_roi?: number | null
+          new_bonus?: number | null
+          new_limit?: number | null
+          old_bonus?: number | null
+          old_limit?: number | null
           organization_id: string
-          platform: string
-          position_based_attribution?: number | null
-          time_decay_attribution?: number | null
-          updated_at?: string | null
+          reason?: string | null
         }
         Update: {
-          campaign_id?: string
-          campaign_roas?: number | null
+          change_type?: string
+          changed_by?: string
           created_at?: string | null
-          date?: string
-          first_touch_attribution?: number | null
           id?: string
-          last_touch_attribution?: number | null
-          linear_attribution?: number | null
-          ltv_roi?: number | null
+          new_bonus?: number | null
+          new_limit?: number | null
+          old_bonus?: number | null
+          old_limit?: number | null
           organization_id?: string
-          platform?: string
-          position_based_attribution?: number | null
-          time_decay_attribution?: number | null
-          updated_at?: string | null
+          reason?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "roi_analytics_organization_id_fkey"
+            foreignKeyName: "seat_change_log_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "client_organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "roi_analytics_organization_id_fkey"
+            foreignKeyName: "seat_change_log_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "org_onboarding_summary"
             referencedColumns: ["organization_id"]
           },
           {
-            foreignKeyName: "roi_analytics_organization_id_fkey"
+            foreignKeyName: "seat_change_log_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "v_integration_summary"
@@ -9351,417 +11335,505 @@ export type Database = {
           },
         ]
       }
-      rss_sources: {
+      seat_requests: {
         Row: {
-          backoff_until: string | null
-          category: string
-          consecutive_errors: number | null
+          admin_notes: string | null
           created_at: string | null
-          deactivated_at: string | null
-          deactivation_reason: string | null
-          error_count: number | null
-          expected_cadence_mins: number | null
-          fetch_error: string | null
-          fetch_frequency_minutes: number | null
-          geographic_scope: string | null
-          health_status: string | null
+          current_seat_limit: number
           id: string
-          is_active: boolean | null
-          last_error_at: string | null
-          last_error_message: string | null
-          last_fetch_status: string | null
-          last_fetched_at: string | null
-          last_success_at: string | null
-          logo_url: string | null
-          name: string
-          policy_domains: string[] | null
-          political_leaning: string | null
-          source_type: string | null
-          state_code: string | null
-          success_count: number | null
-          tags: string[] | null
-          tier: string | null
+          organization_id: string
+          processed_at: string | null
+          processed_by: string | null
+          reason: string | null
+          requested_by: string
+          requested_seats: number
+          status: string
           updated_at: string | null
-          url: string
         }
         Insert: {
-          backoff_until?: string | null
-          category: string
-          consecutive_errors?: number | null
-          created_at?: string | null
-          deactivated_at?: string | null
-          deactivation_reason?: string | null
-          error_count?: number | null
-          expected_cadence_mins?: number | null
-          fetch_error?: string | null
-          fetch_frequency_minutes?: number | null
-          geographic_scope?: string | null
-          health_status?: string | null
-          id?: string
-          is_active?: boolean | null
-          last_error_at?: string | null
-          last_error_message?: string | null
-          last_fetch_status?: string | null
-          last_fetched_at?: string | null
-          last_success_at?: string | null
-          logo_url?: string | null
-          name: string
-          policy_domains?: string[] | null
-          political_leaning?: string | null
-          source_type?: string | null
-          state_code?: string | null
-          success_count?: number | null
-          tags?: string[] | null
-          tier?: string | null
-          updated_at?: string | null
-          url: string
-        }
-        Update: {
-          backoff_until?: string | null
-          category?: string
-          consecutive_errors?: number | null
+          admin_notes?: string | null
           created_at?: string | null
-          deactivated_at?: string | null
-          deactivation_reason?: string | null
-          error_count?: number | null
-          expected_cadence_mins?: number | null
-          fetch_error?: string | null
-          fetch_frequency_minutes?: number | null
-          geographic_scope?: string | null
-          health_status?: string | null
+          current_seat_limit: number
           id?: string
-          is_active?: boolean | null
-          last_error_at?: string | null
-          last_error_message?: string | null
-          last_fetch_status?: string | null
-          last_fetched_at?: string | null
-          last_success_at?: string | null
-          logo_url?: string | null
-          name?: string
-          policy_domains?: string[] | null
-          political_leaning?: string | null
-          source_type?: string | null
-          state_code?: string | null
-          success_count?: number | null
-          tags?: string[] | null
-          tier?: string | null
+          organization_id: string
+          processed_at?: string | null
+          processed_by?: string | null
+          reason?: string | null
+          requested_by: string
+          requested_seats: number
+          status?: string
           updated_at?: string | null
-          url?: string
         }
-        Relationships: []
+        Update: {
+          admin_notes?: string | null
+          created_at?: string | null
+          current_seat_limit?: number
+          id?: string
+          organization_id?: string
+          processed_at?: string | null
+          processed_by?: string | null
+          reason?: string | null
+          requested_by?: string
+          requested_seats?: number
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "seat_requests_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seat_requests_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "seat_requests_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
       }
-      saved_donor_segments: {
+      segment_audience_sync_log: {
         Row: {
-          created_at: string
+          action: string
+          added_count: number
+          completed_at: string | null
           created_by: string | null
-          description: string | null
-          donor_count_snapshot: number | null
-          filters: Json
+          destination: string
+          eligible_count: number
+          error_message: string | null
+          estimated_match_rate: number | null
           id: string
-          name: string
           organization_id: string
-          total_value_snapshot: number | null
-          updated_at: string
+          rejected_count: number
+          removed_count: number
+          segment_id: string
+          segment_size: number
+          started_at: string
+          status: string
+          sync_id: string | null
+          triggered_by: string
         }
         Insert: {
-          created_at?: string
+          action: string
+          added_count?: number
+          completed_at?: string | null
           created_by?: string | null
-          description?: string | null
-          donor_count_snapshot?: number | null
-          filters?: Json
+          destination: string
+          eligible_count?: number
+          error_message?: string | null
+          estimated_match_rate?: number | null
           id?: string
-          name: string
           organization_id: string
-          total_value_snapshot?: number | null
-          updated_at?: string
+          rejected_count?: number
+          removed_count?: number
+          segment_id: string
+          segment_size?: number
+          started_at?: string
+          status: string
+          sync_id?: string | null
+          triggered_by?: string
         }
         Update: {
-          created_at?: string
+          action?: string
+          added_count?: number
+          completed_at?: string | null
           created_by?: string | null
-          description?: string | null
-          donor_count_snapshot?: number | null
-          filters?: Json
+          destination?: string
+          eligible_count?: number
+          error_message?: string | null
+          estimated_match_rate?: number | null
           id?: string
-          name?: string
           organization_id?: string
-          total_value_snapshot?: number | null
-          updated_at?: string
+          rejected_count?: number
+          removed_count?: number
+          segment_id?: string
+          segment_size?: number
+          started_at?: string
+          status?: string
+          sync_id?: string | null
+          triggered_by?: string
         }
         Relationships: [
           {
-            foreignKeyName: "saved_donor_segments_organization_id_fkey"
+            foreignKeyName: "segment_audience_sync_log_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "client_organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "saved_donor_segments_organization_id_fkey"
+            foreignKeyName: "segment_audience_sync_log_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "org_onboarding_summary"
             referencedColumns: ["organization_id"]
           },
           {
-            foreignKeyName: "saved_donor_segments_organization_id_fkey"
+            foreignKeyName: "segment_audience_sync_log_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "v_integration_summary"
             referencedColumns: ["organization_id"]
           },
+          {
+            foreignKeyName: "segment_audience_sync_log_segment_id_fkey"
+            columns: ["segment_id"]
+            isOneToOne: false
+            referencedRelation: "saved_donor_segments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "segment_audience_sync_log_sync_id_fkey"
+            columns: ["sync_id"]
+            isOneToOne: false
+            referencedRelation: "segment_audience_syncs"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      scheduled_jobs: {
+      segment_audience_sync_members: {
         Row: {
-          circuit_failure_threshold: number | null
-          circuit_opened_at: string | null
-          consecutive_failures: number | null
+          member_key: string
+          payload: string[]
+          sync_id: string
+          synced_at: string
+        }
+        Insert: {
+          member_key: string
+          payload: string[]
+          sync_id: string
+          synced_at?: string
+        }
+        Update: {
+          member_key?: string
+          payload?: string[]
+          sync_id?: string
+          synced_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "segment_audience_sync_members_sync_id_fkey"
+            columns: ["sync_id"]
+            isOneToOne: false
+            referencedRelation: "segment_audience_syncs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      segment_audience_syncs: {
+        Row: {
+          auto_sync: boolean
           created_at: string
-          endpoint: string
+          created_by: string | null
+          destination: string
+          estimated_match_rate: number | null
+          external_id: string | null
+          external_name: string | null
           id: string
-          is_active: boolean | null
-          is_circuit_open: boolean | null
-          job_name: string
-          job_type: string
           last_error: string | null
-          last_run_at: string | null
-          last_run_duration_ms: number | null
-          last_run_status: string | null
-          next_run_at: string | null
-          payload: Json | null
-          schedule: string
+          last_synced_at: string | null
+          member_count: number
+          organization_id: string
+          segment_id: string
+          segment_size: number
+          status: string
           updated_at: string
         }
         Insert: {
-          circuit_failure_threshold?: number | null
-          circuit_opened_at?: string | null
-          consecutive_failures?: number | null
+          auto_sync?: boolean
           created_at?: string
-          endpoint: string
+          created_by?: string | null
+          destination: string
+          estimated_match_rate?: number | null
+          external_id?: string | null
+          external_name?: string | null
           id?: string
-          is_active?: boolean | null
-          is_circuit_open?: boolean | null
-          job_name: string
-          job_type: string
           last_error?: string | null
-          last_run_at?: string | null
-          last_run_duration_ms?: number | null
-          last_run_status?: string | null
-          next_run_at?: string | null
-          payload?: Json | null
-          schedule: string
+          last_synced_at?: string | null
+          member_count?: number
+          organization_id: string
+          segment_id: string
+          segment_size?: number
+          status?: string
           updated_at?: string
         }
         Update: {
-          circuit_failure_threshold?: number | null
-          circuit_opened_at?: string | null
-          consecutive_failures?: number | null
+          auto_sync?: boolean
           created_at?: string
-          endpoint?: string
+          created_by?: string | null
+          destination?: string
+          estimated_match_rate?: number | null
+          external_id?: string | null
+          external_name?: string | null
           id?: string
-          is_active?: boolean | null
-          is_circuit_open?: boolean | null
-          job_name?: string
-          job_type?: string
           last_error?: string | null
-          last_run_at?: string | null
-          last_run_duration_ms?: number | null
-          last_run_status?: string | null
-          next_run_at?: string | null
-          payload?: Json | null
-          schedule?: string
+          last_synced_at?: string | null
+          member_count?: number
+          organization_id?: string
+          segment_id?: string
+          segment_size?: number
+          status?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "segment_audience_syncs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "segment_audience_syncs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "segment_audience_syncs_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "segment_audience_syncs_segment_id_fkey"
+            columns: ["segment_id"]
+            isOneToOne: false
+            referencedRelation: "saved_donor_segments"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      scheduled_reports: {
+      segment_membership_changes: {
         Row: {
-          created_at: string | null
-          filters: Json | null
+          attributes: Json | null
+          change_type: string
+          created_at: string
+          donor_email: string
+          donor_key: string | null
+          donor_name: string | null
           id: string
-          is_active: boolean | null
-          last_generated_at: string | null
-          next_generation_at: string | null
-          recipients: string[] | null
-          report_name: string
-          report_type: string
-          schedule: string
-          schedule_day: number | null
-          schedule_time: string | null
-          template_id: string | null
-          updated_at: string | null
-          user_id: string | null
+          organization_id: string
+          previous_attributes: Json | null
+          reason_fields: string[]
+          reasons: Json
+          segment_id: string
+          snapshot_id: string
         }
         Insert: {
-          created_at?: string | null
-          filters?: Json | null
+          attributes?: Json | null
+          change_type: string
+          created_at?: string
+          donor_email: string
+          donor_key?: string | null
+          donor_name?: string | null
           id?: string
-          is_active?: boolean | null
-          last_generated_at?: string | null
-          next_generation_at?: string | null
-          recipients?: string[] | null
-          report_name: string
-          report_type: string
-          schedule: string
-          schedule_day?: number | null
-          schedule_time?: string | null
-          template_id?: string | null
-          updated_at?: string | null
-          user_id?: string | null
+          organization_id: string
+          previous_attributes?: Json | null
+          reason_fields?: string[]
+          reasons?: Json
+          segment_id: string
+          snapshot_id: string
         }
         Update: {
-          created_at?: string | null
-          filters?: Json | null
+          attributes?: Json | null
+          change_type?: string
+          created_at?: string
+          donor_email?: string
+          donor_key?: string | null
+          donor_name?: string | null
           id?: string
-          is_active?: boolean | null
-          last_generated_at?: string | null
-          next_generation_at?: string | null
-          recipients?: string[] | null
-          report_name?: string
-          report_type?: string
-          schedule?: string
-          schedule_day?: number | null
-          schedule_time?: string | null
-          template_id?: string | null
-          updated_at?: string | null
-          user_id?: string | null
+          organization_id?: string
+          previous_attributes?: Json | null
+          reason_fields?: string[]
+          reasons?: Json
+          segment_id?: string
+          snapshot_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "scheduled_reports_template_id_fkey"
-            columns: ["template_id"]
+            foreignKeyName: "segment_membership_changes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "segment_membership_changes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "segment_membership_changes_organization_id_fkey"
+            columns: ["organization_id"]
             isOneToOne: false
-            referencedRelation: "export_templates"
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "segment_membership_changes_segment_id_fkey"
+            columns: ["segment_id"]
+            isOneToOne: false
+            referencedRelation: "saved_donor_segments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "segment_membership_changes_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "segment_membership_snapshots"
             referencedColumns: ["id"]
           },
         ]
       }
-      seat_change_log: {
+      segment_membership_members: {
         Row: {
-          change_type: string
-          changed_by: string
-          created_at: string | null
-          id: string
-          new_bonus: number | null
-          new_limit: number | null
-          old_bonus: number | null
-          old_limit: number | null
+          attributes: Json
+          condition_results: Json
+          donor_email: string
+          donor_key: string | null
+          donor_name: string | null
+          entered_at: string
+          last_seen_at: string
           organization_id: string
-          reason: string | null
+          segment_id: string
         }
         Insert: {
-          change_type: string
-          changed_by: string
-          created_at?: string | null
-          id?: string
-          new_bonus?: number | null
-          new_limit?: number | null
-          old_bonus?: number | null
-          old_limit?: number | null
+          attributes?: Json
+          condition_results?: Json
+          donor_email: string
+          donor_key?: string | null
+          donor_name?: string | null
+          entered_at?: string
+          last_seen_at?: string
           organization_id: string
-          reason?: string | null
+          segment_id: string
         }
         Update: {
-          change_type?: string
-          changed_by?: string
-          created_at?: string | null
-          id?: string
-          new_bonus?: number | null
-          new_limit?: number | null
-          old_bonus?: number | null
-          old_limit?: number | null
+          attributes?: Json
+          condition_results?: Json
+          donor_email?: string
+          donor_key?: string | null
+          donor_name?: string | null
+          entered_at?: string
+          last_seen_at?: string
           organization_id?: string
-          reason?: string | null
+          segment_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "seat_change_log_organization_id_fkey"
+            foreignKeyName: "segment_membership_members_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "client_organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "seat_change_log_organization_id_fkey"
+            foreignKeyName: "segment_membership_members_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "org_onboarding_summary"
             referencedColumns: ["organization_id"]
           },
           {
-            foreignKeyName: "seat_change_log_organization_id_fkey"
+            foreignKeyName: "segment_membership_members_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "v_integration_summary"
             referencedColumns: ["organization_id"]
           },
+          {
+            foreignKeyName: "segment_membership_members_segment_id_fkey"
+            columns: ["segment_id"]
+            isOneToOne: false
+            referencedRelation: "saved_donor_segments"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      seat_requests: {
+      segment_membership_snapshots: {
         Row: {
-          admin_notes: string | null
-          created_at: string | null
-          current_seat_limit: number
+          captured_at: string
+          entered_count: number
+          exited_count: number
+          filters_hash: string
           id: string
+          is_baseline: boolean
+          member_count: number
           organization_id: string
-          processed_at: string | null
-          processed_by: string | null
-          reason: string | null
-          requested_by: string
-          requested_seats: number
-          status: string
-          updated_at: string | null
+          segment_id: string
+          total_value: number
+          triggered_by: string
         }
         Insert: {
-          admin_notes?: string | null
-          created_at?: string | null
-          current_seat_limit: number
+          captured_at?: string
+          entered_count?: number
+          exited_count?: number
+          filters_hash: string
           id?: string
+          is_baseline?: boolean
+          member_count?: number
           organization_id: string
-          processed_at?: string | null
-          processed_by?: string | null
-          reason?: string | null
-          requested_by: string
-          requested_seats: number
-          status?: string
-          updated_at?: string | null
+          segment_id: string
+          total_value?: number
+          triggered_by?: string
         }
         Update: {
-          admin_notes?: string | null
-          created_at?: string | null
-          current_seat_limit?: number
+          captured_at?: string
+          entered_count?: number
+          exited_count?: number
+          filters_hash?: string
           id?: string
+          is_baseline?: boolean
+          member_count?: number
           organization_id?: string
-          processed_at?: string | null
-          processed_by?: string | null
-          reason?: string | null
-          requested_by?: string
-          requested_seats?: number
-          status?: string
-          updated_at?: string | null
+          segment_id?: string
+          total_value?: number
+          triggered_by?: string
         }
         Relationships: [
           {
-            foreignKeyName: "seat_requests_organization_id_fkey"
+            foreignKeyName: "segment_membership_snapshots_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "client_organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "seat_requests_organization_id_fkey"
+            foreignKeyName: "segment_membership_snapshots_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "org_onboarding_summary"
             referencedColumns: ["organization_id"]
           },
           {
-            foreignKeyName: "seat_requests_organization_id_fkey"
+            foreignKeyName: "segment_membership_snapshots_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "v_integration_summary"
             referencedColumns: ["organization_id"]
           },
+          {
+            foreignKeyName: "segment_membership_snapshots_segment_id_fkey"
+            columns: ["segment_id"]
+            isOneToOne: false
+            referencedRelation: "saved_donor_segments"
+            referencedColumns: ["id"]
+          },
         ]
       }
       send_time_optimizations: {
@@ -10564,11 +12636,13 @@ export type Database = {
       state_actions: {
         Row: {
           action_type: string
+          affected_organizations: string[] | null
           created_at: string
           description: string | null
           effective_date: string | null
           id: string
           introduced_date: string | null
+          matched_rules: Json
           relevance_score: number | null
           source_url: string | null
           sponsor: string | null
@@ -10576,16 +12650,19 @@ export type Database = {
           status: string | null
           summary: string | null
           tags: string[] | null
+          threat_level: string | null
           title: string
           updated_at: string
         }
         Insert: {
           action_type: string
+          affected_organizations?: string[] | null
           created_at?: string
           description?: string | null
           effective_date?: string | null
           id?: string
           introduced_date?: string | null
+          matched_rules?: Json
           relevance_score?: number | null
           source_url?: string | null
           sponsor?: string | null
@@ -10593,16 +12670,19 @@ export type Database = {
           status?: string | null
           summary?: string | null
           tags?: string[] | null
+          threat_level?: string | null
           title: string
           updated_at?: string
         }
         Update: {
           action_type?: string
+          affected_organizations?: string[] | null
           created_at?: string
           description?: string | null
           effective_date?: string | null
           id?: string
           introduced_date?: string | null
+          matched_rules?: Json
           relevance_score?: number | null
           source_url?: string | null
           sponsor?: string | null
@@ -10610,11 +12690,86 @@ export type Database = {
           status?: string | null
           summary?: string | null
           tags?: string[] | null
+          threat_level?: string | null
           title?: string
           updated_at?: string
         }
         Relationships: []
       }
+      story_cluster_items: {
+        Row: {
+          cluster_id: string
+          created_at: string
+          item_id: string
+          item_type: string
+          lsh_buckets: string[]
+          minhash: number[]
+          published_at: string
+          similarity: number | null
+          title: string
+        }
+        Insert: {
+          cluster_id: string
+          created_at?: string
+          item_id: string
+          item_type: string
+          lsh_buckets: string[]
+          minhash: number[]
+          published_at: string
+          similarity?: number | null
+          title: string
+        }
+        Update: {
+          cluster_id?: string
+          created_at?: string
+          item_id?: string
+          item_type?: string
+          lsh_buckets?: string[]
+          minhash?: number[]
+          published_at?: string
+          similarity?: number | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "story_cluster_items_cluster_id_fkey"
+            columns: ["cluster_id"]
+            isOneToOne: false
+            referencedRelation: "story_clusters"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      story_clusters: {
+        Row: {
+          created_at: string
+          first_seen_at: string
+          id: string
+          item_count: number
+          last_seen_at: string
+          source_types: string[]
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          first_seen_at: string
+          id: string
+          item_count?: number
+          last_seen_at: string
+          source_types?: string[]
+          title: string
+        }
+        Update: {
+          created_at?: string
+          first_seen_at?: string
+          id?: string
+          item_count?: number
+          last_seen_at?: string
+          source_types?: string[]
+          title?: string
+        }
+        Relationships: []
+      }
       submission_notes: {
         Row: {
           admin_id: string
@@ -10871,35 +13026,216 @@ export type Database = {
         }
         Relationships: []
       }
-      system_health_metrics: {
+      system_health_metrics: {
+        Row: {
+          component: string | null
+          id: string
+          measured_at: string | null
+          metadata: Json | null
+          metric_name: string
+          metric_unit: string | null
+          metric_value: number | null
+        }
+        Insert: {
+          component?: string | null
+          id?: string
+          measured_at?: string | null
+          metadata?: Json | null
+          metric_name: string
+          metric_unit?: string | null
+          metric_value?: number | null
+        }
+        Update: {
+          component?: string | null
+          id?: string
+          measured_at?: string | null
+          metadata?: Json | null
+          metric_name?: string
+          metric_unit?: string | null
+          metric_value?: number | null
+        }
+        Relationships: []
+      }
+      texting_compliance_settings: {
+        Row: {
+          allowed_link_domains: string[]
+          created_at: string
+          enabled_packs: string[]
+          organization_id: string
+          paid_for_by: string | null
+          quiet_hours_end: number
+          quiet_hours_start: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          allowed_link_domains?: string[]
+          created_at?: string
+          enabled_packs?: string[]
+          organization_id: string
+          paid_for_by?: string | null
+          quiet_hours_end?: number
+          quiet_hours_start?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          allowed_link_domains?: string[]
+          created_at?: string
+          enabled_packs?: string[]
+          organization_id?: string
+          paid_for_by?: string | null
+          quiet_hours_end?: number
+          quiet_hours_start?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "texting_compliance_settings_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "texting_compliance_settings_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "texting_compliance_settings_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
+      threat_taxonomy_matches: {
+        Row: {
+          affected_organizations: string[]
+          matched_rules: Json
+          organization_id: string
+          score: number
+          scored_at: string
+          source_id: string
+          source_type: string
+          taxonomy_version: number
+          taxonomy_version_id: string | null
+          threat_level: string
+        }
+        Insert: {
+          affected_organizations?: string[]
+          matched_rules?: Json
+          organization_id: string
+          score?: number
+          scored_at?: string
+          source_id: string
+          source_type: string
+          taxonomy_version: number
+          taxonomy_version_id?: string | null
+          threat_level: string
+        }
+        Update: {
+          affected_organizations?: string[]
+          matched_rules?: Json
+          organization_id?: string
+          score?: number
+          scored_at?: string
+          source_id?: string
+          source_type?: string
+          taxonomy_version?: number
+          taxonomy_version_id?: string | null
+          threat_level?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "threat_taxonomy_matches_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "threat_taxonomy_matches_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "threat_taxonomy_matches_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "threat_taxonomy_matches_taxonomy_version_id_fkey"
+            columns: ["taxonomy_version_id"]
+            isOneToOne: false
+            referencedRelation: "threat_taxonomy_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      threat_taxonomy_versions: {
         Row: {
-          component: string | null
+          created_at: string
+          created_by: string | null
           id: string
-          measured_at: string | null
-          metadata: Json | null
-          metric_name: string
-          metric_unit: string | null
-          metric_value: number | null
+          is_active: boolean
+          notes: string | null
+          organization_id: string
+          taxonomy: Json
+          version: number
         }
         Insert: {
-          component?: string | null
+          created_at?: string
+          created_by?: string | null
           id?: string
-          measured_at?: string | null
-          metadata?: Json | null
-          metric_name: string
-          metric_unit?: string | null
-          metric_value?: number | null
+          is_active?: boolean
+          notes?: string | null
+          organization_id: string
+          taxonomy: Json
+          version: number
         }
         Update: {
-          component?: string | null
+          created_at?: string
+          created_by?: string | null
           id?: string
-          measured_at?: string | null
-          metadata?: Json | null
-          metric_name?: string
-          metric_unit?: string | null
-          metric_value?: number | null
+          is_active?: boolean
+          notes?: string | null
+          organization_id?: string
+          taxonomy?: Json
+          version?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "threat_taxonomy_versions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "threat_taxonomy_versions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "threat_taxonomy_versions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
       }
       topic_baselines: {
         Row: {
@@ -10940,6 +13276,141 @@ export type Database = {
         }
         Relationships: []
       }
+      tracked_link_variants: {
+        Row: {
+          actblue_form: string
+          amounts: number[] | null
+          created_at: string
+          default_amount: number | null
+          id: string
+          is_active: boolean
+          label: string
+          link_id: string
+          organization_id: string
+          recurring: boolean
+          refcode: string | null
+          updated_at: string
+          weight: number
+        }
+        Insert: {
+          actblue_form: string
+          amounts?: number[] | null
+          created_at?: string
+          default_amount?: number | null
+          id?: string
+          is_active?: boolean
+          label: string
+          link_id: string
+          organization_id: string
+          recurring?: boolean
+          refcode?: string | null
+          updated_at?: string
+          weight?: number
+        }
+        Update: {
+          actblue_form?: string
+          amounts?: number[] | null
+          created_at?: string
+          default_amount?: number | null
+          id?: string
+          is_active?: boolean
+          label?: string
+          link_id?: string
+          organization_id?: string
+          recurring?: boolean
+          refcode?: string | null
+          updated_at?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tracked_link_variants_link_id_fkey"
+            columns: ["link_id"]
+            isOneToOne: false
+            referencedRelation: "tracked_links"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tracked_link_variants_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tracked_link_variants_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "tracked_link_variants_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
+      tracked_links: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          organization_id: string
+          slug: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          organization_id: string
+          slug: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          organization_id?: string
+          slug?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tracked_links_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "client_organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tracked_links_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "org_onboarding_summary"
+            referencedColumns: ["organization_id"]
+          },
+          {
+            foreignKeyName: "tracked_links_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "v_integration_summary"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
       transaction_attribution: {
         Row: {
           attribution_calculated_at: string | null
@@ -11183,6 +13654,8 @@ export type Database = {
           mentions_count: number | null
           min_hourly: number | null
           news_mentions: number | null
+          reddit_hourly_average: number
+          reddit_mentions: number
           relative_std_dev: number | null
           social_mentions: number | null
         }
@@ -11200,6 +13673,8 @@ export type Database = {
           mentions_count?: number | null
           min_hourly?: number | null
           news_mentions?: number | null
+          reddit_hourly_average?: number
+          reddit_mentions?: number
           relative_std_dev?: number | null
           social_mentions?: number | null
         }
@@ -11217,6 +13692,8 @@ export type Database = {
           mentions_count?: number | null
           min_hourly?: number | null
           news_mentions?: number | null
+          reddit_hourly_average?: number
+          reddit_mentions?: number
           relative_std_dev?: number | null
           social_mentions?: number | null
         }
@@ -11563,6 +14040,7 @@ export type Database = {
           decision_score: number | null
           embedding: string | null
           embedding_generated_at: string | null
+          embedding_model: string | null
           embedding_text: string | null
           entity_type: string | null
           event_key: string
@@ -11642,6 +14120,7 @@ export type Database = {
           decision_score?: number | null
           embedding?: string | null
           embedding_generated_at?: string | null
+          embedding_model?: string | null
           embedding_text?: string | null
           entity_type?: string | null
           event_key: string
@@ -11721,6 +14200,7 @@ export type Database = {
           decision_score?: number | null
           embedding?: string | null
           embedding_generated_at?: string | null
+          embedding_model?: string | null
           embedding_text?: string | null
           entity_type?: string | null
           event_key?: string
@@ -12713,75 +15193,108 @@ export type Database = {
         Row: {
           created_at: string
           event_types: string[] | null
+          failure_count: number
           headers: Json | null
           id: string
           is_active: boolean | null
+          last_triggered_at: string | null
           name: string
           secret: string | null
+          success_count: number
           updated_at: string
           url: string
+          webhook_type: string
         }
         Insert: {
           created_at?: string
           event_types?: string[] | null
+          failure_count?: number
           headers?: Json | null
           id?: string
           is_active?: boolean | null
+          last_triggered_at?: string | null
           name: string
           secret?: string | null
+          success_count?: number
           updated_at?: string
           url: string
+          webhook_type?: string
         }
         Update: {
           created_at?: string
           event_types?: string[] | null
+          failure_count?: number
           headers?: Json | null
           id?: string
           is_active?: boolean | null
+          last_triggered_at?: string | null
           name?: string
           secret?: string | null
+          success_count?: number
           updated_at?: string
           url?: string
+          webhook_type?: string
         }
         Relationships: []
       }
       webhook_deliveries: {
         Row: {
+          attempts: number
           created_at: string
+          dead_lettered_at: string | null
           delivered_at: string | null
+          duration_ms: number | null
           error_message: string | null
+          event_id: string | null
           event_type: string
           id: string
+          last_attempt_at: string | null
+          next_attempt_at: string | null
           payload: Json
           response_body: string | null
           response_code: number | null
           retry_count: number | null
+          schema_version: number | null
           status: string | null
           webhook_id: string | null
         }
         Insert: {
+          attempts?: number
           created_at?: string
+          dead_lettered_at?: string | null
           delivered_at?: string | null
+          duration_ms?: number | null
           error_message?: string | null
+          event_id?: string | null
           event_type: string
           id?: string
+          last_attempt_at?: string | null
+          next_attempt_at?: string | null
           payload: Json
           response_body?: string | null
           response_code?: number | null
           retry_count?: number | null
+          schema_version?: number | null
           status?: string | null
           webhook_id?: string | null
         }
         Update: {
+          attempts?: number
           created_at?: string
+          dead_lettered_at?: string | null
           delivered_at?: string | null
+          duration_ms?: number | null
           error_message?: string | null
+          event_id?: string | null
           event_type?: string
           id?: string
+          last_attempt_at?: string | null
+          next_attempt_at?: string | null
           payload?: Json
           response_body?: string | null
           response_code?: number | null
           retry_count?: number | null
+          schema_version?: number | null
           status?: string | null
           webhook_id?: string | null
         }
@@ -12874,6 +15387,8 @@ export type Database = {
         Row: {
           ab_test_name: string | null
           ab_test_variation: string | null
+          amount_stddev: number | null
+          amount_sum_squares: number | null
           avg_donation: number | null
           donations: number | null
           first_donation: string | null
@@ -14857,6 +17372,35 @@ export type Database = {
           stale_rss: number
         }[]
       }
+      claim_due_webhook_deliveries: {
+        Args: { p_lease_seconds?: number; p_limit?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          dead_lettered_at: string | null
+          delivered_at: string | null
+          duration_ms: number | null
+          error_message: string | null
+          event_id: string | null
+          event_type: string
+          id: string
+          last_attempt_at: string | null
+          next_attempt_at: string | null
+          payload: Json
+          response_body: string | null
+          response_code: number | null
+          retry_count: number | null
+          schema_version: number | null
+          status: string | null
+          webhook_id: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "webhook_deliveries"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
       cleanup_expired_invite_codes: { Args: never; Returns: undefined }
       cleanup_expired_sessions: { Args: never; Returns: number }
       cleanup_old_cache: { Args: never; Returns: number }
@@ -15210,6 +17754,14 @@ export type Database = {
         }
         Returns: Json
       }
+      get_email_metrics: {
+        Args: {
+          p_end_date: string
+          p_organization_id: string
+          p_start_date: string
+        }
+        Returns: Json
+      }
       get_export_data: {
         Args: {
           p_end_date?: string
@@ -15219,6 +17771,19 @@ export type Database = {
         }
         Returns: Json
       }
+      get_google_ads_accounts_due_for_sync: {
+        Args: { p_limit?: number }
+        Returns: {
+          credential_id: string
+          date_range_days: number
+          interval_minutes: number
+          last_sync_at: string
+          minutes_overdue: number
+          organization_id: string
+          organization_name: string
+          sync_priority: string
+        }[]
+      }
       get_invitation_by_token: {
         Args: { p_token: string }
         Returns: {
@@ -15268,6 +17833,25 @@ export type Database = {
           unique_sessions: number
         }[]
       }
+      get_link_variant_metrics: {
+        Args: {
+          p_end_date: string
+          p_organization_id: string
+          p_start_date: string
+        }
+        Returns: {
+          clicks: number
+          conversions: number
+          link_id: string
+          revenue: number
+          unique_visitors: number
+          variant_id: string
+        }[]
+      }
+      get_llm_budget_status: {
+        Args: { p_organization_id: string }
+        Returns: Json
+      }
       get_meta_accounts_due_for_sync: {
         Args: { p_limit?: number }
         Returns: {
@@ -15750,12 +18334,46 @@ export type Database = {
           rule_id: string
         }[]
       }
+      match_trend_events: {
+        Args: {
+          p_match_count?: number
+          p_match_threshold?: number
+          p_model: string
+          p_query_embedding: string
+          p_since?: string
+        }
+        Returns: {
+          event_key: string
+          event_title: string
+          id: string
+          last_seen_at: string
+          similarity: number
+        }[]
+      }
       populate_donor_demographics_bulk: {
         Args: { _organization_id: string }
         Returns: Json
       }
+      publish_threat_taxonomy: {
+        Args: {
+          p_created_by?: string
+          p_notes?: string
+          p_organization_id: string
+          p_taxonomy: Json
+        }
+        Returns: string
+      }
       purge_old_activity_logs: { Args: never; Returns: undefined }
       purge_old_location_cache: { Args: never; Returns: undefined }
+      query_donor_segment: {
+        Args: {
+          _filters?: Json
+          _limit?: number
+          _offset?: number
+          _organization_id: string
+        }
+        Returns: Json
+      }
       record_login_attempt: {
         Args: {
           p_email: string
@@ -15766,6 +18384,10 @@ export type Database = {
         }
         Returns: undefined
       }
+      record_webhook_attempt: {
+        Args: { p_succeeded: boolean; p_webhook_id: string }
+        Returns: undefined
+      }
       refresh_analytics_views: { Args: never; Returns: undefined }
       refresh_daily_group_sentiment: { Args: never; Returns: undefined }
       refresh_daily_metrics_summary: { Args: never; Returns: undefined }
@@ -15798,6 +18420,23 @@ export type Database = {
         }
         Returns: string
       }
+      snapshot_donor_segment: {
+        Args: { _segment_id: string; _triggered_by?: string }
+        Returns: Json
+      }
+      story_cluster_candidates: {
+        Args: { p_buckets: string[]; p_limit?: number; p_since: string }
+        Returns: {
+          cluster_id: string
+          item_id: string
+          item_type: string
+          minhash: number[]
+        }[]
+      }
+      sync_donor_person_ids: {
+        Args: { _organization_id: string }
+        Returns: number
+      }
       switch_organization: {
         Args: { p_organization_id: string }
         Returns: Json
@@ -15848,6 +18487,16 @@ export type Database = {
         }
         Returns: string
       }
+      update_google_ads_sync_status: {
+        Args: {
+          p_error?: string
+          p_is_rate_limited?: boolean
+          p_latest_data_date?: string
+          p_organization_id: string
+          p_status: string
+        }
+        Returns: undefined
+      }
       update_job_after_execution: {
         Args: {
           p_duration_ms: number
@@ -0,0 +1,636 @@
+/**
+ * A/B Test Statistics Engine
+ * Significance testing, Bayesian win probability, power and winner calling
+ * for ActBlue form A/B tests.
+ *
+ * Metrics:
+ * - conversion_rate: donations / visitors (two-proportion z-test, Beta posterior)
+ * - avg_gift: mean donation amount (Welch t-test, normal posterior)
+ * - revenue_per_visitor: total raised / visitors, non-donors count as $0 (Welch t-test)
+ *
+ * Conversion rate and revenue per visitor need visitor counts, which ActBlue
+ * does not include on contributions. Variations without visitors only get avg_gift.
+ *
+ * "No difference" is only called once every arm is large enough to detect the
+ * minimum detectable effect with 80% power. Tests with several challengers
+ * use Holm-adjusted p-values (Bonferroni-adjusted win probability in
+ * Bayesian mode) so extra variations don't inflate false winners.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ABTestMetric = "conversion_rate" | "avg_gift" | "revenue_per_visitor";
+export type ABTestMode = "frequentist" | "bayesian";
+export type ABTestVerdict = "winner" | "loser" | "no_difference" | "keep_running" | "insufficient_data";
+
+export interface VariationSample {
+  name: string;
+  /** Landing page visitors; null when unknown */
+  visitors: number | null;
+  donations: number;
+  totalRaised: number;
+  /** Sum of squared donation amounts, needed for gift variance */
+  sumSquares: number;
+}
+
+export interface MetricComparison {
+  metric: ABTestMetric;
+  controlValue: number;
+  variantValue: number;
+  /** Relative lift of variant over control (0.1 = +10%) */
+  lift: number;
+  /** Absolute difference (variant - control) */
+  difference: number;
+  /** (1 - alpha) confidence interval for the absolute difference */
+  ci: [number, number];
+  pValue: number;
+  /** p-value corrected for the number of challengers (Holm); equals pValue with one challenger */
+  adjustedPValue: number;
+  /** Bayesian probability that the variant beats control */
+  probabilityToBeatControl: number;
+  /** Power to detect the minimum detectable effect at the current sample size */
+  power: number;
+  /** Per-arm sample size needed to detect the minimum detectable effect with 80% power */
+  requiredSamplePerArm: number | null;
+  warnings: string[];
+}
+
+export interface VariationResult {
+  variation: string;
+  isControl: boolean;
+  comparisons: Partial<Record<ABTestMetric, MetricComparison>>;
+  verdict: ABTestVerdict;
+}
+
+export interface ABTestAnalysis {
+  testName: string;
+  control: string;
+  primaryMetric: ABTestMetric;
+  mode: ABTestMode;
+  /** Relative lift the test is sized to detect */
+  minimumDetectableEffect: number;
+  /** Confidence level of each interval after the multiple-comparison correction */
+  confidenceLevel: number;
+  variations: VariationResult[];
+  /** Variation to declare, when one clearly wins on the primary metric */
+  winner: string | null;
+  verdict: ABTestVerdict;
+  summary: string;
+}
+
+export interface AnalyzeOptions {
+  mode?: ABTestMode;
+  primaryMetric?: ABTestMetric;
+  /** Two-sided significance level (default 0.05) */
+  alpha?: number;
+  /** Probability to beat control required for a Bayesian winner (default 0.95) */
+  winProbability?: number;
+  /** Smallest relative lift worth detecting, e.g. 0.1 = 10% (default DEFAULT_MINIMUM_DETECTABLE_EFFECT) */
+  minimumDetectableEffect?: number;
+  /** Name of the control variation; defaults to "control"/empty, else the first variation */
+  control?: string;
+}
+
+// ============================================================================
+// Minimum Sample Thresholds
+// ============================================================================
+
+export const MIN_DONATIONS_PER_ARM = 30;
+export const MIN_VISITORS_PER_ARM = 100;
+export const MIN_CONVERSIONS_PER_ARM = 10;
+
+export const DEFAULT_MINIMUM_DETECTABLE_EFFECT = 0.1;
+
+const TARGET_POWER = 0.8;
+
+// ============================================================================
+// Distributions
+// ============================================================================
+
+/** Error function (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7) */
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const ax = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * ax);
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-ax * ax);
+  return sign * y;
+}
+
+export function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+/** Inverse standard normal CDF (Acklam's rational approximation) */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+function logGamma(x: number): number {
+  const coef = [76.18009172947146, -86.50532032941678, 24.01409824083091, -1.231739572450155, 1.208650973866179e-3, -5.395239384953e-6];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  for (const c of coef) ser += c / ++y;
+  return -tmp + Math.log(2.5066282746310007 * ser / x);
+}
+
+/** Continued fraction for the regularized incomplete beta function */
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const MAX_ITER = 200;
+  const EPS = 3e-14;
+  const FPMIN = 1e-300;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < FPMIN) d = FPMIN;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= MAX_ITER; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = 1 + aa / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    h *= d * c;
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < FPMIN) d = FPMIN;
+    c = 1 + aa / c;
+    if (Math.abs(c) < FPMIN) c = FPMIN;
+    d = 1 / d;
+    const del = d * c;
+    h *= del;
+    if (Math.abs(del - 1) < EPS) break;
+  }
+  return h;
+}
+
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(a, b, x) / a
+    : 1 - front * betaContinuedFraction(b, a, 1 - x) / b;
+}
+
+/** Student t CDF */
+export function studentTCdf(t: number, df: number): number {
+  if (!Number.isFinite(df) || df > 1e6) return normalCdf(t);
+  const x = df / (df + t * t);
+  const tail = 0.5 * regularizedIncompleteBeta(x, df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+export interface TestResult {
+  statistic: number;
+  pValue: number;
+  difference: number;
+  standardError: number;
+  ci: [number, number];
+  df?: number;
+}
+
+/**
+ * Two-proportion z-test (pooled SE for the test, unpooled SE for the CI).
+ */
+export function twoProportionZTest(
+  conversionsA: number,
+  totalA: number,
+  conversionsB: number,
+  totalB: number,
+  alpha = 0.05
+): TestResult {
+  const pA = totalA > 0 ? conversionsA / totalA : 0;
+  const pB = totalB > 0 ? conversionsB / totalB : 0;
+  const pooled = (conversionsA + conversionsB) / Math.max(totalA + totalB, 1);
+  const pooledSe = Math.sqrt(pooled * (1 - pooled) * (1 / Math.max(totalA, 1) + 1 / Math.max(totalB, 1)));
+  const se = Math.sqrt(pA * (1 - pA) / Math.max(totalA, 1) + pB * (1 - pB) / Math.max(totalB, 1));
+  const difference = pB - pA;
+  const z = pooledSe > 0 ? difference / pooledSe : 0;
+  const zCrit = normalQuantile(1 - alpha / 2);
+
+  return {
+    statistic: z,
+    pValue: pooledSe > 0 ? 2 * (1 - normalCdf(Math.abs(z))) : 1,
+    difference,
+    standardError: se,
+    ci: [difference - zCrit * se, difference + zCrit * se],
+  };
+}
+
+/**
+ * Welch's unequal-variance t-test from summary statistics.
+ */
+export function welchTTest(
+  meanA: number,
+  varianceA: number,
+  nA: number,
+  meanB: number,
+  varianceB: number,
+  nB: number,
+  alpha = 0.05
+): TestResult {
+  const difference = meanB - meanA;
+  if (nA < 2 || nB < 2) {
+    return { statistic: 0, pValue: 1, difference, standardError: 0, ci: [-Infinity, Infinity], df: 0 };
+  }
+
+  const vA = varianceA / nA;
+  const vB = varianceB / nB;
+  const se = Math.sqrt(vA + vB);
+  if (se === 0) {
+    return { statistic: 0, pValue: difference === 0 ? 1 : 0, difference, standardError: 0, ci: [difference, difference], df: nA + nB - 2 };
+  }
+
+  const df = (vA + vB) ** 2 / ((vA ** 2) / (nA - 1) + (vB ** 2) / (nB - 1));
+  const t = difference / se;
+  const tCrit = studentTQuantile(1 - alpha / 2, df);
+
+  return {
+    statistic: t,
+    pValue: 2 * (1 - studentTCdf(Math.abs(t), df)),
+    difference,
+    standardError: se,
+    ci: [difference - tCrit * se, difference + tCrit * se],
+    df,
+  };
+}
+
+/** Student t quantile by bisection on the CDF */
+function studentTQuantile(p: number, df: number): number {
+  let lo = 0;
+  let hi = 1000;
+  for (let i = 0; i < 100; i++) {
+    const mid = (lo + hi) / 2;
+    if (studentTCdf(mid, df) < p) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * P(B > A) for two independent normal posteriors.
+ * Beta posteriors on conversion rate are approximated by their moments.
+ */
+export function probabilityToBeat(meanA: number, varA: number, meanB: number, varB: number): number {
+  const sd = Math.sqrt(varA + varB);
+  if (sd === 0) return meanB > meanA ? 1 : meanB < meanA ? 0 : 0.5;
+  return normalCdf((meanB - meanA) / sd);
+}
+
+function betaPosterior(conversions: number, total: number): { mean: number; variance: number } {
+  const a = 1 + conversions;
+  const b = 1 + Math.max(total - conversions, 0);
+  return {
+    mean: a / (a + b),
+    variance: (a * b) / ((a + b) ** 2 * (a + b + 1)),
+  };
+}
+
+/** Achieved power of a two-sided test for an effect of the given size */
+export function achievedPower(difference: number, standardError: number, alpha = 0.05): number {
+  if (standardError <= 0) return difference === 0 ? alpha : 1;
+  const zCrit = normalQuantile(1 - alpha / 2);
+  const shift = Math.abs(difference) / standardError;
+  return normalCdf(shift - zCrit) + normalCdf(-shift - zCrit);
+}
+
+/**
+ * Per-arm sample size needed to detect `difference` given per-observation
+ * variances of each arm, at alpha with 80% power.
+ */
+export function requiredSampleSize(difference: number, varianceA: number, varianceB: number, alpha = 0.05): number | null {
+  if (difference === 0) return null;
+  const z = normalQuantile(1 - alpha / 2) + normalQuantile(TARGET_POWER);
+  return Math.ceil((z ** 2) * (varianceA + varianceB) / (difference ** 2));
+}
+
+// ============================================================================
+// Per-Metric Comparison
+// ============================================================================
+
+function giftVariance(v: VariationSample): number {
+  if (v.donations < 2) return 0;
+  const mean = v.totalRaised / v.donations;
+  return Math.max((v.sumSquares - v.donations * mean * mean) / (v.donations - 1), 0);
+}
+
+function perVisitorVariance(v: VariationSample): number {
+  const n = v.visitors || 0;
+  if (n < 2) return 0;
+  const mean = v.totalRaised / n;
+  return Math.max((v.sumSquares - n * mean * mean) / (n - 1), 0);
+}
+
+function relativeLift(control: number, variant: number): number {
+  return control !== 0 ? (variant - control) / control : 0;
+}
+
+/** Absolute difference corresponding to a relative lift over the control value */
+function mdeDifference(controlValue: number, minimumDetectableEffect: number): number {
+  return Math.abs(controlValue) * minimumDetectableEffect;
+}
+
+/**
+ * Compare one variation against control on a single metric.
+ * Returns null when the metric cannot be computed (e.g. no visitor counts).
+ *
+ * Power and required sample size are for the minimum detectable effect, not
+ * the observed one, so they say whether a null result can be trusted.
+ */
+export function compareMetric(
+  metric: ABTestMetric,
+  control: VariationSample,
+  variant: VariationSample,
+  alpha = 0.05,
+  minimumDetectableEffect = DEFAULT_MINIMUM_DETECTABLE_EFFECT
+): MetricComparison | null {
+  const warnings: string[] = [];
+
+  if (metric === "conversion_rate") {
+    if (!control.visitors || !variant.visitors) return null;
+
+    const test = twoProportionZTest(control.donations, control.visitors, variant.donations, variant.visitors, alpha);
+    const postA = betaPosterior(control.donations, control.visitors);
+    const postB = betaPosterior(variant.donations, variant.visitors);
+    const pA = control.donations / control.visitors;
+    const pB = variant.donations / variant.visitors;
+
+    if (Math.min(control.visitors, variant.visitors) < MIN_VISITORS_PER_ARM) {
+      warnings.push(`Fewer than ${MIN_VISITORS_PER_ARM} visitors in an arm`);
+    }
+    if (Math.min(control.donations, variant.donations) < MIN_CONVERSIONS_PER_ARM) {
+      warnings.push(`Fewer than ${MIN_CONVERSIONS_PER_ARM} conversions in an arm`);
+    }
+
+    return {
+      metric,
+      controlValue: pA,
+      variantValue: pB,
+      lift: relativeLift(pA, pB),
+      difference: test.difference,
+      ci: test.ci,
+      pValue: test.pValue,
+      adjustedPValue: test.pValue,
+      probabilityToBeatControl: probabilityToBeat(postA.mean, postA.variance, postB.mean, postB.variance),
+      power: achievedPower(mdeDifference(pA, minimumDetectableEffect), test.standardError, alpha),
+      requiredSamplePerArm: requiredSampleSize(mdeDifference(pA, minimumDetectableEffect), pA * (1 - pA), pB * (1 - pB), alpha),
+      warnings,
+    };
+  }
+
+  if (metric === "avg_gift") {
+    if (control.donations === 0 || variant.donations === 0) return null;
+
+    const meanA = control.totalRaised / control.donations;
+    const meanB = variant.totalRaised / variant.donations;
+    const varA = giftVariance(control);
+    const varB = giftVariance(variant);
+    const test = welchTTest(meanA, varA, control.donations, meanB, varB, variant.donations, alpha);
+
+    if (Math.min(control.donations, variant.donations) < MIN_DONATIONS_PER_ARM) {
+      warnings.push(`Fewer than ${MIN_DONATIONS_PER_ARM} donations in an arm`);
+    }
+
+    return {
+      metric,
+      controlValue: meanA,
+      variantValue: meanB,
+      lift: relativeLift(meanA, meanB),
+      difference: test.difference,
+      ci: test.ci,
+      pValue: test.pValue,
+      adjustedPValue: test.pValue,
+      probabilityToBeatControl: probabilityToBeat(meanA, varA / control.donations, meanB, varB / variant.donations),
+      power: achievedPower(mdeDifference(meanA, minimumDetectableEffect), test.standardError, alpha),
+      requiredSamplePerArm: requiredSampleSize(mdeDifference(meanA, minimumDetectableEffect), varA, varB, alpha),
+      warnings,
+    };
+  }
+
+  // revenue_per_visitor
+  if (!control.visitors || !variant.visitors) return null;
+
+  const meanA = control.totalRaised / control.visitors;
+  const meanB = variant.totalRaised / variant.visitors;
+  const varA = perVisitorVariance(control);
+  const varB = perVisitorVariance(variant);
+  const test = welchTTest(meanA, varA, control.visitors, meanB, varB, variant.visitors, alpha);
+
+  if (Math.min(control.visitors, variant.visitors) < MIN_VISITORS_PER_ARM) {
+    warnings.push(`Fewer than ${MIN_VISITORS_PER_ARM} visitors in an arm`);
+  }
+  if (Math.min(control.donations, variant.donations) < MIN_CONVERSIONS_PER_ARM) {
+    warnings.push(`Fewer than ${MIN_CONVERSIONS_PER_ARM} conversions in an arm`);
+  }
+
+  return {
+    metric,
+    controlValue: meanA,
+    variantValue: meanB,
+    lift: relativeLift(meanA, meanB),
+    difference: test.difference,
+    ci: test.ci,
+    pValue: test.pValue,
+    adjustedPValue: test.pValue,
+    probabilityToBeatControl: probabilityToBeat(meanA, varA / control.visitors, meanB, varB / variant.visitors),
+    power: achievedPower(mdeDifference(meanA, minimumDetectableEffect), test.standardError, alpha),
+    requiredSamplePerArm: requiredSampleSize(mdeDifference(meanA, minimumDetectableEffect), varA, varB, alpha),
+    warnings,
+  };
+}
+
+// ============================================================================
+// Multiple Comparisons
+// ============================================================================
+
+/**
+ * Holm-Bonferroni adjusted p-values, in input order. Controls the
+ * family-wise error rate across several challengers against one control.
+ */
+export function holmAdjust(pValues: number[]): number[] {
+  const m = pValues.length;
+  const order = pValues.map((p, i) => ({ p, i })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(m);
+  let running = 0;
+  order.forEach(({ p, i }, rank) => {
+    running = Math.max(running, Math.min(1, (m - rank) * p));
+    adjusted[i] = running;
+  });
+  return adjusted;
+}
+
+// ============================================================================
+// Verdicts
+// ============================================================================
+
+/**
+ * `alpha` and `winProbability` are already corrected for the number of
+ * challengers; significance uses the Holm-adjusted p-value.
+ */
+function verdictFor(comparison: MetricComparison | undefined, mode: ABTestMode, alpha: number, winProbability: number): ABTestVerdict {
+  if (!comparison) return "insufficient_data";
+  if (comparison.warnings.length > 0) return "insufficient_data";
+
+  if (mode === "bayesian") {
+    if (comparison.probabilityToBeatControl >= winProbability) return "winner";
+    if (comparison.probabilityToBeatControl <= 1 - winProbability) return "loser";
+    return comparison.power >= TARGET_POWER ? "no_difference" : "keep_running";
+  }
+
+  if (comparison.adjustedPValue < alpha) return comparison.difference > 0 ? "winner" : "loser";
+  return comparison.power >= TARGET_POWER ? "no_difference" : "keep_running";
+}
+
+function pickControl(variations: VariationSample[], requested?: string): VariationSample {
+  if (requested) {
+    const match = variations.find(v => v.name === requested);
+    if (match) return match;
+  }
+  return (
+    variations.find(v => !v.name || v.name.toLowerCase() === "control") ||
+    variations[0]
+  );
+}
+
+const METRIC_LABELS: Record<ABTestMetric, string> = {
+  conversion_rate: "conversion rate",
+  avg_gift: "average gift",
+  revenue_per_visitor: "revenue per visitor",
+};
+
+/**
+ * Analyze every variation of a test against its control and call a winner.
+ *
+ * The primary metric defaults to revenue per visitor when every variation has
+ * visitor counts, and to average gift otherwise.
+ */
+export function analyzeABTest(testName: string, variations: VariationSample[], options: AnalyzeOptions = {}): ABTestAnalysis {
+  const mode = options.mode ?? "frequentist";
+  const alpha = options.alpha ?? 0.05;
+  const winProbability = options.winProbability ?? 0.95;
+  const minimumDetectableEffect = options.minimumDetectableEffect && options.minimumDetectableEffect > 0
+    ? options.minimumDetectableEffect
+    : DEFAULT_MINIMUM_DETECTABLE_EFFECT;
+  const hasVisitors = variations.length > 0 && variations.every(v => (v.visitors ?? 0) > 0);
+  const primaryMetric: ABTestMetric = options.primaryMetric && (hasVisitors || options.primaryMetric === "avg_gift")
+    ? options.primaryMetric
+    : hasVisitors ? "revenue_per_visitor" : "avg_gift";
+
+  if (variations.length < 2) {
+    return {
+      testName,
+      control: variations[0]?.name ?? "",
+      primaryMetric,
+      mode,
+      minimumDetectableEffect,
+      confidenceLevel: 1 - alpha,
+      variations: variations.map(v => ({ variation: v.name, isControl: true, comparisons: {}, verdict: "insufficient_data" })),
+      winner: null,
+      verdict: "insufficient_data",
+      summary: "Only one variation has data - nothing to compare yet.",
+    };
+  }
+
+  const control = pickControl(variations, options.control);
+  const metrics: ABTestMetric[] = ["conversion_rate", "avg_gift", "revenue_per_visitor"];
+
+  // Every challenger is a separate comparison against control, so intervals,
+  // power and the Bayesian threshold use the Bonferroni share of alpha
+  const comparisonCount = variations.length - 1;
+  const familyAlpha = alpha / comparisonCount;
+  const familyWinProbability = 1 - (1 - winProbability) / comparisonCount;
+
+  const results: VariationResult[] = variations.map(variant => {
+    if (variant === control) {
+      return { variation: variant.name, isControl: true, comparisons: {}, verdict: "no_difference" };
+    }
+
+    const comparisons: Partial<Record<ABTestMetric, MetricComparison>> = {};
+    for (const metric of metrics) {
+      const comparison = compareMetric(metric, control, variant, familyAlpha, minimumDetectableEffect);
+      if (comparison) comparisons[metric] = comparison;
+    }
+
+    return { variation: variant.name, isControl: false, comparisons, verdict: "insufficient_data" as ABTestVerdict };
+  });
+
+  const challengers = results.filter(r => !r.isControl);
+  for (const metric of metrics) {
+    const compared = challengers.filter(r => r.comparisons[metric]);
+    const adjusted = holmAdjust(compared.map(r => r.comparisons[metric]!.pValue));
+    compared.forEach((r, i) => { r.comparisons[metric]!.adjustedPValue = adjusted[i]; });
+  }
+  for (const result of challengers) {
+    result.verdict = verdictFor(result.comparisons[primaryMetric], mode, alpha, familyWinProbability);
+  }
+
+  const winners = challengers
+    .filter(r => r.verdict === "winner")
+    .sort((a, b) => (b.comparisons[primaryMetric]?.lift ?? 0) - (a.comparisons[primaryMetric]?.lift ?? 0));
+
+  let verdict: ABTestVerdict;
+  let winner: string | null = null;
+  let summary: string;
+  const metricLabel = METRIC_LABELS[primaryMetric];
+
+  if (winners.length > 0) {
+    verdict = "winner";
+    winner = winners[0].variation;
+    const lift = winners[0].comparisons[primaryMetric]!.lift;
+    summary = `${winner || "Control"} beats ${control.name || "Control"} on ${metricLabel} by ${(lift * 100).toFixed(1)}%.`;
+  } else if (challengers.length > 0 && challengers.every(r => r.verdict === "loser")) {
+    verdict = "winner";
+    winner = control.name;
+    summary = `${control.name || "Control"} outperforms every variation on ${metricLabel}.`;
+  } else if (challengers.some(r => r.verdict === "insufficient_data")) {
+    verdict = "insufficient_data";
+    summary = `Not enough data yet to compare ${metricLabel}.`;
+  } else if (challengers.every(r => r.verdict === "no_difference")) {
+    verdict = "no_difference";
+    summary = `No difference of ${(minimumDetectableEffect * 100).toFixed(0)}% or more in ${metricLabel} - the test is adequately powered.`;
+  } else {
+    verdict = "keep_running";
+    summary = `No significant difference in ${metricLabel} yet - keep the test running.`;
+  }
+
+  return {
+    testName,
+    control: control.name,
+    primaryMetric,
+    mode,
+    minimumDetectableEffect,
+    confidenceLevel: 1 - familyAlpha,
+    variations: results,
+    winner,
+    verdict,
+    summary,
+  };
+}
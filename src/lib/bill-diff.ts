@@ -0,0 +1,246 @@
+/**
+ * Bill Version Diff
+ * Section-aware comparison of two stored bill text versions
+ * (bill_text_versions, written by sync-congress-bills).
+ *
+ * Texts are split on their "SEC. n." / "TITLE n" headings and sections are
+ * matched by heading number, so an inserted section shows up as one added
+ * section instead of shifting every section after it. Matched sections are
+ * diffed word by word; GPO re-wraps lines between versions, so whitespace is
+ * not significant.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BillSection {
+  /** Match key, e.g. "SEC. 3" or "TITLE II"; "preamble" for text before the first heading */
+  key: string;
+  /** Heading line as printed */
+  heading: string;
+  body: string;
+}
+
+export type DiffOp = "equal" | "insert" | "delete";
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+export type SectionChange = "added" | "removed" | "modified" | "unchanged";
+
+export interface SectionDiff {
+  key: string;
+  heading: string;
+  change: SectionChange;
+  segments: DiffSegment[];
+  wordsAdded: number;
+  wordsRemoved: number;
+}
+
+export interface SectionDiffSummary {
+  added: number;
+  removed: number;
+  modified: number;
+  unchanged: number;
+}
+
+/** Above this many cells the word LCS is skipped and the section shown as replaced */
+const MAX_LCS_CELLS = 4_000_000;
+
+const SECTION_HEADING = /^\s*(?:SECTION|SEC\.)\s+(\d+[A-Z]?)\.(?:\s|$)/;
+const TITLE_HEADING = /^\s*TITLE\s+([IVXLCDM]+)(?:\s*[—–-]|\s*$)/;
+
+// ============================================================================
+// Sections
+// ============================================================================
+
+function headingKey(line: string): string | null {
+  const section = line.match(SECTION_HEADING);
+  if (section) return `SEC. ${section[1]}`;
+  const title = line.match(TITLE_HEADING);
+  if (title) return `TITLE ${title[1]}`;
+  return null;
+}
+
+/**
+ * Split bill text on section and title headings. Sections quoted inside an
+ * amendment (``SEC. 5. ...) are not headings of this bill and stay in the
+ * body of the section that inserts them.
+ */
+export function splitBillSections(text: string): BillSection[] {
+  const sections: BillSection[] = [];
+  const seen = new Map<string, number>();
+  let current: { key: string; heading: string; lines: string[] } = { key: "preamble", heading: "Preamble", lines: [] };
+
+  const flush = () => {
+    const body = current.lines.join("\n").trim();
+    if (current.key !== "preamble" || body) {
+      sections.push({ key: current.key, heading: current.heading, body });
+    }
+  };
+
+  for (const line of text.split("\n")) {
+    const key = headingKey(line);
+    if (!key) {
+      current.lines.push(line);
+      continue;
+    }
+    flush();
+    const count = (seen.get(key) ?? 0) + 1;
+    seen.set(key, count);
+    current = { key: count > 1 ? `${key} (${count})` : key, heading: line.trim(), lines: [] };
+  }
+  flush();
+
+  return sections;
+}
+
+// ============================================================================
+// Word diff
+// ============================================================================
+
+function words(text: string): string[] {
+  return text.match(/\S+/g) ?? [];
+}
+
+function pushSegment(segments: DiffSegment[], op: DiffOp, tokens: string[]) {
+  if (tokens.length === 0) return;
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) {
+    last.text += ` ${tokens.join(" ")}`;
+  } else {
+    segments.push({ op, text: tokens.join(" ") });
+  }
+}
+
+/** Word-level diff, whitespace-insensitive. Segments alternate by op. */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = words(before);
+  const b = words(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  pushSegment(segments, "equal", a.slice(0, start));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    pushSegment(segments, "delete", midA);
+    pushSegment(segments, "insert", midB);
+  } else {
+    // lcs[i * (m + 1) + j] = LCS length of midA[i..] and midB[j..]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, "equal", [midA[i]]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        pushSegment(segments, "delete", [midA[i]]);
+        i++;
+      } else {
+        pushSegment(segments, "insert", [midB[j]]);
+        j++;
+      }
+    }
+    pushSegment(segments, "delete", midA.slice(i));
+    pushSegment(segments, "insert", midB.slice(j));
+  }
+
+  pushSegment(segments, "equal", a.slice(endA));
+  return segments;
+}
+
+function countWords(segments: DiffSegment[], op: DiffOp): number {
+  return segments.reduce((sum, s) => (s.op === op ? sum + words(s.text).length : sum), 0);
+}
+
+// ============================================================================
+// Section diff
+// ============================================================================
+
+function sectionDiff(key: string, before: BillSection | undefined, after: BillSection | undefined): SectionDiff {
+  const heading = after?.heading ?? before?.heading ?? key;
+  const segments = diffWords(
+    before ? `${before.heading} ${before.body}` : "",
+    after ? `${after.heading} ${after.body}` : ""
+  );
+  const wordsAdded = countWords(segments, "insert");
+  const wordsRemoved = countWords(segments, "delete");
+
+  let change: SectionChange = "unchanged";
+  if (!before) change = "added";
+  else if (!after) change = "removed";
+  else if (wordsAdded > 0 || wordsRemoved > 0) change = "modified";
+
+  return { key, heading, change, segments, wordsAdded, wordsRemoved };
+}
+
+/**
+ * Compare two versions section by section, in the newer version's order.
+ * Removed sections are placed after the section that preceded them.
+ */
+export function diffBillSections(beforeText: string, afterText: string): SectionDiff[] {
+  const before = splitBillSections(beforeText);
+  const after = splitBillSections(afterText);
+  const beforeIndex = new Map(before.map((section, index) => [section.key, index]));
+  const afterKeys = new Set(after.map((section) => section.key));
+
+  const diffs: SectionDiff[] = [];
+  let cursor = 0;
+  const flushRemoved = (until: number) => {
+    for (; cursor < until; cursor++) {
+      if (!afterKeys.has(before[cursor].key)) {
+        diffs.push(sectionDiff(before[cursor].key, before[cursor], undefined));
+      }
+    }
+  };
+
+  for (const section of after) {
+    const index = beforeIndex.get(section.key);
+    const matched = index !== undefined && index >= cursor;
+    if (matched) flushRemoved(index);
+    diffs.push(sectionDiff(section.key, index !== undefined ? before[index] : undefined, section));
+    if (matched) {
+      cursor = index + 1;
+      // Sections removed right after this one
+      let next = cursor;
+      while (next < before.length && !afterKeys.has(before[next].key)) next++;
+      flushRemoved(next);
+    }
+  }
+  flushRemoved(before.length);
+
+  return diffs;
+}
+
+export function summarizeSectionDiffs(diffs: SectionDiff[]): SectionDiffSummary {
+  const summary: SectionDiffSummary = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+  for (const diff of diffs) summary[diff.change]++;
+  return summary;
+}
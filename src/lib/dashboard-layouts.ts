@@ -0,0 +1,232 @@
+import { format, parseISO, isValid, startOfMonth, startOfYear, subDays } from "date-fns";
+import type { Json } from "@/integrations/supabase/types";
+import type { DateRange } from "@/stores/dashboardStore";
+import type {
+  DashboardAudience,
+  DashboardHomePreference,
+  DashboardTemplate,
+  DashboardWidgetInstance,
+  SavedDashboardLayout,
+  WidgetDateRange,
+  WidgetDateRangePreset,
+} from "@/types/dashboardLayout";
+
+/**
+ * Helpers for custom dashboards: per-widget date ranges, reading widget
+ * lists back from jsonb, built-in templates and picking a user's home layout.
+ */
+
+export const GRID_COLUMNS = 12;
+
+export const WIDGET_DATE_PRESETS: { value: WidgetDateRangePreset; label: string }[] = [
+  { value: 'global', label: 'Dashboard range' },
+  { value: 'today', label: 'Today' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: '90d', label: 'Last 90 days' },
+  { value: 'mtd', label: 'Month to date' },
+  { value: 'ytd', label: 'Year to date' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const PRESET_VALUES = new Set(WIDGET_DATE_PRESETS.map((p) => p.value));
+const AUDIENCES: DashboardAudience[] = ['general', 'finance', 'digital'];
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+function isDateString(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && isValid(parseISO(value));
+}
+
+// ============================================================================
+// Date ranges
+// ============================================================================
+
+/**
+ * Resolves a widget's date range against the dashboard's global range.
+ * Day presets are inclusive of today, matching DateRangeSelector.
+ */
+export function resolveWidgetDateRange(
+  range: WidgetDateRange | undefined,
+  globalRange: DateRange,
+  today: Date = new Date()
+): DateRange {
+  const end = toDateString(today);
+  switch (range?.preset) {
+    case 'today':
+      return { startDate: end, endDate: end };
+    case '7d':
+      return { startDate: toDateString(subDays(today, 6)), endDate: end };
+    case '30d':
+      return { startDate: toDateString(subDays(today, 29)), endDate: end };
+    case '90d':
+      return { startDate: toDateString(subDays(today, 89)), endDate: end };
+    case 'mtd':
+      return { startDate: toDateString(startOfMonth(today)), endDate: end };
+    case 'ytd':
+      return { startDate: toDateString(startOfYear(today)), endDate: end };
+    case 'custom':
+      if (isDateString(range.startDate) && isDateString(range.endDate) && range.startDate <= range.endDate) {
+        return { startDate: range.startDate, endDate: range.endDate };
+      }
+      return globalRange;
+    default:
+      return globalRange;
+  }
+}
+
+/** Short label for a widget's range, or null when it follows the dashboard */
+export function describeWidgetDateRange(range: WidgetDateRange | undefined): string | null {
+  if (!range || range.preset === 'global') return null;
+  if (range.preset === 'custom') {
+    if (!isDateString(range.startDate) || !isDateString(range.endDate)) return null;
+    return `${format(parseISO(range.startDate), "MMM d")} – ${format(parseISO(range.endDate), "MMM d")}`;
+  }
+  return WIDGET_DATE_PRESETS.find((p) => p.value === range.preset)?.label ?? null;
+}
+
+// ============================================================================
+// Stored widgets
+// ============================================================================
+
+function toGridUnit(value: unknown, min: number, max: number, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+function parseDateRange(value: unknown): WidgetDateRange | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.preset !== 'string' || !PRESET_VALUES.has(raw.preset as WidgetDateRangePreset)) return undefined;
+  if (raw.preset === 'global') return undefined;
+  if (raw.preset === 'custom') {
+    if (!isDateString(raw.startDate) || !isDateString(raw.endDate)) return undefined;
+    return { preset: 'custom', startDate: raw.startDate, endDate: raw.endDate };
+  }
+  return { preset: raw.preset as WidgetDateRangePreset };
+}
+
+/**
+ * Reads a widgets jsonb column back into widget instances. Malformed entries
+ * and duplicate ids are dropped, and positions are clamped to the grid, so a
+ * hand-edited row can't break the page.
+ */
+export function parseStoredWidgets(value: Json | null | undefined): DashboardWidgetInstance[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const widgets: DashboardWidgetInstance[] = [];
+
+  for (const item of value) {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) continue;
+    const raw = item as Record<string, unknown>;
+    if (typeof raw.id !== 'string' || typeof raw.type !== 'string' || seen.has(raw.id)) continue;
+    seen.add(raw.id);
+
+    const w = toGridUnit(raw.w, 1, GRID_COLUMNS, 4);
+    const widget: DashboardWidgetInstance = {
+      id: raw.id,
+      type: raw.type,
+      x: toGridUnit(raw.x, 0, GRID_COLUMNS - w, 0),
+      y: toGridUnit(raw.y, 0, Number.MAX_SAFE_INTEGER, 0),
+      w,
+      h: toGridUnit(raw.h, 1, 24, 3),
+    };
+    const dateRange = parseDateRange(raw.dateRange);
+    if (dateRange) widget.dateRange = dateRange;
+    widgets.push(widget);
+  }
+  return widgets;
+}
+
+/** Position for a newly added widget: below everything already placed */
+export function nextWidgetPosition(widgets: DashboardWidgetInstance[]): { x: number; y: number } {
+  const bottom = widgets.reduce((max, w) => Math.max(max, w.y + w.h), 0);
+  return { x: 0, y: bottom };
+}
+
+export function isDashboardAudience(value: unknown): value is DashboardAudience {
+  return typeof value === 'string' && (AUDIENCES as string[]).includes(value);
+}
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+function kpiRow(types: string[]): DashboardWidgetInstance[] {
+  return types.map((type, i) => ({ id: `${type}-${i}`, type, x: i * 2, y: 0, w: 2, h: 2 }));
+}
+
+export const DASHBOARD_TEMPLATES: DashboardTemplate[] = [
+  {
+    id: 'template-general',
+    name: 'Overview',
+    audience: 'general',
+    description: 'Headline KPIs, fundraising performance, alerts and trends',
+    widgets: [
+      ...kpiRow(['kpi.netRevenue', 'kpi.netRoi', 'kpi.uniqueDonors', 'kpi.currentMrr', 'kpi.newMrr', 'kpi.refundRate']),
+      { id: 'chart.fundraising-0', type: 'chart.fundraising', x: 0, y: 2, w: 12, h: 9 },
+      { id: 'alert.client-0', type: 'alert.client', x: 0, y: 11, w: 6, h: 5 },
+      { id: 'trend.events-0', type: 'trend.events', x: 6, y: 11, w: 6, h: 5 },
+    ],
+  },
+  {
+    id: 'template-finance',
+    name: 'Finance',
+    audience: 'finance',
+    description: 'Revenue, recurring health and donor value',
+    widgets: [
+      ...kpiRow(['kpi.netRevenue', 'kpi.refundRate', 'kpi.currentMrr', 'kpi.newMrr', 'kpi.uniqueDonors', 'kpi.netRoi']),
+      { id: 'chart.recurringHealth-0', type: 'chart.recurringHealth', x: 0, y: 2, w: 6, h: 6, dateRange: { preset: 'ytd' } },
+      { id: 'chart.donorIntelligence-0', type: 'chart.donorIntelligence', x: 6, y: 2, w: 6, h: 6 },
+      { id: 'chart.donationHeatmap-0', type: 'chart.donationHeatmap', x: 0, y: 8, w: 12, h: 6, dateRange: { preset: '90d' } },
+    ],
+  },
+  {
+    id: 'template-digital',
+    name: 'Digital',
+    audience: 'digital',
+    description: 'Channel spend and ROI, top creatives and breaking trends',
+    widgets: [
+      ...kpiRow(['kpi.netRoi', 'kpi.netRevenue', 'kpi.uniqueDonors']),
+      { id: 'alert.client-0', type: 'alert.client', x: 6, y: 0, w: 6, h: 5 },
+      { id: 'chart.metaAds-0', type: 'chart.metaAds', x: 0, y: 2, w: 6, h: 8 },
+      { id: 'chart.topCreatives-0', type: 'chart.topCreatives', x: 6, y: 5, w: 6, h: 6 },
+      { id: 'chart.sms-0', type: 'chart.sms', x: 0, y: 10, w: 6, h: 8 },
+      { id: 'trend.events-0', type: 'trend.events', x: 6, y: 11, w: 6, h: 5 },
+    ],
+  },
+];
+
+export function templateForAudience(audience: DashboardAudience): DashboardTemplate {
+  return DASHBOARD_TEMPLATES.find((t) => t.audience === audience) ?? DASHBOARD_TEMPLATES[0];
+}
+
+// ============================================================================
+// Home layout
+// ============================================================================
+
+export type HomeLayout =
+  | { source: 'preference' | 'org_default'; layout: SavedDashboardLayout }
+  | { source: 'template'; template: DashboardTemplate };
+
+/**
+ * Picks the layout a user lands on: the layout they chose as home, else the
+ * org's default for their audience (finance / digital / general), else the
+ * org's general default, else the built-in template for the audience.
+ */
+export function resolveHomeLayout(
+  layouts: SavedDashboardLayout[],
+  preference: DashboardHomePreference | null
+): HomeLayout {
+  const audience = preference?.audience ?? 'general';
+
+  const chosen = preference?.layout_id ? layouts.find((l) => l.id === preference.layout_id) : undefined;
+  if (chosen) return { source: 'preference', layout: chosen };
+
+  const orgDefaults = layouts.filter((l) => l.user_id === null && l.is_default);
+  const orgDefault =
+    orgDefaults.find((l) => l.audience === audience) ?? orgDefaults.find((l) => l.audience === 'general');
+  if (orgDefault) return { source: 'org_default', layout: orgDefault };
+
+  return { source: 'template', template: templateForAudience(audience) };
+}
@@ -0,0 +1,196 @@
+/**
+ * Tracked Link Rotation
+ * Weighted variant selection and ActBlue URL building for managed
+ * /r/:org/l/:link links.
+ *
+ * Assignment is sticky: a visitor keeps the variant they were first sent to
+ * (remembered per link in localStorage) for as long as that variant stays
+ * active, even if weights change. New visitors are placed by hashing their
+ * visitor id with the link id, so the split is deterministic without storage.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RotationVariant {
+  id: string;
+  actblue_form: string;
+  amounts: number[] | null;
+  default_amount: number | null;
+  recurring: boolean;
+  refcode: string | null;
+  /** Relative share of new visitors; 0 keeps existing visitors only */
+  weight: number;
+}
+
+export interface ResolvedTrackedLink {
+  link_id: string;
+  variants: RotationVariant[];
+}
+
+export interface ActBlueUrlOptions {
+  form: string;
+  refcode?: string | null;
+  amount?: string | number | null;
+  amounts?: number[] | null;
+  recurring?: boolean;
+}
+
+type KeyValueStorage = Pick<Storage, "getItem" | "setItem">;
+
+const VISITOR_ID_KEY = "tracked_link_visitor_id";
+const ASSIGNMENT_KEY_PREFIX = "tracked_link_variant:";
+
+// ============================================================================
+// Hashing & Selection
+// ============================================================================
+
+/**
+ * Map a string to [0, 1) with 32-bit FNV-1a.
+ */
+export function hashToUnitInterval(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Pick a variant in proportion to its weight. `point` is in [0, 1).
+ * Returns null when no variant has a positive weight.
+ */
+export function pickWeightedVariant<T extends { weight: number }>(variants: T[], point: number): T | null {
+  const eligible = variants.filter(v => v.weight > 0);
+  const total = eligible.reduce((sum, v) => sum + v.weight, 0);
+  if (total <= 0) return null;
+
+  let threshold = point * total;
+  for (const variant of eligible) {
+    if (threshold < variant.weight) return variant;
+    threshold -= variant.weight;
+  }
+  return eligible[eligible.length - 1];
+}
+
+// ============================================================================
+// Sticky Assignment
+// ============================================================================
+
+/**
+ * Long-lived anonymous id for this browser. Falls back to a fresh id when
+ * storage is unavailable (private mode), which only loses stickiness.
+ */
+export function getVisitorId(storage: KeyValueStorage | null = safeLocalStorage()): string {
+  try {
+    const existing = storage?.getItem(VISITOR_ID_KEY);
+    if (existing) return existing;
+    const visitorId = crypto.randomUUID();
+    storage?.setItem(VISITOR_ID_KEY, visitorId);
+    return visitorId;
+  } catch {
+    return crypto.randomUUID();
+  }
+}
+
+/**
+ * Variant for this visitor: the stored assignment if still offered,
+ * otherwise a weighted pick that is then remembered.
+ */
+export function assignVariant(
+  link: ResolvedTrackedLink,
+  visitorId: string,
+  storage: KeyValueStorage | null = safeLocalStorage()
+): RotationVariant | null {
+  const key = `${ASSIGNMENT_KEY_PREFIX}${link.link_id}`;
+
+  try {
+    const storedId = storage?.getItem(key);
+    const stored = storedId ? link.variants.find(v => v.id === storedId) : undefined;
+    if (stored) return stored;
+  } catch {
+    // Ignore storage errors
+  }
+
+  const variant = pickWeightedVariant(link.variants, hashToUnitInterval(`${visitorId}:${link.link_id}`));
+  if (variant) {
+    try {
+      storage?.setItem(key, variant.id);
+    } catch {
+      // Ignore storage errors
+    }
+  }
+  return variant;
+}
+
+function safeLocalStorage(): KeyValueStorage | null {
+  try {
+    return typeof localStorage === "undefined" ? null : localStorage;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// ActBlue URL
+// ============================================================================
+
+/**
+ * secure.actblue.com donate URL with refcode, amount ladder, preselected
+ * amount and recurring flag.
+ */
+export function buildActBlueUrl({ form, refcode, amount, amounts, recurring }: ActBlueUrlOptions): URL {
+  const url = new URL(`https://secure.actblue.com/donate/${encodeURIComponent(form)}`);
+  if (refcode) url.searchParams.set("refcode", refcode);
+  if (amounts && amounts.length > 0) url.searchParams.set("amounts", amounts.join(","));
+  if (amount !== null && amount !== undefined && amount !== "") url.searchParams.set("amount", String(amount));
+  if (recurring) url.searchParams.set("recurring", "true");
+  return url;
+}
+
+/**
+ * Where a variant's refcode goes. The campaign refcode from the link always
+ * stays in `refcode` so refcode_mappings keep attributing the donation; the
+ * variant refcode takes `refcode` only when there is no campaign refcode and
+ * otherwise goes to `refcode2` (used when no click id claims that slot).
+ */
+export function placeVariantRefcode(
+  campaignRefcode: string | null | undefined,
+  variantRefcode: string | null | undefined
+): { refcode: string | null; refcode2: string | null } {
+  if (!campaignRefcode) return { refcode: variantRefcode || null, refcode2: null };
+  return { refcode: campaignRefcode, refcode2: variantRefcode && variantRefcode !== campaignRefcode ? variantRefcode : null };
+}
+
+// ============================================================================
+// Editing Helpers
+// ============================================================================
+
+/**
+ * Parse "10, 25, 50" into an ascending, de-duplicated amount ladder.
+ * Returns null for an empty ladder (use the form's default amounts).
+ */
+export function parseAmountLadder(input: string): number[] | null {
+  const amounts = input
+    .split(/[\s,]+/)
+    .map(part => Number(part.replace(/^\$/, "")))
+    .filter(amount => Number.isFinite(amount) && amount > 0);
+  if (amounts.length === 0) return null;
+  return Array.from(new Set(amounts)).sort((a, b) => a - b);
+}
+
+/**
+ * Share of new visitors each variant receives (0-100), keyed by variant id.
+ */
+export function trafficShares(variants: Array<{ id: string; weight: number; is_active?: boolean }>): Record<string, number> {
+  const live = variants.filter(v => v.is_active !== false && v.weight > 0);
+  const total = live.reduce((sum, v) => sum + v.weight, 0);
+  const shares: Record<string, number> = {};
+  for (const variant of variants) {
+    const isLive = live.includes(variant);
+    shares[variant.id] = isLive && total > 0 ? (variant.weight / total) * 100 : 0;
+  }
+  return shares;
+}
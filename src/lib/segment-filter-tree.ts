@@ -0,0 +1,218 @@
+/**
+ * Segment Filter Tree
+ *
+ * Boolean filter trees for the Donor Segment Builder. A segment is a root
+ * FilterGroup whose children are conditions or nested groups, combined with
+ * AND / OR and optionally negated (NOT).
+ *
+ * Saved segments created before groups existed store a flat FilterCondition[]
+ * (implicitly ANDed); normalizeSegmentFilters() upgrades them on load.
+ *
+ * The same semantics are implemented server-side by the
+ * query_donor_segment() RPC - keep the two in sync.
+ */
+
+import type {
+  FilterCondition,
+  FilterGroup,
+  FilterGroupOperator,
+  FilterNode,
+} from "@/types/donorSegment";
+
+// ============================================================================
+// Construction
+// ============================================================================
+
+export function createFilterGroup(
+  operator: FilterGroupOperator = 'and',
+  children: FilterNode[] = [],
+  negate = false
+): FilterGroup {
+  return {
+    id: crypto.randomUUID(),
+    type: 'group',
+    operator,
+    negate,
+    children,
+  };
+}
+
+export function createEmptyFilterTree(): FilterGroup {
+  return createFilterGroup('and');
+}
+
+export function isFilterGroup(node: FilterNode): node is FilterGroup {
+  return (node as FilterGroup).type === 'group' && Array.isArray((node as FilterGroup).children);
+}
+
+// ============================================================================
+// Normalization (legacy flat segments)
+// ============================================================================
+
+function isConditionLike(value: unknown): value is FilterCondition {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<FilterCondition>;
+  return typeof candidate.field === 'string' && typeof candidate.operator === 'string';
+}
+
+function normalizeNode(raw: unknown): FilterNode | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const candidate = raw as Partial<FilterGroup>;
+
+  if (candidate.type === 'group' || Array.isArray(candidate.children)) {
+    const children = (Array.isArray(candidate.children) ? candidate.children : [])
+      .map(normalizeNode)
+      .filter((child): child is FilterNode => child !== null);
+    return {
+      id: typeof candidate.id === 'string' ? candidate.id : crypto.randomUUID(),
+      type: 'group',
+      operator: candidate.operator === 'or' ? 'or' : 'and',
+      negate: candidate.negate === true,
+      children,
+    };
+  }
+
+  if (isConditionLike(raw)) {
+    return {
+      id: typeof raw.id === 'string' ? raw.id : crypto.randomUUID(),
+      field: raw.field,
+      operator: raw.operator,
+      value: raw.value ?? null,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Accepts whatever is stored in saved_donor_segments.filters and returns a
+ * filter tree. Flat condition arrays become a single AND group.
+ */
+export function normalizeSegmentFilters(raw: unknown): FilterGroup {
+  if (Array.isArray(raw)) {
+    return createFilterGroup('and', raw.map(normalizeNode).filter((n): n is FilterNode => n !== null));
+  }
+
+  const node = normalizeNode(raw);
+  if (!node) return createEmptyFilterTree();
+  if (isFilterGroup(node)) return node;
+  return createFilterGroup('and', [node]);
+}
+
+// ============================================================================
+// Inspection
+// ============================================================================
+
+export function countFilterConditions(node: FilterNode): number {
+  if (!isFilterGroup(node)) return 1;
+  return node.children.reduce((sum, child) => sum + countFilterConditions(child), 0);
+}
+
+/** All conditions in the tree, depth-first */
+export function flattenFilterConditions(node: FilterNode): FilterCondition[] {
+  if (!isFilterGroup(node)) return [node];
+  return node.children.flatMap(flattenFilterConditions);
+}
+
+/** Distinct field keys referenced anywhere in the tree */
+export function collectFilterFields(node: FilterNode): string[] {
+  return Array.from(new Set(flattenFilterConditions(node).map(c => c.field)));
+}
+
+/**
+ * Remove groups that contain no conditions. Empty groups are meaningless
+ * (and would turn an OR into "match everything"), so they are dropped before
+ * querying. The root is always kept.
+ */
+export function pruneEmptyGroups(root: FilterGroup): FilterGroup {
+  const prune = (group: FilterGroup): FilterGroup => ({
+    ...group,
+    children: group.children
+      .map(child => (isFilterGroup(child) ? prune(child) : child))
+      .filter(child => !isFilterGroup(child) || child.children.length > 0),
+  });
+  return prune(root);
+}
+
+/**
+ * Evaluate the tree against one record. `matchCondition` decides a single
+ * condition; empty groups match everything.
+ */
+export function evaluateFilterTree(
+  node: FilterNode,
+  matchCondition: (condition: FilterCondition) => boolean
+): boolean {
+  if (!isFilterGroup(node)) return matchCondition(node);
+
+  const children = node.children.filter(child => !isFilterGroup(child) || countFilterConditions(child) > 0);
+  let result = true;
+  if (children.length > 0) {
+    result = node.operator === 'or'
+      ? children.some(child => evaluateFilterTree(child, matchCondition))
+      : children.every(child => evaluateFilterTree(child, matchCondition));
+  }
+
+  return node.negate ? !result : result;
+}
+
+// ============================================================================
+// Immutable Edits
+// ============================================================================
+
+function mapTree(node: FilterNode, fn: (node: FilterNode) => FilterNode): FilterNode {
+  const mapped = fn(node);
+  if (!isFilterGroup(mapped)) return mapped;
+  return { ...mapped, children: mapped.children.map(child => mapTree(child, fn)) };
+}
+
+export function findFilterNode(root: FilterNode, id: string): FilterNode | null {
+  if (root.id === id) return root;
+  if (!isFilterGroup(root)) return null;
+  for (const child of root.children) {
+    const found = findFilterNode(child, id);
+    if (found) return found;
+  }
+  return null;
+}
+
+/** Append a node to the group with `groupId` (falls back to the root) */
+export function addFilterNode(root: FilterGroup, groupId: string, node: FilterNode): FilterGroup {
+  const target = findFilterNode(root, groupId);
+  const targetId = target && isFilterGroup(target) ? target.id : root.id;
+
+  return mapTree(root, current =>
+    current.id === targetId && isFilterGroup(current)
+      ? { ...current, children: [...current.children, node] }
+      : current
+  ) as FilterGroup;
+}
+
+export function updateFilterCondition(
+  root: FilterGroup,
+  id: string,
+  updates: Partial<FilterCondition>
+): FilterGroup {
+  return mapTree(root, current =>
+    current.id === id && !isFilterGroup(current) ? { ...current, ...updates } : current
+  ) as FilterGroup;
+}
+
+export function updateFilterGroup(
+  root: FilterGroup,
+  id: string,
+  updates: Partial<Pick<FilterGroup, 'operator' | 'negate'>>
+): FilterGroup {
+  return mapTree(root, current =>
+    current.id === id && isFilterGroup(current) ? { ...current, ...updates } : current
+  ) as FilterGroup;
+}
+
+/** Remove a condition or group. The root itself cannot be removed. */
+export function removeFilterNode(root: FilterGroup, id: string): FilterGroup {
+  if (root.id === id) return root;
+  return mapTree(root, current =>
+    isFilterGroup(current)
+      ? { ...current, children: current.children.filter(child => child.id !== id) }
+      : current
+  ) as FilterGroup;
+}
@@ -0,0 +1,145 @@
+/**
+ * Segment Membership
+ *
+ * Helpers for the scheduled segment snapshots recorded by the
+ * snapshot_donor_segment() RPC: trend series, human-readable reasons for
+ * why a donor entered or left a segment, and the "newly lapsed" feed.
+ */
+
+import { format } from "date-fns";
+import type {
+  SegmentChangeReason,
+  SegmentMemberAttributes,
+  SegmentMembershipChange,
+  SegmentMembershipSnapshot,
+} from "@/types/donorSegment";
+import { OPERATOR_LABELS, SEGMENT_FILTER_FIELDS } from "@/types/donorSegment";
+
+// Filter fields that move purely with time since the last gift
+export const RECENCY_FIELDS = ['days_since_donation', 'last_donation_date', 'donor_tier'];
+
+const ATTRIBUTE_LABELS: Record<keyof SegmentMemberAttributes, string> = {
+  total_donated: 'Lifetime total',
+  donation_count: 'Donations',
+  days_since_donation: 'Days since last gift',
+  last_donation_date: 'Last gift',
+  is_recurring: 'Recurring',
+  has_refund: 'Has refund',
+  segment: 'RFM segment',
+  churn_risk_label: 'Churn risk',
+  predicted_ltv_90: 'Predicted 90-day LTV',
+  state: 'State',
+  lifecycle_stage: 'Lifecycle',
+};
+
+// days_since_donation changes every day; lifecycle_stage carries the signal
+const IGNORED_ATTRIBUTE_CHANGES: (keyof SegmentMemberAttributes)[] = ['days_since_donation'];
+
+// ============================================================================
+// Trend
+// ============================================================================
+
+export interface MembershipTrendPoint {
+  date: string;
+  members: number;
+  entered: number;
+  exited: number;
+}
+
+/** Snapshots in chronological order, one point per run */
+export function buildMembershipTrend(snapshots: SegmentMembershipSnapshot[]): MembershipTrendPoint[] {
+  return [...snapshots]
+    .sort((a, b) => a.captured_at.localeCompare(b.captured_at))
+    .map(snapshot => ({
+      date: format(new Date(snapshot.captured_at), 'MMM d'),
+      members: snapshot.member_count,
+      entered: snapshot.is_baseline ? 0 : snapshot.entered_count,
+      exited: snapshot.is_baseline ? 0 : snapshot.exited_count,
+    }));
+}
+
+// ============================================================================
+// Reasons
+// ============================================================================
+
+function formatReasonValue(field: string, value: unknown): string {
+  const options = SEGMENT_FILTER_FIELDS.find(f => f.key === field)?.options;
+  const label = (v: unknown) => options?.find(o => o.value === v)?.label ?? String(v);
+
+  if (Array.isArray(value)) return value.map(label).join(', ');
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return label(value);
+}
+
+/** The filter condition as a phrase, e.g. "Days Since Last Donation greater than 180" */
+export function describeCondition(reason: Extract<SegmentChangeReason, { type: 'condition' }>): string {
+  const fieldLabel = SEGMENT_FILTER_FIELDS.find(f => f.key === reason.field)?.label ?? reason.field.replace(/_/g, ' ');
+  const operatorLabel = OPERATOR_LABELS[reason.operator] ?? reason.operator;
+
+  if (reason.operator === 'is_null' || reason.operator === 'is_not_null') {
+    return `${fieldLabel} ${operatorLabel}`;
+  }
+  if (reason.operator === 'between' && Array.isArray(reason.value)) {
+    return `${fieldLabel} ${operatorLabel} ${formatReasonValue(reason.field, reason.value[0])} and ${formatReasonValue(reason.field, reason.value[1])}`;
+  }
+  return `${fieldLabel} ${operatorLabel} ${formatReasonValue(reason.field, reason.value)}`;
+}
+
+/** Why a membership change happened, e.g. "No longer: Recurring Donor equals yes" */
+export function describeChangeReason(reason: SegmentChangeReason): string {
+  if (reason.type === 'donor_removed') return 'Donor record was removed';
+  return reason.now_met ? describeCondition(reason) : `No longer: ${describeCondition(reason)}`;
+}
+
+export interface AttributeChange {
+  key: keyof SegmentMemberAttributes;
+  label: string;
+  from: SegmentMemberAttributes[keyof SegmentMemberAttributes] | null;
+  to: SegmentMemberAttributes[keyof SegmentMemberAttributes] | null;
+}
+
+/** Tracked donor attributes that differ between two runs */
+export function diffMemberAttributes(
+  previous: SegmentMemberAttributes | null,
+  current: SegmentMemberAttributes | null
+): AttributeChange[] {
+  if (!previous || !current) return [];
+
+  return (Object.keys(ATTRIBUTE_LABELS) as (keyof SegmentMemberAttributes)[])
+    .filter(key => !IGNORED_ATTRIBUTE_CHANGES.includes(key))
+    .filter(key => (previous[key] ?? null) !== (current[key] ?? null))
+    .map(key => ({
+      key,
+      label: ATTRIBUTE_LABELS[key],
+      from: previous[key] ?? null,
+      to: current[key] ?? null,
+    }));
+}
+
+// ============================================================================
+// Newly lapsed feed
+// ============================================================================
+
+/**
+ * A donor who entered a segment because of a recency condition and is now
+ * in the lapsed lifecycle stage (no gift in 180+ days).
+ */
+export function isNewlyLapsedChange(change: SegmentMembershipChange): boolean {
+  return (
+    change.change_type === 'entered' &&
+    change.attributes?.lifecycle_stage === 'lapsed' &&
+    change.reason_fields.some(field => RECENCY_FIELDS.includes(field))
+  );
+}
+
+/** Newly lapsed donors, newest first, one entry per donor across segments */
+export function collectNewlyLapsedDonors(changes: SegmentMembershipChange[]): SegmentMembershipChange[] {
+  const seen = new Set<string>();
+  return [...changes]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .filter(change => {
+      if (!isNewlyLapsedChange(change) || seen.has(change.donor_email)) return false;
+      seen.add(change.donor_email);
+      return true;
+    });
+}
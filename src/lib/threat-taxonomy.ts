@@ -0,0 +1,122 @@
+import type { Json } from "@/integrations/supabase/types";
+import type {
+  ThreatCategory,
+  ThreatRule,
+  ThreatRuleMatch,
+  ThreatTaxonomy,
+} from "@/types/threatTaxonomy";
+
+/**
+ * Helpers for threat taxonomies: reading matched rules back from jsonb,
+ * labelling them, and checking an edited taxonomy before it is published
+ * (the threat-taxonomy function rejects anything normalizeTaxonomy in
+ * _shared/threatTaxonomy.ts would drop).
+ */
+
+export const MAX_RULE_WEIGHT = 100;
+
+/**
+ * The admin alert views read threat_level / matched_rules off the shared rows,
+ * which are scored with the default taxonomy. Org taxonomies only change
+ * threat_taxonomy_matches, shown in each org's Threat Taxonomy settings.
+ */
+export const DEFAULT_TAXONOMY_NOTE =
+  "Threat levels and matched rules use the default taxonomy. Organizations with a published taxonomy see their own matches in Threat Taxonomy settings.";
+
+// ============================================================================
+// Matched rules
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Matched rules from a matched_rules column, heaviest first */
+export function parseMatchedRules(value: Json | null | undefined): ThreatRuleMatch[] {
+  if (!Array.isArray(value)) return [];
+  const matches: ThreatRuleMatch[] = [];
+  for (const item of value) {
+    if (!isRecord(item)) continue;
+    const { category_id, category, rule_id, rule, term, weight } = item;
+    if (typeof rule_id !== 'string' || typeof rule !== 'string' || typeof weight !== 'number') continue;
+    matches.push({
+      category_id: typeof category_id === 'string' ? category_id : '',
+      category: typeof category === 'string' ? category : '',
+      rule_id,
+      rule,
+      term: typeof term === 'string' ? term : rule,
+      weight,
+    });
+  }
+  return matches.sort((a, b) => b.weight - a.weight);
+}
+
+/** "Category: Rule", with the matched term when it differs from the rule label */
+export function formatMatchedRule(match: ThreatRuleMatch): string {
+  const rule = match.term.toLowerCase() === match.rule.toLowerCase() ? match.rule : `${match.rule} ("${match.term}")`;
+  return match.category ? `${match.category}: ${rule}` : rule;
+}
+
+// ============================================================================
+// Editing
+// ============================================================================
+
+/** Comma- or newline-separated list, trimmed and de-duplicated */
+export function splitList(text: string): string[] {
+  const items: string[] = [];
+  for (const part of text.split(/[,\n]/)) {
+    const item = part.trim().replace(/\s+/g, ' ');
+    if (item && !items.includes(item)) items.push(item);
+  }
+  return items;
+}
+
+export function uniqueId(label: string, taken: Iterable<string>): string {
+  const used = new Set(taken);
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'item';
+  let id = base;
+  for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+export function newCategory(taxonomy: ThreatTaxonomy, name = 'New category'): ThreatCategory {
+  return { id: uniqueId(name, taxonomy.categories.map((c) => c.id)), name, rules: [] };
+}
+
+export function newRule(category: ThreatCategory, label = 'New rule'): ThreatRule {
+  return { id: uniqueId(label, category.rules.map((r) => r.id)), label, terms: [], weight: 10 };
+}
+
+/** Problems that would stop the taxonomy from publishing; empty when valid */
+export function validateTaxonomyDraft(taxonomy: ThreatTaxonomy): string[] {
+  const errors: string[] = [];
+  const { critical, high, medium } = taxonomy.thresholds;
+  if (![critical, high, medium].every((value) => Number.isFinite(value) && value > 0)) {
+    errors.push('Thresholds must be positive numbers');
+  } else if (!(critical > high && high > medium)) {
+    errors.push('Thresholds must decrease from critical to medium');
+  }
+
+  const categoryIds = new Set<string>();
+  for (const category of taxonomy.categories) {
+    const name = category.name.trim() || category.id;
+    if (categoryIds.has(category.id)) errors.push(`Duplicate category id "${category.id}"`);
+    categoryIds.add(category.id);
+
+    const ruleIds = new Set<string>();
+    for (const rule of category.rules) {
+      const label = rule.label.trim() || rule.id;
+      if (ruleIds.has(rule.id)) errors.push(`${name}: duplicate rule id "${rule.id}"`);
+      ruleIds.add(rule.id);
+      if (rule.terms.every((term) => !term.trim())) errors.push(`${name}: "${label}" needs at least one term`);
+      if (!Number.isFinite(rule.weight) || rule.weight <= 0 || rule.weight > MAX_RULE_WEIGHT) {
+        errors.push(`${name}: "${label}" needs a weight between 1 and ${MAX_RULE_WEIGHT}`);
+      }
+    }
+  }
+
+  if (taxonomy.categories.every((category) => category.rules.length === 0)) {
+    errors.push('Add at least one rule');
+  }
+  return errors;
+}
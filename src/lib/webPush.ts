@@ -0,0 +1,94 @@
+/**
+ * Web Push subscription management
+ * Registers this browser with the push service and stores the subscription in
+ * push_subscriptions; delivery happens in supabase/functions/_shared/pushDelivery.ts
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Alert types that can be pushed. Keep in sync with PUSH_ALERT_TYPES in
+ * supabase/functions/_shared/pushDelivery.ts.
+ */
+export const PUSH_ALERT_TYPE_OPTIONS = [
+  { value: "breaking_news", label: "Breaking news", description: "Stories picked up by several outlets at once" },
+  { value: "topic_spike", label: "Trend spikes", description: "Critical velocity spikes on tracked topics" },
+  { value: "organization_mention", label: "Organization mention spikes", description: "Sudden surges in coverage of an organization" },
+  { value: "bill_alert", label: "New bills", description: "Newly introduced legislation you follow" },
+  { value: "bill_update", label: "Bill updates", description: "Status changes on bills you follow" },
+  { value: "new_article", label: "New articles", description: "New articles in your feeds" },
+  { value: "bookmark_update", label: "Bookmarked article updates", description: "Changes to articles you bookmarked" },
+] as const;
+
+export type PushAlertType = typeof PUSH_ALERT_TYPE_OPTIONS[number]["value"];
+
+export function isPushSupported(): boolean {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+/** VAPID public keys are base64url; PushManager wants raw bytes */
+export function urlBase64ToUint8Array(base64Url: string): Uint8Array {
+  const padding = "=".repeat((4 - (base64Url.length % 4)) % 4);
+  const base64 = (base64Url + padding).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = atob(base64);
+  return Uint8Array.from(raw, (c) => c.charCodeAt(0));
+}
+
+function keyToBase64Url(key: ArrayBuffer | null): string {
+  if (!key) return "";
+  let binary = "";
+  for (const b of new Uint8Array(key)) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Ask for permission, subscribe this browser and save the subscription.
+ * Throws with a user-facing message when push can't be enabled.
+ */
+export async function subscribeToPush(userId: string): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error("Push notifications are not supported in this browser");
+  }
+
+  const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+  if (!vapidPublicKey) {
+    throw new Error("Push notifications are not configured");
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Notification permission was not granted");
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(vapidPublicKey),
+    }));
+
+  const { error } = await supabase.from("push_subscriptions").upsert(
+    {
+      user_id: userId,
+      endpoint: subscription.endpoint,
+      p256dh: keyToBase64Url(subscription.getKey("p256dh")),
+      auth: keyToBase64Url(subscription.getKey("auth")),
+      user_agent: navigator.userAgent,
+    },
+    { onConflict: "endpoint" }
+  );
+  if (error) throw error;
+}
+
+/** Unsubscribe this browser and forget its subscription */
+export async function unsubscribeFromPush(): Promise<void> {
+  if (!isPushSupported()) return;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await supabase.from("push_subscriptions").delete().eq("endpoint", subscription.endpoint);
+  await subscription.unsubscribe();
+}
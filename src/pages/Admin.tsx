@@ -20,6 +20,7 @@ import CampaignAttributionManager from "@/components/admin/CampaignAttributionMa
 import SyncScheduler from "@/components/admin/SyncScheduler";
 import EmailReportManager from "@/components/admin/EmailReportManager";
 import { DataBackfillPanel } from "@/components/admin/DataBackfillPanel";
+import { WebhookDeliveriesPanel } from "@/components/admin/WebhookDeliveriesPanel";
 import { BackfillMonitorPanel } from "@/components/admin/BackfillMonitorPanel";
 import { OnboardingBackfillPanel } from "@/components/admin/OnboardingBackfillPanel";
 import AdminActivityAlerts from "@/components/admin/AdminActivityAlerts";
@@ -28,6 +29,7 @@ import ClientHealthOverview from "@/components/admin/ClientHealthOverview";
 import { AdminDashboardHome } from "@/components/admin/AdminDashboardHome";
 import { NewsTrendsPage } from "@/pages/admin/NewsTrendsPage";
 import { BillTracker } from "@/components/bills/BillTracker";
+import { EntityKnowledgeBaseManager } from "@/components/admin/EntityKnowledgeBaseManager";
 import Analytics from "@/pages/Analytics";
 import Bookmarks from "@/pages/Bookmarks";
 import { CriticalAlerts } from "@/components/alerts/CriticalAlerts";
@@ -324,6 +326,8 @@ const Admin = () => {
         return <NewsTrendsPage />;
       case "bills":
         return <BillTracker />;
+      case "entity-kb":
+        return <EntityKnowledgeBaseManager />;
       case "content-analytics":
         return <Analytics />;
       case "bookmarks":
@@ -353,6 +357,7 @@ const Admin = () => {
             <OnboardingBackfillPanel />
             <DataBackfillPanel />
             <OpsPanel />
+            <WebhookDeliveriesPanel />
             <SyncScheduler />
           </div>
         );
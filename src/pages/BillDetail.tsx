@@ -9,7 +9,9 @@ import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { LoadingCard } from "@/components/ui/loading-spinner";
 import { BillAlertToggle } from "@/components/bills/BillAlertToggle";
-import { ArrowLeft, Users, Calendar, FileText, Activity, ExternalLink } from "lucide-react";
+import { BillVersionDiff, type BillTextVersionRow } from "@/components/bills/BillVersionDiff";
+import { BillRollCallVotes, type RollCallVoteRow } from "@/components/bills/BillRollCallVotes";
+import { ArrowLeft, Users, Calendar, FileText, Activity, ExternalLink, GitCompare, Vote } from "lucide-react";
 import { format } from "date-fns";
 
 const STATUS_STEPS = {
@@ -51,6 +53,8 @@ export default function BillDetail() {
   const { toast } = useToast();
   const [bill, setBill] = useState<any>(null);
   const [actions, setActions] = useState<any[]>([]);
+  const [versions, setVersions] = useState<BillTextVersionRow[]>([]);
+  const [rollCalls, setRollCalls] = useState<RollCallVoteRow[]>([]);
   const [fullText, setFullText] = useState<string>("");
   const [loading, setLoading] = useState(true);
   const [loadingText, setLoadingText] = useState(false);
@@ -82,7 +86,7 @@ export default function BillDetail() {
         .maybeSingle();
 
       if (billError) throw billError;
-      if (!bill) {
+      if (!billData) {
         toast({
           title: "Error",
           description: "Bill not found",
@@ -103,6 +107,25 @@ export default function BillDetail() {
       if (actionsError) throw actionsError;
       setActions(actionsData || []);
 
+      // Fetch stored text versions and roll-call votes
+      const [versionsResult, rollCallsResult] = await Promise.all([
+        supabase
+          .from('bill_text_versions')
+          .select('id, version_code, version_name, stage, version_date, text_content')
+          .eq('bill_id', billData.id)
+          .order('version_date', { ascending: true }),
+        supabase
+          .from('bill_roll_call_votes')
+          .select('*')
+          .eq('bill_id', billData.id)
+          .order('vote_date', { ascending: false }),
+      ]);
+
+      if (versionsResult.error) throw versionsResult.error;
+      if (rollCallsResult.error) throw rollCallsResult.error;
+      setVersions(versionsResult.data || []);
+      setRollCalls(rollCallsResult.data || []);
+
     } catch (error) {
       console.error('Error fetching bill details:', error);
     } finally {
@@ -231,7 +254,7 @@ export default function BillDetail() {
           {/* Main Content */}
           <div className="lg:col-span-2">
             <Tabs defaultValue="actions" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
+              <TabsList className="grid w-full grid-cols-2 sm:grid-cols-4 h-auto">
                 <TabsTrigger value="actions">
                   <Activity className="w-4 h-4 mr-2" />
                   Actions & History
@@ -240,6 +263,14 @@ export default function BillDetail() {
                   <FileText className="w-4 h-4 mr-2" />
                   Full Text
                 </TabsTrigger>
+                <TabsTrigger value="versions">
+                  <GitCompare className="w-4 h-4 mr-2" />
+                  Versions
+                </TabsTrigger>
+                <TabsTrigger value="votes">
+                  <Vote className="w-4 h-4 mr-2" />
+                  Votes
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="actions">
@@ -310,6 +341,34 @@ export default function BillDetail() {
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              <TabsContent value="versions">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Version Changes</CardTitle>
+                    <CardDescription>
+                      Section-by-section changes between published versions of the bill
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <BillVersionDiff versions={versions} />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="votes">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Roll-Call Votes</CardTitle>
+                    <CardDescription>
+                      Recorded votes on this bill and how each member voted
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <BillRollCallVotes votes={rollCalls} />
+                  </CardContent>
+                </Card>
+              </TabsContent>
             </Tabs>
           </div>
 
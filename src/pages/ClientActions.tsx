@@ -27,9 +27,11 @@ import { ActionCard, getTriageTier } from "@/components/client/ActionCard";
 import { PipelineHealthPanel } from "@/components/client/actions/PipelineHealthPanel";
 import { DismissReasonModal } from "@/components/client/actions/DismissReasonModal";
 import { LastRunStatus } from "@/components/client/LastRunStatus";
+import { SendTimeField, TextingComplianceChecklist } from "@/components/client/TextingComplianceChecklist";
 import { useClientOrganization } from "@/hooks/useClientOrganization";
 import { useLatestActionGeneratorRun } from "@/hooks/useActionGeneratorRuns";
 import { usePipelineHealth } from "@/hooks/usePipelineHealth";
+import { useTextingComplianceCheck } from "@/queries/useTextingComplianceQuery";
 import {
   useSuggestedActionsQuery,
   useMarkActionUsed,
@@ -78,6 +80,7 @@ const STATUS_OPTIONS: { value: FilterStatus; label: string }[] = [
 
 interface ActionDetailDialogProps {
   action: SuggestedAction | null;
+  organizationId: string | null;
   onClose: () => void;
   onCopy: (action: SuggestedAction) => Promise<void>;
   onDismiss: (id: string) => void;
@@ -86,12 +89,16 @@ interface ActionDetailDialogProps {
 
 const ActionDetailDialog = ({
   action,
+  organizationId,
   onClose,
   onCopy,
   onDismiss,
   isCopying,
 }: ActionDetailDialogProps) => {
   const [copied, setCopied] = useState(false);
+  const [sendAt, setSendAt] = useState("");
+  // sms_copy already carries the opt-out line
+  const textingCheck = useTextingComplianceCheck(organizationId, action ? [action.sms_copy] : [], { sendAt });
 
   if (!action) return null;
 
@@ -199,16 +206,26 @@ const ActionDetailDialog = ({
                 variant="outline"
                 className="bg-transparent border-[hsl(var(--portal-border))] text-[hsl(var(--portal-text-secondary))]"
               >
-                {action.character_count}/160
+                {action.character_count}/{action.compliance_checks?.character_limit ?? 160}
+                {action.compliance_checks?.segment_count !== undefined &&
+                  ` · ${action.compliance_checks.segment_count} seg${action.compliance_checks.encoding === "UCS-2" ? " (UCS-2)" : ""}`}
               </Badge>
             </div>
             <p className="text-sm font-mono text-[hsl(var(--portal-text-primary))] whitespace-pre-wrap">
               {action.sms_copy}
             </p>
             <Progress
-              value={(action.character_count / 160) * 100}
+              value={Math.min(100, (action.character_count / (action.compliance_checks?.character_limit ?? 160)) * 100)}
               className="h-1 mt-3"
             />
+            <div className="mt-4 pt-3 border-t border-[hsl(var(--portal-border)/0.5)] space-y-3">
+              <SendTimeField id="action-send-time" value={sendAt} onChange={setSendAt} className="max-w-xs" />
+              <TextingComplianceChecklist
+                result={textingCheck.data?.[0]}
+                isLoading={textingCheck.isFetching}
+                error={textingCheck.error}
+              />
+            </div>
           </div>
 
           {/* Metrics Grid */}
@@ -861,6 +878,7 @@ const ClientActions = () => {
       {/* Action Detail Dialog */}
       <ActionDetailDialog
         action={selectedAction}
+        organizationId={organizationId}
         onClose={() => setSelectedAction(null)}
         onCopy={handleCopy}
         onDismiss={handleDismiss}
@@ -0,0 +1,488 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { LayoutDashboard, LayoutGrid, Plus, Save, Copy, Home, Star, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { ClientShell } from "@/components/client/ClientShell";
+import { V3LoadingState, V3Badge } from "@/components/v3";
+import { V3PageContainer } from "@/components/v3/V3PageContainer";
+import { CustomDashboardGrid } from "@/components/dashboard/CustomDashboardGrid";
+import {
+  listWidgetDefinitions,
+  WIDGET_CATEGORY_LABELS,
+  type WidgetCategory,
+  type WidgetDefinition,
+} from "@/components/dashboard/widgets/registry";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useClientOrganization } from "@/hooks/useClientOrganization";
+import {
+  useCanManageSharedLayoutsQuery,
+  useDashboardHomePreferenceQuery,
+  useDashboardLayoutsQuery,
+  useDeleteDashboardLayoutMutation,
+  useSaveDashboardLayoutMutation,
+  useSetDashboardHomeMutation,
+  useSetOrgDefaultLayoutMutation,
+} from "@/queries";
+import { DASHBOARD_TEMPLATES, nextWidgetPosition, resolveHomeLayout } from "@/lib/dashboard-layouts";
+import type {
+  DashboardAudience,
+  DashboardHomePreference,
+  DashboardWidgetInstance,
+  SavedDashboardLayout,
+} from "@/types/dashboardLayout";
+
+const AUDIENCE_LABELS: Record<DashboardAudience, string> = {
+  general: 'General',
+  finance: 'Finance',
+  digital: 'Digital',
+};
+
+const CATEGORY_ORDER: WidgetCategory[] = ['kpi', 'chart', 'trend', 'alert'];
+
+// What is on screen: a saved layout, or a built-in template not yet saved
+type Selection =
+  | { kind: 'layout'; layout: SavedDashboardLayout }
+  | { kind: 'template'; id: string; name: string; audience: DashboardAudience; widgets: DashboardWidgetInstance[] };
+
+function selectionKey(selection: Selection): string {
+  return selection.kind === 'layout' ? selection.layout.id : selection.id;
+}
+
+interface SaveAsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultName: string;
+  defaultAudience: DashboardAudience;
+  canShare: boolean;
+  isSaving: boolean;
+  onSave: (values: { name: string; audience: DashboardAudience; shared: boolean }) => void;
+}
+
+function SaveAsDialog({ open, onOpenChange, defaultName, defaultAudience, canShare, isSaving, onSave }: SaveAsDialogProps) {
+  const [name, setName] = useState(defaultName);
+  const [audience, setAudience] = useState<DashboardAudience>(defaultAudience);
+  const [shared, setShared] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(defaultName);
+      setAudience(defaultAudience);
+      setShared(false);
+    }
+  }, [open, defaultName, defaultAudience]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save dashboard as</DialogTitle>
+          <DialogDescription>
+            Save the current widgets and positions as a new layout.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="layout-name">Name</Label>
+            <Input id="layout-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={80} />
+          </div>
+          {canShare && (
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="layout-shared">Share with organization</Label>
+                <p className="text-xs text-muted-foreground">Everyone in the organization can open it</p>
+              </div>
+              <Switch id="layout-shared" checked={shared} onCheckedChange={setShared} />
+            </div>
+          )}
+          {shared && (
+            <div className="space-y-2">
+              <Label>Team</Label>
+              <Select value={audience} onValueChange={(v) => setAudience(v as DashboardAudience)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(AUDIENCE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button disabled={!name.trim() || isSaving} onClick={() => onSave({ name, audience, shared })}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const ClientCustomDashboard = () => {
+  const { organizationId, isLoading: orgLoading } = useClientOrganization();
+  const { data: layouts, isLoading: layoutsLoading } = useDashboardLayoutsQuery(organizationId);
+  const { data: home, isLoading: homeLoading } = useDashboardHomePreferenceQuery(organizationId);
+  const { data: canManageShared = false } = useCanManageSharedLayoutsQuery(organizationId);
+
+  const saveLayout = useSaveDashboardLayoutMutation();
+  const deleteLayout = useDeleteDashboardLayoutMutation();
+  const setOrgDefault = useSetOrgDefaultLayoutMutation();
+  const setHome = useSetDashboardHomeMutation();
+
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [widgets, setWidgets] = useState<DashboardWidgetInstance[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [saveAsOpen, setSaveAsOpen] = useState(false);
+  const [pendingLayoutId, setPendingLayoutId] = useState<string | null>(null);
+
+  const ownLayouts = useMemo(() => (layouts ?? []).filter((l) => l.user_id !== null), [layouts]);
+  const sharedLayouts = useMemo(() => (layouts ?? []).filter((l) => l.user_id === null), [layouts]);
+  const audience = home?.audience ?? 'general';
+
+  const select = useCallback((next: Selection) => {
+    setSelection(next);
+    setWidgets(next.kind === 'layout' ? next.layout.widgets : next.widgets);
+    setIsDirty(false);
+    setIsEditing(false);
+  }, []);
+
+  const openHome = useCallback((available: SavedDashboardLayout[], preference: DashboardHomePreference | null) => {
+    const resolved = resolveHomeLayout(available, preference);
+    select(resolved.source === 'template'
+      ? { kind: 'template', ...resolved.template }
+      : { kind: 'layout', layout: resolved.layout });
+  }, [select]);
+
+  // Open the user's home layout once everything has loaded, or a layout just
+  // created with "Save as" once the refetched list includes it
+  useEffect(() => {
+    if (!layouts || homeLoading) return;
+    if (pendingLayoutId) {
+      const created = layouts.find((l) => l.id === pendingLayoutId);
+      if (created) {
+        select({ kind: 'layout', layout: created });
+        setPendingLayoutId(null);
+      }
+      return;
+    }
+    if (!selection) openHome(layouts, home ?? null);
+  }, [layouts, home, homeLoading, selection, pendingLayoutId, select, openHome]);
+
+  // Pick up saved changes (name, default flag) after the list refetches
+  useEffect(() => {
+    if (selection?.kind !== 'layout' || !layouts) return;
+    const fresh = layouts.find((l) => l.id === selection.layout.id);
+    if (fresh && fresh !== selection.layout) setSelection({ kind: 'layout', layout: fresh });
+  }, [layouts, selection]);
+
+  const isOwn = selection?.kind === 'layout' && selection.layout.user_id !== null;
+  const isShared = selection?.kind === 'layout' && selection.layout.user_id === null;
+  const canWrite = isOwn || (isShared && canManageShared);
+
+  const updateWidgets = (next: DashboardWidgetInstance[]) => {
+    setWidgets(next);
+    setIsDirty(true);
+  };
+
+  const addWidget = (definition: WidgetDefinition) => {
+    const { w, h } = definition.defaultSize;
+    updateWidgets([
+      ...widgets,
+      { id: `${definition.type}-${crypto.randomUUID().slice(0, 8)}`, type: definition.type, ...nextWidgetPosition(widgets), w, h },
+    ]);
+  };
+
+  const handleSave = () => {
+    if (!organizationId || selection?.kind !== 'layout') return;
+    const { layout } = selection;
+    saveLayout.mutate(
+      { id: layout.id, organizationId, name: layout.name, audience: layout.audience, widgets, shared: layout.user_id === null },
+      {
+        onSuccess: () => {
+          setIsDirty(false);
+          setIsEditing(false);
+          toast.success("Dashboard saved");
+        },
+        onError: () => toast.error("Failed to save dashboard"),
+      }
+    );
+  };
+
+  const handleSaveAs = (values: { name: string; audience: DashboardAudience; shared: boolean }) => {
+    if (!organizationId) return;
+    saveLayout.mutate(
+      { organizationId, widgets, ...values },
+      {
+        onSuccess: (id) => {
+          setSaveAsOpen(false);
+          setPendingLayoutId(id);
+          toast.success(`Saved "${values.name.trim()}"`);
+        },
+        onError: () => toast.error("Failed to save dashboard"),
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!organizationId || selection?.kind !== 'layout') return;
+    const deletedId = selection.layout.id;
+    deleteLayout.mutate(
+      { id: deletedId, organizationId },
+      {
+        onSuccess: () => {
+          const remaining = (layouts ?? []).filter((l) => l.id !== deletedId);
+          openHome(remaining, home && home.layout_id === deletedId ? { ...home, layout_id: null } : home ?? null);
+          toast.success("Dashboard deleted");
+        },
+        onError: () => toast.error("Failed to delete dashboard"),
+      }
+    );
+  };
+
+  const handleSetHome = () => {
+    if (!organizationId || selection?.kind !== 'layout') return;
+    setHome.mutate(
+      { organizationId, audience, layoutId: selection.layout.id },
+      {
+        onSuccess: () => toast.success(`"${selection.layout.name}" is now your home dashboard`),
+        onError: () => toast.error("Failed to update home dashboard"),
+      }
+    );
+  };
+
+  const handleSetOrgDefault = () => {
+    if (!organizationId || selection?.kind !== 'layout') return;
+    const { layout } = selection;
+    setOrgDefault.mutate(
+      { id: layout.id, organizationId, audience: layout.audience },
+      {
+        onSuccess: () => toast.success(`Default for ${AUDIENCE_LABELS[layout.audience]} staff updated`),
+        onError: () => toast.error("Failed to set organization default"),
+      }
+    );
+  };
+
+  // Changing team clears an explicit home so the team's default applies
+  const handleAudienceChange = (value: DashboardAudience) => {
+    if (!organizationId) return;
+    setHome.mutate(
+      { organizationId, audience: value, layoutId: null },
+      {
+        onSuccess: () => openHome(layouts ?? [], { user_id: '', organization_id: organizationId, audience: value, layout_id: null }),
+        onError: () => toast.error("Failed to update team"),
+      }
+    );
+  };
+
+  const handleSelect = (key: string) => {
+    const layout = layouts?.find((l) => l.id === key);
+    if (layout) return select({ kind: 'layout', layout });
+    const template = DASHBOARD_TEMPLATES.find((t) => t.id === key);
+    if (template) select({ kind: 'template', ...template });
+  };
+
+  const isLoading = orgLoading || layoutsLoading || homeLoading || (!!organizationId && !selection);
+  const isHome = selection?.kind === 'layout' && home?.layout_id === selection.layout.id;
+  const isOrgDefault = selection?.kind === 'layout' && selection.layout.is_default;
+
+  const definitionsByCategory = useMemo(() => {
+    const all = listWidgetDefinitions();
+    return CATEGORY_ORDER.map((category) => ({ category, definitions: all.filter((d) => d.category === category) }));
+  }, []);
+
+  const actions = selection && (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={selectionKey(selection)} onValueChange={handleSelect}>
+        <SelectTrigger className="h-8 w-[200px]"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          {ownLayouts.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>My dashboards</SelectLabel>
+              {ownLayouts.map((l) => <SelectItem key={l.id} value={l.id}>{l.name}</SelectItem>)}
+            </SelectGroup>
+          )}
+          {sharedLayouts.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>Shared with organization</SelectLabel>
+              {sharedLayouts.map((l) => (
+                <SelectItem key={l.id} value={l.id}>
+                  {l.name} ({AUDIENCE_LABELS[l.audience]}{l.is_default ? ', default' : ''})
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          )}
+          <SelectGroup>
+            <SelectLabel>Templates</SelectLabel>
+            {DASHBOARD_TEMPLATES.map((t) => <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>)}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+
+      <Select value={audience} onValueChange={(v) => handleAudienceChange(v as DashboardAudience)}>
+        <SelectTrigger className="h-8 w-[150px]" aria-label="My team">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(AUDIENCE_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>Team: {label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isEditing && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 gap-1.5">
+              <Plus className="h-3.5 w-3.5" />
+              Add widget
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-64 max-h-[420px] overflow-y-auto">
+            {definitionsByCategory.map(({ category, definitions }, idx) => (
+              <div key={category}>
+                {idx > 0 && <DropdownMenuSeparator />}
+                <DropdownMenuLabel>{WIDGET_CATEGORY_LABELS[category]}</DropdownMenuLabel>
+                {definitions.map((d) => (
+                  <DropdownMenuItem key={d.type} onClick={() => addWidget(d)} className="flex-col items-start">
+                    <span>{d.title}</span>
+                    <span className="text-xs text-muted-foreground">{d.description}</span>
+                  </DropdownMenuItem>
+                ))}
+              </div>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      <Button
+        variant={isEditing ? "secondary" : "ghost"}
+        size="sm"
+        className="h-8 gap-1.5"
+        onClick={() => setIsEditing((v) => !v)}
+      >
+        <LayoutGrid className="h-3.5 w-3.5" />
+        {isEditing ? "Done" : "Edit layout"}
+      </Button>
+
+      {canWrite && isDirty && (
+        <Button size="sm" className="h-8 gap-1.5" onClick={handleSave} disabled={saveLayout.isPending}>
+          <Save className="h-3.5 w-3.5" />
+          Save
+        </Button>
+      )}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8">More</Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => setSaveAsOpen(true)}>
+            <Copy className="h-4 w-4 mr-2" />
+            Save as…
+          </DropdownMenuItem>
+          {selection.kind === 'layout' && !isHome && (
+            <DropdownMenuItem onClick={handleSetHome}>
+              <Home className="h-4 w-4 mr-2" />
+              Set as my home
+            </DropdownMenuItem>
+          )}
+          {isShared && canManageShared && !selection.layout.is_default && (
+            <DropdownMenuItem onClick={handleSetOrgDefault}>
+              <Star className="h-4 w-4 mr-2" />
+              Default for {AUDIENCE_LABELS[selection.layout.audience]} staff
+            </DropdownMenuItem>
+          )}
+          {canWrite && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={handleDelete} className="text-destructive">
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+
+  return (
+    <ClientShell pageTitle="Custom Dashboard" showDateControls={true}>
+      <V3PageContainer
+        icon={LayoutDashboard}
+        title={selection?.kind === 'layout' ? selection.layout.name : selection?.name ?? "Custom Dashboard"}
+        description="Arrange KPIs, charts, trends and alerts; each widget can use its own date range"
+        actions={actions}
+      >
+        {isLoading || !organizationId ? (
+          <V3LoadingState variant="kpi-grid" count={6} />
+        ) : (
+          <div className="space-y-3">
+            {(isHome || isOrgDefault) && (
+              <div className="flex flex-wrap items-center gap-2">
+                {isHome && <V3Badge variant="info">Your home</V3Badge>}
+                {isOrgDefault && selection.kind === 'layout' && (
+                  <V3Badge variant="muted">Default for {AUDIENCE_LABELS[selection.layout.audience]} staff</V3Badge>
+                )}
+              </div>
+            )}
+            {isDirty && !canWrite && (
+              <p className="text-xs text-muted-foreground">
+                {selection?.kind === 'template'
+                  ? "Templates can't be changed; use Save as to keep your changes."
+                  : "Only managers can change shared dashboards; use Save as to keep your changes."}
+              </p>
+            )}
+            <CustomDashboardGrid
+              organizationId={organizationId}
+              widgets={widgets}
+              isEditing={isEditing}
+              onChange={updateWidgets}
+            />
+          </div>
+        )}
+      </V3PageContainer>
+
+      <SaveAsDialog
+        open={saveAsOpen}
+        onOpenChange={setSaveAsOpen}
+        defaultName={selection?.kind === 'layout' ? `${selection.layout.name} (copy)` : selection?.name ?? "My dashboard"}
+        defaultAudience={selection?.kind === 'layout' ? selection.layout.audience : selection?.audience ?? audience}
+        canShare={canManageShared}
+        isSaving={saveLayout.isPending}
+        onSave={handleSaveAs}
+      />
+    </ClientShell>
+  );
+};
+
+export default ClientCustomDashboard;
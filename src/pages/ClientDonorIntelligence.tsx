@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Brain, RefreshCw, Play, Zap, Database, LayoutGrid, BookMarked, Users } from "lucide-react";
+import { Brain, RefreshCw, Play, Zap, Database, LayoutGrid, BookMarked, Users, TrendingUp } from "lucide-react";
 import { ClientShell } from "@/components/client/ClientShell";
 import { useClientOrganization } from "@/hooks/useClientOrganization";
 import { supabase } from "@/integrations/supabase/client";
@@ -13,6 +13,9 @@ import {
 } from "@/components/v3";
 import { DonorSegmentBuilder } from "@/components/client/DonorSegmentBuilder";
 import { SavedSegmentsList } from "@/components/client/SavedSegmentsList";
+import { NewlyLapsedDonorsFeed } from "@/components/client/NewlyLapsedDonorsFeed";
+import { DonorLtvModelPanel } from "@/components/client/DonorLtvModelPanel";
+import { LTV_MODEL_RUNS_KEY } from "@/queries/useDonorLtvModelQuery";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { cn } from "@/lib/utils";
 import { useSmartRefresh } from "@/hooks/useSmartRefresh";
@@ -22,7 +25,7 @@ export default function ClientDonorIntelligence() {
   const [isRunningJourneys, setIsRunningJourneys] = useState(false);
   const [isRunningLtv, setIsRunningLtv] = useState(false);
   const [isPopulatingDemographics, setIsPopulatingDemographics] = useState(false);
-  const [activeTab, setActiveTab] = useState<"builder" | "saved">("builder");
+  const [activeTab, setActiveTab] = useState<"builder" | "saved" | "ltv">("builder");
   const queryClient = useQueryClient();
 
   // Smart refresh hook
@@ -86,7 +89,10 @@ export default function ClientDonorIntelligence() {
         console.error('LTV pipeline error:', error);
         toast.error('Failed to run LTV pipeline');
       } else {
-        await queryClient.invalidateQueries({ queryKey: ['donor-segment'] });
+        await Promise.all([
+          queryClient.invalidateQueries({ queryKey: ['donor-segment'] }),
+          queryClient.invalidateQueries({ queryKey: [LTV_MODEL_RUNS_KEY] }),
+        ]);
         toast.success(`LTV predictions: ${result?.predictions_created || result?.predictionsCreated || 0} donors analyzed`);
       }
     } catch (err) {
@@ -184,7 +190,7 @@ export default function ClientDonorIntelligence() {
         }
       >
         {/* Tab Navigation */}
-        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "builder" | "saved")} className="w-full">
+        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as "builder" | "saved" | "ltv")} className="w-full">
           <TabsList className="bg-[hsl(var(--portal-bg-elevated))] border border-[hsl(var(--portal-border))] p-1 mb-6">
             <TabsTrigger 
               value="builder"
@@ -206,13 +212,24 @@ export default function ClientDonorIntelligence() {
               <BookMarked className="h-4 w-4" />
               Saved Segments
             </TabsTrigger>
+            <TabsTrigger 
+              value="ltv"
+              className={cn(
+                "gap-2 data-[state=active]:bg-[hsl(var(--portal-bg-secondary))]",
+                "data-[state=active]:text-[hsl(var(--portal-text-primary))]"
+              )}
+            >
+              <TrendingUp className="h-4 w-4" />
+              Lifetime Value
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="builder" className="mt-0">
             <DonorSegmentBuilder organizationId={organizationId} />
           </TabsContent>
 
-          <TabsContent value="saved" className="mt-0">
+          <TabsContent value="saved" className="mt-0 space-y-4">
+            <NewlyLapsedDonorsFeed organizationId={organizationId} />
             <SavedSegmentsList 
               organizationId={organizationId} 
               onLoadSegment={(filters) => {
@@ -222,6 +239,10 @@ export default function ClientDonorIntelligence() {
               }}
             />
           </TabsContent>
+
+          <TabsContent value="ltv" className="mt-0">
+            <DonorLtvModelPanel organizationId={organizationId} />
+          </TabsContent>
         </Tabs>
       </V3PageContainer>
     </ClientShell>
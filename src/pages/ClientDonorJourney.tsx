@@ -45,6 +45,7 @@ import { RefcodePerformanceTable } from "@/components/analytics/RefcodePerforman
 import { RevenueByChannelChart } from "@/components/analytics/RevenueByChannelChart";
 import { RetentionMetricsCard } from "@/components/analytics/RetentionMetricsCard";
 import { TopRefcodesByLTVCard } from "@/components/analytics/TopRefcodesByLTVCard";
+import { AttributionModelComparison } from "@/components/analytics/AttributionModelComparison";
 // CRITICAL: Single source of truth for attribution classification
 import { isTruthMapping, getTruthRefcodeSet, filterHeuristicMappings, calculateAttributionCounts } from "@/utils/attributionTruth";
 
@@ -714,6 +715,22 @@ const ClientDonorJourney = () => {
               </V3ChartWrapper>
             </div>
 
+            {/* Multi-touch Model Comparison */}
+            <V3Card>
+              <V3CardHeader>
+                <V3CardTitle className="flex items-center gap-2">
+                  <Shuffle className="h-4 w-4" />
+                  Attribution Model Comparison
+                </V3CardTitle>
+                <p className="text-sm text-[hsl(var(--portal-text-muted))] mt-1">
+                  Revenue credited to each channel across first-touch, last-touch, linear, position-based and time-decay models (last 30 days)
+                </p>
+              </V3CardHeader>
+              <V3CardContent>
+                <AttributionModelComparison organizationId={organizationId} />
+              </V3CardContent>
+            </V3Card>
+
             {/* Refcode Performance Table */}
             <V3Card>
               <V3CardHeader>
@@ -12,6 +12,7 @@ import { LinkTrackingKPIs } from "@/components/analytics/LinkTrackingKPIs";
 import { LinkTrackingCharts } from "@/components/analytics/LinkTrackingCharts";
 import { LinkTrackingTables } from "@/components/analytics/LinkTrackingTables";
 import { CAPIHealthPanel } from "@/components/analytics/CAPIHealthPanel";
+import { TrackedLinksPanel } from "@/components/analytics/TrackedLinksPanel";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
@@ -166,6 +167,15 @@ export default function ClientLinkTracking() {
           isLoading={clicksLoading}
         />
 
+        {/* Link rotation / per-variant conversion */}
+        {organizationId && (
+          <TrackedLinksPanel
+            organizationId={organizationId}
+            startDate={dateRange.start}
+            endDate={dateRange.end}
+          />
+        )}
+
         {/* CAPI Panel - Full Width */}
         <CAPIHealthPanel
           data={capiData || {
@@ -1,11 +1,12 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
+import { useSearchParams } from "react-router-dom";
 import { formatDistanceToNow } from "date-fns";
 import { motion, AnimatePresence } from "framer-motion";
 
 import { ClientShell } from "@/components/client/ClientShell";
 import { ProductionGate } from "@/components/client/ProductionGate";
 import { useClientOrganization } from "@/hooks/useClientOrganization";
-import { useTrendEvents, useTrendEvidence } from "@/hooks/useTrendEvents";
+import { useTrendEvents, useTrendEvidence, getDisplayLabel } from "@/hooks/useTrendEvents";
 import { useUnifiedTrends } from "@/hooks/useUnifiedTrends";
 import { useOrgTrendScores } from "@/hooks/useOrgRelevance";
 import { useOrgTrendOutcomesMap, type OutcomeStats } from "@/hooks/useTrendOutcomes";
@@ -308,6 +309,22 @@ export default function ClientNewsTrends() {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
   const [activeTab, setActiveTab] = useState<IASection>("primary");
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Deep link from push notifications: ?trend=<topic> opens that trend's drilldown
+  const linkedTrend = searchParams.get("trend");
+  useEffect(() => {
+    if (!linkedTrend || trendEvents.length === 0) return;
+    const needle = linkedTrend.toLowerCase();
+    const match = trendEvents.find(t =>
+      [t.event_key, t.event_title, getDisplayLabel(t)].some(label => label?.toLowerCase() === needle)
+    );
+    if (match) setSelectedTrend(match);
+    setSearchParams(params => {
+      params.delete("trend");
+      return params;
+    }, { replace: true });
+  }, [linkedTrend, trendEvents, setSearchParams]);
 
   // ============================================================================
   // Computed Values
@@ -1,8 +1,10 @@
 import { useState, useEffect } from "react";
 import { ClientLayout } from "@/components/client/ClientLayout";
 import { NotificationSettings } from "@/components/notifications/NotificationSettings";
+import { TextingComplianceSettings } from "@/components/client/TextingComplianceSettings";
+import { ThreatTaxonomySettings } from "@/components/client/ThreatTaxonomySettings";
 import { PortalCard, PortalCardHeader, PortalCardTitle, PortalCardDescription, PortalCardContent } from "@/components/portal/PortalCard";
-import { Settings as SettingsIcon, Bell, User, Shield, Palette, Loader2, Save, Eye, EyeOff } from "lucide-react";
+import { Settings as SettingsIcon, Bell, User, Shield, Palette, Loader2, Save, Eye, EyeOff, MessageSquare, ShieldAlert } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -13,9 +15,11 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { useTheme } from "@/components/ThemeProvider";
 import { formatDistanceToNow } from "date-fns";
+import { useClientOrganization } from "@/hooks/useClientOrganization";
 
 export default function ClientSettings() {
   const { theme, setTheme } = useTheme();
+  const { organizationId } = useClientOrganization();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [userProfile, setUserProfile] = useState({
@@ -166,6 +170,14 @@ export default function ClientSettings() {
               <Palette className="h-4 w-4" />
               <span className="hidden sm:inline">Appearance</span>
             </TabsTrigger>
+            <TabsTrigger value="texting" className="gap-2">
+              <MessageSquare className="h-4 w-4" />
+              <span className="hidden sm:inline">Texting Rules</span>
+            </TabsTrigger>
+            <TabsTrigger value="threats" className="gap-2">
+              <ShieldAlert className="h-4 w-4" />
+              <span className="hidden sm:inline">Threat Taxonomy</span>
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="notifications">
@@ -412,6 +424,34 @@ export default function ClientSettings() {
               </PortalCardContent>
             </PortalCard>
           </TabsContent>
+
+          <TabsContent value="texting">
+            <PortalCard>
+              <PortalCardHeader>
+                <PortalCardTitle>Texting Compliance</PortalCardTitle>
+                <PortalCardDescription>
+                  Choose which rule packs are checked wherever SMS copy is drafted
+                </PortalCardDescription>
+              </PortalCardHeader>
+              <PortalCardContent>
+                <TextingComplianceSettings organizationId={organizationId} />
+              </PortalCardContent>
+            </PortalCard>
+          </TabsContent>
+
+          <TabsContent value="threats">
+            <PortalCard>
+              <PortalCardHeader>
+                <PortalCardTitle>Threat Taxonomy</PortalCardTitle>
+                <PortalCardDescription>
+                  Define the issues, keywords and weights used to rate state actions, executive orders and bills
+                </PortalCardDescription>
+              </PortalCardHeader>
+              <PortalCardContent>
+                <ThreatTaxonomySettings organizationId={organizationId} />
+              </PortalCardContent>
+            </PortalCard>
+          </TabsContent>
         </Tabs>
       </div>
     </ClientLayout>
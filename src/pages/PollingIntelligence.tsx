@@ -1,60 +1,40 @@
-import { useEffect, useState, useMemo } from "react";
+import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { TrendingUp, TrendingDown, AlertTriangle, Target, Users, BarChart3 } from "lucide-react";
+import { TrendingUp, TrendingDown, AlertTriangle, Target, BarChart3 } from "lucide-react";
 import { ClientShell } from "@/components/client/ClientShell";
 import { ProductionGate } from "@/components/client/ProductionGate";
+import { PollingAverageCard } from "@/components/client/PollingAverageCard";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
   V3PageContainer,
   V3Card,
-  V3CardHeader,
-  V3CardTitle,
-  V3CardDescription,
   V3CardContent,
-  V3ChartWrapper,
   V3LoadingState,
   V3EmptyState,
   V3Badge,
   V3Button,
   V3FilterPill,
 } from "@/components/v3";
-import { EChartsLineChart, type LineSeriesConfig } from "@/components/charts/echarts";
-import { getChartColors } from "@/lib/design-tokens";
+import { usePollingAveragesQuery } from "@/queries/usePollingAveragesQuery";
 
 import { Database } from "@/integrations/supabase/types";
 
-type PollingData = Database['public']['Tables']['polling_data']['Row'];
 type PollingAlert = Database['public']['Tables']['polling_alerts']['Row'];
 
+const ELECTION_POLL_TYPES = ["senate", "house", "governor", "presidential"];
+const ISSUE_POLL_TYPES = ["presidential_approval", "issue_economy", "issue_immigration", "issue_foreign_policy"];
+
 export default function PollingIntelligence() {
-  const [loading, setLoading] = useState(true);
-  const [pollingData, setPollingData] = useState<PollingData[]>([]);
   const [pollingAlerts, setPollingAlerts] = useState<PollingAlert[]>([]);
   const [selectedRaceType, setSelectedRaceType] = useState<string>("all");
+  const { data: raceAverages = [], isLoading: racesLoading } = usePollingAveragesQuery({ pollTypes: ELECTION_POLL_TYPES });
+  const { data: issueAverages = [], isLoading: issuesLoading } = usePollingAveragesQuery({ pollTypes: ISSUE_POLL_TYPES });
 
   useEffect(() => {
-    fetchPollingData();
     fetchPollingAlerts();
   }, []);
 
-  const fetchPollingData = async () => {
-    try {
-      const { data, error } = await supabase
-        .from("polling_data")
-        .select("*")
-        .order("poll_date", { ascending: false })
-        .limit(100);
-
-      if (error) throw error;
-      setPollingData(data || []);
-    } catch (error) {
-      console.error("Error fetching polling data:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const fetchPollingAlerts = async () => {
     try {
       const { data, error } = await supabase
@@ -87,63 +67,13 @@ export default function PollingIntelligence() {
     }
   };
 
-  const filteredPollingData = selectedRaceType === "all" 
-    ? pollingData 
-    : pollingData.filter(poll => poll.poll_type === selectedRaceType);
-
-  const racesByState = filteredPollingData.reduce((acc, poll) => {
-    const raceName = `${poll.state}${poll.district ? ` - District ${poll.district}` : ''} ${poll.poll_type}`;
-    if (!acc[raceName]) {
-      acc[raceName] = [];
-    }
-    acc[raceName].push(poll);
-    return acc;
-  }, {} as Record<string, PollingData[]>);
-
-  const chartColors = getChartColors();
-
-  const getTrendData = (raceName: string) => {
-    const racePolls = racesByState[raceName] || [];
-    const sortedPolls = [...racePolls].sort((a, b) => 
-      new Date(a.poll_date).getTime() - new Date(b.poll_date).getTime()
-    );
-
-    // Get unique candidates
-    const candidates = [...new Set(sortedPolls.map(p => p.candidate_name))];
-
-    // Transform data for ECharts - each data point needs all candidate values
-    const dateMap = new Map<string, Record<string, number | null>>();
-    sortedPolls.forEach(poll => {
-      const dateKey = poll.poll_date;
-      if (!dateMap.has(dateKey)) {
-        dateMap.set(dateKey, { date: dateKey as any });
-      }
-      const entry = dateMap.get(dateKey)!;
-      entry[poll.candidate_name] = poll.lead_margin;
-    });
-
-    const chartData = Array.from(dateMap.values()).map(entry => ({
-      date: entry.date as unknown as string,
-      ...Object.fromEntries(
-        candidates.map(c => [c, entry[c] ?? null])
-      )
-    }));
-
-    // Build series config for each candidate
-    const seriesConfig: LineSeriesConfig[] = candidates.map((candidate, idx) => ({
-      dataKey: candidate,
-      name: candidate,
-      color: chartColors[idx % chartColors.length],
-      smooth: true,
-      showSymbol: true,
-    }));
-
-    return { chartData, seriesConfig, sortedPolls, candidates };
-  };
+  const filteredRaces = selectedRaceType === "all"
+    ? raceAverages
+    : raceAverages.filter(race => race.poll_type === selectedRaceType);
 
   const unreadAlertsCount = pollingAlerts.filter(alert => !alert.is_read).length;
 
-  if (loading) {
+  if (racesLoading || issuesLoading) {
     return (
       <ClientShell>
         <div className="p-6">
@@ -209,6 +139,11 @@ export default function PollingIntelligence() {
                 isActive={selectedRaceType === "house"}
                 onClick={() => setSelectedRaceType("house")}
               />
+              <V3FilterPill
+                label="Governor"
+                isActive={selectedRaceType === "governor"}
+                onClick={() => setSelectedRaceType("governor")}
+              />
               <V3FilterPill
                 label="Presidential"
                 isActive={selectedRaceType === "presidential"}
@@ -216,70 +151,11 @@ export default function PollingIntelligence() {
               />
             </div>
 
-            {Object.entries(racesByState).map(([raceName, polls]) => {
-              const { chartData, seriesConfig, candidates } = getTrendData(raceName);
-              const latestPolls = polls.slice(0, 3);
-
-              return (
-                <V3Card key={raceName}>
-                  <V3CardHeader>
-                    <div className="flex items-start justify-between">
-                      <div>
-                        <V3CardTitle>{raceName}</V3CardTitle>
-                        <V3CardDescription>
-                          {polls[0]?.poll_type} • Latest: {new Date(polls[0]?.poll_date).toLocaleDateString()}
-                        </V3CardDescription>
-                      </div>
-                      <V3Badge variant="info">
-                        <Users className="h-3 w-3 mr-1" />
-                        {polls.length} polls
-                      </V3Badge>
-                    </div>
-                  </V3CardHeader>
-                  <V3CardContent className="space-y-4">
-                    <div className="grid gap-3">
-                      {latestPolls.map((poll) => (
-                        <div key={poll.id} className="flex items-center justify-between p-3 rounded-lg border border-[hsl(var(--portal-border))] bg-[hsl(var(--portal-bg-elevated))]">
-                          <div className="flex items-center gap-3">
-                            <div>
-                              <p className="font-medium text-[hsl(var(--portal-text-primary))]">{poll.candidate_name}</p>
-                              <p className="text-xs text-[hsl(var(--portal-text-muted))]">
-                                {poll.pollster}
-                              </p>
-                            </div>
-                          </div>
-                          <div className="text-right">
-                            <p className="text-2xl font-bold text-[hsl(var(--portal-accent-blue))]">
-                              {poll.lead_margin !== null ? `+${poll.lead_margin}` : 'N/A'}%
-                            </p>
-                            <p className="text-xs text-[hsl(var(--portal-text-muted))]">±{poll.margin_of_error}%</p>
-                          </div>
-                        </div>
-                      ))}
-                    </div>
-
-                    {candidates.length > 1 && chartData.length > 1 && (
-                      <V3ChartWrapper
-                        title="Polling Trend"
-                        ariaLabel={`Polling trend chart for ${raceName}`}
-                      >
-                        <EChartsLineChart
-                          data={chartData}
-                          xAxisKey="date"
-                          series={seriesConfig}
-                          height={200}
-                          xAxisType="time"
-                          showLegend={true}
-                          valueType="number"
-                        />
-                      </V3ChartWrapper>
-                    )}
-                  </V3CardContent>
-                </V3Card>
-              );
-            })}
+            {filteredRaces.map((race) => (
+              <PollingAverageCard key={race.race_id} race={race} />
+            ))}
 
-            {Object.keys(racesByState).length === 0 && (
+            {filteredRaces.length === 0 && (
               <V3EmptyState
                 icon={BarChart3}
                 title="Polling Data Loading"
@@ -302,12 +178,14 @@ export default function PollingIntelligence() {
                       )}
                       <div>
                         <div className="flex items-center gap-2 mb-1 flex-wrap">
-                          <h4 className="font-medium text-[hsl(var(--portal-text-primary))]">{alert.state} {alert.poll_type}</h4>
+                          <h4 className="font-medium text-[hsl(var(--portal-text-primary))]">
+                            {alert.state} {alert.poll_type}{alert.candidate_name && ` • ${alert.candidate_name}`}
+                          </h4>
                           {!alert.is_read && (
                             <V3Badge variant="info">New</V3Badge>
                           )}
                           <V3Badge variant={
-                            alert.severity === "high" ? "error" : 
+                            alert.severity === "high" || alert.severity === "critical" ? "error" : 
                             alert.severity === "medium" ? "warning" : 
                             "muted"
                           }>
@@ -319,6 +197,7 @@ export default function PollingIntelligence() {
                           <span>Change: {alert.change_amount > 0 ? '+' : ''}{alert.change_amount}%</span>
                           <span>Previous: {alert.previous_value}%</span>
                           <span>Current: {alert.current_value}%</span>
+                          {alert.noise_band !== null && <span>Noise band: ±{alert.noise_band}</span>}
                           <span>{new Date(alert.created_at).toLocaleDateString()}</span>
                         </div>
                       </div>
@@ -341,23 +220,25 @@ export default function PollingIntelligence() {
               <V3EmptyState
                 icon={AlertTriangle}
                 title="No Polling Alerts Yet"
-                description="You'll receive alerts here when significant polling shifts are detected in tracked races. Our system monitors changes every 6 hours."
+                description="You'll receive alerts here when a race's polling average moves beyond its noise band. Our system monitors changes every 6 hours."
                 accent="amber"
               />
             )}
           </TabsContent>
 
           <TabsContent value="trends" className="space-y-6">
-            <V3Card>
-              <V3CardHeader>
-                <V3CardTitle>Coming Soon</V3CardTitle>
-                <V3CardDescription>Issue polling trends will be available once data is collected</V3CardDescription>
-              </V3CardHeader>
-              <V3CardContent className="py-12 text-center">
-                <TrendingUp className="h-12 w-12 text-[hsl(var(--portal-text-muted))] mx-auto mb-4" />
-                <p className="text-[hsl(var(--portal-text-muted))]">Issue trend analysis in development</p>
-              </V3CardContent>
-            </V3Card>
+            {issueAverages.map((race) => (
+              <PollingAverageCard key={race.race_id} race={race} />
+            ))}
+
+            {issueAverages.length === 0 && (
+              <V3EmptyState
+                icon={TrendingUp}
+                title="No Issue Averages Yet"
+                description="Approval and issue polling averages appear here once enough polls have been collected."
+                accent="blue"
+              />
+            )}
           </TabsContent>
         </Tabs>
       </V3PageContainer>
@@ -6,28 +6,75 @@
  *
  * URL Formats:
  * - Path-based (preferred): /r/ORG_SLUG/ACTBLUE_FORM?refcode=REFCODE
+ * - Managed tracked link: /r/ORG_SLUG/l/LINK_SLUG?refcode=REFCODE
  * - Query-based (legacy): /r?org=SLUG&form=ACTBLUE_FORM&refcode=REFCODE
  *
  * Examples:
  * - /r/smith-campaign/smith-for-senate?refcode=meta_jan25
+ * - /r/smith-campaign/l/ask-ladder-test?refcode=meta_jan25
  * - /r?org=smith-campaign&form=smith-for-senate&refcode=meta_jan25
+ *
+ * Only managed link URLs wait on link resolution: the visitor is assigned
+ * (stickily) to one of the link's weighted variants and sent to that
+ * variant's form and amount ladder. Plain form URLs redirect immediately.
  */
 
 import { useEffect, useState } from 'react';
 import { useSearchParams, useParams } from 'react-router-dom';
 import { Loader2, AlertCircle } from 'lucide-react';
+import {
+  assignVariant,
+  buildActBlueUrl,
+  getVisitorId,
+  placeVariantRefcode,
+  type ResolvedTrackedLink,
+  type RotationVariant,
+} from '@/lib/link-rotation';
+
+// Don't hold up the redirect for long if link resolution is slow
+const RESOLVE_TIMEOUT_MS = 1500;
+
+async function resolveTrackedLink(
+  supabaseUrl: string,
+  supabaseKey: string,
+  orgSlug: string,
+  linkSlug: string
+): Promise<ResolvedTrackedLink | null> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), RESOLVE_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/resolve-tracked-link`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': supabaseKey,
+      },
+      body: JSON.stringify({ organization_slug: orgSlug, link_slug: linkSlug }),
+      signal: controller.signal,
+    });
+    if (!response.ok) return null;
+    return (await response.json()) as ResolvedTrackedLink;
+  } catch {
+    // Timeout or network error - fall back to the plain form redirect
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
 
 export default function Redirect() {
   const [searchParams] = useSearchParams();
-  const params = useParams<{ org?: string; form?: string }>();
+  const params = useParams<{ org?: string; form?: string; link?: string }>();
   const [status, setStatus] = useState<'redirecting' | 'error'>('redirecting');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   useEffect(() => {
-    function captureAndRedirect() {
+    async function captureAndRedirect() {
       // Support both path-based and query-based parameters
       const orgSlug = params.org || searchParams.get('org');
-      const formName = params.form || searchParams.get('form');
+      const linkSlug = params.link || null;
+      // A managed link falls back to the ActBlue form of the same name
+      const formName = params.form || searchParams.get('form') || linkSlug;
 
       if (!orgSlug) {
         setStatus('error');
@@ -46,6 +93,7 @@ export default function Redirect() {
       const amount = searchParams.get('amount') || searchParams.get('a');
       const recurring = searchParams.get('recurring');
       const fbclid = searchParams.get('fbclid');
+      const gclid = searchParams.get('gclid');
 
       // Read Meta cookies from browser
       const getCookie = (name: string): string | null => {
@@ -72,11 +120,39 @@ export default function Redirect() {
         // Ignore localStorage errors
       }
 
-      // Build ActBlue URL immediately
-      const actblueUrl = new URL(`https://secure.actblue.com/donate/${formName}`);
-      if (refcode) actblueUrl.searchParams.set('refcode', refcode);
-      if (amount) actblueUrl.searchParams.set('amount', amount);
-      if (recurring === 'true') actblueUrl.searchParams.set('recurring', 'true');
+      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+      const supabaseKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+
+      // Managed tracked link: pick this visitor's variant
+      let trackedLinkId: string | null = null;
+      let variant: RotationVariant | null = null;
+      let visitorId: string | null = null;
+      if (linkSlug && supabaseUrl && supabaseKey) {
+        const trackedLink = await resolveTrackedLink(supabaseUrl, supabaseKey, orgSlug, linkSlug);
+        if (trackedLink) {
+          visitorId = getVisitorId();
+          variant = assignVariant(trackedLink, visitorId);
+          if (variant) trackedLinkId = trackedLink.link_id;
+        }
+      }
+
+      // Build ActBlue URL (campaign refcode stays in refcode for refcode_mappings)
+      const variantRefcodes = placeVariantRefcode(refcode, variant?.refcode);
+      const effectiveRefcode = variantRefcodes.refcode;
+      const actblueUrl = variant
+        ? buildActBlueUrl({
+            form: variant.actblue_form,
+            refcode: effectiveRefcode,
+            amounts: variant.amounts,
+            amount: amount || variant.default_amount,
+            recurring: variant.recurring || recurring === 'true',
+          })
+        : buildActBlueUrl({
+            form: formName,
+            refcode,
+            amount,
+            recurring: recurring === 'true',
+          });
 
       // Store fbclid suffix in refcode2 for deterministic 1-to-1 matching
       // IMPORTANT: Use the UNIQUE _aem_ suffix (last 24 chars) instead of prefix
@@ -86,8 +162,14 @@ export default function Redirect() {
         // Extract unique suffix (last 24 chars) - contains the _aem_ unique identifier
         const fbclidSuffix = fbclid.length > 24 ? fbclid.slice(-24) : fbclid;
         actblueUrl.searchParams.set('refcode2', `fb_${fbclidSuffix}`);
+      } else if (gclid && !searchParams.get('refcode2')) {
+        // Google click IDs are matched exactly against click_view, so keep the whole value
+        actblueUrl.searchParams.set('refcode2', `gc_${gclid}`);
       } else if (searchParams.get('refcode2')) {
         actblueUrl.searchParams.set('refcode2', searchParams.get('refcode2')!);
+      } else if (variantRefcodes.refcode2) {
+        // No click id to match on, so carry the variant refcode instead
+        actblueUrl.searchParams.set('refcode2', variantRefcodes.refcode2);
       }
 
       // Fire-and-forget: Send touchpoint data without waiting
@@ -98,7 +180,10 @@ export default function Redirect() {
         fbp: fbp || null,
         fbc: fbc || null,
         fbclid: fbclid || null,
-        refcode: refcode || null,
+        refcode: effectiveRefcode || null,
+        tracked_link_id: trackedLinkId,
+        link_variant_id: variant?.id || null,
+        visitor_id: visitorId,
         utm_source: searchParams.get('utm_source') || null,
         utm_medium: searchParams.get('utm_medium') || null,
         utm_campaign: searchParams.get('utm_campaign') || null,
@@ -108,9 +193,6 @@ export default function Redirect() {
 
       // Fire-and-forget: Send touchpoint data without waiting
       // Use fetch with keepalive to ensure request completes after page unloads
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-      const supabaseKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
-      
       if (supabaseUrl && supabaseKey) {
         const captureUrl = `${supabaseUrl}/functions/v1/capture-meta-touchpoint`;
         
@@ -18,7 +18,9 @@ export {
   isChannelStale,
   formatLastDataDate,
   type MetaSummary,
+  type GoogleAdsSummary,
   type SmsSummary,
+  type EmailSummary,
   type DonationsSummary,
   type ChannelSummariesData,
   type ChannelSummariesQueryResult,
@@ -42,12 +44,23 @@ export {
   type MetaDailyMetric,
   type MetaAdsMetricsResult,
 } from "./useMetaAdsMetricsQuery";
+export {
+  useGoogleAdsMetricsQuery,
+  type GoogleAdsCampaignMetrics,
+  type GoogleAdsDailyMetric,
+  type GoogleAdsMetricsResult,
+} from "./useGoogleAdsMetricsQuery";
 export {
   useSMSMetricsQuery,
   type SMSMetric,
   type SMSDailyMetric,
   type SMSMetricsResult,
 } from "./useSMSMetricsQuery";
+export {
+  useEmailMetricsQuery,
+  type EmailMailingMetrics,
+  type EmailMetricsResult,
+} from "./useEmailMetricsQuery";
 
 // Intelligence queries
 export {
@@ -170,6 +183,39 @@ export {
   type DonorJourneyQueryResult,
 } from "./useDonorJourneyQuery";
 
+// Donor LTV model queries
+export {
+  useDonorLtvModelRunsQuery,
+  useTopDonorLtvQuery,
+  LTV_MODEL_RUNS_KEY,
+  type DonorLtvModelRun,
+  type DonorLtvPrediction,
+  type LtvCalibrationBin,
+} from "./useDonorLtvModelQuery";
+
+// Polling average queries
+export {
+  usePollingAveragesQuery,
+  POLLING_AVERAGES_KEY,
+  type RacePollingAverage,
+  type PollingAveragePoint,
+  type CandidateAverage,
+  type PollsterHouseEffect,
+} from "./usePollingAveragesQuery";
+
+// Custom dashboard layouts
+export {
+  useDashboardLayoutsQuery,
+  useDashboardHomePreferenceQuery,
+  useCanManageSharedLayoutsQuery,
+  useSaveDashboardLayoutMutation,
+  useDeleteDashboardLayoutMutation,
+  useSetOrgDefaultLayoutMutation,
+  useSetDashboardHomeMutation,
+  DASHBOARD_LAYOUTS_KEY,
+  DASHBOARD_HOME_KEY,
+} from "./useDashboardLayoutsQuery";
+
 // Recurring Health V2 queries
 export {
   useRecurringHealthQuery,
@@ -36,6 +36,12 @@ export const metaKeys = {
     [...metaKeys.all, 'performance', orgId, dateRange] as const,
 };
 
+export const googleAdsKeys = {
+  all: ['googleAds'] as const,
+  metrics: (orgId: string, dateRange: { startDate: string; endDate: string }) =>
+    [...googleAdsKeys.all, 'metrics', orgId, dateRange] as const,
+};
+
 export const smsKeys = {
   all: ['sms'] as const,
   campaigns: (orgId: string, dateRange: { startDate: string; endDate: string }) =>
@@ -46,6 +52,12 @@ export const smsKeys = {
     [...smsKeys.all, 'broadcasts', orgId, dateRange] as const,
 };
 
+export const emailKeys = {
+  all: ['email'] as const,
+  metrics: (orgId: string, dateRange: { startDate: string; endDate: string }) =>
+    [...emailKeys.all, 'metrics', orgId, dateRange] as const,
+};
+
 export const channelKeys = {
   all: ['channels'] as const,
   summaries: (orgId: string, dateRange: { startDate: string; endDate: string }) =>
@@ -16,6 +16,16 @@ export interface MetaSummary {
   hasData: boolean;
 }
 
+export interface GoogleAdsSummary {
+  spend: number;
+  clicks: number;
+  conversions: number;
+  roas: number;
+  hasConversionValueData: boolean;
+  lastDataDate: string | null;
+  hasData: boolean;
+}
+
 export interface SmsSummary {
   sent: number;
   raised: number;
@@ -26,6 +36,17 @@ export interface SmsSummary {
   hasData: boolean;
 }
 
+export interface EmailSummary {
+  sent: number;
+  uniqueOpens: number;
+  uniqueClicks: number;
+  raised: number;
+  donations: number;
+  mailingCount: number;
+  lastDataDate: string | null;
+  hasData: boolean;
+}
+
 export interface DonationsSummary {
   totalGross: number;
   totalNet: number;
@@ -40,7 +61,9 @@ export interface DonationsSummary {
 
 export interface ChannelSummariesData {
   meta: MetaSummary;
+  googleAds: GoogleAdsSummary;
   sms: SmsSummary;
+  email: EmailSummary;
   donations: DonationsSummary;
   /** Aggregate totals across all channels */
   totals: {
@@ -67,12 +90,14 @@ export interface ChannelSummariesQueryResult {
 // Staleness Configuration
 // ============================================================================
 
-export type ChannelType = "meta" | "sms" | "donations";
+export type ChannelType = "meta" | "google_ads" | "sms" | "email" | "donations";
 
 /** Expected freshness windows in hours per channel */
 const CHANNEL_FRESHNESS_HOURS: Record<ChannelType, number> = {
   meta: 48,      // Meta Ads: 48h
+  google_ads: 48, // Google Ads: 48h (conversions settle for a couple of days)
   sms: 24,       // SMS: 24h
+  email: 168,    // Email: 7d (programs rarely mail every day)
   donations: 1,  // Donations: 1h (near real-time)
 };
 
@@ -160,6 +185,45 @@ async function fetchMetaSummary(
   };
 }
 
+async function fetchGoogleAdsSummary(
+  organizationId: string,
+  startDate: string,
+  endDate: string
+): Promise<GoogleAdsSummary> {
+  // Campaign-level rows only; ad group and ad rows would double count spend
+  const { data, error } = await supabase
+    .from("google_ads_metrics_daily")
+    .select("cost, clicks, conversions, conversion_value, date")
+    .eq("organization_id", organizationId)
+    .eq("level", "campaign")
+    .gte("date", startDate)
+    .lte("date", endDate)
+    .order("date", { ascending: false });
+
+  if (error) {
+    console.error("[useChannelSummariesQuery] Google Ads fetch error:", error);
+    throw error;
+  }
+
+  const metrics = data || [];
+  const spend = metrics.reduce((sum, m) => sum + Number(m.cost || 0), 0);
+  const clicks = metrics.reduce((sum, m) => sum + Number(m.clicks || 0), 0);
+  const conversions = metrics.reduce((sum, m) => sum + Number(m.conversions || 0), 0);
+  const conversionValue = metrics.reduce((sum, m) => sum + Number(m.conversion_value || 0), 0);
+  const hasConversionValueData = conversionValue > 0;
+  const roas = spend > 0 && conversionValue > 0 ? conversionValue / spend : 0;
+
+  return {
+    spend,
+    clicks,
+    conversions,
+    roas,
+    hasConversionValueData,
+    lastDataDate: metrics[0]?.date || null,
+    hasData: metrics.length > 0,
+  };
+}
+
 async function fetchSmsSummary(
   organizationId: string,
   startDate: string,
@@ -201,6 +265,46 @@ async function fetchSmsSummary(
   };
 }
 
+async function fetchEmailSummary(
+  organizationId: string,
+  startDate: string,
+  endDate: string
+): Promise<EmailSummary> {
+  // get_email_metrics attributes donations to mailings via their ActBlue refcodes
+  const { data, error } = await supabase.rpc('get_email_metrics', {
+    p_organization_id: organizationId,
+    p_start_date: startDate,
+    p_end_date: endDate,
+  });
+
+  if (error) {
+    console.error("[useChannelSummariesQuery] Email RPC error:", error);
+    throw error;
+  }
+
+  const summary = ((data as { summary?: Record<string, unknown> } | null)?.summary || {}) as {
+    mailingCount?: number;
+    totalSent?: number;
+    totalUniqueOpens?: number;
+    totalUniqueClicks?: number;
+    totalDonations?: number;
+    totalRaised?: number;
+    lastSentAt?: string | null;
+  };
+  const mailingCount = Number(summary.mailingCount) || 0;
+
+  return {
+    sent: Number(summary.totalSent) || 0,
+    uniqueOpens: Number(summary.totalUniqueOpens) || 0,
+    uniqueClicks: Number(summary.totalUniqueClicks) || 0,
+    raised: Number(summary.totalRaised) || 0,
+    donations: Number(summary.totalDonations) || 0,
+    mailingCount,
+    lastDataDate: summary.lastSentAt?.split("T")[0] || null,
+    hasData: mailingCount > 0,
+  };
+}
+
 async function fetchDonationsSummary(
   organizationId: string,
   startDate: string,
@@ -259,20 +363,24 @@ async function fetchChannelSummaries(
   endDate: string
 ): Promise<ChannelSummariesData> {
   // Parallel fetch all channel data
-  const [meta, sms, donations] = await Promise.all([
+  const [meta, googleAds, sms, email, donations] = await Promise.all([
     fetchMetaSummary(organizationId, startDate, endDate),
+    fetchGoogleAdsSummary(organizationId, startDate, endDate),
     fetchSmsSummary(organizationId, startDate, endDate),
+    fetchEmailSummary(organizationId, startDate, endDate),
     fetchDonationsSummary(organizationId, startDate, endDate),
   ]);
 
   // Calculate aggregate totals
-  const totalSpend = meta.spend + sms.cost;
+  const totalSpend = meta.spend + googleAds.spend + sms.cost;
   const totalRevenue = donations.totalNet;
   const overallRoi = totalSpend > 0 ? totalRevenue / totalSpend : 0;
 
   return {
     meta,
+    googleAds,
     sms,
+    email,
     donations,
     totals: {
       totalRevenue,
@@ -309,12 +417,14 @@ export function useChannelSummariesQuery(
   const isDataStale = (endDateToCheck: string): boolean => {
     if (!query.data) return false;
 
-    const { meta, sms, donations } = query.data;
+    const { meta, googleAds, sms, email, donations } = query.data;
 
     // Check each channel that has data against its freshness window
     const channelsToCheck: Array<{ channel: ChannelType; hasData: boolean; lastDataDate: string | null }> = [
       { channel: "meta", hasData: meta.hasData, lastDataDate: meta.lastDataDate },
+      { channel: "google_ads", hasData: googleAds.hasData, lastDataDate: googleAds.lastDataDate },
       { channel: "sms", hasData: sms.hasData, lastDataDate: sms.lastDataDate },
+      { channel: "email", hasData: email.hasData, lastDataDate: email.lastDataDate },
       { channel: "donations", hasData: donations.hasData, lastDataDate: donations.lastDataDate },
     ];
 
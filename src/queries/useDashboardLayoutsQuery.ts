@@ -0,0 +1,199 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { isDashboardAudience, parseStoredWidgets } from "@/lib/dashboard-layouts";
+import type {
+  DashboardAudience,
+  DashboardHomePreference,
+  DashboardWidgetInstance,
+  SavedDashboardLayout,
+} from "@/types/dashboardLayout";
+
+export const DASHBOARD_LAYOUTS_KEY = 'dashboard-layouts';
+export const DASHBOARD_HOME_KEY = 'dashboard-home-preference';
+
+async function requireUserId(): Promise<string> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+  return user.id;
+}
+
+// The current user's own layouts plus the org-shared ones (RLS hides other users' layouts)
+export function useDashboardLayoutsQuery(organizationId: string | null | undefined) {
+  return useQuery({
+    queryKey: [DASHBOARD_LAYOUTS_KEY, organizationId],
+    queryFn: async (): Promise<SavedDashboardLayout[]> => {
+      const { data, error } = await supabase
+        .from('dashboard_layouts')
+        .select('id, organization_id, user_id, name, audience, widgets, is_default, created_by, created_at, updated_at')
+        .eq('organization_id', organizationId!)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map((row) => ({
+        ...row,
+        audience: isDashboardAudience(row.audience) ? row.audience : 'general',
+        widgets: parseStoredWidgets(row.widgets),
+      }));
+    },
+    enabled: !!organizationId,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useDashboardHomePreferenceQuery(organizationId: string | null | undefined) {
+  return useQuery({
+    queryKey: [DASHBOARD_HOME_KEY, organizationId],
+    queryFn: async (): Promise<DashboardHomePreference | null> => {
+      const userId = await requireUserId();
+      const { data, error } = await supabase
+        .from('dashboard_home_preferences')
+        .select('user_id, organization_id, audience, layout_id')
+        .eq('organization_id', organizationId!)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+      return { ...data, audience: isDashboardAudience(data.audience) ? data.audience : 'general' };
+    },
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Mirrors the RLS rule for writing org-shared layouts
+export function useCanManageSharedLayoutsQuery(organizationId: string | null | undefined) {
+  return useQuery({
+    queryKey: [DASHBOARD_LAYOUTS_KEY, 'can-manage', organizationId],
+    queryFn: async (): Promise<boolean> => {
+      const userId = await requireUserId();
+      const [orgRole, clientRole, systemAdmin] = await Promise.all([
+        supabase.rpc('has_org_role', { p_organization_id: organizationId!, p_roles: ['owner', 'admin', 'manager'] }),
+        supabase.rpc('is_org_admin_or_manager'),
+        supabase.rpc('has_role', { _user_id: userId, _role: 'admin' }),
+      ]);
+      return Boolean(orgRole.data || clientRole.data || systemAdmin.data);
+    },
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+function useInvalidateDashboardLayouts() {
+  const queryClient = useQueryClient();
+  return (organizationId: string) => {
+    queryClient.invalidateQueries({ queryKey: [DASHBOARD_LAYOUTS_KEY, organizationId] });
+    queryClient.invalidateQueries({ queryKey: [DASHBOARD_HOME_KEY, organizationId] });
+  };
+}
+
+// Creates a layout when no id is given, otherwise updates it in place
+export function useSaveDashboardLayoutMutation() {
+  const invalidate = useInvalidateDashboardLayouts();
+
+  return useMutation({
+    mutationFn: async (params: {
+      id?: string;
+      organizationId: string;
+      name: string;
+      audience: DashboardAudience;
+      widgets: DashboardWidgetInstance[];
+      // Shared layouts belong to the org (user_id NULL); only managers can write them
+      shared: boolean;
+    }): Promise<string> => {
+      const userId = await requireUserId();
+      const values = {
+        name: params.name.trim(),
+        audience: params.audience,
+        widgets: params.widgets as unknown as Json,
+        user_id: params.shared ? null : userId,
+        updated_at: new Date().toISOString(),
+      };
+
+      if (params.id) {
+        const { error } = await supabase
+          .from('dashboard_layouts')
+          .update(values)
+          .eq('id', params.id);
+        if (error) throw error;
+        return params.id;
+      }
+
+      const { data, error } = await supabase
+        .from('dashboard_layouts')
+        .insert({ ...values, organization_id: params.organizationId, created_by: userId })
+        .select('id')
+        .single();
+      if (error) throw error;
+      return data.id;
+    },
+    onSettled: (_, __, variables) => invalidate(variables.organizationId),
+  });
+}
+
+export function useDeleteDashboardLayoutMutation() {
+  const invalidate = useInvalidateDashboardLayouts();
+
+  return useMutation({
+    mutationFn: async (params: { id: string; organizationId: string }) => {
+      const { error } = await supabase
+        .from('dashboard_layouts')
+        .delete()
+        .eq('id', params.id);
+      if (error) throw error;
+    },
+    onSettled: (_, __, variables) => invalidate(variables.organizationId),
+  });
+}
+
+// Makes a shared layout the org default for its audience (one per audience)
+export function useSetOrgDefaultLayoutMutation() {
+  const invalidate = useInvalidateDashboardLayouts();
+
+  return useMutation({
+    mutationFn: async (params: { id: string; organizationId: string; audience: DashboardAudience }) => {
+      const { error: clearError } = await supabase
+        .from('dashboard_layouts')
+        .update({ is_default: false })
+        .eq('organization_id', params.organizationId)
+        .eq('audience', params.audience)
+        .is('user_id', null)
+        .eq('is_default', true);
+      if (clearError) throw clearError;
+
+      const { error } = await supabase
+        .from('dashboard_layouts')
+        .update({ is_default: true })
+        .eq('id', params.id);
+      if (error) throw error;
+    },
+    onSettled: (_, __, variables) => invalidate(variables.organizationId),
+  });
+}
+
+// Sets the user's team (finance / digital / general) and, optionally, their home layout
+export function useSetDashboardHomeMutation() {
+  const invalidate = useInvalidateDashboardLayouts();
+
+  return useMutation({
+    mutationFn: async (params: {
+      organizationId: string;
+      audience: DashboardAudience;
+      layoutId: string | null;
+    }) => {
+      const userId = await requireUserId();
+      const { error } = await supabase
+        .from('dashboard_home_preferences')
+        .upsert({
+          user_id: userId,
+          organization_id: params.organizationId,
+          audience: params.audience,
+          layout_id: params.layoutId,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id,organization_id' });
+      if (error) throw error;
+    },
+    onSettled: (_, __, variables) => invalidate(variables.organizationId),
+  });
+}
@@ -0,0 +1,91 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export const LTV_MODEL_RUNS_KEY = 'donor-ltv-model-runs';
+const LTV_TOP_DONORS_KEY = 'donor-ltv-top-donors';
+const RUNS_LIMIT = 30;
+
+export interface LtvCalibrationBin {
+  bin: number;
+  donors: number;
+  mean_predicted: number;
+  mean_actual: number;
+}
+
+// One model version's fit + holdout backtest from a calculate-donor-ltv run
+export interface DonorLtvModelRun {
+  id: string;
+  model_version: string;
+  is_active: boolean;
+  trained_at: string;
+  donors_trained: number;
+  donors_scored: number;
+  holdout_days: number | null;
+  backtest_donors: number | null;
+  calibration_error: number | null;
+  aggregate_error_pct: number | null;
+  mean_absolute_error: number | null;
+  interval_coverage: number | null;
+  calibration_bins: LtvCalibrationBin[];
+  predicted_total_365: number | null;
+  predicted_total_365_low: number | null;
+  predicted_total_365_high: number | null;
+}
+
+export interface DonorLtvPrediction {
+  donor_key: string;
+  person_id: string | null;
+  // From donor_persons; null for donors not yet resolved to a person
+  display_name: string | null;
+  primary_email: string | null;
+  segment: string | null;
+  predicted_ltv_365: number | null;
+  predicted_ltv_365_low: number | null;
+  predicted_ltv_365_high: number | null;
+  p_alive: number | null;
+  churn_risk: number | null;
+}
+
+export function useDonorLtvModelRunsQuery(organizationId: string | undefined) {
+  return useQuery({
+    queryKey: [LTV_MODEL_RUNS_KEY, organizationId],
+    queryFn: async (): Promise<DonorLtvModelRun[]> => {
+      const { data, error } = await supabase
+        .from('donor_ltv_model_runs')
+        .select('id, model_version, is_active, trained_at, donors_trained, donors_scored, holdout_days, backtest_donors, calibration_error, aggregate_error_pct, mean_absolute_error, interval_coverage, calibration_bins, predicted_total_365, predicted_total_365_low, predicted_total_365_high')
+        .eq('organization_id', organizationId!)
+        .order('trained_at', { ascending: false })
+        .limit(RUNS_LIMIT);
+
+      if (error) throw error;
+      return (data || []) as unknown as DonorLtvModelRun[];
+    },
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Highest predicted 12-month value, with the 80% interval
+export function useTopDonorLtvQuery(organizationId: string | undefined, limit = 10) {
+  return useQuery({
+    queryKey: [LTV_TOP_DONORS_KEY, organizationId, limit],
+    queryFn: async (): Promise<DonorLtvPrediction[]> => {
+      const { data, error } = await supabase
+        .from('donor_ltv_predictions')
+        .select('donor_key, person_id, segment, predicted_ltv_365, predicted_ltv_365_low, predicted_ltv_365_high, p_alive, churn_risk, donor_persons(display_name, primary_email)')
+        .eq('organization_id', organizationId!)
+        .not('predicted_ltv_365', 'is', null)
+        .order('predicted_ltv_365', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []).map(({ donor_persons: person, ...row }) => ({
+        ...row,
+        display_name: person?.display_name ?? null,
+        primary_email: person?.primary_email ?? null,
+      }));
+    },
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
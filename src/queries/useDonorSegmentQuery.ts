@@ -1,207 +1,97 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
-import type { 
-  FilterCondition, 
-  SegmentDonor, 
-  SegmentAggregates, 
-  SavedSegment 
+import type { Json } from "@/integrations/supabase/types";
+import type {
+  FilterGroup,
+  SegmentDonor,
+  SegmentAggregates,
+  SavedSegment
 } from "@/types/donorSegment";
+import { normalizeSegmentFilters, pruneEmptyGroups } from "@/lib/segment-filter-tree";
 
 const SEGMENT_QUERY_KEY = 'donor-segment';
 const SAVED_SEGMENTS_KEY = 'saved-segments';
 
+// Donors loaded for display; counts and headline aggregates always cover the full segment
+export const SEGMENT_PAGE_SIZE = 1000;
+const EXPORT_PAGE_SIZE = 5000;
+
 interface SegmentQueryResult {
+  // Top SEGMENT_PAGE_SIZE donors by lifetime value
   donors: SegmentDonor[];
   aggregates: SegmentAggregates;
+  // Total donors matching the filter tree (may exceed donors.length)
   totalCount: number;
 }
 
-// Map filter fields to actual database column names
-const FIELD_MAPPING: Record<string, string> = {
-  'email': 'donor_email',
-  'name': 'first_name',
-  'total_donated': 'total_donated',
-  'total_lifetime_value': 'total_donated',
-  'donation_count': 'donation_count',
-  'state': 'state',
-  'city': 'city',
-  'is_recurring': 'is_recurring',
-  'is_recurring_donor': 'is_recurring',
-  'employer': 'employer',
-  'occupation': 'occupation',
-  'first_donation_date': 'first_donation_date',
-  'last_donation_date': 'last_donation_date',
-};
+// Row shape returned by the query_donor_segment RPC
+interface SegmentRpcDonor {
+  id: string;
+  donor_key: string | null;
+  person_id: string | null;
+  donor_email: string | null;
+  phone: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  state: string | null;
+  city: string | null;
+  zip: string | null;
+  total_donated: number | null;
+  donation_count: number | null;
+  first_donation_date: string | null;
+  last_donation_date: string | null;
+  is_recurring: boolean | null;
+  has_refund: boolean | null;
+  employer: string | null;
+  occupation: string | null;
+  segment: string | null;
+  churn_risk_label: string | null;
+  predicted_ltv_90: number | null;
+  predicted_ltv_180: number | null;
+  days_since_donation: number;
+  attributed_channels: string[] | null;
+  attributed_topics: string[] | null;
+  attributed_pain_points: string[] | null;
+  attributed_values: string[] | null;
+}
 
-// Fields that require client-side filtering
-const CLIENT_SIDE_FIELDS = [
-  'segment', 'churn_risk_label', 'predicted_ltv_90', 'predicted_ltv_180',
-  'days_since_donation', 'avg_donation', 'rfm_score', 'recency_score',
-  'frequency_score', 'monetary_score', 'donor_tier', 'attributed_channel',
-  'attributed_topic', 'attributed_pain_point', 'attributed_value'
-];
-
-// Apply a single filter to the Supabase query
-function applyServerFilter(query: any, filter: FilterCondition): any {
-  const { field, operator, value } = filter;
-  
-  // Skip client-side fields
-  if (CLIENT_SIDE_FIELDS.includes(field)) {
-    return query;
-  }
+type Distribution = { name: string; value: number }[];
 
-  const dbField = FIELD_MAPPING[field] || field;
-
-  switch (operator) {
-    case 'eq':
-      return query.eq(dbField, value);
-    case 'neq':
-      return query.neq(dbField, value);
-    case 'gt':
-      return query.gt(dbField, value);
-    case 'gte':
-      return query.gte(dbField, value);
-    case 'lt':
-      return query.lt(dbField, value);
-    case 'lte':
-      return query.lte(dbField, value);
-    case 'in':
-      return query.in(dbField, Array.isArray(value) ? value : [value]);
-    case 'nin':
-      if (Array.isArray(value)) {
-        return query.not(dbField, 'in', `(${value.join(',')})`);
-      }
-      return query;
-    case 'between':
-      if (Array.isArray(value) && value.length === 2) {
-        return query.gte(dbField, value[0]).lte(dbField, value[1]);
-      }
-      return query;
-    case 'contains':
-      return query.ilike(dbField, `%${value}%`);
-    case 'not_contains':
-      return query.not(dbField, 'ilike', `%${value}%`);
-    case 'is_null':
-      return query.is(dbField, null);
-    case 'is_not_null':
-      return query.not(dbField, 'is', null);
-    default:
-      return query;
-  }
+interface SegmentRpcResult {
+  total_count: number;
+  totals: {
+    total_lifetime_value: number;
+    total_donations: number;
+    recurring_donors: number;
+    total_days_since_donation: number;
+  };
+  by_state: Distribution;
+  by_segment: Distribution;
+  by_churn_risk: Distribution;
+  by_tier: Distribution;
+  donors: SegmentRpcDonor[];
 }
 
-// Apply client-side filter for computed/LTV fields
-function applyClientFilter(donor: SegmentDonor, filter: FilterCondition): boolean {
-  const { field, operator, value } = filter;
-  
-  // Skip fields handled server-side
-  if (!CLIENT_SIDE_FIELDS.includes(field)) {
-    return true;
-  }
+// Evaluate the filter tree server-side (AND/OR/NOT groups, see query_donor_segment)
+async function querySegment(
+  organizationId: string,
+  filters: FilterGroup,
+  limit: number,
+  offset: number = 0
+): Promise<SegmentRpcResult> {
+  const { data, error } = await supabase.rpc('query_donor_segment', {
+    _organization_id: organizationId,
+    _filters: pruneEmptyGroups(filters) as unknown as Json,
+    _limit: limit,
+    _offset: offset,
+  });
 
-  let fieldValue: any;
-  
-  switch (field) {
-    case 'segment':
-      fieldValue = donor.segment;
-      break;
-    case 'churn_risk_label':
-      fieldValue = donor.churn_risk_label;
-      break;
-    case 'predicted_ltv_90':
-      fieldValue = donor.predicted_ltv_90;
-      break;
-    case 'predicted_ltv_180':
-      fieldValue = donor.predicted_ltv_180;
-      break;
-    case 'days_since_donation':
-      fieldValue = donor.days_since_donation;
-      break;
-    case 'avg_donation':
-      fieldValue = donor.donation_count > 0 ? donor.total_donated / donor.donation_count : 0;
-      break;
-    case 'donor_tier': {
-      // Return array of ALL matching tiers for this donor
-      const tiers: string[] = [];
-      const total = donor.total_donated;
-      const count = donor.donation_count;
-      const daysSince = donor.days_since_donation;
-      
-      // Monetary tiers (mutually exclusive)
-      if (total >= 1000) tiers.push('major');
-      else if (total >= 250) tiers.push('mid');
-      else tiers.push('grassroots');
-      
-      // Engagement tiers (can stack)
-      if (count >= 5) tiers.push('repeat');
-      if (count === 1) tiers.push('one_time');
-      if (daysSince <= 90) tiers.push('active');
-      else if (daysSince <= 180) tiers.push('lapsing');
-      else tiers.push('lapsed');
-      
-      fieldValue = tiers;
-      break;
-    }
-    case 'attributed_channel':
-      // This will be enriched from attribution data later
-      fieldValue = (donor as any).attributed_channels || [];
-      break;
-    case 'attributed_topic':
-      fieldValue = (donor as any).attributed_topics || [];
-      break;
-    case 'attributed_pain_point':
-      fieldValue = ((donor as any).attributed_pain_points || []).join(' ');
-      break;
-    case 'attributed_value':
-      fieldValue = (donor as any).attributed_values || [];
-      break;
-    default:
-      return true;
+  if (error) {
+    console.error('Segment query error:', error);
+    throw error;
   }
 
-  // Handle null comparisons
-  if (operator === 'is_null') return fieldValue === null || fieldValue === undefined;
-  if (operator === 'is_not_null') return fieldValue !== null && fieldValue !== undefined;
-  if (fieldValue === null || fieldValue === undefined) return false;
-
-  switch (operator) {
-    case 'eq':
-      return fieldValue === value;
-    case 'neq':
-      return fieldValue !== value;
-    case 'gt':
-      return typeof fieldValue === 'number' && fieldValue > (value as number);
-    case 'gte':
-      return typeof fieldValue === 'number' && fieldValue >= (value as number);
-    case 'lt':
-      return typeof fieldValue === 'number' && fieldValue < (value as number);
-    case 'lte':
-      return typeof fieldValue === 'number' && fieldValue <= (value as number);
-    case 'in':
-      // Handle array fieldValue (like donor_tier which returns multiple tiers)
-      if (Array.isArray(fieldValue)) {
-        return Array.isArray(value) && (value as string[]).some(v => fieldValue.includes(v));
-      }
-      return Array.isArray(value) && (value as (string | number)[]).includes(fieldValue);
-    case 'nin':
-      // Handle array fieldValue
-      if (Array.isArray(fieldValue)) {
-        return Array.isArray(value) && !(value as string[]).some(v => fieldValue.includes(v));
-      }
-      return Array.isArray(value) && !(value as (string | number)[]).includes(fieldValue);
-    case 'between':
-      if (Array.isArray(value) && value.length === 2 && typeof fieldValue === 'number') {
-        const [minVal, maxVal] = value as [number, number];
-        return fieldValue >= minVal && fieldValue <= maxVal;
-      }
-      return true;
-    case 'contains':
-      return String(fieldValue).toLowerCase().includes(String(value).toLowerCase());
-    case 'not_contains':
-      return !String(fieldValue).toLowerCase().includes(String(value).toLowerCase());
-    default:
-      return true;
-  }
+  return data as unknown as SegmentRpcResult;
 }
 
 // Attribution data structure for donors
@@ -214,292 +104,251 @@ interface DonorAttribution {
   emotions: string[];
 }
 
-// Transform raw database row to SegmentDonor
+// Transform an RPC row to SegmentDonor
 function transformToDonor(
-  row: any, 
-  ltvData: any,
+  row: SegmentRpcDonor,
   attribution?: DonorAttribution
 ): SegmentDonor {
-  const now = Date.now();
-  const daysSince = row.last_donation_date 
-    ? Math.floor((now - new Date(row.last_donation_date).getTime()) / (1000 * 60 * 60 * 24))
-    : 999;
+  // Prefer attribution computed server-side (present when the tree filters on it)
+  const channels = row.attributed_channels?.length ? row.attributed_channels : attribution?.channels || [];
 
   return {
     id: row.id,
-    donor_key: row.donor_key,
+    donor_key: row.donor_key || '',
+    person_id: row.person_id || null,
     email: row.donor_email,
     phone: row.phone || null,
     name: [row.first_name, row.last_name].filter(Boolean).join(' ') || null,
     state: row.state,
     city: row.city,
     zip: row.zip,
-    total_donated: row.total_donated || 0,
+    total_donated: Number(row.total_donated) || 0,
     donation_count: row.donation_count || 0,
     first_donation_date: row.first_donation_date,
     last_donation_date: row.last_donation_date,
     is_recurring: row.is_recurring || false,
+    has_refund: row.has_refund || false,
     employer: row.employer,
     occupation: row.occupation,
-    segment: ltvData?.segment || null,
-    churn_risk_label: ltvData?.churn_risk_label || null,
-    predicted_ltv_90: ltvData?.predicted_ltv_90 || null,
-    predicted_ltv_180: ltvData?.predicted_ltv_180 || null,
-    days_since_donation: daysSince,
-    is_multi_channel: (attribution?.channels?.length || 0) > 1,
-    attributed_channels: attribution?.channels || [],
-    attributed_topics: attribution?.topics || [],
-    attributed_pain_points: attribution?.painPoints || [],
-    attributed_values: attribution?.values || [],
+    segment: row.segment || null,
+    churn_risk_label: row.churn_risk_label || null,
+    predicted_ltv_90: row.predicted_ltv_90 ?? null,
+    predicted_ltv_180: row.predicted_ltv_180 ?? null,
+    days_since_donation: row.days_since_donation,
+    is_multi_channel: channels.length > 1,
+    attributed_channels: channels,
+    attributed_topics: row.attributed_topics?.length ? row.attributed_topics : attribution?.topics || [],
+    attributed_pain_points: row.attributed_pain_points?.length ? row.attributed_pain_points : attribution?.painPoints || [],
+    attributed_values: row.attributed_values?.length ? row.attributed_values : attribution?.values || [],
     attributed_issues: attribution?.issues || [],
     attributed_emotions: attribution?.emotions || [],
   };
 }
 
-// Fetch all records with pagination to bypass Supabase 1000 row limit
-// Uses a query factory to create fresh query objects and avoid mutation issues
-async function fetchAllWithPagination(
-  queryFactory: () => any,
-  batchSize: number = 1000
-): Promise<any[]> {
-  let allData: any[] = [];
-  let from = 0;
-  let hasMore = true;
-
-  while (hasMore) {
-    // Build fresh query for each page to avoid mutation issues
-    const { data, error } = await queryFactory().range(from, from + batchSize - 1);
-    
-    if (error) {
-      console.error('Pagination fetch error:', error);
-      throw error;
-    }
-
-    if (data && data.length > 0) {
-      allData = [...allData, ...data];
-      hasMore = data.length === batchSize;
-      from += batchSize;
-    } else {
-      hasMore = false;
-    }
-  }
-
-  return allData;
-}
-
-// Main fetch function with two-query strategy and pagination
-async function fetchSegmentDonors(
+// Fetch attribution (channel + motivation) for the loaded donors
+async function fetchDonorAttribution(
   organizationId: string,
-  filters: FilterCondition[]
-): Promise<SegmentQueryResult> {
-  // Step 1: Create a query factory that builds a fresh query each time
-  // This prevents Supabase query builder mutation issues during pagination
-  const createQuery = () => {
-    let query = supabase
-      .from('donor_demographics')
-      .select(`
-        id,
-        donor_key,
-        donor_email,
-        phone,
-        first_name,
-        last_name,
-        state,
-        city,
-        zip,
-        total_donated,
-        donation_count,
-        first_donation_date,
-        last_donation_date,
-        is_recurring,
-        employer,
-        occupation
-      `)
-      .eq('organization_id', organizationId)
-      .order('total_donated', { ascending: false, nullsFirst: false })
-      .order('id', { ascending: true });  // Stable tiebreaker for pagination
+  donorEmails: string[]
+): Promise<Map<string, DonorAttribution>> {
+  const attributionMap = new Map<string, DonorAttribution>();
 
-    // Apply server-side filters
-    for (const filter of filters) {
-      query = applyServerFilter(query, filter);
-    }
+  if (donorEmails.length === 0) return attributionMap;
 
-    return query;
-  };
+  // Get transactions with refcodes for these donors
+  const emailChunks = [];
+  for (let i = 0; i < donorEmails.length; i += 500) {
+    emailChunks.push(donorEmails.slice(i, i + 500));
+  }
 
-  // Fetch ALL records using pagination with fresh queries
-  const demographics = await fetchAllWithPagination(createQuery);
+  // Fetch in parallel: transactions, refcode mappings, and creative insights
+  const [txResults, refcodeResult, creativeResult, smsResult] = await Promise.all([
+    Promise.all(emailChunks.map(chunk =>
+      supabase
+        .from('actblue_transactions')
+        .select('donor_email, refcode')
+        .eq('organization_id', organizationId)
+        .in('donor_email', chunk)
+        .not('refcode', 'is', null)
+    )),
+    supabase
+      .from('refcode_mappings')
+      .select('refcode, platform, creative_id, campaign_id')
+      .eq('organization_id', organizationId),
+    supabase
+      .from('meta_creative_insights')
+      .select('creative_id, topic, donor_pain_points, values_appealed, issue_specifics, emotional_triggers')
+      .eq('organization_id', organizationId),
+    supabase
+      .from('sms_campaigns')
+      .select('id, topic, donor_pain_points, values_appealed, issue_specifics, emotional_triggers')
+      .eq('organization_id', organizationId)
+  ]);
 
-  if (!demographics || demographics.length === 0) {
-    return { 
-      donors: [], 
-      aggregates: calculateAggregates([]), 
-      totalCount: 0 
-    };
-  }
+  // Build lookup maps
+  const refcodeMap = new Map(
+    refcodeResult.data?.map(r => [r.refcode, r]) || []
+  );
+  const creativeMap = new Map(
+    creativeResult.data?.map(c => [c.creative_id, c]) || []
+  );
+  const smsMap = new Map(
+    smsResult.data?.map(s => [s.id, s]) || []
+  );
+
+  // Aggregate attribution per donor
+  for (const txResult of txResults) {
+    if (!txResult.data) continue;
+    for (const tx of txResult.data) {
+      const email = tx.donor_email?.toLowerCase().trim();
+      if (!email || !tx.refcode) continue;
+
+      if (!attributionMap.has(email)) {
+        attributionMap.set(email, {
+          channels: [],
+          topics: [],
+          painPoints: [],
+          values: [],
+          issues: [],
+          emotions: [],
+        });
+      }
 
-  // Step 2: Get LTV predictions for matched donors
-  const donorKeys = demographics
-    .map(d => d.donor_key)
-    .filter((k): k is string => k !== null && k !== undefined);
+      const attr = attributionMap.get(email)!;
+      const refData = refcodeMap.get(tx.refcode);
 
-  let ltvMap = new Map<string, any>();
+      if (refData?.platform && !attr.channels.includes(refData.platform)) {
+        attr.channels.push(refData.platform);
+      }
 
-  if (donorKeys.length > 0) {
-    // Batch in chunks of 1000 to avoid query limits
-    const chunks = [];
-    for (let i = 0; i < donorKeys.length; i += 1000) {
-      chunks.push(donorKeys.slice(i, i + 1000));
-    }
+      // Get motivation data from creative or SMS
+      const creative = refData?.creative_id ? creativeMap.get(refData.creative_id) : null;
+      const sms = refData?.campaign_id ? smsMap.get(refData.campaign_id) : null;
+      const source = creative || sms;
 
-    const ltvResults = await Promise.all(
-      chunks.map(chunk => 
-        supabase
-          .from('donor_ltv_predictions')
-          .select('donor_key, segment, churn_risk_label, predicted_ltv_90, predicted_ltv_180')
-          .eq('organization_id', organizationId)
-          .in('donor_key', chunk)
-      )
-    );
-
-    for (const result of ltvResults) {
-      if (result.data) {
-        for (const ltv of result.data) {
-          ltvMap.set(ltv.donor_key, ltv);
+      if (source) {
+        if (source.topic && !attr.topics.includes(source.topic)) {
+          attr.topics.push(source.topic);
         }
+        (source.donor_pain_points || []).forEach((p: string) => {
+          if (!attr.painPoints.includes(p)) attr.painPoints.push(p);
+        });
+        (source.values_appealed || []).forEach((v: string) => {
+          if (!attr.values.includes(v)) attr.values.push(v);
+        });
+        (source.issue_specifics || []).forEach((i: string) => {
+          if (!attr.issues.includes(i)) attr.issues.push(i);
+        });
+        (source.emotional_triggers || []).forEach((e: string) => {
+          if (!attr.emotions.includes(e)) attr.emotions.push(e);
+        });
       }
     }
   }
 
-  // Step 3: Fetch attribution data (channel + motivation per donor)
-  const donorEmails = demographics
-    .map(d => d.donor_email?.toLowerCase().trim())
-    .filter((e): e is string => !!e);
-
-  const attributionMap = new Map<string, DonorAttribution>();
-
-  if (donorEmails.length > 0) {
-    // Get transactions with refcodes for these donors
-    const emailChunks = [];
-    for (let i = 0; i < donorEmails.length; i += 500) {
-      emailChunks.push(donorEmails.slice(i, i + 500));
-    }
-
-    // Fetch in parallel: transactions, refcode mappings, and creative insights
-    const [txResults, refcodeResult, creativeResult, smsResult] = await Promise.all([
-      Promise.all(emailChunks.map(chunk =>
-        supabase
-          .from('actblue_transactions')
-          .select('donor_email, refcode')
-          .eq('organization_id', organizationId)
-          .in('donor_email', chunk)
-          .not('refcode', 'is', null)
-      )),
-      supabase
-        .from('refcode_mappings')
-        .select('refcode, platform, creative_id, campaign_id')
-        .eq('organization_id', organizationId),
-      supabase
-        .from('meta_creative_insights')
-        .select('creative_id, topic, donor_pain_points, values_appealed, issue_specifics, emotional_triggers')
-        .eq('organization_id', organizationId),
-      supabase
-        .from('sms_campaigns')
-        .select('id, topic, donor_pain_points, values_appealed, issue_specifics, emotional_triggers')
-        .eq('organization_id', organizationId)
-    ]);
-
-    // Build lookup maps
-    const refcodeMap = new Map(
-      refcodeResult.data?.map(r => [r.refcode, r]) || []
-    );
-    const creativeMap = new Map(
-      creativeResult.data?.map(c => [c.creative_id, c]) || []
-    );
-    const smsMap = new Map(
-      smsResult.data?.map(s => [s.id, s]) || []
-    );
-
-    // Aggregate attribution per donor
-    for (const txResult of txResults) {
-      if (!txResult.data) continue;
-      for (const tx of txResult.data) {
-        const email = tx.donor_email?.toLowerCase().trim();
-        if (!email || !tx.refcode) continue;
-
-        if (!attributionMap.has(email)) {
-          attributionMap.set(email, {
-            channels: [],
-            topics: [],
-            painPoints: [],
-            values: [],
-            issues: [],
-            emotions: [],
-          });
-        }
-
-        const attr = attributionMap.get(email)!;
-        const refData = refcodeMap.get(tx.refcode);
+  return attributionMap;
+}
 
-        if (refData?.platform && !attr.channels.includes(refData.platform)) {
-          attr.channels.push(refData.platform);
-        }
+// Main fetch function: filter tree evaluated server-side, attribution enriched for the loaded page
+async function fetchSegmentDonors(
+  organizationId: string,
+  filters: FilterGroup
+): Promise<SegmentQueryResult> {
+  // Step 1: Count, aggregate and load the top donors in Postgres
+  const result = await querySegment(organizationId, filters, SEGMENT_PAGE_SIZE);
 
-        // Get motivation data from creative or SMS
-        const creative = refData?.creative_id ? creativeMap.get(refData.creative_id) : null;
-        const sms = refData?.campaign_id ? smsMap.get(refData.campaign_id) : null;
-        const source = creative || sms;
-
-        if (source) {
-          if (source.topic && !attr.topics.includes(source.topic)) {
-            attr.topics.push(source.topic);
-          }
-          (source.donor_pain_points || []).forEach((p: string) => {
-            if (!attr.painPoints.includes(p)) attr.painPoints.push(p);
-          });
-          (source.values_appealed || []).forEach((v: string) => {
-            if (!attr.values.includes(v)) attr.values.push(v);
-          });
-          (source.issue_specifics || []).forEach((i: string) => {
-            if (!attr.issues.includes(i)) attr.issues.push(i);
-          });
-          (source.emotional_triggers || []).forEach((e: string) => {
-            if (!attr.emotions.includes(e)) attr.emotions.push(e);
-          });
-        }
-      }
-    }
+  if (!result || result.total_count === 0) {
+    return {
+      donors: [],
+      aggregates: calculateAggregates([]),
+      totalCount: 0
+    };
   }
 
-  // Step 4: Transform and enrich donors with attribution
-  let donors = demographics.map(row => {
+  // Step 2: Enrich loaded donors with attribution for the channel/motivation breakdowns
+  const donorEmails = result.donors
+    .map(d => d.donor_email?.toLowerCase().trim())
+    .filter((e): e is string => !!e);
+  const attributionMap = await fetchDonorAttribution(organizationId, donorEmails);
+
+  const donors = result.donors.map(row => {
     const email = row.donor_email?.toLowerCase().trim();
-    const attribution = email ? attributionMap.get(email) : undefined;
-    return transformToDonor(row, ltvMap.get(row.donor_key || ''), attribution);
+    return transformToDonor(row, email ? attributionMap.get(email) : undefined);
   });
 
-  // Deduplicate by ID (safety net for pagination edge cases)
-  const uniqueMap = new Map(donors.map(d => [d.id, d]));
-  donors = Array.from(uniqueMap.values());
-
-  // Step 5: Apply client-side filters
-  const clientFilters = filters.filter(f => CLIENT_SIDE_FIELDS.includes(f.field));
-  if (clientFilters.length > 0) {
-    donors = donors.filter(donor => 
-      clientFilters.every(filter => applyClientFilter(donor, filter))
-    );
-  }
-
-  // Step 6: Calculate aggregates
-  const aggregates = calculateAggregates(donors);
+  // Step 3: Whole-segment aggregates from the server, attribution breakdowns from loaded donors
+  const totalDonors = result.total_count;
+  const { totals } = result;
+  const loadedAggregates = calculateAggregates(donors);
 
   return {
     donors,
-    aggregates,
-    totalCount: donors.length,
+    aggregates: {
+      ...loadedAggregates,
+      totalDonors,
+      totalLifetimeValue: Number(totals.total_lifetime_value) || 0,
+      avgDonation: totals.total_donations > 0 ? totals.total_lifetime_value / totals.total_donations : 0,
+      avgDonationCount: totals.total_donations / totalDonors,
+      recurringDonors: totals.recurring_donors,
+      recurringRate: (totals.recurring_donors / totalDonors) * 100,
+      avgDaysSinceDonation: totals.total_days_since_donation / totalDonors,
+      byState: result.by_state,
+      bySegment: formatSegmentDistribution(result.by_segment),
+      byChurnRisk: formatChurnRiskDistribution(result.by_churn_risk),
+      byTier: result.by_tier
+        .map(({ name, value }) => ({ name: MONETARY_TIER_LABELS[name] || name, value }))
+        .sort((a, b) => b.value - a.value),
+    },
+    totalCount: totalDonors,
   };
 }
 
+/**
+ * Load every donor in a segment (for CSV export), paging through the RPC.
+ */
+export async function fetchAllSegmentDonors(
+  organizationId: string,
+  filters: FilterGroup
+): Promise<SegmentDonor[]> {
+  const donors: SegmentDonor[] = [];
+  let offset = 0;
+  let totalCount = Infinity;
+
+  while (offset < totalCount) {
+    const page = await querySegment(organizationId, filters, EXPORT_PAGE_SIZE, offset);
+    totalCount = page.total_count;
+    if (page.donors.length === 0) break;
+    donors.push(...page.donors.map(row => transformToDonor(row)));
+    offset += page.donors.length;
+  }
+
+  return donors;
+}
+
+const MONETARY_TIER_LABELS: Record<string, string> = {
+  major: 'Major ($1,000+)',
+  mid: 'Mid-Level ($250-999)',
+  grassroots: 'Grassroots (<$250)',
+};
+
+function formatSegmentDistribution(distribution: Distribution): Distribution {
+  return distribution
+    .map(({ name, value }) => ({
+      name: name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
+      value
+    }))
+    .sort((a, b) => b.value - a.value);
+}
+
+function formatChurnRiskDistribution(distribution: Distribution): Distribution {
+  const order = ['Low Risk', 'Medium Risk', 'High Risk', 'Unknown Risk'];
+  return distribution
+    .map(({ name, value }) => ({
+      name: name.charAt(0).toUpperCase() + name.slice(1) + ' Risk',
+      value
+    }))
+    .sort((a, b) => order.indexOf(a.name) - order.indexOf(b.name));
+}
+
 function calculateAggregates(donors: SegmentDonor[]): SegmentAggregates {
   if (donors.length === 0) {
     return {
@@ -546,12 +395,9 @@ function calculateAggregates(donors: SegmentDonor[]): SegmentAggregates {
     const seg = d.segment || 'Unknown';
     segmentMap.set(seg, (segmentMap.get(seg) || 0) + 1);
   });
-  const bySegment = Array.from(segmentMap.entries())
-    .map(([name, value]) => ({ 
-      name: name.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()), 
-      value 
-    }))
-    .sort((a, b) => b.value - a.value);
+  const bySegment = formatSegmentDistribution(
+    Array.from(segmentMap.entries()).map(([name, value]) => ({ name, value }))
+  );
 
   // Churn risk distribution
   const riskMap = new Map<string, number>();
@@ -559,22 +405,16 @@ function calculateAggregates(donors: SegmentDonor[]): SegmentAggregates {
     const risk = d.churn_risk_label || 'Unknown';
     riskMap.set(risk, (riskMap.get(risk) || 0) + 1);
   });
-  const byChurnRisk = Array.from(riskMap.entries())
-    .map(([name, value]) => ({ 
-      name: name.charAt(0).toUpperCase() + name.slice(1) + ' Risk', 
-      value 
-    }))
-    .sort((a, b) => {
-      const order = ['Low Risk', 'Medium Risk', 'High Risk', 'Unknown Risk'];
-      return order.indexOf(a.name) - order.indexOf(b.name);
-    });
+  const byChurnRisk = formatChurnRiskDistribution(
+    Array.from(riskMap.entries()).map(([name, value]) => ({ name, value }))
+  );
 
   // Tier distribution
   const tierMap = new Map<string, number>();
   donors.forEach(d => {
-    const tier = d.total_donated >= 1000 ? 'Major ($1,000+)' 
-      : d.total_donated >= 250 ? 'Mid-Level ($250-999)' 
-      : 'Grassroots (<$250)';
+    const tier = MONETARY_TIER_LABELS[
+      d.total_donated >= 1000 ? 'major' : d.total_donated >= 250 ? 'mid' : 'grassroots'
+    ];
     tierMap.set(tier, (tierMap.get(tier) || 0) + 1);
   });
   const byTier = Array.from(tierMap.entries())
@@ -682,7 +522,7 @@ function calculateAggregates(donors: SegmentDonor[]): SegmentAggregates {
 // Hook for querying donor segments
 export function useDonorSegmentQuery(
   organizationId: string,
-  filters: FilterCondition[],
+  filters: FilterGroup,
   enabled: boolean = true
 ) {
   return useQuery({
@@ -713,7 +553,7 @@ async function fetchSavedSegments(organizationId: string): Promise<SavedSegment[
     organization_id: d.organization_id,
     name: d.name,
     description: d.description,
-    filters: (d.filters as unknown as FilterCondition[]) || [],
+    filters: normalizeSegmentFilters(d.filters),
     donor_count_snapshot: d.donor_count_snapshot,
     total_value_snapshot: d.total_value_snapshot,
     created_by: d.created_by,
@@ -740,7 +580,7 @@ export function useSaveSegmentMutation() {
       organizationId: string;
       name: string;
       description?: string;
-      filters: FilterCondition[];
+      filters: FilterGroup;
       donorCount: number;
       totalValue: number;
     }) => {
@@ -750,7 +590,7 @@ export function useSaveSegmentMutation() {
           organization_id: params.organizationId,
           name: params.name,
           description: params.description || null,
-          filters: params.filters as any,
+          filters: params.filters as unknown as Json,
           donor_count_snapshot: params.donorCount,
           total_value_snapshot: params.totalValue,
         })
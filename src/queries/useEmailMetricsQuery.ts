@@ -0,0 +1,104 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { emailKeys } from "./queryKeys";
+import { STALE_TIMES, GC_TIMES } from "@/lib/query-config";
+
+export interface EmailMailingMetrics {
+  id: string;
+  provider: string;
+  mailingId: string;
+  mailingName: string | null;
+  subject: string | null;
+  sentAt: string | null;
+  sends: number;
+  delivered: number;
+  uniqueOpens: number;
+  uniqueClicks: number;
+  unsubscribes: number;
+  refcode: string | null;
+  donations: number;
+  raised: number;
+  donors: number;
+}
+
+export interface EmailMetricsResult {
+  mailings: EmailMailingMetrics[];
+  totals: {
+    sent: number;
+    delivered: number;
+    uniqueOpens: number;
+    uniqueClicks: number;
+    unsubscribes: number;
+    donations: number;
+    raised: number;
+  };
+  /** Unique opens / delivered, as a percentage */
+  openRate: number;
+  /** Unique clicks / delivered, as a percentage */
+  clickRate: number;
+  /** Latest send date in the range */
+  latestDataDate: string | null;
+}
+
+interface EmailMetricsRpcResponse {
+  mailings?: EmailMailingMetrics[];
+  summary?: {
+    totalSent?: number;
+    totalDelivered?: number;
+    totalUniqueOpens?: number;
+    totalUniqueClicks?: number;
+    totalUnsubscribes?: number;
+    totalDonations?: number;
+    totalRaised?: number;
+    lastSentAt?: string | null;
+  };
+}
+
+async function fetchEmailMetrics(
+  organizationId: string,
+  startDate: string,
+  endDate: string
+): Promise<EmailMetricsResult> {
+  const { data, error } = await supabase.rpc("get_email_metrics", {
+    p_organization_id: organizationId,
+    p_start_date: startDate,
+    p_end_date: endDate,
+  });
+
+  if (error) throw error;
+
+  const response = (data || {}) as unknown as EmailMetricsRpcResponse;
+  const summary = response.summary || {};
+
+  const totals = {
+    sent: Number(summary.totalSent) || 0,
+    delivered: Number(summary.totalDelivered) || 0,
+    uniqueOpens: Number(summary.totalUniqueOpens) || 0,
+    uniqueClicks: Number(summary.totalUniqueClicks) || 0,
+    unsubscribes: Number(summary.totalUnsubscribes) || 0,
+    donations: Number(summary.totalDonations) || 0,
+    raised: Number(summary.totalRaised) || 0,
+  };
+
+  return {
+    mailings: (response.mailings || []).map((m) => ({ ...m, raised: Number(m.raised) || 0 })),
+    totals,
+    openRate: totals.delivered > 0 ? (totals.uniqueOpens / totals.delivered) * 100 : 0,
+    clickRate: totals.delivered > 0 ? (totals.uniqueClicks / totals.delivered) * 100 : 0,
+    latestDataDate: summary.lastSentAt?.split("T")[0] ?? null,
+  };
+}
+
+export function useEmailMetricsQuery(
+  organizationId: string | undefined,
+  startDate: string,
+  endDate: string
+) {
+  return useQuery({
+    queryKey: emailKeys.metrics(organizationId || "", { startDate, endDate }),
+    queryFn: () => fetchEmailMetrics(organizationId!, startDate, endDate),
+    enabled: !!organizationId && !!startDate && !!endDate,
+    staleTime: STALE_TIMES.dashboard,
+    gcTime: GC_TIMES.dashboard,
+  });
+}
@@ -0,0 +1,150 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { googleAdsKeys } from "./queryKeys";
+import { STALE_TIMES, GC_TIMES } from "@/lib/query-config";
+
+export interface GoogleAdsCampaignMetrics {
+  campaign_id: string;
+  campaign_name: string;
+  status: string | null;
+  channel_type: string | null;
+  impressions: number;
+  clicks: number;
+  cost: number;
+  conversions: number;
+  conversion_value: number;
+  video_views: number;
+  ctr: number;
+  cpa: number;
+  roas: number;
+}
+
+export interface GoogleAdsDailyMetric {
+  date: string;
+  cost: number;
+  clicks: number;
+  conversions: number;
+}
+
+export interface GoogleAdsMetricsResult {
+  campaigns: GoogleAdsCampaignMetrics[];
+  dailyMetrics: GoogleAdsDailyMetric[];
+  totals: {
+    impressions: number;
+    clicks: number;
+    cost: number;
+    conversions: number;
+    conversion_value: number;
+    video_views: number;
+  };
+  /** Latest date with data available */
+  latestDataDate: string | null;
+}
+
+async function fetchGoogleAdsMetrics(
+  organizationId: string,
+  startDate: string,
+  endDate: string
+): Promise<GoogleAdsMetricsResult> {
+  const [campaignRes, metricsRes] = await Promise.all([
+    supabase
+      .from("google_ads_campaigns")
+      .select("campaign_id, campaign_name, status, channel_type")
+      .eq("organization_id", organizationId),
+    // Campaign-level rows only; ad group and ad rows would double count
+    supabase
+      .from("google_ads_metrics_daily")
+      .select("campaign_id, date, impressions, clicks, cost, conversions, conversion_value, video_views")
+      .eq("organization_id", organizationId)
+      .eq("level", "campaign")
+      .gte("date", startDate)
+      .lte("date", endDate)
+      .order("date", { ascending: true }),
+  ]);
+
+  if (campaignRes.error) throw campaignRes.error;
+  if (metricsRes.error) throw metricsRes.error;
+
+  const campaignInfo = new Map((campaignRes.data || []).map((c) => [c.campaign_id, c]));
+  const byCampaign = new Map<string, GoogleAdsCampaignMetrics>();
+  const byDate = new Map<string, GoogleAdsDailyMetric>();
+
+  for (const row of metricsRes.data || []) {
+    let campaign = byCampaign.get(row.campaign_id);
+    if (!campaign) {
+      const info = campaignInfo.get(row.campaign_id);
+      campaign = {
+        campaign_id: row.campaign_id,
+        campaign_name: info?.campaign_name || row.campaign_id,
+        status: info?.status ?? null,
+        channel_type: info?.channel_type ?? null,
+        impressions: 0,
+        clicks: 0,
+        cost: 0,
+        conversions: 0,
+        conversion_value: 0,
+        video_views: 0,
+        ctr: 0,
+        cpa: 0,
+        roas: 0,
+      };
+      byCampaign.set(row.campaign_id, campaign);
+    }
+    campaign.impressions += Number(row.impressions || 0);
+    campaign.clicks += Number(row.clicks || 0);
+    campaign.cost += Number(row.cost || 0);
+    campaign.conversions += Number(row.conversions || 0);
+    campaign.conversion_value += Number(row.conversion_value || 0);
+    campaign.video_views += Number(row.video_views || 0);
+
+    const day = byDate.get(row.date) || { date: row.date, cost: 0, clicks: 0, conversions: 0 };
+    day.cost += Number(row.cost || 0);
+    day.clicks += Number(row.clicks || 0);
+    day.conversions += Number(row.conversions || 0);
+    byDate.set(row.date, day);
+  }
+
+  const campaigns = Array.from(byCampaign.values())
+    .map((c) => ({
+      ...c,
+      ctr: c.impressions > 0 ? (c.clicks / c.impressions) * 100 : 0,
+      cpa: c.conversions > 0 ? c.cost / c.conversions : 0,
+      roas: c.cost > 0 ? c.conversion_value / c.cost : 0,
+    }))
+    .sort((a, b) => b.cost - a.cost);
+
+  const totals = campaigns.reduce(
+    (acc, c) => ({
+      impressions: acc.impressions + c.impressions,
+      clicks: acc.clicks + c.clicks,
+      cost: acc.cost + c.cost,
+      conversions: acc.conversions + c.conversions,
+      conversion_value: acc.conversion_value + c.conversion_value,
+      video_views: acc.video_views + c.video_views,
+    }),
+    { impressions: 0, clicks: 0, cost: 0, conversions: 0, conversion_value: 0, video_views: 0 }
+  );
+
+  const dailyMetrics = Array.from(byDate.values());
+
+  return {
+    campaigns,
+    dailyMetrics,
+    totals,
+    latestDataDate: dailyMetrics[dailyMetrics.length - 1]?.date ?? null,
+  };
+}
+
+export function useGoogleAdsMetricsQuery(
+  organizationId: string | undefined,
+  startDate: string,
+  endDate: string
+) {
+  return useQuery({
+    queryKey: googleAdsKeys.metrics(organizationId || "", { startDate, endDate }),
+    queryFn: () => fetchGoogleAdsMetrics(organizationId!, startDate, endDate),
+    enabled: !!organizationId && !!startDate && !!endDate,
+    staleTime: STALE_TIMES.dashboard,
+    gcTime: GC_TIMES.dashboard,
+  });
+}
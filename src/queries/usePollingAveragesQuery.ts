@@ -0,0 +1,146 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export const POLLING_AVERAGES_KEY = 'polling-averages';
+const PAGE_SIZE = 1000;
+const MAX_ROWS = 20000;
+
+// One day of a candidate's polling average (see fetch-polling-data)
+export interface PollingAveragePoint {
+  candidate_name: string;
+  average_date: string;
+  average: number;
+  lower_bound: number;
+  upper_bound: number;
+  poll_count: number;
+  trend_per_week: number | null;
+}
+
+export interface CandidateAverage {
+  candidate_name: string;
+  average: number;
+  lower_bound: number;
+  upper_bound: number;
+  trend_per_week: number | null;
+  as_of: string;
+}
+
+export interface PollsterHouseEffect {
+  pollster: string;
+  candidate_name: string;
+  house_effect: number;
+  poll_count: number;
+}
+
+export interface RacePollingAverage {
+  race_id: string;
+  race_name: string | null;
+  poll_type: string;
+  state: string | null;
+  points: PollingAveragePoint[];
+  // Latest average per candidate, leader first
+  latest: CandidateAverage[];
+  houseEffects: PollsterHouseEffect[];
+}
+
+interface PollingAveragesFilter {
+  pollTypes?: string[];
+  states?: string[];
+  days?: number;
+}
+
+type AverageRow = PollingAveragePoint & {
+  race_id: string;
+  race_name: string | null;
+  poll_type: string;
+  state: string | null;
+};
+
+function groupByRace(rows: AverageRow[], effects: (PollsterHouseEffect & { race_id: string })[]): RacePollingAverage[] {
+  const races = new Map<string, RacePollingAverage>();
+  for (const row of rows) {
+    let race = races.get(row.race_id);
+    if (!race) {
+      race = { race_id: row.race_id, race_name: row.race_name, poll_type: row.poll_type, state: row.state, points: [], latest: [], houseEffects: [] };
+      races.set(row.race_id, race);
+    }
+    race.points.push({
+      candidate_name: row.candidate_name,
+      average_date: row.average_date,
+      average: Number(row.average),
+      lower_bound: Number(row.lower_bound),
+      upper_bound: Number(row.upper_bound),
+      poll_count: row.poll_count,
+      trend_per_week: row.trend_per_week === null ? null : Number(row.trend_per_week),
+    });
+  }
+
+  for (const race of races.values()) {
+    const latestByCandidate = new Map<string, PollingAveragePoint>();
+    for (const point of race.points) {
+      const current = latestByCandidate.get(point.candidate_name);
+      if (!current || point.average_date > current.average_date) latestByCandidate.set(point.candidate_name, point);
+    }
+    race.latest = Array.from(latestByCandidate.values())
+      .map(p => ({
+        candidate_name: p.candidate_name,
+        average: p.average,
+        lower_bound: p.lower_bound,
+        upper_bound: p.upper_bound,
+        trend_per_week: p.trend_per_week,
+        as_of: p.average_date,
+      }))
+      .sort((a, b) => b.average - a.average);
+    race.houseEffects = effects
+      .filter(e => e.race_id === race.race_id)
+      .map(({ race_id: _raceId, ...effect }) => ({ ...effect, house_effect: Number(effect.house_effect) }))
+      .sort((a, b) => Math.abs(b.house_effect) - Math.abs(a.house_effect));
+  }
+
+  // Most recently updated races first
+  return Array.from(races.values())
+    .sort((a, b) => (b.latest[0]?.as_of ?? '').localeCompare(a.latest[0]?.as_of ?? ''));
+}
+
+export function usePollingAveragesQuery(filter: PollingAveragesFilter = {}) {
+  const days = filter.days ?? 90;
+
+  return useQuery({
+    queryKey: [POLLING_AVERAGES_KEY, filter.pollTypes, filter.states, days],
+    queryFn: async (): Promise<RacePollingAverage[]> => {
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const rows: AverageRow[] = [];
+
+      for (let offset = 0; offset < MAX_ROWS; offset += PAGE_SIZE) {
+        let query = supabase
+          .from('polling_averages')
+          .select('race_id, race_name, poll_type, state, candidate_name, average_date, average, lower_bound, upper_bound, poll_count, trend_per_week')
+          .gte('average_date', since)
+          .order('average_date', { ascending: true })
+          .order('race_id', { ascending: true })
+          .order('candidate_name', { ascending: true })
+          .range(offset, offset + PAGE_SIZE - 1);
+        if (filter.pollTypes?.length) query = query.in('poll_type', filter.pollTypes);
+        if (filter.states?.length) query = query.in('state', filter.states);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        rows.push(...((data || []) as AverageRow[]));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+
+      const raceIds = [...new Set(rows.map(r => r.race_id))];
+      if (raceIds.length === 0) return [];
+
+      const { data: effects, error: effectsError } = await supabase
+        .from('polling_house_effects')
+        .select('race_id, pollster, candidate_name, house_effect, poll_count')
+        .in('race_id', raceIds);
+      if (effectsError) throw effectsError;
+
+      return groupByRace(rows, effects || []);
+    },
+    enabled: filter.states === undefined || filter.states.length > 0,
+    staleTime: 10 * 60 * 1000,
+  });
+}
@@ -0,0 +1,117 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type {
+  AudienceDestination,
+  SegmentAudienceSync,
+  SegmentAudienceSyncLogEntry,
+} from "@/types/donorSegment";
+
+const AUDIENCE_SYNCS_KEY = 'segment-audience-syncs';
+const AUDIENCE_SYNC_LOG_KEY = 'segment-audience-sync-log';
+const SYNC_LOG_LIMIT = 20;
+
+// Result returned by the sync-segment-audience edge function
+export interface AudienceSyncResult {
+  success: boolean;
+  sync_id: string;
+  status: 'success' | 'partial' | 'error';
+  segment_size: number;
+  eligible_count: number;
+  added_count: number;
+  removed_count: number;
+  rejected_count: number;
+  estimated_match_rate: number;
+  error?: string;
+}
+
+async function invokeAudienceSync(body: Record<string, unknown>): Promise<AudienceSyncResult> {
+  const { data, error } = await supabase.functions.invoke('sync-segment-audience', { body });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as AudienceSyncResult;
+}
+
+// Audiences a segment is synced to (all destinations)
+export function useSegmentAudienceSyncsQuery(segmentId: string | null) {
+  return useQuery({
+    queryKey: [AUDIENCE_SYNCS_KEY, segmentId],
+    queryFn: async (): Promise<SegmentAudienceSync[]> => {
+      const { data, error } = await supabase
+        .from('segment_audience_syncs')
+        .select('id, organization_id, segment_id, destination, external_id, external_name, status, auto_sync, segment_size, member_count, estimated_match_rate, last_synced_at, last_error')
+        .eq('segment_id', segmentId!);
+
+      if (error) throw error;
+      return (data || []) as SegmentAudienceSync[];
+    },
+    enabled: !!segmentId,
+    staleTime: 30 * 1000,
+  });
+}
+
+// Recent push / resync / unsync runs for a segment
+export function useSegmentAudienceSyncLogQuery(segmentId: string | null) {
+  return useQuery({
+    queryKey: [AUDIENCE_SYNC_LOG_KEY, segmentId],
+    queryFn: async (): Promise<SegmentAudienceSyncLogEntry[]> => {
+      const { data, error } = await supabase
+        .from('segment_audience_sync_log')
+        .select('id, sync_id, destination, action, triggered_by, status, segment_size, eligible_count, added_count, removed_count, rejected_count, estimated_match_rate, error_message, started_at')
+        .eq('segment_id', segmentId!)
+        .order('started_at', { ascending: false })
+        .limit(SYNC_LOG_LIMIT);
+
+      if (error) throw error;
+      return (data || []) as SegmentAudienceSyncLogEntry[];
+    },
+    enabled: !!segmentId,
+    staleTime: 30 * 1000,
+  });
+}
+
+function useInvalidateAudienceSync() {
+  const queryClient = useQueryClient();
+  return (segmentId: string) => {
+    queryClient.invalidateQueries({ queryKey: [AUDIENCE_SYNCS_KEY, segmentId] });
+    queryClient.invalidateQueries({ queryKey: [AUDIENCE_SYNC_LOG_KEY, segmentId] });
+  };
+}
+
+// Push a saved segment to a destination (creates the audience on first push)
+export function usePushSegmentAudienceMutation() {
+  const invalidate = useInvalidateAudienceSync();
+
+  return useMutation({
+    mutationFn: (params: {
+      organizationId: string;
+      segmentId: string;
+      destination: AudienceDestination;
+      audienceName?: string;
+      autoSync: boolean;
+    }) =>
+      invokeAudienceSync({
+        action: 'push',
+        organization_id: params.organizationId,
+        segment_id: params.segmentId,
+        destination: params.destination,
+        audience_name: params.audienceName,
+        auto_sync: params.autoSync,
+      }),
+    onSettled: (_, __, variables) => invalidate(variables.segmentId),
+  });
+}
+
+// Stop syncing; by default also deletes the remote audience / list
+export function useUnsyncSegmentAudienceMutation() {
+  const invalidate = useInvalidateAudienceSync();
+
+  return useMutation({
+    mutationFn: (params: { syncId: string; segmentId: string; deleteRemote: boolean }) =>
+      invokeAudienceSync({
+        action: 'unsync',
+        sync_id: params.syncId,
+        delete_remote: params.deleteRemote,
+      }),
+    onSettled: (_, __, variables) => invalidate(variables.segmentId),
+  });
+}
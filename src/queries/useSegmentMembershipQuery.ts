@@ -0,0 +1,112 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type {
+  SegmentMembershipChange,
+  SegmentMembershipSnapshot,
+} from "@/types/donorSegment";
+import { RECENCY_FIELDS } from "@/lib/segment-membership";
+
+const SNAPSHOTS_KEY = 'segment-membership-snapshots';
+const CHANGES_KEY = 'segment-membership-changes';
+const LAPSED_FEED_KEY = 'segment-newly-lapsed';
+const CHANGES_LIMIT = 100;
+const LAPSED_FEED_LIMIT = 200;
+
+const CHANGE_COLUMNS = 'id, segment_id, snapshot_id, donor_email, donor_key, donor_name, change_type, reasons, reason_fields, attributes, previous_attributes, created_at';
+
+// Result returned by the snapshot_donor_segment RPC
+export interface SegmentSnapshotResult {
+  segment_id: string;
+  snapshot_id: string;
+  member_count: number;
+  total_value: number;
+  entered_count: number;
+  exited_count: number;
+  is_baseline: boolean;
+}
+
+// Size / entered / exited history for one segment
+export function useSegmentSnapshotsQuery(segmentId: string | null, days = 90) {
+  return useQuery({
+    queryKey: [SNAPSHOTS_KEY, segmentId, days],
+    queryFn: async (): Promise<SegmentMembershipSnapshot[]> => {
+      const { data, error } = await supabase
+        .from('segment_membership_snapshots')
+        .select('id, segment_id, member_count, total_value, entered_count, exited_count, is_baseline, triggered_by, captured_at')
+        .eq('segment_id', segmentId!)
+        .gte('captured_at', subDays(new Date(), days).toISOString())
+        .order('captured_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as SegmentMembershipSnapshot[];
+    },
+    enabled: !!segmentId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Most recent entries / exits for one segment
+export function useSegmentChangesQuery(segmentId: string | null) {
+  return useQuery({
+    queryKey: [CHANGES_KEY, segmentId],
+    queryFn: async (): Promise<SegmentMembershipChange[]> => {
+      const { data, error } = await supabase
+        .from('segment_membership_changes')
+        .select(CHANGE_COLUMNS)
+        .eq('segment_id', segmentId!)
+        .order('created_at', { ascending: false })
+        .limit(CHANGES_LIMIT);
+
+      if (error) throw error;
+      return (data || []) as unknown as SegmentMembershipChange[];
+    },
+    enabled: !!segmentId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Org-wide entries driven by recency conditions, for the "newly lapsed" feed.
+// Narrowed to lapsed donors client-side (see collectNewlyLapsedDonors).
+export function useRecencySegmentEntriesQuery(organizationId: string, days = 14) {
+  return useQuery({
+    queryKey: [LAPSED_FEED_KEY, organizationId, days],
+    queryFn: async (): Promise<SegmentMembershipChange[]> => {
+      const { data, error } = await supabase
+        .from('segment_membership_changes')
+        .select(CHANGE_COLUMNS)
+        .eq('organization_id', organizationId)
+        .eq('change_type', 'entered')
+        .overlaps('reason_fields', RECENCY_FIELDS)
+        .gte('created_at', subDays(new Date(), days).toISOString())
+        .order('created_at', { ascending: false })
+        .limit(LAPSED_FEED_LIMIT);
+
+      if (error) throw error;
+      return (data || []) as unknown as SegmentMembershipChange[];
+    },
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Recompute a segment now instead of waiting for the nightly job
+export function useRefreshSegmentSnapshotMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (segmentId: string): Promise<SegmentSnapshotResult> => {
+      const { data, error } = await supabase.rpc('snapshot_donor_segment', {
+        _segment_id: segmentId,
+        _triggered_by: 'manual',
+      });
+      if (error) throw error;
+      return data as unknown as SegmentSnapshotResult;
+    },
+    onSettled: (_, __, segmentId) => {
+      queryClient.invalidateQueries({ queryKey: [SNAPSHOTS_KEY, segmentId] });
+      queryClient.invalidateQueries({ queryKey: [CHANGES_KEY, segmentId] });
+      queryClient.invalidateQueries({ queryKey: [LAPSED_FEED_KEY] });
+    },
+  });
+}
@@ -25,6 +25,12 @@ export interface ComplianceChecks {
   within_char_limit?: boolean;
   character_count?: number;
   character_limit?: number;
+  encoding?: "GSM-7" | "UCS-2";
+  segment_count?: number;
+  segment_limit?: number;
+  non_gsm_characters?: string[];
+  is_mms?: boolean;
+  estimated_cost?: number;
   sensitive_claims_detected?: string[];
   risk_flags?: string[];
 }
@@ -0,0 +1,101 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useDebounce } from "@/hooks/useDebounce";
+import {
+  DEFAULT_TEXTING_SETTINGS,
+  type RulePackId,
+  type TextingComplianceResult,
+  type TextingComplianceSettings,
+} from "@/types/textingCompliance";
+
+const SETTINGS_KEY = 'texting-compliance-settings';
+const CHECK_KEY = 'texting-compliance-check';
+const CHECK_DEBOUNCE_MS = 600;
+
+// Org's rule packs; orgs without a row get the defaults
+export function useTextingComplianceSettingsQuery(organizationId: string | null | undefined) {
+  return useQuery({
+    queryKey: [SETTINGS_KEY, organizationId],
+    queryFn: async (): Promise<TextingComplianceSettings> => {
+      const { data, error } = await supabase
+        .from('texting_compliance_settings')
+        .select('organization_id, enabled_packs, paid_for_by, quiet_hours_start, quiet_hours_end, allowed_link_domains')
+        .eq('organization_id', organizationId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return { organization_id: organizationId!, ...DEFAULT_TEXTING_SETTINGS };
+      return { ...data, enabled_packs: data.enabled_packs as RulePackId[] };
+    },
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useSaveTextingComplianceSettings(organizationId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (settings: Omit<TextingComplianceSettings, 'organization_id'>) => {
+      if (!organizationId) throw new Error('No organization selected');
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('texting_compliance_settings')
+        .upsert({ organization_id: organizationId, ...settings, updated_by: user?.id ?? null });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [SETTINGS_KEY, organizationId] });
+      queryClient.invalidateQueries({ queryKey: [CHECK_KEY, organizationId] });
+    },
+  });
+}
+
+interface TextingComplianceCheckOptions {
+  /** The sending pipeline appends "Reply STOP to opt out." */
+  optOutAppended?: boolean;
+  recipientState?: string | null;
+  /** Scheduled send time (datetime-local or ISO); quiet-hours rules wait for it */
+  sendAt?: string | null;
+}
+
+function toIsoSendAt(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// Runs the org's rule packs against drafts, re-checking as they're edited
+export function useTextingComplianceCheck(
+  organizationId: string | null | undefined,
+  messages: string[],
+  options: TextingComplianceCheckOptions = {}
+) {
+  // Debounce a string so a new array each render doesn't restart the timer
+  const draftsKey = useDebounce(JSON.stringify(messages.map(m => m.trim()).filter(Boolean)), CHECK_DEBOUNCE_MS);
+  const drafts = useMemo(() => JSON.parse(draftsKey) as string[], [draftsKey]);
+  const sendAt = toIsoSendAt(options.sendAt);
+
+  return useQuery({
+    queryKey: [CHECK_KEY, organizationId, drafts, options.optOutAppended ?? false, options.recipientState ?? null, sendAt],
+    queryFn: async (): Promise<TextingComplianceResult[]> => {
+      const { data, error } = await supabase.functions.invoke('check-texting-compliance', {
+        body: {
+          organization_id: organizationId,
+          messages: drafts,
+          opt_out_appended: options.optOutAppended ?? false,
+          recipient_state: options.recipientState ?? null,
+          ...(sendAt ? { send_at: sendAt } : {}),
+        },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return (data?.results || []) as TextingComplianceResult[];
+    },
+    enabled: !!organizationId && drafts.length > 0,
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+    placeholderData: (prev) => prev,
+  });
+}
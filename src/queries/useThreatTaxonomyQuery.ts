@@ -0,0 +1,144 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { parseMatchedRules } from "@/lib/threat-taxonomy";
+import type {
+  ThreatAssessment,
+  ThreatLevel,
+  ThreatRuleMatch,
+  ThreatSourceType,
+  ThreatTaxonomy,
+  ThreatTaxonomyState,
+} from "@/types/threatTaxonomy";
+
+const TAXONOMY_KEY = 'threat-taxonomy';
+const MATCHES_KEY = 'threat-taxonomy-matches';
+const RECENT_MATCHES_LIMIT = 10;
+
+export interface ThreatTaxonomyMatch {
+  source_type: ThreatSourceType;
+  source_id: string;
+  title: string;
+  taxonomy_version: number;
+  score: number;
+  threat_level: ThreatLevel;
+  matched_rules: ThreatRuleMatch[];
+  scored_at: string;
+}
+
+async function invokeThreatTaxonomy<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke('threat-taxonomy', { body });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.details?.length ? `${data.error}: ${data.details.join('; ')}` : data.error);
+  return data as T;
+}
+
+// Org's active taxonomy (or the default) with its version history
+export function useThreatTaxonomyQuery(organizationId: string | null | undefined) {
+  return useQuery({
+    queryKey: [TAXONOMY_KEY, organizationId],
+    queryFn: () => invokeThreatTaxonomy<ThreatTaxonomyState>({ action: 'get', organization_id: organizationId }),
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// A past version's taxonomy, loaded into the editor to restore it
+export async function fetchThreatTaxonomyVersion(versionId: string): Promise<ThreatTaxonomy> {
+  const { data, error } = await supabase
+    .from('threat_taxonomy_versions')
+    .select('taxonomy')
+    .eq('id', versionId)
+    .single();
+  if (error) throw error;
+  return data.taxonomy as unknown as ThreatTaxonomy;
+}
+
+export function usePublishThreatTaxonomy(organizationId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ taxonomy, notes }: { taxonomy: ThreatTaxonomy; notes?: string }) => {
+      if (!organizationId) throw new Error('No organization selected');
+      return invokeThreatTaxonomy<{ version: number; rescored: { scored: number; matched: number } }>({
+        action: 'publish',
+        organization_id: organizationId,
+        taxonomy,
+        notes: notes || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [TAXONOMY_KEY, organizationId] });
+      queryClient.invalidateQueries({ queryKey: [MATCHES_KEY, organizationId] });
+    },
+  });
+}
+
+export function useRevertThreatTaxonomy(organizationId: string | null | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!organizationId) throw new Error('No organization selected');
+      return invokeThreatTaxonomy<{ success: boolean }>({ action: 'revert', organization_id: organizationId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [TAXONOMY_KEY, organizationId] });
+      queryClient.invalidateQueries({ queryKey: [MATCHES_KEY, organizationId] });
+    },
+  });
+}
+
+// Scores sample text with an unsaved draft
+export function usePreviewThreatTaxonomy(organizationId: string | null | undefined) {
+  return useMutation({
+    mutationFn: async (input: { taxonomy: ThreatTaxonomy; text: string; sourceType?: ThreatSourceType }) =>
+      invokeThreatTaxonomy<{ errors: string[]; result: ThreatAssessment }>({
+        action: 'preview',
+        organization_id: organizationId,
+        taxonomy: input.taxonomy,
+        text: input.text,
+        source_type: input.sourceType,
+      }),
+  });
+}
+
+// Latest items the org's taxonomy matched, with their titles
+export function useThreatTaxonomyMatchesQuery(organizationId: string | null | undefined) {
+  return useQuery({
+    queryKey: [MATCHES_KEY, organizationId],
+    queryFn: async (): Promise<ThreatTaxonomyMatch[]> => {
+      const { data, error } = await supabase
+        .from('threat_taxonomy_matches')
+        .select('source_type, source_id, taxonomy_version, score, threat_level, matched_rules, scored_at')
+        .eq('organization_id', organizationId!)
+        .order('scored_at', { ascending: false })
+        .limit(RECENT_MATCHES_LIMIT);
+      if (error) throw error;
+
+      const rows = data || [];
+      const idsOf = (type: ThreatSourceType) => rows.filter((r) => r.source_type === type).map((r) => r.source_id);
+      const [stateActions, executiveOrders, bills] = await Promise.all([
+        supabase.from('state_actions').select('id, title').in('id', idsOf('state_action')),
+        supabase.from('executive_orders').select('id, title').in('id', idsOf('executive_order')),
+        supabase.from('bills').select('id, title').in('id', idsOf('bill')),
+      ]);
+      const titles = new Map<string, string>();
+      for (const row of [...(stateActions.data || []), ...(executiveOrders.data || []), ...(bills.data || [])]) {
+        titles.set(row.id, row.title);
+      }
+
+      return rows.map((row) => ({
+        source_type: row.source_type as ThreatSourceType,
+        source_id: row.source_id,
+        title: titles.get(row.source_id) || 'Untitled',
+        taxonomy_version: row.taxonomy_version,
+        score: row.score,
+        threat_level: row.threat_level as ThreatLevel,
+        matched_rules: parseMatchedRules(row.matched_rules),
+        scored_at: row.scored_at,
+      }));
+    },
+    enabled: !!organizationId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
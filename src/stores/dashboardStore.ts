@@ -1,3 +1,4 @@
+import { createContext, useContext } from 'react';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { format } from 'date-fns';
@@ -60,7 +61,7 @@ export type SeriesKey =
   | 'metaSpend'
   | 'smsSpend';
 
-interface DateRange {
+export interface DateRange {
   startDate: string;
   endDate: string;
 }
@@ -317,7 +318,18 @@ export const useDashboardStore = create<DashboardState>()(
 // Selector Hooks (for optimized re-renders)
 // ============================================================================
 
-export const useDateRange = () => useDashboardStore((s) => s.dateRange);
+/**
+ * Date range pinned by a custom dashboard widget. Hooks that read the range
+ * through useDateRange() inside the provider see the widget's range instead
+ * of the global one.
+ */
+export const DateRangeOverrideContext = createContext<DateRange | null>(null);
+
+export const useDateRange = (): DateRange => {
+  const override = useContext(DateRangeOverrideContext);
+  const dateRange = useDashboardStore((s) => s.dateRange);
+  return override ?? dateRange;
+};
 export const useSelectedChannel = () => useDashboardStore((s) => s.selectedChannel);
 export const useViewMode = () => useDashboardStore((s) => s.viewMode);
 export const useRefreshKey = () => useDashboardStore((s) => s.refreshKey);
@@ -0,0 +1,67 @@
+/**
+ * Custom Dashboard Types - saved layouts for /client/dashboard/custom
+ *
+ * Layouts are stored in dashboard_layouts; widget types resolve against the
+ * registry in components/dashboard/widgets/registry.tsx.
+ */
+
+export type DashboardAudience = 'general' | 'finance' | 'digital';
+
+export type WidgetDateRangePreset =
+  | 'global'
+  | 'today'
+  | '7d'
+  | '30d'
+  | '90d'
+  | 'mtd'
+  | 'ytd'
+  | 'custom';
+
+/** Per-widget date range; 'global' follows the dashboard's date picker */
+export interface WidgetDateRange {
+  preset: WidgetDateRangePreset;
+  /** yyyy-MM-dd, only used with the 'custom' preset */
+  startDate?: string;
+  endDate?: string;
+}
+
+/** One widget placed on a layout (grid units on the 12-column lg grid) */
+export interface DashboardWidgetInstance {
+  id: string;
+  type: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  dateRange?: WidgetDateRange;
+}
+
+export interface SavedDashboardLayout {
+  id: string;
+  organization_id: string;
+  /** null for layouts shared with the whole organization */
+  user_id: string | null;
+  name: string;
+  audience: DashboardAudience;
+  widgets: DashboardWidgetInstance[];
+  is_default: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DashboardHomePreference {
+  user_id: string;
+  organization_id: string;
+  audience: DashboardAudience;
+  layout_id: string | null;
+}
+
+/** Built-in starting point, used when the org has no saved layouts */
+export interface DashboardTemplate {
+  id: string;
+  name: string;
+  audience: DashboardAudience;
+  description: string;
+  widgets: DashboardWidgetInstance[];
+}
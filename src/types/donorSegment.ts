@@ -35,12 +35,27 @@ export interface FilterCondition {
   value: string | number | boolean | string[] | number[] | [number, number] | null;
 }
 
+export type FilterGroupOperator = 'and' | 'or';
+
+// A boolean group of conditions and nested groups, e.g.
+// (recurring OR gave 3+ times) AND state in (AZ, GA) AND NOT (has refund)
+export interface FilterGroup {
+  id: string;
+  type: 'group';
+  operator: FilterGroupOperator;
+  negate?: boolean;
+  children: FilterNode[];
+}
+
+export type FilterNode = FilterCondition | FilterGroup;
+
 export interface SavedSegment {
   id: string;
   organization_id: string;
   name: string;
   description: string | null;
-  filters: FilterCondition[];
+  // Stored as a filter tree; legacy flat arrays are normalized on load
+  filters: FilterGroup;
   donor_count_snapshot: number | null;
   total_value_snapshot: number | null;
   created_by: string | null;
@@ -48,9 +63,111 @@ export interface SavedSegment {
   updated_at: string;
 }
 
+// Outreach destinations a saved segment can be pushed to
+export type AudienceDestination = 'meta_custom_audience' | 'switchboard_list';
+
+export type AudienceSyncStatus = 'pending' | 'syncing' | 'active' | 'error' | 'unsynced';
+
+export interface SegmentAudienceSync {
+  id: string;
+  organization_id: string;
+  segment_id: string;
+  destination: AudienceDestination;
+  external_id: string | null;
+  external_name: string | null;
+  status: AudienceSyncStatus;
+  auto_sync: boolean;
+  segment_size: number;
+  member_count: number;
+  estimated_match_rate: number | null;
+  last_synced_at: string | null;
+  last_error: string | null;
+}
+
+export interface SegmentAudienceSyncLogEntry {
+  id: string;
+  sync_id: string | null;
+  destination: AudienceDestination;
+  action: 'push' | 'resync' | 'unsync';
+  triggered_by: 'manual' | 'scheduled';
+  status: 'success' | 'partial' | 'error';
+  segment_size: number;
+  eligible_count: number;
+  added_count: number;
+  removed_count: number;
+  rejected_count: number;
+  estimated_match_rate: number | null;
+  error_message: string | null;
+  started_at: string;
+}
+
+export const AUDIENCE_DESTINATION_LABELS: Record<AudienceDestination, string> = {
+  meta_custom_audience: 'Meta Custom Audience',
+  switchboard_list: 'Switchboard SMS List',
+};
+
+// Scheduled recomputation of saved segments (segment_membership_* tables)
+export interface SegmentMembershipSnapshot {
+  id: string;
+  segment_id: string;
+  member_count: number;
+  total_value: number;
+  entered_count: number;
+  exited_count: number;
+  // First run, or first run after the segment's filters changed
+  is_baseline: boolean;
+  triggered_by: 'manual' | 'scheduled';
+  captured_at: string;
+}
+
+export type SegmentChangeReason =
+  | {
+      type: 'condition';
+      condition_id: string;
+      field: string;
+      operator: FilterOperator;
+      value: FilterCondition['value'];
+      // null when the donor was not tracked before (entries)
+      was_met: boolean | null;
+      now_met: boolean | null;
+    }
+  | { type: 'donor_removed' };
+
+// Donor attributes recorded with each membership change
+export interface SegmentMemberAttributes {
+  total_donated?: number;
+  donation_count?: number;
+  days_since_donation?: number;
+  last_donation_date?: string | null;
+  is_recurring?: boolean;
+  has_refund?: boolean;
+  segment?: string | null;
+  churn_risk_label?: string | null;
+  predicted_ltv_90?: number | null;
+  state?: string | null;
+  lifecycle_stage?: 'active' | 'lapsing' | 'lapsed';
+}
+
+export interface SegmentMembershipChange {
+  id: string;
+  segment_id: string;
+  snapshot_id: string;
+  donor_email: string;
+  donor_key: string | null;
+  donor_name: string | null;
+  change_type: 'entered' | 'exited';
+  reasons: SegmentChangeReason[];
+  reason_fields: string[];
+  attributes: SegmentMemberAttributes | null;
+  previous_attributes: SegmentMemberAttributes | null;
+  created_at: string;
+}
+
 export interface SegmentDonor {
   id: string;
   donor_key: string;
+  // Persistent person from the identity graph; null until resolved
+  person_id: string | null;
   email: string | null;
   phone: string | null;
   name: string | null;
@@ -62,6 +179,7 @@ export interface SegmentDonor {
   first_donation_date: string | null;
   last_donation_date: string | null;
   is_recurring: boolean;
+  has_refund: boolean;
   employer: string | null;
   occupation: string | null;
   // From LTV predictions
@@ -130,6 +248,14 @@ export const SEGMENT_FILTER_FIELDS: FilterField[] = [
     operators: ['eq'],
     description: 'Whether donor has an active recurring donation',
   },
+  {
+    key: 'has_refund',
+    label: 'Has Refunded Gift',
+    category: 'Giving Behavior',
+    type: 'boolean',
+    operators: ['eq'],
+    description: 'Whether any of the donor\'s contributions were refunded',
+  },
   {
     key: 'avg_donation',
     label: 'Average Donation',
@@ -398,3 +524,8 @@ export const OPERATOR_LABELS: Record<FilterOperator, string> = {
   is_null: 'is empty',
   is_not_null: 'has a value',
 };
+
+export const GROUP_OPERATOR_LABELS: Record<FilterGroupOperator, string> = {
+  and: 'All of (AND)',
+  or: 'Any of (OR)',
+};
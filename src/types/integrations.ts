@@ -1,6 +1,6 @@
 // Shared types for integration management
 
-export type IntegrationPlatform = 'meta_ads' | 'switchboard' | 'actblue' | 'google_ads';
+export type IntegrationPlatform = 'meta_ads' | 'switchboard' | 'actblue' | 'google_ads' | 'email';
 
 export type IntegrationHealthStatus = 
   | 'healthy' 
@@ -73,6 +73,7 @@ export const PLATFORM_DISPLAY_NAMES: Record<IntegrationPlatform, string> = {
   switchboard: 'Switchboard',
   actblue: 'ActBlue',
   google_ads: 'Google Ads',
+  email: 'Email',
 };
 
 export const PLATFORM_ICONS: Record<IntegrationPlatform, string> = {
@@ -80,6 +81,7 @@ export const PLATFORM_ICONS: Record<IntegrationPlatform, string> = {
   switchboard: '🔀',
   actblue: '💙',
   google_ads: '🔍',
+  email: '✉️',
 };
 
 // ActBlue credential sections
@@ -98,3 +100,12 @@ export interface ActBlueWebhookCredentials {
 }
 
 export interface ActBlueCredentials extends ActBlueCSVCredentials, ActBlueWebhookCredentials {}
+
+// Email fundraising platforms behind the single 'email' credential
+export type EmailProvider = 'actionkit' | 'everyaction' | 'mailchimp';
+
+export const EMAIL_PROVIDER_NAMES: Record<EmailProvider, string> = {
+  actionkit: 'ActionKit',
+  everyaction: 'EveryAction / NGP VAN',
+  mailchimp: 'Mailchimp',
+};
@@ -0,0 +1,71 @@
+// Types for the texting compliance rules engine
+// (supabase/functions/_shared/textingRules.ts, check-texting-compliance)
+
+export type RulePackId = 'carrier_basics' | 'quiet_hours' | 'state_rules' | 'paid_for_by' | 'link_shorteners';
+export type RuleSeverity = 'block' | 'warn';
+export type RuleStatus = 'pass' | 'fail' | 'skipped';
+export type TextingComplianceStatus = 'pass' | 'review' | 'blocked';
+
+export interface TextingRuleResult {
+  rule_id: string;
+  pack: RulePackId;
+  title: string;
+  severity: RuleSeverity;
+  status: RuleStatus;
+  explanation: string;
+}
+
+export interface TextingComplianceResult {
+  message: string;
+  status: TextingComplianceStatus;
+  rules: TextingRuleResult[];
+  encoding: 'GSM-7' | 'UCS-2';
+  segment_count: number;
+  estimated_cost: number;
+}
+
+export interface TextingComplianceSettings {
+  organization_id: string;
+  enabled_packs: RulePackId[];
+  paid_for_by: string | null;
+  quiet_hours_start: number;
+  quiet_hours_end: number;
+  allowed_link_domains: string[];
+}
+
+// Mirrors RULE_PACKS in textingRules.ts
+export const TEXTING_RULE_PACKS: { id: RulePackId; label: string; description: string }[] = [
+  {
+    id: 'carrier_basics',
+    label: 'Carrier basics',
+    description: 'Opt-out instructions and clear sender identification (CTIA guidelines)',
+  },
+  {
+    id: 'quiet_hours',
+    label: 'Quiet hours',
+    description: "Only send between 8am and 9pm in the recipient's local time (TCPA)",
+  },
+  {
+    id: 'state_rules',
+    label: 'State mini-TCPA',
+    description: 'Florida, Oklahoma and Maryland: 8am-8pm window and at most 3 messages per 24 hours',
+  },
+  {
+    id: 'paid_for_by',
+    label: 'Paid-for-by disclaimer',
+    description: 'Every message carries a "Paid for by" disclaimer naming the committee',
+  },
+  {
+    id: 'link_shorteners',
+    label: 'No public link shorteners',
+    description: 'Block bit.ly, TinyURL and other shared shorteners that carriers filter',
+  },
+];
+
+export const DEFAULT_TEXTING_SETTINGS: Omit<TextingComplianceSettings, 'organization_id'> = {
+  enabled_packs: ['carrier_basics', 'quiet_hours', 'state_rules', 'link_shorteners'],
+  paid_for_by: null,
+  quiet_hours_start: 8,
+  quiet_hours_end: 21,
+  allowed_link_domains: [],
+};
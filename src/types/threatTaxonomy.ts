@@ -0,0 +1,86 @@
+// Types for per-organization threat taxonomies
+// (supabase/functions/_shared/threatTaxonomy.ts, threat-taxonomy)
+
+export type ThreatLevel = 'critical' | 'high' | 'medium' | 'low';
+export type ThreatSourceType = 'state_action' | 'executive_order' | 'bill';
+
+export interface ThreatRule {
+  id: string;
+  label: string;
+  terms: string[];
+  weight: number;
+  negations?: string[];
+  /** Missing means every source */
+  sources?: ThreatSourceType[];
+  match_case?: boolean;
+  organization?: string;
+}
+
+export interface ThreatCategory {
+  id: string;
+  name: string;
+  /** Severity floor for any match in the category */
+  severity?: ThreatLevel;
+  negations?: string[];
+  rules: ThreatRule[];
+}
+
+export interface ThreatThresholds {
+  critical: number;
+  high: number;
+  medium: number;
+}
+
+export interface ThreatTaxonomy {
+  thresholds: ThreatThresholds;
+  categories: ThreatCategory[];
+}
+
+/** Stored in matched_rules on state_actions, executive_orders and threat_taxonomy_matches */
+export interface ThreatRuleMatch {
+  category_id: string;
+  category: string;
+  rule_id: string;
+  rule: string;
+  term: string;
+  weight: number;
+}
+
+export interface ThreatAssessment {
+  level: ThreatLevel;
+  score: number;
+  matches: ThreatRuleMatch[];
+  matchedTerms: string[];
+  affectedOrgs: string[];
+}
+
+export interface ThreatTaxonomyVersion {
+  id: string;
+  version: number;
+  is_active: boolean;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface ThreatTaxonomyState {
+  taxonomy: ThreatTaxonomy;
+  active_version: number | null;
+  /** The org has not published its own taxonomy */
+  is_default: boolean;
+  default_taxonomy: ThreatTaxonomy;
+  versions: ThreatTaxonomyVersion[];
+}
+
+export const THREAT_LEVEL_OPTIONS: { value: ThreatLevel; label: string }[] = [
+  { value: 'critical', label: 'Critical' },
+  { value: 'high', label: 'High' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'low', label: 'Low' },
+];
+
+export const THREAT_SOURCE_OPTIONS: { value: ThreatSourceType; label: string }[] = [
+  { value: 'state_action', label: 'State actions' },
+  { value: 'executive_order', label: 'Executive orders' },
+  { value: 'bill', label: 'Bills' },
+];
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for ActBlue split contribution (multi-lineitem) handling
+ *
+ * Run with: deno test supabase/functions/_shared/actblueLineitems.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  countLineitemsByPayment,
+  estimateActBlueFee,
+  getContributionKey,
+  normalizeLineitems,
+  routeLineitemsByEntity,
+  rowBelongsToEntity,
+} from "./actblueLineitems.ts";
+
+const CREDENTIALS = [
+  { organization_id: "org-a", encrypted_credentials: { entity_id: "111", webhook_secret: "a" } },
+  { organization_id: "org-b", encrypted_credentials: { entity_id: "222", webhook_secret: "b" } },
+];
+
+const splitPayloadLineitems = [
+  { lineitemId: 9001, entityId: 111, amount: "25.00", feeAmount: "0.99", paidAt: "2026-01-15T10:00:00-05:00" },
+  { lineitemId: 9002, entityId: 222, amount: "15.00", paidAt: "2026-01-15T10:00:00-05:00" },
+  { lineitemId: 9003, entityId: 333, amount: "10.00" },
+];
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+Deno.test("normalizeLineitems keeps every lineitem of a split contribution", () => {
+  const { lineitems, invalid } = normalizeLineitems(splitPayloadLineitems);
+
+  assertEquals(invalid.length, 0);
+  assertEquals(lineitems.map(l => l.lineitemId), [9001, 9002, 9003]);
+  assertEquals(lineitems.map(l => l.amount), [25, 15, 10]);
+  assertEquals(lineitems[0].entityId, "111");
+});
+
+Deno.test("normalizeLineitems estimates missing fees per lineitem", () => {
+  const { lineitems } = normalizeLineitems(splitPayloadLineitems);
+
+  assertEquals(lineitems[0].fee, 0.99);
+  assertEquals(lineitems[1].fee, estimateActBlueFee(15));
+});
+
+Deno.test("normalizeLineitems leaves paidAt null when ActBlue omits it", () => {
+  const { lineitems } = normalizeLineitems(splitPayloadLineitems);
+
+  assertEquals(lineitems[0].paidAt, "2026-01-15T15:00:00.000Z");
+  assertEquals(lineitems[2].paidAt, null);
+});
+
+Deno.test("normalizeLineitems reports lineitems without id or amount as invalid", () => {
+  const { lineitems, invalid } = normalizeLineitems([
+    { lineitemId: 1, amount: 5 },
+    { amount: 5 },
+    { lineitemId: 2, amount: "" },
+    null,
+  ]);
+
+  assertEquals(lineitems.length, 1);
+  assertEquals(invalid.length, 3);
+  assertEquals(normalizeLineitems(undefined).lineitems, []);
+});
+
+// ============================================================================
+// Contribution Identity
+// ============================================================================
+
+Deno.test("getContributionKey keeps the lineitem id for single-lineitem contributions", () => {
+  const { lineitems } = normalizeLineitems([splitPayloadLineitems[0]]);
+
+  assertEquals(getContributionKey({ orderNumber: "AB123" }, lineitems), "9001");
+});
+
+Deno.test("getContributionKey is shared across the lineitems of a split contribution", () => {
+  const { lineitems } = normalizeLineitems(splitPayloadLineitems);
+
+  assertEquals(getContributionKey({ orderNumber: "AB123" }, lineitems), "order:AB123");
+  assertEquals(getContributionKey({}, [...lineitems].reverse()), "lineitems:9001-9002-9003");
+});
+
+// ============================================================================
+// Entity Routing
+// ============================================================================
+
+Deno.test("routeLineitemsByEntity sends each lineitem to the org owning its entity", () => {
+  const { lineitems } = normalizeLineitems(splitPayloadLineitems);
+  const { routes, unrouted } = routeLineitemsByEntity(lineitems, CREDENTIALS);
+
+  assertEquals(routes.map(r => r.organizationId), ["org-a", "org-b"]);
+  assertEquals(routes[0].lineitems.map(l => l.lineitemId), [9001]);
+  assertEquals(routes[1].lineitems.map(l => l.lineitemId), [9002]);
+  assertEquals(routes[1].credentials.webhook_secret, "b");
+  assertEquals(unrouted.map(l => l.lineitemId), [9003]);
+});
+
+Deno.test("routeLineitemsByEntity groups several lineitems of the same org together", () => {
+  const { lineitems } = normalizeLineitems([
+    { lineitemId: 1, entityId: "111", amount: 5 },
+    { lineitemId: 2, entityId: "111", amount: 7 },
+    { lineitemId: 3, amount: 9 },
+  ]);
+  const { routes, unrouted } = routeLineitemsByEntity(lineitems, CREDENTIALS);
+
+  assertEquals(routes.length, 1);
+  assertEquals(routes[0].lineitems.length, 2);
+  assertEquals(unrouted.map(l => l.lineitemId), [3]);
+});
+
+// ============================================================================
+// CSV Rows
+// ============================================================================
+
+Deno.test("rowBelongsToEntity filters rows for other recipients", () => {
+  assertEquals(rowBelongsToEntity("111", "111"), true);
+  assertEquals(rowBelongsToEntity(" 111 ", "111"), true);
+  assertEquals(rowBelongsToEntity("222", "111"), false);
+  assertEquals(rowBelongsToEntity(null, "111"), true);
+  assertEquals(rowBelongsToEntity("222", null), true);
+});
+
+Deno.test("countLineitemsByPayment counts rows sharing a payment id", () => {
+  const counts = countLineitemsByPayment([
+    { payment_id: "P1" },
+    { payment_id: "P1" },
+    { payment_id: "P2" },
+    { payment_id: null },
+  ]);
+
+  assertEquals(counts.get("P1"), 2);
+  assertEquals(counts.get("P2"), 1);
+  assertEquals(counts.size, 2);
+});
@@ -0,0 +1,195 @@
+/**
+ * ActBlue Split Contribution (Multi-Lineitem) Utilities
+ *
+ * A single ActBlue contribution can be split across several recipients.
+ * Each recipient gets its own lineitem with its own entityId, amount and fee,
+ * while the contribution-level data (donor, refcodes, form, order number) is shared.
+ *
+ * Used by:
+ * - actblue-webhook (JSON payload with lineitems[])
+ * - process-actblue-chunk and sync-actblue-csv (one CSV row per lineitem)
+ *
+ * SEMANTICS (must stay identical across all three ingestion paths):
+ * - One actblue_transactions row per lineitem, keyed by (transaction_id = lineitemId, organization_id)
+ * - Each lineitem belongs to the org whose ActBlue credentials carry its entity_id
+ * - Lineitems for entities we don't manage are ignored, never attributed to another org
+ * - split_lineitem_count records how many lineitems the contribution had in total
+ */
+
+import { normalizeActBlueTimestamp } from './actblue-timezone.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface NormalizedLineitem {
+  lineitemId: number;
+  entityId: string | null;
+  amount: number;
+  fee: number;
+  paidAt: string | null;
+  refundedAt: string | null;
+  committeeName: string | null;
+  fecId: string | null;
+}
+
+export interface ActBlueCredentialRecord {
+  organization_id: string;
+  encrypted_credentials: Record<string, unknown> | null;
+}
+
+export interface EntityRoute {
+  organizationId: string;
+  credentials: Record<string, unknown>;
+  lineitems: NormalizedLineitem[];
+}
+
+// ActBlue webhooks often omit feeAmount; ActBlue's standard processing fee
+export const ACTBLUE_FEE_RATE = 0.0395;
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+function toNumber(val: unknown): number | null {
+  if (val === null || val === undefined || val === '') return null;
+  const num = typeof val === 'number' ? val : parseFloat(String(val));
+  return Number.isNaN(num) ? null : num;
+}
+
+function toStringOrNull(val: unknown): string | null {
+  if (val === null || val === undefined || val === '') return null;
+  return String(val);
+}
+
+export function estimateActBlueFee(amount: number): number {
+  return Math.round(amount * ACTBLUE_FEE_RATE * 100) / 100;
+}
+
+/**
+ * Normalize raw webhook lineitems. Lineitems without an id or amount are
+ * returned in `invalid` so callers can log them instead of silently dropping.
+ */
+export function normalizeLineitems(rawLineitems: unknown): {
+  lineitems: NormalizedLineitem[];
+  invalid: unknown[];
+} {
+  const lineitems: NormalizedLineitem[] = [];
+  const invalid: unknown[] = [];
+
+  if (!Array.isArray(rawLineitems)) return { lineitems, invalid };
+
+  for (const raw of rawLineitems) {
+    const item = (raw || {}) as Record<string, unknown>;
+    const idNum = toNumber(item.lineitemId);
+    const amount = toNumber(item.amount);
+
+    if (idNum === null || amount === null) {
+      invalid.push(raw);
+      continue;
+    }
+
+    lineitems.push({
+      lineitemId: Math.round(idNum),
+      entityId: toStringOrNull(item.entityId),
+      amount,
+      fee: toNumber(item.feeAmount) ?? estimateActBlueFee(amount),
+      // normalizeActBlueTimestamp falls back to now(), so only call it when paidAt is present
+      paidAt: item.paidAt ? normalizeActBlueTimestamp(String(item.paidAt)) : null,
+      refundedAt: toStringOrNull(item.refundedAt),
+      committeeName: toStringOrNull(item.committeeName),
+      fecId: toStringOrNull(item.fecId),
+    });
+  }
+
+  return { lineitems, invalid };
+}
+
+// ============================================================================
+// Contribution Identity
+// ============================================================================
+
+/**
+ * Stable identifier for a whole contribution, shared by all of its lineitems.
+ *
+ * Single-lineitem contributions keep using the lineitem id so CAPI dedupe keys
+ * are unchanged for the common case. Split contributions use ActBlue's order
+ * number, falling back to the sorted lineitem ids.
+ */
+export function getContributionKey(
+  contribution: { orderNumber?: unknown } | null | undefined,
+  lineitems: Pick<NormalizedLineitem, 'lineitemId'>[]
+): string {
+  if (lineitems.length === 1) return String(lineitems[0].lineitemId);
+
+  const orderNumber = toStringOrNull(contribution?.orderNumber);
+  if (orderNumber) return `order:${orderNumber}`;
+
+  return `lineitems:${lineitems.map(l => l.lineitemId).sort((a, b) => a - b).join('-')}`;
+}
+
+// ============================================================================
+// Entity Routing
+// ============================================================================
+
+/**
+ * Group lineitems by the organization that owns their entity_id.
+ * Lineitems whose entity isn't configured for any org end up in `unrouted`.
+ */
+export function routeLineitemsByEntity(
+  lineitems: NormalizedLineitem[],
+  credentialRecords: ActBlueCredentialRecord[]
+): { routes: EntityRoute[]; unrouted: NormalizedLineitem[] } {
+  const credByEntity = new Map<string, ActBlueCredentialRecord>();
+  for (const record of credentialRecords) {
+    const entityId = toStringOrNull(record.encrypted_credentials?.entity_id);
+    if (entityId && !credByEntity.has(entityId)) credByEntity.set(entityId, record);
+  }
+
+  const routesByOrg = new Map<string, EntityRoute>();
+  const unrouted: NormalizedLineitem[] = [];
+
+  for (const lineitem of lineitems) {
+    const record = lineitem.entityId ? credByEntity.get(lineitem.entityId) : undefined;
+    if (!record) {
+      unrouted.push(lineitem);
+      continue;
+    }
+
+    let route = routesByOrg.get(record.organization_id);
+    if (!route) {
+      route = {
+        organizationId: record.organization_id,
+        credentials: record.encrypted_credentials || {},
+        lineitems: [],
+      };
+      routesByOrg.set(record.organization_id, route);
+    }
+    route.lineitems.push(lineitem);
+  }
+
+  return { routes: Array.from(routesByOrg.values()), unrouted };
+}
+
+/**
+ * CSV/API exports carry one row per lineitem. A row belongs to the exporting
+ * org when its entity_id matches the org's configured entity (or is absent,
+ * for older exports without the column).
+ */
+export function rowBelongsToEntity(rowEntityId: string | null | undefined, orgEntityId: string | null | undefined): boolean {
+  if (!rowEntityId || !orgEntityId) return true;
+  return String(rowEntityId).trim() === String(orgEntityId).trim();
+}
+
+/**
+ * Count lineitems per contribution (payment_id) across the rows of one export,
+ * so every row can record split_lineitem_count like the webhook does.
+ */
+export function countLineitemsByPayment(rows: Array<{ payment_id?: string | null }>): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    if (!row.payment_id) continue;
+    counts.set(row.payment_id, (counts.get(row.payment_id) || 0) + 1);
+  }
+  return counts;
+}
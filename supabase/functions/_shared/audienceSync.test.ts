@@ -0,0 +1,123 @@
+/**
+ * Unit tests for segment audience sync (Meta Custom Audiences / Switchboard lists)
+ *
+ * Run with: deno test supabase/functions/_shared/audienceSync.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  chunkArray,
+  diffAudienceMembers,
+  estimateMatchRate,
+  normalizePhoneE164,
+  prepareAudienceMembers,
+  prepareMetaAudienceMember,
+  prepareSwitchboardMember,
+  type SegmentMember,
+} from "./audienceSync.ts";
+import { normalizeAndHashEmail, normalizeAndHashPhone } from "./capi-utils.ts";
+
+function member(overrides: Partial<SegmentMember> = {}): SegmentMember {
+  return {
+    id: crypto.randomUUID(),
+    donor_email: 'Jane.Doe@Example.com ',
+    phone: '(555) 123-4567',
+    first_name: 'Jane',
+    last_name: 'Doe',
+    city: 'St. Louis',
+    state: 'Missouri',
+    zip: '63101-1234',
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Meta Custom Audiences
+// ============================================================================
+
+Deno.test("prepareMetaAudienceMember hashes identifiers with the CAPI normalizers", async () => {
+  const prepared = await prepareMetaAudienceMember(member());
+
+  const em = await normalizeAndHashEmail('jane.doe@example.com');
+  const ph = await normalizeAndHashPhone('5551234567');
+  assertEquals(prepared?.key, `em:${em}`);
+  assertEquals(prepared?.payload[0], em);
+  assertEquals(prepared?.payload[1], ph);
+  assertEquals(prepared?.payload.length, 7);
+  assertEquals(prepared?.payload.every(v => /^[0-9a-f]{64}$/.test(v)), true);
+});
+
+Deno.test("prepareMetaAudienceMember skips members without email or phone", async () => {
+  assertEquals(await prepareMetaAudienceMember(member({ donor_email: null, phone: null })), null);
+
+  const phoneOnly = await prepareMetaAudienceMember(member({ donor_email: null, city: null }));
+  assertEquals(phoneOnly?.key.startsWith('ph:'), true);
+  assertEquals(phoneOnly?.payload[0], '');
+  assertEquals(phoneOnly?.payload[4], '');
+});
+
+// ============================================================================
+// Switchboard Phone Lists
+// ============================================================================
+
+Deno.test("normalizePhoneE164 formats US numbers and rejects short ones", () => {
+  assertEquals(normalizePhoneE164('(555) 123-4567'), '+15551234567');
+  assertEquals(normalizePhoneE164('1-555-123-4567'), '+15551234567');
+  assertEquals(normalizePhoneE164('0044 20 7946 0958'), '+442079460958');
+  assertEquals(normalizePhoneE164('12345'), null);
+  assertEquals(normalizePhoneE164(null), null);
+});
+
+Deno.test("prepareSwitchboardMember keys on the phone hash", async () => {
+  const prepared = await prepareSwitchboardMember(member());
+
+  assertEquals(prepared?.payload, ['+15551234567']);
+  assertEquals(prepared?.key, `ph:${await normalizeAndHashPhone('5551234567')}`);
+  assertEquals(await prepareSwitchboardMember(member({ phone: null })), null);
+});
+
+Deno.test("prepareAudienceMembers de-duplicates members sharing an identity", async () => {
+  const prepared = await prepareAudienceMembers('switchboard_list', [
+    member({ donor_email: 'a@example.com' }),
+    member({ donor_email: 'b@example.com' }),
+    member({ phone: '555-999-0000' }),
+  ]);
+
+  assertEquals(prepared.size, 2);
+});
+
+// ============================================================================
+// Membership Diffs
+// ============================================================================
+
+Deno.test("diffAudienceMembers finds added and removed members", async () => {
+  const current = await prepareAudienceMembers('meta_custom_audience', [
+    member({ donor_email: 'stay@example.com' }),
+    member({ donor_email: 'new@example.com' }),
+  ]);
+  const stayKey = `em:${await normalizeAndHashEmail('stay@example.com')}`;
+
+  const diff = diffAudienceMembers([stayKey, 'em:gone'], current);
+
+  assertEquals(diff.unchanged, 1);
+  assertEquals(diff.added.length, 1);
+  assertEquals(diff.added[0].key, `em:${await normalizeAndHashEmail('new@example.com')}`);
+  assertEquals(diff.removed, ['em:gone']);
+});
+
+Deno.test("estimateMatchRate counts unmatchable members against the segment", () => {
+  const members = [
+    { key: 'a', payload: [], matchScore: 80 },
+    { key: 'b', payload: [], matchScore: 60 },
+  ];
+
+  assertEquals(estimateMatchRate(members, 2), 0.7);
+  assertEquals(estimateMatchRate(members, 4), 0.35);
+  assertEquals(estimateMatchRate(members, 0), 0);
+});
+
+Deno.test("chunkArray splits uploads into API-sized batches", () => {
+  assertEquals(chunkArray([1, 2, 3, 4, 5], 2), [[1, 2], [3, 4], [5]]);
+  assertEquals(chunkArray([], 2), []);
+});
@@ -0,0 +1,198 @@
+/**
+ * Segment Audience Sync Utilities
+ *
+ * Turns donor segment members into destination payloads:
+ * - Meta Custom Audiences: SHA-256 hashed identifiers, normalized with the
+ *   same capi-utils helpers used for Conversions API events
+ * - Switchboard phone lists: E.164 phone numbers (SMS needs the raw number)
+ *
+ * Also diffs membership between syncs so audiences can be kept current with
+ * incremental add/remove calls instead of full re-uploads.
+ */
+
+import {
+  calculateMatchScore,
+  normalizeAndHashCity,
+  normalizeAndHashEmail,
+  normalizeAndHashName,
+  normalizeAndHashPhone,
+  normalizeAndHashState,
+  normalizeAndHashZip,
+} from "./capi-utils.ts";
+
+export type AudienceDestination = 'meta_custom_audience' | 'switchboard_list';
+
+// Member shape returned by the query_donor_segment RPC (subset)
+export interface SegmentMember {
+  id: string;
+  donor_email: string | null;
+  phone: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+}
+
+/**
+ * A member prepared for a destination.
+ * - key: stable, non-PII identity used to diff membership between syncs
+ * - payload: what the destination needs to add or remove this member
+ * - matchScore: 0-100 likelihood the destination can match the member
+ */
+export interface AudienceMember {
+  key: string;
+  payload: string[];
+  matchScore: number;
+}
+
+// Column order of Meta payload rows (customer file schema)
+export const META_AUDIENCE_SCHEMA = ['EMAIL', 'PHONE', 'FN', 'LN', 'CT', 'ST', 'ZIP'] as const;
+
+// Meta accepts at most 10,000 rows per /users call
+export const META_AUDIENCE_BATCH_SIZE = 10000;
+export const SWITCHBOARD_BATCH_SIZE = 1000;
+
+// ============================================================================
+// Meta Custom Audiences
+// ============================================================================
+
+/**
+ * Hash a member for a Meta Custom Audience upload.
+ * Returns null when the member has neither email nor phone - Meta cannot
+ * match on name/location alone, so those rows are not uploaded.
+ */
+export async function prepareMetaAudienceMember(member: SegmentMember): Promise<AudienceMember | null> {
+  const [em, ph, fn, ln, ct, st, zp] = await Promise.all([
+    member.donor_email ? normalizeAndHashEmail(member.donor_email) : null,
+    member.phone ? normalizeAndHashPhone(member.phone) : null,
+    member.first_name ? normalizeAndHashName(member.first_name) : null,
+    member.last_name ? normalizeAndHashName(member.last_name) : null,
+    member.city ? normalizeAndHashCity(member.city) : null,
+    member.state ? normalizeAndHashState(member.state) : null,
+    member.zip ? normalizeAndHashZip(member.zip) : null,
+  ]);
+
+  if (!em && !ph) return null;
+
+  const hashed: Record<string, string> = {};
+  for (const [field, value] of Object.entries({ em, ph, fn, ln, ct, st, zp })) {
+    if (value) hashed[field] = value;
+  }
+
+  return {
+    // Email hash is the most stable identity; fall back to phone hash
+    key: em ? `em:${em}` : `ph:${ph}`,
+    payload: [em || '', ph || '', fn || '', ln || '', ct || '', st || '', zp || ''],
+    matchScore: calculateMatchScore(hashed),
+  };
+}
+
+// ============================================================================
+// Switchboard Phone Lists
+// ============================================================================
+
+/**
+ * Normalize a phone number to E.164 (US numbers assumed when 10 digits).
+ * Uses the same digit rules as normalizeAndHashPhone.
+ */
+export function normalizePhoneE164(phone: string | null): string | null {
+  if (!phone) return null;
+  let digits = phone.replace(/\D/g, '');
+  if (digits.startsWith('00')) digits = digits.substring(2);
+  if (digits.length === 10) digits = '1' + digits;
+  if (digits.length < 11 || digits.length > 15) return null;
+  return `+${digits}`;
+}
+
+export async function prepareSwitchboardMember(member: SegmentMember): Promise<AudienceMember | null> {
+  const e164 = normalizePhoneE164(member.phone);
+  if (!e164) return null;
+
+  const ph = await normalizeAndHashPhone(e164);
+  return {
+    key: `ph:${ph}`,
+    payload: [e164],
+    // A valid mobile number is all an SMS list needs
+    matchScore: 100,
+  };
+}
+
+export function prepareAudienceMember(
+  destination: AudienceDestination,
+  member: SegmentMember
+): Promise<AudienceMember | null> {
+  return destination === 'meta_custom_audience'
+    ? prepareMetaAudienceMember(member)
+    : prepareSwitchboardMember(member);
+}
+
+// ============================================================================
+// Membership Diffs
+// ============================================================================
+
+/**
+ * Prepare all members for a destination, de-duplicating on member key
+ * (households often share a phone, donors sometimes appear twice).
+ */
+export async function prepareAudienceMembers(
+  destination: AudienceDestination,
+  members: SegmentMember[]
+): Promise<Map<string, AudienceMember>> {
+  const prepared = new Map<string, AudienceMember>();
+  for (const member of members) {
+    const result = await prepareAudienceMember(destination, member);
+    if (result && !prepared.has(result.key)) {
+      prepared.set(result.key, result);
+    }
+  }
+  return prepared;
+}
+
+/**
+ * Compare current segment membership against what was last pushed.
+ * Returns members to add and the previously-synced keys to remove.
+ */
+export function diffAudienceMembers(
+  previousKeys: Iterable<string>,
+  current: Map<string, AudienceMember>
+): { added: AudienceMember[]; removed: string[]; unchanged: number } {
+  const previous = new Set(previousKeys);
+  const added: AudienceMember[] = [];
+  let unchanged = 0;
+
+  for (const [key, member] of current) {
+    if (previous.has(key)) {
+      unchanged++;
+    } else {
+      added.push(member);
+    }
+  }
+
+  const removed = Array.from(previous).filter(key => !current.has(key));
+  return { added, removed, unchanged };
+}
+
+/**
+ * Estimated share of the segment the destination will reach (0-1).
+ * Members without a usable identifier count as unmatched.
+ */
+export function estimateMatchRate(
+  members: Iterable<AudienceMember>,
+  segmentSize: number
+): number {
+  if (segmentSize <= 0) return 0;
+  let total = 0;
+  for (const member of members) {
+    total += member.matchScore / 100;
+  }
+  return Math.min(1, total / segmentSize);
+}
+
+export function chunkArray<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,259 @@
+/**
+ * Unit tests for bill text versions, roll-call parsing and alert events
+ *
+ * Run with: deno test supabase/functions/_shared/billTracking.test.ts
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  actionAlertType,
+  billAlertEvents,
+  billTextFromHtml,
+  isAlertableEvent,
+  parseHouseRollCall,
+  parseSenateRollCall,
+  parseTextVersions,
+  recordedVoteRefs,
+  versionCodeFromUrl,
+  versionStage,
+  type RollCallVote,
+} from "./billTracking.ts";
+
+const HOUSE_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<rollcall-vote>
+  <vote-metadata>
+    <majority>R</majority>
+    <congress>119</congress>
+    <session>1st</session>
+    <chamber>U.S. House of Representatives</chamber>
+    <rollcall-num>42</rollcall-num>
+    <legis-num>H R 815</legis-num>
+    <vote-question>On Passage</vote-question>
+    <vote-result>Passed</vote-result>
+    <action-date>12-Mar-2025</action-date>
+    <action-time time-etz="17:31">5:31 PM</action-time>
+  </vote-metadata>
+  <vote-data>
+    <recorded-vote><legislator name-id="A000370" sort-field="Adams" unaccented-name="Adams" party="D" state="NC" role="legislator">Adams</legislator><vote>Nay</vote></recorded-vote>
+    <recorded-vote><legislator name-id="B001234" sort-field="Baker" unaccented-name="Baker" party="R" state="TX" role="legislator">Baker</legislator><vote>Yea</vote></recorded-vote>
+    <recorded-vote><legislator name-id="C000999" sort-field="Cruz" unaccented-name="Cruz" party="R" state="FL" role="legislator">Cruz</legislator><vote>Aye</vote></recorded-vote>
+    <recorded-vote><legislator name-id="D000111" sort-field="Diaz" unaccented-name="Diaz" party="D" state="CA" role="legislator">Díaz</legislator><vote>Not Voting</vote></recorded-vote>
+  </vote-data>
+</rollcall-vote>`;
+
+const SENATE_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<roll_call_vote>
+  <congress>119</congress>
+  <session>1</session>
+  <vote_number>17</vote_number>
+  <vote_date>March 20, 2025,  02:15 PM</vote_date>
+  <question>On Passage of the Bill</question>
+  <vote_question_text>On Passage of the Bill (H.R. 815 As Amended)</vote_question_text>
+  <vote_result>Bill Passed</vote_result>
+  <members>
+    <member><member_full>Baldwin (D-WI)</member_full><last_name>Baldwin</last_name><first_name>Tammy</first_name><party>D</party><state>WI</state><vote_cast>Yea</vote_cast><lis_member_id>S354</lis_member_id></member>
+    <member><member_full>Barrasso (R-WY)</member_full><last_name>Barrasso</last_name><first_name>John</first_name><party>R</party><state>WY</state><vote_cast>Nay</vote_cast><lis_member_id>S317</lis_member_id></member>
+    <member><member_full>Sanders (I-VT)</member_full><last_name>Sanders</last_name><first_name>Bernard</first_name><party>I</party><state>VT</state><vote_cast>Present</vote_cast><lis_member_id>S313</lis_member_id></member>
+  </members>
+</roll_call_vote>`;
+
+function vote(overrides: Partial<RollCallVote> = {}): RollCallVote {
+  return {
+    chamber: 'house',
+    congress: 119,
+    session: 1,
+    rollNumber: 42,
+    voteDate: '2025-03-12T17:31:00.000Z',
+    question: 'On Passage',
+    result: 'Passed',
+    totals: { yea: 230, nay: 195, present: 0, not_voting: 8 },
+    partyTotals: {},
+    members: [],
+    sourceUrl: 'https://clerk.house.gov/evs/2025/roll042.xml',
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Text versions
+// ============================================================================
+
+Deno.test("versionCodeFromUrl reads the GPO suffix", () => {
+  assertEquals(versionCodeFromUrl('https://www.congress.gov/119/bills/hr815/BILLS-119hr815eh.htm'), 'eh');
+  assertEquals(versionCodeFromUrl('https://www.congress.gov/119/bills/sjres12/BILLS-119sjres12enr.pdf'), 'enr');
+  assertEquals(versionCodeFromUrl('https://example.com/other.htm'), null);
+});
+
+Deno.test("versionStage groups codes by legislative stage", () => {
+  assertEquals(versionStage('IH'), 'introduced');
+  assertEquals(versionStage('rs'), 'reported');
+  assertEquals(versionStage('eas'), 'engrossed');
+  assertEquals(versionStage('enr'), 'enrolled');
+  assertEquals(versionStage('cph'), 'other');
+});
+
+Deno.test("parseTextVersions orders oldest first and skips versions without files", () => {
+  const versions = parseTextVersions([
+    {
+      date: '2025-03-12T04:00:00Z',
+      type: 'Engrossed in House',
+      formats: [
+        { type: 'Formatted Text', url: 'https://www.congress.gov/119/bills/hr815/BILLS-119hr815eh.htm' },
+        { type: 'PDF', url: 'https://www.congress.gov/119/bills/hr815/BILLS-119hr815eh.pdf' },
+      ],
+    },
+    { date: null, type: 'Enrolled Bill', formats: [] },
+    {
+      date: '2025-02-01T05:00:00Z',
+      type: 'Introduced in House',
+      formats: [{ type: 'Formatted Text', url: 'https://www.congress.gov/119/bills/hr815/BILLS-119hr815ih.htm' }],
+    },
+  ]);
+
+  assertEquals(versions.map((v) => v.versionCode), ['ih', 'eh']);
+  assertEquals(versions[0].versionDate, '2025-02-01');
+  assertEquals(versions[1].stage, 'engrossed');
+  assertEquals(versions[1].pdfUrl, 'https://www.congress.gov/119/bills/hr815/BILLS-119hr815eh.pdf');
+});
+
+Deno.test("billTextFromHtml keeps the pre block's lines", () => {
+  const html = '<html><body><pre>\n[Congressional Bills]\n\nSECTION 1. SHORT TITLE.   \n\n    This Act may be cited as the ``Test &amp; Trial Act&#39;&#39;.\n</pre></body></html>';
+  assertEquals(
+    billTextFromHtml(html),
+    "[Congressional Bills]\n\nSECTION 1. SHORT TITLE.\n\n    This Act may be cited as the ``Test & Trial Act''."
+  );
+});
+
+// ============================================================================
+// Roll calls
+// ============================================================================
+
+Deno.test("recordedVoteRefs collects one ref per roll call", () => {
+  const refs = recordedVoteRefs([
+    {
+      actionDate: '2025-03-12',
+      text: 'On passage Passed by the Yeas and Nays: 230 - 195 (Roll no. 42).',
+      recordedVotes: [
+        { chamber: 'House', congress: 119, sessionNumber: 1, rollNumber: 42, url: 'https://clerk.house.gov/evs/2025/roll042.xml' },
+      ],
+    },
+    {
+      actionDate: '2025-03-12',
+      text: 'Passed/agreed to in House: On passage Passed by the Yeas and Nays: 230 - 195 (Roll no. 42).',
+      recordedVotes: [
+        { chamber: 'House', congress: 119, sessionNumber: 1, rollNumber: 42, url: 'https://clerk.house.gov/evs/2025/roll042.xml' },
+      ],
+    },
+    { actionDate: '2025-02-01', text: 'Introduced in House' },
+  ]);
+
+  assertEquals(refs.length, 1);
+  assertEquals(refs[0].chamber, 'house');
+  assertEquals(refs[0].rollNumber, 42);
+});
+
+Deno.test("parseHouseRollCall reads members and tallies by party", () => {
+  const parsed = parseHouseRollCall(HOUSE_XML, 'https://clerk.house.gov/evs/2025/roll042.xml');
+  assert(parsed);
+  assertEquals(parsed.congress, 119);
+  assertEquals(parsed.session, 1);
+  assertEquals(parsed.rollNumber, 42);
+  assertEquals(parsed.voteDate, '2025-03-12T17:31:00.000Z');
+  assertEquals(parsed.question, 'On Passage');
+  assertEquals(parsed.totals, { yea: 2, nay: 1, present: 0, not_voting: 1 });
+  assertEquals(parsed.partyTotals.R, { yea: 2, nay: 0, present: 0, not_voting: 0 });
+  assertEquals(parsed.members[0], {
+    memberId: 'A000370',
+    bioguideId: 'A000370',
+    name: 'Adams',
+    party: 'D',
+    state: 'NC',
+    position: 'nay',
+  });
+  assertEquals(parsed.members[3].name, 'Diaz');
+});
+
+Deno.test("parseSenateRollCall uses LIS IDs and the full question", () => {
+  const parsed = parseSenateRollCall(SENATE_XML, 'https://www.senate.gov/vote_119_1_00017.xml');
+  assert(parsed);
+  assertEquals(parsed.chamber, 'senate');
+  assertEquals(parsed.rollNumber, 17);
+  assertEquals(parsed.voteDate, '2025-03-20T14:15:00.000Z');
+  assertEquals(parsed.question, 'On Passage of the Bill (H.R. 815 As Amended)');
+  assertEquals(parsed.totals, { yea: 1, nay: 1, present: 1, not_voting: 0 });
+  assertEquals(parsed.members[0].memberId, 'S354');
+  assertEquals(parsed.members[0].bioguideId, null);
+  assertEquals(parsed.members[0].name, 'Tammy Baldwin');
+});
+
+Deno.test("roll-call parsers reject documents without a roll number", () => {
+  assertEquals(parseHouseRollCall('<rollcall-vote></rollcall-vote>', ''), null);
+  assertEquals(parseSenateRollCall('<roll_call_vote></roll_call_vote>', ''), null);
+});
+
+// ============================================================================
+// Alert events
+// ============================================================================
+
+Deno.test("actionAlertType classifies amendments, floor scheduling and votes", () => {
+  assertEquals(actionAlertType({ actionDate: '2025-03-10', text: 'Amendment (A001) offered by Mr. Smith.' }), 'amended');
+  assertEquals(actionAlertType({ actionDate: '2025-03-10', text: 'Ordered to be Reported as Amended.' }), 'amended');
+  assertEquals(actionAlertType({ actionDate: '2025-03-10', text: 'Placed on the Union Calendar, Calendar No. 12.' }), 'scheduled');
+  assertEquals(actionAlertType({ actionDate: '2025-03-10', text: 'Rules Committee Resolution H. Res. 200 Reported to House. Rule provides for consideration of H.R. 815.' }), 'scheduled');
+  assertEquals(actionAlertType({ actionDate: '2025-03-10', text: 'Passed Senate without amendment by Unanimous Consent.' }), 'voted');
+  assertEquals(actionAlertType({ actionDate: '2025-03-10', text: 'Referred to the House Committee on Foreign Affairs.' }), null);
+});
+
+Deno.test("billAlertEvents treats later text versions as amendments", () => {
+  const events = billAlertEvents({
+    billLabel: 'HR 815',
+    versions: parseTextVersions([
+      { date: '2025-02-01', type: 'Introduced in House', formats: [{ type: 'Formatted Text', url: 'BILLS-119hr815ih.htm' }] },
+      { date: '2025-03-12', type: 'Engrossed in House', formats: [{ type: 'Formatted Text', url: 'BILLS-119hr815eh.htm' }] },
+    ]),
+    actions: [],
+    votes: [],
+  });
+
+  assertEquals(events.length, 1);
+  assertEquals(events[0].type, 'amended');
+  assertEquals(events[0].key, 'version:eh');
+  assertEquals(events[0].title, 'HR 815 amended');
+  assertEquals(events[0].message, 'New text version: Engrossed in House.');
+});
+
+Deno.test("billAlertEvents reports roll calls once, not again through their action", () => {
+  const events = billAlertEvents({
+    billLabel: 'HR 815',
+    versions: [],
+    actions: [
+      { actionDate: '2025-03-12', text: 'On passage Passed by recorded vote: 230 - 195 (Roll no. 42).', actionCode: 'H37100', hasRecordedVote: true },
+      { actionDate: '2025-03-12', text: 'Motion to recommit Failed by voice vote.' },
+      { actionDate: '2025-03-11', text: 'Placed on the Union Calendar, Calendar No. 12.' },
+    ],
+    votes: [vote()],
+  });
+
+  assertEquals(events.map((e) => e.type), ['voted', 'voted', 'scheduled']);
+  assertEquals(events[0].key, 'vote:house:119:1:42');
+  assertEquals(events[0].message, 'House roll call 42: On Passage — Passed (230-195).');
+});
+
+Deno.test("billAlertEvents keys actions stably", () => {
+  const input = {
+    billLabel: 'S 12',
+    versions: [],
+    actions: [{ actionDate: '2025-03-11', text: 'Motion to proceed to consideration of measure made in Senate.' }],
+    votes: [],
+  };
+  assertEquals(billAlertEvents(input)[0].key, billAlertEvents(input)[0].key);
+});
+
+Deno.test("isAlertableEvent skips events older than the window", () => {
+  const now = new Date('2025-03-20T00:00:00Z');
+  const event = { type: 'voted' as const, key: 'k', title: 't', message: 'm' };
+  assert(isAlertableEvent({ ...event, occurredAt: '2025-03-18' }, now));
+  assert(!isAlertableEvent({ ...event, occurredAt: '2025-03-01' }, now));
+  assert(!isAlertableEvent({ ...event, occurredAt: 'not a date' }, now));
+});
@@ -0,0 +1,452 @@
+/**
+ * Bill text versions, roll-call votes and alert events
+ *
+ * Pure parsing for sync-congress-bills (see billTrackingStore.ts for the
+ * database side). Text versions come from Congress.gov's /text endpoint,
+ * roll calls from the clerk.house.gov and senate.gov XML linked from a bill's
+ * actions (recordedVotes). Section-aware diffing of the stored text happens in
+ * the browser (src/lib/bill-diff.ts).
+ */
+
+// ============================================================================
+// Text versions
+// ============================================================================
+
+export type BillVersionStage = 'introduced' | 'reported' | 'engrossed' | 'enrolled' | 'other';
+
+export interface BillTextVersion {
+  /** GPO version code, e.g. "ih", "eh", "enr" */
+  versionCode: string;
+  /** Congress.gov label, e.g. "Engrossed in House" */
+  versionName: string;
+  stage: BillVersionStage;
+  /** YYYY-MM-DD, when Congress.gov has one */
+  versionDate: string | null;
+  textUrl: string | null;
+  pdfUrl: string | null;
+}
+
+const STAGE_BY_CODE: Record<string, BillVersionStage> = {
+  ih: 'introduced',
+  is: 'introduced',
+  rh: 'reported',
+  rs: 'reported',
+  rfh: 'reported',
+  rfs: 'reported',
+  rch: 'reported',
+  rcs: 'reported',
+  pch: 'reported',
+  pcs: 'reported',
+  eh: 'engrossed',
+  es: 'engrossed',
+  eah: 'engrossed',
+  eas: 'engrossed',
+  ath: 'engrossed',
+  ats: 'engrossed',
+  enr: 'enrolled',
+};
+
+const STAGE_ORDER: BillVersionStage[] = ['introduced', 'reported', 'engrossed', 'enrolled', 'other'];
+
+export function versionStage(versionCode: string): BillVersionStage {
+  return STAGE_BY_CODE[versionCode.toLowerCase()] ?? 'other';
+}
+
+/** Version code from a GPO file name such as BILLS-119hr815eh.htm */
+export function versionCodeFromUrl(url: string | null | undefined): string | null {
+  const match = (url || '').match(/BILLS-\d+[a-z]+\d+([a-z]+)\.(?:htm|html|xml|pdf|txt)$/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+function versionCodeFromName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'unknown';
+}
+
+/**
+ * textVersions from Congress.gov, oldest first. Versions Congress.gov lists
+ * without any text file (e.g. not yet printed) are dropped.
+ */
+export function parseTextVersions(raw: unknown): BillTextVersion[] {
+  if (!Array.isArray(raw)) return [];
+
+  const versions = new Map<string, BillTextVersion>();
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { type, date, formats } = entry as { type?: string; date?: string | null; formats?: unknown };
+    const files = Array.isArray(formats) ? formats as Array<{ type?: string; url?: string }> : [];
+    const textUrl = files.find((f) => f.type === 'Formatted Text')?.url ?? null;
+    const pdfUrl = files.find((f) => f.type === 'PDF')?.url ?? null;
+    if (!textUrl && !pdfUrl) continue;
+
+    const versionName = (type || '').trim() || 'Unknown';
+    const versionCode = versionCodeFromUrl(textUrl) ?? versionCodeFromUrl(pdfUrl) ?? versionCodeFromName(versionName);
+    versions.set(versionCode, {
+      versionCode,
+      versionName,
+      stage: versionStage(versionCode),
+      versionDate: date ? date.substring(0, 10) : null,
+      textUrl,
+      pdfUrl,
+    });
+  }
+
+  return [...versions.values()].sort(compareVersions);
+}
+
+/** Oldest first: by date, then by legislative stage when dates tie or are missing */
+export function compareVersions(a: BillTextVersion, b: BillTextVersion): number {
+  if (a.versionDate && b.versionDate && a.versionDate !== b.versionDate) {
+    return a.versionDate < b.versionDate ? -1 : 1;
+  }
+  return STAGE_ORDER.indexOf(a.stage) - STAGE_ORDER.indexOf(b.stage);
+}
+
+/**
+ * Plain text from a GPO "Formatted Text" page, which wraps the bill in a
+ * <pre> block. Line breaks are kept; section headings are found by line.
+ */
+export function billTextFromHtml(html: string): string {
+  const pre = html.match(/<pre[^>]*>([\s\S]*?)<\/pre>/i);
+  return (pre ? pre[1] : html)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// ============================================================================
+// Roll-call votes
+// ============================================================================
+
+export type VoteChamber = 'house' | 'senate';
+
+export type VotePosition = 'yea' | 'nay' | 'present' | 'not_voting';
+
+export interface RecordedVoteRef {
+  chamber: VoteChamber;
+  congress: number;
+  session: number;
+  rollNumber: number;
+  url: string;
+}
+
+export interface MemberVote {
+  /** Bioguide ID for House votes, LIS member ID for Senate votes */
+  memberId: string;
+  bioguideId: string | null;
+  name: string;
+  party: string | null;
+  state: string | null;
+  position: VotePosition;
+}
+
+export interface RollCallVote {
+  chamber: VoteChamber;
+  congress: number;
+  session: number;
+  rollNumber: number;
+  /** ISO timestamp (date only when the source gives no time) */
+  voteDate: string | null;
+  question: string;
+  result: string;
+  totals: Record<VotePosition, number>;
+  /** Per party, e.g. { D: { yea: 200, nay: 10, ... } } */
+  partyTotals: Record<string, Record<VotePosition, number>>;
+  members: MemberVote[];
+  sourceUrl: string;
+}
+
+/** recordedVotes across a bill's actions, one per roll call */
+export function recordedVoteRefs(actions: unknown): RecordedVoteRef[] {
+  if (!Array.isArray(actions)) return [];
+
+  const refs = new Map<string, RecordedVoteRef>();
+  for (const action of actions) {
+    const recorded = (action as { recordedVotes?: unknown })?.recordedVotes;
+    if (!Array.isArray(recorded)) continue;
+    for (const vote of recorded as Array<Record<string, unknown>>) {
+      const chamber = String(vote.chamber || '').toLowerCase();
+      const url = typeof vote.url === 'string' ? vote.url : '';
+      const rollNumber = Number(vote.rollNumber);
+      if ((chamber !== 'house' && chamber !== 'senate') || !url || !rollNumber) continue;
+      const ref: RecordedVoteRef = {
+        chamber,
+        congress: Number(vote.congress) || 0,
+        session: Number(vote.sessionNumber) || 0,
+        rollNumber,
+        url,
+      };
+      refs.set(rollCallKey(ref), ref);
+    }
+  }
+  return [...refs.values()];
+}
+
+export function rollCallKey(vote: Pick<RecordedVoteRef, 'chamber' | 'congress' | 'session' | 'rollNumber'>): string {
+  return `${vote.chamber}:${vote.congress}:${vote.session}:${vote.rollNumber}`;
+}
+
+export function votePosition(raw: string): VotePosition {
+  const value = raw.trim().toLowerCase();
+  if (value === 'yea' || value === 'aye' || value === 'yes') return 'yea';
+  if (value === 'nay' || value === 'no') return 'nay';
+  if (value === 'present') return 'present';
+  return 'not_voting';
+}
+
+function tag(xml: string, name: string): string {
+  const match = xml.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'i'));
+  return match ? decodeXml(match[1].trim()) : '';
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function emptyTotals(): Record<VotePosition, number> {
+  return { yea: 0, nay: 0, present: 0, not_voting: 0 };
+}
+
+function tallyMembers(members: MemberVote[]): Pick<RollCallVote, 'totals' | 'partyTotals'> {
+  const totals = emptyTotals();
+  const partyTotals: Record<string, Record<VotePosition, number>> = {};
+  for (const member of members) {
+    totals[member.position]++;
+    const party = member.party || 'Unknown';
+    partyTotals[party] ??= emptyTotals();
+    partyTotals[party][member.position]++;
+  }
+  return { totals, partyTotals };
+}
+
+/**
+ * House clerk date "17-Jan-2024" plus optional time "5:31 PM". Both chambers
+ * publish Eastern wall-clock times; they are kept as given (tagged UTC) so
+ * the calendar date never shifts.
+ */
+function parseHouseDate(date: string, time: string): string | null {
+  const parsed = Date.parse(`${date.replace(/-/g, ' ')} ${time} UTC`);
+  if (!Number.isNaN(parsed)) return new Date(parsed).toISOString();
+  const dateOnly = Date.parse(`${date.replace(/-/g, ' ')} UTC`);
+  return Number.isNaN(dateOnly) ? null : new Date(dateOnly).toISOString();
+}
+
+/** clerk.house.gov/evs/<year>/roll<nnn>.xml */
+export function parseHouseRollCall(xml: string, sourceUrl: string): RollCallVote | null {
+  const rollNumber = Number(tag(xml, 'rollcall-num'));
+  if (!rollNumber) return null;
+
+  const members: MemberVote[] = [];
+  const recordedVote = /<recorded-vote>([\s\S]*?)<\/recorded-vote>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = recordedVote.exec(xml)) !== null) {
+    const legislator = match[1].match(/<legislator([^>]*)>([\s\S]*?)<\/legislator>/i);
+    if (!legislator) continue;
+    const attr = (name: string) => legislator[1].match(new RegExp(`${name}="([^"]*)"`, 'i'))?.[1] ?? '';
+    const memberId = attr('name-id');
+    if (!memberId) continue;
+    members.push({
+      memberId,
+      bioguideId: memberId,
+      name: decodeXml(attr('unaccented-name') || legislator[2].trim()),
+      party: attr('party') || null,
+      state: attr('state') || null,
+      position: votePosition(tag(match[1], 'vote')),
+    });
+  }
+
+  const congress = Number(tag(xml, 'congress')) || 0;
+  const session = parseInt(tag(xml, 'session'), 10) || 0;
+
+  return {
+    chamber: 'house',
+    congress,
+    session,
+    rollNumber,
+    voteDate: parseHouseDate(tag(xml, 'action-date'), tag(xml, 'action-time')),
+    question: tag(xml, 'vote-question'),
+    result: tag(xml, 'vote-result'),
+    ...tallyMembers(members),
+    members,
+    sourceUrl,
+  };
+}
+
+/** senate.gov/legislative/LIS/roll_call_votes/vote<c><s>/vote_<c>_<s>_<nnnnn>.xml */
+export function parseSenateRollCall(xml: string, sourceUrl: string): RollCallVote | null {
+  const rollNumber = Number(tag(xml, 'vote_number'));
+  if (!rollNumber) return null;
+
+  const members: MemberVote[] = [];
+  const member = /<member>([\s\S]*?)<\/member>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = member.exec(xml)) !== null) {
+    const memberId = tag(match[1], 'lis_member_id');
+    if (!memberId) continue;
+    const first = tag(match[1], 'first_name');
+    const last = tag(match[1], 'last_name');
+    members.push({
+      memberId,
+      bioguideId: null,
+      name: [first, last].filter(Boolean).join(' ') || tag(match[1], 'member_full'),
+      party: tag(match[1], 'party') || null,
+      state: tag(match[1], 'state') || null,
+      position: votePosition(tag(match[1], 'vote_cast')),
+    });
+  }
+
+  const rawDate = tag(xml, 'vote_date');
+  const parsedDate = Date.parse(`${rawDate.replace(',', '').replace(/,\s*/, ' ')} UTC`);
+
+  return {
+    chamber: 'senate',
+    congress: Number(tag(xml, 'congress')) || 0,
+    session: Number(tag(xml, 'session')) || 0,
+    rollNumber,
+    voteDate: Number.isNaN(parsedDate) ? null : new Date(parsedDate).toISOString(),
+    question: tag(xml, 'vote_question_text') || tag(xml, 'question'),
+    result: tag(xml, 'vote_result'),
+    ...tallyMembers(members),
+    members,
+    sourceUrl,
+  };
+}
+
+export function parseRollCallXml(chamber: VoteChamber, xml: string, sourceUrl: string): RollCallVote | null {
+  return chamber === 'house' ? parseHouseRollCall(xml, sourceUrl) : parseSenateRollCall(xml, sourceUrl);
+}
+
+// ============================================================================
+// Alert events
+// ============================================================================
+
+/** bill_alerts.alert_type values delivered by sync-congress-bills */
+export const BILL_ALERT_TYPES = ['amended', 'scheduled', 'voted'] as const;
+
+export type BillAlertType = typeof BILL_ALERT_TYPES[number];
+
+/** Events older than this are recorded but not sent (e.g. a bill's first sync) */
+export const BILL_ALERT_MAX_AGE_DAYS = 7;
+
+export interface BillAction {
+  actionDate: string;
+  text: string;
+  actionCode?: string | null;
+  /** The action carries recordedVotes; the roll call itself is the event */
+  hasRecordedVote?: boolean;
+}
+
+export interface BillAlertEvent {
+  type: BillAlertType;
+  /** Stable per bill, so re-syncing never repeats an alert */
+  key: string;
+  occurredAt: string;
+  title: string;
+  message: string;
+}
+
+const AMENDED_PATTERN = /\bamendments?\b[^.;]*\b(agreed to|adopted|offered|proposed|submitted)\b|\bas amended\b|\bamendment in the nature of a substitute\b/i;
+const SCHEDULED_PATTERN = /\bplaced on (the )?[\w\s.]*calendar\b|\bprovid(?:es|ing) for (the )?consideration\b|\bmotion to proceed\b|\bcloture motion\b|\bunanimous consent agreement\b|\bmotion to suspend the rules\b|\bconsidered under the provisions of rule\b/i;
+const VOTED_PATTERN = /\b(passed|agreed to|failed|rejected)\b[^.;]*\b(by voice vote|by unanimous consent|without objection|by the yeas and nays|by recorded vote)\b/i;
+
+/** What a single action means for alerts, if anything. Votes win over amendments. */
+export function actionAlertType(action: BillAction): BillAlertType | null {
+  const text = action.text || '';
+  if (VOTED_PATTERN.test(text)) return 'voted';
+  if (AMENDED_PATTERN.test(text)) return 'amended';
+  if (SCHEDULED_PATTERN.test(text)) return 'scheduled';
+  return null;
+}
+
+/** Short stable hash (FNV-1a) for action keys */
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+const ALERT_HEADLINES: Record<BillAlertType, string> = {
+  amended: 'amended',
+  scheduled: 'scheduled for floor action',
+  voted: 'voted on',
+};
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.substring(0, max - 1)}…` : text;
+}
+
+/**
+ * Alert events for a synced bill. Every new text version after the first
+ * counts as an amendment; roll calls are reported with their tallies, so
+ * vote actions that carry a recorded vote are skipped.
+ */
+export function billAlertEvents(input: {
+  billLabel: string;
+  versions: BillTextVersion[];
+  actions: BillAction[];
+  votes: Array<Omit<RollCallVote, 'members' | 'partyTotals'>>;
+}): BillAlertEvent[] {
+  const { billLabel } = input;
+  const events: BillAlertEvent[] = [];
+  const headline = (type: BillAlertType) => `${billLabel} ${ALERT_HEADLINES[type]}`;
+
+  for (const version of input.versions.slice(1)) {
+    events.push({
+      type: 'amended',
+      key: `version:${version.versionCode}`,
+      occurredAt: version.versionDate ?? new Date().toISOString().substring(0, 10),
+      title: headline('amended'),
+      message: `New text version: ${version.versionName}.`,
+    });
+  }
+
+  for (const vote of input.votes) {
+    const chamber = vote.chamber === 'house' ? 'House' : 'Senate';
+    const tally = `${vote.totals.yea}-${vote.totals.nay}`;
+    events.push({
+      type: 'voted',
+      key: `vote:${rollCallKey(vote)}`,
+      occurredAt: vote.voteDate ?? new Date().toISOString(),
+      title: headline('voted'),
+      message: truncate(`${chamber} roll call ${vote.rollNumber}: ${vote.question || 'Recorded vote'} — ${vote.result || 'result pending'} (${tally}).`, 500),
+    });
+  }
+
+  for (const action of input.actions) {
+    const type = actionAlertType(action);
+    if (!type) continue;
+    if (type === 'voted' && action.hasRecordedVote) continue;
+    events.push({
+      type,
+      key: `action:${action.actionDate}:${action.actionCode || ''}:${hashText(action.text)}`,
+      occurredAt: action.actionDate,
+      title: headline(type),
+      message: truncate(action.text, 500),
+    });
+  }
+
+  return events;
+}
+
+export function isAlertableEvent(event: BillAlertEvent, now: Date = new Date()): boolean {
+  const occurred = Date.parse(event.occurredAt);
+  if (Number.isNaN(occurred)) return false;
+  return now.getTime() - occurred <= BILL_ALERT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+}
@@ -0,0 +1,239 @@
+/**
+ * Supabase-backed bill tracking (see billTracking.ts for the parsing side).
+ *
+ * sync-congress-bills stores new text versions and roll calls for every
+ * relevant bill, then records alert events and notifies bill_alerts
+ * subscribers through send-notification-email. Already-stored versions and
+ * roll calls are never fetched again.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  billTextFromHtml,
+  isAlertableEvent,
+  parseRollCallXml,
+  rollCallKey,
+  type BillAlertEvent,
+  type BillTextVersion,
+  type RecordedVoteRef,
+  type RollCallVote,
+} from "./billTracking.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const MEMBER_VOTE_BATCH_SIZE = 500;
+
+async function fetchDocument(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, { headers: { 'User-Agent': 'Mozilla/5.0 (compatible; PoliticalIntelBot/1.0)' } });
+    if (!response.ok) {
+      console.error(`[billTracking] ${response.status} fetching ${url}`);
+      return null;
+    }
+    return await response.text();
+  } catch (error) {
+    console.error(`[billTracking] Error fetching ${url}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Store versions the bill does not have yet, with their text. Returns the
+ * newly stored versions.
+ */
+export async function storeTextVersions(
+  supabase: SupabaseClient,
+  billId: string,
+  versions: BillTextVersion[]
+): Promise<{ stored: BillTextVersion[] }> {
+  const { data, error } = await supabase
+    .from('bill_text_versions')
+    .select('version_code')
+    .eq('bill_id', billId);
+  if (error) throw new Error(error.message);
+
+  const known = new Set((data || []).map((row: { version_code: string }) => row.version_code));
+  const stored: BillTextVersion[] = [];
+
+  for (const version of versions) {
+    if (known.has(version.versionCode)) continue;
+    const html = version.textUrl ? await fetchDocument(version.textUrl) : null;
+
+    const { error: insertError } = await supabase
+      .from('bill_text_versions')
+      .upsert({
+        bill_id: billId,
+        version_code: version.versionCode,
+        version_name: version.versionName,
+        stage: version.stage,
+        version_date: version.versionDate,
+        text_url: version.textUrl,
+        pdf_url: version.pdfUrl,
+        text_content: html ? billTextFromHtml(html) : null,
+      }, { onConflict: 'bill_id,version_code', ignoreDuplicates: true });
+    if (insertError) throw new Error(insertError.message);
+    stored.push(version);
+  }
+
+  return { stored };
+}
+
+/** Fetch, parse and store roll calls the bill does not have yet */
+export async function storeRollCallVotes(
+  supabase: SupabaseClient,
+  billId: string,
+  refs: RecordedVoteRef[]
+): Promise<RollCallVote[]> {
+  if (refs.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('bill_roll_call_votes')
+    .select('chamber, congress, session, roll_number')
+    .eq('bill_id', billId);
+  if (error) throw new Error(error.message);
+
+  const known = new Set(
+    (data || []).map((row: { chamber: 'house' | 'senate'; congress: number; session: number; roll_number: number }) =>
+      rollCallKey({ chamber: row.chamber, congress: row.congress, session: row.session, rollNumber: row.roll_number })
+    )
+  );
+
+  const stored: RollCallVote[] = [];
+  for (const ref of refs) {
+    if (known.has(rollCallKey(ref))) continue;
+    const xml = await fetchDocument(ref.url);
+    const vote = xml ? parseRollCallXml(ref.chamber, xml, ref.url) : null;
+    if (!vote) continue;
+
+    const { data: row, error: voteError } = await supabase
+      .from('bill_roll_call_votes')
+      .insert({
+        bill_id: billId,
+        chamber: vote.chamber,
+        congress: vote.congress || ref.congress,
+        session: vote.session || ref.session,
+        roll_number: vote.rollNumber,
+        vote_date: vote.voteDate,
+        question: vote.question || null,
+        result: vote.result || null,
+        yea_count: vote.totals.yea,
+        nay_count: vote.totals.nay,
+        present_count: vote.totals.present,
+        not_voting_count: vote.totals.not_voting,
+        party_totals: vote.partyTotals,
+        source_url: vote.sourceUrl,
+      })
+      .select('id')
+      .single();
+    if (voteError || !row) throw new Error(voteError?.message || 'Roll call insert returned no row');
+
+    const memberRows = vote.members.map((member) => ({
+      roll_call_id: row.id,
+      member_id: member.memberId,
+      bioguide_id: member.bioguideId,
+      member_name: member.name,
+      party: member.party,
+      state: member.state,
+      position: member.position,
+    }));
+    for (let i = 0; i < memberRows.length; i += MEMBER_VOTE_BATCH_SIZE) {
+      const { error: membersError } = await supabase
+        .from('bill_member_votes')
+        .upsert(memberRows.slice(i, i + MEMBER_VOTE_BATCH_SIZE), { onConflict: 'roll_call_id,member_id' });
+      if (membersError) throw new Error(membersError.message);
+    }
+
+    stored.push(vote);
+  }
+
+  return stored;
+}
+
+/**
+ * Record alert events and notify subscribers of the ones not seen before.
+ * Subscribers match on alert type; legacy 'status_change' rows get every
+ * type. Events outside the alert window are recorded silently.
+ */
+export async function notifyBillAlerts(
+  supabase: SupabaseClient,
+  bill: { id: string; bill_number: string },
+  events: BillAlertEvent[],
+  options: { cronSecret?: string | null } = {}
+): Promise<{ recorded: number; notified: number }> {
+  if (events.length === 0) return { recorded: 0, notified: 0 };
+
+  const { data: inserted, error } = await supabase
+    .from('bill_alert_events')
+    .upsert(events.map((event) => ({
+      bill_id: bill.id,
+      event_key: event.key,
+      event_type: event.type,
+      title: event.title,
+      message: event.message,
+      occurred_at: event.occurredAt,
+    })), { onConflict: 'bill_id,event_key', ignoreDuplicates: true })
+    .select('id, event_key');
+  if (error) throw new Error(error.message);
+
+  const newKeys = new Map((inserted || []).map((row: { id: string; event_key: string }) => [row.event_key, row.id]));
+  const toSend = events.filter((event) => newKeys.has(event.key) && isAlertableEvent(event));
+  if (toSend.length === 0) return { recorded: newKeys.size, notified: 0 };
+
+  const { data: subscriptions, error: subscriptionsError } = await supabase
+    .from('bill_alerts')
+    .select('user_id, alert_type')
+    .eq('bill_id', bill.id)
+    .eq('is_active', true);
+  if (subscriptionsError) throw new Error(subscriptionsError.message);
+
+  const headers: Record<string, string> = options.cronSecret ? { 'x-cron-secret': options.cronSecret } : {};
+  const notifiedUsers = new Set<string>();
+  let notified = 0;
+
+  for (const event of toSend) {
+    const userIds = [...new Set(
+      (subscriptions || [])
+        .filter((s: { user_id: string | null; alert_type: string }) =>
+          s.user_id && (s.alert_type === event.type || s.alert_type === 'status_change'))
+        .map((s: { user_id: string | null }) => s.user_id as string)
+    )];
+
+    let sent = 0;
+    for (const userId of userIds) {
+      const { error: sendError } = await supabase.functions.invoke('send-notification-email', {
+        body: {
+          userId,
+          type: 'bill_update',
+          title: event.title,
+          message: event.message,
+          link: `/bills/${encodeURIComponent(bill.bill_number)}`,
+        },
+        headers,
+      });
+      if (sendError) {
+        console.error(`[billTracking] Failed to notify ${userId} of ${event.key}:`, sendError);
+        continue;
+      }
+      sent++;
+      notifiedUsers.add(userId);
+    }
+
+    if (sent > 0) {
+      await supabase
+        .from('bill_alert_events')
+        .update({ notified_count: sent })
+        .eq('id', newKeys.get(event.key));
+    }
+    notified += sent;
+  }
+
+  if (notifiedUsers.size > 0) {
+    await supabase
+      .from('bill_alerts')
+      .update({ last_notified_at: new Date().toISOString() })
+      .eq('bill_id', bill.id)
+      .in('user_id', [...notifiedUsers]);
+  }
+
+  return { recorded: newKeys.size, notified };
+}
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for SMS encoding, segment counting and compliance checks
+ *
+ * Run with: deno test supabase/functions/_shared/complianceChecker.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  analyzeSmsSegments,
+  detectSmsEncoding,
+  findNonGsmCharacters,
+  runComplianceChecks,
+  smsCapacity,
+  suggestGsmReplacements,
+} from "./complianceChecker.ts";
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+Deno.test("detectSmsEncoding keeps GSM-7 for the GSM alphabet and extension table", () => {
+  assertEquals(detectSmsEncoding("Chip in $5 today @ ActBlue! Ñoño {x} [y] ~€"), "GSM-7");
+  assertEquals(detectSmsEncoding("It’s time"), "UCS-2");
+  assertEquals(detectSmsEncoding("Vote 🗳"), "UCS-2");
+});
+
+Deno.test("findNonGsmCharacters lists each offending character once", () => {
+  assertEquals(findNonGsmCharacters("“Don’t” — don’t"), ["“", "’", "”", "—"]);
+  assertEquals(findNonGsmCharacters("plain"), []);
+});
+
+// ============================================================================
+// Segments
+// ============================================================================
+
+Deno.test("analyzeSmsSegments uses 160/153 for GSM-7", () => {
+  assertEquals(analyzeSmsSegments("a".repeat(160)).segments, 1);
+  assertEquals(analyzeSmsSegments("a".repeat(161)).segments, 2);
+  assertEquals(analyzeSmsSegments("a".repeat(306)).segments, 2);
+  assertEquals(analyzeSmsSegments("a".repeat(307)).segments, 3);
+  assertEquals(analyzeSmsSegments("").segments, 0);
+});
+
+Deno.test("analyzeSmsSegments counts extension characters as two septets", () => {
+  const info = analyzeSmsSegments("€".repeat(80));
+  assertEquals(info.units, 160);
+  assertEquals(info.segments, 1);
+  assertEquals(analyzeSmsSegments("€".repeat(81)).segments, 2);
+});
+
+Deno.test("analyzeSmsSegments uses 70/67 for UCS-2 and counts emoji as two units", () => {
+  assertEquals(analyzeSmsSegments("’" + "a".repeat(69)).segments, 1);
+  assertEquals(analyzeSmsSegments("’" + "a".repeat(70)).segments, 2);
+
+  const emoji = analyzeSmsSegments("🎉".repeat(35));
+  assertEquals(emoji.units, 70);
+  assertEquals(emoji.segments, 1);
+  // 134 units would fit in 2 x 67, but a surrogate pair never straddles a segment boundary
+  assertEquals(analyzeSmsSegments("aa" + "🎉".repeat(66)).segments, 3);
+});
+
+Deno.test("analyzeSmsSegments estimates cost and detects MMS", () => {
+  const sms = analyzeSmsSegments("a".repeat(200), { costPerSegment: 0.01 });
+  assertEquals(sms.estimated_cost, 0.02);
+  assertEquals(sms.is_mms, false);
+
+  const media = analyzeSmsSegments("See the ad", { mediaUrls: ["https://example.com/a.jpg"], mmsCost: 0.03 });
+  assertEquals(media.is_mms, true);
+  assertEquals(media.mms_reason, "media");
+  assertEquals(media.estimated_cost, 0.03);
+
+  assertEquals(analyzeSmsSegments("a".repeat(153 * 11)).mms_reason, "length");
+});
+
+Deno.test("smsCapacity reflects concatenation overhead", () => {
+  assertEquals(smsCapacity("GSM-7", 1), 160);
+  assertEquals(smsCapacity("GSM-7", 2), 306);
+  assertEquals(smsCapacity("UCS-2", 1), 70);
+  assertEquals(smsCapacity("UCS-2", 3), 201);
+});
+
+// ============================================================================
+// GSM-safe suggestions
+// ============================================================================
+
+Deno.test("suggestGsmReplacements swaps typographic look-alikes", () => {
+  const text = "We’re close — chip in… " + "a".repeat(100);
+  const suggestion = suggestGsmReplacements(text);
+  assertEquals(suggestion?.text, "We're close - chip in... " + "a".repeat(100));
+  assertEquals(suggestion?.segments_before, 2);
+  assertEquals(suggestion?.segments_after, 1);
+  assertEquals(suggestion?.remaining_non_gsm, []);
+});
+
+Deno.test("suggestGsmReplacements reports characters it can't replace", () => {
+  const suggestion = suggestGsmReplacements("It’s here 🎉");
+  assertEquals(suggestion?.text, "It's here 🎉");
+  assertEquals(suggestion?.remaining_non_gsm, ["🎉"]);
+  assertEquals(suggestGsmReplacements("Nothing to fix"), null);
+});
+
+// ============================================================================
+// Compliance checks
+// ============================================================================
+
+Deno.test("runComplianceChecks flags a message pushed into UCS-2 past one segment", () => {
+  // 120 GSM chars + opt-out fits one GSM segment, but one curly quote makes it 3 UCS-2 segments
+  const base = "Team Blue here: " + "a".repeat(103);
+  const gsm = runComplianceChecks(base, { orgName: "Team Blue" });
+  assertEquals(gsm.checks.encoding, "GSM-7");
+  assertEquals(gsm.checks.segment_count, 1);
+  assertEquals(gsm.checks.within_char_limit, true);
+
+  const ucs2 = runComplianceChecks(base.replace("here", "here’s"), { orgName: "Team Blue" });
+  assertEquals(ucs2.checks.encoding, "UCS-2");
+  assertEquals(ucs2.checks.segment_count, 3);
+  assertEquals(ucs2.checks.within_char_limit, false);
+  assertEquals(ucs2.checks.non_gsm_characters, ["’"]);
+  assertEquals(ucs2.gsm_suggestion?.segments_after, 1);
+  assertEquals(ucs2.status, "review");
+});
+
+Deno.test("runComplianceChecks honours maxSegments and maxCharacters", () => {
+  const message = "Team Blue: " + "a".repeat(200);
+  assertEquals(runComplianceChecks(message, { maxSegments: 2 }).checks.within_char_limit, true);
+  assertEquals(runComplianceChecks(message, { maxSegments: 2 }).checks.character_limit, 306);
+  assertEquals(runComplianceChecks(message, { maxSegments: 2, maxCharacters: 200 }).checks.within_char_limit, false);
+});
+
+Deno.test("runComplianceChecks can leave the opt-out out of the count", () => {
+  const withOptOut = runComplianceChecks("Team Blue: chip in");
+  const without = runComplianceChecks("Team Blue: chip in", { includeOptOutInLimit: false });
+  assertEquals(withOptOut.checks.character_count - without.checks.character_count, 23);
+});
@@ -4,7 +4,7 @@
  * Validates SMS messages against TCPA/carrier compliance requirements:
  * - Sender identification
  * - Opt-out language (STOP)
- * - Character limits
+ * - Segment limits (GSM-7 vs UCS-2 encoding), cost estimate and MMS detection
  * - Prohibited content detection
  */
 
@@ -23,16 +23,62 @@ export interface ComplianceCheckResult {
     risk_flags: string[];
     character_count: number;
     character_limit: number;
+    encoding: SmsEncoding;
+    segment_count: number;
+    segment_limit: number;
+    non_gsm_characters: string[];
+    is_mms: boolean;
+    estimated_cost: number;
   };
+  /** GSM-safe rewrite when replacing punctuation would save segments or cost */
+  gsm_suggestion: GsmSuggestion | null;
   issues: string[];
   warnings: string[];
 }
 
 export interface ComplianceOptions {
   orgName?: string;
+  /** Optional hard cap on characters, on top of the segment limit */
   maxCharacters?: number;
+  /** Segments a message may use before it's flagged (default 1) */
+  maxSegments?: number;
   includeOptOutInLimit?: boolean;
   strictMode?: boolean;
+  /** Media attachments turn the message into an MMS */
+  mediaUrls?: string[];
+  costPerSegment?: number;
+  mmsCost?: number;
+}
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SmsSegmentInfo {
+  encoding: SmsEncoding;
+  /** Septets for GSM-7 (extension characters take two), UTF-16 code units for UCS-2 */
+  units: number;
+  segments: number;
+  /** Units that fit in one segment given the segment count (160/153 or 70/67) */
+  units_per_segment: number;
+  non_gsm_characters: string[];
+  is_mms: boolean;
+  mms_reason: 'media' | 'length' | null;
+  estimated_cost: number;
+}
+
+export interface SmsAnalysisOptions {
+  mediaUrls?: string[];
+  costPerSegment?: number;
+  mmsCost?: number;
+  mmsSegmentThreshold?: number;
+}
+
+export interface GsmSuggestion {
+  text: string;
+  replacements: Array<{ from: string; to: string; count: number }>;
+  /** Characters with no GSM equivalent (emoji etc.) that are still present */
+  remaining_non_gsm: string[];
+  segments_before: number;
+  segments_after: number;
 }
 
 // ============================================================================
@@ -40,8 +86,56 @@ export interface ComplianceOptions {
 // ============================================================================
 
 const DEFAULT_MAX_SMS_LENGTH = 160;
+const DEFAULT_MAX_SEGMENTS = 1;
 const OPT_OUT_TEXT = 'Reply STOP to opt out.';
-const OPT_OUT_LENGTH = OPT_OUT_TEXT.length + 1; // +1 for space
+export const OPT_OUT_LENGTH = OPT_OUT_TEXT.length + 1; // +1 for space
+
+// Segment sizes: single message / per part of a concatenated message (UDH takes 6 bytes)
+const GSM_SINGLE_SEGMENT = 160;
+const GSM_MULTI_SEGMENT = 153;
+const UCS2_SINGLE_SEGMENT = 70;
+const UCS2_MULTI_SEGMENT = 67;
+
+// Carrier pass-through estimates in USD; override per provider via options
+const DEFAULT_SEGMENT_COST = 0.0079;
+const DEFAULT_MMS_COST = 0.02;
+// Providers convert long concatenated SMS to MMS past this many segments
+const DEFAULT_MMS_SEGMENT_THRESHOLD = 10;
+const MMS_MAX_CHARACTERS = 1600;
+
+// GSM 03.38 basic character set (escape excluded)
+const GSM_BASIC_CHARS = new Set(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+);
+
+// Extension table characters, sent as escape + char (two septets)
+const GSM_EXTENDED_CHARS = new Set('\f^{}\\[~]|€');
+
+// Look-alikes that silently switch a message to UCS-2
+const GSM_REPLACEMENTS: Record<string, string> = {
+  '\u2018': "'",
+  '\u2019': "'",
+  '\u201A': "'",
+  '\u2032': "'",
+  '\u00B4': "'",
+  '\u201C': '"',
+  '\u201D': '"',
+  '\u201E': '"',
+  '\u2033': '"',
+  '\u2013': '-',
+  '\u2014': '-',
+  '\u2212': '-',
+  '\u2026': '...',
+  '\u2022': '-',
+  '\u00A0': ' ',
+  '\u2002': ' ',
+  '\u2003': ' ',
+  '\u2009': ' ',
+  '\u200B': '',
+  '\uFEFF': '',
+  '\t': ' ',
+};
 
 // Required opt-out keywords (at least one must be mentioned)
 const STOP_KEYWORDS = ['STOP', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
@@ -83,9 +177,13 @@ export function runComplianceChecks(
 ): ComplianceCheckResult {
   const {
     orgName,
-    maxCharacters = DEFAULT_MAX_SMS_LENGTH,
+    maxCharacters,
+    maxSegments = DEFAULT_MAX_SEGMENTS,
     includeOptOutInLimit = true,
-    strictMode = false
+    strictMode = false,
+    mediaUrls,
+    costPerSegment,
+    mmsCost,
   } = options;
 
   const issues: string[] = [];
@@ -93,46 +191,53 @@ export function runComplianceChecks(
   const riskFlags: string[] = [];
   const sensitiveClaims: string[] = [];
   
-  // Calculate effective character limit
-  const effectiveLimit = includeOptOutInLimit ? maxCharacters : maxCharacters + OPT_OUT_LENGTH;
+  // Carriers bill the text as sent, so the opt-out counts unless the caller
+  // accounts for it separately
   const messageWithOptOut = message + ' ' + OPT_OUT_TEXT;
-  const charCount = messageWithOptOut.length;
+  const billedText = includeOptOutInLimit ? messageWithOptOut : message;
+  const sms = analyzeSmsSegments(billedText, { mediaUrls, costPerSegment, mmsCost });
 
-  // 1. Check character limit
+  // 1. Check segment limit. Capacity depends on the encoding: one curly quote
+  // or emoji drops a single segment from 160 to 70 characters. MMS with
+  // media isn't segmented.
+  const segmentCapacity = sms.mms_reason === 'media' ? MMS_MAX_CHARACTERS : smsCapacity(sms.encoding, maxSegments);
+  const effectiveLimit = maxCharacters !== undefined ? Math.min(maxCharacters, segmentCapacity) : segmentCapacity;
+  const charCount = sms.units;
   const withinCharLimit = charCount <= effectiveLimit;
   if (!withinCharLimit) {
-    issues.push(`Message exceeds ${effectiveLimit} character limit (${charCount} chars)`);
+    issues.push(sms.mms_reason === 'media'
+      ? `Message exceeds ${effectiveLimit} character MMS limit (${charCount} chars)`
+      : `Message is ${sms.segments} ${sms.encoding} segments (${charCount} chars), over the ${effectiveLimit} character limit for ${maxSegments} segment${maxSegments === 1 ? '' : 's'}`);
   }
 
-  // 2. Check for sender identification
-  let hasSenderId = false;
-  if (orgName) {
-    const orgNameLower = orgName.toLowerCase();
-    const messageLower = message.toLowerCase();
-    
-    // Check if org name or abbreviation appears in message
-    hasSenderId = messageLower.includes(orgNameLower) ||
-      orgNameLower.split(' ').some(word => 
-        word.length > 2 && messageLower.includes(word)
-      );
-  } else {
-    // Without org name, look for common sender patterns
-    hasSenderId = /\b(from|team|campaign|org|committee)\b/i.test(message);
+  const gsmSuggestion = suggestGsmReplacements(billedText, { costPerSegment, mmsCost, mediaUrls });
+  if (sms.encoding === 'UCS-2') {
+    warnings.push(
+      `Non-GSM characters (${sms.non_gsm_characters.join(' ')}) switch the message to UCS-2: ${UCS2_SINGLE_SEGMENT} chars per segment instead of ${GSM_SINGLE_SEGMENT}`
+    );
   }
-  
+  if (gsmSuggestion) {
+    warnings.push(
+      `Suggested: replace ${gsmSuggestion.replacements.map(r => r.from).join(' ')} with GSM characters (${gsmSuggestion.segments_before} -> ${gsmSuggestion.segments_after} segments)`
+    );
+  }
+  if (sms.is_mms) {
+    warnings.push(sms.mms_reason === 'media'
+      ? 'Message has media attached and will be sent as MMS'
+      : `Message is ${sms.segments} segments and will likely be converted to MMS`);
+  }
+
+  // 2. Check for sender identification
+  const hasSenderId = hasSenderIdentification(message, orgName);
   if (!hasSenderId) {
     warnings.push('Message may lack clear sender identification');
   }
 
   // 3. Check for opt-out language
-  const stopKeywordsFound = STOP_KEYWORDS.filter(kw => 
-    message.toUpperCase().includes(kw)
-  );
+  const stopKeywordsFound = findStopKeywords(message);
   
   // Opt-out will be appended, so we check if it's already there
-  const hasStopLanguage = stopKeywordsFound.length > 0 || 
-    message.toLowerCase().includes('opt out') ||
-    message.toLowerCase().includes('unsubscribe');
+  const hasStopLanguage = hasOptOutLanguage(message);
   
   // Note: We append opt-out automatically, so this is informational
   if (!hasStopLanguage) {
@@ -191,13 +296,163 @@ export function runComplianceChecks(
       sensitive_claims_detected: sensitiveClaims,
       risk_flags: riskFlags,
       character_count: charCount,
-      character_limit: effectiveLimit
+      character_limit: effectiveLimit,
+      encoding: sms.encoding,
+      segment_count: sms.segments,
+      segment_limit: maxSegments,
+      non_gsm_characters: sms.non_gsm_characters,
+      is_mms: sms.is_mms,
+      estimated_cost: sms.estimated_cost
     },
+    gsm_suggestion: gsmSuggestion,
     issues,
     warnings
   };
 }
 
+// ============================================================================
+// Sender & Opt-out Detection
+// ============================================================================
+
+/**
+ * Org name (or a word of it) in the message, or a generic sender phrase when
+ * the org name isn't known.
+ */
+export function hasSenderIdentification(message: string, orgName?: string): boolean {
+  const messageLower = message.toLowerCase();
+  if (orgName) {
+    const orgNameLower = orgName.toLowerCase();
+    // Check if org name or abbreviation appears in message
+    return messageLower.includes(orgNameLower) ||
+      orgNameLower.split(' ').some(word =>
+        word.length > 2 && messageLower.includes(word)
+      );
+  }
+  // Without org name, look for common sender patterns
+  return /\b(from|team|campaign|org|committee)\b/i.test(message);
+}
+
+// Whole words only, so "Friends" doesn't count as END
+export function findStopKeywords(message: string): string[] {
+  return STOP_KEYWORDS.filter(kw => new RegExp(`\\b${kw}\\b`, 'i').test(message));
+}
+
+export function hasOptOutLanguage(message: string): boolean {
+  const lower = message.toLowerCase();
+  return findStopKeywords(message).length > 0 ||
+    lower.includes('opt out') ||
+    lower.includes('unsubscribe');
+}
+
+// ============================================================================
+// SMS Encoding & Segments
+// ============================================================================
+
+function gsmUnits(char: string): number | null {
+  if (GSM_BASIC_CHARS.has(char)) return 1;
+  if (GSM_EXTENDED_CHARS.has(char)) return 2;
+  return null;
+}
+
+/**
+ * Characters that force UCS-2, in order of first appearance.
+ */
+export function findNonGsmCharacters(text: string): string[] {
+  const found = new Set<string>();
+  for (const char of text) {
+    if (gsmUnits(char) === null) found.add(char);
+  }
+  return Array.from(found);
+}
+
+export function detectSmsEncoding(text: string): SmsEncoding {
+  return findNonGsmCharacters(text).length > 0 ? 'UCS-2' : 'GSM-7';
+}
+
+/**
+ * Characters that fit in `segments` segments of the given encoding.
+ */
+export function smsCapacity(encoding: SmsEncoding, segments: number): number {
+  if (segments <= 1) return encoding === 'GSM-7' ? GSM_SINGLE_SEGMENT : UCS2_SINGLE_SEGMENT;
+  return (encoding === 'GSM-7' ? GSM_MULTI_SEGMENT : UCS2_MULTI_SEGMENT) * segments;
+}
+
+/**
+ * Encoding, segment count and estimated per-recipient cost for a message.
+ * Segments are split the way handsets do: a GSM escape pair or a UTF-16
+ * surrogate pair never straddles two segments.
+ */
+export function analyzeSmsSegments(text: string, options: SmsAnalysisOptions = {}): SmsSegmentInfo {
+  const {
+    mediaUrls = [],
+    costPerSegment = DEFAULT_SEGMENT_COST,
+    mmsCost = DEFAULT_MMS_COST,
+    mmsSegmentThreshold = DEFAULT_MMS_SEGMENT_THRESHOLD,
+  } = options;
+
+  const nonGsm = findNonGsmCharacters(text);
+  const encoding: SmsEncoding = nonGsm.length > 0 ? 'UCS-2' : 'GSM-7';
+  const sizes = Array.from(text, char => (encoding === 'GSM-7' ? gsmUnits(char) ?? 1 : char.length));
+  const units = sizes.reduce((sum, n) => sum + n, 0);
+
+  let segments = units > 0 ? 1 : 0;
+  let perSegment = smsCapacity(encoding, 1);
+  if (units > perSegment) {
+    perSegment = encoding === 'GSM-7' ? GSM_MULTI_SEGMENT : UCS2_MULTI_SEGMENT;
+    let used = 0;
+    for (const size of sizes) {
+      if (used + size > perSegment) {
+        segments++;
+        used = 0;
+      }
+      used += size;
+    }
+  }
+
+  const mmsReason = mediaUrls.length > 0 ? 'media' : segments > mmsSegmentThreshold ? 'length' : null;
+  const isMms = mmsReason !== null;
+
+  return {
+    encoding,
+    units,
+    segments,
+    units_per_segment: perSegment,
+    non_gsm_characters: nonGsm,
+    is_mms: isMms,
+    mms_reason: mmsReason,
+    estimated_cost: Number((isMms ? mmsCost : segments * costPerSegment).toFixed(4)),
+  };
+}
+
+/**
+ * Replace typographic look-alikes (curly quotes, dashes, ellipsis, odd
+ * spaces) with GSM characters. Returns null when there is nothing to replace.
+ */
+export function suggestGsmReplacements(text: string, options: SmsAnalysisOptions = {}): GsmSuggestion | null {
+  const counts = new Map<string, number>();
+  let rewritten = '';
+  for (const char of text) {
+    if (gsmUnits(char) === null && char in GSM_REPLACEMENTS) {
+      counts.set(char, (counts.get(char) || 0) + 1);
+      rewritten += GSM_REPLACEMENTS[char];
+    } else {
+      rewritten += char;
+    }
+  }
+  if (counts.size === 0) return null;
+
+  const before = analyzeSmsSegments(text, options);
+  const after = analyzeSmsSegments(rewritten, options);
+
+  return {
+    text: rewritten,
+    replacements: Array.from(counts, ([from, count]) => ({ from, to: GSM_REPLACEMENTS[from], count })),
+    remaining_non_gsm: after.non_gsm_characters,
+    segments_before: before.segments,
+    segments_after: after.segments,
+  };
+}
+
 // ============================================================================
 // Helper: Clean message for compliance
 // ============================================================================
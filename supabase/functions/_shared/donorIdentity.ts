@@ -0,0 +1,465 @@
+/**
+ * Supabase-backed donor identity graph (see identityGraph.ts for the rules).
+ *
+ * - donor_persons / donor_person_identifiers: the resolved graph
+ * - donor_identity_overrides: manual merges and splits, replayed on every resolve
+ * - donor_identity_events: audit trail of merges, splits and unmerges
+ *
+ * resolve-donor-identities runs resolveOrganizationIdentities nightly and
+ * exposes the manual merge / unmerge actions; calculate-donor-ltv and
+ * populate-donor-journeys key their output on the person index.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  createIdentifierHasher,
+  parseIdentifierKey,
+  resolveIdentities,
+  type IdentityOverride,
+  type IdentityRecord,
+} from "./identityGraph.ts";
+import { fetchAll, inBatches } from "./paging.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface IdentityResolutionSummary {
+  identifiers: number;
+  persons: number;
+  persons_created: number;
+  identifiers_changed: number;
+  merges: number;
+  splits: number;
+  demographics_linked: number;
+}
+
+export interface IdentityActor {
+  userId?: string | null;
+  reason?: string | null;
+}
+
+/** Maps raw donor records to their person id */
+export interface PersonIndex {
+  personFor(record: IdentityRecord): Promise<string | null>;
+  size: number;
+}
+
+/** identifier key -> person id for an organization */
+export async function loadIdentifierAssignments(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<Map<string, string>> {
+  const rows = await fetchAll<{ identifier_type: string; identifier_hash: string; person_id: string }>((from, to) =>
+    supabase
+      .from('donor_person_identifiers')
+      .select('identifier_type, identifier_hash, person_id')
+      .eq('organization_id', organizationId)
+      .order('id')
+      .range(from, to)
+  );
+  return new Map(rows.map(row => [`${row.identifier_type}:${row.identifier_hash}`, row.person_id]));
+}
+
+/**
+ * Person index for a set of records. If any record has no person yet
+ * (new since the last nightly run), resolves the organization first.
+ */
+export async function loadPersonIndex(
+  supabase: SupabaseClient,
+  organizationId: string,
+  records: IdentityRecord[]
+): Promise<PersonIndex> {
+  const identifiersFor = createIdentifierHasher();
+  let assignments = await loadIdentifierAssignments(supabase, organizationId);
+
+  for (const record of records) {
+    const keys = await identifiersFor(record);
+    if (keys.length > 0 && !keys.some(key => assignments.has(key))) {
+      console.log(`[IDENTITY] Unresolved donors for org ${organizationId}; resolving`);
+      await resolveOrganizationIdentities(supabase, organizationId);
+      assignments = await loadIdentifierAssignments(supabase, organizationId);
+      break;
+    }
+  }
+
+  return {
+    size: new Set(assignments.values()).size,
+    async personFor(record) {
+      for (const key of await identifiersFor(record)) {
+        const personId = assignments.get(key);
+        if (personId) return personId;
+      }
+      return null;
+    },
+  };
+}
+
+async function loadOverrides(supabase: SupabaseClient, organizationId: string): Promise<IdentityOverride[]> {
+  const rows = await fetchAll<{ override_type: 'merge' | 'split'; identifier_a: string; identifier_b: string }>(
+    (from, to) =>
+      supabase
+        .from('donor_identity_overrides')
+        .select('override_type, identifier_a, identifier_b')
+        .eq('organization_id', organizationId)
+        .order('created_at')
+        .range(from, to)
+  );
+  return rows.map(row => ({ type: row.override_type, a: row.identifier_a, b: row.identifier_b }));
+}
+
+async function syncDependentTables(supabase: SupabaseClient, organizationId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('sync_donor_person_ids', { _organization_id: organizationId });
+  if (error) throw new Error(`sync_donor_person_ids failed: ${error.message}`);
+  return (data as number) || 0;
+}
+
+/**
+ * Rebuilds the organization's identity graph from ActBlue transactions,
+ * donor_identity_links (email <-> phone) and recent Switchboard contacts.
+ */
+export async function resolveOrganizationIdentities(
+  supabase: SupabaseClient,
+  organizationId: string,
+  options: { smsDaysBack?: number } = {}
+): Promise<IdentityResolutionSummary> {
+  const identifiersFor = createIdentifierHasher();
+  const observations: string[][] = [];
+  const sources = new Map<string, string>();
+  const observe = (keys: string[], source: string) => {
+    if (keys.length === 0) return;
+    observations.push(keys);
+    keys.forEach(key => { if (!sources.has(key)) sources.set(key, source); });
+  };
+
+  const transactions = await fetchAll<{
+    donor_email: string | null;
+    phone: string | null;
+    first_name: string | null;
+    last_name: string | null;
+    zip: string | null;
+    actblue_donor_id: string | null;
+  }>((from, to) =>
+    supabase
+      .from('actblue_transactions')
+      .select('donor_email, phone, first_name, last_name, zip, actblue_donor_id')
+      .eq('organization_id', organizationId)
+      .order('transaction_date', { ascending: true })
+      .range(from, to)
+  );
+  for (const tx of transactions) {
+    observe(await identifiersFor({
+      email: tx.donor_email,
+      phone: tx.phone,
+      firstName: tx.first_name,
+      lastName: tx.last_name,
+      zip: tx.zip,
+      actblueDonorId: tx.actblue_donor_id,
+    }), 'actblue');
+  }
+
+  const links = await fetchAll<{ email_hash: string | null; phone_hash: string | null }>((from, to) =>
+    supabase
+      .from('donor_identity_links')
+      .select('email_hash, phone_hash')
+      .eq('organization_id', organizationId)
+      .order('id')
+      .range(from, to)
+  );
+  for (const link of links) {
+    const keys = [];
+    if (link.email_hash) keys.push(`email:${link.email_hash}`);
+    if (link.phone_hash) keys.push(`phone:${link.phone_hash}`);
+    observe(keys, 'identity_link');
+  }
+
+  const smsSince = new Date(Date.now() - (options.smsDaysBack ?? 90) * 24 * 60 * 60 * 1000).toISOString();
+  const smsContacts = await fetchAll<{ phone_hash: string | null }>((from, to) =>
+    supabase
+      .from('sms_events')
+      .select('phone_hash')
+      .eq('organization_id', organizationId)
+      .gte('occurred_at', smsSince)
+      .not('phone_hash', 'is', null)
+      .order('id')
+      .range(from, to)
+  );
+  for (const phoneHash of new Set(smsContacts.map(row => row.phone_hash))) {
+    observe(await identifiersFor({ phoneHash }), 'switchboard');
+  }
+
+  const existing = await loadIdentifierAssignments(supabase, organizationId);
+  const overrides = await loadOverrides(supabase, organizationId);
+  const result = resolveIdentities({
+    observations,
+    existing,
+    overrides,
+    newPersonId: () => crypto.randomUUID(),
+  });
+
+  const now = new Date().toISOString();
+  await inBatches(result.created, batch =>
+    supabase.from('donor_persons').insert(batch.map(id => ({ id, organization_id: organizationId })))
+  );
+
+  await inBatches(result.changed, batch =>
+    supabase.from('donor_person_identifiers').upsert(
+      batch.map(key => {
+        const { type, hash } = parseIdentifierKey(key);
+        return {
+          organization_id: organizationId,
+          person_id: result.assignments.get(key)!,
+          identifier_type: type,
+          identifier_hash: hash,
+          source: sources.get(key) ?? 'actblue',
+          updated_at: now,
+        };
+      }),
+      { onConflict: 'organization_id,identifier_type,identifier_hash' }
+    )
+  );
+
+  for (const merge of result.merges) {
+    const { error } = await supabase
+      .from('donor_persons')
+      .update({ merged_into_person_id: merge.survivor, updated_at: now })
+      .in('id', merge.merged);
+    if (error) throw new Error(error.message);
+  }
+
+  const events = [
+    ...result.merges.map(merge => ({
+      organization_id: organizationId,
+      event_type: 'merge',
+      person_id: merge.survivor,
+      related_person_ids: merge.merged,
+      identifiers: merge.identifiers,
+      reason: 'Linked by shared identifiers',
+    })),
+    ...result.splits.map(split => ({
+      organization_id: organizationId,
+      event_type: 'split',
+      person_id: split.from,
+      related_person_ids: [split.to],
+      identifiers: split.identifiers,
+      reason: 'Separated by a manual unmerge',
+    })),
+  ];
+  await inBatches(events, batch => supabase.from('donor_identity_events').insert(batch));
+
+  const demographicsLinked = await syncDependentTables(supabase, organizationId);
+
+  return {
+    identifiers: result.assignments.size,
+    persons: new Set(result.assignments.values()).size,
+    persons_created: result.created.length,
+    identifiers_changed: result.changed.length,
+    merges: result.merges.length,
+    splits: result.splits.length,
+    demographics_linked: demographicsLinked,
+  };
+}
+
+async function loadPersonIdentifiers(supabase: SupabaseClient, organizationId: string, personIds: string[]) {
+  const { data, error } = await supabase
+    .from('donor_person_identifiers')
+    .select('id, person_id, identifier_type, identifier_hash')
+    .eq('organization_id', organizationId)
+    .in('person_id', personIds);
+  if (error) throw new Error(error.message);
+  return ((data || []) as Array<{ id: string; person_id: string; identifier_type: string; identifier_hash: string }>)
+    .map(row => ({ ...row, key: `${row.identifier_type}:${row.identifier_hash}` }));
+}
+
+async function assertActivePersons(supabase: SupabaseClient, organizationId: string, personIds: string[]) {
+  const { data, error } = await supabase
+    .from('donor_persons')
+    .select('id, merged_into_person_id')
+    .eq('organization_id', organizationId)
+    .in('id', personIds);
+  if (error) throw new Error(error.message);
+  const active = new Set(((data || []) as Array<{ id: string; merged_into_person_id: string | null }>)
+    .filter(row => !row.merged_into_person_id)
+    .map(row => row.id));
+  const missing = personIds.filter(id => !active.has(id));
+  if (missing.length > 0) {
+    throw new Error(`Persons not found or already merged: ${missing.join(', ')}`);
+  }
+}
+
+/**
+ * Manually merges persons into survivorId. Records merge overrides so the
+ * next resolve keeps them together, and clears splits between them.
+ */
+export async function mergePersons(
+  supabase: SupabaseClient,
+  organizationId: string,
+  survivorId: string,
+  mergedIds: string[],
+  actor: IdentityActor = {}
+) {
+  const others = Array.from(new Set(mergedIds.filter(id => id !== survivorId)));
+  if (others.length === 0) throw new Error('merge needs at least one other person');
+  await assertActivePersons(supabase, organizationId, [survivorId, ...others]);
+
+  const identifiers = await loadPersonIdentifiers(supabase, organizationId, [survivorId, ...others]);
+  const survivorKeys = identifiers.filter(row => row.person_id === survivorId).map(row => row.key);
+  const moved = identifiers.filter(row => row.person_id !== survivorId);
+  if (survivorKeys.length === 0 || moved.length === 0) throw new Error('Persons have no identifiers to merge');
+
+  const now = new Date().toISOString();
+  const allKeys = identifiers.map(row => row.key);
+  const { error: clearError } = await supabase
+    .from('donor_identity_overrides')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('override_type', 'split')
+    .in('identifier_a', allKeys)
+    .in('identifier_b', allKeys);
+  if (clearError) throw new Error(clearError.message);
+
+  const anchors = others
+    .map(id => moved.find(row => row.person_id === id)?.key)
+    .filter((key): key is string => !!key);
+  const { error: overrideError } = await supabase.from('donor_identity_overrides').upsert(
+    anchors.map(key => ({
+      organization_id: organizationId,
+      override_type: 'merge',
+      identifier_a: survivorKeys[0],
+      identifier_b: key,
+      created_by: actor.userId ?? null,
+      reason: actor.reason ?? null,
+    })),
+    { onConflict: 'organization_id,override_type,identifier_a,identifier_b', ignoreDuplicates: true }
+  );
+  if (overrideError) throw new Error(overrideError.message);
+
+  const { error: moveError } = await supabase
+    .from('donor_person_identifiers')
+    .update({ person_id: survivorId, updated_at: now })
+    .in('id', moved.map(row => row.id));
+  if (moveError) throw new Error(moveError.message);
+
+  const { error: personError } = await supabase
+    .from('donor_persons')
+    .update({ merged_into_person_id: survivorId, updated_at: now })
+    .in('id', others);
+  if (personError) throw new Error(personError.message);
+
+  const { error: eventError } = await supabase.from('donor_identity_events').insert({
+    organization_id: organizationId,
+    event_type: 'merge',
+    person_id: survivorId,
+    related_person_ids: others,
+    identifiers: moved.map(row => row.key),
+    is_manual: true,
+    actor_user_id: actor.userId ?? null,
+    reason: actor.reason ?? null,
+  });
+  if (eventError) throw new Error(eventError.message);
+
+  await syncDependentTables(supabase, organizationId);
+  return { person_id: survivorId, merged_person_ids: others, identifiers_moved: moved.length };
+}
+
+/**
+ * Manually splits identifiers off a person. Pass restorePersonId to undo an
+ * earlier merge (the identifiers it brought are moved back and the person
+ * is reactivated), or identifiers to split them into a new person. Split
+ * overrides keep both sides apart on future resolves.
+ */
+export async function unmergePerson(
+  supabase: SupabaseClient,
+  organizationId: string,
+  personId: string,
+  target: { restorePersonId?: string; identifiers?: string[] },
+  actor: IdentityActor = {}
+) {
+  await assertActivePersons(supabase, organizationId, [personId]);
+  const current = await loadPersonIdentifiers(supabase, organizationId, [personId]);
+
+  let movedKeys: Set<string>;
+  if (target.restorePersonId) {
+    const { data: mergeEvent, error } = await supabase
+      .from('donor_identity_events')
+      .select('identifiers')
+      .eq('organization_id', organizationId)
+      .eq('event_type', 'merge')
+      .eq('person_id', personId)
+      .contains('related_person_ids', [target.restorePersonId])
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw new Error(error.message);
+    if (!mergeEvent) throw new Error(`No merge of ${target.restorePersonId} into ${personId} to undo`);
+    movedKeys = new Set((mergeEvent as { identifiers: string[] }).identifiers);
+  } else {
+    movedKeys = new Set(target.identifiers || []);
+  }
+
+  const moved = current.filter(row => movedKeys.has(row.key));
+  const remaining = current.filter(row => !movedKeys.has(row.key));
+  if (moved.length === 0) throw new Error('None of those identifiers belong to this person');
+  if (remaining.length === 0) throw new Error('Cannot move every identifier off a person');
+
+  const now = new Date().toISOString();
+  let newPersonId = target.restorePersonId;
+  if (newPersonId) {
+    const { error } = await supabase
+      .from('donor_persons')
+      .update({ merged_into_person_id: null, updated_at: now })
+      .eq('organization_id', organizationId)
+      .eq('id', newPersonId);
+    if (error) throw new Error(error.message);
+  } else {
+    newPersonId = crypto.randomUUID();
+    const { error } = await supabase
+      .from('donor_persons')
+      .insert({ id: newPersonId, organization_id: organizationId });
+    if (error) throw new Error(error.message);
+  }
+
+  const allKeys = current.map(row => row.key);
+  const { error: clearError } = await supabase
+    .from('donor_identity_overrides')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('override_type', 'merge')
+    .in('identifier_a', allKeys)
+    .in('identifier_b', allKeys);
+  if (clearError) throw new Error(clearError.message);
+
+  const splits = moved.flatMap(a => remaining.map(b => ({
+    organization_id: organizationId,
+    override_type: 'split',
+    identifier_a: a.key,
+    identifier_b: b.key,
+    created_by: actor.userId ?? null,
+    reason: actor.reason ?? null,
+  })));
+  await inBatches(splits, batch =>
+    supabase.from('donor_identity_overrides').upsert(batch, {
+      onConflict: 'organization_id,override_type,identifier_a,identifier_b',
+      ignoreDuplicates: true,
+    })
+  );
+
+  const { error: moveError } = await supabase
+    .from('donor_person_identifiers')
+    .update({ person_id: newPersonId, updated_at: now })
+    .in('id', moved.map(row => row.id));
+  if (moveError) throw new Error(moveError.message);
+
+  const { error: eventError } = await supabase.from('donor_identity_events').insert({
+    organization_id: organizationId,
+    event_type: 'unmerge',
+    person_id: personId,
+    related_person_ids: [newPersonId],
+    identifiers: moved.map(row => row.key),
+    is_manual: true,
+    actor_user_id: actor.userId ?? null,
+    reason: actor.reason ?? null,
+  });
+  if (eventError) throw new Error(eventError.message);
+
+  await syncDependentTables(supabase, organizationId);
+  return { person_id: personId, new_person_id: newPersonId, identifiers_moved: moved.length };
+}
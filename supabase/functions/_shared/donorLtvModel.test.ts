@@ -0,0 +1,178 @@
+/**
+ * Unit tests for the BG/NBD + Gamma-Gamma donor LTV model
+ *
+ * Run with: deno test supabase/functions/_shared/donorLtvModel.test.ts
+ */
+
+import { assert, assertAlmostEquals, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  buildGivingHistory,
+  createRng,
+  evaluateBacktest,
+  expectedDonations,
+  expectedOccasionValue,
+  fitBgNbd,
+  fitGammaGamma,
+  hyp2f1,
+  lgamma,
+  predictDonor,
+  probabilityAlive,
+  sampleGamma,
+  simulateDonorValue,
+  type GivingHistory,
+  type LtvModelParams,
+} from "./donorLtvModel.ts";
+
+const day = (n: number) => new Date(Date.UTC(2025, 0, 1) + n * 24 * 60 * 60 * 1000);
+
+/** Simulates donors from known BG/NBD + Gamma-Gamma parameters */
+function simulateHistories(params: LtvModelParams, donors: number, seed: number): GivingHistory[] {
+  const rng = createRng(seed);
+  const { r, alpha, a, b } = params.bgnbd;
+  const { p, q, gamma } = params.gammaGamma;
+  const histories: GivingHistory[] = [];
+
+  for (let i = 0; i < donors; i++) {
+    const T = 20 + rng() * 60;
+    const lambda = sampleGamma(rng, r, alpha);
+    const x1 = sampleGamma(rng, a, 1);
+    const dropout = x1 / (x1 + sampleGamma(rng, b, 1));
+    const nu = sampleGamma(rng, q, gamma);
+
+    let t = 0;
+    let x = 0;
+    let tx = 0;
+    let spend = 0;
+    for (;;) {
+      if (rng() < dropout && x > 0) break;
+      t += -Math.log(1 - rng()) / lambda;
+      if (t > T) break;
+      x++;
+      tx = t;
+      spend += sampleGamma(rng, p, nu);
+    }
+    histories.push({ x, tx, T, monetary: x > 0 ? spend / x : 0, avgOccasionValue: x > 0 ? spend / x : 0 });
+  }
+  return histories;
+}
+
+const TRUE_PARAMS: LtvModelParams = {
+  bgnbd: { r: 0.5, alpha: 10, a: 0.8, b: 2.5 },
+  gammaGamma: { p: 4, q: 3, gamma: 20 },
+};
+
+// ============================================================================
+// Math helpers
+// ============================================================================
+
+Deno.test("lgamma matches known values", () => {
+  assertAlmostEquals(lgamma(1), 0, 1e-10);
+  assertAlmostEquals(lgamma(5), Math.log(24), 1e-10);
+  assertAlmostEquals(lgamma(0.5), Math.log(Math.sqrt(Math.PI)), 1e-10);
+  assertAlmostEquals(lgamma(100.5), 361.4355404677776, 1e-8);
+});
+
+Deno.test("hyp2f1 matches closed forms, including near z = 1", () => {
+  // 2F1(1, 1; 2; z) = -ln(1 - z) / z
+  for (const z of [0.1, 0.5, 0.95]) {
+    assertAlmostEquals(hyp2f1(1, 1, 2, z), -Math.log(1 - z) / z, 1e-8);
+  }
+  // 2F1(a, b; b; z) = (1 - z)^-a
+  assertAlmostEquals(hyp2f1(2.5, 3, 3, 0.99), Math.pow(0.01, -2.5), 1e-2);
+});
+
+// ============================================================================
+// Giving histories
+// ============================================================================
+
+Deno.test("buildGivingHistory collapses bursts into occasions and respects the cutoff", () => {
+  const history = buildGivingHistory([
+    { date: day(0), amount: 25 },
+    { date: day(2), amount: 10 }, // same deadline push as day 0
+    { date: day(70), amount: 50 },
+    { date: day(140), amount: 30 },
+    { date: day(400), amount: 500 }, // after the cutoff
+  ], day(210));
+
+  assertEquals(history!.x, 2);
+  assertAlmostEquals(history!.tx, 140 / 7, 1e-9);
+  assertAlmostEquals(history!.T, 210 / 7, 1e-9);
+  assertEquals(history!.monetary, 40);
+  assertAlmostEquals(history!.avgOccasionValue, (35 + 50 + 30) / 3, 1e-9);
+
+  assertEquals(buildGivingHistory([{ date: day(300), amount: 5 }], day(210)), null);
+});
+
+// ============================================================================
+// BG/NBD
+// ============================================================================
+
+Deno.test("probabilityAlive drops for donors who went quiet after frequent giving", () => {
+  const params = TRUE_PARAMS.bgnbd;
+  const oneTimer = { x: 0, tx: 0, T: 52, monetary: 0, avgOccasionValue: 25 };
+  const active = { x: 6, tx: 50, T: 52, monetary: 25, avgOccasionValue: 25 };
+  const lapsed = { x: 6, tx: 10, T: 52, monetary: 25, avgOccasionValue: 25 };
+
+  assertEquals(probabilityAlive(params, oneTimer), 1);
+  assert(probabilityAlive(params, active) > 0.8);
+  assert(probabilityAlive(params, lapsed) < 0.2);
+  assert(expectedDonations(params, active, 52) > expectedDonations(params, lapsed, 52));
+});
+
+Deno.test("fitBgNbd and fitGammaGamma recover simulated parameters", () => {
+  const histories = simulateHistories(TRUE_PARAMS, 3000, 7);
+  const bg = fitBgNbd(histories).params;
+  const gg = fitGammaGamma(histories).params;
+
+  // Compare what matters: the implied population rate and spend
+  const trueRate = TRUE_PARAMS.bgnbd.r / TRUE_PARAMS.bgnbd.alpha;
+  assertAlmostEquals(bg.r / bg.alpha, trueRate, trueRate * 0.2);
+  const trueSpend = TRUE_PARAMS.gammaGamma.p * TRUE_PARAMS.gammaGamma.gamma / (TRUE_PARAMS.gammaGamma.q - 1);
+  assertAlmostEquals(gg.p * gg.gamma / (gg.q - 1), trueSpend, trueSpend * 0.2);
+});
+
+// ============================================================================
+// Prediction
+// ============================================================================
+
+Deno.test("simulated draws agree with closed-form expectations", () => {
+  const h = { x: 3, tx: 30, T: 40, monetary: 45, avgOccasionValue: 45 };
+  const prediction = predictDonor(TRUE_PARAMS, h, [90, 365]);
+  const draws = simulateDonorValue(TRUE_PARAMS, h, [90, 365], 20000, createRng(1));
+
+  const mean = (values: number[]) => values.reduce((s, v) => s + v, 0) / values.length;
+  assertAlmostEquals(mean(draws[365]), prediction.expectedValue[365], prediction.expectedValue[365] * 0.05);
+  assertAlmostEquals(mean(draws[90]), prediction.expectedValue[90], prediction.expectedValue[90] * 0.05);
+  assert(draws[90].every((v, i) => v <= draws[365][i] + 1e-9));
+});
+
+Deno.test("expectedOccasionValue shrinks toward the population mean", () => {
+  const gg = TRUE_PARAMS.gammaGamma;
+  const population = gg.p * gg.gamma / (gg.q - 1);
+  const newDonor = { x: 0, tx: 0, T: 4, monetary: 0, avgOccasionValue: 500 };
+  const bigRepeat = { x: 10, tx: 40, T: 52, monetary: 500, avgOccasionValue: 500 };
+
+  assertAlmostEquals(expectedOccasionValue(gg, newDonor), population, 1e-9);
+  const shrunk = expectedOccasionValue(gg, bigRepeat);
+  assert(shrunk > population && shrunk < 500);
+});
+
+// ============================================================================
+// Backtest
+// ============================================================================
+
+Deno.test("evaluateBacktest scores calibration, aggregate error and interval coverage", () => {
+  const perfect = evaluateBacktest(
+    Array.from({ length: 100 }, (_, i) => ({ predicted: i, actual: i, low: i - 1, high: i + 1 }))
+  );
+  assertEquals(perfect.calibration_error, 0);
+  assertEquals(perfect.aggregate_error_pct, 0);
+  assertEquals(perfect.interval_coverage, 1);
+  assertEquals(perfect.bins.length, 10);
+
+  const doubled = evaluateBacktest(Array.from({ length: 100 }, (_, i) => ({ predicted: 2 * i, actual: i })));
+  assertAlmostEquals(doubled.calibration_error!, 1, 1e-9);
+  assertAlmostEquals(doubled.aggregate_error_pct!, 1, 1e-9);
+  assertEquals(doubled.interval_coverage, null);
+});
@@ -0,0 +1,528 @@
+/**
+ * Probabilistic donor lifetime value: BG/NBD + Gamma-Gamma.
+ *
+ * - BG/NBD (Fader, Hardie & Lee 2005): while "alive" a donor gives at a Poisson
+ *   rate λ ~ Gamma(r, α); after each gift they lapse for good with probability
+ *   p ~ Beta(a, b). Gives P(alive) and expected gifts over any horizon.
+ * - Gamma-Gamma (Fader & Hardie 2013): gift size, independent of frequency.
+ *
+ * Adapted to political giving: gifts within EPISODE_GAP_DAYS of the previous one
+ * collapse into one giving occasion (a deadline push or match day produces a
+ * burst of gifts that is one decision, not several), and occasion value is the
+ * sum of the burst. Time is measured in weeks.
+ *
+ * Prediction intervals come from simulating the posterior predictive: given a
+ * donor's history, (λ, p) conditional on being alive are independent
+ * Gamma(r + x, α + T) and Beta(a, b + x), so draws are exact rather than a
+ * normal approximation.
+ */
+
+export const BGNBD_MODEL_VERSION = 'bgnbd_gg_v1';
+export const EPISODE_GAP_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_DAYS = 7;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Donation {
+  date: Date;
+  amount: number;
+}
+
+/** RFM summary of one donor as of a cutoff, in weeks */
+export interface GivingHistory {
+  /** Repeat giving occasions (occasions after the first) */
+  x: number;
+  /** Weeks from first occasion to the last one */
+  tx: number;
+  /** Weeks from first occasion to the cutoff */
+  T: number;
+  /** Mean value of repeat occasions; 0 when x = 0 */
+  monetary: number;
+  /** Mean value of all occasions, first included */
+  avgOccasionValue: number;
+}
+
+export interface BgNbdParams {
+  r: number;
+  alpha: number;
+  a: number;
+  b: number;
+}
+
+export interface GammaGammaParams {
+  p: number;
+  q: number;
+  gamma: number;
+}
+
+export interface LtvModelParams {
+  bgnbd: BgNbdParams;
+  gammaGamma: GammaGammaParams;
+}
+
+export interface FitResult<P> {
+  params: P;
+  logLikelihood: number;
+  iterations: number;
+  converged: boolean;
+}
+
+// ============================================================================
+// Math helpers
+// ============================================================================
+
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/** ln Γ(x) for x > 0 (Lanczos, g = 7) */
+export function lgamma(x: number): number {
+  if (x < 0.5) {
+    // Reflection keeps accuracy for small arguments
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - lgamma(1 - x);
+  }
+  x -= 1;
+  let sum = 0.99999999999980993;
+  for (let i = 0; i < LANCZOS.length; i++) sum += LANCZOS[i] / (x + i + 1);
+  const t = x + LANCZOS.length - 0.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+function logAddExp(a: number, b: number): number {
+  const max = Math.max(a, b);
+  if (max === -Infinity) return -Infinity;
+  return max + Math.log(Math.exp(a - max) + Math.exp(b - max));
+}
+
+function hyp2f1Series(a: number, b: number, c: number, z: number, maxTerms: number): number {
+  let term = 1;
+  let sum = 1;
+  for (let k = 0; k < maxTerms; k++) {
+    term *= ((a + k) * (b + k)) / ((c + k) * (k + 1)) * z;
+    sum += term;
+    if (Math.abs(term) < 1e-12 * Math.abs(sum)) return sum;
+  }
+  return NaN;
+}
+
+/**
+ * Gauss hypergeometric 2F1(a, b; c; z) for 0 <= z < 1. Falls back to Euler's
+ * transformation when the direct series converges too slowly.
+ */
+export function hyp2f1(a: number, b: number, c: number, z: number, maxTerms = 20000): number {
+  const direct = hyp2f1Series(a, b, c, z, maxTerms);
+  if (Number.isFinite(direct)) return direct;
+  return Math.pow(1 - z, c - a - b) * hyp2f1Series(c - a, c - b, c, z, maxTerms);
+}
+
+/** Minimizes f with Nelder-Mead; good enough for 3-4 log-parameters */
+export function nelderMead(
+  f: (x: number[]) => number,
+  x0: number[],
+  options: { maxIterations?: number; tolerance?: number; step?: number } = {}
+): { x: number[]; fx: number; iterations: number; converged: boolean } {
+  const maxIterations = options.maxIterations ?? 500;
+  const tolerance = options.tolerance ?? 1e-8;
+  const step = options.step ?? 0.5;
+  const n = x0.length;
+
+  let simplex = [x0, ...x0.map((_, i) => x0.map((v, j) => (i === j ? v + step : v)))]
+    .map(x => ({ x, fx: f(x) }));
+
+  let iterations = 0;
+  for (; iterations < maxIterations; iterations++) {
+    simplex.sort((p, q) => p.fx - q.fx);
+    const best = simplex[0];
+    const worst = simplex[n];
+    if (Math.abs(worst.fx - best.fx) <= tolerance * (Math.abs(best.fx) + tolerance)) {
+      return { x: best.x, fx: best.fx, iterations, converged: true };
+    }
+
+    const centroid = x0.map((_, j) => simplex.slice(0, n).reduce((s, p) => s + p.x[j], 0) / n);
+    const along = (t: number) => centroid.map((c, j) => c + t * (worst.x[j] - c));
+
+    const reflected = along(-1);
+    const fr = f(reflected);
+    if (fr < best.fx) {
+      const expanded = along(-2);
+      const fe = f(expanded);
+      simplex[n] = fe < fr ? { x: expanded, fx: fe } : { x: reflected, fx: fr };
+    } else if (fr < simplex[n - 1].fx) {
+      simplex[n] = { x: reflected, fx: fr };
+    } else {
+      const contracted = fr < worst.fx ? along(-0.5) : along(0.5);
+      const fc = f(contracted);
+      if (fc < Math.min(fr, worst.fx)) {
+        simplex[n] = { x: contracted, fx: fc };
+      } else {
+        simplex = simplex.map((p, i) => {
+          if (i === 0) return p;
+          const x = p.x.map((v, j) => best.x[j] + 0.5 * (v - best.x[j]));
+          return { x, fx: f(x) };
+        });
+      }
+    }
+  }
+
+  simplex.sort((p, q) => p.fx - q.fx);
+  return { x: simplex[0].x, fx: simplex[0].fx, iterations, converged: false };
+}
+
+// ============================================================================
+// Random sampling (seeded, so runs are reproducible)
+// ============================================================================
+
+export type Rng = () => number;
+
+/** mulberry32 */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function sampleNormal(rng: Rng): number {
+  const u = 1 - rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+/** Gamma(shape, rate) via Marsaglia-Tsang */
+export function sampleGamma(rng: Rng, shape: number, rate: number): number {
+  if (shape < 1) {
+    return sampleGamma(rng, shape + 1, rate) * Math.pow(1 - rng(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = 1 - rng();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return (d * v) / rate;
+  }
+}
+
+export function sampleBeta(rng: Rng, a: number, b: number): number {
+  const x = sampleGamma(rng, a, 1);
+  const y = sampleGamma(rng, b, 1);
+  return x / (x + y);
+}
+
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+// ============================================================================
+// Giving histories
+// ============================================================================
+
+/**
+ * Collapses gifts into giving occasions and summarizes them as of `cutoff`.
+ * Returns null when the donor had not given before the cutoff.
+ */
+export function buildGivingHistory(
+  donations: Donation[],
+  cutoff: Date,
+  episodeGapDays = EPISODE_GAP_DAYS
+): GivingHistory | null {
+  const before = donations
+    .filter(d => d.date.getTime() <= cutoff.getTime())
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  if (before.length === 0) return null;
+
+  const occasions: Array<{ start: number; last: number; value: number }> = [];
+  for (const d of before) {
+    const t = d.date.getTime();
+    const current = occasions[occasions.length - 1];
+    if (current && t - current.last <= episodeGapDays * DAY_MS) {
+      current.value += d.amount;
+      current.last = t;
+    } else {
+      occasions.push({ start: t, last: t, value: d.amount });
+    }
+  }
+
+  const first = occasions[0].start;
+  const lastStart = occasions[occasions.length - 1].start;
+  const repeats = occasions.slice(1);
+  const toWeeks = (ms: number) => ms / DAY_MS / WEEK_DAYS;
+
+  return {
+    x: repeats.length,
+    tx: toWeeks(lastStart - first),
+    // A donor acquired on the cutoff day still gets a sliver of observation time
+    T: Math.max(toWeeks(cutoff.getTime() - first), 1 / WEEK_DAYS),
+    monetary: repeats.length > 0 ? repeats.reduce((s, o) => s + o.value, 0) / repeats.length : 0,
+    avgOccasionValue: occasions.reduce((s, o) => s + o.value, 0) / occasions.length,
+  };
+}
+
+// ============================================================================
+// BG/NBD
+// ============================================================================
+
+function bgNbdLogLikelihood(params: BgNbdParams, h: GivingHistory): number {
+  const { r, alpha, a, b } = params;
+  const { x, tx, T } = h;
+  const a1 = lgamma(r + x) - lgamma(r) + r * Math.log(alpha);
+  const a2 = lgamma(a + b) + lgamma(b + x) - lgamma(b) - lgamma(a + b + x);
+  const a3 = -(r + x) * Math.log(alpha + T);
+  if (x === 0) return a1 + a2 + a3;
+  const a4 = Math.log(a) - Math.log(b + x - 1) - (r + x) * Math.log(alpha + tx);
+  return a1 + a2 + logAddExp(a3, a4);
+}
+
+const PENALTY = 1e-3;
+
+export function fitBgNbd(histories: GivingHistory[]): FitResult<BgNbdParams> {
+  const toParams = (theta: number[]): BgNbdParams => ({
+    r: Math.exp(theta[0]),
+    alpha: Math.exp(theta[1]),
+    a: Math.exp(theta[2]),
+    b: Math.exp(theta[3]),
+  });
+
+  const objective = (theta: number[]) => {
+    const params = toParams(theta);
+    let ll = 0;
+    for (const h of histories) ll += bgNbdLogLikelihood(params, h);
+    const penalty = PENALTY * theta.reduce((s, t) => s + t * t, 0);
+    const value = -ll / histories.length + penalty;
+    return Number.isFinite(value) ? value : 1e12;
+  };
+
+  // Start near typical values: rate ~ 1 gift per α/r weeks
+  const meanT = histories.reduce((s, h) => s + h.T, 0) / Math.max(histories.length, 1);
+  const result = nelderMead(objective, [0, Math.log(Math.max(meanT, 1)), 0, 0], { maxIterations: 800 });
+  const params = toParams(result.x);
+
+  let logLikelihood = 0;
+  for (const h of histories) logLikelihood += bgNbdLogLikelihood(params, h);
+  return { params, logLikelihood, iterations: result.iterations, converged: result.converged };
+}
+
+export function probabilityAlive(params: BgNbdParams, h: GivingHistory): number {
+  if (h.x === 0) return 1;
+  const { r, alpha, a, b } = params;
+  const logOdds = Math.log(a) - Math.log(b + h.x - 1) + (r + h.x) * Math.log((alpha + h.T) / (alpha + h.tx));
+  return 1 / (1 + Math.exp(logOdds));
+}
+
+/** Expected giving occasions in the next `weeks`, given history */
+export function expectedDonations(params: BgNbdParams, h: GivingHistory, weeks: number): number {
+  if (weeks <= 0) return 0;
+  const { r, alpha, b } = params;
+  // (a - 1) is a removable singularity; nudge off it
+  const a = Math.abs(params.a - 1) < 1e-6 ? 1 + 1e-6 : params.a;
+  const { x, tx, T } = h;
+
+  const hyp = hyp2f1(r + x, b + x, a + b + x - 1, weeks / (alpha + T + weeks));
+  const first = (a + b + x - 1) / (a - 1);
+  const second = 1 - hyp * Math.pow((alpha + T) / (alpha + T + weeks), r + x);
+  const denominator = x > 0
+    ? 1 + (a / (b + x - 1)) * Math.pow((alpha + T) / (alpha + tx), r + x)
+    : 1;
+  const expected = (first * second) / denominator;
+  return Number.isFinite(expected) ? Math.max(0, expected) : 0;
+}
+
+// ============================================================================
+// Gamma-Gamma
+// ============================================================================
+
+function gammaGammaLogLikelihood(params: GammaGammaParams, h: GivingHistory): number {
+  const { p, q, gamma } = params;
+  const { x, monetary: m } = h;
+  return lgamma(p * x + q) - lgamma(p * x) - lgamma(q) + q * Math.log(gamma)
+    + (p * x - 1) * Math.log(m) + p * x * Math.log(x) - (p * x + q) * Math.log(x * m + gamma);
+}
+
+/** Fits on repeat donors only; q is kept above 1 so the mean exists */
+export function fitGammaGamma(histories: GivingHistory[]): FitResult<GammaGammaParams> {
+  const repeat = histories.filter(h => h.x > 0 && h.monetary > 0);
+  const toParams = (theta: number[]): GammaGammaParams => ({
+    p: Math.exp(theta[0]),
+    q: 1 + Math.exp(theta[1]),
+    gamma: Math.exp(theta[2]),
+  });
+
+  const objective = (theta: number[]) => {
+    const params = toParams(theta);
+    let ll = 0;
+    for (const h of repeat) ll += gammaGammaLogLikelihood(params, h);
+    const penalty = PENALTY * theta.reduce((s, t) => s + t * t, 0);
+    const value = -ll / Math.max(repeat.length, 1) + penalty;
+    return Number.isFinite(value) ? value : 1e12;
+  };
+
+  const meanM = repeat.reduce((s, h) => s + h.monetary, 0) / Math.max(repeat.length, 1);
+  const result = nelderMead(objective, [0, Math.log(2), Math.log(Math.max(meanM, 1))], { maxIterations: 800 });
+  const params = toParams(result.x);
+
+  let logLikelihood = 0;
+  for (const h of repeat) logLikelihood += gammaGammaLogLikelihood(params, h);
+  return { params, logLikelihood, iterations: result.iterations, converged: result.converged };
+}
+
+/** Expected value of a future occasion; shrinks the donor's mean toward the population's */
+export function expectedOccasionValue(params: GammaGammaParams, h: GivingHistory): number {
+  const { p, q, gamma } = params;
+  const x = h.x > 0 && h.monetary > 0 ? h.x : 0;
+  return (p * (gamma + h.monetary * x)) / (p * x + q - 1);
+}
+
+// ============================================================================
+// Prediction
+// ============================================================================
+
+export interface DonorPrediction {
+  pAlive: number;
+  /** horizon (days) -> expected value */
+  expectedValue: Record<number, number>;
+  /** horizon (days) -> expected giving occasions */
+  expectedDonations: Record<number, number>;
+}
+
+export function predictDonor(params: LtvModelParams, h: GivingHistory, horizonsDays: number[]): DonorPrediction {
+  const occasionValue = expectedOccasionValue(params.gammaGamma, h);
+  const expectedValue: Record<number, number> = {};
+  const expectedCounts: Record<number, number> = {};
+  for (const days of horizonsDays) {
+    const count = expectedDonations(params.bgnbd, h, days / WEEK_DAYS);
+    expectedCounts[days] = count;
+    expectedValue[days] = count * occasionValue;
+  }
+  return { pAlive: probabilityAlive(params.bgnbd, h), expectedValue, expectedDonations: expectedCounts };
+}
+
+/**
+ * Posterior-predictive draws of future value for each horizon (days). Returns
+ * horizon -> `draws` values; draw i of every donor uses the same index so
+ * draws can be summed across donors for org-level intervals.
+ */
+export function simulateDonorValue(
+  params: LtvModelParams,
+  h: GivingHistory,
+  horizonsDays: number[],
+  draws: number,
+  rng: Rng
+): Record<number, number[]> {
+  const { r, alpha, a, b } = params.bgnbd;
+  const gg = params.gammaGamma;
+  const horizons = [...horizonsDays].sort((p, q) => p - q);
+  const maxWeeks = horizons[horizons.length - 1] / WEEK_DAYS;
+  const pAlive = probabilityAlive(params.bgnbd, h);
+  const x = h.x > 0 && h.monetary > 0 ? h.x : 0;
+
+  const out: Record<number, number[]> = {};
+  for (const days of horizons) out[days] = new Array(draws).fill(0);
+
+  for (let i = 0; i < draws; i++) {
+    if (rng() >= pAlive) continue;
+
+    const lambda = sampleGamma(rng, r + h.x, alpha + h.T);
+    const dropout = sampleBeta(rng, a, b + h.x);
+    const nu = sampleGamma(rng, gg.p * x + gg.q, gg.gamma + h.monetary * x);
+
+    let t = 0;
+    for (let events = 0; events < 1000; events++) {
+      t += -Math.log(1 - rng()) / lambda;
+      if (t > maxWeeks) break;
+      const value = sampleGamma(rng, gg.p, nu);
+      for (const days of horizons) {
+        if (t <= days / WEEK_DAYS) out[days][i] += value;
+      }
+      if (rng() < dropout) break;
+    }
+  }
+  return out;
+}
+
+// ============================================================================
+// Backtest
+// ============================================================================
+
+export interface BacktestRow {
+  predicted: number;
+  actual: number;
+  low?: number;
+  high?: number;
+}
+
+export interface CalibrationBin {
+  bin: number;
+  donors: number;
+  mean_predicted: number;
+  mean_actual: number;
+}
+
+export interface BacktestMetrics {
+  donors: number;
+  predicted_total: number;
+  actual_total: number;
+  /** (predicted - actual) / actual across all donors */
+  aggregate_error_pct: number | null;
+  mean_absolute_error: number;
+  /**
+   * Count-weighted |mean predicted - mean actual| across predicted-value
+   * deciles, divided by mean actual value. 0 is perfectly calibrated.
+   */
+  calibration_error: number | null;
+  /** Share of donors whose actual value fell inside their interval */
+  interval_coverage: number | null;
+  bins: CalibrationBin[];
+}
+
+export function evaluateBacktest(rows: BacktestRow[], binCount = 10): BacktestMetrics {
+  const n = rows.length;
+  const predictedTotal = rows.reduce((s, r) => s + r.predicted, 0);
+  const actualTotal = rows.reduce((s, r) => s + r.actual, 0);
+  const meanActual = n > 0 ? actualTotal / n : 0;
+
+  const sorted = [...rows].sort((p, q) => p.predicted - q.predicted);
+  const bins: CalibrationBin[] = [];
+  for (let i = 0; i < binCount; i++) {
+    const slice = sorted.slice(Math.floor((i * n) / binCount), Math.floor(((i + 1) * n) / binCount));
+    if (slice.length === 0) continue;
+    bins.push({
+      bin: i + 1,
+      donors: slice.length,
+      mean_predicted: slice.reduce((s, r) => s + r.predicted, 0) / slice.length,
+      mean_actual: slice.reduce((s, r) => s + r.actual, 0) / slice.length,
+    });
+  }
+
+  const weightedGap = bins.reduce((s, bin) => s + bin.donors * Math.abs(bin.mean_predicted - bin.mean_actual), 0);
+  const withIntervals = rows.filter(r => r.low !== undefined && r.high !== undefined);
+
+  return {
+    donors: n,
+    predicted_total: predictedTotal,
+    actual_total: actualTotal,
+    aggregate_error_pct: actualTotal > 0 ? (predictedTotal - actualTotal) / actualTotal : null,
+    mean_absolute_error: n > 0 ? rows.reduce((s, r) => s + Math.abs(r.predicted - r.actual), 0) / n : 0,
+    calibration_error: n > 0 && meanActual > 0 ? weightedGap / n / meanActual : null,
+    interval_coverage: withIntervals.length > 0
+      ? withIntervals.filter(r => r.actual >= r.low! && r.actual <= r.high!).length / withIntervals.length
+      : null,
+    bins,
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * Unit tests for the email platform connectors
+ *
+ * Run with: deno test supabase/functions/_shared/emailConnectors.test.ts
+ */
+
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  EMAIL_CONNECTORS,
+  EmailConnectorError,
+  buildActionKitMailingsQuery,
+  createFetchJson,
+  extractLinksFromHtml,
+  extractMailingRefcode,
+  getEmailConnector,
+  mailchimpBaseUrl,
+  mapActionKitRow,
+  mapEveryActionMessage,
+  mapMailchimpReport,
+  type FetchJson,
+} from "./emailConnectors.ts";
+
+// Answers each request with the first route whose key is a substring of the URL
+function fakeFetchJson(routes: Record<string, unknown>, calls: string[] = []): FetchJson {
+  return (url) => {
+    calls.push(url);
+    const key = Object.keys(routes).find(k => url.includes(k));
+    if (!key) return Promise.reject(new EmailConnectorError(`HTTP 404: ${url}`, 404));
+    return Promise.resolve(routes[key]);
+  };
+}
+
+// ============================================================================
+// Registry + credentials
+// ============================================================================
+
+Deno.test("getEmailConnector resolves known providers only", () => {
+  assertEquals(getEmailConnector('mailchimp')?.provider, 'mailchimp');
+  assertEquals(getEmailConnector('actionkit')?.provider, 'actionkit');
+  assertEquals(getEmailConnector('constant_contact'), null);
+  assertEquals(getEmailConnector(undefined), null);
+});
+
+Deno.test("missingCredentials lists each provider's required fields", () => {
+  assertEquals(EMAIL_CONNECTORS.actionkit.missingCredentials({ provider: 'actionkit', host: 'act.example.org' }), ['username', 'password']);
+  assertEquals(EMAIL_CONNECTORS.everyaction.missingCredentials({ provider: 'everyaction', application_name: 'app', api_key: 'k' }), []);
+  assertEquals(EMAIL_CONNECTORS.mailchimp.missingCredentials({ provider: 'mailchimp', api_key: 'nodatacenter' }), ['api_key (must end in -<dc>)']);
+  assertEquals(mailchimpBaseUrl('abc123-us6'), 'https://us6.api.mailchimp.com/3.0');
+});
+
+Deno.test("createFetchJson surfaces status and API detail", async () => {
+  const fetchJson = createFetchJson(() =>
+    Promise.resolve(new Response(JSON.stringify({ detail: 'Too many requests' }), { status: 429 }))
+  );
+  await assertRejects(() => fetchJson('https://example.test'), EmailConnectorError, 'HTTP 429: Too many requests');
+  assertEquals(new EmailConnectorError('HTTP 429', 429).rateLimited, true);
+});
+
+// ============================================================================
+// Mailchimp
+// ============================================================================
+
+Deno.test("mapMailchimpReport derives delivered from bounces", () => {
+  const mailing = mapMailchimpReport({
+    id: 'c1',
+    campaign_title: 'Feb deadline',
+    subject_line: 'Midnight deadline',
+    list_name: 'Supporters',
+    send_time: '2026-02-05T15:00:00+00:00',
+    emails_sent: 1000,
+    bounces: { hard_bounces: 10, soft_bounces: 5 },
+    opens: { opens_total: 400, unique_opens: 300 },
+    clicks: { clicks_total: 60, unique_subscriber_clicks: 45 },
+    unsubscribed: 3,
+    abuse_reports: 1,
+  });
+  assertEquals(mailing.delivered, 985);
+  assertEquals(mailing.bounces, 15);
+  assertEquals(mailing.unique_clicks, 45);
+  assertEquals(mailing.sent_at, '2026-02-05T15:00:00.000Z');
+});
+
+Deno.test("mailchimp listMailings pages reports and reads click-detail links", async () => {
+  const calls: string[] = [];
+  const fetchJson = fakeFetchJson({
+    '/reports/c1/click-details': { urls_clicked: [{ url: 'https://secure.actblue.com/donate/blue?refcode=em0205' }] },
+    '/reports?': { reports: [{ id: 'c1', emails_sent: 10, send_time: '2026-02-05T15:00:00+00:00' }], total_items: 1 },
+  }, calls);
+
+  const mailings = await EMAIL_CONNECTORS.mailchimp.listMailings({ provider: 'mailchimp', api_key: 'k-us6' }, '2026-02-01', fetchJson);
+  assertEquals(mailings.length, 1);
+  assertEquals(mailings[0].link_urls, ['https://secure.actblue.com/donate/blue?refcode=em0205']);
+  assertEquals(calls[0].includes('since_send_time=2026-02-01'), true);
+});
+
+// ============================================================================
+// EveryAction
+// ============================================================================
+
+Deno.test("mapEveryActionMessage sums A/B variants and extracts links", () => {
+  const mailing = mapEveryActionMessage({
+    foreignMessageId: 'ea-1',
+    name: 'Deadline',
+    emailMessageContent: [
+      {
+        subject: 'Variant A',
+        senderDisplayName: 'Team Blue',
+        content: '<a href="https://secure.actblue.com/donate/x?refcode=ea_a&amp;amount=25">Give</a>',
+        emailMessageContentDistributions: { dateSent: '2026-02-05T15:00:00Z', recipientCount: 500, bounceCount: 5, openCount: 100, linksClickedCount: 20, unsubscribeCount: 1 },
+      },
+      {
+        subject: 'Variant B',
+        content: '<a href="https://secure.actblue.com/donate/x?refcode=ea_b">Give</a>',
+        emailMessageContentDistributions: { dateSent: '2026-02-05T16:00:00Z', recipientCount: 500, bounceCount: 3, openCount: 120, linksClickedCount: 25, unsubscribeCount: 2 },
+      },
+    ],
+  });
+  assertEquals(mailing.sends, 1000);
+  assertEquals(mailing.delivered, 992);
+  assertEquals(mailing.clicks, 45);
+  assertEquals(mailing.unsubscribes, 3);
+  assertEquals(mailing.subject, 'Variant A');
+  assertEquals(mailing.sent_at, '2026-02-05T15:00:00.000Z');
+  assertEquals(mailing.link_urls, [
+    'https://secure.actblue.com/donate/x?refcode=ea_a&amount=25',
+    'https://secure.actblue.com/donate/x?refcode=ea_b',
+  ]);
+});
+
+Deno.test("everyaction listMailings stops at messages older than since", async () => {
+  const fetchJson = fakeFetchJson({
+    '/email/message/new': { emailMessageContent: [{ emailMessageContentDistributions: { recipientCount: 10 } }] },
+    '/email/messages': {
+      items: [
+        { foreignMessageId: 'new', dateCreated: '2026-02-05T10:00:00Z' },
+        { foreignMessageId: 'old', dateCreated: '2026-01-20T10:00:00Z' },
+      ],
+    },
+  });
+  const mailings = await EMAIL_CONNECTORS.everyaction.listMailings(
+    { provider: 'everyaction', application_name: 'app', api_key: 'k' }, '2026-02-01', fetchJson
+  );
+  assertEquals(mailings.map(m => m.mailing_id), ['new']);
+});
+
+// ============================================================================
+// ActionKit
+// ============================================================================
+
+Deno.test("ActionKit query rejects non-date input", () => {
+  assertEquals(buildActionKitMailingsQuery('2026-02-01').includes("m.finished_at >= '2026-02-01'"), true);
+  let threw = false;
+  try {
+    buildActionKitMailingsQuery("2026-02-01' OR 1=1 --");
+  } catch {
+    threw = true;
+  }
+  assertEquals(threw, true);
+});
+
+Deno.test("mapActionKitRow reads report columns in order", () => {
+  const mailing = mapActionKitRow([
+    1234, 'Feb 5 deadline', 'Last chance', '"Team Blue" <info@example.org>', '2026-02-05 15:00:00',
+    '<a href="https://secure.actblue.com/donate/ak?refcode=ak0205">Give</a>',
+    2000, 700, 500, 90, 80, 4, 20,
+  ]);
+  assertEquals(mailing.mailing_id, '1234');
+  assertEquals(mailing.sent_at, '2026-02-05T15:00:00.000Z');
+  assertEquals(mailing.delivered, 1980);
+  assertEquals(mailing.unsubscribes, 4);
+  assertEquals(mailing.link_urls, ['https://secure.actblue.com/donate/ak?refcode=ak0205']);
+});
+
+// ============================================================================
+// Refcodes
+// ============================================================================
+
+Deno.test("extractLinksFromHtml keeps absolute links only", () => {
+  const html = '<a href="https://a.test/x">x</a><a href=\'mailto:hi@a.test\'>m</a><a href="https://a.test/x">dup</a>';
+  assertEquals(extractLinksFromHtml(html), ['https://a.test/x']);
+  assertEquals(extractLinksFromHtml(null), []);
+});
+
+Deno.test("extractMailingRefcode picks the most repeated ActBlue refcode", () => {
+  const result = extractMailingRefcode([
+    'https://example.org/about',
+    'https://secure.actblue.com/donate/blue?refcode=em_ps',
+    'https://secure.actblue.com/donate/blue?refcode=em_main',
+    'https://secure.actblue.com/donate/blue?refcode=em_main&amount=50',
+  ]);
+  assertEquals(result.refcode, 'em_main');
+});
+
+Deno.test("extractMailingRefcode ignores form-name and vanity fallbacks", () => {
+  assertEquals(extractMailingRefcode(['https://secure.actblue.com/donate/blue']).refcode, null);
+  assertEquals(extractMailingRefcode(['https://example.org/give-now']).refcode, null);
+  assertEquals(extractMailingRefcode(undefined).refcode, null);
+});
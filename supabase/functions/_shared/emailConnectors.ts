@@ -0,0 +1,485 @@
+/**
+ * Email Fundraising Platform Connectors
+ *
+ * One connector per email send platform (ActionKit, EveryAction, Mailchimp).
+ * Each connector knows how to authenticate, test credentials and list sent
+ * mailings with their send/open/click/unsubscribe counts, normalized into
+ * EmailMailing rows for the email_mailings table.
+ *
+ * Connectors take a FetchJson function instead of calling fetch directly so
+ * sync-email-platforms owns retries and the tests can run without a network.
+ * Refcodes are not resolved here: mailings carry their link URLs and
+ * reconcile-email-refcodes turns them into refcode_mappings.
+ */
+
+import { extractRefcodeFromMessage, type ExtractedRefcode } from "./smsRefcodeExtractor.ts";
+
+export type EmailProvider = 'actionkit' | 'everyaction' | 'mailchimp';
+
+export const EMAIL_PROVIDERS: EmailProvider[] = ['actionkit', 'everyaction', 'mailchimp'];
+
+/** Stored in client_api_credentials.encrypted_credentials for platform 'email' */
+export interface EmailCredentials {
+  provider: EmailProvider;
+  api_key?: string;
+  /** ActionKit instance domain, e.g. "act.example.org" */
+  host?: string;
+  username?: string;
+  password?: string;
+  /** EveryAction API application name */
+  application_name?: string;
+}
+
+export interface EmailMailing {
+  mailing_id: string;
+  name: string | null;
+  subject: string | null;
+  from_name: string | null;
+  list_name: string | null;
+  sent_at: string | null;
+  sends: number;
+  delivered: number;
+  opens: number;
+  unique_opens: number;
+  clicks: number;
+  unique_clicks: number;
+  unsubscribes: number;
+  bounces: number;
+  complaints: number;
+  /** Tracked links in the mailing, used for refcode extraction */
+  link_urls: string[];
+}
+
+export type FetchJson = (url: string, init?: RequestInit) => Promise<unknown>;
+
+export interface EmailConnector {
+  provider: EmailProvider;
+  /** Credential fields this provider needs that are missing */
+  missingCredentials(credentials: EmailCredentials): string[];
+  /** Cheapest authenticated call, for the credential "Test" button */
+  test(credentials: EmailCredentials, fetchJson: FetchJson): Promise<void>;
+  /** Mailings sent on or after `since` (YYYY-MM-DD), newest first */
+  listMailings(credentials: EmailCredentials, since: string, fetchJson: FetchJson): Promise<EmailMailing[]>;
+}
+
+export class EmailConnectorError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'EmailConnectorError';
+  }
+
+  get rateLimited(): boolean {
+    return this.status === 429;
+  }
+}
+
+// Keeps a single sync bounded; older mailings have stopped changing anyway
+export const MAX_MAILINGS_PER_SYNC = 500;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** fetch wrapper that parses JSON and throws EmailConnectorError on non-2xx */
+export function createFetchJson(fetchImpl: typeof fetch = fetch): FetchJson {
+  return async (url, init) => {
+    const response = await fetchImpl(url, init);
+    const text = await response.text();
+    let body: unknown = null;
+    try {
+      body = text ? JSON.parse(text) : null;
+    } catch {
+      body = text;
+    }
+    if (!response.ok) {
+      const detail = typeof body === 'object' && body !== null
+        ? (body as { detail?: string; message?: string; errors?: Array<{ text?: string }> }).detail
+          || (body as { message?: string }).message
+          || (body as { errors?: Array<{ text?: string }> }).errors?.[0]?.text
+        : typeof body === 'string' ? body.slice(0, 200) : null;
+      throw new EmailConnectorError(`HTTP ${response.status}${detail ? `: ${detail}` : ''}`, response.status);
+    }
+    return body;
+  };
+}
+
+function basicAuth(user: string, password: string): string {
+  return `Basic ${btoa(`${user}:${password}`)}`;
+}
+
+function toNumber(value: unknown): number {
+  const n = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function toIsoOrNull(value: unknown): string | null {
+  if (!value || typeof value !== 'string') return null;
+  const date = new Date(value.includes('T') || value.includes('Z') ? value : value.replace(' ', 'T') + 'Z');
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/** href targets from mailing HTML, deduplicated, in document order */
+export function extractLinksFromHtml(html: string | null | undefined): string[] {
+  if (!html) return [];
+  const links = new Set<string>();
+  for (const match of html.matchAll(/href\s*=\s*["']([^"']+)["']/gi)) {
+    const url = match[1].replace(/&amp;/g, '&').trim();
+    if (/^https?:\/\//i.test(url)) links.add(url);
+  }
+  return [...links];
+}
+
+function assertIsoDate(date: string): void {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error(`Invalid date: ${date}`);
+  }
+}
+
+function requireFields(credentials: EmailCredentials, fields: (keyof EmailCredentials)[]): string[] {
+  return fields.filter(field => !String(credentials[field] ?? '').trim());
+}
+
+// ============================================================================
+// Mailchimp
+// ============================================================================
+
+interface MailchimpReport {
+  id: string;
+  campaign_title?: string;
+  subject_line?: string;
+  list_name?: string;
+  send_time?: string;
+  emails_sent?: number;
+  abuse_reports?: number;
+  unsubscribed?: number;
+  bounces?: { hard_bounces?: number; soft_bounces?: number; syntax_errors?: number };
+  opens?: { opens_total?: number; unique_opens?: number };
+  clicks?: { clicks_total?: number; unique_subscriber_clicks?: number };
+}
+
+const MAILCHIMP_PAGE_SIZE = 100;
+
+// API keys end in the data center, e.g. "abc123-us6"
+export function mailchimpBaseUrl(apiKey: string): string | null {
+  const dc = apiKey.split('-')[1];
+  return dc && /^[a-z]+\d+$/.test(dc) ? `https://${dc}.api.mailchimp.com/3.0` : null;
+}
+
+export function mapMailchimpReport(report: MailchimpReport, linkUrls: string[] = []): EmailMailing {
+  const sends = toNumber(report.emails_sent);
+  const bounces = toNumber(report.bounces?.hard_bounces) + toNumber(report.bounces?.soft_bounces) +
+    toNumber(report.bounces?.syntax_errors);
+  return {
+    mailing_id: report.id,
+    name: report.campaign_title || null,
+    subject: report.subject_line || null,
+    from_name: null,
+    list_name: report.list_name || null,
+    sent_at: toIsoOrNull(report.send_time),
+    sends,
+    delivered: Math.max(0, sends - bounces),
+    opens: toNumber(report.opens?.opens_total),
+    unique_opens: toNumber(report.opens?.unique_opens),
+    clicks: toNumber(report.clicks?.clicks_total),
+    unique_clicks: toNumber(report.clicks?.unique_subscriber_clicks),
+    unsubscribes: toNumber(report.unsubscribed),
+    bounces,
+    complaints: toNumber(report.abuse_reports),
+    link_urls: linkUrls,
+  };
+}
+
+const mailchimpConnector: EmailConnector = {
+  provider: 'mailchimp',
+
+  missingCredentials(credentials) {
+    const missing = requireFields(credentials, ['api_key']);
+    if (!missing.length && !mailchimpBaseUrl(credentials.api_key!)) missing.push('api_key (must end in -<dc>)');
+    return missing;
+  },
+
+  async test(credentials, fetchJson) {
+    const headers = { Authorization: basicAuth('anystring', credentials.api_key!) };
+    await fetchJson(`${mailchimpBaseUrl(credentials.api_key!)}/ping`, { headers });
+  },
+
+  async listMailings(credentials, since, fetchJson) {
+    assertIsoDate(since);
+    const baseUrl = mailchimpBaseUrl(credentials.api_key!);
+    const headers = { Authorization: basicAuth('anystring', credentials.api_key!) };
+    const mailings: EmailMailing[] = [];
+
+    for (let offset = 0; offset < MAX_MAILINGS_PER_SYNC; offset += MAILCHIMP_PAGE_SIZE) {
+      const params = new URLSearchParams({
+        since_send_time: `${since}T00:00:00+00:00`,
+        count: String(MAILCHIMP_PAGE_SIZE),
+        offset: String(offset),
+      });
+      const page = await fetchJson(`${baseUrl}/reports?${params}`, { headers }) as
+        { reports?: MailchimpReport[]; total_items?: number };
+      const reports = page?.reports || [];
+
+      for (const report of reports) {
+        // Report totals don't include links; click-details does
+        const details = await fetchJson(
+          `${baseUrl}/reports/${report.id}/click-details?count=50&fields=urls_clicked.url`,
+          { headers }
+        ) as { urls_clicked?: Array<{ url?: string }> };
+        const links = (details?.urls_clicked || []).map(u => u.url).filter((u): u is string => !!u);
+        mailings.push(mapMailchimpReport(report, links));
+      }
+
+      if (reports.length < MAILCHIMP_PAGE_SIZE || offset + reports.length >= toNumber(page?.total_items)) break;
+    }
+
+    return mailings.sort((a, b) => (b.sent_at || '').localeCompare(a.sent_at || ''));
+  },
+};
+
+// ============================================================================
+// EveryAction (NGP VAN)
+// ============================================================================
+
+interface EveryActionMessageSummary {
+  foreignMessageId: string;
+  name?: string;
+  dateCreated?: string;
+  dateScheduled?: string;
+}
+
+interface EveryActionMessage extends EveryActionMessageSummary {
+  emailMessageContent?: Array<{
+    subject?: string;
+    senderDisplayName?: string;
+    content?: string;
+    emailMessageContentDistributions?: {
+      dateSent?: string;
+      recipientCount?: number;
+      bounceCount?: number;
+      openCount?: number;
+      uniqueOpenCount?: number;
+      linksClickedCount?: number;
+      uniqueClickCount?: number;
+      unsubscribeCount?: number;
+      spamComplaintCount?: number;
+    };
+  }>;
+}
+
+const EVERYACTION_BASE_URL = 'https://api.securevan.com/v4';
+const EVERYACTION_PAGE_SIZE = 25;
+
+function everyActionHeaders(credentials: EmailCredentials): Record<string, string> {
+  // "|1" selects the MyCampaign/EveryAction database mode
+  return { Authorization: basicAuth(credentials.application_name!, `${credentials.api_key}|1`) };
+}
+
+/** A/B variants are separate content rows; counts are summed across them */
+export function mapEveryActionMessage(message: EveryActionMessage): EmailMailing {
+  const contents = message.emailMessageContent || [];
+  const sum = (field: keyof NonNullable<NonNullable<EveryActionMessage['emailMessageContent']>[number]['emailMessageContentDistributions']>) =>
+    contents.reduce((total, c) => total + toNumber(c.emailMessageContentDistributions?.[field]), 0);
+
+  const sends = sum('recipientCount');
+  const bounces = sum('bounceCount');
+  const opens = sum('openCount');
+  const clicks = sum('linksClickedCount');
+  const sentDates = contents
+    .map(c => toIsoOrNull(c.emailMessageContentDistributions?.dateSent))
+    .filter((d): d is string => !!d)
+    .sort();
+
+  return {
+    mailing_id: String(message.foreignMessageId),
+    name: message.name || null,
+    subject: contents[0]?.subject || null,
+    from_name: contents[0]?.senderDisplayName || null,
+    list_name: null,
+    sent_at: sentDates[0] || toIsoOrNull(message.dateScheduled) || toIsoOrNull(message.dateCreated),
+    sends,
+    delivered: Math.max(0, sends - bounces),
+    opens,
+    unique_opens: sum('uniqueOpenCount') || opens,
+    clicks,
+    unique_clicks: sum('uniqueClickCount') || clicks,
+    unsubscribes: sum('unsubscribeCount'),
+    bounces,
+    complaints: sum('spamComplaintCount'),
+    link_urls: [...new Set(contents.flatMap(c => extractLinksFromHtml(c.content)))],
+  };
+}
+
+const everyActionConnector: EmailConnector = {
+  provider: 'everyaction',
+
+  missingCredentials(credentials) {
+    return requireFields(credentials, ['application_name', 'api_key']);
+  },
+
+  async test(credentials, fetchJson) {
+    await fetchJson(`${EVERYACTION_BASE_URL}/email/messages?$top=1`, { headers: everyActionHeaders(credentials) });
+  },
+
+  async listMailings(credentials, since, fetchJson) {
+    assertIsoDate(since);
+    const headers = everyActionHeaders(credentials);
+    const mailings: EmailMailing[] = [];
+
+    for (let skip = 0; skip < MAX_MAILINGS_PER_SYNC; skip += EVERYACTION_PAGE_SIZE) {
+      const page = await fetchJson(
+        `${EVERYACTION_BASE_URL}/email/messages?$top=${EVERYACTION_PAGE_SIZE}&$skip=${skip}&$orderby=dateCreated desc`,
+        { headers }
+      ) as { items?: EveryActionMessageSummary[] };
+      const items = page?.items || [];
+
+      let reachedSince = false;
+      for (const item of items) {
+        if ((item.dateCreated || '').slice(0, 10) < since) {
+          reachedSince = true;
+          break;
+        }
+        const message = await fetchJson(
+          `${EVERYACTION_BASE_URL}/email/message/${item.foreignMessageId}?$expand=emailMessageContent,emailMessageContentDistributions`,
+          { headers }
+        ) as EveryActionMessage;
+        const mailing = mapEveryActionMessage({ ...item, ...message });
+        // Drafts and scheduled messages have nothing to report yet
+        if (mailing.sends > 0) mailings.push(mailing);
+      }
+
+      if (reachedSince || items.length < EVERYACTION_PAGE_SIZE) break;
+    }
+
+    return mailings;
+  },
+};
+
+// ============================================================================
+// ActionKit
+// ============================================================================
+
+// Column order of the report query below
+const ACTIONKIT_COLUMNS = [
+  'id', 'notes', 'subject', 'from_line', 'finished_at', 'html',
+  'sends', 'opens', 'unique_opens', 'clicks', 'unique_clicks', 'unsubscribes', 'bounces',
+] as const;
+
+/**
+ * ActionKit's REST mailing objects carry no stats, so counts come from the
+ * SQL report runner. `since` is validated as YYYY-MM-DD before interpolation.
+ */
+export function buildActionKitMailingsQuery(since: string): string {
+  assertIsoDate(since);
+  return `
+    SELECT m.id, m.notes,
+      (SELECT s.text FROM core_mailingsubject s WHERE s.mailing_id = m.id ORDER BY s.id LIMIT 1),
+      (SELECT f.from_line FROM core_fromline f WHERE f.id = m.fromline_id),
+      m.finished_at, m.html,
+      (SELECT COUNT(*) FROM core_usermailing um WHERE um.mailing_id = m.id),
+      (SELECT COUNT(*) FROM core_open o WHERE o.mailing_id = m.id),
+      (SELECT COUNT(DISTINCT o.user_id) FROM core_open o WHERE o.mailing_id = m.id),
+      (SELECT COUNT(*) FROM core_click c WHERE c.mailing_id = m.id),
+      (SELECT COUNT(DISTINCT c.user_id) FROM core_click c WHERE c.mailing_id = m.id),
+      (SELECT COUNT(*) FROM core_action a JOIN core_unsubscribeaction u ON u.action_ptr_id = a.id WHERE a.mailing_id = m.id),
+      (SELECT COUNT(*) FROM core_bounce b WHERE b.mailing_id = m.id)
+    FROM core_mailing m
+    WHERE m.status = 'completed' AND m.finished_at >= '${since}'
+    ORDER BY m.finished_at DESC
+    LIMIT ${MAX_MAILINGS_PER_SYNC}`.trim();
+}
+
+export function mapActionKitRow(row: unknown[]): EmailMailing {
+  const value = (column: typeof ACTIONKIT_COLUMNS[number]) => row[ACTIONKIT_COLUMNS.indexOf(column)];
+  const sends = toNumber(value('sends'));
+  const bounces = toNumber(value('bounces'));
+  const str = (v: unknown) => (typeof v === 'string' && v.trim() ? v.trim() : null);
+  return {
+    mailing_id: String(value('id')),
+    name: str(value('notes')),
+    subject: str(value('subject')),
+    from_name: str(value('from_line')),
+    list_name: null,
+    // ActionKit reports times in UTC without an offset
+    sent_at: toIsoOrNull(value('finished_at')),
+    sends,
+    delivered: Math.max(0, sends - bounces),
+    opens: toNumber(value('opens')),
+    unique_opens: toNumber(value('unique_opens')),
+    clicks: toNumber(value('clicks')),
+    unique_clicks: toNumber(value('unique_clicks')),
+    unsubscribes: toNumber(value('unsubscribes')),
+    bounces,
+    complaints: 0,
+    link_urls: extractLinksFromHtml(str(value('html'))),
+  };
+}
+
+function actionKitBaseUrl(host: string): string {
+  return `https://${host.replace(/^https?:\/\//, '').replace(/\/+$/, '')}/rest/v1`;
+}
+
+const actionKitConnector: EmailConnector = {
+  provider: 'actionkit',
+
+  missingCredentials(credentials) {
+    return requireFields(credentials, ['host', 'username', 'password']);
+  },
+
+  async test(credentials, fetchJson) {
+    await fetchJson(`${actionKitBaseUrl(credentials.host!)}/mailing/?_limit=1`, {
+      headers: { Authorization: basicAuth(credentials.username!, credentials.password!) },
+    });
+  },
+
+  async listMailings(credentials, since, fetchJson) {
+    const rows = await fetchJson(`${actionKitBaseUrl(credentials.host!)}/report/run/sql/`, {
+      method: 'POST',
+      headers: {
+        Authorization: basicAuth(credentials.username!, credentials.password!),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ query: buildActionKitMailingsQuery(since) }),
+    });
+    return (Array.isArray(rows) ? rows : [])
+      .filter((row): row is unknown[] => Array.isArray(row))
+      .map(mapActionKitRow);
+  },
+};
+
+// ============================================================================
+// Registry + attribution
+// ============================================================================
+
+export const EMAIL_CONNECTORS: Record<EmailProvider, EmailConnector> = {
+  actionkit: actionKitConnector,
+  everyaction: everyActionConnector,
+  mailchimp: mailchimpConnector,
+};
+
+export function getEmailConnector(provider: string | null | undefined): EmailConnector | null {
+  return provider && provider in EMAIL_CONNECTORS ? EMAIL_CONNECTORS[provider as EmailProvider] : null;
+}
+
+/**
+ * The mailing's donation refcode: the most common refcode across its links
+ * (a single ask usually repeats the same link), ties going to the first link.
+ */
+export function extractMailingRefcode(linkUrls: string[] | null | undefined): ExtractedRefcode {
+  const counts = new Map<string, { count: number; extracted: ExtractedRefcode }>();
+  for (const url of linkUrls || []) {
+    const extracted = extractRefcodeFromMessage(url);
+    // Only explicit ActBlue refcodes count: form names and vanity paths are shared by every channel
+    const explicit = extracted.pattern === 'actblue_param' ||
+      (extracted.pattern === 'actblue_direct' && /[?&]refcode=/i.test(extracted.url || ''));
+    if (!extracted.refcode || !explicit) continue;
+    const entry = counts.get(extracted.refcode);
+    if (entry) entry.count++;
+    else counts.set(extracted.refcode, { count: 1, extracted });
+  }
+
+  let best: { count: number; extracted: ExtractedRefcode } | null = null;
+  for (const entry of counts.values()) {
+    if (!best || entry.count > best.count) best = entry;
+  }
+  return best?.extracted ?? { refcode: null, url: null, pattern: null };
+}
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for the embedding providers
+ *
+ * Run with: deno test supabase/functions/_shared/embeddings.test.ts
+ */
+
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  EMBEDDING_DIMENSIONS,
+  EmbeddingProviderError,
+  clusterSimilarityThreshold,
+  cosineSimilarity,
+  createLocalEmbeddingProvider,
+  createOpenAIEmbeddingProvider,
+  getEmbeddingProvider,
+  parseEmbedding,
+  toPgVector,
+} from "./embeddings.ts";
+
+function jsonFetch(status: number, body: unknown, requests: RequestInit[] = []): typeof fetch {
+  return (_input, init) => {
+    requests.push(init || {});
+    return Promise.resolve(new Response(JSON.stringify(body), { status }));
+  };
+}
+
+// ============================================================================
+// Local provider
+// ============================================================================
+
+Deno.test("local embeddings are deterministic and normalized", async () => {
+  const provider = createLocalEmbeddingProvider();
+  const [a] = await provider.embed(['Senate passes border security bill']);
+  const [b] = await provider.embed(['Senate passes border security bill']);
+
+  assertEquals(a.length, EMBEDDING_DIMENSIONS);
+  assertEquals(a, b);
+  assertEquals(Math.round(a.reduce((sum, v) => sum + v * v, 0) * 1e6) / 1e6, 1);
+  assertEquals(provider.model, 'local/hashing-v1@768');
+});
+
+Deno.test("local embeddings rank overlapping text above unrelated text", async () => {
+  const provider = createLocalEmbeddingProvider();
+  const [query, related, unrelated] = await provider.embed([
+    'Senate vote on border security funding bill',
+    'Border security funding bill heads to Senate vote',
+    'Wildfire smoke closes schools in Oregon',
+  ]);
+
+  const relatedScore = cosineSimilarity(query, related);
+  const unrelatedScore = cosineSimilarity(query, unrelated);
+  assertEquals(relatedScore > 0.5, true);
+  assertEquals(unrelatedScore < 0.2, true);
+});
+
+// ============================================================================
+// OpenAI provider
+// ============================================================================
+
+Deno.test("openai provider requests 768 dimensions and restores input order", async () => {
+  const requests: RequestInit[] = [];
+  const provider = createOpenAIEmbeddingProvider({
+    apiKey: 'sk-test',
+    dimensions: 3,
+    fetchImpl: jsonFetch(200, {
+      data: [
+        { index: 1, embedding: [0, 2, 0] },
+        { index: 0, embedding: [3, 0, 4] },
+      ],
+    }, requests),
+  });
+
+  const vectors = await provider.embed(['first', 'second']);
+  assertEquals(vectors, [[0.6, 0, 0.8], [0, 1, 0]]);
+  assertEquals(provider.model, 'openai/text-embedding-3-small@3');
+
+  const body = JSON.parse(String(requests[0].body));
+  assertEquals(body.dimensions, 3);
+  assertEquals(body.input, ['first', 'second']);
+});
+
+Deno.test("openai provider surfaces API errors and wrong dimensions", async () => {
+  const limited = createOpenAIEmbeddingProvider({
+    apiKey: 'sk-test',
+    fetchImpl: jsonFetch(429, { error: { message: 'Rate limit reached' } }),
+  });
+  await assertRejects(() => limited.embed(['x']), EmbeddingProviderError, 'HTTP 429: Rate limit reached');
+
+  const truncated = createOpenAIEmbeddingProvider({
+    apiKey: 'sk-test',
+    fetchImpl: jsonFetch(200, { data: [{ index: 0, embedding: [1, 2] }] }),
+  });
+  await assertRejects(() => truncated.embed(['x']), EmbeddingProviderError, 'Expected 768 dimensions, got 2');
+});
+
+// ============================================================================
+// Selection + pgvector format
+// ============================================================================
+
+Deno.test("getEmbeddingProvider falls back to local without a key", () => {
+  const env = (values: Record<string, string>) => (key: string) => values[key];
+
+  assertEquals(getEmbeddingProvider(env({})).model, 'local/hashing-v1@768');
+  assertEquals(getEmbeddingProvider(env({ OPENAI_API_KEY: 'sk' })).model, 'openai/text-embedding-3-small@768');
+  assertEquals(getEmbeddingProvider(env({ OPENAI_API_KEY: 'sk', EMBEDDING_PROVIDER: 'local' })).remote, false);
+});
+
+Deno.test("parseEmbedding round-trips the pgvector text format", () => {
+  assertEquals(parseEmbedding(toPgVector([0.5, -0.25, 1])), [0.5, -0.25, 1]);
+  assertEquals(parseEmbedding([1, 2]), [1, 2]);
+  assertEquals(parseEmbedding('[1,abc]'), null);
+  assertEquals(parseEmbedding(null), null);
+});
+
+// ============================================================================
+// Cluster thresholds
+// ============================================================================
+
+Deno.test("cluster threshold depends on the embedding model", () => {
+  assertEquals(clusterSimilarityThreshold('openai/text-embedding-3-small@768'), 0.78);
+  assertEquals(clusterSimilarityThreshold('local/hashing-v1@768'), 0.7);
+  assertEquals(clusterSimilarityThreshold('other/model@768'), 0.82);
+});
+
+Deno.test("local embeddings cluster reworded headlines but not unrelated ones", async () => {
+  const provider = createLocalEmbeddingProvider();
+  const threshold = clusterSimilarityThreshold(provider.model);
+  const [a, b, c] = await provider.embed([
+    'Senate passes border security bill',
+    'Senate passes border security bill after late vote',
+    'Governor signs education funding plan',
+  ]);
+
+  assertEquals(cosineSimilarity(a, b) >= threshold, true);
+  assertEquals(cosineSimilarity(a, c) >= threshold, false);
+});
@@ -0,0 +1,256 @@
+/**
+ * Embedding providers for semantic matching (org profiles, trend events).
+ *
+ * Two implementations behind one interface:
+ * - OpenAI's /v1/embeddings endpoint (text-embedding-3-small, truncated to the
+ *   768 dimensions our pgvector columns use)
+ * - A deterministic local feature-hashing embedder that needs no network, used
+ *   when no API key is configured
+ *
+ * Vectors from different models are not comparable, so every stored vector is
+ * tagged with `provider.model` (embedding_model column) and readers must only
+ * compare vectors that share a model.
+ */
+
+export const EMBEDDING_DIMENSIONS = 768;
+
+// OpenAI accepts up to 2048 inputs per request; smaller batches keep payloads sane
+export const EMBEDDING_BATCH_SIZE = 64;
+
+// Roughly 2k tokens; org profiles and trend summaries are far shorter
+const MAX_INPUT_CHARS = 8000;
+
+export interface EmbeddingProvider {
+  /** Versioned model id stored alongside each vector, e.g. "openai/text-embedding-3-small@768" */
+  model: string;
+  dimensions: number;
+  /** True when calls leave the process (callers pace these) */
+  remote: boolean;
+  /** Embeds each text; returned vectors are L2-normalized and in input order */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class EmbeddingProviderError extends Error {
+  constructor(message: string, public status = 0) {
+    super(message);
+    this.name = 'EmbeddingProviderError';
+  }
+
+  get rateLimited(): boolean {
+    return this.status === 429;
+  }
+}
+
+// ============================================================================
+// Vector helpers
+// ============================================================================
+
+export function normalizeVector(vector: number[]): number[] {
+  const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return magnitude > 0 ? vector.map(v => v / magnitude) : vector;
+}
+
+export function cosineSimilarity(a: number[] | null | undefined, b: number[] | null | undefined): number {
+  if (!a || !b || a.length !== b.length || a.length === 0) return 0;
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
+  return magnitude > 0 ? dotProduct / magnitude : 0;
+}
+
+// Cosine similarity at which two trend phrases count as the same story. The
+// scales differ by model: OpenAI vectors put paraphrases around 0.75-0.85,
+// while the hashing embedder only scores that high on heavy word overlap.
+const CLUSTER_SIMILARITY_THRESHOLDS: Array<{ prefix: string; threshold: number }> = [
+  { prefix: 'openai/', threshold: 0.78 },
+  { prefix: 'local/hashing-', threshold: 0.7 },
+];
+const DEFAULT_CLUSTER_SIMILARITY_THRESHOLD = 0.82;
+
+/** Phrase-clustering threshold for vectors produced by `model` */
+export function clusterSimilarityThreshold(model: string): number {
+  const match = CLUSTER_SIMILARITY_THRESHOLDS.find(t => model.startsWith(t.prefix));
+  return match ? match.threshold : DEFAULT_CLUSTER_SIMILARITY_THRESHOLD;
+}
+
+/** pgvector text format, as accepted by PostgREST for vector columns */
+export function toPgVector(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
+
+/** PostgREST returns vector columns as "[x,y,...]" strings */
+export function parseEmbedding(embedding: unknown): number[] | null {
+  if (!embedding) return null;
+  if (Array.isArray(embedding)) return embedding.map(Number);
+  if (typeof embedding !== 'string') return null;
+
+  const values = embedding.replace(/^\[|\]$/g, '').split(',').map(Number);
+  return values.length > 0 && values.every(Number.isFinite) ? values : null;
+}
+
+function prepareInput(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().substring(0, MAX_INPUT_CHARS);
+}
+
+// ============================================================================
+// OpenAI
+// ============================================================================
+
+export interface OpenAIEmbeddingOptions {
+  apiKey: string;
+  model?: string;
+  dimensions?: number;
+  baseUrl?: string;
+  fetchImpl?: typeof fetch;
+}
+
+export function createOpenAIEmbeddingProvider(options: OpenAIEmbeddingOptions): EmbeddingProvider {
+  const model = options.model || 'text-embedding-3-small';
+  const dimensions = options.dimensions || EMBEDDING_DIMENSIONS;
+  const baseUrl = (options.baseUrl || 'https://api.openai.com/v1').replace(/\/$/, '');
+  const fetchImpl = options.fetchImpl || fetch;
+
+  return {
+    model: `openai/${model}@${dimensions}`,
+    dimensions,
+    remote: true,
+    async embed(texts) {
+      if (texts.length === 0) return [];
+
+      const response = await fetchImpl(`${baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${options.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model, dimensions, input: texts.map(prepareInput) }),
+      });
+
+      if (!response.ok) {
+        const body = await response.text();
+        let detail = body.substring(0, 300);
+        try {
+          detail = JSON.parse(body)?.error?.message || detail;
+        } catch {
+          // Not JSON; keep the raw text
+        }
+        throw new EmbeddingProviderError(`HTTP ${response.status}: ${detail}`, response.status);
+      }
+
+      const data = await response.json();
+      const rows: Array<{ index: number; embedding: number[] }> = data?.data || [];
+      if (rows.length !== texts.length) {
+        throw new EmbeddingProviderError(`Expected ${texts.length} embeddings, got ${rows.length}`);
+      }
+
+      return [...rows]
+        .sort((a, b) => a.index - b.index)
+        .map(row => {
+          if (row.embedding?.length !== dimensions) {
+            throw new EmbeddingProviderError(`Expected ${dimensions} dimensions, got ${row.embedding?.length}`);
+          }
+          return normalizeVector(row.embedding);
+        });
+    },
+  };
+}
+
+// ============================================================================
+// Local fallback (feature hashing)
+// ============================================================================
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was', 'were', 'will', 'with',
+]);
+
+// FNV-1a 32-bit
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function tokenizeForEmbedding(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/**
+ * Hashes unigrams and bigrams into a fixed-size signed vector with sublinear
+ * term weighting. Lexical rather than semantic, but deterministic, free, and
+ * comparable across runs, which the LLM-generated vectors never were.
+ */
+export function createLocalEmbeddingProvider(dimensions = EMBEDDING_DIMENSIONS): EmbeddingProvider {
+  const embedOne = (text: string): number[] => {
+    const tokens = tokenizeForEmbedding(prepareInput(text));
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) || 0) + weight);
+
+    tokens.forEach((token, i) => {
+      add(token, 1);
+      if (i > 0) add(`${tokens[i - 1]} ${token}`, 0.5);
+    });
+
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = hashToken(feature);
+      // Top bit picks the sign so collisions tend to cancel rather than pile up
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % dimensions] += sign * (1 + Math.log(count));
+    }
+    return normalizeVector(vector);
+  };
+
+  return {
+    model: `local/hashing-v1@${dimensions}`,
+    dimensions,
+    remote: false,
+    embed: (texts) => Promise.resolve(texts.map(embedOne)),
+  };
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Picks the provider from environment: OpenAI when OPENAI_API_KEY (or
+ * EMBEDDING_API_KEY) is set, otherwise the local embedder.
+ * EMBEDDING_PROVIDER=local forces the fallback.
+ */
+export function getEmbeddingProvider(
+  getEnv: (key: string) => string | undefined = (key) => Deno.env.get(key),
+  fetchImpl?: typeof fetch
+): EmbeddingProvider {
+  if (getEnv('EMBEDDING_PROVIDER') === 'local') {
+    return createLocalEmbeddingProvider();
+  }
+
+  const apiKey = getEnv('EMBEDDING_API_KEY') || getEnv('OPENAI_API_KEY');
+  if (!apiKey) {
+    return createLocalEmbeddingProvider();
+  }
+
+  return createOpenAIEmbeddingProvider({
+    apiKey,
+    model: getEnv('EMBEDDING_MODEL'),
+    baseUrl: getEnv('EMBEDDING_API_URL'),
+    fetchImpl,
+  });
+}
@@ -0,0 +1,190 @@
+/**
+ * Unit tests for the political entity knowledge base
+ *
+ * Run with: deno test supabase/functions/_shared/entityKnowledgeBase.test.ts
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  buildKnowledgeBaseIndex,
+  entityKeyForName,
+  findEntityMentions,
+  isConfidentResolution,
+  matchKnowledgeBaseEntity,
+  normalizeEntityName,
+  parseCongressMember,
+  planCongressMemberSync,
+  resolveMention,
+  type ExistingPolitician,
+  type KnowledgeBaseEntity,
+} from "./entityKnowledgeBase.ts";
+
+function entity(canonical_name: string, overrides: Partial<KnowledgeBaseEntity> = {}): KnowledgeBaseEntity {
+  return {
+    entity_key: entityKeyForName(canonical_name),
+    canonical_name,
+    entity_type: 'politician',
+    aliases: [],
+    prominence: 0.5,
+    ...overrides,
+  };
+}
+
+const KAMALA_HARRIS = entity('Kamala Harris', { aliases: ['harris'], party: 'D', state: 'CA', office: 'Former Vice President', prominence: 0.85 });
+const ANDY_HARRIS = entity('Andy Harris', {
+  entity_key: 'bioguide:H001052', party: 'R', state: 'MD', district: '1', chamber: 'house',
+  office: 'U.S. Representative', committees: ['Appropriations'], prominence: 0.35,
+});
+const PAT_HARRIS = entity('Pat Harris', { party: 'D', state: 'TX', office: 'State Senator', prominence: 0.2 });
+
+const index = buildKnowledgeBaseIndex([
+  KAMALA_HARRIS,
+  ANDY_HARRIS,
+  PAT_HARRIS,
+  entity('Mike Johnson', { party: 'R', state: 'LA', chamber: 'house', office: 'Speaker of the House', prominence: 0.85 }),
+  entity('Donald Trump', { aliases: ['trump', 'potus'], office: 'President', prominence: 1 }),
+  entity('Immigration and Customs Enforcement', { entity_type: 'agency', aliases: ['ice'] }),
+  entity('Gaza', { entity_type: 'location', aliases: ['gaza strip'] }),
+  entity('Department of Education', { entity_type: 'agency', aliases: ['education department', 'doe'] }),
+  entity('Department of Energy', { entity_type: 'agency', aliases: ['energy department', 'doe'] }),
+]);
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+Deno.test("names normalize to lowercase words without accents or punctuation", () => {
+  assertEquals(normalizeEntityName('Alexandria Ocasio-Cortez'), 'alexandria ocasio cortez');
+  assertEquals(normalizeEntityName("  Sen. Ben Ray Luján's "), 'sen ben ray lujan s');
+  assertEquals(entityKeyForName('U.S. Citizenship and Immigration Services'), 'kb:u-s-citizenship-and-immigration-services');
+});
+
+// ============================================================================
+// Resolving a mention
+// ============================================================================
+
+Deno.test("a bare alias resolves to the most prominent namesake", () => {
+  const resolution = resolveMention(index, 'Harris');
+  assertEquals(resolution?.entity.entity_key, KAMALA_HARRIS.entity_key);
+  assert(isConfidentResolution(resolution));
+  assertEquals(resolution!.alternatives.map((a) => a.entity_key).sort(), [ANDY_HARRIS.entity_key, PAT_HARRIS.entity_key].sort());
+});
+
+Deno.test("a title picks the namesake who holds that office", () => {
+  const rep = resolveMention(index, 'Rep. Harris');
+  assertEquals(rep?.entity.entity_key, ANDY_HARRIS.entity_key);
+  assert(isConfidentResolution(rep));
+
+  const stateSenator = resolveMention(index, 'State Sen. Harris');
+  assertEquals(stateSenator?.entity.entity_key, PAT_HARRIS.entity_key);
+  assert(isConfidentResolution(stateSenator));
+});
+
+Deno.test("context that points at a lesser-known namesake makes the mention ambiguous", () => {
+  const resolution = resolveMention(index, 'Harris', { text: 'Maryland Republicans rally behind Harris' });
+  assert(resolution?.ambiguous);
+  assert(!isConfidentResolution(resolution));
+
+  assert(resolveMention(index, 'Harris', { states: ['Maryland'] })?.ambiguous);
+
+  const byFirstName = resolveMention(index, 'Harris', { text: 'Andy Harris says the farm bill is dead' });
+  assertEquals(byFirstName?.entity.entity_key, ANDY_HARRIS.entity_key);
+});
+
+Deno.test("entities sharing an alias with equal standing are ambiguous", () => {
+  const resolution = resolveMention(index, 'DOE');
+  assert(resolution?.ambiguous);
+});
+
+Deno.test("unknown mentions do not resolve", () => {
+  assertEquals(resolveMention(index, 'Governor'), null);
+  assertEquals(resolveMention(index, 'Scott'), null);
+});
+
+// ============================================================================
+// Scanning text
+// ============================================================================
+
+Deno.test("finds names, aliases and titled surnames in text", () => {
+  const mentions = findEntityMentions(index, 'Speaker Mike Johnson and Trump clash over ICE funding in Gaza');
+  assertEquals(mentions.map((m) => m.entity.canonical_name), [
+    'Mike Johnson', 'Donald Trump', 'Immigration and Customs Enforcement', 'Gaza',
+  ]);
+  assertEquals(mentions[0].matchedOn, 'Speaker Mike Johnson');
+  assertEquals(mentions[0].position, 0);
+});
+
+Deno.test("short aliases must look like names", () => {
+  assertEquals(findEntityMentions(index, 'An ice storm hits the plains').length, 0);
+  assertEquals(findEntityMentions(index, 'ICE expands detention').length, 1);
+});
+
+Deno.test("bare surnames without an alias or title find nothing", () => {
+  assertEquals(findEntityMentions(index, 'Johnson signs the bill').length, 0);
+});
+
+Deno.test("a watched namesake conflicts with mentions of someone else", () => {
+  const aboutTheVp = matchKnowledgeBaseEntity(index, PAT_HARRIS.entity_key, 'Harris campaigns in Iowa');
+  assertEquals(aboutTheVp.status, 'conflict');
+
+  const aboutTheSenator = matchKnowledgeBaseEntity(index, PAT_HARRIS.entity_key, 'State Sen. Harris files a border bill');
+  assertEquals(aboutTheSenator.status, 'match');
+
+  assertEquals(matchKnowledgeBaseEntity(index, PAT_HARRIS.entity_key, 'Senate passes budget').status, 'none');
+});
+
+// ============================================================================
+// Congress.gov members
+// ============================================================================
+
+Deno.test("parses member list items and bill sponsors", () => {
+  assertEquals(parseCongressMember({
+    bioguideId: 'H001052',
+    district: 1,
+    name: 'Harris, Andy',
+    partyName: 'Republican',
+    state: 'Maryland',
+    terms: { item: [{ chamber: 'House of Representatives', startYear: 2011 }] },
+  }), {
+    bioguide_id: 'H001052', first_name: 'Andy', last_name: 'Harris', nickname: null,
+    party: 'R', state: 'MD', district: '1', chamber: 'house',
+  });
+
+  const sponsor = parseCongressMember({
+    bioguideId: 'W000817', firstName: 'Elizabeth', lastName: 'Warren',
+    fullName: 'Sen. Warren, Elizabeth [D-MA]', party: 'D', state: 'MA',
+  });
+  assertEquals(sponsor?.chamber, 'senate');
+  assertEquals(sponsor?.party, 'D');
+
+  const nicknamed = parseCongressMember({ bioguideId: 'C001103', name: 'Carter, Earl L. "Buddy"', state: 'Georgia', district: 1 });
+  assertEquals([nicknamed?.first_name, nicknamed?.nickname], ['Earl', 'Buddy']);
+
+  assertEquals(parseCongressMember({ name: 'No, Id' }), null);
+});
+
+Deno.test("sync links members to existing rows and keeps curated fields", () => {
+  const existing: ExistingPolitician[] = [
+    { entity_key: 'kb:bernie-sanders', canonical_name: 'Bernie Sanders', aliases: ['bernie'], bioguide_id: 'S000033', state: 'VT', office: 'U.S. Senator', source: 'seed' },
+    { entity_key: 'kb:chuck-schumer', canonical_name: 'Chuck Schumer', aliases: ['charles schumer'], bioguide_id: null, state: 'NY', office: 'Senate Minority Leader', source: 'seed' },
+    { entity_key: 'kb:mike-lee', canonical_name: 'Mike Lee', aliases: [], bioguide_id: null, state: 'CA', office: 'Mayor', source: 'admin' },
+  ];
+  const members = [
+    parseCongressMember({ bioguideId: 'S000033', name: 'Sanders, Bernard', partyName: 'Independent', state: 'Vermont', terms: { item: [{ chamber: 'Senate' }] } })!,
+    parseCongressMember({ bioguideId: 'S000148', name: 'Schumer, Charles E.', partyName: 'Democratic', state: 'New York', terms: { item: [{ chamber: 'Senate' }] } })!,
+    parseCongressMember({ bioguideId: 'L000577', name: 'Lee, Mike', partyName: 'Republican', state: 'Utah', terms: { item: [{ chamber: 'Senate' }] } })!,
+    parseCongressMember({ bioguideId: 'L000577', name: 'Lee, Mike', partyName: 'Republican', state: 'Utah' })!,
+  ];
+
+  const plan = planCongressMemberSync(members, existing);
+
+  assertEquals(plan.updates.map((u) => [u.entity_key, u.bioguide_id, u.office]), [
+    ['kb:bernie-sanders', 'S000033', 'U.S. Senator'],
+    ['kb:chuck-schumer', 'S000148', 'Senate Minority Leader'],
+  ]);
+  // A namesake in another state is a different person
+  assertEquals(plan.inserts.map((i) => [i.entity_key, i.canonical_name, i.office]), [
+    ['bioguide:L000577', 'Mike Lee', 'U.S. Senator'],
+  ]);
+});
@@ -0,0 +1,771 @@
+/**
+ * Political entity knowledge base
+ *
+ * political_entities holds the people, organizations, agencies, bills and
+ * places we recognise in news and social text: members of Congress kept
+ * current by sync-congress-bills (keyed on bioguide ID), the seed list, and
+ * whatever admins add. Every entity has a stable entity_key that resolutions
+ * and caches refer to.
+ *
+ * Resolving a mention is two steps. The mention is looked up by name, alias
+ * or (after a title such as "Sen." or "Justice") surname; then every
+ * candidate is scored on its prominence plus evidence in the surrounding
+ * text: a matching title, the entity's first name, state, party, office or
+ * committees. A mention only resolves when one candidate clearly beats the
+ * rest: "Harris" alone is the former Vice President, "Rep. Harris" is Andy
+ * Harris, and "Harris" in a story about Maryland is too close to call, so it
+ * is reported as ambiguous instead of guessed.
+ *
+ * When scanning free text, a bare surname is only looked up when it is also
+ * somebody's alias or follows a title; "Scott" or "Young" on their own find
+ * nothing.
+ *
+ * Everything here is pure; entityKnowledgeBaseStore.ts does the database work.
+ */
+
+import { STATE_PATTERNS } from "./politicalEntities.ts";
+
+export const ENTITY_TYPES = ['politician', 'person', 'organization', 'agency', 'legislation', 'location'] as const;
+export type KnowledgeBaseEntityType = typeof ENTITY_TYPES[number];
+
+export interface KnowledgeBaseEntity {
+  entity_key: string;
+  canonical_name: string;
+  entity_type: KnowledgeBaseEntityType;
+  aliases: string[];
+  surname?: string | null;
+  party?: string | null;
+  /** Two-letter postal code */
+  state?: string | null;
+  district?: string | null;
+  /** 'senate' | 'house' for members of Congress */
+  chamber?: string | null;
+  office?: string | null;
+  committees?: string[] | null;
+  policy_domains?: string[] | null;
+  /** 0-1 prior used to break ties between namesakes */
+  prominence: number;
+}
+
+/** The top candidate must beat the runner-up by this much to resolve */
+export const AMBIGUITY_MARGIN = 0.25;
+
+/** Resolutions below this confidence should not be acted on */
+export const MIN_RESOLUTION_CONFIDENCE = 0.6;
+
+const EVIDENCE_WEIGHTS = {
+  title: 0.8,
+  firstName: 0.6,
+  office: 0.5,
+  state: 0.5,
+  hintedState: 0.4,
+  committee: 0.3,
+  party: 0.2,
+};
+
+/** A title that contradicts the candidate ("Sen." for a House member) */
+const TITLE_MISMATCH_FACTOR = 0.2;
+
+/** Surname-only candidates without any evidence count at half their prominence */
+const BARE_SURNAME_FACTOR = 0.5;
+
+/** How much a lookup can be trusted before scoring, by what it matched */
+const MATCH_STRENGTH = {
+  name: 1,
+  alias: 0.9,
+  surname: 0.8,
+  bareSurname: 0.55,
+};
+
+/** Single-token names up to this length are checked for capitalization in free text */
+const SHORT_NAME_LENGTH = 4;
+
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv']);
+const OFFICE_STOPWORDS = new Set(['u', 's', 'us', 'of', 'the', 'former', 'for']);
+
+const STATE_CODES = new Set(Object.values(STATE_PATTERNS));
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+interface Token {
+  text: string;
+  norm: string;
+  start: number;
+  end: number;
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+function foldToken(token: string): string {
+  return token.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    tokens.push({ text: match[0], norm: foldToken(match[0]), start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+/** Lowercased, accent-free, punctuation-free form used for every lookup */
+export function normalizeEntityName(text: string): string {
+  return tokenize(text).map((t) => t.norm).join(' ');
+}
+
+/** Slug key for entities that are not members of Congress (matches the migration backfill) */
+export function entityKeyForName(canonicalName: string): string {
+  const slug = canonicalName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `kb:${slug}`;
+}
+
+function surnameOf(entity: KnowledgeBaseEntity): string | null {
+  if (entity.entity_type !== 'politician' && entity.entity_type !== 'person') return null;
+  if (entity.surname) return normalizeEntityName(entity.surname);
+  const tokens = normalizeEntityName(entity.canonical_name).split(' ').filter((t) => !NAME_SUFFIXES.has(t));
+  return tokens.length > 1 ? tokens[tokens.length - 1] : null;
+}
+
+function firstNameOf(entity: KnowledgeBaseEntity): string | null {
+  if (entity.entity_type !== 'politician' && entity.entity_type !== 'person') return null;
+  const tokens = normalizeEntityName(entity.canonical_name).split(' ');
+  return tokens.length > 1 ? tokens[0] : null;
+}
+
+// ============================================================================
+// Titles
+// ============================================================================
+
+type TitleRule = (entity: KnowledgeBaseEntity, office: string) => boolean;
+
+const isStateLegislator: TitleRule = (_e, office) =>
+  office.includes('state') && /senat|represent|assembly|delegate|legislat/.test(office);
+const isSenator: TitleRule = (e, office) => e.chamber === 'senate' || office.includes('senat');
+const isRepresentative: TitleRule = (e, office) =>
+  e.chamber === 'house' || /represent|congress|house|assembly/.test(office);
+
+/** Normalized title phrase -> does the candidate hold that kind of office */
+const TITLES: Record<string, TitleRule> = {
+  'state sen': isStateLegislator,
+  'state senator': isStateLegislator,
+  'state rep': isStateLegislator,
+  'state representative': isStateLegislator,
+  'assemblymember': isStateLegislator,
+  'assemblyman': isStateLegislator,
+  'assemblywoman': isStateLegislator,
+  'vice president': (_e, office) => office.includes('vice president'),
+  'vp': (_e, office) => office.includes('vice president'),
+  'president': (_e, office) => office.includes('president') && !office.includes('vice'),
+  'sen': isSenator,
+  'senator': isSenator,
+  'rep': isRepresentative,
+  'representative': isRepresentative,
+  'congressman': isRepresentative,
+  'congresswoman': isRepresentative,
+  'gov': (_e, office) => office.includes('governor'),
+  'governor': (_e, office) => office.includes('governor'),
+  'speaker': (_e, office) => office.includes('speaker'),
+  'leader': (_e, office) => office.includes('leader'),
+  'justice': (_e, office) => office.includes('justice'),
+  'chief justice': (_e, office) => office.includes('chief justice'),
+  'judge': (_e, office) => /judge|justice/.test(office),
+  'secretary': (_e, office) => office.includes('secretary'),
+  'attorney general': (_e, office) => office.includes('attorney general'),
+  'mayor': (_e, office) => office.includes('mayor'),
+};
+
+interface DetectedTitle {
+  phrase: string;
+  rule: TitleRule;
+  /** Number of tokens the title spans */
+  length: number;
+}
+
+function titleAt(norms: string[], start: number, end: number): DetectedTitle | null {
+  // Longest title first so "state senator" wins over "senator"
+  for (let length = 2; length >= 1; length--) {
+    const from = end - length;
+    if (from < start) continue;
+    const phrase = norms.slice(from, end).join(' ');
+    const rule = TITLES[phrase];
+    if (rule) return { phrase, rule, length };
+  }
+  return null;
+}
+
+// ============================================================================
+// Index
+// ============================================================================
+
+type MatchKind = 'name' | 'alias';
+
+export interface KnowledgeBaseIndex {
+  entities: Map<string, KnowledgeBaseEntity>;
+  /** Normalized name or alias -> entity_key -> how it matched */
+  names: Map<string, Map<string, MatchKind>>;
+  /** Normalized surname -> entity keys */
+  surnames: Map<string, string[]>;
+  /** Short single-token names -> the capitalizations they may appear in */
+  shortNameForms: Map<string, Set<string>>;
+  /** Longest name, in tokens */
+  maxNameTokens: number;
+}
+
+export function buildKnowledgeBaseIndex(entities: KnowledgeBaseEntity[]): KnowledgeBaseIndex {
+  const index: KnowledgeBaseIndex = {
+    entities: new Map(),
+    names: new Map(),
+    surnames: new Map(),
+    shortNameForms: new Map(),
+    maxNameTokens: 1,
+  };
+
+  const addName = (raw: string, key: string, kind: MatchKind) => {
+    const norm = normalizeEntityName(raw);
+    if (!norm) return;
+    const keys = index.names.get(norm) ?? new Map<string, MatchKind>();
+    if (keys.get(key) !== 'name') keys.set(key, kind);
+    index.names.set(norm, keys);
+    index.maxNameTokens = Math.max(index.maxNameTokens, norm.split(' ').length);
+  };
+
+  for (const entity of entities) {
+    const key = entity.entity_key;
+    index.entities.set(key, entity);
+    addName(entity.canonical_name, key, 'name');
+    for (const alias of entity.aliases || []) addName(alias, key, 'alias');
+
+    const surname = surnameOf(entity);
+    if (surname) {
+      const keys = index.surnames.get(surname) ?? [];
+      keys.push(key);
+      index.surnames.set(surname, keys);
+    }
+
+    // Short names may appear as written here ("Cruz"); lowercase aliases like "ice" need "ICE"
+    for (const token of tokenize(entity.canonical_name)) {
+      if (token.norm.length > SHORT_NAME_LENGTH) continue;
+      const forms = index.shortNameForms.get(token.norm) ?? new Set<string>();
+      forms.add(token.text);
+      index.shortNameForms.set(token.norm, forms);
+    }
+  }
+
+  return index;
+}
+
+// ============================================================================
+// Context
+// ============================================================================
+
+export interface ResolutionContext {
+  /** Surrounding text: headline, post, description */
+  text?: string;
+  /** States the caller already knows are relevant (codes or names), e.g. a watchlist geo focus */
+  states?: string[];
+}
+
+interface PreparedContext {
+  /** Normalized text padded with spaces for phrase lookups */
+  padded: string;
+  states: Set<string>;
+  hintedStates: Set<string>;
+  /** Party letters from "(R-MD)" style tags, with their state */
+  partyTags: Array<{ party: string; state: string }>;
+}
+
+const PARTY_TAG_PATTERN = /\b([DRI])\s*-\s*([A-Z]{2})\b/g;
+
+function prepareContext(context: ResolutionContext, extraText = ''): PreparedContext {
+  const text = `${extraText} ${context.text ?? ''}`;
+  const padded = ` ${normalizeEntityName(text)} `;
+
+  const states = new Set<string>();
+  for (const [name, code] of Object.entries(STATE_PATTERNS)) {
+    if (padded.includes(` ${name} `)) states.add(code);
+  }
+
+  const partyTags: Array<{ party: string; state: string }> = [];
+  for (const match of text.matchAll(PARTY_TAG_PATTERN)) {
+    if (!STATE_CODES.has(match[2])) continue;
+    partyTags.push({ party: match[1], state: match[2] });
+    states.add(match[2]);
+  }
+
+  const hintedStates = new Set(
+    (context.states || []).map((s) => STATE_PATTERNS[normalizeEntityName(s)] ?? s.trim().toUpperCase())
+  );
+  return { padded, states, hintedStates, partyTags };
+}
+
+function containsPhrase(context: PreparedContext, phrase: string): boolean {
+  return phrase.length > 0 && context.padded.includes(` ${phrase} `);
+}
+
+function officePhrases(entity: KnowledgeBaseEntity): string[] {
+  const phrases: string[] = [];
+  if (entity.office) {
+    const words = normalizeEntityName(entity.office).split(' ').filter((w) => w && !OFFICE_STOPWORDS.has(w));
+    if (words.length > 0) phrases.push(words.join(' '));
+  }
+  if (entity.chamber === 'senate') phrases.push('senator');
+  if (entity.chamber === 'house') phrases.push('congressman', 'congresswoman', 'representative');
+  return phrases;
+}
+
+/** Evidence for a candidate in the surrounding text, 0 when there is none */
+function contextEvidence(entity: KnowledgeBaseEntity, matched: string, context: PreparedContext): number {
+  let evidence = 0;
+
+  const first = firstNameOf(entity);
+  const surname = surnameOf(entity);
+  if (first && surname && !matched.startsWith(`${first} `) && containsPhrase(context, `${first} ${surname}`)) {
+    evidence += EVIDENCE_WEIGHTS.firstName;
+  }
+  if (officePhrases(entity).some((phrase) => containsPhrase(context, phrase))) {
+    evidence += EVIDENCE_WEIGHTS.office;
+  }
+
+  const state = entity.state?.toUpperCase();
+  if (state && context.states.has(state)) evidence += EVIDENCE_WEIGHTS.state;
+  if (state && context.hintedStates.has(state)) evidence += EVIDENCE_WEIGHTS.hintedState;
+
+  const party = entity.party?.toUpperCase();
+  if (party && context.partyTags.some((tag) => tag.party === party && (!state || tag.state === state))) {
+    evidence += EVIDENCE_WEIGHTS.party;
+  }
+
+  if ((entity.committees || []).some((c) => containsPhrase(context, normalizeEntityName(c).replace(/^(committee on )?(the )?/, '')))) {
+    evidence += EVIDENCE_WEIGHTS.committee;
+  }
+
+  return evidence;
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+type CandidateKind = MatchKind | 'surname';
+
+export interface ResolutionAlternative {
+  entity_key: string;
+  canonical_name: string;
+  score: number;
+}
+
+export interface EntityResolution {
+  entity: KnowledgeBaseEntity;
+  /** The text that matched, including any title */
+  matchedOn: string;
+  confidence: number;
+  /** True when another candidate scored too close to call */
+  ambiguous: boolean;
+  /** The other candidates, best first */
+  alternatives: ResolutionAlternative[];
+}
+
+export interface EntityMention extends EntityResolution {
+  /** Character offset of the match in the scanned text */
+  position: number;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function scoreCandidates(
+  index: KnowledgeBaseIndex,
+  candidates: Map<string, CandidateKind>,
+  matched: string,
+  matchedOn: string,
+  title: DetectedTitle | null,
+  context: PreparedContext
+): EntityResolution | null {
+  const scored: Array<{ entity: KnowledgeBaseEntity; kind: CandidateKind; score: number; evidence: number }> = [];
+
+  for (const [key, kind] of candidates) {
+    const entity = index.entities.get(key);
+    if (!entity) continue;
+
+    let evidence = contextEvidence(entity, matched, context);
+    let score = Math.min(Math.max(entity.prominence ?? 0.5, 0), 1);
+    if (title) {
+      const office = normalizeEntityName(entity.office ?? '');
+      if (title.rule(entity, office)) {
+        evidence += EVIDENCE_WEIGHTS.title;
+      } else {
+        score *= TITLE_MISMATCH_FACTOR;
+      }
+    }
+    if (kind === 'surname' && evidence === 0) score *= BARE_SURNAME_FACTOR;
+
+    scored.push({ entity, kind, score: score + evidence, evidence });
+  }
+
+  if (scored.length === 0) return null;
+  scored.sort((a, b) => b.score - a.score || b.entity.prominence - a.entity.prominence);
+
+  const [top, second] = scored;
+  const total = scored.reduce((sum, c) => sum + c.score, 0);
+  const share = total > 0 ? top.score / total : 1 / scored.length;
+  const strength = top.kind === 'surname'
+    ? (top.evidence > 0 ? MATCH_STRENGTH.surname : MATCH_STRENGTH.bareSurname)
+    : MATCH_STRENGTH[top.kind];
+
+  return {
+    entity: top.entity,
+    matchedOn,
+    confidence: round(strength * share),
+    ambiguous: second !== undefined && top.score - second.score < AMBIGUITY_MARGIN,
+    alternatives: scored.slice(1).map((c) => ({
+      entity_key: c.entity.entity_key,
+      canonical_name: c.entity.canonical_name,
+      score: round(c.score),
+    })),
+  };
+}
+
+function candidatesFor(index: KnowledgeBaseIndex, phrase: string, includeSurnames: boolean): Map<string, CandidateKind> {
+  const candidates = new Map<string, CandidateKind>(index.names.get(phrase) ?? []);
+  if (includeSurnames) {
+    for (const key of index.surnames.get(phrase) ?? []) {
+      if (!candidates.has(key)) candidates.set(key, 'surname');
+    }
+  }
+  return candidates;
+}
+
+/** Safe to act on: confident and not a coin flip between namesakes */
+export function isConfidentResolution(resolution: EntityResolution | null | undefined): resolution is EntityResolution {
+  return !!resolution && !resolution.ambiguous && resolution.confidence >= MIN_RESOLUTION_CONFIDENCE;
+}
+
+/**
+ * Resolve one mention that is already known to be an entity ("Harris",
+ * "Sen. Warren", "doj"), using the context to choose between namesakes.
+ * Surnames always count here; bare ones resolve with low confidence unless
+ * the context backs them up.
+ */
+export function resolveMention(
+  index: KnowledgeBaseIndex,
+  mention: string,
+  context: ResolutionContext = {}
+): EntityResolution | null {
+  const norms = tokenize(mention.replace(/^[#@]/, '')).map((t) => t.norm);
+  if (norms.length === 0) return null;
+
+  let title: DetectedTitle | null = null;
+  let rest = norms;
+  for (let length = Math.min(2, norms.length - 1); length >= 1; length--) {
+    const rule = TITLES[norms.slice(0, length).join(' ')];
+    if (rule) {
+      title = { phrase: norms.slice(0, length).join(' '), rule, length };
+      rest = norms.slice(length);
+      break;
+    }
+  }
+
+  const phrase = rest.join(' ');
+  let candidates = candidatesFor(index, phrase, true);
+  if (candidates.size === 0 && title) {
+    // "President Trump" may itself be an alias
+    title = null;
+    candidates = candidatesFor(index, norms.join(' '), true);
+  }
+  if (candidates.size === 0) return null;
+
+  return scoreCandidates(index, candidates, phrase, mention.trim(), title, prepareContext(context));
+}
+
+/**
+ * Short tokens are often ordinary words (ice, sec, fed), so
+ * three letters or fewer must be in caps (ICE, DOJ) or written as in a
+ * canonical name, and four letters must at least be capitalized (Gaza, Dems).
+ */
+function looksLikeName(token: Token, forms: Set<string> | undefined): boolean {
+  if (token.norm.length > SHORT_NAME_LENGTH) return true;
+  if (token.text === token.text.toUpperCase() || forms?.has(token.text)) return true;
+  return token.norm.length === SHORT_NAME_LENGTH && /^\p{Lu}/u.test(token.text);
+}
+
+/**
+ * Find every knowledge base entity mentioned in free text. The text itself
+ * is the disambiguation context; context.text can add more (e.g. the rest
+ * of an article when scanning its headline).
+ */
+export function findEntityMentions(
+  index: KnowledgeBaseIndex,
+  text: string,
+  context: ResolutionContext = {}
+): EntityMention[] {
+  const tokens = tokenize(text);
+  const norms = tokens.map((t) => t.norm);
+  const prepared = prepareContext(context, text);
+  const mentions: EntityMention[] = [];
+
+  let i = 0;
+  while (i < tokens.length) {
+    let consumed = 0;
+    const title = titleAt(norms, Math.max(0, i - 2), i);
+
+    for (let length = Math.min(index.maxNameTokens, tokens.length - i); length >= 1; length--) {
+      const phrase = norms.slice(i, i + length).join(' ');
+
+      let candidates = new Map<string, CandidateKind>(index.names.get(phrase) ?? []);
+      if (candidates.size > 0 && length === 1 && !looksLikeName(tokens[i], index.shortNameForms.get(phrase))) {
+        candidates = new Map();
+      }
+      // Namesakes compete with an alias; otherwise surnames need a title in front
+      if (title || candidates.size > 0) {
+        candidates = new Map([...candidatesFor(index, phrase, true), ...candidates]);
+      }
+      if (candidates.size === 0) continue;
+
+      const startToken = title ? i - title.length : i;
+      const start = tokens[startToken].start;
+      const end = tokens[i + length - 1].end;
+      const resolution = scoreCandidates(index, candidates, phrase, text.slice(start, end), title, prepared);
+      if (resolution) {
+        mentions.push({ ...resolution, position: start });
+        consumed = length;
+        break;
+      }
+    }
+
+    i += consumed || 1;
+  }
+
+  return mentions;
+}
+
+/**
+ * Whether text talks about a specific entity. 'conflict' means a name the
+ * entity shares was found but resolved to someone else (the VP, not the
+ * state senator we watch), which callers should treat as a non-match.
+ */
+export function matchKnowledgeBaseEntity(
+  index: KnowledgeBaseIndex,
+  entityKey: string,
+  text: string,
+  context: ResolutionContext = {}
+): { status: 'match' | 'conflict' | 'none'; confidence: number; matchedOn?: string } {
+  const mentions = findEntityMentions(index, text, context);
+  let best: EntityMention | null = null;
+  let conflict = false;
+
+  for (const mention of mentions) {
+    if (mention.entity.entity_key === entityKey) {
+      // An ambiguous mention of the entity is neither a match nor a conflict
+      if (!mention.ambiguous && (!best || mention.confidence > best.confidence)) best = mention;
+    } else if (mention.alternatives.some((a) => a.entity_key === entityKey)) {
+      conflict = true;
+    }
+  }
+
+  if (best) return { status: 'match', confidence: best.confidence, matchedOn: best.matchedOn };
+  return { status: conflict ? 'conflict' : 'none', confidence: 0 };
+}
+
+// ============================================================================
+// Congress.gov members
+// ============================================================================
+
+export interface CongressMemberRecord {
+  bioguide_id: string;
+  first_name: string;
+  last_name: string;
+  nickname: string | null;
+  party: string | null;
+  state: string | null;
+  district: string | null;
+  chamber: 'senate' | 'house' | null;
+}
+
+const PARTY_CODES: Record<string, string> = {
+  democratic: 'D',
+  democrat: 'D',
+  republican: 'R',
+  independent: 'I',
+};
+
+function asString(value: unknown): string | null {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return null;
+}
+
+function parseChamber(raw: Record<string, unknown>): 'senate' | 'house' | null {
+  const terms = (raw.terms as { item?: Array<{ chamber?: string }> } | undefined)?.item;
+  const latest = Array.isArray(terms) && terms.length > 0 ? terms[terms.length - 1].chamber : undefined;
+  const chamber = (latest ?? '').toLowerCase();
+  if (chamber.includes('senate')) return 'senate';
+  if (chamber.includes('house')) return 'house';
+
+  // Sponsors carry no terms, only "Sen. Warren, Elizabeth [D-MA]"
+  const fullName = (asString(raw.fullName) ?? '').toLowerCase();
+  if (fullName.startsWith('sen.')) return 'senate';
+  if (fullName.startsWith('rep.')) return 'house';
+  return asString(raw.district) ? 'house' : null;
+}
+
+/**
+ * Normalize a Congress.gov member: an item from /member, or a bill sponsor
+ * or cosponsor. Names come as firstName/lastName or "Last, First M." with an
+ * optional quoted nickname ("Carter, Earl L. \"Buddy\"").
+ */
+export function parseCongressMember(raw: Record<string, unknown>): CongressMemberRecord | null {
+  const bioguideId = asString(raw.bioguideId);
+  if (!bioguideId) return null;
+
+  const listedName = asString(raw.name) ?? asString(raw.fullName) ?? '';
+  const nickname = listedName.match(/"([^"]+)"/)?.[1]?.trim() ?? null;
+
+  let firstName = asString(raw.firstName);
+  let lastName = asString(raw.lastName);
+  if ((!firstName || !lastName) && listedName.includes(',')) {
+    const [last, rest] = listedName
+      .replace(/^(Sen|Rep|Del|Resident Commissioner)\.?\s+/i, '')
+      .replace(/\[.*?\]/g, '')
+      .split(',', 2);
+    lastName = lastName ?? last.trim();
+    firstName = firstName ?? rest?.replace(/"[^"]*"/g, '').trim().split(/\s+/)[0] ?? null;
+  }
+  if (!firstName || !lastName) return null;
+
+  const partyRaw = asString(raw.party) ?? asString(raw.partyName);
+  const party = partyRaw
+    ? (partyRaw.length <= 2 ? partyRaw.toUpperCase() : PARTY_CODES[partyRaw.toLowerCase()] ?? partyRaw[0].toUpperCase())
+    : null;
+
+  const stateRaw = asString(raw.state);
+  const state = stateRaw
+    ? (stateRaw.length === 2 ? stateRaw.toUpperCase() : STATE_PATTERNS[stateRaw.toLowerCase()] ?? null)
+    : null;
+
+  return {
+    bioguide_id: bioguideId,
+    first_name: firstName,
+    last_name: lastName,
+    nickname,
+    party,
+    state,
+    district: asString(raw.district),
+    chamber: parseChamber(raw),
+  };
+}
+
+/** Knowledge base row for a member of Congress seen for the first time */
+export function congressMemberToEntity(member: CongressMemberRecord): KnowledgeBaseEntity & { bioguide_id: string } {
+  const displayFirst = member.nickname ?? member.first_name;
+  const aliases = member.nickname && member.nickname !== member.first_name
+    ? [`${member.first_name} ${member.last_name}`]
+    : [];
+
+  return {
+    entity_key: `bioguide:${member.bioguide_id}`,
+    bioguide_id: member.bioguide_id,
+    canonical_name: `${displayFirst} ${member.last_name}`,
+    entity_type: 'politician',
+    aliases,
+    surname: member.last_name,
+    party: member.party,
+    state: member.state,
+    district: member.chamber === 'house' ? member.district : null,
+    chamber: member.chamber,
+    office: member.chamber === 'senate' ? 'U.S. Senator' : member.chamber === 'house' ? 'U.S. Representative' : null,
+    committees: [],
+    policy_domains: [],
+    prominence: member.chamber === 'senate' ? 0.5 : 0.35,
+  };
+}
+
+export interface ExistingPolitician {
+  entity_key: string;
+  canonical_name: string;
+  aliases: string[] | null;
+  bioguide_id: string | null;
+  state: string | null;
+  office: string | null;
+  source: string;
+}
+
+export interface CongressMemberSyncPlan {
+  inserts: Array<KnowledgeBaseEntity & { bioguide_id: string }>;
+  /** Existing rows to refresh, with the facts Congress.gov owns */
+  updates: Array<{
+    entity_key: string;
+    canonical_name: string;
+    bioguide_id: string;
+    party: string | null;
+    state: string | null;
+    district: string | null;
+    chamber: string | null;
+    office: string | null;
+  }>;
+}
+
+/**
+ * Decide which members are new and which update an existing row. Members
+ * attach to rows with their bioguide ID, or else to a politician without
+ * one whose name or alias matches and whose state does not disagree (seed
+ * and admin rows created before the member was synced). Curated fields
+ * (aliases, prominence, committees, notes) are never part of an update,
+ * and office is only rewritten on rows the sync created.
+ */
+export function planCongressMemberSync(
+  members: CongressMemberRecord[],
+  existing: ExistingPolitician[]
+): CongressMemberSyncPlan {
+  const byBioguide = new Map(existing.filter((e) => e.bioguide_id).map((e) => [e.bioguide_id!, e]));
+  const unlinkedByName = new Map<string, ExistingPolitician[]>();
+  for (const row of existing) {
+    if (row.bioguide_id) continue;
+    for (const name of [row.canonical_name, ...(row.aliases || [])]) {
+      const norm = normalizeEntityName(name);
+      unlinkedByName.set(norm, [...(unlinkedByName.get(norm) ?? []), row]);
+    }
+  }
+
+  const plan: CongressMemberSyncPlan = { inserts: [], updates: [] };
+  const claimed = new Set<string>();
+  const seen = new Set<string>();
+
+  for (const member of members) {
+    if (seen.has(member.bioguide_id)) continue;
+    seen.add(member.bioguide_id);
+
+    let row = byBioguide.get(member.bioguide_id);
+    if (!row) {
+      const names = [member.first_name, member.nickname]
+        .filter((n): n is string => !!n)
+        .map((first) => normalizeEntityName(`${first} ${member.last_name}`));
+      row = names
+        .flatMap((name) => unlinkedByName.get(name) ?? [])
+        .find((r) => !claimed.has(r.entity_key) && (!r.state || !member.state || r.state === member.state));
+    }
+
+    const entity = congressMemberToEntity(member);
+    if (!row) {
+      plan.inserts.push(entity);
+      continue;
+    }
+
+    claimed.add(row.entity_key);
+    plan.updates.push({
+      entity_key: row.entity_key,
+      canonical_name: row.canonical_name,
+      bioguide_id: member.bioguide_id,
+      party: member.party,
+      state: member.state,
+      district: entity.district ?? null,
+      chamber: member.chamber,
+      office: row.source === 'congress' || !row.office ? entity.office ?? null : row.office,
+    });
+  }
+
+  return plan;
+}
@@ -0,0 +1,90 @@
+/**
+ * Supabase-backed political entity knowledge base (see
+ * entityKnowledgeBase.ts for how mentions are resolved).
+ *
+ * entity-resolver, extract-trend-entities, match-entity-watchlist and
+ * detect-trend-events load the active entities once per run;
+ * sync-congress-bills keeps members of Congress current.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildKnowledgeBaseIndex,
+  planCongressMemberSync,
+  type CongressMemberRecord,
+  type ExistingPolitician,
+  type KnowledgeBaseEntity,
+  type KnowledgeBaseIndex,
+} from "./entityKnowledgeBase.ts";
+import { fetchAll, inBatches } from "./paging.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+const KNOWLEDGE_BASE_COLUMNS =
+  'entity_key, canonical_name, entity_type, aliases, surname, party, state, district, chamber, office, committees, policy_domains, prominence';
+
+/** Active knowledge base entities */
+export async function loadKnowledgeBase(supabase: SupabaseClient): Promise<KnowledgeBaseEntity[]> {
+  const rows = await fetchAll<KnowledgeBaseEntity>((from, to) =>
+    supabase
+      .from('political_entities')
+      .select(KNOWLEDGE_BASE_COLUMNS)
+      .eq('active', true)
+      .order('entity_key')
+      .range(from, to)
+  );
+  return rows.map((row) => ({
+    ...row,
+    aliases: row.aliases || [],
+    prominence: Number(row.prominence ?? 0.5),
+  }));
+}
+
+export async function loadKnowledgeBaseIndex(supabase: SupabaseClient): Promise<KnowledgeBaseIndex> {
+  return buildKnowledgeBaseIndex(await loadKnowledgeBase(supabase));
+}
+
+/**
+ * Add new members of Congress and refresh party, state, district and
+ * chamber on the ones we know (see planCongressMemberSync).
+ */
+export async function syncCongressMembers(
+  supabase: SupabaseClient,
+  members: CongressMemberRecord[]
+): Promise<{ inserted: number; updated: number }> {
+  if (members.length === 0) return { inserted: 0, updated: 0 };
+
+  // Inactive rows count too, so a retired entity is not re-created
+  const existing = await fetchAll<ExistingPolitician>((from, to) =>
+    supabase
+      .from('political_entities')
+      .select('entity_key, canonical_name, aliases, bioguide_id, state, office, source')
+      .eq('entity_type', 'politician')
+      .order('entity_key')
+      .range(from, to)
+  );
+
+  const plan = planCongressMemberSync(members, existing);
+  const syncedAt = new Date().toISOString();
+
+  await inBatches(plan.inserts, (batch) =>
+    supabase
+      .from('political_entities')
+      .upsert(
+        batch.map((entity) => ({ ...entity, source: 'congress', active: true, last_synced_at: syncedAt })),
+        { onConflict: 'entity_key', ignoreDuplicates: true }
+      )
+  );
+
+  // Only the listed columns are written, so curated fields are left alone
+  await inBatches(plan.updates, (batch) =>
+    supabase
+      .from('political_entities')
+      .upsert(
+        batch.map((update) => ({ ...update, entity_type: 'politician', last_synced_at: syncedAt })),
+        { onConflict: 'entity_key' }
+      )
+  );
+
+  return { inserted: plan.inserts.length, updated: plan.updates.length };
+}
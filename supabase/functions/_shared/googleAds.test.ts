@@ -0,0 +1,157 @@
+/**
+ * Unit tests for the Google Ads sync helpers
+ *
+ * Run with: deno test supabase/functions/_shared/googleAds.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  adIdFromResourceName,
+  buildClickViewQuery,
+  buildMetricsQuery,
+  clickViewDates,
+  extractRefcodeFromUrl,
+  flattenSearchStream,
+  gclidFromRefcode2,
+  googleAdsErrorMessage,
+  isRateLimitError,
+  microsToCurrency,
+  normalizeCustomerId,
+  toClickRow,
+  toMetricRow,
+  type GoogleAdsRow,
+} from "./googleAds.ts";
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+Deno.test("normalizeCustomerId strips dashes and rejects bad ids", () => {
+  assertEquals(normalizeCustomerId("123-456-7890"), "1234567890");
+  assertEquals(normalizeCustomerId(" 1234567890 "), "1234567890");
+  assertEquals(normalizeCustomerId("12345"), null);
+  assertEquals(normalizeCustomerId(undefined), null);
+});
+
+Deno.test("microsToCurrency converts int64 strings to cents precision", () => {
+  assertEquals(microsToCurrency("12345678"), 12.35);
+  assertEquals(microsToCurrency(1_000_000), 1);
+  assertEquals(microsToCurrency(undefined), 0);
+  assertEquals(microsToCurrency("not a number"), 0);
+});
+
+Deno.test("flattenSearchStream merges result batches", () => {
+  const body = [
+    { results: [{ campaign: { id: "1" } }, { campaign: { id: "2" } }] },
+    { results: [{ campaign: { id: "3" } }] },
+    { fieldMask: "campaign.id" },
+  ];
+  assertEquals(flattenSearchStream(body).map(r => r.campaign?.id), ["1", "2", "3"]);
+  assertEquals(flattenSearchStream(null), []);
+});
+
+Deno.test("googleAdsErrorMessage reads array and object error bodies", () => {
+  const quota = [{ error: { code: 429, status: "RESOURCE_EXHAUSTED", message: "Too many requests" } }];
+  assertEquals(googleAdsErrorMessage(quota), "RESOURCE_EXHAUSTED: Too many requests");
+  assertEquals(googleAdsErrorMessage({ error: { code: 401, message: "Bad token" } }), "401: Bad token");
+  assertEquals(googleAdsErrorMessage([{ results: [] }]), null);
+  assertEquals(isRateLimitError("RESOURCE_EXHAUSTED: Too many requests"), true);
+  assertEquals(isRateLimitError("PERMISSION_DENIED: nope"), false);
+});
+
+Deno.test("adIdFromResourceName takes the ad id after the tilde", () => {
+  assertEquals(adIdFromResourceName("customers/123/adGroupAds/456~789"), "789");
+  assertEquals(adIdFromResourceName("customers/123/adGroups/456"), null);
+  assertEquals(adIdFromResourceName(undefined), null);
+});
+
+// ============================================================================
+// GAQL
+// ============================================================================
+
+Deno.test("buildMetricsQuery selects the level's resource and date range", () => {
+  const query = buildMetricsQuery("ad", "2026-02-01", "2026-02-07");
+  assertEquals(query.includes("FROM ad_group_ad"), true);
+  assertEquals(query.includes("ad_group_ad.ad.final_urls"), true);
+  assertEquals(query.includes("segments.date BETWEEN '2026-02-01' AND '2026-02-07'"), true);
+  assertEquals(buildMetricsQuery("campaign", "2026-02-01", "2026-02-01").includes("FROM campaign "), true);
+  assertEquals(buildClickViewQuery("2026-02-03").endsWith("segments.date = '2026-02-03'"), true);
+});
+
+Deno.test("clickViewDates clamps to the 90-day window and today", () => {
+  assertEquals(clickViewDates("2026-02-01", "2026-02-03", "2026-02-10"), ["2026-02-01", "2026-02-02", "2026-02-03"]);
+  assertEquals(clickViewDates("2026-02-09", "2026-02-20", "2026-02-10"), ["2026-02-09", "2026-02-10"]);
+
+  const dates = clickViewDates("2025-01-01", "2026-02-10", "2026-02-10");
+  assertEquals(dates.length, 90);
+  assertEquals(dates[0], "2025-11-13");
+});
+
+// ============================================================================
+// Row mapping
+// ============================================================================
+
+Deno.test("toMetricRow maps each level to its entity id", () => {
+  const row: GoogleAdsRow = {
+    campaign: { id: "111", name: "Search - Brand" },
+    adGroup: { id: "222" },
+    adGroupAd: { ad: { id: "333" } },
+    segments: { date: "2026-02-05" },
+    metrics: { impressions: "1000", clicks: "40", costMicros: "25500000", conversions: 3.5, conversionsValue: 175, videoViews: "0" },
+  };
+
+  const campaign = toMetricRow("campaign", row);
+  assertEquals(campaign?.entity_id, "111");
+  assertEquals(campaign?.ad_group_id, null);
+  assertEquals(campaign?.cost, 25.5);
+  assertEquals(campaign?.conversions, 3.5);
+
+  assertEquals(toMetricRow("ad_group", row)?.entity_id, "222");
+  const ad = toMetricRow("ad", row);
+  assertEquals(ad?.entity_id, "333");
+  assertEquals(ad?.ad_group_id, "222");
+  assertEquals(ad?.clicks, 40);
+});
+
+Deno.test("toMetricRow skips rows without a campaign, date or entity", () => {
+  assertEquals(toMetricRow("campaign", { segments: { date: "2026-02-05" } }), null);
+  assertEquals(toMetricRow("campaign", { campaign: { id: "1" } }), null);
+  assertEquals(toMetricRow("ad", { campaign: { id: "1" }, segments: { date: "2026-02-05" } }), null);
+});
+
+Deno.test("toClickRow captures gclid, keyword and ad", () => {
+  const click = toClickRow({
+    clickView: { gclid: "Cj0KCQiA", adGroupAd: "customers/1/adGroupAds/22~33", keywordInfo: { text: "donate now" } },
+    campaign: { id: "11" },
+    adGroup: { id: "22" },
+    segments: { date: "2026-02-05" },
+  });
+  assertEquals(click, {
+    gclid: "Cj0KCQiA",
+    click_date: "2026-02-05",
+    campaign_id: "11",
+    ad_group_id: "22",
+    ad_id: "33",
+    keyword: "donate now",
+  });
+  assertEquals(toClickRow({ segments: { date: "2026-02-05" } }), null);
+});
+
+// ============================================================================
+// Attribution
+// ============================================================================
+
+Deno.test("extractRefcodeFromUrl reads refcode params from final URLs", () => {
+  assertEquals(extractRefcodeFromUrl("https://secure.actblue.com/donate/blue?refcode=gads_search_0205"), "gads_search_0205");
+  assertEquals(extractRefcodeFromUrl("https://example.org/give?utm_content=yt_spot"), "yt_spot");
+  assertEquals(extractRefcodeFromUrl("https://example.org/give"), null);
+  assertEquals(extractRefcodeFromUrl("not a url?ref=abc"), "abc");
+});
+
+Deno.test("gclidFromRefcode2 only reads the gc_ prefix", () => {
+  assertEquals(gclidFromRefcode2("gc_Cj0KCQiA123"), "Cj0KCQiA123");
+  assertEquals(gclidFromRefcode2("fb_IwZXh0bgNhZW0"), null);
+  assertEquals(gclidFromRefcode2("gc_"), null);
+  assertEquals(gclidFromRefcode2(null), null);
+});
@@ -0,0 +1,268 @@
+/**
+ * Google Ads API helpers shared by sync-google-ads and the ActBlue webhook.
+ *
+ * Everything here is pure: GAQL query builders, searchStream row mapping and
+ * gclid/refcode parsing. Network calls stay in the edge function.
+ */
+
+export const GOOGLE_ADS_API_VERSION = 'v19';
+
+// click_view only answers single-day queries within the last 90 days
+export const CLICK_VIEW_LOOKBACK_DAYS = 90;
+
+// Our redirect stores the gclid in refcode2 behind this prefix (Meta uses fb_)
+export const GCLID_REFCODE2_PREFIX = 'gc_';
+
+export interface GoogleAdsCredentials {
+  developer_token: string;
+  client_id?: string;
+  client_secret?: string;
+  refresh_token: string;
+  customer_id: string;
+  /** Manager (MCC) account the credentials were issued under, if any */
+  login_customer_id?: string;
+}
+
+export type GoogleAdsLevel = 'campaign' | 'ad_group' | 'ad';
+
+export interface GoogleAdsRow {
+  campaign?: { id?: string; name?: string; status?: string; advertisingChannelType?: string };
+  adGroup?: { id?: string; name?: string; status?: string };
+  adGroupAd?: { status?: string; ad?: { id?: string; name?: string; type?: string; finalUrls?: string[] } };
+  segments?: { date?: string; conversionActionName?: string };
+  metrics?: {
+    impressions?: string | number;
+    clicks?: string | number;
+    costMicros?: string | number;
+    conversions?: string | number;
+    conversionsValue?: string | number;
+    videoViews?: string | number;
+  };
+  clickView?: { gclid?: string; adGroupAd?: string; keywordInfo?: { text?: string } };
+}
+
+export interface GoogleAdsMetricRow {
+  level: GoogleAdsLevel;
+  entity_id: string;
+  campaign_id: string;
+  ad_group_id: string | null;
+  ad_id: string | null;
+  date: string;
+  impressions: number;
+  clicks: number;
+  cost: number;
+  conversions: number;
+  conversion_value: number;
+  video_views: number;
+}
+
+export interface GoogleAdsClickRow {
+  gclid: string;
+  click_date: string;
+  campaign_id: string | null;
+  ad_group_id: string | null;
+  ad_id: string | null;
+  keyword: string | null;
+}
+
+// ============================================================================
+// Parsing helpers
+// ============================================================================
+
+/** "123-456-7890" -> "1234567890"; null unless exactly 10 digits */
+export function normalizeCustomerId(value: string | null | undefined): string | null {
+  if (!value) return null;
+  const digits = value.replace(/\D/g, '');
+  return digits.length === 10 ? digits : null;
+}
+
+// The API returns int64 fields as strings
+function toNumber(value: string | number | undefined): number {
+  if (value === undefined || value === null) return 0;
+  const n = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/** Cost is reported in micros of the account currency */
+export function microsToCurrency(micros: string | number | undefined): number {
+  return Math.round(toNumber(micros) / 10_000) / 100;
+}
+
+/** searchStream answers with an array of batches, each holding `results` */
+export function flattenSearchStream(body: unknown): GoogleAdsRow[] {
+  const batches = Array.isArray(body) ? body : [body];
+  const rows: GoogleAdsRow[] = [];
+  for (const batch of batches) {
+    const results = (batch as { results?: GoogleAdsRow[] } | null)?.results;
+    if (Array.isArray(results)) rows.push(...results);
+  }
+  return rows;
+}
+
+/** Error message from a failed API response, or null if it isn't an error */
+export function googleAdsErrorMessage(body: unknown): string | null {
+  const first = Array.isArray(body) ? body[0] : body;
+  const error = (first as { error?: { code?: number; message?: string; status?: string } } | null)?.error;
+  if (!error) return null;
+  return `${error.status || error.code || 'ERROR'}: ${error.message || 'Unknown Google Ads API error'}`;
+}
+
+export function isRateLimitError(message: string | null | undefined): boolean {
+  if (!message) return false;
+  return /RESOURCE_EXHAUSTED|429|rate limit/i.test(message);
+}
+
+// "customers/123/adGroupAds/456~789" -> "789"
+export function adIdFromResourceName(resourceName: string | null | undefined): string | null {
+  if (!resourceName) return null;
+  const match = resourceName.match(/adGroupAds\/\d+~(\d+)$/);
+  return match ? match[1] : null;
+}
+
+// ============================================================================
+// GAQL
+// ============================================================================
+
+const METRIC_FIELDS = [
+  'metrics.impressions',
+  'metrics.clicks',
+  'metrics.cost_micros',
+  'metrics.conversions',
+  'metrics.conversions_value',
+  'metrics.video_views',
+];
+
+const LEVEL_RESOURCES: Record<GoogleAdsLevel, { resource: string; fields: string[] }> = {
+  campaign: {
+    resource: 'campaign',
+    fields: ['campaign.id', 'campaign.name', 'campaign.status', 'campaign.advertising_channel_type'],
+  },
+  ad_group: {
+    resource: 'ad_group',
+    fields: ['campaign.id', 'ad_group.id', 'ad_group.name', 'ad_group.status'],
+  },
+  ad: {
+    resource: 'ad_group_ad',
+    fields: [
+      'campaign.id',
+      'ad_group.id',
+      'ad_group_ad.ad.id',
+      'ad_group_ad.ad.name',
+      'ad_group_ad.ad.type',
+      'ad_group_ad.ad.final_urls',
+      'ad_group_ad.status',
+    ],
+  },
+};
+
+export function buildMetricsQuery(level: GoogleAdsLevel, since: string, until: string): string {
+  const { resource, fields } = LEVEL_RESOURCES[level];
+  return `SELECT ${[...fields, 'segments.date', ...METRIC_FIELDS].join(', ')} ` +
+    `FROM ${resource} WHERE segments.date BETWEEN '${since}' AND '${until}'`;
+}
+
+/** Conversions split by conversion action, per campaign per day */
+export function buildConversionsQuery(since: string, until: string): string {
+  return 'SELECT campaign.id, segments.date, segments.conversion_action_name, ' +
+    'metrics.conversions, metrics.conversions_value ' +
+    `FROM campaign WHERE segments.date BETWEEN '${since}' AND '${until}' AND metrics.conversions > 0`;
+}
+
+export function buildClickViewQuery(date: string): string {
+  return 'SELECT click_view.gclid, click_view.ad_group_ad, click_view.keyword_info.text, ' +
+    `campaign.id, ad_group.id, segments.date FROM click_view WHERE segments.date = '${date}'`;
+}
+
+/** Days in [since, until] that click_view can still answer for, oldest first */
+export function clickViewDates(since: string, until: string, today: string): string[] {
+  const earliest = new Date(`${today}T00:00:00Z`);
+  earliest.setUTCDate(earliest.getUTCDate() - (CLICK_VIEW_LOOKBACK_DAYS - 1));
+
+  const start = new Date(`${since}T00:00:00Z`);
+  const end = new Date(`${until}T00:00:00Z`);
+  const todayDate = new Date(`${today}T00:00:00Z`);
+  const cursor = start < earliest ? earliest : start;
+  const last = end > todayDate ? todayDate : end;
+
+  const dates: string[] = [];
+  while (cursor <= last) {
+    dates.push(cursor.toISOString().split('T')[0]);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return dates;
+}
+
+// ============================================================================
+// Row mapping
+// ============================================================================
+
+export function toMetricRow(level: GoogleAdsLevel, row: GoogleAdsRow): GoogleAdsMetricRow | null {
+  const campaignId = row.campaign?.id;
+  const date = row.segments?.date;
+  if (!campaignId || !date) return null;
+
+  const adGroupId = level === 'campaign' ? null : row.adGroup?.id ?? null;
+  const adId = level === 'ad' ? row.adGroupAd?.ad?.id ?? null : null;
+  const entityId = level === 'campaign' ? campaignId : level === 'ad_group' ? adGroupId : adId;
+  if (!entityId) return null;
+
+  const metrics = row.metrics || {};
+  return {
+    level,
+    entity_id: entityId,
+    campaign_id: campaignId,
+    ad_group_id: adGroupId,
+    ad_id: adId,
+    date,
+    impressions: toNumber(metrics.impressions),
+    clicks: toNumber(metrics.clicks),
+    cost: microsToCurrency(metrics.costMicros),
+    conversions: toNumber(metrics.conversions),
+    conversion_value: toNumber(metrics.conversionsValue),
+    video_views: toNumber(metrics.videoViews),
+  };
+}
+
+export function toClickRow(row: GoogleAdsRow): GoogleAdsClickRow | null {
+  const gclid = row.clickView?.gclid;
+  const date = row.segments?.date;
+  if (!gclid || !date) return null;
+  return {
+    gclid,
+    click_date: date,
+    campaign_id: row.campaign?.id ?? null,
+    ad_group_id: row.adGroup?.id ?? null,
+    ad_id: adIdFromResourceName(row.clickView?.adGroupAd),
+    keyword: row.clickView?.keywordInfo?.text ?? null,
+  };
+}
+
+// ============================================================================
+// Attribution
+// ============================================================================
+
+// Same parameter order sync-meta-ads checks on creative destination URLs
+const REFCODE_PARAMS = ['refcode', 'refCode', 'REFCODE', 'ref_code', 'ref', 'source', 'utm_content'];
+
+/** Refcode carried by an ad's final URL, for refcode_mappings */
+export function extractRefcodeFromUrl(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    for (const param of REFCODE_PARAMS) {
+      const value = parsed.searchParams.get(param);
+      if (value) return value;
+    }
+  } catch {
+    const match = url.match(/[?&](refcode|ref_code|ref|source)=([^&#]+)/i);
+    if (match) return decodeURIComponent(match[2]);
+  }
+  return null;
+}
+
+/** gclid stashed in refcode2 by our redirect ("gc_<gclid>") */
+export function gclidFromRefcode2(refcode2: string | null | undefined): string | null {
+  if (!refcode2?.startsWith(GCLID_REFCODE2_PREFIX)) return null;
+  const gclid = refcode2.substring(GCLID_REFCODE2_PREFIX.length);
+  return gclid || null;
+}
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for donor identity resolution
+ *
+ * Run with: deno test supabase/functions/_shared/identityGraph.test.ts
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  ambiguousNameZips,
+  createIdentifierHasher,
+  identifierKey,
+  normalizeNameZip,
+  parseIdentifierKey,
+  resolveIdentities,
+} from "./identityGraph.ts";
+import { computeEmailHash, computePhoneHash } from "./phoneHash.ts";
+
+function idGenerator() {
+  let next = 0;
+  return () => `p${++next}`;
+}
+
+const personOf = (assignments: Map<string, string>, ...keys: string[]) =>
+  new Set(keys.map(k => assignments.get(k)));
+
+// ============================================================================
+// Identifier hashing
+// ============================================================================
+
+Deno.test("normalizeNameZip requires full name and 5-digit zip", () => {
+  assertEquals(normalizeNameZip(" José ", "O'Brien", "10001-1234"), "jose|obrien|10001");
+  assertEquals(normalizeNameZip("Jane", null, "10001"), null);
+  assertEquals(normalizeNameZip("Jane", "Doe", "100"), null);
+});
+
+Deno.test("identifier hasher uses the shared email and phone hashes", async () => {
+  const identifiersFor = createIdentifierHasher();
+  const keys = await identifiersFor({
+    email: " Jane@Example.com ",
+    phone: "+1 (720) 737-9967",
+    firstName: "Jane",
+    lastName: "Doe",
+    zip: "80202",
+    actblueDonorId: "AB123",
+  });
+
+  assertEquals(keys.map(k => parseIdentifierKey(k).type), ['actblue_donor_id', 'email', 'phone', 'name_zip']);
+  assert(keys.includes(identifierKey('email', (await computeEmailHash('jane@example.com'))!)));
+  assert(keys.includes(identifierKey('phone', (await computePhoneHash('7207379967'))!)));
+
+  // Switchboard events only carry the phone hash
+  const smsKeys = await identifiersFor({ phoneHash: parseIdentifierKey(keys[2]).hash });
+  assertEquals(smsKeys, [keys[2]]);
+});
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+Deno.test("identifiers seen together become one person", () => {
+  const result = resolveIdentities({
+    observations: [
+      ['email:a', 'phone:1'],
+      ['email:b', 'phone:1'], // same phone, second email
+      ['phone:2'], // Switchboard-only contact
+    ],
+    existing: new Map(),
+    newPersonId: idGenerator(),
+  });
+
+  assertEquals(personOf(result.assignments, 'email:a', 'email:b', 'phone:1').size, 1);
+  assert(result.assignments.get('phone:2') !== result.assignments.get('email:a'));
+  assertEquals(result.created.length, 2);
+  assertEquals(result.changed.length, 4);
+});
+
+Deno.test("existing person ids are kept and unchanged identifiers are not rewritten", () => {
+  const existing = new Map([['email:a', 'person-a'], ['phone:1', 'person-a']]);
+  const result = resolveIdentities({
+    observations: [['email:a', 'phone:1'], ['email:c', 'phone:1']],
+    existing,
+    newPersonId: idGenerator(),
+  });
+
+  assertEquals(result.assignments.get('email:c'), 'person-a');
+  assertEquals(result.changed, ['email:c']);
+  assertEquals(result.created, []);
+});
+
+Deno.test("a new link merges two persons into the one holding more identifiers", () => {
+  const existing = new Map([
+    ['email:a', 'person-big'], ['phone:1', 'person-big'],
+    ['email:b', 'person-small'],
+  ]);
+  const result = resolveIdentities({
+    observations: [['email:b', 'actblue_donor_id:x'], ['actblue_donor_id:x', 'email:a']],
+    existing,
+    newPersonId: idGenerator(),
+  });
+
+  assertEquals(personOf(result.assignments, 'email:a', 'email:b', 'actblue_donor_id:x'), new Set(['person-big']));
+  assertEquals(result.merges, [{ survivor: 'person-big', merged: ['person-small'], identifiers: ['email:b'] }]);
+});
+
+Deno.test("manual splits win over automatic links and split off the smaller side", () => {
+  const existing = new Map([
+    ['email:a', 'person-a'], ['phone:1', 'person-a'], ['email:b', 'person-a'],
+  ]);
+  const result = resolveIdentities({
+    observations: [['email:a', 'phone:1'], ['email:b', 'phone:1']],
+    existing,
+    overrides: [{ type: 'split', a: 'email:b', b: 'phone:1' }, { type: 'split', a: 'email:b', b: 'email:a' }],
+    newPersonId: idGenerator(),
+  });
+
+  assertEquals(result.assignments.get('email:a'), 'person-a');
+  assertEquals(result.assignments.get('phone:1'), 'person-a');
+  assertEquals(result.assignments.get('email:b'), 'p1');
+  assertEquals(result.splits, [{ from: 'person-a', to: 'p1', identifiers: ['email:b'] }]);
+});
+
+Deno.test("manual merges link identifiers no record connects", () => {
+  const result = resolveIdentities({
+    observations: [['email:a'], ['email:b']],
+    existing: new Map(),
+    overrides: [{ type: 'merge', a: 'email:a', b: 'email:b' }],
+    newPersonId: idGenerator(),
+  });
+
+  assertEquals(personOf(result.assignments, 'email:a', 'email:b').size, 1);
+});
+
+Deno.test("common name+zip combinations do not link different donors", () => {
+  const observations = [
+    ['email:1', 'name_zip:smith'],
+    ['email:2', 'name_zip:smith'],
+    ['email:3', 'name_zip:smith'],
+    ['email:4', 'name_zip:rare'],
+    ['actblue_donor_id:z', 'name_zip:rare'],
+  ];
+  assertEquals(ambiguousNameZips(observations), new Set(['name_zip:smith']));
+
+  const result = resolveIdentities({ observations, existing: new Map(), newPersonId: idGenerator() });
+  assertEquals(personOf(result.assignments, 'email:1', 'email:2', 'email:3').size, 3);
+  assertEquals(result.assignments.has('name_zip:smith'), false);
+  assertEquals(personOf(result.assignments, 'email:4', 'actblue_donor_id:z').size, 1);
+});
@@ -0,0 +1,331 @@
+/**
+ * Donor identity graph
+ *
+ * Resolves the identifiers we see for a donor into persistent person IDs:
+ * - actblue_donor_id: ActBlue's own donor ID from CSV exports (strongest)
+ * - email / phone: SHA-256 hashes from _shared/phoneHash.ts, so Switchboard
+ *   phone-only contacts land on the same person as the donor who gave with
+ *   that phone
+ * - name_zip: full first + last name and 5-digit ZIP (weakest; see
+ *   MAX_NAME_ZIP_FANOUT)
+ *
+ * Identifiers seen together on one record (a transaction, an identity link)
+ * are linked; linked identifiers form one person. Resolution is incremental:
+ * identifiers that already belong to a person keep that grouping, existing
+ * person IDs are reused, and manual overrides (merge / split) from the audit
+ * trail always win over automatic linking.
+ *
+ * Everything here is pure; donorIdentity.ts does the database work.
+ */
+
+import { computeEmailHash, computePhoneHash } from "./phoneHash.ts";
+
+export const IDENTIFIER_TYPES = ['actblue_donor_id', 'email', 'phone', 'name_zip'] as const;
+export type IdentifierType = typeof IDENTIFIER_TYPES[number];
+
+/**
+ * A name+ZIP shared by more than this many distinct emails / ActBlue IDs is
+ * a common name or a household, not one person, so it links nothing.
+ */
+export const MAX_NAME_ZIP_FANOUT = 2;
+
+export interface IdentifierRef {
+  type: IdentifierType;
+  hash: string;
+}
+
+/** Raw identity fields from one record (transaction, demographics row, SMS event) */
+export interface IdentityRecord {
+  email?: string | null;
+  phone?: string | null;
+  phoneHash?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  zip?: string | null;
+  actblueDonorId?: string | null;
+}
+
+export interface IdentityOverride {
+  type: 'merge' | 'split';
+  a: string;
+  b: string;
+}
+
+export interface ResolveInput {
+  /** Each entry is the identifier keys seen together on one record */
+  observations: string[][];
+  /** identifier key -> current person id */
+  existing: Map<string, string>;
+  overrides?: IdentityOverride[];
+  newPersonId: () => string;
+  maxNameZipFanout?: number;
+}
+
+export interface ResolveResult {
+  /** identifier key -> person id, for every identifier */
+  assignments: Map<string, string>;
+  /** Identifiers that are new or moved to a different person */
+  changed: string[];
+  created: string[];
+  /** Existing persons fully absorbed into a survivor */
+  merges: Array<{ survivor: string; merged: string[]; identifiers: string[] }>;
+  /** Identifiers that left a person that still exists */
+  splits: Array<{ from: string; to: string; identifiers: string[] }>;
+}
+
+export function identifierKey(type: IdentifierType, hash: string): string {
+  return `${type}:${hash}`;
+}
+
+export function parseIdentifierKey(key: string): IdentifierRef {
+  const separator = key.indexOf(':');
+  return { type: key.slice(0, separator) as IdentifierType, hash: key.slice(separator + 1) };
+}
+
+// ============================================================================
+// Identifier hashing
+// ============================================================================
+
+async function sha256Hex(value: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(hashBuffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Normalize name + ZIP to "first|last|zip5".
+ * Returns null unless both names and a 5-digit ZIP are present.
+ */
+export function normalizeNameZip(
+  firstName: string | null | undefined,
+  lastName: string | null | undefined,
+  zip: string | null | undefined
+): string | null {
+  const clean = (value: string | null | undefined) =>
+    (value || '').normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z]/g, '');
+  const first = clean(firstName);
+  const last = clean(lastName);
+  const zip5 = (zip || '').replace(/\D/g, '').slice(0, 5);
+  if (!first || !last || zip5.length !== 5) return null;
+  return `${first}|${last}|${zip5}`;
+}
+
+/**
+ * Hashes the identifiers on a record into identifier keys.
+ * Memoizes by raw value, since the same donor appears on many transactions.
+ */
+export function createIdentifierHasher() {
+  const cache = new Map<string, Promise<string | null>>();
+  const memo = (key: string, compute: () => Promise<string | null>) => {
+    let hash = cache.get(key);
+    if (!hash) {
+      hash = compute();
+      cache.set(key, hash);
+    }
+    return hash;
+  };
+
+  return async function identifiersFor(record: IdentityRecord): Promise<string[]> {
+    const keys: string[] = [];
+
+    const actblueId = record.actblueDonorId?.trim();
+    if (actblueId) {
+      const hash = await memo(`a:${actblueId}`, () => sha256Hex(`actblue:${actblueId}`));
+      if (hash) keys.push(identifierKey('actblue_donor_id', hash));
+    }
+    if (record.email) {
+      const hash = await memo(`e:${record.email}`, () => computeEmailHash(record.email));
+      if (hash) keys.push(identifierKey('email', hash));
+    }
+    const phoneHash = record.phoneHash ||
+      (record.phone ? await memo(`p:${record.phone}`, () => computePhoneHash(record.phone)) : null);
+    if (phoneHash) keys.push(identifierKey('phone', phoneHash));
+
+    const nameZip = normalizeNameZip(record.firstName, record.lastName, record.zip);
+    if (nameZip) {
+      const hash = await memo(`n:${nameZip}`, () => sha256Hex(nameZip));
+      if (hash) keys.push(identifierKey('name_zip', hash));
+    }
+
+    return keys;
+  };
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Name+ZIP keys that co-occur with more than maxFanout distinct strong
+ * identifiers (email, ActBlue ID) are too ambiguous to link on.
+ */
+export function ambiguousNameZips(observations: string[][], maxFanout = MAX_NAME_ZIP_FANOUT): Set<string> {
+  const peers = new Map<string, Set<string>>();
+  for (const keys of observations) {
+    const nameZips = keys.filter(k => k.startsWith('name_zip:'));
+    if (nameZips.length === 0) continue;
+    const strong = keys.filter(k => k.startsWith('email:') || k.startsWith('actblue_donor_id:'));
+    for (const nameZip of nameZips) {
+      const set = peers.get(nameZip) ?? new Set<string>();
+      strong.forEach(k => set.add(k));
+      peers.set(nameZip, set);
+    }
+  }
+  return new Set(Array.from(peers.entries()).filter(([, set]) => set.size > maxFanout).map(([key]) => key));
+}
+
+/** Union-find that refuses unions joining two identifiers split apart by hand */
+class ConstrainedUnionFind {
+  private parent = new Map<string, string>();
+  private members = new Map<string, string[]>();
+  private cannotLink = new Map<string, Set<string>>();
+
+  add(key: string) {
+    if (this.parent.has(key)) return;
+    this.parent.set(key, key);
+    this.members.set(key, [key]);
+  }
+
+  forbid(a: string, b: string) {
+    for (const [x, y] of [[a, b], [b, a]]) {
+      const set = this.cannotLink.get(x) ?? new Set<string>();
+      set.add(y);
+      this.cannotLink.set(x, set);
+    }
+  }
+
+  find(key: string): string {
+    let root = key;
+    while (this.parent.get(root) !== root) root = this.parent.get(root)!;
+    let node = key;
+    while (node !== root) {
+      const next = this.parent.get(node)!;
+      this.parent.set(node, root);
+      node = next;
+    }
+    return root;
+  }
+
+  union(a: string, b: string): boolean {
+    this.add(a);
+    this.add(b);
+    let ra = this.find(a);
+    let rb = this.find(b);
+    if (ra === rb) return true;
+
+    if (this.members.get(ra)!.length < this.members.get(rb)!.length) [ra, rb] = [rb, ra];
+    for (const member of this.members.get(rb)!) {
+      for (const other of this.cannotLink.get(member) ?? []) {
+        if (this.parent.has(other) && this.find(other) === ra) return false;
+      }
+    }
+
+    this.parent.set(rb, ra);
+    this.members.get(ra)!.push(...this.members.get(rb)!);
+    this.members.delete(rb);
+    return true;
+  }
+
+  clusters(): string[][] {
+    return Array.from(this.members.values());
+  }
+}
+
+/**
+ * Resolves identifiers into persons.
+ *
+ * Link order: manual merges, then existing groupings (person IDs are sticky),
+ * then new observations. Manual splits are constraints on all three.
+ * Each cluster keeps the existing person that holds most of its identifiers
+ * (ties to the smallest id); largest clusters pick first, so when a person is
+ * split the bigger half keeps the id.
+ */
+export function resolveIdentities(input: ResolveInput): ResolveResult {
+  const { existing, overrides = [], newPersonId } = input;
+  const ambiguous = ambiguousNameZips(input.observations, input.maxNameZipFanout);
+  const uf = new ConstrainedUnionFind();
+
+  for (const override of overrides) {
+    if (override.type === 'split') uf.forbid(override.a, override.b);
+  }
+  for (const override of overrides) {
+    if (override.type === 'merge') uf.union(override.a, override.b);
+  }
+
+  const byPerson = new Map<string, string[]>();
+  for (const [key, personId] of existing) {
+    uf.add(key);
+    const keys = byPerson.get(personId) ?? [];
+    keys.push(key);
+    byPerson.set(personId, keys);
+  }
+  for (const keys of byPerson.values()) {
+    for (let i = 1; i < keys.length; i++) uf.union(keys[0], keys[i]);
+  }
+
+  for (const observation of input.observations) {
+    const keys = observation.filter(k => !ambiguous.has(k));
+    keys.forEach(k => uf.add(k));
+    for (let i = 1; i < keys.length; i++) uf.union(keys[0], keys[i]);
+  }
+
+  const clusters = uf.clusters()
+    .map(keys => keys.sort())
+    .sort((a, b) => b.length - a.length || (a[0] < b[0] ? -1 : 1));
+
+  const assignments = new Map<string, string>();
+  const survivors = new Set<string>();
+  const created: string[] = [];
+
+  for (const keys of clusters) {
+    const counts = new Map<string, number>();
+    for (const key of keys) {
+      const personId = existing.get(key);
+      if (personId && !survivors.has(personId)) counts.set(personId, (counts.get(personId) ?? 0) + 1);
+    }
+
+    let personId = Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))[0]?.[0];
+    if (!personId) {
+      personId = newPersonId();
+      created.push(personId);
+    }
+    survivors.add(personId);
+    keys.forEach(key => assignments.set(key, personId!));
+  }
+
+  const changed: string[] = [];
+  const absorbed = new Map<string, { merged: Set<string>; identifiers: string[] }>();
+  const moved = new Map<string, string[]>();
+
+  for (const [key, personId] of assignments) {
+    const previous = existing.get(key);
+    if (previous === personId) continue;
+    changed.push(key);
+    if (!previous) continue;
+
+    if (survivors.has(previous)) {
+      const moveKey = `${previous}>${personId}`;
+      moved.set(moveKey, [...(moved.get(moveKey) ?? []), key]);
+    } else {
+      const entry = absorbed.get(personId) ?? { merged: new Set<string>(), identifiers: [] };
+      entry.merged.add(previous);
+      entry.identifiers.push(key);
+      absorbed.set(personId, entry);
+    }
+  }
+
+  return {
+    assignments,
+    changed,
+    created,
+    merges: Array.from(absorbed.entries()).map(([survivor, entry]) => ({
+      survivor,
+      merged: Array.from(entry.merged).sort(),
+      identifiers: entry.identifiers,
+    })),
+    splits: Array.from(moved.entries()).map(([moveKey, identifiers]) => {
+      const [from, to] = moveKey.split('>');
+      return { from, to, identifiers };
+    }),
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * Unit tests for the shared LLM client
+ *
+ * Run with: deno test supabase/functions/_shared/llm.test.ts
+ */
+
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  LLMError,
+  OPENAI_CHAT_URL,
+  createGatewayProvider,
+  createLLMClient,
+  createMockProvider,
+  createOpenAIChatProvider,
+  definePrompt,
+  estimateCostUsd,
+  extractJson,
+  getLLMProvider,
+  isLLMConfigured,
+  messageText,
+  renderPrompt,
+  type LLMCache,
+  type LLMCompletion,
+  type LLMLedger,
+  type LLMProvider,
+  type LLMUsageEntry,
+} from "./llm.ts";
+
+const summaryPrompt = definePrompt<{ topic: string }>({
+  id: 'test.summary',
+  version: 1,
+  system: 'Respond only with JSON.',
+  maxTokens: 200,
+  user: ({ topic }) => `Summarize ${topic}`,
+});
+
+function memoryCache(): LLMCache & { entries: Map<string, LLMCompletion> } {
+  const entries = new Map<string, LLMCompletion>();
+  return {
+    entries,
+    get: (key) => Promise.resolve(entries.get(key) || null),
+    set: (key, _prompt, completion) => {
+      entries.set(key, completion);
+      return Promise.resolve();
+    },
+  };
+}
+
+function memoryLedger(budget: { spentUsd: number; budgetUsd: number | null } = { spentUsd: 0, budgetUsd: null }): LLMLedger & { entries: LLMUsageEntry[] } {
+  const entries: LLMUsageEntry[] = [];
+  return {
+    entries,
+    record: (entry) => {
+      entries.push(entry);
+      return Promise.resolve();
+    },
+    checkBudget: () => Promise.resolve({
+      ...budget,
+      allowed: budget.budgetUsd === null || budget.spentUsd < budget.budgetUsd,
+    }),
+  };
+}
+
+// Fails with the given errors in order, then answers normally
+function flakyProvider(failures: LLMError[]): LLMProvider & { attempts: number } {
+  const mock = createMockProvider([], { ok: true });
+  const provider = {
+    name: 'flaky',
+    attempts: 0,
+    complete(request: Parameters<LLMProvider['complete']>[0]) {
+      const failure = failures[provider.attempts++];
+      return failure ? Promise.reject(failure) : mock.complete(request);
+    },
+  };
+  return provider;
+}
+
+const noSleep = () => Promise.resolve();
+
+// ============================================================================
+// Prompts + parsing
+// ============================================================================
+
+Deno.test("renderPrompt builds system + user messages with template defaults", () => {
+  const request = renderPrompt(summaryPrompt, { topic: 'the budget vote' });
+  assertEquals(request.model, 'google/gemini-2.5-flash');
+  assertEquals(request.maxTokens, 200);
+  assertEquals(request.messages, [
+    { role: 'system', content: 'Respond only with JSON.' },
+    { role: 'user', content: 'Summarize the budget vote' },
+  ]);
+});
+
+Deno.test("extractJson handles fences, prose and arrays", () => {
+  assertEquals(extractJson('```json\n{"a":1}\n```'), { a: 1 });
+  assertEquals(extractJson('Here you go: {"a":{"b":2}} hope that helps'), { a: { b: 2 } });
+  assertEquals(extractJson('Results:\n[{"id":1},{"id":2}]'), [{ id: 1 }, { id: 2 }]);
+
+  let code = '';
+  try {
+    extractJson('no json here');
+  } catch (err) {
+    code = (err as LLMError).code;
+  }
+  assertEquals(code, 'invalid_json');
+});
+
+Deno.test("estimateCostUsd prices known models and defaults unknown ones", () => {
+  const usage = { promptTokens: 1_000_000, completionTokens: 100_000, totalTokens: 1_100_000 };
+  assertEquals(estimateCostUsd('google/gemini-2.5-flash-lite', usage), 0.14);
+  assertEquals(estimateCostUsd('some/new-model', usage), estimateCostUsd('google/gemini-2.5-flash', usage));
+});
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+Deno.test("gateway provider maps status codes to error codes", async () => {
+  const respond = (status: number): typeof fetch => () => Promise.resolve(new Response('nope', { status }));
+
+  for (const [status, code] of [[429, 'rate_limited'], [402, 'payment_required'], [503, 'http_error']] as const) {
+    const provider = createGatewayProvider({ apiKey: 'k', fetchImpl: respond(status) });
+    let caught: LLMError | null = null;
+    try {
+      await provider.complete(renderPrompt(summaryPrompt, { topic: 'x' }));
+    } catch (err) {
+      caught = err as LLMError;
+    }
+    assertEquals(caught?.code, code);
+  }
+
+  await assertRejects(
+    () => createGatewayProvider({ apiKey: undefined }).complete(renderPrompt(summaryPrompt, { topic: 'x' })),
+    LLMError,
+    'LOVABLE_API_KEY not configured'
+  );
+});
+
+Deno.test("gateway provider reads content and usage", async () => {
+  const bodies: string[] = [];
+  const provider = createGatewayProvider({
+    apiKey: 'k',
+    fetchImpl: (_url, init) => {
+      bodies.push(String(init?.body));
+      return Promise.resolve(new Response(JSON.stringify({
+        choices: [{ message: { content: ' {"summary":"ok"} ' } }],
+        usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 },
+      })));
+    },
+  });
+
+  const completion = await provider.complete(renderPrompt(summaryPrompt, { topic: 'x' }));
+  assertEquals(completion.content, '{"summary":"ok"}');
+  assertEquals(completion.usage.totalTokens, 17);
+  assertEquals(JSON.parse(bodies[0]).max_tokens, 200);
+});
+
+Deno.test("openai provider posts to the OpenAI endpoint", async () => {
+  const urls: string[] = [];
+  const provider = createOpenAIChatProvider({
+    apiKey: 'k',
+    fetchImpl: (url) => {
+      urls.push(String(url));
+      return Promise.resolve(new Response(JSON.stringify({ choices: [{ message: { content: 'ok' } }] })));
+    },
+  });
+
+  const completion = await provider.complete({ ...renderPrompt(summaryPrompt, { topic: 'x' }), model: 'gpt-3.5-turbo-0125' });
+  assertEquals(provider.name, 'openai');
+  assertEquals(urls, [OPENAI_CHAT_URL]);
+  assertEquals(completion.model, 'gpt-3.5-turbo-0125');
+});
+
+Deno.test("mock provider answers by rule and records calls", async () => {
+  const mock = createMockProvider([{ match: /budget/, response: { summary: 'budget' } }], 'fallback');
+  assertEquals((await mock.complete(renderPrompt(summaryPrompt, { topic: 'the budget' }))).content, '{"summary":"budget"}');
+  assertEquals((await mock.complete(renderPrompt(summaryPrompt, { topic: 'weather' }))).content, 'fallback');
+  assertEquals(mock.calls.length, 2);
+
+  assertEquals(getLLMProvider((key) => ({ LLM_PROVIDER: 'mock' } as Record<string, string>)[key]).name, 'mock');
+  assertEquals(isLLMConfigured((key) => ({ LLM_PROVIDER: 'mock' } as Record<string, string>)[key]), true);
+  assertEquals(isLLMConfigured((key) => ({ LOVABLE_API_KEY: 'k' } as Record<string, string>)[key]), true);
+  assertEquals(isLLMConfigured(() => undefined), false);
+});
+
+Deno.test("image prompts keep their parts and match on text", async () => {
+  const imagePrompt = definePrompt<{ url: string }>({
+    id: 'test.image',
+    version: 1,
+    user: ({ url }) => [
+      { type: 'text', text: 'Describe this ad image' },
+      { type: 'image_url', image_url: { url } },
+    ],
+  });
+  const request = renderPrompt(imagePrompt, { url: 'https://example.com/a.png' });
+  assertEquals(messageText(request.messages[0]), 'Describe this ad image');
+
+  const mock = createMockProvider([{ match: 'ad image', response: { has_faces: true } }]);
+  assertEquals((await mock.complete(request)).content, '{"has_faces":true}');
+  assertEquals(mock.calls[0].messages[0].content, request.messages[0].content);
+});
+
+// ============================================================================
+// Client
+// ============================================================================
+
+Deno.test("client retries rate limits with backoff, not payment errors", async () => {
+  const delays: number[] = [];
+  const sleep = (ms: number) => {
+    delays.push(ms);
+    return Promise.resolve();
+  };
+
+  const flaky = flakyProvider([new LLMError('slow down', 'rate_limited', 429), new LLMError('oops', 'http_error', 502)]);
+  const client = createLLMClient({ provider: flaky, functionName: 'test', sleep, baseDelayMs: 100 });
+  const result = await client.run(summaryPrompt, { topic: 'x' });
+  assertEquals(result.content, '{"ok":true}');
+  assertEquals(delays, [100, 200]);
+
+  const broke = flakyProvider([new LLMError('pay up', 'payment_required', 402)]);
+  const noRetry = createLLMClient({ provider: broke, functionName: 'test', sleep: noSleep });
+  await assertRejects(() => noRetry.run(summaryPrompt, { topic: 'x' }), LLMError, 'pay up');
+  assertEquals(broke.attempts, 1);
+});
+
+Deno.test("client serves cached responses and keys them by prompt version", async () => {
+  const mock = createMockProvider([], { summary: 'fresh' });
+  const cache = memoryCache();
+  const ledger = memoryLedger();
+  const client = createLLMClient({ provider: mock, functionName: 'test', cache, ledger });
+
+  const first = await client.run(summaryPrompt, { topic: 'x' }, { cacheTtlSeconds: 3600 });
+  const second = await client.run(summaryPrompt, { topic: 'x' }, { cacheTtlSeconds: 3600 });
+  assertEquals([first.cached, second.cached], [false, true]);
+  assertEquals(mock.calls.length, 1);
+  assertEquals(ledger.entries.map(e => e.cached), [false, true]);
+
+  await client.run({ ...summaryPrompt, version: 2 }, { topic: 'x' }, { cacheTtlSeconds: 3600 });
+  assertEquals(mock.calls.length, 2);
+
+  // No TTL, no caching
+  await client.run(summaryPrompt, { topic: 'x' });
+  assertEquals(mock.calls.length, 3);
+});
+
+Deno.test("client records cost per org and enforces budgets", async () => {
+  const ledger = memoryLedger();
+  const client = createLLMClient({ provider: createMockProvider([], { ok: 1 }), functionName: 'smart-alerting', ledger });
+  const result = await client.run(summaryPrompt, { topic: 'x' }, { organizationId: 'org-1' });
+
+  assertEquals(ledger.entries[0].organizationId, 'org-1');
+  assertEquals(ledger.entries[0].functionName, 'smart-alerting');
+  assertEquals(ledger.entries[0].promptId, 'test.summary');
+  assertEquals(ledger.entries[0].costUsd, result.costUsd);
+  assertEquals(result.costUsd > 0, true);
+
+  const mock = createMockProvider();
+  const overBudget = createLLMClient({ provider: mock, functionName: 'test', ledger: memoryLedger({ spentUsd: 10, budgetUsd: 5 }) });
+  await assertRejects(() => overBudget.run(summaryPrompt, { topic: 'x' }, { organizationId: 'org-1' }), LLMError, 'AI budget exhausted');
+  assertEquals(mock.calls.length, 0);
+});
+
+Deno.test("runJson validates with the schema and never caches rejected output", async () => {
+  const cache = memoryCache();
+  const schema = {
+    parse(value: unknown) {
+      const summary = (value as { summary?: unknown })?.summary;
+      if (typeof summary !== 'string') throw new Error('summary must be a string');
+      return { summary };
+    },
+  };
+
+  const good = createLLMClient({ provider: createMockProvider([], '```json\n{"summary":"ok"}\n```'), functionName: 'test', cache });
+  const { data } = await good.runJson(summaryPrompt, { topic: 'x' }, { schema });
+  assertEquals(data, { summary: 'ok' });
+
+  const badCache = memoryCache();
+  const bad = createLLMClient({ provider: createMockProvider([], { summary: 42 }), functionName: 'test', cache: badCache });
+  await assertRejects(() => bad.runJson(summaryPrompt, { topic: 'x' }, { schema, cacheTtlSeconds: 60 }), Error, 'summary must be a string');
+  assertEquals(badCache.entries.size, 0);
+});
@@ -0,0 +1,529 @@
+/**
+ * Shared LLM client for edge functions.
+ *
+ * One place for the chat-completions call that functions used to hand-roll:
+ * - providers: the Lovable AI gateway (or OpenAI directly, for functions that
+ *   opt in), or a deterministic mock (LLM_PROVIDER=mock) so AI functions can
+ *   run and be tested offline
+ * - retries with exponential backoff on 429 / 5xx
+ * - versioned prompt templates (definePrompt) recorded with every call
+ * - optional response cache keyed on a hash of the rendered request
+ * - per-org usage ledger with cost estimates and monthly budgets
+ * - JSON extraction from model output, with optional schema validation
+ *
+ * This module is pure; Supabase-backed cache and ledger live in llmStore.ts.
+ */
+
+export const LOVABLE_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1/chat/completions';
+export const OPENAI_CHAT_URL = 'https://api.openai.com/v1/chat/completions';
+export const DEFAULT_LLM_MODEL = 'google/gemini-2.5-flash';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Multimodal message parts, for prompts that include an image */
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+export interface LLMRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  usage: LLMUsage;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+}
+
+export type LLMErrorCode =
+  | 'not_configured'
+  | 'rate_limited'
+  | 'payment_required'
+  | 'http_error'
+  | 'empty_response'
+  | 'invalid_json'
+  | 'budget_exceeded';
+
+export class LLMError extends Error {
+  constructor(message: string, public code: LLMErrorCode, public status = 0) {
+    super(message);
+    this.name = 'LLMError';
+  }
+
+  get retryable(): boolean {
+    return this.code === 'rate_limited' || (this.code === 'http_error' && this.status >= 500);
+  }
+}
+
+// ============================================================================
+// Prompt templates
+// ============================================================================
+
+export interface PromptTemplate<V> {
+  /** Stable id, e.g. "smart-alerting.daily-summary" */
+  id: string;
+  /** Bump when the wording changes; cached responses for older versions stop matching */
+  version: number;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  system?: string;
+  user: (vars: V) => string | ChatContentPart[];
+}
+
+export function definePrompt<V>(template: PromptTemplate<V>): PromptTemplate<V> {
+  return template;
+}
+
+export function promptKey(template: Pick<PromptTemplate<unknown>, 'id' | 'version'>): string {
+  return `${template.id}@v${template.version}`;
+}
+
+export function renderPrompt<V>(template: PromptTemplate<V>, vars: V): LLMRequest {
+  const messages: ChatMessage[] = [];
+  if (template.system) messages.push({ role: 'system', content: template.system });
+  messages.push({ role: 'user', content: template.user(vars) });
+
+  return {
+    model: template.model || DEFAULT_LLM_MODEL,
+    messages,
+    temperature: template.temperature,
+    maxTokens: template.maxTokens,
+  };
+}
+
+// ============================================================================
+// Cost accounting
+// ============================================================================
+
+/** USD per million tokens */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'google/gemini-2.5-pro': { input: 1.25, output: 10 },
+  'google/gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'google/gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'openai/gpt-5': { input: 1.25, output: 10 },
+  'openai/gpt-5-mini': { input: 0.25, output: 2 },
+  'openai/gpt-5-nano': { input: 0.05, output: 0.40 },
+  'gpt-3.5-turbo-0125': { input: 0.50, output: 1.50 },
+};
+
+export function estimateCostUsd(model: string, usage: LLMUsage): number {
+  // Unknown models are priced like the default so budgets don't undercount
+  const pricing = MODEL_PRICING[model] || MODEL_PRICING[DEFAULT_LLM_MODEL];
+  const cost = (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+// Rough 4-chars-per-token estimate when a provider omits usage
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Text of a message; image parts are skipped */
+export function messageText(message: ChatMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  return message.content.map(part => part.type === 'text' ? part.text : '').filter(Boolean).join('\n');
+}
+
+function estimateUsage(request: LLMRequest, content: string): LLMUsage {
+  const promptTokens = estimateTokens(request.messages.map(messageText).join('\n'));
+  const completionTokens = estimateTokens(content);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+export interface GatewayProviderOptions {
+  apiKey: string | undefined;
+  url?: string;
+  fetchImpl?: typeof fetch;
+}
+
+export function createGatewayProvider(options: GatewayProviderOptions): LLMProvider {
+  const url = options.url || LOVABLE_GATEWAY_URL;
+  const fetchImpl = options.fetchImpl || fetch;
+
+  return {
+    name: 'lovable-gateway',
+    async complete(request) {
+      if (!options.apiKey) {
+        throw new LLMError('LOVABLE_API_KEY not configured', 'not_configured');
+      }
+
+      const response = await fetchImpl(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${options.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: request.messages,
+          ...(request.temperature !== undefined && { temperature: request.temperature }),
+          ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+        }),
+      });
+
+      if (!response.ok) {
+        const detail = (await response.text()).substring(0, 300);
+        if (response.status === 429) {
+          throw new LLMError(`Rate limited: ${detail}`, 'rate_limited', 429);
+        }
+        if (response.status === 402) {
+          throw new LLMError(`Payment required: ${detail}`, 'payment_required', 402);
+        }
+        throw new LLMError(`AI gateway error ${response.status}: ${detail}`, 'http_error', response.status);
+      }
+
+      const data = await response.json();
+      const content: string = data.choices?.[0]?.message?.content?.trim() || '';
+      if (!content) {
+        throw new LLMError('No content in AI response', 'empty_response');
+      }
+
+      const usage: LLMUsage = data.usage
+        ? {
+          promptTokens: Number(data.usage.prompt_tokens) || 0,
+          completionTokens: Number(data.usage.completion_tokens) || 0,
+          totalTokens: Number(data.usage.total_tokens) || 0,
+        }
+        : estimateUsage(request, content);
+
+      // Keep the requested id; the gateway may echo it without the provider prefix
+      return { content, model: request.model, usage };
+    },
+  };
+}
+
+/** Same wire format as the gateway; model ids are OpenAI's own, e.g. "gpt-3.5-turbo-0125" */
+export function createOpenAIChatProvider(options: Omit<GatewayProviderOptions, 'url'>): LLMProvider {
+  return { ...createGatewayProvider({ ...options, url: OPENAI_CHAT_URL }), name: 'openai' };
+}
+
+export interface MockRule {
+  /** Matched against the concatenated message contents */
+  match: string | RegExp;
+  /** Strings are returned as-is; anything else is JSON-encoded */
+  response: unknown;
+}
+
+export type MockProvider = LLMProvider & { calls: LLMRequest[] };
+
+/**
+ * Deterministic offline provider: answers with the first matching rule's
+ * response, else the fallback. Records every request in `calls`.
+ */
+export function createMockProvider(rules: MockRule[] = [], fallback: unknown = {}): MockProvider {
+  const calls: LLMRequest[] = [];
+
+  return {
+    name: 'mock',
+    calls,
+    complete(request) {
+      calls.push(request);
+      const text = request.messages.map(messageText).join('\n');
+      const rule = rules.find(r => typeof r.match === 'string' ? text.includes(r.match) : r.match.test(text));
+      const response = rule ? rule.response : fallback;
+      const content = typeof response === 'string' ? response : JSON.stringify(response);
+      return Promise.resolve({ content, model: request.model, usage: estimateUsage(request, content) });
+    },
+  };
+}
+
+/**
+ * Picks the provider from environment. LLM_PROVIDER=mock returns the mock,
+ * answering with LLM_MOCK_RESPONSE (raw text) or "{}".
+ */
+export function getLLMProvider(
+  getEnv: (key: string) => string | undefined = (key) => Deno.env.get(key),
+  fetchImpl?: typeof fetch
+): LLMProvider {
+  if (getEnv('LLM_PROVIDER') === 'mock') {
+    return createMockProvider([], getEnv('LLM_MOCK_RESPONSE') ?? {});
+  }
+  return createGatewayProvider({ apiKey: getEnv('LOVABLE_API_KEY'), fetchImpl });
+}
+
+/** Whether getLLMProvider would return a usable provider (mock, or a gateway key) */
+export function isLLMConfigured(
+  getEnv: (key: string) => string | undefined = (key) => Deno.env.get(key)
+): boolean {
+  return getEnv('LLM_PROVIDER') === 'mock' || !!getEnv('LOVABLE_API_KEY');
+}
+
+// ============================================================================
+// Structured output
+// ============================================================================
+
+/** Anything with a zod-style parse (throws on invalid input) */
+export interface Schema<T> {
+  parse(value: unknown): T;
+}
+
+/**
+ * Pulls the JSON value out of model output: tolerates code fences and prose
+ * around the outermost object or array.
+ */
+export function extractJson(text: string): unknown {
+  const cleaned = text.replace(/```(?:json)?/gi, '').trim();
+
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    // Fall through to bracket matching
+  }
+
+  const candidates = [
+    [cleaned.indexOf('{'), cleaned.lastIndexOf('}')],
+    [cleaned.indexOf('['), cleaned.lastIndexOf(']')],
+  ]
+    .filter(([start, end]) => start !== -1 && end > start)
+    .sort((a, b) => a[0] - b[0]);
+
+  for (const [start, end] of candidates) {
+    try {
+      return JSON.parse(cleaned.slice(start, end + 1));
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  throw new LLMError(`No valid JSON found in response: ${cleaned.substring(0, 120)}`, 'invalid_json');
+}
+
+// ============================================================================
+// Cache + ledger interfaces
+// ============================================================================
+
+export interface LLMCache {
+  get(key: string, maxAgeSeconds: number): Promise<LLMCompletion | null>;
+  set(key: string, promptKey: string, completion: LLMCompletion): Promise<void>;
+}
+
+export interface LLMUsageEntry {
+  organizationId: string | null;
+  functionName: string;
+  promptId: string | null;
+  promptVersion: number | null;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  cached: boolean;
+  latencyMs: number;
+  status: 'success' | 'error';
+  errorCode: LLMErrorCode | null;
+}
+
+export interface LLMBudgetStatus {
+  allowed: boolean;
+  spentUsd: number;
+  budgetUsd: number | null;
+}
+
+export interface LLMLedger {
+  record(entry: LLMUsageEntry): Promise<void>;
+  checkBudget(organizationId: string): Promise<LLMBudgetStatus>;
+}
+
+/** SHA-256 of the request plus prompt version, hex encoded */
+export async function hashRequest(request: LLMRequest, key: string | null): Promise<string> {
+  const payload = JSON.stringify({
+    prompt: key,
+    model: request.model,
+    messages: request.messages,
+    temperature: request.temperature ?? null,
+    maxTokens: request.maxTokens ?? null,
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return 'llm_' + Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+export interface LLMClientOptions {
+  provider: LLMProvider;
+  /** Edge function name recorded in the ledger */
+  functionName: string;
+  cache?: LLMCache;
+  ledger?: LLMLedger;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface LLMCallOptions {
+  /** Org to bill and budget-check; omit for platform-level jobs */
+  organizationId?: string | null;
+  /** Serve identical requests from cache for this long; no caching when unset */
+  cacheTtlSeconds?: number;
+}
+
+export interface LLMResult extends LLMCompletion {
+  cached: boolean;
+  costUsd: number;
+}
+
+export interface LLMClient {
+  provider: LLMProvider;
+  complete(request: LLMRequest, options?: LLMCallOptions, template?: PromptTemplate<never>): Promise<LLMResult>;
+  run<V>(template: PromptTemplate<V>, vars: V, options?: LLMCallOptions): Promise<LLMResult>;
+  runJson<T, V = unknown>(
+    template: PromptTemplate<V>,
+    vars: V,
+    options?: LLMCallOptions & { schema?: Schema<T> }
+  ): Promise<{ data: T; result: LLMResult }>;
+}
+
+export function createLLMClient(options: LLMClientOptions): LLMClient {
+  const { provider, functionName, cache, ledger } = options;
+  const maxRetries = options.maxRetries ?? 3;
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const sleep = options.sleep || ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+
+  const callWithRetry = async (request: LLMRequest): Promise<LLMCompletion> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await provider.complete(request);
+      } catch (err) {
+        if (!(err instanceof LLMError) || !err.retryable || attempt >= maxRetries) throw err;
+        const delay = baseDelayMs * Math.pow(2, attempt);
+        console.log(`[llm] ${functionName}: ${err.message}, retrying in ${delay}ms (${attempt + 1}/${maxRetries})`);
+        await sleep(delay);
+      }
+    }
+  };
+
+  // Ledger writes are best-effort; a failed insert must not fail the AI call
+  const record = async (entry: LLMUsageEntry) => {
+    if (!ledger) return;
+    try {
+      await ledger.record(entry);
+    } catch (err) {
+      console.error(`[llm] ${functionName}: failed to record usage:`, err instanceof Error ? err.message : err);
+    }
+  };
+
+  // `accept` runs before caching and throws for responses that must not be reused
+  const execute = async (
+    request: LLMRequest,
+    callOptions: LLMCallOptions,
+    template: PromptTemplate<never> | undefined,
+    accept?: (completion: LLMCompletion) => void
+  ): Promise<LLMResult> => {
+    const organizationId = callOptions.organizationId || null;
+    const key = template ? promptKey(template) : null;
+    const base = {
+      organizationId,
+      functionName,
+      promptId: template?.id ?? null,
+      promptVersion: template?.version ?? null,
+      model: request.model,
+    };
+
+    if (organizationId && ledger) {
+      const budget = await ledger.checkBudget(organizationId);
+      if (!budget.allowed) {
+        throw new LLMError(
+          `AI budget exhausted for organization (${budget.spentUsd.toFixed(2)} of ${budget.budgetUsd?.toFixed(2)} USD this month)`,
+          'budget_exceeded'
+        );
+      }
+    }
+
+    const cacheKey = cache && callOptions.cacheTtlSeconds ? await hashRequest(request, key) : null;
+    if (cache && cacheKey) {
+      const hit = await cache.get(cacheKey, callOptions.cacheTtlSeconds!);
+      if (hit) {
+        accept?.(hit);
+        await record({ ...base, promptTokens: 0, completionTokens: 0, costUsd: 0, cached: true, latencyMs: 0, status: 'success', errorCode: null });
+        return { ...hit, cached: true, costUsd: 0 };
+      }
+    }
+
+    const startedAt = Date.now();
+    let completion: LLMCompletion;
+    try {
+      completion = await callWithRetry(request);
+    } catch (err) {
+      await record({
+        ...base,
+        promptTokens: 0,
+        completionTokens: 0,
+        costUsd: 0,
+        cached: false,
+        latencyMs: Date.now() - startedAt,
+        status: 'error',
+        errorCode: err instanceof LLMError ? err.code : 'http_error',
+      });
+      throw err;
+    }
+
+    const costUsd = estimateCostUsd(completion.model, completion.usage);
+    await record({
+      ...base,
+      model: completion.model,
+      promptTokens: completion.usage.promptTokens,
+      completionTokens: completion.usage.completionTokens,
+      costUsd,
+      cached: false,
+      latencyMs: Date.now() - startedAt,
+      status: 'success',
+      errorCode: null,
+    });
+
+    accept?.(completion);
+
+    if (cache && cacheKey) {
+      try {
+        await cache.set(cacheKey, key || request.model, completion);
+      } catch (err) {
+        console.error(`[llm] ${functionName}: failed to cache response:`, err instanceof Error ? err.message : err);
+      }
+    }
+
+    return { ...completion, cached: false, costUsd };
+  };
+
+  const complete: LLMClient['complete'] = (request, callOptions = {}, template) =>
+    execute(request, callOptions, template);
+
+  const run: LLMClient['run'] = (template, vars, callOptions = {}) =>
+    execute(renderPrompt(template, vars), callOptions, template as PromptTemplate<never>);
+
+  const runJson: LLMClient['runJson'] = async (template, vars, callOptions = {}) => {
+    let data: unknown;
+    const result = await execute(renderPrompt(template, vars), callOptions, template as PromptTemplate<never>, (completion) => {
+      const value = extractJson(completion.content);
+      data = callOptions.schema ? callOptions.schema.parse(value) : value;
+    });
+    return { data: data as never, result };
+  };
+
+  return { provider, complete, run, runJson };
+}
@@ -0,0 +1,120 @@
+/**
+ * Supabase-backed cache and usage ledger for the shared LLM client.
+ *
+ * - Cache: ai_analysis_cache (content_hash = request hash, prompt_hash = prompt id@version),
+ *   already pruned by the cache cleanup jobs
+ * - Ledger: llm_usage_ledger rows, budgets from org_llm_budgets via get_llm_budget_status
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  createLLMClient,
+  getLLMProvider,
+  type LLMCache,
+  type LLMClient,
+  type LLMCompletion,
+  type LLMLedger,
+  type LLMProvider,
+} from "./llm.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export function createSupabaseLLMCache(supabase: SupabaseClient): LLMCache {
+  return {
+    async get(key, maxAgeSeconds) {
+      const { data } = await supabase
+        .from('ai_analysis_cache')
+        .select('response, hit_count')
+        .eq('content_hash', key)
+        .gte('created_at', new Date(Date.now() - maxAgeSeconds * 1000).toISOString())
+        .maybeSingle();
+
+      const response = data?.response as LLMCompletion | undefined;
+      if (!response || typeof response.content !== 'string') return null;
+
+      // Update hit count asynchronously
+      supabase
+        .from('ai_analysis_cache')
+        .update({
+          hit_count: (data?.hit_count ?? 0) + 1,
+          last_used_at: new Date().toISOString(),
+        })
+        .eq('content_hash', key)
+        .then(() => {});
+
+      return response;
+    },
+
+    async set(key, promptKey, completion) {
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from('ai_analysis_cache')
+        .upsert({
+          content_hash: key,
+          model: completion.model,
+          prompt_hash: promptKey,
+          response: completion,
+          created_at: now,
+          last_used_at: now,
+        }, { onConflict: 'content_hash' });
+
+      if (error) throw new Error(error.message);
+    },
+  };
+}
+
+export function createSupabaseLLMLedger(supabase: SupabaseClient): LLMLedger {
+  return {
+    async record(entry) {
+      const { error } = await supabase.from('llm_usage_ledger').insert({
+        organization_id: entry.organizationId,
+        function_name: entry.functionName,
+        prompt_id: entry.promptId,
+        prompt_version: entry.promptVersion,
+        model: entry.model,
+        prompt_tokens: entry.promptTokens,
+        completion_tokens: entry.completionTokens,
+        cost_usd: entry.costUsd,
+        cached: entry.cached,
+        latency_ms: entry.latencyMs,
+        status: entry.status,
+        error_code: entry.errorCode,
+      });
+
+      if (error) throw new Error(error.message);
+    },
+
+    async checkBudget(organizationId) {
+      const { data, error } = await supabase.rpc('get_llm_budget_status', {
+        p_organization_id: organizationId,
+      });
+
+      // Fail open: a ledger outage should not take AI features down with it
+      if (error || !data) {
+        if (error) console.error('[llm] budget check failed:', error.message);
+        return { allowed: true, spentUsd: 0, budgetUsd: null };
+      }
+
+      const status = data as { allowed?: boolean; spent_usd?: number; budget_usd?: number | null };
+      return {
+        allowed: status.allowed !== false,
+        spentUsd: Number(status.spent_usd) || 0,
+        budgetUsd: status.budget_usd ?? null,
+      };
+    },
+  };
+}
+
+/** LLM client wired to the env-selected provider (unless given one), the response cache and the usage ledger */
+export function createLLMClientForFunction(
+  supabase: SupabaseClient,
+  functionName: string,
+  provider: LLMProvider = getLLMProvider()
+): LLMClient {
+  return createLLMClient({
+    provider,
+    functionName,
+    cache: createSupabaseLLMCache(supabase),
+    ledger: createSupabaseLLMLedger(supabase),
+  });
+}
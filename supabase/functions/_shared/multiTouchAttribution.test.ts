@@ -0,0 +1,141 @@
+/**
+ * Unit tests for the multi-touch attribution engine
+ *
+ * Run with: deno test supabase/functions/_shared/multiTouchAttribution.test.ts
+ */
+
+import {
+  assertEquals,
+  assertAlmostEquals,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  AttributionTouchpoint,
+  allocateCredit,
+  channelFromTouchpointType,
+  computeModelWeights,
+  resolveAttributionConfig,
+  selectJourneyTouchpoints,
+  DEFAULT_ATTRIBUTION_CONFIG,
+} from "./multiTouchAttribution.ts";
+
+const CONVERSION_AT = "2026-01-31T12:00:00.000Z";
+
+function tp(id: string, occurredAt: string, overrides: Partial<AttributionTouchpoint> = {}): AttributionTouchpoint {
+  return {
+    id,
+    source: "touchpoint",
+    channel: "meta",
+    occurredAt,
+    refcode: null,
+    campaignId: `campaign-${id}`,
+    ...overrides,
+  };
+}
+
+const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+
+// ============================================================================
+// Journey Selection
+// ============================================================================
+
+Deno.test("selectJourneyTouchpoints orders touches and drops those outside the lookback window", () => {
+  const journey = selectJourneyTouchpoints([
+    tp("c", "2026-01-30T12:00:00.000Z"),
+    tp("old", "2025-12-01T12:00:00.000Z"),
+    tp("a", "2026-01-20T12:00:00.000Z"),
+    tp("after", "2026-02-01T12:00:00.000Z"),
+  ], CONVERSION_AT, DEFAULT_ATTRIBUTION_CONFIG);
+
+  assertEquals(journey.map(t => t.id), ["a", "c"]);
+});
+
+Deno.test("selectJourneyTouchpoints collapses repeat touches of the same campaign within minutes", () => {
+  const journey = selectJourneyTouchpoints([
+    tp("a", "2026-01-30T12:00:00.000Z", { campaignId: "same" }),
+    tp("b", "2026-01-30T12:02:00.000Z", { campaignId: "same" }),
+    tp("c", "2026-01-30T13:00:00.000Z", { campaignId: "same" }),
+  ], CONVERSION_AT);
+
+  assertEquals(journey.map(t => t.id), ["a", "c"]);
+});
+
+// ============================================================================
+// Model Weights
+// ============================================================================
+
+Deno.test("computeModelWeights gives distinct results per model for multi-touch journeys", () => {
+  const journey = [
+    tp("a", "2026-01-10T12:00:00.000Z"),
+    tp("b", "2026-01-24T12:00:00.000Z"),
+    tp("c", "2026-01-31T12:00:00.000Z"),
+  ];
+  const weights = computeModelWeights(journey, CONVERSION_AT);
+
+  assertEquals(weights.first_touch, [1, 0, 0]);
+  assertEquals(weights.last_touch, [0, 0, 1]);
+  assertAlmostEquals(weights.linear[1], 1 / 3);
+  assertAlmostEquals(weights.position_based[0], 0.4);
+  assertAlmostEquals(weights.position_based[1], 0.2);
+  assertAlmostEquals(weights.position_based[2], 0.4);
+
+  // Each model sums to one
+  for (const model of Object.values(weights)) {
+    assertAlmostEquals(sum(model), 1);
+  }
+
+  // Time decay favours the most recent touch
+  assertEquals(weights.time_decay[2] > weights.time_decay[1], true);
+  assertEquals(weights.time_decay[1] > weights.time_decay[0], true);
+});
+
+Deno.test("computeModelWeights halves time-decay weight at the configured half-life", () => {
+  const journey = [
+    tp("a", "2026-01-24T12:00:00.000Z"), // 7 days before conversion
+    tp("b", "2026-01-31T12:00:00.000Z"), // at conversion
+  ];
+  const weights = computeModelWeights(journey, CONVERSION_AT, resolveAttributionConfig({ halfLifeDays: 7 }));
+
+  assertAlmostEquals(weights.time_decay[0] / weights.time_decay[1], 0.5);
+});
+
+Deno.test("computeModelWeights splits position-based evenly for two touches", () => {
+  const journey = [tp("a", "2026-01-20T12:00:00.000Z"), tp("b", "2026-01-30T12:00:00.000Z")];
+  const weights = computeModelWeights(journey, CONVERSION_AT);
+
+  assertEquals(weights.position_based, [0.5, 0.5]);
+});
+
+// ============================================================================
+// Credit Allocation
+// ============================================================================
+
+Deno.test("allocateCredit conserves the donation amount under every model", () => {
+  const journey = [
+    tp("a", "2026-01-10T12:00:00.000Z"),
+    tp("b", "2026-01-20T12:00:00.000Z", { channel: "sms" }),
+    tp("c", "2026-01-25T12:00:00.000Z", { channel: "email" }),
+    tp("d", "2026-01-31T11:00:00.000Z"),
+  ];
+  const credits = allocateCredit(journey, 100, CONVERSION_AT);
+
+  for (const model of ["first_touch", "last_touch", "linear", "position_based", "time_decay"] as const) {
+    assertAlmostEquals(sum(credits.map(c => c.credit[model])), 100);
+  }
+  assertEquals(credits[0].credit.first_touch, 100);
+  assertEquals(credits[3].credit.last_touch, 100);
+});
+
+Deno.test("resolveAttributionConfig falls back to defaults for invalid input", () => {
+  assertEquals(resolveAttributionConfig({ lookbackDays: -5, halfLifeDays: NaN }), DEFAULT_ATTRIBUTION_CONFIG);
+  assertEquals(resolveAttributionConfig({ lookbackDays: 1000 }).lookbackDays, 365);
+  assertEquals(resolveAttributionConfig(null), DEFAULT_ATTRIBUTION_CONFIG);
+});
+
+Deno.test("channelFromTouchpointType maps landing page capture types to their own channel", () => {
+  assertEquals(channelFromTouchpointType("meta_ad"), "meta");
+  assertEquals(channelFromTouchpointType("email"), "email");
+  assertEquals(channelFromTouchpointType("sms"), "sms");
+  assertEquals(channelFromTouchpointType("organic"), "organic");
+  assertEquals(channelFromTouchpointType(null), "other");
+});
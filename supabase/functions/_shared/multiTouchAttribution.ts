@@ -0,0 +1,274 @@
+/**
+ * Multi-Touch Attribution Engine
+ *
+ * Splits the credit for a single donation across the donor's ordered
+ * touchpoints under the five supported models:
+ * - first_touch:    100% to the earliest touchpoint in the lookback window
+ * - last_touch:     100% to the latest touchpoint before the donation
+ * - linear:         equal share to every touchpoint
+ * - position_based: 40% first, 40% last, 20% spread across the middle
+ * - time_decay:     exponential decay by age, configurable half-life
+ *
+ * Touchpoints come from three sources:
+ * - attribution_touchpoints rows (tracked links, email, organic)
+ * - sms_events with event_type = 'clicked' (joined to donors by phone_hash)
+ * - capture-meta-touchpoint records (attribution_touchpoints with
+ *   metadata.source = 'landing_page_capture')
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AttributionModelName =
+  | 'first_touch'
+  | 'last_touch'
+  | 'linear'
+  | 'position_based'
+  | 'time_decay';
+
+export type TouchpointChannel = 'meta' | 'sms' | 'email' | 'organic' | 'other';
+
+export type TouchpointSource = 'touchpoint' | 'sms_click' | 'meta_capture' | 'donation_refcode';
+
+export interface AttributionTouchpoint {
+  id: string;
+  source: TouchpointSource;
+  channel: TouchpointChannel;
+  occurredAt: string;
+  refcode: string | null;
+  campaignId: string | null;
+}
+
+export interface AttributionConfig {
+  /** Touchpoints older than this (relative to the donation) are ignored */
+  lookbackDays: number;
+  /** Age at which a touchpoint gets half the time-decay weight of a same-moment touch */
+  halfLifeDays: number;
+  /** Share given to each of the first and last touch under position_based */
+  positionEndpointShare: number;
+}
+
+export type ModelCredits = Record<AttributionModelName, number>;
+
+export interface TouchpointCredit {
+  touchpoint: AttributionTouchpoint;
+  credit: ModelCredits;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ATTRIBUTION_MODELS: AttributionModelName[] = [
+  'first_touch',
+  'last_touch',
+  'linear',
+  'position_based',
+  'time_decay',
+];
+
+export const DEFAULT_ATTRIBUTION_CONFIG: AttributionConfig = {
+  lookbackDays: 30,
+  halfLifeDays: 7,
+  positionEndpointShare: 0.4,
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Same campaign touched twice within this window counts once (double-fired pixels, repeat clicks)
+const DUPLICATE_TOUCH_WINDOW_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function emptyModelCredits(): ModelCredits {
+  return { first_touch: 0, last_touch: 0, linear: 0, position_based: 0, time_decay: 0 };
+}
+
+/**
+ * Clamp user-supplied config to sane bounds, falling back to defaults.
+ */
+export function resolveAttributionConfig(input?: Partial<AttributionConfig> | null): AttributionConfig {
+  const lookback = Number(input?.lookbackDays);
+  const halfLife = Number(input?.halfLifeDays);
+  const endpoint = Number(input?.positionEndpointShare);
+
+  return {
+    lookbackDays: Number.isFinite(lookback) && lookback > 0
+      ? Math.min(lookback, 365)
+      : DEFAULT_ATTRIBUTION_CONFIG.lookbackDays,
+    halfLifeDays: Number.isFinite(halfLife) && halfLife > 0
+      ? Math.min(halfLife, 180)
+      : DEFAULT_ATTRIBUTION_CONFIG.halfLifeDays,
+    positionEndpointShare: Number.isFinite(endpoint) && endpoint >= 0 && endpoint <= 0.5
+      ? endpoint
+      : DEFAULT_ATTRIBUTION_CONFIG.positionEndpointShare,
+  };
+}
+
+/**
+ * Map an attribution_touchpoints.touchpoint_type to a reporting channel.
+ */
+export function channelFromTouchpointType(type: string | null | undefined): TouchpointChannel {
+  switch ((type || '').toLowerCase()) {
+    case 'meta_ad':
+    case 'meta':
+    case 'facebook':
+      return 'meta';
+    case 'sms':
+      return 'sms';
+    case 'email':
+      return 'email';
+    case 'organic':
+      return 'organic';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * Key that identifies "the same marketing touch" for dedupe purposes.
+ */
+function touchKey(tp: AttributionTouchpoint): string {
+  return `${tp.channel}|${tp.campaignId || tp.refcode || ''}`;
+}
+
+// ============================================================================
+// Journey Construction
+// ============================================================================
+
+/**
+ * Return the touchpoints that are eligible for a donation, ordered oldest first.
+ *
+ * Only touches at or before the donation and within the lookback window count.
+ * Repeat touches of the same campaign within a few minutes are collapsed.
+ */
+export function selectJourneyTouchpoints(
+  touchpoints: AttributionTouchpoint[],
+  conversionAt: string,
+  config: AttributionConfig = DEFAULT_ATTRIBUTION_CONFIG
+): AttributionTouchpoint[] {
+  const conversionMs = new Date(conversionAt).getTime();
+  if (!Number.isFinite(conversionMs)) return [];
+
+  const windowStart = conversionMs - config.lookbackDays * MS_PER_DAY;
+
+  const eligible = touchpoints
+    .filter(tp => {
+      const t = new Date(tp.occurredAt).getTime();
+      return Number.isFinite(t) && t <= conversionMs && t >= windowStart;
+    })
+    .sort((a, b) => new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime());
+
+  const deduped: AttributionTouchpoint[] = [];
+  const lastSeen = new Map<string, number>();
+
+  for (const tp of eligible) {
+    const key = touchKey(tp);
+    const t = new Date(tp.occurredAt).getTime();
+    const previous = lastSeen.get(key);
+    lastSeen.set(key, t);
+    if (previous !== undefined && t - previous < DUPLICATE_TOUCH_WINDOW_MS) continue;
+    deduped.push(tp);
+  }
+
+  return deduped;
+}
+
+// ============================================================================
+// Model Weights
+// ============================================================================
+
+/**
+ * Compute per-touchpoint weights for every model. Each model's weights sum to 1
+ * (or are all 0 when there are no touchpoints).
+ */
+export function computeModelWeights(
+  journey: AttributionTouchpoint[],
+  conversionAt: string,
+  config: AttributionConfig = DEFAULT_ATTRIBUTION_CONFIG
+): Record<AttributionModelName, number[]> {
+  const n = journey.length;
+  const zeros = () => new Array(n).fill(0);
+  const weights: Record<AttributionModelName, number[]> = {
+    first_touch: zeros(),
+    last_touch: zeros(),
+    linear: zeros(),
+    position_based: zeros(),
+    time_decay: zeros(),
+  };
+
+  if (n === 0) return weights;
+
+  // First / last touch
+  weights.first_touch[0] = 1;
+  weights.last_touch[n - 1] = 1;
+
+  // Linear
+  weights.linear = journey.map(() => 1 / n);
+
+  // Position-based (U-shaped)
+  if (n === 1) {
+    weights.position_based[0] = 1;
+  } else if (n === 2) {
+    weights.position_based[0] = 0.5;
+    weights.position_based[1] = 0.5;
+  } else {
+    const endpoint = config.positionEndpointShare;
+    const middleShare = (1 - 2 * endpoint) / (n - 2);
+    weights.position_based = journey.map((_, i) => (i === 0 || i === n - 1 ? endpoint : middleShare));
+  }
+
+  // Time-decay: weight = 2^(-age / halfLife), normalized
+  const conversionMs = new Date(conversionAt).getTime();
+  const raw = journey.map(tp => {
+    const ageDays = Math.max(0, (conversionMs - new Date(tp.occurredAt).getTime()) / MS_PER_DAY);
+    return Math.pow(2, -ageDays / config.halfLifeDays);
+  });
+  const rawTotal = raw.reduce((sum, w) => sum + w, 0);
+  weights.time_decay = rawTotal > 0 ? raw.map(w => w / rawTotal) : journey.map(() => 1 / n);
+
+  return weights;
+}
+
+/**
+ * Split a donation amount across its journey under every model.
+ */
+export function allocateCredit(
+  journey: AttributionTouchpoint[],
+  amount: number,
+  conversionAt: string,
+  config: AttributionConfig = DEFAULT_ATTRIBUTION_CONFIG
+): TouchpointCredit[] {
+  const weights = computeModelWeights(journey, conversionAt, config);
+
+  return journey.map((touchpoint, i) => {
+    const credit = emptyModelCredits();
+    for (const model of ATTRIBUTION_MODELS) {
+      credit[model] = amount * weights[model][i];
+    }
+    return { touchpoint, credit };
+  });
+}
+
+/**
+ * Add one set of model credits into an accumulator (mutates target).
+ */
+export function addCredits(target: ModelCredits, credit: ModelCredits): void {
+  for (const model of ATTRIBUTION_MODELS) {
+    target[model] += credit[model];
+  }
+}
+
+/**
+ * Round every model to cents for API output.
+ */
+export function roundCredits(credit: ModelCredits): ModelCredits {
+  const rounded = emptyModelCredits();
+  for (const model of ATTRIBUTION_MODELS) {
+    rounded[model] = Math.round(credit[model] * 100) / 100;
+  }
+  return rounded;
+}
@@ -0,0 +1,52 @@
+/**
+ * Unit tests for paged reads and batched writes
+ *
+ * Run with: deno test supabase/functions/_shared/paging.test.ts
+ */
+
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import { fetchAll, inBatches, PAGE_SIZE, WRITE_BATCH_SIZE } from "./paging.ts";
+
+Deno.test("fetchAll keeps paging until a short page", async () => {
+  const source = Array.from({ length: PAGE_SIZE * 2 + 5 }, (_, i) => i);
+  const ranges: Array<[number, number]> = [];
+
+  const rows = await fetchAll<number>((from, to) => {
+    ranges.push([from, to]);
+    return Promise.resolve({ data: source.slice(from, to + 1), error: null });
+  });
+
+  assertEquals(rows.length, source.length);
+  assertEquals(ranges, [[0, PAGE_SIZE - 1], [PAGE_SIZE, PAGE_SIZE * 2 - 1], [PAGE_SIZE * 2, PAGE_SIZE * 3 - 1]]);
+});
+
+Deno.test("fetchAll throws the query's error message", async () => {
+  await assertRejects(
+    () => fetchAll(() => Promise.resolve({ data: null, error: { message: "permission denied" } })),
+    Error,
+    "permission denied"
+  );
+});
+
+Deno.test("inBatches writes in WRITE_BATCH_SIZE slices and stops at a failure", async () => {
+  const rows = Array.from({ length: WRITE_BATCH_SIZE * 2 + 1 }, (_, i) => i);
+  const sizes: number[] = [];
+
+  await inBatches(rows, (batch) => {
+    sizes.push(batch.length);
+    return Promise.resolve({ error: null });
+  });
+  assertEquals(sizes, [WRITE_BATCH_SIZE, WRITE_BATCH_SIZE, 1]);
+
+  sizes.length = 0;
+  await assertRejects(
+    () => inBatches(rows, (batch) => {
+      sizes.push(batch.length);
+      return Promise.resolve({ error: { message: "duplicate key" } });
+    }),
+    Error,
+    "duplicate key"
+  );
+  assertEquals(sizes, [WRITE_BATCH_SIZE]);
+});
@@ -0,0 +1,34 @@
+/**
+ * Paged reads and batched writes for Supabase queries.
+ *
+ * PostgREST caps a select at 1000 rows and large upserts hit payload limits,
+ * so stores read with fetchAll and write with inBatches. Both throw the
+ * query's error message.
+ */
+
+export const PAGE_SIZE = 1000;
+export const WRITE_BATCH_SIZE = 500;
+
+type QueryError = { message: string } | null;
+
+/** Every row of a query, given a page builder that applies .range(from, to) */
+export async function fetchAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: QueryError }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/** Writes rows in WRITE_BATCH_SIZE slices, stopping at the first failed batch */
+export async function inBatches<T>(rows: T[], write: (batch: T[]) => PromiseLike<{ error: QueryError }>) {
+  for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+    const { error } = await write(rows.slice(i, i + WRITE_BATCH_SIZE));
+    if (error) throw new Error(error.message);
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for PDF report layout helpers (text fitting, scales, charts)
+ *
+ * Run with: deno test supabase/functions/_shared/pdfLayout.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  columnWidths,
+  detectImageType,
+  formatAxisValue,
+  formatReportDate,
+  formatReportValue,
+  hexToRgb,
+  labelIndexes,
+  niceScale,
+  pieSlices,
+  sanitizePdfText,
+  seriesColor,
+  truncateText,
+  wrapText,
+} from "./pdfLayout.ts";
+
+// One unit per character keeps the width math easy to follow
+const measure = (s: string) => s.length;
+
+// ============================================================================
+// Text
+// ============================================================================
+
+Deno.test("sanitizePdfText maps symbols and drops characters the standard fonts can't draw", () => {
+  assertEquals(sanitizePdfText("Raised → $5,000 🎉"), "Raised -> $5,000");
+  assertEquals(sanitizePdfText("Line one\nline\ttwo"), "Line one line two");
+  assertEquals(sanitizePdfText("“Quoted” – café"), "“Quoted” – café");
+  assertEquals(sanitizePdfText(null), "");
+});
+
+Deno.test("wrapText breaks on words and hard-breaks oversized words", () => {
+  assertEquals(wrapText("the quick brown fox", 10, measure), ["the quick", "brown fox"]);
+  assertEquals(wrapText("abcdefghijkl", 5, measure), ["abcde", "fghij", "kl"]);
+  assertEquals(wrapText("", 10, measure), []);
+});
+
+Deno.test("truncateText ends with an ellipsis only when needed", () => {
+  assertEquals(truncateText("short", 10, measure), "short");
+  assertEquals(truncateText("a much longer title", 10, measure), "a much...");
+});
+
+// ============================================================================
+// Values and scales
+// ============================================================================
+
+Deno.test("formatReportValue formats currency, percent and missing values", () => {
+  assertEquals(formatReportValue(12500, "currency"), "$12,500");
+  assertEquals(formatReportValue(42.5, "currency"), "$42.50");
+  assertEquals(formatReportValue(-300, "currency"), "-$300");
+  assertEquals(formatReportValue(12.345, "percent"), "12.3%");
+  assertEquals(formatReportValue(NaN), "-");
+  assertEquals(formatReportValue(null), "-");
+});
+
+Deno.test("formatAxisValue abbreviates thousands and millions", () => {
+  assertEquals(formatAxisValue(1200, "currency"), "$1.2K");
+  assertEquals(formatAxisValue(3_400_000), "3.4M");
+  assertEquals(formatAxisValue(-50, "percent"), "-50%");
+});
+
+Deno.test("niceScale rounds to readable steps and always includes zero", () => {
+  const scale = niceScale(0, 87);
+  assertEquals(scale.step, 50);
+  assertEquals(scale.ticks, [0, 50, 100]);
+
+  const negative = niceScale(-30, 45);
+  assertEquals(negative.ticks[0] <= -30, true);
+  assertEquals(negative.ticks.includes(0), true);
+
+  // Flat and non-finite series still get a usable axis
+  assertEquals(niceScale(0, 0).max > 0, true);
+  assertEquals(niceScale(NaN, NaN).ticks.length > 1, true);
+});
+
+// ============================================================================
+// Charts
+// ============================================================================
+
+Deno.test("pieSlices skips non-positive values and covers the full circle", () => {
+  const slices = pieSlices([3, 0, 1, -2]);
+  assertEquals(slices.map(s => s.index), [0, 2]);
+  assertEquals(slices[0].fraction, 0.75);
+  assertEquals(Math.abs(slices[1].endAngle - Math.PI * 2) < 1e-9, true);
+  assertEquals(pieSlices([0, 0]), []);
+});
+
+Deno.test("labelIndexes keeps the first and last label", () => {
+  assertEquals(labelIndexes(4, 8), [0, 1, 2, 3]);
+  const picked = labelIndexes(31, 6);
+  assertEquals(picked[0], 0);
+  assertEquals(picked[picked.length - 1], 30);
+  assertEquals(picked.length <= 6, true);
+  assertEquals(labelIndexes(0, 6), []);
+});
+
+Deno.test("seriesColor uses the brand color first, then the palette", () => {
+  assertEquals(seriesColor(0, "#667eea"), "#667eea");
+  assertEquals(seriesColor(3, "#667eea", "#dc2626"), "#dc2626");
+  assertEquals(seriesColor(1, "#667eea") !== "#667eea", true);
+});
+
+Deno.test("hexToRgb parses short and long hex and falls back on junk", () => {
+  assertEquals(hexToRgb("#fff"), { r: 1, g: 1, b: 1 });
+  assertEquals(hexToRgb("000000"), { r: 0, g: 0, b: 0 });
+  assertEquals(hexToRgb("not-a-color", "#ffffff"), { r: 1, g: 1, b: 1 });
+});
+
+Deno.test("columnWidths distributes the table width by weight", () => {
+  assertEquals(columnWidths([{ key: "a", label: "A", width: 3 }, { key: "b", label: "B" }], 400), [300, 100]);
+});
+
+// ============================================================================
+// Misc
+// ============================================================================
+
+Deno.test("formatReportDate reads date-only strings as UTC", () => {
+  assertEquals(formatReportDate("2026-02-01"), "February 1, 2026");
+  assertEquals(formatReportDate("garbage"), "garbage");
+});
+
+Deno.test("detectImageType recognises PNG and JPEG only", () => {
+  assertEquals(detectImageType(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])), "png");
+  assertEquals(detectImageType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0])), "jpeg");
+  assertEquals(detectImageType(new TextEncoder().encode("<svg></svg>")), null);
+});
@@ -0,0 +1,368 @@
+/**
+ * PDF Report Layout
+ *
+ * Document model and renderer-independent layout helpers for the PDF reports
+ * produced by generate-report and send-email-report (see pdfReport.ts for the
+ * pdf-lib renderer). Kept free of remote imports so it can be unit tested.
+ */
+
+// ============================================================================
+// Document Model
+// ============================================================================
+
+export type ValueFormat = 'number' | 'currency' | 'percent' | 'text';
+
+export interface ReportKpi {
+  label: string;
+  value: string;
+  tone?: 'default' | 'positive' | 'negative' | 'warning';
+}
+
+export interface ReportTableColumn {
+  key: string;
+  label: string;
+  align?: 'left' | 'right';
+  /** Relative width; columns share the page width in proportion */
+  width?: number;
+}
+
+export interface ReportChartSeries {
+  name: string;
+  values: number[];
+  color?: string;
+}
+
+export type ReportBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'kpis'; items: ReportKpi[] }
+  | {
+      type: 'table';
+      columns: ReportTableColumn[];
+      rows: Array<Record<string, string | number | null | undefined>>;
+      emptyText?: string;
+    }
+  | {
+      type: 'chart';
+      chart: 'line' | 'bar' | 'pie';
+      title: string;
+      labels: string[];
+      series: ReportChartSeries[];
+      valueFormat?: ValueFormat;
+    }
+  | { type: 'pageBreak' };
+
+export interface ReportDocument {
+  title: string;
+  subtitle?: string;
+  organizationName: string;
+  /** PNG or JPEG bytes for the cover page */
+  logo?: Uint8Array | null;
+  /** Hex brand color for the cover band, headings and charts */
+  primaryColor?: string;
+  dateRange: { start: string; end: string };
+  generatedAt?: Date;
+  footerText?: string;
+  blocks: ReportBlock[];
+}
+
+export const DEFAULT_PRIMARY_COLOR = '#1e3a8a';
+
+// Palette for additional chart series after the brand color
+export const CHART_PALETTE = ['#2563eb', '#16a34a', '#ea580c', '#9333ea', '#0891b2', '#ca8a04', '#dc2626', '#64748b'];
+
+// ============================================================================
+// Text
+// ============================================================================
+
+// Characters outside Latin-1 that the WinAnsi encoding of the standard PDF fonts can still draw
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+const TEXT_REPLACEMENTS: Record<string, string> = {
+  '\u2192': '->',
+  '\u2190': '<-',
+  '\u2264': '<=',
+  '\u2265': '>=',
+  '\u2212': '-',
+  '\u2011': '-',
+  '\u00a0': ' ',
+  '\u2009': ' ',
+  '\u200b': '',
+};
+
+/**
+ * Make text drawable with the standard (WinAnsi) PDF fonts: collapse
+ * whitespace, map common symbols to ASCII and drop anything else (emoji, CJK).
+ */
+export function sanitizePdfText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value).replace(/[\t\r\n]+/g, ' ');
+  let out = '';
+  for (const char of text) {
+    if (char in TEXT_REPLACEMENTS) {
+      out += TEXT_REPLACEMENTS[char];
+      continue;
+    }
+    const code = char.codePointAt(0) ?? 0;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa1 && code <= 0xff) || WIN_ANSI_EXTRAS.has(char)) {
+      out += char;
+    }
+  }
+  return out.replace(/ {2,}/g, ' ').trim();
+}
+
+/**
+ * Greedy word wrap. Words wider than the line are broken by character.
+ */
+export function wrapText(text: string, maxWidth: number, measure: (s: string) => number): string[] {
+  const words = sanitizePdfText(text).split(' ').filter(Boolean);
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measure(candidate) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+
+    if (measure(word) <= maxWidth) {
+      line = word;
+      continue;
+    }
+    // Hard-break an oversized word
+    let chunk = '';
+    for (const char of word) {
+      if (measure(chunk + char) > maxWidth && chunk) {
+        lines.push(chunk);
+        chunk = char;
+      } else {
+        chunk += char;
+      }
+    }
+    line = chunk;
+  }
+
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Shorten text to fit a width, ending with "...".
+ */
+export function truncateText(text: string, maxWidth: number, measure: (s: string) => number): string {
+  const clean = sanitizePdfText(text);
+  if (measure(clean) <= maxWidth) return clean;
+  let cut = clean;
+  while (cut.length > 0 && measure(`${cut}...`) > maxWidth) {
+    cut = cut.slice(0, -1);
+  }
+  return cut ? `${cut.trimEnd()}...` : '';
+}
+
+// ============================================================================
+// Values
+// ============================================================================
+
+export function formatReportValue(value: number | null | undefined, format: ValueFormat = 'number'): string {
+  if (value === null || value === undefined || !Number.isFinite(value)) return '-';
+  switch (format) {
+    case 'currency':
+      return `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', {
+        minimumFractionDigits: Math.abs(value) < 100 && value % 1 !== 0 ? 2 : 0,
+        maximumFractionDigits: 2,
+      })}`;
+    case 'percent':
+      return `${value.toFixed(1)}%`;
+    default:
+      return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  }
+}
+
+/**
+ * Short axis label: 1,200 -> 1.2K, 3,400,000 -> 3.4M.
+ */
+export function formatAxisValue(value: number, format: ValueFormat = 'number'): string {
+  const abs = Math.abs(value);
+  const prefix = format === 'currency' ? '$' : '';
+  const suffix = format === 'percent' ? '%' : '';
+  let body: string;
+  if (abs >= 1_000_000) body = `${+(abs / 1_000_000).toFixed(1)}M`;
+  else if (abs >= 1_000) body = `${+(abs / 1_000).toFixed(1)}K`;
+  else body = `${+abs.toFixed(2)}`;
+  return `${value < 0 ? '-' : ''}${prefix}${body}${suffix}`;
+}
+
+export interface AxisScale {
+  min: number;
+  max: number;
+  step: number;
+  ticks: number[];
+}
+
+/**
+ * Round axis bounds to 1/2/5 x 10^n steps so tick labels are readable.
+ */
+export function niceScale(minValue: number, maxValue: number, maxTicks = 5): AxisScale {
+  let min = Math.min(0, minValue);
+  let max = Math.max(0, maxValue);
+  if (!Number.isFinite(min) || !Number.isFinite(max)) {
+    min = 0;
+    max = 1;
+  }
+  if (max === min) max = min + 1;
+
+  const rawStep = (max - min) / Math.max(1, maxTicks - 1);
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const normalized = rawStep / magnitude;
+  const niceNormalized = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  const step = niceNormalized * magnitude;
+
+  const niceMin = Math.floor(min / step) * step;
+  const niceMax = Math.ceil(max / step) * step;
+  const ticks: number[] = [];
+  for (let tick = niceMin; tick <= niceMax + step / 2; tick += step) {
+    ticks.push(Number(tick.toFixed(10)));
+  }
+  return { min: niceMin, max: niceMax, step, ticks };
+}
+
+export interface PieSlice {
+  index: number;
+  fraction: number;
+  /** Radians clockwise from 12 o'clock */
+  startAngle: number;
+  endAngle: number;
+}
+
+/**
+ * Slices for positive values; zero and negative values are left out.
+ */
+export function pieSlices(values: number[]): PieSlice[] {
+  const total = values.reduce((sum, v) => sum + (v > 0 ? v : 0), 0);
+  if (total <= 0) return [];
+
+  const slices: PieSlice[] = [];
+  let angle = 0;
+  values.forEach((value, index) => {
+    if (value <= 0) return;
+    const fraction = value / total;
+    const endAngle = angle + fraction * Math.PI * 2;
+    slices.push({ index, fraction, startAngle: angle, endAngle });
+    angle = endAngle;
+  });
+  return slices;
+}
+
+/**
+ * SVG path for a pie wedge centred on (0, 0) in SVG coordinates (y down).
+ */
+export function pieWedgePath(radius: number, startAngle: number, endAngle: number): string {
+  const point = (angle: number) => [
+    +(radius * Math.sin(angle)).toFixed(3),
+    +(-radius * Math.cos(angle)).toFixed(3),
+  ];
+  // A full circle can't be drawn with a single arc
+  if (endAngle - startAngle >= Math.PI * 2 - 1e-6) {
+    return `M 0 ${-radius} A ${radius} ${radius} 0 1 1 0 ${radius} A ${radius} ${radius} 0 1 1 0 ${-radius} Z`;
+  }
+  const [x1, y1] = point(startAngle);
+  const [x2, y2] = point(endAngle);
+  const largeArc = endAngle - startAngle > Math.PI ? 1 : 0;
+  return `M 0 0 L ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 1 ${x2} ${y2} Z`;
+}
+
+/**
+ * Pick at most `maxLabels` evenly spaced category label indexes (always
+ * including the first and last) so x-axis labels don't overlap.
+ */
+export function labelIndexes(count: number, maxLabels: number): number[] {
+  if (count <= 0) return [];
+  if (count <= maxLabels) return Array.from({ length: count }, (_, i) => i);
+  const step = (count - 1) / Math.max(1, maxLabels - 1);
+  const indexes = new Set<number>();
+  for (let i = 0; i < maxLabels; i++) indexes.add(Math.round(i * step));
+  return Array.from(indexes).sort((a, b) => a - b);
+}
+
+// ============================================================================
+// Color
+// ============================================================================
+
+export interface RgbColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * Parse #rgb / #rrggbb into 0-1 channels; falls back for anything else.
+ */
+export function hexToRgb(hex: string | null | undefined, fallback = DEFAULT_PRIMARY_COLOR): RgbColor {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec((hex || '').trim());
+  if (!match) return hex === fallback ? { r: 0, g: 0, b: 0 } : hexToRgb(fallback, fallback);
+  const digits = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+  return {
+    r: parseInt(digits.slice(0, 2), 16) / 255,
+    g: parseInt(digits.slice(2, 4), 16) / 255,
+    b: parseInt(digits.slice(4, 6), 16) / 255,
+  };
+}
+
+/**
+ * Mix a color toward white (amount 0 = unchanged, 1 = white).
+ */
+export function lighten(color: RgbColor, amount: number): RgbColor {
+  return {
+    r: color.r + (1 - color.r) * amount,
+    g: color.g + (1 - color.g) * amount,
+    b: color.b + (1 - color.b) * amount,
+  };
+}
+
+/**
+ * Series color: explicit color, else brand color for the first series,
+ * else the palette.
+ */
+export function seriesColor(index: number, primaryColor: string, explicit?: string): string {
+  if (explicit) return explicit;
+  if (index === 0) return primaryColor;
+  return CHART_PALETTE[(index - 1) % CHART_PALETTE.length];
+}
+
+/**
+ * Relative column widths -> absolute widths that fill `totalWidth`.
+ */
+export function columnWidths(columns: ReportTableColumn[], totalWidth: number): number[] {
+  const weights = columns.map(c => (c.width && c.width > 0 ? c.width : 1));
+  const sum = weights.reduce((a, b) => a + b, 0) || 1;
+  return weights.map(w => (w / sum) * totalWidth);
+}
+
+// ============================================================================
+// Misc
+// ============================================================================
+
+/**
+ * "2026-02-01" -> "February 1, 2026". Date-only strings are read as UTC so
+ * the day doesn't shift with the server timezone.
+ */
+export function formatReportDate(value: string | Date): string {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  if (Number.isNaN(date.getTime())) return String(value);
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * Logo formats the PDF renderer can embed, detected from magic bytes.
+ */
+export function detectImageType(bytes: Uint8Array): 'png' | 'jpeg' | null {
+  if (bytes.length >= 8 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return 'png';
+  }
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'jpeg';
+  }
+  return null;
+}
@@ -0,0 +1,674 @@
+/**
+ * PDF Report Renderer
+ *
+ * Renders a ReportDocument (see pdfLayout.ts) to a paginated US Letter PDF
+ * with pdf-lib:
+ * - Cover page with org branding (logo, brand color, title, date range)
+ * - Repeating header (report title / org) and footer (footer text, page X of Y)
+ * - KPI grids, wrapped paragraphs, tables that continue across pages with
+ *   their header row repeated, and vector line / bar / pie charts
+ *
+ * Uses the standard Helvetica fonts, so text goes through sanitizePdfText.
+ */
+
+import {
+  PDFDocument,
+  StandardFonts,
+  rgb,
+  type PDFFont,
+  type PDFImage,
+  type PDFPage,
+  type RGB,
+} from "https://esm.sh/pdf-lib@1.17.1";
+import {
+  DEFAULT_PRIMARY_COLOR,
+  columnWidths,
+  detectImageType,
+  formatAxisValue,
+  formatReportDate,
+  formatReportValue,
+  hexToRgb,
+  labelIndexes,
+  lighten,
+  niceScale,
+  pieSlices,
+  pieWedgePath,
+  sanitizePdfText,
+  seriesColor,
+  truncateText,
+  wrapText,
+  type ReportBlock,
+  type ReportDocument,
+  type RgbColor,
+} from "./pdfLayout.ts";
+
+export interface RenderedPdf {
+  bytes: Uint8Array;
+  pageCount: number;
+}
+
+// Private bucket for rendered reports (see 20260207000000_pdf_report_storage.sql)
+export const REPORTS_BUCKET = 'generated-reports';
+
+// Minimal slice of the Supabase client used to store reports
+interface ReportStorageClient {
+  storage: {
+    from(bucket: string): {
+      upload(
+        path: string,
+        body: Uint8Array,
+        options: { contentType: string; upsert: boolean }
+      ): Promise<{ error: { message: string } | null }>;
+    };
+  };
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CONTENT_TOP = PAGE_HEIGHT - 72;
+const CONTENT_BOTTOM = 60;
+
+const TEXT_COLOR = rgb(0.07, 0.09, 0.15);
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5);
+const BORDER_COLOR = rgb(0.9, 0.91, 0.92);
+const WHITE = rgb(1, 1, 1);
+
+const TONE_COLORS: Record<string, RGB> = {
+  default: TEXT_COLOR,
+  positive: rgb(0.09, 0.64, 0.29),
+  negative: rgb(0.86, 0.15, 0.15),
+  warning: rgb(0.92, 0.35, 0.05),
+};
+
+const TABLE_FONT_SIZE = 8.5;
+const TABLE_LINE_HEIGHT = 11;
+const TABLE_CELL_PADDING = 5;
+const TABLE_MAX_CELL_LINES = 3;
+
+const CHART_HEIGHT = 190;
+
+const LOGO_FETCH_TIMEOUT_MS = 5000;
+
+function toRgb(color: RgbColor): RGB {
+  return rgb(color.r, color.g, color.b);
+}
+
+/**
+ * Fetch an organization logo for the cover page. Returns null for missing,
+ * slow or non PNG/JPEG logos (SVG and WebP can't be embedded).
+ */
+export async function loadReportLogo(url: string | null | undefined): Promise<Uint8Array | null> {
+  if (!url) return null;
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS) });
+    if (!response.ok) return null;
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return detectImageType(bytes) ? bytes : null;
+  } catch (error) {
+    console.warn('[PDF] Could not load logo:', url, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Object path for a report: <org id or "system">/<report id>/<file name>.
+ */
+export function reportStoragePath(reportId: string, organizationId: string | null | undefined, filename: string): string {
+  const safeName = filename.replace(/[^A-Za-z0-9._-]+/g, '_');
+  return `${organizationId || 'system'}/${reportId}/${safeName}`;
+}
+
+/**
+ * Upload a rendered PDF to the reports bucket. Throws on failure.
+ */
+export async function storeReportPdf(client: ReportStorageClient, path: string, bytes: Uint8Array): Promise<void> {
+  const { error } = await client.storage
+    .from(REPORTS_BUCKET)
+    .upload(path, bytes, { contentType: 'application/pdf', upsert: true });
+  if (error) throw new Error(`Failed to store report PDF: ${error.message}`);
+}
+
+/**
+ * Render a report document to PDF bytes.
+ */
+export async function renderReportPdf(report: ReportDocument): Promise<RenderedPdf> {
+  const pdf = await PDFDocument.create();
+  const generatedAt = report.generatedAt ?? new Date();
+  pdf.setTitle(sanitizePdfText(report.title));
+  pdf.setAuthor(sanitizePdfText(report.organizationName));
+  pdf.setCreator('Intelligence Early Warning System');
+  pdf.setCreationDate(generatedAt);
+
+  const renderer = new ReportRenderer(pdf, report, {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  });
+
+  await renderer.drawCover(generatedAt);
+  renderer.startContentPage();
+  for (const block of report.blocks) {
+    renderer.drawBlock(block);
+  }
+  renderer.drawPageChrome();
+
+  const bytes = await pdf.save();
+  return { bytes, pageCount: pdf.getPageCount() };
+}
+
+// ============================================================================
+// Renderer
+// ============================================================================
+
+class ReportRenderer {
+  private page!: PDFPage;
+  private y = CONTENT_TOP;
+  private readonly primary: RgbColor;
+  private readonly primaryHex: string;
+
+  constructor(
+    private readonly pdf: PDFDocument,
+    private readonly report: ReportDocument,
+    private readonly fonts: { regular: PDFFont; bold: PDFFont }
+  ) {
+    this.primaryHex = /^#?[0-9a-f]{3}([0-9a-f]{3})?$/i.test(report.primaryColor || '')
+      ? report.primaryColor!
+      : DEFAULT_PRIMARY_COLOR;
+    this.primary = hexToRgb(this.primaryHex);
+  }
+
+  // --------------------------------------------------------------------------
+  // Pages
+  // --------------------------------------------------------------------------
+
+  async drawCover(generatedAt: Date): Promise<void> {
+    const page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    const bandHeight = 300;
+    page.drawRectangle({
+      x: 0,
+      y: PAGE_HEIGHT - bandHeight,
+      width: PAGE_WIDTH,
+      height: bandHeight,
+      color: toRgb(this.primary),
+    });
+
+    let top = PAGE_HEIGHT - MARGIN;
+    const logo = await this.embedLogo();
+    if (logo) {
+      const size = logo.scaleToFit(180, 60);
+      page.drawRectangle({
+        x: MARGIN - 8,
+        y: top - size.height - 8,
+        width: size.width + 16,
+        height: size.height + 16,
+        color: WHITE,
+      });
+      page.drawImage(logo, { x: MARGIN, y: top - size.height, width: size.width, height: size.height });
+      top -= size.height + 40;
+    } else {
+      top -= 20;
+    }
+
+    page.drawText(sanitizePdfText(this.report.organizationName).toUpperCase(), {
+      x: MARGIN,
+      y: top,
+      size: 12,
+      font: this.fonts.bold,
+      color: WHITE,
+    });
+    top -= 40;
+
+    for (const line of wrapText(this.report.title, CONTENT_WIDTH, s => this.fonts.bold.widthOfTextAtSize(s, 28)).slice(0, 3)) {
+      page.drawText(line, { x: MARGIN, y: top, size: 28, font: this.fonts.bold, color: WHITE });
+      top -= 34;
+    }
+
+    if (this.report.subtitle) {
+      for (const line of wrapText(this.report.subtitle, CONTENT_WIDTH, s => this.fonts.regular.widthOfTextAtSize(s, 12)).slice(0, 2)) {
+        page.drawText(line, { x: MARGIN, y: top, size: 12, font: this.fonts.regular, color: WHITE });
+        top -= 16;
+      }
+    }
+
+    let infoY = PAGE_HEIGHT - bandHeight - 50;
+    const info: Array<[string, string]> = [
+      ['Reporting period', `${formatReportDate(this.report.dateRange.start)} - ${formatReportDate(this.report.dateRange.end)}`],
+      ['Prepared for', this.report.organizationName],
+      ['Generated', formatReportDate(generatedAt)],
+    ];
+    for (const [label, value] of info) {
+      page.drawText(label.toUpperCase(), { x: MARGIN, y: infoY, size: 8, font: this.fonts.bold, color: MUTED_COLOR });
+      page.drawText(sanitizePdfText(value), { x: MARGIN, y: infoY - 16, size: 13, font: this.fonts.regular, color: TEXT_COLOR });
+      infoY -= 48;
+    }
+  }
+
+  startContentPage(): void {
+    this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = CONTENT_TOP;
+  }
+
+  /**
+   * Start a new page when fewer than `height` points remain.
+   * Returns true if a page was added.
+   */
+  private ensureSpace(height: number): boolean {
+    if (this.y - height >= CONTENT_BOTTOM) return false;
+    this.startContentPage();
+    return true;
+  }
+
+  /**
+   * Header and footer on every content page; drawn last so the total
+   * page count is known.
+   */
+  drawPageChrome(): void {
+    const pages = this.pdf.getPages();
+    const total = pages.length;
+    const title = truncateText(this.report.title, CONTENT_WIDTH * 0.6, s => this.fonts.bold.widthOfTextAtSize(s, 9));
+    const org = truncateText(this.report.organizationName, CONTENT_WIDTH * 0.35, s => this.fonts.regular.widthOfTextAtSize(s, 9));
+    const footer = this.report.footerText
+      ? truncateText(this.report.footerText, CONTENT_WIDTH - 80, s => this.fonts.regular.widthOfTextAtSize(s, 8))
+      : '';
+
+    pages.forEach((page, index) => {
+      const pageLabel = `Page ${index + 1} of ${total}`;
+      const labelWidth = this.fonts.regular.widthOfTextAtSize(pageLabel, 8);
+
+      if (index > 0) {
+        page.drawText(title, { x: MARGIN, y: PAGE_HEIGHT - 40, size: 9, font: this.fonts.bold, color: TEXT_COLOR });
+        page.drawText(org, {
+          x: PAGE_WIDTH - MARGIN - this.fonts.regular.widthOfTextAtSize(org, 9),
+          y: PAGE_HEIGHT - 40,
+          size: 9,
+          font: this.fonts.regular,
+          color: MUTED_COLOR,
+        });
+        page.drawLine({
+          start: { x: MARGIN, y: PAGE_HEIGHT - 48 },
+          end: { x: PAGE_WIDTH - MARGIN, y: PAGE_HEIGHT - 48 },
+          thickness: 1.5,
+          color: toRgb(this.primary),
+        });
+      }
+
+      page.drawLine({
+        start: { x: MARGIN, y: 42 },
+        end: { x: PAGE_WIDTH - MARGIN, y: 42 },
+        thickness: 0.5,
+        color: BORDER_COLOR,
+      });
+      if (footer) {
+        page.drawText(footer, { x: MARGIN, y: 30, size: 8, font: this.fonts.regular, color: MUTED_COLOR });
+      }
+      page.drawText(pageLabel, {
+        x: PAGE_WIDTH - MARGIN - labelWidth,
+        y: 30,
+        size: 8,
+        font: this.fonts.regular,
+        color: MUTED_COLOR,
+      });
+    });
+  }
+
+  private async embedLogo(): Promise<PDFImage | null> {
+    const bytes = this.report.logo;
+    if (!bytes) return null;
+    try {
+      const type = detectImageType(bytes);
+      if (type === 'png') return await this.pdf.embedPng(bytes);
+      if (type === 'jpeg') return await this.pdf.embedJpg(bytes);
+    } catch (error) {
+      console.warn('[PDF] Could not embed logo:', error instanceof Error ? error.message : error);
+    }
+    return null;
+  }
+
+  // --------------------------------------------------------------------------
+  // Blocks
+  // --------------------------------------------------------------------------
+
+  drawBlock(block: ReportBlock): void {
+    switch (block.type) {
+      case 'heading':
+        this.drawHeading(block.text);
+        break;
+      case 'paragraph':
+        this.drawParagraph(block.text);
+        break;
+      case 'kpis':
+        this.drawKpis(block.items);
+        break;
+      case 'table':
+        this.drawTable(block);
+        break;
+      case 'chart':
+        this.drawChart(block);
+        break;
+      case 'pageBreak':
+        if (this.y < CONTENT_TOP) this.startContentPage();
+        break;
+    }
+  }
+
+  private drawHeading(text: string): void {
+    // Keep a heading together with at least a few lines of what follows
+    this.ensureSpace(70);
+    if (this.y < CONTENT_TOP) this.y -= 14;
+    this.page.drawText(truncateText(text, CONTENT_WIDTH, s => this.fonts.bold.widthOfTextAtSize(s, 14)), {
+      x: MARGIN,
+      y: this.y - 14,
+      size: 14,
+      font: this.fonts.bold,
+      color: toRgb(this.primary),
+    });
+    this.y -= 26;
+  }
+
+  private drawParagraph(text: string): void {
+    const lines = wrapText(text, CONTENT_WIDTH, s => this.fonts.regular.widthOfTextAtSize(s, 10));
+    for (const line of lines) {
+      this.ensureSpace(14);
+      this.page.drawText(line, { x: MARGIN, y: this.y - 10, size: 10, font: this.fonts.regular, color: TEXT_COLOR });
+      this.y -= 14;
+    }
+    this.y -= 8;
+  }
+
+  private drawKpis(items: Array<{ label: string; value: string; tone?: string }>): void {
+    const perRow = Math.min(4, Math.max(1, items.length));
+    const gap = 10;
+    const boxWidth = (CONTENT_WIDTH - gap * (perRow - 1)) / perRow;
+    const boxHeight = 54;
+
+    for (let start = 0; start < items.length; start += perRow) {
+      this.ensureSpace(boxHeight + gap);
+      items.slice(start, start + perRow).forEach((item, i) => {
+        const x = MARGIN + i * (boxWidth + gap);
+        const y = this.y - boxHeight;
+        this.page.drawRectangle({
+          x,
+          y,
+          width: boxWidth,
+          height: boxHeight,
+          color: toRgb(lighten(this.primary, 0.93)),
+          borderColor: BORDER_COLOR,
+          borderWidth: 0.5,
+        });
+        this.page.drawText(truncateText(item.label.toUpperCase(), boxWidth - 16, s => this.fonts.bold.widthOfTextAtSize(s, 7.5)), {
+          x: x + 8,
+          y: y + boxHeight - 16,
+          size: 7.5,
+          font: this.fonts.bold,
+          color: MUTED_COLOR,
+        });
+        this.page.drawText(truncateText(item.value, boxWidth - 16, s => this.fonts.bold.widthOfTextAtSize(s, 16)), {
+          x: x + 8,
+          y: y + 12,
+          size: 16,
+          font: this.fonts.bold,
+          color: TONE_COLORS[item.tone || 'default'] ?? TEXT_COLOR,
+        });
+      });
+      this.y -= boxHeight + gap;
+    }
+    this.y -= 6;
+  }
+
+  private drawTable(block: Extract<ReportBlock, { type: 'table' }>): void {
+    const widths = columnWidths(block.columns, CONTENT_WIDTH);
+    const measure = (font: PDFFont) => (s: string) => font.widthOfTextAtSize(s, TABLE_FONT_SIZE);
+
+    const cellLines = (text: string, width: number, font: PDFFont): string[] => {
+      const lines = wrapText(text, width - TABLE_CELL_PADDING * 2, measure(font));
+      if (lines.length <= TABLE_MAX_CELL_LINES) return lines.length > 0 ? lines : [''];
+      const kept = lines.slice(0, TABLE_MAX_CELL_LINES);
+      kept[kept.length - 1] = truncateText(`${kept[kept.length - 1]} ${lines[TABLE_MAX_CELL_LINES]}`, width - TABLE_CELL_PADDING * 2, measure(font));
+      return kept;
+    };
+
+    const drawRow = (cells: string[][], height: number, font: PDFFont, fill: RGB | null, color: RGB) => {
+      let x = MARGIN;
+      if (fill) {
+        this.page.drawRectangle({ x: MARGIN, y: this.y - height, width: CONTENT_WIDTH, height, color: fill });
+      }
+      cells.forEach((lines, i) => {
+        const column = block.columns[i];
+        lines.forEach((line, lineIndex) => {
+          const textWidth = font.widthOfTextAtSize(line, TABLE_FONT_SIZE);
+          const textX = column.align === 'right'
+            ? x + widths[i] - TABLE_CELL_PADDING - textWidth
+            : x + TABLE_CELL_PADDING;
+          this.page.drawText(line, {
+            x: textX,
+            y: this.y - TABLE_CELL_PADDING - TABLE_FONT_SIZE - lineIndex * TABLE_LINE_HEIGHT + 1,
+            size: TABLE_FONT_SIZE,
+            font,
+            color,
+          });
+        });
+        x += widths[i];
+      });
+      this.page.drawLine({
+        start: { x: MARGIN, y: this.y - height },
+        end: { x: MARGIN + CONTENT_WIDTH, y: this.y - height },
+        thickness: 0.5,
+        color: BORDER_COLOR,
+      });
+      this.y -= height;
+    };
+
+    const headerCells = block.columns.map((c, i) => cellLines(c.label, widths[i], this.fonts.bold));
+    const headerHeight = rowHeight(headerCells);
+    const drawHeader = () =>
+      drawRow(headerCells, headerHeight, this.fonts.bold, toRgb(lighten(this.primary, 0.85)), TEXT_COLOR);
+
+    this.ensureSpace(headerHeight + TABLE_LINE_HEIGHT * 2 + TABLE_CELL_PADDING * 2);
+    drawHeader();
+
+    if (block.rows.length === 0) {
+      drawRow([[sanitizePdfText(block.emptyText || 'No data for this period')]], TABLE_LINE_HEIGHT + TABLE_CELL_PADDING * 2, this.fonts.regular, null, MUTED_COLOR);
+    }
+
+    block.rows.forEach((row, rowIndex) => {
+      const cells = block.columns.map((c, i) => cellLines(cellText(row[c.key]), widths[i], this.fonts.regular));
+      const height = rowHeight(cells);
+      if (this.ensureSpace(height)) drawHeader();
+      drawRow(cells, height, this.fonts.regular, rowIndex % 2 === 1 ? rgb(0.98, 0.98, 0.99) : null, TEXT_COLOR);
+    });
+
+    this.y -= 14;
+  }
+
+  private drawChart(block: Extract<ReportBlock, { type: 'chart' }>): void {
+    const legendHeight = block.chart === 'pie' ? 0 : 16;
+    this.ensureSpace(CHART_HEIGHT + 30 + legendHeight);
+
+    this.page.drawText(truncateText(block.title, CONTENT_WIDTH, s => this.fonts.bold.widthOfTextAtSize(s, 11)), {
+      x: MARGIN,
+      y: this.y - 11,
+      size: 11,
+      font: this.fonts.bold,
+      color: TEXT_COLOR,
+    });
+    this.y -= 20;
+
+    const hasData = block.series.some(s => s.values.some(v => Number.isFinite(v) && v !== 0));
+    if (!hasData || block.labels.length === 0) {
+      this.page.drawText('No data for this period', {
+        x: MARGIN,
+        y: this.y - 12,
+        size: 9,
+        font: this.fonts.regular,
+        color: MUTED_COLOR,
+      });
+      this.y -= 32;
+      return;
+    }
+
+    if (block.chart === 'pie') {
+      this.drawPieChart(block);
+    } else {
+      this.drawCartesianChart(block);
+    }
+    this.y -= 18;
+  }
+
+  private drawCartesianChart(block: Extract<ReportBlock, { type: 'chart' }>): void {
+    const format = block.valueFormat ?? 'number';
+    const values = block.series.flatMap(s => s.values.filter(Number.isFinite));
+    const scale = niceScale(Math.min(...values), Math.max(...values));
+
+    const axisLabelWidth = Math.max(
+      ...scale.ticks.map(t => this.fonts.regular.widthOfTextAtSize(formatAxisValue(t, format), 7))
+    );
+    const plotLeft = MARGIN + axisLabelWidth + 6;
+    const plotWidth = MARGIN + CONTENT_WIDTH - plotLeft;
+    const plotTop = this.y;
+    const plotHeight = CHART_HEIGHT - 24;
+    const plotBottom = plotTop - plotHeight;
+    const yFor = (value: number) => plotBottom + ((value - scale.min) / (scale.max - scale.min)) * plotHeight;
+
+    // Grid + y axis labels
+    for (const tick of scale.ticks) {
+      const y = yFor(tick);
+      this.page.drawLine({
+        start: { x: plotLeft, y },
+        end: { x: plotLeft + plotWidth, y },
+        thickness: tick === 0 ? 0.8 : 0.4,
+        color: tick === 0 ? MUTED_COLOR : BORDER_COLOR,
+      });
+      const label = formatAxisValue(tick, format);
+      this.page.drawText(label, {
+        x: plotLeft - 6 - this.fonts.regular.widthOfTextAtSize(label, 7),
+        y: y - 2.5,
+        size: 7,
+        font: this.fonts.regular,
+        color: MUTED_COLOR,
+      });
+    }
+
+    const count = block.labels.length;
+    const slot = plotWidth / count;
+    const xCenter = (i: number) => plotLeft + slot * (i + 0.5);
+
+    if (block.chart === 'bar') {
+      const groupWidth = Math.min(slot * 0.8, 48);
+      const barWidth = groupWidth / block.series.length;
+      block.series.forEach((series, s) => {
+        const color = toRgb(hexToRgb(seriesColor(s, this.primaryHex, series.color)));
+        series.values.forEach((value, i) => {
+          if (!Number.isFinite(value) || value === 0) return;
+          const x = xCenter(i) - groupWidth / 2 + s * barWidth;
+          const y0 = yFor(0);
+          const y1 = yFor(value);
+          this.page.drawRectangle({
+            x,
+            y: Math.min(y0, y1),
+            width: Math.max(barWidth - 1, 0.5),
+            height: Math.abs(y1 - y0),
+            color,
+          });
+        });
+      });
+    } else {
+      block.series.forEach((series, s) => {
+        const color = toRgb(hexToRgb(seriesColor(s, this.primaryHex, series.color)));
+        let previous: { x: number; y: number } | null = null;
+        series.values.forEach((value, i) => {
+          if (!Number.isFinite(value)) {
+            previous = null;
+            return;
+          }
+          const point = { x: xCenter(i), y: yFor(value) };
+          if (previous) {
+            this.page.drawLine({ start: previous, end: point, thickness: 1.6, color });
+          }
+          if (count <= 31) {
+            this.page.drawCircle({ x: point.x, y: point.y, size: 1.8, color });
+          }
+          previous = point;
+        });
+      });
+    }
+
+    // X axis labels
+    const maxLabels = Math.max(2, Math.floor(plotWidth / 60));
+    for (const i of labelIndexes(count, maxLabels)) {
+      const label = truncateText(block.labels[i], 58, s => this.fonts.regular.widthOfTextAtSize(s, 7));
+      const width = this.fonts.regular.widthOfTextAtSize(label, 7);
+      this.page.drawText(label, {
+        x: Math.min(Math.max(xCenter(i) - width / 2, plotLeft), plotLeft + plotWidth - width),
+        y: plotBottom - 12,
+        size: 7,
+        font: this.fonts.regular,
+        color: MUTED_COLOR,
+      });
+    }
+
+    this.y = plotBottom - 24;
+    this.drawLegend(block.series.map((s, i) => ({ name: s.name, color: seriesColor(i, this.primaryHex, s.color) })));
+  }
+
+  private drawPieChart(block: Extract<ReportBlock, { type: 'chart' }>): void {
+    const values = block.series[0]?.values ?? [];
+    const slices = pieSlices(values);
+    const radius = (CHART_HEIGHT - 30) / 2;
+    const cx = MARGIN + radius + 10;
+    const cy = this.y - radius - 4;
+    const format = block.valueFormat ?? 'number';
+
+    for (const slice of slices) {
+      const color = toRgb(hexToRgb(seriesColor(slice.index, this.primaryHex)));
+      this.page.drawSvgPath(pieWedgePath(radius, slice.startAngle, slice.endAngle), {
+        x: cx,
+        y: cy,
+        color,
+        borderColor: WHITE,
+        borderWidth: 1,
+      });
+    }
+
+    // Legend with values and shares
+    let legendY = this.y - 12;
+    const legendX = cx + radius + 30;
+    for (const slice of slices) {
+      if (legendY < cy - radius) break;
+      const color = toRgb(hexToRgb(seriesColor(slice.index, this.primaryHex)));
+      this.page.drawRectangle({ x: legendX, y: legendY - 1, width: 8, height: 8, color });
+      const text = `${block.labels[slice.index] ?? ''}: ${formatReportValue(values[slice.index], format)} (${(slice.fraction * 100).toFixed(1)}%)`;
+      this.page.drawText(
+        truncateText(text, MARGIN + CONTENT_WIDTH - legendX - 14, s => this.fonts.regular.widthOfTextAtSize(s, 8.5)),
+        { x: legendX + 14, y: legendY, size: 8.5, font: this.fonts.regular, color: TEXT_COLOR }
+      );
+      legendY -= 16;
+    }
+
+    this.y = cy - radius - 8;
+  }
+
+  private drawLegend(entries: Array<{ name: string; color: string }>): void {
+    if (entries.length < 2) return;
+    let x = MARGIN;
+    for (const entry of entries) {
+      const label = sanitizePdfText(entry.name);
+      const width = this.fonts.regular.widthOfTextAtSize(label, 8);
+      if (x + width + 24 > MARGIN + CONTENT_WIDTH) break;
+      this.page.drawRectangle({ x, y: this.y - 8, width: 8, height: 8, color: toRgb(hexToRgb(entry.color)) });
+      this.page.drawText(label, { x: x + 12, y: this.y - 7, size: 8, font: this.fonts.regular, color: TEXT_COLOR });
+      x += width + 28;
+    }
+    this.y -= 14;
+  }
+}
+
+function cellText(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'number' ? formatReportValue(value) : value;
+}
+
+function rowHeight(cells: string[][]): number {
+  const lines = Math.max(1, ...cells.map(c => c.length));
+  return lines * TABLE_LINE_HEIGHT + TABLE_CELL_PADDING * 2 - 2;
+}
@@ -1,8 +1,10 @@
 /**
  * Political Entities Detection and Matching
  *
- * Provides utilities for detecting and matching political entities
- * (politicians, organizations, legislation) in text.
+ * Provides utilities for detecting geographies and matching political
+ * entities (politicians, organizations, legislation) in text. The entities
+ * themselves live in the political_entities knowledge base; see
+ * entityKnowledgeBase.ts for resolving mentions against it.
  */
 
 // ============================================================================
@@ -91,158 +93,6 @@ export const MAJOR_CITIES: Record<string, string> = {
   'washington dc': 'DC', 'washington d.c.': 'DC', 'the district': 'DC',
 };
 
-// ============================================================================
-// Well-Known Politicians (Hardcoded for quick matching)
-// ============================================================================
-
-export const WELL_KNOWN_POLITICIANS: PoliticalEntity[] = [
-  // Current Administration
-  { canonical_name: 'Joe Biden', entity_type: 'politician', aliases: ['biden', 'president biden'], party: 'D', office: 'President' },
-  { canonical_name: 'Kamala Harris', entity_type: 'politician', aliases: ['harris', 'vice president harris'], party: 'D', office: 'Vice President' },
-
-  // Congressional Leadership
-  { canonical_name: 'Chuck Schumer', entity_type: 'politician', aliases: ['schumer', 'senator schumer'], party: 'D', state: 'NY', office: 'Senate Majority Leader' },
-  { canonical_name: 'Mitch McConnell', entity_type: 'politician', aliases: ['mcconnell', 'senator mcconnell'], party: 'R', state: 'KY', office: 'Senate Minority Leader' },
-  { canonical_name: 'Mike Johnson', entity_type: 'politician', aliases: ['speaker johnson'], party: 'R', state: 'LA', office: 'Speaker of the House' },
-  { canonical_name: 'Hakeem Jeffries', entity_type: 'politician', aliases: ['jeffries', 'representative jeffries'], party: 'D', state: 'NY', office: 'House Minority Leader' },
-
-  // Former Presidents
-  { canonical_name: 'Donald Trump', entity_type: 'politician', aliases: ['trump', 'former president trump'], party: 'R', office: 'Former President' },
-  { canonical_name: 'Barack Obama', entity_type: 'politician', aliases: ['obama', 'former president obama'], party: 'D', office: 'Former President' },
-
-  // Supreme Court (all 9 justices)
-  { canonical_name: 'John Roberts', entity_type: 'politician', aliases: ['chief justice roberts', 'roberts'], office: 'Chief Justice' },
-  { canonical_name: 'Clarence Thomas', entity_type: 'politician', aliases: ['justice thomas', 'thomas'], office: 'Supreme Court Justice' },
-  { canonical_name: 'Samuel Alito', entity_type: 'politician', aliases: ['justice alito', 'alito'], office: 'Supreme Court Justice' },
-  { canonical_name: 'Sonia Sotomayor', entity_type: 'politician', aliases: ['justice sotomayor', 'sotomayor'], office: 'Supreme Court Justice' },
-  { canonical_name: 'Elena Kagan', entity_type: 'politician', aliases: ['justice kagan', 'kagan'], office: 'Supreme Court Justice' },
-  { canonical_name: 'Neil Gorsuch', entity_type: 'politician', aliases: ['justice gorsuch', 'gorsuch'], office: 'Supreme Court Justice' },
-  { canonical_name: 'Brett Kavanaugh', entity_type: 'politician', aliases: ['justice kavanaugh', 'kavanaugh'], office: 'Supreme Court Justice' },
-  { canonical_name: 'Amy Coney Barrett', entity_type: 'politician', aliases: ['justice barrett', 'barrett', 'acb'], office: 'Supreme Court Justice' },
-  { canonical_name: 'Ketanji Brown Jackson', entity_type: 'politician', aliases: ['justice jackson', 'jackson', 'kbj'], office: 'Supreme Court Justice' },
-
-  // Prominent Senators
-  { canonical_name: 'Bernie Sanders', entity_type: 'politician', aliases: ['bernie', 'senator sanders'], party: 'I', state: 'VT' },
-  { canonical_name: 'Elizabeth Warren', entity_type: 'politician', aliases: ['warren', 'senator warren'], party: 'D', state: 'MA' },
-  { canonical_name: 'Ted Cruz', entity_type: 'politician', aliases: ['cruz', 'senator cruz'], party: 'R', state: 'TX' },
-  { canonical_name: 'Marco Rubio', entity_type: 'politician', aliases: ['rubio', 'senator rubio'], party: 'R', state: 'FL' },
-
-  // Prominent Representatives
-  { canonical_name: 'Alexandria Ocasio-Cortez', entity_type: 'politician', aliases: ['aoc', 'ocasio-cortez', 'representative ocasio-cortez'], party: 'D', state: 'NY' },
-  { canonical_name: 'Marjorie Taylor Greene', entity_type: 'politician', aliases: ['mtg', 'greene', 'representative greene'], party: 'R', state: 'GA' },
-];
-
-// ============================================================================
-// Well-Known Organizations
-// ============================================================================
-
-export const WELL_KNOWN_ORGANIZATIONS: PoliticalEntity[] = [
-  { canonical_name: 'ACLU', entity_type: 'organization', aliases: ['american civil liberties union'], policy_domains: ['Civil Rights'] },
-  { canonical_name: 'NAACP', entity_type: 'organization', aliases: ['national association for the advancement of colored people'], policy_domains: ['Civil Rights'] },
-  { canonical_name: 'Planned Parenthood', entity_type: 'organization', aliases: [], policy_domains: ['Healthcare', 'Civil Rights'] },
-  { canonical_name: 'NRA', entity_type: 'organization', aliases: ['national rifle association'], policy_domains: ['Civil Rights'] },
-  { canonical_name: 'AFL-CIO', entity_type: 'organization', aliases: ['afl cio'], policy_domains: ['Labor & Workers Rights'] },
-  { canonical_name: 'AARP', entity_type: 'organization', aliases: [], policy_domains: ['Healthcare', 'Economic Justice'] },
-  { canonical_name: 'Sierra Club', entity_type: 'organization', aliases: [], policy_domains: ['Environment'] },
-  { canonical_name: 'Greenpeace', entity_type: 'organization', aliases: [], policy_domains: ['Environment'] },
-  { canonical_name: 'Human Rights Campaign', entity_type: 'organization', aliases: ['hrc'], policy_domains: ['Civil Rights'] },
-  { canonical_name: 'Heritage Foundation', entity_type: 'organization', aliases: [], policy_domains: ['Economic Justice', 'Foreign Policy'] },
-  { canonical_name: 'Brookings Institution', entity_type: 'organization', aliases: ['brookings'], policy_domains: ['Economic Justice', 'Foreign Policy'] },
-];
-
-// ============================================================================
-// Government Agencies
-// ============================================================================
-
-export const GOVERNMENT_AGENCIES: PoliticalEntity[] = [
-  // Departments
-  { canonical_name: 'Department of Justice', entity_type: 'agency', aliases: ['doj', 'justice department'], policy_domains: ['Criminal Justice', 'Civil Rights'] },
-  { canonical_name: 'Department of Homeland Security', entity_type: 'agency', aliases: ['dhs'], policy_domains: ['Immigration'] },
-  { canonical_name: 'Department of Education', entity_type: 'agency', aliases: ['doe', 'ed'], policy_domains: ['Education'] },
-  { canonical_name: 'Department of Health and Human Services', entity_type: 'agency', aliases: ['hhs'], policy_domains: ['Healthcare'] },
-  { canonical_name: 'Department of Housing and Urban Development', entity_type: 'agency', aliases: ['hud'], policy_domains: ['Housing'] },
-  { canonical_name: 'Department of Energy', entity_type: 'agency', aliases: ['doe'], policy_domains: ['Environment', 'Technology'] },
-  { canonical_name: 'Department of Transportation', entity_type: 'agency', aliases: ['dot'], policy_domains: ['Economic Justice'] },
-  { canonical_name: 'Department of Labor', entity_type: 'agency', aliases: ['dol'], policy_domains: ['Labor & Workers Rights'] },
-  { canonical_name: 'Department of Agriculture', entity_type: 'agency', aliases: ['usda'], policy_domains: ['Environment', 'Economic Justice'] },
-  { canonical_name: 'Department of Commerce', entity_type: 'agency', aliases: ['doc'], policy_domains: ['Economic Justice', 'Technology'] },
-  { canonical_name: 'Department of Interior', entity_type: 'agency', aliases: ['doi'], policy_domains: ['Environment'] },
-  { canonical_name: 'Department of Veterans Affairs', entity_type: 'agency', aliases: ['va'], policy_domains: ['Healthcare'] },
-  { canonical_name: 'Department of State', entity_type: 'agency', aliases: ['state department'], policy_domains: ['Foreign Policy'] },
-  { canonical_name: 'Department of Treasury', entity_type: 'agency', aliases: ['treasury'], policy_domains: ['Economic Justice'] },
-  { canonical_name: 'Department of Defense', entity_type: 'agency', aliases: ['dod', 'pentagon'], policy_domains: ['Foreign Policy'] },
-
-  // Major Agencies
-  { canonical_name: 'Environmental Protection Agency', entity_type: 'agency', aliases: ['epa'], policy_domains: ['Environment'] },
-  { canonical_name: 'Federal Bureau of Investigation', entity_type: 'agency', aliases: ['fbi'], policy_domains: ['Criminal Justice'] },
-  { canonical_name: 'Immigration and Customs Enforcement', entity_type: 'agency', aliases: ['ice'], policy_domains: ['Immigration'] },
-  { canonical_name: 'Customs and Border Protection', entity_type: 'agency', aliases: ['cbp', 'border patrol'], policy_domains: ['Immigration'] },
-  { canonical_name: 'Federal Trade Commission', entity_type: 'agency', aliases: ['ftc'], policy_domains: ['Technology', 'Economic Justice'] },
-  { canonical_name: 'Securities and Exchange Commission', entity_type: 'agency', aliases: ['sec'], policy_domains: ['Economic Justice'] },
-  { canonical_name: 'National Labor Relations Board', entity_type: 'agency', aliases: ['nlrb'], policy_domains: ['Labor & Workers Rights'] },
-
-  // Healthcare Agencies
-  { canonical_name: 'Food and Drug Administration', entity_type: 'agency', aliases: ['fda'], policy_domains: ['Healthcare'] },
-  { canonical_name: 'Centers for Disease Control and Prevention', entity_type: 'agency', aliases: ['cdc'], policy_domains: ['Healthcare'] },
-  { canonical_name: 'National Institutes of Health', entity_type: 'agency', aliases: ['nih'], policy_domains: ['Healthcare'] },
-  { canonical_name: 'Centers for Medicare and Medicaid Services', entity_type: 'agency', aliases: ['cms'], policy_domains: ['Healthcare'] },
-
-  // Other Important Agencies
-  { canonical_name: 'Federal Communications Commission', entity_type: 'agency', aliases: ['fcc'], policy_domains: ['Technology'] },
-  { canonical_name: 'Federal Reserve', entity_type: 'agency', aliases: ['the fed', 'federal reserve board'], policy_domains: ['Economic Justice'] },
-  { canonical_name: 'Consumer Financial Protection Bureau', entity_type: 'agency', aliases: ['cfpb'], policy_domains: ['Economic Justice'] },
-  { canonical_name: 'Social Security Administration', entity_type: 'agency', aliases: ['ssa', 'social security'], policy_domains: ['Economic Justice'] },
-  { canonical_name: 'Small Business Administration', entity_type: 'agency', aliases: ['sba'], policy_domains: ['Economic Justice'] },
-  { canonical_name: 'Federal Emergency Management Agency', entity_type: 'agency', aliases: ['fema'], policy_domains: ['Environment'] },
-  { canonical_name: 'Bureau of Alcohol, Tobacco, Firearms and Explosives', entity_type: 'agency', aliases: ['atf'], policy_domains: ['Criminal Justice'] },
-  { canonical_name: 'Drug Enforcement Administration', entity_type: 'agency', aliases: ['dea'], policy_domains: ['Criminal Justice', 'Healthcare'] },
-  { canonical_name: 'Bureau of Prisons', entity_type: 'agency', aliases: ['bop'], policy_domains: ['Criminal Justice'] },
-  { canonical_name: 'Equal Employment Opportunity Commission', entity_type: 'agency', aliases: ['eeoc'], policy_domains: ['Labor & Workers Rights', 'Civil Rights'] },
-  { canonical_name: 'Occupational Safety and Health Administration', entity_type: 'agency', aliases: ['osha'], policy_domains: ['Labor & Workers Rights'] },
-  { canonical_name: 'National Security Agency', entity_type: 'agency', aliases: ['nsa'], policy_domains: ['Technology', 'Foreign Policy'] },
-  { canonical_name: 'Central Intelligence Agency', entity_type: 'agency', aliases: ['cia'], policy_domains: ['Foreign Policy'] },
-  { canonical_name: 'Cybersecurity and Infrastructure Security Agency', entity_type: 'agency', aliases: ['cisa'], policy_domains: ['Technology'] },
-  { canonical_name: 'Federal Election Commission', entity_type: 'agency', aliases: ['fec'], policy_domains: ['Voting Rights'] },
-  { canonical_name: 'U.S. Citizenship and Immigration Services', entity_type: 'agency', aliases: ['uscis'], policy_domains: ['Immigration'] },
-];
-
-// ============================================================================
-// Cabinet Positions (for pattern matching)
-// ============================================================================
-
-export const CABINET_POSITIONS: PoliticalEntity[] = [
-  { canonical_name: 'Secretary of State', entity_type: 'politician', aliases: ['state secretary'], office: 'Cabinet', policy_domains: ['Foreign Policy'] },
-  { canonical_name: 'Secretary of Defense', entity_type: 'politician', aliases: ['defense secretary', 'secdef'], office: 'Cabinet', policy_domains: ['Foreign Policy'] },
-  { canonical_name: 'Secretary of Treasury', entity_type: 'politician', aliases: ['treasury secretary'], office: 'Cabinet', policy_domains: ['Economic Justice'] },
-  { canonical_name: 'Attorney General', entity_type: 'politician', aliases: ['ag'], office: 'Cabinet', policy_domains: ['Criminal Justice', 'Civil Rights'] },
-  { canonical_name: 'Secretary of Homeland Security', entity_type: 'politician', aliases: ['homeland security secretary', 'dhs secretary'], office: 'Cabinet', policy_domains: ['Immigration'] },
-  { canonical_name: 'Secretary of Health and Human Services', entity_type: 'politician', aliases: ['hhs secretary', 'health secretary'], office: 'Cabinet', policy_domains: ['Healthcare'] },
-  { canonical_name: 'Secretary of Education', entity_type: 'politician', aliases: ['education secretary'], office: 'Cabinet', policy_domains: ['Education'] },
-  { canonical_name: 'Secretary of Housing and Urban Development', entity_type: 'politician', aliases: ['hud secretary', 'housing secretary'], office: 'Cabinet', policy_domains: ['Housing'] },
-  { canonical_name: 'Secretary of Transportation', entity_type: 'politician', aliases: ['transportation secretary', 'dot secretary'], office: 'Cabinet', policy_domains: ['Economic Justice'] },
-  { canonical_name: 'Secretary of Energy', entity_type: 'politician', aliases: ['energy secretary', 'doe secretary'], office: 'Cabinet', policy_domains: ['Environment', 'Technology'] },
-  { canonical_name: 'Secretary of Agriculture', entity_type: 'politician', aliases: ['agriculture secretary', 'usda secretary'], office: 'Cabinet', policy_domains: ['Environment'] },
-  { canonical_name: 'Secretary of Commerce', entity_type: 'politician', aliases: ['commerce secretary'], office: 'Cabinet', policy_domains: ['Economic Justice', 'Technology'] },
-  { canonical_name: 'Secretary of Labor', entity_type: 'politician', aliases: ['labor secretary', 'dol secretary'], office: 'Cabinet', policy_domains: ['Labor & Workers Rights'] },
-  { canonical_name: 'Secretary of Interior', entity_type: 'politician', aliases: ['interior secretary'], office: 'Cabinet', policy_domains: ['Environment'] },
-  { canonical_name: 'Secretary of Veterans Affairs', entity_type: 'politician', aliases: ['va secretary', 'veterans affairs secretary'], office: 'Cabinet', policy_domains: ['Healthcare'] },
-  { canonical_name: 'EPA Administrator', entity_type: 'politician', aliases: ['epa head', 'environmental protection agency administrator'], office: 'Cabinet', policy_domains: ['Environment'] },
-  { canonical_name: 'OMB Director', entity_type: 'politician', aliases: ['budget director', 'office of management and budget director'], office: 'Cabinet', policy_domains: ['Economic Justice'] },
-  { canonical_name: 'UN Ambassador', entity_type: 'politician', aliases: ['ambassador to the united nations', 'us ambassador to the un'], office: 'Cabinet', policy_domains: ['Foreign Policy'] },
-];
-
-// ============================================================================
-// Governor Patterns (for state-level detection)
-// ============================================================================
-
-export const GOVERNOR_PATTERNS = Object.entries(STATE_PATTERNS).map(([stateName, abbrev]) => ({
-  canonical_name: `Governor of ${stateName.charAt(0).toUpperCase() + stateName.slice(1)}`,
-  entity_type: 'politician' as const,
-  aliases: [`${abbrev.toLowerCase()} governor`, `governor of ${stateName}`],
-  office: 'Governor',
-  state: abbrev,
-}));
-
 // ============================================================================
 // Matching Functions
 // ============================================================================
@@ -375,30 +225,6 @@ export function matchEntities(
   return matches;
 }
 
-/**
- * Extract all entity types from text
- */
-export function extractAllEntities(text: string): {
-  politicians: string[];
-  organizations: string[];
-  agencies: string[];
-  legislation: string[];
-  cabinetPositions: string[];
-} {
-  const politicianMatches = matchEntities(text, WELL_KNOWN_POLITICIANS);
-  const orgMatches = matchEntities(text, WELL_KNOWN_ORGANIZATIONS);
-  const agencyMatches = matchEntities(text, GOVERNMENT_AGENCIES);
-  const cabinetMatches = matchEntities(text, CABINET_POSITIONS);
-
-  return {
-    politicians: politicianMatches.map(m => m.entity.canonical_name),
-    organizations: orgMatches.map(m => m.entity.canonical_name),
-    agencies: agencyMatches.map(m => m.entity.canonical_name),
-    legislation: [], // Would need external lookup
-    cabinetPositions: cabinetMatches.map(m => m.entity.canonical_name),
-  };
-}
-
 /**
  * Get policy domains associated with matched entities
  */
@@ -0,0 +1,145 @@
+/**
+ * Unit tests for the polling average engine
+ *
+ * Run with: deno test supabase/functions/_shared/pollingAverage.test.ts
+ */
+
+import { assert, assertAlmostEquals, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import { computeRaceAverage, detectAverageShifts, type AveragePoint, type PollPoint } from "./pollingAverage.ts";
+
+function poll(pollDate: string, candidate: string, value: number, pollster = 'Pollster A', sampleSize: number | null = 800): PollPoint {
+  return { pollster, pollDate, sampleSize, candidate, value };
+}
+
+const latest = (series: AveragePoint[], candidate: string) =>
+  series.filter(p => p.candidate === candidate).at(-1)!;
+
+// ============================================================================
+// Averaging
+// ============================================================================
+
+Deno.test("produces one daily point per candidate with a band around the average", () => {
+  const { series } = computeRaceAverage([
+    poll('2026-03-01', 'Smith', 48), poll('2026-03-01', 'Jones', 45),
+    poll('2026-03-05', 'Smith', 50, 'Pollster B'), poll('2026-03-05', 'Jones', 44, 'Pollster B'),
+  ]);
+
+  assertEquals(series.filter(p => p.candidate === 'Smith').length, 5);
+  const smith = latest(series, 'Smith');
+  assertEquals(smith.date, '2026-03-05');
+  assert(smith.average > 48 && smith.average < 50);
+  assert(smith.lower < smith.average && smith.upper > smith.average);
+  assertEquals(smith.pollCount, 2);
+});
+
+Deno.test("recent and larger polls carry more weight", () => {
+  const recency = computeRaceAverage([
+    poll('2026-01-01', 'Smith', 40, 'Old'),
+    poll('2026-02-15', 'Smith', 50, 'New'),
+  ], { houseEffectPrior: 1000 });
+  assert(latest(recency.series, 'Smith').average > 47);
+
+  const size = computeRaceAverage([
+    poll('2026-02-15', 'Smith', 40, 'Small', 200),
+    poll('2026-02-15', 'Smith', 50, 'Large', 3000),
+  ], { houseEffectPrior: 1000 });
+  assert(latest(size.series, 'Smith').average > 46);
+});
+
+Deno.test("a daily tracker counts as one pollster, not one per poll", () => {
+  const tracker = Array.from({ length: 10 }, (_, i) =>
+    poll(`2026-04-${String(i + 1).padStart(2, '0')}`, 'Approve', 40, 'Daily Tracker'));
+  const { series } = computeRaceAverage([...tracker, poll('2026-04-10', 'Approve', 48, 'Other')], {
+    houseEffectPrior: 1000,
+  });
+
+  // With per-poll weights the tracker would swamp the other pollster
+  assert(latest(series, 'Approve').average > 42);
+});
+
+Deno.test("house effects capture a pollster's consistent lean and pull it back", () => {
+  const polls: PollPoint[] = [];
+  for (let week = 0; week < 8; week++) {
+    const date = `2026-05-${String(1 + week * 3).padStart(2, '0')}`;
+    polls.push(poll(date, 'Approve', 45, 'Neutral A'));
+    polls.push(poll(date, 'Approve', 45, 'Neutral B'));
+    polls.push(poll(date, 'Approve', 51, 'Leans High'));
+  }
+  // Only the leaning pollster has fielded lately
+  polls.push(poll('2026-06-10', 'Approve', 51, 'Leans High'));
+
+  const adjusted = computeRaceAverage(polls);
+  const raw = computeRaceAverage(polls, { houseEffectPrior: 1e9 });
+  const lean = adjusted.houseEffects.find(h => h.pollster === 'Leans High')!;
+
+  assert(lean.effect > 2, `expected a positive house effect, got ${lean.effect}`);
+  assertEquals(lean.pollCount, 9);
+  assert(latest(adjusted.series, 'Approve').average < latest(raw.series, 'Approve').average);
+  // Removing the lean also removes it from the between-pollster spread
+  assert(latest(adjusted.series, 'Approve').stdError < latest(raw.series, 'Approve').stdError);
+});
+
+Deno.test("trend is the slope of the average in points per week", () => {
+  const polls = Array.from({ length: 15 }, (_, i) =>
+    poll(`2026-06-${String(i + 1).padStart(2, '0')}`, 'Approve', 40 + i * 0.5, `P${i}`));
+  const { trends } = computeRaceAverage(polls, { houseEffectPrior: 1000 });
+
+  const approve = trends.find(t => t.candidate === 'Approve')!;
+  assert(approve.perWeek > 1 && approve.perWeek < 3.5, `unexpected slope ${approve.perWeek}`);
+});
+
+// ============================================================================
+// Alerts
+// ============================================================================
+
+function flatSeries(days: number, candidate: string, average: number, stdError = 0.8): AveragePoint[] {
+  return Array.from({ length: days }, (_, i) => ({
+    date: `2026-07-${String(i + 1).padStart(2, '0')}`,
+    candidate,
+    average,
+    lower: average - 1.96 * stdError,
+    upper: average + 1.96 * stdError,
+    stdError,
+    pollCount: 5,
+    effectiveSampleSize: 4,
+  }));
+}
+
+Deno.test("a single outlier poll does not move the average beyond its noise band", () => {
+  const polls: PollPoint[] = [];
+  for (let day = 1; day <= 20; day++) {
+    const date = `2026-08-${String(day).padStart(2, '0')}`;
+    polls.push(poll(date, 'Smith', 47 + (day % 3) - 1, `P${day % 4}`));
+  }
+  polls.push(poll('2026-08-20', 'Smith', 58, 'Outlier'));
+
+  const { series } = computeRaceAverage(polls);
+  assertEquals(detectAverageShifts(series), []);
+});
+
+Deno.test("a sustained move beyond the band fires a significant_move alert", () => {
+  const series = flatSeries(14, 'Smith', 45).map((p, i) => i >= 10 ? { ...p, average: 50 } : p);
+  const [shift] = detectAverageShifts(series);
+
+  assertEquals(shift.alertType, 'significant_move');
+  assertEquals(shift.candidate, 'Smith');
+  assertEquals(shift.previous, 45);
+  assertEquals(shift.current, 50);
+  assertAlmostEquals(shift.noiseBand, 1.96 * Math.sqrt(2 * 0.8 ** 2), 0.01);
+  assertEquals(shift.severity, 'high');
+});
+
+Deno.test("moves inside the band are ignored and lead changes need a significant new lead", () => {
+  const wobble = flatSeries(14, 'Smith', 45).map((p, i) => i >= 10 ? { ...p, average: 46.5 } : p);
+  assertEquals(detectAverageShifts(wobble), []);
+
+  const smith = flatSeries(14, 'Smith', 47, 0.5).map((p, i) => i >= 10 ? { ...p, average: 44 } : p);
+  const jones = flatSeries(14, 'Jones', 44, 0.5).map((p, i) => i >= 10 ? { ...p, average: 47 } : p);
+  const shifts = detectAverageShifts([...smith, ...jones]);
+
+  const leadChange = shifts.find(s => s.alertType === 'lead_change')!;
+  assertEquals(leadChange.candidate, 'Jones');
+  assertEquals(leadChange.severity, 'critical');
+  assertEquals(shifts.filter(s => s.alertType === 'significant_move').length, 2);
+});
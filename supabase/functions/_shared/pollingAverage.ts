@@ -0,0 +1,356 @@
+/**
+ * Polling average engine
+ *
+ * Turns individual polls for one race into a daily average per candidate:
+ * - recency weighting: exponential decay with HALF_LIFE_DAYS
+ * - sample-size weighting: sqrt(n), capped so one huge online panel can't
+ *   dominate
+ * - pollster weighting: a pollster's weight is shared across its polls in
+ *   the window, so a daily tracker counts as one pollster, not thirty
+ * - house effects: each pollster's average lean vs. the consensus, shrunk
+ *   toward zero and subtracted before averaging
+ * - uncertainty: sampling error plus between-pollster spread, propagated
+ *   through the weights into a standard error and a 95% band
+ *
+ * Alerts compare the average against itself a week earlier and only fire
+ * when the move is outside the combined noise band, so a single outlier poll
+ * no longer triggers an alert on its own.
+ *
+ * Everything here is pure; fetch-polling-data does the database work.
+ */
+
+export const HALF_LIFE_DAYS = 14;
+export const WINDOW_DAYS = 60;
+export const REFERENCE_SAMPLE_SIZE = 600;
+export const MAX_SAMPLE_SIZE = 5000;
+/** Pseudo-polls at zero lean; a pollster needs several polls to earn a house effect */
+export const HOUSE_EFFECT_PRIOR = 3;
+export const SHIFT_LOOKBACK_DAYS = 7;
+/** Smallest move (points) worth alerting on even when the band is very tight */
+export const MIN_SHIFT_POINTS = 1;
+const Z_95 = 1.96;
+const HOUSE_EFFECT_ITERATIONS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PollPoint {
+  pollster: string;
+  /** YYYY-MM-DD */
+  pollDate: string;
+  sampleSize: number | null;
+  candidate: string;
+  value: number;
+}
+
+export interface AverageOptions {
+  /** Last day of the series (defaults to the latest poll date) */
+  endDate?: string;
+  halfLifeDays?: number;
+  windowDays?: number;
+  houseEffectPrior?: number;
+  /** Days of trailing average used for the trend slope */
+  trendDays?: number;
+}
+
+export interface AveragePoint {
+  date: string;
+  candidate: string;
+  average: number;
+  lower: number;
+  upper: number;
+  stdError: number;
+  pollCount: number;
+  effectiveSampleSize: number;
+}
+
+export interface HouseEffect {
+  pollster: string;
+  candidate: string;
+  /** Points above (+) or below (-) the average this pollster tends to show */
+  effect: number;
+  pollCount: number;
+}
+
+export interface CandidateTrend {
+  candidate: string;
+  /** Least-squares slope of the average, points per week */
+  perWeek: number;
+}
+
+export interface RaceAverage {
+  series: AveragePoint[];
+  houseEffects: HouseEffect[];
+  trends: CandidateTrend[];
+}
+
+export interface AverageShift {
+  alertType: 'significant_move' | 'lead_change';
+  candidate: string;
+  asOf: string;
+  previous: number;
+  current: number;
+  change: number;
+  /** Half-width of the 95% band on the change itself */
+  noiseBand: number;
+  severity: 'medium' | 'high' | 'critical';
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const toDay = (date: string) => Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+const fromDay = (day: number) => new Date(day * DAY_MS).toISOString().slice(0, 10);
+const effectKey = (pollster: string, candidate: string) => `${pollster}\u0000${candidate}`;
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function sampleWeight(sampleSize: number | null): number {
+  const n = Math.min(sampleSize && sampleSize > 0 ? sampleSize : REFERENCE_SAMPLE_SIZE, MAX_SAMPLE_SIZE);
+  return Math.sqrt(n / REFERENCE_SAMPLE_SIZE);
+}
+
+/** Binomial sampling variance of a share in points, for a poll of size n */
+function samplingVariance(share: number, sampleSize: number | null): number {
+  const p = Math.min(Math.max(share / 100, 0.01), 0.99);
+  const n = sampleSize && sampleSize > 0 ? sampleSize : REFERENCE_SAMPLE_SIZE;
+  return 10000 * p * (1 - p) / n;
+}
+
+interface IndexedPoll extends PollPoint {
+  day: number;
+}
+
+interface DayEstimate {
+  average: number;
+  stdError: number;
+  pollCount: number;
+  effectiveSampleSize: number;
+}
+
+/**
+ * Weighted average of one candidate's polls as of `day`, with house effects
+ * removed. Returns null when no poll falls inside the window.
+ */
+function estimateDay(
+  polls: IndexedPoll[],
+  day: number,
+  effects: Map<string, number>,
+  halfLifeDays: number,
+  windowDays: number
+): DayEstimate | null {
+  const inWindow = polls.filter(p => p.day <= day && day - p.day < windowDays);
+  if (inWindow.length === 0) return null;
+
+  const perPollster = new Map<string, number>();
+  inWindow.forEach(p => perPollster.set(p.pollster, (perPollster.get(p.pollster) ?? 0) + 1));
+
+  const rows = inWindow.map(p => ({
+    poll: p,
+    weight: Math.pow(0.5, (day - p.day) / halfLifeDays) * sampleWeight(p.sampleSize) / perPollster.get(p.pollster)!,
+    adjusted: p.value - (effects.get(effectKey(p.pollster, p.candidate)) ?? 0),
+  }));
+
+  const totalWeight = rows.reduce((sum, r) => sum + r.weight, 0);
+  const average = rows.reduce((sum, r) => sum + r.weight * r.adjusted, 0) / totalWeight;
+
+  // Spread between pollsters beyond what sampling error explains
+  const observedVariance = rows.reduce((sum, r) => sum + r.weight * (r.adjusted - average) ** 2, 0) / totalWeight;
+  const meanSampling = rows.reduce((sum, r) => sum + r.weight * samplingVariance(average, r.poll.sampleSize), 0) / totalWeight;
+  const between = Math.max(0, observedVariance - meanSampling);
+
+  const weightedVariance = rows.reduce(
+    (sum, r) => sum + r.weight ** 2 * (samplingVariance(average, r.poll.sampleSize) + between), 0
+  );
+  const sumSquaredWeights = rows.reduce((sum, r) => sum + r.weight ** 2, 0);
+
+  return {
+    average,
+    stdError: Math.sqrt(weightedVariance) / totalWeight,
+    pollCount: inWindow.length,
+    effectiveSampleSize: totalWeight ** 2 / sumSquaredWeights,
+  };
+}
+
+/**
+ * House effect per pollster and candidate: the mean residual against the
+ * average on each poll's date, shrunk by `prior` pseudo-polls, then centered
+ * so effects don't shift the average as a whole.
+ */
+function estimateHouseEffects(
+  byCandidate: Map<string, IndexedPoll[]>,
+  halfLifeDays: number,
+  windowDays: number,
+  prior: number
+): Map<string, number> {
+  let effects = new Map<string, number>();
+
+  for (let iteration = 0; iteration < HOUSE_EFFECT_ITERATIONS; iteration++) {
+    const residuals = new Map<string, { sum: number; count: number }>();
+    for (const polls of byCandidate.values()) {
+      for (const poll of polls) {
+        const estimate = estimateDay(polls, poll.day, effects, halfLifeDays, windowDays);
+        if (!estimate) continue;
+        const key = effectKey(poll.pollster, poll.candidate);
+        const entry = residuals.get(key) ?? { sum: 0, count: 0 };
+        // Residual of the raw value against the adjusted consensus
+        entry.sum += poll.value - estimate.average;
+        entry.count++;
+        residuals.set(key, entry);
+      }
+    }
+
+    const next = new Map<string, number>();
+    for (const [candidate] of byCandidate) {
+      const entries = Array.from(residuals.entries()).filter(([key]) => key.endsWith(`\u0000${candidate}`));
+      const shrunk = entries.map(([key, { sum, count }]) => [key, sum / (count + prior), count] as const);
+      const totalCount = shrunk.reduce((sum, [, , count]) => sum + count, 0);
+      const center = totalCount > 0 ? shrunk.reduce((sum, [, effect, count]) => sum + effect * count, 0) / totalCount : 0;
+      shrunk.forEach(([key, effect]) => next.set(key, effect - center));
+    }
+    effects = next;
+  }
+
+  return effects;
+}
+
+function slopePerWeek(points: AveragePoint[]): number {
+  if (points.length < 2) return 0;
+  const xs = points.map(p => toDay(p.date));
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = points.reduce((sum, p) => sum + p.average, 0) / points.length;
+  let num = 0;
+  let den = 0;
+  points.forEach((p, i) => {
+    num += (xs[i] - meanX) * (p.average - meanY);
+    den += (xs[i] - meanX) ** 2;
+  });
+  return den > 0 ? (num / den) * 7 : 0;
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Daily polling average per candidate for one race, from the first poll
+ * date through `endDate`, plus pollster house effects and trend slopes.
+ */
+export function computeRaceAverage(polls: PollPoint[], options: AverageOptions = {}): RaceAverage {
+  const halfLifeDays = options.halfLifeDays ?? HALF_LIFE_DAYS;
+  const windowDays = options.windowDays ?? WINDOW_DAYS;
+  const prior = options.houseEffectPrior ?? HOUSE_EFFECT_PRIOR;
+  const trendDays = options.trendDays ?? 14;
+
+  const valid = polls
+    .filter(p => Number.isFinite(p.value) && p.candidate && p.pollDate)
+    .map(p => ({ ...p, day: toDay(p.pollDate) }));
+  if (valid.length === 0) return { series: [], houseEffects: [], trends: [] };
+
+  const byCandidate = new Map<string, IndexedPoll[]>();
+  for (const poll of valid) {
+    const list = byCandidate.get(poll.candidate) ?? [];
+    list.push(poll);
+    byCandidate.set(poll.candidate, list);
+  }
+
+  const effects = estimateHouseEffects(byCandidate, halfLifeDays, windowDays, prior);
+
+  const firstDay = Math.min(...valid.map(p => p.day));
+  const lastDay = options.endDate ? toDay(options.endDate) : Math.max(...valid.map(p => p.day));
+
+  const series: AveragePoint[] = [];
+  const trends: CandidateTrend[] = [];
+  for (const [candidate, candidatePolls] of byCandidate) {
+    const points: AveragePoint[] = [];
+    for (let day = firstDay; day <= lastDay; day++) {
+      const estimate = estimateDay(candidatePolls, day, effects, halfLifeDays, windowDays);
+      if (!estimate) continue;
+      points.push({
+        date: fromDay(day),
+        candidate,
+        average: round(estimate.average),
+        lower: round(estimate.average - Z_95 * estimate.stdError),
+        upper: round(estimate.average + Z_95 * estimate.stdError),
+        stdError: round(estimate.stdError, 3),
+        pollCount: estimate.pollCount,
+        effectiveSampleSize: round(estimate.effectiveSampleSize),
+      });
+    }
+    series.push(...points);
+    trends.push({ candidate, perWeek: round(slopePerWeek(points.slice(-trendDays))) });
+  }
+
+  const pollCounts = new Map<string, number>();
+  valid.forEach(p => {
+    const key = effectKey(p.pollster, p.candidate);
+    pollCounts.set(key, (pollCounts.get(key) ?? 0) + 1);
+  });
+  const houseEffects = Array.from(effects.entries()).map(([key, effect]) => {
+    const [pollster, candidate] = key.split('\u0000');
+    return { pollster, candidate, effect: round(effect), pollCount: pollCounts.get(key) ?? 0 };
+  });
+
+  return { series, houseEffects, trends };
+}
+
+/**
+ * Moves in the latest average vs. `lookbackDays` earlier that exceed the
+ * noise band (and MIN_SHIFT_POINTS), plus leader changes where the new lead
+ * is itself outside the band.
+ */
+export function detectAverageShifts(
+  series: AveragePoint[],
+  lookbackDays = SHIFT_LOOKBACK_DAYS,
+  minShift = MIN_SHIFT_POINTS
+): AverageShift[] {
+  if (series.length === 0) return [];
+  const latestDay = Math.max(...series.map(p => toDay(p.date)));
+  const asOf = fromDay(latestDay);
+  const previousDate = fromDay(latestDay - lookbackDays);
+
+  const at = (date: string) => new Map(series.filter(p => p.date === date).map(p => [p.candidate, p]));
+  const current = at(asOf);
+  const previous = at(previousDate);
+  const shifts: AverageShift[] = [];
+
+  for (const [candidate, now] of current) {
+    const before = previous.get(candidate);
+    if (!before) continue;
+    const change = now.average - before.average;
+    const noiseBand = Z_95 * Math.sqrt(now.stdError ** 2 + before.stdError ** 2);
+    if (Math.abs(change) <= Math.max(noiseBand, minShift)) continue;
+    shifts.push({
+      alertType: 'significant_move',
+      candidate,
+      asOf,
+      previous: before.average,
+      current: now.average,
+      change: round(change),
+      noiseBand: round(noiseBand),
+      severity: Math.abs(change) > 2 * noiseBand ? 'high' : 'medium',
+    });
+  }
+
+  const leader = (points: Map<string, AveragePoint>) =>
+    Array.from(points.values()).sort((a, b) => b.average - a.average);
+  const [nowFirst, nowSecond] = leader(current);
+  const [beforeFirst] = leader(previous);
+  if (nowFirst && nowSecond && beforeFirst && nowFirst.candidate !== beforeFirst.candidate && previous.has(nowFirst.candidate)) {
+    const lead = nowFirst.average - nowSecond.average;
+    const noiseBand = Z_95 * Math.sqrt(nowFirst.stdError ** 2 + nowSecond.stdError ** 2);
+    if (lead > noiseBand) {
+      const before = previous.get(nowFirst.candidate)!;
+      shifts.push({
+        alertType: 'lead_change',
+        candidate: nowFirst.candidate,
+        asOf,
+        previous: before.average,
+        current: nowFirst.average,
+        change: round(nowFirst.average - before.average),
+        noiseBand: round(noiseBand),
+        severity: 'critical',
+      });
+    }
+  }
+
+  return shifts;
+}
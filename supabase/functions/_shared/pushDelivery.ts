@@ -0,0 +1,135 @@
+/**
+ * Supabase-backed Web Push fan-out.
+ *
+ * Recipients are users with push_notifications on and the alert type in
+ * notification_preferences.push_alert_types. Every push_subscriptions row (one
+ * per browser/device) gets the message; subscriptions the push service reports
+ * as gone (404/410) are deleted so we stop paying for them.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getVapidConfig, sendWebPush, type PushUrgency, type VapidConfig } from "./webPush.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+/**
+ * Alert types users can opt into push for. Keep in sync with
+ * PUSH_ALERT_TYPE_OPTIONS in src/lib/webPush.ts.
+ */
+export const PUSH_ALERT_TYPES = [
+  'breaking_news',
+  'topic_spike',
+  'organization_mention',
+  'bill_alert',
+  'bill_update',
+  'new_article',
+  'bookmark_update',
+] as const;
+
+export type PushAlertType = typeof PUSH_ALERT_TYPES[number];
+
+/** What the service worker (public/push-sw.js) renders */
+export interface PushMessage {
+  title: string;
+  body: string;
+  /** In-app path opened on click, e.g. /client/alerts */
+  url: string;
+  /** Collapses repeat notifications for the same subject on the device */
+  tag?: string;
+}
+
+export interface PushFanoutResult {
+  /** Users that received at least one push */
+  userIds: string[];
+  sent: number;
+  failed: number;
+  pruned: number;
+  /** True when VAPID keys are missing and nothing was attempted */
+  skipped: boolean;
+}
+
+export async function sendPushToUsers(
+  supabase: SupabaseClient,
+  userIds: string[],
+  alertType: PushAlertType,
+  message: PushMessage,
+  options: { urgency?: PushUrgency; ttl?: number; vapid?: VapidConfig | null } = {}
+): Promise<PushFanoutResult> {
+  const result: PushFanoutResult = { userIds: [], sent: 0, failed: 0, pruned: 0, skipped: false };
+  if (userIds.length === 0) return result;
+
+  const vapid = options.vapid === undefined ? getVapidConfig(name => Deno.env.get(name)) : options.vapid;
+  if (!vapid) {
+    console.warn('[push] VAPID keys not configured - skipping push delivery');
+    result.skipped = true;
+    return result;
+  }
+
+  const { data: prefs, error: prefsError } = await supabase
+    .from('notification_preferences')
+    .select('user_id')
+    .in('user_id', userIds)
+    .eq('push_notifications', true)
+    .contains('push_alert_types', [alertType]);
+
+  if (prefsError) {
+    console.error('[push] Error loading preferences:', prefsError);
+    return result;
+  }
+
+  const recipients = (prefs || []).map((p: { user_id: string }) => p.user_id);
+  if (recipients.length === 0) return result;
+
+  const { data: subscriptions, error: subsError } = await supabase
+    .from('push_subscriptions')
+    .select('id, user_id, endpoint, p256dh, auth')
+    .in('user_id', recipients);
+
+  if (subsError) {
+    console.error('[push] Error loading subscriptions:', subsError);
+    return result;
+  }
+
+  const payload = JSON.stringify(message);
+  const reached = new Set<string>();
+  const goneIds: string[] = [];
+  const deliveredIds: string[] = [];
+
+  for (const sub of (subscriptions || []) as Array<{ id: string; user_id: string; endpoint: string; p256dh: string; auth: string }>) {
+    const outcome = await sendWebPush(sub, payload, vapid, {
+      urgency: options.urgency,
+      ttl: options.ttl,
+    });
+
+    if (outcome.ok) {
+      result.sent++;
+      reached.add(sub.user_id);
+      deliveredIds.push(sub.id);
+    } else if (outcome.gone) {
+      goneIds.push(sub.id);
+    } else {
+      result.failed++;
+      console.error(`[push] Delivery failed (${outcome.status}) for subscription ${sub.id}: ${outcome.error}`);
+    }
+  }
+
+  if (deliveredIds.length > 0) {
+    await supabase
+      .from('push_subscriptions')
+      .update({ last_success_at: new Date().toISOString() })
+      .in('id', deliveredIds);
+  }
+
+  if (goneIds.length > 0) {
+    const { error } = await supabase.from('push_subscriptions').delete().in('id', goneIds);
+    if (error) {
+      console.error('[push] Error pruning expired subscriptions:', error);
+    } else {
+      result.pruned = goneIds.length;
+      console.log(`[push] Pruned ${goneIds.length} expired subscription(s)`);
+    }
+  }
+
+  result.userIds = Array.from(reached);
+  return result;
+}
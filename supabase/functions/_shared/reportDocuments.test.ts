@@ -0,0 +1,154 @@
+/**
+ * Unit tests for the report document builders behind generate-report and
+ * send-email-report PDFs
+ *
+ * Run with: deno test supabase/functions/_shared/reportDocuments.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import type { ReportBlock } from "./pdfLayout.ts";
+import {
+  briefingThreatScore,
+  buildCampaignReportDocument,
+  buildExportReportDocument,
+  countBy,
+  eachDay,
+  summarizeCampaignMetrics,
+  type CampaignDailyMetric,
+} from "./reportDocuments.ts";
+
+const RANGE = { start: "2026-02-01", end: "2026-02-03" };
+
+function blockTypes(blocks: ReportBlock[]): string[] {
+  return blocks.map(b => (b.type === "chart" ? `chart:${b.chart}` : b.type));
+}
+
+function findTable(blocks: ReportBlock[]) {
+  return blocks.filter((b): b is Extract<ReportBlock, { type: "table" }> => b.type === "table");
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+Deno.test("eachDay lists every day in the range inclusively", () => {
+  assertEquals(eachDay("2026-02-27", "2026-03-02"), ["2026-02-27", "2026-02-28", "2026-03-01", "2026-03-02"]);
+  assertEquals(eachDay("2026-03-02", "2026-03-01"), []);
+});
+
+Deno.test("countBy sorts by count and caps the list", () => {
+  const rows = [{ t: "a" }, { t: "b" }, { t: "b" }, { t: "c" }, { t: "b" }, { t: "a" }];
+  assertEquals(countBy(rows, r => String(r.t), 2), [["b", 3], ["a", 2]]);
+});
+
+// ============================================================================
+// Intelligence exports
+// ============================================================================
+
+Deno.test("critical alerts report has KPIs, charts and a row per alert", () => {
+  const doc = buildExportReportDocument("critical_alerts", [
+    { date: "2026-02-01T10:00:00Z", title: "A", threat_level: "critical", type: "bill", source: "congress" },
+    { date: "2026-02-02T10:00:00Z", title: "B", threat_level: "high", type: "news", source: "rss" },
+  ], { dateRange: RANGE });
+
+  assertEquals(doc.title, "Critical Alerts Report");
+  assertEquals(blockTypes(doc.blocks), ["heading", "kpis", "chart:bar", "chart:pie", "heading", "table"]);
+  assertEquals(findTable(doc.blocks)[0].rows.length, 2);
+
+  const perDay = doc.blocks[2];
+  if (perDay.type !== "chart") throw new Error("expected chart");
+  assertEquals(perDay.labels.length, 3);
+  assertEquals(perDay.series.map(s => s.values), [[1, 0, 0], [0, 1, 0]]);
+});
+
+Deno.test("unknown report types fall back to a generic table", () => {
+  const doc = buildExportReportDocument("custom_export", [{ some_field: "x", other: 2 }], { dateRange: RANGE });
+  assertEquals(doc.title, "Custom Export Report");
+  const [table] = findTable(doc.blocks);
+  assertEquals(table.columns.map(c => c.label), ["Some Field", "Other"]);
+  assertEquals(table.rows, [{ some_field: "x", other: "2" }]);
+});
+
+Deno.test("daily briefing uses the latest briefing and falls back to critical alerts", () => {
+  const doc = buildExportReportDocument("daily_briefing", [
+    { briefing_date: "2026-02-02", critical_count: 2, high_count: 1, executive_summary: "Latest" },
+    { briefing_date: "2026-02-01", critical_count: 0, high_count: 4 },
+  ], {
+    dateRange: RANGE,
+    organizationName: "Acme PAC",
+    criticalAlerts: [
+      { title: "Critical one", threat_level: "critical", type: "bill", source: "congress" },
+      { title: "Only high", threat_level: "high", type: "news", source: "rss" },
+    ],
+  });
+
+  assertEquals(doc.organizationName, "Acme PAC");
+  const first = doc.blocks[0];
+  assertEquals(first.type === "heading" && first.text, "Briefing for February 2, 2026");
+  assertEquals(blockTypes(doc.blocks).includes("chart:line"), true);
+  assertEquals(findTable(doc.blocks)[0].rows, [{ title: "Critical one", type: "Bill", source: "congress" }]);
+});
+
+Deno.test("daily briefing without data says so instead of failing", () => {
+  const doc = buildExportReportDocument("daily_briefing", [], { dateRange: RANGE });
+  assertEquals(blockTypes(doc.blocks), ["paragraph"]);
+});
+
+Deno.test("briefingThreatScore prefers the stored score", () => {
+  assertEquals(briefingThreatScore({ overall_threat_score: 61.6, critical_count: 9 }), 62);
+  assertEquals(briefingThreatScore({ critical_count: 2, high_count: 3 }), 80);
+  assertEquals(briefingThreatScore({ critical_count: 0, high_count: 3 }), 0);
+});
+
+// ============================================================================
+// Fundraising performance
+// ============================================================================
+
+const DAYS: CampaignDailyMetric[] = [
+  {
+    date: "2026-02-02", total_funds_raised: "300", total_ad_spend: "80", total_sms_cost: "20",
+    total_donations: 6, meta_impressions: 1000, meta_clicks: 50, sms_sent: 200, sms_conversions: 4,
+  },
+  {
+    date: "2026-02-01", total_funds_raised: 100, total_ad_spend: 0, total_sms_cost: 0,
+    total_donations: 2, meta_impressions: null, meta_clicks: null, sms_sent: null, sms_conversions: null,
+  },
+];
+
+Deno.test("summarizeCampaignMetrics totals string and numeric columns", () => {
+  const totals = summarizeCampaignMetrics(DAYS);
+  assertEquals(totals.totalRaised, 400);
+  assertEquals(totals.totalSpent, 100);
+  assertEquals(totals.roi, 300);
+  assertEquals(totals.avgDonation, 50);
+  assertEquals(summarizeCampaignMetrics([]).roi, 0);
+});
+
+Deno.test("campaign report follows the selected metrics and chart types", () => {
+  const doc = buildCampaignReportDocument({
+    organizationName: "Acme PAC",
+    dailyMetrics: DAYS,
+    dateRange: RANGE,
+    primaryColor: "#667eea",
+    config: { metrics: ["funds_raised", "total_spend"], chartTypes: { fundsRaised: "pie", channelSpend: "pie" } },
+  });
+
+  const kpis = doc.blocks[1];
+  assertEquals(kpis.type === "kpis" && kpis.items.map(k => k.label), ["Funds Raised", "Total Spend"]);
+  // Pie charts only make sense for the channel split; the daily series falls back to bars
+  assertEquals(blockTypes(doc.blocks), ["heading", "kpis", "chart:bar", "chart:pie", "heading", "table"]);
+  // Breakdown is newest first
+  assertEquals(findTable(doc.blocks)[0].rows[0].date, "Feb 2, 2026");
+  assertEquals(doc.primaryColor, "#667eea");
+});
+
+Deno.test("campaign report omits charts when disabled", () => {
+  const doc = buildCampaignReportDocument({
+    organizationName: "Acme PAC",
+    dailyMetrics: DAYS,
+    dateRange: RANGE,
+    config: { includeCharts: false },
+  });
+  assertEquals(blockTypes(doc.blocks).some(t => t.startsWith("chart")), false);
+});
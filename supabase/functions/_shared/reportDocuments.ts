@@ -0,0 +1,701 @@
+/**
+ * Report Documents
+ *
+ * Builds the PDF document model (pdfLayout.ts) for:
+ * - Intelligence exports from generate-report, one layout per report_type
+ *   (critical_alerts, executive_orders, state_actions, organization_mentions,
+ *   daily_briefing), fed by the get_export_data RPC
+ * - Fundraising performance reports sent by send-email-report, driven by the
+ *   schedule's report_config (metrics, charts, chart types) and branding
+ */
+
+import {
+  formatReportDate,
+  formatReportValue,
+  type ReportBlock,
+  type ReportDocument,
+  type ReportKpi,
+} from "./pdfLayout.ts";
+
+// Loose row shape returned by get_export_data / daily_briefings
+export type ExportRow = Record<string, unknown>;
+
+export const EXPORT_REPORT_TITLES: Record<string, string> = {
+  critical_alerts: 'Critical Alerts Report',
+  executive_orders: 'Executive Orders Report',
+  state_actions: 'State Actions Report',
+  organization_mentions: 'Organization Mentions Report',
+  daily_briefing: 'Daily Intelligence Briefing',
+};
+
+const SYSTEM_NAME = 'Intelligence Early Warning System';
+const TOP_N = 10;
+
+interface DocumentOptions {
+  dateRange: { start: string; end: string };
+  organizationName?: string;
+  logo?: Uint8Array | null;
+  primaryColor?: string;
+  footerText?: string;
+  generatedAt?: Date;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function str(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (Array.isArray(value)) return value.map(str).filter(Boolean).join('; ');
+  if (typeof value === 'object') return '';
+  return String(value);
+}
+
+function num(value: unknown): number {
+  const n = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function dateOnly(value: unknown): string {
+  const text = str(value);
+  return text ? text.slice(0, 10) : '';
+}
+
+function shortDate(value: unknown): string {
+  const day = dateOnly(value);
+  if (!day) return '';
+  const date = new Date(`${day}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) return day;
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+function titleCase(value: string): string {
+  return value
+    .replace(/_/g, ' ')
+    .replace(/\b\w/g, c => c.toUpperCase());
+}
+
+/**
+ * Count rows by a key, largest first, keeping the top `limit`.
+ */
+export function countBy(rows: ExportRow[], key: (row: ExportRow) => string, limit = TOP_N): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    const k = key(row) || 'Unknown';
+    counts.set(k, (counts.get(k) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit);
+}
+
+/**
+ * Every day from start to end (inclusive) as YYYY-MM-DD.
+ */
+export function eachDay(start: string, end: string): string[] {
+  const days: string[] = [];
+  const cursor = new Date(`${start.slice(0, 10)}T00:00:00Z`);
+  const last = new Date(`${end.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(cursor.getTime()) || Number.isNaN(last.getTime())) return days;
+  // Guard against absurd ranges
+  for (let i = 0; cursor <= last && i < 366; i++) {
+    days.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return days;
+}
+
+function dailyCountChart(
+  title: string,
+  rows: ExportRow[],
+  dateKey: string,
+  range: { start: string; end: string },
+  groups?: { key: string; values: Array<{ match: string; name: string; color: string }> }
+): ReportBlock {
+  const days = eachDay(range.start, range.end);
+  const index = new Map(days.map((d, i) => [d, i]));
+  const series = (groups?.values ?? [{ match: '', name: 'Count', color: '' }]).map(group => {
+    const values = new Array(days.length).fill(0);
+    for (const row of rows) {
+      if (groups && str(row[groups.key]) !== group.match) continue;
+      const i = index.get(dateOnly(row[dateKey]));
+      if (i !== undefined) values[i]++;
+    }
+    return { name: group.name, values, color: group.color || undefined };
+  });
+  return { type: 'chart', chart: 'bar', title, labels: days.map(shortDate), series };
+}
+
+function baseDocument(reportType: string, options: DocumentOptions, blocks: ReportBlock[]): ReportDocument {
+  return {
+    title: EXPORT_REPORT_TITLES[reportType] ?? `${titleCase(reportType)} Report`,
+    subtitle: SYSTEM_NAME,
+    organizationName: options.organizationName || SYSTEM_NAME,
+    logo: options.logo ?? null,
+    primaryColor: options.primaryColor,
+    dateRange: options.dateRange,
+    generatedAt: options.generatedAt,
+    footerText: options.footerText ?? `${SYSTEM_NAME} - Confidential`,
+    blocks,
+  };
+}
+
+// ============================================================================
+// Intelligence Exports (generate-report)
+// ============================================================================
+
+export function buildExportReportDocument(
+  reportType: string,
+  data: ExportRow[],
+  options: DocumentOptions & { criticalAlerts?: ExportRow[] }
+): ReportDocument {
+  const rows = Array.isArray(data) ? data : [];
+  const range = options.dateRange;
+
+  switch (reportType) {
+    case 'critical_alerts': {
+      const critical = rows.filter(r => str(r.threat_level) === 'critical').length;
+      return baseDocument(reportType, options, [
+        { type: 'heading', text: 'Overview' },
+        {
+          type: 'kpis',
+          items: [
+            { label: 'Total Alerts', value: formatReportValue(rows.length) },
+            { label: 'Critical', value: formatReportValue(critical), tone: critical > 0 ? 'negative' : 'default' },
+            { label: 'High', value: formatReportValue(rows.length - critical), tone: 'warning' },
+          ],
+        },
+        dailyCountChart('Alerts per Day', rows, 'date', range, {
+          key: 'threat_level',
+          values: [
+            { match: 'critical', name: 'Critical', color: '#dc2626' },
+            { match: 'high', name: 'High', color: '#ea580c' },
+          ],
+        }),
+        {
+          type: 'chart',
+          chart: 'pie',
+          title: 'Alerts by Type',
+          ...pieData(countBy(rows, r => titleCase(str(r.type)))),
+        },
+        { type: 'heading', text: 'Alerts' },
+        {
+          type: 'table',
+          columns: [
+            { key: 'date', label: 'Date', width: 1.1 },
+            { key: 'title', label: 'Title', width: 3 },
+            { key: 'threat_level', label: 'Level', width: 0.8 },
+            { key: 'source', label: 'Source', width: 1.3 },
+          ],
+          rows: rows.map(r => ({
+            date: shortDate(r.date),
+            title: str(r.title),
+            threat_level: str(r.threat_level).toUpperCase(),
+            source: str(r.source),
+          })),
+          emptyText: 'No critical or high alerts in this period',
+        },
+      ]);
+    }
+
+    case 'executive_orders':
+      return baseDocument(reportType, options, [
+        { type: 'heading', text: 'Overview' },
+        {
+          type: 'kpis',
+          items: [
+            { label: 'Orders', value: formatReportValue(rows.length) },
+            { label: 'Jurisdictions', value: formatReportValue(new Set(rows.map(r => str(r.jurisdiction))).size) },
+            {
+              label: 'Avg Relevance',
+              value: rows.length > 0
+                ? formatReportValue(rows.reduce((sum, r) => sum + num(r.relevance_score), 0) / rows.length)
+                : '-',
+            },
+          ],
+        },
+        dailyCountChart('Orders Issued per Day', rows, 'issued_date', range),
+        {
+          type: 'chart',
+          chart: 'bar',
+          title: 'Orders by Jurisdiction',
+          ...barData('Orders', countBy(rows, r => str(r.jurisdiction))),
+        },
+        { type: 'heading', text: 'Executive Orders' },
+        {
+          type: 'table',
+          columns: [
+            { key: 'issued_date', label: 'Issued', width: 1 },
+            { key: 'order_number', label: 'Number', width: 0.9 },
+            { key: 'title', label: 'Title', width: 2.8 },
+            { key: 'issuing_authority', label: 'Authority', width: 1.3 },
+            { key: 'relevance_score', label: 'Relevance', width: 0.8, align: 'right' },
+          ],
+          rows: rows.map(r => ({
+            issued_date: shortDate(r.issued_date),
+            order_number: str(r.order_number),
+            title: str(r.title),
+            issuing_authority: str(r.issuing_authority),
+            relevance_score: r.relevance_score === null || r.relevance_score === undefined ? null : num(r.relevance_score),
+          })),
+        },
+      ]);
+
+    case 'state_actions':
+      return baseDocument(reportType, options, [
+        { type: 'heading', text: 'Overview' },
+        {
+          type: 'kpis',
+          items: [
+            { label: 'Actions', value: formatReportValue(rows.length) },
+            { label: 'States', value: formatReportValue(new Set(rows.map(r => str(r.state))).size) },
+          ],
+        },
+        {
+          type: 'chart',
+          chart: 'bar',
+          title: `Top ${TOP_N} States`,
+          ...barData('Actions', countBy(rows, r => str(r.state))),
+        },
+        {
+          type: 'chart',
+          chart: 'pie',
+          title: 'Actions by Status',
+          ...pieData(countBy(rows, r => titleCase(str(r.status)))),
+        },
+        { type: 'heading', text: 'State Actions' },
+        {
+          type: 'table',
+          columns: [
+            { key: 'action_date', label: 'Introduced', width: 1 },
+            { key: 'state', label: 'State', width: 0.6 },
+            { key: 'title', label: 'Title', width: 3 },
+            { key: 'action_type', label: 'Type', width: 1 },
+            { key: 'status', label: 'Status', width: 1 },
+          ],
+          rows: rows.map(r => ({
+            action_date: shortDate(r.action_date),
+            state: str(r.state),
+            title: str(r.title),
+            action_type: titleCase(str(r.action_type)),
+            status: titleCase(str(r.status)),
+          })),
+        },
+      ]);
+
+    case 'organization_mentions':
+      return baseDocument(reportType, options, [
+        { type: 'heading', text: 'Overview' },
+        {
+          type: 'kpis',
+          items: [
+            { label: 'Mentions', value: formatReportValue(rows.length) },
+            { label: 'Organizations', value: formatReportValue(new Set(rows.map(r => str(r.organization))).size) },
+            {
+              label: 'Negative',
+              value: formatReportValue(rows.filter(r => str(r.sentiment) === 'negative').length),
+              tone: 'negative',
+            },
+          ],
+        },
+        {
+          type: 'chart',
+          chart: 'bar',
+          title: 'Most Mentioned Organizations',
+          ...barData('Mentions', countBy(rows, r => str(r.organization))),
+        },
+        {
+          type: 'chart',
+          chart: 'pie',
+          title: 'Mentions by Sentiment',
+          ...pieData(countBy(rows, r => titleCase(str(r.sentiment)))),
+        },
+        { type: 'heading', text: 'Mentions' },
+        {
+          type: 'table',
+          columns: [
+            { key: 'date', label: 'Date', width: 1 },
+            { key: 'organization', label: 'Organization', width: 1.4 },
+            { key: 'source_type', label: 'Source', width: 0.9 },
+            { key: 'context', label: 'Context', width: 3 },
+            { key: 'sentiment', label: 'Sentiment', width: 0.9 },
+          ],
+          rows: rows.map(r => ({
+            date: shortDate(r.date),
+            organization: str(r.organization),
+            source_type: titleCase(str(r.source_type)),
+            context: str(r.context),
+            sentiment: titleCase(str(r.sentiment)),
+          })),
+        },
+      ]);
+
+    case 'daily_briefing':
+      return buildDailyBriefingDocument(rows, options);
+
+    default:
+      return baseDocument(reportType, options, [
+        { type: 'heading', text: 'Data' },
+        genericTable(rows),
+      ]);
+  }
+}
+
+function buildDailyBriefingDocument(
+  briefings: ExportRow[],
+  options: DocumentOptions & { criticalAlerts?: ExportRow[] }
+): ReportDocument {
+  // Newest briefing in the range is the headline; older ones form the trend
+  const sorted = [...briefings].sort((a, b) => str(a.briefing_date).localeCompare(str(b.briefing_date)));
+  const latest = sorted[sorted.length - 1];
+  const blocks: ReportBlock[] = [];
+
+  if (!latest) {
+    blocks.push({ type: 'paragraph', text: 'No briefing was generated for this period.' });
+    return baseDocument('daily_briefing', options, blocks);
+  }
+
+  const threatScore = briefingThreatScore(latest);
+  blocks.push(
+    { type: 'heading', text: `Briefing for ${formatReportDate(str(latest.briefing_date))}` },
+    {
+      type: 'kpis',
+      items: [
+        {
+          label: 'Threat Score',
+          value: `${threatScore}/100`,
+          tone: threatScore >= 75 ? 'negative' : threatScore >= 50 ? 'warning' : threatScore >= 25 ? 'default' : 'positive',
+        },
+        { label: 'Critical', value: formatReportValue(num(latest.critical_count)), tone: num(latest.critical_count) > 0 ? 'negative' : 'default' },
+        { label: 'High Priority', value: formatReportValue(num(latest.high_count)), tone: 'warning' },
+        { label: 'Medium', value: formatReportValue(num(latest.medium_count)) },
+        { label: 'Articles', value: formatReportValue(num(latest.total_articles)) },
+        { label: 'Bills', value: formatReportValue(num(latest.total_bills)) },
+        { label: 'Executive Orders', value: formatReportValue(num(latest.total_executive_orders)) },
+        { label: 'State Actions', value: formatReportValue(num(latest.total_state_actions)) },
+      ],
+    }
+  );
+
+  if (str(latest.executive_summary)) {
+    blocks.push({ type: 'heading', text: 'Executive Summary' }, { type: 'paragraph', text: str(latest.executive_summary) });
+  }
+
+  const takeaways = Array.isArray(latest.key_takeaways) ? latest.key_takeaways.map(str).filter(Boolean) : [];
+  if (takeaways.length > 0) {
+    blocks.push({ type: 'heading', text: 'Key Takeaways' });
+    takeaways.forEach(t => blocks.push({ type: 'paragraph', text: `• ${t}` }));
+  }
+
+  if (sorted.length > 1) {
+    blocks.push({
+      type: 'chart',
+      chart: 'line',
+      title: 'Threat Trend',
+      labels: sorted.map(b => shortDate(b.briefing_date)),
+      series: [
+        { name: 'Threat Score', values: sorted.map(briefingThreatScore) },
+        { name: 'Critical', values: sorted.map(b => num(b.critical_count)), color: '#dc2626' },
+        { name: 'High', values: sorted.map(b => num(b.high_count)), color: '#ea580c' },
+      ],
+    });
+  }
+
+  // Fall back to the period's critical alerts when the briefing has no top items
+  const topItems = Array.isArray(latest.top_critical_items) ? latest.top_critical_items as ExportRow[] : [];
+  const criticalItems = topItems.length > 0
+    ? topItems
+    : (options.criticalAlerts || []).filter(a => str(a.threat_level) === 'critical');
+  blocks.push(
+    { type: 'heading', text: 'Critical Items' },
+    {
+      type: 'table',
+      columns: [
+        { key: 'title', label: 'Title', width: 3 },
+        { key: 'type', label: 'Type', width: 1 },
+        { key: 'source', label: 'Source', width: 1.4 },
+      ],
+      rows: criticalItems.map(item => ({
+        title: str(item.title),
+        type: titleCase(str(item.type)),
+        source: str(item.source),
+      })),
+      emptyText: 'No critical items',
+    }
+  );
+
+  const mentions = latest.organization_mentions && typeof latest.organization_mentions === 'object'
+    ? Object.entries(latest.organization_mentions as Record<string, unknown>)
+    : [];
+  if (mentions.length > 0) {
+    const mentionRows = mentions
+      .map(([org, stats]) => {
+        const s = (stats && typeof stats === 'object' ? stats : {}) as ExportRow;
+        return { organization: org, total: num(s.total), critical: num(s.critical) };
+      })
+      .sort((a, b) => b.total - a.total);
+    blocks.push(
+      { type: 'heading', text: 'Organization Mentions' },
+      {
+        type: 'table',
+        columns: [
+          { key: 'organization', label: 'Organization', width: 3 },
+          { key: 'total', label: 'Mentions', width: 1, align: 'right' },
+          { key: 'critical', label: 'Critical', width: 1, align: 'right' },
+        ],
+        rows: mentionRows,
+      }
+    );
+  }
+
+  const recommendations = Array.isArray(latest.recommendations) ? latest.recommendations.map(str).filter(Boolean) : [];
+  if (recommendations.length > 0) {
+    blocks.push({ type: 'heading', text: 'Recommendations' });
+    recommendations.forEach(r => blocks.push({ type: 'paragraph', text: `• ${r}` }));
+  }
+
+  return baseDocument('daily_briefing', options, blocks);
+}
+
+/**
+ * Stored overall_threat_score, else the same estimate the HTML briefing used.
+ */
+export function briefingThreatScore(briefing: ExportRow): number {
+  if (briefing.overall_threat_score !== null && briefing.overall_threat_score !== undefined) {
+    return Math.round(num(briefing.overall_threat_score));
+  }
+  const critical = num(briefing.critical_count);
+  return critical ? Math.min(100, critical * 25 + num(briefing.high_count) * 10) : 0;
+}
+
+function barData(name: string, counts: Array<[string, number]>) {
+  return { labels: counts.map(([k]) => k), series: [{ name, values: counts.map(([, v]) => v) }] };
+}
+
+function pieData(counts: Array<[string, number]>) {
+  return { labels: counts.map(([k]) => k), series: [{ name: 'Share', values: counts.map(([, v]) => v) }] };
+}
+
+function genericTable(rows: ExportRow[]): ReportBlock {
+  const keys = rows.length > 0 ? Object.keys(rows[0]).slice(0, 6) : [];
+  return {
+    type: 'table',
+    columns: keys.map(key => ({ key, label: titleCase(key) })),
+    rows: rows.map(r => Object.fromEntries(keys.map(k => [k, str(r[k])]))),
+  };
+}
+
+// ============================================================================
+// Fundraising Performance (send-email-report)
+// ============================================================================
+
+// daily_aggregated_metrics columns used by the report
+export interface CampaignDailyMetric {
+  date: string;
+  total_funds_raised: number | string | null;
+  total_ad_spend: number | string | null;
+  total_sms_cost: number | string | null;
+  total_donations: number | null;
+  meta_impressions: number | null;
+  meta_clicks: number | null;
+  sms_sent: number | null;
+  sms_conversions: number | null;
+}
+
+// email_report_schedules.report_config (see ReportCustomization)
+export interface CampaignReportConfig {
+  metrics?: string[];
+  includeCharts?: boolean;
+  attachPdf?: boolean;
+  chartTypes?: {
+    fundsRaised?: string;
+    roi?: string;
+    channelSpend?: string;
+  };
+  dateRangeType?: string;
+  customDays?: number;
+}
+
+export interface CampaignTotals {
+  totalRaised: number;
+  totalSpent: number;
+  adSpend: number;
+  smsCost: number;
+  totalDonations: number;
+  metaImpressions: number;
+  metaClicks: number;
+  smsSent: number;
+  smsConversions: number;
+  roi: number;
+  avgDonation: number;
+}
+
+export const DEFAULT_CAMPAIGN_METRICS = ['funds_raised', 'total_spend', 'roi', 'donations', 'meta_ads', 'sms'];
+
+export function summarizeCampaignMetrics(days: CampaignDailyMetric[]): CampaignTotals {
+  const totals = days.reduce((acc, day) => {
+    acc.totalRaised += num(day.total_funds_raised);
+    acc.adSpend += num(day.total_ad_spend);
+    acc.smsCost += num(day.total_sms_cost);
+    acc.totalDonations += num(day.total_donations);
+    acc.metaImpressions += num(day.meta_impressions);
+    acc.metaClicks += num(day.meta_clicks);
+    acc.smsSent += num(day.sms_sent);
+    acc.smsConversions += num(day.sms_conversions);
+    return acc;
+  }, {
+    totalRaised: 0,
+    adSpend: 0,
+    smsCost: 0,
+    totalDonations: 0,
+    metaImpressions: 0,
+    metaClicks: 0,
+    smsSent: 0,
+    smsConversions: 0,
+  });
+
+  const totalSpent = totals.adSpend + totals.smsCost;
+  return {
+    ...totals,
+    totalSpent,
+    roi: totalSpent > 0 ? Number(((totals.totalRaised - totalSpent) / totalSpent * 100).toFixed(2)) : 0,
+    avgDonation: totals.totalDonations > 0 ? Number((totals.totalRaised / totals.totalDonations).toFixed(2)) : 0,
+  };
+}
+
+function chartKind(configured: string | undefined, fallback: 'line' | 'bar' | 'pie', allowPie: boolean): 'line' | 'bar' | 'pie' {
+  if (configured === 'line' || configured === 'bar') return configured;
+  if (configured === 'pie') return allowPie ? 'pie' : 'bar';
+  return fallback;
+}
+
+export function buildCampaignReportDocument(options: DocumentOptions & {
+  organizationName: string;
+  dailyMetrics: CampaignDailyMetric[];
+  config?: CampaignReportConfig | null;
+}): ReportDocument {
+  const config = options.config || {};
+  const selected = config.metrics && config.metrics.length > 0 ? config.metrics : DEFAULT_CAMPAIGN_METRICS;
+  const days = [...options.dailyMetrics].sort((a, b) => a.date.localeCompare(b.date));
+  const totals = summarizeCampaignMetrics(days);
+
+  const kpis: ReportKpi[] = [];
+  if (selected.includes('funds_raised')) kpis.push({ label: 'Funds Raised', value: formatReportValue(totals.totalRaised, 'currency') });
+  if (selected.includes('total_spend')) kpis.push({ label: 'Total Spend', value: formatReportValue(totals.totalSpent, 'currency') });
+  if (selected.includes('roi')) {
+    kpis.push({ label: 'ROI', value: formatReportValue(totals.roi, 'percent'), tone: totals.roi >= 0 ? 'positive' : 'negative' });
+  }
+  if (selected.includes('donations')) {
+    kpis.push(
+      { label: 'Donations', value: formatReportValue(totals.totalDonations) },
+      { label: 'Avg Donation', value: formatReportValue(totals.avgDonation, 'currency') }
+    );
+  }
+  if (selected.includes('meta_ads')) {
+    kpis.push(
+      { label: 'Impressions', value: formatReportValue(totals.metaImpressions) },
+      { label: 'Clicks', value: formatReportValue(totals.metaClicks) },
+      {
+        label: 'CTR',
+        value: totals.metaImpressions > 0 ? formatReportValue(totals.metaClicks / totals.metaImpressions * 100, 'percent') : '-',
+      }
+    );
+  }
+  if (selected.includes('sms')) {
+    kpis.push(
+      { label: 'SMS Sent', value: formatReportValue(totals.smsSent) },
+      { label: 'SMS Conversions', value: formatReportValue(totals.smsConversions) }
+    );
+  }
+
+  const blocks: ReportBlock[] = [{ type: 'heading', text: 'Performance Summary' }, { type: 'kpis', items: kpis }];
+
+  if (config.includeCharts !== false && days.length > 0) {
+    const labels = days.map(d => shortDate(d.date));
+    if (selected.includes('funds_raised')) {
+      blocks.push({
+        type: 'chart',
+        chart: chartKind(config.chartTypes?.fundsRaised, 'line', false),
+        title: 'Funds Raised',
+        labels,
+        series: [{ name: 'Raised', values: days.map(d => num(d.total_funds_raised)) }],
+        valueFormat: 'currency',
+      });
+    }
+    if (selected.includes('roi')) {
+      blocks.push({
+        type: 'chart',
+        chart: chartKind(config.chartTypes?.roi, 'line', false),
+        title: 'Daily ROI',
+        labels,
+        series: [{
+          name: 'ROI',
+          values: days.map(d => {
+            const spend = num(d.total_ad_spend) + num(d.total_sms_cost);
+            return spend > 0 ? (num(d.total_funds_raised) - spend) / spend * 100 : NaN;
+          }),
+        }],
+        valueFormat: 'percent',
+      });
+    }
+    if (selected.includes('total_spend')) {
+      const kind = chartKind(config.chartTypes?.channelSpend, 'pie', true);
+      blocks.push(kind === 'pie'
+        ? {
+            type: 'chart',
+            chart: 'pie',
+            title: 'Spend by Channel',
+            labels: ['Meta Ads', 'SMS'],
+            series: [{ name: 'Spend', values: [totals.adSpend, totals.smsCost] }],
+            valueFormat: 'currency',
+          }
+        : {
+            type: 'chart',
+            chart: kind,
+            title: 'Spend by Channel',
+            labels,
+            series: [
+              { name: 'Meta Ads', values: days.map(d => num(d.total_ad_spend)) },
+              { name: 'SMS', values: days.map(d => num(d.total_sms_cost)) },
+            ],
+            valueFormat: 'currency',
+          });
+    }
+  }
+
+  blocks.push(
+    { type: 'heading', text: 'Daily Breakdown' },
+    {
+      type: 'table',
+      columns: [
+        { key: 'date', label: 'Date', width: 1.2 },
+        { key: 'raised', label: 'Raised', align: 'right' },
+        { key: 'donations', label: 'Donations', align: 'right' },
+        { key: 'spend', label: 'Spend', align: 'right' },
+        { key: 'roi', label: 'ROI', align: 'right' },
+      ],
+      rows: [...days].reverse().map(d => {
+        const spend = num(d.total_ad_spend) + num(d.total_sms_cost);
+        return {
+          date: shortDate(d.date),
+          raised: formatReportValue(num(d.total_funds_raised), 'currency'),
+          donations: formatReportValue(num(d.total_donations)),
+          spend: formatReportValue(spend, 'currency'),
+          roi: spend > 0 ? formatReportValue((num(d.total_funds_raised) - spend) / spend * 100, 'percent') : '-',
+        };
+      }),
+    }
+  );
+
+  return {
+    title: 'Fundraising Performance Report',
+    subtitle: `${formatReportDate(options.dateRange.start)} - ${formatReportDate(options.dateRange.end)}`,
+    organizationName: options.organizationName,
+    logo: options.logo ?? null,
+    primaryColor: options.primaryColor,
+    dateRange: options.dateRange,
+    generatedAt: options.generatedAt,
+    footerText: options.footerText,
+    blocks,
+  };
+}
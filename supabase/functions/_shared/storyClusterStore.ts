@@ -0,0 +1,142 @@
+/**
+ * Supabase-backed story clustering (see storyClusters.ts for the MinHash /
+ * LSH side).
+ *
+ * fetch-rss-feeds, fetch-google-news and bluesky-stream cluster new items
+ * as they are stored; detect-duplicates and detect-breaking-news cluster
+ * whatever arrived without one. Writing a story_cluster_items row sets the
+ * item's story_cluster_id (see the apply_story_cluster_item trigger).
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  assignStoryClusters,
+  storySignature,
+  STORY_SIMILARITY_THRESHOLD,
+  type ClusterCandidate,
+  type SignedItem,
+} from "./storyClusters.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export type StoryItemType = 'rss' | 'google_news' | 'bluesky';
+
+export interface StoryItemInput {
+  type: StoryItemType;
+  id: string;
+  title: string;
+  /** Description, content or post text */
+  body?: string | null;
+  publishedAt: string;
+}
+
+/** How far back new items look for a cluster to join */
+export const STORY_LOOKBACK_HOURS = 72;
+
+/** Signed items older than this can no longer be matched and are pruned */
+export const STORY_ITEM_RETENTION_DAYS = 7;
+
+const BUCKETS_PER_LOOKUP = 2000;
+const WRITE_BATCH_SIZE = 500;
+
+export function storyItemKey(type: StoryItemType, id: string): string {
+  return `${type}:${id}`;
+}
+
+function storyText(item: StoryItemInput): string {
+  const body = (item.body || '').trim();
+  // Posts and feed items often repeat the title as the body
+  return body && !body.startsWith(item.title.trim()) ? `${item.title} ${body}` : body || item.title;
+}
+
+async function loadCandidates(
+  supabase: SupabaseClient,
+  buckets: string[],
+  since: string
+): Promise<ClusterCandidate[]> {
+  const candidates = new Map<string, ClusterCandidate>();
+  for (let i = 0; i < buckets.length; i += BUCKETS_PER_LOOKUP) {
+    const { data, error } = await supabase.rpc('story_cluster_candidates', {
+      p_buckets: buckets.slice(i, i + BUCKETS_PER_LOOKUP),
+      p_since: since,
+    });
+    if (error) throw new Error(error.message);
+    for (const row of (data || []) as Array<{ item_type: StoryItemType; item_id: string; cluster_id: string; minhash: number[] }>) {
+      const key = storyItemKey(row.item_type, row.item_id);
+      candidates.set(key, { key, clusterId: row.cluster_id, minhash: row.minhash });
+    }
+  }
+  return [...candidates.values()];
+}
+
+/**
+ * Assign story clusters to new items, oldest first, and record them.
+ * Items too short to sign are skipped. Returns the cluster ID per item key.
+ */
+export async function assignStoryClusterIds(
+  supabase: SupabaseClient,
+  items: StoryItemInput[],
+  options: { threshold?: number; lookbackHours?: number } = {}
+): Promise<{ clusterIds: Map<string, string>; assigned: number; newClusters: number }> {
+  const byKey = new Map<string, StoryItemInput>();
+  const signed: SignedItem[] = [];
+  const publishedMs = (item: StoryItemInput) => Date.parse(item.publishedAt) || Date.now();
+  const ordered = [...items].sort((a, b) => publishedMs(a) - publishedMs(b));
+  for (const item of ordered) {
+    const key = storyItemKey(item.type, item.id);
+    if (byKey.has(key)) continue;
+    const signature = storySignature(storyText(item));
+    if (!signature) continue;
+    byKey.set(key, item);
+    signed.push({ key, signature });
+  }
+
+  const clusterIds = new Map<string, string>();
+  if (signed.length === 0) return { clusterIds, assigned: 0, newClusters: 0 };
+
+  const lookbackHours = options.lookbackHours ?? STORY_LOOKBACK_HOURS;
+  const since = new Date(publishedMs(ordered[0]) - lookbackHours * 60 * 60 * 1000).toISOString();
+  const buckets = [...new Set(signed.flatMap((s) => s.signature.buckets))];
+  const candidates = await loadCandidates(supabase, buckets, since);
+
+  const assignments = assignStoryClusters(signed, candidates, {
+    threshold: options.threshold ?? STORY_SIMILARITY_THRESHOLD,
+  });
+  const signatures = new Map(signed.map((s) => [s.key, s.signature]));
+
+  const rows = assignments.map((assignment) => {
+    const item = byKey.get(assignment.key)!;
+    const signature = signatures.get(assignment.key)!;
+    clusterIds.set(assignment.key, assignment.clusterId);
+    return {
+      item_type: item.type,
+      item_id: item.id,
+      cluster_id: assignment.clusterId,
+      title: item.title.substring(0, 300),
+      minhash: signature.minhash,
+      lsh_buckets: signature.buckets,
+      similarity: assignment.isNew ? null : Math.round(assignment.similarity * 1000) / 1000,
+      published_at: item.publishedAt,
+    };
+  });
+
+  for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('story_cluster_items')
+      .upsert(rows.slice(i, i + WRITE_BATCH_SIZE), { onConflict: 'item_type,item_id', ignoreDuplicates: true });
+    if (error) throw new Error(error.message);
+  }
+
+  return {
+    clusterIds,
+    assigned: assignments.length,
+    newClusters: assignments.filter((a) => a.isNew).length,
+  };
+}
+
+/** Drop signed items too old to be matched; clusters and source rows keep their IDs */
+export async function pruneStoryClusterItems(supabase: SupabaseClient): Promise<void> {
+  const cutoff = new Date(Date.now() - STORY_ITEM_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { error } = await supabase.from('story_cluster_items').delete().lt('published_at', cutoff);
+  if (error) throw new Error(error.message);
+}
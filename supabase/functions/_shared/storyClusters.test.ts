@@ -0,0 +1,97 @@
+/**
+ * Unit tests for story clustering
+ *
+ * Run with: deno test supabase/functions/_shared/storyClusters.test.ts
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  assignStoryClusters,
+  estimateSimilarity,
+  LSH_BANDS,
+  NUM_HASHES,
+  shingleHashes,
+  storySignature,
+  type StorySignature,
+} from "./storyClusters.ts";
+
+const WIRE = 'WASHINGTON (AP) — The Senate voted 52-48 on Tuesday to confirm the nominee to lead the Department of Homeland Security, ending a weeks-long standoff over border funding that had stalled several spending bills.';
+const REWRITE = 'The Senate voted 52-48 on Tuesday to confirm the nominee to lead the Department of Homeland Security, ending a weeks-long standoff over border funding that had stalled two spending bills, lawmakers said.';
+const UNRELATED = 'House Republicans unveiled a farm bill on Wednesday that would cut nutrition assistance and expand crop insurance subsidies for growers in the Midwest.';
+
+function signed(text: string): StorySignature {
+  const signature = storySignature(text);
+  assert(signature, `no signature for "${text}"`);
+  return signature;
+}
+
+function sequentialIds() {
+  let next = 0;
+  return () => `cluster-${++next}`;
+}
+
+// ============================================================================
+// Signatures
+// ============================================================================
+
+Deno.test("shingles ignore case, punctuation and links", () => {
+  assertEquals(
+    shingleHashes('Senate CONFIRMS nominee, https://t.co/x vote'),
+    shingleHashes('senate confirms nominee vote'),
+  );
+});
+
+Deno.test("signatures are deterministic and sized for the bands", () => {
+  const a = signed(WIRE);
+  assertEquals(a, signed(WIRE));
+  assertEquals(a.minhash.length, NUM_HASHES);
+  assertEquals(a.buckets.length, LSH_BANDS);
+  assert(a.minhash.every((v) => Number.isInteger(v) && v >= -(2 ** 31) && v < 2 ** 31));
+});
+
+Deno.test("short text gets no signature", () => {
+  assertEquals(storySignature('Breaking: Senate vote'), null);
+});
+
+Deno.test("a rewritten wire story scores high and unrelated news low", () => {
+  const wire = signed(WIRE);
+  assert(estimateSimilarity(wire.minhash, signed(REWRITE).minhash) >= 0.5);
+  assert(estimateSimilarity(wire.minhash, signed(UNRELATED).minhash) < 0.1);
+});
+
+// ============================================================================
+// Assignment
+// ============================================================================
+
+Deno.test("copies in one batch share a cluster", () => {
+  const assignments = assignStoryClusters([
+    { key: 'rss:1', signature: signed(WIRE) },
+    { key: 'google_news:2', signature: signed(REWRITE) },
+    { key: 'rss:3', signature: signed(UNRELATED) },
+  ], [], { newClusterId: sequentialIds() });
+
+  assertEquals(assignments.map((a) => [a.key, a.clusterId, a.isNew]), [
+    ['rss:1', 'cluster-1', true],
+    ['google_news:2', 'cluster-1', false],
+    ['rss:3', 'cluster-2', true],
+  ]);
+  assertEquals(assignments[1].matchedKey, 'rss:1');
+});
+
+Deno.test("new items join existing clusters", () => {
+  const existing = [{ key: 'rss:old', clusterId: 'existing-cluster', minhash: signed(WIRE).minhash }];
+  const [assignment] = assignStoryClusters([{ key: 'bluesky:9', signature: signed(REWRITE) }], existing);
+  assertEquals(assignment.clusterId, 'existing-cluster');
+  assertEquals(assignment.isNew, false);
+});
+
+Deno.test("the threshold decides borderline matches", () => {
+  const existing = [{ key: 'rss:old', clusterId: 'existing-cluster', minhash: signed(WIRE).minhash }];
+  const [assignment] = assignStoryClusters(
+    [{ key: 'rss:new', signature: signed(REWRITE) }],
+    existing,
+    { threshold: 0.99, newClusterId: () => 'fresh' },
+  );
+  assertEquals(assignment.clusterId, 'fresh');
+});
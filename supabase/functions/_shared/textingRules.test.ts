@@ -0,0 +1,187 @@
+/**
+ * Unit tests for the political texting rules engine
+ *
+ * Run with: deno test supabase/functions/_shared/textingRules.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  DEFAULT_RULE_PACKS,
+  evaluateTextingRules,
+  extractLinkHosts,
+  isValidTimeZone,
+  localMinutes,
+  recipientTimezones,
+  settingsFromRow,
+  type RulePackId,
+  type TextingRule,
+  type TextingRuleContext,
+} from "./textingRules.ts";
+
+const ALL_PACKS: RulePackId[] = ['carrier_basics', 'quiet_hours', 'state_rules', 'paid_for_by', 'link_shorteners'];
+
+// 2026-03-10 is after the DST switch: 18:30 UTC = 2:30pm EDT / 11:30am PDT
+const AFTERNOON = new Date("2026-03-10T18:30:00Z");
+// 00:30 UTC = 8:30pm EDT (inside TCPA, outside FL) / 5:30pm PDT
+const EVENING_ET = new Date("2026-03-11T00:30:00Z");
+// 14:00 UTC = 10am EDT / 7am PDT / 4am HST
+const MORNING_ET = new Date("2026-03-10T14:00:00Z");
+
+const GOOD_MESSAGE = "Team Blue here: chip in $5 before midnight https://secure.actblue.com/donate/blue " +
+  "Paid for by Friends of Jane Doe. Reply STOP to opt out.";
+
+function ctx(overrides: Partial<TextingRuleContext> = {}): TextingRuleContext {
+  return {
+    message: GOOD_MESSAGE,
+    orgName: "Team Blue",
+    sendAt: AFTERNOON,
+    settings: { enabledPacks: ALL_PACKS, paidForBy: "Friends of Jane Doe" },
+    ...overrides,
+  };
+}
+
+function result(report: ReturnType<typeof evaluateTextingRules>, ruleId: string) {
+  return report.results.find(r => r.rule_id === ruleId);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+Deno.test("localMinutes converts to the zone's wall clock", () => {
+  assertEquals(localMinutes(AFTERNOON, "America/New_York"), 14 * 60 + 30);
+  assertEquals(localMinutes(AFTERNOON, "America/Los_Angeles"), 11 * 60 + 30);
+});
+
+Deno.test("isValidTimeZone accepts IANA zones only", () => {
+  assertEquals(isValidTimeZone("America/Chicago"), true);
+  assertEquals(isValidTimeZone("UTC"), true);
+  assertEquals(isValidTimeZone("Mars/Olympus_Mons"), false);
+  assertEquals(isValidTimeZone(""), false);
+});
+
+Deno.test("recipientTimezones prefers timezone, then state, then all US zones", () => {
+  assertEquals(recipientTimezones({ recipientTimezone: "America/Denver", recipientState: "FL" }), ["America/Denver"]);
+  assertEquals(recipientTimezones({ recipientState: "fl" }), ["America/New_York", "America/Chicago"]);
+  assertEquals(recipientTimezones({}).includes("Pacific/Honolulu"), true);
+});
+
+Deno.test("extractLinkHosts finds bare and schemed links but not emails", () => {
+  assertEquals(
+    extractLinkHosts("Go to bit.ly/abc or https://www.Example.org/x, email me@team.org"),
+    ["bit.ly", "example.org"]
+  );
+});
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+Deno.test("a compliant message passes every enabled pack", () => {
+  const report = evaluateTextingRules(ctx({ recipientState: "CA" }));
+  assertEquals(report.status, "pass");
+  assertEquals(report.results.map(r => r.status), ["pass", "pass", "pass", "skipped", "skipped", "pass", "pass"]);
+});
+
+Deno.test("only rules in enabled packs run", () => {
+  const report = evaluateTextingRules(ctx({ settings: { enabledPacks: ["link_shorteners"] } }));
+  assertEquals(report.results.map(r => r.rule_id), ["no_public_shorteners"]);
+});
+
+Deno.test("missing opt-out blocks unless the pipeline appends it", () => {
+  const message = "Team Blue: chip in now. Paid for by Friends of Jane Doe";
+  assertEquals(result(evaluateTextingRules(ctx({ message })), "opt_out_language")?.status, "fail");
+  assertEquals(evaluateTextingRules(ctx({ message })).status, "blocked");
+  assertEquals(result(evaluateTextingRules(ctx({ message, optOutAppended: true })), "opt_out_language")?.status, "pass");
+});
+
+Deno.test("missing sender identification only sends to review", () => {
+  const report = evaluateTextingRules(ctx({ orgName: "Acme Action Fund", message: "Chip in! Paid for by Friends of Jane Doe. Reply STOP to opt out." }));
+  assertEquals(result(report, "sender_identification")?.status, "fail");
+  assertEquals(report.status, "review");
+});
+
+Deno.test("quiet hours use the recipient's zones", () => {
+  // 10am ET but 7am PT: fine for New York, too early for California or an unknown recipient
+  assertEquals(result(evaluateTextingRules(ctx({ sendAt: MORNING_ET, recipientState: "NY" })), "federal_quiet_hours")?.status, "pass");
+  const ca = result(evaluateTextingRules(ctx({ sendAt: MORNING_ET, recipientState: "CA" })), "federal_quiet_hours");
+  assertEquals(ca?.status, "fail");
+  assertEquals(ca?.explanation.includes("7:00"), true);
+  assertEquals(result(evaluateTextingRules(ctx({ sendAt: MORNING_ET })), "federal_quiet_hours")?.status, "fail");
+});
+
+Deno.test("time windows wait for a send time and only warn for unknown recipients", () => {
+  const unscheduled = evaluateTextingRules(ctx({ sendAt: null }));
+  assertEquals(result(unscheduled, "federal_quiet_hours")?.status, "skipped");
+  assertEquals(result(unscheduled, "state_quiet_hours")?.status, "skipped");
+  assertEquals(unscheduled.status, "pass");
+
+  // 8:30pm ET is past Florida's cutoff, but with no recipient that is a warning
+  const unknown = evaluateTextingRules(ctx({ sendAt: EVENING_ET }));
+  const state = result(unknown, "state_quiet_hours");
+  assertEquals(state?.status, "fail");
+  assertEquals(state?.severity, "warn");
+  assertEquals(unknown.status, "review");
+});
+
+Deno.test("org quiet hours can narrow but not widen the federal window", () => {
+  const narrow = ctx({ recipientState: "NY", settings: { enabledPacks: ["quiet_hours"], quietHoursEnd: 14 } });
+  assertEquals(evaluateTextingRules(narrow).status, "blocked");
+  const wide = ctx({ sendAt: MORNING_ET, recipientState: "CA", settings: { enabledPacks: ["quiet_hours"], quietHoursStart: 6 } });
+  assertEquals(evaluateTextingRules(wide).status, "blocked");
+});
+
+Deno.test("Florida's 8pm cutoff applies where the federal 9pm does not", () => {
+  const report = evaluateTextingRules(ctx({ sendAt: EVENING_ET, recipientTimezone: "America/New_York", recipientState: "FL" }));
+  assertEquals(result(report, "federal_quiet_hours")?.status, "pass");
+  const state = result(report, "state_quiet_hours");
+  assertEquals(state?.status, "fail");
+  assertEquals(state?.explanation.startsWith("FL (Florida Telephone Solicitation Act)"), true);
+
+  // Non-covered states skip the state pack
+  const ny = evaluateTextingRules(ctx({ sendAt: EVENING_ET, recipientState: "NY" }));
+  assertEquals(result(ny, "state_quiet_hours")?.status, "skipped");
+});
+
+Deno.test("state frequency cap needs recipient history", () => {
+  assertEquals(result(evaluateTextingRules(ctx({ recipientState: "OK" })), "state_message_frequency")?.status, "skipped");
+  assertEquals(result(evaluateTextingRules(ctx({ recipientState: "OK", recipientMessagesLast24h: 2 })), "state_message_frequency")?.status, "pass");
+  assertEquals(result(evaluateTextingRules(ctx({ recipientState: "OK", recipientMessagesLast24h: 3 })), "state_message_frequency")?.status, "fail");
+});
+
+Deno.test("paid-for-by disclaimer must name the configured committee", () => {
+  const none = evaluateTextingRules(ctx({ message: "Team Blue: chip in. Reply STOP to opt out." }));
+  assertEquals(result(none, "paid_for_by_disclaimer")?.explanation, 'Add "Paid for by Friends of Jane Doe".');
+  const wrong = evaluateTextingRules(ctx({ message: "Team Blue: chip in. Paid for by Blue PAC. Reply STOP to opt out." }));
+  assertEquals(result(wrong, "paid_for_by_disclaimer")?.status, "fail");
+});
+
+Deno.test("public shorteners are blocked unless the org allows the domain", () => {
+  const message = GOOD_MESSAGE.replace("https://secure.actblue.com/donate/blue", "bit.ly/blue5");
+  const report = evaluateTextingRules(ctx({ message }));
+  assertEquals(result(report, "no_public_shorteners")?.status, "fail");
+  assertEquals(report.status, "blocked");
+
+  const allowed = evaluateTextingRules(ctx({ message, settings: { enabledPacks: ["link_shorteners"], allowedLinkDomains: ["bit.ly"] } }));
+  assertEquals(allowed.status, "pass");
+});
+
+Deno.test("custom rules plug into the engine", () => {
+  const noEmoji: TextingRule = {
+    id: "no_emoji",
+    pack: "carrier_basics",
+    title: "No emoji",
+    severity: "warn",
+    evaluate: ({ message }) => /\p{Extended_Pictographic}/u.test(message)
+      ? { status: "fail", explanation: "Remove emoji." }
+      : { status: "pass", explanation: "No emoji." },
+  };
+  const report = evaluateTextingRules(ctx({ message: `${GOOD_MESSAGE} 🎉` }), [noEmoji]);
+  assertEquals(report, { status: "review", results: [{ rule_id: "no_emoji", pack: "carrier_basics", title: "No emoji", severity: "warn", status: "fail", explanation: "Remove emoji." }] });
+});
+
+Deno.test("settingsFromRow falls back to the default packs", () => {
+  assertEquals(settingsFromRow(null).enabledPacks, DEFAULT_RULE_PACKS);
+  assertEquals(settingsFromRow({ enabled_packs: ["paid_for_by", "bogus"], paid_for_by: "X PAC" }).enabledPacks, ["paid_for_by"]);
+});
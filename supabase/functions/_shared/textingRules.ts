@@ -0,0 +1,479 @@
+/**
+ * Political Texting Rules Engine
+ *
+ * Pluggable per-rule checks for drafted SMS, grouped into packs that each
+ * organization enables in texting_compliance_settings:
+ * - carrier_basics: opt-out instructions and sender identification
+ * - quiet_hours: federal TCPA calling window in the recipient's local time
+ * - state_rules: state mini-TCPA laws (FL, OK, MD) - narrower window and
+ *   a per-recipient frequency cap
+ * - paid_for_by: "Paid for by" disclaimer naming the committee
+ * - link_shorteners: public URL shorteners that carriers filter
+ *
+ * Every rule returns pass / fail / skipped with a plain-language
+ * explanation. Time-window rules are skipped until a send time is chosen,
+ * and only warn while the recipient is unknown (every US zone is assumed).
+ * Custom rules can be passed to evaluateTextingRules alongside
+ * (or instead of) TEXTING_RULES.
+ */
+
+import { hasOptOutLanguage, hasSenderIdentification } from "./complianceChecker.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RulePackId = 'carrier_basics' | 'quiet_hours' | 'state_rules' | 'paid_for_by' | 'link_shorteners';
+export type RuleSeverity = 'block' | 'warn';
+export type RuleStatus = 'pass' | 'fail' | 'skipped';
+
+export interface TextingComplianceSettings {
+  enabledPacks: RulePackId[];
+  /** Committee name required in the disclaimer, e.g. "Friends of Jane Doe" */
+  paidForBy?: string | null;
+  /** Allowed local sending window, hours 0-24; can only narrow the federal 8-21 */
+  quietHoursStart?: number;
+  quietHoursEnd?: number;
+  /** Short-link domains the org owns and may use despite the shortener ban */
+  allowedLinkDomains?: string[];
+}
+
+export interface TextingRuleContext {
+  message: string;
+  orgName?: string;
+  /** Scheduled send time; time-window rules are skipped without one */
+  sendAt?: Date | null;
+  /** Two-letter recipient state; unknown means every state is assumed */
+  recipientState?: string | null;
+  /** IANA timezone; overrides the state's zones */
+  recipientTimezone?: string | null;
+  /** Messages already sent to this recipient in the last 24 hours */
+  recipientMessagesLast24h?: number | null;
+  /** The sending pipeline appends "Reply STOP to opt out." */
+  optOutAppended?: boolean;
+  settings: TextingComplianceSettings;
+}
+
+export interface RuleOutcome {
+  status: RuleStatus;
+  explanation: string;
+  /** Overrides the rule's severity for this result */
+  severity?: RuleSeverity;
+}
+
+export interface TextingRule {
+  id: string;
+  pack: RulePackId;
+  title: string;
+  severity: RuleSeverity;
+  evaluate(ctx: TextingRuleContext): RuleOutcome;
+}
+
+export interface TextingRuleResult extends RuleOutcome {
+  rule_id: string;
+  pack: RulePackId;
+  title: string;
+  severity: RuleSeverity;
+}
+
+export interface TextingComplianceReport {
+  status: 'pass' | 'review' | 'blocked';
+  results: TextingRuleResult[];
+}
+
+interface StateTextingRule {
+  law: string;
+  windowStart: number;
+  windowEnd: number;
+  maxMessagesPer24h: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const RULE_PACKS: Record<RulePackId, { label: string; description: string }> = {
+  carrier_basics: {
+    label: 'Carrier basics',
+    description: 'Opt-out instructions and clear sender identification (CTIA guidelines)',
+  },
+  quiet_hours: {
+    label: 'Quiet hours',
+    description: 'Only send between 8am and 9pm in the recipient\'s local time (TCPA)',
+  },
+  state_rules: {
+    label: 'State mini-TCPA',
+    description: 'Florida, Oklahoma and Maryland: 8am-8pm window and at most 3 messages per 24 hours',
+  },
+  paid_for_by: {
+    label: 'Paid-for-by disclaimer',
+    description: 'Every message carries a "Paid for by" disclaimer naming the committee',
+  },
+  link_shorteners: {
+    label: 'No public link shorteners',
+    description: 'Block bit.ly, TinyURL and other shared shorteners that carriers filter',
+  },
+};
+
+export const DEFAULT_RULE_PACKS: RulePackId[] = ['carrier_basics', 'quiet_hours', 'state_rules', 'link_shorteners'];
+
+const FEDERAL_WINDOW_START = 8;
+const FEDERAL_WINDOW_END = 21;
+
+export const STATE_TEXTING_RULES: Record<string, StateTextingRule> = {
+  FL: { law: 'Florida Telephone Solicitation Act', windowStart: 8, windowEnd: 20, maxMessagesPer24h: 3 },
+  OK: { law: 'Oklahoma Telephone Solicitation Act', windowStart: 8, windowEnd: 20, maxMessagesPer24h: 3 },
+  MD: { law: 'Maryland Stop the Spam Calls Act', windowStart: 8, windowEnd: 20, maxMessagesPer24h: 3 },
+};
+
+// Every zone a state spans, so a send is only "in window" if it is for all of them
+const STATE_TIMEZONES: Record<string, string[]> = {
+  AL: ['America/Chicago'], AK: ['America/Anchorage', 'America/Adak'], AZ: ['America/Phoenix'],
+  AR: ['America/Chicago'], CA: ['America/Los_Angeles'], CO: ['America/Denver'], CT: ['America/New_York'],
+  DC: ['America/New_York'], DE: ['America/New_York'], FL: ['America/New_York', 'America/Chicago'],
+  GA: ['America/New_York'], HI: ['Pacific/Honolulu'], ID: ['America/Boise', 'America/Los_Angeles'],
+  IL: ['America/Chicago'], IN: ['America/Indiana/Indianapolis', 'America/Chicago'], IA: ['America/Chicago'],
+  KS: ['America/Chicago', 'America/Denver'], KY: ['America/New_York', 'America/Chicago'],
+  LA: ['America/Chicago'], ME: ['America/New_York'], MD: ['America/New_York'], MA: ['America/New_York'],
+  MI: ['America/Detroit', 'America/Menominee'], MN: ['America/Chicago'], MS: ['America/Chicago'],
+  MO: ['America/Chicago'], MT: ['America/Denver'], NE: ['America/Chicago', 'America/Denver'],
+  NV: ['America/Los_Angeles'], NH: ['America/New_York'], NJ: ['America/New_York'], NM: ['America/Denver'],
+  NY: ['America/New_York'], NC: ['America/New_York'], ND: ['America/Chicago', 'America/Denver'],
+  OH: ['America/New_York'], OK: ['America/Chicago'], OR: ['America/Los_Angeles', 'America/Boise'],
+  PA: ['America/New_York'], RI: ['America/New_York'], SC: ['America/New_York'],
+  SD: ['America/Chicago', 'America/Denver'], TN: ['America/Chicago', 'America/New_York'],
+  TX: ['America/Chicago', 'America/Denver'], UT: ['America/Denver'], VT: ['America/New_York'],
+  VA: ['America/New_York'], WA: ['America/Los_Angeles'], WV: ['America/New_York'], WI: ['America/Chicago'],
+  WY: ['America/Denver'], PR: ['America/Puerto_Rico'], GU: ['Pacific/Guam'], VI: ['America/St_Thomas'],
+};
+
+// Unknown recipients are checked against the 50 states and DC; Guam's
+// UTC+10 would otherwise rule out most of the US day
+const TERRITORIES = new Set(['PR', 'GU', 'VI']);
+const ALL_US_TIMEZONES = Array.from(new Set(
+  Object.entries(STATE_TIMEZONES).filter(([state]) => !TERRITORIES.has(state)).flatMap(([, zones]) => zones)
+));
+
+// Shared public shorteners; carriers filter these because spammers share them
+const PUBLIC_SHORTENERS = [
+  'bit.ly', 'bitly.com', 'tinyurl.com', 'goo.gl', 'ow.ly', 't.co', 'is.gd', 'v.gd', 'buff.ly',
+  'rebrand.ly', 'shorturl.at', 'cutt.ly', 'tiny.cc', 'rb.gy', 't.ly', 's.id', 'lnkd.in', 'tr.im',
+];
+
+const URL_HOST_PATTERN = /(?:^|[\s(])(?:https?:\/\/)?((?:[a-z0-9-]+\.)+[a-z]{2,})(?=$|[\s/?#)!,.])/gi;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Whether `timeZone` is an IANA zone Intl accepts (localMinutes throws otherwise).
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Minutes past local midnight at `date` in `timeZone`.
+ */
+export function localMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const hour = Number(parts.find(p => p.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find(p => p.type === 'minute')?.value ?? 0);
+  return (hour % 24) * 60 + minute;
+}
+
+function formatLocalTime(date: Date, timeZone: string): string {
+  return date.toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit', timeZoneName: 'short' });
+}
+
+function formatHour(hour: number): string {
+  if (hour === 0 || hour === 24) return '12am';
+  if (hour === 12) return '12pm';
+  return hour < 12 ? `${hour}am` : `${hour - 12}pm`;
+}
+
+/**
+ * Zones to check for a recipient: explicit timezone, else every zone of the
+ * state, else every US zone.
+ */
+export function recipientTimezones(ctx: Pick<TextingRuleContext, 'recipientState' | 'recipientTimezone'>): string[] {
+  if (ctx.recipientTimezone) return [ctx.recipientTimezone];
+  const state = ctx.recipientState?.toUpperCase();
+  if (state && STATE_TIMEZONES[state]) return STATE_TIMEZONES[state];
+  return ALL_US_TIMEZONES;
+}
+
+/**
+ * Zones where `sendAt` falls outside [start, end) local hours.
+ */
+export function zonesOutsideWindow(sendAt: Date, zones: string[], start: number, end: number): string[] {
+  return zones.filter(zone => {
+    const minutes = localMinutes(sendAt, zone);
+    return minutes < start * 60 || minutes >= end * 60;
+  });
+}
+
+/**
+ * Hostnames of links in a message (lowercased, without "www.").
+ */
+export function extractLinkHosts(message: string): string[] {
+  const hosts = new Set<string>();
+  for (const match of message.matchAll(URL_HOST_PATTERN)) {
+    hosts.add(match[1].toLowerCase().replace(/^www\./, ''));
+  }
+  return Array.from(hosts);
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+const optOutRule: TextingRule = {
+  id: 'opt_out_language',
+  pack: 'carrier_basics',
+  title: 'Opt-out instructions',
+  severity: 'block',
+  evaluate: ({ message, optOutAppended }) => {
+    if (hasOptOutLanguage(message)) {
+      return { status: 'pass', explanation: 'Message tells recipients how to opt out.' };
+    }
+    if (optOutAppended) {
+      return { status: 'pass', explanation: '"Reply STOP to opt out." is appended when the message is sent.' };
+    }
+    return { status: 'fail', explanation: 'Add opt-out instructions such as "Reply STOP to opt out."' };
+  },
+};
+
+const senderIdRule: TextingRule = {
+  id: 'sender_identification',
+  pack: 'carrier_basics',
+  title: 'Sender identification',
+  severity: 'warn',
+  evaluate: ({ message, orgName }) => hasSenderIdentification(message, orgName)
+    ? { status: 'pass', explanation: 'Message identifies who is texting.' }
+    : {
+        status: 'fail',
+        explanation: orgName
+          ? `Name the sender (e.g. "${orgName}") so recipients know who is texting.`
+          : 'Name the sender so recipients know who is texting.',
+      },
+};
+
+const federalQuietHoursRule: TextingRule = {
+  id: 'federal_quiet_hours',
+  pack: 'quiet_hours',
+  title: 'Recipient quiet hours',
+  severity: 'block',
+  evaluate: ctx => {
+    // Org settings can narrow the federal window but not widen it
+    const start = Math.max(FEDERAL_WINDOW_START, ctx.settings.quietHoursStart ?? FEDERAL_WINDOW_START);
+    const end = Math.min(FEDERAL_WINDOW_END, ctx.settings.quietHoursEnd ?? FEDERAL_WINDOW_END);
+    const sendAt = ctx.sendAt;
+    if (!sendAt) return noSendTime(`${formatHour(start)}-${formatHour(end)} recipient local time`);
+    const zones = recipientTimezones(ctx);
+    const outside = zonesOutsideWindow(sendAt, zones, start, end);
+    const known = hasKnownRecipient(ctx);
+    const scope = known ? 'the recipient' : 'every US timezone';
+    if (outside.length === 0) {
+      return { status: 'pass', explanation: `The send time is within ${formatHour(start)}-${formatHour(end)} for ${scope}.` };
+    }
+    return {
+      status: 'fail',
+      explanation: `Outside the ${formatHour(start)}-${formatHour(end)} window for ${scope}: it is ${
+        outside.map(zone => formatLocalTime(sendAt, zone)).join(', ')
+      }.${known ? '' : ' Recipients in those zones should be held back.'}`,
+      ...(known ? {} : { severity: 'warn' as const }),
+    };
+  },
+};
+
+function hasKnownRecipient(ctx: TextingRuleContext): boolean {
+  return !!(ctx.recipientTimezone || ctx.recipientState);
+}
+
+function noSendTime(window: string): RuleOutcome {
+  return { status: 'skipped', explanation: `No send time chosen; ${window} is checked once the send is scheduled.` };
+}
+
+/** States whose mini-TCPA rules apply: the recipient's, or all of them when unknown */
+function applicableStates(ctx: TextingRuleContext): string[] {
+  const state = ctx.recipientState?.toUpperCase();
+  if (state) return STATE_TEXTING_RULES[state] ? [state] : [];
+  return Object.keys(STATE_TEXTING_RULES);
+}
+
+const stateQuietHoursRule: TextingRule = {
+  id: 'state_quiet_hours',
+  pack: 'state_rules',
+  title: 'State calling window',
+  severity: 'block',
+  evaluate: ctx => {
+    const states = applicableStates(ctx);
+    if (states.length === 0) {
+      return { status: 'skipped', explanation: `No state texting law on file for ${ctx.recipientState}.` };
+    }
+    const sendAt = ctx.sendAt;
+    if (!sendAt) return noSendTime(`the ${states.join(', ')} calling window`);
+    const violations = states.flatMap(state => {
+      const rule = STATE_TEXTING_RULES[state];
+      const zones = ctx.recipientTimezone ? [ctx.recipientTimezone] : STATE_TIMEZONES[state];
+      const outside = zonesOutsideWindow(sendAt, zones, rule.windowStart, rule.windowEnd);
+      return outside.length > 0
+        ? [`${state} (${rule.law}) allows ${formatHour(rule.windowStart)}-${formatHour(rule.windowEnd)}; it is ${formatLocalTime(sendAt, outside[0])}`]
+        : [];
+    });
+    if (violations.length === 0) {
+      return { status: 'pass', explanation: `Within the calling window for ${states.join(', ')}.` };
+    }
+    // Without a recipient this only means recipients in these states must wait
+    return hasKnownRecipient(ctx)
+      ? { status: 'fail', explanation: `${violations.join('. ')}.` }
+      : { status: 'fail', severity: 'warn', explanation: `${violations.join('. ')}. Hold back recipients in ${states.join(', ')}.` };
+  },
+};
+
+const stateFrequencyRule: TextingRule = {
+  id: 'state_message_frequency',
+  pack: 'state_rules',
+  title: 'State message frequency cap',
+  severity: 'block',
+  evaluate: ctx => {
+    const states = applicableStates(ctx);
+    if (states.length === 0) {
+      return { status: 'skipped', explanation: `No state texting law on file for ${ctx.recipientState}.` };
+    }
+    if (ctx.recipientMessagesLast24h === null || ctx.recipientMessagesLast24h === undefined) {
+      return {
+        status: 'skipped',
+        explanation: `${states.join(', ')} cap messages per recipient; checked at send time when recipient history is known.`,
+      };
+    }
+    const limit = Math.min(...states.map(s => STATE_TEXTING_RULES[s].maxMessagesPer24h));
+    const total = ctx.recipientMessagesLast24h + 1;
+    return total <= limit
+      ? { status: 'pass', explanation: `Message ${total} of ${limit} allowed in 24 hours.` }
+      : { status: 'fail', explanation: `This would be message ${total} in 24 hours; ${states.join(', ')} allow ${limit}.` };
+  },
+};
+
+const paidForByRule: TextingRule = {
+  id: 'paid_for_by_disclaimer',
+  pack: 'paid_for_by',
+  title: 'Paid-for-by disclaimer',
+  severity: 'block',
+  evaluate: ({ message, settings }) => {
+    const text = normalize(message);
+    if (!/paid for by\s+\S/.test(text)) {
+      return {
+        status: 'fail',
+        explanation: settings.paidForBy
+          ? `Add "Paid for by ${settings.paidForBy}".`
+          : 'Add a "Paid for by <committee>" disclaimer.',
+      };
+    }
+    if (settings.paidForBy && !text.includes(normalize(settings.paidForBy))) {
+      return { status: 'fail', explanation: `Disclaimer must name "${settings.paidForBy}".` };
+    }
+    return { status: 'pass', explanation: 'Message carries a paid-for-by disclaimer.' };
+  },
+};
+
+const linkShortenerRule: TextingRule = {
+  id: 'no_public_shorteners',
+  pack: 'link_shorteners',
+  title: 'Link shorteners',
+  severity: 'block',
+  evaluate: ({ message, settings }) => {
+    const allowed = new Set((settings.allowedLinkDomains || []).map(d => d.toLowerCase().replace(/^www\./, '')));
+    const banned = extractLinkHosts(message).filter(host => PUBLIC_SHORTENERS.includes(host) && !allowed.has(host));
+    if (banned.length > 0) {
+      return {
+        status: 'fail',
+        explanation: `Carriers filter shared shorteners (${banned.join(', ')}). Use the full link or a branded domain.`,
+      };
+    }
+    return { status: 'pass', explanation: 'No public link shorteners.' };
+  },
+};
+
+export const TEXTING_RULES: TextingRule[] = [
+  optOutRule,
+  senderIdRule,
+  federalQuietHoursRule,
+  stateQuietHoursRule,
+  stateFrequencyRule,
+  paidForByRule,
+  linkShortenerRule,
+];
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+/**
+ * Run every rule in the enabled packs. Any failing "block" rule blocks the
+ * message; any failing "warn" rule sends it to review.
+ */
+export function evaluateTextingRules(
+  ctx: TextingRuleContext,
+  rules: TextingRule[] = TEXTING_RULES
+): TextingComplianceReport {
+  const enabled = new Set(ctx.settings.enabledPacks);
+  const results: TextingRuleResult[] = rules
+    .filter(rule => enabled.has(rule.pack))
+    .map(rule => {
+      const { severity, ...outcome } = rule.evaluate(ctx);
+      return {
+        rule_id: rule.id,
+        pack: rule.pack,
+        title: rule.title,
+        severity: severity ?? rule.severity,
+        ...outcome,
+      };
+    });
+
+  const failed = results.filter(r => r.status === 'fail');
+  const status = failed.some(r => r.severity === 'block')
+    ? 'blocked'
+    : failed.length > 0 ? 'review' : 'pass';
+
+  return { status, results };
+}
+
+/**
+ * Settings row (texting_compliance_settings) -> engine settings. Orgs
+ * without a row get the default packs.
+ */
+export function settingsFromRow(row: {
+  enabled_packs?: string[] | null;
+  paid_for_by?: string | null;
+  quiet_hours_start?: number | null;
+  quiet_hours_end?: number | null;
+  allowed_link_domains?: string[] | null;
+} | null | undefined): TextingComplianceSettings {
+  const packs = (row?.enabled_packs ?? DEFAULT_RULE_PACKS).filter(
+    (p): p is RulePackId => p in RULE_PACKS
+  );
+  return {
+    enabledPacks: packs,
+    paidForBy: row?.paid_for_by ?? null,
+    quietHoursStart: row?.quiet_hours_start ?? undefined,
+    quietHoursEnd: row?.quiet_hours_end ?? undefined,
+    allowedLinkDomains: row?.allowed_link_domains ?? [],
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Unit tests for threat taxonomy scoring
+ *
+ * Run with: deno test supabase/functions/_shared/threatTaxonomy.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  DEFAULT_THREAT_TAXONOMY,
+  levelForScore,
+  normalizeTaxonomy,
+  scoreThreat,
+  type ThreatTaxonomy,
+} from "./threatTaxonomy.ts";
+
+const HOUSING_TAXONOMY: ThreatTaxonomy = {
+  thresholds: { critical: 60, high: 30, medium: 10 },
+  categories: [
+    {
+      id: 'evictions',
+      name: 'Evictions',
+      negations: ['moratorium extended'],
+      rules: [
+        { id: 'eviction', label: 'Evictions', terms: ['eviction', 'unlawful detainer'], weight: 30 },
+        { id: 'rent-cap', label: 'Rent caps', terms: ['rent control', 'rent cap'], weight: 10, negations: ['repeal'] },
+      ],
+    },
+    {
+      id: 'preemption',
+      name: 'State preemption',
+      severity: 'high',
+      rules: [{ id: 'preempt', label: 'Preemption', terms: ['preempt'], weight: 5, sources: ['state_action'] }],
+    },
+  ],
+};
+
+Deno.test("default taxonomy reproduces the old keyword tiers", () => {
+  const result = scoreThreat(
+    'Governor designates CAIR as a terrorist organization',
+    DEFAULT_THREAT_TAXONOMY,
+    'state_action'
+  );
+  assertEquals(result.level, 'critical');
+  assertEquals(result.score, 100);
+  assertEquals(result.affectedOrgs, ['CAIR']);
+  assertEquals(result.matches.map((m) => m.rule_id), [
+    'designations-terrorist-organization',
+    'community-cair',
+    'org-cair',
+  ]);
+});
+
+Deno.test("source-scoped rules only apply to their source", () => {
+  const text = 'Governor signs executive order on border security';
+  assertEquals(scoreThreat(text, DEFAULT_THREAT_TAXONOMY, 'state_action').level, 'critical');
+  const federal = scoreThreat(text, DEFAULT_THREAT_TAXONOMY, 'executive_order');
+  assertEquals(federal.level, 'low');
+  assertEquals(federal.matchedTerms, ['border']);
+});
+
+Deno.test("terms match whole words with plural endings", () => {
+  assertEquals(scoreThreat('Arabic language classes', DEFAULT_THREAT_TAXONOMY).matches, []);
+  assertEquals(scoreThreat('New rules for refugees', DEFAULT_THREAT_TAXONOMY).matchedTerms, ['refugee']);
+  assertEquals(scoreThreat('What kind of order is this', DEFAULT_THREAT_TAXONOMY).affectedOrgs, []);
+});
+
+Deno.test("a rule scores once however many of its terms appear", () => {
+  const result = scoreThreat('Eviction filings and unlawful detainer cases rise', HOUSING_TAXONOMY);
+  assertEquals(result.score, 30);
+  assertEquals(result.level, 'high');
+  assertEquals(result.matches[0].term, 'eviction');
+});
+
+Deno.test("negations near a term cancel it", () => {
+  assertEquals(scoreThreat('Legislature votes to repeal rent control', HOUSING_TAXONOMY).matches, []);
+  assertEquals(scoreThreat('Eviction moratorium extended through June', HOUSING_TAXONOMY).matches, []);
+
+  // Far enough away, the negation does not apply
+  const padding = ' and'.repeat(30);
+  const result = scoreThreat(`Eviction surge continues${padding} the moratorium extended elsewhere`, HOUSING_TAXONOMY);
+  assertEquals(result.matches.map((m) => m.rule_id), ['eviction']);
+});
+
+Deno.test("category severity acts as a floor", () => {
+  const result = scoreThreat('Bill would preempt local ordinances', HOUSING_TAXONOMY, 'state_action');
+  assertEquals(result.score, 5);
+  assertEquals(result.level, 'high');
+  assertEquals(scoreThreat('Bill would preempt local ordinances', HOUSING_TAXONOMY, 'bill').level, 'low');
+});
+
+Deno.test("levelForScore uses the taxonomy thresholds", () => {
+  assertEquals(levelForScore(59, HOUSING_TAXONOMY.thresholds), 'high');
+  assertEquals(levelForScore(60, HOUSING_TAXONOMY.thresholds), 'critical');
+  assertEquals(levelForScore(9, HOUSING_TAXONOMY.thresholds), 'low');
+});
+
+Deno.test("normalizeTaxonomy keeps valid rules and reports the rest", () => {
+  const { taxonomy, errors } = normalizeTaxonomy({
+    thresholds: { critical: 10, high: 20, medium: 5 },
+    categories: [
+      {
+        id: 'housing',
+        name: 'Housing',
+        severity: 'urgent',
+        rules: [
+          { id: 'ok', terms: ['  rent   cap ', 'rent cap', 7], weight: 10, sources: ['bill', 'tweet'] },
+          { id: 'no-terms', terms: [], weight: 10 },
+          { id: 'heavy', terms: ['x'], weight: 500 },
+          { id: 'ok', terms: ['dup'], weight: 1 },
+        ],
+      },
+      { name: 'No id' },
+    ],
+  });
+
+  assertEquals(taxonomy.thresholds, DEFAULT_THREAT_TAXONOMY.thresholds);
+  assertEquals(taxonomy.categories, [
+    {
+      id: 'housing',
+      name: 'Housing',
+      rules: [{ id: 'ok', label: 'rent cap', terms: ['rent cap'], weight: 10, sources: ['bill'] }],
+    },
+  ]);
+  assertEquals(errors.length, 5);
+});
+
+Deno.test("normalizeTaxonomy accepts the default taxonomy unchanged", () => {
+  const { taxonomy, errors } = normalizeTaxonomy(JSON.parse(JSON.stringify(DEFAULT_THREAT_TAXONOMY)));
+  assertEquals(errors, []);
+  assertEquals(taxonomy, DEFAULT_THREAT_TAXONOMY);
+});
@@ -0,0 +1,453 @@
+/**
+ * Threat Taxonomy
+ *
+ * Keyword scoring for state actions, executive orders and bills, driven by
+ * a taxonomy instead of hardcoded keyword tiers:
+ * - categories group rules by issue area and can set a severity floor, so
+ *   any match in e.g. "Terrorism designations" is at least high
+ * - rules carry a weight and one or more terms (synonyms); a rule scores its
+ *   weight once however many of its terms appear
+ * - negations are phrases that cancel a term when they appear close to it
+ *   ("lifts sanctions", "no deportation")
+ * - thresholds map the summed score to critical / high / medium / low
+ *
+ * DEFAULT_THREAT_TAXONOMY reproduces the keyword lists that
+ * track-state-actions and fetch-executive-orders used to carry; rules that
+ * only one of them had are scoped with `sources`. Organizations edit their
+ * own copy, stored versioned in threat_taxonomy_versions.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ThreatLevel = 'critical' | 'high' | 'medium' | 'low';
+export type ThreatSourceType = 'state_action' | 'executive_order' | 'bill';
+
+export const THREAT_LEVELS: ThreatLevel[] = ['critical', 'high', 'medium', 'low'];
+export const THREAT_SOURCE_TYPES: ThreatSourceType[] = ['state_action', 'executive_order', 'bill'];
+
+export interface ThreatRule {
+  id: string;
+  label: string;
+  terms: string[];
+  weight: number;
+  negations?: string[];
+  /** Limit the rule to these sources; missing means every source */
+  sources?: ThreatSourceType[];
+  /** Match terms case-sensitively, for acronyms like "KIND" or "MAS" */
+  match_case?: boolean;
+  /** Reported in affectedOrgs when the rule matches */
+  organization?: string;
+}
+
+export interface ThreatCategory {
+  id: string;
+  name: string;
+  /** Any match in the category lifts the level to at least this */
+  severity?: ThreatLevel;
+  /** Apply to every rule in the category */
+  negations?: string[];
+  rules: ThreatRule[];
+}
+
+export interface ThreatThresholds {
+  critical: number;
+  high: number;
+  medium: number;
+}
+
+export interface ThreatTaxonomy {
+  thresholds: ThreatThresholds;
+  categories: ThreatCategory[];
+}
+
+export interface ThreatRuleMatch {
+  category_id: string;
+  category: string;
+  rule_id: string;
+  rule: string;
+  /** The term as written in the rule */
+  term: string;
+  weight: number;
+}
+
+export interface ThreatAssessment {
+  level: ThreatLevel;
+  /** Sum of matched rule weights, capped at 100 */
+  score: number;
+  matches: ThreatRuleMatch[];
+  matchedTerms: string[];
+  affectedOrgs: string[];
+}
+
+export const MAX_THREAT_SCORE = 100;
+
+/** Characters either side of a term searched for its negations */
+export const NEGATION_WINDOW = 60;
+
+const MAX_TERM_LENGTH = 200;
+const MAX_WEIGHT = 100;
+
+// ============================================================================
+// Default taxonomy
+// ============================================================================
+
+function keywordRules(
+  prefix: string,
+  weight: number,
+  keywords: string[],
+  sources?: ThreatSourceType[]
+): ThreatRule[] {
+  return keywords.map((keyword) => ({
+    id: `${prefix}-${keyword.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}`,
+    label: keyword,
+    terms: [keyword],
+    weight,
+    ...(sources ? { sources } : {}),
+  }));
+}
+
+function organizationRule(acronym: string, fullName?: string): ThreatRule {
+  return {
+    id: `org-${acronym.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}`,
+    label: fullName ? `${acronym} (${fullName})` : acronym,
+    terms: fullName ? [acronym, fullName] : [acronym],
+    weight: 40,
+    match_case: true,
+    organization: acronym,
+  };
+}
+
+export const DEFAULT_THREAT_TAXONOMY: ThreatTaxonomy = {
+  thresholds: { critical: 50, high: 30, medium: 15 },
+  categories: [
+    {
+      id: 'designations',
+      name: 'Terrorism designations & sanctions',
+      rules: keywordRules('designations', 50, [
+        'terrorist designation',
+        'terrorist organization',
+        'material support',
+        'foreign terrorist',
+        'designated entity',
+        'sanctions',
+        'asset freeze',
+      ]),
+    },
+    {
+      id: 'immigration',
+      name: 'Immigration & travel restrictions',
+      rules: [
+        ...keywordRules('immigration', 50, ['travel ban', 'muslim ban', 'immigration ban']),
+        ...keywordRules('immigration', 15, [
+          'immigration enforcement',
+          'deportation',
+          'visa restriction',
+          'refugee',
+          'asylum',
+        ]),
+        ...keywordRules('immigration', 5, ['immigration', 'border']),
+      ],
+    },
+    {
+      id: 'surveillance',
+      name: 'Surveillance & security policy',
+      rules: [
+        ...keywordRules('surveillance', 50, ['mosque surveillance', 'religious registry']),
+        ...keywordRules('surveillance', 15, [
+          'surveillance',
+          'national security',
+          'counterterrorism',
+          'radicalization',
+          'extremism',
+          'foreign influence',
+          'profiling',
+        ]),
+        ...keywordRules('surveillance', 5, ['homeland security']),
+        ...keywordRules('surveillance', 5, ['intelligence', 'law enforcement'], ['executive_order']),
+      ],
+    },
+    {
+      id: 'community',
+      name: 'Muslim & Arab American communities',
+      rules: [
+        ...keywordRules('community', 15, [
+          'muslim',
+          'islam',
+          'islamic',
+          'arab',
+          'middle east',
+          'palestine',
+          'palestinian',
+          'gaza',
+        ]),
+        ...keywordRules('community', 15, ['CAIR', 'MPAC']).map((rule) => ({ ...rule, match_case: true })),
+      ],
+    },
+    {
+      id: 'civil-liberties',
+      name: 'Civil liberties & nonprofits',
+      rules: [
+        ...keywordRules('civil-liberties', 15, [
+          'religious freedom',
+          'civil liberties',
+          'discrimination',
+          'hate crime',
+        ]),
+        ...keywordRules('civil-liberties', 5, [
+          'nonprofit',
+          'charitable',
+          'religious organization',
+          'first amendment',
+          'free speech',
+          'protest',
+        ]),
+        ...keywordRules('civil-liberties', 5, ['assembly'], ['executive_order']),
+      ],
+    },
+    {
+      id: 'boycott',
+      name: 'Boycott & anti-BDS measures',
+      rules: keywordRules('boycott', 15, ['anti-bds', 'boycott'], ['state_action']),
+    },
+    {
+      id: 'executive-authority',
+      name: 'Executive & emergency authority',
+      rules: [
+        ...keywordRules('executive-authority', 50, ['executive order', 'emergency declaration'], ['state_action']),
+        ...keywordRules('executive-authority', 5, ['foreign policy', 'state department'], ['executive_order']),
+      ],
+    },
+    {
+      id: 'organizations',
+      name: 'Tracked organizations',
+      rules: [
+        organizationRule('CAIR', 'Council on American-Islamic Relations'),
+        organizationRule('MPAC', 'Muslim Public Affairs Council'),
+        organizationRule('ISNA', 'Islamic Society of North America'),
+        organizationRule('ADC', 'American-Arab Anti-Discrimination Committee'),
+        organizationRule('AAI', 'Arab American Institute'),
+        organizationRule('MAS', 'Muslim American Society'),
+        organizationRule('ICNA', 'Islamic Circle of North America'),
+        organizationRule('NAIT', 'North American Islamic Trust'),
+        organizationRule('KIND', 'Kids in Need of Defense'),
+        organizationRule('IRW', 'Islamic Relief'),
+        organizationRule('ACLU', 'American Civil Liberties Union'),
+        organizationRule('Holy Land Foundation'),
+        organizationRule('Helping Hand'),
+        organizationRule('Brennan Center'),
+      ],
+    },
+  ],
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const out: string[] = [];
+  for (const item of value) {
+    if (typeof item !== 'string') continue;
+    const trimmed = item.trim().replace(/\s+/g, ' ');
+    if (trimmed && trimmed.length <= MAX_TERM_LENGTH && !out.includes(trimmed)) out.push(trimmed);
+  }
+  return out;
+}
+
+function isLevel(value: unknown): value is ThreatLevel {
+  return typeof value === 'string' && (THREAT_LEVELS as string[]).includes(value);
+}
+
+/**
+ * Validate a stored taxonomy. Invalid rules and categories are dropped with
+ * an error each rather than failing the whole taxonomy, so one bad edit
+ * does not stop scoring.
+ */
+export function normalizeTaxonomy(raw: unknown): { taxonomy: ThreatTaxonomy; errors: string[] } {
+  const errors: string[] = [];
+  const input = isRecord(raw) ? raw : {};
+  if (!isRecord(raw)) errors.push('Taxonomy must be an object');
+
+  const thresholds = { ...DEFAULT_THREAT_TAXONOMY.thresholds };
+  if (isRecord(input.thresholds)) {
+    for (const level of ['critical', 'high', 'medium'] as const) {
+      const value = input.thresholds[level];
+      if (typeof value === 'number' && Number.isFinite(value) && value > 0) thresholds[level] = value;
+    }
+  }
+  if (!(thresholds.critical > thresholds.high && thresholds.high > thresholds.medium)) {
+    errors.push('Thresholds must decrease from critical to medium; using the defaults');
+    Object.assign(thresholds, DEFAULT_THREAT_TAXONOMY.thresholds);
+  }
+
+  const categories: ThreatCategory[] = [];
+  const categoryIds = new Set<string>();
+  const rawCategories = Array.isArray(input.categories) ? input.categories : [];
+  if (!Array.isArray(input.categories)) errors.push('Taxonomy has no categories');
+
+  rawCategories.forEach((rawCategory, index) => {
+    if (!isRecord(rawCategory) || typeof rawCategory.id !== 'string' || !rawCategory.id.trim()) {
+      errors.push(`Category ${index + 1} has no id`);
+      return;
+    }
+    const id = rawCategory.id.trim();
+    if (categoryIds.has(id)) {
+      errors.push(`Duplicate category "${id}"`);
+      return;
+    }
+    categoryIds.add(id);
+
+    const rules: ThreatRule[] = [];
+    const ruleIds = new Set<string>();
+    const rawRules = Array.isArray(rawCategory.rules) ? rawCategory.rules : [];
+    rawRules.forEach((rawRule, ruleIndex) => {
+      const where = `${id} rule ${ruleIndex + 1}`;
+      if (!isRecord(rawRule) || typeof rawRule.id !== 'string' || !rawRule.id.trim()) {
+        errors.push(`${where} has no id`);
+        return;
+      }
+      const ruleId = rawRule.id.trim();
+      if (ruleIds.has(ruleId)) {
+        errors.push(`Duplicate rule "${ruleId}" in ${id}`);
+        return;
+      }
+      const terms = stringList(rawRule.terms);
+      if (terms.length === 0) {
+        errors.push(`Rule "${ruleId}" has no terms`);
+        return;
+      }
+      const weight = rawRule.weight;
+      if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0 || weight > MAX_WEIGHT) {
+        errors.push(`Rule "${ruleId}" needs a weight between 1 and ${MAX_WEIGHT}`);
+        return;
+      }
+      ruleIds.add(ruleId);
+
+      const rule: ThreatRule = {
+        id: ruleId,
+        label: typeof rawRule.label === 'string' && rawRule.label.trim() ? rawRule.label.trim() : terms[0],
+        terms,
+        weight,
+      };
+      const negations = stringList(rawRule.negations);
+      if (negations.length > 0) rule.negations = negations;
+      const sources = stringList(rawRule.sources).filter((s): s is ThreatSourceType =>
+        (THREAT_SOURCE_TYPES as string[]).includes(s)
+      );
+      if (sources.length > 0) rule.sources = sources;
+      if (rawRule.match_case === true) rule.match_case = true;
+      if (typeof rawRule.organization === 'string' && rawRule.organization.trim()) {
+        rule.organization = rawRule.organization.trim();
+      }
+      rules.push(rule);
+    });
+
+    const category: ThreatCategory = {
+      id,
+      name: typeof rawCategory.name === 'string' && rawCategory.name.trim() ? rawCategory.name.trim() : id,
+      rules,
+    };
+    if (isLevel(rawCategory.severity) && rawCategory.severity !== 'low') category.severity = rawCategory.severity;
+    const negations = stringList(rawCategory.negations);
+    if (negations.length > 0) category.negations = negations;
+    categories.push(category);
+  });
+
+  return { taxonomy: { thresholds, categories }, errors };
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Whole-word pattern for a term. Whitespace inside the term matches any run
+ * of whitespace and a plural or possessive ending is allowed, so "refugee"
+ * matches "refugees" but "arab" does not match "arabic".
+ */
+function termPattern(term: string, matchCase: boolean): RegExp {
+  const body = term.trim().split(/\s+/).map(escapeRegExp).join('\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${body}(?:e?s|'s|’s)?(?![\\p{L}\\p{N}])`, matchCase ? 'gu' : 'giu');
+}
+
+function isNegated(text: string, start: number, end: number, negations: string[]): boolean {
+  if (negations.length === 0) return false;
+  const window = text.slice(Math.max(0, start - NEGATION_WINDOW), Math.min(text.length, end + NEGATION_WINDOW));
+  return negations.some((negation) => termPattern(negation, false).test(window));
+}
+
+/** First term of the rule found in the text outside any negation */
+function matchRule(text: string, rule: ThreatRule, negations: string[]): string | null {
+  for (const term of rule.terms) {
+    for (const match of text.matchAll(termPattern(term, rule.match_case === true))) {
+      const start = match.index ?? 0;
+      if (!isNegated(text, start, start + match[0].length, negations)) return term;
+    }
+  }
+  return null;
+}
+
+export function levelForScore(score: number, thresholds: ThreatThresholds): ThreatLevel {
+  if (score >= thresholds.critical) return 'critical';
+  if (score >= thresholds.high) return 'high';
+  if (score >= thresholds.medium) return 'medium';
+  return 'low';
+}
+
+function maxLevel(a: ThreatLevel, b: ThreatLevel): ThreatLevel {
+  return THREAT_LEVELS.indexOf(a) <= THREAT_LEVELS.indexOf(b) ? a : b;
+}
+
+/**
+ * Score text against a taxonomy. Rules scoped to other sources are skipped
+ * when a source is given.
+ */
+export function scoreThreat(
+  text: string,
+  taxonomy: ThreatTaxonomy,
+  source?: ThreatSourceType
+): ThreatAssessment {
+  const matches: ThreatRuleMatch[] = [];
+  const affectedOrgs: string[] = [];
+  let floor: ThreatLevel = 'low';
+  let total = 0;
+
+  for (const category of taxonomy.categories) {
+    for (const rule of category.rules) {
+      if (source && rule.sources && !rule.sources.includes(source)) continue;
+      const term = matchRule(text, rule, [...(category.negations || []), ...(rule.negations || [])]);
+      if (!term) continue;
+
+      total += rule.weight;
+      matches.push({
+        category_id: category.id,
+        category: category.name,
+        rule_id: rule.id,
+        rule: rule.label,
+        term,
+        weight: rule.weight,
+      });
+      if (rule.organization && !affectedOrgs.includes(rule.organization)) affectedOrgs.push(rule.organization);
+      if (category.severity) floor = maxLevel(floor, category.severity);
+    }
+  }
+
+  return {
+    level: maxLevel(levelForScore(total, taxonomy.thresholds), floor),
+    score: Math.min(total, MAX_THREAT_SCORE),
+    matches,
+    matchedTerms: [...new Set(matches.map((m) => m.term))],
+    affectedOrgs,
+  };
+}
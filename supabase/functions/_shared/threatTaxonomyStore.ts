@@ -0,0 +1,223 @@
+/**
+ * Supabase-backed threat taxonomies (see threatTaxonomy.ts for scoring).
+ *
+ * track-state-actions, fetch-executive-orders and sync-congress-bills score
+ * each item with the default taxonomy for the shared row, then with every
+ * organization's active taxonomy into threat_taxonomy_matches. Publishing a
+ * new version re-scores the org's recent state actions and executive orders
+ * straight away and drops their older matches; bills are re-scored on their
+ * next sync because their summaries and subjects are not stored, and keep
+ * the previous version's match until then.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  normalizeTaxonomy,
+  scoreThreat,
+  type ThreatSourceType,
+  type ThreatTaxonomy,
+} from "./threatTaxonomy.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export interface OrganizationTaxonomy {
+  organizationId: string;
+  versionId: string;
+  version: number;
+  taxonomy: ThreatTaxonomy;
+}
+
+export interface ThreatSource {
+  type: ThreatSourceType;
+  id: string;
+  text: string;
+}
+
+interface TaxonomyVersionRow {
+  id: string;
+  organization_id: string;
+  version: number;
+  taxonomy: unknown;
+}
+
+const RESCORE_DAYS = 90;
+const RESCORE_LIMIT = 500;
+/** Keeps the source_id filter of a delete inside URL length limits */
+const DELETE_BATCH_SIZE = 100;
+
+// ============================================================================
+// Source text
+// ============================================================================
+
+export function stateActionText(action: { title: string; description?: string | null }): string {
+  return `${action.title} ${action.description || ''}`;
+}
+
+export function executiveOrderText(order: { title?: string | null; abstract?: string | null; topics?: string[] | null }): string {
+  return `${order.title || ''} ${order.abstract || ''} ${(order.topics || []).join(' ')}`;
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+function toOrganizationTaxonomy(row: TaxonomyVersionRow): OrganizationTaxonomy {
+  const { taxonomy, errors } = normalizeTaxonomy(row.taxonomy);
+  if (errors.length > 0) {
+    console.warn(`[threatTaxonomy] org ${row.organization_id} v${row.version}: ${errors.join('; ')}`);
+  }
+  return { organizationId: row.organization_id, versionId: row.id, version: row.version, taxonomy };
+}
+
+/** Active taxonomy of every organization that has published one */
+export async function loadOrganizationTaxonomies(supabase: SupabaseClient): Promise<OrganizationTaxonomy[]> {
+  const { data, error } = await supabase
+    .from('threat_taxonomy_versions')
+    .select('id, organization_id, version, taxonomy')
+    .eq('is_active', true);
+
+  if (error) throw new Error(error.message);
+  return ((data || []) as TaxonomyVersionRow[]).map(toOrganizationTaxonomy);
+}
+
+export async function loadOrganizationTaxonomy(
+  supabase: SupabaseClient,
+  organizationId: string
+): Promise<OrganizationTaxonomy | null> {
+  const { data, error } = await supabase
+    .from('threat_taxonomy_versions')
+    .select('id, organization_id, version, taxonomy')
+    .eq('organization_id', organizationId)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ? toOrganizationTaxonomy(data as TaxonomyVersionRow) : null;
+}
+
+// ============================================================================
+// Matches
+// ============================================================================
+
+/**
+ * Score sources against each organization's taxonomy. Matches are upserted;
+ * an org's earlier match is removed when the item no longer matches.
+ */
+export async function recordTaxonomyMatches(
+  supabase: SupabaseClient,
+  sources: ThreatSource[],
+  taxonomies: OrganizationTaxonomy[]
+): Promise<{ matched: number }> {
+  if (sources.length === 0 || taxonomies.length === 0) return { matched: 0 };
+
+  const rows = [];
+  for (const org of taxonomies) {
+    const cleared = new Map<ThreatSourceType, string[]>();
+
+    for (const source of sources) {
+      const result = scoreThreat(source.text, org.taxonomy, source.type);
+      if (result.matches.length === 0) {
+        cleared.set(source.type, [...(cleared.get(source.type) || []), source.id]);
+        continue;
+      }
+      rows.push({
+        organization_id: org.organizationId,
+        source_type: source.type,
+        source_id: source.id,
+        taxonomy_version_id: org.versionId,
+        taxonomy_version: org.version,
+        score: result.score,
+        threat_level: result.level,
+        matched_rules: result.matches,
+        affected_organizations: result.affectedOrgs,
+        scored_at: new Date().toISOString(),
+      });
+    }
+
+    for (const [sourceType, ids] of cleared) {
+      for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+        const { error } = await supabase
+          .from('threat_taxonomy_matches')
+          .delete()
+          .eq('organization_id', org.organizationId)
+          .eq('source_type', sourceType)
+          .in('source_id', ids.slice(i, i + DELETE_BATCH_SIZE));
+        if (error) throw new Error(error.message);
+      }
+    }
+  }
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('threat_taxonomy_matches')
+      .upsert(rows, { onConflict: 'organization_id,source_type,source_id' });
+    if (error) throw new Error(error.message);
+  }
+
+  return { matched: rows.length };
+}
+
+/**
+ * Re-score an organization's recent state actions and executive orders
+ * after it publishes a version, then remove their matches from earlier
+ * versions that fell outside the re-scored window. Passing null (reverted
+ * to the default) clears its matches.
+ */
+export async function rescoreOrganization(
+  supabase: SupabaseClient,
+  organizationId: string,
+  taxonomy: OrganizationTaxonomy | null
+): Promise<{ scored: number; matched: number }> {
+  if (!taxonomy) {
+    const { error } = await supabase
+      .from('threat_taxonomy_matches')
+      .delete()
+      .eq('organization_id', organizationId);
+    if (error) throw new Error(error.message);
+    return { scored: 0, matched: 0 };
+  }
+
+  const since = new Date(Date.now() - RESCORE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const [stateActions, executiveOrders] = await Promise.all([
+    supabase
+      .from('state_actions')
+      .select('id, title, description')
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(RESCORE_LIMIT),
+    supabase
+      .from('executive_orders')
+      .select('id, title, abstract, topics')
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(RESCORE_LIMIT),
+  ]);
+  if (stateActions.error) throw new Error(stateActions.error.message);
+  if (executiveOrders.error) throw new Error(executiveOrders.error.message);
+
+  const sources: ThreatSource[] = [
+    ...(stateActions.data || []).map((row: { id: string; title: string; description: string | null }) => ({
+      type: 'state_action' as const,
+      id: row.id,
+      text: stateActionText(row),
+    })),
+    ...(executiveOrders.data || []).map((row: { id: string; title: string; abstract: string | null; topics: string[] | null }) => ({
+      type: 'executive_order' as const,
+      id: row.id,
+      text: executiveOrderText(row),
+    })),
+  ];
+
+  const { matched } = await recordTaxonomyMatches(supabase, sources, [taxonomy]);
+
+  // Everything re-scored above now carries this version, so what's left is stale
+  const { error: staleError } = await supabase
+    .from('threat_taxonomy_matches')
+    .delete()
+    .eq('organization_id', organizationId)
+    .in('source_type', ['state_action', 'executive_order'])
+    .or(`taxonomy_version_id.is.null,taxonomy_version_id.neq.${taxonomy.versionId}`);
+  if (staleError) throw new Error(staleError.message);
+
+  return { scored: sources.length, matched };
+}
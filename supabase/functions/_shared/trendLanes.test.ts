@@ -0,0 +1,86 @@
+/**
+ * Unit tests for per-source trend lanes
+ *
+ * Run with: deno test supabase/functions/_shared/trendLanes.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  baselineLaneColumns,
+  countTopicMentions,
+  createTopicHourCounts,
+  dayHourBuckets,
+  hourBucket,
+  laneCountsFromSources,
+  laneTotals,
+  laneVelocity,
+  normalizeEventKey,
+} from "./trendLanes.ts";
+
+Deno.test("normalizeEventKey keeps the existing trend_baselines key format", () => {
+  assertEquals(normalizeEventKey("Supreme Court"), "supreme_court");
+  assertEquals(normalizeEventKey("  Roe v. Wade  "), "_roe_v_wade_");
+  assertEquals(normalizeEventKey("Medicare-for-All 2026!"), "medicareforall_2026");
+});
+
+Deno.test("countTopicMentions counts totals and lanes per hour", () => {
+  const counts = createTopicHourCounts();
+  const at = new Date(2026, 1, 22, 14, 35);
+
+  countTopicMentions(counts, ["Supreme Court"], at, "news");
+  countTopicMentions(counts, [{ topic: "Supreme Court" }], new Date(2026, 1, 22, 14, 50), "news");
+  countTopicMentions(counts, ["supreme court"], at, "social");
+  countTopicMentions(counts, ["Supreme Court", "Tariffs"], at, "reddit");
+
+  const hour = hourBucket(at);
+  assertEquals(counts.totals.get("supreme_court")?.get(hour), 4);
+  assertEquals(counts.lanes.get("supreme_court")?.get(hour), { news: 2, social: 1, reddit: 1 });
+  assertEquals(counts.lanes.get("tariffs")?.get(hour), { news: 0, social: 0, reddit: 1 });
+});
+
+Deno.test("countTopicMentions skips empty topics, missing lists and bad dates", () => {
+  const counts = createTopicHourCounts();
+
+  countTopicMentions(counts, ["", null, { name: "" }], new Date(2026, 1, 22, 9), "news");
+  countTopicMentions(counts, null, new Date(2026, 1, 22, 9), "social");
+  countTopicMentions(counts, ["Tariffs"], new Date("not a date"), "reddit");
+
+  assertEquals(counts.totals.size, 0);
+});
+
+Deno.test("laneTotals sums one key's lanes over a day", () => {
+  const counts = createTopicHourCounts();
+  const day = new Date(2026, 1, 22, 12);
+
+  countTopicMentions(counts, ["Tariffs"], new Date(2026, 1, 22, 1), "news");
+  countTopicMentions(counts, ["Tariffs"], new Date(2026, 1, 22, 23), "reddit");
+  countTopicMentions(counts, ["Tariffs"], new Date(2026, 1, 23, 0), "social");
+
+  assertEquals(dayHourBuckets(day).length, 24);
+  assertEquals(laneTotals(counts, "tariffs", dayHourBuckets(day)), { news: 1, social: 0, reddit: 1 });
+  assertEquals(laneTotals(counts, "unknown", dayHourBuckets(day)), { news: 0, social: 0, reddit: 0 });
+});
+
+Deno.test("baselineLaneColumns keeps Reddit in social and reports its hourly average", () => {
+  assertEquals(baselineLaneColumns({ news: 10, social: 4, reddit: 6 }, 24), {
+    news_mentions: 10,
+    social_mentions: 10,
+    reddit_mentions: 6,
+    reddit_hourly_average: 0.25,
+  });
+});
+
+Deno.test("laneCountsFromSources maps detect-trend-events sources onto lanes", () => {
+  assertEquals(
+    laneCountsFromSources({ rss: 3, google_news: 2, bluesky: 4, reddit: 5 }),
+    { news: 5, social: 4, reddit: 5 }
+  );
+});
+
+Deno.test("laneVelocity compares a lane's rate with its own baseline", () => {
+  // 12 mentions over 6h = 2/h against a 1/h baseline
+  assertEquals(laneVelocity(12, 6, 1), 100);
+  assertEquals(laneVelocity(3, 6, 1), -50);
+  assertEquals(laneVelocity(12, 6, 0), null);
+});
@@ -0,0 +1,146 @@
+/**
+ * Per-source lanes for trend baselines and velocity
+ *
+ * update-trend-baselines counts topic mentions per hour, in total and per lane
+ * (news, social, reddit), and detect-trend-events turns its per-source counts
+ * into the same lanes, so each lane can be measured against its own history.
+ * Reddit is social too: social_mentions on trend_baselines includes it, and
+ * reddit_mentions / reddit_hourly_average hold Reddit's share.
+ */
+
+// ============================================================================
+// Lanes
+// ============================================================================
+
+export type SourceLane = 'news' | 'social' | 'reddit';
+export type LaneCounts = Record<SourceLane, number>;
+
+export type TrendSourceType = 'rss' | 'google_news' | 'bluesky' | 'reddit';
+
+export const SOURCE_LANES: Record<TrendSourceType, SourceLane> = {
+  rss: 'news',
+  google_news: 'news',
+  bluesky: 'social',
+  reddit: 'reddit',
+};
+
+export function emptyLaneCounts(): LaneCounts {
+  return { news: 0, social: 0, reddit: 0 };
+}
+
+/** Lane counts from detect-trend-events' per-source mention counts */
+export function laneCountsFromSources(bySource: Record<TrendSourceType, number>): LaneCounts {
+  const lanes = emptyLaneCounts();
+  for (const source of Object.keys(SOURCE_LANES) as TrendSourceType[]) {
+    lanes[SOURCE_LANES[source]] += bySource[source] || 0;
+  }
+  return lanes;
+}
+
+/** trend_baselines lane columns for mentions counted over `hours` hours */
+export function baselineLaneColumns(lanes: LaneCounts, hours: number) {
+  return {
+    news_mentions: lanes.news,
+    social_mentions: lanes.social + lanes.reddit,
+    reddit_mentions: lanes.reddit,
+    reddit_hourly_average: hours > 0 ? lanes.reddit / hours : 0,
+  };
+}
+
+/**
+ * Percent change of a lane's hourly rate over its 7-day hourly baseline.
+ * Null when the lane has no history, since any mention would be infinite growth.
+ */
+export function laneVelocity(mentions: number, windowHours: number, baselineHourly: number): number | null {
+  if (!(baselineHourly > 0) || windowHours <= 0) return null;
+  return ((mentions / windowHours - baselineHourly) / baselineHourly) * 100;
+}
+
+// ============================================================================
+// Hourly counting
+// ============================================================================
+
+/** trend_baselines.event_key for a topic name, whichever source it came from */
+export function normalizeEventKey(topicName: string): string {
+  return topicName.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
+}
+
+/** Start of the (runtime-local) hour a mention falls in */
+export function hourBucket(date: Date): string {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()).toISOString();
+}
+
+/** The 24 hour buckets of the day `date` falls in */
+export function dayHourBuckets(date: Date): string[] {
+  return Array.from({ length: 24 }, (_, hour) =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour).toISOString()
+  );
+}
+
+// Articles store { topic } / { name } objects, the AI-analyzed sources plain strings
+function topicName(topic: unknown): string | null {
+  if (typeof topic === 'string') return topic || null;
+  if (topic && typeof topic === 'object') {
+    const { topic: name, name: altName } = topic as { topic?: string; name?: string };
+    return name || altName || null;
+  }
+  return topic == null ? null : String(topic);
+}
+
+export interface TopicHourCounts {
+  /** event_key -> hour bucket -> mentions from every source */
+  totals: Map<string, Map<string, number>>;
+  /** event_key -> hour bucket -> mentions per lane */
+  lanes: Map<string, Map<string, LaneCounts>>;
+}
+
+export function createTopicHourCounts(): TopicHourCounts {
+  return { totals: new Map(), lanes: new Map() };
+}
+
+/** Counts each of an item's topics once, in its hour and lane */
+export function countTopicMentions(
+  counts: TopicHourCounts,
+  topics: unknown,
+  at: Date,
+  lane: SourceLane
+): void {
+  if (!Array.isArray(topics) || isNaN(at.getTime())) return;
+  const hour = hourBucket(at);
+
+  for (const topic of topics) {
+    const name = topicName(topic);
+    if (!name) continue;
+    const eventKey = normalizeEventKey(name);
+
+    let topicHours = counts.totals.get(eventKey);
+    let laneHours = counts.lanes.get(eventKey);
+    if (!topicHours || !laneHours) {
+      topicHours = new Map();
+      laneHours = new Map();
+      counts.totals.set(eventKey, topicHours);
+      counts.lanes.set(eventKey, laneHours);
+    }
+
+    topicHours.set(hour, (topicHours.get(hour) || 0) + 1);
+    const hourLanes = laneHours.get(hour) || emptyLaneCounts();
+    hourLanes[lane]++;
+    laneHours.set(hour, hourLanes);
+  }
+}
+
+/** An event key's lane totals over the given hour buckets */
+export function laneTotals(counts: TopicHourCounts, eventKey: string, hours: string[]): LaneCounts {
+  const totals = emptyLaneCounts();
+  const laneHours = counts.lanes.get(eventKey);
+  if (!laneHours) return totals;
+
+  for (const hour of hours) {
+    const lanes = laneHours.get(hour);
+    if (!lanes) continue;
+    totals.news += lanes.news;
+    totals.social += lanes.social;
+    totals.reddit += lanes.reddit;
+  }
+  return totals;
+}
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for Web Push VAPID signing and aes128gcm payload encryption
+ *
+ * Run with: deno test supabase/functions/_shared/webPush.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  createVapidJwt,
+  deriveContentKeys,
+  encryptPushPayload,
+  getVapidConfig,
+  sendWebPush,
+  type VapidConfig,
+} from "./webPush.ts";
+
+async function generateVapid(): Promise<{ vapid: VapidConfig; verifyKey: CryptoKey }> {
+  const keys = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  const publicRaw = new Uint8Array(await crypto.subtle.exportKey('raw', keys.publicKey));
+  const jwk = await crypto.subtle.exportKey('jwk', keys.privateKey);
+  return {
+    vapid: { publicKey: base64UrlEncode(publicRaw), privateKey: jwk.d!, subject: 'mailto:ops@example.com' },
+    verifyKey: keys.publicKey,
+  };
+}
+
+/** A browser-side subscription: its ECDH key pair and auth secret */
+async function generateSubscription() {
+  const keys = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+  const uaPublic = new Uint8Array(await crypto.subtle.exportKey('raw', keys.publicKey));
+  const auth = crypto.getRandomValues(new Uint8Array(16));
+  return {
+    privateKey: keys.privateKey,
+    uaPublic,
+    auth,
+    subscription: {
+      endpoint: 'https://push.example.com/send/abc123',
+      p256dh: base64UrlEncode(uaPublic),
+      auth: base64UrlEncode(auth),
+    },
+  };
+}
+
+/** What the user agent does on receipt (RFC 8291 section 3.4) */
+async function decryptAsUserAgent(body: Uint8Array, ua: Awaited<ReturnType<typeof generateSubscription>>): Promise<string> {
+  const salt = body.slice(0, 16);
+  const idLength = body[20];
+  const asPublic = body.slice(21, 21 + idLength);
+  const ciphertext = body.slice(21 + idLength);
+
+  const asKey = await crypto.subtle.importKey('raw', asPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const ecdhSecret = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: asKey }, ua.privateKey, 256));
+  const { cek, nonce } = await deriveContentKeys(ecdhSecret, ua.auth, ua.uaPublic, asPublic, salt);
+
+  const aesKey = await crypto.subtle.importKey('raw', cek, 'AES-GCM', false, ['decrypt']);
+  const padded = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: nonce }, aesKey, ciphertext));
+  assertEquals(padded[padded.length - 1], 0x02);
+  return new TextDecoder().decode(padded.slice(0, -1));
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+Deno.test("base64url round-trips without padding", () => {
+  const bytes = new Uint8Array([251, 255, 0, 62, 63]);
+  const encoded = base64UrlEncode(bytes);
+  assertEquals(/[+/=]/.test(encoded), false);
+  assertEquals(Array.from(base64UrlDecode(encoded)), Array.from(bytes));
+});
+
+Deno.test("getVapidConfig requires both keys", () => {
+  assertEquals(getVapidConfig(() => undefined), null);
+  const env: Record<string, string> = { VAPID_PUBLIC_KEY: 'pub', VAPID_PRIVATE_KEY: 'priv', VAPID_SUBJECT: 'mailto:a@b.c' };
+  assertEquals(getVapidConfig(name => env[name]), { publicKey: 'pub', privateKey: 'priv', subject: 'mailto:a@b.c' });
+});
+
+// ============================================================================
+// VAPID
+// ============================================================================
+
+Deno.test("createVapidJwt produces a verifiable ES256 token for the push origin", async () => {
+  const { vapid, verifyKey } = await generateVapid();
+  const jwt = await createVapidJwt('https://push.example.com', vapid, 1000);
+  const [header, claims, signature] = jwt.split('.');
+
+  assertEquals(JSON.parse(new TextDecoder().decode(base64UrlDecode(header))), { typ: 'JWT', alg: 'ES256' });
+  assertEquals(JSON.parse(new TextDecoder().decode(base64UrlDecode(claims))), {
+    aud: 'https://push.example.com',
+    exp: 1000 + 12 * 60 * 60,
+    sub: 'mailto:ops@example.com',
+  });
+
+  const valid = await crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    verifyKey,
+    base64UrlDecode(signature),
+    new TextEncoder().encode(`${header}.${claims}`)
+  );
+  assertEquals(valid, true);
+});
+
+// ============================================================================
+// Encryption
+// ============================================================================
+
+Deno.test("encryptPushPayload output decrypts with the subscription's private key", async () => {
+  const ua = await generateSubscription();
+  const payload = JSON.stringify({ title: 'Breaking', body: '3 sources reporting', url: '/client/alerts' });
+
+  const body = await encryptPushPayload(ua.subscription, payload);
+  assertEquals(new DataView(body.buffer).getUint32(16), 4096);
+  assertEquals(body[20], 65);
+  assertEquals(await decryptAsUserAgent(body, ua), payload);
+
+  // Fresh salt and ephemeral key every time
+  const again = await encryptPushPayload(ua.subscription, payload);
+  assertEquals(base64UrlEncode(again.slice(0, 16)) === base64UrlEncode(body.slice(0, 16)), false);
+});
+
+Deno.test("encryptPushPayload matches the RFC 8291 appendix A example", async () => {
+  const asPublic = base64UrlDecode('BP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A8');
+  const jwk = {
+    kty: 'EC',
+    crv: 'P-256',
+    x: base64UrlEncode(asPublic.slice(1, 33)),
+    y: base64UrlEncode(asPublic.slice(33, 65)),
+  };
+  const keyPair = {
+    privateKey: await crypto.subtle.importKey(
+      'jwk',
+      { ...jwk, d: 'yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw' },
+      { name: 'ECDH', namedCurve: 'P-256' },
+      true,
+      ['deriveBits']
+    ),
+    publicKey: await crypto.subtle.importKey('jwk', jwk, { name: 'ECDH', namedCurve: 'P-256' }, true, []),
+  } as CryptoKeyPair;
+
+  const body = await encryptPushPayload(
+    {
+      p256dh: 'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+      auth: 'BTBZMqHH6r4Tts7J_aSIgg',
+    },
+    'When I grow up, I want to be a watermelon',
+    { salt: base64UrlDecode('DGv6ra1nlYgDCS1FRnbzlw'), keyPair }
+  );
+
+  assertEquals(
+    base64UrlEncode(body),
+    'DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A_yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgSxsj_Qulcy4a-fN'
+  );
+});
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+Deno.test("sendWebPush sends VAPID headers and flags gone subscriptions", async () => {
+  const { vapid } = await generateVapid();
+  const ua = await generateSubscription();
+  const requests: Array<{ url: string; headers: Record<string, string> }> = [];
+
+  const respondWith = (status: number): typeof fetch => (input, init) => {
+    requests.push({ url: String(input), headers: init?.headers as Record<string, string> });
+    return Promise.resolve(new Response(status === 201 ? null : 'gone', { status }));
+  };
+
+  const sent = await sendWebPush(ua.subscription, '{}', vapid, { urgency: 'high', ttl: 60, fetch: respondWith(201) });
+  assertEquals(sent, { ok: true, status: 201, gone: false });
+  assertEquals(requests[0].url, ua.subscription.endpoint);
+  assertEquals(requests[0].headers['Content-Encoding'], 'aes128gcm');
+  assertEquals(requests[0].headers['Urgency'], 'high');
+  assertEquals(requests[0].headers['TTL'], '60');
+  assertEquals(requests[0].headers['Authorization'].startsWith('vapid t='), true);
+  assertEquals(requests[0].headers['Authorization'].endsWith(`, k=${vapid.publicKey}`), true);
+
+  const gone = await sendWebPush(ua.subscription, '{}', vapid, { fetch: respondWith(410) });
+  assertEquals(gone.ok, false);
+  assertEquals(gone.gone, true);
+
+  const throttled = await sendWebPush(ua.subscription, '{}', vapid, { fetch: respondWith(429) });
+  assertEquals(throttled.gone, false);
+});
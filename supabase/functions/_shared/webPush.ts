@@ -0,0 +1,254 @@
+/**
+ * Web Push delivery without a third-party library.
+ *
+ * - VAPID (RFC 8292): ES256 JWT signed with the application server key, sent
+ *   as `Authorization: vapid t=<jwt>, k=<public key>`
+ * - Payload encryption (RFC 8291 / RFC 8188 aes128gcm): ephemeral ECDH P-256
+ *   against the subscription's p256dh key, HKDF with its auth secret
+ *
+ * Keys are base64url: VAPID_PUBLIC_KEY is the uncompressed 65-byte point (the
+ * same value the browser gets as applicationServerKey), VAPID_PRIVATE_KEY the
+ * 32-byte scalar. Generate a pair with `npx web-push generate-vapid-keys`.
+ */
+
+export interface VapidConfig {
+  publicKey: string;
+  privateKey: string;
+  /** mailto: or https: contact push services can use to reach us */
+  subject: string;
+}
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export type PushUrgency = 'very-low' | 'low' | 'normal' | 'high';
+
+export interface WebPushOptions {
+  /** Seconds the push service should hold the message for an offline device */
+  ttl?: number;
+  urgency?: PushUrgency;
+  /** Replaces an undelivered message with the same topic */
+  topic?: string;
+  fetch?: typeof fetch;
+}
+
+export interface WebPushResult {
+  ok: boolean;
+  status: number;
+  /** Subscription is expired or unsubscribed (404/410) and should be deleted */
+  gone: boolean;
+  error?: string;
+}
+
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+const JWT_LIFETIME_SECONDS = 12 * 60 * 60;
+const RECORD_SIZE = 4096;
+
+const encoder = new TextEncoder();
+
+// ============================================================================
+// Encoding helpers
+// ============================================================================
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+export function getVapidConfig(getEnv: (name: string) => string | undefined): VapidConfig | null {
+  const publicKey = getEnv('VAPID_PUBLIC_KEY');
+  const privateKey = getEnv('VAPID_PRIVATE_KEY');
+  if (!publicKey || !privateKey) return null;
+  return {
+    publicKey,
+    privateKey,
+    subject: getEnv('VAPID_SUBJECT') || 'mailto:alerts@molitico.com',
+  };
+}
+
+// ============================================================================
+// VAPID
+// ============================================================================
+
+async function importVapidPrivateKey(vapid: VapidConfig): Promise<CryptoKey> {
+  const publicBytes = base64UrlDecode(vapid.publicKey);
+  if (publicBytes.length !== 65 || publicBytes[0] !== 0x04) {
+    throw new Error('VAPID_PUBLIC_KEY must be an uncompressed P-256 point');
+  }
+  return crypto.subtle.importKey(
+    'jwk',
+    {
+      kty: 'EC',
+      crv: 'P-256',
+      x: base64UrlEncode(publicBytes.slice(1, 33)),
+      y: base64UrlEncode(publicBytes.slice(33, 65)),
+      d: vapid.privateKey,
+      ext: true,
+    },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign']
+  );
+}
+
+/** ES256 JWT for the push service origin (`aud`); `now` is in seconds */
+export async function createVapidJwt(
+  audience: string,
+  vapid: VapidConfig,
+  now = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = base64UrlEncode(encoder.encode(JSON.stringify({
+    aud: audience,
+    exp: now + JWT_LIFETIME_SECONDS,
+    sub: vapid.subject,
+  })));
+  const unsigned = `${header}.${claims}`;
+
+  const key = await importVapidPrivateKey(vapid);
+  // WebCrypto returns the raw r||s form JWS expects
+  const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, encoder.encode(unsigned));
+  return `${unsigned}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// ============================================================================
+// Payload encryption (aes128gcm)
+// ============================================================================
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+/**
+ * Derives the content key and nonce shared by sender and receiver. Exported so
+ * tests can decrypt with the user agent's private key.
+ */
+export async function deriveContentKeys(
+  ecdhSecret: Uint8Array,
+  authSecret: Uint8Array,
+  uaPublic: Uint8Array,
+  asPublic: Uint8Array,
+  salt: Uint8Array
+): Promise<{ cek: Uint8Array; nonce: Uint8Array }> {
+  const keyInfo = concat(encoder.encode('WebPush: info\0'), uaPublic, asPublic);
+  const ikm = await hkdf(authSecret, ecdhSecret, keyInfo, 32);
+  const cek = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+  return { cek, nonce };
+}
+
+/**
+ * Encrypts one payload into a single aes128gcm record addressed to the
+ * subscription. `fixed` pins the salt and ephemeral key for test vectors.
+ */
+export async function encryptPushPayload(
+  subscription: Pick<PushSubscriptionKeys, 'p256dh' | 'auth'>,
+  payload: string,
+  fixed?: { salt: Uint8Array; keyPair: CryptoKeyPair }
+): Promise<Uint8Array> {
+  const uaPublic = base64UrlDecode(subscription.p256dh);
+  const authSecret = base64UrlDecode(subscription.auth);
+
+  const uaKey = await crypto.subtle.importKey('raw', uaPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const asKeys = fixed?.keyPair
+    ?? await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+  const asPublic = new Uint8Array(await crypto.subtle.exportKey('raw', asKeys.publicKey));
+  const ecdhSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'ECDH', public: uaKey }, asKeys.privateKey, 256)
+  );
+
+  const salt = fixed?.salt ?? crypto.getRandomValues(new Uint8Array(16));
+  const { cek, nonce } = await deriveContentKeys(ecdhSecret, authSecret, uaPublic, asPublic, salt);
+
+  // 0x02 delimits the last (only) record
+  const plaintext = concat(encoder.encode(payload), new Uint8Array([0x02]));
+  if (plaintext.length + 16 > RECORD_SIZE) {
+    throw new Error('Push payload too large');
+  }
+  const aesKey = await crypto.subtle.importKey('raw', cek, 'AES-GCM', false, ['encrypt']);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, aesKey, plaintext));
+
+  // Header: salt(16) | record size(4) | key id length(1) | key id (our public key)
+  const header = new Uint8Array(16 + 4 + 1);
+  header.set(salt, 0);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = asPublic.length;
+  return concat(header, asPublic, ciphertext);
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+export async function sendWebPush(
+  subscription: PushSubscriptionKeys,
+  payload: string,
+  vapid: VapidConfig,
+  options: WebPushOptions = {}
+): Promise<WebPushResult> {
+  const fetchFn = options.fetch || fetch;
+
+  try {
+    const audience = new URL(subscription.endpoint).origin;
+    const jwt = await createVapidJwt(audience, vapid);
+    const body = await encryptPushPayload(subscription, payload);
+
+    const headers: Record<string, string> = {
+      'Authorization': `vapid t=${jwt}, k=${vapid.publicKey}`,
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      'TTL': String(options.ttl ?? DEFAULT_TTL_SECONDS),
+      'Urgency': options.urgency || 'normal',
+    };
+    if (options.topic) headers['Topic'] = options.topic;
+
+    const response = await fetchFn(subscription.endpoint, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(10000),
+    });
+
+    if (response.ok) {
+      await response.body?.cancel();
+      return { ok: true, status: response.status, gone: false };
+    }
+
+    const errorText = await response.text().catch(() => '');
+    return {
+      ok: false,
+      status: response.status,
+      gone: response.status === 404 || response.status === 410,
+      error: errorText.slice(0, 500) || `HTTP ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      status: 0,
+      gone: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
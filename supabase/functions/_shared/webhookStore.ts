@@ -0,0 +1,78 @@
+/**
+ * Emits outbound webhook events from producer functions (see webhooks.ts for
+ * the envelope and signing, send-webhook for delivery).
+ *
+ * Producers call emitWebhookEvents once their own rows are written. It skips
+ * send-webhook entirely when no active webhook subscribes to the event type,
+ * and never throws: a failed emit is logged and the producer carries on.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { WebhookEventType } from "./webhooks.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+type EdgeRuntimeGlobal = { EdgeRuntime?: { waitUntil(promise: Promise<unknown>): void } };
+
+export interface PendingWebhookEvent {
+  /** Derive from the source row so a re-run producer sends the same id */
+  id?: string;
+  organizationId?: string | null;
+  data: Record<string, unknown>;
+}
+
+async function hasSubscribers(supabase: SupabaseClient, type: WebhookEventType): Promise<boolean> {
+  const { count, error } = await supabase
+    .from('webhook_configs')
+    .select('id', { count: 'exact', head: true })
+    .eq('is_active', true)
+    .contains('event_types', [type]);
+  if (error) {
+    console.error(`[webhooks] Failed to check subscribers for ${type}:`, error.message);
+    return false;
+  }
+  return (count ?? 0) > 0;
+}
+
+/** Sends each event through send-webhook; returns how many were accepted */
+export async function emitWebhookEvents(
+  supabase: SupabaseClient,
+  type: WebhookEventType,
+  events: PendingWebhookEvent[]
+): Promise<number> {
+  if (events.length === 0 || !(await hasSubscribers(supabase, type))) return 0;
+
+  let emitted = 0;
+  for (const event of events) {
+    try {
+      const { error } = await supabase.functions.invoke('send-webhook', {
+        body: {
+          event_type: type,
+          event_id: event.id,
+          organization_id: event.organizationId ?? null,
+          payload: event.data,
+        },
+      });
+      if (error) throw error;
+      emitted++;
+    } catch (error) {
+      console.error(`[webhooks] Failed to emit ${type}${event.id ? ` ${event.id}` : ''}:`, error);
+    }
+  }
+
+  if (emitted > 0) console.log(`[webhooks] Emitted ${emitted}/${events.length} ${type} events`);
+  return emitted;
+}
+
+/**
+ * emitWebhookEvents without holding up the caller's response; the edge
+ * runtime keeps the worker alive until the emit settles.
+ */
+export function emitWebhookEventsInBackground(
+  supabase: SupabaseClient,
+  type: WebhookEventType,
+  events: PendingWebhookEvent[]
+): void {
+  if (events.length === 0) return;
+  const emitting = emitWebhookEvents(supabase, type, events);
+  (globalThis as EdgeRuntimeGlobal).EdgeRuntime?.waitUntil(emitting);
+}
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for outbound webhook signing and retry scheduling
+ *
+ * Run with: deno test supabase/functions/_shared/webhooks.test.ts
+ */
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+
+import {
+  WEBHOOK_MAX_ATTEMPTS,
+  buildWebhookEvent,
+  buildWebhookHeaders,
+  isWebhookEventType,
+  planDeliveryOutcome,
+  retryDelaySeconds,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "./webhooks.ts";
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+Deno.test("signWebhookPayload signs timestamp.body with HMAC-SHA256", async () => {
+  // echo -n '1700000000.{"a":1}' | openssl dgst -sha256 -hmac secret
+  const signature = await signWebhookPayload('secret', 1700000000, '{"a":1}');
+  assertEquals(signature, 'sha256=49f24e537407743fa4a0242bb63b94b9a47ee99cbbe071ccd8a22550ae411686');
+  assertEquals(await signWebhookPayload('secret', 1700000001, '{"a":1}') === signature, false);
+});
+
+Deno.test("verifyWebhookSignature accepts fresh signatures and rejects tampering or replays", async () => {
+  const body = '{"id":"evt_1"}';
+  const signature = await signWebhookPayload('secret', 1000, body);
+
+  assertEquals(await verifyWebhookSignature('secret', signature, '1000', body, 1060), true);
+  assertEquals(await verifyWebhookSignature('secret', signature, '1000', '{"id":"evt_2"}', 1060), false);
+  assertEquals(await verifyWebhookSignature('other', signature, '1000', body, 1060), false);
+  assertEquals(await verifyWebhookSignature('secret', signature, '1000', body, 1000 + 301), false);
+  assertEquals(await verifyWebhookSignature('secret', null, '1000', body, 1000), false);
+});
+
+Deno.test("buildWebhookHeaders signs only when a secret is configured and never sends it", async () => {
+  const signed = await buildWebhookHeaders({
+    deliveryId: 'd1',
+    eventType: 'alert.created',
+    body: '{}',
+    secret: 'secret',
+    customHeaders: { 'X-Team': 'ops' },
+    now: 1000,
+  });
+  assertEquals(signed['X-Webhook-Timestamp'], '1000');
+  assertEquals(signed['X-Webhook-Signature'], await signWebhookPayload('secret', 1000, '{}'));
+  assertEquals(signed['X-Team'], 'ops');
+  assertEquals(Object.values(signed).includes('secret'), false);
+
+  const unsigned = await buildWebhookHeaders({ deliveryId: 'd1', eventType: 'alert.created', body: '{}', secret: null });
+  assertEquals('X-Webhook-Signature' in unsigned, false);
+});
+
+// ============================================================================
+// Event schema
+// ============================================================================
+
+Deno.test("buildWebhookEvent wraps data in a versioned envelope", () => {
+  const event = buildWebhookEvent('donation.created', { amount: 25 }, {
+    id: 'evt_1',
+    organizationId: 'org-1',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  });
+  assertEquals(event, {
+    id: 'evt_1',
+    type: 'donation.created',
+    version: 1,
+    created_at: '2026-01-01T00:00:00.000Z',
+    organization_id: 'org-1',
+    data: { amount: 25 },
+  });
+  assertEquals(isWebhookEventType('trend.detected'), true);
+  assertEquals(isWebhookEventType('critical_alert'), false);
+});
+
+// ============================================================================
+// Retry schedule
+// ============================================================================
+
+Deno.test("retryDelaySeconds backs off exponentially with a cap", () => {
+  assertEquals([1, 2, 3, 4].map(retryDelaySeconds), [60, 120, 240, 480]);
+  assertEquals(retryDelaySeconds(20), 6 * 60 * 60);
+});
+
+Deno.test("planDeliveryOutcome retries transient failures and dead-letters the rest", () => {
+  const now = new Date('2026-01-01T00:00:00Z');
+
+  assertEquals(planDeliveryOutcome(1, 200, now).status, 'success');
+  assertEquals(planDeliveryOutcome(1, 503, now), {
+    status: 'retrying',
+    nextAttemptAt: '2026-01-01T00:01:00.000Z',
+    deadLettered: false,
+  });
+  assertEquals(planDeliveryOutcome(3, 0, now).nextAttemptAt, '2026-01-01T00:04:00.000Z');
+  assertEquals(planDeliveryOutcome(1, 404, now).status, 'dead_letter');
+  assertEquals(planDeliveryOutcome(WEBHOOK_MAX_ATTEMPTS, 429, now).status, 'dead_letter');
+});
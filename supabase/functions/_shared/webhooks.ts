@@ -0,0 +1,192 @@
+/**
+ * Outbound webhook helpers for send-webhook.
+ *
+ * - Versioned JSON event envelope that subscribers can rely on
+ * - HMAC-SHA256 signing over `${timestamp}.${body}` (same sha256=<hex> format
+ *   we verify on inbound ActBlue webhooks), plus a verifier for subscribers
+ * - Retry schedule: exponential backoff, then the dead-letter queue
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const WEBHOOK_ID_HEADER = 'X-Webhook-Id';
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+
+/** Attempts (including the first) before a delivery is dead-lettered */
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+const RETRY_BASE_SECONDS = 60;
+const RETRY_MAX_SECONDS = 6 * 60 * 60;
+
+// Subscribers should reject signatures older than this to block replays
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// ============================================================================
+// Event schema
+// ============================================================================
+
+/**
+ * Current schema version per event type. Bump a type's version when its `data`
+ * shape changes incompatibly; subscribers branch on `type` + `version`.
+ */
+export const WEBHOOK_EVENT_VERSIONS = {
+  'alert.created': 1,
+  'briefing.published': 1,
+  'donation.created': 1,
+  'trend.detected': 1,
+} as const;
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENT_VERSIONS;
+
+export interface WebhookEvent<T = Record<string, unknown>> {
+  /** Stable across retries and replays; subscribers dedupe on it */
+  id: string;
+  type: WebhookEventType;
+  version: number;
+  created_at: string;
+  organization_id: string | null;
+  data: T;
+}
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(WEBHOOK_EVENT_VERSIONS, value);
+}
+
+export function buildWebhookEvent<T>(
+  type: WebhookEventType,
+  data: T,
+  options: { id?: string; organizationId?: string | null; createdAt?: Date } = {}
+): WebhookEvent<T> {
+  return {
+    id: options.id || crypto.randomUUID(),
+    type,
+    version: WEBHOOK_EVENT_VERSIONS[type],
+    created_at: (options.createdAt || new Date()).toISOString(),
+    organization_id: options.organizationId ?? null,
+    data,
+  };
+}
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/** Returns the header value, "sha256=<hex>" */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  return `sha256=${await hmacHex(secret, `${timestamp}.${body}`)}`;
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let result = 0;
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return result === 0;
+}
+
+/**
+ * Subscriber-side check: signature matches and the timestamp is recent.
+ * `now` is in seconds.
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  signatureHeader: string | null,
+  timestampHeader: string | null,
+  body: string,
+  now = Math.floor(Date.now() / 1000),
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS
+): Promise<boolean> {
+  const timestamp = Number(timestampHeader);
+  if (!signatureHeader || !Number.isFinite(timestamp)) return false;
+  if (Math.abs(now - timestamp) > toleranceSeconds) return false;
+
+  const expected = await signWebhookPayload(secret, timestamp, body);
+  return constantTimeEqual(signatureHeader, expected);
+}
+
+/** Headers for one delivery attempt; the timestamp is fresh per attempt */
+export async function buildWebhookHeaders(options: {
+  deliveryId: string;
+  eventType: string;
+  body: string;
+  secret: string | null;
+  customHeaders?: Record<string, string> | null;
+  now?: number;
+}): Promise<Record<string, string>> {
+  const timestamp = options.now ?? Math.floor(Date.now() / 1000);
+  const headers: Record<string, string> = {
+    ...(options.customHeaders || {}),
+    'Content-Type': 'application/json',
+    [WEBHOOK_ID_HEADER]: options.deliveryId,
+    [WEBHOOK_EVENT_HEADER]: options.eventType,
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+  };
+
+  if (options.secret) {
+    headers[WEBHOOK_SIGNATURE_HEADER] = await signWebhookPayload(options.secret, timestamp, options.body);
+  }
+  return headers;
+}
+
+// ============================================================================
+// Retry schedule
+// ============================================================================
+
+/** Seconds to wait after the given (1-based) failed attempt: 1m, 2m, 4m ... capped at 6h */
+export function retryDelaySeconds(attempt: number): number {
+  return Math.min(RETRY_BASE_SECONDS * Math.pow(2, Math.max(0, attempt - 1)), RETRY_MAX_SECONDS);
+}
+
+/**
+ * Network errors (status 0), timeouts, 429 and 5xx are worth retrying. Other
+ * 4xx mean the subscriber rejected the payload and go straight to dead-letter.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 0 || status === 408 || status === 429 || status >= 500;
+}
+
+export type DeliveryStatus = 'pending' | 'success' | 'retrying' | 'dead_letter';
+
+export interface DeliveryOutcome {
+  status: DeliveryStatus;
+  nextAttemptAt: string | null;
+  deadLettered: boolean;
+}
+
+/** Where a delivery goes after its `attempts`-th attempt returned `responseStatus` */
+export function planDeliveryOutcome(
+  attempts: number,
+  responseStatus: number,
+  now = new Date(),
+  maxAttempts = WEBHOOK_MAX_ATTEMPTS
+): DeliveryOutcome {
+  if (responseStatus >= 200 && responseStatus < 300) {
+    return { status: 'success', nextAttemptAt: null, deadLettered: false };
+  }
+
+  if (!isRetryableStatus(responseStatus) || attempts >= maxAttempts) {
+    return { status: 'dead_letter', nextAttemptAt: null, deadLettered: true };
+  }
+
+  return {
+    status: 'retrying',
+    nextAttemptAt: new Date(now.getTime() + retryDelaySeconds(attempts) * 1000).toISOString(),
+    deadLettered: false,
+  };
+}
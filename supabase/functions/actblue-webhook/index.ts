@@ -8,6 +8,15 @@ import {
   getMatchQualityLabel,
 } from "../_shared/capi-utils.ts";
 import { normalizeActBlueTimestamp } from "../_shared/actblue-timezone.ts";
+import { gclidFromRefcode2 } from "../_shared/googleAds.ts";
+import {
+  EntityRoute,
+  NormalizedLineitem,
+  getContributionKey,
+  normalizeLineitems,
+  routeLineitemsByEntity,
+} from "../_shared/actblueLineitems.ts";
+import { emitWebhookEventsInBackground, type PendingWebhookEvent } from "../_shared/webhookStore.ts";
 
 // SECURITY: Restrict CORS to known origins
 const ALLOWED_ORIGINS = Deno.env.get('ALLOWED_ORIGINS')?.split(',') || [];
@@ -110,6 +119,51 @@ function validateBasicAuth(
   }
 }
 
+/**
+ * Hybrid auth for one organization's credentials.
+ * Tries HMAC first (preferred), then Basic Auth, then the legacy allow_unauthenticated flag.
+ * @returns the auth method that succeeded, or null if the request is not authenticated
+ */
+async function authenticateWebhook(
+  credentials: Record<string, any>,
+  signatureHeader: string | null,
+  authHeader: string | null,
+  requestBody: string
+): Promise<string | null> {
+  // Option 1: HMAC Signature (most secure)
+  const webhookSecret = credentials?.webhook_secret;
+  if (signatureHeader && webhookSecret && webhookSecret !== 'false' && webhookSecret !== false) {
+    if (await validateHmacSignature(signatureHeader, requestBody, webhookSecret)) {
+      console.log('[ACTBLUE] Authenticated via HMAC signature');
+      return 'hmac';
+    }
+    console.warn('[ACTBLUE] HMAC signature validation failed');
+  }
+
+  // Option 2: Basic Auth (fallback for ActBlue's default configuration)
+  if (authHeader) {
+    const basicUsername = credentials?.basic_auth_username;
+    const basicPassword = credentials?.basic_auth_password;
+
+    if (basicUsername && basicPassword) {
+      if (validateBasicAuth(authHeader, basicUsername, basicPassword)) {
+        console.log('[ACTBLUE] Authenticated via Basic Auth');
+        return 'basic';
+      }
+      console.warn('[ACTBLUE] Basic Auth validation failed');
+    }
+  }
+
+  // Option 3: No auth configured but webhook is being received (legacy support)
+  // Only allow if explicitly enabled via allow_unauthenticated flag
+  if (credentials?.allow_unauthenticated === true) {
+    console.warn('[ACTBLUE] Processing UNAUTHENTICATED webhook (not recommended!)');
+    return 'unauthenticated';
+  }
+
+  return null;
+}
+
 // Helper to safely extract values from any type
 const safeString = (val: any): string | null => {
   if (val === null || val === undefined) return null;
@@ -207,13 +261,27 @@ serve(async (req) => {
       );
     }
 
-    // SECURITY: Find organization by entity_id
-    const lineitem = parsedPayload.lineitems[0];
-    const entityId = safeString(lineitem.entityId);
-    
-    console.log('[ACTBLUE] Processing lineitem with entityId:', entityId);
-    
-    // Fetch ALL ActBlue credentials to find matching org by entity_id
+    // Normalize ALL lineitems - split contributions carry one lineitem per recipient entity
+    const rawLineitemCount = parsedPayload.lineitems.length;
+    const { lineitems, invalid: invalidLineitems } = normalizeLineitems(parsedPayload.lineitems);
+
+    if (invalidLineitems.length > 0) {
+      console.warn('[ACTBLUE] Skipping lineitems without amount or lineitemId:', invalidLineitems.length);
+    }
+
+    if (lineitems.length === 0) {
+      console.error('[ACTBLUE] Missing required fields: amount or lineitemId on every lineitem');
+      await updateWebhookLog(supabase, webhookLogId, 'failed', null, 'Missing amount or lineitemId');
+      return new Response(
+        JSON.stringify({ error: 'Missing required amount or lineitemId' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const entityIds = lineitems.map(l => l.entityId);
+    console.log('[ACTBLUE] Processing', lineitems.length, 'lineitem(s) with entityIds:', entityIds);
+
+    // Fetch ALL ActBlue credentials to find matching orgs by entity_id
     const { data: credData, error: credError } = await supabase
       .from('client_api_credentials')
       .select('organization_id, encrypted_credentials')
@@ -229,72 +297,45 @@ serve(async (req) => {
       );
     }
 
-    // Find organization by entity_id
-    let matchingCred = credData.find((cred: any) => {
-      const credentials = cred.encrypted_credentials as any;
-      return credentials?.entity_id === entityId;
-    });
+    // SECURITY: Route each lineitem to the organization that owns its entity_id.
+    // Lineitems for entities we don't manage are ignored, never attributed elsewhere.
+    const { routes, unrouted } = routeLineitemsByEntity(lineitems, credData);
 
-    if (!matchingCred) {
+    if (unrouted.length > 0) {
+      console.warn('[ACTBLUE] Ignoring lineitems for unmanaged entities:', unrouted.map(l => l.entityId));
+    }
+
+    if (routes.length === 0) {
       const storedEntityIds = credData.map((c: any) => c.encrypted_credentials?.entity_id);
-      console.error('[SECURITY] No organization matches entityId:', entityId, 'Stored:', storedEntityIds);
-      await updateWebhookLog(supabase, webhookLogId, 'failed', null, `No org for entity_id: ${entityId}`);
+      console.error('[SECURITY] No organization matches entityIds:', entityIds, 'Stored:', storedEntityIds);
+      await updateWebhookLog(supabase, webhookLogId, 'failed', null, `No org for entity_id: ${entityIds.join(', ')}`);
       return new Response(
         JSON.stringify({ error: 'Organization not found for entity_id' }),
         { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const organization_id = matchingCred.organization_id;
-    const credentials = matchingCred.encrypted_credentials as any;
-
     // ============= HYBRID AUTH VALIDATION =============
-    // Try HMAC first (preferred), fall back to Basic Auth
-    let isAuthenticated = false;
-    let authMethod = 'none';
-
-    // Option 1: HMAC Signature (most secure)
-    const webhookSecret = credentials?.webhook_secret;
-    if (signatureHeader && webhookSecret && webhookSecret !== 'false' && webhookSecret !== false) {
-      isAuthenticated = await validateHmacSignature(signatureHeader, requestBody, webhookSecret);
-      if (isAuthenticated) {
-        authMethod = 'hmac';
-        console.log('[ACTBLUE] Authenticated via HMAC signature');
+    // Each organization's lineitems are only stored if the request authenticates
+    // against THAT organization's credentials (a split gift may reach several orgs)
+    const authenticatedRoutes: Array<EntityRoute & { authMethod: string }> = [];
+    const rejectedOrganizations: string[] = [];
+
+    for (const route of routes) {
+      const routeAuthMethod = await authenticateWebhook(route.credentials, signatureHeader, authHeader, requestBody);
+      if (routeAuthMethod) {
+        authenticatedRoutes.push({ ...route, authMethod: routeAuthMethod });
       } else {
-        console.warn('[ACTBLUE] HMAC signature validation failed');
-      }
-    }
-
-    // Option 2: Basic Auth (fallback for ActBlue's default configuration)
-    if (!isAuthenticated && authHeader) {
-      const basicUsername = credentials?.basic_auth_username;
-      const basicPassword = credentials?.basic_auth_password;
-      
-      if (basicUsername && basicPassword) {
-        isAuthenticated = validateBasicAuth(authHeader, basicUsername, basicPassword);
-        if (isAuthenticated) {
-          authMethod = 'basic';
-          console.log('[ACTBLUE] Authenticated via Basic Auth');
-        } else {
-          console.warn('[ACTBLUE] Basic Auth validation failed');
-        }
+        console.error('[SECURITY] Authentication failed for organization:', route.organizationId);
+        console.error('[SECURITY] HMAC available:', !!route.credentials?.webhook_secret, '| Basic Auth available:', !!(route.credentials?.basic_auth_username));
+        rejectedOrganizations.push(route.organizationId);
       }
     }
 
-    // Option 3: No auth configured but webhook is being received (legacy support)
-    // Only allow if explicitly enabled via allow_unauthenticated flag
-    if (!isAuthenticated && credentials?.allow_unauthenticated === true) {
-      isAuthenticated = true;
-      authMethod = 'unauthenticated';
-      console.warn('[ACTBLUE] Processing UNAUTHENTICATED webhook (not recommended!)');
-    }
-
-    if (!isAuthenticated) {
-      console.error('[SECURITY] Authentication failed for organization:', organization_id);
-      console.error('[SECURITY] HMAC available:', !!webhookSecret, '| Basic Auth available:', !!(credentials?.basic_auth_username));
-      await updateWebhookLog(supabase, webhookLogId, 'failed', organization_id, 'Authentication failed');
+    if (authenticatedRoutes.length === 0) {
+      await updateWebhookLog(supabase, webhookLogId, 'failed', routes[0].organizationId, 'Authentication failed');
       return new Response(
-        JSON.stringify({ 
+        JSON.stringify({
           error: 'Authentication required',
           hint: 'Configure webhook_secret for HMAC or basic_auth_username/password in API credentials'
         }),
@@ -302,53 +343,55 @@ serve(async (req) => {
       );
     }
 
-    console.log(`[ACTBLUE] Authenticated (${authMethod}) for organization:`, organization_id);
+    const authMethod = authenticatedRoutes[0].authMethod;
+    console.log(`[ACTBLUE] Authenticated (${authMethod}) for organizations:`, authenticatedRoutes.map(r => r.organizationId));
 
-    // Determine transaction type
-    let transactionType = 'donation';
+    // ============= SHARED CONTRIBUTION-LEVEL DATA =============
     const contribution = parsedPayload.contribution as any;
-    
-    if (contribution.cancelledAt) {
-      transactionType = 'cancellation';
-    }
-    const firstLineitem = parsedPayload.lineitems[0] as any;
-    if (firstLineitem.refundedAt) {
-      transactionType = 'refund';
-    }
+
+    // Transaction type is per lineitem: one recipient can be refunded while others are not
+    const getTransactionType = (line: NormalizedLineitem): string => {
+      if (line.refundedAt) return 'refund';
+      if (contribution.cancelledAt) return 'cancellation';
+      return 'donation';
+    };
 
     // Extract refcodes
     const refcodes = parsedPayload.contribution.refcodes || {};
-    let refcode = refcodes.refcode || null;
-    
+    const payloadRefcode = refcodes.refcode || null;
+
     // Extract source campaign from refcode
     let sourceCampaign = null;
-    if (refcode) {
-      const lowerRefcode = refcode.toLowerCase();
+    if (payloadRefcode) {
+      const lowerRefcode = payloadRefcode.toLowerCase();
       if (lowerRefcode.includes('meta')) sourceCampaign = 'meta';
       else if (lowerRefcode.includes('sms')) sourceCampaign = 'sms';
       else if (lowerRefcode.includes('email')) sourceCampaign = 'email';
     }
 
     const donor = parsedPayload.donor || {};
-    const donorName = donor.firstname && donor.lastname 
-      ? `${donor.firstname} ${donor.lastname}`.trim() 
+    const donorName = donor.firstname && donor.lastname
+      ? `${donor.firstname} ${donor.lastname}`.trim()
       : null;
     const customFields = contribution.customFields || [];
-    
+
     // Extract fbclid from multiple sources:
     // 1. customFields (direct fbclid field from ActBlue)
     // 2. refcode2 with fb_ prefix (common pattern: fb_IwZXh0bgNhZW0...)
     const customFieldFbclid = getCustomFieldValue(customFields, 'fbclid');
     const customFieldClickId = getCustomFieldValue(customFields, 'click_id');
     const refcode2Value = safeString(refcodes.refcode2);
-    
+
     // Check if refcode2 contains a Facebook click ID (starts with fb_)
     const refcode2Fbclid = refcode2Value?.startsWith('fb_') ? refcode2Value.substring(3) : null;
-    
+
     // Priority: customField fbclid > refcode2 fbclid > customField click_id
     const fbclid = customFieldFbclid || refcode2Fbclid;
     const clickId = customFieldClickId || fbclid;
-    
+
+    // Google click ID: customField gclid > refcode2 with gc_ prefix (set by our redirect)
+    const gclid = getCustomFieldValue(customFields, 'gclid') || gclidFromRefcode2(refcode2Value);
+
     console.log('[ACTBLUE] [DEBUG] Click ID extraction:', {
       customFieldFbclid,
       customFieldClickId,
@@ -356,281 +399,393 @@ serve(async (req) => {
       refcode2Fbclid,
       finalFbclid: fbclid,
       finalClickId: clickId,
+      gclid,
     });
 
     // Recurring state derivation (best-effort with available payload fields)
-    let recurringState: string | null = null;
-    if (transactionType === 'refund') recurringState = 'refunded';
-    else if (transactionType === 'cancellation') recurringState = 'cancelled';
-    else if (contribution.recurringPeriod) recurringState = 'active';
-
-    // Extract data using safe helpers
-    const amount = safeNumber(lineitem.amount);
-    const lineitemId = safeInt(lineitem.lineitemId);
-    // Normalize timestamp to UTC - ActBlue sends Eastern Time without TZ suffix
-    const paidAt = normalizeActBlueTimestamp(lineitem.paidAt) || normalizeActBlueTimestamp(contribution.createdAt) || new Date().toISOString();
-
-    if (amount === null || lineitemId === null) {
-      console.error('[ACTBLUE] Missing required fields: amount or lineitemId', { amount, lineitemId });
-      await updateWebhookLog(supabase, webhookLogId, 'failed', organization_id, 'Missing amount or lineitemId');
-      return new Response(
-        JSON.stringify({ error: 'Missing required amount or lineitemId' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // First, try to look up refcode in refcode_mappings for deterministic attribution
-    let determinedSource = sourceCampaign;
-    let mapping: any = null;
-    if (refcode) {
-      const { data: mappingData } = await supabase
-        .from('refcode_mappings')
-        .select('platform, campaign_id, ad_id, creative_id')
-        .eq('organization_id', organization_id)
-        .eq('refcode', refcode)
-        .maybeSingle();
+    const getRecurringState = (transactionType: string): string | null => {
+      if (transactionType === 'refund') return 'refunded';
+      if (transactionType === 'cancellation') return 'cancelled';
+      if (contribution.recurringPeriod) return 'active';
+      return null;
+    };
+
+    // Normalize timestamps to UTC - ActBlue sends Eastern Time without TZ suffix.
+    // normalizeActBlueTimestamp falls back to now() for empty input, so guard createdAt.
+    const contributionCreatedAt = contribution.createdAt ? normalizeActBlueTimestamp(contribution.createdAt) : null;
+    const getPaidAt = (line: NormalizedLineitem): string =>
+      line.paidAt || contributionCreatedAt || new Date().toISOString();
+
+    // Shared by every lineitem of the contribution (and the CAPI dedupe key)
+    const contributionKey = getContributionKey(contribution, lineitems);
+
+    const storedTransactionIds: string[] = [];
+    const organizationResults: Array<{ organization_id: string; transaction_ids: string[]; amount: number }> = [];
+    const donationEvents: PendingWebhookEvent[] = [];
+
+    for (const route of authenticatedRoutes) {
+      const organization_id = route.organizationId;
+      let refcode = payloadRefcode;
+
+      // First, try to look up refcode in refcode_mappings for deterministic attribution
+      let determinedSource = sourceCampaign;
+      let mapping: any = null;
+      if (refcode) {
+        const { data: mappingData } = await supabase
+          .from('refcode_mappings')
+          .select('platform, campaign_id, ad_id, creative_id')
+          .eq('organization_id', organization_id)
+          .eq('refcode', refcode)
+          .maybeSingle();
 
-      mapping = mappingData;
+        mapping = mappingData;
 
-      if (mapping?.platform) {
-        determinedSource = mapping.platform;
-        console.log(`[ACTBLUE] Found deterministic attribution: refcode "${refcode}" -> platform "${mapping.platform}"`);
+        if (mapping?.platform) {
+          determinedSource = mapping.platform;
+          console.log(`[ACTBLUE] Found deterministic attribution: refcode "${refcode}" -> platform "${mapping.platform}"`);
+        }
       }
-    }
 
-    // Fallback deterministic lookup by click_id/fbclid when refcode is missing or unmapped
-    if (!mapping && (clickId || fbclid)) {
-      const conditions = [];
-      if (clickId) conditions.push(`click_id.eq.${clickId}`);
-      if (fbclid) conditions.push(`fbclid.eq.${fbclid}`);
+      // Fallback deterministic lookup by click_id/fbclid when refcode is missing or unmapped
+      if (!mapping && (clickId || fbclid)) {
+        const conditions = [];
+        if (clickId) conditions.push(`click_id.eq.${clickId}`);
+        if (fbclid) conditions.push(`fbclid.eq.${fbclid}`);
 
-      const { data: clickMapping } = await supabase
-        .from('refcode_mappings')
-        .select('platform, campaign_id, ad_id, creative_id, refcode')
-        .eq('organization_id', organization_id)
-        .or(conditions.join(','))
-        .maybeSingle();
-
-      if (clickMapping) {
-        mapping = clickMapping;
-        determinedSource = clickMapping.platform || 'meta';
-        if (!refcode) {
-          refcode = clickMapping.refcode || clickId || fbclid;
+        const { data: clickMapping } = await supabase
+          .from('refcode_mappings')
+          .select('platform, campaign_id, ad_id, creative_id, refcode')
+          .eq('organization_id', organization_id)
+          .or(conditions.join(','))
+          .maybeSingle();
+
+        if (clickMapping) {
+          mapping = clickMapping;
+          determinedSource = clickMapping.platform || 'meta';
+          if (!refcode) {
+            refcode = clickMapping.refcode || clickId || fbclid;
+          }
+          console.log('[ACTBLUE] Deterministic attribution via click_id/fbclid', { clickId, fbclid });
         }
-        console.log('[ACTBLUE] Deterministic attribution via click_id/fbclid', { clickId, fbclid });
       }
-    }
 
-    // Store transaction data (RLS-compatible with service role)
-    // Now capturing ALL available ActBlue fields for complete analytics
-    const { error: insertError } = await supabase
-      .from('actblue_transactions')
-      .insert({
-        organization_id,
-        transaction_id: String(lineitemId),
-        donor_email: safeString(donor.email),
-        donor_name: donorName,
-        first_name: safeString(donor.firstname),
-        last_name: safeString(donor.lastname),
-        addr1: safeString(donor.addr1),
-        city: safeString(donor.city),
-        state: safeString(donor.state),
-        zip: safeString(donor.zip),
-        country: safeString(donor.country),
-        phone: safeString(donor.phone),
-        employer: safeString(donor.employerData?.employer),
-        occupation: safeString(donor.employerData?.occupation),
-        amount: amount,
-        // Capture fee for net revenue calculation
-        // ActBlue webhooks often don't include feeAmount, so estimate at 3.95% if missing
-        fee: safeNumber(lineitem.feeAmount) ?? (amount ? Math.round(amount * 0.0395 * 100) / 100 : null),
-        // NEW: Payment method details for payment quality analysis
-        payment_method: safeString(contribution.paymentMethod),
-        card_type: safeString(contribution.cardType),
-        // NEW: Smart Boost and Double Down for upsell analysis
-        smart_boost_amount: safeNumber(contribution.smartBoostAmount),
-        double_down: safeBool(contribution.doubleDown),
-        // NEW: Recurring upsell tracking for subscription health
-        recurring_upsell_shown: safeBool(contribution.recurringUpsellShown),
-        recurring_upsell_succeeded: safeBool(contribution.recurringUpsellSucceeded),
-        order_number: safeString(contribution.orderNumber),
-        contribution_form: safeString(contribution.contributionForm),
-        refcode: refcode,
-        refcode2: safeString(refcodes.refcode2),
-        refcode_custom: safeString(refcodes.refcodeCustom),
-        // Deterministic attribution support
-        click_id: clickId,
-        fbclid,
-        source_campaign: determinedSource,
-        ab_test_name: safeString(contribution.abTestName),
-        ab_test_variation: safeString(contribution.abTestVariation),
-        is_mobile: safeBool(contribution.isMobile),
-        is_express: safeBool(contribution.isExpress),
-        text_message_option: safeString(contribution.textMessageOption),
-        lineitem_id: lineitemId,
-        entity_id: safeString(lineitem.entityId),
-        committee_name: safeString(lineitem.committeeName),
-        fec_id: safeString(lineitem.fecId),
-        recurring_period: safeString(contribution.recurringPeriod),
-        recurring_duration: safeInt(contribution.recurringDuration),
-        is_recurring: !!contribution.recurringPeriod && contribution.recurringPeriod !== 'once',
-        recurring_state: recurringState,
-        next_charge_date: null, // placeholder until ActBlue exposes next charge date
-        custom_fields: contribution.customFields || [],
-        transaction_type: transactionType,
-        transaction_date: paidAt,
-      });
+      // Fallback deterministic lookup by gclid against clicks synced from Google Ads
+      if (!mapping && gclid) {
+        const { data: googleClick } = await supabase
+          .from('google_ads_clicks')
+          .select('campaign_id, ad_id')
+          .eq('organization_id', organization_id)
+          .eq('gclid', gclid)
+          .maybeSingle();
+
+        if (googleClick) {
+          // The ad's final-URL refcode, if sync-google-ads found one
+          const { data: adMapping } = googleClick.ad_id
+            ? await supabase
+                .from('refcode_mappings')
+                .select('refcode')
+                .eq('organization_id', organization_id)
+                .eq('platform', 'google')
+                .eq('ad_id', googleClick.ad_id)
+                .limit(1)
+                .maybeSingle()
+            : { data: null };
+
+          mapping = {
+            platform: 'google',
+            campaign_id: googleClick.campaign_id,
+            ad_id: googleClick.ad_id,
+            creative_id: null,
+            refcode: adMapping?.refcode ?? null,
+          };
+          determinedSource = 'google';
+          if (!refcode) {
+            refcode = adMapping?.refcode || null;
+          }
+          console.log('[ACTBLUE] Deterministic attribution via gclid', { campaignId: googleClick.campaign_id, adId: googleClick.ad_id });
+        } else if (!determinedSource) {
+          // Not synced yet, but a gclid still means the click came from Google Ads
+          determinedSource = 'google';
+        }
+      }
+
+      // Store one transaction per lineitem (RLS-compatible with service role)
+      // Now capturing ALL available ActBlue fields for complete analytics
+      const orgTransactionIds: string[] = [];
+      let storedNewLineitem = false;
+      for (const line of route.lineitems) {
+        const transactionType = getTransactionType(line);
+        const transactionId = String(line.lineitemId);
 
-    if (insertError) {
-      if (insertError.code === '23505') {
-        console.log('[ACTBLUE] Transaction already exists, updating:', lineitemId);
-        const { error: updateError } = await supabase
+        const { error: insertError } = await supabase
           .from('actblue_transactions')
-          .update({ transaction_type: transactionType })
-          .eq('transaction_id', String(lineitemId));
+          .insert({
+            organization_id,
+            transaction_id: transactionId,
+            donor_email: safeString(donor.email),
+            donor_name: donorName,
+            first_name: safeString(donor.firstname),
+            last_name: safeString(donor.lastname),
+            addr1: safeString(donor.addr1),
+            city: safeString(donor.city),
+            state: safeString(donor.state),
+            zip: safeString(donor.zip),
+            country: safeString(donor.country),
+            phone: safeString(donor.phone),
+            employer: safeString(donor.employerData?.employer),
+            occupation: safeString(donor.employerData?.occupation),
+            amount: line.amount,
+            // Capture fee for net revenue calculation (estimated at 3.95% when ActBlue omits feeAmount)
+            fee: line.fee,
+            // NEW: Payment method details for payment quality analysis
+            payment_method: safeString(contribution.paymentMethod),
+            card_type: safeString(contribution.cardType),
+            // NEW: Smart Boost and Double Down for upsell analysis
+            smart_boost_amount: safeNumber(contribution.smartBoostAmount),
+            double_down: safeBool(contribution.doubleDown),
+            // NEW: Recurring upsell tracking for subscription health
+            recurring_upsell_shown: safeBool(contribution.recurringUpsellShown),
+            recurring_upsell_succeeded: safeBool(contribution.recurringUpsellSucceeded),
+            order_number: safeString(contribution.orderNumber),
+            contribution_form: safeString(contribution.contributionForm),
+            refcode: refcode,
+            refcode2: safeString(refcodes.refcode2),
+            refcode_custom: safeString(refcodes.refcodeCustom),
+            // Deterministic attribution support
+            click_id: clickId,
+            fbclid,
+            gclid,
+            source_campaign: determinedSource,
+            ab_test_name: safeString(contribution.abTestName),
+            ab_test_variation: safeString(contribution.abTestVariation),
+            is_mobile: safeBool(contribution.isMobile),
+            is_express: safeBool(contribution.isExpress),
+            text_message_option: safeString(contribution.textMessageOption),
+            lineitem_id: line.lineitemId,
+            entity_id: line.entityId,
+            committee_name: line.committeeName,
+            fec_id: line.fecId,
+            split_lineitem_count: rawLineitemCount,
+            recurring_period: safeString(contribution.recurringPeriod),
+            recurring_duration: safeInt(contribution.recurringDuration),
+            is_recurring: !!contribution.recurringPeriod && contribution.recurringPeriod !== 'once',
+            recurring_state: getRecurringState(transactionType),
+            next_charge_date: null, // placeholder until ActBlue exposes next charge date
+            custom_fields: contribution.customFields || [],
+            transaction_type: transactionType,
+            transaction_date: getPaidAt(line),
+          });
+
+        if (insertError) {
+          if (insertError.code === '23505') {
+            // Idempotent reprocessing: ActBlue retries and refund notifications resend the same lineitems
+            console.log('[ACTBLUE] Transaction already exists, updating:', transactionId);
+            const { error: updateError } = await supabase
+              .from('actblue_transactions')
+              .update({
+                transaction_type: transactionType,
+                recurring_state: getRecurringState(transactionType),
+                split_lineitem_count: rawLineitemCount,
+              })
+              .eq('organization_id', organization_id)
+              .eq('transaction_id', transactionId);
 
-        if (updateError) throw updateError;
-      } else {
-        throw insertError;
+            if (updateError) throw updateError;
+          } else {
+            throw insertError;
+          }
+        } else {
+          storedNewLineitem = true;
+        }
+
+        orgTransactionIds.push(transactionId);
       }
-    }
 
-    // Track attribution touchpoint
-    const touchpointRef = refcode || mapping?.refcode || clickId || fbclid;
-    if (donor.email && touchpointRef) {
-      await supabase.from('attribution_touchpoints').insert({
-        organization_id,
-        donor_email: safeString(donor.email),
-        touchpoint_type: determinedSource || 'other',
-        campaign_id: mapping?.campaign_id || safeString(contribution.contributionForm),
-        ad_id: mapping?.ad_id || null,
-        creative_id: mapping?.creative_id || null,
-        utm_source: safeString(refcodes.refcode2),
-        utm_campaign: touchpointRef,
-        refcode: touchpointRef,
-        occurred_at: paidAt,
-        metadata: {
-          ab_test: safeString(contribution.abTestName),
-          ab_variation: safeString(contribution.abTestVariation),
-          is_mobile: safeBool(contribution.isMobile),
-          deterministic_match: !!mapping,
-          click_id: clickId,
-          fbclid: fbclid,
-        },
-      }).then(({ error }) => {
-        if (error) console.error('[ACTBLUE] Error tracking touchpoint:', error);
-      });
+      // Contribution-level events use the earliest lineitem of this organization
+      const paidAt = route.lineitems.map(getPaidAt).sort()[0];
+      const orgAmount = Math.round(route.lineitems.reduce((sum, l) => sum + l.amount, 0) * 100) / 100;
 
-      // Update donor demographics with proper aggregate calculation
-      await supabase.from('donor_demographics')
-        .upsert({
+      // Track attribution touchpoint (once per organization, not per lineitem)
+      const touchpointRef = refcode || mapping?.refcode || clickId || fbclid || gclid;
+      if (donor.email && touchpointRef) {
+        await supabase.from('attribution_touchpoints').insert({
           organization_id,
           donor_email: safeString(donor.email),
-          first_name: safeString(donor.firstname),
-          last_name: safeString(donor.lastname),
-          address: safeString(donor.addr1),
-          city: safeString(donor.city),
-          state: safeString(donor.state),
-          zip: safeString(donor.zip),
-          country: safeString(donor.country),
-          phone: safeString(donor.phone),
-          employer: safeString(donor.employerData?.employer),
-          occupation: safeString(donor.employerData?.occupation),
-          last_donation_date: paidAt,
-        }, {
-          onConflict: 'organization_id,donor_email',
-          ignoreDuplicates: false,
-        })
-        .select()
-        .single()
-        .then(async ({ data, error }) => {
-          if (!error && data) {
-            const { data: txData } = await supabase
-              .from('actblue_transactions')
-              .select('amount, recurring_period, transaction_type, transaction_date')
-              .eq('organization_id', organization_id)
-              .ilike('donor_email', donor.email);
-            
-            if (txData && txData.length > 0) {
-              const donations = txData.filter(t => t.transaction_type === 'donation');
-              const totalDonated = donations.reduce((sum, tx) => sum + (tx.amount || 0), 0);
-              const donationCount = donations.length;
-              const dates = donations.map(t => t.transaction_date).filter(Boolean).sort();
-              // Fixed: recurring if ANY transaction has recurring_period != 'once'
-              const isRecurring = txData.some(tx => 
-                tx.recurring_period && tx.recurring_period !== 'once' && tx.recurring_period !== ''
-              );
-              
-              await supabase.from('donor_demographics')
-                .update({
-                  total_donated: totalDonated,
-                  donation_count: donationCount,
-                  first_donation_date: dates[0] || data.first_donation_date || paidAt,
-                  last_donation_date: dates[dates.length - 1] || paidAt,
-                  is_recurring: isRecurring,
-                })
-                .eq('id', data.id);
+          touchpoint_type: determinedSource || 'other',
+          campaign_id: mapping?.campaign_id || safeString(contribution.contributionForm),
+          ad_id: mapping?.ad_id || null,
+          creative_id: mapping?.creative_id || null,
+          utm_source: safeString(refcodes.refcode2),
+          utm_campaign: touchpointRef,
+          refcode: touchpointRef,
+          occurred_at: paidAt,
+          metadata: {
+            ab_test: safeString(contribution.abTestName),
+            ab_variation: safeString(contribution.abTestVariation),
+            is_mobile: safeBool(contribution.isMobile),
+            deterministic_match: !!mapping,
+            click_id: clickId,
+            fbclid: fbclid,
+            gclid,
+          },
+        }).then(({ error }) => {
+          if (error) console.error('[ACTBLUE] Error tracking touchpoint:', error);
+        });
+
+        // Update donor demographics with proper aggregate calculation
+        await supabase.from('donor_demographics')
+          .upsert({
+            organization_id,
+            donor_email: safeString(donor.email),
+            first_name: safeString(donor.firstname),
+            last_name: safeString(donor.lastname),
+            address: safeString(donor.addr1),
+            city: safeString(donor.city),
+            state: safeString(donor.state),
+            zip: safeString(donor.zip),
+            country: safeString(donor.country),
+            phone: safeString(donor.phone),
+            employer: safeString(donor.employerData?.employer),
+            occupation: safeString(donor.employerData?.occupation),
+            last_donation_date: paidAt,
+          }, {
+            onConflict: 'organization_id,donor_email',
+            ignoreDuplicates: false,
+          })
+          .select()
+          .single()
+          .then(async ({ data, error }) => {
+            if (!error && data) {
+              const { data: txData } = await supabase
+                .from('actblue_transactions')
+                .select('amount, recurring_period, transaction_type, transaction_date')
+                .eq('organization_id', organization_id)
+                .ilike('donor_email', donor.email);
+
+              if (txData && txData.length > 0) {
+                const donations = txData.filter(t => t.transaction_type === 'donation');
+                const totalDonated = donations.reduce((sum, tx) => sum + (tx.amount || 0), 0);
+                const donationCount = donations.length;
+                const dates = donations.map(t => t.transaction_date).filter(Boolean).sort();
+                // Fixed: recurring if ANY transaction has recurring_period != 'once'
+                const isRecurring = txData.some(tx =>
+                  tx.recurring_period && tx.recurring_period !== 'once' && tx.recurring_period !== ''
+                );
+
+                await supabase.from('donor_demographics')
+                  .update({
+                    total_donated: totalDonated,
+                    donation_count: donationCount,
+                    first_donation_date: dates[0] || data.first_donation_date || paidAt,
+                    last_donation_date: dates[dates.length - 1] || paidAt,
+                    is_recurring: isRecurring,
+                  })
+                  .eq('id', data.id);
+              }
             }
-          }
+          });
+      }
+
+      console.log('[ACTBLUE] Transactions stored successfully:', orgTransactionIds, '| Amount:', orgAmount, '| org:', organization_id);
+
+      // === META CAPI OUTBOX ENQUEUE ===
+      // One conversion per organization for the whole contribution: value is the sum of this
+      // org's donated lineitems, deduped on the shared contribution key (non-blocking, non-fatal)
+      const donationLines = route.lineitems.filter(l => getTransactionType(l) === 'donation');
+      const primaryTransactionId = String((donationLines[0] || route.lineitems[0]).lineitemId);
+      console.log('[ACTBLUE] [DEBUG] About to enqueue CAPI event for contribution:', contributionKey, '| org:', organization_id);
+      try {
+        await enqueueCAPIEvent(supabase, {
+          organization_id,
+          transactionId: primaryTransactionId,
+          dedupeId: contributionKey,
+          transactionType: donationLines.length > 0 ? 'donation' : getTransactionType(route.lineitems[0]),
+          donor: {
+            email: safeString(donor.email) || undefined,
+            firstname: safeString(donor.firstname) || undefined,
+            lastname: safeString(donor.lastname) || undefined,
+            phone: safeString(donor.phone) || undefined,
+            city: safeString(donor.city) || undefined,
+            state: safeString(donor.state) || undefined,
+            zip: safeString(donor.zip) || undefined,
+            country: safeString(donor.country) || undefined,
+          },
+          amount: Math.round(donationLines.reduce((sum, l) => sum + l.amount, 0) * 100) / 100,
+          paidAt,
+          refcode,
+          refcode2: refcode2Value,
+          fbclid,
+          clickId,
+          contributionForm: safeString(contribution.contributionForm) || undefined,
         });
-    }
+        console.log('[ACTBLUE] [DEBUG] CAPI enqueue completed successfully for:', contributionKey);
+      } catch (capiError: any) {
+        // Non-fatal: log but don't fail the webhook
+        console.error('[ACTBLUE] [DEBUG] CAPI enqueue FAILED:', capiError?.message || capiError);
+      }
 
-    console.log('[ACTBLUE] Transaction stored successfully:', lineitemId, '| Amount:', amount);
-
-    // === META CAPI OUTBOX ENQUEUE ===
-    // Enqueue conversion event for server-side tracking (non-blocking, non-fatal)
-    console.log('[ACTBLUE] [DEBUG] About to enqueue CAPI event for transaction:', lineitemId, '| org:', organization_id);
-    try {
-      await enqueueCAPIEvent(supabase, {
-        organization_id,
-        transactionId: String(lineitemId),
-        transactionType,
-        donor: {
-          email: safeString(donor.email) || undefined,
-          firstname: safeString(donor.firstname) || undefined,
-          lastname: safeString(donor.lastname) || undefined,
-          phone: safeString(donor.phone) || undefined,
-          city: safeString(donor.city) || undefined,
-          state: safeString(donor.state) || undefined,
-          zip: safeString(donor.zip) || undefined,
-          country: safeString(donor.country) || undefined,
-        },
-        amount,
-        paidAt,
-        refcode,
-        refcode2: refcode2Value,
-        fbclid,
-        clickId,
-        contributionForm: safeString(contribution.contributionForm) || undefined,
+      // donation.created fires once per organization, and not again when ActBlue resends
+      if (storedNewLineitem && donationLines.length > 0) {
+        const donatedAmount = Math.round(donationLines.reduce((sum, l) => sum + l.amount, 0) * 100) / 100;
+        donationEvents.push({
+          id: `donation:${organization_id}:${contributionKey}`,
+          organizationId: organization_id,
+          data: {
+            title: 'New donation',
+            message: `$${donatedAmount.toFixed(2)}${refcode ? ` via ${refcode}` : ''}`,
+            amount: donatedAmount,
+            transaction_ids: donationLines.map(l => String(l.lineitemId)),
+            refcode,
+            source: determinedSource,
+            contribution_form: safeString(contribution.contributionForm),
+            is_recurring: !!contribution.recurringPeriod && contribution.recurringPeriod !== 'once',
+            paid_at: paidAt,
+          },
+        });
+      }
+
+      // Update data freshness tracking
+      await supabase.rpc('update_data_freshness', {
+        p_source: 'actblue_webhook',
+        p_organization_id: organization_id,
+        p_latest_data_timestamp: paidAt,
+        p_sync_status: 'success',
+        p_error: null,
+        p_records_synced: orgTransactionIds.length,
+        p_duration_ms: null,
+      }).then(({ error }) => {
+        if (error) console.error('[ACTBLUE] Error updating freshness:', error);
       });
-      console.log('[ACTBLUE] [DEBUG] CAPI enqueue completed successfully for:', lineitemId);
-    } catch (capiError: any) {
-      // Non-fatal: log but don't fail the webhook
-      console.error('[ACTBLUE] [DEBUG] CAPI enqueue FAILED:', capiError?.message || capiError);
+
+      storedTransactionIds.push(...orgTransactionIds);
+      organizationResults.push({ organization_id, transaction_ids: orgTransactionIds, amount: orgAmount });
     }
 
     // Update webhook log with success
-    await updateWebhookLog(supabase, webhookLogId, 'success', organization_id, null, {
-      transaction_id: String(lineitemId),
-      amount,
+    await updateWebhookLog(supabase, webhookLogId, 'success', authenticatedRoutes[0].organizationId, null, {
+      transaction_id: storedTransactionIds[0],
+      transaction_ids: storedTransactionIds,
+      amount: organizationResults.reduce((sum, r) => sum + r.amount, 0),
       auth_method: authMethod,
+      contribution_key: contributionKey,
+      split_lineitem_count: rawLineitemCount,
+      organizations: organizationResults,
+      unrouted_lineitems: unrouted.map(l => ({ lineitem_id: l.lineitemId, entity_id: l.entityId })),
+      invalid_lineitems: invalidLineitems.length,
+      rejected_organizations: rejectedOrganizations,
     });
 
-    // Update data freshness tracking
-    await supabase.rpc('update_data_freshness', {
-      p_source: 'actblue_webhook',
-      p_organization_id: organization_id,
-      p_latest_data_timestamp: paidAt,
-      p_sync_status: 'success',
-      p_error: null,
-      p_records_synced: 1,
-      p_duration_ms: null,
-    }).then(({ error }) => {
-      if (error) console.error('[ACTBLUE] Error updating freshness:', error);
-    });
-    
+    // Subscribers are notified in the background so ActBlue isn't kept waiting on them
+    emitWebhookEventsInBackground(supabase, 'donation.created', donationEvents);
+
     return new Response(
-      JSON.stringify({ success: true, transaction_id: String(lineitemId), auth_method: authMethod }),
+      JSON.stringify({
+        success: true,
+        transaction_id: storedTransactionIds[0],
+        transaction_ids: storedTransactionIds,
+        organizations: organizationResults.map(r => r.organization_id),
+        auth_method: authMethod,
+      }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
@@ -672,6 +827,8 @@ async function updateWebhookLog(
 interface EnqueueCAPIParams {
   organization_id: string;
   transactionId: string;
+  // Contribution-level key shared by all lineitems of a split gift (defaults to transactionId)
+  dedupeId?: string;
   transactionType: string;
   donor: {
     email?: string;
@@ -699,6 +856,7 @@ async function enqueueCAPIEvent(
   const {
     organization_id,
     transactionId,
+    dedupeId = transactionId,
     transactionType,
     donor,
     amount,
@@ -752,7 +910,7 @@ async function enqueueCAPIEvent(
   }
 
   const eventName = capiConfig.donation_event_name || 'Purchase';
-  const dedupeKey = generateDedupeKey(eventName, organization_id, transactionId);
+  const dedupeKey = generateDedupeKey(eventName, organization_id, dedupeId);
 
   // Generate event_id: For primary mode (non-enrichment), use random UUID since we own conversion tracking
   // Note: Enrichment mode is handled above (early return) - this code only runs for primary mode
@@ -1022,7 +1180,7 @@ async function enqueueCAPIEvent(
     value: amount,
     currency: 'USD',
     content_type: 'donation',
-    order_id: transactionId,
+    order_id: dedupeId,
   };
 
   // Build event source URL
@@ -1,16 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
 import { parseJsonBody, z } from "../_shared/validators.ts";
+import { definePrompt, type Schema } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Use Lovable AI Gateway (faster, cheaper than OpenAI)
-const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-const AI_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1/chat/completions';
-
 const VALID_GROUPS = [
   'muslim_american', 'arab_american', 'jewish_american', 'christian',
   'lgbtq', 'transgender', 'women', 'reproductive_rights',
@@ -28,53 +26,30 @@ const VALID_CATEGORIES = [
 
 const VALID_THREAT_LEVELS = ['critical', 'high', 'medium', 'low'];
 
-// Call Lovable AI Gateway with exponential backoff
-async function callAIWithBackoff(prompt: string, retryCount = 0): Promise<any> {
-  const MAX_RETRIES = 3;
-  const BASE_DELAY = 1000;
-  
-  if (!LOVABLE_API_KEY) {
-    throw new Error('LOVABLE_API_KEY not configured');
-  }
-  
-  try {
-    const response = await fetch(AI_GATEWAY_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [{
-          role: 'user',
-          content: prompt
-        }]
-      })
-    });
+interface ArticleBatchVars {
+  count: number;
+  articles: string;
+}
 
-    if (response.status === 429 || response.status === 402) {
-      const errorType = response.status === 429 ? 'Rate limit' : 'Payment required';
-      throw new Error(`${errorType}: ${response.status}`);
-    }
+const articleBatchPrompt = definePrompt<ArticleBatchVars>({
+  id: 'analyze-articles.batch-classification',
+  version: 3,
+  user: ({ count, articles }) => `Analyze these ${count} news articles. For EACH article, return a JSON object with:
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`AI Gateway error: ${response.status} - ${errorText}`);
-    }
+- article_id: the ID from the article
+- affected_groups: array of impacted groups (use ONLY: muslim_american, arab_american, jewish_american, christian, lgbtq, transgender, women, reproductive_rights, black_american, latino, asian_american, indigenous, immigrants, refugees, asylum_seekers, disability, elderly, youth, veterans, workers, students, general_public)
+- relevance_category: one of (civil_rights, immigration, healthcare, education, housing, employment, criminal_justice, voting_rights, religious_freedom, lgbtq_rights, foreign_policy, climate, economy, other)
+- geographic_scope: national, state, local, or international
+- threat_level: critical, high, medium, or low
+- sentiment_score: -1.0 to 1.0
+- sentiment_label: positive, neutral, or negative
+- ai_summary: 1-2 sentence summary
 
-    return await response.json();
-    
-  } catch (error: any) {
-    if ((error.message?.includes('429') || error.message?.includes('Rate limit')) && retryCount < MAX_RETRIES) {
-      const delay = BASE_DELAY * Math.pow(2, retryCount);
-      console.log(`[analyze-articles] Rate limited. Waiting ${delay}ms before retry ${retryCount + 1}/${MAX_RETRIES}`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return callAIWithBackoff(prompt, retryCount + 1);
-    }
-    throw error;
-  }
-}
+Return a JSON ARRAY with one object per article. Example:
+[{"article_id":"abc123","affected_groups":["immigrants"],"relevance_category":"immigration","geographic_scope":"national","threat_level":"high","sentiment_score":-0.5,"sentiment_label":"negative","ai_summary":"Summary here"}]
+
+${articles}`,
+});
 
 // Semantic hash for better cache hits (title + first 500 chars)
 function semanticHash(title: string, content: string): string {
@@ -166,28 +141,14 @@ function validateAnalysis(analysis: any): { valid: boolean; errors: string[]; co
   return { valid, errors, confidence: Math.max(0, confidence) };
 }
 
-// Parse JSON from AI response
-function extractAnalysisJson(text: string): any[] {
-  const cleaned = text.replace(/```json|```/g, '').trim();
-  
-  // Try to find array first (batch response)
-  const arrayMatch = cleaned.match(/\[[\s\S]*\]/);
-  if (arrayMatch) {
-    try {
-      return JSON.parse(arrayMatch[0]);
-    } catch (_) {}
-  }
-  
-  // Try single object
-  const objMatch = cleaned.match(/\{[\s\S]*\}/);
-  if (objMatch) {
-    try {
-      return [JSON.parse(objMatch[0])];
-    } catch (_) {}
-  }
-  
-  throw new Error('No valid JSON found in response');
-}
+// Batch responses are an array; a lone object means the model answered for one article
+const analysisListSchema: Schema<unknown[]> = {
+  parse(value) {
+    if (Array.isArray(value)) return value;
+    if (value && typeof value === 'object') return [value];
+    throw new Error('No valid JSON found in response');
+  },
+};
 
 // Normalize analysis fields
 function normalizeAnalysis(raw: any) {
@@ -219,6 +180,7 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
+    const llm = createLLMClientForFunction(supabase, 'analyze-articles');
 
     // BATCH SIZE: 5 articles per API call (80% reduction in API calls)
     const BATCH_SIZE = 5;
@@ -300,27 +262,11 @@ Source: ${article.source_name}
 Content: ${content}`;
         }).join('\n\n---\n\n');
 
-        const batchPrompt = `Analyze these ${uncachedArticles.length} news articles. For EACH article, return a JSON object with:
-
-- article_id: the ID from the article
-- affected_groups: array of impacted groups (use ONLY: muslim_american, arab_american, jewish_american, christian, lgbtq, transgender, women, reproductive_rights, black_american, latino, asian_american, indigenous, immigrants, refugees, asylum_seekers, disability, elderly, youth, veterans, workers, students, general_public)
-- relevance_category: one of (civil_rights, immigration, healthcare, education, housing, employment, criminal_justice, voting_rights, religious_freedom, lgbtq_rights, foreign_policy, climate, economy, other)
-- geographic_scope: national, state, local, or international
-- threat_level: critical, high, medium, or low
-- sentiment_score: -1.0 to 1.0
-- sentiment_label: positive, neutral, or negative
-- ai_summary: 1-2 sentence summary
-
-Return a JSON ARRAY with one object per article. Example:
-[{"article_id":"abc123","affected_groups":["immigrants"],"relevance_category":"immigration","geographic_scope":"national","threat_level":"high","sentiment_score":-0.5,"sentiment_label":"negative","ai_summary":"Summary here"}]
-
-${articlePrompts}`;
-
         console.log(`[analyze-articles] Sending batch of ${uncachedArticles.length} articles to AI...`);
-        const aiResponse = await callAIWithBackoff(batchPrompt);
-        
-        const responseText = aiResponse.choices?.[0]?.message?.content || '';
-        const analyses = extractAnalysisJson(responseText);
+        const { data: analyses } = await llm.runJson(articleBatchPrompt, {
+          count: uncachedArticles.length,
+          articles: articlePrompts,
+        }, { schema: analysisListSchema });
 
         // Map analyses back to articles
         for (const article of uncachedArticles) {
@@ -1,16 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { parseJsonBody, z } from "../_shared/validators.ts";
+import { definePrompt, LLMError, type LLMClient } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Use Lovable AI Gateway
-const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-const AI_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1/chat/completions';
-
 const VALID_GROUPS = [
   'muslim_american', 'arab_american', 'lgbtq', 'immigrants', 'refugees',
   'black_american', 'latino_hispanic', 'asian_american', 'indigenous',
@@ -165,18 +163,12 @@ interface BlueSkyPost {
   created_at: string;
 }
 
-// FIXED: Extract proper nouns ONLY, like Twitter trending
-async function analyzePosts(posts: BlueSkyPost[]): Promise<any[]> {
-  if (!LOVABLE_API_KEY) {
-    throw new Error('LOVABLE_API_KEY not configured');
-  }
-
-  const postsText = posts.map((p, i) =>
-    `[${i}] @${p.author_handle}: ${p.text}`
-  ).join('\n\n');
-
-  // CRITICAL FIX: New prompt that extracts proper nouns only, matching extract-trending-topics
-  const prompt = `Analyze these Bluesky posts. Extract ONLY FULL CANONICAL NAMES (proper nouns) - NOT themes or categories.
+// CRITICAL FIX: New prompt that extracts proper nouns only, matching extract-trending-topics
+const properNounPrompt = definePrompt<{ postsText: string }>({
+  id: 'analyze-bluesky-posts.proper-nouns',
+  version: 1,
+  system: 'You extract ONLY proper nouns from social posts - names of people, places, organizations, events. NOT themes, categories, or generic terms. Think: WHO, WHERE, WHAT specific thing.',
+  user: ({ postsText }) => `Analyze these Bluesky posts. Extract ONLY FULL CANONICAL NAMES (proper nouns) - NOT themes or categories.
 
 ${postsText}
 
@@ -218,34 +210,25 @@ VALIDATION RULES for topics:
 - NEVER use last name alone
 
 Return JSON array:
-[{"index": 0, "topics": ["Pete Hegseth", "Pentagon"], "affected_groups": ["veterans"], "relevance_category": "politics", "sentiment": -0.3, "sentiment_label": "negative"}]`;
-
-  const response = await fetch(AI_GATEWAY_URL, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'google/gemini-2.5-flash',
-      messages: [
-        { role: 'system', content: 'You extract ONLY proper nouns from social posts - names of people, places, organizations, events. NOT themes, categories, or generic terms. Think: WHO, WHERE, WHAT specific thing.' },
-        { role: 'user', content: prompt }
-      ]
-    })
-  });
+[{"index": 0, "topics": ["Pete Hegseth", "Pentagon"], "affected_groups": ["veterans"], "relevance_category": "politics", "sentiment": -0.3, "sentiment_label": "negative"}]`,
+});
+
+// FIXED: Extract proper nouns ONLY, like Twitter trending
+async function analyzePosts(llm: LLMClient, posts: BlueSkyPost[]): Promise<any[]> {
+  const postsText = posts.map((p, i) =>
+    `[${i}] @${p.author_handle}: ${p.text}`
+  ).join('\n\n');
 
-  if (!response.ok) {
-    if (response.status === 429) {
+  let analysisText: string;
+  try {
+    ({ content: analysisText } = await llm.run(properNounPrompt, { postsText }));
+  } catch (aiError) {
+    if (aiError instanceof LLMError && aiError.code === 'rate_limited') {
       console.log('⚠️ Rate limit hit');
-      throw new Error('RATE_LIMIT');
     }
-    throw new Error(`AI API error: ${response.status}`);
+    throw aiError;
   }
 
-  const data = await response.json();
-  const analysisText = data.choices[0].message.content;
-
   let analyses;
   try {
     analyses = tryParseJSON(analysisText);
@@ -377,7 +360,7 @@ serve(async (req) => {
       const timeout = new Promise<never>((_, reject) => 
         setTimeout(() => reject(new Error('AI analysis timeout')), 50000)
       );
-      analyses = await Promise.race([analyzePosts(posts), timeout]) as any[];
+      analyses = await Promise.race([analyzePosts(createLLMClientForFunction(supabase, 'analyze-bluesky-posts'), posts), timeout]) as any[];
     } catch (error: any) {
       if (error.message === 'AI analysis timeout') {
         console.log('⏱️ Analysis timed out');
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { definePrompt, LLMError } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -26,6 +28,60 @@ interface MotivationAnalysis {
   tone_primary: string;
 }
 
+interface MotivationVars {
+  adContent: string;
+}
+
+const motivationPrompt = definePrompt<MotivationVars>({
+  id: 'analyze-creative-motivation.donor-motivation',
+  version: 1,
+  temperature: 0.3,
+  maxTokens: 1000,
+  system: 'You are an expert political campaign analyst who understands donor psychology. Identify what SPECIFICALLY motivates donations - exact pain points, values, and emotions, not generic categories. Always respond with valid JSON only.',
+  user: ({ adContent }) => `You are an expert at understanding what motivates political donors to give money.
+
+Analyze this political ad content and extract SPECIFIC insights about donor psychology.
+
+Ad Content:
+"""
+${adContent}
+"""
+
+Focus on extracting:
+
+1. DONOR_PAIN_POINTS: What specific problems, injustices, or threats are highlighted that would compel someone to donate?
+   - Be VERY SPECIFIC (not "foreign policy" but "US military aid enabling civilian deaths in Gaza")
+   - What keeps donors up at night that this ad addresses?
+   - Examples: "AIPAC buying elections", "Bronx families can't afford groceries", "Corrupt politicians ignoring constituents"
+
+2. VALUES_APPEALED: What core values are being triggered?
+   - Examples: justice, community empowerment, anti-establishment, protecting vulnerable, religious duty, solidarity, representation
+
+3. ISSUE_SPECIFICS: What exact policies, events, or situations are mentioned?
+   - Examples: "End US military aid to Israel", "Medicare for All", "Replace AIPAC-backed incumbents"
+
+4. EMOTIONAL_TRIGGERS: What emotions are being activated?
+   - Examples: anger at being ignored, hope for political voice, solidarity with oppressed, pride in community
+
+5. URGENCY_DRIVERS: What creates the sense of "I must act NOW"?
+   - Examples: primary election deadline, matching gift, crisis moment, opponent threat
+
+Also identify:
+- topic_primary: Main topic (Foreign Policy, Healthcare, Economy, Elections, Civil Rights, Immigration, etc.)
+- tone_primary: Overall tone (urgent, hopeful, angry, inspiring, alarming, etc.)
+
+Respond with ONLY valid JSON:
+{
+  "donor_pain_points": ["specific pain point 1", "specific pain point 2"],
+  "values_appealed": ["value 1", "value 2"],
+  "issue_specifics": ["specific issue 1"],
+  "emotional_triggers": ["emotion 1", "emotion 2"],
+  "urgency_drivers": ["urgency reason 1"],
+  "topic_primary": "string",
+  "tone_primary": "string"
+}`,
+});
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -35,6 +91,7 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const llm = createLLMClientForFunction(supabase, 'analyze-creative-motivation');
 
     const { organization_id, batch_size = 20, creative_id, include_transcripts = true } = await req.json();
 
@@ -89,100 +146,19 @@ serve(async (req) => {
           continue;
         }
 
-        const prompt = `You are an expert at understanding what motivates political donors to give money.
-
-Analyze this political ad content and extract SPECIFIC insights about donor psychology.
-
-Ad Content:
-"""
-${adContent.slice(0, 3000)}
-"""
-
-Focus on extracting:
-
-1. DONOR_PAIN_POINTS: What specific problems, injustices, or threats are highlighted that would compel someone to donate?
-   - Be VERY SPECIFIC (not "foreign policy" but "US military aid enabling civilian deaths in Gaza")
-   - What keeps donors up at night that this ad addresses?
-   - Examples: "AIPAC buying elections", "Bronx families can't afford groceries", "Corrupt politicians ignoring constituents"
-
-2. VALUES_APPEALED: What core values are being triggered?
-   - Examples: justice, community empowerment, anti-establishment, protecting vulnerable, religious duty, solidarity, representation
-
-3. ISSUE_SPECIFICS: What exact policies, events, or situations are mentioned?
-   - Examples: "End US military aid to Israel", "Medicare for All", "Replace AIPAC-backed incumbents"
-
-4. EMOTIONAL_TRIGGERS: What emotions are being activated?
-   - Examples: anger at being ignored, hope for political voice, solidarity with oppressed, pride in community
-
-5. URGENCY_DRIVERS: What creates the sense of "I must act NOW"?
-   - Examples: primary election deadline, matching gift, crisis moment, opponent threat
-
-Also identify:
-- topic_primary: Main topic (Foreign Policy, Healthcare, Economy, Elections, Civil Rights, Immigration, etc.)
-- tone_primary: Overall tone (urgent, hopeful, angry, inspiring, alarming, etc.)
-
-Respond with ONLY valid JSON:
-{
-  "donor_pain_points": ["specific pain point 1", "specific pain point 2"],
-  "values_appealed": ["value 1", "value 2"],
-  "issue_specifics": ["specific issue 1"],
-  "emotional_triggers": ["emotion 1", "emotion 2"],
-  "urgency_drivers": ["urgency reason 1"],
-  "topic_primary": "string",
-  "tone_primary": "string"
-}`;
-
-        const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${supabaseKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'google/gemini-2.5-flash',
-            messages: [
-              {
-                role: 'system',
-                content: 'You are an expert political campaign analyst who understands donor psychology. Identify what SPECIFICALLY motivates donations - exact pain points, values, and emotions, not generic categories. Always respond with valid JSON only.'
-              },
-              { role: 'user', content: prompt }
-            ],
-            temperature: 0.3,
-            max_tokens: 1000,
-          }),
-        });
-
-        if (!aiResponse.ok) {
-          const errorText = await aiResponse.text();
-          console.error(`AI API error for creative ${creative.id}:`, errorText);
-          
-          if (aiResponse.status === 429) {
-            console.log('Rate limited, stopping batch processing');
-            break;
-          }
-          errors++;
-          continue;
-        }
-
-        const aiData = await aiResponse.json();
-        const responseText = aiData.choices?.[0]?.message?.content;
-
-        if (!responseText) {
-          console.error(`No response content for creative ${creative.id}`);
-          errors++;
-          continue;
-        }
-
-        // Parse the JSON response
         let analysis: MotivationAnalysis;
         try {
-          const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-          if (!jsonMatch) {
-            throw new Error('No JSON object found in response');
+          ({ data: analysis } = await llm.runJson<MotivationAnalysis, MotivationVars>(
+            motivationPrompt,
+            { adContent: adContent.slice(0, 3000) },
+            { organizationId: creative.organization_id }
+          ));
+        } catch (aiError) {
+          console.error(`AI analysis failed for creative ${creative.id}:`, aiError instanceof Error ? aiError.message : aiError);
+          if (aiError instanceof LLMError && (aiError.code === 'rate_limited' || aiError.code === 'payment_required')) {
+            console.log('AI gateway unavailable, stopping batch processing');
+            break;
           }
-          analysis = JSON.parse(jsonMatch[0]);
-        } catch (parseError) {
-          console.error(`Error parsing AI response for creative ${creative.id}:`, parseError);
           errors++;
           continue;
         }
@@ -6,6 +6,8 @@ import {
   combineConfidenceScores,
   type TopicExtractionResult
 } from '../_shared/topic-validation.ts';
+import { definePrompt, LLMError } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -70,6 +72,91 @@ interface VisualAnalysisResult {
   brand_visibility: string;
 }
 
+interface CreativeTextVars {
+  textContent: string;
+  creativeType: string;
+  hasTranscript: boolean;
+}
+
+const creativeTextPrompt = definePrompt<CreativeTextVars>({
+  id: 'analyze-meta-creatives.text',
+  version: 1,
+  system: 'You are an expert political advertising analyst. Analyze ad creatives and return structured JSON analysis. Be accurate and consistent in your categorizations.',
+  user: ({ textContent, creativeType, hasTranscript }) => `Analyze this Meta (Facebook/Instagram) ad creative and extract SPECIFIC political issues, not generic categories.
+
+CRITICAL: Be VERY SPECIFIC about what the ad is actually about:
+- NOT "foreign policy" but "anti-Israel military aid" or "pro-ceasefire Gaza"
+- NOT "immigration" but "anti-Laken Riley Act pro-immigrant" or "sanctuary city defense"
+- NOT "democracy" but "anti-AIPAC money in politics" or "anti-Ritchie Torres sellout"
+
+Ad Creative Content:
+${textContent}
+
+Creative Type: ${creativeType}
+
+Extract and return ONLY valid JSON:
+
+SPECIFIC ISSUES (most important):
+- issue_primary: The EXACT issue (e.g., "anti-Israel military aid", "pro-immigration anti-deportation")
+- issue_tags: Array of ALL specific issues mentioned
+- political_stances: Stances taken (e.g., ["anti-AIPAC", "pro-ceasefire", "anti-incumbent"])
+- targets_attacked: People/orgs criticized (e.g., ["Ritchie Torres", "AIPAC", "Netanyahu"])
+- targets_supported: People/orgs praised (e.g., ["Michael Blake", "progressive movement"])
+- policy_positions: Specific policies advocated (e.g., ["end military aid to Israel"])
+
+DONOR PSYCHOLOGY:
+- donor_pain_points: What problems would compel donation? Be specific!
+- values_appealed: Core values triggered (e.g., ["justice", "solidarity", "anti-corruption"])
+
+GENERAL (backwards compatible):
+- topic: General category (healthcare, immigration, foreign_policy, elections, civil_rights, economy, other)
+- tone: Emotional tone (urgent, hopeful, angry, compassionate, fearful, inspiring, informative)
+- sentiment_score: -1.0 to 1.0
+- sentiment_label: "positive", "negative", or "neutral"
+- urgency_level: "low", "medium", "high", or "critical"
+- emotional_appeal: Primary appeal (fear, hope, anger, pride, solidarity, outrage)
+- key_themes: Array of 2-5 key themes
+${hasTranscript ? '- verbal_themes: Array of 2-4 themes from spoken audio' : ''}
+
+CONFIDENCE SELF-EVALUATION:
+- confidence_rating: Rate your confidence in this analysis from 1-5:
+  * 5 = very confident, well-structured ad with clear messaging
+  * 4 = confident, clear content with minor ambiguity
+  * 3 = moderately confident, some unclear elements
+  * 2 = low confidence, significant ambiguity
+  * 1 = very low confidence, unclear or confusing content
+
+Return ONLY valid JSON.`,
+});
+
+const creativeVisualPrompt = definePrompt<{ imageUrl: string }>({
+  id: 'analyze-meta-creatives.visual',
+  version: 1,
+  model: 'google/gemini-2.5-pro',
+  system: 'You are an expert at analyzing advertising visuals. Return structured JSON analysis of images.',
+  user: ({ imageUrl }) => [
+    {
+      type: 'text',
+      text: `Analyze this ad creative image and extract visual elements. Return ONLY valid JSON.
+
+Extract:
+1. detected_text: Any text visible in the image (null if none)
+2. color_palette: Array of 3-5 dominant colors (e.g., ["red", "white", "blue"])
+3. has_faces: true if human faces are visible, false otherwise
+4. composition_style: The visual style (e.g., "photo-realistic", "graphic design", "text-heavy", "product-focused", "portrait", "action shot")
+5. visual_elements: Array of 3-5 key visual elements (e.g., ["american flag", "diverse crowd", "donation button"])
+6. brand_visibility: "high", "medium", "low", or "none" - how prominent is branding
+
+Return only valid JSON:
+{"detected_text":"text or null","color_palette":["color1"],"has_faces":false,"composition_style":"style","visual_elements":["element1"],"brand_visibility":"level"}`,
+    },
+    { type: 'image_url', image_url: { url: imageUrl } },
+  ],
+});
+
+// Errors that will fail every remaining creative the same way
+const BATCH_STOPPING_ERRORS = new Set(['not_configured', 'rate_limited', 'payment_required']);
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -78,12 +165,8 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
     const supabase = createClient(supabaseUrl, supabaseKey);
-
-    if (!lovableApiKey) {
-      throw new Error('LOVABLE_API_KEY is not configured');
-    }
+    const llm = createLLMClientForFunction(supabase, 'analyze-meta-creatives');
 
     const { organization_id, batch_size = 15, include_visual_analysis = true } = await req.json();
 
@@ -147,122 +230,51 @@ serve(async (req) => {
 
         // Text analysis if we have text
         if (textContent.trim()) {
-          const analysisPrompt = `Analyze this Meta (Facebook/Instagram) ad creative and extract SPECIFIC political issues, not generic categories.
-
-CRITICAL: Be VERY SPECIFIC about what the ad is actually about:
-- NOT "foreign policy" but "anti-Israel military aid" or "pro-ceasefire Gaza"
-- NOT "immigration" but "anti-Laken Riley Act pro-immigrant" or "sanctuary city defense"
-- NOT "democracy" but "anti-AIPAC money in politics" or "anti-Ritchie Torres sellout"
-
-Ad Creative Content:
-${textContent}
-
-Creative Type: ${creative.creative_type}
-
-Extract and return ONLY valid JSON:
-
-SPECIFIC ISSUES (most important):
-- issue_primary: The EXACT issue (e.g., "anti-Israel military aid", "pro-immigration anti-deportation")
-- issue_tags: Array of ALL specific issues mentioned
-- political_stances: Stances taken (e.g., ["anti-AIPAC", "pro-ceasefire", "anti-incumbent"])
-- targets_attacked: People/orgs criticized (e.g., ["Ritchie Torres", "AIPAC", "Netanyahu"])
-- targets_supported: People/orgs praised (e.g., ["Michael Blake", "progressive movement"])
-- policy_positions: Specific policies advocated (e.g., ["end military aid to Israel"])
-
-DONOR PSYCHOLOGY:
-- donor_pain_points: What problems would compel donation? Be specific!
-- values_appealed: Core values triggered (e.g., ["justice", "solidarity", "anti-corruption"])
-
-GENERAL (backwards compatible):
-- topic: General category (healthcare, immigration, foreign_policy, elections, civil_rights, economy, other)
-- tone: Emotional tone (urgent, hopeful, angry, compassionate, fearful, inspiring, informative)
-- sentiment_score: -1.0 to 1.0
-- sentiment_label: "positive", "negative", or "neutral"
-- urgency_level: "low", "medium", "high", or "critical"
-- emotional_appeal: Primary appeal (fear, hope, anger, pride, solidarity, outrage)
-- key_themes: Array of 2-5 key themes
-${creative.audio_transcript ? '- verbal_themes: Array of 2-4 themes from spoken audio' : ''}
-
-CONFIDENCE SELF-EVALUATION:
-- confidence_rating: Rate your confidence in this analysis from 1-5:
-  * 5 = very confident, well-structured ad with clear messaging
-  * 4 = confident, clear content with minor ambiguity
-  * 3 = moderately confident, some unclear elements
-  * 2 = low confidence, significant ambiguity
-  * 1 = very low confidence, unclear or confusing content
-
-Return ONLY valid JSON.`;
-
-          const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${lovableApiKey}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              model: 'google/gemini-2.5-flash',
-              messages: [
-                { 
-                  role: 'system', 
-                  content: 'You are an expert political advertising analyst. Analyze ad creatives and return structured JSON analysis. Be accurate and consistent in your categorizations.' 
-                },
-                { role: 'user', content: analysisPrompt }
-              ],
-            }),
-          });
-
-          if (!aiResponse.ok) {
-            const errorText = await aiResponse.text();
-            console.error(`AI API error for creative ${creative.id}:`, errorText);
-            
-            if (aiResponse.status === 429 || aiResponse.status === 402) {
-              console.log('Rate limited or payment required, stopping batch');
+          try {
+            ({ data: analysis } = await llm.runJson<AIAnalysisResult, CreativeTextVars>(
+              creativeTextPrompt,
+              { textContent, creativeType: creative.creative_type, hasTranscript: !!creative.audio_transcript },
+              { organizationId: creative.organization_id }
+            ));
+          } catch (aiError) {
+            console.error(`AI error for creative ${creative.id}:`, aiError instanceof Error ? aiError.message : aiError);
+            if (aiError instanceof LLMError && BATCH_STOPPING_ERRORS.has(aiError.code)) {
+              console.log(`${aiError.code}, stopping batch`);
               break;
             }
-            errors++;
-            continue;
+            // Unparseable output still gets the performance scoring below
+            if (!(aiError instanceof LLMError && (aiError.code === 'invalid_json' || aiError.code === 'empty_response'))) {
+              errors++;
+              continue;
+            }
           }
 
-          const aiData = await aiResponse.json();
-          const responseText = aiData.choices?.[0]?.message?.content;
-
-          if (responseText) {
-            try {
-              const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-              if (jsonMatch) {
-                analysis = JSON.parse(jsonMatch[0]);
-
-                // Task 3: Validate topic extraction
-                if (analysis) {
-                  const topicData: TopicExtractionResult = {
-                    issue_primary: analysis.issue_primary || null,
-                    issue_tags: analysis.issue_tags || null,
-                    political_stances: analysis.political_stances || null,
-                    donor_pain_points: analysis.donor_pain_points || null,
-                    policy_positions: analysis.policy_positions || null,
-                    targets_attacked: analysis.targets_attacked || null,
-                    targets_supported: analysis.targets_supported || null,
-                    values_appealed: analysis.values_appealed || null,
-                  };
-
-                  const validation = validateTopicExtraction(topicData);
-
-                  if (!validation.isValid) {
-                    console.warn(`[analyze-meta-creatives] Low coherence for creative ${creative.id}:`, {
-                      creative_id: creative.id,
-                      coherence_score: validation.coherenceScore,
-                      diversity_score: validation.diversityScore,
-                      issues: validation.issues
-                    });
-                  }
-
-                  // Store validation metrics in analysis for later use
-                  (analysis as any).validation = validation;
-                }
-              }
-            } catch (parseError) {
-              console.error(`Error parsing AI response for creative ${creative.id}:`, parseError);
+          // Task 3: Validate topic extraction
+          if (analysis) {
+            const topicData: TopicExtractionResult = {
+              issue_primary: analysis.issue_primary || null,
+              issue_tags: analysis.issue_tags || null,
+              political_stances: analysis.political_stances || null,
+              donor_pain_points: analysis.donor_pain_points || null,
+              policy_positions: analysis.policy_positions || null,
+              targets_attacked: analysis.targets_attacked || null,
+              targets_supported: analysis.targets_supported || null,
+              values_appealed: analysis.values_appealed || null,
+            };
+
+            const validation = validateTopicExtraction(topicData);
+
+            if (!validation.isValid) {
+              console.warn(`[analyze-meta-creatives] Low coherence for creative ${creative.id}:`, {
+                creative_id: creative.id,
+                coherence_score: validation.coherenceScore,
+                diversity_score: validation.diversityScore,
+                issues: validation.issues
+              });
             }
+
+            // Store validation metrics in analysis for later use
+            (analysis as any).validation = validation;
           }
         }
 
@@ -271,62 +283,13 @@ Return ONLY valid JSON.`;
           try {
             console.log(`Performing visual analysis for creative ${creative.id}`);
 
-            const visualPrompt = `Analyze this ad creative image and extract visual elements. Return ONLY valid JSON.
-
-Extract:
-1. detected_text: Any text visible in the image (null if none)
-2. color_palette: Array of 3-5 dominant colors (e.g., ["red", "white", "blue"])
-3. has_faces: true if human faces are visible, false otherwise
-4. composition_style: The visual style (e.g., "photo-realistic", "graphic design", "text-heavy", "product-focused", "portrait", "action shot")
-5. visual_elements: Array of 3-5 key visual elements (e.g., ["american flag", "diverse crowd", "donation button"])
-6. brand_visibility: "high", "medium", "low", or "none" - how prominent is branding
-
-Return only valid JSON:
-{"detected_text":"text or null","color_palette":["color1"],"has_faces":false,"composition_style":"style","visual_elements":["element1"],"brand_visibility":"level"}`;
-
-            const visualResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${lovableApiKey}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                model: 'google/gemini-2.5-pro',
-                messages: [
-                  { 
-                    role: 'system', 
-                    content: 'You are an expert at analyzing advertising visuals. Return structured JSON analysis of images.' 
-                  },
-                  { 
-                    role: 'user', 
-                    content: [
-                      { type: 'text', text: visualPrompt },
-                      { type: 'image_url', image_url: { url: creative.thumbnail_url } }
-                    ]
-                  }
-                ],
-              }),
-            });
-
-            if (visualResponse.ok) {
-              const visualData = await visualResponse.json();
-              const visualText = visualData.choices?.[0]?.message?.content;
-              
-              if (visualText) {
-                try {
-                  const jsonMatch = visualText.match(/\{[\s\S]*\}/);
-                  if (jsonMatch) {
-                    visualAnalysis = JSON.parse(jsonMatch[0]);
-                    visualAnalyzed++;
-                    console.log(`Visual analysis complete for ${creative.id}`);
-                  }
-                } catch (parseError) {
-                  console.error(`Error parsing visual analysis for ${creative.id}:`, parseError);
-                }
-              }
-            } else {
-              console.error(`Visual API error for ${creative.id}:`, await visualResponse.text());
-            }
+            ({ data: visualAnalysis } = await llm.runJson<VisualAnalysisResult, { imageUrl: string }>(
+              creativeVisualPrompt,
+              { imageUrl: creative.thumbnail_url },
+              { organizationId: creative.organization_id }
+            ));
+            visualAnalyzed++;
+            console.log(`Visual analysis complete for ${creative.id}`);
           } catch (visualError) {
             console.error(`Visual analysis error for ${creative.id}:`, visualError);
           }
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { definePrompt, LLMError } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,6 +10,7 @@ const corsHeaders = {
 
 interface SMSCampaign {
   id: string;
+  organization_id: string;
   campaign_name: string;
   message_text: string | null;
 }
@@ -27,6 +30,62 @@ interface AIAnalysisResult {
   urgency_drivers: string[];
 }
 
+const smsMotivationPrompt = definePrompt<{ messageText: string }>({
+  id: 'analyze-sms-campaigns.donor-motivation',
+  version: 1,
+  temperature: 0.3,
+  maxTokens: 1000,
+  system: 'You are an expert political campaign analyst who understands donor psychology. Your job is to identify what SPECIFICALLY motivates people to donate - not generic categories, but the exact pain points, values, and emotions that drive giving behavior. Always respond with valid JSON only.',
+  user: ({ messageText }) => `You are an expert at understanding what motivates political donors to give money.
+
+Analyze this SMS campaign message and extract SPECIFIC insights about donor psychology and motivations.
+
+SMS Message:
+"""
+${messageText}
+"""
+
+Focus on:
+1. DONOR_PAIN_POINTS: What specific problem, injustice, or threat is highlighted that would compel someone to donate?
+   - Be SPECIFIC (not "foreign policy" but "US funding of Israeli military operations killing civilians")
+   - What keeps donors up at night that this message addresses?
+
+2. VALUES_APPEALED: What core values are being triggered to motivate action?
+   - Examples: justice, community empowerment, anti-establishment, protecting vulnerable people, religious duty, patriotism, solidarity
+
+3. ISSUE_SPECIFICS: What exact policy, event, or situation is mentioned?
+   - Examples: "Gaza humanitarian crisis", "AIPAC lobbying influence", "Bronx housing affordability crisis"
+
+4. EMOTIONAL_TRIGGERS: What emotions are being activated to drive the donation?
+   - Examples: anger at corruption, fear of losing rights, hope for change, guilt about inaction, pride in community
+
+5. URGENCY_DRIVERS: What creates the sense of "I need to act NOW"?
+   - Examples: matching gift deadline, crisis moment, upcoming vote, opponent threat, end-of-quarter deadline
+
+Also extract:
+- topic: Primary topic category (Healthcare, Immigration, Elections, Endorsement, Fundraising, Policy, Economy, Environment, Civil Rights, Foreign Policy, Education, Gun Rights, Veterans, Other)
+- topic_summary: 10-20 word summary of the message's main intent
+- tone: Emotional tone (urgent, hopeful, angry, grateful, concerned, inspiring, alarming, celebratory)
+- urgency_level: (low, medium, high, critical)
+- call_to_action: Primary CTA (donate, volunteer, sign petition, vote, share, attend event, contact representative, other)
+- key_themes: 2-4 key themes
+
+Respond ONLY with valid JSON, no markdown:
+{
+  "topic": "string",
+  "topic_summary": "string",
+  "tone": "string",
+  "urgency_level": "string",
+  "call_to_action": "string",
+  "key_themes": ["array"],
+  "donor_pain_points": ["specific pain point 1", "specific pain point 2"],
+  "values_appealed": ["value 1", "value 2"],
+  "issue_specifics": ["specific issue 1"],
+  "emotional_triggers": ["emotion 1", "emotion 2"],
+  "urgency_drivers": ["urgency reason 1"]
+}`,
+});
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -37,6 +96,7 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const llm = createLLMClientForFunction(supabase, 'analyze-sms-campaigns');
 
     // Parse request body
     const { organization_id, batch_size = 10, campaign_id } = await req.json().catch(() => ({}));
@@ -48,14 +108,14 @@ serve(async (req) => {
       // Single campaign mode
       fetchResult = await supabase
         .from('sms_campaigns')
-        .select('id, campaign_name, message_text')
+        .select('id, organization_id, campaign_name, message_text')
         .eq('id', campaign_id)
         .single();
     } else {
       // Batch mode - build query step by step
       let query = supabase
         .from('sms_campaigns')
-        .select('id, campaign_name, message_text')
+        .select('id, organization_id, campaign_name, message_text')
         .is('analyzed_at', null)
         .not('message_text', 'is', null)
         .neq('message_text', '');
@@ -99,105 +159,19 @@ serve(async (req) => {
         // Truncate message text if too long (keep first 2000 chars)
         const messageText = campaign.message_text.slice(0, 2000);
 
-        const prompt = `You are an expert at understanding what motivates political donors to give money.
-
-Analyze this SMS campaign message and extract SPECIFIC insights about donor psychology and motivations.
-
-SMS Message:
-"""
-${messageText}
-"""
-
-Focus on:
-1. DONOR_PAIN_POINTS: What specific problem, injustice, or threat is highlighted that would compel someone to donate?
-   - Be SPECIFIC (not "foreign policy" but "US funding of Israeli military operations killing civilians")
-   - What keeps donors up at night that this message addresses?
-
-2. VALUES_APPEALED: What core values are being triggered to motivate action?
-   - Examples: justice, community empowerment, anti-establishment, protecting vulnerable people, religious duty, patriotism, solidarity
-
-3. ISSUE_SPECIFICS: What exact policy, event, or situation is mentioned?
-   - Examples: "Gaza humanitarian crisis", "AIPAC lobbying influence", "Bronx housing affordability crisis"
-
-4. EMOTIONAL_TRIGGERS: What emotions are being activated to drive the donation?
-   - Examples: anger at corruption, fear of losing rights, hope for change, guilt about inaction, pride in community
-
-5. URGENCY_DRIVERS: What creates the sense of "I need to act NOW"?
-   - Examples: matching gift deadline, crisis moment, upcoming vote, opponent threat, end-of-quarter deadline
-
-Also extract:
-- topic: Primary topic category (Healthcare, Immigration, Elections, Endorsement, Fundraising, Policy, Economy, Environment, Civil Rights, Foreign Policy, Education, Gun Rights, Veterans, Other)
-- topic_summary: 10-20 word summary of the message's main intent
-- tone: Emotional tone (urgent, hopeful, angry, grateful, concerned, inspiring, alarming, celebratory)
-- urgency_level: (low, medium, high, critical)
-- call_to_action: Primary CTA (donate, volunteer, sign petition, vote, share, attend event, contact representative, other)
-- key_themes: 2-4 key themes
-
-Respond ONLY with valid JSON, no markdown:
-{
-  "topic": "string",
-  "topic_summary": "string",
-  "tone": "string",
-  "urgency_level": "string",
-  "call_to_action": "string",
-  "key_themes": ["array"],
-  "donor_pain_points": ["specific pain point 1", "specific pain point 2"],
-  "values_appealed": ["value 1", "value 2"],
-  "issue_specifics": ["specific issue 1"],
-  "emotional_triggers": ["emotion 1", "emotion 2"],
-  "urgency_drivers": ["urgency reason 1"]
-}`;
-
-        // Call Lovable AI gateway
-        const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${supabaseServiceKey}`,
-          },
-          body: JSON.stringify({
-            model: 'google/gemini-2.5-flash',
-            messages: [
-              {
-                role: 'system',
-                content: 'You are an expert political campaign analyst who understands donor psychology. Your job is to identify what SPECIFICALLY motivates people to donate - not generic categories, but the exact pain points, values, and emotions that drive giving behavior. Always respond with valid JSON only.'
-              },
-              {
-                role: 'user',
-                content: prompt
-              }
-            ],
-            temperature: 0.3,
-            max_tokens: 1000,
-          }),
-        });
-
-        if (!aiResponse.ok) {
-          const errorText = await aiResponse.text();
-          console.error('AI API error:', errorText);
-          results.push({ id: campaign.id, success: false, error: `AI API error: ${aiResponse.status}` });
-          continue;
-        }
-
-        const aiData = await aiResponse.json();
-        const content = aiData.choices?.[0]?.message?.content;
-
-        if (!content) {
-          results.push({ id: campaign.id, success: false, error: 'No AI response content' });
-          continue;
-        }
-
-        // Parse JSON from response (handle potential markdown code blocks)
         let analysis: AIAnalysisResult;
         try {
-          const jsonMatch = content.match(/\{[\s\S]*\}/);
-          if (!jsonMatch) {
-            throw new Error('No JSON found in response');
-          }
-          analysis = JSON.parse(jsonMatch[0]);
-        } catch (parseError) {
-          console.error('Failed to parse AI response:', content);
-          results.push({ id: campaign.id, success: false, error: 'Failed to parse AI response' });
+          ({ data: analysis } = await llm.runJson<AIAnalysisResult, { messageText: string }>(
+            smsMotivationPrompt,
+            { messageText },
+            { organizationId: campaign.organization_id }
+          ));
+        } catch (aiError) {
+          console.error('AI error for campaign', campaign.id, aiError);
+          const error = aiError instanceof LLMError && aiError.code === 'invalid_json'
+            ? 'Failed to parse AI response'
+            : `AI API error: ${aiError instanceof Error ? aiError.message : 'Unknown error'}`;
+          results.push({ id: campaign.id, success: false, error });
           continue;
         }
 
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
+import { definePrompt, LLMError } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -28,6 +30,31 @@ interface AIAnalysisResult {
   key_themes: string[];
 }
 
+const smsCreativePrompt = definePrompt<{ messageText: string }>({
+  id: 'analyze-sms-creatives.creative',
+  version: 1,
+  system: 'You are an expert political campaign analyst. Analyze SMS messages and return structured JSON analysis. Be accurate and consistent in your categorizations.',
+  user: ({ messageText }) => `Analyze this SMS fundraising message and extract the following information. Return ONLY a valid JSON object with no additional text.
+
+SMS Message:
+"${messageText}"
+
+Extract:
+1. topic: The main topic/subject (e.g., "healthcare", "immigration", "voting rights", "climate", "education", "fundraising general")
+2. tone: The emotional tone (e.g., "urgent", "emotional", "factual", "grateful", "angry", "hopeful", "fearful", "inspiring")
+3. sentiment_score: A number from -1.0 (very negative) to 1.0 (very positive)
+4. sentiment_label: "positive", "negative", or "neutral"
+5. call_to_action: The main CTA type (e.g., "donate", "sign petition", "share", "vote", "volunteer", "attend event", "contact representative")
+6. urgency_level: "low", "medium", "high", or "critical"
+7. key_themes: Array of 2-4 key themes/keywords in the message
+
+Return only valid JSON in this exact format:
+{"topic":"string","tone":"string","sentiment_score":0.0,"sentiment_label":"string","call_to_action":"string","urgency_level":"string","key_themes":["theme1","theme2"]}`,
+});
+
+// Errors that will fail every remaining creative the same way
+const BATCH_STOPPING_ERRORS = new Set(['not_configured', 'rate_limited', 'payment_required']);
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -36,12 +63,8 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
     const supabase = createClient(supabaseUrl, supabaseKey);
-
-    if (!lovableApiKey) {
-      throw new Error('LOVABLE_API_KEY is not configured');
-    }
+    const llm = createLLMClientForFunction(supabase, 'analyze-sms-creatives');
 
     const { organization_id, batch_size = 20 } = await req.json();
 
@@ -83,74 +106,22 @@ serve(async (req) => {
         console.log(`Analyzing SMS creative ${creative.id}`);
 
         // Call AI to analyze the message
-        const analysisPrompt = `Analyze this SMS fundraising message and extract the following information. Return ONLY a valid JSON object with no additional text.
-
-SMS Message:
-"${creative.message_text}"
-
-Extract:
-1. topic: The main topic/subject (e.g., "healthcare", "immigration", "voting rights", "climate", "education", "fundraising general")
-2. tone: The emotional tone (e.g., "urgent", "emotional", "factual", "grateful", "angry", "hopeful", "fearful", "inspiring")
-3. sentiment_score: A number from -1.0 (very negative) to 1.0 (very positive)
-4. sentiment_label: "positive", "negative", or "neutral"
-5. call_to_action: The main CTA type (e.g., "donate", "sign petition", "share", "vote", "volunteer", "attend event", "contact representative")
-6. urgency_level: "low", "medium", "high", or "critical"
-7. key_themes: Array of 2-4 key themes/keywords in the message
-
-Return only valid JSON in this exact format:
-{"topic":"string","tone":"string","sentiment_score":0.0,"sentiment_label":"string","call_to_action":"string","urgency_level":"string","key_themes":["theme1","theme2"]}`;
-
-        const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${lovableApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'google/gemini-2.5-flash',
-            messages: [
-              { 
-                role: 'system', 
-                content: 'You are an expert political campaign analyst. Analyze SMS messages and return structured JSON analysis. Be accurate and consistent in your categorizations.' 
-              },
-              { role: 'user', content: analysisPrompt }
-            ],
-          }),
-        });
-
-        if (!aiResponse.ok) {
-          const errorText = await aiResponse.text();
-          console.error(`AI API error for creative ${creative.id}:`, errorText);
-          
-          if (aiResponse.status === 429) {
-            console.log('Rate limited, stopping batch processing');
-            break;
-          }
-          errors++;
-          continue;
-        }
-
-        const aiData = await aiResponse.json();
-        const responseText = aiData.choices?.[0]?.message?.content;
-
-        if (!responseText) {
-          console.error(`No response content for creative ${creative.id}`);
-          errors++;
-          continue;
-        }
-
-        // Parse the JSON response
         let analysis: AIAnalysisResult;
+        let model: string;
         try {
-          // Extract JSON from response (handle potential markdown wrapping)
-          const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-          if (!jsonMatch) {
-            throw new Error('No JSON object found in response');
+          const { data, result } = await llm.runJson<AIAnalysisResult, { messageText: string }>(
+            smsCreativePrompt,
+            { messageText: creative.message_text },
+            { organizationId: creative.organization_id }
+          );
+          analysis = data;
+          model = result.model;
+        } catch (aiError) {
+          console.error(`AI error for creative ${creative.id}:`, aiError instanceof Error ? aiError.message : aiError);
+          if (aiError instanceof LLMError && BATCH_STOPPING_ERRORS.has(aiError.code)) {
+            console.log(`${aiError.code}, stopping batch processing`);
+            break;
           }
-          analysis = JSON.parse(jsonMatch[0]);
-        } catch (parseError) {
-          console.error(`Error parsing AI response for creative ${creative.id}:`, parseError);
-          console.error('Raw response:', responseText);
           errors++;
           continue;
         }
@@ -167,7 +138,7 @@ Return only valid JSON in this exact format:
             urgency_level: analysis.urgency_level,
             key_themes: analysis.key_themes,
             analyzed_at: new Date().toISOString(),
-            ai_model_used: 'google/gemini-2.5-flash',
+            ai_model_used: model,
             analysis_confidence: 0.85, // Default confidence for this model
           })
           .eq('id', creative.id);
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
+import { definePrompt, LLMError, type Schema } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -18,6 +20,30 @@ interface SentimentResult {
   confidence: number;
 }
 
+const replySentimentPrompt = definePrompt<{ replies: string }>({
+  id: 'analyze-sms-replies.sentiment',
+  version: 1,
+  system: `You are analyzing SMS replies from donors to a political campaign. For each message, determine:
+1. Sentiment: positive, negative, or neutral
+2. Intent: support (expressing support), question (asking something), complaint (expressing dissatisfaction), opt-out-request (wanting to unsubscribe), thank-you (expressing gratitude), general (other)
+
+Respond in JSON format as an array of objects with "index", "sentiment", and "intent" fields.`,
+  user: ({ replies }) => `Analyze these SMS replies:\n${replies}`,
+});
+
+interface ReplyAnalysis {
+  index: number;
+  sentiment?: string;
+  intent?: string;
+}
+
+const replyAnalysisListSchema: Schema<ReplyAnalysis[]> = {
+  parse(value) {
+    if (!Array.isArray(value)) throw new Error('Expected a JSON array');
+    return value as ReplyAnalysis[];
+  },
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -26,8 +52,6 @@ serve(async (req) => {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
-    
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     // Parse request body
@@ -100,99 +124,37 @@ serve(async (req) => {
     // Analyze sentiment using Lovable AI
     const analyzedResults: Array<{ id: string; sentiment: string; intent: string }> = [];
     
-    if (!lovableApiKey) {
-      console.warn('[SMS SENTIMENT] LOVABLE_API_KEY not configured, using fallback analysis');
+    const batchPrompt = replies.map((r, i) => `[${i}] "${r.reply_text}"`).join('\n');
+    const llm = createLLMClientForFunction(supabase, 'analyze-sms-replies');
+
+    try {
+      const { data: parsed } = await llm.runJson(replySentimentPrompt, { replies: batchPrompt }, {
+        // Batches span orgs unless the caller picked one
+        organizationId: organization_id,
+        schema: replyAnalysisListSchema,
+      });
+      for (const item of parsed) {
+        const reply = replies[item.index];
+        if (reply) {
+          analyzedResults.push({
+            id: reply.id,
+            sentiment: item.sentiment || 'neutral',
+            intent: item.intent || 'general',
+          });
+        }
+      }
+    } catch (aiErr) {
       // Fallback: simple keyword-based analysis
+      if (aiErr instanceof LLMError && aiErr.code === 'not_configured') {
+        console.warn('[SMS SENTIMENT] LOVABLE_API_KEY not configured, using fallback analysis');
+      } else if (aiErr instanceof LLMError && (aiErr.code === 'rate_limited' || aiErr.code === 'payment_required')) {
+        console.warn(`[SMS SENTIMENT] ${aiErr.code}, falling back to keyword analysis`);
+      } else {
+        console.error('[SMS SENTIMENT] AI request failed, using fallback:', aiErr);
+      }
       for (const reply of replies) {
         const result = analyzeWithKeywords(reply.reply_text);
-        analyzedResults.push({
-          id: reply.id,
-          sentiment: result.sentiment,
-          intent: result.intent,
-        });
-      }
-    } else {
-      // Use Lovable AI for analysis
-      const batchPrompt = replies.map((r, i) => `[${i}] "${r.reply_text}"`).join('\n');
-      
-      try {
-        const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${lovableApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'google/gemini-2.5-flash',
-            messages: [
-              {
-                role: 'system',
-                content: `You are analyzing SMS replies from donors to a political campaign. For each message, determine:
-1. Sentiment: positive, negative, or neutral
-2. Intent: support (expressing support), question (asking something), complaint (expressing dissatisfaction), opt-out-request (wanting to unsubscribe), thank-you (expressing gratitude), general (other)
-
-Respond in JSON format as an array of objects with "index", "sentiment", and "intent" fields.`
-              },
-              {
-                role: 'user',
-                content: `Analyze these SMS replies:\n${batchPrompt}`
-              }
-            ],
-          }),
-        });
-
-        if (aiResponse.status === 429) {
-          console.warn('[SMS SENTIMENT] Rate limited, falling back to keyword analysis');
-          for (const reply of replies) {
-            const result = analyzeWithKeywords(reply.reply_text);
-            analyzedResults.push({ id: reply.id, ...result });
-          }
-        } else if (aiResponse.status === 402) {
-          console.warn('[SMS SENTIMENT] Payment required, falling back to keyword analysis');
-          for (const reply of replies) {
-            const result = analyzeWithKeywords(reply.reply_text);
-            analyzedResults.push({ id: reply.id, ...result });
-          }
-        } else if (aiResponse.ok) {
-          const aiData = await aiResponse.json();
-          const content = aiData.choices?.[0]?.message?.content || '';
-          
-          // Parse AI response
-          try {
-            const jsonMatch = content.match(/\[[\s\S]*\]/);
-            if (jsonMatch) {
-              const parsed = JSON.parse(jsonMatch[0]);
-              for (const item of parsed) {
-                const reply = replies[item.index];
-                if (reply) {
-                  analyzedResults.push({
-                    id: reply.id,
-                    sentiment: item.sentiment || 'neutral',
-                    intent: item.intent || 'general',
-                  });
-                }
-              }
-            }
-          } catch (parseErr) {
-            console.error('[SMS SENTIMENT] Failed to parse AI response, using fallback');
-            for (const reply of replies) {
-              const result = analyzeWithKeywords(reply.reply_text);
-              analyzedResults.push({ id: reply.id, ...result });
-            }
-          }
-        } else {
-          console.error('[SMS SENTIMENT] AI API error:', aiResponse.status);
-          for (const reply of replies) {
-            const result = analyzeWithKeywords(reply.reply_text);
-            analyzedResults.push({ id: reply.id, ...result });
-          }
-        }
-      } catch (aiErr) {
-        console.error('[SMS SENTIMENT] AI request failed:', aiErr);
-        for (const reply of replies) {
-          const result = analyzeWithKeywords(reply.reply_text);
-          analyzedResults.push({ id: reply.id, ...result });
-        }
+        analyzedResults.push({ id: reply.id, ...result });
       }
     }
 
@@ -1,11 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, validateCronOrAdmin, checkRateLimit } from "../_shared/security.ts";
+import { definePrompt, isLLMConfigured, LLMError, type LLMClient, type Schema } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
 
 const corsHeaders = getCorsHeaders();
 
-const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-const AI_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1/chat/completions';
+const LLM_CONFIGURED = isLLMConfigured();
 
 // Database-loaded entity aliases for canonicalization
 let dbAliases: Map<string, { canonical_name: string; entity_type: string }> = new Map();
@@ -374,25 +375,12 @@ interface NERResultWithQuality extends NERResult {
   label_quality: 'event_phrase' | 'entity_only' | 'fallback_generated';
 }
 
-/**
- * NER + Keyphrase extraction using AI
- * Returns canonical entities and multi-word event phrases
- * PHASE 2: Prioritizes event phrases as primary labels
- */
-async function extractNERWithAI(items: ContentItem[]): Promise<Map<string, NERResultWithQuality>> {
-  if (!LOVABLE_API_KEY) {
-    throw new Error('LOVABLE_API_KEY not configured');
-  }
-  
-  const results = new Map<string, NERResultWithQuality>();
-  
-  // Batch items (max 20 per request for efficiency)
-  const itemsText = items.slice(0, 20).map((item, i) => 
-    `[${i}] ${item.title}${item.description ? ` - ${item.description.substring(0, 200)}` : ''}`
-  ).join('\n');
-  
-  // PHASE 3 FIX: Enhanced prompt with MANDATORY event phrase requirement
-  const prompt = `Extract EVENT PHRASES (MANDATORY) and named entities from these headlines for Twitter-style trending.
+// PHASE 3 FIX: Enhanced prompt with MANDATORY event phrase requirement
+const nerPrompt = definePrompt<{ itemsText: string }>({
+  id: 'batch-analyze-content.ner',
+  version: 1,
+  system: 'You are an NER system that MUST extract event phrases from every headline. Event phrases describe WHAT IS HAPPENING (e.g., "Trump Fires Director", "ICE Raids City"). NEVER return empty event_phrases - always generate at least one phrase using Subject+Verb+Object pattern. Output ONLY valid JSON arrays.',
+  user: ({ itemsText }) => `Extract EVENT PHRASES (MANDATORY) and named entities from these headlines for Twitter-style trending.
 
 ${itemsText}
 
@@ -436,51 +424,31 @@ CRITICAL:
 - If unsure, use headline's first meaningful phrase as event_phrase
 
 Return JSON array:
-[{"index": 0, "event_phrases": ["Trump Fires FBI Director"], "entities": [{"name": "Donald Trump", "type": "PERSON"}, {"name": "FBI", "type": "ORG"}], "sentiment": -0.3, "sentiment_label": "negative"}]`;
-
-  try {
-    const response = await fetch(AI_GATEWAY_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an NER system that MUST extract event phrases from every headline. Event phrases describe WHAT IS HAPPENING (e.g., "Trump Fires Director", "ICE Raids City"). NEVER return empty event_phrases - always generate at least one phrase using Subject+Verb+Object pattern. Output ONLY valid JSON arrays.'
-          },
-          { role: 'user', content: prompt }
-        ]
-      })
-    });
+[{"index": 0, "event_phrases": ["Trump Fires FBI Director"], "entities": [{"name": "Donald Trump", "type": "PERSON"}, {"name": "FBI", "type": "ORG"}], "sentiment": -0.3, "sentiment_label": "negative"}]`,
+});
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        console.warn('Rate limit hit, falling back to basic extraction');
-        return results;
-      }
-      throw new Error(`AI API error: ${response.status}`);
-    }
+// A lone object means the model answered for a single headline
+const nerAnalysisListSchema: Schema<any[]> = {
+  parse(value) {
+    return Array.isArray(value) ? value : [value];
+  },
+};
 
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content || '';
-    
-    // Parse JSON from response
-    let analyses: any[] = [];
-    try {
-      const cleaned = content.replace(/```json|```/g, '').trim();
-      const parsed = JSON.parse(cleaned);
-      analyses = Array.isArray(parsed) ? parsed : [parsed];
-    } catch (e) {
-      // Try to extract JSON array
-      const jsonMatch = content.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        analyses = JSON.parse(jsonMatch[0]);
-      }
-    }
+/**
+ * NER + Keyphrase extraction using AI
+ * Returns canonical entities and multi-word event phrases
+ * PHASE 2: Prioritizes event phrases as primary labels
+ */
+async function extractNERWithAI(llm: LLMClient, items: ContentItem[]): Promise<Map<string, NERResultWithQuality>> {
+  const results = new Map<string, NERResultWithQuality>();
+  
+  // Batch items (max 20 per request for efficiency)
+  const itemsText = items.slice(0, 20).map((item, i) => 
+    `[${i}] ${item.title}${item.description ? ` - ${item.description.substring(0, 200)}` : ''}`
+  ).join('\n');
+  
+  try {
+    const { data: analyses } = await llm.runJson(nerPrompt, { itemsText }, { schema: nerAnalysisListSchema });
     
     // Map results back to items
     for (const analysis of analyses) {
@@ -533,7 +501,11 @@ Return JSON array:
     console.log(`NER extracted ${results.size} items with entities + event phrases`);
     
   } catch (error) {
-    console.error('AI NER extraction error:', error);
+    if (error instanceof LLMError && error.code === 'rate_limited') {
+      console.warn('Rate limit hit, falling back to basic extraction');
+    } else {
+      console.error('AI NER extraction error:', error);
+    }
   }
   
   return results;
@@ -609,6 +581,7 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const llm = createLLMClientForFunction(supabase, 'batch-analyze-content');
 
     // SECURITY: Require cron secret or admin JWT
     const authResult = await validateCronOrAdmin(req, supabase);
@@ -662,8 +635,8 @@ serve(async (req) => {
         
         // Use AI for NER extraction
         let nerResults: Map<string, NERResultWithQuality> = new Map();
-        if (use_ai && LOVABLE_API_KEY) {
-          nerResults = await extractNERWithAI(newsItems.map(item => ({
+        if (use_ai && LLM_CONFIGURED) {
+          nerResults = await extractNERWithAI(llm, newsItems.map(item => ({
             id: item.id,
             title: item.title,
             description: item.description,
@@ -754,8 +727,8 @@ serve(async (req) => {
         console.log(`Processing ${redditItems.length} Reddit posts with NER...`);
         
         let nerResults: Map<string, NERResultWithQuality> = new Map();
-        if (use_ai && LOVABLE_API_KEY) {
-          nerResults = await extractNERWithAI(redditItems.map(item => ({
+        if (use_ai && LLM_CONFIGURED) {
+          nerResults = await extractNERWithAI(llm, redditItems.map(item => ({
             id: item.id,
             title: item.title,
             description: item.selftext,
@@ -837,8 +810,8 @@ serve(async (req) => {
         console.log(`Processing ${rssItems.length} RSS articles with NER...`);
         
         let nerResults: Map<string, NERResultWithQuality> = new Map();
-        if (use_ai && LOVABLE_API_KEY) {
-          nerResults = await extractNERWithAI(rssItems.map(item => ({
+        if (use_ai && LLM_CONFIGURED) {
+          nerResults = await extractNERWithAI(llm, rssItems.map(item => ({
             id: item.id,
             title: item.title,
             description: item.description,
@@ -944,7 +917,7 @@ serve(async (req) => {
         fallback_generated: fallbackGeneratedCount,
         fallback_pct: parseFloat(fallbackPct)
       },
-      ai_used: use_ai && !!LOVABLE_API_KEY,
+      ai_used: use_ai && LLM_CONFIGURED,
       duration_ms: Date.now() - startTime
     };
     
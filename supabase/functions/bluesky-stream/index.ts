@@ -2,6 +2,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, validateCronOrAdmin, logJobFailure, checkRateLimit } from "../_shared/security.ts";
 import { getAllKeywords, POLICY_DOMAIN_KEYWORDS } from "../_shared/policyDomainKeywords.ts";
+import { assignStoryClusterIds } from "../_shared/storyClusterStore.ts";
 
 const corsHeaders = getCorsHeaders();
 
@@ -124,6 +125,32 @@ function calculateRelevance(text: string): number {
   return score;
 }
 
+/**
+ * Save collected posts and put the new ones in story clusters, so reposted
+ * and lightly edited copies count once in trend detection
+ */
+async function storePosts(supabase: ReturnType<typeof createClient>, posts: Record<string, unknown>[]): Promise<void> {
+  const { data: inserted, error } = await supabase
+    .from('bluesky_posts')
+    .upsert(posts, { onConflict: 'post_uri', ignoreDuplicates: true })
+    .select('id, text, created_at');
+  if (error) {
+    console.error('Error saving posts:', error.message);
+    return;
+  }
+
+  try {
+    await assignStoryClusterIds(supabase, (inserted || []).map((post: { id: string; text: string | null; created_at: string }) => ({
+      type: 'bluesky' as const,
+      id: post.id,
+      title: post.text || '',
+      publishedAt: post.created_at,
+    })));
+  } catch (err) {
+    console.warn('Story clustering failed for Bluesky batch:', err);
+  }
+}
+
 async function processBlueskyStream(supabase: any, durationMs: number, maxPostsProcessed: number) {
   console.log('Starting JetStream collection...');
 
@@ -197,7 +224,7 @@ async function processBlueskyStream(supabase: any, durationMs: number, maxPostsP
           if (collectedPosts.length >= 25) {
             const batch = [...collectedPosts];
             collectedPosts.length = 0;
-            await supabase.from('bluesky_posts').upsert(batch, { onConflict: 'post_uri', ignoreDuplicates: true });
+            await storePosts(supabase, batch);
             console.log(`Batch: ${batch.length} posts | Total: ${relevantCount}`);
           }
         } catch (error) {
@@ -210,7 +237,7 @@ async function processBlueskyStream(supabase: any, durationMs: number, maxPostsP
       ws.onclose = async () => {
         clearTimeout(timeout);
         if (collectedPosts.length > 0) {
-          await supabase.from('bluesky_posts').upsert(collectedPosts, { onConflict: 'post_uri', ignoreDuplicates: true });
+          await storePosts(supabase, collectedPosts);
         }
         await supabase.from('bluesky_stream_cursor').update({
           last_cursor: latestCursor,
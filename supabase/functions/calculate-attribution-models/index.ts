@@ -1,17 +1,59 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  AttributionTouchpoint,
+  ModelCredits,
+  TouchpointChannel,
+  addCredits,
+  allocateCredit,
+  channelFromTouchpointType,
+  emptyModelCredits,
+  resolveAttributionConfig,
+  roundCredits,
+  selectJourneyTouchpoints,
+} from '../_shared/multiTouchAttribution.ts';
+import { fetchAll } from '../_shared/paging.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface AttributionModel {
-  first_touch: number;
-  last_touch: number;
-  linear: number;
-  position_based: number;
-  time_decay: number;
+interface TransactionRow {
+  id: string;
+  amount: number;
+  transaction_date: string;
+  refcode: string | null;
+  donor_email: string | null;
+  phone_hash: string | null;
+}
+
+interface TouchpointRow {
+  id: string;
+  touchpoint_type: string;
+  occurred_at: string;
+  donor_email: string;
+  refcode: string | null;
+  campaign_id: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+interface SmsClickRow {
+  id: string;
+  campaign_id: string | null;
+  phone_hash: string;
+  occurred_at: string;
+  link_clicked: string | null;
+}
+
+/**
+ * Page through a query builder until all rows are loaded.
+ * PostgREST caps each response at 1000 rows.
+ */
+function pushTouchpoint(index: Map<string, AttributionTouchpoint[]>, key: string, tp: AttributionTouchpoint) {
+  const list = index.get(key);
+  if (list) list.push(tp);
+  else index.set(key, [tp]);
 }
 
 serve(async (req) => {
@@ -31,31 +73,54 @@ serve(async (req) => {
       }
     );
 
-    const { organizationId, startDate, endDate } = await req.json();
+    const { organizationId, startDate, endDate, lookbackDays, halfLifeDays } = await req.json();
+    const config = resolveAttributionConfig({ lookbackDays, halfLifeDays });
 
-    console.log(`📊 Calculating attribution for org: ${organizationId}`);
+    console.log(`📊 Calculating multi-touch attribution for org: ${organizationId}`, config);
 
-    // WARNING: This function currently implements SINGLE-TOUCH attribution despite the variable names.
-    // It assigns 100% credit to the FIRST matched refcode for all models (linear, position-based, etc).
-    // This is a known limitation documented in the 2026 Audit.
-    // TODO: Implement true multi-touch logic when touchpoint history data is available.
+    // Touchpoints may precede the first donation in range by up to the lookback window
+    const touchpointStart = new Date(
+      new Date(startDate).getTime() - config.lookbackDays * 24 * 60 * 60 * 1000
+    ).toISOString();
 
-    // Get all transactions with their touchpoints
-    const { data: transactions, error: txnError } = await supabase
-      .from('actblue_transactions')
-      .select(`
-        id,
-        amount,
-        transaction_date,
-        refcode,
-        donor_email
-      `)
-      .eq('organization_id', organizationId)
-      .gte('transaction_date', startDate)
-      .lte('transaction_date', endDate)
-      .not('refcode', 'is', null);
+    const transactions = await fetchAll<TransactionRow>((from, to) =>
+      supabase
+        .from('actblue_transactions')
+        .select('id, amount, transaction_date, refcode, donor_email, phone_hash')
+        .eq('organization_id', organizationId)
+        .gte('transaction_date', startDate)
+        .lte('transaction_date', endDate)
+        .neq('transaction_type', 'refund')
+        .order('transaction_date', { ascending: true })
+        .range(from, to)
+    );
 
-    if (txnError) throw txnError;
+    // Tracked touchpoints, including capture-meta-touchpoint landing page records
+    const touchpointRows = await fetchAll<TouchpointRow>((from, to) =>
+      supabase
+        .from('attribution_touchpoints')
+        .select('id, touchpoint_type, occurred_at, donor_email, refcode, campaign_id, metadata')
+        .eq('organization_id', organizationId)
+        .gte('occurred_at', touchpointStart)
+        .lte('occurred_at', endDate)
+        .not('donor_email', 'is', null)
+        .order('occurred_at', { ascending: true })
+        .range(from, to)
+    );
+
+    // SMS link clicks, joined to donors by phone hash
+    const smsClickRows = await fetchAll<SmsClickRow>((from, to) =>
+      supabase
+        .from('sms_events')
+        .select('id, campaign_id, phone_hash, occurred_at, link_clicked')
+        .eq('organization_id', organizationId)
+        .eq('event_type', 'clicked')
+        .gte('occurred_at', touchpointStart)
+        .lte('occurred_at', endDate)
+        .not('phone_hash', 'is', null)
+        .order('occurred_at', { ascending: true })
+        .range(from, to)
+    );
 
     // Get attribution mappings
     const { data: attributions, error: attrError } = await supabase
@@ -66,79 +131,92 @@ serve(async (req) => {
     if (attrError) throw attrError;
 
     // Build refcode to campaign mapping
-    const refcodeToCampaign = new Map();
+    const refcodeToCampaign = new Map<string, { campaignId: string; channel: TouchpointChannel }>();
     attributions?.forEach(attr => {
-      if (attr.refcode) {
-        refcodeToCampaign.set(attr.refcode, {
-          meta_campaign_id: attr.meta_campaign_id,
-          switchboard_campaign_id: attr.switchboard_campaign_id,
-          utm_source: attr.utm_source,
-        });
+      if (!attr.refcode) return;
+      if (attr.meta_campaign_id) {
+        refcodeToCampaign.set(attr.refcode, { campaignId: attr.meta_campaign_id, channel: 'meta' });
+      } else if (attr.switchboard_campaign_id) {
+        refcodeToCampaign.set(attr.refcode, { campaignId: attr.switchboard_campaign_id, channel: 'sms' });
       }
     });
 
-    // Calculate attribution for each model
-    const modelResults: Record<string, {
-      first_touch: number;
-      last_touch: number;
-      linear: number;
-      position_based: number;
-      time_decay: number;
-    }> = {};
-
-    for (const txn of transactions || []) {
-      const campaignData = refcodeToCampaign.get(txn.refcode);
-      if (!campaignData) continue;
-
-      const campaignId = campaignData.meta_campaign_id || campaignData.switchboard_campaign_id;
-      if (!campaignId) continue;
-
-      if (!modelResults[campaignId]) {
-        modelResults[campaignId] = {
-          first_touch: 0,
-          last_touch: 0,
-          linear: 0,
-          position_based: 0,
-          time_decay: 0,
-        } as any;
-      }
+    // Index touchpoints by donor identity (email or phone hash)
+    const touchpointsByEmail = new Map<string, AttributionTouchpoint[]>();
+    for (const row of touchpointRows) {
+      // Landing page captures record email, sms and organic visits too, so the
+      // channel always comes from touchpoint_type
+      const isLandingCapture = row.metadata?.source === 'landing_page_capture';
+      pushTouchpoint(touchpointsByEmail, row.donor_email.toLowerCase().trim(), {
+        id: row.id,
+        source: isLandingCapture ? 'meta_capture' : 'touchpoint',
+        channel: channelFromTouchpointType(row.touchpoint_type),
+        occurredAt: row.occurred_at,
+        refcode: row.refcode,
+        campaignId: row.campaign_id,
+      });
+    }
 
-      // For single-touch transactions, all models give full credit
-      // In a real implementation, you'd track the donor journey
-      const amount = Number(txn.amount);
-      
-      // First-touch: 100% to first interaction
-      modelResults[campaignId].first_touch += amount;
-      
-      // Last-touch: 100% to last interaction
-      modelResults[campaignId].last_touch += amount;
-      
-      // Linear: Equal distribution
-      modelResults[campaignId].linear += amount;
-      
-      // Position-based: 40% first, 40% last, 20% middle
-      modelResults[campaignId].position_based += amount;
-      
-      // Time-decay: More recent gets more credit
-      modelResults[campaignId].time_decay += amount;
+    const touchpointsByPhone = new Map<string, AttributionTouchpoint[]>();
+    for (const row of smsClickRows) {
+      pushTouchpoint(touchpointsByPhone, row.phone_hash, {
+        id: row.id,
+        source: 'sms_click',
+        channel: 'sms',
+        occurredAt: row.occurred_at,
+        refcode: null,
+        campaignId: row.campaign_id,
+      });
     }
 
-    // Calculate totals by model
-    const modelTotals = {
-      first_touch: 0,
-      last_touch: 0,
-      linear: 0,
-      position_based: 0,
-      time_decay: 0,
-    };
-
-    Object.values(modelResults).forEach(campaign => {
-      modelTotals.first_touch += campaign.first_touch;
-      modelTotals.last_touch += campaign.last_touch;
-      modelTotals.linear += campaign.linear;
-      modelTotals.position_based += campaign.position_based;
-      modelTotals.time_decay += campaign.time_decay;
-    });
+    // Credit accumulators
+    const modelResults: Record<string, ModelCredits> = {};
+    const channelResults: Record<string, ModelCredits> = {};
+    const modelTotals = emptyModelCredits();
+    let multiTouchCount = 0;
+    let totalTouchpoints = 0;
+
+    for (const txn of transactions) {
+      const amount = Number(txn.amount);
+      if (!amount) continue;
+
+      const candidates: AttributionTouchpoint[] = [
+        ...(txn.donor_email ? touchpointsByEmail.get(txn.donor_email.toLowerCase().trim()) || [] : []),
+        ...(txn.phone_hash ? touchpointsByPhone.get(txn.phone_hash) || [] : []),
+      ];
+
+      // The donation's own refcode is the final click before ActBlue
+      if (txn.refcode) {
+        const mapped = refcodeToCampaign.get(txn.refcode);
+        candidates.push({
+          id: `txn:${txn.id}`,
+          source: 'donation_refcode',
+          channel: mapped?.channel || 'other',
+          occurredAt: txn.transaction_date,
+          refcode: txn.refcode,
+          campaignId: mapped?.campaignId || null,
+        });
+      }
+
+      const journey = selectJourneyTouchpoints(candidates, txn.transaction_date, config);
+      if (journey.length === 0) continue;
+
+      totalTouchpoints += journey.length;
+      if (journey.length > 1) multiTouchCount++;
+
+      for (const { touchpoint, credit } of allocateCredit(journey, amount, txn.transaction_date, config)) {
+        const campaignId = touchpoint.campaignId
+          || (touchpoint.refcode ? refcodeToCampaign.get(touchpoint.refcode)?.campaignId : undefined)
+          || `unattributed:${touchpoint.channel}`;
+
+        if (!modelResults[campaignId]) modelResults[campaignId] = emptyModelCredits();
+        if (!channelResults[touchpoint.channel]) channelResults[touchpoint.channel] = emptyModelCredits();
+
+        addCredits(modelResults[campaignId], credit);
+        addCredits(channelResults[touchpoint.channel], credit);
+        addCredits(modelTotals, credit);
+      }
+    }
 
     // Calculate ROI by channel using last-touch model
     const { data: metaMetrics, error: metaError } = await supabase
@@ -189,15 +267,24 @@ serve(async (req) => {
       };
     });
 
-    console.log(`✅ Calculated attribution across ${Object.keys(modelResults).length} campaigns`);
+    console.log(`✅ Calculated attribution across ${Object.keys(modelResults).length} campaigns (${multiTouchCount} multi-touch journeys)`);
+
+    const roundAll = (results: Record<string, ModelCredits>) =>
+      Object.fromEntries(Object.entries(results).map(([key, credit]) => [key, roundCredits(credit)]));
 
     return new Response(
       JSON.stringify({
         success: true,
-        modelResults,
-        modelTotals,
+        modelResults: roundAll(modelResults),
+        channelResults: roundAll(channelResults),
+        modelTotals: roundCredits(modelTotals),
         channelROI,
-        transactionCount: transactions?.length || 0,
+        config,
+        transactionCount: transactions.length,
+        multiTouchCount,
+        avgTouchpointsPerJourney: transactions.length > 0
+          ? Math.round((totalTouchpoints / transactions.length) * 100) / 100
+          : 0,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -1,6 +1,23 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import {
+  BGNBD_MODEL_VERSION,
+  buildGivingHistory,
+  createRng,
+  evaluateBacktest,
+  fitBgNbd,
+  fitGammaGamma,
+  predictDonor,
+  quantile,
+  simulateDonorValue,
+  type BacktestMetrics,
+  type BacktestRow,
+  type Donation,
+  type GivingHistory,
+  type LtvModelParams,
+} from "../_shared/donorLtvModel.ts";
+import { loadPersonIndex } from "../_shared/donorIdentity.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,17 +25,24 @@ const corsHeaders = {
 };
 
 /**
- * Calculate Donor LTV (Lifetime Value) - Political Fundraising Model v2.0
- * 
- * Recalibrated for political giving patterns:
- * - Episodic giving (election cycles, not monthly subscriptions)
- * - Longer recency thresholds (365+ days is normal)
- * - Campaign-aware frequency scoring
- * - Tenure and recurring donor bonuses
+ * Calculate Donor LTV (Lifetime Value)
+ *
+ * Two model versions, both backtested on every run:
+ * - bgnbd_gg_v1 (default): BG/NBD + Gamma-Gamma fitted per org, with 80%
+ *   prediction intervals (see _shared/donorLtvModel.ts)
+ * - political_rfm_v2.0: the hand-tuned RFM heuristic below, kept as the
+ *   baseline and as the fallback when an org has too little repeat giving to fit
+ *
+ * RFM scores and segments are still computed for every donor; the segment
+ * builder filters on them.
+ *
+ * Donors are persons from the identity graph (_shared/donorIdentity.ts): gifts
+ * from every email of one person are scored together and donor_key holds the
+ * person id. Emails that could not be resolved fall back to the md5 donor_key.
  */
 
 /**
- * Generate donor_key using MD5 hash (first 6 chars)
+ * Legacy donor_key using MD5 hash (first 6 chars), for donors without a person
  * IMPORTANT: This must match the SQL formula: 'donor_' || substr(md5(lower(trim(email))), 1, 6)
  * This enables joins with donor_demographics and other tables
  */
@@ -35,6 +59,7 @@ async function generateDonorKey(email: string): Promise<string> {
 interface LTVPrediction {
   organization_id: string;
   donor_key: string;
+  person_id: string | null;
   predicted_ltv_30: number;
   predicted_ltv_90: number;
   predicted_ltv_180: number;
@@ -50,6 +75,13 @@ interface LTVPrediction {
   model_version: string;
   confidence_score: number;
   calculated_at: string;
+  predicted_ltv_90_low: number | null;
+  predicted_ltv_90_high: number | null;
+  predicted_ltv_365_low: number | null;
+  predicted_ltv_365_high: number | null;
+  p_alive: number | null;
+  expected_donations_365: number | null;
+  model_run_id: string | null;
 }
 
 // =============================================================================
@@ -227,6 +259,191 @@ function predictLTV(
   return Math.round(predictedDonations * avgAmount * 100) / 100;
 }
 
+// =============================================================================
+// MODEL RUNS
+// =============================================================================
+
+const RFM_MODEL_VERSION = 'political_rfm_v2.0';
+const HORIZONS = [30, 90, 180, 365];
+const INTERVAL_LOW = 0.1;
+const INTERVAL_HIGH = 0.9;
+const PAGE_SIZE = 1000;
+// Below this many repeat donors the BG/NBD fit is mostly prior; use RFM instead
+const MIN_REPEAT_DONORS = 30;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+type ModelVersion = typeof BGNBD_MODEL_VERSION | typeof RFM_MODEL_VERSION;
+
+interface DonorHistory {
+  // person id, or the email for donors without one
+  key: string;
+  personId: string | null;
+  // first email the person gave with
+  email: string;
+  donations: Donation[];
+  isRecurring: boolean;
+}
+
+interface RfmSummary {
+  totalAmount: number;
+  avgAmount: number;
+  frequency: number;
+  daysSinceLast: number;
+  tenureDays: number;
+}
+
+interface ModelFit {
+  params: LtvModelParams;
+  logLikelihood: number;
+  donorsTrained: number;
+}
+
+interface ModelRunRecord {
+  organization_id: string;
+  model_version: ModelVersion;
+  params: Record<string, unknown>;
+  log_likelihood: number | null;
+  donors_trained: number;
+  donors_scored: number;
+  holdout_days: number;
+  calibration_cutoff: string;
+  backtest_donors: number;
+  calibration_error: number | null;
+  aggregate_error_pct: number | null;
+  mean_absolute_error: number | null;
+  interval_coverage: number | null;
+  calibration_bins: BacktestMetrics['bins'];
+  predicted_total_365: number | null;
+  predicted_total_365_low: number | null;
+  predicted_total_365_high: number | null;
+  trained_at: string;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+
+function summarizeRfm(donations: Donation[], asOf: Date): RfmSummary | null {
+  const before = donations.filter(d => d.date.getTime() <= asOf.getTime());
+  if (before.length === 0) return null;
+  const totalAmount = before.reduce((sum, d) => sum + d.amount, 0);
+  return {
+    totalAmount,
+    avgAmount: totalAmount / before.length,
+    frequency: before.length,
+    daysSinceLast: Math.floor((asOf.getTime() - before[before.length - 1].date.getTime()) / DAY_MS),
+    tenureDays: Math.floor((asOf.getTime() - before[0].date.getTime()) / DAY_MS),
+  };
+}
+
+/** Deterministic subsample so big orgs fit within the function's CPU budget */
+function sampleForFit<T>(items: T[], maxItems: number, seed: number): T[] {
+  if (items.length <= maxItems) return items;
+  const rng = createRng(seed);
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.slice(0, maxItems);
+}
+
+function fitModel(histories: GivingHistory[], fitSampleSize: number): ModelFit | null {
+  const sample = sampleForFit(histories, fitSampleSize, 42);
+  if (sample.filter(h => h.x > 0).length < MIN_REPEAT_DONORS) return null;
+
+  const bgnbd = fitBgNbd(sample);
+  const gammaGamma = fitGammaGamma(sample);
+  if (!Number.isFinite(bgnbd.logLikelihood) || !Number.isFinite(gammaGamma.logLikelihood)) return null;
+
+  return {
+    params: { bgnbd: bgnbd.params, gammaGamma: gammaGamma.params },
+    logLikelihood: bgnbd.logLikelihood + gammaGamma.logLikelihood,
+    donorsTrained: sample.length,
+  };
+}
+
+/**
+ * Fit on everything before `cutoff`, then score what each donor actually gave
+ * in the following `holdoutDays` against both model versions.
+ */
+function runBacktest(
+  donors: DonorHistory[],
+  now: Date,
+  holdoutDays: number,
+  fitSampleSize: number,
+  draws: number
+): { cutoff: Date; bgnbd: BacktestMetrics | null; rfm: BacktestMetrics } {
+  const cutoff = new Date(now.getTime() - holdoutDays * DAY_MS);
+  const eligible = donors
+    .map(donor => ({ donor, history: buildGivingHistory(donor.donations, cutoff) }))
+    .filter((d): d is { donor: DonorHistory; history: GivingHistory } => d.history !== null);
+
+  const actualFor = (donor: DonorHistory) => donor.donations
+    .filter(d => d.date.getTime() > cutoff.getTime() && d.date.getTime() <= now.getTime())
+    .reduce((sum, d) => sum + d.amount, 0);
+
+  const rfmRows: BacktestRow[] = eligible.map(({ donor }) => {
+    const rfm = summarizeRfm(donor.donations, cutoff)!;
+    return {
+      predicted: predictLTV(rfm.avgAmount, rfm.frequency, rfm.daysSinceLast, rfm.tenureDays, donor.isRecurring, holdoutDays),
+      actual: actualFor(donor),
+    };
+  });
+
+  const fit = fitModel(eligible.map(e => e.history), fitSampleSize);
+  let bgnbd: BacktestMetrics | null = null;
+  if (fit) {
+    const rng = createRng(7);
+    const rows: BacktestRow[] = eligible.map(({ donor, history }) => {
+      const prediction = predictDonor(fit.params, history, [holdoutDays]);
+      const sorted = simulateDonorValue(fit.params, history, [holdoutDays], draws, rng)[holdoutDays].sort((a, b) => a - b);
+      return {
+        predicted: prediction.expectedValue[holdoutDays],
+        actual: actualFor(donor),
+        low: quantile(sorted, INTERVAL_LOW),
+        high: quantile(sorted, INTERVAL_HIGH),
+      };
+    });
+    bgnbd = evaluateBacktest(rows);
+  }
+
+  return { cutoff, bgnbd, rfm: evaluateBacktest(rfmRows) };
+}
+
+function toRunRecord(
+  organizationId: string,
+  modelVersion: ModelVersion,
+  metrics: BacktestMetrics,
+  cutoff: Date,
+  holdoutDays: number,
+  now: Date
+): ModelRunRecord {
+  return {
+    organization_id: organizationId,
+    model_version: modelVersion,
+    params: {},
+    log_likelihood: null,
+    donors_trained: 0,
+    donors_scored: 0,
+    holdout_days: holdoutDays,
+    calibration_cutoff: cutoff.toISOString(),
+    backtest_donors: metrics.donors,
+    calibration_error: metrics.calibration_error === null ? null : round4(metrics.calibration_error),
+    aggregate_error_pct: metrics.aggregate_error_pct === null ? null : round4(metrics.aggregate_error_pct),
+    mean_absolute_error: round2(metrics.mean_absolute_error),
+    interval_coverage: metrics.interval_coverage === null ? null : round4(metrics.interval_coverage),
+    calibration_bins: metrics.bins.map(bin => ({
+      ...bin,
+      mean_predicted: round2(bin.mean_predicted),
+      mean_actual: round2(bin.mean_actual),
+    })),
+    predicted_total_365: null,
+    predicted_total_365_low: null,
+    predicted_total_365_high: null,
+    trained_at: now.toISOString(),
+  };
+}
+
 // =============================================================================
 // MAIN HANDLER
 // =============================================================================
@@ -244,150 +461,285 @@ serve(async (req) => {
     const supabase = createClient(supabaseUrl, serviceRoleKey);
 
     const body = await req.json().catch(() => ({}));
-    const { organization_id, batch_size = 500 } = body;
+    const {
+      organization_id,
+      batch_size = 500,
+      model = BGNBD_MODEL_VERSION,
+      holdout_days = 180,
+      interval_draws = 100,
+      fit_sample_size = 5000,
+    } = body;
 
     if (!organization_id) {
       throw new Error('organization_id is required');
     }
+    if (model !== BGNBD_MODEL_VERSION && model !== RFM_MODEL_VERSION) {
+      throw new Error(`model must be ${BGNBD_MODEL_VERSION} or ${RFM_MODEL_VERSION}`);
+    }
 
-    console.log(`[DONOR LTV v2.0] Starting calculation for org ${organization_id}`);
+    console.log(`[DONOR LTV] Starting calculation for org ${organization_id} (requested ${model})`);
 
     const now = new Date();
-    const predictions: LTVPrediction[] = [];
 
-    // 1. Fetch donor aggregates from actblue_transactions
-    console.log('[DONOR LTV v2.0] Aggregating donor statistics...');
-    
-    const { data: donorStats, error: statsError } = await supabase
-      .from('actblue_transactions')
-      .select('donor_email, amount, net_amount, transaction_date, is_recurring, transaction_type')
-      .eq('organization_id', organization_id)
-      .neq('transaction_type', 'refund')
-      .not('donor_email', 'is', null)
-      .order('transaction_date', { ascending: true });
-
-    if (statsError) {
-      throw new Error(`Failed to fetch donor stats: ${statsError.message}`);
+    // 1. Fetch all non-refund transactions, paged
+    console.log('[DONOR LTV] Loading transactions...');
+    const transactions: Array<{
+      donor_email: string | null;
+      phone: string | null;
+      actblue_donor_id: string | null;
+      amount: number | null;
+      net_amount: number | null;
+      transaction_date: string;
+      is_recurring: boolean | null;
+    }> = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: page, error: statsError } = await supabase
+        .from('actblue_transactions')
+        .select('donor_email, phone, actblue_donor_id, amount, net_amount, transaction_date, is_recurring')
+        .eq('organization_id', organization_id)
+        .neq('transaction_type', 'refund')
+        .not('donor_email', 'is', null)
+        .order('transaction_date', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (statsError) {
+        throw new Error(`Failed to fetch donor stats: ${statsError.message}`);
+      }
+      transactions.push(...(page || []));
+      if (!page || page.length < PAGE_SIZE) break;
     }
 
-    if (!donorStats || donorStats.length === 0) {
-      console.log('[DONOR LTV v2.0] No transactions found');
+    if (transactions.length === 0) {
+      console.log('[DONOR LTV] No transactions found');
       return new Response(
-        JSON.stringify({ success: true, donors_processed: 0, message: 'No transactions to process' }),
+        JSON.stringify({ success: true, donors_processed: 0, predictions_created: 0, message: 'No transactions to process' }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    // 2. Aggregate by donor
-    const donorMap = new Map<string, {
-      email: string;
-      donations: Array<{ amount: number; date: Date; isRecurring: boolean }>;
-    }>();
-
-    for (const tx of donorStats) {
+    // 2. Group by person
+    const personIndex = await loadPersonIndex(supabase, organization_id, transactions.map(tx => ({
+      email: tx.donor_email,
+      phone: tx.phone,
+      actblueDonorId: tx.actblue_donor_id,
+    })));
+    const donorMap = new Map<string, DonorHistory>();
+    for (const tx of transactions) {
       if (!tx.donor_email) continue;
-      
       const email = tx.donor_email.toLowerCase().trim();
-      if (!donorMap.has(email)) {
-        donorMap.set(email, { email, donations: [] });
+      const personId = await personIndex.personFor({ email, phone: tx.phone, actblueDonorId: tx.actblue_donor_id });
+      const key = personId ?? email;
+      if (!donorMap.has(key)) {
+        donorMap.set(key, { key, personId, email, donations: [], isRecurring: false });
       }
-      
-      donorMap.get(email)!.donations.push({
-        amount: tx.net_amount || tx.amount || 0,
-        date: new Date(tx.transaction_date),
-        isRecurring: tx.is_recurring || false,
-      });
+      const donor = donorMap.get(key)!;
+      donor.donations.push({ amount: tx.net_amount || tx.amount || 0, date: new Date(tx.transaction_date) });
+      donor.isRecurring = donor.isRecurring || tx.is_recurring || false;
+    }
+    const donors = Array.from(donorMap.values());
+    for (const donor of donors) {
+      donor.donations.sort((a, b) => a.date.getTime() - b.date.getTime());
     }
 
-    console.log(`[DONOR LTV v2.0] Processing ${donorMap.size} unique donors`);
-
-    // 3. Calculate RFM and LTV for each donor
-    for (const [email, data] of donorMap.entries()) {
-      const donations = data.donations.sort((a, b) => a.date.getTime() - b.date.getTime());
-      
-      if (donations.length === 0) continue;
-
-      // Create donor key using MD5 hash (matches SQL: 'donor_' || substr(md5(lower(trim(email))), 1, 6))
-      const donorKey = await generateDonorKey(email);
-
-      // Calculate metrics
-      const totalAmount = donations.reduce((sum, d) => sum + d.amount, 0);
-      const avgAmount = totalAmount / donations.length;
-      const firstDate = donations[0].date;
-      const lastDate = donations[donations.length - 1].date;
-      const daysSinceLast = Math.floor((now.getTime() - lastDate.getTime()) / (1000 * 60 * 60 * 24));
-      const tenureDays = Math.floor((now.getTime() - firstDate.getTime()) / (1000 * 60 * 60 * 24));
-      const isRecurring = donations.some(d => d.isRecurring);
-
-      // RFM Scores (Political v2.0)
-      const rScore = calculateRecencyScore(daysSinceLast);
-      const fScore = calculateFrequencyScore(donations.length, daysSinceLast);
-      const mScore = calculateMonetaryScore(avgAmount);
-      const rfmScore = rScore * 100 + fScore * 10 + mScore;
+    console.log(`[DONOR LTV] Processing ${donors.length} donors (${personIndex.size} resolved persons in org)`);
+
+    // 3. Backtest both model versions on the same holdout
+    const backtest = runBacktest(donors, now, holdout_days, fit_sample_size, interval_draws);
+    console.log(
+      `[DONOR LTV] Backtest (${holdout_days}d holdout): ` +
+      `bgnbd calibration_error=${backtest.bgnbd?.calibration_error ?? 'n/a'}, ` +
+      `rfm calibration_error=${backtest.rfm.calibration_error ?? 'n/a'}`
+    );
+
+    // 4. Fit on everything; fall back to RFM when there isn't enough repeat giving
+    const histories = new Map<string, GivingHistory>();
+    for (const donor of donors) {
+      const history = buildGivingHistory(donor.donations, now);
+      if (history) histories.set(donor.key, history);
+    }
+    const fit = model === BGNBD_MODEL_VERSION ? fitModel(Array.from(histories.values()), fit_sample_size) : null;
+    const activeVersion: ModelVersion = fit ? BGNBD_MODEL_VERSION : RFM_MODEL_VERSION;
+    if (model === BGNBD_MODEL_VERSION && !fit) {
+      console.warn(`[DONOR LTV] Fewer than ${MIN_REPEAT_DONORS} repeat donors; using ${RFM_MODEL_VERSION}`);
+    }
+
+    // 5. Score every donor
+    const predictions: LTVPrediction[] = [];
+    const rng = createRng(11);
+    const orgDraws365 = new Array(interval_draws).fill(0);
 
-      // Churn Risk (Political v2.0)
-      const churnRisk = calculateChurnRisk(rScore, fScore, isRecurring, tenureDays);
-      const churnRiskLabel = getChurnRiskLabel(churnRisk);
+    for (const donor of donors) {
+      const rfm = summarizeRfm(donor.donations, now);
+      if (!rfm) continue;
 
-      // Segment (Political v2.0)
-      const segment = getDonorSegment(rScore, fScore, mScore, isRecurring);
+      const donorKey = donor.personId ?? await generateDonorKey(donor.email);
 
-      // LTV Predictions (Political v2.0)
-      const ltv30 = predictLTV(avgAmount, donations.length, daysSinceLast, tenureDays, isRecurring, 30);
-      const ltv90 = predictLTV(avgAmount, donations.length, daysSinceLast, tenureDays, isRecurring, 90);
-      const ltv180 = predictLTV(avgAmount, donations.length, daysSinceLast, tenureDays, isRecurring, 180);
-      const ltv365 = predictLTV(avgAmount, donations.length, daysSinceLast, tenureDays, isRecurring, 365);
+      // RFM Scores (Political v2.0) - segments stay RFM-based for every model version
+      const rScore = calculateRecencyScore(rfm.daysSinceLast);
+      const fScore = calculateFrequencyScore(rfm.frequency, rfm.daysSinceLast);
+      const mScore = calculateMonetaryScore(rfm.avgAmount);
+      const rfmScore = rScore * 100 + fScore * 10 + mScore;
+      const segment = getDonorSegment(rScore, fScore, mScore, donor.isRecurring);
 
       // Confidence score based on data quality
-      const confidenceScore = Math.min(1, 
+      const confidenceScore = Math.min(1,
         0.3 + // Base confidence
-        (donations.length > 5 ? 0.3 : donations.length * 0.06) + // More donations = higher confidence
-        (tenureDays > 365 ? 0.2 : tenureDays / 1825) + // Longer tenure = higher confidence (now 1 year threshold)
-        (isRecurring ? 0.2 : 0) // Recurring = higher confidence
+        (rfm.frequency > 5 ? 0.3 : rfm.frequency * 0.06) + // More donations = higher confidence
+        (rfm.tenureDays > 365 ? 0.2 : rfm.tenureDays / 1825) + // Longer tenure = higher confidence (now 1 year threshold)
+        (donor.isRecurring ? 0.2 : 0) // Recurring = higher confidence
       );
 
-      predictions.push({
+      const base = {
         organization_id,
         donor_key: donorKey,
-        predicted_ltv_30: ltv30,
-        predicted_ltv_90: ltv90,
-        predicted_ltv_180: ltv180,
-        predicted_ltv_365: ltv365,
-        churn_risk: Math.round(churnRisk * 100) / 100,
-        churn_risk_label: churnRiskLabel,
-        recency_days: daysSinceLast,
-        frequency: donations.length,
-        monetary_avg: Math.round(avgAmount * 100) / 100,
-        monetary_total: Math.round(totalAmount * 100) / 100,
+        person_id: donor.personId,
+        recency_days: rfm.daysSinceLast,
+        frequency: rfm.frequency,
+        monetary_avg: round2(rfm.avgAmount),
+        monetary_total: round2(rfm.totalAmount),
         rfm_score: rfmScore,
         segment,
-        model_version: 'political_rfm_v2.0',
-        confidence_score: Math.round(confidenceScore * 100) / 100,
+        model_version: activeVersion,
+        confidence_score: round2(confidenceScore),
         calculated_at: now.toISOString(),
-      });
+        model_run_id: null,
+      };
+
+      const history = histories.get(donor.key);
+      if (fit && history) {
+        const prediction = predictDonor(fit.params, history, HORIZONS);
+        const draws = simulateDonorValue(fit.params, history, [90, 365], interval_draws, rng);
+        draws[365].forEach((value, i) => { orgDraws365[i] += value; });
+        const sorted90 = [...draws[90]].sort((a, b) => a - b);
+        const sorted365 = [...draws[365]].sort((a, b) => a - b);
+
+        // Churn = probability of no gift in the next year. 1 - P(alive) alone
+        // would call every one-time donor "alive", which is most of the file.
+        const churnRisk = draws[365].filter(v => v === 0).length / interval_draws;
+
+        predictions.push({
+          ...base,
+          predicted_ltv_30: round2(prediction.expectedValue[30]),
+          predicted_ltv_90: round2(prediction.expectedValue[90]),
+          predicted_ltv_180: round2(prediction.expectedValue[180]),
+          predicted_ltv_365: round2(prediction.expectedValue[365]),
+          predicted_ltv_90_low: round2(quantile(sorted90, INTERVAL_LOW)),
+          predicted_ltv_90_high: round2(quantile(sorted90, INTERVAL_HIGH)),
+          predicted_ltv_365_low: round2(quantile(sorted365, INTERVAL_LOW)),
+          predicted_ltv_365_high: round2(quantile(sorted365, INTERVAL_HIGH)),
+          p_alive: round4(prediction.pAlive),
+          expected_donations_365: round4(prediction.expectedDonations[365]),
+          churn_risk: round2(churnRisk),
+          churn_risk_label: getChurnRiskLabel(churnRisk),
+        });
+      } else {
+        // LTV Predictions (Political v2.0)
+        const churnRisk = calculateChurnRisk(rScore, fScore, donor.isRecurring, rfm.tenureDays);
+        const ltv = (horizon: number) =>
+          predictLTV(rfm.avgAmount, rfm.frequency, rfm.daysSinceLast, rfm.tenureDays, donor.isRecurring, horizon);
+
+        predictions.push({
+          ...base,
+          predicted_ltv_30: ltv(30),
+          predicted_ltv_90: ltv(90),
+          predicted_ltv_180: ltv(180),
+          predicted_ltv_365: ltv(365),
+          predicted_ltv_90_low: null,
+          predicted_ltv_90_high: null,
+          predicted_ltv_365_low: null,
+          predicted_ltv_365_high: null,
+          p_alive: null,
+          expected_donations_365: null,
+          churn_risk: round2(churnRisk),
+          churn_risk_label: getChurnRiskLabel(churnRisk),
+        });
+      }
     }
 
-    // 4. Upsert predictions in batches
-    console.log(`[DONOR LTV v2.0] Upserting ${predictions.length} predictions...`);
+    // 6. Record one run per model version; the scored one becomes active
+    const runs: ModelRunRecord[] = [];
+    const rfmRun = toRunRecord(organization_id, RFM_MODEL_VERSION, backtest.rfm, backtest.cutoff, holdout_days, now);
+    runs.push(rfmRun);
+    if (backtest.bgnbd || fit) {
+      const bgRun = toRunRecord(
+        organization_id,
+        BGNBD_MODEL_VERSION,
+        backtest.bgnbd ?? evaluateBacktest([]),
+        backtest.cutoff,
+        holdout_days,
+        now
+      );
+      if (fit) {
+        const sortedTotals = [...orgDraws365].sort((a, b) => a - b);
+        Object.assign(bgRun, {
+          params: fit.params,
+          log_likelihood: Math.round(fit.logLikelihood * 100) / 100,
+          donors_trained: fit.donorsTrained,
+          predicted_total_365_low: round2(quantile(sortedTotals, INTERVAL_LOW)),
+          predicted_total_365_high: round2(quantile(sortedTotals, INTERVAL_HIGH)),
+        });
+      }
+      runs.push(bgRun);
+    }
+    const activeRun = runs.find(run => run.model_version === activeVersion)!;
+    activeRun.donors_scored = predictions.length;
+    activeRun.predicted_total_365 = round2(predictions.reduce((sum, p) => sum + p.predicted_ltv_365, 0));
+
+    const { data: insertedRuns, error: runsError } = await supabase
+      .from('donor_ltv_model_runs')
+      .insert(runs)
+      .select('id, model_version');
+    if (runsError) {
+      console.error('[DONOR LTV] Failed to record model runs:', runsError);
+    }
+    const activeRunId = insertedRuns?.find(run => run.model_version === activeVersion)?.id ?? null;
+
+    // 7. Upsert predictions in batches
+    console.log(`[DONOR LTV] Upserting ${predictions.length} predictions (${activeVersion})...`);
     let upsertedCount = 0;
     let errorCount = 0;
 
     for (let i = 0; i < predictions.length; i += batch_size) {
-      const batch = predictions.slice(i, i + batch_size);
-      
+      const batch = predictions.slice(i, i + batch_size).map(p => ({ ...p, model_run_id: activeRunId }));
+
       const { error: upsertError } = await supabase
         .from('donor_ltv_predictions')
         .upsert(batch, { onConflict: 'organization_id,donor_key' });
 
       if (upsertError) {
-        console.error(`[DONOR LTV v2.0] Batch upsert error:`, upsertError);
+        console.error(`[DONOR LTV] Batch upsert error:`, upsertError);
         errorCount += batch.length;
       } else {
         upsertedCount += batch.length;
       }
     }
 
-    // 5. Calculate summary stats for logging
+    // Only point the org at the new run once its predictions are in place, and
+    // drop rows for donors that no longer exist on their own (merged persons,
+    // pre-identity-graph donor_keys)
+    if (errorCount === 0) {
+      const { error: staleError } = await supabase
+        .from('donor_ltv_predictions')
+        .delete()
+        .eq('organization_id', organization_id)
+        .lt('calculated_at', now.toISOString());
+      if (staleError) {
+        console.error('[DONOR LTV] Failed to remove stale predictions:', staleError);
+      }
+    }
+    if (activeRunId && errorCount === 0) {
+      await supabase
+        .from('donor_ltv_model_runs')
+        .update({ is_active: false })
+        .eq('organization_id', organization_id)
+        .eq('is_active', true);
+      await supabase
+        .from('donor_ltv_model_runs')
+        .update({ is_active: true })
+        .eq('id', activeRunId);
+    }
+
+    // 8. Calculate summary stats for logging
     const segmentCounts = predictions.reduce((acc, p) => {
       acc[p.segment] = (acc[p.segment] || 0) + 1;
       return acc;
@@ -398,61 +750,82 @@ serve(async (req) => {
       return acc;
     }, {} as Record<string, number>);
 
-    const avgLTV90 = predictions.length > 0 
+    const avgLTV90 = predictions.length > 0
       ? predictions.reduce((sum, p) => sum + p.predicted_ltv_90, 0) / predictions.length
       : 0;
 
-    // 6. Update processing checkpoint
+    const backtestSummary = {
+      holdout_days,
+      [RFM_MODEL_VERSION]: { calibration_error: rfmRun.calibration_error, aggregate_error_pct: rfmRun.aggregate_error_pct },
+      ...(backtest.bgnbd ? {
+        [BGNBD_MODEL_VERSION]: {
+          calibration_error: runs[1].calibration_error,
+          aggregate_error_pct: runs[1].aggregate_error_pct,
+          interval_coverage: runs[1].interval_coverage,
+        },
+      } : {}),
+    };
+
+    // 9. Update processing checkpoint
     try {
       await supabase.rpc('update_processing_checkpoint', {
         p_function_name: 'calculate-donor-ltv',
         p_records_processed: upsertedCount,
         p_checkpoint_data: {
           organization_id,
-          model_version: 'political_rfm_v2.0',
+          model_version: activeVersion,
+          model_run_id: activeRunId,
           segments: segmentCounts,
           churn_risk_distribution: riskCounts,
-          avg_ltv_90: Math.round(avgLTV90 * 100) / 100,
+          avg_ltv_90: round2(avgLTV90),
+          backtest: backtestSummary,
         },
       });
     } catch (checkpointError) {
-      console.warn('[DONOR LTV v2.0] Failed to update checkpoint:', checkpointError);
+      console.warn('[DONOR LTV] Failed to update checkpoint:', checkpointError);
     }
 
     const duration = Date.now() - startTime;
-    console.log(`[DONOR LTV v2.0] Complete. Processed ${upsertedCount} donors in ${duration}ms`);
-    console.log(`[DONOR LTV v2.0] Churn distribution: ${JSON.stringify(riskCounts)}`);
-    console.log(`[DONOR LTV v2.0] Segment distribution: ${JSON.stringify(segmentCounts)}`);
+    console.log(`[DONOR LTV] Complete. Processed ${upsertedCount} donors in ${duration}ms`);
+    console.log(`[DONOR LTV] Churn distribution: ${JSON.stringify(riskCounts)}`);
+    console.log(`[DONOR LTV] Segment distribution: ${JSON.stringify(segmentCounts)}`);
 
     return new Response(
       JSON.stringify({
         success: true,
         donors_processed: upsertedCount,
+        predictions_created: upsertedCount,
         errors: errorCount,
         duration_ms: duration,
-        model_version: 'political_rfm_v2.0',
+        model_version: activeVersion,
+        model_run_id: activeRunId,
         summary: {
           segments: segmentCounts,
           churn_risk: riskCounts,
-          avg_ltv_90: Math.round(avgLTV90 * 100) / 100,
+          avg_ltv_90: round2(avgLTV90),
+          predicted_total_365: activeRun.predicted_total_365,
+          predicted_total_365_interval: activeRun.predicted_total_365_low === null
+            ? null
+            : [activeRun.predicted_total_365_low, activeRun.predicted_total_365_high],
         },
+        backtest: backtestSummary,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
-    console.error('[DONOR LTV v2.0] Error:', error);
-    
+    console.error('[DONOR LTV] Error:', error);
+
     // Log failure
     try {
       const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
       const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
       const supabase = createClient(supabaseUrl, serviceRoleKey);
-      
+
       await supabase.rpc('log_job_failure', {
         p_function_name: 'calculate-donor-ltv',
         p_error_message: error instanceof Error ? error.message : String(error),
-        p_context: { model_version: 'political_rfm_v2.0' },
+        p_context: { model_version: BGNBD_MODEL_VERSION },
       });
     } catch (_) { /* ignore */ }
 
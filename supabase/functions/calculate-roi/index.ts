@@ -114,6 +114,18 @@ serve(async (req) => {
       const totalImpressions = metaMetrics?.reduce((sum, m) => sum + (m.impressions || 0), 0) || 0;
       const totalClicks = metaMetrics?.reduce((sum, m) => sum + (m.clicks || 0), 0) || 0;
 
+      // Google Ads spend (campaign level only, so ad groups/ads aren't double counted)
+      const { data: googleMetrics } = await supabase
+        .from('google_ads_metrics_daily')
+        .select('cost, impressions, clicks')
+        .eq('organization_id', organization_id)
+        .eq('level', 'campaign')
+        .eq('date', date);
+
+      const googleAdsSpend = googleMetrics?.reduce((sum, m) => sum + Number(m.cost || 0), 0) || 0;
+      const googleAdsImpressions = googleMetrics?.reduce((sum, m) => sum + Number(m.impressions || 0), 0) || 0;
+      const googleAdsClicks = googleMetrics?.reduce((sum, m) => sum + Number(m.clicks || 0), 0) || 0;
+
       // Fetch SMS costs for the date (using sms_campaigns, not sms_campaign_metrics)
       // Note: sms_campaigns uses send_date as the date field
       const { data: smsCampaigns } = await supabase
@@ -173,7 +185,7 @@ serve(async (req) => {
       }
 
       // Calculate ROI using net revenue
-      const totalSpent = totalAdSpend + totalSmsCost;
+      const totalSpent = totalAdSpend + googleAdsSpend + totalSmsCost;
       const roiPercentage = totalSpent > 0
         ? ((totalFundsRaised - totalSpent) / totalSpent) * 100
         : 0;
@@ -189,7 +201,7 @@ serve(async (req) => {
         .upsert({
           organization_id,
           date,
-          total_ad_spend: totalAdSpend,
+          total_ad_spend: totalAdSpend + googleAdsSpend,
           total_sms_cost: totalSmsCost,
           total_funds_raised: totalFundsRaised,
           total_donations: totalDonations,
@@ -197,6 +209,9 @@ serve(async (req) => {
           roi_percentage: roiPercentage,
           meta_impressions: totalImpressions,
           meta_clicks: totalClicks,
+          google_ads_spend: googleAdsSpend,
+          google_ads_impressions: googleAdsImpressions,
+          google_ads_clicks: googleAdsClicks,
           sms_sent: totalSmsSent,
           sms_conversions: totalSmsConversions,
           calculated_at: new Date().toISOString(),
@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, validateCronOrAdmin, logJobFailure, checkRateLimit } from "../_shared/security.ts";
+import { definePrompt, isLLMConfigured } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
 
 interface TopicData {
   topic: string;
@@ -1142,6 +1144,15 @@ function calculateEnhancedVelocity(
   };
 }
 
+const clusterSummaryPrompt = definePrompt<{ headlines: string[] }>({
+  id: 'calculate-trend-clusters.summary',
+  version: 1,
+  model: 'google/gemini-2.5-flash-lite',
+  maxTokens: 100,
+  system: 'Create a 1-sentence news summary from these headlines. Be SPECIFIC about names, events, and what happened. Never be generic.',
+  user: ({ headlines }) => headlines.join('\n'),
+});
+
 serve(async (req) => {
   const corsHeaders = getCorsHeaders();
   
@@ -1152,8 +1163,8 @@ serve(async (req) => {
   const startTime = Date.now();
   const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
   const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-  const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
   const supabase = createClient(supabaseUrl, supabaseKey);
+  const llm = createLLMClientForFunction(supabase, 'calculate-trend-clusters');
   
   try {
     // SECURITY: Require cron secret or admin JWT
@@ -2033,34 +2044,15 @@ serve(async (req) => {
       // Generate summary using AI (only for high-signal topics)
       let clusterSummary = topicData.sample_headlines[0] || topicData.topic;
       
-      if (isTrending && lovableApiKey && topicData.sample_headlines.length >= 3) {
+      if (isTrending && isLLMConfigured() && topicData.sample_headlines.length >= 3) {
         try {
-          const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${lovableApiKey}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              model: 'google/gemini-2.5-flash-lite',
-              messages: [
-                {
-                  role: 'system',
-                  content: 'Create a 1-sentence news summary from these headlines. Be SPECIFIC about names, events, and what happened. Never be generic.'
-                },
-                {
-                  role: 'user',
-                  content: topicData.sample_headlines.slice(0, 5).join('\n')
-                }
-              ],
-              max_tokens: 100
-            })
-          });
-          
-          if (response.ok) {
-            const data = await response.json();
-            clusterSummary = data.choices[0]?.message?.content || clusterSummary;
-          }
+          // Runs repeat every few minutes; unchanged headlines reuse the last summary
+          const { content } = await llm.run(
+            clusterSummaryPrompt,
+            { headlines: topicData.sample_headlines.slice(0, 5) },
+            { cacheTtlSeconds: 3600 }
+          );
+          clusterSummary = content || clusterSummary;
         } catch (e) {
           console.error('AI summary error:', e);
         }
@@ -24,6 +24,12 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -51,6 +57,9 @@ serve(async (req) => {
       utm_campaign,
       landing_url,
       referrer,
+      tracked_link_id,
+      link_variant_id,
+      visitor_id,
     } = body;
 
     // Map incoming touchpoint_type to allowed values
@@ -136,6 +145,11 @@ serve(async (req) => {
     if (landing_url) metadata.landing_url = landing_url;
     if (referrer) metadata.referrer = referrer;
 
+    // Tracked link rotation: which variant this visitor was sent to
+    if (isUuid(tracked_link_id)) metadata.tracked_link_id = tracked_link_id;
+    if (isUuid(link_variant_id)) metadata.link_variant_id = link_variant_id;
+    if (visitor_id) metadata.visitor_id = String(visitor_id).substring(0, 64);
+
     // Calculate capture quality score
     let captureScore = 0;
     if (fbp) captureScore += 40;  // Browser cookie - most valuable
@@ -0,0 +1,120 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
+import { getCorsHeaders, validateAuth, userBelongsToOrg } from "../_shared/security.ts";
+import { z, parseJsonBody, uuidSchema } from "../_shared/validators.ts";
+import { analyzeSmsSegments } from "../_shared/complianceChecker.ts";
+import { evaluateTextingRules, isValidTimeZone, settingsFromRow } from "../_shared/textingRules.ts";
+
+/**
+ * Runs the org's enabled texting rule packs against draft messages and
+ * returns per-rule pass/fail explanations (plus segment counts) for
+ * ClientActions and the Campaign Launcher. Time-window rules only run once
+ * the caller passes send_at.
+ */
+
+const corsHeaders = getCorsHeaders();
+
+const MAX_MESSAGES = 20;
+
+const bodySchema = z.object({
+  organization_id: uuidSchema,
+  messages: z.array(z.string().max(1600)).min(1).max(MAX_MESSAGES),
+  recipient_state: z.string().length(2).nullable().optional(),
+  recipient_timezone: z.string().max(64)
+    .refine(isValidTimeZone, 'Must be an IANA time zone, e.g. America/Chicago')
+    .nullable().optional(),
+  recipient_messages_last_24h: z.coerce.number().int().min(0).nullable().optional(),
+  send_at: z.string().datetime({ offset: true }).optional(),
+  opt_out_appended: z.boolean().optional(),
+});
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const authResult = await validateAuth(req, supabase);
+    if (!authResult) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const parsed = await parseJsonBody(req, bodySchema);
+    if (!parsed.ok) {
+      return new Response(
+        JSON.stringify({ error: parsed.error, details: parsed.details }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const body = parsed.data;
+
+    const canAccessOrg = authResult.isAdmin || await userBelongsToOrg(supabase, authResult.user.id, body.organization_id);
+    if (!canAccessOrg) {
+      return new Response(
+        JSON.stringify({ error: 'Forbidden' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const [{ data: settingsRow }, { data: org }] = await Promise.all([
+      supabase
+        .from('texting_compliance_settings')
+        .select('enabled_packs, paid_for_by, quiet_hours_start, quiet_hours_end, allowed_link_domains')
+        .eq('organization_id', body.organization_id)
+        .maybeSingle(),
+      supabase
+        .from('client_organizations')
+        .select('name')
+        .eq('id', body.organization_id)
+        .maybeSingle(),
+    ]);
+
+    const settings = settingsFromRow(settingsRow);
+    const sendAt = body.send_at ? new Date(body.send_at) : null;
+
+    const results = body.messages.map(message => {
+      const report = evaluateTextingRules({
+        message,
+        orgName: org?.name,
+        sendAt,
+        recipientState: body.recipient_state,
+        recipientTimezone: body.recipient_timezone,
+        recipientMessagesLast24h: body.recipient_messages_last_24h,
+        optOutAppended: body.opt_out_appended,
+        settings,
+      });
+      const sms = analyzeSmsSegments(message);
+      return {
+        message,
+        status: report.status,
+        rules: report.results,
+        encoding: sms.encoding,
+        segment_count: sms.segments,
+        estimated_cost: sms.estimated_cost,
+      };
+    });
+
+    return new Response(
+      JSON.stringify({
+        send_at: sendAt?.toISOString() ?? null,
+        enabled_packs: settings.enabledPacks,
+        results,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('[check-texting-compliance] Error:', error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
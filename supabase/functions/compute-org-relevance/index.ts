@@ -61,6 +61,7 @@ interface OrgProfile {
   opponents?: string[];
   priority_lanes?: string[];
   embedding?: number[];
+  embedding_model?: string | null;
 }
 
 interface InterestTopic {
@@ -87,28 +88,10 @@ interface TrendEvent {
   current_6h?: number;
   current_24h?: number;
   source_count?: number;
-  embedding?: number[] | null;
 }
 
-// Cosine similarity for semantic matching
-function cosineSimilarity(a: number[] | null, b: number[] | null): number {
-  if (!a || !b || a.length !== b.length || a.length === 0) return 0;
-  
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-  
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
-  
-  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
-  if (magnitude === 0) return 0;
-  
-  return dotProduct / magnitude;
-}
+// Minimum profile/trend cosine similarity that earns a semantic boost
+const SEMANTIC_MATCH_THRESHOLD = 0.3;
 
 // Parse pgvector format to number array
 function parseEmbedding(embedding: any): number[] | null {
@@ -210,7 +193,7 @@ function calculateRelevance(
   interestTopics: InterestTopic[],
   interestEntities: InterestEntity[],
   outcomeCorrelation?: OutcomeCorrelation,
-  trendEmbedding?: number[] | null
+  semanticSimilarity?: number | null
 ): OrgRelevanceScore {
   const result: OrgRelevanceScore = {
     organization_id: profile?.organization_id || '',
@@ -373,11 +356,11 @@ function calculateRelevance(
   }
 
   // 10. Semantic similarity boost (up to 20 points)
-  // Uses embedding cosine similarity for deeper semantic matching
-  if (profile?.embedding && trendEmbedding) {
-    const similarity = cosineSimilarity(profile.embedding, trendEmbedding);
+  // Uses the profile/trend embedding similarity from match_trend_events
+  if (semanticSimilarity != null) {
+    const similarity = semanticSimilarity;
     
-    if (similarity > 0.3) {
+    if (similarity > SEMANTIC_MATCH_THRESHOLD) {
       // Scale similarity (0.3 to 0.9 range) to points (5 to 20)
       const semanticBoost = Math.min(20, Math.round((similarity - 0.3) * 33.33) + 5);
       score += semanticBoost;
@@ -505,20 +488,17 @@ serve(async (req) => {
       entitiesMap.get(e.organization_id)!.push(e as InterestEntity);
     }
 
-    // Get current trends from trend_events WITH embeddings
+    // Get current trends from trend_events
+    const trendsSince = new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString();
     const { data: trendEvents } = await supabase
       .from('trend_events')
-      .select('id, event_key, event_title, velocity, is_trending, is_breaking, confidence_score, current_1h, current_6h, current_24h, source_count, embedding')
+      .select('id, event_key, event_title, velocity, is_trending, is_breaking, confidence_score, current_1h, current_6h, current_24h, source_count')
       .eq('is_trending', true)
-      .gte('last_seen_at', new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString())
+      .gte('last_seen_at', trendsSince)
       .order('velocity', { ascending: false })
       .limit(150);
     
-    // Parse trend embeddings
-    const trends: TrendEvent[] = (trendEvents || []).map(t => ({
-      ...t,
-      embedding: parseEmbedding(t.embedding),
-    }));
+    const trends: TrendEvent[] = trendEvents || [];
     console.log(`📈 Scoring ${trends.length} trend_events for ${orgs?.length || 0} orgs`);
 
     // Fetch recent outcome correlations for learning signal (last 7 days)
@@ -555,6 +535,25 @@ serve(async (req) => {
       const interestEntities = entitiesMap.get(org.id) || [];
       const orgCorrelations = correlationMap.get(org.id);
 
+      // Semantic matches for this org's profile: trend_event id -> similarity.
+      // match_trend_events only compares vectors from the profile's embedding model.
+      const semanticMatches = new Map<string, number>();
+      if (profile?.embedding && profile.embedding_model) {
+        const { data: matches, error: matchError } = await supabase.rpc('match_trend_events', {
+          p_query_embedding: JSON.stringify(profile.embedding),
+          p_model: profile.embedding_model,
+          p_match_threshold: SEMANTIC_MATCH_THRESHOLD,
+          p_match_count: 200,
+          p_since: trendsSince,
+        });
+        if (matchError) {
+          console.error(`Semantic match failed for org ${org.id}:`, matchError.message);
+        }
+        for (const match of matches || []) {
+          semanticMatches.set(match.id, match.similarity);
+        }
+      }
+
       for (const trend of trends) {
         // Look up outcome correlation for this trend
         const trendKeyNormalized = trend.event_title.toLowerCase().replace(/[^\w\s]/g, '').replace(/\s+/g, ' ').trim();
@@ -569,7 +568,7 @@ serve(async (req) => {
           interestTopics,
           interestEntities,
           outcomeCorrelation,
-          trend.embedding
+          semanticMatches.get(trend.id) ?? null
         );
 
         if (outcomeCorrelation && relevance.explanation.score_breakdown.outcome_boost) {
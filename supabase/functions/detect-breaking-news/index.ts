@@ -1,17 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, validateCronOrAdmin, logJobFailure, checkRateLimit } from "../_shared/security.ts";
+import { STORY_SIMILARITY_THRESHOLD } from "../_shared/storyClusters.ts";
+import { assignStoryClusterIds, storyItemKey } from "../_shared/storyClusterStore.ts";
 
 const corsHeaders = getCorsHeaders();
 
-function calculateSimilarity(title1: string, title2: string): number {
-  const words1 = new Set(title1.toLowerCase().split(/\s+/));
-  const words2 = new Set(title2.toLowerCase().split(/\s+/));
-  const intersection = new Set([...words1].filter(x => words2.has(x)));
-  const union = new Set([...words1, ...words2]);
-  return intersection.size / union.size;
-}
-
 function extractEntities(text: string): string[] {
   const entities: string[] = [];
   const patterns = [
@@ -65,7 +59,7 @@ serve(async (req) => {
     const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
     const { data: articles, error: articlesError } = await supabase
       .from('articles')
-      .select('id, title, description, source_name, threat_level, published_date, tags, affected_organizations')
+      .select('id, title, description, content, source_name, threat_level, published_date, tags, affected_organizations, story_cluster_id')
       .gte('published_date', oneHourAgo)
       .order('published_date', { ascending: false });
 
@@ -81,48 +75,43 @@ serve(async (req) => {
 
     console.log(`[detect-breaking-news] Analyzing ${articles.length} recent articles`);
 
-    const clusters: Map<number, {
+    // Articles are clustered at ingest; cluster any that arrived without one
+    const { clusterIds } = await assignStoryClusterIds(
+      supabase,
+      articles.filter(a => !a.story_cluster_id).map(a => ({
+        type: 'rss' as const,
+        id: a.id,
+        title: a.title,
+        body: a.content || a.description,
+        publishedAt: a.published_date,
+      }))
+    );
+
+    const clusters: Map<string, {
       articles: typeof articles,
       title: string,
-      similarity: number,
       entities: Set<string>
     }> = new Map();
 
-    let clusterIndex = 0;
-
-    for (let i = 0; i < articles.length; i++) {
-      const article1 = articles[i];
-      let assignedToCluster = false;
-
-      for (const [clusterId, cluster] of clusters) {
-        for (const article2 of cluster.articles) {
-          const similarity = calculateSimilarity(article1.title, article2.title);
-          if (similarity > 0.4) {
-            cluster.articles.push(article1);
-            assignedToCluster = true;
-            const entities1 = extractEntities(article1.title + ' ' + (article1.description || ''));
-            entities1.forEach(e => cluster.entities.add(e));
-            break;
-          }
-        }
-        if (assignedToCluster) break;
-      }
-
-      if (!assignedToCluster) {
-        const entities = new Set(extractEntities(article1.title + ' ' + (article1.description || '')));
-        clusters.set(clusterIndex++, {
-          articles: [article1],
-          title: article1.title,
-          similarity: 1.0,
-          entities
-        });
+    // Oldest first, so the first report names the cluster
+    for (const article of [...articles].reverse()) {
+      const clusterId = article.story_cluster_id || clusterIds.get(storyItemKey('rss', article.id));
+      if (!clusterId) continue;
+
+      const entities = extractEntities(article.title + ' ' + (article.description || ''));
+      const cluster = clusters.get(clusterId);
+      if (cluster) {
+        cluster.articles.push(article);
+        entities.forEach(e => cluster.entities.add(e));
+      } else {
+        clusters.set(clusterId, { articles: [article], title: article.title, entities: new Set(entities) });
       }
     }
 
     console.log(`[detect-breaking-news] Found ${clusters.size} potential clusters`);
 
     const breakingClusters = [];
-    for (const [_, cluster] of clusters) {
+    for (const [storyClusterId, cluster] of clusters) {
       if (cluster.articles.length >= 5) {
         const sources = new Set(cluster.articles.map(a => a.source_name));
         
@@ -134,11 +123,21 @@ serve(async (req) => {
           const { data: existing } = await supabase
             .from('breaking_news_clusters')
             .select('id')
-            .contains('article_ids', articleIds.slice(0, 3))
+            .eq('story_cluster_id', storyClusterId)
             .eq('is_resolved', false)
             .maybeSingle();
 
-          if (!existing) {
+          if (existing) {
+            // Same story still breaking: keep the article list current
+            await supabase
+              .from('breaking_news_clusters')
+              .update({
+                article_ids: articleIds,
+                source_count: sources.size,
+                last_updated_at: new Date().toISOString(),
+              })
+              .eq('id', existing.id);
+          } else {
             const allTags = cluster.articles.flatMap(a => a.tags || []);
             const tagCounts = new Map<string, number>();
             allTags.forEach(tag => tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1));
@@ -151,8 +150,9 @@ serve(async (req) => {
               cluster_title: cluster.title,
               summary: `Breaking: ${cluster.articles.length} sources reporting on ${[...cluster.entities].slice(0, 3).join(', ')}`,
               article_ids: articleIds,
+              story_cluster_id: storyClusterId,
               source_count: sources.size,
-              similarity_threshold: 0.4,
+              similarity_threshold: STORY_SIMILARITY_THRESHOLD,
               first_detected_at: new Date().toISOString(),
               last_updated_at: new Date().toISOString(),
               time_window_hours: 1,
@@ -1,62 +1,19 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, validateCronOrAdmin, checkRateLimit } from "../_shared/security.ts";
+import { STORY_SIMILARITY_THRESHOLD } from "../_shared/storyClusters.ts";
+import { assignStoryClusterIds, pruneStoryClusterItems, storyItemKey } from "../_shared/storyClusterStore.ts";
 
 const corsHeaders = getCorsHeaders();
 
-// Calculate Levenshtein distance for string similarity
-function levenshtein(a: string, b: string): number {
-  const matrix = [];
-  
-  for (let i = 0; i <= b.length; i++) {
-    matrix[i] = [i];
-  }
-  
-  for (let j = 0; j <= a.length; j++) {
-    matrix[0][j] = j;
-  }
-  
-  for (let i = 1; i <= b.length; i++) {
-    for (let j = 1; j <= a.length; j++) {
-      if (b.charAt(i - 1) === a.charAt(j - 1)) {
-        matrix[i][j] = matrix[i - 1][j - 1];
-      } else {
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j - 1] + 1,
-          matrix[i][j - 1] + 1,
-          matrix[i - 1][j] + 1
-        );
-      }
-    }
-  }
-  
-  return matrix[b.length][a.length];
-}
-
-// Calculate similarity score (0-1) between two strings
-function similarity(s1: string, s2: string): number {
-  const longer = s1.length > s2.length ? s1 : s2;
-  const shorter = s1.length > s2.length ? s2 : s1;
-  
-  if (longer.length === 0) return 1.0;
-  
-  const distance = levenshtein(longer, shorter);
-  return (longer.length - distance) / longer.length;
-}
-
-// Calculate content similarity using TF-IDF approach (simplified)
-function contentSimilarity(text1: string, text2: string): number {
-  const words1 = text1.toLowerCase().split(/\s+/);
-  const words2 = text2.toLowerCase().split(/\s+/);
-  
-  const set1 = new Set(words1);
-  const set2 = new Set(words2);
-  
-  const intersection = new Set([...set1].filter(x => set2.has(x)));
-  const union = new Set([...set1, ...set2]);
-  
-  return intersection.size / union.size;
-}
+/**
+ * Detect Duplicates
+ *
+ * Materializes story clusters (see _shared/storyClusters.ts) as
+ * article_clusters and marks every article but the earliest in each cluster
+ * as a duplicate. Articles and Google News items are normally clustered at
+ * ingest; anything that arrived without a cluster is clustered here first.
+ */
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -87,7 +44,8 @@ serve(async (req) => {
       );
     }
 
-    const { lookbackHours = 24, similarityThreshold = 0.75 } = await req.json().catch(() => ({}));
+    // similarityThreshold only applies to items clustered here; ingest uses the default
+    const { lookbackHours = 24, similarityThreshold = STORY_SIMILARITY_THRESHOLD } = await req.json().catch(() => ({}));
 
     console.log(`Detecting duplicates from last ${lookbackHours} hours with threshold ${similarityThreshold}`);
 
@@ -95,57 +53,67 @@ serve(async (req) => {
     const lookbackDate = new Date(Date.now() - lookbackHours * 60 * 60 * 1000).toISOString();
     const { data: articles, error: fetchError } = await supabase
       .from('articles')
-      .select('id, title, description, content, published_date, source_name')
+      .select('id, title, description, content, published_date, source_name, story_cluster_id')
       .gte('published_date', lookbackDate)
       .order('published_date', { ascending: false });
 
     if (fetchError) throw fetchError;
+
+    // Cluster Google News items that missed clustering at ingest
+    const { data: unclusteredNews, error: newsError } = await supabase
+      .from('google_news_articles')
+      .select('id, title, description, published_at')
+      .gte('published_at', lookbackDate)
+      .is('story_cluster_id', null)
+      .limit(2000);
+
+    if (newsError) throw newsError;
+
+    const unclusteredArticles = (articles || []).filter(a => !a.story_cluster_id);
+    const { clusterIds, assigned } = await assignStoryClusterIds(supabase, [
+      ...unclusteredArticles.map(a => ({
+        type: 'rss' as const,
+        id: a.id,
+        title: a.title,
+        body: a.content || a.description,
+        publishedAt: a.published_date,
+      })),
+      ...(unclusteredNews || []).map(n => ({
+        type: 'google_news' as const,
+        id: n.id,
+        title: n.title,
+        body: n.description,
+        publishedAt: n.published_at,
+      })),
+    ], { threshold: similarityThreshold });
+
+    console.log(`Clustered ${assigned} items that arrived without a story cluster`);
+
+    await pruneStoryClusterItems(supabase);
+
     if (!articles || articles.length === 0) {
       return new Response(
-        JSON.stringify({ message: 'No articles to process', clustersCreated: 0 }),
+        JSON.stringify({ message: 'No articles to process', clustersCreated: 0, itemsClustered: assigned }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
     console.log(`Processing ${articles.length} articles for duplicates`);
 
-    const clusters: Map<string, string[]> = new Map();
-    const processed = new Set<string>();
-
-    // Compare each article with others
-    for (let i = 0; i < articles.length; i++) {
-      const article1 = articles[i];
-      
-      if (processed.has(article1.id)) continue;
-
-      const relatedArticles: string[] = [article1.id];
-
-      for (let j = i + 1; j < articles.length; j++) {
-        const article2 = articles[j];
-        
-        if (processed.has(article2.id)) continue;
-
-        // Calculate title similarity
-        const titleSim = similarity(article1.title, article2.title);
-        
-        // Calculate content similarity if content exists
-        const contentSim = article1.content && article2.content
-          ? contentSimilarity(article1.content, article2.content)
-          : 0;
-
-        // Combined similarity score (weighted average)
-        const combinedSim = (titleSim * 0.6) + (contentSim * 0.4);
-
-        if (combinedSim >= similarityThreshold) {
-          relatedArticles.push(article2.id);
-          processed.add(article2.id);
-        }
-      }
+    // Group by story cluster, earliest article first
+    const byStory = new Map<string, typeof articles>();
+    for (const article of [...articles].reverse()) {
+      const clusterId = article.story_cluster_id || clusterIds.get(storyItemKey('rss', article.id));
+      if (!clusterId) continue;
+      const members = byStory.get(clusterId) || [];
+      members.push(article);
+      byStory.set(clusterId, members);
+    }
 
-      // If we found duplicates, create a cluster
-      if (relatedArticles.length > 1) {
-        clusters.set(article1.id, relatedArticles);
-        processed.add(article1.id);
+    const clusters: Map<string, string[]> = new Map();
+    for (const members of byStory.values()) {
+      if (members.length > 1) {
+        clusters.set(members[0].id, members.map(a => a.id));
       }
     }
 
@@ -211,6 +179,7 @@ serve(async (req) => {
       JSON.stringify({
         success: true,
         articlesProcessed: articles.length,
+        itemsClustered: assigned,
         clustersFound: clusters.size,
         clustersCreated,
       }),
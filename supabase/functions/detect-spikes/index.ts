@@ -164,7 +164,7 @@ serve(async (req) => {
               context_summary: `"${org}" mentioned ${data.count} times in last hour across multiple sources`,
               related_articles: data.articles.slice(0, 10),
               status: 'pending',
-              notification_channels: severity === 'critical' ? ['email', 'webhook'] : ['email'],
+              notification_channels: severity === 'critical' ? ['email', 'webhook', 'push'] : ['email'],
               detected_at: new Date().toISOString(),
               retry_count: 0
             });
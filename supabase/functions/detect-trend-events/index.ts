@@ -2,13 +2,18 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, validateCronOrAdmin, logJobFailure, checkRateLimit } from "../_shared/security.ts";
 import { normalizeText, generateHash, extractCanonicalUrl, normalizeUrl, generateContentHash, extractDomain as extractDomainUtil } from "../_shared/urlNormalizer.ts";
+import { clusterSimilarityThreshold, getEmbeddingProvider, parseEmbedding } from "../_shared/embeddings.ts";
+import { isConfidentResolution, resolveMention, type KnowledgeBaseIndex } from "../_shared/entityKnowledgeBase.ts";
+import { loadKnowledgeBaseIndex } from "../_shared/entityKnowledgeBaseStore.ts";
+import { baselineLaneColumns, laneCountsFromSources, laneVelocity, type TrendSourceType } from "../_shared/trendLanes.ts";
+import { emitWebhookEventsInBackground, type PendingWebhookEvent } from "../_shared/webhookStore.ts";
 
 /**
  * Evidence-Based Trend Detection v3 with Phrase Clustering
  * 
  * Improvements:
  * 1. Rolling baselines from trend_baselines (7d/30d)
- * 2. Deduplication via content_hash/canonical_url
+ * 2. Deduplication via story clusters (MinHash/LSH), falling back to content_hash
  * 3. Deduped counts for velocity/confidence
  * 4. Evidence includes canonical_url + content_hash
  * 5. Embedding-based phrase clustering for unified labels
@@ -19,13 +24,14 @@ interface SourceMention {
   title: string;
   url?: string;
   published_at: string;
-  source_type: 'rss' | 'google_news' | 'bluesky';
+  source_type: TrendSourceType;
   sentiment_score?: number;
   sentiment_label?: string;
   topics: string[];
   domain?: string;
   content_hash?: string;
   canonical_url?: string;
+  story_cluster_id?: string; // Near-duplicates across sources share one
   tier?: 'tier1' | 'tier2' | 'tier3' | null; // Source tier for weighting
 }
 
@@ -37,18 +43,20 @@ interface TopicAggregate {
   related_entities: Set<string>; // Single entities that contributed to this phrase
   co_occurrences: Map<string, number>; // Co-occurring topics for context bundles
   mentions: SourceMention[];
-  dedupedMentions: Map<string, SourceMention>; // key = content_hash
+  dedupedMentions: Map<string, SourceMention>; // key = story_cluster_id, else content_hash
   first_seen_at: Date;
   last_seen_at: Date;
   by_source: {
     rss: number;
     google_news: number;
     bluesky: number;
+    reddit: number;
   };
   by_source_deduped: {
     rss: number;
     google_news: number;
     bluesky: number;
+    reddit: number;
   };
   // Tier distribution (deduped)
   by_tier_deduped: {
@@ -69,6 +77,7 @@ interface RollingBaseline {
   rsd_7d: number;
   data_points_7d: number;
   data_points_30d: number;
+  reddit_baseline_7d: number; // Reddit's own hourly average, so its lane has a velocity of its own
 }
 
 interface ExistingTrendEvent {
@@ -80,14 +89,36 @@ interface ExistingTrendEvent {
   current_24h: number;
 }
 
+// A trend_events upsert row; the columns read back after scoring are spelled out
+interface TrendEventRecord {
+  event_key: string;
+  event_title: string;
+  canonical_label: string | null;
+  cluster_id: string | null;
+  last_seen_at: string;
+  current_24h: number;
+  velocity: number;
+  rank_score: number;
+  confidence_score: number;
+  source_count: number;
+  evidence_count: number;
+  is_trending: boolean;
+  is_breaking: boolean;
+  trend_stage: string;
+  top_headline: string | null;
+  [column: string]: unknown;
+}
+
 // Database-loaded entity aliases for canonicalization
 let dbAliases: Map<string, { canonical_name: string; entity_type: string }> = new Map();
+let knowledgeBase: KnowledgeBaseIndex | null = null;
 
 // Source authority weights for label selection
 const SOURCE_AUTHORITY: Record<string, number> = {
   'rss': 3,        // News sources have highest authority
   'google_news': 2.5, // Google News aggregated
   'bluesky': 1,    // Social media lower authority
+  'reddit': 1,     // Social media lower authority
 };
 
 // ============================================================================
@@ -107,14 +138,14 @@ const SOURCE_TYPE_WEIGHTS: Record<string, number> = {
   'rss': 1.0,         // Direct RSS feeds (highest trust)
   'google_news': 0.8, // Aggregated news
   'bluesky': 0.3,     // Social media (lowest trust)
+  'reddit': 0.3,      // Social media (lowest trust)
 };
 
+const SOCIAL_SOURCE_TYPES = new Set<SourceMention['source_type']>(['bluesky', 'reddit']);
+
 // Cross-tier corroboration requirement: tier3-only trends are demoted
 const REQUIRE_TIER12_CORROBORATION = true;
 
-// Similarity threshold for phrase clustering
-const EMBEDDING_SIMILARITY_THRESHOLD = 0.82;
-
 // ============================================================================
 // QUALITY GATES: Prevent noisy/low-value topics
 // ============================================================================
@@ -462,23 +493,17 @@ function passesQualityGates(
   return { passes: true };
 }
 
-// Fallback topic aliases (used when DB is unavailable)
-const TOPIC_ALIASES: Record<string, string> = {
-  'trump': 'Donald Trump',
-  'biden': 'Joe Biden',
-  'harris': 'Kamala Harris',
-  'musk': 'Elon Musk',
-  'doge': 'DOGE',
-  'gop': 'Republican Party',
-  'dems': 'Democratic Party',
-  'scotus': 'Supreme Court',
-  'potus': 'President',
-};
-
 /**
- * Load entity aliases from database for canonicalization
+ * Load the entity knowledge base and cached aliases for canonicalization
  */
-async function loadEntityAliases(supabase: any): Promise<void> {
+async function loadEntityAliases(supabase: ReturnType<typeof createClient>): Promise<void> {
+  try {
+    knowledgeBase = await loadKnowledgeBaseIndex(supabase);
+    console.log(`[detect-trend-events] Loaded ${knowledgeBase.entities.size} knowledge base entities`);
+  } catch (e) {
+    console.error('Failed to load entity knowledge base:', e);
+  }
+
   try {
     const { data, error } = await supabase
       .from('entity_aliases')
@@ -884,6 +909,7 @@ function calculateAuthorityScore(
   score += agg.by_source_deduped.rss * SOURCE_AUTHORITY['rss'];
   score += agg.by_source_deduped.google_news * SOURCE_AUTHORITY['google_news'];
   score += agg.by_source_deduped.bluesky * SOURCE_AUTHORITY['bluesky'];
+  score += agg.by_source_deduped.reddit * SOURCE_AUTHORITY['reddit'];
   
   // Domain authority bonus
   for (const mention of agg.dedupedMentions.values()) {
@@ -896,33 +922,33 @@ function calculateAuthorityScore(
   return score;
 }
 
-function normalizeTopicKey(topic: string): string {
-  const lower = topic.toLowerCase().trim();
-  
-  // Check database aliases first
-  if (dbAliases.has(lower)) {
-    return dbAliases.get(lower)!.canonical_name.toLowerCase().replace(/\s+/g, '_');
-  }
-  
-  // Check hardcoded aliases
-  if (TOPIC_ALIASES[lower]) {
-    return TOPIC_ALIASES[lower].toLowerCase().replace(/\s+/g, '_');
+/**
+ * Canonical entity name for a topic, or null to keep the topic as is. When
+ * the knowledge base knows the name it decides, using the headline or post
+ * as context; a namesake it can't tell apart stays unmerged.
+ */
+function canonicalTopicName(topic: string, context?: string): string | null {
+  if (knowledgeBase) {
+    const resolution = resolveMention(knowledgeBase, topic, { text: context });
+    if (resolution) return isConfidentResolution(resolution) ? resolution.entity.canonical_name : null;
   }
   
-  return lower.replace(/[^\w\s]/g, '').replace(/\s+/g, '_');
+  return dbAliases.get(topic.toLowerCase().trim())?.canonical_name ?? null;
 }
 
-function normalizeTopicTitle(topic: string): string {
-  const lower = topic.toLowerCase().trim();
-  
-  // Check database aliases first
-  if (dbAliases.has(lower)) {
-    return dbAliases.get(lower)!.canonical_name;
+function normalizeTopicKey(topic: string, context?: string): string {
+  const canonical = canonicalTopicName(topic, context);
+  if (canonical) {
+    return canonical.toLowerCase().replace(/\s+/g, '_');
   }
   
-  // Check hardcoded aliases
-  if (TOPIC_ALIASES[lower]) {
-    return TOPIC_ALIASES[lower];
+  return topic.toLowerCase().trim().replace(/[^\w\s]/g, '').replace(/\s+/g, '_');
+}
+
+function normalizeTopicTitle(topic: string, context?: string): string {
+  const canonical = canonicalTopicName(topic, context);
+  if (canonical) {
+    return canonical;
   }
   
   // Preserve event phrase formatting
@@ -950,8 +976,10 @@ const PERF_LIMITS = {
   MAX_RSS_ARTICLES: 1000,       // Limit RSS articles per run
   MAX_GOOGLE_NEWS: 800,         // Limit Google News articles  
   MAX_BLUESKY_POSTS: 2000,      // Limit Bluesky posts (was 5000)
+  MAX_REDDIT_POSTS: 1000,       // Limit Reddit posts
   MAX_EXISTING_EVENTS: 300,     // Limit embedding index (was 500)
   UPSERT_BATCH_SIZE: 100,       // Batch upserts to avoid large payloads
+  MAX_TREND_WEBHOOKS: 10,       // Newly trending events announced to trend.detected subscribers per run
   TIMEOUT_GUARD_MS: 45000,      // Exit early if nearing 50s CPU limit
 };
 
@@ -999,7 +1027,7 @@ serve(async (req) => {
       );
     }
 
-    console.log(`[detect-trend-events] Starting v4 with perf limits: window=${PERF_LIMITS.TIME_WINDOW_HOURS}h, rss=${PERF_LIMITS.MAX_RSS_ARTICLES}, gn=${PERF_LIMITS.MAX_GOOGLE_NEWS}, bsky=${PERF_LIMITS.MAX_BLUESKY_POSTS}`);
+    console.log(`[detect-trend-events] Starting v4 with perf limits: window=${PERF_LIMITS.TIME_WINDOW_HOURS}h, rss=${PERF_LIMITS.MAX_RSS_ARTICLES}, gn=${PERF_LIMITS.MAX_GOOGLE_NEWS}, bsky=${PERF_LIMITS.MAX_BLUESKY_POSTS}, reddit=${PERF_LIMITS.MAX_REDDIT_POSTS}`);
     currentPhase = 'load_aliases';
     
     // Load entity aliases for canonicalization
@@ -1072,13 +1100,13 @@ serve(async (req) => {
     
     const { data: baselineData } = await supabase
       .from('trend_baselines')
-      .select('event_key, baseline_date, hourly_average, hourly_std_dev, relative_std_dev')
+      .select('event_key, baseline_date, hourly_average, hourly_std_dev, relative_std_dev, reddit_hourly_average')
       .gte('baseline_date', days30Ago.toISOString().split('T')[0])
       .order('baseline_date', { ascending: false });
     
     // Compute rolling averages per event_key
     const rollingBaselines = new Map<string, RollingBaseline>();
-    const baselinesByKey = new Map<string, { date: string; hourly_avg: number; hourly_std_dev: number; relative_std_dev: number }[]>();
+    const baselinesByKey = new Map<string, { date: string; hourly_avg: number; hourly_std_dev: number; relative_std_dev: number; reddit_hourly_avg: number }[]>();
     
     for (const b of baselineData || []) {
       if (!baselinesByKey.has(b.event_key)) {
@@ -1089,6 +1117,7 @@ serve(async (req) => {
         hourly_avg: Number(b.hourly_average) || 0,
         hourly_std_dev: Number(b.hourly_std_dev) || 0,
         relative_std_dev: Number(b.relative_std_dev) || 0,
+        reddit_hourly_avg: Number(b.reddit_hourly_average) || 0,
       });
     }
     
@@ -1115,6 +1144,9 @@ serve(async (req) => {
       const rsd7d = last7d.length > 0
         ? last7d.reduce((sum, b) => sum + b.relative_std_dev, 0) / last7d.length
         : 0;
+      const reddit7d = last7d.length > 0
+        ? last7d.reduce((sum, b) => sum + b.reddit_hourly_avg, 0) / last7d.length
+        : 0;
       
       rollingBaselines.set(key, {
         baseline_7d: avg7d,
@@ -1124,6 +1156,7 @@ serve(async (req) => {
         rsd_7d: rsd7d,
         data_points_7d: last7d.length,
         data_points_30d: last30d.length,
+        reddit_baseline_7d: reddit7d,
       });
     }
     
@@ -1136,8 +1169,8 @@ serve(async (req) => {
     
     // Helper to generate content hash for deduplication
     const generateMentionHash = (mention: SourceMention): string => {
-      // For Bluesky, use text hash since no URL
-      if (mention.source_type === 'bluesky') {
+      // For social posts, use text hash: the post URL is unique even when the text is a repost
+      if (SOCIAL_SOURCE_TYPES.has(mention.source_type)) {
         return generateHash(normalizeText(mention.title || '').substring(0, 100));
       }
       // For articles, use canonical URL + title hash
@@ -1150,7 +1183,7 @@ serve(async (req) => {
     
     // Helper to add mention to topic with deduplication
     const addMention = (topic: string, mention: SourceMention) => {
-      const key = normalizeTopicKey(topic);
+      const key = normalizeTopicKey(topic, mention.title);
       if (!key || key.length < 2) return;
       
       // Generate content hash for dedupe
@@ -1173,7 +1206,7 @@ serve(async (req) => {
         
         topicMap.set(key, {
           event_key: key,
-          event_title: normalizeTopicTitle(topic),
+          event_title: normalizeTopicTitle(topic, mention.title),
           is_event_phrase: computedIsEventPhrase,
           label_quality_hint: labelQualityHint || null, // FIX: Preserve hint for later use
           related_entities: new Set(),
@@ -1182,8 +1215,8 @@ serve(async (req) => {
           dedupedMentions: new Map(),
           first_seen_at: new Date(mention.published_at),
           last_seen_at: new Date(mention.published_at),
-          by_source: { rss: 0, google_news: 0, bluesky: 0 },
-          by_source_deduped: { rss: 0, google_news: 0, bluesky: 0 },
+          by_source: { rss: 0, google_news: 0, bluesky: 0, reddit: 0 },
+          by_source_deduped: { rss: 0, google_news: 0, bluesky: 0, reddit: 0 },
           by_tier_deduped: { tier1: 0, tier2: 0, tier3: 0 },
           sentiment_sum: 0,
           sentiment_count: 0,
@@ -1197,16 +1230,17 @@ serve(async (req) => {
       agg.mentions.push(mention);
       agg.by_source[mention.source_type]++;
       
-      // Deduplicate: only count unique content hashes
-      if (!agg.dedupedMentions.has(contentHash)) {
-        agg.dedupedMentions.set(contentHash, mention);
+      // Deduplicate: copies of one story count once, whichever source carried them
+      const dedupeKey = mention.story_cluster_id || contentHash;
+      if (!agg.dedupedMentions.has(dedupeKey)) {
+        agg.dedupedMentions.set(dedupeKey, mention);
         agg.by_source_deduped[mention.source_type]++;
         
-        // Track tier distribution (bluesky is always tier3)
-        const tier = mention.tier || (mention.source_type === 'bluesky' ? 'tier3' : null);
+        // Track tier distribution (social posts are always tier3)
+        const tier = mention.tier || (SOCIAL_SOURCE_TYPES.has(mention.source_type) ? 'tier3' : null);
         if (tier === 'tier1') agg.by_tier_deduped.tier1++;
         else if (tier === 'tier2') agg.by_tier_deduped.tier2++;
-        else agg.by_tier_deduped.tier3++; // Default unclassified/bluesky to tier3
+        else agg.by_tier_deduped.tier3++; // Default unclassified/social to tier3
       }
       
       const pubDate = new Date(mention.published_at);
@@ -1220,10 +1254,10 @@ serve(async (req) => {
     };
 
     // Track co-occurrence for context bundles
-    const trackCoOccurrences = (topics: string[]) => {
+    const trackCoOccurrences = (topics: string[], context?: string) => {
       if (!topics || topics.length < 2) return;
       const normalized = topics
-        .map((t) => normalizeTopicKey(t))
+        .map((t) => normalizeTopicKey(t, context))
         .filter((t) => t && t.length > 1);
       for (let i = 0; i < normalized.length; i++) {
         const key = normalized[i];
@@ -1264,7 +1298,7 @@ serve(async (req) => {
     currentPhase = 'fetch_rss';
     const { data: articles } = await supabase
       .from('articles')
-      .select('id, title, source_url, canonical_url, content_hash, published_date, sentiment_score, sentiment_label, tags, extracted_topics')
+      .select('id, title, source_url, canonical_url, content_hash, story_cluster_id, published_date, sentiment_score, sentiment_label, tags, extracted_topics')
       .gte('published_date', hoursWindowAgo.toISOString())
       .eq('is_duplicate', false)
       .order('published_date', { ascending: false })
@@ -1289,7 +1323,7 @@ serve(async (req) => {
             allTopics.push(extracted.topic);
             
             // FIX: Store metadata - handle BOTH formats
-            const key = normalizeTopicKey(extracted.topic);
+            const key = normalizeTopicKey(extracted.topic, article.title);
             if (key && !topicMetadataMap.has(key)) {
               // NEW FORMAT: has explicit is_event_phrase and label_quality
               if (extracted.is_event_phrase !== undefined || extracted.label_quality) {
@@ -1337,6 +1371,7 @@ serve(async (req) => {
         url: article.source_url,
         canonical_url: article.canonical_url || undefined,
         content_hash: article.content_hash || undefined,
+        story_cluster_id: article.story_cluster_id || undefined,
         published_at: article.published_date,
         source_type: 'rss',
         sentiment_score: article.sentiment_score,
@@ -1349,7 +1384,7 @@ serve(async (req) => {
       for (const topic of mention.topics) {
         addMention(topic, mention);
       }
-      trackCoOccurrences(mention.topics);
+      trackCoOccurrences(mention.topics, mention.title);
     }
     
     // 2. Fetch Google News with topics
@@ -1358,7 +1393,7 @@ serve(async (req) => {
     
     const { data: googleNews } = await supabase
       .from('google_news_articles')
-      .select('id, title, url, canonical_url, content_hash, published_at, ai_sentiment, ai_sentiment_label, ai_topics')
+      .select('id, title, url, canonical_url, content_hash, story_cluster_id, published_at, ai_sentiment, ai_sentiment_label, ai_topics')
       .eq('ai_processed', true)
       .eq('is_duplicate', false)
       .gte('published_at', hoursWindowAgo.toISOString())
@@ -1390,6 +1425,7 @@ serve(async (req) => {
         url: item.url,
         canonical_url: item.canonical_url || undefined,
         content_hash: item.content_hash || undefined,
+        story_cluster_id: item.story_cluster_id || undefined,
         published_at: item.published_at,
         source_type: 'google_news',
         sentiment_score: item.ai_sentiment,
@@ -1402,7 +1438,7 @@ serve(async (req) => {
       for (const topic of mention.topics) {
         addMention(topic, mention);
       }
-      trackCoOccurrences(mention.topics);
+      trackCoOccurrences(mention.topics, mention.title);
     }
     
     // 3. Fetch Bluesky posts with topics
@@ -1411,7 +1447,7 @@ serve(async (req) => {
     
     const { data: blueskyPosts } = await supabase
       .from('bluesky_posts')
-      .select('id, text, post_uri, created_at, ai_sentiment, ai_sentiment_label, ai_topics')
+      .select('id, text, post_uri, story_cluster_id, created_at, ai_sentiment, ai_sentiment_label, ai_topics')
       .eq('ai_processed', true)
       .gte('created_at', hoursWindowAgo.toISOString())
       .not('ai_topics', 'is', null)
@@ -1425,6 +1461,7 @@ serve(async (req) => {
         id: post.id,
         title: post.text?.substring(0, 200) || '',
         url: post.post_uri,
+        story_cluster_id: post.story_cluster_id || undefined,
         published_at: post.created_at,
         source_type: 'bluesky',
         sentiment_score: post.ai_sentiment,
@@ -1437,9 +1474,45 @@ serve(async (req) => {
       for (const topic of mention.topics) {
         addMention(topic, mention);
       }
-      trackCoOccurrences(mention.topics);
+      trackCoOccurrences(mention.topics, mention.title);
     }
     
+    // 4. Fetch Reddit posts with topics (analyzed by batch-analyze-content)
+    currentPhase = 'fetch_reddit';
+    if (shouldExitEarly()) throw new Error('Timeout guard triggered before Reddit fetch');
+
+    const { data: redditPosts } = await supabase
+      .from('reddit_posts')
+      .select('id, title, permalink, subreddit, created_utc, ai_sentiment, ai_sentiment_label, ai_topics')
+      .eq('ai_processed', true)
+      .gte('created_utc', hoursWindowAgo.toISOString())
+      .not('ai_topics', 'is', null)
+      .order('created_utc', { ascending: false })
+      .limit(PERF_LIMITS.MAX_REDDIT_POSTS);
+
+    console.log(`[detect-trend-events] Fetched ${redditPosts?.length || 0} Reddit posts (limit: ${PERF_LIMITS.MAX_REDDIT_POSTS})`);
+
+    for (const post of redditPosts || []) {
+      const mention: SourceMention = {
+        id: post.id,
+        title: post.title?.substring(0, 200) || '',
+        url: post.permalink || undefined,
+        published_at: post.created_utc,
+        source_type: 'reddit',
+        sentiment_score: post.ai_sentiment ?? undefined,
+        sentiment_label: post.ai_sentiment_label ?? undefined,
+        topics: post.ai_topics || [],
+        // One domain for all subreddits, so crossposts don't inflate source counts
+        domain: 'reddit.com',
+        tier: 'tier3', // Reddit is always tier3 (social media)
+      };
+
+      for (const topic of mention.topics) {
+        addMention(topic, mention);
+      }
+      trackCoOccurrences(mention.topics, mention.title);
+    }
+
     console.log(`[detect-trend-events] Aggregated ${topicMap.size} unique topics from sources`);
 
     // PHASE 3 DEBUG: Log domain distribution to diagnose multi-source rate
@@ -1467,10 +1540,15 @@ serve(async (req) => {
     currentPhase = 'load_existing_events';
     if (shouldExitEarly()) throw new Error('Timeout guard triggered before existing events fetch');
     
+    // Only vectors from the current model are comparable with each other
+    const embeddingModel = getEmbeddingProvider().model;
+    // Similarity scales differ between models, so the cutoff follows the model
+    const similarityThreshold = clusterSimilarityThreshold(embeddingModel);
     const { data: existingEvents } = await supabase
       .from('trend_events')
       .select('id, event_key, event_title, embedding, related_phrases, current_24h')
       .not('embedding', 'is', null)
+      .eq('embedding_model', embeddingModel)
       .gte('last_seen_at', days7Ago.toISOString())
       .order('current_24h', { ascending: false })
       .limit(PERF_LIMITS.MAX_EXISTING_EVENTS);
@@ -1480,7 +1558,9 @@ serve(async (req) => {
     const existingEventsMap = new Map<string, ExistingTrendEvent>();
     const embeddingsIndex: { key: string; embedding: number[]; title: string; mentions: number }[] = [];
     
-    for (const event of existingEvents || []) {
+    for (const row of existingEvents || []) {
+      // PostgREST returns vector columns as "[x,y,...]" strings
+      const event: ExistingTrendEvent = { ...row, embedding: parseEmbedding(row.embedding) };
       existingEventsMap.set(event.event_key, event);
       if (event.embedding) {
         embeddingsIndex.push({
@@ -1550,7 +1630,7 @@ serve(async (req) => {
           if (indexed.key === key) continue;
           
           const similarity = cosineSimilarity(existing.embedding, indexed.embedding);
-          if (similarity >= EMBEDDING_SIMILARITY_THRESHOLD) {
+          if (similarity >= similarityThreshold) {
             if (!bestMatch || similarity > bestMatch.similarity) {
               bestMatch = { key: indexed.key, similarity };
             }
@@ -1646,7 +1726,7 @@ serve(async (req) => {
     currentPhase = 'process_topics';
     if (shouldExitEarly()) throw new Error('Timeout guard triggered before topic processing');
     
-    const eventsToUpsert: any[] = [];
+    const eventsToUpsert: TrendEventRecord[] = [];
     const evidenceToInsert: any[] = [];
     const clustersToUpsert: any[] = [];
     const baselineStatsByKey = new Map<string, { hourlyStdDev: number; relativeStdDev: number }>();
@@ -1696,10 +1776,11 @@ serve(async (req) => {
       
       // Source counts using DEDUPED counts
       const newsCount = agg.by_source_deduped.rss + agg.by_source_deduped.google_news;
-      const socialCount = agg.by_source_deduped.bluesky;
+      const socialCount = agg.by_source_deduped.bluesky + agg.by_source_deduped.reddit;
       const sourceTypeCount = (agg.by_source_deduped.rss > 0 ? 1 : 0) +
                               (agg.by_source_deduped.google_news > 0 ? 1 : 0) +
-                              (agg.by_source_deduped.bluesky > 0 ? 1 : 0);
+                              (agg.by_source_deduped.bluesky > 0 ? 1 : 0) +
+                              (agg.by_source_deduped.reddit > 0 ? 1 : 0);
 
       // PHASE 3 FIX: Count distinct source domains for better source diversity measurement
       // This counts unique publishers/domains, not just source types
@@ -1769,6 +1850,10 @@ serve(async (req) => {
       const velocity6h = baseline7d > 0 
         ? ((rate6h - baseline7d) / baseline7d) * 100 
         : 0;
+
+      // Reddit lane: Reddit's hourly rate against Reddit's own baseline
+      const redditBaseline7d = rolling?.reddit_baseline_7d || 0;
+      const redditVelocity = laneVelocity(agg.by_source_deduped.reddit, PERF_LIMITS.TIME_WINDOW_HOURS, redditBaseline7d);
       
       // Calculate acceleration
       const acceleration = rate6h > 0 ? ((currentHourlyRate - rate6h) / rate6h) * 100 : 0;
@@ -1877,8 +1962,10 @@ serve(async (req) => {
       // (dedupedMentions is already computed at line ~1486)
       // ========================================
       const sortedMentionsEarly = [...dedupedMentions].sort((a, b) => {
-        if (a.source_type !== 'bluesky' && b.source_type === 'bluesky') return -1;
-        if (a.source_type === 'bluesky' && b.source_type !== 'bluesky') return 1;
+        const aSocial = SOCIAL_SOURCE_TYPES.has(a.source_type);
+        const bSocial = SOCIAL_SOURCE_TYPES.has(b.source_type);
+        if (!aSocial && bSocial) return -1;
+        if (aSocial && !bSocial) return 1;
         return new Date(b.published_at).getTime() - new Date(a.published_at).getTime();
       });
       const topHeadlineEarly = sortedMentionsEarly[0]?.title?.substring(0, 200) || '';
@@ -2262,6 +2349,10 @@ serve(async (req) => {
           label_quality_hint: agg.label_quality_hint || null, // FIX: Original hint from extraction
           single_word_explain: qualityResult.singleWordExplain || null, // PHASE 2: Why single-word passed
           related_entities_count: agg.related_entities.size,
+          // Deduped mentions per source, for the per-source lanes
+          by_source: { ...agg.by_source_deduped },
+          reddit_baseline_7d: Math.round(redditBaseline7d * 100) / 100,
+          reddit_velocity: redditVelocity === null ? null : Math.round(redditVelocity),
           cluster_size: cluster?.memberKeys.size || 1,
           authority_score: agg.authority_score,
           // Phase 2: Tier weighting explainability
@@ -2293,7 +2384,7 @@ serve(async (req) => {
         trend_stage: trendStage,
         source_count: sourceCount,
         news_source_count: (agg.by_source_deduped.rss > 0 ? 1 : 0) + (agg.by_source_deduped.google_news > 0 ? 1 : 0),
-        social_source_count: agg.by_source_deduped.bluesky > 0 ? 1 : 0,
+        social_source_count: (agg.by_source_deduped.bluesky > 0 ? 1 : 0) + (agg.by_source_deduped.reddit > 0 ? 1 : 0),
         corroboration_score: corroborationScore,
         evidence_count: totalMentionsDeduped,
         top_headline: topHeadline,
@@ -2354,7 +2445,7 @@ serve(async (req) => {
 
     // PHASE 2 FIX: Consolidate cluster members before upsert
     // Keep only the highest-scoring member of each cluster
-    const clusterBestMap = new Map<string, typeof eventsToUpsert[0]>();
+    const clusterBestMap = new Map<string, TrendEventRecord>();
     for (const event of eventsToUpsert) {
       const clusterId = event.cluster_id || event.event_key;
       const existing = clusterBestMap.get(clusterId);
@@ -2398,12 +2489,27 @@ serve(async (req) => {
     
     const eventIdMap = new Map<string, string>();
     let totalUpserted = 0;
+    // Events that were not trending before this run, for trend.detected webhooks
+    const newlyTrending: TrendEventRecord[] = [];
     
     if (eventsToProcess.length > 0) {
       // BATCH UPSERT: Process events in chunks to avoid payload limits and reduce CPU
       for (let i = 0; i < eventsToProcess.length; i += PERF_LIMITS.UPSERT_BATCH_SIZE) {
         const batch = eventsToProcess.slice(i, i + PERF_LIMITS.UPSERT_BATCH_SIZE);
         
+        const trendingKeys = batch.filter(e => e.is_trending).map(e => e.event_key);
+        const { data: alreadyTrending, error: alreadyTrendingError } = trendingKeys.length > 0
+          ? await supabase
+              .from('trend_events')
+              .select('event_key')
+              .in('event_key', trendingKeys)
+              .eq('is_trending', true)
+          : { data: [], error: null };
+        // Without the prior state, announce nothing rather than everything
+        const alreadyTrendingKeys = new Set<string>(alreadyTrendingError
+          ? trendingKeys
+          : (alreadyTrending || []).map((row: { event_key: string }) => row.event_key));
+        
         const { data: upsertedEvents, error: upsertError } = await supabase
           .from('trend_events')
           .upsert(batch, { onConflict: 'event_key' })
@@ -2421,6 +2527,7 @@ serve(async (req) => {
           for (const e of upsertedEvents || []) {
             eventIdMap.set(e.event_key, e.id);
           }
+          newlyTrending.push(...batch.filter(e => e.is_trending && !alreadyTrendingKeys.has(e.event_key)));
         }
         
         // Check timeout after each batch
@@ -2430,6 +2537,28 @@ serve(async (req) => {
         }
       }
       
+      const trendWebhookEvents: PendingWebhookEvent[] = newlyTrending
+        .filter(e => eventIdMap.has(e.event_key))
+        .sort((a, b) => (b.rank_score || 0) - (a.rank_score || 0))
+        .slice(0, PERF_LIMITS.MAX_TREND_WEBHOOKS)
+        .map(e => ({
+          // Only the run that turns an event trending announces it
+          id: `trend:${eventIdMap.get(e.event_key)}:${e.last_seen_at}`,
+          data: {
+            title: e.canonical_label || e.event_title,
+            message: e.top_headline || `${e.current_24h} mentions in 24h across ${e.source_count} sources`,
+            trend_event_id: eventIdMap.get(e.event_key),
+            event_key: e.event_key,
+            is_breaking: e.is_breaking,
+            trend_stage: e.trend_stage,
+            velocity: e.velocity,
+            current_24h: e.current_24h,
+            source_count: e.source_count,
+            confidence_score: e.confidence_score,
+          },
+        }));
+      emitWebhookEventsInBackground(supabase, 'trend.detected', trendWebhookEvents);
+      
       // Post-upsert verification: count breaking events saved
       const totalBreakingSaved = eventsToProcess.slice(0, totalUpserted).filter(e => e.is_breaking === true).length;
       console.log(`[detect-trend-events] Upserted ${totalUpserted} trend events in batches of ${PERF_LIMITS.UPSERT_BATCH_SIZE}`);
@@ -2498,7 +2627,7 @@ serve(async (req) => {
         canonical_phrase: c.canonicalTitle,
         member_phrases: Array.from(c.memberTitles),
         member_event_keys: Array.from(c.memberKeys),
-        similarity_threshold: EMBEDDING_SIMILARITY_THRESHOLD,
+        similarity_threshold: similarityThreshold,
         total_mentions: c.totalMentions,
         top_authority_score: c.topAuthorityScore,
         updated_at: now.toISOString(),
@@ -2531,9 +2660,10 @@ serve(async (req) => {
           hourly_average: e.current_24h / PERF_LIMITS.TIME_WINDOW_HOURS, // Use actual time window
           hourly_std_dev: stats?.hourlyStdDev || 0,
           relative_std_dev: stats?.relativeStdDev || 0,
-          news_mentions: (topicMap.get(e.event_key)?.by_source_deduped.rss || 0) + 
-                         (topicMap.get(e.event_key)?.by_source_deduped.google_news || 0),
-          social_mentions: topicMap.get(e.event_key)?.by_source_deduped.bluesky || 0,
+          ...baselineLaneColumns(
+            laneCountsFromSources(topicMap.get(e.event_key)?.by_source_deduped || { rss: 0, google_news: 0, bluesky: 0, reddit: 0 }),
+            PERF_LIMITS.TIME_WINDOW_HOURS
+          ),
         });
       });
       
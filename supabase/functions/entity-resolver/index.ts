@@ -1,77 +1,51 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import Fuse from "https://esm.sh/fuse.js@7.0.0";
+import {
+  resolveMention,
+  type KnowledgeBaseEntityType,
+  type KnowledgeBaseIndex,
+} from "../_shared/entityKnowledgeBase.ts";
+import { loadKnowledgeBaseIndex } from "../_shared/entityKnowledgeBaseStore.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Known canonical entities for fuzzy matching
-const CANONICAL_ENTITIES = [
-  { name: 'Donald Trump', type: 'person', aliases: ['trump', 'president trump', 'donald j trump'] },
-  { name: 'Joe Biden', type: 'person', aliases: ['biden', 'president biden', 'joseph biden'] },
-  { name: 'Elon Musk', type: 'person', aliases: ['musk'] },
-  { name: 'Vladimir Putin', type: 'person', aliases: ['putin'] },
-  { name: 'Pete Hegseth', type: 'person', aliases: ['hegseth'] },
-  { name: 'Ron DeSantis', type: 'person', aliases: ['desantis'] },
-  { name: 'Gavin Newsom', type: 'person', aliases: ['newsom'] },
-  { name: 'Nancy Pelosi', type: 'person', aliases: ['pelosi'] },
-  { name: 'Mitch McConnell', type: 'person', aliases: ['mcconnell'] },
-  { name: 'Alexandria Ocasio-Cortez', type: 'person', aliases: ['aoc', 'ocasio-cortez'] },
-  { name: 'Kamala Harris', type: 'person', aliases: ['harris', 'vp harris'] },
-  { name: 'Mike Pence', type: 'person', aliases: ['pence'] },
-  { name: 'Christopher Wray', type: 'person', aliases: ['wray', 'chris wray'] },
-  { name: 'Merrick Garland', type: 'person', aliases: ['garland'] },
-  { name: 'Supreme Court', type: 'organization', aliases: ['scotus'] },
-  { name: 'FBI', type: 'organization', aliases: ['federal bureau of investigation'] },
-  { name: 'CIA', type: 'organization', aliases: ['central intelligence agency'] },
-  { name: 'Department of Justice', type: 'organization', aliases: ['doj', 'justice department'] },
-  { name: 'ICE', type: 'organization', aliases: ['immigration and customs enforcement'] },
-  { name: 'DHS', type: 'organization', aliases: ['department of homeland security', 'homeland security'] },
-  { name: 'Republican Party', type: 'organization', aliases: ['gop', 'republicans', 'republican'] },
-  { name: 'Democratic Party', type: 'organization', aliases: ['democrats', 'democrat', 'dems'] },
-  { name: 'White House', type: 'organization', aliases: ['whitehouse'] },
-  { name: 'Congress', type: 'organization', aliases: ['us congress'] },
-  { name: 'Senate', type: 'organization', aliases: ['us senate'] },
-  { name: 'House of Representatives', type: 'organization', aliases: ['house', 'us house'] },
-  { name: 'Pentagon', type: 'organization', aliases: ['department of defense', 'dod'] },
-  { name: 'State Department', type: 'organization', aliases: ['department of state'] },
-  { name: 'Treasury Department', type: 'organization', aliases: ['department of treasury', 'treasury'] },
-  { name: 'Federal Reserve', type: 'organization', aliases: ['fed', 'the fed'] },
-  { name: 'NATO', type: 'organization', aliases: ['north atlantic treaty organization'] },
-  { name: 'United Nations', type: 'organization', aliases: ['un'] },
-  { name: 'European Union', type: 'organization', aliases: ['eu'] },
-  { name: 'China', type: 'location', aliases: ['prc', 'peoples republic of china'] },
-  { name: 'Russia', type: 'location', aliases: ['russian federation'] },
-  { name: 'Ukraine', type: 'location', aliases: [] },
-  { name: 'Israel', type: 'location', aliases: [] },
-  { name: 'Gaza', type: 'location', aliases: ['gaza strip'] },
-  { name: 'Iran', type: 'location', aliases: ['islamic republic of iran'] },
-  { name: 'North Korea', type: 'location', aliases: ['dprk'] },
-  { name: 'Taiwan', type: 'location', aliases: ['republic of china'] },
-];
+type SearchableItem = { searchTerm: string; canonical: string; type: string; entityKey: string };
 
-// Build searchable items for Fuse.js
-const searchableItems = CANONICAL_ENTITIES.flatMap(entity => [
-  { searchTerm: entity.name.toLowerCase(), canonical: entity.name, type: entity.type },
-  ...entity.aliases.map(alias => ({ 
-    searchTerm: alias.toLowerCase(), 
-    canonical: entity.name, 
-    type: entity.type 
-  }))
-]);
+// Callers see the resolver's coarse types
+function resolverType(entityType: KnowledgeBaseEntityType): string {
+  if (entityType === 'politician' || entityType === 'person') return 'person';
+  if (entityType === 'agency') return 'organization';
+  return entityType;
+}
 
-// Initialize Fuse.js for fuzzy matching
-const fuse = new Fuse(searchableItems, {
-  keys: ['searchTerm'],
-  threshold: 0.3, // Lower = stricter matching
-  includeScore: true,
-  minMatchCharLength: 3,
-});
+// Fuzzy matching over knowledge base names and aliases
+function buildFuse(index: KnowledgeBaseIndex) {
+  const searchableItems: SearchableItem[] = [...index.entities.values()].flatMap(entity => [
+    entity.canonical_name,
+    ...entity.aliases,
+  ].map(term => ({
+    searchTerm: term.toLowerCase(),
+    canonical: entity.canonical_name,
+    type: resolverType(entity.entity_type),
+    entityKey: entity.entity_key,
+  })));
+
+  return new Fuse(searchableItems, {
+    keys: ['searchTerm'],
+    threshold: 0.3, // Lower = stricter matching
+    includeScore: true,
+    minMatchCharLength: 3,
+  });
+}
 
 interface ResolveRequest {
   entities: string[];
+  /** Text the entities appeared in, used to tell namesakes apart */
+  context?: string;
   useWikidata?: boolean;
   useAI?: boolean;
 }
@@ -82,6 +56,9 @@ interface ResolvedEntity {
   type: string;
   method: string;
   confidence: number;
+  entity_key?: string;
+  ambiguous?: boolean;
+  alternatives?: string[];
 }
 
 // Clean and normalize input
@@ -169,7 +146,7 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const { entities, useWikidata = false, useAI = false }: ResolveRequest = await req.json();
+    const { entities, context, useWikidata = false, useAI = false }: ResolveRequest = await req.json();
     
     if (!entities || !Array.isArray(entities) || entities.length === 0) {
       return new Response(JSON.stringify({ error: 'entities array required' }), {
@@ -182,12 +159,14 @@ serve(async (req) => {
     
     const results: ResolvedEntity[] = [];
     const uncachedEntities: string[] = [];
+    const knowledgeBase = await loadKnowledgeBaseIndex(supabase);
+    const fuse = buildFuse(knowledgeBase);
     
-    // Step 1: Check database cache for all entities
+    // Cached resolutions for entities the knowledge base doesn't know
     const normalizedInputs = entities.map(e => normalizeInput(e));
     const { data: cachedAliases } = await supabase
       .from('entity_aliases')
-      .select('raw_name, canonical_name, entity_type, confidence_score')
+      .select('raw_name, canonical_name, entity_type, confidence_score, usage_count, entity_key')
       .in('raw_name', normalizedInputs);
     
     const cacheMap = new Map(
@@ -210,7 +189,23 @@ serve(async (req) => {
         continue;
       }
       
-      // Check cache first
+      // Step 1: Knowledge base, disambiguated by the request context
+      const resolution = resolveMention(knowledgeBase, original.replace(/_/g, ' '), { text: context });
+      if (resolution) {
+        results.push({
+          original,
+          canonical: resolution.ambiguous ? original : resolution.entity.canonical_name,
+          type: resolverType(resolution.entity.entity_type),
+          method: resolution.ambiguous ? 'ambiguous' : 'knowledge_base',
+          confidence: resolution.confidence,
+          entity_key: resolution.ambiguous ? undefined : resolution.entity.entity_key,
+          ambiguous: resolution.ambiguous,
+          alternatives: resolution.alternatives.map(a => a.canonical_name),
+        });
+        continue;
+      }
+      
+      // Step 2: Cached fuzzy and Wikidata resolutions
       const cached = cacheMap.get(normalized);
       if (cached) {
         results.push({
@@ -218,20 +213,21 @@ serve(async (req) => {
           canonical: cached.canonical_name,
           type: cached.entity_type,
           method: 'cache',
-          confidence: cached.confidence_score
+          confidence: cached.confidence_score,
+          entity_key: cached.entity_key ?? undefined
         });
         
         // Increment usage count async (fire and forget)
         supabase
           .from('entity_aliases')
-          .update({ usage_count: (cached as any).usage_count + 1 || 1 })
+          .update({ usage_count: (cached.usage_count || 0) + 1 })
           .eq('raw_name', normalized)
           .then(() => {});
         
         continue;
       }
       
-      // Step 2: Try fuzzy matching
+      // Step 3: Fuzzy matching for misspellings
       const fuseResults = fuse.search(normalized);
       if (fuseResults.length > 0 && fuseResults[0].score !== undefined && fuseResults[0].score < 0.3) {
         const match = fuseResults[0].item;
@@ -242,7 +238,8 @@ serve(async (req) => {
           canonical: match.canonical,
           type: match.type,
           method: 'fuzzy',
-          confidence
+          confidence,
+          entity_key: match.entityKey
         });
         
         // Cache this resolution
@@ -250,6 +247,7 @@ serve(async (req) => {
           raw_name: normalized,
           canonical_name: match.canonical,
           entity_type: match.type,
+          entity_key: match.entityKey,
           resolution_method: 'fuzzy',
           confidence_score: confidence
         }, { onConflict: 'raw_name' }).then(() => {});
@@ -268,7 +266,7 @@ serve(async (req) => {
       });
     }
     
-    // Step 3: Optional Wikidata resolution for uncached entities
+    // Step 4: Optional Wikidata resolution for uncached entities
     if (useWikidata && uncachedEntities.length > 0) {
       console.log(`Attempting Wikidata resolution for ${uncachedEntities.length} entities`);
       
@@ -301,6 +299,8 @@ serve(async (req) => {
     // Build response with statistics
     const stats = {
       total: entities.length,
+      knowledgeBase: results.filter(r => r.method === 'knowledge_base').length,
+      ambiguous: results.filter(r => r.method === 'ambiguous').length,
       cached: results.filter(r => r.method === 'cache').length,
       fuzzy: results.filter(r => r.method === 'fuzzy').length,
       wikidata: results.filter(r => r.method === 'wikidata').length,
@@ -1,13 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import {
-  extractAllEntities,
-  matchEntities,
-  WELL_KNOWN_POLITICIANS,
-  WELL_KNOWN_ORGANIZATIONS,
-  GOVERNMENT_AGENCIES,
-  type PoliticalEntity,
-} from "../_shared/politicalEntities.ts";
+  findEntityMentions,
+  isConfidentResolution,
+  type KnowledgeBaseIndex,
+} from "../_shared/entityKnowledgeBase.ts";
+import { loadKnowledgeBaseIndex } from "../_shared/entityKnowledgeBaseStore.ts";
 import { validateCronSecret } from "../_shared/security.ts";
 
 const corsHeaders = {
@@ -19,7 +17,8 @@ const corsHeaders = {
  * Extract Trend Entities
  *
  * Extracts politicians, organizations, and legislation mentioned in trends
- * using both hardcoded knowledge base and database-stored entities.
+ * using the political entity knowledge base. Mentions that could be more
+ * than one namesake are left out rather than guessed.
  */
 
 interface TrendEvent {
@@ -29,45 +28,34 @@ interface TrendEvent {
   context_terms?: string[];
 }
 
-interface DbPoliticalEntity {
-  canonical_name: string;
-  entity_type: string;
-  aliases: string[];
-}
-
 function extractTrendEntities(
   trend: TrendEvent,
-  dbEntities: PoliticalEntity[]
+  knowledgeBase: KnowledgeBaseIndex
 ): {
   politicians: string[];
   organizations: string[];
   legislation: string[];
 } {
   const trendText = `${trend.event_title} ${trend.top_headline || ''}`;
+  const mentions = findEntityMentions(knowledgeBase, trendText, {
+    text: (trend.context_terms || []).join(' '),
+  });
 
-  // First, use hardcoded knowledge base
-  const hardcodedResults = extractAllEntities(trendText);
-
-  // Then, match against database entities
-  const dbMatches = matchEntities(trendText, dbEntities);
-
-  const politicians = new Set<string>(hardcodedResults.politicians);
-  const organizations = new Set<string>(hardcodedResults.organizations);
+  const politicians = new Set<string>();
+  const organizations = new Set<string>();
   const legislation = new Set<string>();
 
-  for (const match of dbMatches) {
-    if (match.entity.entity_type === 'politician') {
-      politicians.add(match.entity.canonical_name);
-    } else if (match.entity.entity_type === 'organization') {
-      organizations.add(match.entity.canonical_name);
-    } else if (match.entity.entity_type === 'legislation') {
-      legislation.add(match.entity.canonical_name);
-    }
-  }
+  for (const mention of mentions) {
+    if (!isConfidentResolution(mention)) continue;
 
-  // Also add agencies to organizations
-  for (const agency of hardcodedResults.agencies) {
-    organizations.add(agency);
+    const { canonical_name, entity_type } = mention.entity;
+    if (entity_type === 'politician') {
+      politicians.add(canonical_name);
+    } else if (entity_type === 'organization' || entity_type === 'agency') {
+      organizations.add(canonical_name);
+    } else if (entity_type === 'legislation') {
+      legislation.add(canonical_name);
+    }
   }
 
   return {
@@ -100,19 +88,9 @@ serve(async (req) => {
 
     console.log('🔍 Starting entity extraction...');
 
-    // Load database political entities
-    const { data: dbEntitiesRaw } = await supabase
-      .from('political_entities')
-      .select('canonical_name, entity_type, aliases')
-      .eq('active', true);
-
-    const dbEntities: PoliticalEntity[] = (dbEntitiesRaw || []).map(e => ({
-      canonical_name: e.canonical_name,
-      entity_type: e.entity_type as any,
-      aliases: e.aliases || [],
-    }));
+    const knowledgeBase = await loadKnowledgeBaseIndex(supabase);
 
-    console.log(`📚 Loaded ${dbEntities.length} entities from database`);
+    console.log(`📚 Loaded ${knowledgeBase.entities.size} knowledge base entities`);
 
     // Get trends to process
     let query = supabase
@@ -139,7 +117,7 @@ serve(async (req) => {
     let orgCount = 0;
 
     for (const trend of trends || []) {
-      const entities = extractTrendEntities(trend, dbEntities);
+      const entities = extractTrendEntities(trend, knowledgeBase);
 
       const { error: updateError } = await supabase
         .from('trend_events')
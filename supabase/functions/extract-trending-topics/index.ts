@@ -1,13 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
 import { getCorsHeaders, validateCronOrAdmin, logJobFailure, checkRateLimit } from "../_shared/security.ts";
-
-const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-const AI_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1/chat/completions';
-
-if (!LOVABLE_API_KEY) {
-  console.error('LOVABLE_API_KEY not configured');
-}
+import { definePrompt, type Schema } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
 
 interface ExtractedTopic {
   topic: string;
@@ -98,6 +93,59 @@ async function loadEntityAliases(supabase: any): Promise<void> {
   }
 }
 
+// PHASE 2: Enhanced NER + Keyphrase extraction prompt - prioritizes event phrases
+const extractionPrompt = definePrompt<{ articlesText: string }>({
+  id: 'extract-trending-topics.event-phrases',
+  version: 1,
+  system: 'You extract verb-centered event phrases (primary) and proper noun entities (secondary) from news headlines. Event phrases describe WHAT HAPPENED with Subject + Verb + Object structure. Entities are metadata. Always respond with valid JSON arrays.',
+  user: ({ articlesText }) => `Extract EVENT PHRASES (primary) and named entities (secondary) from these headlines for Twitter-style trending.
+
+${articlesText}
+
+For EACH headline, extract in ORDER OF PRIORITY:
+
+1. **EVENT PHRASES** (PRIMARY - these become the trend labels):
+   Multi-word verb-centered phrases (2-5 words) that describe WHAT is happening:
+   - GOOD: "House Passes Border Bill", "Trump Fires FBI Director", "Gaza Ceasefire Collapses"
+   - GOOD: "Supreme Court Blocks Abortion Ban", "DOJ Indicts Senator", "Texas Sues Biden"
+   - BAD: Just names like "Donald Trump", "FBI", "Gaza" (these are entities, not events)
+   
+   REQUIRE: Subject + Verb + Object pattern when possible
+   - "[Who] [Does What] [To Whom/What]"
+   
+   Mark these with type: "event_phrase"
+
+2. **ENTITIES** (SECONDARY - metadata, not primary labels):
+   - PERSON: Full canonical names ("Donald Trump", NOT "Trump")
+   - ORG: Organizations ("Supreme Court", "FBI", "Democratic Party")  
+   - GPE: Locations ("Gaza", "Texas", "Washington DC")
+   - Single-word only for well-known acronyms: "NATO", "FBI", "DOGE", "ICE"
+   
+   Mark these with appropriate type: "person", "org", "location"
+
+CRITICAL RULES:
+- PRIORITIZE event phrases over single entities as the trending topic
+- Event phrases MUST describe an action/event, not just a person or place
+- Use FULL NAMES for people: "Donald Trump" not "Trump", "Joe Biden" not "Biden"
+- DO NOT include news publishers (CNN, Reuters, AP, BBC)
+- DO NOT extract categories ("immigration", "politics", "healthcare")
+- Each headline should ideally produce at least ONE event phrase
+
+Return JSON array:
+[{"topic": "Trump Fires FBI Director", "keywords": ["trump", "fbi", "fired"], "relevance": 0.95, "type": "event_phrase"},
+ {"topic": "Donald Trump", "keywords": ["trump", "president"], "relevance": 0.8, "type": "person"},
+ {"topic": "FBI", "keywords": ["fbi", "director"], "relevance": 0.7, "type": "org"}]`,
+});
+
+// The model sometimes wraps the array as {"topics": [...]}
+const extractedTopicsSchema: Schema<ExtractedTopic[]> = {
+  parse(value) {
+    if (Array.isArray(value)) return value;
+    const topics = (value as { topics?: unknown })?.topics;
+    return Array.isArray(topics) ? topics : [];
+  },
+};
+
 serve(async (req) => {
   const corsHeaders = getCorsHeaders();
   
@@ -109,6 +157,7 @@ serve(async (req) => {
     Deno.env.get('SUPABASE_URL') ?? '',
     Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
   );
+  const llm = createLLMClientForFunction(supabase, 'extract-trending-topics');
 
   try {
     // SECURITY: Require cron secret or admin JWT
@@ -197,106 +246,18 @@ serve(async (req) => {
         `ID: ${a.id}\nTitle: ${a.title}\nContent: ${(a.description || a.content || '').substring(0, 500)}`
       ).join('\n\n---\n\n');
 
-      // PHASE 2: Enhanced NER + Keyphrase extraction prompt - prioritizes event phrases
-      const extractionPrompt = `Extract EVENT PHRASES (primary) and named entities (secondary) from these headlines for Twitter-style trending.
-
-${articlesText}
-
-For EACH headline, extract in ORDER OF PRIORITY:
-
-1. **EVENT PHRASES** (PRIMARY - these become the trend labels):
-   Multi-word verb-centered phrases (2-5 words) that describe WHAT is happening:
-   - GOOD: "House Passes Border Bill", "Trump Fires FBI Director", "Gaza Ceasefire Collapses"
-   - GOOD: "Supreme Court Blocks Abortion Ban", "DOJ Indicts Senator", "Texas Sues Biden"
-   - BAD: Just names like "Donald Trump", "FBI", "Gaza" (these are entities, not events)
-   
-   REQUIRE: Subject + Verb + Object pattern when possible
-   - "[Who] [Does What] [To Whom/What]"
-   
-   Mark these with type: "event_phrase"
-
-2. **ENTITIES** (SECONDARY - metadata, not primary labels):
-   - PERSON: Full canonical names ("Donald Trump", NOT "Trump")
-   - ORG: Organizations ("Supreme Court", "FBI", "Democratic Party")  
-   - GPE: Locations ("Gaza", "Texas", "Washington DC")
-   - Single-word only for well-known acronyms: "NATO", "FBI", "DOGE", "ICE"
-   
-   Mark these with appropriate type: "person", "org", "location"
-
-CRITICAL RULES:
-- PRIORITIZE event phrases over single entities as the trending topic
-- Event phrases MUST describe an action/event, not just a person or place
-- Use FULL NAMES for people: "Donald Trump" not "Trump", "Joe Biden" not "Biden"
-- DO NOT include news publishers (CNN, Reuters, AP, BBC)
-- DO NOT extract categories ("immigration", "politics", "healthcare")
-- Each headline should ideally produce at least ONE event phrase
-
-Return JSON array:
-[{"topic": "Trump Fires FBI Director", "keywords": ["trump", "fbi", "fired"], "relevance": 0.95, "type": "event_phrase"},
- {"topic": "Donald Trump", "keywords": ["trump", "president"], "relevance": 0.8, "type": "person"},
- {"topic": "FBI", "keywords": ["fbi", "director"], "relevance": 0.7, "type": "org"}]`;
-
       try {
         // Create timeout promise
         const timeoutPromise = new Promise<never>((_, reject) => {
           setTimeout(() => reject(new Error('AI request timeout')), AI_TIMEOUT_MS);
         });
 
-        // Race AI request against timeout
-        const aiResponse = await Promise.race([
-          fetch(AI_GATEWAY_URL, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              model: 'google/gemini-2.5-flash',
-              messages: [
-                {
-                  role: 'system',
-                  content: 'You extract verb-centered event phrases (primary) and proper noun entities (secondary) from news headlines. Event phrases describe WHAT HAPPENED with Subject + Verb + Object structure. Entities are metadata. Always respond with valid JSON arrays.'
-                },
-                {
-                  role: 'user',
-                  content: extractionPrompt
-                }
-              ]
-            }),
-          }),
+        // Race AI request against timeout; failed or unparseable batches are skipped below
+        const { data: topics } = await Promise.race([
+          llm.runJson(extractionPrompt, { articlesText }, { schema: extractedTopicsSchema }),
           timeoutPromise
         ]);
-
-        if (!aiResponse.ok) {
-          console.error(`AI API error: ${aiResponse.status} for batch ${i}-${i + batchSize}`);
-          // Continue processing other batches instead of failing completely
-          continue;
-        }
-
-        const aiData = await aiResponse.json();
-        const content = aiData.choices?.[0]?.message?.content;
-
-        if (!content) {
-          console.error('No content in AI response');
-          continue;
-        }
-
-        // Parse AI response with robust JSON extraction
-        let extractedTopics: ExtractedTopic[] = [];
-        try {
-          // Remove markdown code blocks if present
-          const cleanedContent = content
-            .replace(/```json\s*/g, '')
-            .replace(/```\s*/g, '')
-            .trim();
-          
-          const parsed = JSON.parse(cleanedContent);
-          extractedTopics = Array.isArray(parsed) ? parsed : (parsed.topics || []);
-        } catch (e) {
-          console.error('Failed to parse AI response:', e);
-          console.error('Raw content:', content.substring(0, 200));
-          continue;
-        }
+        let extractedTopics = topics;
 
         // =================================================================
         // VALIDATION: Event-Phrase-Only Filter (Phase 2 migration)
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
+import { DEFAULT_THREAT_TAXONOMY, scoreThreat } from "../_shared/threatTaxonomy.ts";
+import { executiveOrderText, loadOrganizationTaxonomies, recordTaxonomyMatches } from "../_shared/threatTaxonomyStore.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,137 +10,6 @@ const corsHeaders = {
 
 const FEDERAL_REGISTER_API = 'https://www.federalregister.gov/api/v1';
 
-// Comprehensive keywords for threat detection
-const THREAT_KEYWORDS = {
-  critical: [
-    'terrorist designation',
-    'terrorist organization',
-    'material support',
-    'foreign terrorist',
-    'designated entity',
-    'sanctions',
-    'asset freeze',
-    'travel ban',
-    'muslim ban',
-    'immigration ban',
-    'mosque surveillance',
-    'religious registry',
-  ],
-  high: [
-    'muslim',
-    'islam',
-    'islamic',
-    'arab',
-    'middle east',
-    'palestine',
-    'palestinian',
-    'gaza',
-    'cair',
-    'mpac',
-    'immigration enforcement',
-    'deportation',
-    'visa restriction',
-    'refugee',
-    'asylum',
-    'surveillance',
-    'national security',
-    'counterterrorism',
-    'radicalization',
-    'extremism',
-    'foreign influence',
-    'religious freedom',
-    'civil liberties',
-    'discrimination',
-    'hate crime',
-    'profiling',
-  ],
-  medium: [
-    'immigration',
-    'border',
-    'national security',
-    'foreign policy',
-    'state department',
-    'homeland security',
-    'intelligence',
-    'law enforcement',
-    'nonprofit',
-    'charitable',
-    'religious organization',
-    'first amendment',
-    'free speech',
-    'assembly',
-    'protest',
-  ]
-};
-
-// Organizations to specifically track
-const TRACKED_ORGANIZATIONS = [
-  'cair', 'council on american-islamic relations',
-  'mpac', 'muslim public affairs council',
-  'isna', 'islamic society of north america',
-  'adc', 'american-arab anti-discrimination committee',
-  'aai', 'arab american institute',
-  'mas', 'muslim american society',
-  'icna', 'islamic circle of north america',
-  'nait', 'north american islamic trust',
-  'holy land foundation',
-  'kind',
-  'irw', 'islamic relief',
-  'helping hand',
-  'aclu',
-  'brennan center',
-];
-
-function calculateThreatLevel(text: string): { level: string; score: number; matchedKeywords: string[] } {
-  const lowerText = text.toLowerCase();
-  const matchedKeywords: string[] = [];
-  let score = 0;
-
-  // Check critical keywords (highest priority)
-  for (const keyword of THREAT_KEYWORDS.critical) {
-    if (lowerText.includes(keyword)) {
-      score += 50;
-      matchedKeywords.push(keyword);
-    }
-  }
-
-  // Check high-priority keywords
-  for (const keyword of THREAT_KEYWORDS.high) {
-    if (lowerText.includes(keyword)) {
-      score += 15;
-      matchedKeywords.push(keyword);
-    }
-  }
-
-  // Check medium-priority keywords
-  for (const keyword of THREAT_KEYWORDS.medium) {
-    if (lowerText.includes(keyword)) {
-      score += 5;
-      matchedKeywords.push(keyword);
-    }
-  }
-
-  // Check for tracked organizations
-  for (const org of TRACKED_ORGANIZATIONS) {
-    if (lowerText.includes(org)) {
-      score += 30;
-      matchedKeywords.push(org);
-    }
-  }
-
-  // Determine threat level based on score
-  let level = 'low';
-  if (score >= 50) {
-    level = 'critical';
-  } else if (score >= 30) {
-    level = 'high';
-  } else if (score >= 15) {
-    level = 'medium';
-  }
-
-  return { level, score: Math.min(score, 100), matchedKeywords: [...new Set(matchedKeywords)] };
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -158,6 +29,9 @@ serve(async (req) => {
     startDate.setDate(startDate.getDate() - daysBack);
     const startDateStr = startDate.toISOString().split('T')[0];
 
+    // Each organization's own taxonomy, scored alongside the default
+    const orgTaxonomies = await loadOrganizationTaxonomies(supabaseClient);
+
     let totalFetched = 0;
     let totalInserted = 0;
     let criticalFound = 0;
@@ -199,14 +73,21 @@ serve(async (req) => {
       for (const doc of documents) {
         try {
           // Combine title and abstract for analysis
-          const textToAnalyze = `${doc.title || ''} ${doc.abstract || ''} ${(doc.topics || []).join(' ')}`;
-          const { level, score, matchedKeywords } = calculateThreatLevel(textToAnalyze);
-
-          // Skip if no relevance at all
-          if (score === 0) continue;
+          const textToAnalyze = executiveOrderText(doc);
+          const { level, score, matches, matchedTerms } = scoreThreat(
+            textToAnalyze,
+            DEFAULT_THREAT_TAXONOMY,
+            'executive_order'
+          );
+          const orgMatched = orgTaxonomies.some(
+            (org) => scoreThreat(textToAnalyze, org.taxonomy, 'executive_order').matches.length > 0
+          );
+
+          // Skip if no relevance to the default or any organization's taxonomy
+          if (score === 0 && !orgMatched) continue;
 
           // Upsert the executive order
-          const { error } = await supabaseClient
+          const { data: saved, error } = await supabaseClient
             .from('executive_orders')
             .upsert({
               document_number: doc.document_number,
@@ -224,11 +105,14 @@ serve(async (req) => {
               topics: doc.topics || [],
               relevance_score: score,
               threat_level: level,
-              auto_tags: matchedKeywords,
+              auto_tags: matchedTerms,
+              matched_rules: matches,
               is_processed: false,
             }, {
               onConflict: 'document_number'
-            });
+            })
+            .select('id')
+            .single();
 
           if (error) {
             console.error(`Error upserting ${doc.document_number}:`, error);
@@ -237,6 +121,12 @@ serve(async (req) => {
 
           totalInserted++;
 
+          await recordTaxonomyMatches(
+            supabaseClient,
+            [{ type: 'executive_order', id: saved.id, text: textToAnalyze }],
+            orgTaxonomies
+          );
+
           if (level === 'critical') {
             criticalFound++;
             console.log(`⚠️ CRITICAL: ${doc.title}`);
@@ -2,6 +2,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, validateCronOrAdmin, logJobFailure, checkRateLimit } from "../_shared/security.ts";
 import { normalizeUrl, generateContentHash, extractCanonicalUrl } from "../_shared/urlNormalizer.ts";
+import { assignStoryClusterIds } from "../_shared/storyClusterStore.ts";
 
 const corsHeaders = getCorsHeaders();
 
@@ -308,7 +309,7 @@ serve(async (req) => {
                 onConflict: 'url',
                 ignoreDuplicates: true 
               })
-              .select('id, content_hash, canonical_url, title, published_at');
+              .select('id, content_hash, canonical_url, title, description, published_at');
 
             if (insertError) {
               console.error('Insert error for ' + source.name + ':', insertError.message);
@@ -333,6 +334,20 @@ serve(async (req) => {
                 );
               }
               
+              // Assign story clusters so rewritten copies of a story dedupe together
+              try {
+                await assignStoryClusterIds(supabase, (insertedData || []).map(article => ({
+                  type: 'google_news' as const,
+                  id: article.id,
+                  title: article.title,
+                  body: article.description,
+                  publishedAt: article.published_at,
+                })));
+              } catch (err) {
+                // Non-critical, detect-duplicates clusters anything missed
+                console.warn('Story clustering failed for ' + source.name + ':', err);
+              }
+              
               await updateSourceHealth(supabase, source.id, true, undefined, insertedCount);
             }
           } else {
@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, validateCronOrAdmin, logJobFailure, checkRateLimit } from "../_shared/security.ts";
+import { parseJsonBody, z } from "../_shared/validators.ts";
+import { computeRaceAverage, detectAverageShifts, SHIFT_LOOKBACK_DAYS, type AverageShift } from "../_shared/pollingAverage.ts";
 
 interface PollData {
   poll_type: string;
@@ -21,16 +23,14 @@ interface PollData {
   raw_data: Record<string, unknown> | null;
 }
 
-interface PollAlert {
-  alert_type: string;
-  race_id: string;
-  candidate_name: string | null;
-  previous_result: number;
-  new_result: number;
-  change_amount: number;
-  poll_date: string;
-  severity: string;
-}
+const bodySchema = z.object({
+  // Recompute averages for every recently polled race without scraping
+  rebuild_averages: z.boolean().optional(),
+}).passthrough();
+
+// Polls older than this no longer feed the stored averages
+const AVERAGE_HISTORY_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 // RealClearPolling data sources
 const pollSources = [
@@ -141,7 +141,8 @@ function parseApprovalTable(text: string, pollType: string): PollData[] {
       
       if (isNaN(approveValue) || isNaN(disapproveValue)) continue;
       
-      const raceId = `${pollType}_${pollDate}_${pollsterInfo.name.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 30)}`;
+      // One race per poll type, so every pollster feeds the same average
+      const raceId = pollType;
       
       // Approve record
       polls.push({
@@ -329,7 +330,7 @@ function htmlToText(html: string): string {
 async function processBatch(
   supabase: any,
   batch: PollData[],
-  alerts: PollAlert[]
+  touchedRaces: Set<string>
 ): Promise<{ inserted: number; duplicates: number; errors: number }> {
   let inserted = 0;
   let duplicates = 0;
@@ -368,37 +369,7 @@ async function processBatch(
       }
 
       inserted++;
-
-      // Check for significant changes
-      if (pollData.result_value !== null) {
-        const { data: previousPoll } = await supabase
-          .from('polling_data')
-          .select('result_value')
-          .eq('race_id', pollData.race_id)
-          .eq('candidate_name', pollData.candidate_name || '')
-          .lt('poll_date', pollData.poll_date)
-          .order('poll_date', { ascending: false })
-          .limit(1)
-          .maybeSingle();
-
-        if (previousPoll?.result_value !== null && previousPoll?.result_value !== undefined) {
-          const change = pollData.result_value - previousPoll.result_value;
-          
-          if (Math.abs(change) > 5) {
-            const severity = Math.abs(change) > 10 ? 'critical' : 'high';
-            alerts.push({
-              alert_type: 'significant_change',
-              race_id: pollData.race_id,
-              candidate_name: pollData.candidate_name,
-              previous_result: previousPoll.result_value,
-              new_result: pollData.result_value,
-              change_amount: change,
-              poll_date: pollData.poll_date,
-              severity,
-            });
-          }
-        }
-      }
+      touchedRaces.add(pollData.race_id);
     } catch (err) {
       console.error('Error processing poll:', err);
       errors++;
@@ -408,6 +379,157 @@ async function processBatch(
   return { inserted, duplicates, errors };
 }
 
+function describeShift(shift: AverageShift): string {
+  if (shift.alertType === 'lead_change') {
+    return `${shift.candidate} takes the lead in the polling average at ${shift.current}% ` +
+      `(lead is outside the ±${shift.noiseBand} pt noise band)`;
+  }
+  const direction = shift.change > 0 ? 'up' : 'down';
+  return `${shift.candidate} ${direction} ${Math.abs(shift.change)} pts in the polling average over ` +
+    `${SHIFT_LOOKBACK_DAYS} days, to ${shift.current}% (noise band ±${shift.noiseBand} pts)`;
+}
+
+interface StoredPoll {
+  pollster: string | null;
+  poll_date: string;
+  sample_size: number | null;
+  candidate_name: string;
+  result_value: number;
+  poll_type: string;
+  state: string | null;
+  raw_data: { race?: string } | null;
+}
+
+// Rebuild the average series, house effects and shift alerts for each race
+async function refreshRaceAverages(
+  supabase: ReturnType<typeof createClient>,
+  raceIds: string[]
+): Promise<{ races: number; averageRows: number; alerts: number }> {
+  const since = new Date(Date.now() - AVERAGE_HISTORY_DAYS * DAY_MS).toISOString().split('T')[0];
+  const today = new Date().toISOString().split('T')[0];
+  let races = 0;
+  let averageRows = 0;
+  let alerts = 0;
+
+  for (const raceId of raceIds) {
+    const { data, error } = await supabase
+      .from('polling_data')
+      .select('pollster, poll_date, sample_size, candidate_name, result_value, poll_type, state, raw_data')
+      .eq('race_id', raceId)
+      .gte('poll_date', since)
+      .not('candidate_name', 'is', null)
+      .not('result_value', 'is', null)
+      .order('poll_date', { ascending: true })
+      .limit(5000);
+
+    if (error) throw new Error(`Failed to load polls for ${raceId}: ${error.message}`);
+    const polls = (data || []) as StoredPoll[];
+    if (polls.length === 0) continue;
+
+    const { series, houseEffects, trends } = computeRaceAverage(
+      polls.map(p => ({
+        pollster: p.pollster || 'Unknown',
+        pollDate: p.poll_date,
+        sampleSize: p.sample_size,
+        candidate: p.candidate_name,
+        value: Number(p.result_value),
+      })),
+      { endDate: today }
+    );
+    if (series.length === 0) continue;
+
+    const latestPoll = polls[polls.length - 1];
+    const race = {
+      race_id: raceId,
+      race_name: latestPoll.raw_data?.race ?? null,
+      poll_type: latestPoll.poll_type,
+      state: latestPoll.state,
+    };
+    const latestDate = series.reduce((max, p) => p.date > max ? p.date : max, series[0].date);
+    const trendByCandidate = new Map(trends.map(t => [t.candidate, t.perWeek]));
+    const calculatedAt = new Date().toISOString();
+
+    const rows = series.map(point => ({
+      ...race,
+      candidate_name: point.candidate,
+      average_date: point.date,
+      average: point.average,
+      lower_bound: point.lower,
+      upper_bound: point.upper,
+      std_error: point.stdError,
+      trend_per_week: point.date === latestDate ? trendByCandidate.get(point.candidate) ?? null : null,
+      poll_count: point.pollCount,
+      effective_sample_size: point.effectiveSampleSize,
+      calculated_at: calculatedAt,
+    }));
+
+    const UPSERT_BATCH = 500;
+    for (let i = 0; i < rows.length; i += UPSERT_BATCH) {
+      const { error: upsertError } = await supabase
+        .from('polling_averages')
+        .upsert(rows.slice(i, i + UPSERT_BATCH), { onConflict: 'race_id,candidate_name,average_date' });
+      if (upsertError) throw new Error(`Failed to store averages for ${raceId}: ${upsertError.message}`);
+    }
+    averageRows += rows.length;
+
+    if (houseEffects.length > 0) {
+      const { error: effectsError } = await supabase
+        .from('polling_house_effects')
+        .upsert(houseEffects.map(h => ({
+          race_id: raceId,
+          pollster: h.pollster,
+          candidate_name: h.candidate,
+          house_effect: h.effect,
+          poll_count: h.pollCount,
+          updated_at: calculatedAt,
+        })), { onConflict: 'race_id,pollster,candidate_name' });
+      if (effectsError) console.error(`House effect upsert error for ${raceId}:`, effectsError.message);
+    }
+
+    // Only moves beyond the noise band, at most once per lookback window
+    const shifts = detectAverageShifts(series);
+    const windowStart = new Date(Date.parse(latestDate) - SHIFT_LOOKBACK_DAYS * DAY_MS).toISOString().split('T')[0];
+    for (const shift of shifts) {
+      const { data: recent } = await supabase
+        .from('polling_alerts')
+        .select('id')
+        .eq('race_id', raceId)
+        .eq('candidate_name', shift.candidate)
+        .eq('alert_type', shift.alertType)
+        .gt('as_of_date', windowStart)
+        .limit(1);
+      if (recent && recent.length > 0) continue;
+
+      const { error: alertError } = await supabase
+        .from('polling_alerts')
+        .insert({
+          alert_type: shift.alertType,
+          poll_type: race.poll_type,
+          race_id: raceId,
+          state: race.state,
+          candidate_name: shift.candidate,
+          previous_value: shift.previous,
+          current_value: shift.current,
+          change_amount: shift.change,
+          noise_band: shift.noiseBand,
+          as_of_date: shift.asOf,
+          severity: shift.severity,
+          description: describeShift(shift),
+        });
+
+      if (alertError) {
+        console.error('Alert insert error:', alertError.message);
+      } else {
+        alerts++;
+      }
+    }
+
+    races++;
+  }
+
+  return { races, averageRows, alerts };
+}
+
 serve(async (req) => {
   const corsHeaders = getCorsHeaders();
   
@@ -439,6 +561,34 @@ serve(async (req) => {
       );
     }
 
+    const parsed = await parseJsonBody(req, bodySchema);
+    if (!parsed.ok) {
+      return new Response(
+        JSON.stringify({ error: parsed.error, details: parsed.details }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (parsed.data.rebuild_averages) {
+      const since = new Date(Date.now() - AVERAGE_HISTORY_DAYS * DAY_MS).toISOString().split('T')[0];
+      const { data: racesData, error: racesError } = await supabase
+        .from('polling_data')
+        .select('race_id')
+        .gte('poll_date', since)
+        .not('race_id', 'is', null)
+        .limit(20000);
+      if (racesError) throw new Error(`Failed to list races: ${racesError.message}`);
+
+      const raceIds = [...new Set<string>((racesData || []).map((r: { race_id: string }) => r.race_id))];
+      console.log(`Rebuilding polling averages for ${raceIds.length} races`);
+      const averages = await refreshRaceAverages(supabase, raceIds);
+
+      return new Response(
+        JSON.stringify({ success: true, timestamp: new Date().toISOString(), averages }, null, 2),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     console.log('=== Starting RealClearPolling Scrape ===');
     console.log(`Timestamp: ${new Date().toISOString()}`);
     console.log(`Sources to fetch: ${pollSources.length}`);
@@ -458,7 +608,7 @@ serve(async (req) => {
     let newPolls = 0;
     let duplicatePolls = 0;
     let errorPolls = 0;
-    const alerts: PollAlert[] = [];
+    const touchedRaces = new Set<string>();
     const results: Record<string, { fetched: number; parsed: number; inserted: number; error?: string }> = {};
 
     for (const source of pollSources) {
@@ -513,7 +663,7 @@ serve(async (req) => {
           const BATCH_SIZE = 50;
           for (let i = 0; i < polls.length; i += BATCH_SIZE) {
             const batch = polls.slice(i, i + BATCH_SIZE);
-            const batchResult = await processBatch(supabase, batch, alerts);
+            const batchResult = await processBatch(supabase, batch, touchedRaces);
             
             newPolls += batchResult.inserted;
             duplicatePolls += batchResult.duplicates;
@@ -531,26 +681,9 @@ serve(async (req) => {
       }
     }
 
-    // Insert alerts
-    if (alerts.length > 0) {
-      console.log(`\nInserting ${alerts.length} alerts...`);
-      const { error: alertError } = await supabase
-        .from('polling_alerts')
-        .insert(alerts.map(a => ({
-          alert_type: a.alert_type,
-          race_id: a.race_id,
-          candidate_name: a.candidate_name,
-          previous_result: a.previous_result,
-          new_result: a.new_result,
-          change_amount: a.change_amount,
-          poll_date: a.poll_date,
-          severity: a.severity,
-        })));
-
-      if (alertError) {
-        console.error('Alert insert error:', alertError.message);
-      }
-    }
+    // Averages (and any alerts) for races that got new polls
+    console.log(`\nRefreshing averages for ${touchedRaces.size} races...`);
+    const averages = await refreshRaceAverages(supabase, Array.from(touchedRaces));
 
     const summary = {
       success: true,
@@ -559,7 +692,9 @@ serve(async (req) => {
       newPollsInserted: newPolls,
       duplicatesSkipped: duplicatePolls,
       errors: errorPolls,
-      alertsGenerated: alerts.length,
+      racesAveraged: averages.races,
+      averageRowsStored: averages.averageRows,
+      alertsGenerated: averages.alerts,
       sourceResults: results,
     };
 
@@ -568,7 +703,8 @@ serve(async (req) => {
     console.log(`New inserted: ${newPolls}`);
     console.log(`Duplicates: ${duplicatePolls}`);
     console.log(`Errors: ${errorPolls}`);
-    console.log(`Alerts: ${alerts.length}`);
+    console.log(`Races averaged: ${averages.races}`);
+    console.log(`Alerts: ${averages.alerts}`);
 
     return new Response(
       JSON.stringify(summary, null, 2),
@@ -3,6 +3,7 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { getCorsHeaders, validateCronOrAdmin, logJobFailure, checkRateLimit } from "../_shared/security.ts";
 import { fetchAndParseFeed } from "../_shared/xmlParser.ts";
 import { normalizeUrl, generateDedupeKey, generateContentHash, extractCanonicalUrl } from "../_shared/urlNormalizer.ts";
+import { assignStoryClusterIds } from "../_shared/storyClusterStore.ts";
 
 const corsHeaders = getCorsHeaders();
 
@@ -371,7 +372,7 @@ serve(async (req) => {
           const { data: upsertedArticles, error: upsertError } = await supabase
             .from('articles')
             .upsert(articlesToUpsert, { onConflict: 'hash_signature', ignoreDuplicates: true })
-            .select('id, hash_signature, content_hash, canonical_url, title, published_date');
+            .select('id, hash_signature, content_hash, canonical_url, title, content, published_date');
 
           if (upsertError) {
             console.error(`Batch upsert error for ${source.name}:`, upsertError.message);
@@ -396,6 +397,20 @@ serve(async (req) => {
               );
             }
             
+            // Assign story clusters so rewritten copies of a story dedupe together
+            try {
+              await assignStoryClusterIds(supabase, (upsertedArticles || []).map(article => ({
+                type: 'rss' as const,
+                id: article.id,
+                title: article.title,
+                body: article.content,
+                publishedAt: article.published_date,
+              })));
+            } catch (err) {
+              // Non-critical, detect-duplicates clusters anything missed
+              console.warn(`Story clustering failed for ${source.name}:`, err);
+            }
+            
             // Update source health on success
             await updateSourceHealth(supabase, source.id, true, undefined, insertedCount);
           }
@@ -1,12 +1,44 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { definePrompt, LLMError } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+interface BlogPostVars {
+  topic: string;
+  keywordList: string | undefined;
+  tone: string | undefined;
+  wordCount: string;
+}
+
+const blogPostPrompt = definePrompt<BlogPostVars>({
+  id: 'generate-blog-post.post',
+  version: 1,
+  system: `You are an expert political campaign content writer specializing in progressive causes. 
+Create engaging, informative blog posts that resonate with progressive audiences and drive action.
+Focus on practical advice, data-driven insights, and compelling storytelling.`,
+  user: ({ topic, keywordList, tone, wordCount }) => `Write a comprehensive blog post about "${topic}" that incorporates these keywords: ${keywordList}.
+
+Tone: ${tone || 'professional and engaging'}
+Length: ${wordCount} words
+
+Structure the post with:
+1. An attention-grabbing title
+2. A compelling 2-3 sentence excerpt/summary
+3. Well-organized sections with H2 and H3 headings
+4. Data points and statistics where relevant
+5. Actionable takeaways
+6. A strong call-to-action at the end
+
+Format the content in Markdown. Include the title as an H1 at the start.`,
+});
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -39,67 +71,34 @@ serve(async (req) => {
 
     const { topic, keywords, tone, length } = validationResult.data;
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
-    }
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const llm = createLLMClientForFunction(supabase, 'generate-blog-post');
 
     const keywordList = Array.isArray(keywords) ? keywords.join(', ') : keywords;
     const wordCount = length === 'short' ? '500-700' : length === 'medium' ? '800-1200' : '1500-2000';
-    
-    const systemPrompt = `You are an expert political campaign content writer specializing in progressive causes. 
-Create engaging, informative blog posts that resonate with progressive audiences and drive action.
-Focus on practical advice, data-driven insights, and compelling storytelling.`;
-
-    const userPrompt = `Write a comprehensive blog post about "${topic}" that incorporates these keywords: ${keywordList}.
-
-Tone: ${tone || 'professional and engaging'}
-Length: ${wordCount} words
 
-Structure the post with:
-1. An attention-grabbing title
-2. A compelling 2-3 sentence excerpt/summary
-3. Well-organized sections with H2 and H3 headings
-4. Data points and statistics where relevant
-5. Actionable takeaways
-6. A strong call-to-action at the end
-
-Format the content in Markdown. Include the title as an H1 at the start.`;
-
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      if (response.status === 429) {
+    let generatedContent: string;
+    try {
+      ({ content: generatedContent } = await llm.run(blogPostPrompt, { topic, keywordList, tone, wordCount }));
+    } catch (aiError) {
+      if (aiError instanceof LLMError && aiError.code === 'rate_limited') {
         return new Response(JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }), {
           status: 429,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
-      if (response.status === 402) {
+      if (aiError instanceof LLMError && aiError.code === 'payment_required') {
         return new Response(JSON.stringify({ error: 'Payment required. Please add credits to your workspace.' }), {
           status: 402,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
-      throw new Error('Failed to generate content');
+      throw aiError;
     }
 
-    const data = await response.json();
-    const generatedContent = data.choices[0].message.content;
-
     // Extract title and content
     const lines = generatedContent.split('\n');
     const titleLine = lines.find((line: string) => line.startsWith('# '));
@@ -1,9 +1,68 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
 import { getCorsHeaders, validateAuth, userBelongsToOrg, checkRateLimit } from "../_shared/security.ts";
+import { OPT_OUT_LENGTH, runComplianceChecks } from "../_shared/complianceChecker.ts";
+import { definePrompt, LLMError } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
+import { z } from "../_shared/validators.ts";
 
 const corsHeaders = getCorsHeaders();
 
+const generatedMessagesSchema = z.array(z.object({
+  message: z.string().min(1),
+  approach: z.string().optional(),
+  predicted_performance: z.number().optional(),
+}));
+
+type GeneratedMessage = z.infer<typeof generatedMessagesSchema>[number];
+
+// One GSM-7 segment once the opt-out is appended at send time
+const MAX_MESSAGE_CHARS = 160 - OPT_OUT_LENGTH;
+
+interface CampaignMessageVars {
+  numVariants: number;
+  orgName: string | null;
+  entityName: string;
+  entityType: string;
+  opportunityContext?: string;
+  historical: Array<{ text: string }>;
+  correlations: Array<{ entity: string; donations: number | null; amount: number | null }>;
+}
+
+const campaignMessagesPrompt = definePrompt<CampaignMessageVars>({
+  id: 'generate-campaign-messages.sms-variants',
+  version: 2,
+  user: ({ numVariants, orgName, entityName, entityType, opportunityContext, historical, correlations }) => `Generate ${numVariants} SMS campaign message variants (${MAX_MESSAGE_CHARS} chars max each) for a political fundraising campaign.
+
+Context:
+- Sender: ${orgName || 'the organization'}
+- Entity: ${entityName} (${entityType})
+- Opportunity: ${opportunityContext || 'trending topic with high fundraising potential'}
+
+Historical successful messages from this organization:
+${historical.map(h => `- "${h.text}"`).join('\n')}
+
+Past successful correlations:
+${correlations.map(c => `- ${c.entity}: ${c.donations} donations, $${c.amount?.toFixed(0)} raised`).join('\n')}
+
+Requirements:
+- Create urgency without being alarmist
+- Include clear call-to-action
+- Mention the specific entity/topic
+- Identify the sender by name
+- Keep under ${MAX_MESSAGE_CHARS} characters (an opt-out line is added when sending)
+- Variants should test different approaches (emotional, factual, urgent)
+
+Return ONLY a JSON array of ${numVariants} message objects with this structure:
+[
+  {
+    "message": "the SMS text (max ${MAX_MESSAGE_CHARS} chars)",
+    "approach": "emotional|factual|urgent",
+    "predicted_performance": 1-100 score
+  }
+]`,
+});
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -13,6 +72,7 @@ serve(async (req) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
+    const llm = createLLMClientForFunction(supabase, 'generate-campaign-messages');
 
     // SECURITY: Require authenticated user
     const authResult = await validateAuth(req, supabase);
@@ -54,6 +114,14 @@ serve(async (req) => {
     }
     console.log(`Generating campaign messages for ${entity_name} (${organization_id})`);
 
+    // Org name lets the sender-identification check recognise the sender
+    const { data: org } = await supabase
+      .from('client_organizations')
+      .select('name')
+      .eq('id', organization_id)
+      .maybeSingle();
+    const orgName: string | null = org?.name ?? null;
+
     // Get historical successful messages for this org
     const { data: historicalMessages } = await supabase
       .from('suggested_actions')
@@ -85,77 +153,50 @@ serve(async (req) => {
       amount: c.amount_raised_48h_after
     })) || [];
 
-    // Call Lovable AI for message generation
-    const aiPrompt = `Generate ${num_variants} SMS campaign message variants (160 chars max each) for a political fundraising campaign.
-
-Context:
-- Entity: ${entity_name} (${entity_type})
-- Opportunity: ${opportunity_context || 'trending topic with high fundraising potential'}
-
-Historical successful messages from this organization:
-${historicalContext.map(h => `- "${h.text}"`).join('\n')}
-
-Past successful correlations:
-${correlationContext.map(c => `- ${c.entity}: ${c.donations} donations, $${c.amount?.toFixed(0)} raised`).join('\n')}
-
-Requirements:
-- Create urgency without being alarmist
-- Include clear call-to-action
-- Mention the specific entity/topic
-- Keep under 160 characters
-- Variants should test different approaches (emotional, factual, urgent)
-
-Return ONLY a JSON array of ${num_variants} message objects with this structure:
-[
-  {
-    "message": "the SMS text (max 160 chars)",
-    "approach": "emotional|factual|urgent",
-    "predicted_performance": 1-100 score
-  }
-]`;
-
-    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${Deno.env.get('LOVABLE_API_KEY')}`,
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'user', content: aiPrompt }
-        ],
-      }),
-    });
-
-    if (!aiResponse.ok) {
-      throw new Error(`AI API error: ${aiResponse.statusText}`);
-    }
-
-    const aiData = await aiResponse.json();
-    const content = aiData.choices?.[0]?.message?.content;
-
-    if (!content) {
-      throw new Error('No content in AI response');
-    }
-
-    // Parse AI response
-    let generatedMessages;
+    let parsedMessages: GeneratedMessage[];
     try {
-      // Try to find JSON in the response
-      const jsonMatch = content.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        generatedMessages = JSON.parse(jsonMatch[0]);
-      } else {
-        generatedMessages = JSON.parse(content);
+      ({ data: parsedMessages } = await llm.runJson(campaignMessagesPrompt, {
+        numVariants: num_variants,
+        orgName,
+        entityName: entity_name,
+        entityType: entity_type,
+        opportunityContext: opportunity_context,
+        historical: historicalContext,
+        correlations: correlationContext,
+      }, { organizationId: organization_id, schema: generatedMessagesSchema }));
+    } catch (aiError) {
+      if (aiError instanceof LLMError && aiError.code === 'budget_exceeded') {
+        return new Response(
+          JSON.stringify({ error: aiError.message }),
+          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
       }
-    } catch (parseError) {
-      console.error('Failed to parse AI response:', content);
+      // Gateway failures keep their message; bad JSON or schema mismatches read as a parse failure
+      if (aiError instanceof LLMError && aiError.code !== 'invalid_json') throw aiError;
+      console.error('Failed to parse AI response:', aiError instanceof Error ? aiError.message : aiError);
       throw new Error('Failed to parse AI-generated messages');
     }
 
+    // Attach segment counts and cost so drafts show what the carrier will bill,
+    // including the opt-out added at send time
+    const generatedMessages = parsedMessages.map(msg => {
+      const compliance = runComplianceChecks(msg.message, { orgName: orgName ?? undefined, maxSegments: 1 });
+      return {
+        ...msg,
+        character_count: compliance.checks.character_count,
+        encoding: compliance.checks.encoding,
+        segment_count: compliance.checks.segment_count,
+        estimated_cost: compliance.checks.estimated_cost,
+        is_mms: compliance.checks.is_mms,
+        gsm_safe_message: compliance.gsm_suggestion?.text ?? null,
+        compliance_status: compliance.status,
+        compliance_checks: compliance.checks,
+        compliance_warnings: [...compliance.issues, ...compliance.warnings],
+      };
+    });
+
     // Store generated messages
-    const messagesToStore = generatedMessages.map((msg: any, index: number) => ({
+    const messagesToStore = generatedMessages.map((msg, index) => ({
       organization_id,
       entity_name,
       entity_type,
@@ -163,6 +204,9 @@ Return ONLY a JSON array of ${num_variants} message objects with this structure:
       message_approach: msg.approach,
       predicted_performance: msg.predicted_performance || 70,
       variant_number: index + 1,
+      sms_encoding: msg.encoding,
+      segment_count: msg.segment_count,
+      compliance_checks: msg.compliance_checks,
       context_used: {
         historical_messages: historicalContext.length,
         correlations: correlationContext.length,
@@ -1,79 +1,29 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { definePrompt, LLMError } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const { organizationId, campaignObjective, targetAudience } = await req.json();
-
-    if (!organizationId) {
-      return new Response(
-        JSON.stringify({ error: "organizationId is required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    console.log(`Generating recommendations for org: ${organizationId}`);
-
-    // Fetch historical performance data
-    const { data: creatives, error: creativesError } = await supabase
-      .from("meta_creative_insights")
-      .select("*")
-      .eq("organization_id", organizationId)
-      .not("topic", "is", null)
-      .order("roas", { ascending: false });
-
-    if (creativesError) {
-      console.error("Error fetching creatives:", creativesError);
-      throw creativesError;
-    }
-
-    // Fetch learnings from creative_performance_learnings
-    const { data: learnings, error: learningsError } = await supabase
-      .from("creative_performance_learnings")
-      .select("*")
-      .eq("organization_id", organizationId)
-      .order("effectiveness_score", { ascending: false })
-      .limit(20);
-
-    if (learningsError) {
-      console.error("Error fetching learnings:", learningsError);
-    }
-
-    // Analyze patterns
-    const patterns = analyzePatterns(creatives || [], learnings || []);
-
-    // Generate AI recommendations using Lovable AI
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
-      console.log("No LOVABLE_API_KEY, returning pattern-based recommendations");
-      return new Response(
-        JSON.stringify({ 
-          recommendations: patterns.recommendations,
-          scorecard: patterns.scorecard,
-          patterns: patterns.topPatterns
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
+interface RecommendationVars {
+  performanceContext: string;
+  campaignObjective?: string;
+  targetAudience?: string;
+}
 
-    // Build context for AI
-    const performanceContext = buildPerformanceContext(creatives || [], patterns);
+interface AIRecommendations {
+  recommendations?: Array<Record<string, unknown>>;
+  optimalFormula?: Record<string, unknown>;
+}
 
-    const systemPrompt = `You are a creative strategist AI that analyzes ad performance data and generates actionable recommendations. 
+const recommendationsPrompt = definePrompt<RecommendationVars>({
+  id: "generate-creative-recommendations.recommendations",
+  version: 1,
+  temperature: 0.7,
+  system: `You are a creative strategist AI that analyzes ad performance data and generates actionable recommendations. 
     
 Based on the performance data provided, generate specific, data-backed recommendations for new creatives.
 
@@ -87,9 +37,8 @@ Focus on:
 Always include:
 - Confidence score (0-1) based on sample size and consistency
 - Expected performance range (min-max ROAS)
-- Specific actionable suggestions`;
-
-    const userPrompt = `Analyze this creative performance data and generate recommendations:
+- Specific actionable suggestions`,
+  user: ({ performanceContext, campaignObjective, targetAudience }) => `Analyze this creative performance data and generate recommendations:
 
 ${performanceContext}
 
@@ -124,50 +73,88 @@ Return as JSON array with structure:
     "cta": "...",
     "expectedRoas": 2.5
   }
-}`;
-
-    const aiResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt }
-        ],
-        temperature: 0.7,
-      }),
-    });
+}`,
+});
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { organizationId, campaignObjective, targetAudience } = await req.json();
 
-    if (!aiResponse.ok) {
-      console.error("AI API error:", await aiResponse.text());
-      // Fall back to pattern-based recommendations
+    if (!organizationId) {
       return new Response(
-        JSON.stringify({ 
-          recommendations: patterns.recommendations,
-          scorecard: patterns.scorecard,
-          patterns: patterns.topPatterns
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ error: "organizationId is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    const aiData = await aiResponse.json();
-    const aiContent = aiData.choices?.[0]?.message?.content || "";
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    console.log(`Generating recommendations for org: ${organizationId}`);
 
-    // Parse AI response
-    let aiRecommendations;
+    // Fetch historical performance data
+    const { data: creatives, error: creativesError } = await supabase
+      .from("meta_creative_insights")
+      .select("*")
+      .eq("organization_id", organizationId)
+      .not("topic", "is", null)
+      .order("roas", { ascending: false });
+
+    if (creativesError) {
+      console.error("Error fetching creatives:", creativesError);
+      throw creativesError;
+    }
+
+    // Fetch learnings from creative_performance_learnings
+    const { data: learnings, error: learningsError } = await supabase
+      .from("creative_performance_learnings")
+      .select("*")
+      .eq("organization_id", organizationId)
+      .order("effectiveness_score", { ascending: false })
+      .limit(20);
+
+    if (learningsError) {
+      console.error("Error fetching learnings:", learningsError);
+    }
+
+    // Analyze patterns
+    const patterns = analyzePatterns(creatives || [], learnings || []);
+
+    // Build context for AI
+    const performanceContext = buildPerformanceContext(creatives || [], patterns);
+
+    // Generate AI recommendations using Lovable AI
+    const llm = createLLMClientForFunction(supabase, "generate-creative-recommendations");
+    let aiRecommendations: AIRecommendations | undefined;
     try {
-      // Extract JSON from response
-      const jsonMatch = aiContent.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        aiRecommendations = JSON.parse(jsonMatch[0]);
+      ({ data: aiRecommendations } = await llm.runJson<AIRecommendations, RecommendationVars>(
+        recommendationsPrompt,
+        { performanceContext, campaignObjective, targetAudience },
+        { organizationId }
+      ));
+    } catch (aiError) {
+      if (!(aiError instanceof LLMError && aiError.code === "invalid_json")) {
+        if (aiError instanceof LLMError && aiError.code === "not_configured") {
+          console.log("No LOVABLE_API_KEY, returning pattern-based recommendations");
+        } else {
+          console.error("AI API error:", aiError instanceof Error ? aiError.message : aiError);
+        }
+        // Fall back to pattern-based recommendations
+        return new Response(
+          JSON.stringify({ 
+            recommendations: patterns.recommendations,
+            scorecard: patterns.scorecard,
+            patterns: patterns.topPatterns
+          }),
+          { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
       }
-    } catch (e) {
-      console.error("Failed to parse AI response:", e);
+      console.error("Failed to parse AI response:", aiError.message);
     }
 
     // Combine AI recommendations with pattern analysis
@@ -1,11 +1,50 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { definePrompt, LLMError } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+interface BriefingContext {
+  totalArticles: number;
+  criticalCount: number;
+  watchlistMatches: number;
+  watchlistEntities: string[];
+  topTrends: Array<{ name: string; spikeRatio: number; mentions: number; sentiment: string }>;
+  sampleHeadlines: string[];
+}
+
+const briefingPrompt = definePrompt<BriefingContext>({
+  id: "generate-daily-briefing.summary",
+  version: 1,
+  maxTokens: 200,
+  temperature: 0.7,
+  system: `You are a concise news briefing assistant. Generate a 2-3 sentence executive summary for a political campaign strategist. Focus on:
+1. What's most important TODAY for their watchlist
+2. Any critical/high-threat news they need to know
+3. Key trending topics that might affect their work
+
+Be direct, actionable, and use plain language. No marketing speak. Start with the most important thing.`,
+  user: (context) => `Generate today's briefing based on this data:
+
+Watchlist entities: ${context.watchlistEntities.join(', ') || 'None set'}
+Watchlist mentions today: ${context.watchlistMatches}
+Critical/high-threat articles: ${context.criticalCount}
+Total new articles: ${context.totalArticles}
+
+Top trending topics:
+${context.topTrends.map(t => `- "${t.name}" (${t.spikeRatio.toFixed(1)}x spike, ${t.mentions} mentions, ${t.sentiment} sentiment)`).join('\n') || 'No significant trends'}
+
+Sample headlines:
+${context.sampleHeadlines.join('\n') || 'No recent headlines'}`,
+});
+
+// Missing key, rate limits, exhausted credits and empty answers fall back to the rule-based summary
+const FALLBACK_ERROR_CODES = new Set(["not_configured", "rate_limited", "payment_required", "empty_response"]);
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -54,7 +93,7 @@ serve(async (req) => {
     const criticalCount = articles.filter(a => a.threat_level === 'critical' || a.threat_level === 'high').length;
 
     // Build context for AI
-    const context = {
+    const context: BriefingContext = {
       totalArticles: articles.length,
       criticalCount,
       watchlistMatches: watchlistMatches.length,
@@ -68,68 +107,15 @@ serve(async (req) => {
       sampleHeadlines: articles.slice(0, 5).map(a => a.title)
     };
 
-    // Call Lovable AI for summary
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      // Return a fallback summary if no API key
-      const fallbackSummary = generateFallbackSummary(context);
-      return new Response(JSON.stringify({ summary: fallbackSummary, context }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+    const llm = createLLMClientForFunction(supabase, "generate-daily-briefing");
+    let summary: string;
+    try {
+      ({ content: summary } = await llm.run(briefingPrompt, context));
+    } catch (aiError) {
+      if (!(aiError instanceof LLMError) || !FALLBACK_ERROR_CODES.has(aiError.code)) throw aiError;
+      summary = generateFallbackSummary(context);
     }
 
-    const aiResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          {
-            role: "system",
-            content: `You are a concise news briefing assistant. Generate a 2-3 sentence executive summary for a political campaign strategist. Focus on:
-1. What's most important TODAY for their watchlist
-2. Any critical/high-threat news they need to know
-3. Key trending topics that might affect their work
-
-Be direct, actionable, and use plain language. No marketing speak. Start with the most important thing.`
-          },
-          {
-            role: "user",
-            content: `Generate today's briefing based on this data:
-
-Watchlist entities: ${context.watchlistEntities.join(', ') || 'None set'}
-Watchlist mentions today: ${context.watchlistMatches}
-Critical/high-threat articles: ${context.criticalCount}
-Total new articles: ${context.totalArticles}
-
-Top trending topics:
-${context.topTrends.map(t => `- "${t.name}" (${t.spikeRatio.toFixed(1)}x spike, ${t.mentions} mentions, ${t.sentiment} sentiment)`).join('\n') || 'No significant trends'}
-
-Sample headlines:
-${context.sampleHeadlines.join('\n') || 'No recent headlines'}`
-          }
-        ],
-        max_tokens: 200,
-        temperature: 0.7
-      }),
-    });
-
-    if (!aiResponse.ok) {
-      if (aiResponse.status === 429 || aiResponse.status === 402) {
-        const fallbackSummary = generateFallbackSummary(context);
-        return new Response(JSON.stringify({ summary: fallbackSummary, context }), {
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      throw new Error(`AI API error: ${aiResponse.status}`);
-    }
-
-    const aiData = await aiResponse.json();
-    const summary = aiData.choices?.[0]?.message?.content || generateFallbackSummary(context);
-
     return new Response(JSON.stringify({ summary, context }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
@@ -147,7 +133,7 @@ ${context.sampleHeadlines.join('\n') || 'No recent headlines'}`
   }
 });
 
-function generateFallbackSummary(context: any): string {
+function generateFallbackSummary(context: BriefingContext): string {
   const parts: string[] = [];
   
   if (context.watchlistMatches > 0) {
@@ -1,6 +1,12 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { validateCronSecret } from "../_shared/security.ts";
+import {
+  EMBEDDING_BATCH_SIZE,
+  getEmbeddingProvider,
+  toPgVector,
+  type EmbeddingProvider,
+} from "../_shared/embeddings.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,8 +20,13 @@ const corsHeaders = {
  * 1. Organization profiles (mission + focus areas + issues + geos)
  * 2. Trend events (title + top_headline + evidence summaries)
  *
- * Uses Lovable AI (Gemini) for text-to-embedding generation.
- * Caches embeddings to avoid recomputation.
+ * Uses the provider from _shared/embeddings.ts (OpenAI embeddings, or the
+ * local hashing embedder when no key is set). Each vector is stored with its
+ * embedding_model; rows embedded by a different model are re-embedded.
+ *
+ * Options:
+ * - backfill: re-embed stale trend events beyond the trending/24h window
+ * - forceRegenerate: re-embed everything selected, current model or not
  */
 
 async function validateAuth(req: Request, supabase: any): Promise<{ user: any; isAdmin: boolean } | null> {
@@ -50,95 +61,6 @@ async function validateCronOrAdmin(req: Request, supabase: any): Promise<{ valid
   return { valid: false };
 }
 
-// Generate embedding using Lovable AI
-async function generateEmbedding(text: string): Promise<number[] | null> {
-  const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-  if (!LOVABLE_API_KEY) {
-    console.error('LOVABLE_API_KEY not configured');
-    return null;
-  }
-
-  try {
-    // Truncate text to avoid token limits (approx 8k chars = ~2k tokens)
-    const truncatedText = text.substring(0, 8000);
-    
-    // Use Gemini for embedding generation via chat completion
-    // We'll ask it to return a normalized embedding representation
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash-lite',
-        messages: [
-          {
-            role: 'system',
-            content: `You are an embedding generator. Given text, generate a 768-dimensional normalized embedding vector that captures the semantic meaning. Output ONLY a JSON array of 768 floating point numbers between -1 and 1, no other text. The embedding should capture: topics, entities, sentiment, urgency, and domain relevance for political/advocacy content.`
-          },
-          {
-            role: 'user',
-            content: `Generate a 768-dimensional embedding for this text:\n\n${truncatedText}`
-          }
-        ],
-        temperature: 0.0,
-        max_tokens: 8000,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Lovable AI error:', response.status, errorText);
-      return null;
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content?.trim();
-    
-    if (!content) {
-      console.error('No content in AI response');
-      return null;
-    }
-
-    // Parse the JSON array
-    try {
-      // Clean up the response - remove markdown code blocks if present
-      let cleanContent = content;
-      if (cleanContent.startsWith('```')) {
-        cleanContent = cleanContent.replace(/```json?\n?/g, '').replace(/```/g, '').trim();
-      }
-      
-      const embedding = JSON.parse(cleanContent);
-      
-      if (!Array.isArray(embedding) || embedding.length !== 768) {
-        console.error(`Invalid embedding dimensions: expected 768, got ${embedding?.length}`);
-        // If we got a shorter array, pad with zeros
-        if (Array.isArray(embedding) && embedding.length > 0) {
-          while (embedding.length < 768) {
-            embedding.push(0);
-          }
-          return embedding.slice(0, 768);
-        }
-        return null;
-      }
-      
-      // Normalize the embedding
-      const magnitude = Math.sqrt(embedding.reduce((sum: number, v: number) => sum + v * v, 0));
-      if (magnitude > 0) {
-        return embedding.map((v: number) => v / magnitude);
-      }
-      return embedding;
-    } catch (parseError) {
-      console.error('Failed to parse embedding JSON:', parseError, 'Content:', content.substring(0, 200));
-      return null;
-    }
-  } catch (error) {
-    console.error('Error generating embedding:', error);
-    return null;
-  }
-}
-
 // Build embedding text from organization profile
 function buildOrgProfileText(profile: any): string {
   const parts: string[] = [];
@@ -231,24 +153,58 @@ function buildTrendEventText(event: any, evidence: any[]): string {
   return parts.join('\n');
 }
 
-// Calculate cosine similarity between two embeddings
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length !== b.length) return 0;
-  
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-  
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
+/**
+ * Embeds items in batches and writes vector + model back to the table.
+ * A failed batch is counted and skipped so one bad response doesn't sink the run.
+ */
+async function embedAndStore(
+  supabase: ReturnType<typeof createClient>,
+  provider: EmbeddingProvider,
+  table: 'organization_profiles' | 'trend_events',
+  items: { id: string; text: string }[]
+): Promise<{ processed: number; errors: number }> {
+  let processed = 0;
+  let errors = 0;
+
+  for (let i = 0; i < items.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = items.slice(i, i + EMBEDDING_BATCH_SIZE);
+
+    let vectors: number[][];
+    try {
+      vectors = await provider.embed(batch.map(item => item.text));
+    } catch (error) {
+      console.error(`[generate-embeddings] ${table} batch failed:`, error instanceof Error ? error.message : error);
+      errors += batch.length;
+      continue;
+    }
+
+    const generatedAt = new Date().toISOString();
+    for (let j = 0; j < batch.length; j++) {
+      const { error: updateError } = await supabase
+        .from(table)
+        .update({
+          embedding: toPgVector(vectors[j]),
+          embedding_model: provider.model,
+          embedding_text: batch[j].text.substring(0, 2000),
+          embedding_generated_at: generatedAt,
+        })
+        .eq('id', batch[j].id);
+
+      if (updateError) {
+        console.error(`Error updating ${table} ${batch[j].id}:`, updateError);
+        errors++;
+      } else {
+        processed++;
+      }
+    }
+
+    // Pace remote batches; the local embedder has no rate limit
+    if (provider.remote && i + EMBEDDING_BATCH_SIZE < items.length) {
+      await new Promise(resolve => setTimeout(resolve, 250));
+    }
   }
-  
-  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
-  if (magnitude === 0) return 0;
-  
-  return dotProduct / magnitude;
+
+  return { processed, errors };
 }
 
 serve(async (req) => {
@@ -278,6 +234,7 @@ serve(async (req) => {
       maxTrends: 50,
       forceRegenerate: false,
       onlyMissing: true,
+      backfill: false,
     };
     
     try {
@@ -287,13 +244,14 @@ serve(async (req) => {
       // Use defaults
     }
 
-    console.log(`[generate-embeddings] Starting with options:`, options);
+    const provider = getEmbeddingProvider();
+    // Rows with no vector, or a vector from another model, need (re-)embedding
+    const staleFilter = `embedding.is.null,embedding_model.is.null,embedding_model.neq."${provider.model}"`;
+
+    console.log(`[generate-embeddings] Starting with model ${provider.model}, options:`, options);
 
-    let profilesProcessed = 0;
     let profilesSkipped = 0;
-    let trendsProcessed = 0;
     let trendsSkipped = 0;
-    let errors = 0;
 
     // ========================================
     // STEP 1: Generate embeddings for org profiles
@@ -306,75 +264,50 @@ serve(async (req) => {
       .limit(options.maxProfiles);
     
     if (options.onlyMissing && !options.forceRegenerate) {
-      profileQuery = profileQuery.is('embedding', null);
+      profileQuery = profileQuery.or(staleFilter);
     }
     
     const { data: profiles } = await profileQuery;
     
     console.log(`[generate-embeddings] Found ${profiles?.length || 0} org profiles to process`);
     
+    const profileItems: { id: string; text: string }[] = [];
     for (const profile of profiles || []) {
-      try {
-        const embeddingText = buildOrgProfileText(profile);
-        
-        if (embeddingText.length < 50) {
-          console.log(`[generate-embeddings] Skipping profile ${profile.id} - insufficient text`);
-          profilesSkipped++;
-          continue;
-        }
-        
-        console.log(`[generate-embeddings] Generating embedding for org profile: ${profile.display_name || profile.organization_id}`);
-        
-        const embedding = await generateEmbedding(embeddingText);
-        
-        if (embedding) {
-          // Convert to pgvector format
-          const embeddingStr = `[${embedding.join(',')}]`;
-          
-          const { error: updateError } = await supabase
-            .from('organization_profiles')
-            .update({
-              embedding: embeddingStr,
-              embedding_text: embeddingText.substring(0, 2000),
-              embedding_generated_at: new Date().toISOString(),
-            })
-            .eq('id', profile.id);
-          
-          if (updateError) {
-            console.error(`Error updating profile ${profile.id}:`, updateError);
-            errors++;
-          } else {
-            profilesProcessed++;
-          }
-        } else {
-          console.error(`Failed to generate embedding for profile ${profile.id}`);
-          errors++;
-        }
-        
-        // Rate limit: wait 500ms between API calls
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-      } catch (error) {
-        console.error(`Error processing profile ${profile.id}:`, error);
-        errors++;
+      const embeddingText = buildOrgProfileText(profile);
+      
+      if (embeddingText.length < 50) {
+        console.log(`[generate-embeddings] Skipping profile ${profile.id} - insufficient text`);
+        profilesSkipped++;
+        continue;
       }
+      profileItems.push({ id: profile.id, text: embeddingText });
     }
 
+    const profileResult = await embedAndStore(supabase, provider, 'organization_profiles', profileItems);
+
     // ========================================
     // STEP 2: Generate embeddings for trend events
     // ========================================
     
-    // Get trending events that need embeddings
+    // Normal runs cover what's trending now; backfill walks older events after a model change
     let trendQuery = supabase
       .from('trend_events')
-      .select('*')
-      .eq('is_trending', true)
-      .gte('last_seen_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
-      .order('velocity', { ascending: false })
-      .limit(options.maxTrends);
+      .select('*');
+
+    if (options.backfill) {
+      trendQuery = trendQuery
+        .gte('last_seen_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString())
+        .order('last_seen_at', { ascending: false });
+    } else {
+      trendQuery = trendQuery
+        .eq('is_trending', true)
+        .gte('last_seen_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString())
+        .order('velocity', { ascending: false });
+    }
+    trendQuery = trendQuery.limit(options.maxTrends);
     
     if (options.onlyMissing && !options.forceRegenerate) {
-      trendQuery = trendQuery.is('embedding', null);
+      trendQuery = trendQuery.or(staleFilter);
     }
     
     const { data: trendEvents } = await trendQuery;
@@ -397,54 +330,25 @@ serve(async (req) => {
       evidenceByTrend.get(e.trend_event_id)!.push(e);
     }
     
+    const trendItems: { id: string; text: string }[] = [];
     for (const event of trendEvents || []) {
-      try {
-        const evidence = evidenceByTrend.get(event.id) || [];
-        const embeddingText = buildTrendEventText(event, evidence);
-        
-        if (embeddingText.length < 20) {
-          console.log(`[generate-embeddings] Skipping trend ${event.id} - insufficient text`);
-          trendsSkipped++;
-          continue;
-        }
-        
-        console.log(`[generate-embeddings] Generating embedding for trend: ${event.event_title}`);
-        
-        const embedding = await generateEmbedding(embeddingText);
-        
-        if (embedding) {
-          // Convert to pgvector format
-          const embeddingStr = `[${embedding.join(',')}]`;
-          
-          const { error: updateError } = await supabase
-            .from('trend_events')
-            .update({
-              embedding: embeddingStr,
-              embedding_text: embeddingText.substring(0, 2000),
-              embedding_generated_at: new Date().toISOString(),
-            })
-            .eq('id', event.id);
-          
-          if (updateError) {
-            console.error(`Error updating trend ${event.id}:`, updateError);
-            errors++;
-          } else {
-            trendsProcessed++;
-          }
-        } else {
-          console.error(`Failed to generate embedding for trend ${event.id}`);
-          errors++;
-        }
-        
-        // Rate limit: wait 500ms between API calls
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-      } catch (error) {
-        console.error(`Error processing trend ${event.id}:`, error);
-        errors++;
+      const evidence = evidenceByTrend.get(event.id) || [];
+      const embeddingText = buildTrendEventText(event, evidence);
+      
+      if (embeddingText.length < 20) {
+        console.log(`[generate-embeddings] Skipping trend ${event.id} - insufficient text`);
+        trendsSkipped++;
+        continue;
       }
+      trendItems.push({ id: event.id, text: embeddingText });
     }
 
+    const trendResult = await embedAndStore(supabase, provider, 'trend_events', trendItems);
+
+    const profilesProcessed = profileResult.processed;
+    const trendsProcessed = trendResult.processed;
+    const errors = profileResult.errors + trendResult.errors;
+
     const duration = Date.now() - startTime;
     
     console.log(`[generate-embeddings] Complete in ${duration}ms:`, {
@@ -458,11 +362,15 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({
         success: true,
+        model: provider.model,
         profilesProcessed,
         profilesSkipped,
         trendsProcessed,
         trendsSkipped,
         errors,
+        // Field names read by run-scheduled-jobs
+        items_processed: profileItems.length + trendItems.length,
+        embeddings_created: profilesProcessed + trendsProcessed,
         durationMs: duration,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
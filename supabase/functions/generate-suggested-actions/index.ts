@@ -18,9 +18,12 @@ import {
   runComplianceChecks, 
   cleanMessageForCompliance,
   appendOptOut,
+  suggestGsmReplacements,
   type ComplianceCheckResult,
 } from "../_shared/complianceChecker.ts";
 import { z, parseJsonBody, uuidSchema } from "../_shared/validators.ts";
+import { definePrompt, isLLMConfigured, type LLMClient } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -184,12 +187,27 @@ REQUIREMENTS:
 Generate only the SMS text, nothing else.`;
 }
 
+interface VariantPromptVars {
+  alert: Parameters<typeof buildVariantPrompt>[0];
+  orgProfile: OrgProfile | null;
+  variantSpec: VariantSpec;
+  decisionScore: DecisionScoreResult;
+}
+
+const variantPrompt = definePrompt<VariantPromptVars>({
+  id: 'generate-suggested-actions.sms-variant',
+  version: 1,
+  maxTokens: 100,
+  system: 'You are an expert political communications copywriter specializing in SMS fundraising. Generate concise, compliant messages tailored to the organization and variant type requested.',
+  user: ({ alert, orgProfile, variantSpec, decisionScore }) => buildVariantPrompt(alert, orgProfile, variantSpec, decisionScore),
+});
+
 // Generate actions using AI with multi-variant support
 async function generateAIVariants(
+  llm: LLMClient,
   alert: any,
   orgProfile: OrgProfile | null,
-  decisionScore: DecisionScoreResult,
-  lovableApiKey: string
+  decisionScore: DecisionScoreResult
 ): Promise<Array<{ copy: string; variantType: VariantType; method: 'ai' | 'template_fallback' }>> {
   const results: Array<{ copy: string; variantType: VariantType; method: 'ai' | 'template_fallback' }> = [];
   
@@ -206,48 +224,25 @@ async function generateAIVariants(
   
   for (const variantSpec of variantsToGenerate) {
     try {
-      const prompt = buildVariantPrompt(alert, orgProfile, variantSpec, decisionScore);
+      const { content } = await llm.run(
+        variantPrompt,
+        { alert, orgProfile, variantSpec, decisionScore },
+        { organizationId: alert.organization_id }
+      );
+      // Clean up any quotes or extra formatting
+      let aiCopy = content.replace(/^["']|["']$/g, '').trim();
       
-      const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${lovableApiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'google/gemini-2.5-flash',
-          messages: [
-            { 
-              role: 'system', 
-              content: 'You are an expert political communications copywriter specializing in SMS fundraising. Generate concise, compliant messages tailored to the organization and variant type requested.' 
-            },
-            { role: 'user', content: prompt }
-          ],
-          max_tokens: 100,
-        }),
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        let aiCopy = data.choices?.[0]?.message?.content?.trim();
-        
-        if (aiCopy) {
-          // Clean up any quotes or extra formatting
-          aiCopy = aiCopy.replace(/^["']|["']$/g, '').trim();
-          
-          if (aiCopy.length > MAX_COPY_LENGTH) {
-            aiCopy = aiCopy.substring(0, MAX_COPY_LENGTH - 3) + '...';
-          }
-          
-          results.push({
-            copy: aiCopy,
-            variantType: variantSpec.type,
-            method: 'ai'
-          });
-          continue;
+      if (aiCopy) {
+        if (aiCopy.length > MAX_COPY_LENGTH) {
+          aiCopy = aiCopy.substring(0, MAX_COPY_LENGTH - 3) + '...';
         }
-      } else {
-        console.error(`AI generation failed for ${variantSpec.type}:`, response.status);
+        
+        results.push({
+          copy: aiCopy,
+          variantType: variantSpec.type,
+          method: 'ai'
+        });
+        continue;
       }
     } catch (error) {
       console.error(`AI variant error (${variantSpec.type}):`, error);
@@ -272,8 +267,8 @@ serve(async (req) => {
 
   const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
   const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-  const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
   const supabase = createClient(supabaseUrl, supabaseKey);
+  const llm = createLLMClientForFunction(supabase, 'generate-suggested-actions');
 
   // Parse request body for force generate options
   let forceMode = false;
@@ -533,8 +528,8 @@ serve(async (req) => {
         // Generate variants (AI with template fallback)
         let variants: Array<{ copy: string; variantType: VariantType; method: 'ai' | 'template_fallback' }>;
         
-        if (lovableApiKey && decisionScore.confidence_score >= DEFAULT_THRESHOLDS.min_confidence_for_ai) {
-          variants = await generateAIVariants(alert, profile, decisionScore, lovableApiKey);
+        if (isLLMConfigured() && decisionScore.confidence_score >= DEFAULT_THRESHOLDS.min_confidence_for_ai) {
+          variants = await generateAIVariants(llm, alert, profile, decisionScore);
         } else {
           // Template-only mode
           variants = VARIANT_SPECS
@@ -551,10 +546,15 @@ serve(async (req) => {
         for (const variant of variants) {
           const dedupeKey = generateDedupeKey(alert.organization_id, alert.id, variant.variantType);
           
+          // Swap curly quotes and dashes for GSM equivalents so a single
+          // character doesn't bill the draft as UCS-2
+          const gsmSafe = suggestGsmReplacements(variant.copy);
+          const copy = gsmSafe ? gsmSafe.text : variant.copy;
+
           // Run compliance checks
-          const complianceResult = runComplianceChecks(variant.copy, {
+          const complianceResult = runComplianceChecks(copy, {
             orgName: profile?.display_name || undefined,
-            maxCharacters: MAX_SMS_LENGTH,
+            maxSegments: 1,
             includeOptOutInLimit: true,
           });
 
@@ -565,7 +565,7 @@ serve(async (req) => {
           }
 
           // Add opt-out text
-          const finalCopy = variant.copy + OPT_OUT_TEXT;
+          const finalCopy = copy + OPT_OUT_TEXT;
           
           // Track generation method
           if (variant.method === 'ai') {
@@ -580,6 +580,8 @@ serve(async (req) => {
             assumptions: [
               `Alert type: ${alert.alert_type}`,
               `Severity: ${alert.severity}`,
+              `${complianceResult.checks.segment_count} ${complianceResult.checks.encoding} segment(s), ~$${complianceResult.checks.estimated_cost} per recipient`,
+              ...(gsmSafe ? [`Replaced non-GSM characters: ${gsmSafe.replacements.map(r => `${r.from} -> ${r.to || '(removed)'}`).join(', ')}`] : []),
             ],
             risks: complianceResult.warnings,
           };
@@ -624,7 +626,7 @@ serve(async (req) => {
             is_used: false,
             is_dismissed: false,
             generation_method: variant.method,
-            character_count: finalCopy.length,
+            character_count: complianceResult.checks.character_count,
             estimated_impact: `${alert.current_mentions || 0} mentions, ${alert.severity} severity`,
           });
         }
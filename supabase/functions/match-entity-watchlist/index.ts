@@ -1,6 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { validateCronSecret } from "../_shared/security.ts";
+import {
+  isConfidentResolution,
+  matchKnowledgeBaseEntity,
+  resolveMention,
+  type ResolutionContext,
+} from "../_shared/entityKnowledgeBase.ts";
+import { loadKnowledgeBaseIndex } from "../_shared/entityKnowledgeBaseStore.ts";
+import { emitWebhookEventsInBackground } from "../_shared/webhookStore.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -349,6 +357,7 @@ serve(async (req) => {
       trendEvidenceResult,
       recentAlertsResult,
       entityAliasesResult,
+      knowledgeBase,
     ] = await Promise.all([
       supabase
         .from('entity_watchlist')
@@ -378,6 +387,7 @@ serve(async (req) => {
         .select('raw_name, canonical_name, confidence_score')
         .order('confidence_score', { ascending: false })
         .limit(1000),
+      loadKnowledgeBaseIndex(supabase),
     ]);
 
     if (watchlistResult.error) throw watchlistResult.error;
@@ -428,24 +438,49 @@ serve(async (req) => {
         continue;
       }
 
+      // Pin the watched entity to one knowledge base entry so namesakes don't match
+      const watchContext: ResolutionContext = {
+        text: [watchItem.disambiguation_hint || '', ...(watchItem.context_keywords || [])].join(' '),
+        states: watchItem.geo_focus || [],
+      };
+      const watchedEntity = resolveMention(knowledgeBase, watchItem.entity_name, watchContext);
+      const watchedKey = isConfidentResolution(watchedEntity) ? watchedEntity.entity.entity_key : null;
+
       // Match against trend_events
       for (const event of trendEvents) {
         if (!event.event_title) continue;
         
+        // Get evidence for this event
+        const eventEvidence = evidenceByEvent.get(event.id) || [];
+        const evidenceText = eventEvidence.map(e => e.source_title || '').join(' ');
+
+        // A mention the knowledge base resolved to a namesake is not ours
+        const kbMatch = watchedKey
+          ? matchKnowledgeBaseEntity(knowledgeBase, watchedKey, event.event_title, {
+            ...watchContext,
+            text: `${evidenceText} ${watchContext.text}`,
+          })
+          : null;
+        if (kbMatch?.status === 'conflict') continue;
+
         // Try alias matching against event title
-        const aliasMatch = findAliasMatch(
+        let aliasMatch = findAliasMatch(
           event.event_title,
           watchItem.entity_name,
           watchItem.aliases || [],
           aliasMap
         );
+        if (kbMatch?.status === 'match' && (!aliasMatch || aliasMatch.confidence < kbMatch.confidence)) {
+          aliasMatch = {
+            matchedAlias: kbMatch.matchedOn || watchItem.entity_name,
+            canonicalName: watchItem.entity_name,
+            confidence: kbMatch.confidence,
+            isExactMatch: true,
+          };
+        }
         
         if (!aliasMatch || aliasMatch.confidence < SIMILARITY_THRESHOLD) continue;
         
-        // Get evidence for this event
-        const eventEvidence = evidenceByEvent.get(event.id) || [];
-        const evidenceText = eventEvidence.map(e => e.source_title || '').join(' ');
-        
         // Context gating - validate entity type
         const trendContent = event.event_title + ' ' + evidenceText;
         const typeContext = validateEntityTypeContext(
@@ -553,14 +588,33 @@ serve(async (req) => {
 
     // Insert alerts
     if (alerts.length > 0) {
-      const { error: alertsError } = await supabase
+      const { data: insertedAlerts, error: alertsError } = await supabase
         .from('client_entity_alerts')
-        .insert(alerts);
+        .insert(alerts)
+        .select('id, organization_id, entity_name, alert_type, severity, suggested_action, current_mentions, velocity, sample_sources, trend_event_id, triggered_at');
 
       if (alertsError) {
         console.error('Error inserting alerts:', alertsError);
         throw alertsError;
       }
+
+      emitWebhookEventsInBackground(supabase, 'alert.created', (insertedAlerts || []).map(alert => ({
+        id: `alert:${alert.id}`,
+        organizationId: alert.organization_id,
+        data: {
+          alert_id: alert.id,
+          title: `${alert.entity_name}: ${String(alert.alert_type).replace(/_/g, ' ')}`,
+          message: alert.suggested_action,
+          threat_level: alert.severity,
+          source_type: alert.alert_type,
+          source_url: alert.sample_sources?.[0]?.url ?? null,
+          entity_name: alert.entity_name,
+          current_mentions: alert.current_mentions,
+          velocity: alert.velocity,
+          trend_event_id: alert.trend_event_id,
+          triggered_at: alert.triggered_at,
+        },
+      })));
     }
 
     // Log watchlist usage
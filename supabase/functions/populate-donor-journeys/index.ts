@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import { loadPersonIndex } from "../_shared/donorIdentity.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -16,11 +17,16 @@ const corsHeaders = {
  * - SMS events (clicks, opt-outs)
  * 
  * It creates a unified view of each donor's journey for funnel analysis.
+ * Events are keyed on the donor's person from the identity graph, so gifts
+ * from a second email and Switchboard activity on the donor's phone land on
+ * one journey (donor_key = person id). Donors without a person keep the
+ * legacy email / phone keys.
  */
 
 interface DonorJourneyEvent {
   organization_id: string;
   donor_key: string;
+  person_id: string | null;
   event_type: string;
   occurred_at: string;
   amount?: number;
@@ -33,7 +39,7 @@ interface DonorJourneyEvent {
 }
 
 /**
- * Generate donor_key using MD5 hash (first 6 chars)
+ * Legacy donor_key using MD5 hash (first 6 chars), for donors without a person
  * IMPORTANT: This must match the SQL formula: 'donor_' || substr(md5(lower(trim(email))), 1, 6)
  * This ensures consistency with donor_demographics and donor_ltv_predictions tables
  */
@@ -125,20 +131,6 @@ serve(async (req) => {
     const journeyEvents: DonorJourneyEvent[] = [];
     const processedDonorKeys = new Set<string>();
     
-    // PHASE 2 FIX: Load phone-to-email identity links for SMS matching
-    const { data: identityLinks } = await supabase
-      .from('donor_identity_links')
-      .select('phone_hash, donor_email')
-      .eq('organization_id', organization_id);
-    
-    const phoneToEmailMap = new Map<string, string>();
-    for (const link of (identityLinks || [])) {
-      if (link.phone_hash && link.donor_email) {
-        phoneToEmailMap.set(link.phone_hash, link.donor_email);
-      }
-    }
-    console.log(`[DONOR JOURNEYS] Loaded ${phoneToEmailMap.size} phone-to-email identity links`);
-    
     // Load refcode-to-donor mapping from transactions for touchpoint matching
     const { data: refcodeDonors } = await supabase
       .from('actblue_transactions')
@@ -158,13 +150,23 @@ serve(async (req) => {
 
     // 1. Process ActBlue transactions (donation events)
     console.log('[DONOR JOURNEYS] Processing ActBlue transactions...');
-    let txOffset = 0;
-    let hasMoreTx = true;
-
-    while (hasMoreTx) {
-      const { data: transactions, error: txError } = await supabase
+    const transactions: Array<{
+      transaction_id: string;
+      donor_email: string | null;
+      phone: string | null;
+      actblue_donor_id: string | null;
+      amount: number;
+      net_amount: number | null;
+      transaction_date: string;
+      transaction_type: string | null;
+      is_recurring: boolean | null;
+      refcode: string | null;
+      source_campaign: string | null;
+    }> = [];
+    for (let txOffset = 0; ; txOffset += batch_size) {
+      const { data: page, error: txError } = await supabase
         .from('actblue_transactions')
-        .select('transaction_id, donor_email, amount, net_amount, transaction_date, transaction_type, is_recurring, refcode, source_campaign')
+        .select('transaction_id, donor_email, phone, actblue_donor_id, amount, net_amount, transaction_date, transaction_type, is_recurring, refcode, source_campaign')
         .eq('organization_id', organization_id)
         .gte('transaction_date', cutoffDate)
         .order('transaction_date', { ascending: true })
@@ -174,69 +176,82 @@ serve(async (req) => {
         console.error('[DONOR JOURNEYS] Error fetching transactions:', txError);
         break;
       }
+      transactions.push(...(page || []));
+      if (!page || page.length < batch_size) break;
+    }
 
-      if (!transactions || transactions.length === 0) {
-        hasMoreTx = false;
-        break;
-      }
+    const personIndex = await loadPersonIndex(supabase, organization_id, transactions.map(tx => ({
+      email: tx.donor_email,
+      phone: tx.phone,
+      actblueDonorId: tx.actblue_donor_id,
+    })));
+    console.log(`[DONOR JOURNEYS] Loaded person index (${personIndex.size} persons)`);
 
-      for (const tx of transactions) {
-        if (!tx.donor_email) continue;
-        
-        const donorKey = await hashDonorKey(tx.donor_email);
-        processedDonorKeys.add(donorKey);
+    const keyForEmail = async (email: string) => {
+      const personId = await personIndex.personFor({ email });
+      return { personId, donorKey: personId ?? await hashDonorKey(email) };
+    };
 
-        // Determine event type based on transaction characteristics
-        let eventType = 'donation';
-        if (tx.transaction_type === 'refund') {
-          eventType = 'refund';
-        } else if (tx.is_recurring) {
-          // Check if this is their first recurring donation
-          const isFirst = !journeyEvents.some(
-            e => e.donor_key === donorKey && e.event_type === 'recurring_signup'
-          );
-          if (isFirst) {
-            journeyEvents.push({
-              organization_id,
-              donor_key: donorKey,
-              event_type: 'recurring_signup',
-              occurred_at: tx.transaction_date,
-              amount: tx.amount,
-              source: 'actblue',
-              refcode: tx.refcode,
-              transaction_id: tx.transaction_id,
-            });
-          }
-          eventType = 'recurring_donation';
+    for (const tx of transactions) {
+      if (!tx.donor_email) continue;
+      
+      const personId = await personIndex.personFor({
+        email: tx.donor_email,
+        phone: tx.phone,
+        actblueDonorId: tx.actblue_donor_id,
+      });
+      const donorKey = personId ?? await hashDonorKey(tx.donor_email);
+      processedDonorKeys.add(donorKey);
+
+      // Determine event type based on transaction characteristics
+      let eventType = 'donation';
+      if (tx.transaction_type === 'refund') {
+        eventType = 'refund';
+      } else if (tx.is_recurring) {
+        // Check if this is their first recurring donation
+        const isFirst = !journeyEvents.some(
+          e => e.donor_key === donorKey && e.event_type === 'recurring_signup'
+        );
+        if (isFirst) {
+          journeyEvents.push({
+            organization_id,
+            donor_key: donorKey,
+            person_id: personId,
+            event_type: 'recurring_signup',
+            occurred_at: tx.transaction_date,
+            amount: tx.amount,
+            source: 'actblue',
+            refcode: tx.refcode,
+            transaction_id: tx.transaction_id,
+          });
+        }
+        eventType = 'recurring_donation';
+      } else {
+        // Check if first-time donor
+        const previousDonations = journeyEvents.filter(
+          e => e.donor_key === donorKey && 
+               (e.event_type === 'donation' || e.event_type === 'first_donation')
+        );
+        if (previousDonations.length === 0) {
+          eventType = 'first_donation';
         } else {
-          // Check if first-time donor
-          const previousDonations = journeyEvents.filter(
-            e => e.donor_key === donorKey && 
-                 (e.event_type === 'donation' || e.event_type === 'first_donation')
-          );
-          if (previousDonations.length === 0) {
-            eventType = 'first_donation';
-          } else {
-            eventType = 'repeat_donation';
-          }
+          eventType = 'repeat_donation';
         }
-
-        journeyEvents.push({
-          organization_id,
-          donor_key: donorKey,
-          event_type: eventType,
-          occurred_at: tx.transaction_date,
-          amount: tx.amount,
-          net_amount: tx.net_amount,
-          source: 'actblue',
-          refcode: tx.refcode,
-          campaign_id: tx.source_campaign,
-          transaction_id: tx.transaction_id,
-        });
       }
 
-      txOffset += batch_size;
-      if (transactions.length < batch_size) hasMoreTx = false;
+      journeyEvents.push({
+        organization_id,
+        donor_key: donorKey,
+        person_id: personId,
+        event_type: eventType,
+        occurred_at: tx.transaction_date,
+        amount: tx.amount,
+        net_amount: tx.net_amount,
+        source: 'actblue',
+        refcode: tx.refcode,
+        campaign_id: tx.source_campaign,
+        transaction_id: tx.transaction_id,
+      });
     }
 
     console.log(`[DONOR JOURNEYS] Processed ${journeyEvents.length} transaction events`);
@@ -278,7 +293,7 @@ serve(async (req) => {
         // Skip if still no donor email
         if (!donorEmail) continue;
         
-        const donorKey = await hashDonorKey(donorEmail);
+        const { personId, donorKey } = await keyForEmail(donorEmail);
         processedDonorKeys.add(donorKey);
 
         // Map touchpoint types to meaningful journey event types based on utm_medium/source
@@ -316,6 +331,7 @@ serve(async (req) => {
         journeyEvents.push({
           organization_id,
           donor_key: donorKey,
+          person_id: personId,
           event_type: eventType,
           occurred_at: tp.occurred_at,
           source: tp.utm_source || 'unknown',
@@ -364,17 +380,10 @@ serve(async (req) => {
       for (const sms of smsEvents) {
         if (!sms.phone_hash) continue;
         
-        // PHASE 2 FIX: Try to resolve donor via phone-to-email identity link
-        let donorKey: string;
-        const linkedEmail = phoneToEmailMap.get(sms.phone_hash);
-        
-        if (linkedEmail) {
-          // Use email-based donor key for unified tracking
-          donorKey = await hashDonorKey(linkedEmail);
-        } else {
-          // Fallback to phone-based key (less ideal but maintains data)
-          donorKey = `sms_${sms.phone_hash.substring(0, 16)}`;
-        }
+        // The phone's person covers identity links and Switchboard-only contacts
+        const personId = await personIndex.personFor({ phoneHash: sms.phone_hash });
+        // Fallback to phone-based key (less ideal but maintains data)
+        const donorKey = personId ?? `sms_${sms.phone_hash.substring(0, 16)}`;
         processedDonorKeys.add(donorKey);
 
         let eventType = 'sms_' + (sms.event_type || 'unknown');
@@ -387,6 +396,7 @@ serve(async (req) => {
         journeyEvents.push({
           organization_id,
           donor_key: donorKey,
+          person_id: personId,
           event_type: eventType,
           occurred_at: sms.occurred_at,
           source: 'sms',
@@ -394,7 +404,7 @@ serve(async (req) => {
           metadata: {
             campaign_name: sms.campaign_name,
             link_clicked: sms.link_clicked,
-            phone_linked: !!linkedEmail,
+            phone_linked: !!personId,
           },
         });
         smsCount++;
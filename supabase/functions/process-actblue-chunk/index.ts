@@ -17,6 +17,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
 import { getCorsHeaders, validateCronOrAdmin } from "../_shared/security.ts";
 import { createLogger } from "../_shared/logger.ts";
+import { countLineitemsByPayment, rowBelongsToEntity } from "../_shared/actblueLineitems.ts";
 
 // Configuration
 const MAX_PARALLEL_CHUNKS = 3; // Process up to 3 chunks simultaneously
@@ -205,16 +206,19 @@ function getABTestVariation(row: any): string | null {
 }
 
 /**
- * Process rows and upsert to database in batches
+ * Process rows and upsert to database in batches.
+ * Each CSV row is one lineitem; split contributions share payment_id across rows.
  */
 async function processRows(
   supabase: any,
   rows: any[],
   organizationId: string,
+  entityId: string | null,
   logger: ReturnType<typeof createLogger>
 ): Promise<{ processed: number; inserted: number; updated: number; skipped: number }> {
   const stats = { processed: 0, inserted: 0, updated: 0, skipped: 0 };
   const BATCH_SIZE = 100;
+  const lineitemCounts = countLineitemsByPayment(rows);
   
   for (let i = 0; i < rows.length; i += BATCH_SIZE) {
     const batch = rows.slice(i, i + BATCH_SIZE);
@@ -231,6 +235,12 @@ async function processRows(
         stats.skipped++;
         continue;
       }
+
+      // Split contributions: lineitems for other recipient entities belong to other orgs
+      if (!rowBelongsToEntity(row.entity_id, entityId)) {
+        stats.skipped++;
+        continue;
+      }
       
       const firstName = getDonorFirstName(row);
       const lastName = getDonorLastName(row);
@@ -298,6 +308,9 @@ async function processRows(
         entity_id: row.entity_id || null,
         committee_name: row.recipient || null,
         fec_id: row.fec_id || null,
+        // Counts only this chunk's lineitems; trg_keep_max_split_lineitem_count
+        // stops it from lowering a fuller count already stored
+        split_lineitem_count: (row.payment_id && lineitemCounts.get(row.payment_id)) || 1,
         recurring_period: row.recurring_total_months ? 'monthly' : null,
         recurring_duration: parseInt(row.recurring_total_months) || null,
         is_recurring: !!row.recurring_total_months,
@@ -374,7 +387,7 @@ async function processSingleChunk(
     );
 
     // Process rows
-    const stats = await processRows(supabase, rows, chunk.organization_id, chunkLogger);
+    const stats = await processRows(supabase, rows, chunk.organization_id, credentials.entity_id || null, chunkLogger);
 
     // Mark chunk as completed
     await supabase
@@ -0,0 +1,196 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
+import { extractMailingRefcode } from "../_shared/emailConnectors.ts";
+import { validateCronSecret } from "../_shared/security.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+};
+
+/**
+ * Reconcile Email Refcodes
+ *
+ * Email counterpart of reconcile-sms-refcodes:
+ * 1. Scans email_mailings with tracked links not yet checked
+ * 2. Picks the mailing's ActBlue refcode from those links
+ * 3. Updates email_mailings with extracted_refcode and destination_url, and
+ *    stamps refcode_checked_at even when no refcode is found so the next
+ *    run moves on to older mailings
+ * 4. Creates/updates refcode_mappings with platform='email' so the ActBlue
+ *    webhook and dashboard RPCs attribute those donations to email. A refcode
+ *    already mapped to another platform (Meta, SMS, Google Ads) keeps that mapping.
+ *
+ * Run after sync-email-platforms (the sync_email_platforms job does this).
+ */
+
+interface ReconcileResult {
+  mailings_processed: number;
+  refcodes_extracted: number;
+  mappings_created: number;
+  mappings_skipped: number;
+  errors: string[];
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    // Cron secret or service role key (internal invocations)
+    const authHeader = req.headers.get('Authorization');
+    const isAuthorized = validateCronSecret(req) ||
+      (authHeader?.startsWith('Bearer ') && authHeader.replace('Bearer ', '') === serviceRoleKey);
+
+    if (!isAuthorized) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const body = await req.json().catch(() => ({}));
+    const { organization_id, all_organizations = false } = body;
+
+    const result: ReconcileResult = {
+      mailings_processed: 0,
+      refcodes_extracted: 0,
+      mappings_created: 0,
+      mappings_skipped: 0,
+      errors: [],
+    };
+
+    let query = supabase
+      .from('email_mailings')
+      .select('id, organization_id, provider, mailing_id, mailing_name, subject, link_urls, sent_at')
+      .not('link_urls', 'eq', '{}');
+
+    if (organization_id && !all_organizations) {
+      query = query.eq('organization_id', organization_id);
+    }
+
+    // Only process mailings not checked yet, or all if forcing
+    if (!body.force_reprocess) {
+      query = query.is('refcode_checked_at', null);
+    }
+
+    const { data: mailings, error: fetchError } = await query.order('sent_at', { ascending: false }).limit(500);
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch email mailings: ${fetchError.message}`);
+    }
+
+    console.log(`[RECONCILE-EMAIL] Processing ${mailings?.length || 0} mailings`);
+
+    for (const mailing of (mailings || [])) {
+      result.mailings_processed++;
+
+      try {
+        const extracted = extractMailingRefcode(mailing.link_urls);
+        const checkedAt = new Date().toISOString();
+        if (!extracted.refcode) {
+          const { error: checkError } = await supabase
+            .from('email_mailings')
+            .update({ refcode_checked_at: checkedAt })
+            .eq('id', mailing.id);
+          if (checkError) result.errors.push(`Mailing ${mailing.mailing_id}: ${checkError.message}`);
+          continue;
+        }
+
+        result.refcodes_extracted++;
+
+        const { error: updateError } = await supabase
+          .from('email_mailings')
+          .update({
+            extracted_refcode: extracted.refcode,
+            destination_url: extracted.url,
+            refcode_checked_at: checkedAt,
+          })
+          .eq('id', mailing.id);
+
+        if (updateError) {
+          console.error(`[RECONCILE-EMAIL] Error updating mailing ${mailing.mailing_id}:`, updateError);
+          result.errors.push(`Mailing ${mailing.mailing_id}: ${updateError.message}`);
+          continue;
+        }
+
+        // A refcode already mapped by Meta, SMS or Google Ads keeps that mapping
+        const { data: existingMapping, error: lookupError } = await supabase
+          .from('refcode_mappings')
+          .select('platform')
+          .eq('organization_id', mailing.organization_id)
+          .eq('refcode', extracted.refcode)
+          .maybeSingle();
+
+        if (lookupError) {
+          result.errors.push(`Mapping ${extracted.refcode}: ${lookupError.message}`);
+          continue;
+        }
+        if (existingMapping && existingMapping.platform !== 'email') {
+          console.log(`[RECONCILE-EMAIL] Skipping ${extracted.refcode}, already mapped to ${existingMapping.platform || 'another platform'}`);
+          result.mappings_skipped++;
+          continue;
+        }
+
+        // campaign_id holds the provider's mailing id for email mappings
+        const { error: mappingError } = await supabase
+          .from('refcode_mappings')
+          .upsert({
+            organization_id: mailing.organization_id,
+            refcode: extracted.refcode,
+            platform: 'email',
+            campaign_id: mailing.mailing_id,
+            campaign_name: mailing.mailing_name || mailing.subject,
+            landing_page: extracted.url,
+            utm_source: mailing.provider,
+            updated_at: new Date().toISOString(),
+          }, {
+            onConflict: 'organization_id,refcode',
+            ignoreDuplicates: false
+          });
+
+        if (mappingError) {
+          console.error(`[RECONCILE-EMAIL] Error creating mapping for ${extracted.refcode}:`, mappingError);
+          result.errors.push(`Mapping ${extracted.refcode}: ${mappingError.message}`);
+        } else {
+          result.mappings_created++;
+        }
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        console.error(`[RECONCILE-EMAIL] Error processing mailing ${mailing.mailing_id}:`, errMsg);
+        result.errors.push(`Mailing ${mailing.mailing_id}: ${errMsg}`);
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(`[RECONCILE-EMAIL] Complete in ${duration}ms - processed: ${result.mailings_processed}, extracted: ${result.refcodes_extracted}, mappings: ${result.mappings_created}, skipped: ${result.mappings_skipped}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ...result,
+        duration_ms: duration,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('[RECONCILE-EMAIL] Error:', error);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,140 @@
+/**
+ * ================================================================================
+ * RESOLVE DONOR IDENTITIES - PERSISTENT PERSON IDS
+ * ================================================================================
+ *
+ * Links email hashes, phone hashes, name+ZIP and ActBlue donor IDs into
+ * persistent persons (see _shared/identityGraph.ts and _shared/donorIdentity.ts).
+ *
+ * Actions:
+ * - resolve (default): rebuild the org's graph from transactions, identity
+ *   links and recent Switchboard contacts. Scheduled nightly via
+ *   run-scheduled-jobs (resolve_donor_identities).
+ * - merge: fold person_ids into person_id
+ * - unmerge: undo a merge (restore_person_id) or split identifiers off into a
+ *   new person
+ *
+ * Manual merges and unmerges are recorded as overrides that later resolves
+ * respect, and every merge / split lands in donor_identity_events.
+ * ================================================================================
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
+import { getCorsHeaders, validateAuth, validateCronSecret, userBelongsToOrg, logJobFailure } from "../_shared/security.ts";
+import { parseJsonBody, uuidSchema, z } from "../_shared/validators.ts";
+import { mergePersons, resolveOrganizationIdentities, unmergePerson } from "../_shared/donorIdentity.ts";
+import { IDENTIFIER_TYPES } from "../_shared/identityGraph.ts";
+
+const corsHeaders = getCorsHeaders();
+
+const identifierKeySchema = z.string().regex(new RegExp(`^(${IDENTIFIER_TYPES.join('|')}):[0-9a-f]{64}$`));
+
+const bodySchema = z.preprocess(
+  // Scheduled runs send only organization_id
+  (raw) => ({ action: 'resolve', ...(raw && typeof raw === 'object' ? raw : {}) }),
+  z.discriminatedUnion('action', [
+    z.object({
+      action: z.literal('resolve'),
+      organization_id: uuidSchema,
+      sms_days_back: z.coerce.number().int().min(1).max(730).optional(),
+    }),
+    z.object({
+      action: z.literal('merge'),
+      organization_id: uuidSchema,
+      person_id: uuidSchema,
+      merge_person_ids: z.array(uuidSchema).min(1).max(20),
+      reason: z.string().max(500).optional(),
+    }),
+    z.object({
+      action: z.literal('unmerge'),
+      organization_id: uuidSchema,
+      person_id: uuidSchema,
+      restore_person_id: uuidSchema.optional(),
+      identifiers: z.array(identifierKeySchema).min(1).max(100).optional(),
+      reason: z.string().max(500).optional(),
+    }),
+  ])
+).refine(body => body.action !== 'unmerge' || !!body.restore_person_id !== !!body.identifiers, {
+  message: 'unmerge needs exactly one of restore_person_id or identifiers',
+});
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+  let organizationId: string | null = null;
+
+  try {
+    const parsed = await parseJsonBody(req, bodySchema, { allowEmpty: false });
+    if (!parsed.ok) {
+      return jsonResponse({ error: parsed.error, details: parsed.details }, 400);
+    }
+    const body = parsed.data;
+    organizationId = body.organization_id;
+
+    // --- SECURITY: cron secret, admin, or a member of the org ---
+    let actorUserId: string | null = null;
+    if (!validateCronSecret(req)) {
+      const auth = await validateAuth(req, supabase);
+      if (!auth || (!auth.isAdmin && !await userBelongsToOrg(supabase, auth.user.id, body.organization_id))) {
+        return jsonResponse({ error: 'Unauthorized - requires CRON_SECRET, admin access, or org membership' }, 401);
+      }
+      actorUserId = auth.user.id;
+    } else if (body.action !== 'resolve') {
+      return jsonResponse({ error: 'Manual merges and unmerges need a signed-in user for the audit trail' }, 403);
+    }
+
+    const startTime = Date.now();
+
+    if (body.action === 'merge') {
+      const result = await mergePersons(supabase, body.organization_id, body.person_id, body.merge_person_ids, {
+        userId: actorUserId,
+        reason: body.reason,
+      });
+      console.log(`[IDENTITY] Merged ${result.merged_person_ids.length} persons into ${result.person_id}`);
+      return jsonResponse({ success: true, action: body.action, ...result });
+    }
+
+    if (body.action === 'unmerge') {
+      const result = await unmergePerson(supabase, body.organization_id, body.person_id, {
+        restorePersonId: body.restore_person_id,
+        identifiers: body.identifiers,
+      }, {
+        userId: actorUserId,
+        reason: body.reason,
+      });
+      console.log(`[IDENTITY] Moved ${result.identifiers_moved} identifiers from ${result.person_id} to ${result.new_person_id}`);
+      return jsonResponse({ success: true, action: body.action, ...result });
+    }
+
+    console.log(`[IDENTITY] Resolving org ${body.organization_id}`);
+    const summary = await resolveOrganizationIdentities(supabase, body.organization_id, {
+      smsDaysBack: body.sms_days_back,
+    });
+    const duration = Date.now() - startTime;
+    console.log(
+      `[IDENTITY] ${summary.persons} persons from ${summary.identifiers} identifiers ` +
+      `(${summary.persons_created} new, ${summary.merges} merges, ${summary.splits} splits) in ${duration}ms`
+    );
+
+    return jsonResponse({ success: true, action: body.action, ...summary, duration_ms: duration });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('[IDENTITY] Error:', message);
+    await logJobFailure(supabase, 'resolve-donor-identities', message, { organization_id: organizationId });
+    return jsonResponse({ success: false, error: message }, 500);
+  }
+});
@@ -0,0 +1,114 @@
+/**
+ * Resolve Tracked Link Edge Function
+ *
+ * A PUBLIC edge function (no auth required) used by the /r redirect page to
+ * look up a managed tracked link and its active, weighted variants.
+ *
+ * Flow:
+ * 1. Visitor opens /r/ORG_SLUG/l/LINK_SLUG (plain /r/ORG_SLUG/FORM links
+ *    never call this function)
+ * 2. Redirect page calls this function with both slugs
+ * 3. If a managed link exists, the page assigns the visitor to a variant
+ *    and redirects to that variant's ActBlue form / amount ladder
+ * 4. 404 means the link was removed or paused and the page redirects to
+ *    the ActBlue form named LINK_SLUG
+ *
+ * Org, link and variants are read in one query to keep the redirect fast.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface LinkRow {
+  id: string;
+  tracked_link_variants: VariantRow[] | null;
+}
+
+interface VariantRow {
+  id: string;
+  actblue_form: string;
+  amounts: number[] | null;
+  default_amount: number | null;
+  recurring: boolean;
+  refcode: string | null;
+  weight: number;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const body = await req.json().catch(() => ({}));
+    const organizationSlug = typeof body.organization_slug === 'string' ? body.organization_slug : '';
+    const linkSlug = typeof body.link_slug === 'string' ? body.link_slug.toLowerCase() : '';
+
+    if (!organizationSlug || !linkSlug) {
+      return jsonResponse({ error: 'organization_slug and link_slug are required' }, 400);
+    }
+
+    const { data, error: linkError } = await supabase
+      .from('tracked_links')
+      .select(`
+        id,
+        client_organizations!inner(slug, is_active),
+        tracked_link_variants(id, actblue_form, amounts, default_amount, recurring, refcode, weight, is_active, created_at)
+      `)
+      .eq('client_organizations.slug', organizationSlug)
+      .eq('client_organizations.is_active', true)
+      .eq('slug', linkSlug)
+      .eq('is_active', true)
+      .eq('tracked_link_variants.is_active', true)
+      .order('created_at', { referencedTable: 'tracked_link_variants', ascending: true })
+      .maybeSingle();
+
+    if (linkError) {
+      console.error('[RESOLVE-LINK] Link lookup failed:', linkError);
+      return jsonResponse({ error: 'Failed to load link' }, 500);
+    }
+
+    const link = data as LinkRow | null;
+    if (!link) {
+      return jsonResponse({ error: 'Link not found' }, 404);
+    }
+
+    const activeVariants = link.tracked_link_variants || [];
+    if (activeVariants.length === 0) {
+      return jsonResponse({ error: 'Link has no active variants' }, 404);
+    }
+
+    return jsonResponse({
+      link_id: link.id,
+      variants: activeVariants.map(v => ({
+        id: v.id,
+        actblue_form: v.actblue_form,
+        amounts: v.amounts ? v.amounts.map(Number) : null,
+        default_amount: v.default_amount !== null ? Number(v.default_amount) : null,
+        recurring: v.recurring,
+        refcode: v.refcode,
+        weight: v.weight,
+      })),
+    });
+  } catch (error) {
+    console.error('[RESOLVE-LINK] Error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Internal error' }, 500);
+  }
+});
@@ -11,6 +11,7 @@ const corsHeaders = {
 const JOB_DEPENDENCIES: Record<string, string[]> = {
   'analyze_articles': ['fetch_rss'],
   'analyze_bluesky': ['collect_bluesky'],
+  'analyze_reddit': ['fetch_reddit'],
   'calculate_bluesky_trends': ['analyze_bluesky'],
   'calculate_news_trends': ['analyze_articles'],
   'correlate_social_news': ['calculate_bluesky_trends', 'calculate_news_trends'],
@@ -25,6 +26,7 @@ const JOB_DEPENDENCIES: Record<string, string[]> = {
 const SKIP_IF_NO_DATA: Record<string, { table: string; column: string; minutes: number }> = {
   'analyze_articles': { table: 'articles', column: 'created_at', minutes: 20 },
   'analyze_bluesky': { table: 'bluesky_posts', column: 'created_at', minutes: 15 },
+  'analyze_reddit': { table: 'reddit_posts', column: 'created_at', minutes: 20 },
   'calculate_bluesky_trends': { table: 'bluesky_posts', column: 'ai_processed_at', minutes: 20 },
   'detect_duplicates': { table: 'articles', column: 'created_at', minutes: 20 },
 };
@@ -329,6 +331,30 @@ serve(async (req) => {
             itemsCreated = result?.analyzed || 0;
             break;
 
+          case 'fetch_reddit': {
+            const fetchRedditResponse = await supabase.functions.invoke('fetch-reddit-posts', {
+              body: {},
+              headers: authHeaders
+            });
+            if (fetchRedditResponse.error) throw new Error(fetchRedditResponse.error.message);
+            result = fetchRedditResponse.data;
+            itemsProcessed = result?.fetched || 0;
+            itemsCreated = result?.inserted || 0;
+            break;
+          }
+
+          case 'analyze_reddit': {
+            const analyzeRedditResponse = await supabase.functions.invoke('batch-analyze-content', {
+              body: { source_type: 'reddit', batch_size: 100 },
+              headers: authHeaders
+            });
+            if (analyzeRedditResponse.error) throw new Error(analyzeRedditResponse.error.message);
+            result = analyzeRedditResponse.data;
+            itemsProcessed = result?.processed || 0;
+            itemsCreated = result?.entities_extracted || 0;
+            break;
+          }
+
           case 'calculate_bluesky_trends':
             const calcTrendsResponse = await supabase.functions.invoke('calculate-bluesky-trends', { body: {} });
             if (calcTrendsResponse.error) throw new Error(calcTrendsResponse.error.message);
@@ -536,6 +562,33 @@ serve(async (req) => {
             itemsProcessed = result?.attributions_created || 0;
             break;
 
+          case 'resolve_donor_identities': {
+            // Persistent person ids for journeys, LTV and segments
+            const { data: identityOrgs } = await supabase
+              .from('client_organizations')
+              .select('id')
+              .eq('is_active', true);
+
+            const cronSecretForIdentity = Deno.env.get('CRON_SECRET');
+            let personsResolved = 0;
+            let identityMerges = 0;
+            for (const org of identityOrgs || []) {
+              const identityResponse = await supabase.functions.invoke('resolve-donor-identities', {
+                body: { organization_id: org.id },
+                headers: cronSecretForIdentity ? { 'x-cron-secret': cronSecretForIdentity } : {},
+              });
+              if (identityResponse.error) {
+                console.error(`[SCHEDULER] resolve-donor-identities failed for ${org.id}:`, identityResponse.error.message);
+                continue;
+              }
+              personsResolved += identityResponse.data?.persons || 0;
+              identityMerges += identityResponse.data?.merges || 0;
+            }
+            result = { persons: personsResolved, merges: identityMerges, organizations: identityOrgs?.length || 0 };
+            itemsProcessed = personsResolved;
+            break;
+          }
+
           case 'populate_donor_journeys':
             // Populate donor journeys for all active organizations
             const { data: journeyOrgs } = await supabase
@@ -611,6 +664,46 @@ serve(async (req) => {
             itemsCreated = result?.accounts_synced || 0;
             break;
 
+          case 'sync_google_ads': {
+            console.log('[SCHEDULER] Running tiered Google Ads sync');
+            const { data: dueGoogleAccounts, error: dueGoogleError } = await supabase
+              .rpc('get_google_ads_accounts_due_for_sync', { p_limit: 5 });
+            if (dueGoogleError) throw new Error(dueGoogleError.message);
+
+            const cronSecretForGoogle = Deno.env.get('CRON_SECRET');
+            let googleSynced = 0;
+            let googleMetrics = 0;
+            let googleRateLimited = false;
+            for (const account of dueGoogleAccounts || []) {
+              // Same backoff rule as tiered-meta-sync: only high priority keeps going
+              if (googleRateLimited && account.sync_priority !== 'high') continue;
+
+              const startDate = new Date();
+              startDate.setDate(startDate.getDate() - account.date_range_days);
+              const googleResponse = await supabase.functions.invoke('sync-google-ads', {
+                body: {
+                  organization_id: account.organization_id,
+                  start_date: startDate.toISOString().split('T')[0],
+                  mode: 'tiered',
+                },
+                headers: cronSecretForGoogle ? { 'x-cron-secret': cronSecretForGoogle } : {},
+              });
+              if (googleResponse.error) {
+                // sync-google-ads answers 429 once its own retries are exhausted
+                const status = (googleResponse.error as { context?: Response }).context?.status;
+                googleRateLimited = googleRateLimited || status === 429;
+                console.error(`[SCHEDULER] sync-google-ads failed for ${account.organization_name}:`, googleResponse.error.message);
+                continue;
+              }
+              googleSynced++;
+              googleMetrics += googleResponse.data?.metrics_stored || 0;
+            }
+            result = { accounts_due: dueGoogleAccounts?.length || 0, accounts_synced: googleSynced, rate_limited: googleRateLimited };
+            itemsProcessed = googleSynced;
+            itemsCreated = googleMetrics;
+            break;
+          }
+
           case 'sync_switchboard_sms':
             console.log('[SCHEDULER] Running Switchboard SMS sync');
             const { data: smsOrgs } = await supabase
@@ -630,6 +723,49 @@ serve(async (req) => {
             itemsProcessed = smsProcessed;
             break;
 
+          case 'sync_email_platforms': {
+            console.log('[SCHEDULER] Running email platform sync');
+            const { data: emailOrgs } = await supabase
+              .from('client_api_credentials')
+              .select('organization_id')
+              .eq('platform', 'email')
+              .eq('is_active', true);
+
+            const cronSecretForEmail = Deno.env.get('CRON_SECRET');
+            let emailSynced = 0;
+            let mailingsStored = 0;
+            for (const org of emailOrgs || []) {
+              const emailResponse = await supabase.functions.invoke('sync-email-platforms', {
+                body: { organization_id: org.organization_id },
+                headers: cronSecretForEmail ? { 'x-cron-secret': cronSecretForEmail } : {},
+              });
+              if (emailResponse.error) {
+                console.error(`[SCHEDULER] sync-email-platforms failed for ${org.organization_id}:`, emailResponse.error.message);
+                continue;
+              }
+              emailSynced++;
+              mailingsStored += emailResponse.data?.mailings_stored || 0;
+            }
+
+            // Map the new mailings' refcodes so their donations attribute to email
+            let emailMappings = 0;
+            if (emailSynced > 0) {
+              const reconcileResponse = await supabase.functions.invoke('reconcile-email-refcodes', {
+                body: { all_organizations: true },
+              });
+              if (reconcileResponse.error) {
+                console.error('[SCHEDULER] reconcile-email-refcodes failed:', reconcileResponse.error.message);
+              } else {
+                emailMappings = reconcileResponse.data?.mappings_created || 0;
+              }
+            }
+
+            result = { organizations_synced: emailSynced, mailings_stored: mailingsStored, mappings_created: emailMappings };
+            itemsProcessed = emailSynced;
+            itemsCreated = mailingsStored;
+            break;
+          }
+
           case 'batch_analyze_content':
             console.log('[SCHEDULER] Running batch content analysis');
             const batchAnalyzeResponse = await supabase.functions.invoke('batch-analyze-content', { 
@@ -669,6 +805,35 @@ serve(async (req) => {
             console.log(`[SCHEDULER] generate_embeddings completed: ${itemsProcessed} processed, ${itemsCreated} embeddings created`);
             break;
 
+          case 'backfill_embeddings': {
+            // Re-embeds profiles and recent trend events still on an older embedding model
+            console.log('[SCHEDULER] Backfilling embeddings');
+            const backfillResponse = await supabase.functions.invoke('generate-embeddings', {
+              body: { backfill: true, maxProfiles: 50, maxTrends: 300 },
+              headers: authHeaders
+            });
+            if (backfillResponse.error) throw new Error(backfillResponse.error.message);
+            result = backfillResponse.data;
+            itemsProcessed = result?.items_processed || 0;
+            itemsCreated = result?.embeddings_created || 0;
+            console.log(`[SCHEDULER] backfill_embeddings completed: ${itemsCreated} embeddings regenerated (${result?.model})`);
+            break;
+          }
+
+          case 'retry_webhooks': {
+            // Re-attempts webhook deliveries whose backoff has elapsed
+            const retryResponse = await supabase.functions.invoke('send-webhook', {
+              body: { action: 'retry' },
+              headers: authHeaders
+            });
+            if (retryResponse.error) throw new Error(retryResponse.error.message);
+            result = retryResponse.data;
+            itemsProcessed = result?.webhooks_sent || 0;
+            itemsCreated = result?.successful || 0;
+            console.log(`[SCHEDULER] retry_webhooks completed: ${itemsCreated}/${itemsProcessed} delivered, ${result?.dead_lettered || 0} dead-lettered`);
+            break;
+          }
+
           case 'calculate_creative_learnings':
             console.log('[SCHEDULER] Calculating creative learnings');
             const learningsResponse = await supabase.functions.invoke('calculate-creative-learnings', { 
@@ -800,6 +965,50 @@ serve(async (req) => {
             console.log(`[SCHEDULER] correlate completed: ${itemsProcessed} analyzed, ${itemsCreated} correlations`);
             break;
 
+          case 'snapshot_donor_segments': {
+              // Recompute every saved segment for active organizations and record membership changes
+              const { data: snapshotOrgs } = await supabase
+                .from('client_organizations')
+                .select('id')
+                .eq('is_active', true);
+
+              const snapshotOrgIds = (snapshotOrgs || []).map((org: { id: string }) => org.id);
+              const { data: savedSegments, error: savedSegmentsError } = snapshotOrgIds.length > 0
+                ? await supabase
+                    .from('saved_donor_segments')
+                    .select('id')
+                    .in('organization_id', snapshotOrgIds)
+                : { data: [], error: null };
+              if (savedSegmentsError) throw new Error(savedSegmentsError.message);
+
+              let segmentsSnapshotted = 0;
+              let membershipChanges = 0;
+              const segmentFailures: string[] = [];
+              for (const segment of savedSegments || []) {
+                const { data: snapshot, error: snapshotError } = await supabase.rpc('snapshot_donor_segment', {
+                  _segment_id: segment.id,
+                  _triggered_by: 'scheduled',
+                });
+                if (snapshotError) {
+                  console.error(`[SCHEDULER] Segment snapshot failed for ${segment.id}:`, snapshotError.message);
+                  segmentFailures.push(segment.id);
+                  continue;
+                }
+                segmentsSnapshotted++;
+                membershipChanges += (snapshot?.entered_count || 0) + (snapshot?.exited_count || 0);
+              }
+              result = {
+                segments: savedSegments?.length || 0,
+                snapshotted: segmentsSnapshotted,
+                membership_changes: membershipChanges,
+                failed_segments: segmentFailures,
+              };
+              itemsProcessed = segmentsSnapshotted;
+              itemsCreated = membershipChanges;
+              console.log(`[SCHEDULER] snapshot_donor_segments completed: ${segmentsSnapshotted} segments, ${membershipChanges} changes`);
+              break;
+          }
+
           default:
             console.log(`[SCHEDULER] Unknown job type: ${job.job_type}`);
             result = { skipped: true, reason: 'Unknown job type' };
@@ -1,12 +1,58 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { parseJsonBody, uuidSchema, z } from "../_shared/validators.ts";
+import { definePrompt, type Schema } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+interface WebsiteAnalysis {
+  mission: string;
+  focus_areas: string[];
+  key_issues: string[];
+}
+
+const websiteAnalysisPrompt = definePrompt<{ websiteContent: string }>({
+  id: 'scrape-organization-website.profile',
+  version: 1,
+  system: 'You are an expert at analyzing organization websites and extracting structured information.',
+  user: ({ websiteContent }) => `Analyze this organization's website content and extract:
+
+1. Mission statement (1-2 sentences)
+2. Main focus areas (3-5 key areas)
+3. Key issues they work on (5-10 specific issues)
+
+Website content:
+${websiteContent}
+
+Return your analysis in JSON format:
+{
+  "mission": "...",
+  "focus_areas": ["area1", "area2", ...],
+  "key_issues": ["issue1", "issue2", ...]
+}`,
+});
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+const websiteAnalysisSchema: Schema<WebsiteAnalysis> = {
+  parse(value) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      throw new Error('Expected a JSON object');
+    }
+    const raw = value as Record<string, unknown>;
+    return {
+      mission: typeof raw.mission === 'string' ? raw.mission : '',
+      focus_areas: stringList(raw.focus_areas),
+      key_issues: stringList(raw.key_issues),
+    };
+  },
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -31,12 +77,8 @@ serve(async (req) => {
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
     const supabase = createClient(supabaseUrl, supabaseKey);
-
-    if (!lovableApiKey) {
-      throw new Error('LOVABLE_API_KEY not configured');
-    }
+    const llm = createLLMClientForFunction(supabase, 'scrape-organization-website');
 
     console.log(`Scraping organization website: ${websiteUrl}`);
 
@@ -62,51 +104,11 @@ serve(async (req) => {
     }
 
     // Use Lovable AI to extract organization information
-    const prompt = `Analyze this organization's website content and extract:
-
-1. Mission statement (1-2 sentences)
-2. Main focus areas (3-5 key areas)
-3. Key issues they work on (5-10 specific issues)
-
-Website content:
-${websiteContent}
-
-Return your analysis in JSON format:
-{
-  "mission": "...",
-  "focus_areas": ["area1", "area2", ...],
-  "key_issues": ["issue1", "issue2", ...]
-}`;
-
-    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${lovableApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: 'You are an expert at analyzing organization websites and extracting structured information.' },
-          { role: 'user', content: prompt }
-        ],
-        response_format: { type: "json_object" }
-      }),
+    const { data: analysis } = await llm.runJson(websiteAnalysisPrompt, { websiteContent }, {
+      organizationId,
+      schema: websiteAnalysisSchema,
     });
 
-    if (!aiResponse.ok) {
-      if (aiResponse.status === 429) {
-        throw new Error('Rate limited by Lovable AI');
-      }
-      if (aiResponse.status === 402) {
-        throw new Error('Payment required for Lovable AI');
-      }
-      throw new Error(`AI API error: ${aiResponse.status}`);
-    }
-
-    const aiData = await aiResponse.json();
-    const analysis = JSON.parse(aiData.choices[0].message.content);
-
     // Store organization profile
     const { error: upsertError } = await supabase
       .from('organization_profiles')
@@ -124,7 +126,7 @@ Return your analysis in JSON format:
     if (upsertError) throw upsertError;
 
     // Generate suggested watchlist entities based on key issues
-    const suggestedEntities = analysis.key_issues.map((issue: string) => ({
+    const suggestedEntities = analysis.key_issues.map((issue) => ({
       entity_name: issue,
       entity_type: 'issue',
       ai_relevance_score: 80,
@@ -1,7 +1,16 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 import { Resend } from "https://esm.sh/resend@2.0.0";
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
 import { campaignReport } from "../_shared/email-templates/templates/report.ts";
+import { loadReportLogo, renderReportPdf, reportStoragePath, storeReportPdf } from "../_shared/pdfReport.ts";
+import {
+  buildCampaignReportDocument,
+  DEFAULT_CAMPAIGN_METRICS,
+  summarizeCampaignMetrics,
+  type CampaignDailyMetric,
+  type CampaignReportConfig,
+} from "../_shared/reportDocuments.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -18,6 +27,12 @@ interface ReportRequest {
   endDate?: string;
 }
 
+interface CustomBranding {
+  includeLogo?: boolean;
+  primaryColor?: string;
+  footerText?: string;
+}
+
 const handler = async (req: Request): Promise<Response> => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -33,9 +48,9 @@ const handler = async (req: Request): Promise<Response> => {
     console.log("Generating report for organization:", organizationId);
 
     // Get schedule configuration if provided
-    let reportConfig: any = null;
+    let reportConfig: CampaignReportConfig | null = null;
     let templateStyle = "professional";
-    let customBranding: any = null;
+    let customBranding: CustomBranding | null = null;
 
     if (scheduleId) {
       const { data: schedule } = await supabase
@@ -45,9 +60,9 @@ const handler = async (req: Request): Promise<Response> => {
         .single();
       
       if (schedule) {
-        reportConfig = schedule.report_config;
+        reportConfig = schedule.report_config as CampaignReportConfig | null;
         templateStyle = schedule.template_style || "professional";
-        customBranding = schedule.custom_branding;
+        customBranding = schedule.custom_branding as CustomBranding | null;
       }
     }
 
@@ -87,44 +102,10 @@ const handler = async (req: Request): Promise<Response> => {
     if (metricsError) throw metricsError;
 
     // Calculate totals
-    const totals = dailyMetrics?.reduce((acc, day) => ({
-      totalRaised: acc.totalRaised + (Number(day.total_funds_raised) || 0),
-      totalSpent: acc.totalSpent + (Number(day.total_ad_spend) || 0) + (Number(day.total_sms_cost) || 0),
-      totalDonations: acc.totalDonations + (day.total_donations || 0),
-      metaImpressions: acc.metaImpressions + (day.meta_impressions || 0),
-      metaClicks: acc.metaClicks + (day.meta_clicks || 0),
-      smsSent: acc.smsSent + (day.sms_sent || 0),
-      smsConversions: acc.smsConversions + (day.sms_conversions || 0),
-    }), {
-      totalRaised: 0,
-      totalSpent: 0,
-      totalDonations: 0,
-      metaImpressions: 0,
-      metaClicks: 0,
-      smsSent: 0,
-      smsConversions: 0,
-    }) || {
-      totalRaised: 0,
-      totalSpent: 0,
-      totalDonations: 0,
-      metaImpressions: 0,
-      metaClicks: 0,
-      smsSent: 0,
-      smsConversions: 0,
-    };
-
-    const roi = totals.totalSpent > 0 
-      ? ((totals.totalRaised - totals.totalSpent) / totals.totalSpent * 100).toFixed(2)
-      : "0.00";
-
-    const avgDonation = totals.totalDonations > 0
-      ? (totals.totalRaised / totals.totalDonations).toFixed(2)
-      : "0.00";
+    const totals = summarizeCampaignMetrics((dailyMetrics || []) as CampaignDailyMetric[]);
 
     // Get configured metrics or use all by default
-    const selectedMetrics = reportConfig?.metrics || [
-      "funds_raised", "total_spend", "roi", "donations", "meta_ads", "sms"
-    ];
+    const selectedMetrics = reportConfig?.metrics || DEFAULT_CAMPAIGN_METRICS;
 
     // Get branding
     const showLogo = customBranding?.includeLogo !== false;
@@ -143,11 +124,11 @@ const handler = async (req: Request): Promise<Response> => {
       metrics.totalSpend = totals.totalSpent;
     }
     if (selectedMetrics.includes("roi")) {
-      metrics.roi = Number(roi);
+      metrics.roi = totals.roi;
     }
     if (selectedMetrics.includes("donations")) {
       metrics.donations = totals.totalDonations;
-      metrics.avgDonation = Number(avgDonation);
+      metrics.avgDonation = totals.avgDonation;
     }
     if (selectedMetrics.includes("meta_ads")) {
       metrics.impressions = totals.metaImpressions;
@@ -170,6 +151,59 @@ const handler = async (req: Request): Promise<Response> => {
       dashboardUrl: `${appUrl}/client-dashboard`,
     });
 
+    // Render the PDF version of the report to attach. A rendering or storage
+    // failure is logged and the email goes out without the attachment.
+    let reportId: string | null = null;
+    const attachments: Array<{ filename: string; content: string }> = [];
+
+    if (reportConfig?.attachPdf !== false) {
+      try {
+        const filename = `${org.name} Performance Report ${startDateStr} to ${endDateStr}.pdf`;
+        const document = buildCampaignReportDocument({
+          organizationName: org.name,
+          dailyMetrics: (dailyMetrics || []) as CampaignDailyMetric[],
+          config: reportConfig,
+          dateRange: { start: startDateStr, end: endDateStr },
+          logo: showLogo ? await loadReportLogo(org.logo_url) : null,
+          primaryColor: customBranding?.primaryColor,
+          footerText,
+        });
+        const pdf = await renderReportPdf(document);
+
+        const { data: reportRecord, error: recordError } = await supabase
+          .from("generated_reports")
+          .insert({
+            report_type: "fundraising_performance",
+            report_name: filename.replace(/\.pdf$/, ""),
+            report_format: "pdf",
+            date_range_start: startDateStr,
+            date_range_end: endDateStr,
+            organization_id: organizationId,
+            status: "completed",
+            file_size_bytes: pdf.bytes.length,
+            page_count: pdf.pageCount,
+            completed_at: new Date().toISOString(),
+            metadata: { schedule_id: scheduleId ?? null },
+          })
+          .select("id")
+          .single();
+
+        if (recordError) throw recordError;
+
+        const storagePath = reportStoragePath(reportRecord.id, organizationId, filename);
+        await storeReportPdf(supabase, storagePath, pdf.bytes);
+        await supabase
+          .from("generated_reports")
+          .update({ storage_path: storagePath })
+          .eq("id", reportRecord.id);
+
+        reportId = reportRecord.id;
+        attachments.push({ filename, content: encodeBase64(pdf.bytes) });
+      } catch (pdfError) {
+        console.error("Failed to render PDF attachment:", pdfError);
+      }
+    }
+
     // Send email
     const senderEmail = Deno.env.get('SENDER_EMAIL');
     if (!senderEmail) {
@@ -180,6 +214,7 @@ const handler = async (req: Request): Promise<Response> => {
       to: recipients,
       subject: `${org.name} - Performance Report (${start.toLocaleDateString()} - ${end.toLocaleDateString()})`,
       html,
+      attachments: attachments.length > 0 ? attachments : undefined,
     });
 
     console.log("Email sent successfully:", emailResponse);
@@ -193,6 +228,7 @@ const handler = async (req: Request): Promise<Response> => {
           organization_id: organizationId,
           recipients,
           status: "sent",
+          report_id: reportId,
         });
 
       await supabase
@@ -202,17 +238,17 @@ const handler = async (req: Request): Promise<Response> => {
     }
 
     return new Response(
-      JSON.stringify({ success: true, emailId: emailResponse.data?.id }),
+      JSON.stringify({ success: true, emailId: emailResponse.data?.id, reportId }),
       {
         status: 200,
         headers: { "Content-Type": "application/json", ...corsHeaders },
       }
     );
-  } catch (error: any) {
+  } catch (error) {
     console.error("Error sending email report:", error);
 
     return new Response(
-      JSON.stringify({ error: error.message }),
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
       {
         status: 500,
         headers: { "Content-Type": "application/json", ...corsHeaders },
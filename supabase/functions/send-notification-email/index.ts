@@ -3,6 +3,7 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
 import { Resend } from "https://esm.sh/resend@4.0.0";
 import { parseJsonBody, uuidSchema, z } from "../_shared/validators.ts";
 import { notification } from "../_shared/email-templates/templates/alert.ts";
+import { PUSH_ALERT_TYPES, sendPushToUsers, type PushAlertType } from "../_shared/pushDelivery.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,7 +14,7 @@ const resend = new Resend(Deno.env.get('RESEND_API_KEY'));
 
 interface NotificationRequest {
   userId: string;
-  type: 'bill_update' | 'new_article' | 'bill_alert' | 'bookmark_update';
+  type: PushAlertType;
   title: string;
   message: string;
   link?: string;
@@ -105,7 +106,7 @@ serve(async (req) => {
     // Parse + validate request body first to get userId for authorization checks
     const requestSchema = z.object({
       userId: uuidSchema,
-      type: z.enum(['bill_update', 'new_article', 'bill_alert', 'bookmark_update']),
+      type: z.enum(PUSH_ALERT_TYPES),
       title: z.string().trim().min(1).max(200),
       message: z.string().trim().min(1).max(5000),
       link: z.string().trim().max(2000).optional(),
@@ -162,7 +163,7 @@ serve(async (req) => {
     const sentVia: string[] = [];
 
     // Send in-app notification
-    await supabaseClient
+    const { data: notificationRow } = await supabaseClient
       .from('notifications')
       .insert({
         user_id: userId,
@@ -171,7 +172,9 @@ serve(async (req) => {
         message,
         link,
         sent_via: ['in_app']
-      });
+      })
+      .select('id')
+      .single();
 
     sentVia.push('in_app');
 
@@ -210,40 +213,29 @@ serve(async (req) => {
       }
     }
 
-    // Get push subscriptions if enabled
-    if (prefs?.push_notifications) {
-      const { data: subscriptions } = await supabaseClient
-        .from('push_subscriptions')
-        .select('*')
-        .eq('user_id', userId);
-
-      if (subscriptions && subscriptions.length > 0) {
-        // Send push notifications (web push)
-        for (const sub of subscriptions) {
-          try {
-            // You would implement web push here using web-push library
-            // For now, we'll log it
-            console.log('Would send push notification to:', sub.endpoint);
-            sentVia.push('push');
-          } catch (error) {
-            console.error('Error sending push notification:', error);
-          }
-        }
-      }
+    // Web Push to every registered device, if the user opted in for this type
+    const push = await sendPushToUsers(supabaseClient, [userId], type, {
+      title,
+      body: message,
+      url: link || '/client/alerts',
+      tag: type,
+    });
+    if (push.userIds.length > 0) {
+      sentVia.push('push');
     }
 
     // Update notification record with sent_via
-    await supabaseClient
-      .from('notifications')
-      .update({ sent_via: sentVia })
-      .eq('user_id', userId)
-      .eq('title', title)
-      .eq('created_at', new Date().toISOString());
+    if (notificationRow) {
+      await supabaseClient
+        .from('notifications')
+        .update({ sent_via: sentVia })
+        .eq('id', notificationRow.id);
+    }
 
     console.log(`Notification sent successfully via: ${sentVia.join(', ')}`);
 
     return new Response(
-      JSON.stringify({ success: true, sent_via: sentVia }),
+      JSON.stringify({ success: true, sent_via: sentVia, push_pruned: push.pruned }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       }
@@ -2,6 +2,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { spikeAlert } from "../_shared/email-templates/templates/alert.ts";
 import type { Severity } from "../_shared/email-templates/tokens.ts";
+import { PUSH_ALERT_TYPES, sendPushToUsers, type PushAlertType } from "../_shared/pushDelivery.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -117,6 +118,51 @@ async function sendWebhookAlert(alert: any, webhookUrl: string): Promise<AlertRe
   }
 }
 
+interface PushableSpikeAlert {
+  id: string;
+  alert_type: string;
+  entity_type: string;
+  entity_name: string;
+  severity: string;
+  context_summary: string | null;
+  current_mentions: number | null;
+  time_window: string | null;
+}
+
+async function sendPushAlert(
+  supabase: ReturnType<typeof createClient>,
+  alert: PushableSpikeAlert,
+  userIds: string[]
+): Promise<AlertResult> {
+  const alertType: PushAlertType = (PUSH_ALERT_TYPES as readonly string[]).includes(alert.alert_type)
+    ? alert.alert_type as PushAlertType
+    : 'topic_spike';
+
+  // Topic spikes open the trend itself; breaking news and mentions open the alerts feed
+  const url = alert.entity_type === 'topic'
+    ? `/client/news-trends?trend=${encodeURIComponent(alert.entity_name)}`
+    : '/client/alerts';
+
+  const title = alert.alert_type === 'breaking_news'
+    ? `🔴 Breaking: ${alert.entity_name}`
+    : `${alert.severity === 'critical' ? '🚨' : '⚠️'} ${alert.entity_name} spiking`;
+
+  const result = await sendPushToUsers(supabase, userIds, alertType, {
+    title,
+    body: alert.context_summary || `${alert.current_mentions} mentions in ${alert.time_window}`,
+    url,
+    tag: `spike-${alert.id}`,
+  }, {
+    urgency: alert.severity === 'critical' || alert.alert_type === 'breaking_news' ? 'high' : 'normal',
+    // A spike is stale after a few hours; don't wake a phone for it tomorrow
+    ttl: 4 * 60 * 60,
+  });
+
+  if (result.skipped) return { success: false, reason: 'no_vapid_keys' };
+  if (result.userIds.length === 0) return { success: false, reason: 'no_push_recipients' };
+  return { success: true };
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -179,6 +225,7 @@ serve(async (req) => {
 
     let emailsSent = 0;
     let webhooksSent = 0;
+    let pushesSent = 0;
     let failed = 0;
     let retried = 0;
 
@@ -216,6 +263,15 @@ serve(async (req) => {
         }
       }
 
+      // Send push to admins' devices
+      if (channels.includes('push') && adminUserIds.size > 0) {
+        const result = await sendPushAlert(supabase, alert, Array.from(adminUserIds));
+        if (result.success) {
+          pushesSent++;
+          alertSent = true;
+        }
+      }
+
       // Update alert status
       const currentRetryCount = alert.retry_count || 0;
       const newRetryCount = alertSent ? currentRetryCount : currentRetryCount + 1;
@@ -246,6 +302,7 @@ serve(async (req) => {
       alerts_processed: alerts.length,
       emails_sent: emailsSent,
       webhooks_sent: webhooksSent,
+      pushes_sent: pushesSent,
       failed,
       retried,
       admin_recipients: adminEmails.length,
@@ -1,26 +1,76 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
+import { getCorsHeaders, validateAuth, validateCronSecret } from "../_shared/security.ts";
+import {
+  buildWebhookEvent,
+  buildWebhookHeaders,
+  isWebhookEventType,
+  planDeliveryOutcome,
+  WEBHOOK_EVENT_VERSIONS,
+  type WebhookEvent,
+} from "../_shared/webhooks.ts";
+
+const corsHeaders = getCorsHeaders();
+
+// Subscribers get this long to answer before the attempt counts as a network failure
+const REQUEST_TIMEOUT_MS = 10000;
+const RETRY_BATCH_SIZE = 50;
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface WebhookConfig {
+  id: string;
+  name: string;
+  url: string;
+  secret: string | null;
+  headers: Record<string, string> | null;
+  webhook_type: string | null;
+}
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-interface WebhookPayload {
+interface DeliveryRow {
+  id: string;
+  webhook_id: string | null;
   event_type: string;
-  title: string;
-  message: string;
+  event_id: string | null;
+  payload: unknown;
+  attempts: number | null;
+}
+
+interface AttemptResult {
+  delivery_id: string;
+  webhook_id: string;
+  webhook_name: string;
+  status: string;
+  response_status: number;
+  attempts: number;
+  next_attempt_at: string | null;
+  error?: string;
+  duration_ms: number;
+}
+
+// Chat integrations get a human-readable card; everything else gets the raw event
+interface AlertFields {
+  title?: string;
+  message?: string;
   threat_level?: string;
   source_type?: string;
   source_url?: string;
-  timestamp: string;
-  metadata?: Record<string, any>;
 }
 
-function formatSlackMessage(payload: WebhookPayload): any {
+function alertFields(event: WebhookEvent): AlertFields {
+  const data = event.data as AlertFields;
+  return {
+    ...data,
+    title: data.title || event.type,
+    message: data.message || '',
+  };
+}
+
+function formatSlackMessage(event: WebhookEvent) {
+  const payload = alertFields(event);
   const emoji = payload.threat_level === 'critical' ? '🚨' :
                 payload.threat_level === 'high' ? '⚠️' :
-                payload.event_type === 'breaking_news' ? '📰' : '📊';
+                event.type === 'trend.detected' ? '📰' : '📊';
 
   const color = payload.threat_level === 'critical' ? '#dc2626' :
                 payload.threat_level === 'high' ? '#ea580c' :
@@ -50,7 +100,7 @@ function formatSlackMessage(payload: WebhookPayload): any {
           elements: [
             {
               type: 'mrkdwn',
-              text: `*Type:* ${payload.source_type || payload.event_type} | *Level:* ${payload.threat_level || 'N/A'} | *Time:* ${new Date(payload.timestamp).toLocaleString()}`
+              text: `*Type:* ${payload.source_type || event.type} | *Level:* ${payload.threat_level || 'N/A'} | *Time:* ${new Date(event.created_at).toLocaleString()}`
             }
           ]
         }
@@ -59,10 +109,8 @@ function formatSlackMessage(payload: WebhookPayload): any {
   };
 }
 
-function formatTeamsMessage(payload: WebhookPayload): any {
-  const color = payload.threat_level === 'critical' ? 'attention' :
-                payload.threat_level === 'high' ? 'warning' :
-                payload.threat_level === 'medium' ? 'accent' : 'good';
+function formatTeamsMessage(event: WebhookEvent) {
+  const payload = alertFields(event);
 
   return {
     '@type': 'MessageCard',
@@ -73,12 +121,12 @@ function formatTeamsMessage(payload: WebhookPayload): any {
     summary: payload.title,
     sections: [{
       activityTitle: payload.title,
-      activitySubtitle: `${payload.source_type || payload.event_type} • ${payload.threat_level || 'Info'}`,
+      activitySubtitle: `${payload.source_type || event.type} • ${payload.threat_level || 'Info'}`,
       text: payload.message,
       facts: [
-        { name: 'Event Type', value: payload.event_type },
+        { name: 'Event Type', value: event.type },
         { name: 'Threat Level', value: payload.threat_level || 'N/A' },
-        { name: 'Time', value: new Date(payload.timestamp).toLocaleString() }
+        { name: 'Time', value: new Date(event.created_at).toLocaleString() }
       ]
     }],
     potentialAction: payload.source_url ? [{
@@ -89,10 +137,11 @@ function formatTeamsMessage(payload: WebhookPayload): any {
   };
 }
 
-function formatDiscordMessage(payload: WebhookPayload): any {
+function formatDiscordMessage(event: WebhookEvent) {
+  const payload = alertFields(event);
   const emoji = payload.threat_level === 'critical' ? '🚨' :
                 payload.threat_level === 'high' ? '⚠️' :
-                payload.event_type === 'breaking_news' ? '📰' : '📊';
+                event.type === 'trend.detected' ? '📰' : '📊';
 
   const color = payload.threat_level === 'critical' ? 0xdc2626 :
                 payload.threat_level === 'high' ? 0xea580c :
@@ -104,10 +153,10 @@ function formatDiscordMessage(payload: WebhookPayload): any {
       description: payload.message,
       color,
       fields: [
-        { name: 'Type', value: payload.source_type || payload.event_type, inline: true },
+        { name: 'Type', value: payload.source_type || event.type, inline: true },
         { name: 'Level', value: payload.threat_level || 'Info', inline: true },
       ],
-      timestamp: payload.timestamp,
+      timestamp: event.created_at,
       footer: {
         text: 'Intelligence Alert System'
       }
@@ -115,198 +164,275 @@ function formatDiscordMessage(payload: WebhookPayload): any {
   };
 }
 
+function formatPayload(webhookType: string | null, event: WebhookEvent): unknown {
+  switch (webhookType) {
+    case 'slack':
+      return formatSlackMessage(event);
+    case 'teams':
+      return formatTeamsMessage(event);
+    case 'discord':
+      return formatDiscordMessage(event);
+    default:
+      return event;
+  }
+}
+
+/**
+ * Makes one signed attempt for a stored delivery and moves it to success,
+ * retrying (with next_attempt_at) or dead_letter.
+ */
+async function attemptDelivery(
+  supabase: SupabaseClient,
+  webhook: WebhookConfig,
+  delivery: DeliveryRow
+): Promise<AttemptResult> {
+  const startTime = Date.now();
+  const attempts = (delivery.attempts ?? 0) + 1;
+  const body = JSON.stringify(delivery.payload);
+
+  let responseStatus = 0;
+  let responseBody = '';
+  let errorMessage: string | null = null;
+
+  try {
+    const headers = await buildWebhookHeaders({
+      deliveryId: delivery.event_id || delivery.id,
+      eventType: delivery.event_type,
+      body,
+      secret: webhook.secret,
+      customHeaders: webhook.headers,
+    });
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const response = await fetch(webhook.url, { method: 'POST', headers, body, signal: controller.signal });
+      responseStatus = response.status;
+      responseBody = await response.text();
+      if (!response.ok) errorMessage = `HTTP ${response.status}`;
+    } finally {
+      clearTimeout(timeout);
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  const duration = Date.now() - startTime;
+  const now = new Date();
+  const outcome = planDeliveryOutcome(attempts, responseStatus, now);
+
+  await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: outcome.status,
+      attempts,
+      response_code: responseStatus || null,
+      response_body: responseBody.substring(0, 1000) || null,
+      error_message: errorMessage,
+      duration_ms: duration,
+      last_attempt_at: now.toISOString(),
+      next_attempt_at: outcome.nextAttemptAt,
+      delivered_at: outcome.status === 'success' ? now.toISOString() : null,
+      dead_lettered_at: outcome.deadLettered ? now.toISOString() : null,
+    })
+    .eq('id', delivery.id);
+
+  // Incremented in the database; concurrent sends would lose a read-modify-write
+  const { error: counterError } = await supabase.rpc('record_webhook_attempt', {
+    p_webhook_id: webhook.id,
+    p_succeeded: outcome.status === 'success',
+  });
+  if (counterError) console.error(`Failed to update counters for ${webhook.name}:`, counterError.message);
+
+  console.log(`Webhook ${webhook.name}: ${outcome.status} (attempt ${attempts}, ${responseStatus || errorMessage})`);
+
+  return {
+    delivery_id: delivery.id,
+    webhook_id: webhook.id,
+    webhook_name: webhook.name,
+    status: outcome.status,
+    response_status: responseStatus,
+    attempts,
+    next_attempt_at: outcome.nextAttemptAt,
+    ...(errorMessage ? { error: errorMessage } : {}),
+    duration_ms: duration,
+  };
+}
+
+const WEBHOOK_COLUMNS = 'id, name, url, secret, headers, webhook_type';
+
+async function loadWebhooks(supabase: SupabaseClient, ids: string[]): Promise<Map<string, WebhookConfig>> {
+  if (ids.length === 0) return new Map();
+  const { data, error } = await supabase
+    .from('webhook_configs')
+    .select(WEBHOOK_COLUMNS)
+    .in('id', ids);
+  if (error) throw error;
+  return new Map(((data || []) as WebhookConfig[]).map(w => [w.id, w]));
+}
+
+// Attempts each delivery; deliveries whose webhook was deleted or disabled are dead-lettered
+async function attemptAll(supabase: SupabaseClient, deliveries: DeliveryRow[]): Promise<AttemptResult[]> {
+  const webhookIds = [...new Set(deliveries.map(d => d.webhook_id).filter((id): id is string => !!id))];
+  const webhooks = await loadWebhooks(supabase, webhookIds);
+  const results: AttemptResult[] = [];
+
+  for (const delivery of deliveries) {
+    const webhook = delivery.webhook_id ? webhooks.get(delivery.webhook_id) : undefined;
+    if (!webhook) {
+      await supabase
+        .from('webhook_deliveries')
+        .update({
+          status: 'dead_letter',
+          error_message: 'Webhook no longer exists',
+          next_attempt_at: null,
+          dead_lettered_at: new Date().toISOString(),
+        })
+        .eq('id', delivery.id);
+      continue;
+    }
+    results.push(await attemptDelivery(supabase, webhook, delivery));
+  }
+
+  return results;
+}
+
+function summarize(results: AttemptResult[]) {
+  return {
+    webhooks_sent: results.length,
+    successful: results.filter(r => r.status === 'success').length,
+    retrying: results.filter(r => r.status === 'retrying').length,
+    dead_lettered: results.filter(r => r.status === 'dead_letter').length,
+    results,
+  };
+}
+
+const DELIVERY_COLUMNS = 'id, webhook_id, event_type, event_id, payload, attempts';
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const jsonResponse = (body: unknown, status = 200) => new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+
   try {
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    );
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+
+    // Cron secret, service role key (internal producers) or an admin session (replays)
+    const authHeader = req.headers.get('Authorization');
+    const isInternal = validateCronSecret(req) ||
+      (authHeader?.startsWith('Bearer ') && authHeader.replace('Bearer ', '') === serviceRoleKey);
+    if (!isInternal) {
+      const auth = await validateAuth(req, supabase);
+      if (!auth?.isAdmin) {
+        return jsonResponse({ error: 'Unauthorized' }, 401);
+      }
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const action: string = body.action || 'send';
 
-    const body = await req.json();
-    const { event_type, payload, webhook_ids, user_id } = body;
+    // Scheduled: deliveries whose backoff has elapsed. Claiming leases them to
+    // this run, so an overlapping run can't send the same delivery again.
+    if (action === 'retry') {
+      const { data: due, error } = await supabase.rpc('claim_due_webhook_deliveries', {
+        p_limit: body.limit || RETRY_BATCH_SIZE,
+      });
+      if (error) throw error;
+
+      const results = await attemptAll(supabase, (due || []) as DeliveryRow[]);
+      return jsonResponse({ success: true, action, ...summarize(results) });
+    }
+
+    // Manual: re-send dead-lettered (or any) deliveries with a fresh retry budget
+    if (action === 'replay') {
+      const deliveryIds: string[] = Array.isArray(body.delivery_ids) ? body.delivery_ids : [];
+      if (deliveryIds.length === 0) {
+        return jsonResponse({ error: 'delivery_ids is required' }, 400);
+      }
+
+      // Deliveries the retry job is sending right now are left to it
+      const { data: rows, error } = await supabase
+        .from('webhook_deliveries')
+        .update({ status: 'pending', attempts: 0, next_attempt_at: null, dead_lettered_at: null })
+        .in('id', deliveryIds.slice(0, 100))
+        .neq('status', 'delivering')
+        .select(DELIVERY_COLUMNS);
+      if (error) throw error;
+
+      const deliveries = (rows || []) as DeliveryRow[];
+
+      const results = await attemptAll(supabase, deliveries);
+      return jsonResponse({ success: true, action, ...summarize(results) });
+    }
+
+    const { event_type, payload, webhook_ids, organization_id, event_id } = body;
 
     if (!event_type || !payload) {
-      throw new Error('event_type and payload are required');
+      return jsonResponse({ error: 'event_type and payload are required' }, 400);
+    }
+    if (!isWebhookEventType(event_type)) {
+      return jsonResponse({
+        error: `Unknown event_type: ${event_type}`,
+        supported: Object.keys(WEBHOOK_EVENT_VERSIONS),
+      }, 400);
     }
 
     console.log(`Sending webhook for event: ${event_type}`);
 
-    // Get webhooks to send to
     let webhooksQuery = supabase
       .from('webhook_configs')
-      .select('*')
-      .eq('is_enabled', true)
-      .contains('events', [event_type]);
+      .select(WEBHOOK_COLUMNS)
+      .eq('is_active', true)
+      .contains('event_types', [event_type]);
 
     if (webhook_ids && webhook_ids.length > 0) {
       webhooksQuery = webhooksQuery.in('id', webhook_ids);
     }
 
-    if (user_id) {
-      webhooksQuery = webhooksQuery.eq('user_id', user_id);
-    }
-
     const { data: webhooks, error: webhooksError } = await webhooksQuery;
-
     if (webhooksError) throw webhooksError;
 
     if (!webhooks || webhooks.length === 0) {
-      return new Response(
-        JSON.stringify({ message: 'No webhooks configured for this event', sent: 0 }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return jsonResponse({ message: 'No webhooks configured for this event', sent: 0 });
     }
 
-    const results: any[] = [];
-
-    for (const webhook of webhooks) {
-      const startTime = Date.now();
-      let deliveryId: string | null = null;
-
-      try {
-        // Format payload based on webhook type
-        let formattedPayload: any;
-        const webhookPayload: WebhookPayload = {
-          event_type,
-          timestamp: new Date().toISOString(),
-          ...payload
-        };
-
-        switch (webhook.webhook_type) {
-          case 'slack':
-            formattedPayload = formatSlackMessage(webhookPayload);
-            break;
-          case 'teams':
-            formattedPayload = formatTeamsMessage(webhookPayload);
-            break;
-          case 'discord':
-            formattedPayload = formatDiscordMessage(webhookPayload);
-            break;
-          default:
-            formattedPayload = webhookPayload;
-        }
-
-        // Create delivery record
-        const { data: delivery } = await supabase
-          .from('webhook_deliveries')
-          .insert({
-            webhook_id: webhook.id,
-            event_type,
-            payload: formattedPayload,
-            status: 'pending',
-          })
-          .select('id')
-          .single();
-
-        deliveryId = delivery?.id;
-
-        // Send webhook
-        const response = await fetch(webhook.webhook_url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            ...(webhook.secret_key ? { 'X-Webhook-Secret': webhook.secret_key } : {})
-          },
-          body: JSON.stringify(formattedPayload),
-        });
-
-        const duration = Date.now() - startTime;
-        const responseBody = await response.text();
-
-        // Update delivery record
-        if (deliveryId) {
-          await supabase
-            .from('webhook_deliveries')
-            .update({
-              response_status: response.status,
-              response_body: responseBody.substring(0, 1000),
-              duration_ms: duration,
-              status: response.ok ? 'success' : 'failed',
-              error_message: response.ok ? null : `HTTP ${response.status}`,
-            })
-            .eq('id', deliveryId);
-        }
-
-        // Update webhook stats
-        await supabase
-          .from('webhook_configs')
-          .update({
-            last_triggered_at: new Date().toISOString(),
-            success_count: response.ok ? webhook.success_count + 1 : webhook.success_count,
-            failure_count: response.ok ? webhook.failure_count : webhook.failure_count + 1,
-          })
-          .eq('id', webhook.id);
-
-        results.push({
-          webhook_id: webhook.id,
-          webhook_name: webhook.webhook_name,
-          status: response.ok ? 'success' : 'failed',
-          response_status: response.status,
-          duration_ms: duration,
-        });
-
-        console.log(`Webhook ${webhook.webhook_name}: ${response.ok ? 'success' : 'failed'} (${response.status})`);
-
-      } catch (error) {
-        const duration = Date.now() - startTime;
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-        // Update delivery record with failure
-        if (deliveryId) {
-          await supabase
-            .from('webhook_deliveries')
-            .update({
-              duration_ms: duration,
-              status: 'failed',
-              error_message: errorMessage,
-            })
-            .eq('id', deliveryId);
-        }
+    // One event id across subscribers, retries and replays so receivers can dedupe
+    const event = buildWebhookEvent(event_type, payload, { id: event_id, organizationId: organization_id });
+    const results: AttemptResult[] = [];
 
-        // Update webhook failure count
-        await supabase
-          .from('webhook_configs')
-          .update({
-            failure_count: webhook.failure_count + 1,
-          })
-          .eq('id', webhook.id);
-
-        results.push({
+    for (const webhook of webhooks as WebhookConfig[]) {
+      const { data: delivery, error: insertError } = await supabase
+        .from('webhook_deliveries')
+        .insert({
           webhook_id: webhook.id,
-          webhook_name: webhook.webhook_name,
-          status: 'failed',
-          error: errorMessage,
-          duration_ms: duration,
-        });
-
-        console.error(`Webhook ${webhook.webhook_name} failed: ${errorMessage}`);
+          event_type,
+          event_id: event.id,
+          schema_version: event.version,
+          payload: formatPayload(webhook.webhook_type, event),
+          status: 'pending',
+          attempts: 0,
+        })
+        .select(DELIVERY_COLUMNS)
+        .single();
+
+      if (insertError || !delivery) {
+        console.error(`Failed to record delivery for ${webhook.name}:`, insertError?.message);
+        continue;
       }
+
+      results.push(await attemptDelivery(supabase, webhook, delivery as DeliveryRow));
     }
 
-    const successCount = results.filter(r => r.status === 'success').length;
-    const failureCount = results.filter(r => r.status === 'failed').length;
-
-    return new Response(
-      JSON.stringify({
-        success: true,
-        event_type,
-        webhooks_sent: results.length,
-        successful: successCount,
-        failed: failureCount,
-        results,
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ success: true, event_type, event_id: event.id, ...summarize(results) });
 
   } catch (error) {
     console.error('Error sending webhooks:', error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
   }
 });
@@ -1,50 +1,41 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
+import { definePrompt, LLMError, type LLMClient } from "../_shared/llm.ts";
+import { createLLMClientForFunction } from "../_shared/llmStore.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-const LOVABLE_API_URL = 'https://ai.gateway.lovable.dev/v1/chat/completions';
-
 // PHASE 6: Alert throttling window
 const ALERT_THROTTLE_HOURS = 4;
 
-// Generate AI executive summary and key takeaways
-async function generateAISummary(briefingData: {
+interface BriefingSummaryVars {
   critical_count: number;
   high_count: number;
   total_articles: number;
   total_bills: number;
-  top_critical_items: any[];
-  orgSummary: Record<string, any>;
-}): Promise<{ executive_summary: string; key_takeaways: string[] }> {
-  if (!LOVABLE_API_KEY) {
-    console.log('No LOVABLE_API_KEY, skipping AI summary generation');
-    return {
-      executive_summary: '',
-      key_takeaways: []
-    };
-  }
-
-  const topItems = briefingData.top_critical_items.slice(0, 10);
-  const orgMentions = Object.entries(briefingData.orgSummary)
-    .map(([org, data]: [string, any]) => `${org}: ${data.total} mentions (${data.critical} critical)`)
-    .join(', ');
+  orgMentions: string;
+  topItems: Array<{ threat_level?: string; title: string; type: string }>;
+}
 
-  const prompt = `You are an intelligence analyst providing a daily briefing for advocacy organizations focused on Arab American, Muslim American, and civil rights issues.
+const briefingSummaryPrompt = definePrompt<BriefingSummaryVars>({
+  id: 'smart-alerting.daily-briefing-summary',
+  version: 1,
+  maxTokens: 500,
+  system: 'You are a concise intelligence analyst. Respond only with valid JSON.',
+  user: (data) => `You are an intelligence analyst providing a daily briefing for advocacy organizations focused on Arab American, Muslim American, and civil rights issues.
 
 TODAY'S DATA:
-- Critical alerts: ${briefingData.critical_count}
-- High priority alerts: ${briefingData.high_count}
-- Total articles analyzed: ${briefingData.total_articles}
-- Bills tracked: ${briefingData.total_bills}
-- Organization mentions: ${orgMentions || 'None today'}
+- Critical alerts: ${data.critical_count}
+- High priority alerts: ${data.high_count}
+- Total articles analyzed: ${data.total_articles}
+- Bills tracked: ${data.total_bills}
+- Organization mentions: ${data.orgMentions || 'None today'}
 
 TOP ITEMS:
-${topItems.map((item, i) => `${i + 1}. [${item.threat_level?.toUpperCase()}] ${item.title} (${item.type})`).join('\n')}
+${data.topItems.map((item, i) => `${i + 1}. [${item.threat_level?.toUpperCase()}] ${item.title} (${item.type})`).join('\n')}
 
 Generate:
 1. A 2-3 sentence executive summary highlighting the most important developments and their implications
@@ -54,46 +45,47 @@ Respond in JSON format:
 {
   "executive_summary": "...",
   "key_takeaways": ["...", "...", "..."]
-}`;
+}`,
+});
+
+// Generate AI executive summary and key takeaways
+async function generateAISummary(llm: LLMClient, briefingData: {
+  critical_count: number;
+  high_count: number;
+  total_articles: number;
+  total_bills: number;
+  top_critical_items: any[];
+  orgSummary: Record<string, any>;
+}): Promise<{ executive_summary: string; key_takeaways: string[] }> {
+  const orgMentions = Object.entries(briefingData.orgSummary)
+    .map(([org, data]: [string, any]) => `${org}: ${data.total} mentions (${data.critical} critical)`)
+    .join(', ');
 
   try {
-    const response = await fetch(LOVABLE_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
+    // Re-runs within the hour over unchanged data reuse the same summary
+    const { data: parsed } = await llm.runJson<{ executive_summary?: string; key_takeaways?: unknown }, BriefingSummaryVars>(
+      briefingSummaryPrompt,
+      {
+        critical_count: briefingData.critical_count,
+        high_count: briefingData.high_count,
+        total_articles: briefingData.total_articles,
+        total_bills: briefingData.total_bills,
+        orgMentions,
+        topItems: briefingData.top_critical_items.slice(0, 10),
       },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: 'You are a concise intelligence analyst. Respond only with valid JSON.' },
-          { role: 'user', content: prompt }
-        ],
-        max_tokens: 500,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('AI API error:', response.status, await response.text());
-      return { executive_summary: '', key_takeaways: [] };
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content || '';
-    
-    // Parse JSON from response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      return {
-        executive_summary: parsed.executive_summary || '',
-        key_takeaways: Array.isArray(parsed.key_takeaways) ? parsed.key_takeaways : []
-      };
-    }
+      { cacheTtlSeconds: 3600 }
+    );
 
-    return { executive_summary: '', key_takeaways: [] };
+    return {
+      executive_summary: parsed?.executive_summary || '',
+      key_takeaways: Array.isArray(parsed?.key_takeaways) ? parsed.key_takeaways : []
+    };
   } catch (error) {
-    console.error('Error generating AI summary:', error);
+    if (error instanceof LLMError && error.code === 'not_configured') {
+      console.log('No LOVABLE_API_KEY, skipping AI summary generation');
+    } else {
+      console.error('Error generating AI summary:', error);
+    }
     return { executive_summary: '', key_takeaways: [] };
   }
 }
@@ -520,7 +512,7 @@ serve(async (req) => {
 
       // Generate AI executive summary and key takeaways
       console.log('Generating AI executive summary...');
-      const aiSummary = await generateAISummary({
+      const aiSummary = await generateAISummary(createLLMClientForFunction(supabase, 'smart-alerting'), {
         critical_count: totalCritical,
         high_count: totalHigh,
         total_articles: effectiveStats?.articles?.total || 0,
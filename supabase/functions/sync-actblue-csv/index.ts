@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
 import { normalizeActBlueTimestamp } from "../_shared/actblue-timezone.ts";
+import { countLineitemsByPayment, rowBelongsToEntity } from "../_shared/actblueLineitems.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -642,6 +643,9 @@ serve(async (req) => {
           
             hasMore = more;
             offset += batchSize;
+
+            // Split contributions: one row per lineitem, sharing payment_id
+            const lineitemCounts = countLineitemsByPayment(rows);
           
             for (const row of rows) {
               totalProcessed++;
@@ -666,6 +670,14 @@ serve(async (req) => {
                 continue;
               }
 
+              // Lineitems for other recipient entities of a split gift belong to other orgs
+              if (!rowBelongsToEntity(row.entity_id, config.entity_id)) {
+                totalSkipped++;
+                continue;
+              }
+
+              const splitLineitemCount = (row.payment_id && lineitemCounts.get(row.payment_id)) || 1;
+
               // Log warning if using receipt_id as fallback (potential dedupe issue)
               if (!lineitemIdStr && receiptIdStr && totalProcessed <= 5) {
                 console.warn(`[DEDUPE] Row ${totalProcessed} using receipt_id as transaction_id - may cause duplicates with webhook`);
@@ -754,7 +766,7 @@ serve(async (req) => {
               // Check if transaction exists
               const { data: existing } = await supabase
                 .from('actblue_transactions')
-                .select('id, transaction_type, first_name, last_name, donor_name, ab_test_name, is_mobile, is_express')
+                .select('id, transaction_type, first_name, last_name, donor_name, ab_test_name, is_mobile, is_express, split_lineitem_count, actblue_donor_id')
                 .eq('transaction_id', transactionId)
                 .eq('organization_id', orgId)
                 .maybeSingle();
@@ -775,6 +787,8 @@ serve(async (req) => {
                 zip: row.donor_zip || null,
                 country: row.donor_country || null,
                 phone: row.donor_phone || null,
+                // Links one donor across emails in the identity graph
+                actblue_donor_id: row.donor_id || null,
                 employer: row.donor_employer || null,
                 occupation: row.donor_occupation || null,
                 amount: parseFloat(row.amount) || 0,
@@ -799,6 +813,7 @@ serve(async (req) => {
                 entity_id: row.entity_id || config.entity_id,
                 committee_name: row.recipient || null,
                 fec_id: row.fec_id || null,
+                split_lineitem_count: splitLineitemCount,
                 recurring_period: row.recurring_total_months ? 'monthly' : (row.recur_weekly === 'true' || row.recur_weekly === 'TRUE' ? 'weekly' : null),
                 recurring_duration: parseInt(row.recurring_total_months) || null,
                 // Fixed: recurring if has recurring_total_months > 0 OR weekly recurring is set
@@ -822,6 +837,8 @@ serve(async (req) => {
                   if (newDonorName && !existing.donor_name) updateFields.donor_name = newDonorName;
                 }
                 
+                if (row.donor_id && !existing.actblue_donor_id) updateFields.actblue_donor_id = row.donor_id;
+
                 // Update transaction type if changed
                 if (existing.transaction_type !== transactionType) {
                   updateFields.transaction_type = transactionType;
@@ -838,6 +855,8 @@ serve(async (req) => {
                 if (recurringUpsellSucceeded) updateFields.recurring_upsell_succeeded = recurringUpsellSucceeded;
                 if (smartBoostAmount !== null) updateFields.smart_boost_amount = smartBoostAmount;
                 if (doubleDown) updateFields.double_down = doubleDown;
+                // Exports may only list this entity's lineitems, so never lower a count the webhook saw
+                if (splitLineitemCount > (existing.split_lineitem_count || 1)) updateFields.split_lineitem_count = splitLineitemCount;
                 
                 if (Object.keys(updateFields).length > 0) {
                   await supabase
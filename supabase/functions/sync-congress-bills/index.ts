@@ -1,5 +1,11 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
+import { parseCongressMember, type CongressMemberRecord } from "../_shared/entityKnowledgeBase.ts";
+import { syncCongressMembers } from "../_shared/entityKnowledgeBaseStore.ts";
+import { billAlertEvents, parseTextVersions, recordedVoteRefs, type BillTextVersion } from "../_shared/billTracking.ts";
+import { notifyBillAlerts, storeRollCallVotes, storeTextVersions } from "../_shared/billTrackingStore.ts";
+import { scoreThreat } from "../_shared/threatTaxonomy.ts";
+import { loadOrganizationTaxonomies, recordTaxonomyMatches } from "../_shared/threatTaxonomyStore.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -84,6 +90,73 @@ async function fetchCongressAPI(url: string): Promise<Response> {
   return response;
 }
 
+/**
+ * Current members of a Congress from /member, for the entity knowledge base.
+ * Returns what was fetched so far if a page fails.
+ */
+async function fetchCurrentMembers(congress: number): Promise<CongressMemberRecord[]> {
+  const members: CongressMemberRecord[] = [];
+  const limit = 250;
+
+  for (let offset = 0; offset < 1000; offset += limit) {
+    const response = await fetchCongressAPI(
+      `${CONGRESS_API_BASE}/member/congress/${congress}?currentMember=true&limit=${limit}&offset=${offset}`
+    );
+    if (!response.ok) break;
+
+    const data = await response.json();
+    const page = data.members || [];
+    for (const raw of page) {
+      const member = parseCongressMember(raw);
+      if (member) members.push(member);
+    }
+    if (page.length < limit) break;
+  }
+
+  return members;
+}
+
+interface CongressAction {
+  actionDate: string;
+  text?: string;
+  actionCode?: string;
+  chamber?: string;
+  recordedVotes?: unknown[];
+}
+
+/** The parts of a Congress.gov bill detail that link to sub-resources */
+interface CongressBillLinks {
+  actions?: { url?: string; actions?: CongressAction[] };
+  textVersions?: unknown[] | { url?: string };
+}
+
+/**
+ * All actions for a bill, newest first. The bill detail only links to them
+ * (actions.url); recorded votes hang off the individual actions.
+ */
+async function fetchBillActions(billDetail: CongressBillLinks): Promise<CongressAction[]> {
+  const { actions } = billDetail;
+  if (Array.isArray(actions?.actions)) return actions.actions;
+  if (!actions?.url) return [];
+
+  const response = await fetchCongressAPI(`${actions.url.split('?')[0]}?limit=250`);
+  if (!response.ok) return [];
+  const data = await response.json();
+  return data.actions || [];
+}
+
+/** Every text version Congress.gov has for a bill, oldest first */
+async function fetchTextVersions(billDetail: CongressBillLinks): Promise<BillTextVersion[]> {
+  const { textVersions } = billDetail;
+  if (Array.isArray(textVersions)) return parseTextVersions(textVersions);
+  if (!textVersions?.url) return [];
+
+  const response = await fetchCongressAPI(textVersions.url.split('?')[0]);
+  if (!response.ok) return [];
+  const data = await response.json();
+  return parseTextVersions(data.textVersions);
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -118,6 +191,28 @@ serve(async (req) => {
     const currentCongress = 119;
     let totalBillsFetched = 0;
     let totalBillsInserted = 0;
+    let totalVersionsStored = 0;
+    let totalRollCallsStored = 0;
+    let totalAlertsSent = 0;
+    let totalTaxonomyMatches = 0;
+    const cronSecret = Deno.env.get('CRON_SECRET');
+
+    // Organizations' own threat taxonomies; a bill matching one is kept
+    // even when the keywords below score it zero
+    const orgTaxonomies = await loadOrganizationTaxonomies(supabaseClient);
+
+    // Keep members of Congress current in the entity knowledge base
+    let membersSynced = { inserted: 0, updated: 0 };
+    try {
+      const members = await fetchCurrentMembers(currentCongress);
+      membersSynced = await syncCongressMembers(supabaseClient, members);
+      console.log(`Members synced: ${membersSynced.inserted} new, ${membersSynced.updated} updated`);
+    } catch (error) {
+      console.error('Error syncing members of Congress:', error);
+    }
+
+    // Sponsors who have left Congress are still news
+    const sponsorMembers = new Map<string, CongressMemberRecord>();
 
     // Fetch recent bills from House, Senate, and resolutions
     // Resolutions (hres, sres, hjres, sjres) often contain relevant foreign policy content
@@ -160,6 +255,7 @@ serve(async (req) => {
           const titleLower = (billDetail.title || '').toLowerCase();
 
           // Fetch summaries (it's a separate endpoint in Congress.gov API)
+          let summaryText = '';
           let summaryLower = '';
           if (billDetail.summaries?.url) {
             try {
@@ -169,6 +265,7 @@ serve(async (req) => {
                 const summaries = summaryData.summaries || [];
                 if (summaries.length > 0) {
                   // Get the most recent/detailed summary
+                  summaryText = (summaries[0]?.text || '').replace(/<[^>]*>/g, ' ');
                   summaryLower = (summaries[0]?.text || '').toLowerCase();
                 }
               }
@@ -282,13 +379,23 @@ serve(async (req) => {
             console.log(`Bill ${billDetail.number}: score ${relevanceScore}, matches: ${matchedKeywords.join(', ')}`);
           }
 
-          if (relevanceScore === 0) {
+          // Taxonomy rules see the original case so acronym rules can match
+          const taxonomyText = `${billDetail.title || ''} ${summaryText} ${subjectsText}`;
+          const orgMatched = orgTaxonomies.some(
+            (org) => scoreThreat(taxonomyText, org.taxonomy, 'bill').matches.length > 0
+          );
+
+          if (relevanceScore === 0 && !orgMatched) {
             continue;
           }
 
           // Get sponsor information
           const sponsors = billDetail.sponsors || [];
           const sponsor = sponsors[0] || {};
+          for (const raw of sponsors) {
+            const member = parseCongressMember(raw);
+            if (member) sponsorMembers.set(member.bioguide_id, member);
+          }
 
           // Get cosponsor count and party breakdown
           // Handle both array and object formats from API
@@ -307,8 +414,9 @@ serve(async (req) => {
           }
 
           // Get latest action
-          const actions = billDetail.actions?.actions || [];
+          const actions = await fetchBillActions(billDetail);
           const latestAction = actions[0];
+          const textVersions = await fetchTextVersions(billDetail);
 
           // Extract committee assignments - handle both array and object formats
           let committeeAssignments = [];
@@ -409,7 +517,7 @@ serve(async (req) => {
               cosponsor_party_breakdown: cosponsorPartyBreakdown,
               committee_assignments: committeeAssignments,
               related_bills: relatedBills,
-              bill_text_url: billDetail.textVersions?.[0]?.formats?.[0]?.url || null,
+              bill_text_url: textVersions[textVersions.length - 1]?.textUrl || null,
               relevance_score: Math.min(relevanceScore, 100),
             }, {
               onConflict: 'bill_number'
@@ -427,14 +535,14 @@ serve(async (req) => {
 
           totalBillsInserted++;
 
+          const { data: existingBill } = await supabaseClient
+            .from('bills')
+            .select('id')
+            .eq('bill_number', billDetail.number)
+            .single();
+
           // Insert bill actions
           if (actions.length > 0) {
-            const { data: existingBill } = await supabaseClient
-              .from('bills')
-              .select('id')
-              .eq('bill_number', billDetail.number)
-              .single();
-
             if (existingBill) {
               // Delete old actions first
               await supabaseClient
@@ -457,6 +565,50 @@ serve(async (req) => {
             }
           }
 
+          if (existingBill && orgTaxonomies.length > 0) {
+            try {
+              const { matched } = await recordTaxonomyMatches(
+                supabaseClient,
+                [{ type: 'bill', id: existingBill.id, text: taxonomyText }],
+                orgTaxonomies
+              );
+              totalTaxonomyMatches += matched;
+            } catch (error) {
+              console.error(`Error recording taxonomy matches for ${billDetail.number}:`, error);
+            }
+          }
+
+          // Text versions, roll calls, and alerts for subscribers
+          if (existingBill) {
+            try {
+              const { stored } = await storeTextVersions(supabaseClient, existingBill.id, textVersions);
+              const newVotes = await storeRollCallVotes(supabaseClient, existingBill.id, recordedVoteRefs(actions));
+              totalVersionsStored += stored.length;
+              totalRollCallsStored += newVotes.length;
+
+              const events = billAlertEvents({
+                billLabel: `${(billDetail.type || '').toUpperCase()} ${billDetail.number}`,
+                versions: textVersions,
+                actions: actions.map((action) => ({
+                  actionDate: action.actionDate,
+                  text: action.text || '',
+                  actionCode: action.actionCode || null,
+                  hasRecordedVote: Array.isArray(action.recordedVotes) && action.recordedVotes.length > 0,
+                })),
+                votes: newVotes,
+              });
+              const alerts = await notifyBillAlerts(
+                supabaseClient,
+                { id: existingBill.id, bill_number: billDetail.number },
+                events,
+                { cronSecret }
+              );
+              totalAlertsSent += alerts.notified;
+            } catch (error) {
+              console.error(`Error tracking versions and votes for ${billDetail.number}:`, error);
+            }
+          }
+
           // Delay to avoid rate limiting (increased since we make 3 API calls per bill)
           await new Promise(resolve => setTimeout(resolve, 200));
 
@@ -466,6 +618,16 @@ serve(async (req) => {
       }
     }
 
+    try {
+      const sponsorsSynced = await syncCongressMembers(supabaseClient, [...sponsorMembers.values()]);
+      membersSynced = {
+        inserted: membersSynced.inserted + sponsorsSynced.inserted,
+        updated: membersSynced.updated + sponsorsSynced.updated,
+      };
+    } catch (error) {
+      console.error('Error syncing bill sponsors:', error);
+    }
+
     console.log(`Sync complete: ${totalBillsFetched} bills fetched, ${totalBillsInserted} relevant bills saved`);
 
     return new Response(
@@ -473,6 +635,12 @@ serve(async (req) => {
         success: true,
         billsFetched: totalBillsFetched,
         billsInserted: totalBillsInserted,
+        membersInserted: membersSynced.inserted,
+        membersUpdated: membersSynced.updated,
+        versionsStored: totalVersionsStored,
+        rollCallsStored: totalRollCallsStored,
+        alertsSent: totalAlertsSent,
+        taxonomyMatches: totalTaxonomyMatches,
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -0,0 +1,225 @@
+/**
+ * ================================================================================
+ * SYNC EMAIL PLATFORMS - MAILINGS + ENGAGEMENT COUNTS
+ * ================================================================================
+ *
+ * Pulls sent mailings from the org's email fundraising tool into email_mailings:
+ * sends, deliveries, opens, clicks, unsubscribes, bounces and the tracked links.
+ * The provider (ActionKit, EveryAction or Mailchimp) comes from the 'email'
+ * credential's `provider` field; see _shared/emailConnectors.ts.
+ *
+ * Refcodes are resolved afterwards by reconcile-email-refcodes, which maps each
+ * mailing's ActBlue refcode into refcode_mappings (platform 'email').
+ *
+ * Scheduled via run-scheduled-jobs (sync_email_platforms).
+ * ================================================================================
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
+import { getCorsHeaders, validateAuth, validateCronSecret, userBelongsToOrg, logJobFailure } from "../_shared/security.ts";
+import { parseJsonBody, uuidSchema, isoDateSchema, z } from "../_shared/validators.ts";
+import {
+  EmailConnectorError,
+  createFetchJson,
+  getEmailConnector,
+  type EmailCredentials,
+  type FetchJson,
+} from "../_shared/emailConnectors.ts";
+
+const corsHeaders = getCorsHeaders();
+
+const UPSERT_CHUNK_SIZE = 200;
+// Opens and clicks keep trickling in for a couple of weeks after a send
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_LOOKBACK_DAYS = 365;
+
+const bodySchema = z.object({
+  organization_id: uuidSchema,
+  start_date: isoDateSchema.optional(),
+  test_only: z.coerce.boolean().optional(),
+  // Unsaved credentials from CredentialSlideOver's "Test" button
+  credentials: z.record(z.string()).optional(),
+});
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/** Retries 429s and 5xx with exponential backoff before giving up */
+function withRetry(fetchJson: FetchJson, maxRetries = 3): FetchJson {
+  return async (url, init) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await fetchJson(url, init);
+      } catch (err) {
+        const retryable = err instanceof EmailConnectorError && (err.rateLimited || err.status >= 500);
+        if (!retryable || attempt >= maxRetries) throw err;
+        const delay = 1000 * Math.pow(2, attempt) + Math.random() * 1000;
+        console.log(`[SYNC-EMAIL] ${(err as Error).message}, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${maxRetries})`);
+        await new Promise(r => setTimeout(r, delay));
+      }
+    }
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+  let organizationId: string | null = null;
+
+  try {
+    const parsed = await parseJsonBody(req, bodySchema, { allowEmpty: false });
+    if (!parsed.ok) {
+      return jsonResponse({ error: parsed.error, details: parsed.details }, 400);
+    }
+    const { organization_id, start_date, test_only, credentials: formCredentials } = parsed.data;
+
+    // --- SECURITY: cron secret, admin, or a member of the org ---
+    let authMethod = 'CRON_SECRET';
+    if (!validateCronSecret(req)) {
+      const auth = await validateAuth(req, supabase);
+      if (!auth || (!auth.isAdmin && !await userBelongsToOrg(supabase, auth.user.id, organization_id))) {
+        return jsonResponse({ error: 'Unauthorized - requires CRON_SECRET, admin access, or org membership' }, 401);
+      }
+      authMethod = auth.isAdmin ? 'ADMIN_JWT' : 'USER_JWT';
+    }
+    organizationId = organization_id;
+    console.log(`[SYNC-EMAIL] Starting for org ${organization_id} (auth: ${authMethod}${test_only ? ', test only' : ''})`);
+
+    const { data: credData } = await supabase
+      .from('client_api_credentials')
+      .select('encrypted_credentials')
+      .eq('organization_id', organization_id)
+      .eq('platform', 'email')
+      .eq('is_active', true)
+      .maybeSingle();
+
+    // Form values win over saved ones so partial edits can be tested before saving
+    const credentials = {
+      ...((credData?.encrypted_credentials as Record<string, string> | null) || {}),
+      ...Object.fromEntries(Object.entries(formCredentials || {}).filter(([, v]) => v?.trim())),
+    } as unknown as EmailCredentials;
+
+    if (!credData && !test_only) {
+      console.log(`[SYNC-EMAIL] No email credentials for org ${organization_id} - skipping sync`);
+      return jsonResponse({
+        success: true,
+        skipped: true,
+        message: 'No email platform credentials configured for this organization',
+        mailings_stored: 0,
+      });
+    }
+
+    const connector = getEmailConnector(credentials.provider);
+    if (!connector) {
+      return jsonResponse({ error: `Unsupported email provider: ${credentials.provider || '(none)'}` }, 400);
+    }
+    const missing = connector.missingCredentials(credentials);
+    if (missing.length > 0) {
+      return jsonResponse({ error: `Missing ${connector.provider} credentials: ${missing.join(', ')}` }, 400);
+    }
+
+    const fetchJson = withRetry(createFetchJson());
+
+    if (test_only) {
+      await connector.test(credentials, fetchJson);
+      return jsonResponse({ success: true, test_only: true, provider: connector.provider });
+    }
+
+    // --- DATE RANGE ---
+    const minStart = new Date();
+    minStart.setDate(minStart.getDate() - MAX_LOOKBACK_DAYS);
+    const defaultStart = new Date();
+    defaultStart.setDate(defaultStart.getDate() - DEFAULT_RANGE_DAYS);
+
+    let since = start_date || defaultStart.toISOString().split('T')[0];
+    if (since < minStart.toISOString().split('T')[0]) {
+      console.log(`[DATE VALIDATION] Clamping start_date ${since} to ${minStart.toISOString().split('T')[0]}`);
+      since = minStart.toISOString().split('T')[0];
+    }
+
+    // --- FETCH + STORE ---
+    const mailings = await connector.listMailings(credentials, since, fetchJson);
+    console.log(`[SYNC-EMAIL] ${connector.provider}: ${mailings.length} mailings since ${since}`);
+
+    const syncedAt = new Date().toISOString();
+    const rows = mailings.map(({ name, ...mailing }) => ({
+      ...mailing,
+      mailing_name: name,
+      organization_id,
+      provider: connector.provider,
+      synced_at: syncedAt,
+    }));
+
+    let stored = 0;
+    for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+      const chunk = rows.slice(i, i + UPSERT_CHUNK_SIZE);
+      const { error } = await supabase
+        .from('email_mailings')
+        .upsert(chunk, { onConflict: 'organization_id,provider,mailing_id' });
+      if (error) {
+        console.error('[SYNC-EMAIL] email_mailings upsert error:', error.message);
+        continue;
+      }
+      stored += chunk.length;
+    }
+
+    await supabase
+      .from('client_api_credentials')
+      .update({
+        last_sync_at: syncedAt,
+        last_sync_status: 'success',
+        last_sync_error: null,
+        sync_error_count: 0,
+      })
+      .eq('organization_id', organization_id)
+      .eq('platform', 'email');
+
+    console.log(`[SYNC-EMAIL] Stored ${stored}/${rows.length} mailings for org ${organization_id}`);
+
+    return jsonResponse({
+      success: true,
+      provider: connector.provider,
+      since,
+      mailings_found: mailings.length,
+      mailings_stored: stored,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const rateLimited = error instanceof EmailConnectorError && error.rateLimited;
+    console.error('[SYNC-EMAIL] Error:', message);
+
+    if (organizationId) {
+      await logJobFailure(supabase, 'sync-email-platforms', message, { organization_id: organizationId });
+
+      const { data: cred } = await supabase
+        .from('client_api_credentials')
+        .select('sync_error_count')
+        .eq('organization_id', organizationId)
+        .eq('platform', 'email')
+        .maybeSingle();
+      await supabase
+        .from('client_api_credentials')
+        .update({
+          last_sync_at: new Date().toISOString(),
+          last_sync_status: 'error',
+          last_sync_error: message,
+          sync_error_count: (cred?.sync_error_count || 0) + 1,
+        })
+        .eq('organization_id', organizationId)
+        .eq('platform', 'email');
+    }
+
+    return jsonResponse({ success: false, error: message, rate_limited: rateLimited }, rateLimited ? 429 : 500);
+  }
+});
@@ -0,0 +1,447 @@
+/**
+ * ================================================================================
+ * SYNC GOOGLE ADS - AGGREGATED METRICS + CLICK IDS
+ * ================================================================================
+ *
+ * Mirrors sync-meta-ads for search and YouTube campaigns:
+ * - Stores campaign / ad group / ad structure and daily metrics in
+ *   google_ads_metrics_daily (cost, conversions, conversion value, video views)
+ * - Stores conversions per conversion action in google_ads_conversions_daily
+ * - Extracts refcodes from ad final URLs into refcode_mappings (platform 'google')
+ * - Captures gclids from click_view into google_ads_clicks so the ActBlue
+ *   webhook can attribute donations that carry a gclid in refcode2
+ *
+ * Like Meta, reporting data is aggregated: never create attribution_touchpoints
+ * here. Per-donor attribution only comes from the donation's own gclid.
+ *
+ * Scheduled via run-scheduled-jobs (sync_google_ads), which picks accounts by
+ * their meta_sync_config tier with get_google_ads_accounts_due_for_sync.
+ * ================================================================================
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
+import { getCorsHeaders, validateAuth, validateCronSecret, userBelongsToOrg, logJobFailure } from "../_shared/security.ts";
+import { parseJsonBody, uuidSchema, isoDateSchema, z } from "../_shared/validators.ts";
+import {
+  GOOGLE_ADS_API_VERSION,
+  buildClickViewQuery,
+  buildConversionsQuery,
+  buildMetricsQuery,
+  clickViewDates,
+  extractRefcodeFromUrl,
+  flattenSearchStream,
+  googleAdsErrorMessage,
+  isRateLimitError,
+  normalizeCustomerId,
+  toClickRow,
+  toMetricRow,
+  type GoogleAdsCredentials,
+  type GoogleAdsLevel,
+  type GoogleAdsMetricRow,
+  type GoogleAdsRow,
+} from "../_shared/googleAds.ts";
+
+const corsHeaders = getCorsHeaders();
+
+const UPSERT_CHUNK_SIZE = 500;
+// Refcodes per .in() lookup, keeping the query string short
+const REFCODE_LOOKUP_CHUNK_SIZE = 200;
+const DEFAULT_RANGE_DAYS = 30;
+// Google Ads reporting goes back ~3 years; keep backfills reasonable
+const MAX_LOOKBACK_DAYS = 730;
+const LEVELS: GoogleAdsLevel[] = ['campaign', 'ad_group', 'ad'];
+
+const bodySchema = z.object({
+  organization_id: uuidSchema,
+  start_date: isoDateSchema.optional(),
+  end_date: isoDateSchema.optional(),
+  mode: z.string().trim().max(30).optional(),
+  // z.coerce.boolean() would read the string "false" as true
+  test_only: z.union([z.boolean(), z.enum(['true', 'false']).transform(v => v === 'true')]).optional(),
+  // Unsaved credentials from CredentialSlideOver's "Test" button
+  credentials: z.record(z.string()).optional(),
+});
+
+class GoogleAdsApiError extends Error {
+  constructor(message: string, readonly rateLimited: boolean) {
+    super(message);
+    this.name = 'GoogleAdsApiError';
+  }
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+async function getAccessToken(credentials: GoogleAdsCredentials): Promise<string> {
+  const clientId = credentials.client_id || Deno.env.get('GOOGLE_ADS_CLIENT_ID');
+  const clientSecret = credentials.client_secret || Deno.env.get('GOOGLE_ADS_CLIENT_SECRET');
+  if (!clientId || !clientSecret) {
+    throw new Error('Google Ads OAuth client id/secret are not configured');
+  }
+
+  const response = await fetch('https://oauth2.googleapis.com/token', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'refresh_token',
+      client_id: clientId,
+      client_secret: clientSecret,
+      refresh_token: credentials.refresh_token,
+    }),
+  });
+  const data = await response.json();
+  if (!response.ok || !data.access_token) {
+    throw new Error(`Google OAuth error: ${data.error_description || data.error || response.status}`);
+  }
+  return data.access_token as string;
+}
+
+/**
+ * Runs a GAQL query with searchStream, retrying RESOURCE_EXHAUSTED with backoff.
+ */
+async function searchStream(
+  credentials: GoogleAdsCredentials,
+  customerId: string,
+  accessToken: string,
+  query: string,
+  maxRetries = 3
+): Promise<GoogleAdsRow[]> {
+  const headers: Record<string, string> = {
+    'Authorization': `Bearer ${accessToken}`,
+    'developer-token': credentials.developer_token,
+    'Content-Type': 'application/json',
+  };
+  const loginCustomerId = normalizeCustomerId(credentials.login_customer_id);
+  if (loginCustomerId) headers['login-customer-id'] = loginCustomerId;
+
+  const url = `https://googleads.googleapis.com/${GOOGLE_ADS_API_VERSION}/customers/${customerId}/googleAds:searchStream`;
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url, { method: 'POST', headers, body: JSON.stringify({ query }) });
+    const body = await response.json().catch(() => null);
+    const errorMessage = response.ok ? googleAdsErrorMessage(body) : (googleAdsErrorMessage(body) || `HTTP ${response.status}`);
+
+    if (!errorMessage) return flattenSearchStream(body);
+
+    const rateLimited = response.status === 429 || isRateLimitError(errorMessage);
+    if (rateLimited && attempt < maxRetries) {
+      const delay = 1000 * Math.pow(2, attempt) + Math.random() * 1000;
+      console.log(`[SYNC-GOOGLE-ADS] Rate limited, retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${maxRetries})`);
+      await new Promise(r => setTimeout(r, delay));
+      continue;
+    }
+    throw new GoogleAdsApiError(`Google Ads API Error: ${errorMessage}`, rateLimited);
+  }
+}
+
+async function upsertInChunks(
+  supabase: ReturnType<typeof createClient>,
+  table: string,
+  rows: Record<string, unknown>[],
+  onConflict: string
+): Promise<number> {
+  let stored = 0;
+  for (let i = 0; i < rows.length; i += UPSERT_CHUNK_SIZE) {
+    const chunk = rows.slice(i, i + UPSERT_CHUNK_SIZE);
+    const { error } = await supabase.from(table).upsert(chunk, { onConflict });
+    if (error) {
+      console.error(`[SYNC-GOOGLE-ADS] ${table} upsert error:`, error.message);
+      continue;
+    }
+    stored += chunk.length;
+  }
+  return stored;
+}
+
+// Refcodes whose existing mapping belongs to another platform (or predates platform tags)
+async function refcodesMappedElsewhere(
+  supabase: ReturnType<typeof createClient>,
+  organizationId: string,
+  refcodes: string[]
+): Promise<Set<string>> {
+  const foreign = new Set<string>();
+  for (let i = 0; i < refcodes.length; i += REFCODE_LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('refcode_mappings')
+      .select('refcode, platform')
+      .eq('organization_id', organizationId)
+      .in('refcode', refcodes.slice(i, i + REFCODE_LOOKUP_CHUNK_SIZE));
+    if (error) throw new Error(`refcode_mappings lookup failed: ${error.message}`);
+    for (const row of data || []) {
+      if (row.platform !== 'google') foreign.add(row.refcode);
+    }
+  }
+  return foreign;
+}
+
+// Structure rows come from the same reports as metrics, one per entity
+function structureRows(level: GoogleAdsLevel, rows: GoogleAdsRow[], organizationId: string, customerId: string) {
+  const byId = new Map<string, Record<string, unknown>>();
+  for (const row of rows) {
+    if (level === 'campaign' && row.campaign?.id) {
+      byId.set(row.campaign.id, {
+        organization_id: organizationId,
+        customer_id: customerId,
+        campaign_id: row.campaign.id,
+        campaign_name: row.campaign.name ?? null,
+        status: row.campaign.status ?? null,
+        channel_type: row.campaign.advertisingChannelType ?? null,
+      });
+    } else if (level === 'ad_group' && row.adGroup?.id && row.campaign?.id) {
+      byId.set(row.adGroup.id, {
+        organization_id: organizationId,
+        campaign_id: row.campaign.id,
+        ad_group_id: row.adGroup.id,
+        ad_group_name: row.adGroup.name ?? null,
+        status: row.adGroup.status ?? null,
+      });
+    } else if (level === 'ad' && row.adGroupAd?.ad?.id && row.adGroup?.id && row.campaign?.id) {
+      const finalUrl = row.adGroupAd.ad.finalUrls?.[0] ?? null;
+      byId.set(row.adGroupAd.ad.id, {
+        organization_id: organizationId,
+        campaign_id: row.campaign.id,
+        ad_group_id: row.adGroup.id,
+        ad_id: row.adGroupAd.ad.id,
+        ad_name: row.adGroupAd.ad.name ?? null,
+        ad_type: row.adGroupAd.ad.type ?? null,
+        final_url: finalUrl,
+        refcode: extractRefcodeFromUrl(finalUrl),
+        status: row.adGroupAd.status ?? null,
+      });
+    }
+  }
+  return [...byId.values()];
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+  let organizationId: string | null = null;
+
+  try {
+    const parsed = await parseJsonBody(req, bodySchema, { allowEmpty: false });
+    if (!parsed.ok) {
+      return jsonResponse({ error: parsed.error, details: parsed.details }, 400);
+    }
+    const { organization_id, start_date, end_date, test_only, credentials: formCredentials } = parsed.data;
+
+    // --- SECURITY: cron secret, admin, or a member of the org ---
+    let authMethod = 'CRON_SECRET';
+    let isOrgMember = false;
+    if (!validateCronSecret(req)) {
+      const auth = await validateAuth(req, supabase);
+      if (!auth || (!auth.isAdmin && !await userBelongsToOrg(supabase, auth.user.id, organization_id))) {
+        return jsonResponse({ error: 'Unauthorized - requires CRON_SECRET, admin access, or org membership' }, 401);
+      }
+      authMethod = auth.isAdmin ? 'ADMIN_JWT' : 'USER_JWT';
+      isOrgMember = !auth.isAdmin;
+    }
+    organizationId = organization_id;
+    console.log(`[SYNC-GOOGLE-ADS] Starting for org ${organization_id} (auth: ${authMethod}${test_only ? ', test only' : ''})`);
+
+    const { data: credData } = await supabase
+      .from('client_api_credentials')
+      .select('encrypted_credentials')
+      .eq('organization_id', organization_id)
+      .eq('platform', 'google_ads')
+      .eq('is_active', true)
+      .maybeSingle();
+
+    // Form values win over saved ones so partial edits can be tested before saving.
+    // Only admins may point the sync at a different account; members use the saved ids.
+    const overrides = Object.entries(formCredentials || {}).filter(([key, v]) =>
+      v?.trim() && !(isOrgMember && (key === 'customer_id' || key === 'login_customer_id'))
+    );
+    const credentials = {
+      ...((credData?.encrypted_credentials as Record<string, string> | null) || {}),
+      ...Object.fromEntries(overrides),
+    } as unknown as GoogleAdsCredentials;
+
+    if (!credentials.developer_token || !credentials.refresh_token) {
+      if (test_only) {
+        return jsonResponse({ error: 'Developer token and refresh token are required' }, 400);
+      }
+      console.log(`[SYNC-GOOGLE-ADS] No Google Ads credentials for org ${organization_id} - skipping sync`);
+      return jsonResponse({
+        success: true,
+        skipped: true,
+        message: 'No Google Ads credentials configured for this organization',
+        metrics_stored: 0,
+      });
+    }
+
+    const customerId = normalizeCustomerId(credentials.customer_id);
+    if (!customerId) {
+      return jsonResponse({ error: 'Google Ads customer ID must be 10 digits (e.g. 123-456-7890)' }, 400);
+    }
+
+    const accessToken = await getAccessToken(credentials);
+
+    if (test_only) {
+      const rows = await searchStream(credentials, customerId, accessToken,
+        'SELECT customer.id, customer.descriptive_name FROM customer LIMIT 1');
+      return jsonResponse({ success: true, test_only: true, customer_found: rows.length > 0 });
+    }
+
+    // --- DATE RANGE ---
+    const today = toDateString(new Date());
+    const defaultStart = new Date();
+    defaultStart.setDate(defaultStart.getDate() - DEFAULT_RANGE_DAYS);
+    const minStart = new Date();
+    minStart.setDate(minStart.getDate() - MAX_LOOKBACK_DAYS);
+
+    let since = start_date || toDateString(defaultStart);
+    const until = end_date || today;
+    if (since < toDateString(minStart)) {
+      console.log(`[DATE VALIDATION] Clamping start_date ${since} to ${toDateString(minStart)}`);
+      since = toDateString(minStart);
+    }
+    console.log(`[SYNC-GOOGLE-ADS] Fetching ${since} to ${until} for customer ${customerId}`);
+
+    // --- METRICS + STRUCTURE (campaign, ad group, ad) ---
+    const structureTables: Record<GoogleAdsLevel, { table: string; onConflict: string }> = {
+      campaign: { table: 'google_ads_campaigns', onConflict: 'organization_id,campaign_id' },
+      ad_group: { table: 'google_ads_ad_groups', onConflict: 'organization_id,ad_group_id' },
+      ad: { table: 'google_ads_ads', onConflict: 'organization_id,ad_id' },
+    };
+    const counts: Record<string, number> = {};
+    let metricsStored = 0;
+    let latestDataDate: string | null = null;
+    let adStructure: Record<string, unknown>[] = [];
+
+    for (const level of LEVELS) {
+      const rows = await searchStream(credentials, customerId, accessToken, buildMetricsQuery(level, since, until));
+
+      const structure = structureRows(level, rows, organization_id, customerId);
+      await upsertInChunks(supabase, structureTables[level].table, structure, structureTables[level].onConflict);
+      counts[level] = structure.length;
+      if (level === 'ad') adStructure = structure;
+
+      const metricRows = rows
+        .map(row => toMetricRow(level, row))
+        .filter((row): row is GoogleAdsMetricRow => row !== null)
+        .map(row => ({ ...row, organization_id, customer_id: customerId, synced_at: new Date().toISOString() }));
+      metricsStored += await upsertInChunks(supabase, 'google_ads_metrics_daily', metricRows, 'organization_id,level,entity_id,date');
+
+      for (const row of metricRows) {
+        if (!latestDataDate || row.date > latestDataDate) latestDataDate = row.date;
+      }
+      console.log(`[SYNC-GOOGLE-ADS] ${level}: ${structure.length} entities, ${metricRows.length} daily rows`);
+    }
+
+    // --- REFCODE MAPPINGS from ad final URLs ---
+    const now = new Date().toISOString();
+    const campaignNames = new Map<string, string | null>();
+    {
+      const { data: campaigns } = await supabase
+        .from('google_ads_campaigns')
+        .select('campaign_id, campaign_name')
+        .eq('organization_id', organization_id);
+      for (const c of campaigns || []) campaignNames.set(c.campaign_id, c.campaign_name);
+    }
+    // One mapping per refcode; the first ad using it wins
+    const refcodeRowsByCode = new Map<string, Record<string, unknown>>();
+    for (const ad of adStructure) {
+      const refcode = ad.refcode as string | null;
+      if (!refcode || refcodeRowsByCode.has(refcode)) continue;
+      refcodeRowsByCode.set(refcode, {
+        organization_id,
+        refcode,
+        platform: 'google',
+        campaign_id: ad.campaign_id,
+        campaign_name: campaignNames.get(ad.campaign_id as string) ?? null,
+        ad_id: ad.ad_id,
+        ad_name: ad.ad_name,
+        landing_page: ad.final_url,
+        updated_at: now,
+      });
+    }
+    // A refcode already mapped by Meta, SMS or email keeps that mapping
+    const foreignRefcodes = await refcodesMappedElsewhere(supabase, organization_id, [...refcodeRowsByCode.keys()]);
+    if (foreignRefcodes.size > 0) {
+      console.log(`[SYNC-GOOGLE-ADS] Skipping ${foreignRefcodes.size} refcodes already mapped to another platform`);
+    }
+    const refcodeRows = [...refcodeRowsByCode.values()].filter(row => !foreignRefcodes.has(row.refcode as string));
+    const refcodesStored = await upsertInChunks(supabase, 'refcode_mappings', refcodeRows, 'organization_id,refcode');
+
+    // --- CONVERSIONS by action ---
+    const conversionRows = (await searchStream(credentials, customerId, accessToken, buildConversionsQuery(since, until)))
+      .filter(row => row.campaign?.id && row.segments?.date && row.segments?.conversionActionName)
+      .map(row => ({
+        organization_id,
+        campaign_id: row.campaign!.id,
+        conversion_action: row.segments!.conversionActionName,
+        date: row.segments!.date,
+        conversions: Number(row.metrics?.conversions || 0),
+        conversion_value: Number(row.metrics?.conversionsValue || 0),
+        synced_at: now,
+      }));
+    const conversionsStored = await upsertInChunks(
+      supabase, 'google_ads_conversions_daily', conversionRows, 'organization_id,campaign_id,conversion_action,date'
+    );
+
+    // --- GCLIDS (click_view is one day per query, last 90 days only) ---
+    let clicksStored = 0;
+    for (const date of clickViewDates(since, until, today)) {
+      const clickRows = (await searchStream(credentials, customerId, accessToken, buildClickViewQuery(date)))
+        .map(toClickRow)
+        .filter((row): row is NonNullable<ReturnType<typeof toClickRow>> => row !== null)
+        .map(row => ({ ...row, organization_id }));
+      clicksStored += await upsertInChunks(supabase, 'google_ads_clicks', clickRows, 'organization_id,gclid');
+    }
+
+    await supabase.rpc('update_google_ads_sync_status', {
+      p_organization_id: organization_id,
+      p_status: metricsStored > 0 ? 'success' : 'success_no_data',
+      p_latest_data_date: latestDataDate,
+      p_error: null,
+      p_is_rate_limited: false,
+    });
+
+    console.log(`[SYNC-GOOGLE-ADS] Complete: ${metricsStored} metrics, ${conversionsStored} conversion rows, ${clicksStored} gclids, ${refcodesStored} refcodes`);
+
+    return jsonResponse({
+      success: true,
+      customer_id: customerId,
+      campaigns: counts.campaign || 0,
+      ad_groups: counts.ad_group || 0,
+      ads: counts.ad || 0,
+      metrics_stored: metricsStored,
+      conversions_stored: conversionsStored,
+      clicks_stored: clicksStored,
+      refcodes_mapped: refcodesStored,
+      date_range: { since, until, latest: latestDataDate },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const rateLimited = error instanceof GoogleAdsApiError && error.rateLimited;
+    console.error('[SYNC-GOOGLE-ADS] Error:', message);
+
+    if (organizationId) {
+      await logJobFailure(supabase, 'sync-google-ads', message, { organization_id: organizationId });
+      await supabase.rpc('update_google_ads_sync_status', {
+        p_organization_id: organizationId,
+        p_status: rateLimited ? 'rate_limited' : 'error',
+        p_error: message,
+        p_is_rate_limited: rateLimited,
+      });
+    }
+
+    return jsonResponse({ success: false, error: message, rate_limited: rateLimited }, rateLimited ? 429 : 500);
+  }
+});
@@ -0,0 +1,665 @@
+/**
+ * ================================================================================
+ * SYNC SEGMENT AUDIENCE
+ * ================================================================================
+ *
+ * Pushes a saved donor segment to a Meta Custom Audience or a Switchboard
+ * phone list, and keeps it current as segment membership changes.
+ *
+ * Actions:
+ * - push:       create the remote audience (if needed) and sync membership
+ * - resync:     re-evaluate the segment and apply the add/remove diff
+ * - unsync:     stop syncing, optionally deleting the remote audience
+ * - resync_all: (scheduled) resync every auto_sync audience
+ *
+ * Meta rows are SHA-256 hashed with the capi-utils normalizers. The last
+ * pushed rows are kept in segment_audience_sync_members (service role only)
+ * so removals can be sent without re-reading donor PII.
+ * ================================================================================
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
+import { parseJsonBody, uuidSchema, z } from "../_shared/validators.ts";
+import { getCorsHeaders, validateAuth, validateCronSecret, userBelongsToOrg } from "../_shared/security.ts";
+import { META_CAPI_VERSION } from "../_shared/capi-utils.ts";
+import {
+  chunkArray,
+  diffAudienceMembers,
+  estimateMatchRate,
+  prepareAudienceMembers,
+  META_AUDIENCE_BATCH_SIZE,
+  META_AUDIENCE_SCHEMA,
+  SWITCHBOARD_BATCH_SIZE,
+  type AudienceDestination,
+  type AudienceMember,
+  type SegmentMember,
+} from "../_shared/audienceSync.ts";
+
+const corsHeaders = getCorsHeaders();
+
+const SEGMENT_PAGE_SIZE = 10000;
+const MEMBER_WRITE_BATCH_SIZE = 1000;
+const SWITCHBOARD_API_BASE = 'https://api.oneswitchboard.com/v1';
+
+const bodySchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('push'),
+    organization_id: uuidSchema,
+    segment_id: uuidSchema,
+    destination: z.enum(['meta_custom_audience', 'switchboard_list']),
+    audience_name: z.string().trim().min(1).max(200).optional(),
+    auto_sync: z.boolean().optional(),
+  }),
+  z.object({
+    action: z.literal('resync'),
+    sync_id: uuidSchema,
+  }),
+  z.object({
+    action: z.literal('unsync'),
+    sync_id: uuidSchema,
+    delete_remote: z.boolean().optional(),
+  }),
+  z.object({
+    action: z.literal('resync_all'),
+  }),
+]);
+
+interface SyncRow {
+  id: string;
+  organization_id: string;
+  segment_id: string;
+  destination: AudienceDestination;
+  external_id: string | null;
+  external_name: string | null;
+  status: string;
+  auto_sync: boolean;
+}
+
+interface SyncResult {
+  sync_id: string;
+  status: 'success' | 'partial' | 'error';
+  segment_size: number;
+  eligible_count: number;
+  added_count: number;
+  removed_count: number;
+  rejected_count: number;
+  estimated_match_rate: number;
+  error?: string;
+}
+
+interface MetaCredentials {
+  access_token: string;
+  ad_account_id: string;
+}
+
+interface SwitchboardCredentials {
+  api_key: string;
+  account_id: string;
+}
+
+// ============================================================================
+// Destination Clients
+// ============================================================================
+
+interface DestinationClient {
+  createAudience(name: string, description: string): Promise<string>;
+  // Returns the number of rows the destination rejected
+  addMembers(externalId: string, members: string[][]): Promise<number>;
+  removeMembers(externalId: string, members: string[][]): Promise<number>;
+  deleteAudience(externalId: string): Promise<void>;
+}
+
+// Fields read from Meta Graph / Switchboard responses
+interface DestinationApiResponse {
+  id?: string | number;
+  num_invalid_entries?: number;
+  data?: { id?: string | number; invalid_count?: number };
+  error?: { message?: string };
+  errors?: Array<{ description?: string }>;
+  raw?: string;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function readJson(response: Response, context: string): Promise<DestinationApiResponse> {
+  const text = await response.text();
+  let data: DestinationApiResponse = {};
+  try {
+    data = text ? JSON.parse(text) : {};
+  } catch {
+    data = { raw: text };
+  }
+  if (!response.ok) {
+    const message = data?.error?.message || data?.errors?.[0]?.description || text || response.statusText;
+    throw new Error(`${context} failed (${response.status}): ${message}`);
+  }
+  return data;
+}
+
+function metaClient(credentials: MetaCredentials): DestinationClient {
+  const base = `https://graph.facebook.com/${META_CAPI_VERSION}`;
+  const adAccountId = credentials.ad_account_id.startsWith('act_')
+    ? credentials.ad_account_id
+    : `act_${credentials.ad_account_id}`;
+
+  const sendUsers = async (method: 'POST' | 'DELETE', audienceId: string, rows: string[][]) => {
+    let rejected = 0;
+    for (const batch of chunkArray(rows, META_AUDIENCE_BATCH_SIZE)) {
+      const response = await fetch(`${base}/${audienceId}/users`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          access_token: credentials.access_token,
+          payload: { schema: META_AUDIENCE_SCHEMA, data: batch },
+        }),
+      });
+      const data = await readJson(response, `Meta audience ${method === 'POST' ? 'upload' : 'removal'}`);
+      rejected += Number(data?.num_invalid_entries) || 0;
+    }
+    return rejected;
+  };
+
+  return {
+    async createAudience(name, description) {
+      const response = await fetch(`${base}/${adAccountId}/customaudiences`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          access_token: credentials.access_token,
+          name,
+          description,
+          subtype: 'CUSTOM',
+          customer_file_source: 'USER_PROVIDED_ONLY',
+        }),
+      });
+      const data = await readJson(response, 'Meta custom audience creation');
+      return String(data.id);
+    },
+    addMembers: (audienceId, rows) => sendUsers('POST', audienceId, rows),
+    removeMembers: (audienceId, rows) => sendUsers('DELETE', audienceId, rows),
+    async deleteAudience(audienceId) {
+      const response = await fetch(
+        `${base}/${audienceId}?access_token=${encodeURIComponent(credentials.access_token)}`,
+        { method: 'DELETE' }
+      );
+      await readJson(response, 'Meta custom audience deletion');
+    },
+  };
+}
+
+function switchboardClient(credentials: SwitchboardCredentials): DestinationClient {
+  const headers = {
+    'Authorization': `Basic ${btoa(`${credentials.account_id}:${credentials.api_key}`)}`,
+    'Content-Type': 'application/json',
+  };
+
+  const sendNumbers = async (method: 'POST' | 'DELETE', listId: string, rows: string[][]) => {
+    let rejected = 0;
+    for (const batch of chunkArray(rows.map(row => row[0]), SWITCHBOARD_BATCH_SIZE)) {
+      const response = await fetch(`${SWITCHBOARD_API_BASE}/phone-lists/${listId}/phone-numbers`, {
+        method,
+        headers,
+        body: JSON.stringify({ phone_numbers: batch }),
+      });
+      const data = await readJson(response, `Switchboard phone list ${method === 'POST' ? 'upload' : 'removal'}`);
+      rejected += Number(data?.data?.invalid_count) || 0;
+    }
+    return rejected;
+  };
+
+  return {
+    async createAudience(name, description) {
+      const response = await fetch(`${SWITCHBOARD_API_BASE}/phone-lists`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ name, description }),
+      });
+      const data = await readJson(response, 'Switchboard phone list creation');
+      return String(data?.data?.id ?? data?.id);
+    },
+    addMembers: (listId, rows) => sendNumbers('POST', listId, rows),
+    removeMembers: (listId, rows) => sendNumbers('DELETE', listId, rows),
+    async deleteAudience(listId) {
+      const response = await fetch(`${SWITCHBOARD_API_BASE}/phone-lists/${listId}`, { method: 'DELETE', headers });
+      await readJson(response, 'Switchboard phone list deletion');
+    },
+  };
+}
+
+async function getDestinationClient(
+  supabase: SupabaseClient,
+  organizationId: string,
+  destination: AudienceDestination
+): Promise<DestinationClient> {
+  const platform = destination === 'meta_custom_audience' ? 'meta' : 'switchboard';
+  const { data: credData, error } = await supabase
+    .from('client_api_credentials')
+    .select('encrypted_credentials')
+    .eq('organization_id', organizationId)
+    .eq('platform', platform)
+    .eq('is_active', true)
+    .single();
+
+  if (error || !credData) {
+    throw new Error(`${platform === 'meta' ? 'Meta' : 'Switchboard'} credentials not found or inactive`);
+  }
+
+  if (destination === 'meta_custom_audience') {
+    const credentials = credData.encrypted_credentials as unknown as MetaCredentials;
+    if (!credentials.access_token || !credentials.ad_account_id) {
+      throw new Error('Invalid credentials: access_token and ad_account_id are required');
+    }
+    return metaClient(credentials);
+  }
+
+  const credentials = credData.encrypted_credentials as unknown as SwitchboardCredentials;
+  if (!credentials.api_key || !credentials.account_id) {
+    throw new Error('Invalid credentials: api_key and account_id are required');
+  }
+  return switchboardClient(credentials);
+}
+
+// ============================================================================
+// Segment Membership
+// ============================================================================
+
+async function fetchSegmentMembers(
+  supabase: SupabaseClient,
+  organizationId: string,
+  filters: unknown
+): Promise<SegmentMember[]> {
+  const members: SegmentMember[] = [];
+  let offset = 0;
+  let totalCount = Infinity;
+
+  while (offset < totalCount) {
+    const { data, error } = await supabase.rpc('query_donor_segment', {
+      _organization_id: organizationId,
+      _filters: filters,
+      _limit: SEGMENT_PAGE_SIZE,
+      _offset: offset,
+    });
+    if (error) throw new Error(`Segment query failed: ${error.message}`);
+
+    const page = data as { total_count: number; donors: SegmentMember[] };
+    totalCount = page.total_count;
+    if (!page.donors?.length) break;
+    members.push(...page.donors);
+    offset += page.donors.length;
+  }
+
+  return members;
+}
+
+async function loadSyncedMembers(supabase: SupabaseClient, syncId: string): Promise<Map<string, string[]>> {
+  const synced = new Map<string, string[]>();
+  const pageSize = 1000;
+  let from = 0;
+
+  while (true) {
+    const { data, error } = await supabase
+      .from('segment_audience_sync_members')
+      .select('member_key, payload')
+      .eq('sync_id', syncId)
+      .range(from, from + pageSize - 1);
+    if (error) throw new Error(`Failed to load synced members: ${error.message}`);
+    for (const row of data || []) synced.set(row.member_key, row.payload);
+    if (!data || data.length < pageSize) break;
+    from += pageSize;
+  }
+
+  return synced;
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+async function writeLog(
+  supabase: SupabaseClient,
+  sync: SyncRow,
+  action: 'push' | 'resync' | 'unsync',
+  triggeredBy: 'manual' | 'scheduled',
+  userId: string | null,
+  startedAt: string,
+  result: Partial<SyncResult> & { status: SyncResult['status'] }
+) {
+  const { error } = await supabase.from('segment_audience_sync_log').insert({
+    organization_id: sync.organization_id,
+    segment_id: sync.segment_id,
+    sync_id: sync.id,
+    destination: sync.destination,
+    action,
+    triggered_by: triggeredBy,
+    status: result.status,
+    segment_size: result.segment_size ?? 0,
+    eligible_count: result.eligible_count ?? 0,
+    added_count: result.added_count ?? 0,
+    removed_count: result.removed_count ?? 0,
+    rejected_count: result.rejected_count ?? 0,
+    estimated_match_rate: result.estimated_match_rate ?? null,
+    error_message: result.error ?? null,
+    created_by: userId,
+    started_at: startedAt,
+    completed_at: new Date().toISOString(),
+  });
+  if (error) console.error('[AUDIENCE SYNC] Failed to write sync log:', error);
+}
+
+async function syncAudience(
+  supabase: SupabaseClient,
+  sync: SyncRow,
+  action: 'push' | 'resync',
+  triggeredBy: 'manual' | 'scheduled',
+  userId: string | null
+): Promise<SyncResult> {
+  const startedAt = new Date().toISOString();
+  let segmentSize = 0;
+
+  await supabase.from('segment_audience_syncs').update({ status: 'syncing' }).eq('id', sync.id);
+
+  try {
+    const { data: segment, error: segmentError } = await supabase
+      .from('saved_donor_segments')
+      .select('id, name, filters')
+      .eq('id', sync.segment_id)
+      .single();
+    if (segmentError || !segment) throw new Error('Segment not found');
+
+    const client = await getDestinationClient(supabase, sync.organization_id, sync.destination);
+
+    // Create the remote audience on first push (or after an unsync deleted it)
+    let externalId = sync.external_id;
+    let externalName = sync.external_name;
+    if (!externalId) {
+      externalName = externalName || `${segment.name} (Segment)`;
+      externalId = await client.createAudience(externalName, `Synced from donor segment "${segment.name}"`);
+      console.log(`[AUDIENCE SYNC] Created ${sync.destination} ${externalId} for segment ${segment.id}`);
+      // Save right away so a failed upload below doesn't orphan the remote audience
+      await supabase.from('segment_audience_syncs')
+        .update({ external_id: externalId, external_name: externalName })
+        .eq('id', sync.id);
+    }
+
+    const members = await fetchSegmentMembers(supabase, sync.organization_id, segment.filters);
+    segmentSize = members.length;
+    const current = await prepareAudienceMembers(sync.destination, members);
+    const previous = sync.external_id ? await loadSyncedMembers(supabase, sync.id) : new Map<string, string[]>();
+    const { added, removed } = diffAudienceMembers(previous.keys(), current);
+
+    console.log(`[AUDIENCE SYNC] ${sync.id}: ${segmentSize} members, ${current.size} eligible, +${added.length} -${removed.length}`);
+
+    let rejected = 0;
+    if (added.length > 0) {
+      rejected += await client.addMembers(externalId, added.map(m => m.payload));
+    }
+    if (removed.length > 0) {
+      rejected += await client.removeMembers(externalId, removed.map(key => previous.get(key)!));
+    }
+
+    // Record what is now in the remote audience
+    await persistMemberDiff(supabase, sync.id, added, removed);
+
+    const matchRate = estimateMatchRate(current.values(), segmentSize);
+    const result: SyncResult = {
+      sync_id: sync.id,
+      status: rejected > 0 ? 'partial' : 'success',
+      segment_size: segmentSize,
+      eligible_count: current.size,
+      added_count: added.length,
+      removed_count: removed.length,
+      rejected_count: rejected,
+      estimated_match_rate: Number(matchRate.toFixed(4)),
+    };
+
+    await supabase.from('segment_audience_syncs').update({
+      external_id: externalId,
+      external_name: externalName,
+      status: 'active',
+      segment_size: segmentSize,
+      member_count: current.size,
+      estimated_match_rate: result.estimated_match_rate,
+      last_synced_at: new Date().toISOString(),
+      last_error: null,
+    }).eq('id', sync.id);
+
+    await writeLog(supabase, sync, action, triggeredBy, userId, startedAt, result);
+    return result;
+  } catch (err) {
+    console.error(`[AUDIENCE SYNC] Sync ${sync.id} failed:`, err);
+    const error = { message: errorMessage(err) };
+    const result: SyncResult = {
+      sync_id: sync.id,
+      status: 'error',
+      segment_size: segmentSize,
+      eligible_count: 0,
+      added_count: 0,
+      removed_count: 0,
+      rejected_count: 0,
+      estimated_match_rate: 0,
+      error: error.message,
+    };
+    await supabase.from('segment_audience_syncs').update({
+      status: 'error',
+      last_error: error.message,
+    }).eq('id', sync.id);
+    await writeLog(supabase, sync, action, triggeredBy, userId, startedAt, result);
+    return result;
+  }
+}
+
+async function persistMemberDiff(
+  supabase: SupabaseClient,
+  syncId: string,
+  added: AudienceMember[],
+  removed: string[]
+) {
+  const syncedAt = new Date().toISOString();
+  for (const batch of chunkArray(added, MEMBER_WRITE_BATCH_SIZE)) {
+    const { error } = await supabase.from('segment_audience_sync_members').upsert(
+      batch.map(m => ({ sync_id: syncId, member_key: m.key, payload: m.payload, synced_at: syncedAt })),
+      { onConflict: 'sync_id,member_key' }
+    );
+    if (error) throw new Error(`Failed to record synced members: ${error.message}`);
+  }
+  for (const batch of chunkArray(removed, MEMBER_WRITE_BATCH_SIZE)) {
+    const { error } = await supabase
+      .from('segment_audience_sync_members')
+      .delete()
+      .eq('sync_id', syncId)
+      .in('member_key', batch);
+    if (error) throw new Error(`Failed to remove synced members: ${error.message}`);
+  }
+}
+
+async function unsyncAudience(
+  supabase: SupabaseClient,
+  sync: SyncRow,
+  deleteRemote: boolean,
+  userId: string | null
+): Promise<SyncResult> {
+  const startedAt = new Date().toISOString();
+  const previous = await loadSyncedMembers(supabase, sync.id);
+  let error: string | undefined;
+
+  if (deleteRemote && sync.external_id) {
+    try {
+      const client = await getDestinationClient(supabase, sync.organization_id, sync.destination);
+      await client.deleteAudience(sync.external_id);
+    } catch (err) {
+      // Still stop syncing locally; the log records that the remote audience remains
+      console.error(`[AUDIENCE SYNC] Failed to delete remote audience for ${sync.id}:`, err);
+      error = errorMessage(err);
+    }
+  }
+
+  const remoteDeleted = deleteRemote && !error;
+  await supabase.from('segment_audience_sync_members').delete().eq('sync_id', sync.id);
+  await supabase.from('segment_audience_syncs').update({
+    status: 'unsynced',
+    auto_sync: false,
+    member_count: 0,
+    // Membership is no longer tracked, so a later push starts a fresh audience
+    external_id: null,
+    last_error: error ?? null,
+  }).eq('id', sync.id);
+
+  const result: SyncResult = {
+    sync_id: sync.id,
+    status: error ? 'partial' : 'success',
+    segment_size: 0,
+    eligible_count: 0,
+    added_count: 0,
+    removed_count: remoteDeleted ? previous.size : 0,
+    rejected_count: 0,
+    estimated_match_rate: 0,
+    error,
+  };
+  await writeLog(supabase, sync, 'unsync', 'manual', userId, startedAt, result);
+  return result;
+}
+
+// ============================================================================
+// Handler
+// ============================================================================
+
+const SYNC_COLUMNS = 'id, organization_id, segment_id, destination, external_id, external_name, status, auto_sync';
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const parsedBody = await parseJsonBody(req, bodySchema, { allowEmpty: false });
+    if (!parsedBody.ok) {
+      return jsonResponse({ error: parsedBody.error, details: parsedBody.details }, 400);
+    }
+    const body = parsedBody.data;
+
+    // Scheduled re-sync of every auto_sync audience
+    if (body.action === 'resync_all') {
+      if (!validateCronSecret(req)) {
+        return jsonResponse({ error: 'Unauthorized - requires CRON_SECRET' }, 401);
+      }
+
+      const { data: syncs, error } = await supabase
+        .from('segment_audience_syncs')
+        .select(SYNC_COLUMNS)
+        .eq('auto_sync', true)
+        .in('status', ['active', 'error']);
+      if (error) throw error;
+
+      const results: SyncResult[] = [];
+      for (const sync of (syncs || []) as SyncRow[]) {
+        results.push(await syncAudience(supabase, sync, 'resync', 'scheduled', null));
+      }
+
+      return jsonResponse({
+        success: true,
+        processed: results.length,
+        failed: results.filter(r => r.status === 'error').length,
+        results,
+      });
+    }
+
+    // User actions: org member or admin
+    const auth = await validateAuth(req, supabase);
+    if (!auth) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+    const userId: string = auth.user.id;
+
+    let sync: SyncRow;
+    if (body.action === 'push') {
+      if (!auth.isAdmin && !(await userBelongsToOrg(supabase, userId, body.organization_id))) {
+        return jsonResponse({ error: 'Access denied to organization data' }, 403);
+      }
+
+      const { data: segment } = await supabase
+        .from('saved_donor_segments')
+        .select('id')
+        .eq('id', body.segment_id)
+        .eq('organization_id', body.organization_id)
+        .maybeSingle();
+      if (!segment) {
+        return jsonResponse({ error: 'Segment not found' }, 404);
+      }
+
+      const { data: existing } = await supabase
+        .from('segment_audience_syncs')
+        .select(SYNC_COLUMNS)
+        .eq('segment_id', body.segment_id)
+        .eq('destination', body.destination)
+        .maybeSingle();
+
+      if (existing) {
+        const { data: updated, error } = await supabase
+          .from('segment_audience_syncs')
+          .update({
+            auto_sync: body.auto_sync ?? true,
+            ...(body.audience_name && !existing.external_id ? { external_name: body.audience_name } : {}),
+          })
+          .eq('id', existing.id)
+          .select(SYNC_COLUMNS)
+          .single();
+        if (error) throw error;
+        sync = updated as SyncRow;
+      } else {
+        const { data: created, error } = await supabase
+          .from('segment_audience_syncs')
+          .insert({
+            organization_id: body.organization_id,
+            segment_id: body.segment_id,
+            destination: body.destination,
+            external_name: body.audience_name ?? null,
+            auto_sync: body.auto_sync ?? true,
+            created_by: userId,
+          })
+          .select(SYNC_COLUMNS)
+          .single();
+        if (error) throw error;
+        sync = created as SyncRow;
+      }
+    } else {
+      const { data: existing } = await supabase
+        .from('segment_audience_syncs')
+        .select(SYNC_COLUMNS)
+        .eq('id', body.sync_id)
+        .maybeSingle();
+      if (!existing) {
+        return jsonResponse({ error: 'Sync not found' }, 404);
+      }
+      if (!auth.isAdmin && !(await userBelongsToOrg(supabase, userId, existing.organization_id))) {
+        return jsonResponse({ error: 'Access denied to organization data' }, 403);
+      }
+      sync = existing as SyncRow;
+    }
+
+    if (body.action === 'unsync') {
+      const result = await unsyncAudience(supabase, sync, body.delete_remote ?? true, userId);
+      return jsonResponse({ success: result.status !== 'error', ...result });
+    }
+
+    const result = await syncAudience(supabase, sync, body.action, 'manual', userId);
+    return jsonResponse({ success: result.status !== 'error', ...result }, result.status === 'error' ? 502 : 200);
+  } catch (error) {
+    console.error('[AUDIENCE SYNC] Error:', error);
+    return jsonResponse({ error: errorMessage(error) }, 500);
+  }
+});
@@ -0,0 +1,172 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
+import { getCorsHeaders, validateAuth, userBelongsToOrg } from "../_shared/security.ts";
+import { z, parseJsonBody, uuidSchema } from "../_shared/validators.ts";
+import {
+  DEFAULT_THREAT_TAXONOMY,
+  THREAT_SOURCE_TYPES,
+  normalizeTaxonomy,
+  scoreThreat,
+} from "../_shared/threatTaxonomy.ts";
+import { loadOrganizationTaxonomy, rescoreOrganization } from "../_shared/threatTaxonomyStore.ts";
+
+/**
+ * Reads and publishes an organization's threat taxonomy for the settings
+ * editor:
+ * - get: the active taxonomy (or the default) plus version history
+ * - preview: score sample text with a draft, before publishing
+ * - publish: validate and save a draft as the next version, then re-score
+ *   the org's recent state actions and executive orders (bills follow on
+ *   their next sync)
+ * - revert: go back to the default taxonomy
+ *
+ * Publish and revert re-score every org item, so like other org-shared
+ * writes they need an owner, admin or manager role.
+ */
+
+const corsHeaders = getCorsHeaders();
+
+const HISTORY_LIMIT = 20;
+const EDITOR_ROLES = ['owner', 'admin', 'manager'];
+
+const bodySchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('get'), organization_id: uuidSchema }),
+  z.object({
+    action: z.literal('preview'),
+    organization_id: uuidSchema,
+    taxonomy: z.unknown(),
+    text: z.string().min(1).max(20000),
+    source_type: z.enum(['state_action', 'executive_order', 'bill']).optional(),
+  }),
+  z.object({
+    action: z.literal('publish'),
+    organization_id: uuidSchema,
+    taxonomy: z.unknown(),
+    notes: z.string().trim().max(500).optional(),
+  }),
+  z.object({ action: z.literal('revert'), organization_id: uuidSchema }),
+]);
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Same check as the custom_dashboards policies, run as the caller so auth.uid() resolves
+async function canEditTaxonomy(req: Request, organizationId: string): Promise<boolean> {
+  const userClient = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+  );
+
+  const [hasRole, belongsToOrg, isAdminOrManager] = await Promise.all([
+    userClient.rpc('has_org_role', { p_organization_id: organizationId, p_roles: EDITOR_ROLES }),
+    userClient.rpc('user_belongs_to_organization', { _organization_id: organizationId }),
+    userClient.rpc('is_org_admin_or_manager'),
+  ]);
+  return hasRole.data === true || (belongsToOrg.data === true && isAdminOrManager.data === true);
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    );
+
+    const authResult = await validateAuth(req, supabase);
+    if (!authResult) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const parsed = await parseJsonBody(req, bodySchema);
+    if (!parsed.ok) {
+      return jsonResponse({ error: parsed.error, details: parsed.details }, 400);
+    }
+    const body = parsed.data;
+
+    const canAccessOrg = authResult.isAdmin || await userBelongsToOrg(supabase, authResult.user.id, body.organization_id);
+    if (!canAccessOrg) {
+      return jsonResponse({ error: 'Forbidden' }, 403);
+    }
+
+    if ((body.action === 'publish' || body.action === 'revert') &&
+        !authResult.isAdmin && !await canEditTaxonomy(req, body.organization_id)) {
+      return jsonResponse({ error: 'Only organization owners, admins and managers can change the threat taxonomy' }, 403);
+    }
+
+    if (body.action === 'get') {
+      const [active, { data: versions, error }] = await Promise.all([
+        loadOrganizationTaxonomy(supabase, body.organization_id),
+        supabase
+          .from('threat_taxonomy_versions')
+          .select('id, version, is_active, notes, created_by, created_at')
+          .eq('organization_id', body.organization_id)
+          .order('version', { ascending: false })
+          .limit(HISTORY_LIMIT),
+      ]);
+      if (error) throw new Error(error.message);
+
+      return jsonResponse({
+        taxonomy: active?.taxonomy ?? DEFAULT_THREAT_TAXONOMY,
+        active_version: active?.version ?? null,
+        is_default: !active,
+        default_taxonomy: DEFAULT_THREAT_TAXONOMY,
+        source_types: THREAT_SOURCE_TYPES,
+        versions: versions || [],
+      });
+    }
+
+    if (body.action === 'revert') {
+      const { error } = await supabase.rpc('publish_threat_taxonomy', {
+        p_organization_id: body.organization_id,
+        p_taxonomy: null,
+        p_created_by: authResult.user.id,
+      });
+      if (error) throw new Error(error.message);
+
+      await rescoreOrganization(supabase, body.organization_id, null);
+      return jsonResponse({ success: true });
+    }
+
+    const { taxonomy, errors } = normalizeTaxonomy(body.taxonomy);
+
+    if (body.action === 'preview') {
+      return jsonResponse({ errors, result: scoreThreat(body.text, taxonomy, body.source_type) });
+    }
+
+    // publish
+    if (errors.length > 0) {
+      return jsonResponse({ error: 'Taxonomy is invalid', details: errors }, 400);
+    }
+
+    const { data: versionId, error } = await supabase.rpc('publish_threat_taxonomy', {
+      p_organization_id: body.organization_id,
+      p_taxonomy: taxonomy,
+      p_notes: body.notes || null,
+      p_created_by: authResult.user.id,
+    });
+    if (error) throw new Error(error.message);
+
+    const published = await loadOrganizationTaxonomy(supabase, body.organization_id);
+    const rescored = await rescoreOrganization(supabase, body.organization_id, published);
+    console.log(`[threat-taxonomy] org ${body.organization_id} published v${published?.version}: ${rescored.matched}/${rescored.scored} items match`);
+
+    return jsonResponse({
+      success: true,
+      version_id: versionId,
+      version: published?.version ?? null,
+      rescored,
+    });
+  } catch (error) {
+    console.error('[threat-taxonomy] Error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
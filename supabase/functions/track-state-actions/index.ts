@@ -1,89 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.81.1";
 import { parseJsonBody, z } from "../_shared/validators.ts";
+import { DEFAULT_THREAT_TAXONOMY, scoreThreat } from "../_shared/threatTaxonomy.ts";
+import { loadOrganizationTaxonomies, recordTaxonomyMatches, stateActionText } from "../_shared/threatTaxonomyStore.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Comprehensive keywords for threat detection
-const THREAT_KEYWORDS = {
-  critical: [
-    'terrorist designation',
-    'terrorist organization',
-    'material support',
-    'foreign terrorist',
-    'designated entity',
-    'sanctions',
-    'asset freeze',
-    'travel ban',
-    'muslim ban',
-    'immigration ban',
-    'mosque surveillance',
-    'religious registry',
-    'executive order',
-    'emergency declaration',
-  ],
-  high: [
-    'muslim',
-    'islam',
-    'islamic',
-    'arab',
-    'middle east',
-    'palestine',
-    'palestinian',
-    'gaza',
-    'cair',
-    'mpac',
-    'immigration enforcement',
-    'deportation',
-    'visa restriction',
-    'refugee',
-    'asylum',
-    'surveillance',
-    'national security',
-    'counterterrorism',
-    'radicalization',
-    'extremism',
-    'foreign influence',
-    'religious freedom',
-    'civil liberties',
-    'discrimination',
-    'hate crime',
-    'profiling',
-    'anti-bds',
-    'boycott',
-  ],
-  medium: [
-    'immigration',
-    'border',
-    'national security',
-    'homeland security',
-    'nonprofit',
-    'charitable',
-    'religious organization',
-    'first amendment',
-    'free speech',
-    'protest',
-  ]
-};
-
-// Organizations to track for specific mentions
-const TRACKED_ORGANIZATIONS = [
-  { name: 'CAIR', full: 'Council on American-Islamic Relations' },
-  { name: 'MPAC', full: 'Muslim Public Affairs Council' },
-  { name: 'ISNA', full: 'Islamic Society of North America' },
-  { name: 'ADC', full: 'American-Arab Anti-Discrimination Committee' },
-  { name: 'AAI', full: 'Arab American Institute' },
-  { name: 'MAS', full: 'Muslim American Society' },
-  { name: 'ICNA', full: 'Islamic Circle of North America' },
-  { name: 'NAIT', full: 'North American Islamic Trust' },
-  { name: 'KIND', full: 'Kids in Need of Defense' },
-  { name: 'IRW', full: 'Islamic Relief' },
-  { name: 'ACLU', full: 'American Civil Liberties Union' },
-];
-
 // Key states to monitor
 const MONITORED_STATES = [
   { code: 'TX', name: 'Texas' },
@@ -98,67 +23,6 @@ const MONITORED_STATES = [
   { code: 'AZ', name: 'Arizona' },
 ];
 
-function calculateThreatLevel(text: string): {
-  level: string;
-  score: number;
-  matchedKeywords: string[];
-  affectedOrgs: string[];
-} {
-  const lowerText = text.toLowerCase();
-  const matchedKeywords: string[] = [];
-  const affectedOrgs: string[] = [];
-  let score = 0;
-
-  // Check critical keywords
-  for (const keyword of THREAT_KEYWORDS.critical) {
-    if (lowerText.includes(keyword)) {
-      score += 50;
-      matchedKeywords.push(keyword);
-    }
-  }
-
-  // Check high-priority keywords
-  for (const keyword of THREAT_KEYWORDS.high) {
-    if (lowerText.includes(keyword)) {
-      score += 15;
-      matchedKeywords.push(keyword);
-    }
-  }
-
-  // Check medium-priority keywords
-  for (const keyword of THREAT_KEYWORDS.medium) {
-    if (lowerText.includes(keyword)) {
-      score += 5;
-      matchedKeywords.push(keyword);
-    }
-  }
-
-  // Check for tracked organizations
-  for (const org of TRACKED_ORGANIZATIONS) {
-    if (lowerText.includes(org.name.toLowerCase()) || lowerText.includes(org.full.toLowerCase())) {
-      score += 40; // High weight for direct org mentions
-      affectedOrgs.push(org.name);
-    }
-  }
-
-  // Determine threat level
-  let level = 'low';
-  if (score >= 50) {
-    level = 'critical';
-  } else if (score >= 30) {
-    level = 'high';
-  } else if (score >= 15) {
-    level = 'medium';
-  }
-
-  return {
-    level,
-    score: Math.min(score, 100),
-    matchedKeywords: [...new Set(matchedKeywords)],
-    affectedOrgs: [...new Set(affectedOrgs)]
-  };
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -200,6 +64,9 @@ serve(async (req) => {
 
     const body = parsedBody.data;
 
+    // Each organization's own taxonomy, scored alongside the default
+    const orgTaxonomies = await loadOrganizationTaxonomies(supabaseClient);
+
     // Handle manual state action submission
     if (body.action === 'add') {
       console.log('Adding manual state action...');
@@ -217,8 +84,12 @@ serve(async (req) => {
       } = body;
 
       // Calculate threat level
-      const textToAnalyze = `${title} ${description || ''}`;
-      const { level, score, matchedKeywords, affectedOrgs } = calculateThreatLevel(textToAnalyze);
+      const textToAnalyze = stateActionText({ title, description });
+      const { level, score, matches, matchedTerms, affectedOrgs } = scoreThreat(
+        textToAnalyze,
+        DEFAULT_THREAT_TAXONOMY,
+        'state_action'
+      );
 
       // Insert state action
       const { data, error } = await supabaseClient
@@ -232,7 +103,10 @@ serve(async (req) => {
           sponsor: official_name || official_title,
           introduced_date: action_date,
           relevance_score: score,
-          tags: matchedKeywords,
+          threat_level: level,
+          tags: matchedTerms,
+          matched_rules: matches,
+          affected_organizations: affectedOrgs,
           status: 'active'
         })
         .select()
@@ -240,6 +114,12 @@ serve(async (req) => {
 
       if (error) throw error;
 
+      await recordTaxonomyMatches(
+        supabaseClient,
+        [{ type: 'state_action', id: data.id, text: textToAnalyze }],
+        orgTaxonomies
+      );
+
       // Create notifications for critical/high threat items
       if (level === 'critical' || level === 'high') {
         const { data: users } = await supabaseClient
@@ -271,6 +151,7 @@ serve(async (req) => {
           success: true,
           stateAction: data,
           threatLevel: level,
+          matchedRules: matches,
           affectedOrganizations: affectedOrgs,
         }),
         {
@@ -349,15 +230,22 @@ serve(async (req) => {
             totalProcessed++;
 
             // Calculate threat level
-            const textToAnalyze = `${title} ${description}`;
-            const { level, score, matchedKeywords, affectedOrgs } = calculateThreatLevel(textToAnalyze);
-
-            // Only save relevant items
-            if (score === 0) continue;
+            const textToAnalyze = stateActionText({ title, description });
+            const { level, score, matches, matchedTerms, affectedOrgs } = scoreThreat(
+              textToAnalyze,
+              DEFAULT_THREAT_TAXONOMY,
+              'state_action'
+            );
+            const orgMatched = orgTaxonomies.some(
+              (org) => scoreThreat(textToAnalyze, org.taxonomy, 'state_action').matches.length > 0
+            );
+
+            // Only save items relevant to the default or some organization's taxonomy
+            if (score === 0 && !orgMatched) continue;
             relevantFound++;
 
             // Upsert state action
-            await supabaseClient
+            const { data: saved, error: saveError } = await supabaseClient
               .from('state_actions')
               .upsert({
                 state: stateMatch.name,
@@ -368,11 +256,27 @@ serve(async (req) => {
                 sponsor: 'Governor',
                 introduced_date: pubDate ? new Date(pubDate).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
                 relevance_score: score,
-                tags: matchedKeywords,
+                threat_level: level,
+                tags: matchedTerms,
+                matched_rules: matches,
+                affected_organizations: affectedOrgs,
                 status: 'active'
               }, {
                 onConflict: 'source_url'
-              });
+              })
+              .select('id')
+              .single();
+
+            if (saveError) {
+              console.error(`Error saving state action from ${source.name}:`, saveError);
+              continue;
+            }
+
+            await recordTaxonomyMatches(
+              supabaseClient,
+              [{ type: 'state_action', id: saved.id, text: textToAnalyze }],
+              orgTaxonomies
+            );
           }
 
           // Update source last fetch time
@@ -1,5 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  baselineLaneColumns,
+  countTopicMentions,
+  createTopicHourCounts,
+  dayHourBuckets,
+  laneTotals,
+  type LaneCounts,
+} from "../_shared/trendLanes.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -22,6 +30,7 @@ interface BaselineData {
   max_hourly: number;
   is_stable: boolean;
   total_mentions_7d: number;
+  lanes: LaneCounts;
 }
 
 serve(async (req) => {
@@ -83,42 +92,12 @@ serve(async (req) => {
 
     console.log(`[update-trend-baselines] Processing ${articles?.length || 0} articles...`);
 
-    // Build hourly counts per topic
-    const hourlyCountsMap = new Map<string, Map<string, number>>();
-
-    const normalizeEventKey = (topicName: string): string =>
-      topicName.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
+    // Build hourly counts per topic, in total and per source lane
+    const topicHourCounts = createTopicHourCounts();
+    const hourlyCountsMap = topicHourCounts.totals;
 
     for (const article of articles || []) {
-      if (!article.extracted_topics) continue;
-
-      const pubDate = new Date(article.published_date);
-      const hourBucket = new Date(
-        pubDate.getFullYear(),
-        pubDate.getMonth(),
-        pubDate.getDate(),
-        pubDate.getHours()
-      ).toISOString();
-
-      const topics = Array.isArray(article.extracted_topics) 
-        ? article.extracted_topics 
-        : [];
-
-      for (const topic of topics) {
-        const topicName = typeof topic === 'string'
-          ? topic
-          : topic?.topic || topic?.name;
-        if (!topicName) continue;
-
-        const eventKey = normalizeEventKey(topicName);
-        
-        if (!hourlyCountsMap.has(eventKey)) {
-          hourlyCountsMap.set(eventKey, new Map());
-        }
-        
-        const topicHours = hourlyCountsMap.get(eventKey)!;
-        topicHours.set(hourBucket, (topicHours.get(hourBucket) || 0) + 1);
-      }
+      countTopicMentions(topicHourCounts, article.extracted_topics, new Date(article.published_date), 'news');
     }
 
     console.log(`[update-trend-baselines] Found ${hourlyCountsMap.size} unique topics...`);
@@ -135,31 +114,7 @@ serve(async (req) => {
       console.log(`[update-trend-baselines] Processing ${googleNews.length} Google News articles...`);
       
       for (const item of googleNews) {
-        if (!item.ai_topics) continue;
-
-        const publishedAt = new Date(item.published_at);
-        const hourBucket = new Date(
-          publishedAt.getFullYear(),
-          publishedAt.getMonth(),
-          publishedAt.getDate(),
-          publishedAt.getHours()
-        ).toISOString();
-
-        const topics = Array.isArray(item.ai_topics) ? item.ai_topics : [];
-
-        for (const topic of topics) {
-          const topicName = typeof topic === 'string' ? topic : String(topic);
-          if (!topicName) continue;
-
-          const eventKey = normalizeEventKey(topicName);
-          
-          if (!hourlyCountsMap.has(eventKey)) {
-            hourlyCountsMap.set(eventKey, new Map());
-          }
-          
-          const topicHours = hourlyCountsMap.get(eventKey)!;
-          topicHours.set(hourBucket, (topicHours.get(hourBucket) || 0) + 1);
-        }
+        countTopicMentions(topicHourCounts, item.ai_topics, new Date(item.published_at), 'news');
       }
     }
 
@@ -175,31 +130,24 @@ serve(async (req) => {
       console.log(`[update-trend-baselines] Processing ${posts.length} Bluesky posts...`);
       
       for (const post of posts) {
-        if (!post.ai_topics) continue;
-
-        const createdAt = new Date(post.created_at);
-        const hourBucket = new Date(
-          createdAt.getFullYear(),
-          createdAt.getMonth(),
-          createdAt.getDate(),
-          createdAt.getHours()
-        ).toISOString();
-
-        const topics = Array.isArray(post.ai_topics) ? post.ai_topics : [];
-
-        for (const topic of topics) {
-          const topicName = typeof topic === 'string' ? topic : String(topic);
-          if (!topicName) continue;
-
-          const eventKey = topicName.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, '');
-          
-          if (!hourlyCountsMap.has(eventKey)) {
-            hourlyCountsMap.set(eventKey, new Map());
-          }
-          
-          const topicHours = hourlyCountsMap.get(eventKey)!;
-          topicHours.set(hourBucket, (topicHours.get(hourBucket) || 0) + 1);
-        }
+        countTopicMentions(topicHourCounts, post.ai_topics, new Date(post.created_at), 'social');
+      }
+    }
+
+    // Also get Reddit post counts (topics come from batch-analyze-content)
+    const { data: redditPosts, error: redditError } = await supabase
+      .from('reddit_posts')
+      .select('id, created_utc, ai_topics')
+      .eq('ai_processed', true)
+      .gte('created_utc', sevenDaysAgo)
+      .not('ai_topics', 'is', null)
+      .order('created_utc', { ascending: true });
+
+    if (!redditError && redditPosts) {
+      console.log(`[update-trend-baselines] Processing ${redditPosts.length} Reddit posts...`);
+
+      for (const post of redditPosts) {
+        countTopicMentions(topicHourCounts, post.ai_topics, new Date(post.created_utc), 'reddit');
       }
     }
 
@@ -214,16 +162,7 @@ serve(async (req) => {
       const targetDateStr = targetDate.toISOString().split('T')[0];
       
       // Generate 24 hour buckets for this specific day
-      const dayHours: string[] = [];
-      for (let hour = 0; hour < 24; hour++) {
-        const hourDate = new Date(
-          targetDate.getFullYear(),
-          targetDate.getMonth(),
-          targetDate.getDate(),
-          hour
-        );
-        dayHours.push(hourDate.toISOString());
-      }
+      const dayHours = dayHourBuckets(targetDate);
       
       // Compute baselines for this day
       const dayBaselines: BaselineData[] = [];
@@ -276,6 +215,7 @@ serve(async (req) => {
             max_hourly: max,
             is_stable: isStable,
             total_mentions_7d: total, // For this day, it's the daily total
+            lanes: laneTotals(topicHourCounts, eventKey, dayHours),
           });
         }
       }
@@ -316,6 +256,7 @@ serve(async (req) => {
           max_hourly: 0,
           is_stable: anyStable,
           total_mentions_7d: totalMentions,
+          lanes: { news: 0, social: 0, reddit: 0 },
         });
       }
     }
@@ -338,8 +279,7 @@ serve(async (req) => {
           baseline_date: dateStr,
           mentions_count: Math.round(b.avg_hourly * 24),
           hourly_average: b.avg_hourly,
-          news_mentions: 0,
-          social_mentions: 0,
+          ...baselineLaneColumns(b.lanes, 24),
           avg_sentiment: 0,
           hourly_std_dev: b.hourly_std_dev,
           relative_std_dev: b.relative_std_dev,
@@ -391,6 +331,7 @@ serve(async (req) => {
       success: true,
       articlesProcessed: articles?.length || 0,
       postsProcessed: posts?.length || 0,
+      redditPostsProcessed: redditPosts?.length || 0,
       uniqueTopics: hourlyCountsMap.size,
       baselinesComputed: allBaselines.length,
       baselinesUpserted: upsertedCount,
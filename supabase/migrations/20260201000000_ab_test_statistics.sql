@@ -0,0 +1,91 @@
+-- ==========================================================
+-- A/B TEST STATISTICS
+--
+-- Supports significance testing and winner calling on /client/ab-tests:
+-- 1. ab_test_performance gains amount_sum_squares / amount_stddev so the
+--    client can run Welch t-tests on average gift and revenue per visitor
+-- 2. ab_test_traffic stores visitor counts per variation (ActBlue does not
+--    send visitors on contributions), enabling conversion rate and RPV
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Extend ab_test_performance with variance inputs
+-- ----------------------------------------------------------
+DROP VIEW IF EXISTS public.ab_test_performance;
+
+CREATE VIEW public.ab_test_performance
+WITH (security_invoker = true)
+AS
+SELECT
+    organization_id,
+    ab_test_name,
+    ab_test_variation,
+    count(*) AS donations,
+    sum(amount) AS total_raised,
+    avg(amount) AS avg_donation,
+    sum(CASE WHEN is_recurring THEN 1 ELSE 0 END) AS recurring_donations,
+    sum(net_amount) AS net_raised,
+    min(transaction_date) AS first_donation,
+    max(transaction_date) AS last_donation,
+    count(DISTINCT donor_email) AS unique_donors,
+    sum(amount * amount) AS amount_sum_squares,
+    stddev_samp(amount) AS amount_stddev
+FROM actblue_transactions
+WHERE ab_test_name IS NOT NULL
+  AND transaction_type IS DISTINCT FROM 'refund'::text
+GROUP BY organization_id, ab_test_name, ab_test_variation;
+
+GRANT SELECT ON public.ab_test_performance TO authenticated;
+
+COMMENT ON VIEW public.ab_test_performance IS
+'A/B test performance metrics aggregated from actblue_transactions.
+Includes amount_sum_squares and amount_stddev for significance testing.
+Uses security_invoker=true to respect RLS policies on the underlying table.';
+
+-- ----------------------------------------------------------
+-- 2. Visitor counts per variation
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.ab_test_traffic (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  ab_test_name TEXT NOT NULL,
+  -- Empty string represents the unnamed/control variation
+  ab_test_variation TEXT NOT NULL DEFAULT '',
+  visitors INTEGER NOT NULL CHECK (visitors >= 0),
+  -- 'manual' = entered from ActBlue's A/B dashboard, 'redirect' = counted from tracked links
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'redirect')),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, ab_test_name, ab_test_variation)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ab_test_traffic_org
+  ON public.ab_test_traffic(organization_id, ab_test_name);
+
+ALTER TABLE public.ab_test_traffic ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view ab test traffic"
+  ON public.ab_test_traffic FOR SELECT
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Org members can manage ab test traffic"
+  ON public.ab_test_traffic FOR ALL
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  )
+  WITH CHECK (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Service role can manage ab test traffic"
+  ON public.ab_test_traffic FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE public.ab_test_traffic IS
+'Visitor counts per ActBlue A/B test variation. Needed for conversion rate and revenue-per-visitor significance tests.';
@@ -0,0 +1,42 @@
+-- ==========================================================
+-- ACTBLUE SPLIT CONTRIBUTIONS (MULTI-LINEITEM)
+--
+-- A split contribution carries one lineitem per recipient entity.
+-- Webhook, chunked CSV and direct CSV ingestion all store one
+-- actblue_transactions row per lineitem, routed to the org that owns
+-- the lineitem's entity_id. split_lineitem_count records how many
+-- lineitems the whole contribution had, so analytics can tell a
+-- $25 single gift from a $25 share of a larger split gift.
+-- ==========================================================
+
+ALTER TABLE public.actblue_transactions
+ADD COLUMN IF NOT EXISTS split_lineitem_count INTEGER NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN public.actblue_transactions.split_lineitem_count IS
+  'Number of lineitems in the ActBlue contribution this row belongs to (1 = not split).';
+
+-- Lineitems of the same contribution share order_number
+CREATE INDEX IF NOT EXISTS idx_actblue_transactions_org_order_number
+  ON public.actblue_transactions (organization_id, order_number)
+  WHERE order_number IS NOT NULL;
+
+-- Chunked and paged imports only see the lineitems in their own page, so
+-- an upsert can carry a smaller count than the webhook already stored.
+-- The count never goes down.
+CREATE OR REPLACE FUNCTION public.keep_max_split_lineitem_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  NEW.split_lineitem_count := GREATEST(NEW.split_lineitem_count, OLD.split_lineitem_count);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_keep_max_split_lineitem_count ON public.actblue_transactions;
+
+CREATE TRIGGER trg_keep_max_split_lineitem_count
+  BEFORE UPDATE OF split_lineitem_count ON public.actblue_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.keep_max_split_lineitem_count();
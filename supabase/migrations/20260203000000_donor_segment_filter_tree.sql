@@ -0,0 +1,387 @@
+-- ==========================================================
+-- DONOR SEGMENT FILTER TREES
+--
+-- The Segment Builder now stores filters as a boolean tree:
+--   { "type": "group", "operator": "and" | "or", "negate": bool,
+--     "children": [ <condition> | <group>, ... ] }
+-- where a condition is { "field", "operator", "value" }.
+-- Legacy segments stored a flat condition array (implicit AND) and are
+-- still accepted everywhere.
+--
+-- query_donor_segment() evaluates the tree in Postgres so large orgs no
+-- longer page every donor into the browser. It returns the total count,
+-- headline aggregates and distributions for the whole segment plus one
+-- page of donors.
+--
+-- Field and operator names are whitelisted; values are always quoted.
+-- Keep in sync with src/lib/segment-filter-tree.ts and
+-- SEGMENT_FILTER_FIELDS in src/types/donorSegment.ts.
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Per-donor attribution (channels + creative motivation)
+-- ----------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.donor_segment_attribution(
+  _organization_id uuid,
+  _donor_email text
+)
+RETURNS TABLE (
+  channels text[],
+  topics text[],
+  pain_points text[],
+  value_appeals text[]
+)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  WITH sources AS (
+    SELECT
+      rm.platform,
+      COALESCE(mci.topic, sc.topic) AS topic,
+      COALESCE(mci.donor_pain_points, sc.donor_pain_points) AS pain_points,
+      COALESCE(mci.values_appealed, sc.values_appealed) AS values_appealed
+    FROM actblue_transactions t
+    JOIN refcode_mappings rm
+      ON rm.organization_id = t.organization_id AND rm.refcode = t.refcode
+    LEFT JOIN meta_creative_insights mci
+      ON mci.organization_id = t.organization_id AND mci.creative_id = rm.creative_id
+    LEFT JOIN sms_campaigns sc
+      ON sc.organization_id = t.organization_id AND sc.id::text = rm.campaign_id
+    WHERE t.organization_id = _organization_id
+      AND t.donor_email = _donor_email
+      AND t.refcode IS NOT NULL
+  )
+  SELECT
+    ARRAY(SELECT DISTINCT s.platform FROM sources s WHERE s.platform IS NOT NULL),
+    ARRAY(SELECT DISTINCT s.topic FROM sources s WHERE s.topic IS NOT NULL),
+    ARRAY(SELECT DISTINCT p FROM sources s, unnest(s.pain_points) p WHERE p IS NOT NULL),
+    ARRAY(SELECT DISTINCT v FROM sources s, unnest(s.values_appealed) v WHERE v IS NOT NULL);
+$$;
+
+-- ----------------------------------------------------------
+-- 2. Filter tree -> SQL predicate over the donor row alias "d"
+-- ----------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.donor_segment_literal(_value jsonb, _kind text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+DECLARE
+  raw_value text;
+BEGIN
+  IF _value IS NULL OR jsonb_typeof(_value) = 'null' THEN
+    RETURN 'NULL';
+  END IF;
+
+  raw_value := _value #>> '{}';
+
+  RETURN CASE _kind
+    WHEN 'numeric' THEN quote_literal(raw_value) || '::numeric'
+    WHEN 'boolean' THEN quote_literal(raw_value) || '::boolean'
+    WHEN 'date' THEN quote_literal(raw_value) || '::timestamptz'
+    ELSE quote_literal(raw_value)
+  END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.donor_segment_condition_sql(_condition jsonb)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+DECLARE
+  field text := _condition->>'field';
+  op text := _condition->>'operator';
+  val jsonb := _condition->'value';
+  expr text;
+  kind text;
+  list_sql text;
+BEGIN
+  -- Whitelisted fields: SQL expression + value kind ('array' = text[] column)
+  SELECT f.expr, f.kind INTO expr, kind
+  FROM (VALUES
+    ('total_donated', 'd.total_donated', 'numeric'),
+    ('total_lifetime_value', 'd.total_donated', 'numeric'),
+    ('donation_count', 'd.donation_count', 'numeric'),
+    ('avg_donation', 'd.avg_donation', 'numeric'),
+    ('days_since_donation', 'd.days_since_donation', 'numeric'),
+    ('predicted_ltv_90', 'd.predicted_ltv_90', 'numeric'),
+    ('predicted_ltv_180', 'd.predicted_ltv_180', 'numeric'),
+    ('is_recurring', 'd.is_recurring', 'boolean'),
+    ('is_recurring_donor', 'd.is_recurring', 'boolean'),
+    ('has_refund', 'd.has_refund', 'boolean'),
+    ('first_donation_date', 'd.first_donation_date', 'date'),
+    ('last_donation_date', 'd.last_donation_date', 'date'),
+    ('segment', 'd.segment', 'text'),
+    ('churn_risk_label', 'd.churn_risk_label', 'text'),
+    ('state', 'd.state', 'text'),
+    ('city', 'd.city', 'text'),
+    ('email', 'd.donor_email', 'text'),
+    ('phone', 'd.phone', 'text'),
+    ('employer', 'd.employer', 'text'),
+    ('occupation', 'd.occupation', 'text'),
+    ('donor_tier', 'd.donor_tier', 'array'),
+    ('attributed_channel', 'd.attributed_channels', 'array'),
+    ('attributed_topic', 'd.attributed_topics', 'array'),
+    ('attributed_value', 'd.attributed_values', 'array'),
+    ('attributed_pain_point', 'array_to_string(d.attributed_pain_points, '' '')', 'text')
+  ) AS f(key, expr, kind)
+  WHERE f.key = field;
+
+  IF expr IS NULL THEN
+    RAISE EXCEPTION 'Unknown segment filter field: %', field;
+  END IF;
+
+  IF op IN ('in', 'nin') THEN
+    SELECT string_agg(public.donor_segment_literal(elem, CASE WHEN kind = 'array' THEN 'text' ELSE kind END), ', ')
+    INTO list_sql
+    FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(val) = 'array' THEN val ELSE jsonb_build_array(val) END
+    ) AS elem;
+
+    -- Empty selections: "is any of ()" matches nothing, "is not any of ()" matches everything
+    IF list_sql IS NULL THEN
+      RETURN CASE WHEN op = 'in' THEN 'FALSE' ELSE 'TRUE' END;
+    END IF;
+
+    IF kind = 'array' THEN
+      RETURN CASE WHEN op = 'in'
+        THEN format('(%s && ARRAY[%s]::text[])', expr, list_sql)
+        ELSE format('(NOT (COALESCE(%s, ''{}''::text[]) && ARRAY[%s]::text[]))', expr, list_sql)
+      END;
+    END IF;
+
+    RETURN format('(%s %s (%s))', expr, CASE WHEN op = 'in' THEN 'IN' ELSE 'NOT IN' END, list_sql);
+  END IF;
+
+  IF kind = 'array' AND op IN ('eq', 'neq') THEN
+    RETURN format('(%s %s ANY(%s))', public.donor_segment_literal(val, 'text'),
+      CASE WHEN op = 'eq' THEN '=' ELSE '<>' END, expr);
+  END IF;
+
+  RETURN CASE op
+    WHEN 'eq' THEN format('(%s = %s)', expr, public.donor_segment_literal(val, kind))
+    WHEN 'neq' THEN format('(%s <> %s)', expr, public.donor_segment_literal(val, kind))
+    WHEN 'gt' THEN format('(%s > %s)', expr, public.donor_segment_literal(val, kind))
+    WHEN 'gte' THEN format('(%s >= %s)', expr, public.donor_segment_literal(val, kind))
+    WHEN 'lt' THEN format('(%s < %s)', expr, public.donor_segment_literal(val, kind))
+    WHEN 'lte' THEN format('(%s <= %s)', expr, public.donor_segment_literal(val, kind))
+    WHEN 'between' THEN format('(%s BETWEEN %s AND %s)', expr,
+      public.donor_segment_literal(val->0, kind), public.donor_segment_literal(val->1, kind))
+    WHEN 'contains' THEN format('(%s ILIKE ''%%'' || %s || ''%%'')', expr, public.donor_segment_literal(val, 'text'))
+    WHEN 'not_contains' THEN format('(%s NOT ILIKE ''%%'' || %s || ''%%'')', expr, public.donor_segment_literal(val, 'text'))
+    WHEN 'is_null' THEN format('(%s IS NULL)', expr)
+    WHEN 'is_not_null' THEN format('(%s IS NOT NULL)', expr)
+    ELSE NULL
+  END;
+END;
+$$;
+
+-- Returns NULL for groups without any conditions (they are ignored)
+CREATE OR REPLACE FUNCTION public.donor_segment_filter_sql(_node jsonb)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+DECLARE
+  child jsonb;
+  child_sql text;
+  parts text[] := '{}';
+  combined text;
+  condition_sql text;
+BEGIN
+  IF _node IS NULL OR jsonb_typeof(_node) = 'null' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Legacy flat condition array = AND group
+  IF jsonb_typeof(_node) = 'array' THEN
+    RETURN public.donor_segment_filter_sql(jsonb_build_object('type', 'group', 'operator', 'and', 'children', _node));
+  END IF;
+
+  IF _node->>'type' = 'group' OR _node ? 'children' THEN
+    FOR child IN SELECT * FROM jsonb_array_elements(COALESCE(_node->'children', '[]'::jsonb)) LOOP
+      child_sql := public.donor_segment_filter_sql(child);
+      IF child_sql IS NOT NULL THEN
+        parts := parts || child_sql;
+      END IF;
+    END LOOP;
+
+    IF array_length(parts, 1) IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    combined := '(' || array_to_string(parts, CASE WHEN _node->>'operator' = 'or' THEN ' OR ' ELSE ' AND ' END) || ')';
+
+    IF COALESCE((_node->>'negate')::boolean, false) THEN
+      -- NULL-safe NOT: a donor missing the field is outside the inner group
+      RETURN '(NOT COALESCE(' || combined || ', false))';
+    END IF;
+    RETURN combined;
+  END IF;
+
+  -- Empty object (no filters)
+  IF NOT (_node ? 'field') THEN
+    RETURN NULL;
+  END IF;
+
+  condition_sql := public.donor_segment_condition_sql(_node);
+  IF condition_sql IS NULL THEN
+    RAISE EXCEPTION 'Unknown segment filter operator: %', _node->>'operator';
+  END IF;
+  RETURN condition_sql;
+END;
+$$;
+
+-- ----------------------------------------------------------
+-- 3. Segment query
+-- ----------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.query_donor_segment(
+  _organization_id uuid,
+  _filters jsonb DEFAULT '{}'::jsonb,
+  _limit integer DEFAULT 1000,
+  _offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  where_sql text;
+  needs_attribution boolean;
+  attribution_join text;
+  result jsonb;
+BEGIN
+  -- Verify user has access to this organization
+  IF NOT (
+    public.user_belongs_to_organization(_organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    auth.role() = 'service_role'
+  ) THEN
+    RAISE EXCEPTION 'Access denied to organization data';
+  END IF;
+
+  where_sql := COALESCE(public.donor_segment_filter_sql(_filters), 'TRUE');
+
+  -- Attribution is a per-donor lateral lookup; only pay for it when filtered on
+  needs_attribution := where_sql ~ 'd\.attributed_';
+  attribution_join := CASE WHEN needs_attribution
+    THEN 'LEFT JOIN LATERAL public.donor_segment_attribution(dd.organization_id, dd.donor_email) attr ON true'
+    ELSE 'LEFT JOIN LATERAL (SELECT NULL::text[] AS channels, NULL::text[] AS topics, NULL::text[] AS pain_points, NULL::text[] AS value_appeals) attr ON true'
+  END;
+
+  EXECUTE format($query$
+    WITH donors AS (
+      SELECT
+        dd.id,
+        dd.donor_key,
+        dd.donor_email,
+        dd.phone,
+        dd.first_name,
+        dd.last_name,
+        dd.state,
+        dd.city,
+        dd.zip,
+        COALESCE(dd.total_donated, 0) AS total_donated,
+        COALESCE(dd.donation_count, 0) AS donation_count,
+        dd.first_donation_date,
+        dd.last_donation_date,
+        COALESCE(dd.is_recurring, false) AS is_recurring,
+        dd.employer,
+        dd.occupation,
+        ltv.segment,
+        ltv.churn_risk_label,
+        ltv.predicted_ltv_90,
+        ltv.predicted_ltv_180,
+        CASE WHEN dd.last_donation_date IS NULL THEN 999
+          ELSE floor(extract(epoch FROM (now() - dd.last_donation_date)) / 86400)::integer
+        END AS days_since_donation,
+        CASE WHEN COALESCE(dd.donation_count, 0) > 0
+          THEN COALESCE(dd.total_donated, 0) / dd.donation_count ELSE 0
+        END AS avg_donation,
+        EXISTS (
+          SELECT 1 FROM actblue_transactions t
+          WHERE t.organization_id = dd.organization_id
+            AND t.donor_email = dd.donor_email
+            AND t.transaction_type = 'refund'
+        ) AS has_refund,
+        COALESCE(attr.channels, '{}') AS attributed_channels,
+        COALESCE(attr.topics, '{}') AS attributed_topics,
+        COALESCE(attr.pain_points, '{}') AS attributed_pain_points,
+        COALESCE(attr.value_appeals, '{}') AS attributed_values
+      FROM donor_demographics dd
+      LEFT JOIN donor_ltv_predictions ltv
+        ON ltv.organization_id = dd.organization_id AND ltv.donor_key = dd.donor_key
+      %1$s
+      WHERE dd.organization_id = $1
+    ),
+    tiered AS (
+      SELECT d.*,
+        array_remove(ARRAY[
+          CASE WHEN d.total_donated >= 1000 THEN 'major'
+               WHEN d.total_donated >= 250 THEN 'mid'
+               ELSE 'grassroots' END,
+          CASE WHEN d.donation_count >= 5 THEN 'repeat' END,
+          CASE WHEN d.donation_count = 1 THEN 'one_time' END,
+          CASE WHEN d.days_since_donation <= 90 THEN 'active'
+               WHEN d.days_since_donation <= 180 THEN 'lapsing'
+               ELSE 'lapsed' END
+        ], NULL) AS donor_tier
+      FROM donors d
+    ),
+    matched AS (
+      SELECT * FROM tiered d WHERE %2$s
+    )
+    SELECT jsonb_build_object(
+      'total_count', (SELECT count(*) FROM matched),
+      'totals', (
+        SELECT jsonb_build_object(
+          'total_lifetime_value', COALESCE(sum(total_donated), 0),
+          'total_donations', COALESCE(sum(donation_count), 0),
+          'recurring_donors', count(*) FILTER (WHERE is_recurring),
+          'total_days_since_donation', COALESCE(sum(days_since_donation), 0)
+        ) FROM matched
+      ),
+      'by_state', (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object('name', state, 'value', n) ORDER BY n DESC), '[]'::jsonb)
+        FROM (SELECT state, count(*) AS n FROM matched WHERE state IS NOT NULL GROUP BY state ORDER BY n DESC LIMIT 10) s
+      ),
+      'by_segment', (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object('name', name, 'value', n) ORDER BY n DESC), '[]'::jsonb)
+        FROM (SELECT COALESCE(segment, 'Unknown') AS name, count(*) AS n FROM matched GROUP BY 1) s
+      ),
+      'by_churn_risk', (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object('name', name, 'value', n)), '[]'::jsonb)
+        FROM (SELECT COALESCE(churn_risk_label, 'Unknown') AS name, count(*) AS n FROM matched GROUP BY 1) s
+      ),
+      'by_tier', (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object('name', name, 'value', n) ORDER BY n DESC), '[]'::jsonb)
+        FROM (SELECT donor_tier[1] AS name, count(*) AS n FROM matched GROUP BY 1) s
+      ),
+      'donors', (
+        SELECT COALESCE(jsonb_agg(to_jsonb(p) - 'donor_tier' ORDER BY p.total_donated DESC NULLS LAST, p.id), '[]'::jsonb)
+        FROM (
+          SELECT * FROM matched
+          ORDER BY total_donated DESC NULLS LAST, id
+          LIMIT $2 OFFSET $3
+        ) p
+      )
+    )
+  $query$, attribution_join, where_sql)
+  INTO result
+  USING _organization_id, GREATEST(LEAST(COALESCE(_limit, 1000), 10000), 0), GREATEST(COALESCE(_offset, 0), 0);
+
+  RETURN result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.query_donor_segment(uuid, jsonb, integer, integer) TO authenticated;
+
+COMMENT ON FUNCTION public.query_donor_segment(uuid, jsonb, integer, integer) IS
+'Evaluates a Segment Builder filter tree (AND/OR/NOT groups, or a legacy flat condition array)
+server-side. Returns total_count, totals, distributions and one page of donors (max 10,000).';
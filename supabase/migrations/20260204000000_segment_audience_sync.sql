@@ -0,0 +1,152 @@
+-- ==========================================================
+-- SEGMENT AUDIENCE SYNC
+--
+-- Pushes saved donor segments to outreach destinations:
+-- 1. segment_audience_syncs: one row per segment + destination
+--    (Meta Custom Audience or Switchboard phone list), tracking the
+--    remote audience id and whether it keeps syncing on a schedule
+-- 2. segment_audience_sync_members: what was last pushed, so later
+--    syncs only add/remove the members whose membership changed
+-- 3. segment_audience_sync_log: per-run history with counts and
+--    match-rate estimates
+-- 4. Scheduled job that re-syncs every auto_sync audience
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Sync configuration per segment + destination
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.segment_audience_syncs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  segment_id UUID NOT NULL REFERENCES public.saved_donor_segments(id) ON DELETE CASCADE,
+  destination TEXT NOT NULL CHECK (destination IN ('meta_custom_audience', 'switchboard_list')),
+  -- Meta custom audience id / Switchboard phone list id
+  external_id TEXT,
+  external_name TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'syncing', 'active', 'error', 'unsynced')),
+  auto_sync BOOLEAN NOT NULL DEFAULT true,
+  segment_size INTEGER NOT NULL DEFAULT 0,
+  member_count INTEGER NOT NULL DEFAULT 0,
+  estimated_match_rate NUMERIC(5,4),
+  last_synced_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (segment_id, destination)
+);
+
+CREATE INDEX IF NOT EXISTS idx_segment_audience_syncs_org
+  ON public.segment_audience_syncs(organization_id);
+
+CREATE INDEX IF NOT EXISTS idx_segment_audience_syncs_auto
+  ON public.segment_audience_syncs(status)
+  WHERE auto_sync = true;
+
+ALTER TABLE public.segment_audience_syncs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view segment audience syncs"
+  ON public.segment_audience_syncs FOR SELECT
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+-- Pushes and unsyncs go through the sync-segment-audience edge function
+CREATE POLICY "Service role can manage segment audience syncs"
+  ON public.segment_audience_syncs FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE TRIGGER update_segment_audience_syncs_updated_at
+  BEFORE UPDATE ON public.segment_audience_syncs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.segment_audience_syncs IS
+'Saved donor segments pushed to a Meta Custom Audience or Switchboard phone list. auto_sync audiences are re-synced by the sync-segment-audience scheduled job.';
+
+-- ----------------------------------------------------------
+-- 2. Last-pushed membership (service role only)
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.segment_audience_sync_members (
+  sync_id UUID NOT NULL REFERENCES public.segment_audience_syncs(id) ON DELETE CASCADE,
+  -- Hashed identity (em:<sha256> / ph:<sha256>), stable across syncs
+  member_key TEXT NOT NULL,
+  -- Row needed to remove the member remotely: hashed identifiers for Meta,
+  -- E.164 phone for Switchboard
+  payload TEXT[] NOT NULL,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (sync_id, member_key)
+);
+
+ALTER TABLE public.segment_audience_sync_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage segment audience sync members"
+  ON public.segment_audience_sync_members FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE public.segment_audience_sync_members IS
+'Members last pushed to each synced audience. Used to compute add/remove diffs; not exposed to clients.';
+
+-- ----------------------------------------------------------
+-- 3. Sync run history
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.segment_audience_sync_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  segment_id UUID NOT NULL REFERENCES public.saved_donor_segments(id) ON DELETE CASCADE,
+  sync_id UUID REFERENCES public.segment_audience_syncs(id) ON DELETE SET NULL,
+  destination TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('push', 'resync', 'unsync')),
+  triggered_by TEXT NOT NULL DEFAULT 'manual' CHECK (triggered_by IN ('manual', 'scheduled')),
+  status TEXT NOT NULL CHECK (status IN ('success', 'partial', 'error')),
+  segment_size INTEGER NOT NULL DEFAULT 0,
+  -- Members with a usable identifier for the destination
+  eligible_count INTEGER NOT NULL DEFAULT 0,
+  added_count INTEGER NOT NULL DEFAULT 0,
+  removed_count INTEGER NOT NULL DEFAULT 0,
+  -- Rows the destination reported as invalid
+  rejected_count INTEGER NOT NULL DEFAULT 0,
+  estimated_match_rate NUMERIC(5,4),
+  error_message TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_segment_audience_sync_log_segment
+  ON public.segment_audience_sync_log(segment_id, started_at DESC);
+
+ALTER TABLE public.segment_audience_sync_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view segment audience sync log"
+  ON public.segment_audience_sync_log FOR SELECT
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Service role can manage segment audience sync log"
+  ON public.segment_audience_sync_log FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE public.segment_audience_sync_log IS
+'History of segment pushes, scheduled re-syncs and unsyncs with member counts and match-rate estimates.';
+
+-- ----------------------------------------------------------
+-- 4. Keep audiences in sync with segment membership
+-- ----------------------------------------------------------
+INSERT INTO scheduled_jobs (job_name, job_type, schedule, endpoint, payload, is_active)
+VALUES (
+  'segment-audience-sync',
+  'edge_function',
+  '0 */6 * * *',
+  'sync-segment-audience',
+  '{"action": "resync_all"}'::jsonb,
+  true
+)
+ON CONFLICT (job_name) DO UPDATE SET
+  schedule = EXCLUDED.schedule,
+  is_active = EXCLUDED.is_active,
+  payload = EXCLUDED.payload;
@@ -0,0 +1,610 @@
+-- ==========================================================
+-- SEGMENT MEMBERSHIP SNAPSHOTS
+--
+-- Saved segments only kept donor_count_snapshot / total_value_snapshot
+-- from save time. The snapshot_donor_segments scheduled job now
+-- recomputes every saved segment and records membership over time:
+-- 1. segment_membership_snapshots: one row per segment per run (size,
+--    lifetime value, entered / exited counts) for trend charts
+-- 2. segment_membership_members: current members plus the condition
+--    results and tracked attributes they had at the last run
+-- 3. segment_membership_changes: who entered or left, which filter
+--    conditions flipped and which donor attributes moved
+--
+-- The donor source CTEs from query_donor_segment() are factored out into
+-- donor_segment_source_sql() so snapshots evaluate exactly the same rows
+-- as the Segment Builder.
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Shared donor source (donors + tiered CTEs, $1 = organization id)
+-- ----------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.donor_segment_source_sql(_with_attribution boolean)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT format($source$
+    donors AS (
+      SELECT
+        dd.id,
+        dd.donor_key,
+        dd.donor_email,
+        dd.phone,
+        dd.first_name,
+        dd.last_name,
+        dd.state,
+        dd.city,
+        dd.zip,
+        COALESCE(dd.total_donated, 0) AS total_donated,
+        COALESCE(dd.donation_count, 0) AS donation_count,
+        dd.first_donation_date,
+        dd.last_donation_date,
+        COALESCE(dd.is_recurring, false) AS is_recurring,
+        dd.employer,
+        dd.occupation,
+        ltv.segment,
+        ltv.churn_risk_label,
+        ltv.predicted_ltv_90,
+        ltv.predicted_ltv_180,
+        CASE WHEN dd.last_donation_date IS NULL THEN 999
+          ELSE floor(extract(epoch FROM (now() - dd.last_donation_date)) / 86400)::integer
+        END AS days_since_donation,
+        CASE WHEN COALESCE(dd.donation_count, 0) > 0
+          THEN COALESCE(dd.total_donated, 0) / dd.donation_count ELSE 0
+        END AS avg_donation,
+        EXISTS (
+          SELECT 1 FROM actblue_transactions t
+          WHERE t.organization_id = dd.organization_id
+            AND t.donor_email = dd.donor_email
+            AND t.transaction_type = 'refund'
+        ) AS has_refund,
+        COALESCE(attr.channels, '{}') AS attributed_channels,
+        COALESCE(attr.topics, '{}') AS attributed_topics,
+        COALESCE(attr.pain_points, '{}') AS attributed_pain_points,
+        COALESCE(attr.value_appeals, '{}') AS attributed_values
+      FROM donor_demographics dd
+      LEFT JOIN donor_ltv_predictions ltv
+        ON ltv.organization_id = dd.organization_id AND ltv.donor_key = dd.donor_key
+      %1$s
+      WHERE dd.organization_id = $1
+    ),
+    tiered AS (
+      SELECT d.*,
+        array_remove(ARRAY[
+          CASE WHEN d.total_donated >= 1000 THEN 'major'
+               WHEN d.total_donated >= 250 THEN 'mid'
+               ELSE 'grassroots' END,
+          CASE WHEN d.donation_count >= 5 THEN 'repeat' END,
+          CASE WHEN d.donation_count = 1 THEN 'one_time' END,
+          CASE WHEN d.days_since_donation <= 90 THEN 'active'
+               WHEN d.days_since_donation <= 180 THEN 'lapsing'
+               ELSE 'lapsed' END
+        ], NULL) AS donor_tier
+      FROM donors d
+    )
+  $source$,
+  CASE WHEN _with_attribution
+    THEN 'LEFT JOIN LATERAL public.donor_segment_attribution(dd.organization_id, dd.donor_email) attr ON true'
+    ELSE 'LEFT JOIN LATERAL (SELECT NULL::text[] AS channels, NULL::text[] AS topics, NULL::text[] AS pain_points, NULL::text[] AS value_appeals) attr ON true'
+  END);
+$$;
+
+-- Same results as before; only the donor source moved
+CREATE OR REPLACE FUNCTION public.query_donor_segment(
+  _organization_id uuid,
+  _filters jsonb DEFAULT '{}'::jsonb,
+  _limit integer DEFAULT 1000,
+  _offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  where_sql text;
+  needs_attribution boolean;
+  result jsonb;
+BEGIN
+  -- Verify user has access to this organization
+  IF NOT (
+    public.user_belongs_to_organization(_organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    auth.role() = 'service_role'
+  ) THEN
+    RAISE EXCEPTION 'Access denied to organization data';
+  END IF;
+
+  where_sql := COALESCE(public.donor_segment_filter_sql(_filters), 'TRUE');
+
+  -- Attribution is a per-donor lateral lookup; only pay for it when filtered on
+  needs_attribution := where_sql ~ 'd\.attributed_';
+
+  EXECUTE format($query$
+    WITH %1$s,
+    matched AS (
+      SELECT * FROM tiered d WHERE %2$s
+    )
+    SELECT jsonb_build_object(
+      'total_count', (SELECT count(*) FROM matched),
+      'totals', (
+        SELECT jsonb_build_object(
+          'total_lifetime_value', COALESCE(sum(total_donated), 0),
+          'total_donations', COALESCE(sum(donation_count), 0),
+          'recurring_donors', count(*) FILTER (WHERE is_recurring),
+          'total_days_since_donation', COALESCE(sum(days_since_donation), 0)
+        ) FROM matched
+      ),
+      'by_state', (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object('name', state, 'value', n) ORDER BY n DESC), '[]'::jsonb)
+        FROM (SELECT state, count(*) AS n FROM matched WHERE state IS NOT NULL GROUP BY state ORDER BY n DESC LIMIT 10) s
+      ),
+      'by_segment', (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object('name', name, 'value', n) ORDER BY n DESC), '[]'::jsonb)
+        FROM (SELECT COALESCE(segment, 'Unknown') AS name, count(*) AS n FROM matched GROUP BY 1) s
+      ),
+      'by_churn_risk', (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object('name', name, 'value', n)), '[]'::jsonb)
+        FROM (SELECT COALESCE(churn_risk_label, 'Unknown') AS name, count(*) AS n FROM matched GROUP BY 1) s
+      ),
+      'by_tier', (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object('name', name, 'value', n) ORDER BY n DESC), '[]'::jsonb)
+        FROM (SELECT donor_tier[1] AS name, count(*) AS n FROM matched GROUP BY 1) s
+      ),
+      'donors', (
+        SELECT COALESCE(jsonb_agg(to_jsonb(p) - 'donor_tier' ORDER BY p.total_donated DESC NULLS LAST, p.id), '[]'::jsonb)
+        FROM (
+          SELECT * FROM matched
+          ORDER BY total_donated DESC NULLS LAST, id
+          LIMIT $2 OFFSET $3
+        ) p
+      )
+    )
+  $query$, public.donor_segment_source_sql(needs_attribution), where_sql)
+  INTO result
+  USING _organization_id, GREATEST(LEAST(COALESCE(_limit, 1000), 10000), 0), GREATEST(COALESCE(_offset, 0), 0);
+
+  RETURN result;
+END;
+$$;
+
+-- ----------------------------------------------------------
+-- 2. Leaf conditions of a filter tree (legacy arrays included)
+-- ----------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.donor_segment_conditions(_node jsonb)
+RETURNS SETOF jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+DECLARE
+  child jsonb;
+BEGIN
+  IF _node IS NULL OR jsonb_typeof(_node) = 'null' THEN
+    RETURN;
+  END IF;
+
+  IF jsonb_typeof(_node) = 'array' THEN
+    FOR child IN SELECT * FROM jsonb_array_elements(_node) LOOP
+      RETURN QUERY SELECT * FROM public.donor_segment_conditions(child);
+    END LOOP;
+    RETURN;
+  END IF;
+
+  IF _node->>'type' = 'group' OR _node ? 'children' THEN
+    RETURN QUERY SELECT * FROM public.donor_segment_conditions(COALESCE(_node->'children', '[]'::jsonb));
+    RETURN;
+  END IF;
+
+  IF _node ? 'field' THEN
+    RETURN NEXT _node;
+  END IF;
+END;
+$$;
+
+-- Why a donor entered or left: the conditions whose result changed.
+-- Non-members are not tracked, so for entries (_previous IS NULL) every
+-- condition that now holds is reported.
+CREATE OR REPLACE FUNCTION public.segment_membership_reasons(
+  _filters jsonb,
+  _previous jsonb,
+  _current jsonb
+)
+RETURNS TABLE (reasons jsonb, fields text[])
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT
+    CASE WHEN _current IS NULL
+      THEN jsonb_build_array(jsonb_build_object('type', 'donor_removed'))
+      ELSE COALESCE(jsonb_agg(jsonb_build_object(
+        'type', 'condition',
+        'condition_id', f.condition_key,
+        'field', f.condition->>'field',
+        'operator', f.condition->>'operator',
+        'value', f.condition->'value',
+        'was_met', f.was_met,
+        'now_met', f.now_met
+      )) FILTER (WHERE f.changed), '[]'::jsonb)
+    END,
+    COALESCE(array_agg(DISTINCT f.condition->>'field') FILTER (WHERE f.changed), '{}')
+  FROM (
+    SELECT
+      c AS condition,
+      k.condition_key,
+      (_previous->>k.condition_key)::boolean AS was_met,
+      (_current->>k.condition_key)::boolean AS now_met,
+      CASE WHEN _previous IS NULL
+        THEN COALESCE((_current->>k.condition_key)::boolean, false)
+        ELSE (_previous->>k.condition_key)::boolean
+          IS DISTINCT FROM COALESCE((_current->>k.condition_key)::boolean, false)
+      END AS changed
+    FROM public.donor_segment_conditions(_filters) c
+    CROSS JOIN LATERAL (SELECT COALESCE(c->>'id', c->>'field') AS condition_key) k
+  ) f;
+$$;
+
+-- ----------------------------------------------------------
+-- 3. Snapshot history per segment
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.segment_membership_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  segment_id UUID NOT NULL REFERENCES public.saved_donor_segments(id) ON DELETE CASCADE,
+  member_count INTEGER NOT NULL DEFAULT 0,
+  total_value NUMERIC(14,2) NOT NULL DEFAULT 0,
+  entered_count INTEGER NOT NULL DEFAULT 0,
+  exited_count INTEGER NOT NULL DEFAULT 0,
+  -- First run, or first run after the segment's filters were edited:
+  -- membership is recorded but no changes are emitted
+  is_baseline BOOLEAN NOT NULL DEFAULT false,
+  filters_hash TEXT NOT NULL,
+  triggered_by TEXT NOT NULL DEFAULT 'scheduled' CHECK (triggered_by IN ('manual', 'scheduled')),
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_segment_membership_snapshots_segment
+  ON public.segment_membership_snapshots(segment_id, captured_at DESC);
+
+ALTER TABLE public.segment_membership_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view segment membership snapshots"
+  ON public.segment_membership_snapshots FOR SELECT
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Service role can manage segment membership snapshots"
+  ON public.segment_membership_snapshots FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE public.segment_membership_snapshots IS
+'Size and value of each saved donor segment every time it is recomputed, with entered / exited counts.';
+
+-- ----------------------------------------------------------
+-- 4. Current membership
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.segment_membership_members (
+  segment_id UUID NOT NULL REFERENCES public.saved_donor_segments(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  -- donor_demographics is unique per (organization_id, donor_email)
+  donor_email TEXT NOT NULL,
+  donor_key TEXT,
+  donor_name TEXT,
+  -- { "<condition id>": true | false } at the last run
+  condition_results JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Tracked donor attributes at the last run (see snapshot_donor_segment)
+  attributes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  entered_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (segment_id, donor_email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_segment_membership_members_org
+  ON public.segment_membership_members(organization_id);
+
+ALTER TABLE public.segment_membership_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view segment membership"
+  ON public.segment_membership_members FOR SELECT
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Service role can manage segment membership"
+  ON public.segment_membership_members FOR ALL
+  USING (auth.role() = 'service_role');
+
+-- ----------------------------------------------------------
+-- 5. Membership changes (entered / exited + why)
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.segment_membership_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  segment_id UUID NOT NULL REFERENCES public.saved_donor_segments(id) ON DELETE CASCADE,
+  snapshot_id UUID NOT NULL REFERENCES public.segment_membership_snapshots(id) ON DELETE CASCADE,
+  donor_email TEXT NOT NULL,
+  donor_key TEXT,
+  donor_name TEXT,
+  change_type TEXT NOT NULL CHECK (change_type IN ('entered', 'exited')),
+  -- [{ type: 'condition', condition_id, field, operator, value, was_met, now_met }]
+  -- or [{ type: 'donor_removed' }]
+  reasons JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Fields of the conditions in reasons, for filtering feeds
+  reason_fields TEXT[] NOT NULL DEFAULT '{}',
+  -- Attributes now (NULL if the donor was removed) and at the previous run
+  -- (NULL for entries)
+  attributes JSONB,
+  previous_attributes JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_segment_membership_changes_segment
+  ON public.segment_membership_changes(segment_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_segment_membership_changes_org
+  ON public.segment_membership_changes(organization_id, created_at DESC);
+
+ALTER TABLE public.segment_membership_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view segment membership changes"
+  ON public.segment_membership_changes FOR SELECT
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Service role can manage segment membership changes"
+  ON public.segment_membership_changes FOR ALL
+  USING (auth.role() = 'service_role');
+
+COMMENT ON TABLE public.segment_membership_changes IS
+'Donors entering or leaving saved segments between snapshots, with the filter conditions that flipped.';
+
+-- ----------------------------------------------------------
+-- 6. Recompute one segment
+-- ----------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.snapshot_donor_segment(
+  _segment_id uuid,
+  _triggered_by text DEFAULT 'scheduled'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+VOLATILE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  seg record;
+  where_sql text;
+  conditions_sql text := '''{}''::jsonb';
+  cond jsonb;
+  cond_sql text;
+  v_hash text;
+  v_previous_hash text;
+  v_baseline boolean;
+  v_snapshot_id uuid;
+  v_member_count integer;
+  v_total_value numeric;
+  v_entered integer := 0;
+  v_exited integer := 0;
+BEGIN
+  SELECT s.id, s.organization_id, s.filters INTO seg
+  FROM saved_donor_segments s
+  WHERE s.id = _segment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Segment not found: %', _segment_id;
+  END IF;
+
+  -- Verify user has access to this organization
+  IF NOT (
+    public.user_belongs_to_organization(seg.organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    auth.role() = 'service_role'
+  ) THEN
+    RAISE EXCEPTION 'Access denied to organization data';
+  END IF;
+
+  where_sql := COALESCE(public.donor_segment_filter_sql(seg.filters), 'TRUE');
+
+  -- Per-condition results, keyed by condition id, for reason attribution
+  FOR cond IN SELECT * FROM public.donor_segment_conditions(seg.filters) LOOP
+    cond_sql := public.donor_segment_condition_sql(cond);
+    CONTINUE WHEN cond_sql IS NULL;
+    conditions_sql := conditions_sql || format(
+      ' || jsonb_build_object(%L, COALESCE(%s, false))',
+      COALESCE(cond->>'id', cond->>'field'), cond_sql
+    );
+  END LOOP;
+
+  -- Editing a segment's filters starts a new baseline instead of
+  -- reporting everyone the new definition adds or drops
+  v_hash := md5(seg.filters::text);
+  SELECT filters_hash INTO v_previous_hash
+  FROM segment_membership_snapshots
+  WHERE segment_id = _segment_id
+  ORDER BY captured_at DESC
+  LIMIT 1;
+  v_baseline := v_previous_hash IS NULL OR v_previous_hash <> v_hash;
+
+  DROP TABLE IF EXISTS pg_temp.segment_eval;
+  CREATE TEMP TABLE segment_eval (
+    donor_email text PRIMARY KEY,
+    donor_key text,
+    donor_name text,
+    total_donated numeric,
+    is_member boolean,
+    condition_results jsonb,
+    attributes jsonb
+  ) ON COMMIT DROP;
+
+  EXECUTE format($query$
+    INSERT INTO segment_eval
+    WITH %1$s
+    SELECT
+      d.donor_email,
+      d.donor_key,
+      NULLIF(trim(concat_ws(' ', d.first_name, d.last_name)), ''),
+      d.total_donated,
+      COALESCE(%2$s, false),
+      %3$s,
+      jsonb_build_object(
+        'total_donated', d.total_donated,
+        'donation_count', d.donation_count,
+        'days_since_donation', d.days_since_donation,
+        'last_donation_date', d.last_donation_date,
+        'is_recurring', d.is_recurring,
+        'has_refund', d.has_refund,
+        'segment', d.segment,
+        'churn_risk_label', d.churn_risk_label,
+        'predicted_ltv_90', d.predicted_ltv_90,
+        'state', d.state,
+        -- active / lapsing / lapsed is always the last tier
+        'lifecycle_stage', d.donor_tier[array_length(d.donor_tier, 1)]
+      )
+    FROM tiered d
+    WHERE d.donor_email IS NOT NULL
+  $query$,
+    public.donor_segment_source_sql(where_sql ~ 'd\.attributed_'),
+    where_sql,
+    conditions_sql)
+  USING seg.organization_id;
+
+  SELECT count(*) FILTER (WHERE is_member), COALESCE(sum(total_donated) FILTER (WHERE is_member), 0)
+  INTO v_member_count, v_total_value
+  FROM segment_eval;
+
+  IF v_baseline THEN
+    DELETE FROM segment_membership_members WHERE segment_id = _segment_id;
+  ELSE
+    SELECT count(*) INTO v_entered
+    FROM segment_eval e
+    WHERE e.is_member
+      AND NOT EXISTS (
+        SELECT 1 FROM segment_membership_members m
+        WHERE m.segment_id = _segment_id AND m.donor_email = e.donor_email
+      );
+
+    SELECT count(*) INTO v_exited
+    FROM segment_membership_members m
+    LEFT JOIN segment_eval e ON e.donor_email = m.donor_email
+    WHERE m.segment_id = _segment_id AND NOT COALESCE(e.is_member, false);
+  END IF;
+
+  INSERT INTO segment_membership_snapshots (
+    organization_id, segment_id, member_count, total_value,
+    entered_count, exited_count, is_baseline, filters_hash, triggered_by
+  )
+  VALUES (
+    seg.organization_id, _segment_id, v_member_count, v_total_value,
+    v_entered, v_exited, v_baseline, v_hash, _triggered_by
+  )
+  RETURNING id INTO v_snapshot_id;
+
+  IF NOT v_baseline THEN
+    INSERT INTO segment_membership_changes (
+      organization_id, segment_id, snapshot_id, donor_email, donor_key, donor_name,
+      change_type, reasons, reason_fields, attributes, previous_attributes
+    )
+    SELECT
+      seg.organization_id, _segment_id, v_snapshot_id, e.donor_email, e.donor_key, e.donor_name,
+      'entered', r.reasons, r.fields, e.attributes, NULL
+    FROM segment_eval e
+    CROSS JOIN LATERAL public.segment_membership_reasons(seg.filters, NULL, e.condition_results) r
+    WHERE e.is_member
+      AND NOT EXISTS (
+        SELECT 1 FROM segment_membership_members m
+        WHERE m.segment_id = _segment_id AND m.donor_email = e.donor_email
+      );
+
+    INSERT INTO segment_membership_changes (
+      organization_id, segment_id, snapshot_id, donor_email, donor_key, donor_name,
+      change_type, reasons, reason_fields, attributes, previous_attributes
+    )
+    SELECT
+      seg.organization_id, _segment_id, v_snapshot_id, m.donor_email,
+      COALESCE(e.donor_key, m.donor_key), COALESCE(e.donor_name, m.donor_name),
+      'exited', r.reasons, r.fields, e.attributes, m.attributes
+    FROM segment_membership_members m
+    LEFT JOIN segment_eval e ON e.donor_email = m.donor_email
+    CROSS JOIN LATERAL public.segment_membership_reasons(seg.filters, m.condition_results, e.condition_results) r
+    WHERE m.segment_id = _segment_id AND NOT COALESCE(e.is_member, false);
+
+    DELETE FROM segment_membership_members m
+    WHERE m.segment_id = _segment_id
+      AND NOT EXISTS (
+        SELECT 1 FROM segment_eval e
+        WHERE e.is_member AND e.donor_email = m.donor_email
+      );
+  END IF;
+
+  INSERT INTO segment_membership_members (
+    segment_id, organization_id, donor_email, donor_key, donor_name,
+    condition_results, attributes
+  )
+  SELECT
+    _segment_id, seg.organization_id, e.donor_email, e.donor_key, e.donor_name,
+    e.condition_results, e.attributes
+  FROM segment_eval e
+  WHERE e.is_member
+  ON CONFLICT (segment_id, donor_email) DO UPDATE SET
+    donor_key = EXCLUDED.donor_key,
+    donor_name = EXCLUDED.donor_name,
+    condition_results = EXCLUDED.condition_results,
+    attributes = EXCLUDED.attributes,
+    last_seen_at = now();
+
+  DROP TABLE IF EXISTS pg_temp.segment_eval;
+
+  RETURN jsonb_build_object(
+    'segment_id', _segment_id,
+    'snapshot_id', v_snapshot_id,
+    'member_count', v_member_count,
+    'total_value', v_total_value,
+    'entered_count', v_entered,
+    'exited_count', v_exited,
+    'is_baseline', v_baseline
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.snapshot_donor_segment(uuid, text) TO authenticated;
+
+COMMENT ON FUNCTION public.snapshot_donor_segment(uuid, text) IS
+'Recomputes a saved donor segment, appends a segment_membership_snapshots row and records who entered or left
+since the previous run in segment_membership_changes. Run for every segment by the snapshot_donor_segments job.';
+
+-- ----------------------------------------------------------
+-- 7. Nightly recompute of every saved segment
+-- run-scheduled-jobs calls the RPC itself, so endpoint names it
+-- ----------------------------------------------------------
+INSERT INTO scheduled_jobs (job_name, job_type, description, schedule, endpoint, is_active)
+VALUES (
+  'segment-membership-snapshots',
+  'snapshot_donor_segments',
+  'Recompute every saved donor segment and record who entered or left',
+  '30 5 * * *',
+  'snapshot_donor_segment',
+  true
+)
+ON CONFLICT (job_name) DO UPDATE SET
+  job_type = EXCLUDED.job_type,
+  schedule = EXCLUDED.schedule,
+  endpoint = EXCLUDED.endpoint,
+  is_active = EXCLUDED.is_active;
+
+INSERT INTO public.pipeline_heartbeat (job_type, job_name, sla_minutes, is_critical)
+VALUES (
+  'snapshot_donor_segments',
+  'Segment Membership Snapshots',
+  1560,
+  false
+)
+ON CONFLICT (job_type) DO UPDATE SET
+  job_name = EXCLUDED.job_name,
+  sla_minutes = EXCLUDED.sla_minutes;
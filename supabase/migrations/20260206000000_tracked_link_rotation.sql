@@ -0,0 +1,248 @@
+-- ==========================================================
+-- TRACKED LINK ROTATION
+--
+-- Managed /r/:org/l/:link redirect links that split traffic across
+-- several ActBlue forms and amount ladders:
+-- 1. tracked_links: one row per managed link (slug = the /r path segment)
+-- 2. tracked_link_variants: weighted destinations for a link
+-- 3. get_link_variant_metrics(): clicks, visitors and conversions per
+--    variant for ClientLinkTracking
+--
+-- The Redirect page resolves a link through the resolve-tracked-link
+-- edge function, assigns the visitor to a variant (sticky per visitor)
+-- and records tracked_link_id / link_variant_id / visitor_id in the
+-- attribution_touchpoints metadata written by capture-meta-touchpoint.
+-- Plain /r/:org/:form URLs never wait on that lookup and keep
+-- redirecting straight to the ActBlue form of the same name.
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Managed links
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.tracked_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  -- /r/<org slug>/l/<slug>
+  slug TEXT NOT NULL CHECK (slug ~ '^[a-z0-9][a-z0-9_-]*$'),
+  name TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, slug)
+);
+
+ALTER TABLE public.tracked_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can manage tracked links"
+  ON public.tracked_links FOR ALL
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  )
+  WITH CHECK (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Service role can manage tracked links"
+  ON public.tracked_links FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE TRIGGER update_tracked_links_updated_at
+  BEFORE UPDATE ON public.tracked_links
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.tracked_links IS
+'Managed /r redirect links. Traffic is split across tracked_link_variants by weight with sticky per-visitor assignment.';
+
+-- ----------------------------------------------------------
+-- 2. Weighted variants
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.tracked_link_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  link_id UUID NOT NULL REFERENCES public.tracked_links(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  label TEXT NOT NULL,
+  -- secure.actblue.com/donate/<actblue_form>
+  actblue_form TEXT NOT NULL CHECK (actblue_form ~ '^[A-Za-z0-9_-]+$'),
+  -- Custom amount ladder (ActBlue "amounts" parameter); NULL = form default
+  amounts NUMERIC[],
+  -- Preselected amount
+  default_amount NUMERIC,
+  recurring BOOLEAN NOT NULL DEFAULT false,
+  -- Sent as refcode, or as refcode2 when the URL carries a campaign
+  -- refcode, so donations can be matched to the variant
+  refcode TEXT,
+  -- Relative share of traffic; 0 pauses the variant for new visitors
+  weight INTEGER NOT NULL DEFAULT 1 CHECK (weight >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tracked_link_variants_link
+  ON public.tracked_link_variants(link_id);
+
+CREATE INDEX IF NOT EXISTS idx_tracked_link_variants_org_refcode
+  ON public.tracked_link_variants(organization_id, refcode)
+  WHERE refcode IS NOT NULL;
+
+ALTER TABLE public.tracked_link_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can manage tracked link variants"
+  ON public.tracked_link_variants FOR ALL
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  )
+  WITH CHECK (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Service role can manage tracked link variants"
+  ON public.tracked_link_variants FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE TRIGGER update_tracked_link_variants_updated_at
+  BEFORE UPDATE ON public.tracked_link_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Redirect clicks carrying a variant (written by capture-meta-touchpoint)
+CREATE INDEX IF NOT EXISTS idx_attribution_touchpoints_link_variant
+  ON public.attribution_touchpoints ((metadata->>'link_variant_id'))
+  WHERE metadata ? 'link_variant_id';
+
+-- ----------------------------------------------------------
+-- 3. Conversion by variant
+-- ----------------------------------------------------------
+-- Donations are matched to a variant by Click ID (refcode2 suffix of a
+-- click on that variant, same rule as get_link_tracking_metrics) or, for
+-- variants with their own refcode, by refcode / refcode2. Click ID wins
+-- when both match.
+CREATE OR REPLACE FUNCTION public.get_link_variant_metrics(
+  p_organization_id UUID,
+  p_start_date TEXT,
+  p_end_date TEXT
+)
+RETURNS TABLE (
+  link_id UUID,
+  variant_id UUID,
+  clicks BIGINT,
+  unique_visitors BIGINT,
+  conversions BIGINT,
+  revenue NUMERIC
+)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT (
+    public.user_belongs_to_organization(p_organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role) OR
+    auth.role() = 'service_role'
+  ) THEN
+    RAISE EXCEPTION 'Access denied to organization data';
+  END IF;
+
+  RETURN QUERY
+  WITH variant_clicks AS (
+    SELECT
+      v.id AS variant_id,
+      COALESCE(t.metadata->>'visitor_id', t.metadata->>'session_id', t.id::text) AS visitor_id,
+      CASE
+        WHEN POSITION('_aem_' IN COALESCE(t.metadata->>'fbclid', '')) > 0
+        THEN SUBSTRING(t.metadata->>'fbclid' FROM POSITION('_aem_' IN t.metadata->>'fbclid') + 5)
+        WHEN LENGTH(COALESCE(t.metadata->>'fbclid', '')) >= 24
+        THEN RIGHT(t.metadata->>'fbclid', 24)
+        ELSE NULL
+      END AS fbclid_suffix
+    FROM attribution_touchpoints t
+    JOIN tracked_link_variants v
+      ON v.id::text = t.metadata->>'link_variant_id'
+     AND v.organization_id = t.organization_id
+    WHERE t.organization_id = p_organization_id
+      AND t.metadata ? 'link_variant_id'
+      AND t.occurred_at::date >= p_start_date::date
+      AND t.occurred_at::date <= p_end_date::date
+  ),
+  donation_data AS (
+    SELECT
+      d.id,
+      d.amount,
+      d.refcode,
+      d.refcode2,
+      CASE
+        WHEN d.refcode2 LIKE 'fb_m_%' THEN REPLACE(d.refcode2, 'fb_m_', '')
+        WHEN d.refcode2 LIKE 'fb_%' THEN REPLACE(d.refcode2, 'fb_', '')
+        ELSE NULL
+      END AS suffix
+    FROM actblue_transactions d
+    WHERE d.organization_id = p_organization_id
+      AND d.transaction_date::date >= p_start_date::date
+      AND d.transaction_date::date <= p_end_date::date
+      AND d.transaction_type = 'donation'
+  ),
+  click_id_matches AS (
+    SELECT DISTINCT ON (dd.id)
+      vc.variant_id,
+      dd.id AS donation_id,
+      dd.amount,
+      1 AS priority
+    FROM donation_data dd
+    JOIN variant_clicks vc ON vc.fbclid_suffix = dd.suffix
+    WHERE dd.suffix IS NOT NULL
+    ORDER BY dd.id
+  ),
+  refcode_matches AS (
+    SELECT
+      v.id AS variant_id,
+      dd.id AS donation_id,
+      dd.amount,
+      2 AS priority
+    FROM donation_data dd
+    JOIN tracked_link_variants v
+      ON v.organization_id = p_organization_id
+     AND v.refcode IS NOT NULL
+     AND (v.refcode = dd.refcode OR v.refcode = dd.refcode2)
+  ),
+  matched AS (
+    SELECT DISTINCT ON (m.donation_id) m.variant_id, m.amount
+    FROM (
+      SELECT * FROM click_id_matches
+      UNION ALL
+      SELECT * FROM refcode_matches
+    ) m
+    ORDER BY m.donation_id, m.priority
+  ),
+  click_stats AS (
+    SELECT vc.variant_id, COUNT(*) AS clicks, COUNT(DISTINCT vc.visitor_id) AS visitors
+    FROM variant_clicks vc
+    GROUP BY vc.variant_id
+  ),
+  conversion_stats AS (
+    SELECT mt.variant_id, COUNT(*) AS conversions, SUM(mt.amount) AS revenue
+    FROM matched mt
+    GROUP BY mt.variant_id
+  )
+  SELECT
+    v.link_id,
+    v.id,
+    COALESCE(cs.clicks, 0)::BIGINT,
+    COALESCE(cs.visitors, 0)::BIGINT,
+    COALESCE(cv.conversions, 0)::BIGINT,
+    COALESCE(cv.revenue, 0)::NUMERIC
+  FROM tracked_link_variants v
+  LEFT JOIN click_stats cs ON cs.variant_id = v.id
+  LEFT JOIN conversion_stats cv ON cv.variant_id = v.id
+  WHERE v.organization_id = p_organization_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_link_variant_metrics(UUID, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,64 @@
+-- ==========================================================
+-- PDF REPORT STORAGE
+--
+-- generate-report and send-email-report now render real PDFs
+-- (supabase/functions/_shared/pdfReport.ts) and keep them in a private
+-- storage bucket so emailed reports can be attached and re-downloaded:
+-- 1. generated-reports bucket (private)
+-- 2. generated_reports.storage_path / organization_id
+-- 3. email_report_logs.report_id -> the PDF that was attached
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Private bucket
+-- ----------------------------------------------------------
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('generated-reports', 'generated-reports', false, 52428800, ARRAY['application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+-- ----------------------------------------------------------
+-- 2. Report records point at their stored file
+-- ----------------------------------------------------------
+ALTER TABLE public.generated_reports
+  ADD COLUMN IF NOT EXISTS storage_path TEXT,
+  ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES public.client_organizations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_generated_reports_organization
+  ON public.generated_reports(organization_id, created_at DESC)
+  WHERE organization_id IS NOT NULL;
+
+COMMENT ON COLUMN public.generated_reports.storage_path IS
+'Object path in the generated-reports bucket (PDF reports only). Download via a signed URL.';
+
+CREATE POLICY "Org members can view org reports"
+  ON public.generated_reports FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IS NOT NULL AND
+    public.user_belongs_to_organization(organization_id)
+  );
+
+-- Objects are readable by admins, the user who generated the report and
+-- members of the report's organization. Only the service role writes.
+CREATE POLICY "Report owners can read generated report files"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'generated-reports' AND (
+      public.has_role(auth.uid(), 'admin'::app_role) OR
+      EXISTS (
+        SELECT 1 FROM public.generated_reports gr
+        WHERE gr.storage_path = storage.objects.name
+          AND (
+            gr.generated_by = auth.uid() OR
+            (gr.organization_id IS NOT NULL AND public.user_belongs_to_organization(gr.organization_id))
+          )
+      )
+    )
+  );
+
+-- ----------------------------------------------------------
+-- 3. Which PDF an emailed report carried
+-- ----------------------------------------------------------
+ALTER TABLE public.email_report_logs
+  ADD COLUMN IF NOT EXISTS report_id UUID REFERENCES public.generated_reports(id) ON DELETE SET NULL;
@@ -0,0 +1,25 @@
+-- ==========================================================
+-- SMS SEGMENT COUNTS ON GENERATED CAMPAIGN MESSAGES
+--
+-- generate-campaign-messages now runs each draft through the
+-- segment-aware compliance checker (_shared/complianceChecker.ts)
+-- and keeps the result with the draft:
+-- 1. sms_encoding / segment_count for listing and sorting
+-- 2. compliance_checks with the full result (cost, MMS, non-GSM chars)
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Encoding and segment count
+-- ----------------------------------------------------------
+ALTER TABLE public.generated_campaign_messages
+  ADD COLUMN IF NOT EXISTS sms_encoding TEXT CHECK (sms_encoding IN ('GSM-7', 'UCS-2')),
+  ADD COLUMN IF NOT EXISTS segment_count INTEGER;
+
+-- ----------------------------------------------------------
+-- 2. Full compliance result
+-- ----------------------------------------------------------
+ALTER TABLE public.generated_campaign_messages
+  ADD COLUMN IF NOT EXISTS compliance_checks JSONB;
+
+COMMENT ON COLUMN public.generated_campaign_messages.compliance_checks IS
+'runComplianceChecks() checks for the draft without the opt-out: encoding, segment_count, estimated_cost, is_mms, non_gsm_characters.';
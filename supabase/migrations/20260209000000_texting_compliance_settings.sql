@@ -0,0 +1,55 @@
+-- ==========================================================
+-- TEXTING COMPLIANCE RULE PACKS
+--
+-- Per-organization settings for the political texting rules engine
+-- (supabase/functions/_shared/textingRules.ts). The
+-- check-texting-compliance edge function loads these and returns
+-- per-rule pass/fail explanations for drafts in ClientActions and
+-- the Campaign Launcher:
+-- 1. texting_compliance_settings: enabled packs, paid-for-by committee,
+--    quiet-hours window and allowed short-link domains
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Settings (one row per org; orgs without a row get the defaults)
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.texting_compliance_settings (
+  organization_id UUID PRIMARY KEY REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  -- carrier_basics | quiet_hours | state_rules | paid_for_by | link_shorteners
+  enabled_packs TEXT[] NOT NULL DEFAULT ARRAY['carrier_basics', 'quiet_hours', 'state_rules', 'link_shorteners'],
+  paid_for_by TEXT,
+  -- Local sending window; the engine never widens the federal 8am-9pm
+  quiet_hours_start SMALLINT NOT NULL DEFAULT 8 CHECK (quiet_hours_start BETWEEN 0 AND 23),
+  quiet_hours_end SMALLINT NOT NULL DEFAULT 21 CHECK (quiet_hours_end BETWEEN 1 AND 24),
+  allowed_link_domains TEXT[] NOT NULL DEFAULT '{}',
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (quiet_hours_start < quiet_hours_end),
+  CHECK (enabled_packs <@ ARRAY['carrier_basics', 'quiet_hours', 'state_rules', 'paid_for_by', 'link_shorteners'])
+);
+
+ALTER TABLE public.texting_compliance_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can manage texting compliance settings"
+  ON public.texting_compliance_settings FOR ALL
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  )
+  WITH CHECK (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Service role can manage texting compliance settings"
+  ON public.texting_compliance_settings FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE TRIGGER update_texting_compliance_settings_updated_at
+  BEFORE UPDATE ON public.texting_compliance_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.texting_compliance_settings IS
+'Rule packs and parameters for the texting compliance engine (check-texting-compliance).';
@@ -0,0 +1,299 @@
+-- ==========================================================
+-- GOOGLE ADS SYNC
+--
+-- Storage for sync-google-ads, mirroring the Meta tables:
+-- 1. Allow google_ads rows in client_api_credentials
+-- 2. google_ads_campaigns / google_ads_ad_groups / google_ads_ads
+-- 3. google_ads_metrics_daily: campaign, ad group and ad level
+-- 4. google_ads_conversions_daily: split by conversion action
+-- 5. google_ads_clicks: gclids from click_view for attribution
+-- 6. gclid on actblue_transactions, Google columns on daily_aggregated_metrics
+-- 7. Tiered scheduling (same tiers as meta_sync_config)
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Credentials platform
+-- ----------------------------------------------------------
+ALTER TABLE public.client_api_credentials
+  DROP CONSTRAINT IF EXISTS client_api_credentials_platform_check;
+
+ALTER TABLE public.client_api_credentials
+  ADD CONSTRAINT client_api_credentials_platform_check
+  CHECK (platform = ANY (ARRAY['meta'::text, 'meta_capi'::text, 'switchboard'::text, 'actblue'::text, 'google_ads'::text]));
+
+-- ----------------------------------------------------------
+-- 2. Account structure
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.google_ads_campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  customer_id TEXT NOT NULL,
+  campaign_id TEXT NOT NULL,
+  campaign_name TEXT,
+  status TEXT,
+  -- SEARCH, VIDEO (YouTube), DISPLAY, PERFORMANCE_MAX, ...
+  channel_type TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, campaign_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.google_ads_ad_groups (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  campaign_id TEXT NOT NULL,
+  ad_group_id TEXT NOT NULL,
+  ad_group_name TEXT,
+  status TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, ad_group_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.google_ads_ads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  campaign_id TEXT NOT NULL,
+  ad_group_id TEXT NOT NULL,
+  ad_id TEXT NOT NULL,
+  ad_name TEXT,
+  ad_type TEXT,
+  final_url TEXT,
+  -- Parsed from final_url and mirrored into refcode_mappings unless
+  -- another platform already maps the refcode
+  refcode TEXT,
+  status TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, ad_id)
+);
+
+-- ----------------------------------------------------------
+-- 3. Daily metrics
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.google_ads_metrics_daily (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  customer_id TEXT NOT NULL,
+  level TEXT NOT NULL CHECK (level IN ('campaign', 'ad_group', 'ad')),
+  -- campaign_id, ad_group_id or ad_id depending on level
+  entity_id TEXT NOT NULL,
+  campaign_id TEXT NOT NULL,
+  ad_group_id TEXT,
+  ad_id TEXT,
+  date DATE NOT NULL,
+  impressions BIGINT NOT NULL DEFAULT 0,
+  clicks BIGINT NOT NULL DEFAULT 0,
+  cost NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  conversions NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  conversion_value NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  video_views BIGINT NOT NULL DEFAULT 0,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, level, entity_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_google_ads_metrics_daily_org_level_date
+  ON public.google_ads_metrics_daily (organization_id, level, date DESC);
+
+CREATE INDEX IF NOT EXISTS idx_google_ads_metrics_daily_campaign
+  ON public.google_ads_metrics_daily (organization_id, campaign_id, date);
+
+-- ----------------------------------------------------------
+-- 4. Conversions by action
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.google_ads_conversions_daily (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  campaign_id TEXT NOT NULL,
+  conversion_action TEXT NOT NULL,
+  date DATE NOT NULL,
+  conversions NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  conversion_value NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, campaign_id, conversion_action, date)
+);
+
+-- ----------------------------------------------------------
+-- 5. Click ids
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.google_ads_clicks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  gclid TEXT NOT NULL,
+  click_date DATE NOT NULL,
+  campaign_id TEXT,
+  ad_group_id TEXT,
+  ad_id TEXT,
+  keyword TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, gclid)
+);
+
+CREATE INDEX IF NOT EXISTS idx_google_ads_clicks_org_date
+  ON public.google_ads_clicks (organization_id, click_date DESC);
+
+-- ----------------------------------------------------------
+-- RLS: org members read, service role writes
+-- ----------------------------------------------------------
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'google_ads_campaigns',
+    'google_ads_ad_groups',
+    'google_ads_ads',
+    'google_ads_metrics_daily',
+    'google_ads_conversions_daily',
+    'google_ads_clicks'
+  ] LOOP
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', t);
+    EXECUTE format(
+      'CREATE POLICY "Org members can view %1$s" ON public.%1$I FOR SELECT USING (
+        public.user_belongs_to_organization(organization_id) OR
+        public.has_role(auth.uid(), ''admin''::app_role)
+      )', t);
+    EXECUTE format(
+      'CREATE POLICY "Service role can manage %1$s" ON public.%1$I FOR ALL
+        USING (auth.role() = ''service_role'')
+        WITH CHECK (auth.role() = ''service_role'')', t);
+  END LOOP;
+END $$;
+
+CREATE TRIGGER update_google_ads_campaigns_updated_at
+  BEFORE UPDATE ON public.google_ads_campaigns
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_google_ads_ad_groups_updated_at
+  BEFORE UPDATE ON public.google_ads_ad_groups
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_google_ads_ads_updated_at
+  BEFORE UPDATE ON public.google_ads_ads
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ----------------------------------------------------------
+-- 6. Attribution + ROI columns
+-- ----------------------------------------------------------
+ALTER TABLE public.actblue_transactions
+  ADD COLUMN IF NOT EXISTS gclid TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_actblue_transactions_gclid
+  ON public.actblue_transactions (organization_id, gclid)
+  WHERE gclid IS NOT NULL;
+
+ALTER TABLE public.daily_aggregated_metrics
+  ADD COLUMN IF NOT EXISTS google_ads_spend NUMERIC(12, 2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS google_ads_impressions BIGINT DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS google_ads_clicks BIGINT DEFAULT 0;
+
+COMMENT ON COLUMN public.daily_aggregated_metrics.total_ad_spend IS
+'Meta + Google Ads spend for the day';
+
+-- ----------------------------------------------------------
+-- 7. Tiered scheduling
+-- The tier columns on client_api_credentials are per row, so
+-- google_ads rows reuse meta_sync_priority / last_meta_sync_at
+-- and the intervals in meta_sync_config.
+-- ----------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_google_ads_accounts_due_for_sync(p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  credential_id UUID,
+  organization_id UUID,
+  organization_name TEXT,
+  sync_priority TEXT,
+  interval_minutes INTEGER,
+  date_range_days INTEGER,
+  last_sync_at TIMESTAMPTZ,
+  minutes_overdue INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id AS credential_id,
+    c.organization_id,
+    o.name AS organization_name,
+    COALESCE(c.meta_sync_priority, 'medium') AS sync_priority,
+    cfg.interval_minutes,
+    cfg.date_range_days,
+    c.last_meta_sync_at AS last_sync_at,
+    GREATEST(0,
+      (EXTRACT(EPOCH FROM (now() - COALESCE(c.last_meta_sync_at, now() - INTERVAL '1 day'))) / 60 - cfg.interval_minutes)
+    )::INTEGER AS minutes_overdue
+  FROM public.client_api_credentials c
+  JOIN public.client_organizations o ON c.organization_id = o.id
+  JOIN public.meta_sync_config cfg ON COALESCE(c.meta_sync_priority, 'medium') = cfg.tier
+  WHERE c.platform = 'google_ads'
+    AND c.is_active = TRUE
+    AND (c.rate_limit_backoff_until IS NULL OR c.rate_limit_backoff_until <= now())
+    AND (
+      c.last_meta_sync_at IS NULL
+      OR EXTRACT(EPOCH FROM (now() - c.last_meta_sync_at)) / 60 >= cfg.interval_minutes
+    )
+  ORDER BY
+    CASE COALESCE(c.meta_sync_priority, 'medium') WHEN 'high' THEN 1 WHEN 'medium' THEN 2 ELSE 3 END,
+    minutes_overdue DESC
+  LIMIT p_limit;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_google_ads_sync_status(
+  p_organization_id UUID,
+  p_status TEXT,
+  p_latest_data_date DATE DEFAULT NULL,
+  p_error TEXT DEFAULT NULL,
+  p_is_rate_limited BOOLEAN DEFAULT FALSE
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  UPDATE public.client_api_credentials
+  SET
+    last_meta_sync_at = CASE WHEN p_status IN ('success', 'success_no_data') THEN now() ELSE last_meta_sync_at END,
+    last_sync_at = now(),
+    last_sync_status = p_status,
+    latest_meta_data_date = COALESCE(p_latest_data_date, latest_meta_data_date),
+    sync_error_count = CASE WHEN p_status IN ('success', 'success_no_data') THEN 0 ELSE COALESCE(sync_error_count, 0) + 1 END,
+    last_sync_error = p_error,
+    rate_limit_backoff_until = CASE
+      WHEN p_is_rate_limited THEN now() + INTERVAL '15 minutes'
+      ELSE NULL
+    END,
+    updated_at = now()
+  WHERE organization_id = p_organization_id
+    AND platform = 'google_ads';
+END;
+$$;
+
+INSERT INTO scheduled_jobs (job_name, job_type, description, schedule, endpoint, is_active)
+VALUES (
+  'Google Ads Tiered Sync',
+  'sync_google_ads',
+  'Sync Google Ads accounts that are due for their meta_sync_config tier',
+  '*/15 * * * *',
+  'sync-google-ads',
+  true
+)
+ON CONFLICT (job_name) DO UPDATE SET
+  job_type = EXCLUDED.job_type,
+  schedule = EXCLUDED.schedule,
+  endpoint = EXCLUDED.endpoint,
+  is_active = EXCLUDED.is_active;
+
+INSERT INTO public.pipeline_heartbeat (job_type, job_name, sla_minutes, is_critical)
+VALUES (
+  'sync_google_ads',
+  'Google Ads Tiered Sync',
+  360,
+  false
+)
+ON CONFLICT (job_type) DO UPDATE SET
+  job_name = EXCLUDED.job_name,
+  sla_minutes = EXCLUDED.sla_minutes;
@@ -0,0 +1,237 @@
+-- ==========================================================
+-- EMAIL PLATFORM SYNC
+--
+-- Storage for sync-email-platforms (ActionKit, EveryAction,
+-- Mailchimp) so the 'email' attribution channel has data:
+-- 1. Allow 'email' rows in client_api_credentials
+--    (encrypted_credentials.provider picks the connector)
+-- 2. email_mailings: one row per sent mailing with its counts
+-- 3. get_email_metrics RPC, joining mailing refcodes to ActBlue
+-- 4. Scheduled sync + refcode reconciliation
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Credentials platform
+-- ----------------------------------------------------------
+ALTER TABLE public.client_api_credentials
+  DROP CONSTRAINT IF EXISTS client_api_credentials_platform_check;
+
+ALTER TABLE public.client_api_credentials
+  ADD CONSTRAINT client_api_credentials_platform_check
+  CHECK (platform = ANY (ARRAY['meta'::text, 'meta_capi'::text, 'switchboard'::text, 'actblue'::text, 'google_ads'::text, 'email'::text]));
+
+-- ----------------------------------------------------------
+-- 2. Mailings
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.email_mailings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('actionkit', 'everyaction', 'mailchimp')),
+  mailing_id TEXT NOT NULL,
+  mailing_name TEXT,
+  subject TEXT,
+  from_name TEXT,
+  list_name TEXT,
+  sent_at TIMESTAMPTZ,
+  sends INTEGER NOT NULL DEFAULT 0,
+  delivered INTEGER NOT NULL DEFAULT 0,
+  opens INTEGER NOT NULL DEFAULT 0,
+  unique_opens INTEGER NOT NULL DEFAULT 0,
+  clicks INTEGER NOT NULL DEFAULT 0,
+  unique_clicks INTEGER NOT NULL DEFAULT 0,
+  unsubscribes INTEGER NOT NULL DEFAULT 0,
+  bounces INTEGER NOT NULL DEFAULT 0,
+  complaints INTEGER NOT NULL DEFAULT 0,
+  -- Tracked links from the mailing; reconcile-email-refcodes reads these
+  link_urls TEXT[] NOT NULL DEFAULT '{}',
+  extracted_refcode TEXT,
+  destination_url TEXT,
+  -- Set once reconcile-email-refcodes has looked at the links, refcode or
+  -- not, so mailings without one don't get rescanned every run
+  refcode_checked_at TIMESTAMPTZ,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, provider, mailing_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_mailings_org_sent
+  ON public.email_mailings (organization_id, sent_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_email_mailings_unreconciled
+  ON public.email_mailings (organization_id, sent_at DESC)
+  WHERE refcode_checked_at IS NULL;
+
+ALTER TABLE public.email_mailings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view email_mailings"
+  ON public.email_mailings FOR SELECT
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Service role can manage email_mailings"
+  ON public.email_mailings FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE TRIGGER update_email_mailings_updated_at
+  BEFORE UPDATE ON public.email_mailings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ----------------------------------------------------------
+-- 3. Email metrics RPC
+-- Donations are matched to mailings by refcode: first the
+-- refcode_mappings row reconcile-email-refcodes wrote, then the
+-- mailing's own extracted_refcode. Email has no per-send cost,
+-- so there is no ROI; raised is what the mailings brought in.
+-- ----------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_email_metrics(
+  p_organization_id UUID,
+  p_start_date DATE,
+  p_end_date DATE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result JSONB;
+BEGIN
+  IF NOT (
+    public.user_belongs_to_organization(p_organization_id)
+    OR public.has_role(auth.uid(), 'admin'::app_role)
+    OR auth.role() = 'service_role'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  WITH
+  mailings AS (
+    SELECT m.*
+    FROM email_mailings m
+    WHERE m.organization_id = p_organization_id
+      AND m.sent_at >= p_start_date
+      AND m.sent_at < (p_end_date + 1)
+  ),
+  mailing_refcodes AS (
+    SELECT m.id AS mailing_row_id, LOWER(rm.refcode) AS refcode
+    FROM mailings m
+    JOIN refcode_mappings rm
+      ON rm.organization_id = p_organization_id
+     AND rm.platform = 'email'
+     AND rm.campaign_id = m.mailing_id
+    UNION
+    SELECT m.id, LOWER(m.extracted_refcode)
+    FROM mailings m
+    WHERE m.extracted_refcode IS NOT NULL
+  ),
+  -- Donations can arrive days after the send, so the window runs to the
+  -- end date regardless of when each mailing went out
+  donations AS (
+    SELECT DISTINCT ON (t.id)
+      mr.mailing_row_id,
+      t.id,
+      t.amount,
+      t.donor_email
+    FROM actblue_transactions t
+    JOIN mailing_refcodes mr ON LOWER(t.refcode) = mr.refcode
+    WHERE t.organization_id = p_organization_id
+      AND t.transaction_type = 'donation'
+      AND t.transaction_date >= p_start_date
+      AND t.transaction_date < (p_end_date + 1)
+    ORDER BY t.id, mr.mailing_row_id
+  ),
+  mailing_donations AS (
+    SELECT
+      mailing_row_id,
+      COUNT(*) AS donations,
+      COALESCE(SUM(amount), 0) AS raised,
+      COUNT(DISTINCT donor_email) AS donors
+    FROM donations
+    GROUP BY mailing_row_id
+  ),
+  mailings_with_metrics AS (
+    SELECT
+      m.*,
+      COALESCE(md.donations, 0) AS donations,
+      COALESCE(md.raised, 0) AS raised,
+      COALESCE(md.donors, 0) AS donors
+    FROM mailings m
+    LEFT JOIN mailing_donations md ON md.mailing_row_id = m.id
+  )
+  SELECT jsonb_build_object(
+    'mailings', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'id', id,
+          'provider', provider,
+          'mailingId', mailing_id,
+          'mailingName', mailing_name,
+          'subject', subject,
+          'sentAt', sent_at,
+          'sends', sends,
+          'delivered', delivered,
+          'uniqueOpens', unique_opens,
+          'uniqueClicks', unique_clicks,
+          'unsubscribes', unsubscribes,
+          'refcode', extracted_refcode,
+          'donations', donations,
+          'raised', raised,
+          'donors', donors
+        )
+        ORDER BY sent_at DESC
+      )
+      FROM mailings_with_metrics
+    ), '[]'::jsonb),
+    'summary', (
+      SELECT jsonb_build_object(
+        'mailingCount', COUNT(*),
+        'totalSent', COALESCE(SUM(sends), 0),
+        'totalDelivered', COALESCE(SUM(delivered), 0),
+        'totalUniqueOpens', COALESCE(SUM(unique_opens), 0),
+        'totalUniqueClicks', COALESCE(SUM(unique_clicks), 0),
+        'totalUnsubscribes', COALESCE(SUM(unsubscribes), 0),
+        'totalDonations', COALESCE(SUM(donations), 0),
+        'totalRaised', COALESCE(SUM(raised), 0),
+        'lastSentAt', MAX(sent_at)
+      )
+      FROM mailings_with_metrics
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$;
+
+-- ----------------------------------------------------------
+-- 4. Scheduling
+-- ----------------------------------------------------------
+INSERT INTO scheduled_jobs (job_name, job_type, description, schedule, endpoint, is_active)
+VALUES (
+  'Email Platform Sync',
+  'sync_email_platforms',
+  'Sync mailings from ActionKit / EveryAction / Mailchimp, then reconcile email refcodes',
+  '0 */2 * * *',
+  'sync-email-platforms',
+  true
+)
+ON CONFLICT (job_name) DO UPDATE SET
+  job_type = EXCLUDED.job_type,
+  schedule = EXCLUDED.schedule,
+  endpoint = EXCLUDED.endpoint,
+  is_active = EXCLUDED.is_active;
+
+INSERT INTO public.pipeline_heartbeat (job_type, job_name, sla_minutes, is_critical)
+VALUES (
+  'sync_email_platforms',
+  'Email Platform Sync',
+  360,
+  false
+)
+ON CONFLICT (job_type) DO UPDATE SET
+  job_name = EXCLUDED.job_name,
+  sla_minutes = EXCLUDED.sla_minutes;
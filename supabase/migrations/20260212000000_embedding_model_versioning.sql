@@ -0,0 +1,116 @@
+-- ==========================================================
+-- EMBEDDING MODEL VERSIONING
+--
+-- generate-embeddings now calls a real embedding endpoint (or
+-- a deterministic local embedder) via _shared/embeddings.ts.
+-- Vectors from different models are not comparable, so:
+-- 1. Tag every stored vector with the model that produced it
+-- 2. Drop the chat-completion "embeddings" already stored;
+--    they were generated text, not embeddings, and the next
+--    generate_embeddings runs re-embed those rows
+-- 3. match_trend_events: similarity search over stored
+--    vectors, restricted to a single model
+-- 4. Daily backfill job for rows on an older model
+-- detect-trend-events clusters phrases by comparing the
+-- recent same-model vectors it already loads, with a
+-- per-model cutoff (clusterSimilarityThreshold).
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Model columns
+-- ----------------------------------------------------------
+ALTER TABLE public.organization_profiles
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+ALTER TABLE public.trend_events
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+COMMENT ON COLUMN public.organization_profiles.embedding_model IS
+  'Provider/model/dimensions that produced embedding, e.g. openai/text-embedding-3-small@768. Only compare vectors with the same value.';
+COMMENT ON COLUMN public.trend_events.embedding_model IS
+  'Provider/model/dimensions that produced embedding, e.g. openai/text-embedding-3-small@768. Only compare vectors with the same value.';
+
+CREATE INDEX IF NOT EXISTS idx_trend_events_embedding_model
+  ON public.trend_events (embedding_model, last_seen_at DESC)
+  WHERE embedding IS NOT NULL;
+
+-- ----------------------------------------------------------
+-- 2. Discard unversioned vectors
+-- ----------------------------------------------------------
+UPDATE public.organization_profiles
+SET embedding = NULL, embedding_generated_at = NULL
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+UPDATE public.trend_events
+SET embedding = NULL, embedding_generated_at = NULL
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+-- ----------------------------------------------------------
+-- 3. Similarity search
+-- Cosine similarity (1 - cosine distance) against trend events
+-- embedded with p_model. The ivfflat index was trained on the
+-- discarded vectors, so it is replaced with HNSW, which needs
+-- no training and stays accurate as rows are re-embedded.
+-- ----------------------------------------------------------
+DROP INDEX IF EXISTS public.idx_trend_events_embedding;
+
+CREATE INDEX IF NOT EXISTS idx_trend_events_embedding_hnsw
+  ON public.trend_events
+  USING hnsw (embedding vector_cosine_ops)
+  WHERE embedding IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.match_trend_events(
+  p_query_embedding vector(768),
+  p_model TEXT,
+  p_match_threshold FLOAT8 DEFAULT 0.75,
+  p_match_count INTEGER DEFAULT 20,
+  p_since TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  event_key TEXT,
+  event_title TEXT,
+  similarity FLOAT8,
+  last_seen_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    te.id,
+    te.event_key,
+    te.event_title,
+    1 - (te.embedding <=> p_query_embedding) AS similarity,
+    te.last_seen_at
+  FROM trend_events te
+  WHERE te.embedding IS NOT NULL
+    AND te.embedding_model = p_model
+    AND (p_since IS NULL OR te.last_seen_at >= p_since)
+    AND 1 - (te.embedding <=> p_query_embedding) >= p_match_threshold
+  ORDER BY te.embedding <=> p_query_embedding
+  LIMIT LEAST(GREATEST(p_match_count, 1), 200);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.match_trend_events(vector, TEXT, FLOAT8, INTEGER, TIMESTAMPTZ) TO authenticated, service_role;
+
+-- ----------------------------------------------------------
+-- 4. Backfill job
+-- generate_embeddings keeps up with what is trending now;
+-- this re-embeds profiles and the last 30 days of trend
+-- events that are missing a vector or on an older model.
+-- ----------------------------------------------------------
+INSERT INTO scheduled_jobs (job_name, job_type, description, schedule, endpoint, is_active)
+VALUES (
+  'Embedding Backfill',
+  'backfill_embeddings',
+  'Re-embed org profiles and recent trend events not yet on the current embedding model',
+  '30 3 * * *',
+  'generate-embeddings',
+  true
+)
+ON CONFLICT (job_name) DO UPDATE SET
+  job_type = EXCLUDED.job_type,
+  schedule = EXCLUDED.schedule,
+  endpoint = EXCLUDED.endpoint,
+  is_active = EXCLUDED.is_active;
@@ -0,0 +1,143 @@
+-- ==========================================================
+-- LLM USAGE LEDGER + BUDGETS
+--
+-- Storage for the shared LLM client (_shared/llm.ts). Cached
+-- responses reuse ai_analysis_cache, which the cache cleanup
+-- jobs already prune; this adds:
+-- 1. llm_usage_ledger: one row per AI call (tokens, estimated
+--    cost, prompt id/version, cache hit, errors)
+-- 2. org_llm_budgets: optional monthly USD budget per org
+-- 3. get_llm_budget_status RPC, read before every org-scoped call
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Usage ledger
+-- organization_id is NULL for platform-level jobs (trend
+-- analysis, news classification) that serve every org.
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.llm_usage_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  function_name TEXT NOT NULL,
+  prompt_id TEXT,
+  prompt_version INTEGER,
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  cached BOOLEAN NOT NULL DEFAULT false,
+  latency_ms INTEGER,
+  status TEXT NOT NULL DEFAULT 'success' CHECK (status IN ('success', 'error')),
+  error_code TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_ledger_org_created
+  ON public.llm_usage_ledger (organization_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_ledger_function_created
+  ON public.llm_usage_ledger (function_name, created_at DESC);
+
+ALTER TABLE public.llm_usage_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view llm_usage_ledger"
+  ON public.llm_usage_ledger FOR SELECT
+  USING (
+    (organization_id IS NOT NULL AND public.user_belongs_to_organization(organization_id)) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Service role can manage llm_usage_ledger"
+  ON public.llm_usage_ledger FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- ----------------------------------------------------------
+-- 2. Budgets
+-- No row means no budget. hard_limit = false only reports
+-- overspend; true blocks further calls for the month.
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.org_llm_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL UNIQUE REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  monthly_budget_usd NUMERIC(10, 2) NOT NULL CHECK (monthly_budget_usd >= 0),
+  hard_limit BOOLEAN NOT NULL DEFAULT true,
+  alert_threshold_pct INTEGER NOT NULL DEFAULT 80 CHECK (alert_threshold_pct BETWEEN 1 AND 100),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.org_llm_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view org_llm_budgets"
+  ON public.org_llm_budgets FOR SELECT
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Admins can manage org_llm_budgets"
+  ON public.org_llm_budgets FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Service role can manage org_llm_budgets"
+  ON public.org_llm_budgets FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE TRIGGER update_org_llm_budgets_updated_at
+  BEFORE UPDATE ON public.org_llm_budgets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ----------------------------------------------------------
+-- 3. Budget status RPC
+-- Spend is the current calendar month (UTC) of ledger cost.
+-- ----------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.get_llm_budget_status(p_organization_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_budget org_llm_budgets%ROWTYPE;
+  v_spent NUMERIC;
+BEGIN
+  IF NOT (
+    public.user_belongs_to_organization(p_organization_id)
+    OR public.has_role(auth.uid(), 'admin'::app_role)
+    OR auth.role() = 'service_role'
+  ) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT COALESCE(SUM(cost_usd), 0) INTO v_spent
+  FROM llm_usage_ledger
+  WHERE organization_id = p_organization_id
+    AND created_at >= date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+
+  SELECT * INTO v_budget
+  FROM org_llm_budgets
+  WHERE organization_id = p_organization_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'allowed', true,
+      'spent_usd', v_spent,
+      'budget_usd', NULL,
+      'alert', false
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'allowed', NOT v_budget.hard_limit OR v_spent < v_budget.monthly_budget_usd,
+    'spent_usd', v_spent,
+    'budget_usd', v_budget.monthly_budget_usd,
+    'alert', v_spent >= v_budget.monthly_budget_usd * v_budget.alert_threshold_pct / 100.0
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_llm_budget_status(UUID) TO authenticated;
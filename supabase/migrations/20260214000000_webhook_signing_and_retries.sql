@@ -0,0 +1,131 @@
+-- ==========================================================
+-- OUTBOUND WEBHOOKS: SIGNING, RETRIES, DEAD-LETTER QUEUE
+--
+-- send-webhook now signs every attempt (HMAC-SHA256 over
+-- timestamp.body, X-Webhook-Signature) instead of sending the
+-- secret in a header, wraps payloads in a versioned event
+-- envelope, and retries failed deliveries with backoff:
+-- 1. webhook_configs: delivery format + counters send-webhook updates
+-- 2. webhook_deliveries: attempt tracking, retry schedule and
+--    dead-letter state ('pending' | 'delivering' | 'success' |
+--    'retrying' | 'dead_letter')
+-- 3. Scheduled retry job
+-- 4. Counter and retry-claim functions for send-webhook
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Webhook configs
+-- webhook_type picks the body format: slack | teams | discord
+-- get a chat card, custom gets the raw event envelope.
+-- ----------------------------------------------------------
+ALTER TABLE public.webhook_configs
+  ADD COLUMN IF NOT EXISTS webhook_type TEXT NOT NULL DEFAULT 'custom',
+  ADD COLUMN IF NOT EXISTS last_triggered_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS success_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS failure_count INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.webhook_configs.secret IS
+  'HMAC-SHA256 signing key. Never sent; subscribers verify X-Webhook-Signature = sha256=hex(hmac(secret, X-Webhook-Timestamp + "." + body)).';
+
+-- ----------------------------------------------------------
+-- 2. Deliveries
+-- event_id is shared by every delivery of one event, across
+-- retries and replays, so subscribers can dedupe on it.
+-- ----------------------------------------------------------
+ALTER TABLE public.webhook_deliveries
+  ADD COLUMN IF NOT EXISTS event_id TEXT,
+  ADD COLUMN IF NOT EXISTS schema_version INTEGER,
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS duration_ms INTEGER,
+  ADD COLUMN IF NOT EXISTS last_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ;
+
+-- Old single-shot failures never retried; park them in the dead-letter queue
+UPDATE public.webhook_deliveries
+SET status = 'dead_letter', dead_lettered_at = COALESCE(dead_lettered_at, created_at)
+WHERE status = 'failed';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_retry_due
+  ON public.webhook_deliveries (next_attempt_at)
+  WHERE status IN ('retrying', 'delivering');
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_dead_letter
+  ON public.webhook_deliveries (dead_lettered_at DESC)
+  WHERE status = 'dead_letter';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_event
+  ON public.webhook_deliveries (event_id);
+
+-- ----------------------------------------------------------
+-- 3. Retry job
+-- Backoff starts at one minute, so check every few minutes.
+-- ----------------------------------------------------------
+INSERT INTO scheduled_jobs (job_name, job_type, description, schedule, endpoint, is_active)
+VALUES (
+  'Webhook Retries',
+  'retry_webhooks',
+  'Re-attempt failed webhook deliveries whose backoff has elapsed; dead-letter after 8 attempts',
+  '*/5 * * * *',
+  'send-webhook',
+  true
+)
+ON CONFLICT (job_name) DO UPDATE SET
+  job_type = EXCLUDED.job_type,
+  schedule = EXCLUDED.schedule,
+  endpoint = EXCLUDED.endpoint,
+  is_active = EXCLUDED.is_active;
+
+-- ----------------------------------------------------------
+-- 4. Counters and retry claims
+-- Counters are incremented in place so concurrent sends don't
+-- overwrite each other. The retry job claims due deliveries
+-- (SKIP LOCKED) and leases them as 'delivering' until
+-- next_attempt_at, so an overlapping run skips them; a lease
+-- left behind by a crashed run becomes due again when it ends.
+-- ----------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.record_webhook_attempt(
+  p_webhook_id UUID,
+  p_succeeded BOOLEAN
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.webhook_configs
+  SET last_triggered_at = now(),
+      success_count = success_count + CASE WHEN p_succeeded THEN 1 ELSE 0 END,
+      failure_count = failure_count + CASE WHEN p_succeeded THEN 0 ELSE 1 END
+  WHERE id = p_webhook_id;
+$$;
+
+-- The lease must outlast a whole batch (each attempt times out after 10s)
+CREATE OR REPLACE FUNCTION public.claim_due_webhook_deliveries(
+  p_limit INTEGER DEFAULT 50,
+  p_lease_seconds INTEGER DEFAULT 900
+)
+RETURNS SETOF public.webhook_deliveries
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.webhook_deliveries
+  SET status = 'delivering',
+      next_attempt_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE id IN (
+    SELECT id
+    FROM public.webhook_deliveries
+    WHERE status IN ('retrying', 'delivering')
+      AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_webhook_attempt(UUID, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_webhook_attempt(UUID, BOOLEAN) TO service_role;
+REVOKE ALL ON FUNCTION public.claim_due_webhook_deliveries(INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_due_webhook_deliveries(INTEGER, INTEGER) TO service_role;
@@ -0,0 +1,42 @@
+-- ==========================================================
+-- WEB PUSH DELIVERY
+--
+-- Push notifications were recorded as sent but never left the
+-- server. send-notification-email and send-spike-alerts now deliver
+-- VAPID-signed, encrypted Web Push through _shared/pushDelivery.ts:
+-- 1. notification_preferences: which alert types go to push
+-- 2. push_subscriptions: device bookkeeping + update policy so the
+--    browser can re-register an endpoint
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Per-alert-type push preferences
+-- Push is for urgent things; email keeps the notify_* flags.
+-- Defaults cover breaking news and spikes so staff who turn
+-- push on get those on their phones without further setup.
+-- ----------------------------------------------------------
+ALTER TABLE public.notification_preferences
+  ADD COLUMN IF NOT EXISTS push_alert_types TEXT[] NOT NULL
+    DEFAULT ARRAY['breaking_news', 'topic_spike', 'organization_mention']::TEXT[];
+
+COMMENT ON COLUMN public.notification_preferences.push_alert_types IS
+  'Alert types delivered as Web Push when push_notifications is on: breaking_news, topic_spike, organization_mention, bill_alert, bill_update, new_article, bookmark_update';
+
+CREATE INDEX IF NOT EXISTS idx_notification_prefs_push_types
+  ON public.notification_preferences USING GIN (push_alert_types)
+  WHERE push_notifications = true;
+
+-- ----------------------------------------------------------
+-- 2. Subscriptions
+-- Expired endpoints (404/410 from the push service) are deleted
+-- by the sender; last_success_at shows which devices still work.
+-- ----------------------------------------------------------
+ALTER TABLE public.push_subscriptions
+  ADD COLUMN IF NOT EXISTS user_agent TEXT,
+  ADD COLUMN IF NOT EXISTS last_success_at TIMESTAMPTZ;
+
+DROP POLICY IF EXISTS "Users can update own subscriptions" ON public.push_subscriptions;
+CREATE POLICY "Users can update own subscriptions"
+  ON public.push_subscriptions FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
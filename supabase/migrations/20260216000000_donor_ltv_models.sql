@@ -0,0 +1,83 @@
+-- ==========================================================
+-- PROBABILISTIC DONOR LTV
+--
+-- calculate-donor-ltv now fits a BG/NBD + Gamma-Gamma model per
+-- org (_shared/donorLtvModel.ts) and backtests it on a holdout
+-- window against the political RFM heuristic it replaces:
+-- 1. donor_ltv_model_runs: one row per model version per run,
+--    with fitted parameters and backtest metrics, so versions can
+--    be compared before their numbers are used for budgets
+-- 2. donor_ltv_predictions: 80% prediction intervals, P(alive)
+--    and the run that produced each prediction
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Model runs
+-- Every run backtests each model version on the same holdout;
+-- is_active marks the run whose predictions are currently in
+-- donor_ltv_predictions.
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.donor_ltv_model_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  model_version TEXT NOT NULL,
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  log_likelihood NUMERIC,
+  donors_trained INTEGER NOT NULL DEFAULT 0,
+  donors_scored INTEGER NOT NULL DEFAULT 0,
+  -- Backtest: fit on data before calibration_cutoff, score the
+  -- following holdout_days against what donors actually gave
+  holdout_days INTEGER,
+  calibration_cutoff TIMESTAMPTZ,
+  backtest_donors INTEGER,
+  calibration_error NUMERIC,
+  aggregate_error_pct NUMERIC,
+  mean_absolute_error NUMERIC,
+  interval_coverage NUMERIC,
+  calibration_bins JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Org-level forecast from this run (interval from summed draws)
+  predicted_total_365 NUMERIC,
+  predicted_total_365_low NUMERIC,
+  predicted_total_365_high NUMERIC,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  trained_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_donor_ltv_model_runs_org_trained
+  ON public.donor_ltv_model_runs (organization_id, trained_at DESC);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_donor_ltv_model_runs_one_active
+  ON public.donor_ltv_model_runs (organization_id)
+  WHERE is_active;
+
+ALTER TABLE public.donor_ltv_model_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view donor_ltv_model_runs"
+  ON public.donor_ltv_model_runs FOR SELECT
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Service role can manage donor_ltv_model_runs"
+  ON public.donor_ltv_model_runs FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+COMMENT ON COLUMN public.donor_ltv_model_runs.calibration_error IS
+  'Count-weighted |mean predicted - mean actual| over predicted-value deciles, divided by mean actual holdout value. 0 = perfectly calibrated.';
+COMMENT ON COLUMN public.donor_ltv_model_runs.interval_coverage IS
+  'Share of backtest donors whose actual holdout value fell inside their 80% interval (target 0.8). NULL for models without intervals.';
+
+-- ----------------------------------------------------------
+-- 2. Prediction intervals
+-- ----------------------------------------------------------
+ALTER TABLE public.donor_ltv_predictions
+  ADD COLUMN IF NOT EXISTS predicted_ltv_90_low NUMERIC,
+  ADD COLUMN IF NOT EXISTS predicted_ltv_90_high NUMERIC,
+  ADD COLUMN IF NOT EXISTS predicted_ltv_365_low NUMERIC,
+  ADD COLUMN IF NOT EXISTS predicted_ltv_365_high NUMERIC,
+  ADD COLUMN IF NOT EXISTS p_alive NUMERIC,
+  ADD COLUMN IF NOT EXISTS expected_donations_365 NUMERIC,
+  ADD COLUMN IF NOT EXISTS model_run_id UUID REFERENCES public.donor_ltv_model_runs(id) ON DELETE SET NULL;
@@ -0,0 +1,342 @@
+-- ==========================================================
+-- DONOR IDENTITY GRAPH
+--
+-- donor_key ('donor_' + 6 hex chars of md5(email)) collides at scale
+-- and splits one person across emails and phones. resolve-donor-
+-- identities now links email hashes, phone hashes, name+ZIP and
+-- ActBlue donor IDs into persistent persons (_shared/identityGraph.ts):
+-- 1. actblue_transactions.actblue_donor_id from CSV exports
+-- 2. donor_persons + donor_person_identifiers: the graph itself
+-- 3. donor_identity_overrides + donor_identity_events: manual
+--    merge / unmerge and the audit trail of every merge and split
+-- 4. person_id on demographics, LTV predictions and journeys.
+--    donor_ltv_predictions.donor_key and donor_journeys.donor_key
+--    now hold the person id for resolved donors.
+-- 5. Segments evaluate one row per person
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. ActBlue donor ID
+-- ----------------------------------------------------------
+ALTER TABLE public.actblue_transactions
+  ADD COLUMN IF NOT EXISTS actblue_donor_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_actblue_transactions_org_actblue_donor
+  ON public.actblue_transactions (organization_id, actblue_donor_id)
+  WHERE actblue_donor_id IS NOT NULL;
+
+-- ----------------------------------------------------------
+-- 2. Persons and their identifiers
+-- A merged person keeps its row with merged_into_person_id set,
+-- so ids stored elsewhere still resolve.
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.donor_persons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  display_name TEXT,
+  primary_email TEXT,
+  merged_into_person_id UUID REFERENCES public.donor_persons(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_donor_persons_org
+  ON public.donor_persons (organization_id)
+  WHERE merged_into_person_id IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.donor_person_identifiers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  person_id UUID NOT NULL REFERENCES public.donor_persons(id) ON DELETE CASCADE,
+  identifier_type TEXT NOT NULL CHECK (identifier_type IN ('actblue_donor_id', 'email', 'phone', 'name_zip')),
+  -- SHA-256 hex (phone / email match _shared/phoneHash.ts)
+  identifier_hash TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'actblue',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, identifier_type, identifier_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_donor_person_identifiers_person
+  ON public.donor_person_identifiers (person_id);
+
+ALTER TABLE public.donor_persons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.donor_person_identifiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view donor_persons"
+  ON public.donor_persons FOR SELECT
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Service role can manage donor_persons"
+  ON public.donor_persons FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Org members can view donor_person_identifiers"
+  ON public.donor_person_identifiers FOR SELECT
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Service role can manage donor_person_identifiers"
+  ON public.donor_person_identifiers FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- ----------------------------------------------------------
+-- 3. Manual overrides and audit trail
+-- Identifiers are "type:hash" keys. A merge override links two
+-- identifiers; a split override keeps them apart on every future
+-- resolution.
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.donor_identity_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  override_type TEXT NOT NULL CHECK (override_type IN ('merge', 'split')),
+  identifier_a TEXT NOT NULL,
+  identifier_b TEXT NOT NULL,
+  created_by UUID,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, override_type, identifier_a, identifier_b)
+);
+
+CREATE TABLE IF NOT EXISTS public.donor_identity_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  -- merge: related persons were absorbed into person_id
+  -- split: identifiers moved from person_id to related persons
+  -- unmerge: a manual split, optionally restoring a merged person
+  event_type TEXT NOT NULL CHECK (event_type IN ('merge', 'split', 'unmerge')),
+  person_id UUID NOT NULL,
+  related_person_ids UUID[] NOT NULL DEFAULT '{}',
+  identifiers TEXT[] NOT NULL DEFAULT '{}',
+  is_manual BOOLEAN NOT NULL DEFAULT false,
+  actor_user_id UUID,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_donor_identity_events_person
+  ON public.donor_identity_events (organization_id, person_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_donor_identity_events_related
+  ON public.donor_identity_events USING GIN (related_person_ids);
+
+ALTER TABLE public.donor_identity_overrides ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.donor_identity_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view donor_identity_overrides"
+  ON public.donor_identity_overrides FOR SELECT
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Service role can manage donor_identity_overrides"
+  ON public.donor_identity_overrides FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+CREATE POLICY "Org members can view donor_identity_events"
+  ON public.donor_identity_events FOR SELECT
+  USING (
+    public.user_belongs_to_organization(organization_id) OR
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
+
+CREATE POLICY "Service role can manage donor_identity_events"
+  ON public.donor_identity_events FOR ALL
+  USING (auth.role() = 'service_role')
+  WITH CHECK (auth.role() = 'service_role');
+
+-- ----------------------------------------------------------
+-- 4. person_id on donor-keyed tables
+-- ----------------------------------------------------------
+ALTER TABLE public.donor_demographics
+  ADD COLUMN IF NOT EXISTS person_id UUID REFERENCES public.donor_persons(id) ON DELETE SET NULL;
+ALTER TABLE public.donor_ltv_predictions
+  ADD COLUMN IF NOT EXISTS person_id UUID REFERENCES public.donor_persons(id) ON DELETE SET NULL;
+ALTER TABLE public.donor_journeys
+  ADD COLUMN IF NOT EXISTS person_id UUID REFERENCES public.donor_persons(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_donor_demographics_person
+  ON public.donor_demographics (organization_id, person_id);
+CREATE INDEX IF NOT EXISTS idx_donor_ltv_predictions_person
+  ON public.donor_ltv_predictions (organization_id, person_id);
+CREATE INDEX IF NOT EXISTS idx_donor_journeys_person
+  ON public.donor_journeys (organization_id, person_id);
+
+-- Point demographics at persons via their email identifier and refresh
+-- each person's name / primary email (earliest-giving email wins)
+CREATE OR REPLACE FUNCTION public.sync_donor_person_ids(_organization_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public', 'extensions'
+AS $$
+DECLARE
+  v_updated integer;
+BEGIN
+  UPDATE donor_demographics dd
+  SET person_id = i.person_id
+  FROM donor_person_identifiers i
+  WHERE dd.organization_id = _organization_id
+    AND i.organization_id = _organization_id
+    AND i.identifier_type = 'email'
+    AND i.identifier_hash = encode(digest(lower(trim(dd.donor_email)), 'sha256'), 'hex')
+    AND dd.person_id IS DISTINCT FROM i.person_id;
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  UPDATE donor_persons p
+  SET primary_email = d.donor_email,
+      display_name = d.display_name,
+      updated_at = now()
+  FROM (
+    SELECT DISTINCT ON (dd.person_id)
+      dd.person_id,
+      dd.donor_email,
+      NULLIF(trim(concat_ws(' ', dd.first_name, dd.last_name)), '') AS display_name
+    FROM donor_demographics dd
+    WHERE dd.organization_id = _organization_id
+      AND dd.person_id IS NOT NULL
+    ORDER BY dd.person_id, dd.first_donation_date ASC NULLS LAST, dd.id
+  ) d
+  WHERE p.id = d.person_id
+    AND (p.primary_email IS DISTINCT FROM d.donor_email OR p.display_name IS DISTINCT FROM d.display_name);
+
+  RETURN v_updated;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sync_donor_person_ids(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.sync_donor_person_ids(uuid) TO service_role;
+
+-- ----------------------------------------------------------
+-- 5. Segments: one row per person
+-- Demographics rows (one per email) are rolled up by person_id;
+-- donors not yet resolved stay one row each. Profile fields come
+-- from the person's earliest-giving email. LTV joins on person_id.
+-- ----------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.donor_segment_source_sql(_with_attribution boolean)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT format($source$
+    person_rows AS (
+      SELECT
+        dd.*,
+        SUM(COALESCE(dd.total_donated, 0)) OVER person AS person_total_donated,
+        SUM(COALESCE(dd.donation_count, 0)) OVER person AS person_donation_count,
+        MIN(dd.first_donation_date) OVER person AS person_first_donation_date,
+        MAX(dd.last_donation_date) OVER person AS person_last_donation_date,
+        bool_or(COALESCE(dd.is_recurring, false)) OVER person AS person_is_recurring,
+        row_number() OVER (
+          PARTITION BY COALESCE(dd.person_id, dd.id)
+          ORDER BY dd.first_donation_date ASC NULLS LAST, dd.id
+        ) AS person_rank
+      FROM donor_demographics dd
+      WHERE dd.organization_id = $1
+      WINDOW person AS (PARTITION BY COALESCE(dd.person_id, dd.id))
+    ),
+    donors AS (
+      SELECT
+        dd.id,
+        dd.person_id,
+        dd.donor_key,
+        dd.donor_email,
+        dd.phone,
+        dd.first_name,
+        dd.last_name,
+        dd.state,
+        dd.city,
+        dd.zip,
+        dd.person_total_donated AS total_donated,
+        dd.person_donation_count AS donation_count,
+        dd.person_first_donation_date AS first_donation_date,
+        dd.person_last_donation_date AS last_donation_date,
+        dd.person_is_recurring AS is_recurring,
+        dd.employer,
+        dd.occupation,
+        ltv.segment,
+        ltv.churn_risk_label,
+        ltv.predicted_ltv_90,
+        ltv.predicted_ltv_180,
+        CASE WHEN dd.person_last_donation_date IS NULL THEN 999
+          ELSE floor(extract(epoch FROM (now() - dd.person_last_donation_date)) / 86400)::integer
+        END AS days_since_donation,
+        CASE WHEN dd.person_donation_count > 0
+          THEN dd.person_total_donated / dd.person_donation_count ELSE 0
+        END AS avg_donation,
+        EXISTS (
+          SELECT 1 FROM actblue_transactions t
+          WHERE t.organization_id = dd.organization_id
+            AND t.transaction_type = 'refund'
+            AND t.donor_email IN (
+              SELECT o.donor_email FROM donor_demographics o
+              WHERE o.organization_id = dd.organization_id
+                AND (o.id = dd.id OR o.person_id = dd.person_id)
+            )
+        ) AS has_refund,
+        COALESCE(attr.channels, '{}') AS attributed_channels,
+        COALESCE(attr.topics, '{}') AS attributed_topics,
+        COALESCE(attr.pain_points, '{}') AS attributed_pain_points,
+        COALESCE(attr.value_appeals, '{}') AS attributed_values
+      FROM person_rows dd
+      LEFT JOIN LATERAL (
+        SELECT l.segment, l.churn_risk_label, l.predicted_ltv_90, l.predicted_ltv_180
+        FROM donor_ltv_predictions l
+        WHERE l.organization_id = dd.organization_id
+          AND CASE WHEN dd.person_id IS NOT NULL
+            THEN l.person_id = dd.person_id
+            ELSE l.donor_key = dd.donor_key
+          END
+        ORDER BY l.calculated_at DESC
+        LIMIT 1
+      ) ltv ON true
+      %1$s
+      WHERE dd.person_rank = 1
+    ),
+    tiered AS (
+      SELECT d.*,
+        array_remove(ARRAY[
+          CASE WHEN d.total_donated >= 1000 THEN 'major'
+               WHEN d.total_donated >= 250 THEN 'mid'
+               ELSE 'grassroots' END,
+          CASE WHEN d.donation_count >= 5 THEN 'repeat' END,
+          CASE WHEN d.donation_count = 1 THEN 'one_time' END,
+          CASE WHEN d.days_since_donation <= 90 THEN 'active'
+               WHEN d.days_since_donation <= 180 THEN 'lapsing'
+               ELSE 'lapsed' END
+        ], NULL) AS donor_tier
+      FROM donors d
+    )
+  $source$,
+  CASE WHEN _with_attribution
+    THEN 'LEFT JOIN LATERAL public.donor_segment_attribution(dd.organization_id, dd.donor_email) attr ON true'
+    ELSE 'LEFT JOIN LATERAL (SELECT NULL::text[] AS channels, NULL::text[] AS topics, NULL::text[] AS pain_points, NULL::text[] AS value_appeals) attr ON true'
+  END);
+$$;
+
+-- ----------------------------------------------------------
+-- 6. Nightly resolution, ahead of journeys and LTV
+-- ----------------------------------------------------------
+INSERT INTO scheduled_jobs (job_name, job_type, description, schedule, endpoint, is_active)
+VALUES (
+  'Donor Identity Resolution',
+  'resolve_donor_identities',
+  'Link donor emails, phones, name+ZIP and ActBlue donor IDs into persistent person IDs',
+  '0 4 * * *',
+  'resolve-donor-identities',
+  true
+)
+ON CONFLICT (job_name) DO UPDATE SET
+  job_type = EXCLUDED.job_type,
+  schedule = EXCLUDED.schedule,
+  endpoint = EXCLUDED.endpoint,
+  is_active = EXCLUDED.is_active;
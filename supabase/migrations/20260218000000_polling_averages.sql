@@ -0,0 +1,103 @@
+-- ==========================================================
+-- POLLING AVERAGES
+--
+-- Polling alerts fired on the raw change between consecutive
+-- polls, so one outlier poll was enough to trigger them.
+-- fetch-polling-data now builds a daily average per race and
+-- candidate (_shared/pollingAverage.ts) and alerts only when the
+-- average moves beyond its noise band:
+-- 1. Approval / issue polls share one race_id per poll type
+--    (it used to embed the date and pollster, one race per poll),
+--    and the poll_type / source checks accept what the scraper
+--    actually writes
+-- 2. polling_averages: daily average, 95% band and trend
+-- 3. polling_house_effects: each pollster's lean per candidate
+-- 4. polling_alerts carry the candidate, as-of date and noise band
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Stable race ids and scraper values
+-- ----------------------------------------------------------
+ALTER TABLE public.polling_data DROP CONSTRAINT IF EXISTS polling_data_poll_type_check;
+ALTER TABLE public.polling_data DROP CONSTRAINT IF EXISTS polling_data_source_check;
+
+UPDATE public.polling_data
+SET race_id = poll_type
+WHERE (poll_type = 'presidential_approval' OR poll_type LIKE 'issue\_%')
+  AND race_id IS DISTINCT FROM poll_type;
+
+CREATE INDEX IF NOT EXISTS idx_polling_race_candidate
+  ON public.polling_data (race_id, candidate_name, poll_date DESC);
+
+-- ----------------------------------------------------------
+-- 2. Daily averages
+-- One row per race, candidate and day; rebuilt whenever a race
+-- gets a new poll, since house effects revise the whole series.
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.polling_averages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  race_id TEXT NOT NULL,
+  race_name TEXT,
+  poll_type TEXT NOT NULL,
+  state TEXT,
+  candidate_name TEXT NOT NULL,
+  average_date DATE NOT NULL,
+  average NUMERIC NOT NULL,
+  lower_bound NUMERIC NOT NULL,
+  upper_bound NUMERIC NOT NULL,
+  std_error NUMERIC NOT NULL,
+  -- Points per week over the trailing two weeks; set on the latest day only
+  trend_per_week NUMERIC,
+  poll_count INTEGER NOT NULL DEFAULT 0,
+  effective_sample_size NUMERIC,
+  calculated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (race_id, candidate_name, average_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_polling_averages_type_date
+  ON public.polling_averages (poll_type, average_date DESC);
+
+ALTER TABLE public.polling_averages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users view polling averages"
+  ON public.polling_averages FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role manages polling averages"
+  ON public.polling_averages FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
+
+-- ----------------------------------------------------------
+-- 3. House effects
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.polling_house_effects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  race_id TEXT NOT NULL,
+  pollster TEXT NOT NULL,
+  candidate_name TEXT NOT NULL,
+  house_effect NUMERIC NOT NULL,
+  poll_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (race_id, pollster, candidate_name)
+);
+
+ALTER TABLE public.polling_house_effects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users view polling house effects"
+  ON public.polling_house_effects FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role manages polling house effects"
+  ON public.polling_house_effects FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
+
+-- ----------------------------------------------------------
+-- 4. Alert context
+-- ----------------------------------------------------------
+ALTER TABLE public.polling_alerts
+  ADD COLUMN IF NOT EXISTS candidate_name TEXT,
+  ADD COLUMN IF NOT EXISTS as_of_date DATE,
+  ADD COLUMN IF NOT EXISTS noise_band NUMERIC;
+
+CREATE INDEX IF NOT EXISTS idx_polling_alerts_race_candidate
+  ON public.polling_alerts (race_id, candidate_name, alert_type, as_of_date DESC);
@@ -0,0 +1,103 @@
+-- ==========================================================
+-- CUSTOM DASHBOARDS
+--
+-- /client/dashboard/custom redirected to the fixed dashboard and
+-- CustomizableDashboard only kept layouts in localStorage. Layouts
+-- are now stored server-side so they follow the user across devices
+-- and can be shared with the whole organization:
+-- 1. dashboard_layouts: a named set of widgets (type, grid position,
+--    per-widget date range). user_id NULL marks an org-shared layout;
+--    org layouts carry an audience so finance and digital staff can
+--    get different home screens
+-- 2. dashboard_home_preferences: which audience a user belongs to and
+--    which layout they open by default
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Layouts
+-- widgets: [{ id, type, x, y, w, h, dateRange? }] where dateRange is
+-- { preset, startDate?, endDate? } and a missing value means the
+-- dashboard's global range.
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.dashboard_layouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  audience TEXT NOT NULL DEFAULT 'general' CHECK (audience IN ('general', 'finance', 'digital')),
+  widgets JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Org layouts: the default for their audience
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dashboard_layouts_org_user
+  ON public.dashboard_layouts (organization_id, user_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dashboard_layouts_org_default
+  ON public.dashboard_layouts (organization_id, audience)
+  WHERE is_default AND user_id IS NULL;
+
+ALTER TABLE public.dashboard_layouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own dashboard layouts"
+  ON public.dashboard_layouts FOR ALL TO authenticated
+  USING (user_id = auth.uid() AND public.user_belongs_to_organization(organization_id))
+  WITH CHECK (user_id = auth.uid() AND public.user_belongs_to_organization(organization_id));
+
+CREATE POLICY "Org members view shared dashboard layouts"
+  ON public.dashboard_layouts FOR SELECT TO authenticated
+  USING (
+    user_id IS NULL
+    AND (public.user_belongs_to_organization(organization_id) OR public.has_role(auth.uid(), 'admin'::app_role))
+  );
+
+CREATE POLICY "Org managers manage shared dashboard layouts"
+  ON public.dashboard_layouts FOR ALL TO authenticated
+  USING (
+    user_id IS NULL
+    AND (
+      public.has_org_role(organization_id, ARRAY['owner', 'admin', 'manager'])
+      OR (public.user_belongs_to_organization(organization_id) AND public.is_org_admin_or_manager())
+      OR public.has_role(auth.uid(), 'admin'::app_role)
+    )
+  )
+  WITH CHECK (
+    user_id IS NULL
+    AND (
+      public.has_org_role(organization_id, ARRAY['owner', 'admin', 'manager'])
+      OR (public.user_belongs_to_organization(organization_id) AND public.is_org_admin_or_manager())
+      OR public.has_role(auth.uid(), 'admin'::app_role)
+    )
+  );
+
+CREATE POLICY "Service role manages dashboard layouts"
+  ON public.dashboard_layouts FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
+
+-- ----------------------------------------------------------
+-- 2. Home screen preferences
+-- layout_id NULL falls back to the org default for the audience,
+-- then to the built-in template for it.
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.dashboard_home_preferences (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  audience TEXT NOT NULL DEFAULT 'general' CHECK (audience IN ('general', 'finance', 'digital')),
+  layout_id UUID REFERENCES public.dashboard_layouts(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, organization_id)
+);
+
+ALTER TABLE public.dashboard_home_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage their own dashboard home"
+  ON public.dashboard_home_preferences FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid() AND public.user_belongs_to_organization(organization_id));
+
+CREATE POLICY "Service role manages dashboard homes"
+  ON public.dashboard_home_preferences FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
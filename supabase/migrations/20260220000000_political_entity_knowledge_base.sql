@@ -0,0 +1,249 @@
+-- ==========================================================
+-- POLITICAL ENTITY KNOWLEDGE BASE
+--
+-- entity-resolver matched against a hardcoded CANONICAL_ENTITIES
+-- array and extract-trend-entities against the static lists in
+-- _shared/politicalEntities.ts, so every new governor, candidate
+-- or cabinet pick needed a code change. political_entities becomes
+-- the single knowledge base they all resolve against:
+-- 1. Stable entity_key per entity (bioguide:<id> for members of
+--    Congress, kb:<slug> otherwise), plus the facts used to tell
+--    namesakes apart: chamber, district, committees, surname and a
+--    prominence prior ("Harris" the former VP vs Rep. Andy Harris)
+-- 2. sync-congress-bills keeps members of Congress current from
+--    Congress.gov; admins curate everything else
+-- 3. Seed with the entities that used to live in code
+-- 4. entity_aliases resolutions point at the entity they resolved to
+--    and are dropped when an admin edits that entity
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Knowledge base columns
+-- ----------------------------------------------------------
+ALTER TABLE public.political_entities
+  ADD COLUMN IF NOT EXISTS entity_key TEXT,
+  ADD COLUMN IF NOT EXISTS bioguide_id TEXT,
+  ADD COLUMN IF NOT EXISTS surname TEXT,
+  ADD COLUMN IF NOT EXISTS chamber TEXT CHECK (chamber IN ('senate', 'house')),
+  ADD COLUMN IF NOT EXISTS district TEXT,
+  ADD COLUMN IF NOT EXISTS committees TEXT[] NOT NULL DEFAULT '{}',
+  -- Prior used to break ties between namesakes (0 = obscure, 1 = household name)
+  ADD COLUMN IF NOT EXISTS prominence NUMERIC(3,2) NOT NULL DEFAULT 0.5 CHECK (prominence BETWEEN 0 AND 1),
+  -- Who created the row; sync only rewrites office on 'congress' rows
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'admin' CHECK (source IN ('seed', 'congress', 'admin')),
+  ADD COLUMN IF NOT EXISTS notes TEXT,
+  ADD COLUMN IF NOT EXISTS last_synced_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Rows created before the knowledge base get a slug key
+UPDATE public.political_entities
+SET entity_key = 'kb:' || trim(BOTH '-' FROM lower(regexp_replace(canonical_name, '[^a-zA-Z0-9]+', '-', 'g')))
+WHERE entity_key IS NULL;
+
+ALTER TABLE public.political_entities ALTER COLUMN entity_key SET NOT NULL;
+
+-- Namesakes are allowed now that entity_key identifies an entity
+ALTER TABLE public.political_entities DROP CONSTRAINT IF EXISTS political_entities_canonical_name_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_political_entities_entity_key
+  ON public.political_entities (entity_key);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_political_entities_bioguide
+  ON public.political_entities (bioguide_id)
+  WHERE bioguide_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_political_entities_surname
+  ON public.political_entities (lower(surname))
+  WHERE surname IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_political_entities_updated_at ON public.political_entities;
+CREATE TRIGGER update_political_entities_updated_at
+  BEFORE UPDATE ON public.political_entities
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ----------------------------------------------------------
+-- 2. Admin curation
+-- Reads stay public (existing policy); admins can write.
+-- ----------------------------------------------------------
+DROP POLICY IF EXISTS "Admins manage political_entities" ON public.political_entities;
+CREATE POLICY "Admins manage political_entities" ON public.political_entities
+  FOR ALL TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- ----------------------------------------------------------
+-- 3. Seed
+-- Bare surnames are only aliases where they are unambiguous in
+-- practice; titles ("Sen.", "Justice", "Rep.") are handled by the
+-- resolver, so "Justice Thomas" needs no alias.
+-- ----------------------------------------------------------
+INSERT INTO public.political_entities
+  (entity_key, canonical_name, entity_type, aliases, party, state, office, chamber, bioguide_id, surname, policy_domains, prominence, source)
+SELECT v.entity_key, v.canonical_name, v.entity_type, v.aliases, v.party, v.state, v.office, v.chamber, v.bioguide_id, v.surname,
+       v.policy_domains, v.prominence, 'seed'
+FROM (VALUES
+  -- Executive branch
+  ('kb:donald-trump', 'Donald Trump', 'politician', ARRAY['trump', 'donald j trump', 'potus'], 'R', NULL, 'President', NULL, NULL, 'Trump', ARRAY[]::TEXT[], 1.00),
+  ('kb:jd-vance', 'JD Vance', 'politician', ARRAY['vance', 'j d vance'], 'R', 'OH', 'Vice President', NULL, NULL, 'Vance', ARRAY[]::TEXT[], 0.90),
+  ('kb:marco-rubio', 'Marco Rubio', 'politician', ARRAY['rubio'], 'R', 'FL', 'Secretary of State', NULL, NULL, 'Rubio', ARRAY['Foreign Policy'], 0.80),
+  ('kb:pete-hegseth', 'Pete Hegseth', 'politician', ARRAY['hegseth'], 'R', NULL, 'Secretary of Defense', NULL, NULL, 'Hegseth', ARRAY['Foreign Policy'], 0.75),
+  ('kb:joe-biden', 'Joe Biden', 'politician', ARRAY['biden', 'joseph biden'], 'D', NULL, 'Former President', NULL, NULL, 'Biden', ARRAY[]::TEXT[], 0.85),
+  ('kb:kamala-harris', 'Kamala Harris', 'politician', ARRAY['harris'], 'D', 'CA', 'Former Vice President', NULL, NULL, 'Harris', ARRAY[]::TEXT[], 0.85),
+  ('kb:barack-obama', 'Barack Obama', 'politician', ARRAY['obama'], 'D', NULL, 'Former President', NULL, NULL, 'Obama', ARRAY[]::TEXT[], 0.80),
+  ('kb:mike-pence', 'Mike Pence', 'politician', ARRAY['pence'], 'R', 'IN', 'Former Vice President', NULL, NULL, 'Pence', ARRAY[]::TEXT[], 0.60),
+  ('kb:merrick-garland', 'Merrick Garland', 'politician', ARRAY['garland'], 'D', NULL, 'Former Attorney General', NULL, NULL, 'Garland', ARRAY['Criminal Justice'], 0.50),
+  ('kb:christopher-wray', 'Christopher Wray', 'politician', ARRAY['wray', 'chris wray'], NULL, NULL, 'Former FBI Director', NULL, NULL, 'Wray', ARRAY['Criminal Justice'], 0.50),
+
+  -- Congress (bioguide IDs let sync-congress-bills attach to these rows)
+  ('kb:chuck-schumer', 'Chuck Schumer', 'politician', ARRAY['schumer', 'charles schumer'], 'D', 'NY', 'Senate Minority Leader', 'senate', 'S000148', 'Schumer', ARRAY[]::TEXT[], 0.85),
+  ('kb:john-thune', 'John Thune', 'politician', ARRAY['thune'], 'R', 'SD', 'Senate Majority Leader', 'senate', 'T000250', 'Thune', ARRAY[]::TEXT[], 0.80),
+  ('kb:mitch-mcconnell', 'Mitch McConnell', 'politician', ARRAY['mcconnell'], 'R', 'KY', 'U.S. Senator', 'senate', 'M000355', 'McConnell', ARRAY[]::TEXT[], 0.75),
+  ('kb:mike-johnson', 'Mike Johnson', 'politician', ARRAY[]::TEXT[], 'R', 'LA', 'Speaker of the House', 'house', 'J000299', 'Johnson', ARRAY[]::TEXT[], 0.85),
+  ('kb:hakeem-jeffries', 'Hakeem Jeffries', 'politician', ARRAY['jeffries'], 'D', 'NY', 'House Minority Leader', 'house', 'J000294', 'Jeffries', ARRAY[]::TEXT[], 0.80),
+  ('kb:nancy-pelosi', 'Nancy Pelosi', 'politician', ARRAY['pelosi'], 'D', 'CA', 'U.S. Representative', 'house', 'P000197', 'Pelosi', ARRAY[]::TEXT[], 0.75),
+  ('kb:bernie-sanders', 'Bernie Sanders', 'politician', ARRAY['bernie', 'sanders', 'bernard sanders'], 'I', 'VT', 'U.S. Senator', 'senate', 'S000033', 'Sanders', ARRAY[]::TEXT[], 0.80),
+  ('kb:elizabeth-warren', 'Elizabeth Warren', 'politician', ARRAY['warren'], 'D', 'MA', 'U.S. Senator', 'senate', 'W000817', 'Warren', ARRAY[]::TEXT[], 0.75),
+  ('kb:ted-cruz', 'Ted Cruz', 'politician', ARRAY['cruz'], 'R', 'TX', 'U.S. Senator', 'senate', 'C001098', 'Cruz', ARRAY[]::TEXT[], 0.75),
+  ('kb:alexandria-ocasio-cortez', 'Alexandria Ocasio-Cortez', 'politician', ARRAY['aoc', 'ocasio cortez'], 'D', 'NY', 'U.S. Representative', 'house', 'O000172', 'Ocasio-Cortez', ARRAY[]::TEXT[], 0.80),
+  ('kb:marjorie-taylor-greene', 'Marjorie Taylor Greene', 'politician', ARRAY['mtg'], 'R', 'GA', 'Former U.S. Representative', NULL, NULL, 'Greene', ARRAY[]::TEXT[], 0.60),
+
+  -- Governors
+  ('kb:gavin-newsom', 'Gavin Newsom', 'politician', ARRAY['newsom'], 'D', 'CA', 'Governor', NULL, NULL, 'Newsom', ARRAY[]::TEXT[], 0.80),
+  ('kb:ron-desantis', 'Ron DeSantis', 'politician', ARRAY['desantis'], 'R', 'FL', 'Governor', NULL, NULL, 'DeSantis', ARRAY[]::TEXT[], 0.75),
+
+  -- Supreme Court
+  ('kb:john-roberts', 'John Roberts', 'politician', ARRAY[]::TEXT[], NULL, NULL, 'Chief Justice', NULL, NULL, 'Roberts', ARRAY[]::TEXT[], 0.60),
+  ('kb:clarence-thomas', 'Clarence Thomas', 'politician', ARRAY[]::TEXT[], NULL, NULL, 'Supreme Court Justice', NULL, NULL, 'Thomas', ARRAY[]::TEXT[], 0.60),
+  ('kb:samuel-alito', 'Samuel Alito', 'politician', ARRAY['alito'], NULL, NULL, 'Supreme Court Justice', NULL, NULL, 'Alito', ARRAY[]::TEXT[], 0.60),
+  ('kb:sonia-sotomayor', 'Sonia Sotomayor', 'politician', ARRAY['sotomayor'], NULL, NULL, 'Supreme Court Justice', NULL, NULL, 'Sotomayor', ARRAY[]::TEXT[], 0.60),
+  ('kb:elena-kagan', 'Elena Kagan', 'politician', ARRAY['kagan'], NULL, NULL, 'Supreme Court Justice', NULL, NULL, 'Kagan', ARRAY[]::TEXT[], 0.60),
+  ('kb:neil-gorsuch', 'Neil Gorsuch', 'politician', ARRAY['gorsuch'], NULL, NULL, 'Supreme Court Justice', NULL, NULL, 'Gorsuch', ARRAY[]::TEXT[], 0.60),
+  ('kb:brett-kavanaugh', 'Brett Kavanaugh', 'politician', ARRAY['kavanaugh'], NULL, NULL, 'Supreme Court Justice', NULL, NULL, 'Kavanaugh', ARRAY[]::TEXT[], 0.60),
+  ('kb:amy-coney-barrett', 'Amy Coney Barrett', 'politician', ARRAY['acb'], NULL, NULL, 'Supreme Court Justice', NULL, NULL, 'Barrett', ARRAY[]::TEXT[], 0.60),
+  ('kb:ketanji-brown-jackson', 'Ketanji Brown Jackson', 'politician', ARRAY['kbj'], NULL, NULL, 'Supreme Court Justice', NULL, NULL, 'Jackson', ARRAY[]::TEXT[], 0.60),
+
+  -- Other public figures
+  ('kb:elon-musk', 'Elon Musk', 'person', ARRAY['musk'], NULL, NULL, NULL, NULL, NULL, 'Musk', ARRAY['Technology'], 0.85),
+  ('kb:vladimir-putin', 'Vladimir Putin', 'politician', ARRAY['putin'], NULL, NULL, 'President of Russia', NULL, NULL, 'Putin', ARRAY['Foreign Policy'], 0.85),
+
+  -- Institutions and parties
+  ('kb:supreme-court', 'Supreme Court', 'organization', ARRAY['scotus'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Civil Rights'], 0.70),
+  ('kb:white-house', 'White House', 'organization', ARRAY[]::TEXT[], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY[]::TEXT[], 0.70),
+  ('kb:congress', 'Congress', 'organization', ARRAY['us congress'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY[]::TEXT[], 0.70),
+  ('kb:republican-party', 'Republican Party', 'organization', ARRAY['gop', 'republicans'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY[]::TEXT[], 0.70),
+  ('kb:democratic-party', 'Democratic Party', 'organization', ARRAY['democrats', 'dems'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY[]::TEXT[], 0.70),
+  ('kb:nato', 'NATO', 'organization', ARRAY['north atlantic treaty organization'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Foreign Policy'], 0.60),
+  ('kb:united-nations', 'United Nations', 'organization', ARRAY['un'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Foreign Policy'], 0.60),
+  ('kb:european-union', 'European Union', 'organization', ARRAY['eu'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Foreign Policy'], 0.60),
+
+  -- Advocacy organizations
+  ('kb:aclu', 'ACLU', 'organization', ARRAY['american civil liberties union'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Civil Rights'], 0.50),
+  ('kb:naacp', 'NAACP', 'organization', ARRAY['national association for the advancement of colored people'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Civil Rights'], 0.50),
+  ('kb:planned-parenthood', 'Planned Parenthood', 'organization', ARRAY[]::TEXT[], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Healthcare', 'Civil Rights'], 0.50),
+  ('kb:nra', 'NRA', 'organization', ARRAY['national rifle association'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Civil Rights'], 0.50),
+  ('kb:afl-cio', 'AFL-CIO', 'organization', ARRAY[]::TEXT[], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Labor & Workers Rights'], 0.50),
+  ('kb:aarp', 'AARP', 'organization', ARRAY[]::TEXT[], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Healthcare', 'Economic Justice'], 0.50),
+  ('kb:sierra-club', 'Sierra Club', 'organization', ARRAY[]::TEXT[], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Environment'], 0.50),
+  ('kb:greenpeace', 'Greenpeace', 'organization', ARRAY[]::TEXT[], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Environment'], 0.50),
+  ('kb:human-rights-campaign', 'Human Rights Campaign', 'organization', ARRAY['hrc'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Civil Rights'], 0.50),
+  ('kb:heritage-foundation', 'Heritage Foundation', 'organization', ARRAY[]::TEXT[], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Economic Justice', 'Foreign Policy'], 0.50),
+  ('kb:brookings-institution', 'Brookings Institution', 'organization', ARRAY['brookings'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Economic Justice', 'Foreign Policy'], 0.50),
+
+  -- Federal agencies
+  ('kb:department-of-justice', 'Department of Justice', 'agency', ARRAY['doj', 'justice department'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Criminal Justice', 'Civil Rights'], 0.60),
+  ('kb:department-of-homeland-security', 'Department of Homeland Security', 'agency', ARRAY['dhs', 'homeland security'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Immigration'], 0.60),
+  ('kb:department-of-education', 'Department of Education', 'agency', ARRAY['education department'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Education'], 0.50),
+  ('kb:department-of-health-and-human-services', 'Department of Health and Human Services', 'agency', ARRAY['hhs'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Healthcare'], 0.50),
+  ('kb:department-of-housing-and-urban-development', 'Department of Housing and Urban Development', 'agency', ARRAY['hud'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Housing'], 0.50),
+  ('kb:department-of-energy', 'Department of Energy', 'agency', ARRAY['energy department'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Environment', 'Technology'], 0.50),
+  ('kb:department-of-transportation', 'Department of Transportation', 'agency', ARRAY['dot'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Economic Justice'], 0.50),
+  ('kb:department-of-labor', 'Department of Labor', 'agency', ARRAY['dol', 'labor department'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Labor & Workers Rights'], 0.50),
+  ('kb:department-of-agriculture', 'Department of Agriculture', 'agency', ARRAY['usda'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Environment', 'Economic Justice'], 0.50),
+  ('kb:department-of-commerce', 'Department of Commerce', 'agency', ARRAY['commerce department'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Economic Justice', 'Technology'], 0.50),
+  ('kb:department-of-interior', 'Department of Interior', 'agency', ARRAY['interior department', 'department of the interior'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Environment'], 0.50),
+  ('kb:department-of-veterans-affairs', 'Department of Veterans Affairs', 'agency', ARRAY['va'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Healthcare'], 0.50),
+  ('kb:department-of-state', 'Department of State', 'agency', ARRAY['state department'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Foreign Policy'], 0.60),
+  ('kb:department-of-treasury', 'Department of Treasury', 'agency', ARRAY['treasury', 'treasury department'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Economic Justice'], 0.60),
+  ('kb:department-of-defense', 'Department of Defense', 'agency', ARRAY['dod', 'pentagon', 'department of war'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Foreign Policy'], 0.60),
+  ('kb:doge', 'DOGE', 'agency', ARRAY['department of government efficiency'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Economic Justice'], 0.60),
+  ('kb:environmental-protection-agency', 'Environmental Protection Agency', 'agency', ARRAY['epa'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Environment'], 0.50),
+  ('kb:federal-bureau-of-investigation', 'Federal Bureau of Investigation', 'agency', ARRAY['fbi'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Criminal Justice'], 0.60),
+  ('kb:immigration-and-customs-enforcement', 'Immigration and Customs Enforcement', 'agency', ARRAY['ice'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Immigration'], 0.60),
+  ('kb:customs-and-border-protection', 'Customs and Border Protection', 'agency', ARRAY['cbp', 'border patrol'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Immigration'], 0.50),
+  ('kb:federal-trade-commission', 'Federal Trade Commission', 'agency', ARRAY['ftc'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Technology', 'Economic Justice'], 0.50),
+  ('kb:securities-and-exchange-commission', 'Securities and Exchange Commission', 'agency', ARRAY['sec'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Economic Justice'], 0.50),
+  ('kb:national-labor-relations-board', 'National Labor Relations Board', 'agency', ARRAY['nlrb'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Labor & Workers Rights'], 0.50),
+  ('kb:food-and-drug-administration', 'Food and Drug Administration', 'agency', ARRAY['fda'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Healthcare'], 0.50),
+  ('kb:centers-for-disease-control-and-prevention', 'Centers for Disease Control and Prevention', 'agency', ARRAY['cdc'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Healthcare'], 0.50),
+  ('kb:national-institutes-of-health', 'National Institutes of Health', 'agency', ARRAY['nih'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Healthcare'], 0.50),
+  ('kb:centers-for-medicare-and-medicaid-services', 'Centers for Medicare and Medicaid Services', 'agency', ARRAY['cms'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Healthcare'], 0.50),
+  ('kb:federal-communications-commission', 'Federal Communications Commission', 'agency', ARRAY['fcc'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Technology'], 0.50),
+  ('kb:federal-reserve', 'Federal Reserve', 'agency', ARRAY['the fed', 'federal reserve board'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Economic Justice'], 0.60),
+  ('kb:consumer-financial-protection-bureau', 'Consumer Financial Protection Bureau', 'agency', ARRAY['cfpb'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Economic Justice'], 0.50),
+  ('kb:social-security-administration', 'Social Security Administration', 'agency', ARRAY['ssa', 'social security'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Economic Justice'], 0.50),
+  ('kb:small-business-administration', 'Small Business Administration', 'agency', ARRAY['sba'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Economic Justice'], 0.40),
+  ('kb:federal-emergency-management-agency', 'Federal Emergency Management Agency', 'agency', ARRAY['fema'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Environment'], 0.50),
+  ('kb:bureau-of-alcohol-tobacco-firearms-and-explosives', 'Bureau of Alcohol, Tobacco, Firearms and Explosives', 'agency', ARRAY['atf'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Criminal Justice'], 0.40),
+  ('kb:drug-enforcement-administration', 'Drug Enforcement Administration', 'agency', ARRAY['dea'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Criminal Justice', 'Healthcare'], 0.40),
+  ('kb:bureau-of-prisons', 'Bureau of Prisons', 'agency', ARRAY['bop'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Criminal Justice'], 0.40),
+  ('kb:equal-employment-opportunity-commission', 'Equal Employment Opportunity Commission', 'agency', ARRAY['eeoc'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Labor & Workers Rights', 'Civil Rights'], 0.40),
+  ('kb:occupational-safety-and-health-administration', 'Occupational Safety and Health Administration', 'agency', ARRAY['osha'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Labor & Workers Rights'], 0.40),
+  ('kb:national-security-agency', 'National Security Agency', 'agency', ARRAY['nsa'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Technology', 'Foreign Policy'], 0.50),
+  ('kb:central-intelligence-agency', 'Central Intelligence Agency', 'agency', ARRAY['cia'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Foreign Policy'], 0.50),
+  ('kb:cybersecurity-and-infrastructure-security-agency', 'Cybersecurity and Infrastructure Security Agency', 'agency', ARRAY['cisa'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Technology'], 0.40),
+  ('kb:federal-election-commission', 'Federal Election Commission', 'agency', ARRAY['fec'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Voting Rights'], 0.40),
+  ('kb:u-s-citizenship-and-immigration-services', 'U.S. Citizenship and Immigration Services', 'agency', ARRAY['uscis'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Immigration'], 0.50),
+
+  -- Places that trend as entities
+  ('kb:china', 'China', 'location', ARRAY['prc', 'peoples republic of china'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Foreign Policy'], 0.70),
+  ('kb:russia', 'Russia', 'location', ARRAY['russian federation'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Foreign Policy'], 0.70),
+  ('kb:ukraine', 'Ukraine', 'location', ARRAY[]::TEXT[], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Foreign Policy'], 0.70),
+  ('kb:israel', 'Israel', 'location', ARRAY[]::TEXT[], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Foreign Policy'], 0.70),
+  ('kb:gaza', 'Gaza', 'location', ARRAY['gaza strip'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Foreign Policy'], 0.70),
+  ('kb:iran', 'Iran', 'location', ARRAY['islamic republic of iran'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Foreign Policy'], 0.70),
+  ('kb:north-korea', 'North Korea', 'location', ARRAY['dprk'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Foreign Policy'], 0.60),
+  ('kb:taiwan', 'Taiwan', 'location', ARRAY['republic of china'], NULL, NULL, NULL, NULL, NULL, NULL, ARRAY['Foreign Policy'], 0.60)
+) AS v(entity_key, canonical_name, entity_type, aliases, party, state, office, chamber, bioguide_id, surname, policy_domains, prominence)
+ON CONFLICT (entity_key) DO NOTHING;
+
+-- ----------------------------------------------------------
+-- 4. Resolution cache
+-- entity-resolver caches fuzzy / Wikidata resolutions in
+-- entity_aliases. Cached rows that point at a knowledge base entity
+-- are dropped when an admin edits or removes it so the next lookup
+-- resolves against the curated data.
+-- ----------------------------------------------------------
+ALTER TABLE public.entity_aliases
+  ADD COLUMN IF NOT EXISTS entity_key TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_entity_aliases_entity_key
+  ON public.entity_aliases (entity_key)
+  WHERE entity_key IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.invalidate_entity_alias_cache()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.canonical_name IS NOT DISTINCT FROM OLD.canonical_name
+     AND NEW.aliases IS NOT DISTINCT FROM OLD.aliases
+     AND NEW.entity_type IS NOT DISTINCT FROM OLD.entity_type
+     AND NEW.active IS NOT DISTINCT FROM OLD.active THEN
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.entity_aliases
+  WHERE entity_key = OLD.entity_key
+    AND resolution_method <> 'manual';
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS invalidate_entity_alias_cache ON public.political_entities;
+CREATE TRIGGER invalidate_entity_alias_cache
+  AFTER UPDATE OR DELETE ON public.political_entities
+  FOR EACH ROW EXECUTE FUNCTION public.invalidate_entity_alias_cache();
@@ -0,0 +1,175 @@
+-- ==========================================================
+-- STORY CLUSTERS (MinHash / LSH near-duplicate detection)
+--
+-- fetch-rss-feeds, fetch-google-news and bluesky-stream sign
+-- every new item with a MinHash signature (_shared/storyClusters.ts)
+-- and assign it to a story cluster as it arrives: the cluster of
+-- the most similar recent item sharing an LSH bucket, or a new one.
+-- This replaces the pairwise title comparisons in
+-- detect-duplicates and detect-breaking-news, and the cluster ID
+-- is what detect-trend-events dedupes mentions on.
+--
+-- 1. story_clusters: one row per story
+-- 2. story_cluster_items: signature and buckets per item, kept
+--    for the lookback window new items are compared against
+-- 3. story_cluster_id on articles, google_news_articles,
+--    bluesky_posts and breaking_news_clusters
+-- 4. Trigger keeping clusters and source rows in step with items
+-- 5. Candidate lookup by LSH bucket
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Clusters
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.story_clusters (
+  id UUID PRIMARY KEY,
+  title TEXT NOT NULL,
+  item_count INTEGER NOT NULL DEFAULT 0,
+  source_types TEXT[] NOT NULL DEFAULT '{}',
+  first_seen_at TIMESTAMPTZ NOT NULL,
+  last_seen_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_story_clusters_last_seen
+  ON public.story_clusters (last_seen_at DESC);
+
+ALTER TABLE public.story_clusters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users view story clusters"
+  ON public.story_clusters FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role manages story clusters"
+  ON public.story_clusters FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
+
+-- ----------------------------------------------------------
+-- 2. Signed items
+-- minhash holds 128 signed 32-bit values; lsh_buckets the 32
+-- "band:hash" keys derived from them.
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.story_cluster_items (
+  item_type TEXT NOT NULL CHECK (item_type IN ('rss', 'google_news', 'bluesky')),
+  item_id UUID NOT NULL,
+  cluster_id UUID NOT NULL REFERENCES public.story_clusters(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  title TEXT NOT NULL,
+  minhash INTEGER[] NOT NULL,
+  lsh_buckets TEXT[] NOT NULL,
+  similarity NUMERIC(4,3),
+  published_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (item_type, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_story_cluster_items_buckets
+  ON public.story_cluster_items USING GIN (lsh_buckets);
+
+CREATE INDEX IF NOT EXISTS idx_story_cluster_items_published
+  ON public.story_cluster_items (published_at);
+
+CREATE INDEX IF NOT EXISTS idx_story_cluster_items_cluster
+  ON public.story_cluster_items (cluster_id);
+
+ALTER TABLE public.story_cluster_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages story cluster items"
+  ON public.story_cluster_items FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
+
+-- ----------------------------------------------------------
+-- 3. Cluster IDs on source rows
+-- ----------------------------------------------------------
+ALTER TABLE public.articles
+  ADD COLUMN IF NOT EXISTS story_cluster_id UUID REFERENCES public.story_clusters(id) ON DELETE SET NULL;
+
+ALTER TABLE public.google_news_articles
+  ADD COLUMN IF NOT EXISTS story_cluster_id UUID REFERENCES public.story_clusters(id) ON DELETE SET NULL;
+
+ALTER TABLE public.bluesky_posts
+  ADD COLUMN IF NOT EXISTS story_cluster_id UUID REFERENCES public.story_clusters(id) ON DELETE SET NULL;
+
+ALTER TABLE public.breaking_news_clusters
+  ADD COLUMN IF NOT EXISTS story_cluster_id UUID REFERENCES public.story_clusters(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_articles_story_cluster
+  ON public.articles (story_cluster_id) WHERE story_cluster_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_google_news_articles_story_cluster
+  ON public.google_news_articles (story_cluster_id) WHERE story_cluster_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bluesky_posts_story_cluster
+  ON public.bluesky_posts (story_cluster_id) WHERE story_cluster_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_breaking_news_clusters_story_cluster
+  ON public.breaking_news_clusters (story_cluster_id) WHERE story_cluster_id IS NOT NULL;
+
+-- ----------------------------------------------------------
+-- 4. Keep clusters and source rows in step
+-- AFTER INSERT, so items skipped by ON CONFLICT DO NOTHING are
+-- not counted twice. The first item names the cluster.
+-- ----------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.apply_story_cluster_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO story_clusters (id, title, item_count, source_types, first_seen_at, last_seen_at)
+  VALUES (NEW.cluster_id, NEW.title, 1, ARRAY[NEW.item_type], NEW.published_at, NEW.published_at)
+  ON CONFLICT (id) DO UPDATE SET
+    item_count = story_clusters.item_count + 1,
+    source_types = CASE
+      WHEN NEW.item_type = ANY (story_clusters.source_types) THEN story_clusters.source_types
+      ELSE story_clusters.source_types || NEW.item_type
+    END,
+    first_seen_at = LEAST(story_clusters.first_seen_at, NEW.published_at),
+    last_seen_at = GREATEST(story_clusters.last_seen_at, NEW.published_at);
+
+  IF NEW.item_type = 'rss' THEN
+    UPDATE articles SET story_cluster_id = NEW.cluster_id WHERE id = NEW.item_id;
+  ELSIF NEW.item_type = 'google_news' THEN
+    UPDATE google_news_articles SET story_cluster_id = NEW.cluster_id WHERE id = NEW.item_id;
+  ELSE
+    UPDATE bluesky_posts SET story_cluster_id = NEW.cluster_id WHERE id = NEW.item_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_story_cluster_item ON public.story_cluster_items;
+CREATE TRIGGER apply_story_cluster_item
+  AFTER INSERT ON public.story_cluster_items
+  FOR EACH ROW EXECUTE FUNCTION public.apply_story_cluster_item();
+
+-- ----------------------------------------------------------
+-- 5. Candidates
+-- Items published since p_since sharing at least one bucket,
+-- newest first.
+-- ----------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.story_cluster_candidates(
+  p_buckets TEXT[],
+  p_since TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 5000
+)
+RETURNS TABLE (
+  item_type TEXT,
+  item_id UUID,
+  cluster_id UUID,
+  minhash INTEGER[]
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT i.item_type, i.item_id, i.cluster_id, i.minhash
+  FROM story_cluster_items i
+  WHERE i.lsh_buckets && p_buckets
+    AND i.published_at >= p_since
+  ORDER BY i.published_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 20000);
+$$;
+
+REVOKE ALL ON FUNCTION public.story_cluster_candidates(TEXT[], TIMESTAMPTZ, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.story_cluster_candidates(TEXT[], TIMESTAMPTZ, INTEGER) TO service_role;
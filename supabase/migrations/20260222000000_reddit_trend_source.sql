@@ -0,0 +1,73 @@
+-- ==========================================================
+-- REDDIT AS A TREND SOURCE
+--
+-- fetch-reddit-posts has been collecting subreddit hot lists,
+-- but nothing ran it on a schedule and detect-trend-events only
+-- read RSS, Google News and Bluesky. Reddit posts are now
+-- analyzed by batch-analyze-content (topics, sentiment) and
+-- counted as their own source, with their own baseline.
+--
+-- 1. trend_evidence accepts 'reddit'
+-- 2. Per-day Reddit baseline on trend_baselines
+-- 3. Fetch and analyze jobs
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Evidence source type
+-- ----------------------------------------------------------
+ALTER TABLE public.trend_evidence
+  DROP CONSTRAINT IF EXISTS trend_evidence_source_type_check;
+
+ALTER TABLE public.trend_evidence
+  ADD CONSTRAINT trend_evidence_source_type_check
+  CHECK (source_type IN ('rss', 'google_news', 'bluesky', 'reddit', 'article'));
+
+-- ----------------------------------------------------------
+-- 2. Reddit baseline
+-- social_mentions keeps counting Bluesky and Reddit together;
+-- these hold the Reddit share so its velocity can be measured
+-- against Reddit's own history rather than the combined one.
+--
+-- Key change: update-trend-baselines now keys every source,
+-- Bluesky included, through the shared normalizeEventKey
+-- (_shared/trendLanes.ts) instead of Bluesky's inline copy.
+-- Both lowercase, turn whitespace into '_' and drop anything
+-- outside [a-z0-9_], so existing event_key values are the same
+-- and no rekeying is needed. Any future change to
+-- normalizeEventKey does rekey trend_baselines: old rows stop
+-- matching until they age out of the 30-day window.
+-- ----------------------------------------------------------
+ALTER TABLE public.trend_baselines
+  ADD COLUMN IF NOT EXISTS reddit_mentions INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS reddit_hourly_average NUMERIC DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_reddit_posts_trend_window
+  ON public.reddit_posts (created_utc DESC)
+  WHERE ai_processed = true;
+
+-- ----------------------------------------------------------
+-- 3. Jobs
+-- ----------------------------------------------------------
+INSERT INTO scheduled_jobs (job_name, job_type, description, schedule, endpoint, is_active)
+VALUES
+  (
+    'Fetch Reddit Posts',
+    'fetch_reddit',
+    'Fetch hot posts from political subreddits',
+    '*/15 * * * *',
+    'fetch-reddit-posts',
+    true
+  ),
+  (
+    'Analyze Reddit Posts',
+    'analyze_reddit',
+    'Extract topics and sentiment from new Reddit posts for trend detection',
+    '5,20,35,50 * * * *',
+    'batch-analyze-content',
+    true
+  )
+ON CONFLICT (job_name) DO UPDATE SET
+  job_type = EXCLUDED.job_type,
+  schedule = EXCLUDED.schedule,
+  endpoint = EXCLUDED.endpoint,
+  is_active = EXCLUDED.is_active;
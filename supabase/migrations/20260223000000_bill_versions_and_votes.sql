@@ -0,0 +1,155 @@
+-- ==========================================================
+-- BILL TEXT VERSIONS, ROLL-CALL VOTES AND BILL ALERTS
+--
+-- sync-congress-bills stored bill metadata and the ten latest
+-- actions; fetch-bill-text fetched the newest text on demand
+-- and kept nothing. Now every text version is stored so
+-- BillDetail can diff them section by section (introduced vs.
+-- engrossed vs. enrolled), roll-call votes are ingested per
+-- member, and subscribers in bill_alerts are notified when a
+-- tracked bill is amended, scheduled for floor action or
+-- voted on.
+--
+-- 1. bill_text_versions: one row per GPO version
+-- 2. bill_roll_call_votes / bill_member_votes
+-- 3. bill_alert_events: what has already been announced
+-- 4. bill_alerts alert types
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Text versions
+-- version_code is GPO's suffix (ih, rh, eh, enr, ...); stage
+-- groups codes for the diff viewer.
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.bill_text_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_id UUID NOT NULL REFERENCES public.bills(id) ON DELETE CASCADE,
+  version_code TEXT NOT NULL,
+  version_name TEXT NOT NULL,
+  stage TEXT NOT NULL DEFAULT 'other'
+    CHECK (stage IN ('introduced', 'reported', 'engrossed', 'enrolled', 'other')),
+  version_date DATE,
+  text_url TEXT,
+  pdf_url TEXT,
+  text_content TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (bill_id, version_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_text_versions_bill
+  ON public.bill_text_versions (bill_id, version_date);
+
+ALTER TABLE public.bill_text_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users view bill text versions"
+  ON public.bill_text_versions FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role manages bill text versions"
+  ON public.bill_text_versions FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
+
+-- ----------------------------------------------------------
+-- 2. Roll-call votes
+-- member_id is the bioguide ID for House votes and the LIS ID
+-- for Senate votes (senate.gov does not publish bioguide IDs).
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.bill_roll_call_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_id UUID NOT NULL REFERENCES public.bills(id) ON DELETE CASCADE,
+  chamber TEXT NOT NULL CHECK (chamber IN ('house', 'senate')),
+  congress INTEGER NOT NULL,
+  session INTEGER NOT NULL,
+  roll_number INTEGER NOT NULL,
+  vote_date TIMESTAMPTZ,
+  question TEXT,
+  result TEXT,
+  yea_count INTEGER NOT NULL DEFAULT 0,
+  nay_count INTEGER NOT NULL DEFAULT 0,
+  present_count INTEGER NOT NULL DEFAULT 0,
+  not_voting_count INTEGER NOT NULL DEFAULT 0,
+  party_totals JSONB NOT NULL DEFAULT '{}'::jsonb,
+  source_url TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (bill_id, chamber, congress, session, roll_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_roll_call_votes_bill
+  ON public.bill_roll_call_votes (bill_id, vote_date DESC);
+
+CREATE TABLE IF NOT EXISTS public.bill_member_votes (
+  roll_call_id UUID NOT NULL REFERENCES public.bill_roll_call_votes(id) ON DELETE CASCADE,
+  member_id TEXT NOT NULL,
+  bioguide_id TEXT,
+  member_name TEXT NOT NULL,
+  party TEXT,
+  state TEXT,
+  position TEXT NOT NULL CHECK (position IN ('yea', 'nay', 'present', 'not_voting')),
+  PRIMARY KEY (roll_call_id, member_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_member_votes_bioguide
+  ON public.bill_member_votes (bioguide_id) WHERE bioguide_id IS NOT NULL;
+
+ALTER TABLE public.bill_roll_call_votes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bill_member_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users view bill roll call votes"
+  ON public.bill_roll_call_votes FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role manages bill roll call votes"
+  ON public.bill_roll_call_votes FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
+
+CREATE POLICY "Authenticated users view bill member votes"
+  ON public.bill_member_votes FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role manages bill member votes"
+  ON public.bill_member_votes FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
+
+-- ----------------------------------------------------------
+-- 3. Alert events
+-- event_key is stable per bill (version code, roll call, or
+-- action date + code + text hash), so a re-sync never sends
+-- the same alert twice.
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.bill_alert_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bill_id UUID NOT NULL REFERENCES public.bills(id) ON DELETE CASCADE,
+  event_key TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('amended', 'scheduled', 'voted')),
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  notified_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (bill_id, event_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_alert_events_bill
+  ON public.bill_alert_events (bill_id, occurred_at DESC);
+
+ALTER TABLE public.bill_alert_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages bill alert events"
+  ON public.bill_alert_events FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
+
+-- ----------------------------------------------------------
+-- 4. Alert types
+-- 'status_change' rows predate the split and keep receiving
+-- every event type.
+-- ----------------------------------------------------------
+ALTER TABLE public.bill_alerts
+  DROP CONSTRAINT IF EXISTS bill_alerts_alert_type_check;
+
+ALTER TABLE public.bill_alerts
+  ADD CONSTRAINT bill_alerts_alert_type_check
+  CHECK (alert_type IN ('status_change', 'amended', 'scheduled', 'voted'));
+
+CREATE INDEX IF NOT EXISTS idx_bill_alerts_bill_active
+  ON public.bill_alerts (bill_id, alert_type)
+  WHERE is_active = true;
@@ -0,0 +1,148 @@
+-- ==========================================================
+-- PER-ORGANIZATION THREAT TAXONOMIES
+--
+-- track-state-actions and fetch-executive-orders scored items
+-- against hardcoded keyword tiers tuned to one issue area.
+-- Scoring now runs on a taxonomy (issue categories, weighted
+-- terms, negations, severity thresholds; see
+-- _shared/threatTaxonomy.ts). The built-in default still sets
+-- relevance_score / threat_level on the shared rows, and each
+-- organization can publish its own taxonomy, scored into a
+-- separate per-org result:
+-- 1. threat_taxonomy_versions: every published version kept,
+--    one active per organization
+-- 2. publish_threat_taxonomy: numbers and activates a version
+--    (or reverts the org to the default)
+-- 3. threat_taxonomy_matches: per-org score and matched rules
+--    for state actions, executive orders and bills
+-- 4. matched_rules on state_actions / executive_orders for
+--    the default taxonomy
+-- ==========================================================
+
+-- ----------------------------------------------------------
+-- 1. Taxonomy versions
+-- taxonomy: { thresholds: { critical, high, medium },
+--   categories: [{ id, name, severity?, negations?,
+--   rules: [{ id, label, terms, weight, negations?, sources?,
+--   match_case?, organization? }] }] }
+-- Validated by the threat-taxonomy function before publishing.
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.threat_taxonomy_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  taxonomy JSONB NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_threat_taxonomy_versions_active
+  ON public.threat_taxonomy_versions (organization_id)
+  WHERE is_active;
+
+ALTER TABLE public.threat_taxonomy_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members view threat taxonomy versions"
+  ON public.threat_taxonomy_versions FOR SELECT TO authenticated
+  USING (public.user_belongs_to_organization(organization_id) OR public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Service role manages threat taxonomy versions"
+  ON public.threat_taxonomy_versions FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
+
+-- ----------------------------------------------------------
+-- 2. Publishing
+-- Versions are never edited: publishing adds version n+1 and
+-- makes it the active one. A NULL taxonomy deactivates every
+-- version so the org falls back to the default. Returns the
+-- new version id (NULL on revert).
+-- ----------------------------------------------------------
+CREATE OR REPLACE FUNCTION public.publish_threat_taxonomy(
+  p_organization_id UUID,
+  p_taxonomy JSONB,
+  p_notes TEXT DEFAULT NULL,
+  p_created_by UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version INTEGER;
+  v_id UUID;
+BEGIN
+  -- Serialize publishes per organization
+  PERFORM pg_advisory_xact_lock(hashtext('threat_taxonomy:' || p_organization_id::text));
+
+  UPDATE public.threat_taxonomy_versions
+  SET is_active = false
+  WHERE organization_id = p_organization_id AND is_active;
+
+  IF p_taxonomy IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+  FROM public.threat_taxonomy_versions
+  WHERE organization_id = p_organization_id;
+
+  INSERT INTO public.threat_taxonomy_versions (organization_id, version, taxonomy, is_active, notes, created_by)
+  VALUES (p_organization_id, v_version, p_taxonomy, true, p_notes, p_created_by)
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.publish_threat_taxonomy(UUID, JSONB, TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.publish_threat_taxonomy(UUID, JSONB, TEXT, UUID) TO service_role;
+
+-- ----------------------------------------------------------
+-- 3. Per-organization matches
+-- One row per org and item; rewritten whenever the item is
+-- scored again, and removed when it no longer matches.
+-- matched_rules: [{ category_id, category, rule_id, rule,
+-- term, weight }]
+-- ----------------------------------------------------------
+CREATE TABLE IF NOT EXISTS public.threat_taxonomy_matches (
+  organization_id UUID NOT NULL REFERENCES public.client_organizations(id) ON DELETE CASCADE,
+  source_type TEXT NOT NULL CHECK (source_type IN ('state_action', 'executive_order', 'bill')),
+  source_id UUID NOT NULL,
+  taxonomy_version_id UUID REFERENCES public.threat_taxonomy_versions(id) ON DELETE SET NULL,
+  taxonomy_version INTEGER NOT NULL,
+  score INTEGER NOT NULL DEFAULT 0,
+  threat_level TEXT NOT NULL CHECK (threat_level IN ('critical', 'high', 'medium', 'low')),
+  matched_rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+  affected_organizations TEXT[] NOT NULL DEFAULT '{}',
+  scored_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, source_type, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_threat_taxonomy_matches_level
+  ON public.threat_taxonomy_matches (organization_id, threat_level, scored_at DESC);
+
+ALTER TABLE public.threat_taxonomy_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members view threat taxonomy matches"
+  ON public.threat_taxonomy_matches FOR SELECT TO authenticated
+  USING (public.user_belongs_to_organization(organization_id) OR public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Service role manages threat taxonomy matches"
+  ON public.threat_taxonomy_matches FOR ALL TO service_role
+  USING (true) WITH CHECK (true);
+
+-- ----------------------------------------------------------
+-- 4. Default-taxonomy results on the shared rows
+-- ----------------------------------------------------------
+ALTER TABLE public.state_actions
+  ADD COLUMN IF NOT EXISTS threat_level TEXT,
+  ADD COLUMN IF NOT EXISTS affected_organizations TEXT[],
+  ADD COLUMN IF NOT EXISTS matched_rules JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.executive_orders
+  ADD COLUMN IF NOT EXISTS threat_level TEXT,
+  ADD COLUMN IF NOT EXISTS matched_rules JSONB NOT NULL DEFAULT '[]'::jsonb;
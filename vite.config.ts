@@ -24,6 +24,8 @@ export default defineConfig(({ mode }) => ({
         skipWaiting: true,
         // Increase cache size limit to 5MB
         maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
+        // Web Push + notification click handlers
+        importScripts: ['/push-sw.js'],
         // Don't precache very large images
         globIgnores: [
           '**/billboard-times-square-*.jpg',